@@ -212,6 +212,22 @@ CREATE POLICY "profiles_insert_self" ON public.profiles
 CREATE INDEX IF NOT EXISTS idx_profiles_referred_by ON public.profiles(referred_by)
 WHERE
   referred_by IS NOT NULL;
+-- Network placement: referred_by keeps the enrolling sponsor, placement_parent_id is only set when
+-- the member was placed somewhere else (spillover). network_parent_id is the edge of the network
+-- tree used for levels, team counts, capacity and phases.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS placement_parent_id uuid REFERENCES public.profiles(id);
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS placement_strategy text
+  CHECK (placement_strategy IN ('breadth_first', 'weakest_leg', 'sponsor_choice'));
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS placed_at timestamptz;
+-- Direct member whose leg receives the sponsor's spillover under the 'sponsor_choice' strategy
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS spillover_leg_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS network_parent_id uuid
+  GENERATED ALWAYS AS (COALESCE(placement_parent_id, referred_by)) STORED;
+CREATE INDEX IF NOT EXISTS idx_profiles_network_parent ON public.profiles(network_parent_id)
+WHERE
+  network_parent_id IS NOT NULL;
+COMMENT ON COLUMN public.profiles.placement_parent_id IS 'Placement parent when the member spilled over below the enrolling sponsor (referred_by)';
+COMMENT ON COLUMN public.profiles.network_parent_id IS 'Parent in the network tree: placement_parent_id, or referred_by when the member was placed directly';
 -- Function to recalculate team count for a specific user
 -- Only counts users with active subscriptions
 CREATE OR REPLACE FUNCTION public.recalculate_team_count(sponsor_id uuid)
@@ -229,7 +245,7 @@ BEGIN
   INNER JOIN
     public.subscriptions s ON s.user_id = p.id
   WHERE
-    p.referred_by = sponsor_id
+    p.network_parent_id = sponsor_id
     AND s.status = 'active';
   UPDATE
     public.profiles
@@ -241,7 +257,7 @@ BEGIN
   RETURN new_count;
 END;
 $$;
--- Function to update team counts when referred_by changes
+-- Function to update team counts when the network parent changes
 -- Note: INSERT no longer updates team_count automatically
 -- Team count is now updated only when subscription status changes
 CREATE OR REPLACE FUNCTION public.update_team_counts()
@@ -250,21 +266,21 @@ CREATE OR REPLACE FUNCTION public.update_team_counts()
   SECURITY DEFINER
   AS $$
 BEGIN
-  -- Handle UPDATE of referred_by field
+  -- Handle UPDATE of referred_by or placement_parent_id
   IF(TG_OP = 'UPDATE'
-      AND(OLD.referred_by IS DISTINCT FROM NEW.referred_by)) THEN
+      AND(OLD.network_parent_id IS DISTINCT FROM NEW.network_parent_id)) THEN
     -- Recalculate for old sponsor if exists
-    IF OLD.referred_by IS NOT NULL THEN
-      PERFORM public.recalculate_team_count(OLD.referred_by);
+    IF OLD.network_parent_id IS NOT NULL THEN
+      PERFORM public.recalculate_team_count(OLD.network_parent_id);
     END IF;
     -- Recalculate for new sponsor if exists
-    IF NEW.referred_by IS NOT NULL THEN
-      PERFORM public.recalculate_team_count(NEW.referred_by);
+    IF NEW.network_parent_id IS NOT NULL THEN
+      PERFORM public.recalculate_team_count(NEW.network_parent_id);
     END IF;
   -- Handle DELETE
   ELSIF(TG_OP = 'DELETE'
-      AND OLD.referred_by IS NOT NULL) THEN
-    PERFORM public.recalculate_team_count(OLD.referred_by);
+      AND OLD.network_parent_id IS NOT NULL) THEN
+    PERFORM public.recalculate_team_count(OLD.network_parent_id);
   END IF;
 
   IF TG_OP = 'DELETE' THEN
@@ -277,12 +293,61 @@ $$;
 -- Trigger for automatic team count updates
 DROP TRIGGER IF EXISTS trigger_update_team_counts ON public.profiles;
 CREATE TRIGGER trigger_update_team_counts
-  AFTER INSERT OR UPDATE OF referred_by OR DELETE ON public.profiles
+  AFTER INSERT OR UPDATE OF referred_by, placement_parent_id OR DELETE ON public.profiles
   FOR EACH ROW
   EXECUTE FUNCTION public.update_team_counts();
 -- Grant execute permissions
 GRANT EXECUTE ON FUNCTION public.recalculate_team_count(UUID) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.recalculate_team_count(UUID) TO service_role;
+-- Places a spilled-over member under p_parent_id. The parent row is locked and its level 1 seats
+-- are counted again, so two members racing for the last seat can't both take it. Paused members
+-- free their seat unless p_counts_paused. Returns false when the seat is gone; a member placed
+-- before keeps their placement.
+CREATE OR REPLACE FUNCTION public.place_network_member(
+  p_user_id uuid,
+  p_parent_id uuid,
+  p_strategy text,
+  p_max_seats integer,
+  p_counts_paused boolean,
+  p_placed_at timestamptz
+)
+  RETURNS boolean
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_seats integer;
+BEGIN
+  PERFORM 1 FROM public.profiles WHERE id = p_parent_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'placement_parent_not_found: %', p_parent_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COUNT(*) INTO v_seats
+  FROM public.profiles child
+  WHERE child.network_parent_id = p_parent_id
+    AND child.id <> p_user_id
+    AND (p_counts_paused OR NOT EXISTS (
+      SELECT 1 FROM public.subscriptions s WHERE s.user_id = child.id AND s.status = 'paused'
+    ));
+
+  IF v_seats >= p_max_seats THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.profiles
+  SET placement_parent_id = p_parent_id,
+      placement_strategy = p_strategy,
+      placed_at = p_placed_at
+  WHERE id = p_user_id
+    AND placement_parent_id IS NULL;
+
+  RETURN TRUE;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.place_network_member(uuid, uuid, text, integer, boolean, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.place_network_member(uuid, uuid, text, integer, boolean, timestamptz) TO service_role;
 -- ===========================================
 -- UTILITY FUNCTIONS
 -- ===========================================
@@ -347,6 +412,8 @@ DROP POLICY IF EXISTS "products_delete_admin" ON public.products;
 CREATE POLICY "products_delete_admin" ON public.products
   FOR DELETE
     USING (public.is_super_admin(auth.uid()));
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS point_value numeric(10, 2) NOT NULL DEFAULT 0 CHECK (point_value >= 0);
+COMMENT ON COLUMN public.products.point_value IS 'Volume points (PV) each unit adds to the buyer''s personal volume, independent of the price.';
 -- ===========================================
 -- 3. PLANS TABLE
 -- ===========================================
@@ -567,7 +634,7 @@ CREATE TABLE IF NOT EXISTS public.wallet_txns(
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
   delta_cents bigint NOT NULL,
-  reason text NOT NULL CHECK (reason IN ('phase_bonus', 'withdrawal', 'sale_commission', 'purchase', 'recharge', 'admin_adjustment')),
+  reason text NOT NULL CHECK (reason IN ('phase_bonus', 'withdrawal', 'sale_commission', 'purchase', 'recharge', 'admin_adjustment', 'commission_clawback', 'subscription_credit', 'order_refund', 'earnings_transfer')),
   meta jsonb NOT NULL DEFAULT '{}' ::jsonb,
   created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
 );
@@ -581,6 +648,134 @@ CREATE POLICY "wallet_txns_service_role" ON public.wallet_txns
   FOR ALL
     USING (auth.role() = 'service_role')
     WITH CHECK (auth.role() = 'service_role');
+ALTER TABLE public.wallet_txns DROP CONSTRAINT IF EXISTS wallet_txns_reason_check;
+ALTER TABLE public.wallet_txns ADD CONSTRAINT wallet_txns_reason_check
+  CHECK (reason IN ('phase_bonus', 'withdrawal', 'sale_commission', 'purchase', 'recharge', 'admin_adjustment', 'commission_clawback', 'subscription_credit', 'order_refund', 'earnings_transfer'));
+-- FX rates -----------------------------------------------------------------------
+-- 1 unit of base_currency = rate units of quote_currency. The latest row whose
+-- effective_at is not in the future is used for conversions.
+CREATE TABLE IF NOT EXISTS public.fx_rates(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency text NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency text NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate numeric(20, 10) NOT NULL CHECK (rate > 0),
+  effective_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  source text NOT NULL DEFAULT 'manual',
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CHECK (base_currency <> quote_currency)
+);
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair_effective ON public.fx_rates(base_currency, quote_currency, effective_at DESC);
+ALTER TABLE public.fx_rates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "fx_rates_read_authenticated" ON public.fx_rates;
+CREATE POLICY "fx_rates_read_authenticated" ON public.fx_rates
+  FOR SELECT
+    USING (auth.role() = 'authenticated');
+DROP POLICY IF EXISTS "fx_rates_service_role" ON public.fx_rates;
+CREATE POLICY "fx_rates_service_role" ON public.fx_rates
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Multi-currency wallets ---------------------------------------------------------
+-- wallets.balance_cents is held in wallets.currency (the member's payout currency);
+-- balances in any other currency live in wallet_balances.
+ALTER TABLE public.wallets ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+CREATE TABLE IF NOT EXISTS public.wallet_balances(
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  balance_cents bigint NOT NULL DEFAULT 0 CHECK (balance_cents >= 0),
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  PRIMARY KEY (user_id, currency)
+);
+ALTER TABLE public.wallet_balances ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "wallet_balances_read_self" ON public.wallet_balances;
+CREATE POLICY "wallet_balances_read_self" ON public.wallet_balances
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "wallet_balances_service_role" ON public.wallet_balances;
+CREATE POLICY "wallet_balances_service_role" ON public.wallet_balances
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+ALTER TABLE public.wallet_txns ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD';
+ALTER TABLE public.wallet_txns ADD COLUMN IF NOT EXISTS fx_rate numeric(20, 10);
+ALTER TABLE public.wallet_txns ADD COLUMN IF NOT EXISTS original_amount_cents bigint;
+ALTER TABLE public.wallet_txns ADD COLUMN IF NOT EXISTS original_currency text;
+COMMENT ON COLUMN public.wallet_txns.fx_rate IS 'Rate applied when the amount was converted from original_currency';
+-- Wallet RPCs only receive metadata, so currency and FX details are lifted from meta
+CREATE OR REPLACE FUNCTION public.set_wallet_txn_currency()
+  RETURNS TRIGGER
+  LANGUAGE plpgsql
+  SET search_path = public
+  AS $$
+BEGIN
+  NEW.currency := upper(COALESCE(
+    NULLIF(NEW.meta->>'currency', ''),
+    (SELECT currency FROM public.wallets WHERE user_id = NEW.user_id),
+    NEW.currency,
+    'USD'
+  ));
+  NEW.fx_rate := COALESCE(NEW.fx_rate, NULLIF(NEW.meta->>'fx_rate', '')::numeric);
+  NEW.original_amount_cents := COALESCE(NEW.original_amount_cents, NULLIF(NEW.meta->>'original_amount_cents', '')::bigint);
+  NEW.original_currency := COALESCE(NEW.original_currency, NULLIF(NEW.meta->>'original_currency', ''));
+  RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS set_wallet_txn_currency ON public.wallet_txns;
+CREATE TRIGGER set_wallet_txn_currency
+  BEFORE INSERT ON public.wallet_txns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_wallet_txn_currency();
+-- Atomic movement on a balance held in a currency other than the wallet currency
+CREATE OR REPLACE FUNCTION public.add_wallet_currency_transaction(
+  p_user_id uuid,
+  p_currency text,
+  p_delta_cents bigint,
+  p_reason text,
+  p_meta jsonb DEFAULT '{}'::jsonb
+)
+  RETURNS jsonb
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_currency text := upper(p_currency);
+  v_balance bigint;
+  v_txn_id uuid;
+BEGIN
+  INSERT INTO public.wallet_balances (user_id, currency, balance_cents)
+  VALUES (p_user_id, v_currency, 0)
+  ON CONFLICT (user_id, currency) DO NOTHING;
+
+  SELECT balance_cents INTO v_balance
+  FROM public.wallet_balances
+  WHERE user_id = p_user_id AND currency = v_currency
+  FOR UPDATE;
+
+  IF v_balance + p_delta_cents < 0 THEN
+    RAISE EXCEPTION 'Insufficient balance';
+  END IF;
+
+  UPDATE public.wallet_balances
+  SET balance_cents = v_balance + p_delta_cents,
+      updated_at = timezone('utc', now())
+  WHERE user_id = p_user_id AND currency = v_currency;
+
+  INSERT INTO public.wallet_txns (user_id, delta_cents, reason, meta, currency)
+  VALUES (p_user_id, p_delta_cents, p_reason, COALESCE(p_meta, '{}'::jsonb) || jsonb_build_object('currency', v_currency), v_currency)
+  RETURNING id INTO v_txn_id;
+
+  RETURN jsonb_build_object(
+    'transaction_id', v_txn_id,
+    'new_balance_cents', v_balance + p_delta_cents,
+    'currency', v_currency
+  );
+END;
+$$;
+REVOKE ALL ON FUNCTION public.add_wallet_currency_transaction(uuid, text, bigint, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.add_wallet_currency_transaction(uuid, text, bigint, text, jsonb) TO service_role;
 -- Network commission ledger ------------------------------------------------------
 CREATE TABLE IF NOT EXISTS public.network_commissions(
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -610,6 +805,246 @@ CREATE POLICY "network_commissions_service_role" ON public.network_commissions
   FOR ALL
     USING (auth.role() = 'service_role')
     WITH CHECK (auth.role() = 'service_role');
+-- Commissions are stored in the sponsor's payout currency; the sale side and the
+-- rate used for the conversion are kept alongside.
+ALTER TABLE public.network_commissions ADD COLUMN IF NOT EXISTS sale_currency text;
+ALTER TABLE public.network_commissions ADD COLUMN IF NOT EXISTS sale_amount_cents bigint;
+ALTER TABLE public.network_commissions ADD COLUMN IF NOT EXISTS fx_rate numeric(20, 10) NOT NULL DEFAULT 1;
+-- Double-entry ledger -------------------------------------------------------------
+-- Every wallet movement and commission accrual posts a balanced journal entry.
+-- Accounts: user_wallet (per user), platform_float, commissions_payable,
+-- payouts_in_transit and platform_revenue.
+CREATE TABLE IF NOT EXISTS public.ledger_accounts(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL CHECK (code IN ('user_wallet', 'platform_float', 'commissions_payable', 'payouts_in_transit', 'platform_revenue')),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE RESTRICT,
+  currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  normal_balance text NOT NULL CHECK (normal_balance IN ('debit', 'credit')),
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CHECK ((code = 'user_wallet') = (user_id IS NOT NULL)),
+  UNIQUE NULLS NOT DISTINCT (code, user_id, currency)
+);
+CREATE TABLE IF NOT EXISTS public.ledger_journal_entries(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference_type text NOT NULL,
+  reference_id text NOT NULL,
+  memo text,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (reference_type, reference_id)
+);
+CREATE TABLE IF NOT EXISTS public.ledger_journal_lines(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES public.ledger_journal_entries(id) ON DELETE RESTRICT,
+  account_id uuid NOT NULL REFERENCES public.ledger_accounts(id) ON DELETE RESTRICT,
+  debit_cents bigint NOT NULL DEFAULT 0 CHECK (debit_cents >= 0),
+  credit_cents bigint NOT NULL DEFAULT 0 CHECK (credit_cents >= 0),
+  fx_rate numeric(20, 10) NOT NULL DEFAULT 1 CHECK (fx_rate > 0),
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CHECK ((debit_cents > 0) <> (credit_cents > 0))
+);
+CREATE INDEX IF NOT EXISTS idx_ledger_journal_lines_entry ON public.ledger_journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_journal_lines_account ON public.ledger_journal_lines(account_id);
+COMMENT ON TABLE public.ledger_journal_entries IS 'Journal entries; reference_type/reference_id make posting idempotent (e.g. wallet_txn + transaction id)';
+COMMENT ON TABLE public.ledger_journal_lines IS 'Journal lines; per currency, the debits and credits of an entry always sum to the same amount';
+COMMENT ON COLUMN public.ledger_journal_lines.fx_rate IS 'Rate used to convert the posted amount from the source currency (1 when no conversion happened)';
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_journal_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "ledger_accounts_service_role" ON public.ledger_accounts;
+CREATE POLICY "ledger_accounts_service_role" ON public.ledger_accounts
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP POLICY IF EXISTS "ledger_journal_entries_service_role" ON public.ledger_journal_entries;
+CREATE POLICY "ledger_journal_entries_service_role" ON public.ledger_journal_entries
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP POLICY IF EXISTS "ledger_journal_lines_service_role" ON public.ledger_journal_lines;
+CREATE POLICY "ledger_journal_lines_service_role" ON public.ledger_journal_lines
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Balances per account (debit/credit totals)
+CREATE OR REPLACE VIEW public.ledger_account_balances WITH (security_invoker = true) AS
+SELECT
+  a.id AS account_id,
+  a.code,
+  a.user_id,
+  a.currency,
+  a.normal_balance,
+  COALESCE(SUM(l.debit_cents), 0)::bigint AS debit_cents,
+  COALESCE(SUM(l.credit_cents), 0)::bigint AS credit_cents
+FROM
+  public.ledger_accounts a
+  LEFT JOIN public.ledger_journal_lines l ON l.account_id = a.id
+GROUP BY
+  a.id,
+  a.code,
+  a.user_id,
+  a.currency,
+  a.normal_balance;
+-- Post a balanced journal entry atomically. Returns the existing entry id when the
+-- reference was already posted, so callers can retry safely.
+CREATE OR REPLACE FUNCTION public.post_ledger_journal(
+  p_reference_type text,
+  p_reference_id text,
+  p_memo text,
+  p_lines jsonb
+)
+  RETURNS uuid
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_entry_id uuid;
+  v_account_id uuid;
+  v_line jsonb;
+  v_debits bigint := 0;
+  v_credits bigint := 0;
+BEGIN
+  SELECT id INTO v_entry_id
+  FROM public.ledger_journal_entries
+  WHERE reference_type = p_reference_type AND reference_id = p_reference_id;
+
+  IF v_entry_id IS NOT NULL THEN
+    RETURN v_entry_id;
+  END IF;
+
+  IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) < 2 THEN
+    RAISE EXCEPTION 'Ledger journal requires at least two lines';
+  END IF;
+
+  SELECT
+    COALESCE(SUM((line->>'debit_cents')::bigint), 0),
+    COALESCE(SUM((line->>'credit_cents')::bigint), 0)
+  INTO v_debits, v_credits
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  IF v_debits <> v_credits OR v_debits = 0 THEN
+    RAISE EXCEPTION 'Unbalanced ledger journal: debits % <> credits %', v_debits, v_credits;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_lines) AS line
+    GROUP BY upper(COALESCE(line->>'currency', 'USD'))
+    HAVING SUM(COALESCE((line->>'debit_cents')::bigint, 0)) <> SUM(COALESCE((line->>'credit_cents')::bigint, 0))
+  ) THEN
+    RAISE EXCEPTION 'Unbalanced ledger journal: each currency must balance on its own';
+  END IF;
+
+  INSERT INTO public.ledger_journal_entries (reference_type, reference_id, memo)
+  VALUES (p_reference_type, p_reference_id, p_memo)
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    INSERT INTO public.ledger_accounts (code, user_id, currency, normal_balance)
+    VALUES (
+      v_line->>'account_code',
+      NULLIF(v_line->>'user_id', '')::uuid,
+      upper(COALESCE(v_line->>'currency', 'USD')),
+      CASE WHEN v_line->>'account_code' = 'platform_float' THEN 'debit' ELSE 'credit' END
+    )
+    ON CONFLICT (code, user_id, currency) DO NOTHING;
+
+    SELECT id INTO v_account_id
+    FROM public.ledger_accounts
+    WHERE code = v_line->>'account_code'
+      AND user_id IS NOT DISTINCT FROM NULLIF(v_line->>'user_id', '')::uuid
+      AND currency = upper(COALESCE(v_line->>'currency', 'USD'));
+
+    INSERT INTO public.ledger_journal_lines (entry_id, account_id, debit_cents, credit_cents, fx_rate)
+    VALUES (
+      v_entry_id,
+      v_account_id,
+      COALESCE((v_line->>'debit_cents')::bigint, 0),
+      COALESCE((v_line->>'credit_cents')::bigint, 0),
+      COALESCE(NULLIF(v_line->>'fx_rate', '')::numeric, 1)
+    );
+  END LOOP;
+
+  RETURN v_entry_id;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.post_ledger_journal(text, text, text, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.post_ledger_journal(text, text, text, jsonb) TO service_role;
+-- Keep commissions_payable in sync with network_commissions.available_cents.
+-- Accruals debit platform_revenue (commission expense); transfers, payouts and voids
+-- credit it back, and the matching wallet / payout posting debits it again.
+CREATE OR REPLACE FUNCTION public.post_network_commission_ledger()
+  RETURNS TRIGGER
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_delta bigint;
+BEGIN
+  v_delta := NEW.available_cents - COALESCE(CASE WHEN TG_OP = 'UPDATE' THEN OLD.available_cents END, 0);
+
+  IF v_delta = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.post_ledger_journal(
+    'network_commission',
+    NEW.id::text || ':' || gen_random_uuid()::text,
+    CASE WHEN v_delta > 0 THEN 'Commission accrued' ELSE 'Commission released' END,
+    jsonb_build_array(
+      jsonb_build_object('account_code', 'platform_revenue', 'currency', NEW.currency, 'fx_rate', NEW.fx_rate, 'debit_cents', GREATEST(v_delta, 0), 'credit_cents', GREATEST(-v_delta, 0)),
+      jsonb_build_object('account_code', 'commissions_payable', 'currency', NEW.currency, 'fx_rate', NEW.fx_rate, 'debit_cents', GREATEST(-v_delta, 0), 'credit_cents', GREATEST(v_delta, 0))
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS post_network_commission_ledger ON public.network_commissions;
+CREATE TRIGGER post_network_commission_ledger
+  AFTER INSERT OR UPDATE OF available_cents ON public.network_commissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.post_network_commission_ledger();
+-- Opening balances for wallets and unpaid commissions that predate the ledger
+DO $$
+DECLARE
+  v_wallet record;
+  v_commission record;
+BEGIN
+  FOR v_wallet IN SELECT user_id, balance_cents, currency FROM public.wallets WHERE balance_cents <> 0
+  LOOP
+    PERFORM public.post_ledger_journal(
+      'opening_balance',
+      'wallet:' || v_wallet.user_id::text,
+      'Opening wallet balance',
+      jsonb_build_array(
+        jsonb_build_object('account_code', 'platform_float', 'currency', v_wallet.currency, 'debit_cents', GREATEST(v_wallet.balance_cents, 0), 'credit_cents', GREATEST(-v_wallet.balance_cents, 0)),
+        jsonb_build_object('account_code', 'user_wallet', 'user_id', v_wallet.user_id, 'currency', v_wallet.currency, 'debit_cents', GREATEST(-v_wallet.balance_cents, 0), 'credit_cents', GREATEST(v_wallet.balance_cents, 0))
+      )
+    );
+  END LOOP;
+
+  FOR v_commission IN
+    SELECT currency, COALESCE(SUM(available_cents), 0)::bigint AS total
+    FROM public.network_commissions
+    GROUP BY currency
+  LOOP
+    IF v_commission.total > 0 THEN
+      PERFORM public.post_ledger_journal(
+        'opening_balance',
+        'commissions_payable:' || v_commission.currency,
+        'Opening unpaid commissions',
+        jsonb_build_array(
+          jsonb_build_object('account_code', 'platform_revenue', 'currency', v_commission.currency, 'debit_cents', v_commission.total, 'credit_cents', 0),
+          jsonb_build_object('account_code', 'commissions_payable', 'currency', v_commission.currency, 'debit_cents', 0, 'credit_cents', v_commission.total)
+        )
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
 -- External payout accounts -------------------------------------------------------
 CREATE TABLE IF NOT EXISTS public.payout_accounts(
   user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
@@ -673,6 +1108,245 @@ CREATE POLICY "payout_transactions_service_role" ON public.payout_transactions
   FOR ALL
     USING (auth.role() = 'service_role')
     WITH CHECK (auth.role() = 'service_role');
+ALTER TABLE public.payout_transactions DROP CONSTRAINT IF EXISTS payout_transactions_provider_check;
+ALTER TABLE public.payout_transactions ADD CONSTRAINT payout_transactions_provider_check
+  CHECK (provider IN ('stripe', 'paypal', 'authorize_net', 'payoneer', 'manual'));
+-- Payout batches: eligible balances grouped by cadence, provider and currency --
+-- Created by one admin (maker) and approved by a different admin (checker) before submission
+CREATE TABLE IF NOT EXISTS public.payout_batches(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cadence text NOT NULL CHECK (cadence IN ('weekly', 'biweekly', 'monthly')),
+  period text NOT NULL,
+  provider text NOT NULL CHECK (provider IN ('stripe', 'paypal', 'authorize_net', 'payoneer')),
+  currency text NOT NULL,
+  status text NOT NULL DEFAULT 'pending_approval' CHECK (status IN ('pending_approval', 'processing', 'completed', 'partially_failed', 'failed', 'rejected')),
+  total_cents bigint NOT NULL DEFAULT 0 CHECK (total_cents >= 0),
+  item_count integer NOT NULL DEFAULT 0 CHECK (item_count >= 0),
+  created_by uuid NOT NULL REFERENCES public.profiles(id),
+  approved_by uuid REFERENCES public.profiles(id),
+  approved_at timestamptz,
+  rejected_by uuid REFERENCES public.profiles(id),
+  rejected_at timestamptz,
+  rejection_reason text,
+  completed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CONSTRAINT payout_batches_checker_differs CHECK (approved_by IS NULL OR approved_by <> created_by)
+);
+CREATE INDEX IF NOT EXISTS idx_payout_batches_status ON public.payout_batches(status, created_at DESC);
+COMMENT ON COLUMN public.payout_batches.period IS 'Cadence period the batch pays out, e.g. 2024-10 (monthly) or 2024-W43 (weekly, biweekly)';
+ALTER TABLE public.payout_batches ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "payout_batches_service_role" ON public.payout_batches;
+CREATE POLICY "payout_batches_service_role" ON public.payout_batches
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+CREATE TABLE IF NOT EXISTS public.payout_batch_items(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.payout_batches(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  account_id text NOT NULL,
+  amount_cents bigint NOT NULL CHECK (amount_cents > 0),
+  currency text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'submitted', 'retry_scheduled', 'failed', 'canceled')),
+  attempts integer NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  next_retry_at timestamptz,
+  last_error text,
+  external_id text,
+  submitted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CONSTRAINT payout_batch_items_unique_member UNIQUE (batch_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_payout_batch_items_user ON public.payout_batch_items(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_payout_batch_items_retry ON public.payout_batch_items(next_retry_at)
+  WHERE status = 'retry_scheduled';
+ALTER TABLE public.payout_batch_items ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "payout_batch_items_read_self" ON public.payout_batch_items;
+CREATE POLICY "payout_batch_items_read_self" ON public.payout_batch_items
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "payout_batch_items_service_role" ON public.payout_batch_items;
+CREATE POLICY "payout_batch_items_service_role" ON public.payout_batch_items
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+ALTER TABLE public.payout_batch_items ADD COLUMN IF NOT EXISTS reserved_commissions jsonb;
+COMMENT ON COLUMN public.payout_batch_items.reserved_commissions IS 'Commissions the item amount was taken from ([{id, cents}]), given back if the submission fails';
+-- Reserves the amount of a payout item from the member's available commissions in the item
+-- currency, oldest first, under a lock on the item and those commissions, before the provider is
+-- called. Returns false when the balance in that currency no longer covers the item. An item that
+-- already holds its reservation is left as is, so a repeated call never takes the amount twice.
+CREATE OR REPLACE FUNCTION public.reserve_payout_item(p_item_id uuid)
+  RETURNS boolean
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_item public.payout_batch_items%ROWTYPE;
+  v_commission record;
+  v_available bigint;
+  v_remaining bigint;
+  v_deduction bigint;
+  v_reserved jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_item FROM public.payout_batch_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payout_item_not_found: %', p_item_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_item.reserved_commissions IS NOT NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  PERFORM 1
+  FROM public.network_commissions
+  WHERE user_id = v_item.user_id
+    AND upper(currency) = upper(v_item.currency)
+    AND available_cents > 0
+  FOR UPDATE;
+
+  SELECT COALESCE(sum(available_cents), 0) INTO v_available
+  FROM public.network_commissions
+  WHERE user_id = v_item.user_id
+    AND upper(currency) = upper(v_item.currency)
+    AND available_cents > 0;
+
+  IF v_available < v_item.amount_cents THEN
+    RETURN FALSE;
+  END IF;
+
+  v_remaining := v_item.amount_cents;
+
+  FOR v_commission IN
+    SELECT id, available_cents
+    FROM public.network_commissions
+    WHERE user_id = v_item.user_id
+      AND upper(currency) = upper(v_item.currency)
+      AND available_cents > 0
+    ORDER BY created_at, id
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_deduction := LEAST(v_commission.available_cents, v_remaining);
+
+    UPDATE public.network_commissions
+    SET available_cents = available_cents - v_deduction,
+        updated_at = timezone('utc', now())
+    WHERE id = v_commission.id;
+
+    v_reserved := v_reserved || jsonb_build_object('id', v_commission.id, 'cents', v_deduction);
+    v_remaining := v_remaining - v_deduction;
+  END LOOP;
+
+  UPDATE public.payout_batch_items
+  SET reserved_commissions = v_reserved
+  WHERE id = p_item_id;
+
+  RETURN TRUE;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.reserve_payout_item(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_payout_item(uuid) TO service_role;
+-- Gives the reservation of a payout item back to the commissions it was taken from, after the
+-- provider rejected the submission
+CREATE OR REPLACE FUNCTION public.release_payout_item(p_item_id uuid)
+  RETURNS void
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_item public.payout_batch_items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM public.payout_batch_items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND OR v_item.reserved_commissions IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.network_commissions nc
+  SET available_cents = nc.available_cents + (r.value->>'cents')::bigint,
+      updated_at = timezone('utc', now())
+  FROM jsonb_array_elements(v_item.reserved_commissions) r
+  WHERE nc.id = (r.value->>'id')::uuid;
+
+  UPDATE public.payout_batch_items
+  SET reserved_commissions = NULL
+  WHERE id = p_item_id;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.release_payout_item(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_payout_item(uuid) TO service_role;
+-- Payout holds keep a member out of new batches until released
+CREATE TABLE IF NOT EXISTS public.payout_holds(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL,
+  created_by uuid REFERENCES public.profiles(id),
+  released_by uuid REFERENCES public.profiles(id),
+  released_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+CREATE INDEX IF NOT EXISTS idx_payout_holds_active ON public.payout_holds(user_id)
+  WHERE released_at IS NULL;
+ALTER TABLE public.payout_holds ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "payout_holds_service_role" ON public.payout_holds;
+CREATE POLICY "payout_holds_service_role" ON public.payout_holds
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Network moves: admin changes of a member's sponsor or placement, for the member alone or with
+-- their whole subtree. Each changed profile keeps its previous and new edges so the move can be
+-- rolled back and commissions can be attributed to the upline in place at the time of a sale.
+CREATE TABLE IF NOT EXISTS public.network_moves(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  move_type text NOT NULL CHECK (move_type IN ('sponsor', 'placement')),
+  scope text NOT NULL CHECK (scope IN ('subtree', 'member')),
+  target_parent_id uuid REFERENCES public.profiles(id),
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'rolled_back')),
+  phase_impact jsonb NOT NULL DEFAULT '[]'::jsonb,
+  performed_by uuid REFERENCES public.profiles(id),
+  applied_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  rolled_back_by uuid REFERENCES public.profiles(id),
+  rolled_back_at timestamptz,
+  rollback_reason text,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+CREATE INDEX IF NOT EXISTS idx_network_moves_user ON public.network_moves(user_id, applied_at DESC);
+COMMENT ON COLUMN public.network_moves.phase_impact IS 'Phase preview of the affected uplines at the time of the move';
+ALTER TABLE public.network_moves ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "network_moves_service_role" ON public.network_moves;
+CREATE POLICY "network_moves_service_role" ON public.network_moves
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+CREATE TABLE IF NOT EXISTS public.network_move_changes(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  move_id uuid NOT NULL REFERENCES public.network_moves(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  previous_referred_by uuid,
+  previous_placement_parent_id uuid,
+  previous_placement_strategy text,
+  previous_placed_at timestamptz,
+  previous_network_parent_id uuid,
+  new_referred_by uuid,
+  new_placement_parent_id uuid,
+  new_network_parent_id uuid,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CONSTRAINT network_move_changes_unique_profile UNIQUE (move_id, profile_id)
+);
+CREATE INDEX IF NOT EXISTS idx_network_move_changes_profile ON public.network_move_changes(profile_id);
+ALTER TABLE public.network_move_changes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "network_move_changes_service_role" ON public.network_move_changes;
+CREATE POLICY "network_move_changes_service_role" ON public.network_move_changes
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
 -- Webhook deduplication registry for external providers
 CREATE TABLE IF NOT EXISTS public.webhook_events(
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -745,7 +1419,7 @@ CREATE TABLE IF NOT EXISTS public.subscriptions(
   user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
   plan_id uuid REFERENCES public.plans(id) ON DELETE SET NULL,
   subscription_type text NOT NULL DEFAULT 'mlm' CHECK (subscription_type IN ('mlm', 'affiliate')),
-  status text NOT NULL CHECK (status IN ('active', 'past_due', 'canceled', 'unpaid')),
+  status text NOT NULL CHECK (status IN ('active', 'past_due', 'canceled', 'unpaid', 'paused')),
   current_period_end timestamptz,
   gateway text NOT NULL CHECK (gateway IN ('stripe', 'paypal', 'wallet')),
   cancel_at_period_end boolean NOT NULL DEFAULT FALSE,
@@ -766,41 +1440,271 @@ CREATE POLICY "subscriptions_service_role" ON public.subscriptions
   FOR ALL
     USING (auth.role() = 'service_role')
     WITH CHECK (auth.role() = 'service_role');
--- Payment ledger ---------------------------------------------------------------
-CREATE TABLE IF NOT EXISTS public.payments(
+-- Dunning state: set when a renewal charge fails, cleared when a payment succeeds
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS dunning_started_at timestamptz;
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS dunning_attempts integer NOT NULL DEFAULT 0;
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS dunning_next_attempt_at timestamptz;
+CREATE INDEX IF NOT EXISTS idx_subscriptions_dunning_next_attempt ON public.subscriptions(dunning_next_attempt_at)
+  WHERE dunning_next_attempt_at IS NOT NULL;
+COMMENT ON COLUMN public.subscriptions.dunning_attempts IS 'Renewal retries made since dunning_started_at';
+COMMENT ON COLUMN public.subscriptions.dunning_next_attempt_at IS 'Next retry, or the final attempt before cancellation while unpaid';
+CREATE TABLE IF NOT EXISTS public.subscription_dunning_attempts(
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES public.subscriptions(id) ON DELETE CASCADE,
   user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
-  amount_cents bigint NOT NULL CHECK (amount_cents >= 0),
-  currency text NOT NULL DEFAULT 'USD',
-  status text NOT NULL CHECK (status IN ('paid', 'failed', 'refunded')),
-  kind text NOT NULL CHECK (kind IN ('subscription', 'order')),
+  attempt integer NOT NULL CHECK (attempt >= 0),
   gateway text NOT NULL CHECK (gateway IN ('stripe', 'paypal', 'wallet')),
-  gateway_ref text NOT NULL,
-  period_end timestamptz,
-  metadata jsonb NOT NULL DEFAULT '{}' ::jsonb,
-  archived boolean NOT NULL DEFAULT FALSE,
+  amount_cents bigint NOT NULL CHECK (amount_cents >= 0),
+  success boolean NOT NULL,
+  error text,
+  resulting_status text NOT NULL CHECK (resulting_status IN ('active', 'past_due', 'canceled', 'unpaid')),
   created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
 );
-CREATE UNIQUE INDEX IF NOT EXISTS payments_gateway_ref_unique_idx ON public.payments(gateway_ref);
-ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
-DROP POLICY IF EXISTS "payments_read_self" ON public.payments;
-CREATE POLICY "payments_read_self" ON public.payments
+CREATE INDEX IF NOT EXISTS idx_subscription_dunning_attempts_subscription ON public.subscription_dunning_attempts(subscription_id, created_at DESC);
+COMMENT ON TABLE public.subscription_dunning_attempts IS 'One row per renewal charge attempt made by the dunning engine (attempt 0 is the scheduled renewal)';
+ALTER TABLE public.subscription_dunning_attempts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "subscription_dunning_attempts_read_self" ON public.subscription_dunning_attempts;
+CREATE POLICY "subscription_dunning_attempts_read_self" ON public.subscription_dunning_attempts
   FOR SELECT
     USING (auth.uid() = user_id);
-DROP POLICY IF EXISTS "payments_service_role" ON public.payments;
-CREATE POLICY "payments_service_role" ON public.payments
+DROP POLICY IF EXISTS "subscription_dunning_attempts_service_role" ON public.subscription_dunning_attempts;
+CREATE POLICY "subscription_dunning_attempts_service_role" ON public.subscription_dunning_attempts
   FOR ALL
     USING (auth.role() = 'service_role')
     WITH CHECK (auth.role() = 'service_role');
--- Stored payment methods saved after checkout or billing flows
-CREATE TABLE IF NOT EXISTS public.payment_methods(
+-- Pauses: a paused subscription skips renewals and its period end is pushed back by the pause length
+ALTER TABLE public.subscriptions DROP CONSTRAINT IF EXISTS subscriptions_status_check;
+ALTER TABLE public.subscriptions ADD CONSTRAINT subscriptions_status_check
+  CHECK (status IN ('active', 'past_due', 'canceled', 'unpaid', 'paused'));
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS paused_at timestamptz;
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS pause_ends_at timestamptz;
+CREATE INDEX IF NOT EXISTS idx_subscriptions_pause_ends_at ON public.subscriptions(pause_ends_at)
+  WHERE pause_ends_at IS NOT NULL;
+COMMENT ON COLUMN public.subscriptions.pause_ends_at IS 'Scheduled automatic resume while paused';
+CREATE TABLE IF NOT EXISTS public.subscription_pauses(
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES public.subscriptions(id) ON DELETE CASCADE,
   user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
-  stripe_payment_method_id text NOT NULL,
-  type text NOT NULL CHECK (type IN ('card', 'bank_account')),
-  card_brand text,
-  card_last4 text,
-  card_exp_month smallint,
+  started_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  scheduled_end_at timestamptz NOT NULL,
+  resumed_at timestamptz,
+  extended_days integer NOT NULL CHECK (extended_days >= 0),
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+CREATE INDEX IF NOT EXISTS idx_subscription_pauses_user ON public.subscription_pauses(user_id, started_at DESC);
+COMMENT ON COLUMN public.subscription_pauses.extended_days IS 'Days added to current_period_end; reduced to the days actually paused on early resume';
+ALTER TABLE public.subscription_pauses ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "subscription_pauses_read_self" ON public.subscription_pauses;
+CREATE POLICY "subscription_pauses_read_self" ON public.subscription_pauses
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "subscription_pauses_service_role" ON public.subscription_pauses;
+CREATE POLICY "subscription_pauses_service_role" ON public.subscription_pauses
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Plan changes: one row per mid-cycle upgrade or downgrade with its proration
+CREATE TABLE IF NOT EXISTS public.subscription_plan_changes(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES public.subscriptions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  from_plan_id uuid,
+  to_plan_id uuid NOT NULL,
+  from_subscription_type text NOT NULL CHECK (from_subscription_type IN ('mlm', 'affiliate')),
+  to_subscription_type text NOT NULL CHECK (to_subscription_type IN ('mlm', 'affiliate')),
+  credit_cents bigint NOT NULL DEFAULT 0 CHECK (credit_cents >= 0),
+  charge_cents bigint NOT NULL DEFAULT 0 CHECK (charge_cents >= 0),
+  amount_due_cents bigint NOT NULL,
+  currency text NOT NULL DEFAULT 'USD',
+  gateway text CHECK (gateway IN ('stripe', 'paypal', 'wallet')),
+  gateway_ref text,
+  period_end timestamptz,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+CREATE INDEX IF NOT EXISTS idx_subscription_plan_changes_user ON public.subscription_plan_changes(user_id, created_at DESC);
+COMMENT ON COLUMN public.subscription_plan_changes.amount_due_cents IS 'charge_cents - credit_cents: charged when positive, credited to the wallet when negative';
+ALTER TABLE public.subscription_plan_changes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "subscription_plan_changes_read_self" ON public.subscription_plan_changes;
+CREATE POLICY "subscription_plan_changes_read_self" ON public.subscription_plan_changes
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "subscription_plan_changes_service_role" ON public.subscription_plan_changes;
+CREATE POLICY "subscription_plan_changes_service_role" ON public.subscription_plan_changes
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Payment ledger ---------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.payments(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount_cents bigint NOT NULL CHECK (amount_cents >= 0),
+  currency text NOT NULL DEFAULT 'USD',
+  status text NOT NULL CHECK (status IN ('paid', 'failed', 'refunded')),
+  kind text NOT NULL CHECK (kind IN ('subscription', 'order')),
+  gateway text NOT NULL CHECK (gateway IN ('stripe', 'paypal', 'wallet')),
+  gateway_ref text NOT NULL,
+  period_end timestamptz,
+  metadata jsonb NOT NULL DEFAULT '{}' ::jsonb,
+  archived boolean NOT NULL DEFAULT FALSE,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+CREATE UNIQUE INDEX IF NOT EXISTS payments_gateway_ref_unique_idx ON public.payments(gateway_ref);
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "payments_read_self" ON public.payments;
+CREATE POLICY "payments_read_self" ON public.payments
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "payments_service_role" ON public.payments;
+CREATE POLICY "payments_service_role" ON public.payments
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Current billing period: plan changes prorate over it and credit only what was paid for it
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS current_period_start timestamptz;
+ALTER TABLE public.subscriptions ADD COLUMN IF NOT EXISTS current_period_paid_cents bigint NOT NULL DEFAULT 0;
+COMMENT ON COLUMN public.subscriptions.current_period_start IS 'Start of the period that ends at current_period_end';
+COMMENT ON COLUMN public.subscriptions.current_period_paid_cents IS 'Paid for the current period, plan changes included (net of credits returned to the wallet)';
+-- Existing subscriptions: the period starts with the first payment that covers it
+UPDATE public.subscriptions s
+SET current_period_start = COALESCE((
+      SELECT min(p.created_at)
+      FROM public.payments p
+      WHERE p.user_id = s.user_id
+        AND p.kind = 'subscription'
+        AND p.status = 'paid'
+        AND p.period_end = s.current_period_end), s.current_period_end - interval '30 days'),
+  current_period_paid_cents = (
+    SELECT COALESCE(sum(p.amount_cents), 0)
+    FROM public.payments p
+    WHERE p.user_id = s.user_id
+      AND p.kind = 'subscription'
+      AND p.status = 'paid'
+      AND p.period_end = s.current_period_end)
+WHERE s.current_period_start IS NULL
+  AND s.current_period_end IS NOT NULL;
+-- Plan changes are claimed before the charge and applied after it: one pending change per subscription
+ALTER TABLE public.subscription_plan_changes ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'completed'
+  CHECK (status IN ('pending', 'completed', 'failed'));
+CREATE UNIQUE INDEX IF NOT EXISTS subscription_plan_changes_pending_idx ON public.subscription_plan_changes(subscription_id)
+  WHERE status = 'pending';
+COMMENT ON COLUMN public.subscription_plan_changes.status IS 'pending while the difference is charged; failed when the charge or the update did not go through';
+-- Claims a plan change under a lock on the subscription. Returns NULL when the subscription is no
+-- longer active on the plan the change was priced from (a duplicate request already applied it) or
+-- another change is still pending, so a double submit is never charged twice. A change left pending
+-- by a request that died is given up after 15 minutes.
+CREATE OR REPLACE FUNCTION public.claim_subscription_plan_change(
+  p_subscription_id uuid,
+  p_from_plan_id uuid,
+  p_to_plan_id uuid,
+  p_from_subscription_type text,
+  p_to_subscription_type text,
+  p_credit_cents bigint,
+  p_charge_cents bigint,
+  p_amount_due_cents bigint,
+  p_currency text,
+  p_period_end timestamptz
+)
+  RETURNS uuid
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_subscription public.subscriptions%ROWTYPE;
+  v_change_id uuid;
+BEGIN
+  SELECT * INTO v_subscription FROM public.subscriptions WHERE id = p_subscription_id FOR UPDATE;
+
+  IF NOT FOUND OR v_subscription.status <> 'active' OR v_subscription.plan_id IS DISTINCT FROM p_from_plan_id THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.subscription_plan_changes
+  SET status = 'failed'
+  WHERE subscription_id = p_subscription_id
+    AND status = 'pending'
+    AND created_at < timezone('utc', now()) - interval '15 minutes';
+
+  IF EXISTS (
+    SELECT 1 FROM public.subscription_plan_changes
+    WHERE subscription_id = p_subscription_id AND status = 'pending') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.subscription_plan_changes (
+    subscription_id, user_id, from_plan_id, to_plan_id, from_subscription_type, to_subscription_type,
+    credit_cents, charge_cents, amount_due_cents, currency, period_end, status)
+  VALUES (
+    p_subscription_id, v_subscription.user_id, p_from_plan_id, p_to_plan_id, p_from_subscription_type, p_to_subscription_type,
+    p_credit_cents, p_charge_cents, p_amount_due_cents, upper(p_currency), p_period_end, 'pending')
+  RETURNING id INTO v_change_id;
+
+  RETURN v_change_id;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.claim_subscription_plan_change(uuid, uuid, uuid, text, text, bigint, bigint, bigint, text, timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_subscription_plan_change(uuid, uuid, uuid, text, text, bigint, bigint, bigint, text, timestamptz) TO service_role;
+-- Applies a claimed plan change in one transaction: the subscription moves to the new plan, the
+-- amount paid for the period is updated, the payment for the difference is recorded and the change
+-- is completed. Raises when the change is not pending, so the caller gives the charge back.
+CREATE OR REPLACE FUNCTION public.complete_subscription_plan_change(
+  p_change_id uuid,
+  p_gateway text DEFAULT NULL,
+  p_gateway_ref text DEFAULT NULL
+)
+  RETURNS public.subscriptions
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_change public.subscription_plan_changes%ROWTYPE;
+  v_subscription public.subscriptions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_change
+  FROM public.subscription_plan_changes
+  WHERE id = p_change_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'plan_change_not_pending: %', p_change_id USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.subscriptions
+  SET plan_id = v_change.to_plan_id,
+      subscription_type = v_change.to_subscription_type,
+      status = 'active',
+      cancel_at_period_end = FALSE,
+      current_period_paid_cents = GREATEST(0, current_period_paid_cents + v_change.amount_due_cents),
+      updated_at = timezone('utc', now())
+  WHERE id = v_change.subscription_id
+  RETURNING * INTO v_subscription;
+
+  IF p_gateway_ref IS NOT NULL AND v_change.amount_due_cents > 0 THEN
+    INSERT INTO public.payments (user_id, amount_cents, currency, status, kind, gateway, gateway_ref, period_end)
+    VALUES (v_change.user_id, v_change.amount_due_cents, v_change.currency, 'paid', 'subscription', p_gateway, p_gateway_ref, v_change.period_end);
+  END IF;
+
+  UPDATE public.subscription_plan_changes
+  SET status = 'completed',
+      gateway = p_gateway,
+      gateway_ref = p_gateway_ref
+  WHERE id = p_change_id;
+
+  RETURN v_subscription;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.complete_subscription_plan_change(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.complete_subscription_plan_change(uuid, text, text) TO service_role;
+-- Stored payment methods saved after checkout or billing flows
+CREATE TABLE IF NOT EXISTS public.payment_methods(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  stripe_payment_method_id text NOT NULL,
+  type text NOT NULL CHECK (type IN ('card', 'bank_account')),
+  card_brand text,
+  card_last4 text,
+  card_exp_month smallint,
   card_exp_year smallint,
   card_funding text,
   bank_name text,
@@ -999,6 +1903,7 @@ BEGIN
       OR NEW.tax_cents <> OLD.tax_cents
       OR NEW.shipping_cents <> OLD.shipping_cents
       OR NEW.discount_cents <> OLD.discount_cents
+      OR NEW.commission_base_cents IS DISTINCT FROM OLD.commission_base_cents
       OR COALESCE(NEW.gateway, '') <> COALESCE(OLD.gateway, '')
       OR COALESCE(NEW.gateway_transaction_id, '') <> COALESCE(OLD.gateway_transaction_id, '')
       OR NEW.status <> OLD.status
@@ -1041,6 +1946,546 @@ CREATE POLICY "order_items_service_role" ON public.order_items
   FOR ALL
     USING (auth.role() = 'service_role')
     WITH CHECK (auth.role() = 'service_role');
+-- Orders are charged in the buyer's local currency; the conversion into the
+-- platform base currency is frozen at payment time for reporting.
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS base_currency text;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS base_total_cents bigint;
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS fx_rate numeric(20, 10);
+-- Personal and group volume (PV/GV) --------------------------------------------
+-- Every paid order adds the point value of its products to the buyer's personal volume and to
+-- the group volume of the buyer and their upline (10 levels) for the calendar month (UTC) of
+-- the order. volume_entries is the ledger that keeps recording and reversal idempotent.
+CREATE TABLE IF NOT EXISTS public.member_volumes(
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  period text NOT NULL CHECK (period ~ '^\d{4}-\d{2}$'),
+  personal_volume numeric(14, 2) NOT NULL DEFAULT 0,
+  group_volume numeric(14, 2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  PRIMARY KEY (user_id, period)
+);
+COMMENT ON TABLE public.member_volumes IS 'Personal volume (own orders) and group volume (own orders plus the network, 10 levels deep) per member and month.';
+ALTER TABLE public.member_volumes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "member_volumes_read_self" ON public.member_volumes;
+CREATE POLICY "member_volumes_read_self" ON public.member_volumes
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "member_volumes_service_role" ON public.member_volumes;
+CREATE POLICY "member_volumes_service_role" ON public.member_volumes
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+CREATE TABLE IF NOT EXISTS public.volume_entries(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  period text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('order', 'reversal')),
+  points numeric(14, 2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_volume_entries_order ON public.volume_entries(order_id) WHERE kind = 'order';
+CREATE INDEX IF NOT EXISTS idx_volume_entries_user_period ON public.volume_entries(user_id, period);
+ALTER TABLE public.volume_entries ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "volume_entries_service_role" ON public.volume_entries;
+CREATE POLICY "volume_entries_service_role" ON public.volume_entries
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Adds p_points to the personal volume of p_user_id and to the group volume of p_user_id and
+-- their upline
+CREATE OR REPLACE FUNCTION public.apply_member_volume(p_user_id uuid, p_period text, p_points numeric)
+  RETURNS VOID
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  current_id uuid := p_user_id;
+  current_depth integer := 0;
+BEGIN
+  WHILE current_id IS NOT NULL AND current_depth <= 10 LOOP
+    INSERT INTO public.member_volumes (user_id, period, personal_volume, group_volume)
+    VALUES (current_id, p_period, CASE WHEN current_depth = 0 THEN p_points ELSE 0 END, p_points)
+    ON CONFLICT (user_id, period) DO UPDATE SET
+      personal_volume = public.member_volumes.personal_volume + EXCLUDED.personal_volume,
+      group_volume = public.member_volumes.group_volume + EXCLUDED.group_volume,
+      updated_at = timezone('utc', now());
+    SELECT network_parent_id INTO current_id FROM public.profiles WHERE id = current_id;
+    current_depth := current_depth + 1;
+  END LOOP;
+END;
+$$;
+-- Records the volume of a paid order once. Returns the points recorded (0 when the order has
+-- no point value or was recorded before).
+CREATE OR REPLACE FUNCTION public.record_order_volume(p_order_id uuid)
+  RETURNS numeric
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_user_id uuid;
+  v_created_at timestamptz;
+  v_points numeric;
+  v_period text;
+  v_entry_id uuid;
+BEGIN
+  SELECT user_id, created_at INTO v_user_id, v_created_at FROM public.orders WHERE id = p_order_id;
+  IF v_user_id IS NULL THEN
+    RETURN 0;
+  END IF;
+  SELECT COALESCE(sum(oi.qty * p.point_value), 0) INTO v_points
+  FROM public.order_items oi
+  JOIN public.products p ON p.id = oi.product_id
+  WHERE oi.order_id = p_order_id;
+  IF v_points <= 0 THEN
+    RETURN 0;
+  END IF;
+  v_period := to_char(v_created_at AT TIME ZONE 'UTC', 'YYYY-MM');
+  INSERT INTO public.volume_entries (order_id, user_id, period, kind, points)
+  VALUES (p_order_id, v_user_id, v_period, 'order', v_points)
+  ON CONFLICT (order_id) WHERE kind = 'order' DO NOTHING
+  RETURNING id INTO v_entry_id;
+  IF v_entry_id IS NULL THEN
+    RETURN 0;
+  END IF;
+  PERFORM public.apply_member_volume(v_user_id, v_period, v_points);
+  RETURN v_points;
+END;
+$$;
+-- Reverses p_ratio (cumulative refunded share, 0-1) of the volume of an order in the period it
+-- was recorded. Returns the points reversed by this call.
+CREATE OR REPLACE FUNCTION public.reverse_order_volume(p_order_id uuid, p_ratio numeric DEFAULT 1)
+  RETURNS numeric
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_entry public.volume_entries%ROWTYPE;
+  v_target numeric;
+  v_reversed numeric;
+  v_points numeric;
+BEGIN
+  -- Lock the order entry so concurrent refund events reverse once
+  SELECT * INTO v_entry FROM public.volume_entries
+  WHERE order_id = p_order_id AND kind = 'order'
+  FOR UPDATE;
+  IF v_entry.id IS NULL THEN
+    RETURN 0;
+  END IF;
+  v_target := round(v_entry.points * LEAST(GREATEST(COALESCE(p_ratio, 1), 0), 1), 2);
+  SELECT COALESCE(-sum(points), 0) INTO v_reversed
+  FROM public.volume_entries
+  WHERE order_id = p_order_id AND kind = 'reversal';
+  v_points := v_target - v_reversed;
+  IF v_points <= 0 THEN
+    RETURN 0;
+  END IF;
+  INSERT INTO public.volume_entries (order_id, user_id, period, kind, points)
+  VALUES (p_order_id, v_entry.user_id, v_entry.period, 'reversal', -v_points);
+  PERFORM public.apply_member_volume(v_entry.user_id, v_entry.period, -v_points);
+  RETURN v_points;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.apply_member_volume(uuid, text, numeric) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.record_order_volume(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.reverse_order_volume(uuid, numeric) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_member_volume(uuid, text, numeric) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_order_volume(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reverse_order_volume(uuid, numeric) TO service_role;
+-- Commission clawbacks (refunds & chargebacks) ----------------------------------
+CREATE TABLE IF NOT EXISTS public.commission_clawbacks(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  source_type text NOT NULL CHECK (source_type IN ('network_commission', 'wallet_txn')),
+  source_id uuid NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('refund', 'chargeback')),
+  voided_cents bigint NOT NULL DEFAULT 0 CHECK (voided_cents >= 0),
+  debited_cents bigint NOT NULL DEFAULT 0 CHECK (debited_cents >= 0),
+  external_reference text,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.commission_clawbacks IS 'Reversals applied to commissions and wallet credits when an order is refunded or charged back';
+COMMENT ON COLUMN public.commission_clawbacks.voided_cents IS 'Amount removed from the unpaid (available) commission balance';
+COMMENT ON COLUMN public.commission_clawbacks.debited_cents IS 'Amount recovered from the wallet because it had already been paid out';
+CREATE INDEX IF NOT EXISTS idx_commission_clawbacks_order ON public.commission_clawbacks(order_id);
+CREATE INDEX IF NOT EXISTS idx_commission_clawbacks_source ON public.commission_clawbacks(source_type, source_id);
+ALTER TABLE public.commission_clawbacks ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "commission_clawbacks_read_self" ON public.commission_clawbacks;
+CREATE POLICY "commission_clawbacks_read_self" ON public.commission_clawbacks
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "commission_clawbacks_service_role" ON public.commission_clawbacks;
+CREATE POLICY "commission_clawbacks_service_role" ON public.commission_clawbacks
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Claims the reversals an order still owes under a lock on the order, so concurrent refund and
+-- chargeback events for the same order are applied one after the other and never reverse the
+-- same commission twice. The target of each source is computed from the cumulative ratio minus
+-- what earlier clawbacks already reversed. Unpaid commission balance is voided here; the
+-- debited_cents of each claim is recovered from the wallet by the caller.
+CREATE OR REPLACE FUNCTION public.claim_order_clawbacks(
+  p_order_id uuid,
+  p_reason text,
+  p_ratio numeric,
+  p_external_reference text DEFAULT NULL
+)
+  RETURNS jsonb
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_ratio numeric := LEAST(1, GREATEST(0, COALESCE(p_ratio, 1)));
+  v_claims jsonb := '[]'::jsonb;
+  v_source record;
+  v_pending bigint;
+  v_voided bigint;
+  v_clawback_id uuid;
+BEGIN
+  PERFORM 1 FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'order_not_found: %', p_order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_source IN
+    SELECT nc.id, nc.user_id, nc.amount_cents, nc.available_cents
+    FROM public.network_commissions nc
+    WHERE nc.metadata->>'order_id' = p_order_id::text
+    ORDER BY nc.id
+    FOR UPDATE
+  LOOP
+    SELECT round(GREATEST(v_source.amount_cents, 0) * v_ratio)::bigint - COALESCE(sum(cc.voided_cents + cc.debited_cents), 0)
+    INTO v_pending
+    FROM public.commission_clawbacks cc
+    WHERE cc.source_type = 'network_commission' AND cc.source_id = v_source.id;
+
+    CONTINUE WHEN v_pending <= 0;
+
+    v_voided := LEAST(GREATEST(v_source.available_cents, 0), v_pending);
+    IF v_voided > 0 THEN
+      UPDATE public.network_commissions
+      SET available_cents = available_cents - v_voided,
+          updated_at = timezone('utc', now())
+      WHERE id = v_source.id;
+    END IF;
+
+    INSERT INTO public.commission_clawbacks (order_id, user_id, source_type, source_id, reason, voided_cents, debited_cents, external_reference)
+    VALUES (p_order_id, v_source.user_id, 'network_commission', v_source.id, p_reason, v_voided, v_pending - v_voided, p_external_reference)
+    RETURNING id INTO v_clawback_id;
+
+    v_claims := v_claims || jsonb_build_object(
+      'clawback_id', v_clawback_id,
+      'user_id', v_source.user_id,
+      'source_type', 'network_commission',
+      'source_id', v_source.id,
+      'source_reason', NULL,
+      'voided_cents', v_voided,
+      'debited_cents', v_pending - v_voided
+    );
+  END LOOP;
+
+  FOR v_source IN
+    SELECT wt.id, wt.user_id, wt.delta_cents, wt.reason
+    FROM public.wallet_txns wt
+    WHERE wt.meta->>'order_id' = p_order_id::text
+      AND wt.reason IN ('sale_commission', 'phase_bonus')
+      AND wt.delta_cents > 0
+    ORDER BY wt.id
+  LOOP
+    SELECT round(v_source.delta_cents * v_ratio)::bigint - COALESCE(sum(cc.voided_cents + cc.debited_cents), 0)
+    INTO v_pending
+    FROM public.commission_clawbacks cc
+    WHERE cc.source_type = 'wallet_txn' AND cc.source_id = v_source.id;
+
+    CONTINUE WHEN v_pending <= 0;
+
+    INSERT INTO public.commission_clawbacks (order_id, user_id, source_type, source_id, reason, voided_cents, debited_cents, external_reference)
+    VALUES (p_order_id, v_source.user_id, 'wallet_txn', v_source.id, p_reason, 0, v_pending, p_external_reference)
+    RETURNING id INTO v_clawback_id;
+
+    v_claims := v_claims || jsonb_build_object(
+      'clawback_id', v_clawback_id,
+      'user_id', v_source.user_id,
+      'source_type', 'wallet_txn',
+      'source_id', v_source.id,
+      'source_reason', v_source.reason,
+      'voided_cents', 0,
+      'debited_cents', v_pending
+    );
+  END LOOP;
+
+  RETURN v_claims;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.claim_order_clawbacks(uuid, text, numeric, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_order_clawbacks(uuid, text, numeric, text) TO service_role;
+-- Commission periods and statements --------------------------------------------
+-- Closing a calendar month (UTC) freezes every commission earned in it into one statement per
+-- member and currency. Refunds and chargebacks recorded in the month are settled as adjustments
+-- of that month, whatever month the reversed commission belongs to. Once closed, commissions
+-- and commission credits dated in the month can no longer be added, changed or deleted.
+CREATE TABLE IF NOT EXISTS public.commission_periods(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period text NOT NULL UNIQUE CHECK (period ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  statement_count integer NOT NULL DEFAULT 0,
+  member_count integer NOT NULL DEFAULT 0,
+  totals jsonb NOT NULL DEFAULT '{}'::jsonb,
+  closed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  closed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CHECK (ends_at > starts_at)
+);
+COMMENT ON TABLE public.commission_periods IS 'Monthly commission periods; a closed period is locked against commission edits';
+COMMENT ON COLUMN public.commission_periods.totals IS 'Net commission total of the period by currency, in cents';
+ALTER TABLE public.commission_periods ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "commission_periods_service_role" ON public.commission_periods;
+CREATE POLICY "commission_periods_service_role" ON public.commission_periods
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+CREATE TABLE IF NOT EXISTS public.commission_statements(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_id uuid NOT NULL REFERENCES public.commission_periods(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  currency text NOT NULL,
+  retail_cents bigint NOT NULL DEFAULT 0,
+  seller_cents bigint NOT NULL DEFAULT 0,
+  subscription_cents bigint NOT NULL DEFAULT 0,
+  phase_bonus_cents bigint NOT NULL DEFAULT 0,
+  adjustment_cents bigint NOT NULL DEFAULT 0,
+  total_cents bigint NOT NULL DEFAULT 0,
+  line_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (period_id, user_id, currency)
+);
+COMMENT ON TABLE public.commission_statements IS 'Frozen commission totals of a member for a closed period, by type';
+COMMENT ON COLUMN public.commission_statements.adjustment_cents IS 'Refund and chargeback reversals recorded in the period (negative)';
+CREATE INDEX IF NOT EXISTS idx_commission_statements_user ON public.commission_statements(user_id);
+ALTER TABLE public.commission_statements ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "commission_statements_read_self" ON public.commission_statements;
+CREATE POLICY "commission_statements_read_self" ON public.commission_statements
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "commission_statements_service_role" ON public.commission_statements;
+CREATE POLICY "commission_statements_service_role" ON public.commission_statements
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+CREATE TABLE IF NOT EXISTS public.commission_statement_lines(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_id uuid NOT NULL REFERENCES public.commission_periods(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  currency text NOT NULL,
+  category text NOT NULL CHECK (category IN ('retail', 'seller', 'subscription', 'phase_bonus', 'adjustment')),
+  source_type text NOT NULL CHECK (source_type IN ('network_commission', 'wallet_txn', 'commission_clawback')),
+  source_id uuid NOT NULL,
+  amount_cents bigint NOT NULL,
+  occurred_at timestamptz NOT NULL,
+  reference text,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (source_type, source_id)
+);
+COMMENT ON TABLE public.commission_statement_lines IS 'Every commission, credit and adjustment frozen into a statement; each source belongs to one period only';
+CREATE INDEX IF NOT EXISTS idx_commission_statement_lines_period_user ON public.commission_statement_lines(period_id, user_id);
+ALTER TABLE public.commission_statement_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "commission_statement_lines_read_self" ON public.commission_statement_lines;
+CREATE POLICY "commission_statement_lines_read_self" ON public.commission_statement_lines
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "commission_statement_lines_service_role" ON public.commission_statement_lines;
+CREATE POLICY "commission_statement_lines_service_role" ON public.commission_statement_lines
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Rejects commission rows dated in a closed period. Updates that keep the columns passed as
+-- trigger arguments are allowed (e.g. available_cents changes from payouts and clawbacks).
+-- On wallet_txns only commission credits are locked. Transfers from network earnings are not
+-- commissions: they use earnings_transfer, older ones sale_commission with meta.source = 'network_earnings'.
+CREATE OR REPLACE FUNCTION public.guard_closed_commission_period()
+  RETURNS TRIGGER
+  LANGUAGE plpgsql
+  SET search_path = public
+  AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_column text;
+  v_changed boolean := TG_OP <> 'UPDATE';
+  v_period text;
+BEGIN
+  IF TG_TABLE_NAME = 'wallet_txns'
+    AND (COALESCE(v_old->>'reason', '') NOT IN ('sale_commission', 'phase_bonus') OR v_old->'meta'->>'source' = 'network_earnings')
+    AND (COALESCE(v_new->>'reason', '') NOT IN ('sale_commission', 'phase_bonus') OR v_new->'meta'->>'source' = 'network_earnings') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+  IF TG_OP = 'UPDATE' THEN
+    FOREACH v_column IN ARRAY TG_ARGV LOOP
+      IF (v_old->v_column) IS DISTINCT FROM (v_new->v_column) THEN
+        v_changed := TRUE;
+      END IF;
+    END LOOP;
+  END IF;
+  IF NOT v_changed THEN
+    RETURN NEW;
+  END IF;
+  SELECT period INTO v_period
+  FROM public.commission_periods
+  WHERE status = 'closed'
+    AND ((v_old IS NOT NULL AND (v_old->>'created_at')::timestamptz >= starts_at AND (v_old->>'created_at')::timestamptz < ends_at)
+      OR (v_new IS NOT NULL AND (v_new->>'created_at')::timestamptz >= starts_at AND (v_new->>'created_at')::timestamptz < ends_at))
+  LIMIT 1;
+  IF v_period IS NOT NULL THEN
+    RAISE EXCEPTION 'commission_period_closed: % is closed', v_period
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+DROP TRIGGER IF EXISTS guard_closed_period_network_commissions ON public.network_commissions;
+CREATE TRIGGER guard_closed_period_network_commissions
+  BEFORE INSERT OR UPDATE OR DELETE ON public.network_commissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_closed_commission_period('user_id', 'member_id', 'amount_cents', 'currency', 'metadata', 'created_at');
+DROP TRIGGER IF EXISTS guard_closed_period_wallet_txns ON public.wallet_txns;
+CREATE TRIGGER guard_closed_period_wallet_txns
+  BEFORE INSERT OR UPDATE OR DELETE ON public.wallet_txns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_closed_commission_period('user_id', 'delta_cents', 'reason', 'currency', 'created_at');
+DROP TRIGGER IF EXISTS guard_closed_period_commission_clawbacks ON public.commission_clawbacks;
+CREATE TRIGGER guard_closed_period_commission_clawbacks
+  BEFORE INSERT OR UPDATE OR DELETE ON public.commission_clawbacks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_closed_commission_period('user_id', 'voided_cents', 'debited_cents', 'created_at');
+-- Closes a finished month: freezes its commissions into statement lines, aggregates one
+-- statement per member and currency and locks the month. Closing a closed month returns it
+-- unchanged.
+CREATE OR REPLACE FUNCTION public.close_commission_period(p_period text, p_closed_by uuid DEFAULT NULL)
+  RETURNS public.commission_periods
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_start timestamptz;
+  v_end timestamptz;
+  v_row public.commission_periods%ROWTYPE;
+BEGIN
+  IF p_period IS NULL OR p_period !~ '^\d{4}-(0[1-9]|1[0-2])$' THEN
+    RAISE EXCEPTION 'invalid_commission_period: %', p_period
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  v_start := (p_period || '-01')::date::timestamp AT TIME ZONE 'UTC';
+  v_end := ((p_period || '-01')::date + interval '1 month')::timestamp AT TIME ZONE 'UTC';
+  IF v_end > now() THEN
+    RAISE EXCEPTION 'commission_period_not_ended: % has not ended', p_period
+      USING ERRCODE = 'check_violation';
+  END IF;
+  INSERT INTO public.commission_periods (period, starts_at, ends_at)
+  VALUES (p_period, v_start, v_end)
+  ON CONFLICT (period) DO NOTHING;
+  -- Concurrent closes of the same month wait here and then see it closed
+  SELECT * INTO v_row FROM public.commission_periods WHERE period = p_period FOR UPDATE;
+  IF v_row.status = 'closed' THEN
+    RETURN v_row;
+  END IF;
+  INSERT INTO public.commission_statement_lines (period_id, user_id, currency, category, source_type, source_id, amount_cents, occurred_at, reference)
+  SELECT
+    v_row.id,
+    nc.user_id,
+    nc.currency,
+    CASE WHEN nc.metadata->>'commission_type' = 'subscription_payment' THEN 'subscription' ELSE 'retail' END,
+    'network_commission',
+    nc.id,
+    nc.amount_cents,
+    nc.created_at,
+    nc.metadata->>'order_id'
+  FROM public.network_commissions nc
+  WHERE nc.created_at >= v_start
+    AND nc.created_at < v_end
+  ON CONFLICT (source_type, source_id) DO NOTHING;
+  INSERT INTO public.commission_statement_lines (period_id, user_id, currency, category, source_type, source_id, amount_cents, occurred_at, reference)
+  SELECT
+    v_row.id,
+    wt.user_id,
+    wt.currency,
+    CASE WHEN wt.reason = 'sale_commission' THEN 'seller' ELSE 'phase_bonus' END,
+    'wallet_txn',
+    wt.id,
+    wt.delta_cents,
+    wt.created_at,
+    COALESCE(wt.meta->>'order_id', wt.meta->>'phase_id')
+  FROM public.wallet_txns wt
+  WHERE wt.reason IN ('sale_commission', 'phase_bonus')
+    AND wt.meta->>'source' IS DISTINCT FROM 'network_earnings'
+    AND wt.created_at >= v_start
+    AND wt.created_at < v_end
+  ON CONFLICT (source_type, source_id) DO NOTHING;
+  INSERT INTO public.commission_statement_lines (period_id, user_id, currency, category, source_type, source_id, amount_cents, occurred_at, reference)
+  SELECT
+    v_row.id,
+    cc.user_id,
+    COALESCE(nc.currency, wt.currency, 'USD'),
+    'adjustment',
+    'commission_clawback',
+    cc.id,
+    -(cc.voided_cents + cc.debited_cents),
+    cc.created_at,
+    cc.order_id::text
+  FROM public.commission_clawbacks cc
+  LEFT JOIN public.network_commissions nc ON cc.source_type = 'network_commission' AND nc.id = cc.source_id
+  LEFT JOIN public.wallet_txns wt ON cc.source_type = 'wallet_txn' AND wt.id = cc.source_id
+  WHERE cc.created_at >= v_start
+    AND cc.created_at < v_end
+  ON CONFLICT (source_type, source_id) DO NOTHING;
+  INSERT INTO public.commission_statements (period_id, user_id, currency, retail_cents, seller_cents, subscription_cents, phase_bonus_cents, adjustment_cents, total_cents, line_count)
+  SELECT
+    v_row.id,
+    lines.user_id,
+    lines.currency,
+    COALESCE(sum(lines.amount_cents) FILTER (WHERE lines.category = 'retail'), 0),
+    COALESCE(sum(lines.amount_cents) FILTER (WHERE lines.category = 'seller'), 0),
+    COALESCE(sum(lines.amount_cents) FILTER (WHERE lines.category = 'subscription'), 0),
+    COALESCE(sum(lines.amount_cents) FILTER (WHERE lines.category = 'phase_bonus'), 0),
+    COALESCE(sum(lines.amount_cents) FILTER (WHERE lines.category = 'adjustment'), 0),
+    sum(lines.amount_cents),
+    count(*)
+  FROM public.commission_statement_lines lines
+  WHERE lines.period_id = v_row.id
+  GROUP BY lines.user_id, lines.currency
+  ON CONFLICT (period_id, user_id, currency) DO NOTHING;
+  UPDATE public.commission_periods
+  SET
+    status = 'closed',
+    statement_count = (SELECT count(*) FROM public.commission_statements WHERE period_id = v_row.id),
+    member_count = (SELECT count(DISTINCT user_id) FROM public.commission_statements WHERE period_id = v_row.id),
+    totals = COALESCE((
+      SELECT jsonb_object_agg(totals_by_currency.currency, totals_by_currency.total_cents)
+      FROM (
+        SELECT currency, sum(total_cents) AS total_cents
+        FROM public.commission_statements
+        WHERE period_id = v_row.id
+        GROUP BY currency
+      ) totals_by_currency
+    ), '{}'::jsonb),
+    closed_by = p_closed_by,
+    closed_at = timezone('utc', now()),
+    updated_at = timezone('utc', now())
+  WHERE id = v_row.id
+  RETURNING * INTO v_row;
+  RETURN v_row;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.close_commission_period(text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.close_commission_period(text, uuid) TO service_role;
 -- Order fulfillment view for warehouse operations
 DROP VIEW IF EXISTS public.order_fulfillment_view;
 CREATE VIEW public.order_fulfillment_view AS
@@ -1101,6 +2546,33 @@ CREATE POLICY "phases_service_role" ON public.phases
   FOR ALL
     USING (auth.role() = 'service_role')
     WITH CHECK (auth.role() = 'service_role');
+COMMENT ON COLUMN public.phases.phase1_granted IS 'Phase 1 rewards were granted by the phase evaluation engine (same for phase2_granted and phase3_granted). Never reset on demotion.';
+-- Phase evaluations: audit trail of the billing-cycle close, one row per member and cycle
+CREATE TABLE IF NOT EXISTS public.phase_evaluations(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  cycle text NOT NULL CHECK (cycle ~ '^\d{4}-\d{2}$'),
+  previous_phase integer NOT NULL CHECK (previous_phase BETWEEN 0 AND 3),
+  evaluated_phase integer NOT NULL CHECK (evaluated_phase BETWEEN 0 AND 3),
+  applied_phase integer NOT NULL CHECK (applied_phase BETWEEN 0 AND 3),
+  action text NOT NULL CHECK (action IN ('promoted', 'demoted', 'unchanged', 'skipped_manual_override')),
+  requirements jsonb NOT NULL DEFAULT '[]'::jsonb,
+  rewards_granted integer[] NOT NULL DEFAULT '{}',
+  evaluated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CONSTRAINT phase_evaluations_unique_cycle UNIQUE (user_id, cycle)
+);
+CREATE INDEX IF NOT EXISTS idx_phase_evaluations_cycle ON public.phase_evaluations(cycle, action);
+COMMENT ON COLUMN public.phase_evaluations.requirements IS 'Per-requirement outcome with the observed and required values and the reason it passed or failed';
+ALTER TABLE public.phase_evaluations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "phase_evaluations_read_self" ON public.phase_evaluations;
+CREATE POLICY "phase_evaluations_read_self" ON public.phase_evaluations
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "phase_evaluations_service_role" ON public.phase_evaluations;
+CREATE POLICY "phase_evaluations_service_role" ON public.phase_evaluations
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
 -- ===========================================
 -- USER DETAILS VIEW
 -- ===========================================
@@ -1170,6 +2642,10 @@ COMMENT ON COLUMN public.phase_levels.rewards_en IS 'Array of English reward des
 COMMENT ON COLUMN public.phase_levels.rewards_es IS 'Array of Spanish reward descriptions for landing page';
 COMMENT ON COLUMN public.phase_levels.visibility_tag_en IS 'English visibility badge text (e.g., "VISIBLE", "NEW")';
 COMMENT ON COLUMN public.phase_levels.visibility_tag_es IS 'Spanish visibility badge text (e.g., "VISIBLE", "NUEVO")';
+ALTER TABLE public.phase_levels ADD COLUMN IF NOT EXISTS min_personal_volume numeric(12, 2) NOT NULL DEFAULT 0 CHECK (min_personal_volume >= 0);
+ALTER TABLE public.phase_levels ADD COLUMN IF NOT EXISTS min_group_volume numeric(12, 2) NOT NULL DEFAULT 0 CHECK (min_group_volume >= 0);
+COMMENT ON COLUMN public.phase_levels.min_personal_volume IS 'Personal volume (PV) required in the evaluated billing cycle to reach this phase; 0 disables the check.';
+COMMENT ON COLUMN public.phase_levels.min_group_volume IS 'Group volume (GV) required in the evaluated billing cycle to reach this phase; 0 disables the check.';
 ALTER TABLE public.phase_levels ENABLE ROW LEVEL SECURITY;
 DROP POLICY IF EXISTS "phase_levels_service_role" ON public.phase_levels;
 CREATE POLICY "phase_levels_service_role" ON public.phase_levels
@@ -2308,6 +3784,26 @@ CREATE TRIGGER on_payout_transactions_updated
   BEFORE UPDATE ON public.payout_transactions
   FOR EACH ROW
   EXECUTE FUNCTION public.handle_updated_at();
+DROP TRIGGER IF EXISTS on_payout_batches_updated ON public.payout_batches;
+CREATE TRIGGER on_payout_batches_updated
+  BEFORE UPDATE ON public.payout_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+DROP TRIGGER IF EXISTS on_payout_batch_items_updated ON public.payout_batch_items;
+CREATE TRIGGER on_payout_batch_items_updated
+  BEFORE UPDATE ON public.payout_batch_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+DROP TRIGGER IF EXISTS on_network_moves_updated ON public.network_moves;
+CREATE TRIGGER on_network_moves_updated
+  BEFORE UPDATE ON public.network_moves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+DROP TRIGGER IF EXISTS on_commission_periods_updated ON public.commission_periods;
+CREATE TRIGGER on_commission_periods_updated
+  BEFORE UPDATE ON public.commission_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
 DROP TRIGGER IF EXISTS on_payment_history_entries_updated ON public.payment_history_entries;
 CREATE TRIGGER on_payment_history_entries_updated
   BEFORE UPDATE ON public.payment_history_entries
@@ -2425,7 +3921,7 @@ BEGIN
   END IF;
   -- Start with the direct sponsor of the user who just paid
   SELECT
-    referred_by INTO current_sponsor
+    network_parent_id INTO current_sponsor
   FROM
     public.profiles
   WHERE
@@ -2438,7 +3934,7 @@ BEGIN
         public.recalculate_phase(current_sponsor);
       -- Move up to the next sponsor in the chain
       SELECT
-        referred_by INTO current_sponsor
+        network_parent_id INTO current_sponsor
       FROM
         public.profiles
       WHERE
@@ -2467,7 +3963,7 @@ BEGIN
     set_config('search_path', 'public', TRUE);
 
   -- Get the sponsor ID for this user
-  SELECT referred_by INTO sponsor_id
+  SELECT network_parent_id INTO sponsor_id
   FROM public.profiles
   WHERE id = NEW.user_id;
 
@@ -2525,14 +4021,40 @@ BEGIN
   RETURN COALESCE(result, 0);
 END;
 $$;
-CREATE OR REPLACE FUNCTION public.count_active_level(p_user uuid, p_level integer)
-  RETURNS bigint
+CREATE OR REPLACE FUNCTION public.subscription_counts_for_phase(p_status text)
+  RETURNS boolean
   LANGUAGE plpgsql
+  STABLE
   SECURITY DEFINER
   AS $$
 DECLARE
-  direct_count bigint := 0;
-  second_level_total bigint := 0;
+  paused_counts boolean := TRUE;
+BEGIN
+  PERFORM
+    set_config('search_path', 'public', TRUE);
+  IF p_status = 'active' THEN
+    RETURN TRUE;
+  END IF;
+  IF p_status <> 'paused' THEN
+    RETURN FALSE;
+  END IF;
+  SELECT
+    COALESCE(paused_members_count_toward_phase, TRUE) INTO paused_counts
+  FROM
+    public.app_settings
+  LIMIT 1;
+  RETURN COALESCE(paused_counts, TRUE);
+END;
+$$;
+COMMENT ON FUNCTION public.subscription_counts_for_phase(text) IS 'Whether a subscription status counts as active for phase requirements. Paused subscriptions follow app_settings.paused_members_count_toward_phase.';
+CREATE OR REPLACE FUNCTION public.count_active_level(p_user uuid, p_level integer)
+  RETURNS bigint
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  AS $$
+DECLARE
+  direct_count bigint := 0;
+  second_level_total bigint := 0;
 BEGIN
   PERFORM
     set_config('search_path', 'public', TRUE);
@@ -2546,8 +4068,8 @@ BEGIN
       public.profiles child
       JOIN public.subscriptions sub ON sub.user_id = child.id
     WHERE
-      child.referred_by = p_user
-      AND sub.status = 'active';
+      child.network_parent_id = p_user
+      AND public.subscription_counts_for_phase(sub.status);
     RETURN COALESCE(direct_count, 0);
   ELSIF p_level = 2 THEN
     SELECT
@@ -2555,12 +4077,12 @@ BEGIN
     FROM
       public.profiles parent
       JOIN public.subscriptions parent_sub ON parent_sub.user_id = parent.id
-      JOIN public.profiles grandchild ON grandchild.referred_by = parent.id
+      JOIN public.profiles grandchild ON grandchild.network_parent_id = parent.id
       JOIN public.subscriptions grandchild_sub ON grandchild_sub.user_id = grandchild.id
     WHERE
-      parent.referred_by = p_user
-      AND parent_sub.status = 'active'
-      AND grandchild_sub.status = 'active';
+      parent.network_parent_id = p_user
+      AND public.subscription_counts_for_phase(parent_sub.status)
+      AND public.subscription_counts_for_phase(grandchild_sub.status);
     RETURN COALESCE(second_level_total, 0);
   ELSE
     RETURN 0;
@@ -2590,6 +4112,8 @@ BEGIN
 END;
 $$;
 -- New dynamic multilevel tree function
+-- sponsor_id was added to the result set, so the previous signature has to be dropped first
+DROP FUNCTION IF EXISTS public.fetch_multilevel_tree(uuid, integer);
 CREATE OR REPLACE FUNCTION public.fetch_multilevel_tree(p_user uuid, p_max_levels integer DEFAULT 10)
   RETURNS TABLE(
     descendant uuid,
@@ -2598,7 +4122,8 @@ CREATE OR REPLACE FUNCTION public.fetch_multilevel_tree(p_user uuid, p_max_level
     status text,
     level INTEGER,
     phase integer,
-    allow_team_messages boolean)
+    allow_team_messages boolean,
+    sponsor_id uuid)
   LANGUAGE plpgsql
   SECURITY DEFINER
   AS $$
@@ -2623,7 +4148,7 @@ BEGIN
     FROM
       public.profiles
     WHERE
-      referred_by = p_user);
+      network_parent_id = p_user);
   -- Return Level 1 members
   RETURN QUERY
   SELECT
@@ -2633,13 +4158,14 @@ BEGIN
     sub.status,
     1 AS level,
     ph.phase,
-    COALESCE(child.allow_team_messages, true) AS allow_team_messages
+    COALESCE(child.allow_team_messages, true) AS allow_team_messages,
+    child.network_parent_id AS sponsor_id
   FROM
     public.profiles child
   LEFT JOIN public.subscriptions sub ON sub.user_id = child.id
   LEFT JOIN public.phases ph ON ph.user_id = child.id
 WHERE
-  child.referred_by = p_user;
+  child.network_parent_id = p_user;
   -- Loop through remaining levels (2 to p_max_levels)
   FOR current_level IN 2..p_max_levels LOOP
     -- If no users at previous level, stop
@@ -2653,7 +4179,7 @@ WHERE
       FROM
         public.profiles
       WHERE
-        referred_by = ANY (level_users));
+        network_parent_id = ANY (level_users));
     -- If no users at this level, stop
     IF array_length(next_level_users, 1) IS NULL OR array_length(next_level_users, 1) = 0 THEN
       EXIT;
@@ -2667,13 +4193,14 @@ WHERE
       sub.status,
       current_level AS level,
       ph.phase,
-      COALESCE(child.allow_team_messages, true) AS allow_team_messages
+      COALESCE(child.allow_team_messages, true) AS allow_team_messages,
+      child.network_parent_id AS sponsor_id
     FROM
       public.profiles child
     LEFT JOIN public.subscriptions sub ON sub.user_id = child.id
     LEFT JOIN public.phases ph ON ph.user_id = child.id
   WHERE
-    child.referred_by = ANY (level_users);
+    child.network_parent_id = ANY (level_users);
     -- Move to next level
     level_users := next_level_users;
   END LOOP;
@@ -2687,7 +4214,224 @@ GRANT EXECUTE ON FUNCTION public.recalculate_sponsor_phases_cascade(UUID) TO aut
 GRANT EXECUTE ON FUNCTION public.recalculate_sponsor_phases_cascade(UUID) TO service_role;
 GRANT EXECUTE ON FUNCTION public.handle_subscription_activation() TO authenticated;
 GRANT EXECUTE ON FUNCTION public.handle_subscription_activation() TO service_role;
-COMMENT ON FUNCTION public.fetch_multilevel_tree(UUID, INTEGER) IS 'Fetches the multilevel network tree for a user up to p_max_levels deep. Returns all descendants with their subscription status, level, and phase information.';
+COMMENT ON FUNCTION public.fetch_multilevel_tree(UUID, INTEGER) IS 'Fetches the multilevel network tree for a user up to p_max_levels deep. Returns all descendants with their subscription status, level, phase and network parent (sponsor_id: the placement parent, or the enrolling sponsor when placed directly).';
+-- Genealogy tree explorer: children per node, search and rollups ----------------
+-- Levels between an ancestor and a member of its network (0 for the ancestor itself), NULL when
+-- the member is not within p_max_levels of the ancestor
+CREATE OR REPLACE FUNCTION public.network_depth(p_ancestor uuid, p_member uuid, p_max_levels integer DEFAULT 10)
+  RETURNS integer
+  LANGUAGE plpgsql
+  STABLE
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  current_id uuid := p_member;
+  current_depth integer := 0;
+BEGIN
+  IF p_ancestor IS NULL OR p_member IS NULL THEN
+    RETURN NULL;
+  END IF;
+  WHILE current_depth <= p_max_levels LOOP
+    IF current_id = p_ancestor THEN
+      RETURN current_depth;
+    END IF;
+    SELECT network_parent_id INTO current_id FROM public.profiles WHERE id = current_id;
+    IF current_id IS NULL THEN
+      RETURN NULL;
+    END IF;
+    current_depth := current_depth + 1;
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+-- Downline size, active subscriptions and paid order volume (the member's own orders included)
+-- of a member, p_max_levels deep
+CREATE OR REPLACE FUNCTION public.network_rollup(p_member uuid, p_max_levels integer DEFAULT 10)
+  RETURNS TABLE(
+    downline_size bigint,
+    active_count bigint,
+    volume_cents bigint)
+  LANGUAGE sql
+  STABLE
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+  WITH RECURSIVE downline AS (
+    SELECT p.id, 1 AS depth
+    FROM public.profiles p
+    WHERE p.network_parent_id = p_member
+      AND p_max_levels >= 1
+    UNION ALL
+    SELECT p.id, d.depth + 1
+    FROM public.profiles p
+    JOIN downline d ON p.network_parent_id = d.id
+    WHERE d.depth < p_max_levels
+  )
+  SELECT
+    (SELECT count(*) FROM downline),
+    (SELECT count(*) FROM downline d JOIN public.subscriptions sub ON sub.user_id = d.id WHERE sub.status = 'active'),
+    (SELECT COALESCE(sum(o.total_cents), 0)::bigint
+     FROM public.orders o
+     WHERE o.status IN ('paid', 'completed', 'fulfilled')
+       AND (o.user_id = p_member OR o.user_id IN (SELECT id FROM downline)));
+$$;
+-- One page of the direct members of p_parent, which must be p_root or in its network, with
+-- their rollups. Rollups stop at the tree depth (10 levels below p_root)
+CREATE OR REPLACE FUNCTION public.fetch_tree_children(
+  p_root uuid,
+  p_parent uuid,
+  p_status text DEFAULT NULL,
+  p_phase integer DEFAULT NULL,
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+)
+  RETURNS TABLE(
+    member_id uuid,
+    email text,
+    name text,
+    status text,
+    level integer,
+    phase integer,
+    allow_team_messages boolean,
+    sponsor_id uuid,
+    child_count bigint,
+    downline_size bigint,
+    active_count bigint,
+    volume_cents bigint,
+    total_count bigint)
+  LANGUAGE plpgsql
+  STABLE
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  parent_depth integer;
+BEGIN
+  parent_depth := public.network_depth(p_root, p_parent, 9);
+  IF parent_depth IS NULL THEN
+    RETURN;
+  END IF;
+  p_limit := LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+  p_offset := GREATEST(COALESCE(p_offset, 0), 0);
+  RETURN QUERY
+  WITH page AS (
+    SELECT
+      child.id,
+      child.email,
+      child.name,
+      sub.status,
+      ph.phase,
+      COALESCE(child.allow_team_messages, TRUE) AS allow_team_messages,
+      child.network_parent_id,
+      child.created_at,
+      count(*) OVER () AS total_count
+    FROM public.profiles child
+    LEFT JOIN public.subscriptions sub ON sub.user_id = child.id
+    LEFT JOIN public.phases ph ON ph.user_id = child.id
+    WHERE child.network_parent_id = p_parent
+      AND (p_status IS NULL OR COALESCE(sub.status, 'none') = p_status)
+      AND (p_phase IS NULL OR COALESCE(ph.phase, 0) = p_phase)
+    ORDER BY child.created_at, child.id
+    LIMIT p_limit OFFSET p_offset
+  )
+  SELECT
+    page.id,
+    page.email,
+    page.name,
+    page.status,
+    parent_depth + 1,
+    page.phase,
+    page.allow_team_messages,
+    page.network_parent_id,
+    CASE WHEN parent_depth + 1 >= 10 THEN 0::bigint
+      ELSE (SELECT count(*) FROM public.profiles grandchild WHERE grandchild.network_parent_id = page.id)
+    END,
+    totals.downline_size,
+    totals.active_count,
+    totals.volume_cents,
+    page.total_count
+  FROM page
+  CROSS JOIN LATERAL public.network_rollup(page.id, 10 - (parent_depth + 1)) totals
+  ORDER BY page.created_at, page.id;
+END;
+$$;
+-- Members of the network of p_root (10 levels deep) whose name or email contains p_query, with
+-- the path of ancestors below p_root so the tree can be expanded down to them
+CREATE OR REPLACE FUNCTION public.search_tree_members(
+  p_root uuid,
+  p_query text,
+  p_status text DEFAULT NULL,
+  p_phase integer DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+  RETURNS TABLE(
+    member_id uuid,
+    email text,
+    name text,
+    status text,
+    level integer,
+    phase integer,
+    allow_team_messages boolean,
+    sponsor_id uuid,
+    path uuid[],
+    total_count bigint)
+  LANGUAGE plpgsql
+  STABLE
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  pattern text;
+BEGIN
+  IF p_root IS NULL OR COALESCE(btrim(p_query), '') = '' THEN
+    RETURN;
+  END IF;
+  pattern := '%' || replace(replace(replace(btrim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  p_limit := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+  p_offset := GREATEST(COALESCE(p_offset, 0), 0);
+  RETURN QUERY
+  WITH RECURSIVE downline AS (
+    SELECT p.id, 1 AS depth, ARRAY[]::uuid[] AS ancestors
+    FROM public.profiles p
+    WHERE p.network_parent_id = p_root
+    UNION ALL
+    SELECT p.id, d.depth + 1, d.ancestors || d.id
+    FROM public.profiles p
+    JOIN downline d ON p.network_parent_id = d.id
+    WHERE d.depth < 10
+  )
+  SELECT
+    profile.id,
+    profile.email,
+    profile.name,
+    sub.status,
+    d.depth,
+    ph.phase,
+    COALESCE(profile.allow_team_messages, TRUE),
+    profile.network_parent_id,
+    d.ancestors,
+    count(*) OVER ()
+  FROM downline d
+  JOIN public.profiles profile ON profile.id = d.id
+  LEFT JOIN public.subscriptions sub ON sub.user_id = profile.id
+  LEFT JOIN public.phases ph ON ph.user_id = profile.id
+  WHERE (profile.name ILIKE pattern OR profile.email ILIKE pattern)
+    AND (p_status IS NULL OR COALESCE(sub.status, 'none') = p_status)
+    AND (p_phase IS NULL OR COALESCE(ph.phase, 0) = p_phase)
+  ORDER BY d.depth, profile.name NULLS LAST, profile.id
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.network_depth(uuid, uuid, integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.network_rollup(uuid, integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.fetch_tree_children(uuid, uuid, text, integer, integer, integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.search_tree_members(uuid, text, text, integer, integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.network_depth(uuid, uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.network_rollup(uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fetch_tree_children(uuid, uuid, text, integer, integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.search_tree_members(uuid, text, text, integer, integer, integer) TO service_role;
 CREATE OR REPLACE FUNCTION public.recalculate_phase(p_user uuid)
   RETURNS VOID
   LANGUAGE plpgsql
@@ -2726,7 +4470,7 @@ BEGIN
 
   -- Check current subscription status
   SELECT
-    (sub.status = 'active') INTO subscription_active
+    public.subscription_counts_for_phase(sub.status) INTO subscription_active
   FROM
     public.subscriptions sub
   WHERE
@@ -2772,8 +4516,8 @@ BEGIN
     public.profiles child
     JOIN public.subscriptions sub ON sub.user_id = child.id
   WHERE
-    child.referred_by = p_user
-    AND sub.status = 'active';
+    child.network_parent_id = p_user
+    AND public.subscription_counts_for_phase(sub.status);
 
   -- Count second level active referrals
   WITH second_counts AS (
@@ -2783,12 +4527,12 @@ BEGIN
     FROM
       public.profiles parent
       JOIN public.subscriptions parent_sub ON parent_sub.user_id = parent.id
-      JOIN public.profiles grandchild ON grandchild.referred_by = parent.id
+      JOIN public.profiles grandchild ON grandchild.network_parent_id = parent.id
       JOIN public.subscriptions grandchild_sub ON grandchild_sub.user_id = grandchild.id
     WHERE
-      parent.referred_by = p_user
-      AND parent_sub.status = 'active'
-      AND grandchild_sub.status = 'active'
+      parent.network_parent_id = p_user
+      AND public.subscription_counts_for_phase(parent_sub.status)
+      AND public.subscription_counts_for_phase(grandchild_sub.status)
     GROUP BY
       parent.id
   )
@@ -2852,14 +4596,12 @@ BEGIN
     END IF;
   END IF;
 
-  -- Update phase record
+  -- Update phase record. phaseN_granted is owned by the phase evaluation engine, which
+  -- grants the rewards once at the billing-cycle close.
   INSERT INTO public.phases(
     user_id, 
     phase, 
     ecommerce_commission, 
-    phase1_granted, 
-    phase2_granted, 
-    phase3_granted, 
     phase2_achieved_at,
     highest_phase_achieved,
     manual_phase_override
@@ -2868,9 +4610,6 @@ BEGIN
     p_user, 
     new_phase, 
     commission, 
-    phase1, 
-    phase2, 
-    phase3, 
     CASE 
       WHEN phase2 AND (existing_phase2 IS NULL) THEN timezone('utc', now())
       ELSE existing_phase2
@@ -2882,14 +4621,11 @@ BEGIN
   DO UPDATE SET
     phase = EXCLUDED.phase,
     ecommerce_commission = EXCLUDED.ecommerce_commission,
-    phase1_granted = EXCLUDED.phase1_granted,
-    phase2_granted = EXCLUDED.phase2_granted,
-    phase3_granted = EXCLUDED.phase3_granted,
     highest_phase_achieved = EXCLUDED.highest_phase_achieved,
     phase2_achieved_at = CASE 
-      WHEN EXCLUDED.phase2_granted AND public.phases.phase2_achieved_at IS NULL THEN
+      WHEN phase2 AND public.phases.phase2_achieved_at IS NULL THEN
         EXCLUDED.phase2_achieved_at
-      WHEN NOT EXCLUDED.phase2_granted THEN
+      WHEN NOT phase2 THEN
         NULL
       ELSE
         public.phases.phase2_achieved_at
@@ -2904,6 +4640,60 @@ END;
 $$;
 COMMENT ON FUNCTION public.recalculate_phase(UUID) IS 'Recalculates user phase based on network activity. Preserves highest achieved phase when users reactivate their subscription. Respects manual_phase_override flag set by admins. Respects custom profiles.commission_rate overrides when present.';
 
+-- Applies (or rolls back) the profile edges recorded for a network move in one transaction and
+-- recalculates the phases of both uplines. Fails when any moved profile no longer has the parent
+-- the move expects, i.e. the network changed since the move was prepared.
+CREATE OR REPLACE FUNCTION public.apply_network_move(p_move_id uuid, p_rollback boolean DEFAULT FALSE)
+  RETURNS void
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_parent uuid;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.network_move_changes c
+    JOIN public.profiles p ON p.id = c.profile_id
+    WHERE c.move_id = p_move_id
+      AND p.network_parent_id IS DISTINCT FROM
+        CASE WHEN p_rollback THEN c.new_network_parent_id ELSE c.previous_network_parent_id END
+  ) THEN
+    RAISE EXCEPTION 'network_move_conflict: the network changed since move % was prepared', p_move_id;
+  END IF;
+
+  UPDATE public.profiles p
+  SET
+    referred_by = CASE WHEN p_rollback THEN c.previous_referred_by ELSE c.new_referred_by END,
+    placement_parent_id = CASE WHEN p_rollback THEN c.previous_placement_parent_id ELSE c.new_placement_parent_id END,
+    placement_strategy = CASE WHEN p_rollback THEN c.previous_placement_strategy ELSE NULL END,
+    placed_at = CASE
+      WHEN p_rollback THEN c.previous_placed_at
+      WHEN c.new_placement_parent_id IS NULL THEN NULL
+      ELSE timezone('utc', now())
+    END
+  FROM public.network_move_changes c
+  WHERE c.move_id = p_move_id
+    AND p.id = c.profile_id;
+
+  FOR v_parent IN
+    SELECT DISTINCT parent_id
+    FROM (
+      SELECT previous_network_parent_id AS parent_id FROM public.network_move_changes WHERE move_id = p_move_id
+      UNION
+      SELECT new_network_parent_id FROM public.network_move_changes WHERE move_id = p_move_id
+    ) parents
+    WHERE parent_id IS NOT NULL
+  LOOP
+    PERFORM public.recalculate_phase(v_parent);
+    PERFORM public.recalculate_sponsor_phases_cascade(v_parent);
+  END LOOP;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.apply_network_move(uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_network_move(uuid, boolean) TO service_role;
+
 -- Function for admins to manually set user phase
 CREATE OR REPLACE FUNCTION public.admin_set_user_phase(
   p_user_id uuid,
@@ -2953,20 +4743,14 @@ BEGIN
     phase,
     ecommerce_commission,
     highest_phase_achieved,
-    manual_phase_override,
-    phase1_granted,
-    phase2_granted,
-    phase3_granted
+    manual_phase_override
   )
   VALUES (
     p_user_id,
     p_new_phase,
     v_commission,
     GREATEST(p_new_phase, 0),
-    TRUE,
-    p_new_phase >= 1,
-    p_new_phase >= 2,
-    p_new_phase >= 3
+    TRUE
   )
   ON CONFLICT (user_id)
   DO UPDATE SET
@@ -2974,9 +4758,6 @@ BEGIN
     ecommerce_commission = EXCLUDED.ecommerce_commission,
     highest_phase_achieved = GREATEST(public.phases.highest_phase_achieved, EXCLUDED.phase),
     manual_phase_override = TRUE,
-    phase1_granted = EXCLUDED.phase1_granted,
-    phase2_granted = EXCLUDED.phase2_granted,
-    phase3_granted = EXCLUDED.phase3_granted,
     updated_at = timezone('utc', now());
 
   -- Log the admin action
@@ -3007,7 +4788,7 @@ BEGIN
 END;
 $$;
 
-COMMENT ON FUNCTION public.admin_set_user_phase(uuid, integer, uuid) IS 'Allows admins to manually set a user phase. Sets manual_phase_override flag to prevent automatic recalculation.';
+COMMENT ON FUNCTION public.admin_set_user_phase(uuid, integer, uuid) IS 'Allows admins to manually set a user phase. Sets manual_phase_override flag to prevent automatic recalculation. Leaves phaseN_granted to the phase evaluation engine, which grants the rewards of each level once.';
 
 GRANT EXECUTE ON FUNCTION public.admin_set_user_phase(uuid, integer, uuid) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.admin_set_user_phase(uuid, integer, uuid) TO service_role;
@@ -3525,229 +5306,2007 @@ WITH branding_defaults AS (
       TRUE;
 -- After running these updates you can verify the data with the helper query suite in docs/database/verification-suite.sql.
 -- -------------------------------------------------------------
--- SECTION: Contact settings tables (legacy 07)
+-- SECTION: Contact settings tables (legacy 07)
+-- -------------------------------------------------------------
+-- 07-contact-settings.sql
+--
+-- Purpose: Provision the contact configuration tables so the admin UI can manage
+--          sender details, routing overrides, and keep an audit log of form submissions.
+--
+-- Prerequisites:
+--   - Run scripts 01 through 06 first. The `landing_page_content` table must exist.
+--   - Ensure the `pgcrypto` extension is available for UUID generation.
+-- 1. Safety: enable pgcrypto for gen_random_uuid if it is not already available
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+-- 2. Contact settings table (single row keyed by "global")
+-- ===========================================
+-- APP SETTINGS TABLE
+-- ===========================================
+CREATE TABLE IF NOT EXISTS public.app_settings(
+  id text PRIMARY KEY DEFAULT 'global',
+  base_commission_rate numeric(5, 4) NOT NULL DEFAULT 0.10,
+  referral_bonus_rate numeric(5, 4) NOT NULL DEFAULT 0.05,
+  leadership_pool_rate numeric(5, 4) NOT NULL DEFAULT 0.02,
+  max_members_per_level jsonb NOT NULL DEFAULT '[]' ::jsonb,
+  payout_frequency text NOT NULL DEFAULT 'monthly' CHECK (payout_frequency IN ('weekly', 'biweekly', 'monthly')),
+  currency text NOT NULL DEFAULT 'USD',
+  currencies jsonb NOT NULL DEFAULT '[]' ::jsonb,
+  ecommerce_commission_rate numeric(5, 4) NOT NULL DEFAULT 0.08,
+  auto_advance_enabled boolean NOT NULL DEFAULT TRUE,
+  team_levels_visible integer NOT NULL DEFAULT 2 CHECK (team_levels_visible BETWEEN 1 AND 10),
+  created_at timestamptz DEFAULT NOW(),
+  updated_at timestamptz DEFAULT NOW()
+);
+COMMENT ON TABLE public.app_settings IS 'Global configuration for the multi-level compensation engine.';
+INSERT INTO public.app_settings AS aps(id, base_commission_rate, referral_bonus_rate, leadership_pool_rate, max_members_per_level, payout_frequency, currency, currencies, ecommerce_commission_rate, auto_advance_enabled, team_levels_visible)
+  VALUES ('global', 0.10, 0.05, 0.02, '[{"level":1,"max_members":5},{"level":2,"max_members":25},{"level":3,"max_members":125},{"level":4,"max_members":625},{"level":5,"max_members":3125}]'::jsonb, 'monthly', 'USD', '[{"code":"USD","countryCodes":[]}]'::jsonb, 0.08, TRUE, 2)
+ON CONFLICT (id)
+  DO NOTHING;
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "app_settings_service_role" ON public.app_settings;
+CREATE POLICY "app_settings_service_role" ON public.app_settings
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_app_settings_updated ON public.app_settings;
+CREATE TRIGGER on_app_settings_updated
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+CREATE TABLE IF NOT EXISTS public.contact_settings(
+  id text PRIMARY KEY DEFAULT 'global',
+  from_name text NOT NULL,
+  from_email text NOT NULL,
+  reply_to_email text,
+  recipient_email_override text,
+  cc_emails text[] NOT NULL DEFAULT '{}',
+  bcc_emails text[] NOT NULL DEFAULT '{}',
+  subject_prefix text,
+  auto_response_enabled boolean NOT NULL DEFAULT FALSE,
+  auto_response_subject text,
+  auto_response_body text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+COMMENT ON TABLE public.contact_settings IS 'Admin-configurable sender identity and routing options for the public contact form.';
+-- Seed or refresh the global row with sensible defaults.
+-- The service layer will override `from_email` with environment variables when present.
+INSERT INTO public.contact_settings AS cs(id, from_name, from_email, reply_to_email, recipient_email_override, cc_emails, bcc_emails, subject_prefix, auto_response_enabled, auto_response_subject, auto_response_body, created_at, updated_at)
+SELECT
+  'global',
+  'Landing Contact',
+  coalesce((
+    SELECT
+      contact -> 'contactInfo' ->> 'email'
+    FROM public.landing_page_content
+    WHERE
+      contact ->> 'contactInfo' IS NOT NULL ORDER BY updated_at DESC nulls LAST LIMIT 1), 'contact@example.com') AS from_email,
+  NULL::text AS reply_to_email,
+  NULL::text AS recipient_email_override,
+  '{}'::text[] AS cc_emails,
+  '{}'::text[] AS bcc_emails,
+  '[Contact]'::text AS subject_prefix,
+  FALSE,
+  NULL::text,
+  NULL::text,
+  now(),
+  now()
+ON CONFLICT (id)
+  DO UPDATE SET
+    updated_at = now()
+  WHERE
+    cs.id = 'global';
+-- 3. Message log table to capture each submission attempt
+CREATE TABLE IF NOT EXISTS public.contact_messages(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  locale text NOT NULL,
+  name text NOT NULL,
+  email text NOT NULL,
+  message text NOT NULL,
+  recipient_email text NOT NULL,
+  subject text NOT NULL,
+  status text NOT NULL DEFAULT 'sent',
+  error_message text
+);
+COMMENT ON TABLE public.contact_messages IS 'Immutable log of inbound contact form submissions.';
+COMMENT ON COLUMN public.contact_messages.status IS 'sent|failed indicator to correlate with email provider responses.';
+-- Helpful indexes for chronological review and failure triage
+CREATE INDEX IF NOT EXISTS contact_messages_created_at_idx ON public.contact_messages(created_at DESC);
+CREATE INDEX IF NOT EXISTS contact_messages_status_idx ON public.contact_messages(status);
+-- 4. Optional: grant read access to service role only (RLS can be added later if needed)
+-- For now the admin API uses the service role client, so we keep default privileges.
+-- Verification snippet (run separately after executing this script):
+--   select * from contact_settings;
+--   select id, created_at, status from contact_messages order by created_at desc limit 5;
+-- -------------------------------------------------------------
+-- SECTION: Product inventory metrics (legacy 08)
+-- -------------------------------------------------------------
+-- Adds inventory tracking metadata for products so the admin dashboard can surface stock metrics.
+-- Run this script after the base schema (01-03) and before seeding new data.
+-- 1. Ensure the stock_quantity column exists on products
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS stock_quantity integer NOT NULL DEFAULT 0;
+-- 2. Backfill null values just in case the column already existed without defaults
+UPDATE
+  public.products
+SET
+  stock_quantity = 0
+WHERE
+  stock_quantity IS NULL;
+-- 3. Provide a helper view for quick stock summaries (optional, but useful for debugging)
+CREATE OR REPLACE VIEW public.product_stock_overview AS
+SELECT
+  id,
+  name,
+  COALESCE(stock_quantity, 0) AS stock_quantity,
+  updated_at
+FROM
+  public.products
+ORDER BY
+  name;
+-- 4. Verify results
+SELECT
+  COUNT(*) AS product_count,
+  SUM(stock_quantity) AS total_units
+FROM
+  public.products;
+-- -------------------------------------------------------------
+-- SECTION: Product cart visibility (20250418)
+-- -------------------------------------------------------------
+-- Ensure each product stores the list of ISO country codes where cart actions are available.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS cart_visibility_countries TEXT[] DEFAULT '{}'::text[];
+-- Backfill any null entries from previous deployments.
+UPDATE
+  public.products
+SET
+  cart_visibility_countries = '{}'
+WHERE
+  cart_visibility_countries IS NULL;
+-- Enforce not-null semantics for simpler parsing in the application layer.
+ALTER TABLE public.products
+  ALTER COLUMN cart_visibility_countries SET NOT NULL;
+-- Speed up lookups when checking if a country is eligible for purchases.
+CREATE INDEX IF NOT EXISTS idx_products_cart_visibility_countries ON public.products USING GIN(cart_visibility_countries);
+-- -------------------------------------------------------------
+-- SECTION: Checkout preferences (legacy 09)
+-- -------------------------------------------------------------
+-- =============================================================
+-- Checkout profile enhancements
+-- Adds shipping/postal details and a default payment provider to profiles
+-- Execute after `08-product-inventory-update.sql`
+-- =============================================================
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS state TEXT;
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS postal_code TEXT;
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS default_payment_provider TEXT;
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS avatar_url TEXT;
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_default_payment_provider_check;
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_default_payment_provider_check CHECK (default_payment_provider IS NULL OR default_payment_provider IN ('paypal', 'stripe', 'wallet'));
+-- -------------------------------------------------------------
+-- SECTION: Product experience content (legacy 10)
+-- -------------------------------------------------------------
+-- =============================================================
+-- PūrVita Network - Product Experience Content Migration
+-- Adds the JSONB column required to store curated product storytelling
+-- and review metadata controlled from the admin panel.
+-- =============================================================
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS experience jsonb DEFAULT '{}'::jsonb;
+UPDATE
+  public.products
+SET
+  experience = '{}'::jsonb
+WHERE
+  experience IS NULL;
+-- -------------------------------------------------------------
+-- SECTION: Product stock overview view (security fix)
+-- -------------------------------------------------------------
+-- =============================================================
+-- Fix product_stock_overview view security
+-- Changes from SECURITY DEFINER to SECURITY INVOKER for safety
+-- =============================================================
+DROP VIEW IF EXISTS public.product_stock_overview;
+CREATE OR REPLACE VIEW public.product_stock_overview WITH ( security_invoker = TRUE
+) AS
+SELECT
+  id,
+  name,
+  COALESCE(
+    stock_quantity, 0
+) AS stock_quantity,
+  updated_at
+FROM
+  public.products
+ORDER BY
+  name;
+COMMENT ON VIEW public.product_stock_overview IS 'Simplified view of product stock levels. Uses SECURITY INVOKER for safety.';
+-- -------------------------------------------------------------
+-- SECTION: Stock movements ledger and checkout reservations
+-- -------------------------------------------------------------
+-- Every change of products.stock_quantity is recorded in stock_movements. Checkouts reserve
+-- stock for a limited time (stock_reservations); available stock is the stock on hand minus
+-- the active, unexpired reservations.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS low_stock_threshold integer NOT NULL DEFAULT 5 CHECK (low_stock_threshold >= 0);
+COMMENT ON COLUMN public.products.low_stock_threshold IS 'Available units at or below which the warehouse is alerted';
+CREATE TABLE IF NOT EXISTS public.stock_reservations(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_key text NOT NULL,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'consumed', 'released', 'expired')),
+  expires_at timestamptz NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (reservation_key, product_id)
+);
+COMMENT ON TABLE public.stock_reservations IS 'Stock held by a checkout until it is paid (consumed), fails (released) or times out (expired)';
+COMMENT ON COLUMN public.stock_reservations.reservation_key IS 'Checkout reference shared by the items of one checkout (provider order id or generated key)';
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_active ON public.stock_reservations(product_id, expires_at)
+WHERE
+  status = 'active';
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "stock_reservations_service_role" ON public.stock_reservations;
+CREATE POLICY "stock_reservations_service_role" ON public.stock_reservations
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_stock_reservations_updated ON public.stock_reservations;
+CREATE TRIGGER on_stock_reservations_updated
+  BEFORE UPDATE ON public.stock_reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+CREATE TABLE IF NOT EXISTS public.stock_movements(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('receipt', 'sale', 'return', 'adjustment', 'damage')),
+  quantity integer NOT NULL,
+  stock_after integer NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  reservation_id uuid REFERENCES public.stock_reservations(id) ON DELETE SET NULL,
+  note text,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CHECK ((kind IN ('receipt', 'return') AND quantity > 0)
+    OR (kind IN ('sale', 'damage') AND quantity < 0)
+    OR (kind = 'adjustment' AND quantity <> 0))
+);
+COMMENT ON TABLE public.stock_movements IS 'Ledger of every stock change: receipts, sales, returns, adjustments and damage';
+COMMENT ON COLUMN public.stock_movements.quantity IS 'Signed change of stock_quantity';
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON public.stock_movements(product_id, created_at DESC);
+-- One sale movement per order and product, so paid orders never discount stock twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_movements_order_sale ON public.stock_movements(order_id, product_id)
+WHERE
+  kind = 'sale' AND order_id IS NOT NULL;
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "stock_movements_service_role" ON public.stock_movements;
+CREATE POLICY "stock_movements_service_role" ON public.stock_movements
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP VIEW IF EXISTS public.product_stock_levels;
+CREATE VIEW public.product_stock_levels WITH ( security_invoker = TRUE
+) AS
+SELECT
+  pr.id,
+  pr.name,
+  pr.slug,
+  pr.stock_quantity,
+  COALESCE(held.reserved_quantity, 0)::integer AS reserved_quantity,
+  (pr.stock_quantity - COALESCE(held.reserved_quantity, 0))::integer AS available_quantity,
+  pr.low_stock_threshold,
+  (pr.stock_quantity - COALESCE(held.reserved_quantity, 0)) <= pr.low_stock_threshold AS is_low_stock
+FROM
+  public.products pr
+  LEFT JOIN (
+    SELECT
+      product_id,
+      sum(quantity) AS reserved_quantity
+    FROM
+      public.stock_reservations
+    WHERE
+      status = 'active'
+      AND expires_at > now()
+    GROUP BY
+      product_id) held ON held.product_id = pr.id;
+COMMENT ON VIEW public.product_stock_levels IS 'Stock on hand, reserved and available units per product with the low stock flag';
+-- Applies one movement to a locked product. Only sales of paid checkouts may leave the stock
+-- below zero: the payment already happened, and negative stock shows up as an alert.
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(p_product_id uuid, p_kind text, p_quantity integer, p_order_id uuid DEFAULT NULL, p_reservation_id uuid DEFAULT NULL, p_note text DEFAULT NULL, p_created_by uuid DEFAULT NULL, p_allow_negative boolean DEFAULT FALSE)
+  RETURNS public.stock_movements
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_stock integer;
+  v_movement public.stock_movements%ROWTYPE;
+BEGIN
+  SELECT stock_quantity INTO v_stock FROM public.products WHERE id = p_product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'product_not_found: %', p_product_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_stock + p_quantity < 0 AND NOT p_allow_negative THEN
+    RAISE EXCEPTION 'insufficient_stock: %', p_product_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  -- Tells log_product_stock_change that this change is already in the ledger
+  PERFORM set_config('app.stock_ledger', 'on', TRUE);
+  UPDATE public.products SET stock_quantity = v_stock + p_quantity WHERE id = p_product_id;
+  PERFORM set_config('app.stock_ledger', 'off', TRUE);
+  INSERT INTO public.stock_movements (product_id, kind, quantity, stock_after, order_id, reservation_id, note, created_by)
+  VALUES (p_product_id, p_kind, p_quantity, v_stock + p_quantity, p_order_id, p_reservation_id, p_note, p_created_by)
+  RETURNING * INTO v_movement;
+  RETURN v_movement;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.apply_stock_movement(uuid, text, integer, uuid, uuid, text, uuid, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_stock_movement(uuid, text, integer, uuid, uuid, text, uuid, boolean) TO service_role;
+-- Initial stock of a new product is recorded as a receipt, and stock edited directly on the
+-- product (e.g. the admin product form) as an adjustment
+CREATE OR REPLACE FUNCTION public.log_product_stock_change()
+  RETURNS TRIGGER
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.stock_quantity, 0) > 0 THEN
+      INSERT INTO public.stock_movements (product_id, kind, quantity, stock_after, note, created_by)
+      VALUES (NEW.id, 'receipt', NEW.stock_quantity, NEW.stock_quantity, 'Initial stock', auth.uid());
+    END IF;
+  ELSIF COALESCE(current_setting('app.stock_ledger', TRUE), 'off') <> 'on'
+    AND NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+    INSERT INTO public.stock_movements (product_id, kind, quantity, stock_after, note, created_by)
+    VALUES (NEW.id, 'adjustment', NEW.stock_quantity - COALESCE(OLD.stock_quantity, 0), NEW.stock_quantity, 'Product edit', auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS log_product_stock_change ON public.products;
+CREATE TRIGGER log_product_stock_change
+  AFTER INSERT OR UPDATE OF stock_quantity ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_product_stock_change();
+-- Manual warehouse movement (receipt, return, adjustment or damage)
+CREATE OR REPLACE FUNCTION public.record_stock_movement(p_product_id uuid, p_kind text, p_quantity integer, p_note text DEFAULT NULL, p_created_by uuid DEFAULT NULL, p_order_id uuid DEFAULT NULL)
+  RETURNS public.stock_movements
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+BEGIN
+  IF p_kind NOT IN ('receipt', 'return', 'adjustment', 'damage') THEN
+    RAISE EXCEPTION 'invalid_stock_movement: %', p_kind
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  RETURN public.apply_stock_movement(p_product_id, p_kind, p_quantity, p_order_id, NULL, p_note, p_created_by, FALSE);
+END;
+$$;
+REVOKE ALL ON FUNCTION public.record_stock_movement(uuid, text, integer, text, uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_stock_movement(uuid, text, integer, text, uuid, uuid) TO service_role;
+-- Reserves the items of a checkout ([{ "product_id", "quantity" }]) until p_ttl_seconds from now.
+-- Reserving the same key again replaces its previous reservation. Fails with insufficient_stock
+-- when any product lacks available units, reserving nothing.
+CREATE OR REPLACE FUNCTION public.reserve_stock(p_reservation_key text, p_user_id uuid, p_items jsonb, p_ttl_seconds integer DEFAULT 1800)
+  RETURNS timestamptz
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_expires_at timestamptz := now() + make_interval(secs => GREATEST(p_ttl_seconds, 60));
+  v_item record;
+  v_stock integer;
+  v_reserved integer;
+BEGIN
+  UPDATE public.stock_reservations
+  SET status = 'expired'
+  WHERE status = 'active'
+    AND expires_at <= now();
+  UPDATE public.stock_reservations
+  SET status = 'released'
+  WHERE reservation_key = p_reservation_key
+    AND status = 'active';
+  -- Products are locked in id order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT (item->>'product_id')::uuid AS product_id, sum((item->>'quantity')::integer)::integer AS quantity
+    FROM jsonb_array_elements(p_items) item
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'invalid_stock_reservation: %', v_item.product_id
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    SELECT stock_quantity INTO v_stock FROM public.products WHERE id = v_item.product_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'product_not_found: %', v_item.product_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+    SELECT COALESCE(sum(quantity), 0) INTO v_reserved
+    FROM public.stock_reservations
+    WHERE product_id = v_item.product_id
+      AND status = 'active'
+      AND expires_at > now();
+    IF v_stock - v_reserved < v_item.quantity THEN
+      RAISE EXCEPTION 'insufficient_stock: %', v_item.product_id
+        USING ERRCODE = 'check_violation';
+    END IF;
+    INSERT INTO public.stock_reservations (reservation_key, product_id, user_id, quantity, status, expires_at)
+    VALUES (p_reservation_key, v_item.product_id, p_user_id, v_item.quantity, 'active', v_expires_at)
+    ON CONFLICT (reservation_key, product_id) DO UPDATE
+    SET quantity = EXCLUDED.quantity,
+      user_id = EXCLUDED.user_id,
+      status = 'active',
+      expires_at = EXCLUDED.expires_at,
+      order_id = NULL;
+  END LOOP;
+  RETURN v_expires_at;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.reserve_stock(text, uuid, jsonb, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_stock(text, uuid, jsonb, integer) TO service_role;
+-- Releases the active reservations of a failed or abandoned checkout. Returns the rows released.
+CREATE OR REPLACE FUNCTION public.release_stock_reservation(p_reservation_key text)
+  RETURNS integer
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.stock_reservations
+  SET status = 'released'
+  WHERE reservation_key = p_reservation_key
+    AND status = 'active';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.release_stock_reservation(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_stock_reservation(text) TO service_role;
+-- Records the sale of a paid checkout: its reservations become sale movements (even when they
+-- expired while the payment completed) and order items without a reservation are discounted
+-- too. Idempotent per order and product. Returns the units discounted by this call.
+CREATE OR REPLACE FUNCTION public.record_checkout_stock_sale(p_reservation_key text, p_order_id uuid)
+  RETURNS integer
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_reservation record;
+  v_item record;
+  v_units integer := 0;
+BEGIN
+  IF p_reservation_key IS NOT NULL THEN
+    FOR v_reservation IN
+      SELECT *
+      FROM public.stock_reservations
+      WHERE reservation_key = p_reservation_key
+        AND status IN ('active', 'expired')
+      ORDER BY product_id
+      FOR UPDATE
+    LOOP
+      IF p_order_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.stock_movements
+        WHERE order_id = p_order_id AND product_id = v_reservation.product_id AND kind = 'sale') THEN
+        PERFORM public.apply_stock_movement(v_reservation.product_id, 'sale', -v_reservation.quantity, p_order_id, v_reservation.id, NULL, NULL, TRUE);
+        v_units := v_units + v_reservation.quantity;
+      END IF;
+      UPDATE public.stock_reservations
+      SET status = 'consumed', order_id = p_order_id
+      WHERE id = v_reservation.id;
+    END LOOP;
+  END IF;
+  IF p_order_id IS NOT NULL THEN
+    FOR v_item IN
+      SELECT oi.product_id, sum(oi.qty)::integer AS quantity
+      FROM public.order_items oi
+      WHERE oi.order_id = p_order_id
+        AND oi.product_id IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.stock_movements sm
+          WHERE sm.order_id = p_order_id AND sm.product_id = oi.product_id AND sm.kind = 'sale')
+      GROUP BY oi.product_id
+      ORDER BY oi.product_id
+    LOOP
+      PERFORM public.apply_stock_movement(v_item.product_id, 'sale', -v_item.quantity, p_order_id, NULL, NULL, NULL, TRUE);
+      v_units := v_units + v_item.quantity;
+    END LOOP;
+  END IF;
+  RETURN v_units;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.record_checkout_stock_sale(text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_checkout_stock_sale(text, uuid) TO service_role;
+-- -------------------------------------------------------------
+-- SECTION: Product variants
+-- -------------------------------------------------------------
+-- A product with option axes (flavor, size, bundle...) is sold through its variants. Each
+-- variant has its own SKU, price, stock and images; the description and the experience content
+-- stay on the product. The stock of a product with variants is the sum of its active variants,
+-- kept in sync by sync_product_variant_stock.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS option_axes jsonb NOT NULL DEFAULT '[]' ::jsonb;
+COMMENT ON COLUMN public.products.option_axes IS 'Option axes of the variants in display order, e.g. [{"name": "Flavor", "values": ["Vanilla", "Cocoa"]}]';
+CREATE TABLE IF NOT EXISTS public.product_variants(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  sku text NOT NULL UNIQUE,
+  options jsonb NOT NULL DEFAULT '{}' ::jsonb,
+  price numeric(10, 2) NOT NULL CHECK (price > 0),
+  stock_quantity integer NOT NULL DEFAULT 0,
+  images jsonb NOT NULL DEFAULT '[]' ::jsonb,
+  position integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT TRUE,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (product_id, options)
+);
+COMMENT ON TABLE public.product_variants IS 'Sellable variants of a product: one per combination of option values';
+COMMENT ON COLUMN public.product_variants.options IS 'Value of each option axis, e.g. {"Flavor": "Vanilla", "Size": "1 kg"}';
+COMMENT ON COLUMN public.product_variants.images IS 'Variant images; empty to show the product images';
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON public.product_variants(product_id, position);
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "product_variants_read_public" ON public.product_variants;
+CREATE POLICY "product_variants_read_public" ON public.product_variants
+  FOR SELECT
+    USING (TRUE);
+DROP POLICY IF EXISTS "product_variants_manage_admin" ON public.product_variants;
+CREATE POLICY "product_variants_manage_admin" ON public.product_variants
+  FOR ALL
+    USING (public.has_permission(auth.uid(), 'manage_products'))
+    WITH CHECK (public.has_permission(auth.uid(), 'manage_products'));
+DROP POLICY IF EXISTS "product_variants_service_role" ON public.product_variants;
+CREATE POLICY "product_variants_service_role" ON public.product_variants
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_product_variants_updated ON public.product_variants;
+CREATE TRIGGER on_product_variants_updated
+  BEFORE UPDATE ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+-- Display label of a variant: its option values in the order of the product option axes
+CREATE OR REPLACE FUNCTION public.product_variant_label(p_options jsonb, p_option_axes jsonb)
+  RETURNS text
+  LANGUAGE sql
+  IMMUTABLE
+  AS $$
+  SELECT
+    NULLIF(string_agg(p_options ->> (axis.value ->> 'name'), ' / ' ORDER BY axis.ordinality), '')
+  FROM
+    jsonb_array_elements(COALESCE(p_option_axes, '[]'::jsonb)) WITH ORDINALITY AS axis(value, ordinality)
+  WHERE
+    p_options ? (axis.value ->> 'name');
+$$;
+-- The selected variant of each order line
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS variant_label text;
+COMMENT ON COLUMN public.order_items.variant_label IS 'Variant label at the time of the purchase, kept when the variant is deleted';
+-- Stock of a product with variants moves per variant
+ALTER TABLE public.stock_movements
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL;
+COMMENT ON COLUMN public.stock_movements.stock_after IS 'Stock of the variant, or of the product when the movement has no variant, after the movement';
+ALTER TABLE public.stock_reservations
+  ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES public.product_variants(id) ON DELETE CASCADE;
+ALTER TABLE public.stock_reservations
+  DROP CONSTRAINT IF EXISTS stock_reservations_reservation_key_product_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_reservations_key_item ON public.stock_reservations(reservation_key, product_id, variant_id) NULLS NOT DISTINCT;
+DROP INDEX IF EXISTS public.idx_stock_movements_order_sale;
+-- One sale movement per order and product variant, so paid orders never discount stock twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_movements_order_item_sale ON public.stock_movements(order_id, product_id, variant_id) NULLS NOT DISTINCT
+WHERE
+  kind = 'sale' AND order_id IS NOT NULL;
+-- Keeps products.stock_quantity equal to the stock of the active variants. The product update is
+-- part of the variant movement, so it is not logged again as a product adjustment.
+CREATE OR REPLACE FUNCTION public.sync_product_variant_stock()
+  RETURNS TRIGGER
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_product_id uuid := COALESCE(NEW.product_id, OLD.product_id);
+  v_ledger text := COALESCE(current_setting('app.stock_ledger', TRUE), 'off');
+BEGIN
+  PERFORM set_config('app.stock_ledger', 'on', TRUE);
+  UPDATE public.products
+  SET stock_quantity = (
+    SELECT COALESCE(sum(stock_quantity), 0)
+    FROM public.product_variants
+    WHERE product_id = v_product_id
+      AND is_active)
+  WHERE id = v_product_id;
+  PERFORM set_config('app.stock_ledger', v_ledger, TRUE);
+  RETURN NULL;
+END;
+$$;
+DROP TRIGGER IF EXISTS sync_product_variant_stock ON public.product_variants;
+CREATE TRIGGER sync_product_variant_stock
+  AFTER INSERT OR DELETE OR UPDATE OF stock_quantity, is_active ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_product_variant_stock();
+-- Same ledger entries as log_product_stock_change, for stock edited directly on a variant
+CREATE OR REPLACE FUNCTION public.log_product_variant_stock_change()
+  RETURNS TRIGGER
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.stock_quantity, 0) > 0 THEN
+      INSERT INTO public.stock_movements (product_id, variant_id, kind, quantity, stock_after, note, created_by)
+      VALUES (NEW.product_id, NEW.id, 'receipt', NEW.stock_quantity, NEW.stock_quantity, 'Initial stock', auth.uid());
+    END IF;
+  ELSIF COALESCE(current_setting('app.stock_ledger', TRUE), 'off') <> 'on'
+    AND NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+    INSERT INTO public.stock_movements (product_id, variant_id, kind, quantity, stock_after, note, created_by)
+    VALUES (NEW.product_id, NEW.id, 'adjustment', NEW.stock_quantity - COALESCE(OLD.stock_quantity, 0), NEW.stock_quantity, 'Variant edit', auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+DROP TRIGGER IF EXISTS log_product_variant_stock_change ON public.product_variants;
+CREATE TRIGGER log_product_variant_stock_change
+  AFTER INSERT OR UPDATE OF stock_quantity ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_product_variant_stock_change();
+-- Stock levels per product, or per active variant for products with variants
+DROP VIEW IF EXISTS public.product_stock_levels;
+CREATE VIEW public.product_stock_levels WITH ( security_invoker = TRUE
+) AS
+SELECT
+  pr.id,
+  NULL::uuid AS variant_id,
+  pr.name,
+  pr.slug,
+  NULL::text AS sku,
+  NULL::text AS variant_label,
+  pr.stock_quantity,
+  COALESCE(held.reserved_quantity, 0)::integer AS reserved_quantity,
+  (pr.stock_quantity - COALESCE(held.reserved_quantity, 0))::integer AS available_quantity,
+  pr.low_stock_threshold,
+  (pr.stock_quantity - COALESCE(held.reserved_quantity, 0)) <= pr.low_stock_threshold AS is_low_stock
+FROM
+  public.products pr
+  LEFT JOIN (
+    SELECT
+      product_id,
+      sum(quantity) AS reserved_quantity
+    FROM
+      public.stock_reservations
+    WHERE
+      status = 'active'
+      AND expires_at > now()
+      AND variant_id IS NULL
+    GROUP BY
+      product_id) held ON held.product_id = pr.id
+WHERE
+  NOT EXISTS (
+    SELECT
+      1
+    FROM
+      public.product_variants pv
+    WHERE
+      pv.product_id = pr.id
+      AND pv.is_active)
+UNION ALL
+SELECT
+  pr.id,
+  pv.id AS variant_id,
+  pr.name,
+  pr.slug,
+  pv.sku,
+  public.product_variant_label(pv.options, pr.option_axes) AS variant_label,
+  pv.stock_quantity,
+  COALESCE(held.reserved_quantity, 0)::integer AS reserved_quantity,
+  (pv.stock_quantity - COALESCE(held.reserved_quantity, 0))::integer AS available_quantity,
+  pr.low_stock_threshold,
+  (pv.stock_quantity - COALESCE(held.reserved_quantity, 0)) <= pr.low_stock_threshold AS is_low_stock
+FROM
+  public.product_variants pv
+  JOIN public.products pr ON pr.id = pv.product_id
+  LEFT JOIN (
+    SELECT
+      variant_id,
+      sum(quantity) AS reserved_quantity
+    FROM
+      public.stock_reservations
+    WHERE
+      status = 'active'
+      AND expires_at > now()
+      AND variant_id IS NOT NULL
+    GROUP BY
+      variant_id) held ON held.variant_id = pv.id
+WHERE
+  pv.is_active;
+COMMENT ON VIEW public.product_stock_levels IS 'Stock on hand, reserved and available units per product, or per variant for products with variants, with the low stock flag';
+-- Variant-aware versions of the stock functions: p_variant_id (or "variant_id" in the reserved
+-- items) selects the variant whose stock moves
+DROP FUNCTION IF EXISTS public.apply_stock_movement(uuid, text, integer, uuid, uuid, text, uuid, boolean);
+CREATE OR REPLACE FUNCTION public.apply_stock_movement(p_product_id uuid, p_kind text, p_quantity integer, p_order_id uuid DEFAULT NULL, p_reservation_id uuid DEFAULT NULL, p_note text DEFAULT NULL, p_created_by uuid DEFAULT NULL, p_allow_negative boolean DEFAULT FALSE, p_variant_id uuid DEFAULT NULL)
+  RETURNS public.stock_movements
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_stock integer;
+  v_movement public.stock_movements%ROWTYPE;
+BEGIN
+  IF p_variant_id IS NULL THEN
+    SELECT stock_quantity INTO v_stock FROM public.products WHERE id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'product_not_found: %', p_product_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  ELSE
+    SELECT stock_quantity INTO v_stock FROM public.product_variants WHERE id = p_variant_id AND product_id = p_product_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'variant_not_found: %', p_product_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+  IF v_stock + p_quantity < 0 AND NOT p_allow_negative THEN
+    RAISE EXCEPTION 'insufficient_stock: %', p_product_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  -- Tells the stock change triggers that this change is already in the ledger
+  PERFORM set_config('app.stock_ledger', 'on', TRUE);
+  IF p_variant_id IS NULL THEN
+    UPDATE public.products SET stock_quantity = v_stock + p_quantity WHERE id = p_product_id;
+  ELSE
+    UPDATE public.product_variants SET stock_quantity = v_stock + p_quantity WHERE id = p_variant_id;
+  END IF;
+  PERFORM set_config('app.stock_ledger', 'off', TRUE);
+  INSERT INTO public.stock_movements (product_id, variant_id, kind, quantity, stock_after, order_id, reservation_id, note, created_by)
+  VALUES (p_product_id, p_variant_id, p_kind, p_quantity, v_stock + p_quantity, p_order_id, p_reservation_id, p_note, p_created_by)
+  RETURNING * INTO v_movement;
+  RETURN v_movement;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.apply_stock_movement(uuid, text, integer, uuid, uuid, text, uuid, boolean, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_stock_movement(uuid, text, integer, uuid, uuid, text, uuid, boolean, uuid) TO service_role;
+DROP FUNCTION IF EXISTS public.record_stock_movement(uuid, text, integer, text, uuid, uuid);
+CREATE OR REPLACE FUNCTION public.record_stock_movement(p_product_id uuid, p_kind text, p_quantity integer, p_note text DEFAULT NULL, p_created_by uuid DEFAULT NULL, p_order_id uuid DEFAULT NULL, p_variant_id uuid DEFAULT NULL)
+  RETURNS public.stock_movements
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+BEGIN
+  IF p_kind NOT IN ('receipt', 'return', 'adjustment', 'damage') THEN
+    RAISE EXCEPTION 'invalid_stock_movement: %', p_kind
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  IF p_variant_id IS NULL AND EXISTS (
+    SELECT 1 FROM public.product_variants WHERE product_id = p_product_id AND is_active) THEN
+    RAISE EXCEPTION 'variant_required: %', p_product_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  RETURN public.apply_stock_movement(p_product_id, p_kind, p_quantity, p_order_id, NULL, p_note, p_created_by, FALSE, p_variant_id);
+END;
+$$;
+REVOKE ALL ON FUNCTION public.record_stock_movement(uuid, text, integer, text, uuid, uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_stock_movement(uuid, text, integer, text, uuid, uuid, uuid) TO service_role;
+-- Items are [{ "product_id", "variant_id", "quantity" }]; products with active variants can only
+-- be reserved through one of them
+CREATE OR REPLACE FUNCTION public.reserve_stock(p_reservation_key text, p_user_id uuid, p_items jsonb, p_ttl_seconds integer DEFAULT 1800)
+  RETURNS timestamptz
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_expires_at timestamptz := now() + make_interval(secs => GREATEST(p_ttl_seconds, 60));
+  v_item record;
+  v_stock integer;
+  v_reserved integer;
+BEGIN
+  UPDATE public.stock_reservations
+  SET status = 'expired'
+  WHERE status = 'active'
+    AND expires_at <= now();
+  UPDATE public.stock_reservations
+  SET status = 'released'
+  WHERE reservation_key = p_reservation_key
+    AND status = 'active';
+  -- Stock rows are locked in id order so concurrent checkouts cannot deadlock
+  FOR v_item IN
+    SELECT (item->>'product_id')::uuid AS product_id, NULLIF(item->>'variant_id', '')::uuid AS variant_id, sum((item->>'quantity')::integer)::integer AS quantity
+    FROM jsonb_array_elements(p_items) item
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'invalid_stock_reservation: %', v_item.product_id
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    IF v_item.variant_id IS NULL THEN
+      SELECT stock_quantity INTO v_stock FROM public.products WHERE id = v_item.product_id FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'product_not_found: %', v_item.product_id
+          USING ERRCODE = 'no_data_found';
+      END IF;
+      IF EXISTS (
+        SELECT 1 FROM public.product_variants WHERE product_id = v_item.product_id AND is_active) THEN
+        RAISE EXCEPTION 'variant_required: %', v_item.product_id
+          USING ERRCODE = 'invalid_parameter_value';
+      END IF;
+    ELSE
+      SELECT stock_quantity INTO v_stock
+      FROM public.product_variants
+      WHERE id = v_item.variant_id
+        AND product_id = v_item.product_id
+        AND is_active
+      FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'variant_not_found: %', v_item.product_id
+          USING ERRCODE = 'no_data_found';
+      END IF;
+    END IF;
+    SELECT COALESCE(sum(quantity), 0) INTO v_reserved
+    FROM public.stock_reservations
+    WHERE product_id = v_item.product_id
+      AND variant_id IS NOT DISTINCT FROM v_item.variant_id
+      AND status = 'active'
+      AND expires_at > now();
+    IF v_stock - v_reserved < v_item.quantity THEN
+      RAISE EXCEPTION 'insufficient_stock: %', v_item.product_id
+        USING ERRCODE = 'check_violation';
+    END IF;
+    INSERT INTO public.stock_reservations (reservation_key, product_id, variant_id, user_id, quantity, status, expires_at)
+    VALUES (p_reservation_key, v_item.product_id, v_item.variant_id, p_user_id, v_item.quantity, 'active', v_expires_at)
+    ON CONFLICT (reservation_key, product_id, variant_id) DO UPDATE
+    SET quantity = EXCLUDED.quantity,
+      user_id = EXCLUDED.user_id,
+      status = 'active',
+      expires_at = EXCLUDED.expires_at,
+      order_id = NULL;
+  END LOOP;
+  RETURN v_expires_at;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.reserve_stock(text, uuid, jsonb, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_stock(text, uuid, jsonb, integer) TO service_role;
+CREATE OR REPLACE FUNCTION public.record_checkout_stock_sale(p_reservation_key text, p_order_id uuid)
+  RETURNS integer
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_reservation record;
+  v_item record;
+  v_units integer := 0;
+BEGIN
+  IF p_reservation_key IS NOT NULL THEN
+    FOR v_reservation IN
+      SELECT *
+      FROM public.stock_reservations
+      WHERE reservation_key = p_reservation_key
+        AND status IN ('active', 'expired')
+      ORDER BY product_id, variant_id
+      FOR UPDATE
+    LOOP
+      IF p_order_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.stock_movements
+        WHERE order_id = p_order_id
+          AND product_id = v_reservation.product_id
+          AND variant_id IS NOT DISTINCT FROM v_reservation.variant_id
+          AND kind = 'sale') THEN
+        PERFORM public.apply_stock_movement(v_reservation.product_id, 'sale', -v_reservation.quantity, p_order_id, v_reservation.id, NULL, NULL, TRUE, v_reservation.variant_id);
+        v_units := v_units + v_reservation.quantity;
+      END IF;
+      UPDATE public.stock_reservations
+      SET status = 'consumed', order_id = p_order_id
+      WHERE id = v_reservation.id;
+    END LOOP;
+  END IF;
+  IF p_order_id IS NOT NULL THEN
+    FOR v_item IN
+      SELECT oi.product_id, oi.variant_id, sum(oi.qty)::integer AS quantity
+      FROM public.order_items oi
+      WHERE oi.order_id = p_order_id
+        AND oi.product_id IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.stock_movements sm
+          WHERE sm.order_id = p_order_id
+            AND sm.product_id = oi.product_id
+            AND sm.variant_id IS NOT DISTINCT FROM oi.variant_id
+            AND sm.kind = 'sale')
+      GROUP BY oi.product_id, oi.variant_id
+      ORDER BY oi.product_id, oi.variant_id
+    LOOP
+      PERFORM public.apply_stock_movement(v_item.product_id, 'sale', -v_item.quantity, p_order_id, NULL, NULL, NULL, TRUE, v_item.variant_id);
+      v_units := v_units + v_item.quantity;
+    END LOOP;
+  END IF;
+  RETURN v_units;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.record_checkout_stock_sale(text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_checkout_stock_sale(text, uuid) TO service_role;
+-- -------------------------------------------------------------
+-- SECTION: Order returns (RMA)
+-- -------------------------------------------------------------
+-- A member requests the return of units of an order line. An admin approves it (issuing the
+-- RMA number) or rejects it, the warehouse receives the goods back into stock with a 'return'
+-- stock movement, and the refund goes to the original gateway or to wallet credit.
+CREATE TABLE IF NOT EXISTS public.order_returns(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  reason text NOT NULL CHECK (reason IN ('damaged', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other')),
+  details text,
+  photos jsonb NOT NULL DEFAULT '[]' ::jsonb,
+  status text NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'refunded')),
+  rma_number text UNIQUE,
+  admin_note text,
+  refund_method text CHECK (refund_method IN ('original', 'wallet')),
+  refund_cents bigint CHECK (refund_cents >= 0),
+  refund_reference text,
+  reviewed_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  received_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  received_at timestamptz,
+  refunded_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  refunded_at timestamptz,
+  locale text NOT NULL DEFAULT 'en',
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.order_returns IS 'Return requests (RMA) of order lines, from the member request to the refund';
+COMMENT ON COLUMN public.order_returns.photos IS 'Storage paths of the photos in the order-returns bucket';
+COMMENT ON COLUMN public.order_returns.refund_reference IS 'Refund id of the gateway or wallet transaction id';
+COMMENT ON COLUMN public.order_returns.locale IS 'Language of the member when requesting the return, used for every email of the return';
+CREATE INDEX IF NOT EXISTS idx_order_returns_order ON public.order_returns(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_returns_status ON public.order_returns(status, created_at DESC);
+ALTER TABLE public.order_returns ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "order_returns_read_self" ON public.order_returns;
+CREATE POLICY "order_returns_read_self" ON public.order_returns
+  FOR SELECT
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "order_returns_service_role" ON public.order_returns;
+CREATE POLICY "order_returns_service_role" ON public.order_returns
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_order_returns_updated ON public.order_returns;
+CREATE TRIGGER on_order_returns_updated
+  BEFORE UPDATE ON public.order_returns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+-- Creates a return request after checking, with the order line locked, that the member owns a
+-- paid order and that the units are not already part of another (non rejected) return
+CREATE OR REPLACE FUNCTION public.request_order_return(p_user_id uuid, p_order_id uuid, p_order_item_id uuid, p_quantity integer, p_reason text, p_details text, p_photos jsonb, p_locale text)
+  RETURNS public.order_returns
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_item record;
+  v_returned integer;
+  v_return public.order_returns;
+BEGIN
+  SELECT oi.id, oi.order_id, oi.qty, o.user_id, o.status
+  INTO v_item
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE oi.id = p_order_item_id
+    AND oi.order_id = p_order_id
+  FOR UPDATE OF oi;
+  IF NOT FOUND OR v_item.user_id <> p_user_id THEN
+    RAISE EXCEPTION 'order_item_not_found: %', p_order_item_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_item.status NOT IN ('paid', 'processing', 'completed', 'fulfilled') THEN
+    RAISE EXCEPTION 'order_not_returnable: %', v_item.order_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  SELECT COALESCE(sum(quantity), 0)::integer
+  INTO v_returned
+  FROM public.order_returns
+  WHERE order_item_id = p_order_item_id
+    AND status <> 'rejected';
+  IF p_quantity IS NULL OR p_quantity <= 0 OR v_returned + p_quantity > v_item.qty THEN
+    RAISE EXCEPTION 'return_quantity_exceeded: %', p_order_item_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+  INSERT INTO public.order_returns (order_id, order_item_id, user_id, quantity, reason, details, photos, locale)
+  VALUES (v_item.order_id, p_order_item_id, p_user_id, p_quantity, p_reason, NULLIF(btrim(p_details), ''), COALESCE(p_photos, '[]'::jsonb), COALESCE(p_locale, 'en'))
+  RETURNING * INTO v_return;
+  RETURN v_return;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.request_order_return(uuid, uuid, uuid, integer, text, text, jsonb, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.request_order_return(uuid, uuid, uuid, integer, text, text, jsonb, text) TO service_role;
+-- Return photos are private: the API hands out signed URLs
+INSERT INTO storage.buckets(id, name, public, file_size_limit, allowed_mime_types)
+  VALUES ('order-returns', 'order-returns', FALSE, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+ON CONFLICT (id)
+  DO NOTHING;
+-- -------------------------------------------------------------
+-- SECTION: Shipping zones, rates and carriers
+-- -------------------------------------------------------------
+-- Checkout quotes shipping from the zone of the destination (country, optionally narrowed to
+-- states) and the rate table of that zone, by parcel weight or by order subtotal. Amounts are
+-- in cents of the store currency and weights in grams.
+CREATE TABLE IF NOT EXISTS public.shipping_carriers(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  tracking_url_template text,
+  is_active boolean NOT NULL DEFAULT TRUE,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.shipping_carriers IS 'Named carriers that deliver the orders';
+COMMENT ON COLUMN public.shipping_carriers.tracking_url_template IS 'Tracking page of a shipment, with {{tracking}} in place of the tracking code';
+CREATE TABLE IF NOT EXISTS public.shipping_zones(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  country_codes text[] NOT NULL CHECK (cardinality(country_codes) > 0),
+  state_codes text[] NOT NULL DEFAULT '{}',
+  free_shipping_main_cents bigint CHECK (free_shipping_main_cents >= 0),
+  free_shipping_affiliate_cents bigint CHECK (free_shipping_affiliate_cents >= 0),
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT TRUE,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.shipping_zones IS 'Destinations sharing a rate table: ISO countries, optionally narrowed to some of their states';
+COMMENT ON COLUMN public.shipping_zones.state_codes IS 'States or provinces of the zone; empty for the whole countries. A zone naming the state of the destination wins over a whole-country zone';
+COMMENT ON COLUMN public.shipping_zones.free_shipping_main_cents IS 'Subtotal from which orders of the main store ship free; NULL when they never do';
+COMMENT ON COLUMN public.shipping_zones.free_shipping_affiliate_cents IS 'Subtotal from which orders of affiliate stores ship free; NULL when they never do';
+COMMENT ON COLUMN public.shipping_zones.priority IS 'Breaks ties between zones matching the same destination, highest first';
+CREATE INDEX IF NOT EXISTS idx_shipping_zones_country_codes ON public.shipping_zones USING gin(country_codes);
+CREATE TABLE IF NOT EXISTS public.shipping_rates(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id uuid NOT NULL REFERENCES public.shipping_zones(id) ON DELETE CASCADE,
+  carrier_id uuid REFERENCES public.shipping_carriers(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  basis text NOT NULL CHECK (basis IN ('weight', 'price')),
+  min_value bigint NOT NULL DEFAULT 0 CHECK (min_value >= 0),
+  max_value bigint CHECK (max_value IS NULL OR max_value > min_value),
+  price_cents bigint NOT NULL CHECK (price_cents >= 0),
+  min_days integer CHECK (min_days >= 0),
+  max_days integer CHECK (max_days IS NULL OR max_days >= COALESCE(min_days, 0)),
+  is_active boolean NOT NULL DEFAULT TRUE,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.shipping_rates IS 'Rate table of a shipping zone';
+COMMENT ON COLUMN public.shipping_rates.basis IS 'weight: the bracket is the parcel weight in grams; price: the bracket is the order subtotal in cents';
+COMMENT ON COLUMN public.shipping_rates.min_value IS 'Lower bound of the bracket, included';
+COMMENT ON COLUMN public.shipping_rates.max_value IS 'Upper bound of the bracket, excluded; NULL for no upper bound';
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone ON public.shipping_rates(zone_id);
+ALTER TABLE public.shipping_carriers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_rates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "shipping_carriers_service_role" ON public.shipping_carriers;
+CREATE POLICY "shipping_carriers_service_role" ON public.shipping_carriers
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP POLICY IF EXISTS "shipping_zones_service_role" ON public.shipping_zones;
+CREATE POLICY "shipping_zones_service_role" ON public.shipping_zones
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP POLICY IF EXISTS "shipping_rates_service_role" ON public.shipping_rates;
+CREATE POLICY "shipping_rates_service_role" ON public.shipping_rates
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_shipping_carriers_updated ON public.shipping_carriers;
+CREATE TRIGGER on_shipping_carriers_updated
+  BEFORE UPDATE ON public.shipping_carriers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+DROP TRIGGER IF EXISTS on_shipping_zones_updated ON public.shipping_zones;
+CREATE TRIGGER on_shipping_zones_updated
+  BEFORE UPDATE ON public.shipping_zones
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+DROP TRIGGER IF EXISTS on_shipping_rates_updated ON public.shipping_rates;
+CREATE TRIGGER on_shipping_rates_updated
+  BEFORE UPDATE ON public.shipping_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+-- Parcel weight of an order is the sum of the weights of its units
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS weight_grams integer NOT NULL DEFAULT 0 CHECK (weight_grams >= 0);
+COMMENT ON COLUMN public.products.weight_grams IS 'Shipping weight of one unit, in grams';
+-- Shipping chosen at checkout
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS shipping_rate_id uuid REFERENCES public.shipping_rates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS shipping_carrier_id uuid REFERENCES public.shipping_carriers(id) ON DELETE SET NULL;
+-- Commissions are paid on the merchandise, never on the shipping charge or the sales tax
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS commission_base_cents bigint CHECK (commission_base_cents >= 0);
+COMMENT ON COLUMN public.orders.commission_base_cents IS 'Amount that earns commission: the merchandise after discounts, without shipping or tax. NULL on older orders, which use total_cents';
+-- Carrier of each warehouse update; its tracking URL template links the tracking code
+ALTER TABLE public.warehouse_tracking_entries
+  ADD COLUMN IF NOT EXISTS carrier_id uuid REFERENCES public.shipping_carriers(id) ON DELETE SET NULL;
+CREATE OR REPLACE VIEW public.warehouse_tracking_admin_view AS
+SELECT
+  entry.id,
+  entry.order_id,
+  order_snapshot.order_code,
+  entry.status,
+  entry.responsible_company,
+  entry.tracking_code,
+  entry.location,
+  entry.note,
+  entry.estimated_delivery,
+  entry.event_time,
+  entry.created_at,
+  entry.created_by,
+  order_snapshot.status AS order_status,
+  order_snapshot.user_id,
+  profiles.name AS customer_name,
+  profiles.email AS customer_email,
+  profiles.fulfillment_company,
+  entry.carrier_id,
+  carriers.tracking_url_template
+FROM
+  public.warehouse_tracking_entries entry
+  JOIN (
+    SELECT
+      id,
+      status,
+      user_id,
+      COALESCE(NULLIF(TRIM(metadata ->> 'order_code'), ''), id::text) AS order_code
+    FROM
+      public.orders) AS order_snapshot ON order_snapshot.id = entry.order_id
+  LEFT JOIN public.profiles profiles ON profiles.id = order_snapshot.user_id
+  LEFT JOIN public.shipping_carriers carriers ON carriers.id = entry.carrier_id;
+-- -------------------------------------------------------------
+-- SECTION: Tax rates by jurisdiction
+-- -------------------------------------------------------------
+-- Checkout taxes the cart with the rates of the destination country and, stacked on top, of its
+-- region, for the tax category of each product. Countries whose catalog prices include tax keep
+-- the price and split the tax out of it; the others add the tax to the total. Paid orders keep
+-- one line per rate for invoices and tax returns.
+CREATE TABLE IF NOT EXISTS public.tax_countries(
+  country_code text PRIMARY KEY CHECK (country_code ~ '^[A-Z]{2}$'),
+  prices_include_tax boolean NOT NULL DEFAULT FALSE,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.tax_countries IS 'Pricing mode of each country; countries not listed price without tax';
+COMMENT ON COLUMN public.tax_countries.prices_include_tax IS 'TRUE when catalog prices include the tax of the country';
+CREATE TABLE IF NOT EXISTS public.tax_rates(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  country_code text NOT NULL CHECK (country_code ~ '^[A-Z]{2}$'),
+  region_code text,
+  category text NOT NULL CHECK (category IN ('supplements', 'merchandise')),
+  name text NOT NULL,
+  rate_bps integer NOT NULL CHECK (rate_bps BETWEEN 0 AND 10000),
+  is_active boolean NOT NULL DEFAULT TRUE,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.tax_rates IS 'Tax rates per country, region and product tax category';
+COMMENT ON COLUMN public.tax_rates.region_code IS 'State or province of the rate, upper case; NULL for a rate of the whole country. Region rates add to the country rates';
+COMMENT ON COLUMN public.tax_rates.rate_bps IS 'Rate in basis points: 1300 is 13%';
+CREATE INDEX IF NOT EXISTS idx_tax_rates_country ON public.tax_rates(country_code);
+-- Product tax category decides the rates that apply to it
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS tax_category text NOT NULL DEFAULT 'supplements' CHECK (tax_category IN ('supplements', 'merchandise'));
+COMMENT ON COLUMN public.products.tax_category IS 'Tax category of the product: supplements or merchandise';
+-- Pricing mode the order was taxed with: tax_cents is part of the subtotal when TRUE
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS prices_include_tax boolean NOT NULL DEFAULT FALSE;
+CREATE TABLE IF NOT EXISTS public.order_tax_lines(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  country_code text NOT NULL,
+  region_code text,
+  category text NOT NULL,
+  name text NOT NULL,
+  rate_bps integer NOT NULL,
+  taxable_cents bigint NOT NULL CHECK (taxable_cents >= 0),
+  tax_cents bigint NOT NULL CHECK (tax_cents >= 0),
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.order_tax_lines IS 'Tax breakdown of an order, one line per rate; a snapshot that rate changes do not alter';
+COMMENT ON COLUMN public.order_tax_lines.taxable_cents IS 'Amount the rate applied to, without tax';
+CREATE INDEX IF NOT EXISTS idx_order_tax_lines_order ON public.order_tax_lines(order_id);
+ALTER TABLE public.tax_countries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_tax_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "tax_countries_service_role" ON public.tax_countries;
+CREATE POLICY "tax_countries_service_role" ON public.tax_countries
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP POLICY IF EXISTS "tax_rates_service_role" ON public.tax_rates;
+CREATE POLICY "tax_rates_service_role" ON public.tax_rates
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP POLICY IF EXISTS "order_tax_lines_read_self" ON public.order_tax_lines;
+CREATE POLICY "order_tax_lines_read_self" ON public.order_tax_lines
+  FOR SELECT
+    USING (EXISTS (
+      SELECT
+        1
+      FROM
+        public.orders
+      WHERE
+        public.orders.id = order_id AND public.orders.user_id = auth.uid()));
+DROP POLICY IF EXISTS "order_tax_lines_service_role" ON public.order_tax_lines;
+CREATE POLICY "order_tax_lines_service_role" ON public.order_tax_lines
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_tax_countries_updated ON public.tax_countries;
+CREATE TRIGGER on_tax_countries_updated
+  BEFORE UPDATE ON public.tax_countries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+DROP TRIGGER IF EXISTS on_tax_rates_updated ON public.tax_rates;
+CREATE TRIGGER on_tax_rates_updated
+  BEFORE UPDATE ON public.tax_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+-- Tax collected per jurisdiction, tax, rate and order currency on the orders placed between two
+-- dates (UTC, both included). Canceled, refunded, failed and pending orders are left out
+CREATE OR REPLACE FUNCTION public.tax_report_by_jurisdiction(p_from date, p_to date)
+  RETURNS TABLE(
+    country_code text,
+    region_code text,
+    name text,
+    category text,
+    rate_bps integer,
+    currency text,
+    order_count bigint,
+    taxable_cents bigint,
+    tax_cents bigint)
+  LANGUAGE sql
+  STABLE
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+  SELECT
+    line.country_code,
+    line.region_code,
+    line.name,
+    line.category,
+    line.rate_bps,
+    o.currency,
+    count(DISTINCT line.order_id),
+    COALESCE(sum(line.taxable_cents), 0)::bigint,
+    COALESCE(sum(line.tax_cents), 0)::bigint
+  FROM public.order_tax_lines line
+  JOIN public.orders o ON o.id = line.order_id
+  WHERE o.status IN ('paid', 'processing', 'completed', 'fulfilled')
+    AND timezone('utc', o.created_at)::date BETWEEN p_from AND p_to
+  GROUP BY line.country_code, line.region_code, line.name, line.category, line.rate_bps, o.currency
+  ORDER BY line.country_code, line.region_code NULLS FIRST, line.name, line.category, o.currency;
+$$;
+REVOKE ALL ON FUNCTION public.tax_report_by_jurisdiction(date, date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.tax_report_by_jurisdiction(date, date) TO service_role;
+-- -------------------------------------------------------------
+-- SECTION: Promotions and coupons
+-- -------------------------------------------------------------
+-- Coupon codes and automatic cart rules (percentage, fixed amount, buy X get Y, spend tiers and
+-- free shipping), each scoped to the main, affiliate and member stores. Checkout evaluates them on
+-- the prices after product discounts; the discount is part of orders.discount_cents, so the total
+-- paid, and the commissions computed on it, are net of promotions. Paid orders keep the
+-- promotions they used, which count towards the usage limits. Checkouts reserve the promotions
+-- with limits when they are created (promotion_reservations), so concurrent checkouts cannot
+-- use a coupon more times than allowed; a reservation becomes the redemption of the paid order,
+-- or is released when the checkout fails or expires.
+CREATE TABLE IF NOT EXISTS public.promotions(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  code text UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,40}$'),
+  type text NOT NULL CHECK (type IN ('percentage', 'fixed_amount', 'buy_x_get_y', 'tiered_spend', 'free_shipping')),
+  rules jsonb NOT NULL DEFAULT '{}'::jsonb,
+  stores text[] NOT NULL DEFAULT ARRAY['main_store', 'affiliate_store', 'mlm_store']::text[] CHECK (cardinality(stores) > 0 AND stores <@ ARRAY['main_store', 'affiliate_store', 'mlm_store']::text[]),
+  min_subtotal_cents bigint CHECK (min_subtotal_cents >= 0),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  usage_limit integer CHECK (usage_limit > 0),
+  per_user_limit integer CHECK (per_user_limit > 0),
+  stackable boolean NOT NULL DEFAULT FALSE,
+  combines_with_phase_rewards boolean NOT NULL DEFAULT TRUE,
+  is_active boolean NOT NULL DEFAULT TRUE,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+COMMENT ON TABLE public.promotions IS 'Coupon codes and cart rules applied at checkout';
+COMMENT ON COLUMN public.promotions.code IS 'Coupon code, upper case; NULL for a cart rule applied to every cart that qualifies';
+COMMENT ON COLUMN public.promotions.rules IS 'Settings of the promotion type: percentOff, amountCents, buyQuantity/getQuantity, tiers, productIds';
+COMMENT ON COLUMN public.promotions.stores IS 'Stores the promotion runs in: main_store, affiliate_store and mlm_store (buyers with an active subscription)';
+COMMENT ON COLUMN public.promotions.usage_limit IS 'Orders the promotion can be used on across all buyers; 1 makes a single-use coupon';
+COMMENT ON COLUMN public.promotions.stackable IS 'TRUE when the promotion adds up with the other stackable promotions of the cart';
+COMMENT ON COLUMN public.promotions.combines_with_phase_rewards IS 'FALSE to leave out carts that redeem a phase reward';
+CREATE TABLE IF NOT EXISTS public.promotion_redemptions(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id uuid NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  code text,
+  discount_cents bigint NOT NULL CHECK (discount_cents >= 0),
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (promotion_id, order_id)
+);
+COMMENT ON TABLE public.promotion_redemptions IS 'Promotions applied to each paid order and the discount they gave';
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_user ON public.promotion_redemptions(promotion_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_order ON public.promotion_redemptions(order_id);
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "promotions_service_role" ON public.promotions;
+CREATE POLICY "promotions_service_role" ON public.promotions
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP POLICY IF EXISTS "promotion_redemptions_read_self" ON public.promotion_redemptions;
+CREATE POLICY "promotion_redemptions_read_self" ON public.promotion_redemptions
+  FOR SELECT
+    USING (user_id = auth.uid());
+DROP POLICY IF EXISTS "promotion_redemptions_service_role" ON public.promotion_redemptions;
+CREATE POLICY "promotion_redemptions_service_role" ON public.promotion_redemptions
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_promotions_updated ON public.promotions;
+CREATE TRIGGER on_promotions_updated
+  BEFORE UPDATE ON public.promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+CREATE TABLE IF NOT EXISTS public.promotion_reservations(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_key text NOT NULL,
+  promotion_id uuid NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'consumed', 'released', 'expired')),
+  expires_at timestamptz NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE (reservation_key, promotion_id)
+);
+COMMENT ON TABLE public.promotion_reservations IS 'Use of a limited promotion held by a checkout until it is paid (consumed), fails (released) or times out (expired)';
+COMMENT ON COLUMN public.promotion_reservations.reservation_key IS 'Checkout reference sent in the payment metadata as promotionReservationKey';
+CREATE INDEX IF NOT EXISTS idx_promotion_reservations_active ON public.promotion_reservations(promotion_id, expires_at)
+WHERE
+  status = 'active';
+ALTER TABLE public.promotion_reservations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "promotion_reservations_service_role" ON public.promotion_reservations;
+CREATE POLICY "promotion_reservations_service_role" ON public.promotion_reservations
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_promotion_reservations_updated ON public.promotion_reservations;
+CREATE TRIGGER on_promotion_reservations_updated
+  BEFORE UPDATE ON public.promotion_reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+-- Orders each promotion was used on, in total and by one buyer, for the usage limits. Active
+-- reservations of unpaid checkouts count as uses.
+CREATE OR REPLACE FUNCTION public.promotion_redemption_counts(p_promotion_ids uuid[], p_user_id uuid)
+  RETURNS TABLE(
+    promotion_id uuid,
+    total_count bigint,
+    user_count bigint)
+  LANGUAGE sql
+  STABLE
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+  SELECT
+    used.promotion_id,
+    count(*),
+    count(*) FILTER (WHERE p_user_id IS NOT NULL AND used.user_id = p_user_id)
+  FROM (
+    SELECT redemption.promotion_id, redemption.user_id
+    FROM public.promotion_redemptions redemption
+    WHERE redemption.promotion_id = ANY (p_promotion_ids)
+    UNION ALL
+    SELECT reservation.promotion_id, reservation.user_id
+    FROM public.promotion_reservations reservation
+    WHERE reservation.promotion_id = ANY (p_promotion_ids)
+      AND reservation.status = 'active'
+      AND reservation.expires_at > now()) used
+  GROUP BY used.promotion_id;
+$$;
+REVOKE ALL ON FUNCTION public.promotion_redemption_counts(uuid[], uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.promotion_redemption_counts(uuid[], uuid) TO service_role;
+-- Reserves the promotions of a checkout that have usage limits until p_ttl_seconds from now.
+-- Each promotion is locked while its uses are counted, so two checkouts cannot both take the last
+-- use. Reserving the same key again replaces its previous reservation. Fails with
+-- promotion_limit_reached when any promotion is used up, reserving nothing.
+CREATE OR REPLACE FUNCTION public.reserve_promotions(p_reservation_key text, p_user_id uuid, p_promotion_ids uuid[], p_ttl_seconds integer DEFAULT 2100)
+  RETURNS timestamptz
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_expires_at timestamptz := now() + make_interval(secs => GREATEST(p_ttl_seconds, 60));
+  v_promotion record;
+  v_total bigint;
+  v_by_user bigint;
+BEGIN
+  UPDATE public.promotion_reservations
+  SET status = 'expired'
+  WHERE status = 'active'
+    AND expires_at <= now();
+  UPDATE public.promotion_reservations
+  SET status = 'released'
+  WHERE reservation_key = p_reservation_key
+    AND status = 'active';
+  -- Promotions are locked in id order so concurrent checkouts cannot deadlock
+  FOR v_promotion IN
+    SELECT id, usage_limit, per_user_limit
+    FROM public.promotions
+    WHERE id = ANY (p_promotion_ids)
+      AND (usage_limit IS NOT NULL OR per_user_limit IS NOT NULL)
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    SELECT total_count, user_count INTO v_total, v_by_user
+    FROM public.promotion_redemption_counts(ARRAY[v_promotion.id], p_user_id);
+    IF (v_promotion.usage_limit IS NOT NULL AND COALESCE(v_total, 0) >= v_promotion.usage_limit)
+      OR (v_promotion.per_user_limit IS NOT NULL AND (p_user_id IS NULL OR COALESCE(v_by_user, 0) >= v_promotion.per_user_limit)) THEN
+      RAISE EXCEPTION 'promotion_limit_reached: %', v_promotion.id
+        USING ERRCODE = 'check_violation';
+    END IF;
+    INSERT INTO public.promotion_reservations (reservation_key, promotion_id, user_id, status, expires_at)
+    VALUES (p_reservation_key, v_promotion.id, p_user_id, 'active', v_expires_at)
+    ON CONFLICT (reservation_key, promotion_id) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+      status = 'active',
+      expires_at = EXCLUDED.expires_at,
+      order_id = NULL;
+  END LOOP;
+  RETURN v_expires_at;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.reserve_promotions(text, uuid, uuid[], integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_promotions(text, uuid, uuid[], integer) TO service_role;
+-- Releases the active promotion reservations of a failed or abandoned checkout. Returns the rows
+-- released.
+CREATE OR REPLACE FUNCTION public.release_promotion_reservation(p_reservation_key text)
+  RETURNS integer
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.promotion_reservations
+  SET status = 'released'
+  WHERE reservation_key = p_reservation_key
+    AND status = 'active';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.release_promotion_reservation(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_promotion_reservation(text) TO service_role;
+-- Consumes the reservations of a paid order once its redemptions are recorded, even when they
+-- expired while the payment completed. Checkouts whose metadata does not come back with the key
+-- consume the oldest active reservation of the buyer for each promotion. Idempotent per order and
+-- promotion. Returns the rows consumed.
+CREATE OR REPLACE FUNCTION public.consume_promotion_reservations(p_order_id uuid, p_user_id uuid, p_promotion_ids uuid[], p_reservation_key text DEFAULT NULL)
+  RETURNS integer
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.promotion_reservations reservation
+  SET status = 'consumed', order_id = p_order_id
+  WHERE reservation.id IN (
+    SELECT DISTINCT ON (candidate.promotion_id) candidate.id
+    FROM public.promotion_reservations candidate
+    WHERE candidate.promotion_id = ANY (p_promotion_ids)
+      AND CASE WHEN p_reservation_key IS NOT NULL THEN
+        candidate.reservation_key = p_reservation_key
+        AND candidate.status IN ('active', 'expired')
+      ELSE
+        candidate.user_id = p_user_id
+        AND candidate.status = 'active'
+      END
+      AND NOT EXISTS (
+        SELECT 1 FROM public.promotion_reservations consumed
+        WHERE consumed.order_id = p_order_id
+          AND consumed.promotion_id = candidate.promotion_id
+          AND consumed.status = 'consumed')
+    ORDER BY candidate.promotion_id, candidate.created_at);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.consume_promotion_reservations(uuid, uuid, uuid[], text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.consume_promotion_reservations(uuid, uuid, uuid[], text) TO service_role;
+-- -------------------------------------------------------------
+-- SECTION: Webhook pipeline and dead-letter queue
+-- -------------------------------------------------------------
+-- Every payment webhook (Stripe, PayPal and the payment plugins) is stored in webhook_events
+-- before it is processed; the unique (provider, event_id) index drops redeliveries. A failed
+-- handler is retried at next_attempt_at (1, 5, 30, 120 and 720 minutes) by the webhook-retries
+-- cron, and once the retries run out the event is copied to webhook_dead_letters until an admin
+-- replays it. Rows recorded before the pipeline were already processed.
+ALTER TABLE public.webhook_events DROP CONSTRAINT IF EXISTS webhook_events_provider_check;
+ALTER TABLE public.webhook_events
+  ADD CONSTRAINT webhook_events_provider_check CHECK (provider ~ '^[a-z][a-z0-9_]{1,39}$');
+ALTER TABLE public.webhook_events
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'processed' CHECK (status IN ('received', 'processing', 'processed', 'retry_scheduled', 'dead_letter')),
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  ADD COLUMN IF NOT EXISTS last_error text,
+  ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT timezone('utc', now());
+ALTER TABLE public.webhook_events ALTER COLUMN status SET DEFAULT 'received';
+ALTER TABLE public.webhook_events ALTER COLUMN processed_at DROP NOT NULL;
+ALTER TABLE public.webhook_events ALTER COLUMN processed_at DROP DEFAULT;
+COMMENT ON TABLE public.webhook_events IS 'Raw payment webhook events, deduplicated by provider event ID, with their processing status and retries';
+COMMENT ON COLUMN public.webhook_events.provider IS 'stripe, paypal or the name of a payment plugin (authorize_net, payoneer...)';
+COMMENT ON COLUMN public.webhook_events.next_attempt_at IS 'Next retry; while processing, the end of the worker lease after which the event is claimed again';
+CREATE INDEX IF NOT EXISTS idx_webhook_events_due ON public.webhook_events(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_created ON public.webhook_events(created_at DESC);
+DROP TRIGGER IF EXISTS on_webhook_events_updated ON public.webhook_events;
+CREATE TRIGGER on_webhook_events_updated
+  BEFORE UPDATE ON public.webhook_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+CREATE TABLE IF NOT EXISTS public.webhook_dead_letters(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_event_id uuid NOT NULL UNIQUE REFERENCES public.webhook_events(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  event_id text NOT NULL,
+  event_type text,
+  payload jsonb,
+  error text,
+  attempts integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  replayed_at timestamptz
+);
+COMMENT ON TABLE public.webhook_dead_letters IS 'Webhook events that failed every retry, kept for inspection and replay';
+COMMENT ON COLUMN public.webhook_dead_letters.replayed_at IS 'Last admin replay; NULL while the event waits in the queue';
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_pending ON public.webhook_dead_letters(created_at DESC) WHERE replayed_at IS NULL;
+ALTER TABLE public.webhook_dead_letters ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "webhook_dead_letters_service_role" ON public.webhook_dead_letters;
+CREATE POLICY "webhook_dead_letters_service_role" ON public.webhook_dead_letters
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- -------------------------------------------------------------
+-- SECTION: Payment refunds
+-- -------------------------------------------------------------
+-- Admin refunds of store orders (whole or per order line) and of payments of the payments
+-- ledger, issued through the refundPayment operation of the payment plugin of the gateway.
+-- begin_payment_refund records the refund as pending with the payment locked, so two admins
+-- cannot refund past the amount paid; complete_payment_refund adds it to refunded_cents once
+-- the gateway accepts it. Refunds of returns are payment refunds too, linked by order_return_id,
+-- so every refund of an order is in this one ledger and refunded_cents is its cumulative total.
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_status_check CHECK (status IN ('paid', 'failed', 'partially_refunded', 'refunded'));
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS refunded_cents bigint NOT NULL DEFAULT 0 CHECK (refunded_cents >= 0);
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS refunded_cents bigint NOT NULL DEFAULT 0 CHECK (refunded_cents >= 0);
+COMMENT ON COLUMN public.payments.refunded_cents IS 'Refunded by admin refunds that the gateway accepted';
+COMMENT ON COLUMN public.orders.refunded_cents IS 'Refunded by admin refunds and refunds of returns that the gateway accepted';
+CREATE TABLE IF NOT EXISTS public.payment_refunds(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid REFERENCES public.orders(id) ON DELETE CASCADE,
+  payment_id uuid REFERENCES public.payments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  gateway text NOT NULL,
+  amount_cents bigint NOT NULL CHECK (amount_cents > 0),
+  currency text NOT NULL DEFAULT 'USD',
+  reason text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  gateway_refund_id text,
+  error text,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  CONSTRAINT payment_refunds_target_check CHECK ((order_id IS NULL) <> (payment_id IS NULL))
+);
+COMMENT ON TABLE public.payment_refunds IS 'Admin refunds of orders and ledger payments through the payment plugins';
+COMMENT ON COLUMN public.payment_refunds.gateway_refund_id IS 'Refund id of the gateway or wallet transaction id';
+COMMENT ON COLUMN public.payment_refunds.status IS 'pending until the gateway answers; failed refunds do not count against the payment';
+ALTER TABLE public.payment_refunds
+  ADD COLUMN IF NOT EXISTS order_return_id uuid REFERENCES public.order_returns(id) ON DELETE SET NULL;
+COMMENT ON COLUMN public.payment_refunds.order_return_id IS 'Return (RMA) refunded by this refund; gateway is wallet when it was refunded as wallet credit';
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_order ON public.payment_refunds(order_id) WHERE order_id IS NOT NULL;
+-- A return is refunded once; a failed attempt can be retried
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_refunds_order_return ON public.payment_refunds(order_return_id) WHERE order_return_id IS NOT NULL AND status <> 'failed';
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment ON public.payment_refunds(payment_id) WHERE payment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_created ON public.payment_refunds(created_at DESC);
+ALTER TABLE public.payment_refunds ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "payment_refunds_service_role" ON public.payment_refunds;
+CREATE POLICY "payment_refunds_service_role" ON public.payment_refunds
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_payment_refunds_updated ON public.payment_refunds;
+CREATE TRIGGER on_payment_refunds_updated
+  BEFORE UPDATE ON public.payment_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+CREATE TABLE IF NOT EXISTS public.payment_refund_lines(
+  refund_id uuid NOT NULL REFERENCES public.payment_refunds(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  amount_cents bigint NOT NULL CHECK (amount_cents > 0),
+  PRIMARY KEY (refund_id, order_item_id)
+);
+COMMENT ON TABLE public.payment_refund_lines IS 'Split of a partial order refund across the order lines';
+CREATE INDEX IF NOT EXISTS idx_payment_refund_lines_item ON public.payment_refund_lines(order_item_id);
+ALTER TABLE public.payment_refund_lines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "payment_refund_lines_service_role" ON public.payment_refund_lines;
+CREATE POLICY "payment_refund_lines_service_role" ON public.payment_refund_lines
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+-- Records a pending refund of an order (p_order_id) or a ledger payment (p_payment_id) after
+-- checking, with the payment locked, that it is paid and that the amount and each order line
+-- stay within what is still refundable. p_lines is [{ "order_item_id": uuid, "amount_cents": n }].
+-- Refunds of returns pass the return and, for wallet credit, p_gateway = 'wallet'
+DROP FUNCTION IF EXISTS public.begin_payment_refund(uuid, uuid, bigint, jsonb, text, uuid);
+CREATE OR REPLACE FUNCTION public.begin_payment_refund(p_order_id uuid, p_payment_id uuid, p_amount_cents bigint, p_lines jsonb, p_reason text, p_created_by uuid, p_order_return_id uuid DEFAULT NULL, p_gateway text DEFAULT NULL)
+  RETURNS public.payment_refunds
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_user_id uuid;
+  v_gateway text;
+  v_currency text;
+  v_status text;
+  v_total bigint;
+  v_refunded bigint;
+  v_line record;
+  v_line_total bigint;
+  v_line_refunded bigint;
+  v_refund public.payment_refunds;
+BEGIN
+  IF p_order_id IS NOT NULL THEN
+    SELECT user_id, gateway, currency, status, total_cents
+    INTO v_user_id, v_gateway, v_currency, v_status, v_total
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+  ELSE
+    SELECT user_id, gateway, currency, status, amount_cents
+    INTO v_user_id, v_gateway, v_currency, v_status, v_total
+    FROM public.payments
+    WHERE id = p_payment_id
+    FOR UPDATE;
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payment_not_found: %', COALESCE(p_order_id, p_payment_id)
+      USING ERRCODE = 'no_data_found';
+  END IF;
+  IF v_gateway IS NULL
+    OR (p_order_id IS NOT NULL AND v_status NOT IN ('paid', 'processing', 'completed', 'fulfilled'))
+    OR (p_order_id IS NULL AND v_status NOT IN ('paid', 'partially_refunded')) THEN
+    RAISE EXCEPTION 'payment_not_refundable: %', COALESCE(p_order_id, p_payment_id)
+      USING ERRCODE = 'check_violation';
+  END IF;
+  SELECT COALESCE(sum(amount_cents), 0)
+  INTO v_refunded
+  FROM public.payment_refunds
+  WHERE status <> 'failed'
+    AND (order_id = p_order_id OR payment_id = p_payment_id);
+  IF p_amount_cents IS NULL OR p_amount_cents <= 0 OR v_refunded + p_amount_cents > v_total THEN
+    RAISE EXCEPTION 'refund_amount_exceeded: %', COALESCE(p_order_id, p_payment_id)
+      USING ERRCODE = 'check_violation';
+  END IF;
+  INSERT INTO public.payment_refunds (order_id, payment_id, user_id, gateway, amount_cents, currency, reason, created_by, order_return_id)
+  VALUES (p_order_id, p_payment_id, v_user_id, COALESCE(p_gateway, v_gateway), p_amount_cents, COALESCE(v_currency, 'USD'), NULLIF(btrim(p_reason), ''), p_created_by, p_order_return_id)
+  RETURNING * INTO v_refund;
+  FOR v_line IN
+    SELECT (entry ->> 'order_item_id')::uuid AS order_item_id, (entry ->> 'amount_cents')::bigint AS amount_cents
+    FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) AS entry
+  LOOP
+    SELECT oi.qty * oi.price_cents
+    INTO v_line_total
+    FROM public.order_items oi
+    WHERE oi.id = v_line.order_item_id
+      AND oi.order_id = p_order_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'order_item_not_found: %', v_line.order_item_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+    SELECT COALESCE(sum(line.amount_cents), 0)
+    INTO v_line_refunded
+    FROM public.payment_refund_lines line
+    JOIN public.payment_refunds refund ON refund.id = line.refund_id
+    WHERE line.order_item_id = v_line.order_item_id
+      AND refund.status <> 'failed';
+    IF v_line.amount_cents IS NULL OR v_line.amount_cents <= 0 OR v_line_refunded + v_line.amount_cents > v_line_total THEN
+      RAISE EXCEPTION 'refund_line_exceeded: %', v_line.order_item_id
+        USING ERRCODE = 'check_violation';
+    END IF;
+    INSERT INTO public.payment_refund_lines (refund_id, order_item_id, amount_cents)
+    VALUES (v_refund.id, v_line.order_item_id, v_line.amount_cents);
+  END LOOP;
+  RETURN v_refund;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.begin_payment_refund(uuid, uuid, bigint, jsonb, text, uuid, uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.begin_payment_refund(uuid, uuid, bigint, jsonb, text, uuid, uuid, text) TO service_role;
+-- Marks a pending refund as accepted by the gateway and adds it to the refunded amount. A ledger
+-- payment moves to partially_refunded or refunded; an order moves to refunded once its refunds,
+-- returns included, cover the total
+CREATE OR REPLACE FUNCTION public.complete_payment_refund(p_refund_id uuid, p_gateway_refund_id text)
+  RETURNS public.payment_refunds
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+DECLARE
+  v_refund public.payment_refunds;
+BEGIN
+  UPDATE public.payment_refunds
+  SET status = 'succeeded',
+    gateway_refund_id = p_gateway_refund_id,
+    error = NULL
+  WHERE id = p_refund_id
+    AND status = 'pending'
+  RETURNING * INTO v_refund;
+  IF NOT FOUND THEN
+    SELECT * INTO v_refund FROM public.payment_refunds WHERE id = p_refund_id;
+    RETURN v_refund;
+  END IF;
+  IF v_refund.payment_id IS NOT NULL THEN
+    UPDATE public.payments
+    SET refunded_cents = refunded_cents + v_refund.amount_cents,
+      status = CASE WHEN refunded_cents + v_refund.amount_cents >= amount_cents THEN 'refunded' ELSE 'partially_refunded' END
+    WHERE id = v_refund.payment_id;
+  ELSE
+    UPDATE public.orders o
+    SET refunded_cents = o.refunded_cents + v_refund.amount_cents,
+      status = CASE
+        WHEN o.refunded_cents + v_refund.amount_cents >= o.total_cents THEN 'refunded'
+        ELSE o.status
+      END
+    WHERE o.id = v_refund.order_id;
+  END IF;
+  RETURN v_refund;
+END;
+$$;
+REVOKE ALL ON FUNCTION public.complete_payment_refund(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.complete_payment_refund(uuid, text) TO service_role;
+-- Returns refunded before their refunds went through payment_refunds join the ledger once
+WITH backfilled AS (
+  INSERT INTO public.payment_refunds (order_id, user_id, gateway, amount_cents, currency, reason, status, gateway_refund_id, created_by, created_at, order_return_id)
+  SELECT r.order_id,
+    r.user_id,
+    CASE WHEN r.refund_method = 'wallet' THEN 'wallet' ELSE COALESCE(o.gateway, 'wallet') END,
+    r.refund_cents,
+    upper(COALESCE(o.currency, 'USD')),
+    r.rma_number,
+    'succeeded',
+    r.refund_reference,
+    r.refunded_by,
+    COALESCE(r.refunded_at, r.updated_at),
+    r.id
+  FROM public.order_returns r
+  JOIN public.orders o ON o.id = r.order_id
+  WHERE r.status = 'refunded'
+    AND r.refund_cents > 0
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.payment_refunds pr
+      WHERE pr.order_return_id = r.id)
+  RETURNING id, order_id, order_return_id, amount_cents
+), backfilled_lines AS (
+  INSERT INTO public.payment_refund_lines (refund_id, order_item_id, amount_cents)
+  SELECT b.id, r.order_item_id, b.amount_cents
+  FROM backfilled b
+  JOIN public.order_returns r ON r.id = b.order_return_id
+)
+UPDATE public.orders o
+SET refunded_cents = o.refunded_cents + t.amount_cents
+FROM (
+  SELECT order_id, sum(amount_cents) AS amount_cents
+  FROM backfilled
+  GROUP BY order_id) t
+WHERE o.id = t.order_id;
+-- -------------------------------------------------------------
+-- SECTION: Mercado Pago
 -- -------------------------------------------------------------
--- 07-contact-settings.sql
---
--- Purpose: Provision the contact configuration tables so the admin UI can manage
---          sender details, routing overrides, and keep an audit log of form submissions.
---
--- Prerequisites:
---   - Run scripts 01 through 06 first. The `landing_page_content` table must exist.
---   - Ensure the `pgcrypto` extension is available for UUID generation.
--- 1. Safety: enable pgcrypto for gen_random_uuid if it is not already available
-CREATE EXTENSION IF NOT EXISTS "pgcrypto";
--- 2. Contact settings table (single row keyed by "global")
--- ===========================================
--- APP SETTINGS TABLE
--- ===========================================
-CREATE TABLE IF NOT EXISTS public.app_settings(
-  id text PRIMARY KEY DEFAULT 'global',
-  base_commission_rate numeric(5, 4) NOT NULL DEFAULT 0.10,
-  referral_bonus_rate numeric(5, 4) NOT NULL DEFAULT 0.05,
-  leadership_pool_rate numeric(5, 4) NOT NULL DEFAULT 0.02,
-  max_members_per_level jsonb NOT NULL DEFAULT '[]' ::jsonb,
-  payout_frequency text NOT NULL DEFAULT 'monthly' CHECK (payout_frequency IN ('weekly', 'biweekly', 'monthly')),
+-- Mercado Pago joins the gateways of payment_gateways, subscriptions and the payments ledger.
+-- Monthly subscriptions are preapprovals that Mercado Pago charges by itself; their state is kept
+-- in mercadopago_preapprovals from the subscription_preapproval webhook, and the renewal service
+-- only checks that the member still has an authorized one. Store checkouts are priced on the
+-- server and kept in mercadopago_checkouts until the payment webhook creates their order.
+ALTER TABLE public.payment_gateways DROP CONSTRAINT IF EXISTS payment_gateways_provider_check;
+ALTER TABLE public.payment_gateways
+  ADD CONSTRAINT payment_gateways_provider_check CHECK (provider IN ('paypal', 'stripe', 'wallet', 'manual', 'authorize_net', 'payoneer', 'mercadopago'));
+ALTER TABLE public.subscriptions DROP CONSTRAINT IF EXISTS subscriptions_gateway_check;
+ALTER TABLE public.subscriptions
+  ADD CONSTRAINT subscriptions_gateway_check CHECK (gateway IN ('stripe', 'paypal', 'wallet', 'mercadopago'));
+ALTER TABLE public.subscription_dunning_attempts DROP CONSTRAINT IF EXISTS subscription_dunning_attempts_gateway_check;
+ALTER TABLE public.subscription_dunning_attempts
+  ADD CONSTRAINT subscription_dunning_attempts_gateway_check CHECK (gateway IN ('stripe', 'paypal', 'wallet', 'mercadopago'));
+ALTER TABLE public.subscription_plan_changes DROP CONSTRAINT IF EXISTS subscription_plan_changes_gateway_check;
+ALTER TABLE public.subscription_plan_changes
+  ADD CONSTRAINT subscription_plan_changes_gateway_check CHECK (gateway IN ('stripe', 'paypal', 'wallet', 'mercadopago'));
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_gateway_check;
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_gateway_check CHECK (gateway IN ('stripe', 'paypal', 'wallet', 'mercadopago'));
+-- Mercado Pago: Desactivado por defecto, modo producción, solo pagos
+INSERT INTO public.payment_gateways(provider, is_active, functionality, mode)
+  VALUES ('mercadopago', FALSE, 'payment', 'production')
+ON CONFLICT (provider)
+  DO NOTHING;
+CREATE TABLE IF NOT EXISTS public.mercadopago_preapprovals(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  plan_id uuid,
+  preapproval_id text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'authorized', 'paused', 'cancelled')),
+  amount_cents bigint NOT NULL CHECK (amount_cents >= 0),
   currency text NOT NULL DEFAULT 'USD',
-  currencies jsonb NOT NULL DEFAULT '[]' ::jsonb,
-  ecommerce_commission_rate numeric(5, 4) NOT NULL DEFAULT 0.08,
-  auto_advance_enabled boolean NOT NULL DEFAULT TRUE,
-  team_levels_visible integer NOT NULL DEFAULT 2 CHECK (team_levels_visible BETWEEN 1 AND 10),
-  created_at timestamptz DEFAULT NOW(),
-  updated_at timestamptz DEFAULT NOW()
+  next_payment_date timestamptz,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
 );
-COMMENT ON TABLE public.app_settings IS 'Global configuration for the multi-level compensation engine.';
-INSERT INTO public.app_settings AS aps(id, base_commission_rate, referral_bonus_rate, leadership_pool_rate, max_members_per_level, payout_frequency, currency, currencies, ecommerce_commission_rate, auto_advance_enabled, team_levels_visible)
-  VALUES ('global', 0.10, 0.05, 0.02, '[{"level":1,"max_members":5},{"level":2,"max_members":25},{"level":3,"max_members":125},{"level":4,"max_members":625},{"level":5,"max_members":3125}]'::jsonb, 'monthly', 'USD', '[{"code":"USD","countryCodes":[]}]'::jsonb, 0.08, TRUE, 2)
-ON CONFLICT (id)
-  DO NOTHING;
-ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
-DROP POLICY IF EXISTS "app_settings_service_role" ON public.app_settings;
-CREATE POLICY "app_settings_service_role" ON public.app_settings
+COMMENT ON TABLE public.mercadopago_preapprovals IS 'Mercado Pago preapprovals (monthly subscriptions) of each member, synced from webhooks';
+COMMENT ON COLUMN public.mercadopago_preapprovals.next_payment_date IS 'Next charge announced by Mercado Pago; the paid period of the subscription ends here';
+CREATE INDEX IF NOT EXISTS idx_mercadopago_preapprovals_user_status ON public.mercadopago_preapprovals(user_id, status);
+DROP TRIGGER IF EXISTS on_mercadopago_preapprovals_updated ON public.mercadopago_preapprovals;
+CREATE TRIGGER on_mercadopago_preapprovals_updated
+  BEFORE UPDATE ON public.mercadopago_preapprovals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+ALTER TABLE public.mercadopago_preapprovals ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "mercadopago_preapprovals_select_own" ON public.mercadopago_preapprovals;
+CREATE POLICY "mercadopago_preapprovals_select_own" ON public.mercadopago_preapprovals
+  FOR SELECT
+  TO authenticated
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "mercadopago_preapprovals_service_role" ON public.mercadopago_preapprovals;
+CREATE POLICY "mercadopago_preapprovals_service_role" ON public.mercadopago_preapprovals
   FOR ALL
     USING (auth.role() = 'service_role')
     WITH CHECK (auth.role() = 'service_role');
-DROP TRIGGER IF EXISTS on_app_settings_updated ON public.app_settings;
-CREATE TRIGGER on_app_settings_updated
-  BEFORE UPDATE ON public.app_settings
+-- Store checkouts paid on Checkout Pro. The cart is priced on the server when the preference is
+-- created and kept here under the id sent as external_reference (also the stock reservation key);
+-- the payment webhook creates the order from this row, never from what the client sent.
+CREATE TABLE IF NOT EXISTS public.mercadopago_checkouts(
+  id uuid PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid')),
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  total_cents bigint NOT NULL CHECK (total_cents > 0),
+  cart_items jsonb NOT NULL,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  preference_id text,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  payment_id text UNIQUE,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now())
+);
+COMMENT ON TABLE public.mercadopago_checkouts IS 'Store checkouts sent to Mercado Pago Checkout Pro, priced on the server; the payment webhook creates their order';
+COMMENT ON COLUMN public.mercadopago_checkouts.expires_at IS 'When the preference and the stock reservation of the checkout expire';
+CREATE INDEX IF NOT EXISTS idx_mercadopago_checkouts_user ON public.mercadopago_checkouts(user_id, created_at DESC);
+DROP TRIGGER IF EXISTS on_mercadopago_checkouts_updated ON public.mercadopago_checkouts;
+CREATE TRIGGER on_mercadopago_checkouts_updated
+  BEFORE UPDATE ON public.mercadopago_checkouts
   FOR EACH ROW
   EXECUTE FUNCTION public.handle_updated_at();
-CREATE TABLE IF NOT EXISTS public.contact_settings(
-  id text PRIMARY KEY DEFAULT 'global',
-  from_name text NOT NULL,
-  from_email text NOT NULL,
-  reply_to_email text,
-  recipient_email_override text,
-  cc_emails text[] NOT NULL DEFAULT '{}',
-  bcc_emails text[] NOT NULL DEFAULT '{}',
-  subject_prefix text,
-  auto_response_enabled boolean NOT NULL DEFAULT FALSE,
-  auto_response_subject text,
-  auto_response_body text,
-  created_at timestamptz NOT NULL DEFAULT now(),
-  updated_at timestamptz NOT NULL DEFAULT now()
-);
-COMMENT ON TABLE public.contact_settings IS 'Admin-configurable sender identity and routing options for the public contact form.';
--- Seed or refresh the global row with sensible defaults.
--- The service layer will override `from_email` with environment variables when present.
-INSERT INTO public.contact_settings AS cs(id, from_name, from_email, reply_to_email, recipient_email_override, cc_emails, bcc_emails, subject_prefix, auto_response_enabled, auto_response_subject, auto_response_body, created_at, updated_at)
-SELECT
-  'global',
-  'Landing Contact',
-  coalesce((
-    SELECT
-      contact -> 'contactInfo' ->> 'email'
-    FROM public.landing_page_content
-    WHERE
-      contact ->> 'contactInfo' IS NOT NULL ORDER BY updated_at DESC nulls LAST LIMIT 1), 'contact@example.com') AS from_email,
-  NULL::text AS reply_to_email,
-  NULL::text AS recipient_email_override,
-  '{}'::text[] AS cc_emails,
-  '{}'::text[] AS bcc_emails,
-  '[Contact]'::text AS subject_prefix,
-  FALSE,
-  NULL::text,
-  NULL::text,
-  now(),
-  now()
-ON CONFLICT (id)
-  DO UPDATE SET
-    updated_at = now()
-  WHERE
-    cs.id = 'global';
--- 3. Message log table to capture each submission attempt
-CREATE TABLE IF NOT EXISTS public.contact_messages(
-  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-  created_at timestamptz NOT NULL DEFAULT now(),
-  locale text NOT NULL,
-  name text NOT NULL,
-  email text NOT NULL,
-  message text NOT NULL,
-  recipient_email text NOT NULL,
-  subject text NOT NULL,
-  status text NOT NULL DEFAULT 'sent',
-  error_message text
-);
-COMMENT ON TABLE public.contact_messages IS 'Immutable log of inbound contact form submissions.';
-COMMENT ON COLUMN public.contact_messages.status IS 'sent|failed indicator to correlate with email provider responses.';
--- Helpful indexes for chronological review and failure triage
-CREATE INDEX IF NOT EXISTS contact_messages_created_at_idx ON public.contact_messages(created_at DESC);
-CREATE INDEX IF NOT EXISTS contact_messages_status_idx ON public.contact_messages(status);
--- 4. Optional: grant read access to service role only (RLS can be added later if needed)
--- For now the admin API uses the service role client, so we keep default privileges.
--- Verification snippet (run separately after executing this script):
---   select * from contact_settings;
---   select id, created_at, status from contact_messages order by created_at desc limit 5;
--- -------------------------------------------------------------
--- SECTION: Product inventory metrics (legacy 08)
--- -------------------------------------------------------------
--- Adds inventory tracking metadata for products so the admin dashboard can surface stock metrics.
--- Run this script after the base schema (01-03) and before seeding new data.
--- 1. Ensure the stock_quantity column exists on products
-ALTER TABLE public.products
-  ADD COLUMN IF NOT EXISTS stock_quantity integer NOT NULL DEFAULT 0;
--- 2. Backfill null values just in case the column already existed without defaults
-UPDATE
-  public.products
-SET
-  stock_quantity = 0
-WHERE
-  stock_quantity IS NULL;
--- 3. Provide a helper view for quick stock summaries (optional, but useful for debugging)
-CREATE OR REPLACE VIEW public.product_stock_overview AS
-SELECT
-  id,
-  name,
-  COALESCE(stock_quantity, 0) AS stock_quantity,
-  updated_at
-FROM
-  public.products
-ORDER BY
-  name;
--- 4. Verify results
-SELECT
-  COUNT(*) AS product_count,
-  SUM(stock_quantity) AS total_units
-FROM
-  public.products;
--- -------------------------------------------------------------
--- SECTION: Product cart visibility (20250418)
--- -------------------------------------------------------------
--- Ensure each product stores the list of ISO country codes where cart actions are available.
-ALTER TABLE public.products
-  ADD COLUMN IF NOT EXISTS cart_visibility_countries TEXT[] DEFAULT '{}'::text[];
--- Backfill any null entries from previous deployments.
-UPDATE
-  public.products
-SET
-  cart_visibility_countries = '{}'
-WHERE
-  cart_visibility_countries IS NULL;
--- Enforce not-null semantics for simpler parsing in the application layer.
-ALTER TABLE public.products
-  ALTER COLUMN cart_visibility_countries SET NOT NULL;
--- Speed up lookups when checking if a country is eligible for purchases.
-CREATE INDEX IF NOT EXISTS idx_products_cart_visibility_countries ON public.products USING GIN(cart_visibility_countries);
--- -------------------------------------------------------------
--- SECTION: Checkout preferences (legacy 09)
--- -------------------------------------------------------------
--- =============================================================
--- Checkout profile enhancements
--- Adds shipping/postal details and a default payment provider to profiles
--- Execute after `08-product-inventory-update.sql`
--- =============================================================
-ALTER TABLE public.profiles
-  ADD COLUMN IF NOT EXISTS state TEXT;
-ALTER TABLE public.profiles
-  ADD COLUMN IF NOT EXISTS postal_code TEXT;
-ALTER TABLE public.profiles
-  ADD COLUMN IF NOT EXISTS default_payment_provider TEXT;
-ALTER TABLE public.profiles
-  ADD COLUMN IF NOT EXISTS avatar_url TEXT;
-ALTER TABLE public.profiles
-  ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
-ALTER TABLE public.profiles
-  DROP CONSTRAINT IF EXISTS profiles_default_payment_provider_check;
-ALTER TABLE public.profiles
-  ADD CONSTRAINT profiles_default_payment_provider_check CHECK (default_payment_provider IS NULL OR default_payment_provider IN ('paypal', 'stripe', 'wallet'));
+ALTER TABLE public.mercadopago_checkouts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "mercadopago_checkouts_select_own" ON public.mercadopago_checkouts;
+CREATE POLICY "mercadopago_checkouts_select_own" ON public.mercadopago_checkouts
+  FOR SELECT
+  TO authenticated
+    USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "mercadopago_checkouts_service_role" ON public.mercadopago_checkouts;
+CREATE POLICY "mercadopago_checkouts_service_role" ON public.mercadopago_checkouts
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
 -- -------------------------------------------------------------
--- SECTION: Product experience content (legacy 10)
+-- SECTION: Payment methods vault
 -- -------------------------------------------------------------
--- =============================================================
--- PūrVita Network - Product Experience Content Migration
--- Adds the JSONB column required to store curated product storytelling
--- and review metadata controlled from the admin panel.
--- =============================================================
-ALTER TABLE public.products
-  ADD COLUMN IF NOT EXISTS experience jsonb DEFAULT '{}'::jsonb;
+-- Saved payment methods of every gateway: Stripe payment methods, PayPal billing agreements
+-- (reference transactions) and Authorize.net CIM payment profiles. provider_token is what the
+-- gateway charges and provider_customer_id the customer that owns it (Stripe customer, PayPal
+-- payer, CIM customer profile). stripe_payment_method_id stays for the Stripe rows.
+ALTER TABLE public.payment_methods ADD COLUMN IF NOT EXISTS provider text NOT NULL DEFAULT 'stripe';
+ALTER TABLE public.payment_methods ADD COLUMN IF NOT EXISTS provider_token text;
+ALTER TABLE public.payment_methods ADD COLUMN IF NOT EXISTS provider_customer_id text;
 UPDATE
-  public.products
+  public.payment_methods
 SET
-  experience = '{}'::jsonb
+  provider_token = stripe_payment_method_id
 WHERE
-  experience IS NULL;
+  provider_token IS NULL;
+ALTER TABLE public.payment_methods ALTER COLUMN provider_token SET NOT NULL;
+ALTER TABLE public.payment_methods ALTER COLUMN stripe_payment_method_id DROP NOT NULL;
+ALTER TABLE public.payment_methods DROP CONSTRAINT IF EXISTS payment_methods_provider_check;
+ALTER TABLE public.payment_methods
+  ADD CONSTRAINT payment_methods_provider_check CHECK (provider IN ('stripe', 'paypal', 'authorize_net'));
+ALTER TABLE public.payment_methods DROP CONSTRAINT IF EXISTS payment_methods_type_check;
+ALTER TABLE public.payment_methods
+  ADD CONSTRAINT payment_methods_type_check CHECK (type IN ('card', 'bank_account', 'paypal'));
+COMMENT ON TABLE public.payment_methods IS 'Saved payment methods of the members across gateways, used for one-click checkout and renewals';
+COMMENT ON COLUMN public.payment_methods.provider_token IS 'Gateway reference that is charged: Stripe payment method, PayPal billing agreement id or CIM payment profile id';
+COMMENT ON COLUMN public.payment_methods.provider_customer_id IS 'Gateway customer owning the token: Stripe customer, PayPal payer id or CIM customer profile id';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_methods_provider_token ON public.payment_methods(provider, provider_token);
+-- Orders are created on the gateway that charged them: the saved method of a one-click checkout or Mercado Pago
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_gateway_check;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_gateway_check CHECK (gateway IN ('stripe', 'paypal', 'wallet', 'authorize_net', 'mercadopago'));
 -- -------------------------------------------------------------
--- SECTION: Product stock overview view (security fix)
+-- SECTION: Local product prices
 -- -------------------------------------------------------------
--- =============================================================
--- Fix product_stock_overview view security
--- Changes from SECURITY DEFINER to SECURITY INVOKER for safety
--- =============================================================
-DROP VIEW IF EXISTS public.product_stock_overview;
-CREATE OR REPLACE VIEW public.product_stock_overview WITH ( security_invoker = TRUE
-) AS
-SELECT
-  id,
-  name,
-  COALESCE(
-    stock_quantity, 0
-) AS stock_quantity,
-  updated_at
-FROM
-  public.products
-ORDER BY
-  name;
-COMMENT ON VIEW public.product_stock_overview IS 'Simplified view of product stock levels. Uses SECURITY INVOKER for safety.';
+-- Catalog prices (products.price, product_variants.price) are in the base currency
+-- (app_settings.currency). A cart is priced in the currency of the buyer's country only when
+-- every line has a local price here; any other currency is rejected at checkout.
+CREATE TABLE IF NOT EXISTS public.product_prices(
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  price_cents bigint NOT NULL CHECK (price_cents > 0),
+  created_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  updated_at timestamptz NOT NULL DEFAULT timezone('utc', now()),
+  UNIQUE NULLS NOT DISTINCT (product_id, variant_id, currency)
+);
+COMMENT ON TABLE public.product_prices IS 'Local prices of products and variants in currencies other than the base currency';
+COMMENT ON COLUMN public.product_prices.variant_id IS 'Variant of the price; NULL for the price of a product without variants';
+CREATE INDEX IF NOT EXISTS idx_product_prices_currency ON public.product_prices(currency, product_id);
+ALTER TABLE public.product_prices ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "product_prices_read_public" ON public.product_prices;
+CREATE POLICY "product_prices_read_public" ON public.product_prices
+  FOR SELECT
+    USING (TRUE);
+DROP POLICY IF EXISTS "product_prices_manage_admin" ON public.product_prices;
+CREATE POLICY "product_prices_manage_admin" ON public.product_prices
+  FOR ALL
+    USING (public.has_permission(auth.uid(), 'manage_products'))
+    WITH CHECK (public.has_permission(auth.uid(), 'manage_products'));
+DROP POLICY IF EXISTS "product_prices_service_role" ON public.product_prices;
+CREATE POLICY "product_prices_service_role" ON public.product_prices
+  FOR ALL
+    USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+DROP TRIGGER IF EXISTS on_product_prices_updated ON public.product_prices;
+CREATE TRIGGER on_product_prices_updated
+  BEFORE UPDATE ON public.product_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
 -- -------------------------------------------------------------
 -- SECTION: Site Mode Settings (Site Status Management)
 -- -------------------------------------------------------------
@@ -4124,7 +7683,7 @@ SET
     FROM
       public.profiles ref
     WHERE
-      ref.referred_by = p.id)
+      ref.network_parent_id = p.id)
 WHERE
   team_count = 0
   OR team_count IS NULL;
@@ -4906,12 +8465,16 @@ SELECT
   pr.name AS product_name,
   COALESCE(oi.qty, 0) AS quantity,
   COALESCE(oi.price_cents, 0) AS unit_price_cents,
-  COALESCE(oi.qty, 0) * COALESCE(oi.price_cents, 0) AS line_total_cents
+  COALESCE(oi.qty, 0) * COALESCE(oi.price_cents, 0) AS line_total_cents,
+  oi.variant_id,
+  COALESCE(oi.variant_label, public.product_variant_label(pv.options, pr.option_axes)) AS variant_label,
+  pv.sku
 FROM
   public.orders o
   JOIN public.profiles p ON p.id = o.user_id
   LEFT JOIN public.order_items oi ON oi.order_id = o.id
-  LEFT JOIN public.products pr ON pr.id = oi.product_id;
+  LEFT JOIN public.products pr ON pr.id = oi.product_id
+  LEFT JOIN public.product_variants pv ON pv.id = oi.variant_id;
 COMMENT ON VIEW public.order_fulfillment_view IS 'Denormalised orders with customer and line item details for fulfillment dashboards.';
 
 -- =============================================================
@@ -6462,6 +10025,33 @@ CREATE TABLE IF NOT EXISTS public.app_settings (
   updated_at timestamptz DEFAULT now()
 );
 
+-- Unilevel depth for network commissions (0 = disabled). Each level uses phase_levels.commission_rate.
+ALTER TABLE public.app_settings
+  ADD COLUMN IF NOT EXISTS network_commission_depth integer DEFAULT 0 CHECK (network_commission_depth BETWEEN 0 AND 10);
+
+-- Subscription dunning: retry offsets (days after the first failed renewal) and the days an
+-- unpaid subscription is kept before it is canceled.
+ALTER TABLE public.app_settings
+  ADD COLUMN IF NOT EXISTS dunning_retry_days integer[] DEFAULT ARRAY[1, 3, 5, 7],
+  ADD COLUMN IF NOT EXISTS dunning_grace_days integer DEFAULT 7 CHECK (dunning_grace_days BETWEEN 0 AND 60);
+
+-- Subscription pauses: length and yearly limit (0 disables pausing), and whether paused members
+-- keep counting toward their sponsor's capacity and phase requirements.
+ALTER TABLE public.app_settings
+  ADD COLUMN IF NOT EXISTS subscription_pause_max_days integer DEFAULT 30 CHECK (subscription_pause_max_days BETWEEN 1 AND 90),
+  ADD COLUMN IF NOT EXISTS subscription_pauses_per_year integer DEFAULT 1 CHECK (subscription_pauses_per_year BETWEEN 0 AND 12),
+  ADD COLUMN IF NOT EXISTS paused_members_count_toward_capacity boolean DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS paused_members_count_toward_phase boolean DEFAULT TRUE;
+
+-- Payout batches: commissions younger than this many days are held back from new batches.
+ALTER TABLE public.app_settings
+  ADD COLUMN IF NOT EXISTS payout_hold_days integer DEFAULT 14 CHECK (payout_hold_days BETWEEN 0 AND 90);
+
+-- Spillover: where new members go when their sponsor's level 1 is full ('disabled' rejects them).
+ALTER TABLE public.app_settings
+  ADD COLUMN IF NOT EXISTS spillover_strategy text DEFAULT 'breadth_first'
+    CHECK (spillover_strategy IN ('disabled', 'breadth_first', 'weakest_leg', 'sponsor_choice'));
+
 ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
 
 -- Policies
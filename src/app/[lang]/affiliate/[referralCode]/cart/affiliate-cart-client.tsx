@@ -5,7 +5,7 @@ import type { Locale } from '@/i18n/config';
 import type { AppDictionary } from '@/i18n/dictionaries';
 import { Button } from '@/components/ui/button';
 import AuthGuard from '@/components/auth-guard';
-import { useCart } from '@/contexts/cart-context';
+import { getCartItemKey, useCart } from '@/contexts/cart-context';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
@@ -318,7 +318,7 @@ export function AffiliateCartClient({
 
                     return (
                       <div
-                        key={item.product.id}
+                        key={getCartItemKey(item)}
                         className="flex flex-col md:flex-row items-start gap-6 p-4 rounded-lg bg-subtle-light/30 dark:bg-subtle-dark/30"
                       >
                         <div className="w-full md:w-1/3 h-48 md:h-auto rounded-lg overflow-hidden">
@@ -332,6 +332,9 @@ export function AffiliateCartClient({
                         </div>
                         <div className="flex-1">
                           <h4 className="text-xl font-bold">{item.product.name}</h4>
+                          {item.variantLabel ? (
+                            <p className="text-sm font-medium text-muted-foreground">{item.variantLabel}</p>
+                          ) : null}
                           <p className="text-text-light/80 dark:text-text-dark/80 mt-1">
                             {item.product.description.substring(0, 100)}...
                           </p>
@@ -354,7 +357,7 @@ export function AffiliateCartClient({
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
+                              onClick={() => updateQuantity(item.product.id, item.quantity - 1, item.variant?.id)}
                             >
                               -
                             </Button>
@@ -362,14 +365,14 @@ export function AffiliateCartClient({
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
+                              onClick={() => updateQuantity(item.product.id, item.quantity + 1, item.variant?.id)}
                             >
                               +
                             </Button>
                             <Button
                               variant="destructive"
                               size="sm"
-                              onClick={() => removeItem(item.product.id)}
+                              onClick={() => removeItem(item.product.id, item.variant?.id)}
                             >
                               {dict.cart.remove}
                             </Button>
@@ -12,7 +12,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent } from '@/components/ui/card';
 import AuthGuard from '@/components/auth-guard';
 import { usePaymentProviders } from '@/modules/payments/hooks/use-payment-gateways';
-import { useCart } from '@/contexts/cart-context';
+import { getCartItemKey, useCart } from '@/contexts/cart-context';
 import { useCheckoutProfile } from '@/modules/checkout/hooks/use-checkout-profile';
 import type { CheckoutPaymentProvider } from '@/modules/checkout/domain/models/checkout-profile';
 import { PAYMENT_CONSTANTS } from '@/modules/payments/constants/payment-constants';
@@ -23,6 +23,11 @@ import { cn } from '@/lib/utils';
 import { getDiscountedUnitPrice } from '@/modules/products/utils/product-pricing';
 import { useCurrentUserCountry } from '@/modules/profile/hooks/use-current-user-country';
 import { useSupabaseUser } from '@/modules/auth/hooks/use-supabase-user';
+import { useShippingQuote } from '@/modules/orders/shipping/hooks/use-shipping-quote';
+import { CheckoutShippingOptions } from '@/modules/orders/shipping/views/checkout-shipping-options';
+import { useTaxQuote } from '@/modules/orders/tax/hooks/use-tax-quote';
+import { usePromotionQuote } from '@/modules/orders/promotions/hooks/use-promotion-quote';
+import { CheckoutCouponField } from '@/modules/orders/promotions/views/checkout-coupon-field';
 import type { Locale } from '@/i18n/config';
 import type { AppDictionary } from '@/i18n/dictionaries';
 
@@ -160,6 +165,7 @@ export function AffiliateCheckoutClient({
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [countryDisplayValue, setCountryDisplayValue] = useState<string>('');
+  const [couponCode, setCouponCode] = useState<string | null>(null);
 
   // Authorize.net Card Details State
   const [cardDetails, setCardDetails] = useState({
@@ -219,7 +225,68 @@ export function AffiliateCheckoutClient({
   const subtotal = getSubtotal();
   const productDiscount = getProductDiscount();
   const totalDiscount = getDiscount();
-  const total = getTotal();
+  // Same item shape as the main checkout: order creation, stock, shipping and tax read it from metadata
+  const checkoutItems = useMemo(
+    () =>
+      (items || []).map((item) => ({
+        productId: item.product.id,
+        productName: item.product.name,
+        quantity: item.quantity,
+        priceCents: Math.round(
+          getDiscountedUnitPrice(item.product).finalUnitPrice * PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS,
+        ),
+        ...(item.variant ? { variantId: item.variant.id, variantLabel: item.variantLabel ?? null } : {}),
+      })),
+    [items],
+  );
+  const shippingCountry = userCountryCode || formValues.country.trim();
+  const shippingState = formValues.state.trim();
+  const {
+    quote: shippingQuote,
+    selectedOption: shippingOption,
+    selectOption: selectShippingOption,
+    shippingCents,
+    isLoading: shippingLoading,
+    error: shippingError,
+    blocksCheckout: shippingBlocksCheckout,
+  } = useShippingQuote({
+    country: shippingCountry,
+    state: shippingState,
+    store: 'affiliate_store',
+    items: checkoutItems,
+  });
+  const {
+    quote: taxQuote,
+    taxCents,
+    chargedTaxCents,
+    error: taxError,
+    blocksCheckout: taxBlocksCheckout,
+  } = useTaxQuote({
+    country: shippingCountry,
+    region: shippingState,
+    items: checkoutItems,
+  });
+  const {
+    quote: promotionQuote,
+    discountCents: promotionDiscountCents,
+    appliedCouponCode,
+    isLoading: promotionLoading,
+    error: promotionError,
+    blocksCheckout: promotionBlocksCheckout,
+  } = usePromotionQuote({
+    couponCode,
+    store: 'affiliate_store',
+    items: checkoutItems,
+    shippingCents,
+    phaseRewardCents: 0,
+  });
+  const shippingAmount = shippingCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS;
+  const taxAmount = taxCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS;
+  const promotionDiscount = promotionDiscountCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS;
+  const totalSavings = totalDiscount + promotionDiscount;
+  // Taxes included in the prices are already part of the cart total
+  const total =
+    getTotal() + shippingAmount + chargedTaxCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS - promotionDiscount;
   const hasPositiveTotal = total > 0;
   const hasProviders = providers.length > 0;
 
@@ -286,8 +353,31 @@ export function AffiliateCheckoutClient({
         saleChannel: 'affiliate_store',
       };
 
-      if (cartItems.length > 0) {
-        metadata.cartItems = cartItems;
+      if (checkoutItems.length > 0) {
+        metadata.cartItems = checkoutItems;
+      }
+      // The server quotes the chosen rate again and rejects the payment if the amount differs
+      if (shippingOption) {
+        metadata.shippingRateId = shippingOption.rateId;
+        metadata.shippingCarrierId = shippingOption.carrierId;
+        metadata.shippingCents = shippingOption.amountCents;
+        metadata.shippingCountry = shippingCountry.toUpperCase();
+        metadata.shippingState = shippingState || null;
+      }
+      // Verified the same way: the tax of the destination, and whether the prices include it
+      if (taxQuote?.configured) {
+        metadata.taxCents = taxCents;
+        metadata.taxCountry = shippingCountry.toUpperCase();
+        metadata.taxRegion = shippingState || null;
+        metadata.pricesIncludeTax = taxQuote.pricesIncludeTax;
+      }
+      // And the promotions: the server evaluates the cart again and rejects a different discount
+      if (promotionDiscountCents > 0 && promotionQuote) {
+        metadata.promotionDiscountCents = promotionDiscountCents;
+        metadata.promotionIds = promotionQuote.applied.map((promotion) => promotion.promotionId).join(',');
+        if (appliedCouponCode) {
+          metadata.couponCode = appliedCouponCode;
+        }
       }
 
       // Authorize.net specific logic
@@ -409,7 +499,10 @@ export function AffiliateCheckoutClient({
     profileSaving ||
     !selectedProvider ||
     !hasCartItems ||
-    !hasProviders;
+    !hasProviders ||
+    shippingBlocksCheckout ||
+    taxBlocksCheckout ||
+    promotionBlocksCheckout;
 
   return (
     <AuthGuard lang={lang}>
@@ -610,6 +703,17 @@ export function AffiliateCheckoutClient({
                   </div>
                 </section>
 
+                <CheckoutShippingOptions
+                  copy={dict.checkout}
+                  quote={shippingQuote}
+                  selectedRateId={shippingOption?.rateId ?? null}
+                  isLoading={shippingLoading}
+                  error={shippingError}
+                  disabled={isProcessingPayment || profileSaving}
+                  formatCents={(cents) => formatCurrency(cents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS)}
+                  onSelect={selectShippingOption}
+                />
+
                 {/* Payment Method */}
                 <section>
                   <h2 className="text-xl font-bold mb-4">{dict.checkout.paymentMethod}</h2>
@@ -724,9 +828,10 @@ export function AffiliateCheckoutClient({
                           const originalLineTotal = pricing.unitPrice * item.quantity;
 
                           return (
-                            <div key={item.product.id} className="flex items-start justify-between text-sm">
+                            <div key={getCartItemKey(item)} className="flex items-start justify-between text-sm">
                               <div className="text-muted-foreground">
                                 <span>{item.product.name}</span>
+                                {item.variantLabel ? <span className="ml-1">({item.variantLabel})</span> : null}
                                 {item.quantity > 1 && (
                                   <span className="ml-2 text-xs font-medium text-muted-foreground">
                                     ×{item.quantity}
@@ -771,22 +876,61 @@ export function AffiliateCheckoutClient({
                         </div>
                       )}
 
+                      {shippingOption && (
+                        <div className="flex justify-between text-base font-medium">
+                          <span className="text-muted-foreground">{dict.checkout.shipping}</span>
+                          <span>{shippingOption.isFree ? dict.checkout.shippingFree : formatCurrency(shippingAmount)}</span>
+                        </div>
+                      )}
+
+                      {taxCents > 0 && (
+                        <div className="flex justify-between text-base font-medium">
+                          <span className="text-muted-foreground">
+                            {taxQuote?.pricesIncludeTax ? dict.checkout.taxesIncluded : dict.checkout.taxes}
+                          </span>
+                          <span>{formatCurrency(taxAmount)}</span>
+                        </div>
+                      )}
+
+                      {taxError && <p className="text-sm text-destructive">{dict.checkout.taxQuoteError}</p>}
+
+                      {promotionQuote?.applied.map((promotion) => (
+                        <div
+                          key={promotion.promotionId}
+                          className="flex justify-between text-base font-medium text-emerald-600 dark:text-emerald-400"
+                        >
+                          <span>{promotion.code ? `${dict.checkout.promotion} (${promotion.code})` : promotion.name}</span>
+                          <span>-{formatCurrency(promotion.discountCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS)}</span>
+                        </div>
+                      ))}
+
+                      <CheckoutCouponField
+                        copy={dict.checkout}
+                        quote={promotionQuote}
+                        couponCode={couponCode}
+                        isLoading={promotionLoading}
+                        error={promotionError}
+                        disabled={isProcessingPayment}
+                        onApply={setCouponCode}
+                        onRemove={() => setCouponCode(null)}
+                      />
+
                       <div className="h-px bg-border" />
 
                       {/* Total */}
                       <div className="flex justify-between items-center pt-2">
                         <p className="text-lg font-bold">{dict.checkout.total}</p>
-                        <p className={`text-2xl font-bold ${totalDiscount > 0 ? 'text-primary' : ''}`}>
+                        <p className={`text-2xl font-bold ${totalSavings > 0 ? 'text-primary' : ''}`}>
                           {formatCurrency(total)}
                         </p>
                       </div>
 
-                      {totalDiscount > 0 && (
+                      {totalSavings > 0 && (
                         <div className="text-center">
                           <p className="text-sm font-medium text-emerald-600 dark:text-emerald-400">
                             {dict.checkout.totalSavings
-                              ? dict.checkout.totalSavings.replace('{{amount}}', formatCurrency(totalDiscount))
-                              : `🎉 You're saving ${formatCurrency(totalDiscount)}!`}
+                              ? dict.checkout.totalSavings.replace('{{amount}}', formatCurrency(totalSavings))
+                              : `🎉 You're saving ${formatCurrency(totalSavings)}!`}
                           </p>
                         </div>
                       )}
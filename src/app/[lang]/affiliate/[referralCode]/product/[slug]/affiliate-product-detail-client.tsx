@@ -34,6 +34,14 @@ import {
 import { ProductImageGallery } from '@/app/[lang]/products/[slug]/product-image-gallery';
 import { resolveProductCopy } from '@/app/[lang]/products/[slug]/product-detail-client';
 import { getDiscountedUnitPrice } from '@/modules/products/utils/product-pricing';
+import {
+  applyProductVariant,
+  findVariantByOptions,
+  getActiveVariants,
+  hasVariants,
+  type ProductVariantOptions,
+} from '@/modules/products/utils/product-variants';
+import { ProductVariantSelector } from '@/modules/products/ui/product-variant-selector';
 import type { ProductReviewDisplay } from '@/modules/products/types/product-review';
 import { normalizeMemberReviewResponse } from '@/modules/products/utils/review-utils';
 import { PersonalizedRecommendations } from '@/components/affiliate/personalized-recommendations';
@@ -68,9 +76,19 @@ export function AffiliateProductDetailClient({
   const resolveCurrency = useCurrencyForCountry();
   const [isAdding, setIsAdding] = useState(false);
   const [userReferredBy, setUserReferredBy] = useState<string | null>(null);
+  const productHasVariants = useMemo(() => hasVariants(product), [product]);
+  const [selectedOptions, setSelectedOptions] = useState<ProductVariantOptions>(() => {
+    const variants = getActiveVariants(product);
+    return { ...(variants.find((variant) => variant.stock_quantity > 0) ?? variants[0])?.options };
+  });
+  const selectedVariant = useMemo(
+    () => (productHasVariants ? findVariantByOptions(product, selectedOptions) : null),
+    [product, productHasVariants, selectedOptions],
+  );
+  const displayProduct = useMemo(() => applyProductVariant(product, selectedVariant), [product, selectedVariant]);
 
   const copy = useMemo(() => resolveProductCopy(dict, product, lang), [dict, product, lang]);
-  const pricing = useMemo(() => getDiscountedUnitPrice(product), [product]);
+  const pricing = useMemo(() => getDiscountedUnitPrice(displayProduct), [displayProduct]);
   const hasDiscount = pricing.discountAmount > 0;
 
   const currencyCode = useMemo(() => resolveCurrency(userCountry), [resolveCurrency, userCountry]);
@@ -358,9 +376,10 @@ export function AffiliateProductDetailClient({
 
   const handleAddToCart = () => {
     if (!canPurchase || isAdding) return;
+    if (productHasVariants && !selectedVariant) return;
 
     setIsAdding(true);
-    addItem(product);
+    addItem(product, selectedVariant);
 
     // Store the affiliate page URL as the return URL for after payment
     try {
@@ -409,7 +428,7 @@ export function AffiliateProductDetailClient({
 
       <div className="grid gap-10 lg:grid-cols-2 lg:gap-16">
         {/* Product Images - Visible to Everyone */}
-        <ProductImageGallery images={product.images} productName={product.name} />
+        <ProductImageGallery images={displayProduct.images} productName={product.name} />
 
         <div className="flex flex-col justify-center gap-6">
           {/* Product Info - Visible to Everyone */}
@@ -442,12 +461,21 @@ export function AffiliateProductDetailClient({
             )}
           </div>
 
+          {productHasVariants ? (
+            <ProductVariantSelector
+              product={product}
+              selected={selectedOptions}
+              onChange={setSelectedOptions}
+              outOfStockLabel={dict.productDetails?.variantOutOfStockLabel}
+            />
+          ) : null}
+
           {/* Purchase Section */}
           <div className="space-y-4">
             {canPurchase ? (
               <Button
                 onClick={handleAddToCart}
-                disabled={isAdding}
+                disabled={isAdding || (productHasVariants && !selectedVariant)}
                 size="lg"
                 className="w-full gap-2"
               >
@@ -4,7 +4,7 @@ import { use, useEffect, useMemo, useState } from 'react';
 import type { Locale } from '@/i18n/config';
 import { Button } from '@/components/ui/button';
 import AuthGuard from '@/components/auth-guard';
-import { useCart } from '@/contexts/cart-context';
+import { getCartItemKey, useCart } from '@/contexts/cart-context';
 import { useReferralTracking } from '@/contexts/referral-tracking-context';
 import Image from 'next/image';
 import { useAppDictionary } from '@/contexts/locale-content-context';
@@ -267,7 +267,7 @@ export default function CartPage({ params }: { params: Promise<{ lang: Locale }>
 
                     return (
                       <div
-                        key={item.product.id}
+                        key={getCartItemKey(item)}
                         className="flex flex-col md:flex-row items-start gap-6 p-4 rounded-lg bg-subtle-light/30 dark:bg-subtle-dark/30"
                       >
                         <div className="w-full md:w-1/3 h-48 md:h-auto rounded-lg overflow-hidden">
@@ -281,6 +281,9 @@ export default function CartPage({ params }: { params: Promise<{ lang: Locale }>
                         </div>
                         <div className="flex-1">
                           <h4 className="text-xl font-bold">{item.product.name}</h4>
+                          {item.variantLabel ? (
+                            <p className="text-sm font-medium text-muted-foreground">{item.variantLabel}</p>
+                          ) : null}
                           <p className="text-text-light/80 dark:text-text-dark/80 mt-1">
                             {item.product.description.substring(0, 100)}...
                           </p>
@@ -303,7 +306,7 @@ export default function CartPage({ params }: { params: Promise<{ lang: Locale }>
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => updateQuantity(item.product.id, item.quantity - 1)}
+                              onClick={() => updateQuantity(item.product.id, item.quantity - 1, item.variant?.id)}
                             >
                               -
                             </Button>
@@ -311,14 +314,14 @@ export default function CartPage({ params }: { params: Promise<{ lang: Locale }>
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => updateQuantity(item.product.id, item.quantity + 1)}
+                              onClick={() => updateQuantity(item.product.id, item.quantity + 1, item.variant?.id)}
                             >
                               +
                             </Button>
                             <Button
                               variant="destructive"
                               size="sm"
-                              onClick={() => removeItem(item.product.id)}
+                              onClick={() => removeItem(item.product.id, item.variant?.id)}
                             >
                               {dict.cart.remove}
                             </Button>
@@ -13,7 +13,7 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Skeleton } from '@/components/ui/skeleton';
 import AuthGuard from '@/components/auth-guard';
 import { usePaymentProviders } from '@/modules/payments/hooks/use-payment-gateways';
-import { useCart } from '@/contexts/cart-context';
+import { getCartItemKey, useCart } from '@/contexts/cart-context';
 import { useReferralTracking } from '@/contexts/referral-tracking-context';
 import { useCheckoutProfile } from '@/modules/checkout/hooks/use-checkout-profile';
 import type { CheckoutPaymentProvider } from '@/modules/checkout/domain/models/checkout-profile';
@@ -25,6 +25,16 @@ import { getWalletMetadata } from '@/modules/payments/utils/payment-provider-met
 import { getDiscountedUnitPrice } from '@/modules/products/utils/product-pricing';
 import { useCurrentUserCountry } from '@/modules/profile/hooks/use-current-user-country';
 import { useSupabaseUser } from '@/modules/auth/hooks/use-supabase-user';
+import { useShippingQuote } from '@/modules/orders/shipping/hooks/use-shipping-quote';
+import { CheckoutShippingOptions } from '@/modules/orders/shipping/views/checkout-shipping-options';
+import { useTaxQuote } from '@/modules/orders/tax/hooks/use-tax-quote';
+import { usePromotionQuote } from '@/modules/orders/promotions/hooks/use-promotion-quote';
+import { CheckoutCouponField } from '@/modules/orders/promotions/views/checkout-coupon-field';
+import { useSavedPaymentMethods } from '@/modules/payment-methods/hooks/use-saved-payment-methods';
+import {
+  CheckoutSavedPaymentMethods,
+  SAVED_PAYMENT_METHOD_PREFIX,
+} from '@/modules/payment-methods/views/checkout-saved-payment-methods';
 
 const PAYMENT_PROVIDER_ICONS: Record<string, string> = {
   paypal: '🅿️',
@@ -112,6 +122,8 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
   });
 
   const [selectedProvider, setSelectedProvider] = useState<CheckoutPaymentProvider | null>(null);
+  // Saved payment method charged with one-click checkout; takes precedence over the gateway
+  const [savedMethodId, setSavedMethodId] = useState<string | null>(null);
   const [formValues, setFormValues] = useState<Record<FormField, string>>({
     fullName: '',
     addressLine1: '',
@@ -128,6 +140,7 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
   const [userId, setUserId] = useState<string | null>(null);
   // Separate state for country display (editable by user but not saved)
   const [countryDisplayValue, setCountryDisplayValue] = useState<string>('');
+  const [couponCode, setCouponCode] = useState<string | null>(null);
 
   // Convert country code to full country name
   const regionDisplay = useMemo(() => {
@@ -209,6 +222,17 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
     });
   }, [providersLoading, providers, providerParam, profile?.paymentProvider]);
 
+  const { paymentMethods: savedPaymentMethods, defaultPaymentMethod } = useSavedPaymentMethods({
+    enabled: isAuthenticated,
+  });
+
+  // The default saved method is preselected unless a gateway was requested explicitly
+  useEffect(() => {
+    if (defaultPaymentMethod && !providerParam) {
+      setSavedMethodId(defaultPaymentMethod.id);
+    }
+  }, [defaultPaymentMethod, providerParam]);
+
   useEffect(() => {
     if (!selectedProvider || typeof window === 'undefined') {
       return;
@@ -294,7 +318,68 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
   const productDiscount = getProductDiscount();
   const rewardDiscount = getRewardDiscount();
   const totalDiscount = getDiscount();
-  const total = getTotal();
+  const shippingItems = useMemo(
+    () =>
+      items.map((item) => ({
+        productId: item.product.id,
+        variantId: item.variant?.id ?? null,
+        quantity: item.quantity,
+        priceCents: Math.round(
+          getDiscountedUnitPrice(item.product).finalUnitPrice * PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS,
+        ),
+      })),
+    [items],
+  );
+  const shippingCountry = userCountryCode || formValues.country.trim();
+  const shippingState = formValues.state.trim();
+  const checkoutStore = referralCode && affiliateId ? 'affiliate_store' : 'main_store';
+  const {
+    quote: shippingQuote,
+    selectedOption: shippingOption,
+    selectOption: selectShippingOption,
+    shippingCents,
+    isLoading: shippingLoading,
+    error: shippingError,
+    blocksCheckout: shippingBlocksCheckout,
+  } = useShippingQuote({
+    country: shippingCountry,
+    state: shippingState,
+    store: checkoutStore,
+    items: shippingItems,
+  });
+  const {
+    quote: taxQuote,
+    taxCents,
+    chargedTaxCents,
+    error: taxError,
+    blocksCheckout: taxBlocksCheckout,
+  } = useTaxQuote({
+    country: shippingCountry,
+    region: shippingState,
+    items: shippingItems,
+  });
+  const rewardDiscountCents = Math.round(rewardDiscount * PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS);
+  const {
+    quote: promotionQuote,
+    discountCents: promotionDiscountCents,
+    appliedCouponCode,
+    isLoading: promotionLoading,
+    error: promotionError,
+    blocksCheckout: promotionBlocksCheckout,
+  } = usePromotionQuote({
+    couponCode,
+    store: checkoutStore,
+    items: shippingItems,
+    shippingCents,
+    phaseRewardCents: rewardDiscountCents,
+  });
+  const shippingAmount = shippingCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS;
+  const taxAmount = taxCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS;
+  const promotionDiscount = promotionDiscountCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS;
+  const totalSavings = totalDiscount + promotionDiscount;
+  // Taxes included in the prices are already part of the cart total
+  const total =
+    getTotal() + shippingAmount + chargedTaxCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS - promotionDiscount;
   const subtotalAfterProductDiscount = Math.max(0, subtotal - productDiscount);
   const groupGainAmount =
     phaseGroupGain && phaseGroupGain.gainRate > 0 ? subtotalAfterProductDiscount * phaseGroupGain.gainRate : 0;
@@ -323,6 +408,7 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
     : null;
   const walletBalanceCents = walletMetadata?.walletBalanceCents;
   const walletInsufficient =
+    !savedMethodId &&
     selectedProvider === 'wallet' &&
     typeof walletBalanceCents === 'number' &&
     hasPositiveTotal &&
@@ -369,7 +455,7 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
       return;
     }
 
-    if (!selectedProvider) {
+    if (!selectedProvider && !savedMethodId) {
       setSubmissionError(dict.checkout.selectPaymentMethod);
       return;
     }
@@ -438,6 +524,7 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
           productName: item.product.name,
           quantity: item.quantity,
           priceCents: Math.round(pricing.finalUnitPrice * PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS),
+          ...(item.variant ? { variantId: item.variant.id, variantLabel: item.variantLabel ?? null } : {}),
         };
       });
 
@@ -449,9 +536,7 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
       }
       if (phaseReward && rewardDiscount > 0) {
         metadata.phaseRewardType = phaseReward.type;
-        metadata.phaseRewardDiscountCents = Math.round(
-          rewardDiscount * PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS,
-        );
+        metadata.phaseRewardDiscountCents = rewardDiscountCents;
       }
       // ✅ SECURITY FIX: Validate affiliate referral tracking before including
       if (referralCode && affiliateId) {
@@ -480,6 +565,29 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
       if (cartItems.length > 0) {
         metadata.cartItems = cartItems;
       }
+      // The server quotes the chosen rate again and rejects the payment if the amount differs
+      if (shippingOption) {
+        metadata.shippingRateId = shippingOption.rateId;
+        metadata.shippingCarrierId = shippingOption.carrierId;
+        metadata.shippingCents = shippingOption.amountCents;
+        metadata.shippingCountry = shippingCountry.toUpperCase();
+        metadata.shippingState = shippingState || null;
+      }
+      // Verified the same way: the tax of the destination, and whether the prices include it
+      if (taxQuote?.configured) {
+        metadata.taxCents = taxCents;
+        metadata.taxCountry = shippingCountry.toUpperCase();
+        metadata.taxRegion = shippingState || null;
+        metadata.pricesIncludeTax = taxQuote.pricesIncludeTax;
+      }
+      // And the promotions: the server evaluates the cart again and rejects a different discount
+      if (promotionDiscountCents > 0 && promotionQuote) {
+        metadata.promotionDiscountCents = promotionDiscountCents;
+        metadata.promotionIds = promotionQuote.applied.map((promotion) => promotion.promotionId).join(',');
+        if (appliedCouponCode) {
+          metadata.couponCode = appliedCouponCode;
+        }
+      }
 
       if (!hasPositiveTotal) {
         await applyPhaseReward();
@@ -522,6 +630,46 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
 
       const { token: csrfToken } = await csrfResponse.json();
 
+      if (savedMethodId) {
+        const oneClickResponse = await fetch('/api/payments/one-click', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-CSRF-Token': csrfToken,
+          },
+          credentials: 'include',
+          body: JSON.stringify({
+            paymentMethodId: savedMethodId,
+            amount: total,
+            currency: PAYMENT_CONSTANTS.CURRENCIES.DEFAULT,
+            description: dict.checkout.paymentDescription,
+            cartItems,
+            metadata,
+          }),
+        });
+        const oneClickResult = await oneClickResponse.json();
+
+        if (!oneClickResponse.ok) {
+          setSubmissionError(oneClickResult.error || dict.checkout.oneClickPaymentError);
+          return;
+        }
+
+        if (oneClickResult.status === 'verification_required') {
+          setSubmissionError(oneClickResult.message || dict.checkout.walletVerificationRequired);
+          return;
+        }
+
+        await applyPhaseReward();
+        clearCart();
+        router.push(`/${lang}/orders?order_id=${oneClickResult.orderId}&status=success`);
+        return;
+      }
+
+      if (!selectedProvider) {
+        setSubmissionError(dict.checkout.selectPaymentMethod);
+        return;
+      }
+
       const paymentResponse = await PaymentService.createPayment(
         selectedProvider,
         {
@@ -589,7 +737,7 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
       const message = error instanceof Error ? error.message : '';
       const normalized = message.toLowerCase();
 
-      if (selectedProvider === 'wallet') {
+      if (!savedMethodId && selectedProvider === 'wallet') {
         if (!message || normalized.includes('insufficient')) {
           setSubmissionError(dict.checkout.walletInsufficient);
           return;
@@ -624,10 +772,13 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
     providersLoading ||
     isProcessingPayment ||
     profileSaving ||
-    !selectedProvider ||
+    (!selectedProvider && !savedMethodId) ||
     !hasCartItems ||
     !hasProviders ||
-    (selectedProvider === 'wallet' && walletInsufficient);
+    shippingBlocksCheckout ||
+    taxBlocksCheckout ||
+    promotionBlocksCheckout ||
+    walletInsufficient;
 
   return (
     <AuthGuard lang={lang}>
@@ -843,6 +994,17 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
                 </div>
               </section>
 
+              <CheckoutShippingOptions
+                copy={dict.checkout}
+                quote={shippingQuote}
+                selectedRateId={shippingOption?.rateId ?? null}
+                isLoading={shippingLoading}
+                error={shippingError}
+                disabled={isProcessingPayment || profileSaving}
+                formatCents={(cents) => formatCurrency(cents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS)}
+                onSelect={selectShippingOption}
+              />
+
               <section>
                 <h2 className="text-xl font-bold mb-4">{dict.checkout.paymentMethod}</h2>
                 {providersLoading ? (
@@ -853,10 +1015,22 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
                   </div>
                 ) : hasProviders ? (
                   <RadioGroup
-                    value={selectedProvider || ''}
-                    onValueChange={(value) => setSelectedProvider(toPaymentProvider(value))}
+                    value={savedMethodId ? `${SAVED_PAYMENT_METHOD_PREFIX}${savedMethodId}` : selectedProvider || ''}
+                    onValueChange={(value) => {
+                      if (value.startsWith(SAVED_PAYMENT_METHOD_PREFIX)) {
+                        setSavedMethodId(value.slice(SAVED_PAYMENT_METHOD_PREFIX.length));
+                        return;
+                      }
+                      setSavedMethodId(null);
+                      setSelectedProvider(toPaymentProvider(value));
+                    }}
                     className="space-y-4"
                   >
+                    <CheckoutSavedPaymentMethods
+                      copy={dict.checkout}
+                      paymentMethods={savedPaymentMethods}
+                      disabled={isProcessingPayment || profileSaving}
+                    />
                     {providers.map((provider) => {
                       const walletMeta = getWalletMetadata(provider);
                       const walletBalanceDisplay = walletMeta
@@ -970,9 +1144,10 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
                         const originalLineTotal = pricing.unitPrice * item.quantity;
 
                         return (
-                          <div key={item.product.id} className="flex items-start justify-between text-sm">
+                          <div key={getCartItemKey(item)} className="flex items-start justify-between text-sm">
                             <div className="text-muted-foreground">
                               <span>{item.product.name}</span>
+                              {item.variantLabel ? <span className="ml-1">({item.variantLabel})</span> : null}
                               {item.quantity > 1 && (
                                 <span className="ml-2 text-xs font-medium text-muted-foreground">
                                   ×{item.quantity}
@@ -1050,22 +1225,61 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
                       </div>
                     )}
 
+                    {shippingOption && (
+                      <div className="flex justify-between text-base font-medium">
+                        <span className="text-muted-foreground">{dict.checkout.shipping}</span>
+                        <span>{shippingOption.isFree ? dict.checkout.shippingFree : formatCurrency(shippingAmount)}</span>
+                      </div>
+                    )}
+
+                    {taxCents > 0 && (
+                      <div className="flex justify-between text-base font-medium">
+                        <span className="text-muted-foreground">
+                          {taxQuote?.pricesIncludeTax ? dict.checkout.taxesIncluded : dict.checkout.taxes}
+                        </span>
+                        <span>{formatCurrency(taxAmount)}</span>
+                      </div>
+                    )}
+
+                    {taxError && <p className="text-sm text-destructive">{dict.checkout.taxQuoteError}</p>}
+
+                    {promotionQuote?.applied.map((promotion) => (
+                      <div
+                        key={promotion.promotionId}
+                        className="flex justify-between text-base font-medium text-emerald-600 dark:text-emerald-400"
+                      >
+                        <span>{promotion.code ? `${dict.checkout.promotion} (${promotion.code})` : promotion.name}</span>
+                        <span>-{formatCurrency(promotion.discountCents / PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS)}</span>
+                      </div>
+                    ))}
+
+                    <CheckoutCouponField
+                      copy={dict.checkout}
+                      quote={promotionQuote}
+                      couponCode={couponCode}
+                      isLoading={promotionLoading}
+                      error={promotionError}
+                      disabled={isProcessingPayment}
+                      onApply={setCouponCode}
+                      onRemove={() => setCouponCode(null)}
+                    />
+
                     <div className="h-px bg-border" />
 
                     {/* Total */}
                     <div className="flex justify-between items-center pt-2">
                       <p className="text-lg font-bold">{dict.checkout.total}</p>
-                      <p className={`text-2xl font-bold ${totalDiscount > 0 ? 'text-primary' : ''}`}>
+                      <p className={`text-2xl font-bold ${totalSavings > 0 ? 'text-primary' : ''}`}>
                         {formatCurrency(total)}
                       </p>
                     </div>
 
-                    {totalDiscount > 0 && (
+                    {totalSavings > 0 && (
                       <div className="text-center">
                         <p className="text-sm font-medium text-emerald-600 dark:text-emerald-400">
                           {dict.checkout.totalSavings
-                            ? dict.checkout.totalSavings.replace('{{amount}}', formatCurrency(totalDiscount))
-                            : `🎉 You're saving ${formatCurrency(totalDiscount)}!`}
+                            ? dict.checkout.totalSavings.replace('{{amount}}', formatCurrency(totalSavings))
+                            : `🎉 You're saving ${formatCurrency(totalSavings)}!`}
                         </p>
                       </div>
                     )}
@@ -1085,7 +1299,7 @@ export default function CheckoutPage({ params }: { params: Promise<{ lang: Local
                   {successMessage && (
                     <p className="text-sm text-emerald-600 dark:text-emerald-400">{successMessage}</p>
                   )}
-                  {selectedProvider === 'wallet' && walletMetadata && (
+                  {!savedMethodId && selectedProvider === 'wallet' && walletMetadata && (
                     <p className="text-xs text-muted-foreground">
                       {dict.checkout.walletBalanceLabel}: {walletBalanceLabel}
                     </p>
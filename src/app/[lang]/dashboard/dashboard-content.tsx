@@ -542,8 +542,8 @@ export default function DashboardContent({ lang, dict }: DashboardContentProps)
                   ? accountOverviewDict?.affiliateEarnings
                   : accountOverviewDict?.title}
             </h2>
-            {/* Grid: 3 columns for MLM (with phase commission), 2 columns for Affiliate/No subscription */}
-            <div className={`mt-6 grid grid-cols-1 gap-4 ${isMlmSubscription ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+            {/* Grid: 4 columns for MLM (with phase commission and volume), 2 columns for Affiliate/No subscription */}
+            <div className={`mt-6 grid grid-cols-1 gap-4 ${isMlmSubscription ? 'md:grid-cols-2 xl:grid-cols-4' : 'md:grid-cols-2'}`}>
               <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 dark:border-white/10 dark:bg-white/5">
                 <p className="text-sm font-medium text-slate-500 dark:text-slate-300">
                   {accountOverviewDict?.currentBalance}
@@ -566,6 +566,26 @@ export default function DashboardContent({ lang, dict }: DashboardContentProps)
                   </p>
                 </div>
               )}
+              {/* Personal and group volume - Only for MLM subscriptions */}
+              {isMlmSubscription && (
+                <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 dark:border-white/10 dark:bg-white/5">
+                  <p className="text-sm font-medium text-slate-500 dark:text-slate-300">
+                    {accountOverviewDict?.volume ?? 'Volume this month'}
+                  </p>
+                  <p className="mt-2 text-2xl font-bold text-slate-900 dark:text-white">
+                    {numberFormatter.format(summary?.volume?.current.personalVolume ?? 0)}{' '}
+                    <span className="text-sm font-medium text-slate-500 dark:text-slate-400">{accountOverviewDict?.personalVolume ?? 'PV'}</span>
+                    {' · '}
+                    {numberFormatter.format(summary?.volume?.current.groupVolume ?? 0)}{' '}
+                    <span className="text-sm font-medium text-slate-500 dark:text-slate-400">{accountOverviewDict?.groupVolume ?? 'GV'}</span>
+                  </p>
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                    {(accountOverviewDict?.previousVolume ?? 'Last month: {{personal}} PV · {{group}} GV')
+                      .replace('{{personal}}', numberFormatter.format(summary?.volume?.previous.personalVolume ?? 0))
+                      .replace('{{group}}', numberFormatter.format(summary?.volume?.previous.groupVolume ?? 0))}
+                  </p>
+                </div>
+              )}
               <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 dark:border-white/10 dark:bg-white/5">
                 <p className="text-sm font-medium text-slate-500 dark:text-slate-300">
                   {hasActiveSubscription 
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,6 +9,9 @@ import { supabase } from '@/lib/supabase';
 import { useSupabaseUser } from '@/modules/auth/hooks/use-supabase-user';
 import AuthGuard from '@/components/auth-guard';
 import type { Locale } from '@/i18n/config';
+import { getDictionary } from '@/i18n/dictionaries';
+import { useSiteBranding } from '@/contexts/site-branding-context';
+import { MemberOrderReturns } from '@/modules/orders/returns/views/member-order-returns';
 
 interface OrdersPageProps {
   params: Promise<{ lang: Locale }>;
@@ -30,6 +33,7 @@ interface Order {
   status: string;
   total_cents: number;
   tax_cents: number;
+  prices_include_tax: boolean | null;
   shipping_cents: number;
   discount_cents: number;
   currency: string;
@@ -45,6 +49,8 @@ export default function OrdersPage({ params, searchParams }: OrdersPageProps) {
   const [loading, setLoading] = useState(true);
   const router = useRouter();
   const { user } = useSupabaseUser();
+  const { branding } = useSiteBranding();
+  const dictionary = useMemo(() => getDictionary(lang, branding.appName), [lang, branding.appName]);
 
   useEffect(() => {
     Promise.all([params, searchParams]).then(([p, sp]) => {
@@ -65,6 +71,7 @@ export default function OrdersPage({ params, searchParams }: OrdersPageProps) {
             status,
             total_cents,
             tax_cents,
+            prices_include_tax,
             shipping_cents,
             discount_cents,
             currency,
@@ -255,13 +262,25 @@ export default function OrdersPage({ params, searchParams }: OrdersPageProps) {
               </div>
             </div>
 
+            {/* Returns */}
+            <MemberOrderReturns
+              order={{
+                id: order.id,
+                status: order.status,
+                currency: order.currency,
+                items: order.items.map((item) => ({ id: item.id, qty: item.qty, name: item.product?.name || 'Product' })),
+              }}
+              copy={dictionary.profile.orderReturns}
+              lang={lang}
+            />
+
             {/* Order Summary */}
             <div className="border-t pt-6">
               <h3 className="font-semibold mb-4">Summary</h3>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Subtotal:</span>
-                  <span>{formatCurrency(order.total_cents - order.tax_cents - order.shipping_cents + order.discount_cents, order.currency)}</span>
+                  <span>{formatCurrency(order.total_cents - (order.prices_include_tax ? 0 : order.tax_cents) - order.shipping_cents + order.discount_cents, order.currency)}</span>
                 </div>
                 {order.discount_cents > 0 && (
                   <div className="flex justify-between text-green-600 dark:text-green-400">
@@ -277,7 +296,7 @@ export default function OrdersPage({ params, searchParams }: OrdersPageProps) {
                 )}
                 {order.tax_cents > 0 && (
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Tax:</span>
+                    <span className="text-muted-foreground">{order.prices_include_tax ? 'Tax included:' : 'Tax:'}</span>
                     <span>{formatCurrency(order.tax_cents, order.currency)}</span>
                   </div>
                 )}
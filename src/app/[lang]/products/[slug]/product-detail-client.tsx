@@ -33,6 +33,14 @@ import type { ProductReviewDisplay } from '@/modules/products/types/product-revi
 import { ProductImageGallery } from './product-image-gallery';
 import { computeRelativeTimeAgo, normalizeMemberReviewResponse } from '@/modules/products/utils/review-utils';
 import { getDiscountedUnitPrice } from '@/modules/products/utils/product-pricing';
+import {
+  applyProductVariant,
+  findVariantByOptions,
+  getActiveVariants,
+  hasVariants,
+  type ProductVariantOptions,
+} from '@/modules/products/utils/product-variants';
+import { ProductVariantSelector } from '@/modules/products/ui/product-variant-selector';
 import { PersonalizedRecommendations } from '@/components/products/personalized-recommendations';
 
 interface ProductDetailCopy {
@@ -250,6 +258,17 @@ export function ProductDetailClient({ product, relatedProducts, lang }: ProductD
   const resolveCurrency = useCurrencyForCountry();
   const [isAdding, setIsAdding] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  const productHasVariants = useMemo(() => hasVariants(product), [product]);
+  const [selectedOptions, setSelectedOptions] = useState<ProductVariantOptions>(() => {
+    const variants = getActiveVariants(product);
+    return { ...(variants.find((variant) => variant.stock_quantity > 0) ?? variants[0])?.options };
+  });
+  const selectedVariant = useMemo(
+    () => (productHasVariants ? findVariantByOptions(product, selectedOptions) : null),
+    [product, productHasVariants, selectedOptions],
+  );
+  // Price, stock and images of the selected variant; the rest of the page is shared
+  const displayProduct = useMemo(() => applyProductVariant(product, selectedVariant), [product, selectedVariant]);
 
   const numberFormatter = useMemo(
     () => new Intl.NumberFormat(lang === 'es' ? 'es-MX' : 'en-US'),
@@ -258,7 +277,7 @@ export function ProductDetailClient({ product, relatedProducts, lang }: ProductD
 
   const copy = useMemo(() => resolveProductCopy(dict, product, lang), [dict, lang, product]);
 
-  const pricing = useMemo(() => getDiscountedUnitPrice(product), [product]);
+  const pricing = useMemo(() => getDiscountedUnitPrice(displayProduct), [displayProduct]);
   const hasDiscount = pricing.discountAmount > 0;
   const currencyCode = useMemo(() => resolveCurrency(userCountry), [resolveCurrency, userCountry]);
   const priceFormatter = useMemo(() => {
@@ -325,7 +344,7 @@ export function ProductDetailClient({ product, relatedProducts, lang }: ProductD
   const unavailableLabel =
     dict.products.unavailableInCountry ?? 'This product is not available in your country yet.';
   const canAddToCart =
-    isAuthenticated && !isLoading && !isCountryLoading && isCountryAllowed;
+    isAuthenticated && !isLoading && !isCountryLoading && isCountryAllowed && (!productHasVariants || Boolean(selectedVariant));
 
   // Filter related products by country availability
   const filteredRelatedProducts = useMemo(() => {
@@ -579,7 +598,7 @@ export function ProductDetailClient({ product, relatedProducts, lang }: ProductD
 
   const showReviewSkeleton = isLoadingMemberReviews && combinedReviews.length === 0;
 
-  const stockQuantity = product.stock_quantity ?? 0;
+  const stockQuantity = displayProduct.stock_quantity ?? 0;
   const stockLabel = useMemo(() => {
     if (stockQuantity <= 0) {
       return undefined;
@@ -599,8 +618,12 @@ export function ProductDetailClient({ product, relatedProducts, lang }: ProductD
       return;
     }
 
+    if (productHasVariants && !selectedVariant) {
+      return;
+    }
+
     setIsAdding(true);
-    addItem(product);
+    addItem(product, selectedVariant);
     const template = dict.products.addedToCartDescription ?? '';
     const description = template
       ? template.includes('{{product}}')
@@ -626,7 +649,9 @@ export function ProductDetailClient({ product, relatedProducts, lang }: ProductD
     isCountryAllowed,
     lang,
     product,
+    productHasVariants,
     router,
+    selectedVariant,
     toast,
   ]);
 
@@ -691,7 +716,7 @@ export function ProductDetailClient({ product, relatedProducts, lang }: ProductD
       className="container mx-auto max-w-6xl px-4 pb-[max(6rem,env(safe-area-inset-bottom))] pt-[max(3rem,env(safe-area-inset-top))]"
     >
       <div className="grid gap-10 lg:grid-cols-[minmax(0,1.05fr)_minmax(0,0.95fr)] lg:gap-16">
-        <ProductImageGallery images={product.images} productName={product.name} />
+        <ProductImageGallery images={displayProduct.images} productName={product.name} />
 
         <div className="flex flex-col justify-center gap-6">
           <div className="flex flex-col gap-3">
@@ -727,6 +752,19 @@ export function ProductDetailClient({ product, relatedProducts, lang }: ProductD
                   <p className="mt-1 text-sm font-medium text-emerald-600 dark:text-emerald-300">{stockLabel}</p>
                 ) : null}
               </div>
+              {productHasVariants ? (
+                <ProductVariantSelector
+                  product={product}
+                  selected={selectedOptions}
+                  onChange={setSelectedOptions}
+                  outOfStockLabel={dict.productDetails?.variantOutOfStockLabel}
+                />
+              ) : null}
+              {productHasVariants && !selectedVariant ? (
+                <p className="text-sm text-muted-foreground dark:text-emerald-100/70">
+                  {dict.productDetails?.selectVariantLabel ?? 'Choose an option to add it to your cart'}
+                </p>
+              ) : null}
               <div className="flex flex-wrap gap-3">
                 {canAddToCart ? (
                   <Button
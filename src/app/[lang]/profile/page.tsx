@@ -1773,7 +1773,18 @@ export default function ProfilePage({ params }: ProfilePageProps) {
                                       <span className="font-medium text-zinc-700 dark:text-zinc-200">
                                         {dict.profile.orderHistory.tracking.code}:
                                       </span>{' '}
-                                      {order.tracking.tracking_code}
+                                      {order.tracking.tracking_url ? (
+                                        <a
+                                          href={order.tracking.tracking_url}
+                                          target="_blank"
+                                          rel="noopener noreferrer"
+                                          className="font-medium text-primary hover:underline"
+                                        >
+                                          {order.tracking.tracking_code}
+                                        </a>
+                                      ) : (
+                                        order.tracking.tracking_code
+                                      )}
                                     </p>
                                   )}
                                   {order.tracking.location && (
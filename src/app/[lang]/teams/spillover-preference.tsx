@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchWithCsrf } from '@/lib/utils/admin-csrf-helpers';
+import type { SpilloverStrategy } from '@/modules/app-settings/domain/models/app-settings';
+
+interface SpilloverPreference {
+  strategy: SpilloverStrategy;
+  legId: string | null;
+  legs: Array<{ id: string; name: string | null }>;
+}
+
+interface SpilloverPreferenceCopy {
+  title: string;
+  description: string;
+  legLabel: string;
+  automatic: string;
+  save: string;
+  saving: string;
+  saved: string;
+  error: string;
+  noLegs: string;
+}
+
+const AUTOMATIC = '';
+
+/**
+ * Lets a sponsor pick the leg that receives their spillover. Only shown when admins configured
+ * the `sponsor_choice` spillover strategy.
+ */
+export function SpilloverPreferenceCard({ copy }: { copy: SpilloverPreferenceCopy }) {
+  const [preference, setPreference] = useState<SpilloverPreference | null>(null);
+  const [selectedLeg, setSelectedLeg] = useState(AUTOMATIC);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const loadPreference = async () => {
+      try {
+        const response = await fetch('/api/tree/spillover', { cache: 'no-store' });
+        if (!response.ok) {
+          return;
+        }
+        const data: { preference: SpilloverPreference } = await response.json();
+        setPreference(data.preference);
+        setSelectedLeg(data.preference.legId ?? AUTOMATIC);
+      } catch (err) {
+        console.error('Error loading spillover preference:', err);
+      }
+    };
+
+    void loadPreference();
+  }, []);
+
+  if (!preference || preference.strategy !== 'sponsor_choice') {
+    return null;
+  }
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetchWithCsrf('/api/tree/spillover', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ legId: selectedLeg || null }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to save spillover leg');
+      }
+
+      const data: { preference: SpilloverPreference } = await response.json();
+      setPreference(data.preference);
+      setMessage({ tone: 'success', text: copy.saved });
+    } catch (err) {
+      console.error('Error saving spillover leg:', err);
+      setMessage({ tone: 'error', text: copy.error });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="relative overflow-hidden rounded-3xl border border-slate-200/60 bg-gradient-to-br from-white to-slate-50/50 p-8 shadow-lg dark:border-white/10 dark:from-white/5 dark:to-slate-900/20">
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 to-purple-500/5 opacity-50" />
+      <div className="relative space-y-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">{copy.title}</h2>
+          <p className="text-base text-slate-600 dark:text-slate-300 leading-relaxed">{copy.description}</p>
+        </div>
+
+        {preference.legs.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">{copy.noLegs}</p>
+        ) : (
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <label className="flex-1 space-y-2 text-sm font-medium text-slate-700 dark:text-slate-200">
+              <span>{copy.legLabel}</span>
+              <select
+                className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm dark:border-white/10 dark:bg-slate-900"
+                value={selectedLeg}
+                onChange={(event) => setSelectedLeg(event.target.value)}
+              >
+                <option value={AUTOMATIC}>{copy.automatic}</option>
+                {preference.legs.map((leg) => (
+                  <option key={leg.id} value={leg.id}>
+                    {leg.name?.trim() || leg.id}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || selectedLeg === (preference.legId ?? AUTOMATIC)}
+              className="rounded-xl bg-emerald-600 px-5 py-2 text-sm font-semibold text-white shadow transition hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {saving ? copy.saving : copy.save}
+            </button>
+          </div>
+        )}
+
+        {message && (
+          <p className={message.tone === 'success' ? 'text-sm text-emerald-600 dark:text-emerald-400' : 'text-sm text-rose-600 dark:text-rose-300'}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -8,6 +8,7 @@ import { getPlans } from '@/lib/services/plan-service';
 import { AppSettingsSchema, type AppSettings } from '@/modules/app-settings/domain/models/app-settings';
 import { TeamMessageComposer } from '@/modules/team-messaging/ui/team-message-composer';
 import type { TeamMessageComposerCopy } from '@/modules/team-messaging/ui/team-message-composer';
+import { SpilloverPreferenceCard } from './spillover-preference';
 
 interface TeamsContentProps {
   lang: Locale;
@@ -625,6 +626,8 @@ export default function TeamsContent({ lang, dict }: TeamsContentProps) {
             </div>
           )}
 
+          {!loading && teamsDict.spillover && <SpilloverPreferenceCard copy={teamsDict.spillover} />}
+
           {planPhases.length > 0 && (
             <section className="relative overflow-hidden rounded-3xl border border-slate-200/60 bg-gradient-to-br from-white to-slate-50/50 p-8 shadow-lg dark:border-white/10 dark:from-white/5 dark:to-slate-900/20">
               <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 to-purple-500/5 opacity-0 transition-opacity duration-300 hover:opacity-100" />
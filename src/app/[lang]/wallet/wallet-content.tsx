@@ -605,10 +605,14 @@ export default function WalletContent({ lang, dict }: WalletContentProps) {
                 <tbody className="divide-y divide-slate-200 dark:divide-white/10">
                   {(() => {
                     // Filtrar SOLO:
-                    // 1. Transferencias desde ganancias al wallet (sale_commission)
+                    // 1. Transferencias desde ganancias al wallet (earnings_transfer, o sale_commission
+                    //    con meta.source = 'network_earnings' en las anteriores)
                     // 2. Retiros a cuentas externas (withdrawal o payout)
+                    const isEarningsTransfer = (txn: WalletResponse['transactions'][number]) =>
+                      txn.reason === 'earnings_transfer' ||
+                      (txn.reason === 'sale_commission' && txn.meta?.source === 'network_earnings');
                     const relevantTransactions = (wallet?.transactions ?? []).filter((txn) => {
-                      return txn.reason === 'sale_commission' ||
+                      return isEarningsTransfer(txn) ||
                         txn.reason === 'withdrawal' ||
                         txn.reason === 'payout';
                     });
@@ -627,7 +631,7 @@ export default function WalletContent({ lang, dict }: WalletContentProps) {
                       // Determinar el tipo y método
                       let methodDisplay = 'N/A';
 
-                      if (txn.reason === 'sale_commission') {
+                      if (isEarningsTransfer(txn)) {
                         methodDisplay = 'Transferencia desde Ganancias';
                       } else if (txn.reason === 'withdrawal' || txn.reason === 'payout') {
                         const paymentMethod = txn.meta?.gateway || txn.meta?.provider || txn.meta?.method;
@@ -141,6 +141,15 @@ export function AffiliateSettingsForm({ copy }: AffiliateSettingsFormProps) {
                 storeOwnerDiscountValue: finalDiscountValue,
                 directSponsorCommissionRate: settings.directSponsorCommissionRate,
                 networkCommissionRate: settings.networkCommissionRate,
+                networkCommissionDepth: settings.networkCommissionDepth,
+                dunningRetryDays: settings.dunningRetryDays,
+                dunningGraceDays: settings.dunningGraceDays,
+                subscriptionPauseMaxDays: settings.subscriptionPauseMaxDays,
+                subscriptionPausesPerYear: settings.subscriptionPausesPerYear,
+                pausedMembersCountTowardCapacity: settings.pausedMembersCountTowardCapacity,
+                pausedMembersCountTowardPhase: settings.pausedMembersCountTowardPhase,
+                payoutHoldDays: settings.payoutHoldDays,
+                spilloverStrategy: settings.spilloverStrategy,
                 rewardCreditLabelEn: settings.rewardCreditLabelEn,
                 rewardCreditLabelEs: settings.rewardCreditLabelEs,
                 freeProductLabelEn: settings.freeProductLabelEn,
@@ -14,6 +14,7 @@ import { useToast } from '@/hooks/use-toast';
 import {
   DEFAULT_APP_SETTINGS,
   type AppSettings,
+  type SpilloverStrategy,
   type AppSettingsUpdateInput,
 } from '@/modules/app-settings/domain/models/app-settings';
 import type { PhaseLevel } from '@/modules/phase-levels/domain/models/phase-level';
@@ -77,6 +78,8 @@ interface EditablePhaseLevel {
   subscriptionDiscountRate: string;
   creditCents: string;
   freeProductValueCents: string;
+  minPersonalVolume: string;
+  minGroupVolume: string;
   displayOrder: number;
 }
 
@@ -114,6 +117,21 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
   const [teamLevelsVisible, setTeamLevelsVisible] = useState(
     DEFAULT_APP_SETTINGS.teamLevelsVisible.toString(),
   );
+  const [networkCommissionDepth, setNetworkCommissionDepth] = useState(
+    DEFAULT_APP_SETTINGS.networkCommissionDepth.toString(),
+  );
+  const [dunningRetryDays, setDunningRetryDays] = useState(DEFAULT_APP_SETTINGS.dunningRetryDays.join(', '));
+  const [dunningGraceDays, setDunningGraceDays] = useState(DEFAULT_APP_SETTINGS.dunningGraceDays.toString());
+  const [pauseMaxDays, setPauseMaxDays] = useState(DEFAULT_APP_SETTINGS.subscriptionPauseMaxDays.toString());
+  const [pausesPerYear, setPausesPerYear] = useState(DEFAULT_APP_SETTINGS.subscriptionPausesPerYear.toString());
+  const [pausedCountTowardCapacity, setPausedCountTowardCapacity] = useState(
+    DEFAULT_APP_SETTINGS.pausedMembersCountTowardCapacity,
+  );
+  const [pausedCountTowardPhase, setPausedCountTowardPhase] = useState(
+    DEFAULT_APP_SETTINGS.pausedMembersCountTowardPhase,
+  );
+  const [payoutHoldDays, setPayoutHoldDays] = useState(DEFAULT_APP_SETTINGS.payoutHoldDays.toString());
+  const [spilloverStrategy, setSpilloverStrategy] = useState<SpilloverStrategy>(DEFAULT_APP_SETTINGS.spilloverStrategy);
 
   const normalizedLocale = locale ?? 'en';
 
@@ -179,6 +197,16 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
     [copy.frequency?.biweekly, copy.frequency?.monthly, copy.frequency?.weekly],
   );
 
+  const spilloverOptions = useMemo(
+    () => [
+      { value: 'disabled', label: copy.spillover?.disabled ?? 'Disabled: reject new members' },
+      { value: 'breadth_first', label: copy.spillover?.breadthFirst ?? 'First open seat in the downline' },
+      { value: 'weakest_leg', label: copy.spillover?.weakestLeg ?? 'Weakest leg' },
+      { value: 'sponsor_choice', label: copy.spillover?.sponsorChoice ?? "Sponsor's chosen leg" },
+    ],
+    [copy.spillover?.breadthFirst, copy.spillover?.disabled, copy.spillover?.sponsorChoice, copy.spillover?.weakestLeg],
+  );
+
   useEffect(() => {
     const loadSettings = async () => {
       setLoading(true);
@@ -210,6 +238,8 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
             subscriptionDiscountRate: formatPercentage(phase.subscriptionDiscountRate ?? 0),
             creditCents: centsToCurrency(phase.creditCents),
             freeProductValueCents: centsToCurrency(phase.freeProductValueCents ?? (phase.level === 1 ? 6500 : 0)),
+            minPersonalVolume: String(phase.minPersonalVolume ?? 0),
+            minGroupVolume: String(phase.minGroupVolume ?? 0),
             displayOrder: phase.displayOrder,
           })),
         );
@@ -231,6 +261,15 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
         );
         setAutoAdvanceEnabled(normalized.autoAdvanceEnabled);
         setTeamLevelsVisible(normalized.teamLevelsVisible.toString());
+        setNetworkCommissionDepth(normalized.networkCommissionDepth.toString());
+        setDunningRetryDays(normalized.dunningRetryDays.join(', '));
+        setDunningGraceDays(normalized.dunningGraceDays.toString());
+        setPauseMaxDays(normalized.subscriptionPauseMaxDays.toString());
+        setPausesPerYear(normalized.subscriptionPausesPerYear.toString());
+        setPausedCountTowardCapacity(normalized.pausedMembersCountTowardCapacity);
+        setPausedCountTowardPhase(normalized.pausedMembersCountTowardPhase);
+        setPayoutHoldDays(normalized.payoutHoldDays.toString());
+        setSpilloverStrategy(normalized.spilloverStrategy);
       } catch (error) {
         console.error('[AdminAppSettings] Failed to load settings', error);
         toast({
@@ -346,6 +385,8 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
         subscriptionDiscountRate: '0.00',
         creditCents: '0.00',
         freeProductValueCents: '0.00',
+        minPersonalVolume: '0',
+        minGroupVolume: '0',
         displayOrder: nextDisplayOrder,
       } as EditablePhaseLevel & { displayOrder: number },
     ]);
@@ -376,6 +417,15 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
     );
     setAutoAdvanceEnabled(normalized.autoAdvanceEnabled);
     setTeamLevelsVisible(normalized.teamLevelsVisible.toString());
+    setNetworkCommissionDepth(normalized.networkCommissionDepth.toString());
+    setDunningRetryDays(normalized.dunningRetryDays.join(', '));
+    setDunningGraceDays(normalized.dunningGraceDays.toString());
+    setPauseMaxDays(normalized.subscriptionPauseMaxDays.toString());
+    setPausesPerYear(normalized.subscriptionPausesPerYear.toString());
+    setPausedCountTowardCapacity(normalized.pausedMembersCountTowardCapacity);
+    setPausedCountTowardPhase(normalized.pausedMembersCountTowardPhase);
+    setPayoutHoldDays(normalized.payoutHoldDays.toString());
+    setSpilloverStrategy(normalized.spilloverStrategy);
   };
 
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
@@ -420,6 +470,12 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
 
         const creditCents = currencyToCents(phase.creditCents);
         const freeProductValueCents = currencyToCents(phase.freeProductValueCents);
+        const minPersonalVolume = Number.parseFloat(phase.minPersonalVolume.replace(',', '.'));
+        const minGroupVolume = Number.parseFloat(phase.minGroupVolume.replace(',', '.'));
+        if (!Number.isFinite(minPersonalVolume) || minPersonalVolume < 0 || !Number.isFinite(minGroupVolume) || minGroupVolume < 0) {
+          const template = copy.errors?.invalidVolume ?? 'Volume thresholds of {{phase}} must be numbers of 0 or more.';
+          throw new Error(template.replace('{{phase}}', phase.name));
+        }
 
         // If phase has no ID or the ID is not in the database, it's a new phase level
         if (!phase.id || !currentPhaseIds.has(phase.id)) {
@@ -432,6 +488,8 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
             subscriptionDiscountRate,
             creditCents,
             freeProductValueCents,
+            minPersonalVolume,
+            minGroupVolume,
             isActive: true,
             displayOrder: phase.displayOrder,
           });
@@ -451,6 +509,8 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
           subscriptionDiscountRate,
           creditCents,
           freeProductValueCents,
+          minPersonalVolume,
+          minGroupVolume,
           displayOrder: phase.displayOrder,
         });
       });
@@ -479,6 +539,50 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
         throw new Error(copy.errors?.invalidTeamLevelsVisible ?? 'Team levels visible must be between 1 and 10.');
       }
 
+      const parsedNetworkCommissionDepth = Number.parseInt(networkCommissionDepth || '0', 10);
+      if (!Number.isFinite(parsedNetworkCommissionDepth) || parsedNetworkCommissionDepth < 0 || parsedNetworkCommissionDepth > 10) {
+        throw new Error(copy.errors?.invalidNetworkCommissionDepth ?? 'Network commission depth must be between 0 and 10.');
+      }
+
+      const parsedDunningRetryDays = Array.from(
+        new Set(
+          dunningRetryDays
+            .split(',')
+            .map((value) => value.trim())
+            .filter(Boolean)
+            .map((value) => Number.parseInt(value, 10)),
+        ),
+      ).sort((a, b) => a - b);
+      if (
+        parsedDunningRetryDays.length === 0 ||
+        parsedDunningRetryDays.length > 10 ||
+        parsedDunningRetryDays.some((day) => !Number.isFinite(day) || day < 1 || day > 60)
+      ) {
+        throw new Error(
+          copy.errors?.invalidDunningRetryDays ?? 'Retry days must be a comma-separated list of 1 to 10 days between 1 and 60.',
+        );
+      }
+
+      const parsedDunningGraceDays = Number.parseInt(dunningGraceDays || '0', 10);
+      if (!Number.isFinite(parsedDunningGraceDays) || parsedDunningGraceDays < 0 || parsedDunningGraceDays > 60) {
+        throw new Error(copy.errors?.invalidDunningGraceDays ?? 'Grace period must be between 0 and 60 days.');
+      }
+
+      const parsedPauseMaxDays = Number.parseInt(pauseMaxDays || '0', 10);
+      if (!Number.isFinite(parsedPauseMaxDays) || parsedPauseMaxDays < 1 || parsedPauseMaxDays > 90) {
+        throw new Error(copy.errors?.invalidPauseMaxDays ?? 'Maximum pause length must be between 1 and 90 days.');
+      }
+
+      const parsedPausesPerYear = Number.parseInt(pausesPerYear || '0', 10);
+      if (!Number.isFinite(parsedPausesPerYear) || parsedPausesPerYear < 0 || parsedPausesPerYear > 12) {
+        throw new Error(copy.errors?.invalidPausesPerYear ?? 'Pauses per year must be between 0 and 12.');
+      }
+
+      const parsedPayoutHoldDays = Number.parseInt(payoutHoldDays || '0', 10);
+      if (!Number.isFinite(parsedPayoutHoldDays) || parsedPayoutHoldDays < 0 || parsedPayoutHoldDays > 90) {
+        throw new Error(copy.errors?.invalidPayoutHoldDays ?? 'Payout hold must be between 0 and 90 days.');
+      }
+
       const sanitizedCurrenciesWithFlags = currencies
         .map((entry) => {
           const code = entry.code.trim().toUpperCase();
@@ -594,6 +698,15 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
         storeOwnerDiscountValue: settings.storeOwnerDiscountValue ?? 0,
         directSponsorCommissionRate: settings.directSponsorCommissionRate ?? 0.10,
         networkCommissionRate: settings.networkCommissionRate ?? 0.05,
+        networkCommissionDepth: parsedNetworkCommissionDepth,
+        dunningRetryDays: parsedDunningRetryDays,
+        dunningGraceDays: parsedDunningGraceDays,
+        subscriptionPauseMaxDays: parsedPauseMaxDays,
+        subscriptionPausesPerYear: parsedPausesPerYear,
+        pausedMembersCountTowardCapacity: pausedCountTowardCapacity,
+        pausedMembersCountTowardPhase: pausedCountTowardPhase,
+        payoutHoldDays: parsedPayoutHoldDays,
+        spilloverStrategy,
         affiliateCommissionRate: settings.affiliateCommissionRate ?? 0.01,
         affiliateDirectSponsorCommissionRate: settings.affiliateDirectSponsorCommissionRate ?? 0.05,
         affiliateGeneralSponsorCommissionRate: settings.affiliateGeneralSponsorCommissionRate ?? 0.02,
@@ -668,6 +781,8 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
             subscriptionDiscountRate: formatPercentage(phase.subscriptionDiscountRate ?? 0),
             creditCents: centsToCurrency(phase.creditCents),
             freeProductValueCents: centsToCurrency(phase.freeProductValueCents ?? (phase.level === 1 ? 6500 : 0)),
+            minPersonalVolume: String(phase.minPersonalVolume ?? 0),
+            minGroupVolume: String(phase.minGroupVolume ?? 0),
             displayOrder: phase.displayOrder,
           })),
         );
@@ -694,6 +809,15 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
       );
       setAutoAdvanceEnabled(normalized.autoAdvanceEnabled);
       setTeamLevelsVisible(normalized.teamLevelsVisible.toString());
+      setNetworkCommissionDepth(normalized.networkCommissionDepth.toString());
+      setDunningRetryDays(normalized.dunningRetryDays.join(', '));
+      setDunningGraceDays(normalized.dunningGraceDays.toString());
+      setPauseMaxDays(normalized.subscriptionPauseMaxDays.toString());
+      setPausesPerYear(normalized.subscriptionPausesPerYear.toString());
+      setPausedCountTowardCapacity(normalized.pausedMembersCountTowardCapacity);
+      setPausedCountTowardPhase(normalized.pausedMembersCountTowardPhase);
+      setPayoutHoldDays(normalized.payoutHoldDays.toString());
+      setSpilloverStrategy(normalized.spilloverStrategy);
 
       toast({
         title: copy.toast?.successTitle ?? 'Configuration updated',
@@ -847,6 +971,32 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
                         }
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`phase-min-pv-${index}`}>
+                        {copy.phaseLevels?.minPersonalVolumeLabel ?? 'Minimum Personal Volume (PV)'}
+                      </Label>
+                      <Input
+                        id={`phase-min-pv-${index}`}
+                        inputMode="decimal"
+                        value={phase.minPersonalVolume}
+                        onChange={(e) =>
+                          handlePhaseLevelChange(index, 'minPersonalVolume', e.target.value.replace(/[^0-9.,]/g, ''))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`phase-min-gv-${index}`}>
+                        {copy.phaseLevels?.minGroupVolumeLabel ?? 'Minimum Group Volume (GV)'}
+                      </Label>
+                      <Input
+                        id={`phase-min-gv-${index}`}
+                        inputMode="decimal"
+                        value={phase.minGroupVolume}
+                        onChange={(e) =>
+                          handlePhaseLevelChange(index, 'minGroupVolume', e.target.value.replace(/[^0-9.,]/g, ''))
+                        }
+                      />
+                    </div>
                   </div>
                   {phaseLevels.length > 1 && (
                     <div className="flex justify-end pt-2">
@@ -898,6 +1048,203 @@ export function AppSettingsForm({ copy, locale }: AppSettingsFormProps) {
 
           <Separator />
 
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">{copy.networkCommissions?.title ?? 'Network commissions'}</h2>
+              <p className="text-sm text-muted-foreground">
+                {copy.networkCommissions?.description ??
+                  'Pay unilevel commissions to the buyer\'s upline on every purchase. Each level uses the Ecommerce Earnings (%) of the phase with the same number.'}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="network-commission-depth">
+                {copy.networkCommissions?.depthLabel ?? 'Paid levels'}
+              </Label>
+              <Input
+                id="network-commission-depth"
+                inputMode="numeric"
+                value={networkCommissionDepth}
+                onChange={(event) => setNetworkCommissionDepth(event.target.value.replace(/[^0-9]/g, ''))}
+                aria-describedby="network-commission-depth-hint"
+              />
+              <p id="network-commission-depth-hint" className="text-xs text-muted-foreground">
+                {copy.networkCommissions?.depthHint ??
+                  'Number of upline levels that earn from each purchase. Use 0 to disable network commissions.'}
+              </p>
+            </div>
+          </section>
+
+          <Separator />
+
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">{copy.dunning?.title ?? 'Failed renewals'}</h2>
+              <p className="text-sm text-muted-foreground">
+                {copy.dunning?.description ??
+                  'When a renewal charge fails the subscription becomes past due and is retried on this schedule, falling back to the wallet balance. After the last retry it becomes unpaid and is canceled when the grace period ends.'}
+              </p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="dunning-retry-days">{copy.dunning?.retryDaysLabel ?? 'Retry days'}</Label>
+                <Input
+                  id="dunning-retry-days"
+                  value={dunningRetryDays}
+                  onChange={(event) => setDunningRetryDays(event.target.value.replace(/[^0-9,\s]/g, ''))}
+                  aria-describedby="dunning-retry-days-hint"
+                />
+                <p id="dunning-retry-days-hint" className="text-xs text-muted-foreground">
+                  {copy.dunning?.retryDaysHint ?? 'Days after the first failed charge, separated by commas. Example: 1, 3, 5, 7.'}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dunning-grace-days">{copy.dunning?.graceDaysLabel ?? 'Grace period (days)'}</Label>
+                <Input
+                  id="dunning-grace-days"
+                  inputMode="numeric"
+                  value={dunningGraceDays}
+                  onChange={(event) => setDunningGraceDays(event.target.value.replace(/[^0-9]/g, ''))}
+                  aria-describedby="dunning-grace-days-hint"
+                />
+                <p id="dunning-grace-days-hint" className="text-xs text-muted-foreground">
+                  {copy.dunning?.graceDaysHint ??
+                    'Days an unpaid subscription is kept after the last retry before it is canceled.'}
+                </p>
+              </div>
+            </div>
+          </section>
+
+          <Separator />
+
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">{copy.subscriptionPause?.title ?? 'Subscription pauses'}</h2>
+              <p className="text-sm text-muted-foreground">
+                {copy.subscriptionPause?.description ??
+                  'Members can pause instead of canceling. The billing period is extended by the paused days and renewals are skipped until the pause ends.'}
+              </p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="pause-max-days">{copy.subscriptionPause?.maxDaysLabel ?? 'Maximum pause (days)'}</Label>
+                <Input
+                  id="pause-max-days"
+                  inputMode="numeric"
+                  value={pauseMaxDays}
+                  onChange={(event) => setPauseMaxDays(event.target.value.replace(/[^0-9]/g, ''))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pauses-per-year">{copy.subscriptionPause?.perYearLabel ?? 'Pauses per year'}</Label>
+                <Input
+                  id="pauses-per-year"
+                  inputMode="numeric"
+                  value={pausesPerYear}
+                  onChange={(event) => setPausesPerYear(event.target.value.replace(/[^0-9]/g, ''))}
+                  aria-describedby="pauses-per-year-hint"
+                />
+                <p id="pauses-per-year-hint" className="text-xs text-muted-foreground">
+                  {copy.subscriptionPause?.perYearHint ?? 'Pauses allowed in any 12-month window. Use 0 to disable pausing.'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border border-border/60 px-4 py-3">
+              <div>
+                <p className="text-sm font-medium">
+                  {copy.subscriptionPause?.countCapacityLabel ?? 'Paused members keep their network seat'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {copy.subscriptionPause?.countCapacityDescription ??
+                    "Count paused members toward their sponsor's level 1 capacity."}
+                </p>
+              </div>
+              <Switch
+                checked={pausedCountTowardCapacity}
+                onCheckedChange={setPausedCountTowardCapacity}
+                aria-label="Toggle paused members capacity"
+              />
+            </div>
+            <div className="flex items-center justify-between rounded-lg border border-border/60 px-4 py-3">
+              <div>
+                <p className="text-sm font-medium">
+                  {copy.subscriptionPause?.countPhaseLabel ?? 'Paused members count for phases'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {copy.subscriptionPause?.countPhaseDescription ??
+                    'Treat paused members as active in their own and their upline phase requirements.'}
+                </p>
+              </div>
+              <Switch
+                checked={pausedCountTowardPhase}
+                onCheckedChange={setPausedCountTowardPhase}
+                aria-label="Toggle paused members phase credit"
+              />
+            </div>
+          </section>
+
+          <Separator />
+
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">{copy.payoutBatches?.title ?? 'Payout batches'}</h2>
+              <p className="text-sm text-muted-foreground">
+                {copy.payoutBatches?.description ??
+                  'Eligible balances are grouped into batches by payout cadence, provider and currency. A batch is paid only after a second administrator approves it.'}
+              </p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="payout-hold-days">{copy.payoutBatches?.holdDaysLabel ?? 'Commission hold (days)'}</Label>
+                <Input
+                  id="payout-hold-days"
+                  inputMode="numeric"
+                  value={payoutHoldDays}
+                  onChange={(event) => setPayoutHoldDays(event.target.value.replace(/[^0-9]/g, ''))}
+                  aria-describedby="payout-hold-days-hint"
+                />
+                <p id="payout-hold-days-hint" className="text-xs text-muted-foreground">
+                  {copy.payoutBatches?.holdDaysHint ??
+                    'Commissions younger than this are left out of new batches to cover refunds and chargebacks.'}
+                </p>
+              </div>
+            </div>
+          </section>
+
+          <Separator />
+
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">{copy.spillover?.title ?? 'Spillover placement'}</h2>
+              <p className="text-sm text-muted-foreground">
+                {copy.spillover?.description ??
+                  'When a sponsor has no level 1 seat left, new members are placed deeper in their downline. The sponsor stays their enrolling sponsor.'}
+              </p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="spillover-strategy">{copy.spillover?.strategyLabel ?? 'Placement strategy'}</Label>
+                <Select value={spilloverStrategy} onValueChange={(value) => setSpilloverStrategy(value as SpilloverStrategy)}>
+                  <SelectTrigger id="spillover-strategy" className="w-full" aria-describedby="spillover-strategy-hint">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {spilloverOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p id="spillover-strategy-hint" className="text-xs text-muted-foreground">
+                  {copy.spillover?.strategyHint ??
+                    "With the sponsor's chosen leg, members without a choice fall back to the first open seat."}
+                </p>
+              </div>
+            </div>
+          </section>
+
+          <Separator />
+
           <section className="space-y-6">
             <div className="space-y-2">
               <Label htmlFor="currency">{copy.compensation?.currencyLabel ?? 'Default currency'}</Label>
@@ -5,6 +5,8 @@ import type { Locale } from '@/i18n/config';
 import { getDictionary } from '@/i18n/dictionaries';
 import { useSiteBranding } from '@/contexts/site-branding-context';
 import { WarehouseTrackingController } from '@/modules/orders/warehouse/controllers/warehouse-tracking-controller';
+import { WarehouseStockController } from '@/modules/orders/warehouse/controllers/warehouse-stock-controller';
+import { OrderReturnsController } from '@/modules/orders/returns/controllers/order-returns-controller';
 import AdminGuard from '@/components/admin-guard';
 
 export const dynamic = 'force-dynamic';
@@ -19,6 +21,8 @@ export default function AdminBodegaPage({ searchParams }: AdminBodegaPageProps)
   const { branding } = useSiteBranding();
   const dictionary = useMemo(() => getDictionary(lang, branding.appName), [lang, branding.appName]);
   const copy = dictionary?.admin?.warehouse ?? dictionary?.admin?.orders;
+  const stockCopy = (dictionary?.admin as any)?.warehouseStock;
+  const returnsCopy = dictionary?.admin?.orderReturns;
 
   if (!copy) {
     return null;
@@ -26,7 +30,11 @@ export default function AdminBodegaPage({ searchParams }: AdminBodegaPageProps)
 
   return (
     <AdminGuard lang={lang} requiredPermission="manage_products">
-      <WarehouseTrackingController dictionary={copy as any} lang={lang} />
+      <div className="space-y-10">
+        {stockCopy && <WarehouseStockController dictionary={stockCopy} lang={lang} />}
+        {returnsCopy && <OrderReturnsController dictionary={returnsCopy} lang={lang} scope="warehouse" />}
+        <WarehouseTrackingController dictionary={copy as any} lang={lang} />
+      </div>
     </AdminGuard>
   );
 }
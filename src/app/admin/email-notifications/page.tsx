@@ -130,6 +130,70 @@ const DEFAULT_TEMPLATES: EmailTemplate[] = [
 <p>Hola {{userName}}, tu pedido <strong>{{orderCode}}</strong> ha sido cancelado según lo solicitado.</p>
 <p><strong>Razón:</strong> {{cancellationReason}}</p>
 <p>Si tienes alguna pregunta, por favor contacta a nuestro equipo de soporte.</p>`,
+  },
+  {
+    id: 'order_return_requested',
+    name: 'Return Requested',
+    subject_en: 'We received your return request - Order {{orderCode}}',
+    subject_es: 'Recibimos tu solicitud de devolución - Pedido {{orderCode}}',
+    body_en: `<h2>Return Request Received</h2>
+<p>Hello {{userName}}, we received your request to return <strong>{{quantity}} × {{productName}}</strong> from order <strong>{{orderCode}}</strong>.</p>
+<p>Our team will review it and email you the next steps.</p>`,
+    body_es: `<h2>Solicitud de Devolución Recibida</h2>
+<p>Hola {{userName}}, recibimos tu solicitud para devolver <strong>{{quantity}} × {{productName}}</strong> del pedido <strong>{{orderCode}}</strong>.</p>
+<p>Nuestro equipo la revisará y te enviará los siguientes pasos por correo.</p>`,
+  },
+  {
+    id: 'order_return_approved',
+    name: 'Return Approved (RMA)',
+    subject_en: 'Your return was approved - RMA {{rmaNumber}}',
+    subject_es: 'Tu devolución fue aprobada - RMA {{rmaNumber}}',
+    body_en: `<h2>Return Approved</h2>
+<p>Hello {{userName}}, your return of <strong>{{quantity}} × {{productName}}</strong> from order <strong>{{orderCode}}</strong> was approved.</p>
+<p><strong>RMA number:</strong> {{rmaNumber}}</p>
+<p>Write the RMA number on the package and send it back to our warehouse. {{note}}</p>`,
+    body_es: `<h2>Devolución Aprobada</h2>
+<p>Hola {{userName}}, tu devolución de <strong>{{quantity}} × {{productName}}</strong> del pedido <strong>{{orderCode}}</strong> fue aprobada.</p>
+<p><strong>Número RMA:</strong> {{rmaNumber}}</p>
+<p>Escribe el número RMA en el paquete y envíalo a nuestra bodega. {{note}}</p>`,
+  },
+  {
+    id: 'order_return_rejected',
+    name: 'Return Rejected',
+    subject_en: 'Update on your return request - Order {{orderCode}}',
+    subject_es: 'Actualización de tu solicitud de devolución - Pedido {{orderCode}}',
+    body_en: `<h2>Return Not Approved</h2>
+<p>Hello {{userName}}, we could not approve the return of <strong>{{quantity}} × {{productName}}</strong> from order <strong>{{orderCode}}</strong>.</p>
+<p>{{note}}</p>
+<p>If you have any questions, please contact our support team.</p>`,
+    body_es: `<h2>Devolución No Aprobada</h2>
+<p>Hola {{userName}}, no pudimos aprobar la devolución de <strong>{{quantity}} × {{productName}}</strong> del pedido <strong>{{orderCode}}</strong>.</p>
+<p>{{note}}</p>
+<p>Si tienes alguna pregunta, contacta a nuestro equipo de soporte.</p>`,
+  },
+  {
+    id: 'order_return_received',
+    name: 'Return Received at Warehouse',
+    subject_en: 'We received your return - RMA {{rmaNumber}}',
+    subject_es: 'Recibimos tu devolución - RMA {{rmaNumber}}',
+    body_en: `<h2>Return Received</h2>
+<p>Hello {{userName}}, our warehouse received <strong>{{quantity}} × {{productName}}</strong> (RMA {{rmaNumber}}).</p>
+<p>We will process your refund shortly.</p>`,
+    body_es: `<h2>Devolución Recibida</h2>
+<p>Hola {{userName}}, nuestra bodega recibió <strong>{{quantity}} × {{productName}}</strong> (RMA {{rmaNumber}}).</p>
+<p>Procesaremos tu reembolso en breve.</p>`,
+  },
+  {
+    id: 'order_return_refunded',
+    name: 'Return Refunded',
+    subject_en: 'Your refund of {{amount}} is on its way - RMA {{rmaNumber}}',
+    subject_es: 'Tu reembolso de {{amount}} está en camino - RMA {{rmaNumber}}',
+    body_en: `<h2>Refund Issued</h2>
+<p>Hello {{userName}}, we refunded <strong>{{amount}}</strong> for the return of {{quantity}} × {{productName}} (RMA {{rmaNumber}}).</p>
+<p><strong>Refunded to:</strong> {{refundMethod}}</p>`,
+    body_es: `<h2>Reembolso Emitido</h2>
+<p>Hola {{userName}}, reembolsamos <strong>{{amount}}</strong> por la devolución de {{quantity}} × {{productName}} (RMA {{rmaNumber}}).</p>
+<p><strong>Reembolsado a:</strong> {{refundMethod}}</p>`,
   },
   // Subscription Notifications
   {
@@ -231,6 +295,21 @@ const DEFAULT_TEMPLATES: EmailTemplate[] = [
 <p><strong>Fecha:</strong> {{paymentDate}}</p>
 <p>¡Gracias por tu pago!</p>`,
   },
+  // Commission Notifications
+  {
+    id: 'commission_clawback',
+    name: 'Commission Reversal',
+    subject_en: 'Commission Adjustment - {{appName}}',
+    subject_es: 'Ajuste de Comisión - {{appName}}',
+    body_en: `<h2>Commission Adjustment</h2>
+<p>Hello {{userName}}, order <strong>{{orderCode}}</strong> received a {{reason}}.</p>
+<p>As a result, we reversed <strong>{{amount}}</strong> of the commissions it generated for you.</p>
+<p>If you have any questions, please contact our support team.</p>`,
+    body_es: `<h2>Ajuste de Comisión</h2>
+<p>Hola {{userName}}, el pedido <strong>{{orderCode}}</strong> recibió un {{reason}}.</p>
+<p>Por ello, revertimos <strong>{{amount}}</strong> de las comisiones que generó para ti.</p>
+<p>Si tienes alguna pregunta, contacta a nuestro equipo de soporte.</p>`,
+  },
 ];
 
 // Sample data for email preview
@@ -262,6 +341,11 @@ const SAMPLE_VARIABLES: Record<string, string> = {
   dueDate: 'March 20, 2024',
   transactionId: 'TXN-2024-12345',
   paymentDate: 'March 1, 2024',
+  rmaNumber: 'RMA-240301-4F2A9C',
+  productName: 'Protein Shake (Vanilla / 1 kg)',
+  quantity: '1',
+  note: 'Please include the original packaging.',
+  refundMethod: 'Visa ending in 4242',
 };
 
 // Function to replace template variables with sample data
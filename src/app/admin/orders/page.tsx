@@ -1,6 +1,9 @@
 import AdminGuard from '@/components/admin-guard';
 import type { Locale } from '@/i18n/config';
+import { getDictionary } from '@/i18n/dictionaries';
 import { OrderFulfillmentController } from '@/modules/orders/fulfillment/controllers/order-fulfillment-controller';
+import { OrderReturnsController } from '@/modules/orders/returns/controllers/order-returns-controller';
+import { PaymentRefundsController } from '@/modules/payments/refunds/controllers/payment-refunds-controller';
 
 export const dynamic = 'force-dynamic';
 
@@ -11,10 +14,17 @@ interface OrdersPageProps {
 export default async function OrdersPage({ searchParams }: OrdersPageProps) {
   const params = searchParams ? await searchParams : undefined;
   const lang = (params?.lang ?? 'en') as Locale;
+  const adminCopy = getDictionary(lang).admin;
+  const returnsCopy = adminCopy?.orderReturns;
+  const refundsCopy = adminCopy?.paymentRefunds;
 
   return (
     <AdminGuard lang={lang} requiredPermission="manage_orders">
-      <OrderFulfillmentController lang={lang} />
+      <div className="space-y-10">
+        <OrderFulfillmentController lang={lang} />
+        {returnsCopy && <OrderReturnsController dictionary={returnsCopy} lang={lang} scope="review" />}
+        {refundsCopy && <PaymentRefundsController dictionary={refundsCopy} lang={lang} kind="order" />}
+      </div>
     </AdminGuard>
   );
 }
@@ -1,6 +1,8 @@
 import AdminGuard from '@/components/admin-guard';
 import type { Locale } from '@/i18n/config';
+import { getDictionary } from '@/i18n/dictionaries';
 import { PaymentHistoryController } from '@/modules/payments/history/controllers/payment-history-controller';
+import { PaymentRefundsController } from '@/modules/payments/refunds/controllers/payment-refunds-controller';
 
 export const dynamic = 'force-dynamic';
 
@@ -11,10 +13,14 @@ interface PaymentHistoryPageProps {
 export default async function PaymentHistoryPage({ searchParams }: PaymentHistoryPageProps) {
   const params = searchParams ? await searchParams : undefined;
   const lang = (params?.lang ?? 'en') as Locale;
+  const refundsCopy = getDictionary(lang).admin?.paymentRefunds;
 
   return (
     <AdminGuard lang={lang}>
-      <PaymentHistoryController lang={lang} />
+      <div className="space-y-10">
+        <PaymentHistoryController lang={lang} />
+        {refundsCopy && <PaymentRefundsController dictionary={refundsCopy} lang={lang} />}
+      </div>
     </AdminGuard>
   );
 }
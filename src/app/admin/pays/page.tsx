@@ -37,6 +37,9 @@ export default async function AdminPaysPage({
     errorTitle: dict.admin.paymentGateways.errorTitle ?? 'Error',
     genericErrorMessage: dict.admin.paymentGateways.genericErrorMessage ?? 'Ocurrió un error',
     retryLabel: dict.admin.paymentGateways.retry ?? 'Reintentar',
+    validateCredentialsLabel: (dict.admin.paymentGateways as any).validateCredentials ?? 'Validar credenciales',
+    credentialsValidLabel: (dict.admin.paymentGateways as any).credentialsValid ?? 'Las credenciales son válidas',
+    credentialsInvalidLabel: (dict.admin.paymentGateways as any).credentialsInvalid ?? 'Las credenciales no son válidas',
     // Availability labels
     availabilityLabel: (dict.admin.paymentGateways as any).availabilityLabel ?? 'Disponible en',
     affiliateStoreLabel: (dict.admin.paymentGateways as any).affiliateStoreLabel ?? 'Tienda Afiliado',
@@ -74,6 +77,11 @@ export default async function AdminPaysPage({
       description: (dict.admin.paymentGateways as any).payoneer?.description ?? 'Configurar Payoneer para cobros globales',
       successDescription: (dict.admin.paymentGateways as any).payoneer?.successDescription ?? 'Configuración de Payoneer actualizada',
     },
+    mercadopago: {
+      title: (dict.admin.paymentGateways as any).mercadopago?.title ?? 'Mercado Pago',
+      description: (dict.admin.paymentGateways as any).mercadopago?.description ?? 'Acepta pagos y suscripciones con Mercado Pago en Latinoamérica',
+      successDescription: (dict.admin.paymentGateways as any).mercadopago?.successDescription ?? 'Configuración de Mercado Pago actualizada',
+    },
   } as const;
 
   return (
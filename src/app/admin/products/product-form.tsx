@@ -18,7 +18,14 @@ import {
 } from '@/components/ui/select';
 import type { Locale } from '@/i18n/config';
 import { getDictionary } from '@/i18n/dictionaries';
-import type { Product, ProductDiscountType, ProductImage, DiscountVisibilitySite } from '@/lib/models/definitions';
+import type {
+  Product,
+  ProductDiscountType,
+  ProductImage,
+  ProductOptionAxis,
+  ProductVariant,
+  DiscountVisibilitySite,
+} from '@/lib/models/definitions';
 import { ALL_DISCOUNT_VISIBILITY_SITES } from '@/lib/models/definitions';
 import { Checkbox } from '@/components/ui/checkbox';
 import { uploadProductImages, createProduct, updateProduct } from '@/lib/services/product-service';
@@ -28,6 +35,9 @@ import { PlusCircle, Trash2, Star } from 'lucide-react';
 import Image from 'next/image';
 import { ProductCountrySelector } from '@/modules/products/ui/product-country-selector';
 import { RelatedProductsSelector } from '@/modules/products/ui/related-products-selector';
+import { ProductVariantsEditor } from '@/modules/products/ui/product-variants-editor';
+import { TAX_CATEGORIES, type TaxCategory } from '@/modules/orders/tax/domain/models/tax';
+import { toTaxCategory } from '@/modules/orders/tax/domain/tax-calculation';
 
 interface ProductFormProps {
   lang: Locale;
@@ -156,6 +166,7 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
   const [existingImages, setExistingImages] = useState<ProductImage[]>(product?.images || []);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isFeatured, setIsFeatured] = useState(product?.is_featured ?? false);
+  const [taxCategory, setTaxCategory] = useState<TaxCategory>(() => toTaxCategory(product?.tax_category));
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [experienceState, setExperienceState] = useState<ExperienceState>(() => buildInitialExperienceState(product));
   const [discountType, setDiscountType] = useState<'amount' | 'percentage' | 'none'>(() => {
@@ -180,6 +191,10 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
   const [relatedProductIds, setRelatedProductIds] = useState<string[]>(
     () => product?.related_product_ids ?? [],
   );
+  const [optionAxes, setOptionAxes] = useState<ProductOptionAxis[]>(() => product?.option_axes ?? []);
+  const [variants, setVariants] = useState<ProductVariant[]>(() => product?.variants ?? []);
+  const activeVariants = variants.filter((variant) => variant.is_active);
+  const variantStockTotal = activeVariants.reduce((total, variant) => total + variant.stock_quantity, 0);
 
   useEffect(() => {
     setExperienceState(buildInitialExperienceState(product));
@@ -198,6 +213,8 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
     setDiscountVisibility(product?.discount_visibility ?? [...ALL_DISCOUNT_VISIBILITY_SITES]);
     setCartCountries(product?.cart_visibility_countries ?? []);
     setRelatedProductIds(product?.related_product_ids ?? []);
+    setOptionAxes(product?.option_axes ?? []);
+    setVariants(product?.variants ?? []);
   }, [product]);
 
   const handleDiscountTypeChange = (value: string) => {
@@ -453,6 +470,10 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
       const description = formData.get('description') as string;
       const price = parseFloat(formData.get('price') as string);
       const stockQuantity = Math.max(0, Number.parseInt(formData.get('stock_quantity') as string, 10) || 0);
+      const pointValue = Math.max(0, Number.parseFloat(formData.get('point_value') as string) || 0);
+      const lowStockThreshold = Math.max(0, Number.parseInt(formData.get('low_stock_threshold') as string, 10) || 0);
+      const weightGrams = Math.max(0, Number.parseInt(formData.get('weight_grams') as string, 10) || 0);
+      const taxCategoryValue = toTaxCategory(formData.get('tax_category'));
       const isFeaturedValue = formData.get('is_featured') === 'true';
       const rawDiscountType = (formData.get('discount_type') as string | null) ?? 'none';
       const normalizedDiscountType: ProductDiscountType | null =
@@ -473,6 +494,13 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
         }
       }
 
+      const hasInvalidVariant = variants.some(
+        (variant) => variant.sku.trim().length === 0 || !Number.isFinite(variant.price) || variant.price <= 0,
+      );
+      if (hasInvalidVariant) {
+        throw new Error(dict.admin.productVariantsValidation);
+      }
+
       const rawDiscountLabel = ((formData.get('discount_label') as string | null) ?? '').trim();
       const resolvedDiscountLabel = normalizedDiscountType && rawDiscountLabel.length > 0 ? rawDiscountLabel : null;
 
@@ -507,7 +535,11 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
         discount_value: resolvedDiscountValue,
         discount_label: resolvedDiscountLabel,
         discount_visibility: normalizedDiscountType ? discountVisibility : [...ALL_DISCOUNT_VISIBILITY_SITES],
-        stock_quantity: stockQuantity,
+        stock_quantity: activeVariants.length > 0 ? variantStockTotal : stockQuantity,
+        point_value: pointValue,
+        low_stock_threshold: lowStockThreshold,
+        weight_grams: weightGrams,
+        tax_category: taxCategoryValue,
         images,
         is_featured: isFeaturedValue,
         cart_visibility_countries: Array.from(
@@ -517,6 +549,8 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
           new Set(relatedProductIds.map((id) => id.trim()).filter((id) => id.length > 0)),
         ),
         experience: experiencePayload,
+        option_axes: optionAxes,
+        variants: variants.map((variant, index) => ({ ...variant, sku: variant.sku.trim(), position: index })),
       };
 
       if (product) {
@@ -605,9 +639,9 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
           required
         />
       </div>
-      <div className="grid gap-4 sm:grid-cols-2">
+      <div className="grid gap-4 sm:grid-cols-3">
         <div className="space-y-2">
-          <Label htmlFor="price">{(dict.admin as any).price ?? 'Price'}</Label>
+          <Label htmlFor="price">{dict.admin.price}</Label>
           <Input
             id="price"
             name="price"
@@ -619,21 +653,117 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="stock_quantity">{(dict.admin as any).stockQuantity ?? 'Stock Quantity'}</Label>
+          <Label htmlFor="stock_quantity">{dict.admin.stockQuantity}</Label>
+          {activeVariants.length > 0 ? (
+            <>
+              <Input id="stock_quantity" type="number" value={variantStockTotal} readOnly disabled />
+              <p className="text-xs text-muted-foreground">
+                {dict.admin.productVariantsStockHelper}
+              </p>
+            </>
+          ) : (
+            <Input
+              id="stock_quantity"
+              name="stock_quantity"
+              type="number"
+              inputMode="numeric"
+              min={0}
+              step={1}
+              defaultValue={product?.stock_quantity ?? 0}
+              placeholder="120"
+              required
+            />
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="point_value">{dict.admin.pointValue}</Label>
+          <Input
+            id="point_value"
+            name="point_value"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            defaultValue={product?.point_value ?? 0}
+            placeholder="25"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="low_stock_threshold">{dict.admin.lowStockThreshold}</Label>
           <Input
-            id="stock_quantity"
-            name="stock_quantity"
+            id="low_stock_threshold"
+            name="low_stock_threshold"
             type="number"
             inputMode="numeric"
             min={0}
             step={1}
-            defaultValue={product?.stock_quantity ?? 0}
-            placeholder="120"
-            required
+            defaultValue={product?.low_stock_threshold ?? 5}
+            placeholder="5"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="weight_grams">{dict.admin.weightGrams}</Label>
+          <Input
+            id="weight_grams"
+            name="weight_grams"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            step={1}
+            defaultValue={product?.weight_grams ?? 0}
+            placeholder="500"
           />
         </div>
+        <div className="space-y-2">
+          <input type="hidden" name="tax_category" value={taxCategory} />
+          <Label htmlFor="tax_category_select">{dict.admin.taxCategory}</Label>
+          <Select value={taxCategory} onValueChange={(value) => setTaxCategory(toTaxCategory(value))}>
+            <SelectTrigger id="tax_category_select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TAX_CATEGORIES.map((category) => (
+                <SelectItem key={category} value={category}>
+                  {dict.admin.taxes.rates.categories[category]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
+      <ProductVariantsEditor
+        key={product?.id ?? 'new'}
+        axes={optionAxes}
+        variants={variants}
+        images={existingImages}
+        slug={product?.slug ?? ''}
+        basePrice={product?.price ?? 0}
+        createId={createClientId}
+        onChange={(nextAxes, nextVariants) => {
+          setOptionAxes(nextAxes);
+          setVariants(nextVariants);
+        }}
+        copy={{
+          sectionTitle: dict.admin.productVariantsSectionTitle,
+          sectionDescription: dict.admin.productVariantsSectionDescription,
+          axisName: dict.admin.productVariantsAxisName,
+          axisNamePlaceholder: dict.admin.productVariantsAxisNamePlaceholder,
+          axisValues: dict.admin.productVariantsAxisValues,
+          axisValuesPlaceholder: dict.admin.productVariantsAxisValuesPlaceholder,
+          addAxis: dict.admin.productVariantsAddAxis,
+          removeAxis: dict.admin.productVariantsRemoveAxis,
+          generate: dict.admin.productVariantsGenerate,
+          sku: dict.admin.productVariantsSku,
+          price: dict.admin.productVariantsPrice,
+          stock: dict.admin.productVariantsStock,
+          active: dict.admin.productVariantsActive,
+          images: dict.admin.productVariantsImages,
+          imagesHelper: dict.admin.productVariantsImagesHelper,
+          empty: dict.admin.productVariantsEmpty,
+        }}
+      />
+
       <ProductCountrySelector
         selected={cartCountries}
         onChange={setCartCountries}
@@ -809,8 +939,8 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
 
       <div className="flex flex-col gap-2 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between">
         <div className="space-y-1">
-          <Label htmlFor="is_featured" className="font-medium">{(dict.admin as any).productFeatured ?? 'Featured Product'}</Label>
-          <p className="text-sm text-muted-foreground">{(dict.admin as any).productFeaturedDescription ?? 'Show this product prominently'}</p>
+          <Label htmlFor="is_featured" className="font-medium">{dict.admin.productFeatured}</Label>
+          <p className="text-sm text-muted-foreground">{dict.admin.productFeaturedDescription}</p>
         </div>
         <div className="flex items-center gap-3">
           <input type="hidden" name="is_featured" value={isFeatured ? 'true' : 'false'} />
@@ -996,20 +1126,20 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
       <div className="space-y-6 rounded-xl border border-emerald-100 bg-emerald-50/40 p-4 shadow-sm dark:border-emerald-900/50 dark:bg-emerald-950/30">
         <div className="space-y-2">
           <h3 className="font-headline text-lg font-semibold text-emerald-900 dark:text-emerald-100">
-            {(dict.admin as any).productExperienceTitle ?? 'Product Experience'}
+            {dict.admin.productExperienceTitle}
           </h3>
           <p className="text-sm text-muted-foreground dark:text-emerald-200/80">
-            {(dict.admin as any).productExperienceDescription ?? 'Configure the product experience details'}
+            {dict.admin.productExperienceDescription}
           </p>
         </div>
 
         <div className="space-y-4">
           <div className="space-y-1">
             <h4 className="text-sm font-semibold text-emerald-900 dark:text-emerald-100">
-              {(dict.admin as any).productExperienceLocaleHeading ?? 'Localized Content'}
+              {dict.admin.productExperienceLocaleHeading}
             </h4>
             <p className="text-xs text-muted-foreground dark:text-emerald-200/70">
-              {(dict.admin as any).productExperienceLocaleDescription ?? 'Configure content for each language'}
+              {dict.admin.productExperienceLocaleDescription}
             </p>
           </div>
           <Tabs defaultValue={lang} className="w-full">
@@ -1020,7 +1150,7 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
                   value={locale}
                   className="rounded-full bg-white px-4 py-1.5 text-sm font-medium text-emerald-700 shadow-sm transition-colors data-[state=active]:bg-emerald-600 data-[state=active]:text-white dark:bg-emerald-900/40 dark:text-emerald-200"
                 >
-                  {locale === 'en' ? ((dict.admin as any).languageEnglish ?? 'English') : ((dict.admin as any).languageSpanish ?? 'Spanish')}
+                  {locale === 'en' ? dict.admin.languageEnglish : dict.admin.languageSpanish}
                 </TabsTrigger>
               ))}
             </TabsList>
@@ -1033,67 +1163,67 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
                   className="mt-4 space-y-4 rounded-lg border bg-white/80 p-4 shadow-sm dark:border-emerald-900/50 dark:bg-emerald-950/50"
                 >
                   <div className="space-y-2">
-                    <Label htmlFor={`${locale}-tagline`}>{(dict.admin as any).productExperienceTagline ?? 'Tagline'}</Label>
+                    <Label htmlFor={`${locale}-tagline`}>{dict.admin.productExperienceTagline}</Label>
                     <Input
                       id={`${locale}-tagline`}
                       value={localeState?.tagline ?? ''}
                       onChange={(event) => updateLocaleStringField(locale, 'tagline', event.target.value)}
-                      placeholder={(dict.admin as any).productExperienceTaglinePlaceholder ?? 'Enter tagline'}
+                      placeholder={dict.admin.productExperienceTaglinePlaceholder}
                       disabled={isSubmitting}
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor={`${locale}-hero`}>{(dict.admin as any).productExperienceHeroSupporting ?? 'Hero Supporting Text'}</Label>
+                    <Label htmlFor={`${locale}-hero`}>{dict.admin.productExperienceHeroSupporting}</Label>
                     <Textarea
                       id={`${locale}-hero`}
                       value={localeState?.heroSupporting ?? ''}
                       onChange={(event) => updateLocaleStringField(locale, 'heroSupporting', event.target.value)}
-                      placeholder={(dict.admin as any).productExperienceHeroSupportingPlaceholder ?? 'Enter hero supporting text'}
+                      placeholder={dict.admin.productExperienceHeroSupportingPlaceholder}
                       rows={3}
                       disabled={isSubmitting}
                     />
                   </div>
                   <div className="space-y-4">
                     <div className="space-y-2">
-                      <Label htmlFor={`${locale}-highlights`}>{(dict.admin as any).productExperienceHighlights ?? 'Quick Highlights'}</Label>
+                      <Label htmlFor={`${locale}-highlights`}>{dict.admin.productExperienceHighlights}</Label>
                       <Textarea
                         id={`${locale}-highlights`}
                         value={(localeState?.quickHighlights ?? []).join('\n')}
                         onChange={(event) => updateLocaleListField(locale, 'quickHighlights', event.target.value)}
-                        placeholder={(dict.admin as any).productExperienceHighlightsPlaceholder ?? 'Enter highlights'}
+                        placeholder={dict.admin.productExperienceHighlightsPlaceholder}
                         rows={4}
                         disabled={isSubmitting}
                       />
                       <p className="text-xs text-muted-foreground dark:text-emerald-200/70">
-                        {(dict.admin as any).productExperienceListHelper ?? 'One item per line'}
+                        {dict.admin.productExperienceListHelper}
                       </p>
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor={`${locale}-usage`}>{(dict.admin as any).productExperienceUsage ?? 'Usage'}</Label>
+                      <Label htmlFor={`${locale}-usage`}>{dict.admin.productExperienceUsage}</Label>
                       <Textarea
                         id={`${locale}-usage`}
                         value={(localeState?.usage ?? []).join('\n')}
                         onChange={(event) => updateLocaleListField(locale, 'usage', event.target.value)}
-                        placeholder={(dict.admin as any).productExperienceUsagePlaceholder ?? 'Enter usage instructions'}
+                        placeholder={dict.admin.productExperienceUsagePlaceholder}
                         rows={4}
                         disabled={isSubmitting}
                       />
                       <p className="text-xs text-muted-foreground dark:text-emerald-200/70">
-                        {(dict.admin as any).productExperienceListHelper ?? 'One item per line'}
+                        {dict.admin.productExperienceListHelper}
                       </p>
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor={`${locale}-insights`}>{(dict.admin as any).productExperienceInsights ?? 'Insights'}</Label>
+                      <Label htmlFor={`${locale}-insights`}>{dict.admin.productExperienceInsights}</Label>
                       <Textarea
                         id={`${locale}-insights`}
                         value={(localeState?.insights ?? []).join('\n')}
                         onChange={(event) => updateLocaleListField(locale, 'insights', event.target.value)}
-                        placeholder={(dict.admin as any).productExperienceInsightsPlaceholder ?? 'Enter insights'}
+                        placeholder={dict.admin.productExperienceInsightsPlaceholder}
                         rows={4}
                         disabled={isSubmitting}
                       />
                       <p className="text-xs text-muted-foreground dark:text-emerald-200/70">
-                        {(dict.admin as any).productExperienceListHelper ?? 'One item per line'}
+                        {dict.admin.productExperienceListHelper}
                       </p>
                     </div>
                   </div>
@@ -1107,7 +1237,7 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
 
         <div className="grid gap-4 sm:grid-cols-2">
           <div className="space-y-2">
-            <Label htmlFor="experience-rating-average">{(dict.admin as any).productExperienceRatingAverage ?? 'Average Rating'}</Label>
+            <Label htmlFor="experience-rating-average">{dict.admin.productExperienceRatingAverage}</Label>
             <Input
               id="experience-rating-average"
               type="number"
@@ -1120,11 +1250,11 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
               disabled={isSubmitting}
             />
             <p className="text-xs text-muted-foreground dark:text-emerald-200/70">
-              {(dict.admin as any).productExperienceRatingHelper ?? 'Rating from 0 to 5'}
+              {dict.admin.productExperienceRatingHelper}
             </p>
           </div>
           <div className="space-y-2">
-            <Label htmlFor="experience-rating-count">{(dict.admin as any).productExperienceRatingCount ?? 'Rating Count'}</Label>
+            <Label htmlFor="experience-rating-count">{dict.admin.productExperienceRatingCount}</Label>
             <Input
               id="experience-rating-count"
               type="number"
@@ -1143,16 +1273,16 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
         <div className="space-y-4">
           <div className="space-y-1">
             <h4 className="text-sm font-semibold text-emerald-900 dark:text-emerald-100">
-              {(dict.admin as any).productExperienceReviewsTitle ?? 'Reviews'}
+              {dict.admin.productExperienceReviewsTitle}
             </h4>
             <p className="text-xs text-muted-foreground dark:text-emerald-200/70">
-              {(dict.admin as any).productExperienceReviewsDescription ?? 'Manage product reviews'}
+              {dict.admin.productExperienceReviewsDescription}
             </p>
           </div>
 
           {experienceState.reviews.length === 0 ? (
             <p className="rounded-lg border border-dashed border-emerald-200 bg-white/60 p-4 text-sm text-muted-foreground dark:border-emerald-900/50 dark:bg-emerald-950/40 dark:text-emerald-200/80">
-              {(dict.admin as any).productExperienceReviewEmpty ?? 'No reviews yet'}
+              {dict.admin.productExperienceReviewEmpty}
             </p>
           ) : (
             <div className="space-y-4">
@@ -1165,7 +1295,7 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
                     <div className="grid flex-1 gap-4 sm:grid-cols-2">
                       <div className="space-y-2">
                         <Label htmlFor={`review-author-${review.id}`}>
-                          {(dict.admin as any).productExperienceReviewAuthor ?? 'Author'}
+                          {dict.admin.productExperienceReviewAuthor}
                         </Label>
                         <Input
                           id={`review-author-${review.id}`}
@@ -1177,7 +1307,7 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor={`review-avatar-${review.id}`}>
-                          {(dict.admin as any).productExperienceReviewAvatar ?? 'Avatar URL'}
+                          {dict.admin.productExperienceReviewAvatar}
                         </Label>
                         <Input
                           id={`review-avatar-${review.id}`}
@@ -1187,28 +1317,28 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
                           disabled={isSubmitting}
                         />
                         <p className="text-xs text-muted-foreground dark:text-emerald-200/70">
-                          {(dict.admin as any).productExperienceReviewAvatarHint ?? 'URL to author avatar image'}
+                          {dict.admin.productExperienceReviewAvatarHint}
                         </p>
                       </div>
                       <div className="space-y-2">
-                        <Label>{(dict.admin as any).productExperienceReviewLocale ?? 'Locale'}</Label>
+                        <Label>{dict.admin.productExperienceReviewLocale}</Label>
                         <Select
                           value={review.locale}
                           onValueChange={(value) => handleReviewChange(index, 'locale', value as Locale)}
                           disabled={isSubmitting}
                         >
                           <SelectTrigger>
-                            <SelectValue placeholder={(dict.admin as any).productExperienceReviewLocale ?? 'Select locale'} />
+                            <SelectValue placeholder={dict.admin.productExperienceReviewLocale} />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="en">{(dict.admin as any).languageEnglish ?? 'English'}</SelectItem>
-                            <SelectItem value="es">{(dict.admin as any).languageSpanish ?? 'Spanish'}</SelectItem>
+                            <SelectItem value="en">{dict.admin.languageEnglish}</SelectItem>
+                            <SelectItem value="es">{dict.admin.languageSpanish}</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor={`review-rating-${review.id}`}>
-                          {(dict.admin as any).productExperienceReviewRating ?? 'Rating'}
+                          {dict.admin.productExperienceReviewRating}
                         </Label>
                         <Input
                           id={`review-rating-${review.id}`}
@@ -1223,21 +1353,21 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor={`review-timeago-${review.id}`}>
-                          {(dict.admin as any).productExperienceReviewTimeAgo ?? 'Time Ago'}
+                          {dict.admin.productExperienceReviewTimeAgo}
                         </Label>
                         <Input
                           id={`review-timeago-${review.id}`}
                           value={review.timeAgo}
                           onChange={(event) => handleReviewChange(index, 'timeAgo', event.target.value)}
-                          placeholder={(dict.admin as any).productExperienceReviewTimeAgoPlaceholder ?? 'e.g., 2 weeks ago'}
+                          placeholder={dict.admin.productExperienceReviewTimeAgoPlaceholder}
                           disabled={isSubmitting}
                         />
                         <p className="text-xs text-muted-foreground dark:text-emerald-200/70">
-                          {(dict.admin as any).productExperienceReviewTimeAgoHint ?? 'How long ago the review was posted'}
+                          {dict.admin.productExperienceReviewTimeAgoHint}
                         </p>
                       </div>
                       <div className="space-y-2">
-                        <Label>{(dict.admin as any).productExperienceReviewSource ?? 'Source'}</Label>
+                        <Label>{dict.admin.productExperienceReviewSource}</Label>
                         <Select
                           value={review.source}
                           onValueChange={(value) => handleReviewChange(index, 'source', value as ReviewSource)}
@@ -1247,8 +1377,8 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="admin">{(dict.admin as any).productExperienceReviewSourceAdmin ?? 'Admin'}</SelectItem>
-                            <SelectItem value="member">{(dict.admin as any).productExperienceReviewSourceMember ?? 'Member'}</SelectItem>
+                            <SelectItem value="admin">{dict.admin.productExperienceReviewSourceAdmin}</SelectItem>
+                            <SelectItem value="member">{dict.admin.productExperienceReviewSourceMember}</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -1261,12 +1391,12 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
                       disabled={isSubmitting}
                     >
                       <Trash2 className="mr-2 h-4 w-4" />
-                      {(dict.admin as any).productExperienceReviewRemove ?? 'Remove Review'}
+                      {dict.admin.productExperienceReviewRemove}
                     </Button>
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor={`review-comment-${review.id}`}>
-                      {(dict.admin as any).productExperienceReviewComment ?? 'Comment'}
+                      {dict.admin.productExperienceReviewComment}
                     </Label>
                     <Textarea
                       id={`review-comment-${review.id}`}
@@ -1289,7 +1419,7 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
             disabled={isSubmitting}
           >
             <PlusCircle className="h-4 w-4" />
-            {(dict.admin as any).productExperienceReviewAdd ?? 'Add Review'}
+            {dict.admin.productExperienceReviewAdd}
           </Button>
         </div>
       </div>
@@ -1299,7 +1429,7 @@ export function ProductForm({ lang, product, onSuccess }: ProductFormProps) {
           {dict.admin.cancel}
         </Button>
         <Button type="submit" disabled={isSubmitting}>
-          {isSubmitting ? 'Guardando...' : ((dict.admin as any).saveProduct ?? 'Save Product')}
+          {isSubmitting ? 'Guardando...' : (dict.admin.saveProduct)}
         </Button>
       </div>
     </form>
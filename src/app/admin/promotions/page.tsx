@@ -0,0 +1,32 @@
+'use client';
+
+import { use, useMemo } from 'react';
+import type { Locale } from '@/i18n/config';
+import { getDictionary } from '@/i18n/dictionaries';
+import { useSiteBranding } from '@/contexts/site-branding-context';
+import { PromotionsController } from '@/modules/orders/promotions/controllers/promotions-controller';
+import AdminGuard from '@/components/admin-guard';
+
+export const dynamic = 'force-dynamic';
+
+interface AdminPromotionsPageProps {
+  searchParams: Promise<{ lang?: Locale }>;
+}
+
+export default function AdminPromotionsPage({ searchParams }: AdminPromotionsPageProps) {
+  const params = use(searchParams);
+  const lang = params.lang || 'en';
+  const { branding } = useSiteBranding();
+  const dictionary = useMemo(() => getDictionary(lang, branding.appName), [lang, branding.appName]);
+  const copy = dictionary?.admin?.promotions;
+
+  if (!copy || typeof copy === 'string') {
+    return null;
+  }
+
+  return (
+    <AdminGuard lang={lang} requiredPermission="manage_products">
+      <PromotionsController dictionary={copy} />
+    </AdminGuard>
+  );
+}
@@ -11,6 +11,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { RefreshCw, Search, ShoppingCart, CreditCard, Calendar, X } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { TaxReportController } from '@/modules/orders/tax/controllers/tax-report-controller';
 import { Select as _Select, SelectContent as _SelectContent, SelectItem as _SelectItem, SelectTrigger as _SelectTrigger, SelectValue as _SelectValue } from '@/components/ui/select';
 
 interface SalesRecord {
@@ -41,6 +42,7 @@ export default function SalesHistoryPage({ searchParams }: SalesHistoryPageProps
   const { branding } = useSiteBranding();
   const dictionary = useMemo(() => getDictionary(lang, branding.appName), [lang, branding.appName]);
   const copy = dictionary?.admin?.salesHistory ?? {};
+  const taxReportCopy = (copy as any).taxReport;
 
   const [sales, setSales] = useState<SalesRecord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -532,6 +534,8 @@ export default function SalesHistoryPage({ searchParams }: SalesHistoryPageProps
           )}
         </CardContent>
       </Card>
+
+      {taxReportCopy && <TaxReportController dictionary={taxReportCopy} locale={lang} />}
     </div>
   );
 }
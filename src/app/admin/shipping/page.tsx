@@ -0,0 +1,32 @@
+'use client';
+
+import { use, useMemo } from 'react';
+import type { Locale } from '@/i18n/config';
+import { getDictionary } from '@/i18n/dictionaries';
+import { useSiteBranding } from '@/contexts/site-branding-context';
+import { ShippingSettingsController } from '@/modules/orders/shipping/controllers/shipping-settings-controller';
+import AdminGuard from '@/components/admin-guard';
+
+export const dynamic = 'force-dynamic';
+
+interface AdminShippingPageProps {
+  searchParams: Promise<{ lang?: Locale }>;
+}
+
+export default function AdminShippingPage({ searchParams }: AdminShippingPageProps) {
+  const params = use(searchParams);
+  const lang = params.lang || 'en';
+  const { branding } = useSiteBranding();
+  const dictionary = useMemo(() => getDictionary(lang, branding.appName), [lang, branding.appName]);
+  const copy = dictionary?.admin?.shipping;
+
+  if (!copy || typeof copy === 'string') {
+    return null;
+  }
+
+  return (
+    <AdminGuard lang={lang} requiredPermission="manage_settings">
+      <ShippingSettingsController dictionary={copy} />
+    </AdminGuard>
+  );
+}
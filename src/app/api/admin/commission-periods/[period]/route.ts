@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createCommissionPeriodService } from '@/modules/multilevel/factories/commission-period-service-factory';
+import {
+  CommissionPeriodError,
+  toCommissionPeriodCsv,
+} from '@/modules/multilevel/services/commission-period-service';
+
+/**
+ * GET /api/admin/commission-periods/[period]
+ * Closed period with the statement totals of every member. ?format=csv downloads them for
+ * accounting.
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async (req, context) => {
+  try {
+    const { period } = await (context?.params || Promise.resolve({ period: '' }));
+    const result = await createCommissionPeriodService().getPeriod(period);
+
+    if (new URL(req.url).searchParams.get('format') === 'csv') {
+      return new NextResponse(toCommissionPeriodCsv(result.statements), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="commission-statements-${result.period}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ period: result });
+  } catch (error) {
+    if (error instanceof CommissionPeriodError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.code === 'INVALID_PERIOD' ? 400 : 404 });
+    }
+    console.error('[Commission Periods] Failed to load period:', error);
+    return NextResponse.json(
+      { error: 'Failed to load commission period' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createCommissionPeriodService } from '@/modules/multilevel/factories/commission-period-service-factory';
+import { CommissionPeriodError } from '@/modules/multilevel/services/commission-period-service';
+import { generateCommissionStatementHTML } from '@/modules/invoices/utils/commission-statement-template';
+import { createAdminClient } from '@/lib/supabase/server';
+import { loadBranding } from '@/modules/invoices/services/invoice-context-service';
+
+/**
+ * GET /api/admin/commission-periods/[period]/statements/[userId]
+ * Printable commission statement of a member
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async (_req, context) => {
+  try {
+    const { period, userId } = await (context?.params || Promise.resolve({ period: '', userId: '' }));
+    const statement = await createCommissionPeriodService().getStatement(period, userId);
+    const adminClient = createAdminClient();
+    const branding = await loadBranding(adminClient, adminClient);
+
+    return new NextResponse(generateCommissionStatementHTML({ statement, branding }), {
+      headers: {
+        'Content-Type': 'text/html',
+      },
+    });
+  } catch (error) {
+    if (error instanceof CommissionPeriodError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.code === 'INVALID_PERIOD' ? 400 : 404 });
+    }
+    console.error('[Commission Periods] Failed to render statement:', error);
+    return NextResponse.json(
+      { error: 'Failed to render commission statement' },
+      { status: 500 }
+    );
+  }
+});
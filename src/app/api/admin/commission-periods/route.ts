@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createCommissionPeriodService } from '@/modules/multilevel/factories/commission-period-service-factory';
+import { CommissionPeriodError, type CommissionPeriodErrorCode } from '@/modules/multilevel/services/commission-period-service';
+
+const ClosePeriodSchema = z.object({
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be a month as YYYY-MM'),
+});
+
+const ERROR_STATUS: Record<CommissionPeriodErrorCode, number> = {
+  INVALID_PERIOD: 400,
+  PERIOD_NOT_ENDED: 409,
+  PERIOD_NOT_CLOSED: 404,
+  STATEMENT_NOT_FOUND: 404,
+};
+
+/**
+ * GET /api/admin/commission-periods
+ * Commission periods, newest first
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async () => {
+  try {
+    const periods = await createCommissionPeriodService().listPeriods();
+    return NextResponse.json({ periods });
+  } catch (error) {
+    console.error('[Commission Periods] Failed to list periods:', error);
+    return NextResponse.json(
+      { error: 'Failed to load commission periods' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/commission-periods
+ * Close a finished month: freeze its commissions into member statements and lock it against
+ * further edits. Closing a closed month returns it unchanged.
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments', async (req) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) return csrfError;
+
+  const parsed = ClosePeriodSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const period = await createCommissionPeriodService().closePeriod(parsed.data.period, req.user.id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.HIGH,
+      `Closed commission period ${period.period}`,
+      {
+        ...extractRequestMetadata(req),
+        action: 'close_commission_period',
+        resourceType: 'commission_period',
+        commissionPeriodId: period.id,
+        period: period.period,
+        statementCount: period.statement_count,
+        totals: period.totals,
+      },
+      true
+    );
+
+    return NextResponse.json({ success: true, period });
+  } catch (error) {
+    if (error instanceof CommissionPeriodError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+    }
+    SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+      module: 'admin',
+      operation: 'close_commission_period',
+      tags: { error_type: 'commission_period_error' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to close commission period';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+});
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createFxRateService } from '@/modules/multilevel/factories/fx-rate-service-factory';
+
+const currencyCode = z.string().trim().regex(/^[A-Za-z]{3}$/, 'Expected an ISO 4217 currency code');
+
+const FxRateRequestSchema = z.object({
+  baseCurrency: currencyCode,
+  quoteCurrency: currencyCode,
+  rate: z.number().positive(),
+  effectiveAt: z.string().datetime().optional(),
+  source: z.string().trim().max(100).optional(),
+});
+
+/**
+ * GET /api/admin/fx-rates
+ * List stored FX rates, newest first
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async () => {
+  try {
+    const rates = await createFxRateService().listRates();
+    return NextResponse.json({ rates });
+  } catch (error) {
+    console.error('[FX Rates] Failed to list rates:', error);
+    return NextResponse.json(
+      { error: 'Failed to load FX rates' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/fx-rates
+ * Store a new FX rate; 1 unit of baseCurrency = rate units of quoteCurrency
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments', async (request) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  try {
+    const input = FxRateRequestSchema.parse(await request.json());
+
+    if (input.baseCurrency.toUpperCase() === input.quoteCurrency.toUpperCase()) {
+      return NextResponse.json(
+        { error: 'Base and quote currency must differ' },
+        { status: 400 }
+      );
+    }
+
+    const rate = await createFxRateService().setRate({
+      ...input,
+      source: input.source ?? 'manual',
+      createdBy: request.user.id,
+    });
+
+    // Audit log
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.CRITICAL,
+      `Admin set FX rate ${rate.base_currency}/${rate.quote_currency} to ${rate.rate}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'fx_rate_set',
+        resourceType: 'fx_rate',
+        resourceId: rate.id,
+      },
+      true
+    );
+
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.error('API error:', error);
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
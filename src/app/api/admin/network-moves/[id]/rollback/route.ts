@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createNetworkMoveService } from '@/modules/multilevel/factories/network-move-service-factory';
+import { NetworkMoveError } from '@/modules/multilevel/services/network-move-service';
+import { NetworkCapacityError } from '@/modules/multilevel/services/network-capacity-service';
+
+const RollbackMoveSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+/**
+ * POST /api/admin/network-moves/[id]/rollback
+ * Restore the sponsors and placements a move changed
+ * Requires: manage_users permission
+ */
+export const POST = withAdminPermission('manage_users',
+  async (req, context) => {
+    // ✅ SECURITY: Validate CSRF token
+    const csrfError = await requireCsrfToken(req);
+    if (csrfError) return csrfError;
+
+    const parsed = RollbackMoveSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request payload', details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const { id } = await (context?.params || Promise.resolve({ id: '' }));
+      const move = await createNetworkMoveService().rollbackMove(id, req.user.id, parsed.data.reason);
+
+      await SecurityAuditLogger.log(
+        SecurityEventType.ADMIN_ACTION,
+        SecurityEventSeverity.HIGH,
+        'Rolled back network move',
+        {
+          ...extractRequestMetadata(req),
+          action: 'rollback_network_move',
+          resourceType: 'network_move',
+          networkMoveId: id,
+          userId: move.user_id,
+          reason: parsed.data.reason,
+        },
+        true
+      );
+
+      return NextResponse.json({ success: true, move });
+    } catch (error) {
+      if (error instanceof NetworkMoveError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.code === 'MOVE_NOT_FOUND' ? 404 : 409 }
+        );
+      }
+      if (error instanceof NetworkCapacityError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: 422 });
+      }
+      SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+        module: 'admin',
+        operation: 'rollback_network_move',
+        tags: { error_type: 'network_move_error' },
+      });
+      const message = error instanceof Error ? error.message : 'Failed to roll back network move';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+  }
+);
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createNetworkMoveService } from '@/modules/multilevel/factories/network-move-service-factory';
+import { NetworkMoveError } from '@/modules/multilevel/services/network-move-service';
+
+/**
+ * GET /api/admin/network-moves/[id]
+ * Network move with every profile edge it changed
+ * Requires: manage_users permission
+ */
+export const GET = withAdminPermission('manage_users', async (_req, context) => {
+  try {
+    const { id } = await (context?.params || Promise.resolve({ id: '' }));
+    const move = await createNetworkMoveService().getMove(id);
+    return NextResponse.json({ move });
+  } catch (error) {
+    if (error instanceof NetworkMoveError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 404 });
+    }
+    console.error('[Network Moves] Failed to load move:', error);
+    return NextResponse.json(
+      { error: 'Failed to load network move' },
+      { status: 500 }
+    );
+  }
+});
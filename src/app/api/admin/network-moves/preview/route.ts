@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createNetworkMoveService } from '@/modules/multilevel/factories/network-move-service-factory';
+import { NetworkMoveError } from '@/modules/multilevel/services/network-move-service';
+import { NetworkCapacityError } from '@/modules/multilevel/services/network-capacity-service';
+
+const NetworkMoveSchema = z.object({
+  userId: z.string().uuid(),
+  targetParentId: z.string().uuid().nullable(),
+  moveType: z.enum(['sponsor', 'placement']),
+  scope: z.enum(['subtree', 'member']),
+  reason: z.string().trim().max(500).default(''),
+});
+
+/**
+ * POST /api/admin/network-moves/preview
+ * Validate a move and show the profile edges it changes and the phase of both uplines before
+ * and after it, without applying anything
+ * Requires: manage_users permission
+ */
+export const POST = withAdminPermission('manage_users', async (req) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) return csrfError;
+
+  const parsed = NetworkMoveSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const preview = await createNetworkMoveService().preview({
+      ...parsed.data,
+      targetParentId: parsed.data.targetParentId ?? null,
+    });
+    return NextResponse.json({ preview });
+  } catch (error) {
+    // Validation failures are the answer of a preview, not errors
+    if (error instanceof NetworkMoveError || error instanceof NetworkCapacityError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 422 });
+    }
+    SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+      module: 'admin',
+      operation: 'preview_network_move',
+      tags: { error_type: 'network_move_error' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to preview network move';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+});
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createNetworkMoveService } from '@/modules/multilevel/factories/network-move-service-factory';
+import { NetworkMoveError, type NetworkMoveErrorCode } from '@/modules/multilevel/services/network-move-service';
+import { NetworkCapacityError } from '@/modules/multilevel/services/network-capacity-service';
+
+const ListQuerySchema = z.object({
+  userId: z.string().uuid().optional(),
+});
+
+const NetworkMoveSchema = z.object({
+  userId: z.string().uuid(),
+  targetParentId: z.string().uuid().nullable(),
+  moveType: z.enum(['sponsor', 'placement']),
+  scope: z.enum(['subtree', 'member']),
+  reason: z.string().trim().min(1).max(500),
+});
+
+const ERROR_STATUS: Record<NetworkMoveErrorCode, number> = {
+  MEMBER_NOT_FOUND: 404,
+  PARENT_NOT_FOUND: 404,
+  MOVE_NOT_FOUND: 404,
+  SAME_PARENT: 409,
+  CIRCULAR_MOVE: 409,
+  INVALID_SCOPE: 409,
+  INVALID_STATUS: 409,
+  MOVE_CONFLICT: 409,
+};
+
+/**
+ * GET /api/admin/network-moves
+ * Audit log of sponsor and placement moves, newest first. Optional ?userId= filter
+ * Requires: manage_users permission
+ */
+export const GET = withAdminPermission('manage_users', async (req) => {
+  const { searchParams } = new URL(req.url);
+  const query = ListQuerySchema.safeParse({ userId: searchParams.get('userId') ?? undefined });
+
+  if (!query.success) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: query.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const moves = await createNetworkMoveService().listMoves(query.data);
+    return NextResponse.json({ moves });
+  } catch (error) {
+    console.error('[Network Moves] Failed to list moves:', error);
+    return NextResponse.json(
+      { error: 'Failed to load network moves' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/network-moves
+ * Move a member, or their whole subtree, to another sponsor or placement parent
+ * Requires: manage_users permission
+ */
+export const POST = withAdminPermission('manage_users', async (req) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) return csrfError;
+
+  const parsed = NetworkMoveSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const move = await createNetworkMoveService().moveMember(
+      { ...parsed.data, targetParentId: parsed.data.targetParentId ?? null },
+      req.user.id
+    );
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.HIGH,
+      `Moved member ${move.user_id} (${move.move_type}, ${move.scope})`,
+      {
+        ...extractRequestMetadata(req),
+        action: 'apply_network_move',
+        resourceType: 'network_move',
+        networkMoveId: move.id,
+        userId: move.user_id,
+        targetParentId: move.target_parent_id,
+        moveType: move.move_type,
+        scope: move.scope,
+        reason: move.reason,
+        changes: move.changes.map((change) => ({
+          profileId: change.profile_id,
+          previousNetworkParentId: change.previous_network_parent_id,
+          newNetworkParentId: change.new_network_parent_id,
+        })),
+      },
+      true
+    );
+
+    return NextResponse.json({ success: true, move }, { status: 201 });
+  } catch (error) {
+    if (error instanceof NetworkMoveError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+    }
+    if (error instanceof NetworkCapacityError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 422 });
+    }
+    SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+      module: 'admin',
+      operation: 'apply_network_move',
+      tags: { error_type: 'network_move_error' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to move member';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+});
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createCommissionClawbackService } from '@/modules/multilevel/factories/commission-clawback-service-factory';
+
+const ClawbackRequestSchema = z.object({
+  reason: z.enum(['refund', 'chargeback']),
+  refundedCents: z.number().int().min(0).optional(),
+  externalReference: z.string().trim().max(255).optional(),
+});
+
+/**
+ * POST /api/admin/orders/[id]/clawback
+ * Reverse the commissions generated by an order refunded or charged back outside the webhooks
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments', async (
+  request,
+  context
+) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  try {
+    const params = await (context?.params as Promise<{ id: string }>);
+    const { id } = params;
+    const input = ClawbackRequestSchema.parse(await request.json());
+
+    const result = await createCommissionClawbackService().clawbackOrder({
+      orderId: id,
+      reason: input.reason,
+      refundedCents: input.refundedCents,
+      externalReference: input.externalReference ?? null,
+    });
+
+    if (!result.orderId) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    // Audit log
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.CRITICAL,
+      `Admin reversed commissions for order ${id}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'commission_clawback',
+        resourceType: 'order',
+        resourceId: id,
+        reason: input.reason,
+        reversedCents: result.totalReversedCents,
+      },
+      true
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (process.env.NODE_ENV !== 'production') {
+      console.error('API error:', error);
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
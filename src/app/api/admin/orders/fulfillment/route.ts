@@ -36,6 +36,9 @@ const fulfillmentRowSchema = z.object({
   quantity: z.coerce.number().nullable(),
   unit_price_cents: z.coerce.number().nullable(),
   line_total_cents: z.coerce.number().nullable(),
+  variant_id: z.string().nullable().optional(),
+  variant_label: z.string().nullable().optional(),
+  sku: z.string().nullable().optional(),
 });
 
 const toUtcDayRange = (date: string) => {
@@ -135,6 +138,9 @@ export const GET = withAdminPermission('manage_orders', async (request) => {
           itemId: string;
           productId: string | null;
           productName: string | null;
+          variantId: string | null;
+          variantLabel: string | null;
+          sku: string | null;
           quantity: number;
           unitPriceCents: number;
           lineTotalCents: number;
@@ -194,6 +200,9 @@ export const GET = withAdminPermission('manage_orders', async (request) => {
           itemId: row.order_item_id,
           productId: row.product_id,
           productName: row.product_name,
+          variantId: row.variant_id ?? null,
+          variantLabel: row.variant_label ?? null,
+          sku: row.sku ?? null,
           quantity,
           unitPriceCents,
           lineTotalCents,
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createOrderReturnService } from '@/modules/orders/returns/factories/order-return-service-factory';
+import { OrderReturnError, ORDER_RETURN_ERROR_STATUS } from '@/modules/orders/returns/services/order-return-service';
+import { OrderReturnReviewInputSchema } from '@/modules/orders/returns/domain/models/order-return';
+
+/**
+ * POST /api/admin/orders/returns/[id]/approve
+ * Approve a return request, issuing its RMA number
+ * Requires: manage_orders permission
+ */
+export const POST = withAdminPermission('manage_orders', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  const parsed = OrderReturnReviewInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const orderReturn = await createOrderReturnService().approve(id, request.user.id, parsed.data.note);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Approved return ${orderReturn.rmaNumber} of order ${orderReturn.orderId}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'approve_order_return',
+        resourceType: 'order_return',
+        resourceId: id,
+        orderId: orderReturn.orderId,
+        rmaNumber: orderReturn.rmaNumber,
+      },
+      true
+    );
+
+    return NextResponse.json({ orderReturn });
+  } catch (error) {
+    if (error instanceof OrderReturnError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ORDER_RETURN_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Order Returns] Failed to approve return:', error);
+    return NextResponse.json({ error: 'Failed to approve return' }, { status: 500 });
+  }
+});
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createOrderReturnService } from '@/modules/orders/returns/factories/order-return-service-factory';
+import { OrderReturnError, ORDER_RETURN_ERROR_STATUS } from '@/modules/orders/returns/services/order-return-service';
+import { StockError } from '@/modules/products/services/stock-service';
+
+/**
+ * POST /api/admin/orders/returns/[id]/receive
+ * Record the goods of an approved return as received, putting the units back into stock
+ * Requires: manage_products permission
+ */
+export const POST = withAdminPermission('manage_products', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  try {
+    const orderReturn = await createOrderReturnService().receive(id, request.user.id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Received return ${orderReturn.rmaNumber} of ${orderReturn.quantity} units`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'receive_order_return',
+        resourceType: 'order_return',
+        resourceId: id,
+        orderId: orderReturn.orderId,
+        productId: orderReturn.productId,
+        variantId: orderReturn.variantId,
+        quantity: orderReturn.quantity,
+      },
+      true
+    );
+
+    return NextResponse.json({ orderReturn });
+  } catch (error) {
+    if (error instanceof OrderReturnError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ORDER_RETURN_ERROR_STATUS[error.code] }
+      );
+    }
+    if (error instanceof StockError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 409 });
+    }
+    console.error('[Order Returns] Failed to receive return:', error);
+    return NextResponse.json({ error: 'Failed to receive return' }, { status: 500 });
+  }
+});
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createOrderReturnService } from '@/modules/orders/returns/factories/order-return-service-factory';
+import { OrderReturnError, ORDER_RETURN_ERROR_STATUS } from '@/modules/orders/returns/services/order-return-service';
+import { OrderReturnRefundInputSchema } from '@/modules/orders/returns/domain/models/order-return';
+
+/**
+ * POST /api/admin/orders/returns/[id]/refund
+ * Refund a received return to the original gateway or to wallet credit, reversing the
+ * commissions of the refunded amount
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  const parsed = OrderReturnRefundInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const orderReturn = await createOrderReturnService().refund(id, request.user.id, parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.CRITICAL,
+      `Refunded return ${orderReturn.rmaNumber} of order ${orderReturn.orderId}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'refund_order_return',
+        resourceType: 'order_return',
+        resourceId: id,
+        orderId: orderReturn.orderId,
+        refundMethod: orderReturn.refundMethod,
+        refundCents: orderReturn.refundCents,
+        refundReference: orderReturn.refundReference,
+      },
+      true
+    );
+
+    return NextResponse.json({ orderReturn });
+  } catch (error) {
+    if (error instanceof OrderReturnError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ORDER_RETURN_ERROR_STATUS[error.code] }
+      );
+    }
+    SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+      module: 'admin',
+      operation: 'refund_order_return',
+      tags: { error_type: 'order_return_refund_error' },
+    });
+    return NextResponse.json({ error: 'Failed to refund return' }, { status: 500 });
+  }
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminAnyPermission } from '@/lib/auth/with-auth';
+import { createOrderReturnService } from '@/modules/orders/returns/factories/order-return-service-factory';
+import { ORDER_RETURN_STATUSES } from '@/modules/orders/returns/domain/models/order-return';
+
+const ListReturnsSchema = z.object({
+  status: z.enum(ORDER_RETURN_STATUSES).optional(),
+});
+
+/**
+ * GET /api/admin/orders/returns
+ * Return requests, newest first, optionally in one status
+ * Requires: manage_orders, manage_products or manage_payments permission
+ */
+export const GET = withAdminAnyPermission(['manage_orders', 'manage_products', 'manage_payments'], async (req) => {
+  const parsed = ListReturnsSchema.safeParse(Object.fromEntries(new URL(req.url).searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const returns = await createOrderReturnService().list(parsed.data.status);
+    return NextResponse.json({ returns });
+  } catch (error) {
+    console.error('[Order Returns] Failed to list returns:', error);
+    return NextResponse.json(
+      { error: 'Failed to load returns' },
+      { status: 500 }
+    );
+  }
+});
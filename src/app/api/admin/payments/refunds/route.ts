@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createPaymentRefundService } from '@/modules/payments/refunds/factories/payment-refund-service-factory';
+import { PaymentRefundError, PAYMENT_REFUND_ERROR_STATUS } from '@/modules/payments/refunds/services/payment-refund-service';
+import {
+  PaymentRefundInputSchema,
+  RefundablePaymentFiltersSchema,
+} from '@/modules/payments/refunds/domain/models/payment-refund';
+
+/**
+ * GET /api/admin/payments/refunds
+ * Paid orders and ledger payments with what was refunded so far, newest first
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async (request) => {
+  const parsed = RefundablePaymentFiltersSchema.safeParse(Object.fromEntries(new URL(request.url).searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const payments = await createPaymentRefundService().list(parsed.data);
+    return NextResponse.json({ payments });
+  } catch (error) {
+    console.error('[Payment Refunds] Failed to list payments:', error);
+    return NextResponse.json(
+      { error: 'Failed to load payments' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/payments/refunds
+ * Refund an order (whole or per order line) or a ledger payment through the payment plugin of
+ * its gateway
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments', async (request) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const parsed = PaymentRefundInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const refund = await createPaymentRefundService().refund(parsed.data, request.user.id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.PAYMENT_REFUNDED,
+      SecurityEventSeverity.CRITICAL,
+      `Refunded ${refund.amountCents} ${refund.currency} of ${refund.kind} ${refund.paymentId}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'refund_payment',
+        resourceType: refund.kind === 'order' ? 'order' : 'payment',
+        resourceId: refund.paymentId,
+        refundId: refund.id,
+        gateway: refund.gateway,
+        refundCents: refund.amountCents,
+        gatewayRefundId: refund.gatewayRefundId,
+      },
+      true
+    );
+
+    return NextResponse.json({ refund });
+  } catch (error) {
+    if (error instanceof PaymentRefundError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: PAYMENT_REFUND_ERROR_STATUS[error.code] }
+      );
+    }
+    SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+      module: 'admin',
+      operation: 'refund_payment',
+      tags: { error_type: 'payment_refund_error' },
+    });
+    return NextResponse.json({ error: 'Failed to refund payment' }, { status: 500 });
+  }
+});
@@ -25,7 +25,7 @@ export async function POST(
     await AdminAuthService.verifyAdminPermission('manage_payments');
 
     // Validate provider
-    if (provider !== 'paypal' && provider !== 'stripe') {
+    if (provider !== 'paypal' && provider !== 'stripe' && provider !== 'mercadopago') {
       return NextResponse.json({ error: 'Unsupported provider' }, { status: 400 });
     }
 
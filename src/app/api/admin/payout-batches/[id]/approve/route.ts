@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createPayoutBatchService } from '@/modules/multilevel/factories/payout-batch-service-factory';
+import { PayoutBatchError } from '@/modules/multilevel/services/payout-batch-service';
+
+const ERROR_STATUS: Record<PayoutBatchError['code'], number> = {
+  BATCH_NOT_FOUND: 404,
+  HOLD_NOT_FOUND: 404,
+  SELF_APPROVAL: 403,
+  INVALID_STATUS: 409,
+};
+
+/**
+ * POST /api/admin/payout-batches/[id]/approve
+ * Checker step: approve a batch created by another admin and submit its payouts
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments',
+  async (req, context) => {
+    // ✅ SECURITY: Validate CSRF token
+    const csrfError = await requireCsrfToken(req);
+    if (csrfError) return csrfError;
+
+    try {
+      const { id } = await (context?.params || Promise.resolve({ id: '' }));
+      const batch = await createPayoutBatchService().approveBatch(id, req.user.id);
+
+      // ✅ SECURITY: Audit log for payout approval
+      await SecurityAuditLogger.log(
+        SecurityEventType.ADMIN_ACTION,
+        SecurityEventSeverity.CRITICAL,
+        'Approved payout batch',
+        {
+          ...extractRequestMetadata(req),
+          action: 'approve_payout_batch',
+          resourceType: 'payout_batch',
+          payoutBatchId: id,
+          totalCents: batch.total_cents,
+          currency: batch.currency,
+          status: batch.status,
+        },
+        true
+      );
+
+      return NextResponse.json({ success: true, batch });
+    } catch (error) {
+      if (error instanceof PayoutBatchError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+      }
+      SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+        module: 'admin',
+        operation: 'approve_payout_batch',
+        tags: { error_type: 'payout_error' },
+      });
+      const message = error instanceof Error ? error.message : 'Failed to approve payout batch';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+  }
+);
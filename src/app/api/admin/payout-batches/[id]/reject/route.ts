@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createPayoutBatchService } from '@/modules/multilevel/factories/payout-batch-service-factory';
+import { PayoutBatchError } from '@/modules/multilevel/services/payout-batch-service';
+
+const RejectBatchSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+/**
+ * POST /api/admin/payout-batches/[id]/reject
+ * Reject a pending batch; its members become eligible for the next batch
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments',
+  async (req, context) => {
+    // ✅ SECURITY: Validate CSRF token
+    const csrfError = await requireCsrfToken(req);
+    if (csrfError) return csrfError;
+
+    const parsed = RejectBatchSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request payload', details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const { id } = await (context?.params || Promise.resolve({ id: '' }));
+      const batch = await createPayoutBatchService().rejectBatch(id, req.user.id, parsed.data.reason);
+
+      await SecurityAuditLogger.log(
+        SecurityEventType.ADMIN_ACTION,
+        SecurityEventSeverity.HIGH,
+        'Rejected payout batch',
+        {
+          ...extractRequestMetadata(req),
+          action: 'reject_payout_batch',
+          resourceType: 'payout_batch',
+          payoutBatchId: id,
+        },
+        true
+      );
+
+      return NextResponse.json({ success: true, batch });
+    } catch (error) {
+      if (error instanceof PayoutBatchError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.code === 'BATCH_NOT_FOUND' ? 404 : 409 }
+        );
+      }
+      SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+        module: 'admin',
+        operation: 'reject_payout_batch',
+        tags: { error_type: 'payout_error' },
+      });
+      const message = error instanceof Error ? error.message : 'Failed to reject payout batch';
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+  }
+);
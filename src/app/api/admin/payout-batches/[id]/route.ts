@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createPayoutBatchService } from '@/modules/multilevel/factories/payout-batch-service-factory';
+import { PayoutBatchError } from '@/modules/multilevel/services/payout-batch-service';
+
+/**
+ * GET /api/admin/payout-batches/[id]
+ * Payout batch with the status of each item
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async (_req, context) => {
+  try {
+    const { id } = await (context?.params || Promise.resolve({ id: '' }));
+    const batch = await createPayoutBatchService().getBatch(id);
+    return NextResponse.json({ batch });
+  } catch (error) {
+    if (error instanceof PayoutBatchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 404 });
+    }
+    console.error('[Payout Batches] Failed to load batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to load payout batch' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createPayoutBatchService } from '@/modules/multilevel/factories/payout-batch-service-factory';
+
+const BatchStatusSchema = z
+  .enum(['pending_approval', 'processing', 'completed', 'partially_failed', 'failed', 'rejected'])
+  .optional();
+
+/**
+ * GET /api/admin/payout-batches
+ * List payout batches, newest first. Optional ?status= filter
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async (req) => {
+  const { searchParams } = new URL(req.url);
+  const status = BatchStatusSchema.safeParse(searchParams.get('status') ?? undefined);
+
+  if (!status.success) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: status.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const batches = await createPayoutBatchService().listBatches(status.data);
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('[Payout Batches] Failed to list batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to load payout batches' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/payout-batches
+ * Maker step: group eligible balances by cadence, provider and currency into batches that
+ * wait for another admin's approval
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments', async (req) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) return csrfError;
+
+  try {
+    const result = await createPayoutBatchService().createBatches(req.user.id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.HIGH,
+      `Created ${result.batches.length} payout batch(es) for period ${result.period}`,
+      {
+        ...extractRequestMetadata(req),
+        action: 'create_payout_batches',
+        resourceType: 'payout_batch',
+        batchIds: result.batches.map((batch) => batch.id),
+        skipped: result.skipped,
+      },
+      true
+    );
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+      module: 'admin',
+      operation: 'create_payout_batches',
+      tags: { error_type: 'payout_error' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to create payout batches';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+});
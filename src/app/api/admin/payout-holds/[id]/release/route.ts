@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createPayoutBatchService } from '@/modules/multilevel/factories/payout-batch-service-factory';
+import { PayoutBatchError } from '@/modules/multilevel/services/payout-batch-service';
+
+/**
+ * POST /api/admin/payout-holds/[id]/release
+ * Release a payout hold so the member is included in the next batch
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments',
+  async (req, context) => {
+    // ✅ SECURITY: Validate CSRF token
+    const csrfError = await requireCsrfToken(req);
+    if (csrfError) return csrfError;
+
+    try {
+      const { id } = await (context?.params || Promise.resolve({ id: '' }));
+      const hold = await createPayoutBatchService().releaseHold(id, req.user.id);
+
+      await SecurityAuditLogger.log(
+        SecurityEventType.ADMIN_ACTION,
+        SecurityEventSeverity.HIGH,
+        'Released payout hold',
+        {
+          ...extractRequestMetadata(req),
+          action: 'release_payout_hold',
+          resourceType: 'payout_hold',
+          resourceId: id,
+          targetUserId: hold.user_id,
+        },
+        true
+      );
+
+      return NextResponse.json({ hold });
+    } catch (error) {
+      if (error instanceof PayoutBatchError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: 404 });
+      }
+      console.error('[Payout Holds] Failed to release hold:', error);
+      return NextResponse.json(
+        { error: 'Failed to release payout hold' },
+        { status: 500 }
+      );
+    }
+  }
+);
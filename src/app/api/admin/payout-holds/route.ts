@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createPayoutBatchService } from '@/modules/multilevel/factories/payout-batch-service-factory';
+
+const PayoutHoldSchema = z.object({
+  userId: z.string().uuid(),
+  reason: z.string().trim().min(1).max(500),
+});
+
+/**
+ * GET /api/admin/payout-holds
+ * Active payout holds, newest first
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async () => {
+  try {
+    const holds = await createPayoutBatchService().listHolds();
+    return NextResponse.json({ holds });
+  } catch (error) {
+    console.error('[Payout Holds] Failed to list holds:', error);
+    return NextResponse.json(
+      { error: 'Failed to load payout holds' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/payout-holds
+ * Keep a member out of payout batches until the hold is released
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments', async (req) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) return csrfError;
+
+  const parsed = PayoutHoldSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const hold = await createPayoutBatchService().placeHold(parsed.data.userId, parsed.data.reason, req.user.id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.HIGH,
+      'Placed payout hold',
+      {
+        ...extractRequestMetadata(req),
+        action: 'place_payout_hold',
+        resourceType: 'payout_hold',
+        resourceId: hold.id,
+        targetUserId: parsed.data.userId,
+      },
+      true
+    );
+
+    return NextResponse.json({ hold }, { status: 201 });
+  } catch (error) {
+    console.error('[Payout Holds] Failed to place hold:', error);
+    return NextResponse.json(
+      { error: 'Failed to place payout hold' },
+      { status: 500 }
+    );
+  }
+});
@@ -34,6 +34,8 @@ export const PUT = withAdminPermission('manage_settings', async (request, contex
     if (validated.affiliateSponsorCommissionRate !== undefined) updateData.affiliate_sponsor_commission_rate = validated.affiliateSponsorCommissionRate;
     if (validated.creditCents !== undefined) updateData.credit_cents = validated.creditCents;
     if (validated.freeProductValueCents !== undefined) updateData.free_product_value_cents = validated.freeProductValueCents;
+    if (validated.minPersonalVolume !== undefined) updateData.min_personal_volume = validated.minPersonalVolume;
+    if (validated.minGroupVolume !== undefined) updateData.min_group_volume = validated.minGroupVolume;
     if (validated.isActive !== undefined) updateData.is_active = validated.isActive;
     if (validated.displayOrder !== undefined) updateData.display_order = validated.displayOrder;
 
@@ -64,6 +66,8 @@ export const PUT = withAdminPermission('manage_settings', async (request, contex
           affiliateSponsorCommissionRate: Number(currentData.affiliate_sponsor_commission_rate ?? 0),
           creditCents: currentData.credit_cents,
           freeProductValueCents: currentData.free_product_value_cents ?? (currentData.level === 1 ? 6500 : 0),
+          minPersonalVolume: Number(currentData.min_personal_volume ?? 0),
+          minGroupVolume: Number(currentData.min_group_volume ?? 0),
           isActive: currentData.is_active,
           displayOrder: currentData.display_order,
           createdAt: currentData.created_at,
@@ -117,6 +121,8 @@ export const PUT = withAdminPermission('manage_settings', async (request, contex
         affiliateSponsorCommissionRate: Number(updatedPhase.affiliate_sponsor_commission_rate ?? 0),
         creditCents: updatedPhase.credit_cents,
         freeProductValueCents: updatedPhase.free_product_value_cents ?? (updatedPhase.level === 1 ? 6500 : 0),
+        minPersonalVolume: Number(updatedPhase.min_personal_volume ?? 0),
+        minGroupVolume: Number(updatedPhase.min_group_volume ?? 0),
         isActive: updatedPhase.is_active,
         displayOrder: updatedPhase.display_order,
         createdAt: updatedPhase.created_at,
@@ -37,6 +37,8 @@ export const GET = withAdminPermission('manage_settings', async () => {
         affiliateSponsorCommissionRate: Number(level.affiliate_sponsor_commission_rate ?? 0),
         creditCents: level.credit_cents,
         freeProductValueCents: level.free_product_value_cents ?? (level.level === 1 ? 6500 : 0),
+        minPersonalVolume: Number(level.min_personal_volume ?? 0),
+        minGroupVolume: Number(level.min_group_volume ?? 0),
         isActive: level.is_active,
         displayOrder: level.display_order,
         createdAt: level.created_at,
@@ -80,6 +82,8 @@ export const POST = withAdminPermission('manage_settings', async (request) => {
         affiliate_sponsor_commission_rate: validated.affiliateSponsorCommissionRate,
         credit_cents: validated.creditCents,
         free_product_value_cents: validated.freeProductValueCents,
+        min_personal_volume: validated.minPersonalVolume,
+        min_group_volume: validated.minGroupVolume,
         is_active: validated.isActive,
         display_order: validated.displayOrder,
       })
@@ -118,6 +122,8 @@ export const POST = withAdminPermission('manage_settings', async (request) => {
         affiliateSponsorCommissionRate: Number(data.affiliate_sponsor_commission_rate ?? 0),
         creditCents: data.credit_cents,
         freeProductValueCents: data.free_product_value_cents ?? (data.level === 1 ? 6500 : 0),
+        minPersonalVolume: Number(data.min_personal_volume ?? 0),
+        minGroupVolume: Number(data.min_group_volume ?? 0),
         isActive: data.is_active,
         displayOrder: data.display_order,
         createdAt: data.created_at,
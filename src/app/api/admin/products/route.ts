@@ -13,7 +13,7 @@ export const GET = withAdminPermission('manage_products', async () => {
     const supabaseAdmin = getAdminClient();
     const { data, error } = await supabaseAdmin
       .from('products')
-      .select('*')
+      .select('*, variants:product_variants(*)')
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createPromotionService } from '@/modules/orders/promotions/factories/promotion-service-factory';
+import { PromotionError, PROMOTION_ERROR_STATUS } from '@/modules/orders/promotions/services/promotion-service';
+import { PromotionInputSchema } from '@/modules/orders/promotions/domain/models/promotion';
+
+/**
+ * PUT /api/admin/promotions/[id]
+ * Update a promotion. Paid orders keep the discount they were given
+ * Requires: manage_products permission
+ */
+export const PUT = withAdminPermission('manage_products', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  const parsed = PromotionInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const promotion = await createPromotionService().update(id, parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Updated promotion ${promotion.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'update_promotion',
+        resourceType: 'promotion',
+        resourceId: id,
+        code: promotion.code,
+        isActive: promotion.isActive,
+      },
+      true
+    );
+
+    return NextResponse.json({ promotion });
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: PROMOTION_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Promotions] Failed to update promotion:', error);
+    return NextResponse.json({ error: 'Failed to update promotion' }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/admin/promotions/[id]
+ * Delete a promotion together with its usage history. Paid orders keep their discount
+ * Requires: manage_products permission
+ */
+export const DELETE = withAdminPermission('manage_products', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  try {
+    await createPromotionService().delete(id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      'Deleted promotion',
+      {
+        ...extractRequestMetadata(request),
+        action: 'delete_promotion',
+        resourceType: 'promotion',
+        resourceId: id,
+      },
+      true
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: PROMOTION_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Promotions] Failed to delete promotion:', error);
+    return NextResponse.json({ error: 'Failed to delete promotion' }, { status: 500 });
+  }
+});
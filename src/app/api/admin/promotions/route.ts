@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createPromotionService } from '@/modules/orders/promotions/factories/promotion-service-factory';
+import { PromotionError, PROMOTION_ERROR_STATUS } from '@/modules/orders/promotions/services/promotion-service';
+import { PromotionInputSchema } from '@/modules/orders/promotions/domain/models/promotion';
+
+/**
+ * GET /api/admin/promotions
+ * Coupons and cart rules with the orders they were used on
+ * Requires: manage_products permission
+ */
+export const GET = withAdminPermission('manage_products', async () => {
+  try {
+    const promotions = await createPromotionService().list();
+    return NextResponse.json({ promotions });
+  } catch (error) {
+    console.error('[Promotions] Failed to load promotions:', error);
+    return NextResponse.json(
+      { error: 'Failed to load promotions' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/promotions
+ * Create a coupon or a cart rule
+ * Requires: manage_products permission
+ */
+export const POST = withAdminPermission('manage_products', async (request) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const parsed = PromotionInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const promotion = await createPromotionService().create(parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Created promotion ${promotion.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'create_promotion',
+        resourceType: 'promotion',
+        resourceId: promotion.id,
+        code: promotion.code,
+        type: promotion.rules.type,
+      },
+      true
+    );
+
+    return NextResponse.json({ promotion }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: PROMOTION_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Promotions] Failed to create promotion:', error);
+    return NextResponse.json({ error: 'Failed to create promotion' }, { status: 500 });
+  }
+});
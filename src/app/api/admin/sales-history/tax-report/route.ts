@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+
+export const dynamic = 'force-dynamic';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+const TaxReportQuerySchema = z
+  .object({ from: isoDate, to: isoDate })
+  .refine((query) => query.from <= query.to, { message: 'The start date must not be after the end date', path: ['to'] });
+
+/**
+ * GET /api/admin/sales-history/tax-report?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Tax collected per jurisdiction and rate on the orders of the period
+ * Requires: view_reports permission
+ */
+export const GET = withAdminPermission('view_reports', async (request) => {
+  const { searchParams } = new URL(request.url);
+  const parsed = TaxReportQuerySchema.safeParse({
+    from: searchParams.get('from'),
+    to: searchParams.get('to'),
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await createTaxService().getReport(parsed.data.from, parsed.data.to);
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('[Tax] Failed to build tax report:', error);
+    return NextResponse.json({ error: 'Failed to build tax report' }, { status: 500 });
+  }
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+import { ShippingError, SHIPPING_ERROR_STATUS } from '@/modules/orders/shipping/services/shipping-rate-service';
+import { ShippingCarrierInputSchema } from '@/modules/orders/shipping/domain/models/shipping';
+
+/**
+ * PUT /api/admin/shipping/carriers/[id]
+ * Update a shipping carrier
+ * Requires: manage_settings permission
+ */
+export const PUT = withAdminPermission('manage_settings', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  const parsed = ShippingCarrierInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const carrier = await createShippingRateService().updateCarrier(id, parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Updated shipping carrier ${carrier.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'update_shipping_carrier',
+        resourceType: 'shipping_carrier',
+        resourceId: id,
+      },
+      true
+    );
+
+    return NextResponse.json({ carrier });
+  } catch (error) {
+    if (error instanceof ShippingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SHIPPING_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Shipping] Failed to update carrier:', error);
+    return NextResponse.json({ error: 'Failed to update shipping carrier' }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/admin/shipping/carriers/[id]
+ * Delete a shipping carrier
+ * Requires: manage_settings permission
+ */
+export const DELETE = withAdminPermission('manage_settings', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  try {
+    await createShippingRateService().deleteCarrier(id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      'Deleted shipping carrier',
+      {
+        ...extractRequestMetadata(request),
+        action: 'delete_shipping_carrier',
+        resourceType: 'shipping_carrier',
+        resourceId: id,
+      },
+      true
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ShippingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SHIPPING_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Shipping] Failed to delete carrier:', error);
+    return NextResponse.json({ error: 'Failed to delete shipping carrier' }, { status: 500 });
+  }
+});
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+import { ShippingError, SHIPPING_ERROR_STATUS } from '@/modules/orders/shipping/services/shipping-rate-service';
+import { ShippingCarrierInputSchema } from '@/modules/orders/shipping/domain/models/shipping';
+
+/**
+ * POST /api/admin/shipping/carriers
+ * Create a shipping carrier
+ * Requires: manage_settings permission
+ */
+export const POST = withAdminPermission('manage_settings', async (request) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const parsed = ShippingCarrierInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const carrier = await createShippingRateService().createCarrier(parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Created shipping carrier ${carrier.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'create_shipping_carrier',
+        resourceType: 'shipping_carrier',
+        resourceId: carrier.id,
+      },
+      true
+    );
+
+    return NextResponse.json({ carrier }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ShippingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SHIPPING_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Shipping] Failed to create carrier:', error);
+    return NextResponse.json({ error: 'Failed to create shipping carrier' }, { status: 500 });
+  }
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+import { ShippingRateInputSchema } from '@/modules/orders/shipping/domain/models/shipping';
+
+/**
+ * POST /api/admin/shipping/rates
+ * Create a shipping rate
+ * Requires: manage_settings permission
+ */
+export const POST = withAdminPermission('manage_settings', async (request) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const parsed = ShippingRateInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rate = await createShippingRateService().createRate(parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Created shipping rate ${rate.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'create_shipping_rate',
+        resourceType: 'shipping_rate',
+        resourceId: rate.id,
+        zoneId: rate.zoneId,
+        priceCents: rate.priceCents,
+      },
+      true
+    );
+
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    console.error('[Shipping] Failed to create rate:', error);
+    return NextResponse.json({ error: 'Failed to create shipping rate' }, { status: 500 });
+  }
+});
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { withAdminAnyPermission } from '@/lib/auth/with-auth';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+
+/**
+ * GET /api/admin/shipping
+ * Shipping zones, their rate tables and the carriers
+ * Requires: manage_settings, manage_orders or manage_products permission
+ */
+export const GET = withAdminAnyPermission(['manage_settings', 'manage_orders', 'manage_products'], async () => {
+  try {
+    const config = await createShippingRateService().getConfig();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('[Shipping] Failed to load shipping configuration:', error);
+    return NextResponse.json(
+      { error: 'Failed to load shipping configuration' },
+      { status: 500 }
+    );
+  }
+});
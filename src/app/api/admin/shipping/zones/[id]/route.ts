@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+import { ShippingError, SHIPPING_ERROR_STATUS } from '@/modules/orders/shipping/services/shipping-rate-service';
+import { ShippingZoneInputSchema } from '@/modules/orders/shipping/domain/models/shipping';
+
+/**
+ * PUT /api/admin/shipping/zones/[id]
+ * Update a shipping zone
+ * Requires: manage_settings permission
+ */
+export const PUT = withAdminPermission('manage_settings', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  const parsed = ShippingZoneInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const zone = await createShippingRateService().updateZone(id, parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Updated shipping zone ${zone.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'update_shipping_zone',
+        resourceType: 'shipping_zone',
+        resourceId: id,
+        countryCodes: zone.countryCodes,
+      },
+      true
+    );
+
+    return NextResponse.json({ zone });
+  } catch (error) {
+    if (error instanceof ShippingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SHIPPING_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Shipping] Failed to update zone:', error);
+    return NextResponse.json({ error: 'Failed to update shipping zone' }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/admin/shipping/zones/[id]
+ * Delete a shipping zone with its rates
+ * Requires: manage_settings permission
+ */
+export const DELETE = withAdminPermission('manage_settings', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  try {
+    await createShippingRateService().deleteZone(id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      'Deleted shipping zone',
+      {
+        ...extractRequestMetadata(request),
+        action: 'delete_shipping_zone',
+        resourceType: 'shipping_zone',
+        resourceId: id,
+      },
+      true
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof ShippingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SHIPPING_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Shipping] Failed to delete zone:', error);
+    return NextResponse.json({ error: 'Failed to delete shipping zone' }, { status: 500 });
+  }
+});
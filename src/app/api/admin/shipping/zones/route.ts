@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+import { ShippingZoneInputSchema } from '@/modules/orders/shipping/domain/models/shipping';
+
+/**
+ * POST /api/admin/shipping/zones
+ * Create a shipping zone
+ * Requires: manage_settings permission
+ */
+export const POST = withAdminPermission('manage_settings', async (request) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const parsed = ShippingZoneInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const zone = await createShippingRateService().createZone(parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Created shipping zone ${zone.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'create_shipping_zone',
+        resourceType: 'shipping_zone',
+        resourceId: zone.id,
+        countryCodes: zone.countryCodes,
+      },
+      true
+    );
+
+    return NextResponse.json({ zone }, { status: 201 });
+  } catch (error) {
+    console.error('[Shipping] Failed to create zone:', error);
+    return NextResponse.json({ error: 'Failed to create shipping zone' }, { status: 500 });
+  }
+});
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+import { TaxError, TAX_ERROR_STATUS } from '@/modules/orders/tax/services/tax-service';
+
+/**
+ * DELETE /api/admin/tax/countries/[countryCode]
+ * Remove the pricing mode of a country, which falls back to prices excluding tax
+ * Requires: manage_settings permission
+ */
+export const DELETE = withAdminPermission('manage_settings', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { countryCode } = await (context?.params as Promise<{ countryCode: string }>);
+
+  try {
+    await createTaxService().deleteCountry(countryCode);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Removed tax pricing mode of ${countryCode.toUpperCase()}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'delete_tax_country',
+        resourceType: 'tax_country',
+        resourceId: countryCode.toUpperCase(),
+      },
+      true
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: TAX_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Tax] Failed to delete country:', error);
+    return NextResponse.json({ error: 'Failed to delete tax country' }, { status: 500 });
+  }
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+import { TaxCountryInputSchema } from '@/modules/orders/tax/domain/models/tax';
+
+/**
+ * POST /api/admin/tax/countries
+ * Set whether the prices of a country include tax
+ * Requires: manage_settings permission
+ */
+export const POST = withAdminPermission('manage_settings', async (request) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const parsed = TaxCountryInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const country = await createTaxService().saveCountry(parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Set tax pricing mode of ${country.countryCode}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'save_tax_country',
+        resourceType: 'tax_country',
+        resourceId: country.countryCode,
+        pricesIncludeTax: country.pricesIncludeTax,
+      },
+      true
+    );
+
+    return NextResponse.json({ country });
+  } catch (error) {
+    console.error('[Tax] Failed to save country:', error);
+    return NextResponse.json({ error: 'Failed to save tax country' }, { status: 500 });
+  }
+});
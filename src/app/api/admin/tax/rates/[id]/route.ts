@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+import { TaxError, TAX_ERROR_STATUS } from '@/modules/orders/tax/services/tax-service';
+import { TaxRateInputSchema } from '@/modules/orders/tax/domain/models/tax';
+
+/**
+ * PUT /api/admin/tax/rates/[id]
+ * Update a tax rate. Paid orders keep the rate they were taxed with
+ * Requires: manage_settings permission
+ */
+export const PUT = withAdminPermission('manage_settings', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  const parsed = TaxRateInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rate = await createTaxService().updateRate(id, parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Updated tax rate ${rate.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'update_tax_rate',
+        resourceType: 'tax_rate',
+        resourceId: id,
+        countryCode: rate.countryCode,
+        regionCode: rate.regionCode,
+        rateBps: rate.rateBps,
+      },
+      true
+    );
+
+    return NextResponse.json({ rate });
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: TAX_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Tax] Failed to update rate:', error);
+    return NextResponse.json({ error: 'Failed to update tax rate' }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/admin/tax/rates/[id]
+ * Delete a tax rate
+ * Requires: manage_settings permission
+ */
+export const DELETE = withAdminPermission('manage_settings', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  try {
+    await createTaxService().deleteRate(id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      'Deleted tax rate',
+      {
+        ...extractRequestMetadata(request),
+        action: 'delete_tax_rate',
+        resourceType: 'tax_rate',
+        resourceId: id,
+      },
+      true
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof TaxError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: TAX_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Tax] Failed to delete rate:', error);
+    return NextResponse.json({ error: 'Failed to delete tax rate' }, { status: 500 });
+  }
+});
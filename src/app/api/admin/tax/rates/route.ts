@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+import { TaxRateInputSchema } from '@/modules/orders/tax/domain/models/tax';
+
+/**
+ * POST /api/admin/tax/rates
+ * Create a tax rate
+ * Requires: manage_settings permission
+ */
+export const POST = withAdminPermission('manage_settings', async (request) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const parsed = TaxRateInputSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rate = await createTaxService().createRate(parsed.data);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Created tax rate ${rate.name}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'create_tax_rate',
+        resourceType: 'tax_rate',
+        resourceId: rate.id,
+        countryCode: rate.countryCode,
+        regionCode: rate.regionCode,
+        rateBps: rate.rateBps,
+      },
+      true
+    );
+
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    console.error('[Tax] Failed to create rate:', error);
+    return NextResponse.json({ error: 'Failed to create tax rate' }, { status: 500 });
+  }
+});
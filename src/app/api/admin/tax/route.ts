@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { withAdminAnyPermission } from '@/lib/auth/with-auth';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+
+/**
+ * GET /api/admin/tax
+ * Pricing mode of each country and the tax rates
+ * Requires: manage_settings, manage_orders or manage_products permission
+ */
+export const GET = withAdminAnyPermission(['manage_settings', 'manage_orders', 'manage_products'], async () => {
+  try {
+    const config = await createTaxService().getConfig();
+    return NextResponse.json(config);
+  } catch (error) {
+    console.error('[Tax] Failed to load tax configuration:', error);
+    return NextResponse.json(
+      { error: 'Failed to load tax configuration' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createPhaseEvaluationService } from '@/modules/opportunity/factories/phase-evaluation-service-factory';
+
+/**
+ * GET /api/admin/users/[id]/phase-evaluation
+ * Explain what the phase evaluation engine would decide for the user right now (dry run),
+ * together with the audit trail of previous billing-cycle closes
+ * Requires: manage_users permission
+ */
+export const GET = withAdminPermission('manage_users', async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id: userId } = await params;
+    const phaseEvaluationService = createPhaseEvaluationService();
+
+    const [evaluation, history] = await Promise.all([
+      phaseEvaluationService.evaluateMember(userId, { dryRun: true }),
+      phaseEvaluationService.getHistory(userId),
+    ]);
+
+    return NextResponse.json({ evaluation, history });
+  } catch (error) {
+    console.error('Error in GET /api/admin/users/[id]/phase-evaluation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+})
+
+/**
+ * POST /api/admin/users/[id]/phase-evaluation
+ * Run the phase evaluation for the user now and apply the result
+ * Requires: manage_users permission
+ */
+export const POST = withAdminPermission('manage_users', async (
+  req,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) {
+    return csrfError;
+  }
+
+  try {
+    const { id: userId } = await params;
+    const phaseEvaluationService = createPhaseEvaluationService();
+    const evaluation = await phaseEvaluationService.evaluateMember(userId);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.HIGH,
+      'Ran phase evaluation',
+      {
+        ...extractRequestMetadata(req),
+        action: 'evaluate_user_phase',
+        resourceType: 'user_phase',
+        userId,
+        previousPhase: evaluation.previousPhase,
+        newPhase: evaluation.appliedPhase,
+        evaluationAction: evaluation.action,
+      },
+      true
+    );
+
+    return NextResponse.json({ evaluation });
+  } catch (error) {
+    console.error('Error in POST /api/admin/users/[id]/phase-evaluation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+})
@@ -11,6 +11,9 @@ import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity } from '@
 import { requireCsrfToken } from '@/lib/security/csrf-protection';
 import { withAdminPermission } from '@/lib/auth/with-auth';
 import { getAdminClient } from '@/lib/supabase/admin'; // ✅ SECURITY: Use centralized admin client
+import { createNetworkMoveService } from '@/modules/multilevel/factories/network-move-service-factory';
+import { NetworkMoveError } from '@/modules/multilevel/services/network-move-service';
+import { NetworkCapacityError } from '@/modules/multilevel/services/network-capacity-service';
 
 const SUBSCRIPTION_STATUSES = ['active', 'past_due', 'canceled', 'unpaid'] as const satisfies readonly SubscriptionStatus[];
 const PAYMENT_GATEWAYS = ['stripe', 'paypal', 'wallet'] as const satisfies readonly PaymentGateway[];
@@ -156,6 +159,7 @@ export const PUT = withAdminPermission('manage_users', async (request, context)
 
         let profileUpdates: Record<string, unknown> | undefined;
         let resetReferredBy = false;
+        let sponsorChange: string | null | undefined;
 
         if (parsedBody.profile) {
             const draftProfile = { ...parsedBody.profile };
@@ -227,6 +231,11 @@ export const PUT = withAdminPermission('manage_users', async (request, context)
             if (resetReferredBy) {
                 profileUpdates.referred_by = null;
             }
+
+            if ('referred_by' in profileUpdates) {
+                sponsorChange = (profileUpdates.referred_by as string | null | undefined) ?? null;
+                delete profileUpdates.referred_by;
+            }
         }
 
         // Parse subscription updates
@@ -249,7 +258,39 @@ export const PUT = withAdminPermission('manage_users', async (request, context)
             ? NetworkEarningsUpdateSchema.parse(parsedBody.networkEarnings)
             : undefined;
 
-        if (profileUpdates) {
+        // Sponsor changes go through a network move: cycle and capacity checks, audit log and rollback
+        if (sponsorChange !== undefined) {
+            const { data: currentProfile } = await supabaseAdmin
+                .from('profiles')
+                .select('referred_by')
+                .eq('id', userId)
+                .maybeSingle();
+
+            if ((currentProfile?.referred_by ?? null) !== sponsorChange) {
+                try {
+                    await createNetworkMoveService().moveMember(
+                        {
+                            userId,
+                            targetParentId: sponsorChange,
+                            moveType: 'sponsor',
+                            scope: 'subtree',
+                            reason: 'Sponsor changed from the admin user form',
+                        },
+                        request.user.id
+                    );
+                } catch (error) {
+                    if (error instanceof NetworkMoveError || error instanceof NetworkCapacityError) {
+                        return NextResponse.json(
+                            { error: error.message, code: error.code },
+                            { status: 409 }
+                        );
+                    }
+                    throw error;
+                }
+            }
+        }
+
+        if (profileUpdates && Object.keys(profileUpdates).length > 0) {
             const { error } = await supabaseAdmin
                 .from('profiles')
                 .update(profileUpdates)
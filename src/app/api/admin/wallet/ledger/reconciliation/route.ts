@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createLedgerService } from '@/modules/multilevel/factories/ledger-service-factory';
+
+/**
+ * GET /api/admin/wallet/ledger/reconciliation
+ * Compare wallet balances and unpaid commissions against the double-entry ledger
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async () => {
+  try {
+    const report = await createLedgerService().getReconciliationReport();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('[Ledger Reconciliation] Failed to build report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build reconciliation report' },
+      { status: 500 }
+    );
+  }
+});
@@ -61,6 +61,10 @@ export async function PATCH(
       updates.responsible_company = payload.responsibleCompany;
     }
 
+    if (payload.carrierId !== undefined) {
+      updates.carrier_id = payload.carrierId;
+    }
+
     if (payload.trackingCode !== undefined) {
       updates.tracking_code = payload.trackingCode;
     }
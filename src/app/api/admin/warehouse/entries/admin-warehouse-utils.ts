@@ -7,6 +7,7 @@ import {
   WarehouseTrackingEventSchema,
   WAREHOUSE_TRACKING_STATUSES,
 } from '@/modules/orders/warehouse/domain/models/warehouse-tracking';
+import { buildTrackingUrl } from '@/modules/orders/shipping/domain/shipping-quote';
 
 /**
  * Shared schema for the admin warehouse tracking view rows.
@@ -30,6 +31,8 @@ export const adminRowSchema = z.object({
   customer_name: z.string().nullable(),
   customer_email: z.string().nullable(),
   fulfillment_company: z.string().nullable(),
+  carrier_id: z.string().nullable().optional(),
+  tracking_url_template: z.string().nullable().optional(),
 });
 
 export type AdminWarehouseRow = z.infer<typeof adminRowSchema>;
@@ -41,7 +44,9 @@ export const mapRowToEvent = (row: AdminWarehouseRow) =>
     orderCode: row.order_code ?? null,
     status: row.status,
     responsibleCompany: row.responsible_company ?? row.fulfillment_company ?? null,
+    carrierId: row.carrier_id ?? null,
     trackingCode: row.tracking_code,
+    trackingUrl: buildTrackingUrl(row.tracking_url_template ?? null, row.tracking_code),
     location: row.location,
     note: row.note,
     estimatedDelivery: row.estimated_delivery ? new Date(row.estimated_delivery).toISOString() : null,
@@ -127,7 +127,7 @@ export async function POST(request: NextRequest) {
 
     const { data: order, error: orderError } = await adminClient
       .from('orders')
-      .select('id, user_id, status')
+      .select('id, user_id, status, shipping_carrier_id')
       .eq('id', payload.orderId)
       .single();
 
@@ -146,7 +146,20 @@ export async function POST(request: NextRequest) {
       .eq('id', order.user_id)
       .maybeSingle();
 
-    const defaultCompany = (profile?.fulfillment_company as string | null) ?? null;
+    // Updates default to the carrier the customer chose at checkout
+    const carrierId = payload.carrierId !== undefined
+      ? payload.carrierId
+      : ((order.shipping_carrier_id as string | null) ?? null);
+
+    let defaultCompany = (profile?.fulfillment_company as string | null) ?? null;
+    if (carrierId && !payload.responsibleCompany) {
+      const { data: carrier } = await adminClient
+        .from('shipping_carriers')
+        .select('name')
+        .eq('id', carrierId)
+        .maybeSingle();
+      defaultCompany = (carrier?.name as string | undefined) ?? defaultCompany;
+    }
 
     const estimatedDelivery = payload.estimatedDelivery
       ? new Date(payload.estimatedDelivery)
@@ -159,6 +172,7 @@ export async function POST(request: NextRequest) {
       order_id: payload.orderId,
       status: payload.status,
       responsible_company: payload.responsibleCompany ?? defaultCompany,
+      carrier_id: carrierId,
       location: payload.location ?? null,
       note: payload.note ?? null,
       estimated_delivery: estimatedDelivery ? estimatedDelivery.toISOString().slice(0, 10) : null,
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { SentryLogger } from '@/modules/observability/services/sentry-logger';
+import { createStockService } from '@/modules/products/factories/stock-service-factory';
+import { StockError, type StockErrorCode } from '@/modules/products/services/stock-service';
+
+const ListMovementsSchema = z.object({
+  productId: z.string().uuid().optional(),
+  variantId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+const RecordMovementSchema = z.object({
+  productId: z.string().uuid(),
+  variantId: z.string().uuid().optional().nullable(),
+  kind: z.enum(['receipt', 'return', 'adjustment', 'damage']),
+  quantity: z.number().int().refine((value) => value !== 0, 'Quantity cannot be zero'),
+  note: z.string().trim().max(500).optional().nullable(),
+  orderId: z.string().uuid().optional().nullable(),
+});
+
+const ERROR_STATUS: Record<StockErrorCode, number> = {
+  INSUFFICIENT_STOCK: 409,
+  INVALID_RESERVATION: 400,
+  INVALID_MOVEMENT: 400,
+  PRODUCT_NOT_FOUND: 404,
+  VARIANT_REQUIRED: 400,
+};
+
+/**
+ * GET /api/admin/warehouse/stock/movements
+ * Stock ledger, newest first, optionally for one product or variant
+ * Requires: manage_products permission
+ */
+export const GET = withAdminPermission('manage_products', async (req) => {
+  const parsed = ListMovementsSchema.safeParse(Object.fromEntries(new URL(req.url).searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { productId, variantId, limit } = parsed.data;
+    const movements = await createStockService().listMovements({ productId, variantId }, limit);
+    return NextResponse.json({ movements });
+  } catch (error) {
+    console.error('[Warehouse Stock] Failed to list stock movements:', error);
+    return NextResponse.json(
+      { error: 'Failed to load stock movements' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/warehouse/stock/movements
+ * Record a receipt, return, adjustment or damage. Receipts, returns and damage take the units
+ * moved; adjustments take the signed correction.
+ * Requires: manage_products permission
+ */
+export const POST = withAdminPermission('manage_products', async (req) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) return csrfError;
+
+  const parsed = RecordMovementSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const movement = await createStockService().recordMovement({
+      ...parsed.data,
+      note: parsed.data.note ?? null,
+      orderId: parsed.data.orderId ?? null,
+      createdBy: req.user.id,
+    });
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.INFO,
+      `Recorded stock ${movement.kind} of ${movement.quantity} units`,
+      {
+        ...extractRequestMetadata(req),
+        action: 'record_stock_movement',
+        resourceType: 'product',
+        productId: movement.productId,
+        variantId: movement.variantId,
+        stockMovementId: movement.id,
+        kind: movement.kind,
+        quantity: movement.quantity,
+        stockAfter: movement.stockAfter,
+      },
+      true
+    );
+
+    return NextResponse.json({ success: true, movement }, { status: 201 });
+  } catch (error) {
+    if (error instanceof StockError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: ERROR_STATUS[error.code] }
+      );
+    }
+    SentryLogger.captureException(error instanceof Error ? error : new Error(String(error)), {
+      module: 'admin',
+      operation: 'record_stock_movement',
+      tags: { error_type: 'stock_movement_error' },
+    });
+    const message = error instanceof Error ? error.message : 'Failed to record stock movement';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+});
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createStockService } from '@/modules/products/factories/stock-service-factory';
+
+/**
+ * GET /api/admin/warehouse/stock
+ * Stock on hand, reserved and available units per product, with the low stock count
+ * Requires: manage_products permission
+ */
+export const GET = withAdminPermission('manage_products', async () => {
+  try {
+    const levels = await createStockService().getLevels();
+    return NextResponse.json(levels);
+  } catch (error) {
+    console.error('[Warehouse Stock] Failed to load stock levels:', error);
+    return NextResponse.json(
+      { error: 'Failed to load stock levels' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { SecurityAuditLogger, SecurityEventType, SecurityEventSeverity, extractRequestMetadata } from '@/lib/security/audit-logger';
+import { createWebhookPipelineService } from '@/modules/payments/webhooks/factories/webhook-pipeline-service-factory';
+import { WebhookError, WEBHOOK_ERROR_STATUS } from '@/modules/payments/webhooks/services/webhook-pipeline-service';
+
+/**
+ * POST /api/admin/webhooks/[id]/replay
+ * Run a webhook event again with a fresh retry count, taking it out of the dead-letter queue
+ * Requires: manage_payments permission
+ */
+export const POST = withAdminPermission('manage_payments', async (request, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(request);
+  if (csrfError) return csrfError;
+
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  try {
+    const event = await createWebhookPipelineService().replay(id);
+
+    await SecurityAuditLogger.log(
+      SecurityEventType.ADMIN_ACTION,
+      SecurityEventSeverity.WARNING,
+      `Replayed ${event.provider} webhook event ${event.eventId}`,
+      {
+        ...extractRequestMetadata(request),
+        action: 'replay_webhook_event',
+        resourceType: 'webhook_event',
+        resourceId: id,
+        provider: event.provider,
+        eventType: event.eventType,
+        status: event.status,
+      },
+      true
+    );
+
+    return NextResponse.json({ event });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: WEBHOOK_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Webhooks] Failed to replay webhook event:', error);
+    return NextResponse.json({ error: 'Failed to replay webhook event' }, { status: 500 });
+  }
+});
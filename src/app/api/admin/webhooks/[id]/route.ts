@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createWebhookPipelineService } from '@/modules/payments/webhooks/factories/webhook-pipeline-service-factory';
+import { WebhookError, WEBHOOK_ERROR_STATUS } from '@/modules/payments/webhooks/services/webhook-pipeline-service';
+
+/**
+ * GET /api/admin/webhooks/[id]
+ * A webhook event with its raw payload and its dead-letter entry
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async (_request, context) => {
+  const { id } = await (context?.params as Promise<{ id: string }>);
+
+  try {
+    const event = await createWebhookPipelineService().getEvent(id);
+    return NextResponse.json({ event });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: WEBHOOK_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[Webhooks] Failed to load webhook event:', error);
+    return NextResponse.json({ error: 'Failed to load webhook event' }, { status: 500 });
+  }
+});
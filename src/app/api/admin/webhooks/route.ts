@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withAdminPermission } from '@/lib/auth/with-auth';
+import { createWebhookPipelineService } from '@/modules/payments/webhooks/factories/webhook-pipeline-service-factory';
+import { WebhookEventFiltersSchema } from '@/modules/payments/webhooks/domain/models/webhook-event';
+
+/**
+ * GET /api/admin/webhooks
+ * Payment webhook events received, newest first, filtered by status and provider
+ * Requires: manage_payments permission
+ */
+export const GET = withAdminPermission('manage_payments', async (request) => {
+  const parsed = WebhookEventFiltersSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const events = await createWebhookPipelineService().list(parsed.data);
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('[Webhooks] Failed to load webhook events:', error);
+    return NextResponse.json(
+      { error: 'Failed to load webhook events' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createAdminClient } from '@/lib/supabase/server';
+import { createCommissionPeriodService } from '@/modules/multilevel/factories/commission-period-service-factory';
+import { CommissionPeriodError } from '@/modules/multilevel/services/commission-period-service';
+import { generateCommissionStatementHTML } from '@/modules/invoices/utils/commission-statement-template';
+import { loadBranding } from '@/modules/invoices/services/invoice-context-service';
+
+/**
+ * GET /api/commission-statements/[period]
+ * Printable statement of the member for a closed month (YYYY-MM). ?download=1 serves it as an
+ * attachment.
+ */
+export const GET = withAuth<unknown>(async (req, context) => {
+  try {
+    const { period } = await (context?.params || Promise.resolve({ period: '' }));
+    const statement = await createCommissionPeriodService().getStatement(period, req.user.id);
+    const adminClient = createAdminClient();
+    const branding = await loadBranding(adminClient, adminClient);
+
+    const headers: Record<string, string> = { 'Content-Type': 'text/html' };
+    if (new URL(req.url).searchParams.get('download') === '1') {
+      headers['Content-Disposition'] = `attachment; filename="commission-statement-${statement.period.period}.html"`;
+    }
+
+    return new NextResponse(generateCommissionStatementHTML({ statement, branding }), { headers });
+  } catch (error) {
+    if (error instanceof CommissionPeriodError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.code === 'INVALID_PERIOD' ? 400 : 404 });
+    }
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for commission statement endpoint', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('[API /commission-statements] Failed to render statement', error);
+    return NextResponse.json({ error: 'Failed to render commission statement' }, { status: 500 });
+  }
+});
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth/with-auth';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createCommissionPeriodService } from '@/modules/multilevel/factories/commission-period-service-factory';
+
+/**
+ * GET /api/commission-statements
+ * Monthly commission statements of the member, newest period first. A month has a statement
+ * once it is closed.
+ */
+export const GET = withAuth<unknown>(async (req) => {
+  try {
+    const statements = await createCommissionPeriodService().listMemberStatements(req.user.id);
+    return NextResponse.json({ statements });
+  } catch (error) {
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for commission statements endpoint', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('[API /commission-statements] Failed to list statements', error);
+    return NextResponse.json({ error: 'Failed to load commission statements' }, { status: 500 });
+  }
+});
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createCommissionPeriodService } from '@/modules/multilevel/factories/commission-period-service-factory';
+
+/**
+ * GET /api/cron/commission-period-close
+ *
+ * Closes the previous calendar month (UTC): freezes its commissions into member statements and
+ * locks it against further edits (see CommissionPeriodService). Runs again safely, a closed
+ * month is returned unchanged.
+ *
+ * Security:
+ * - Requires CRON_SECRET environment variable to match the Authorization header
+ *
+ * Example Vercel Cron configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/commission-period-close",
+ *     "schedule": "0 2 1 * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('[CommissionPeriodCloseCron] Unauthorized access attempt');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('[CommissionPeriodCloseCron] Starting commission period close cron job...');
+
+    const period = await createCommissionPeriodService().closePreviousPeriod();
+    const summary = {
+      period: period.period,
+      statementCount: period.statement_count,
+      memberCount: period.member_count,
+      totals: period.totals,
+    };
+
+    console.log('[CommissionPeriodCloseCron] Commission period close cron job completed:', summary);
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[CommissionPeriodCloseCron] Error in commission period close cron job:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: message,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cron/commission-period-close
+ *
+ * Alternative endpoint for POST requests (some cron services prefer POST)
+ */
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPayoutBatchService } from '@/modules/multilevel/factories/payout-batch-service-factory';
+
+/**
+ * GET /api/cron/payout-retries
+ *
+ * Resubmits payout batch items whose automatic retry is due and settles the status of their
+ * batches (completed, partially_failed or failed) once no retries remain (see PayoutBatchService).
+ *
+ * Security:
+ * - Requires CRON_SECRET environment variable to match the Authorization header
+ * - Only items in approved batches are retried
+ *
+ * Example Vercel Cron configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/payout-retries",
+ *     "schedule": "0 * * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('[PayoutRetriesCron] Unauthorized access attempt');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('[PayoutRetriesCron] Starting payout retries cron job...');
+
+    const summary = await createPayoutBatchService().retryDueItems();
+
+    console.log('[PayoutRetriesCron] Payout retries cron job completed:', summary);
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[PayoutRetriesCron] Error in payout retries cron job:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: message,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cron/payout-retries
+ *
+ * Alternative endpoint for POST requests (some cron services prefer POST)
+ */
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPhaseEvaluationService } from '@/modules/opportunity/factories/phase-evaluation-service-factory';
+
+const CYCLE_PATTERN = /^\d{4}-\d{2}$/;
+
+/**
+ * GET /api/cron/phase-evaluation
+ *
+ * Billing-cycle close: evaluates every member against the OpportunityPlan requirements, promotes
+ * or demotes their phase, grants first-time phase rewards and writes the `phase_evaluations`
+ * audit trail (see PhaseEvaluationService).
+ *
+ * Security:
+ * - Requires CRON_SECRET environment variable to match the Authorization header
+ * - Members already evaluated for the cycle are skipped, so the job can be re-run safely
+ *
+ * Query params:
+ * - cycle: optional YYYY-MM; defaults to the month that ended the day before
+ *
+ * Example Vercel Cron configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/phase-evaluation",
+ *     "schedule": "0 1 1 * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('[PhaseEvaluationCron] Unauthorized access attempt');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const cycle = req.nextUrl.searchParams.get('cycle') ?? undefined;
+    if (cycle && !CYCLE_PATTERN.test(cycle)) {
+      return NextResponse.json({ error: 'cycle must use the YYYY-MM format' }, { status: 400 });
+    }
+
+    console.log('[PhaseEvaluationCron] Starting phase evaluation cron job...');
+
+    const phaseEvaluationService = createPhaseEvaluationService();
+    const summary = await phaseEvaluationService.closeCycle({ cycle });
+
+    console.log('[PhaseEvaluationCron] Phase evaluation cron job completed:', summary);
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[PhaseEvaluationCron] Error in phase evaluation cron job:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: message,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cron/phase-evaluation
+ *
+ * Alternative endpoint for POST requests (some cron services prefer POST)
+ */
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
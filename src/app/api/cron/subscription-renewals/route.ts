@@ -12,7 +12,9 @@ import { SubscriptionEventBus } from '@/modules/multilevel/observers/subscriptio
  * 
  * Security:
  * - Requires CRON_SECRET environment variable to match the Authorization header
- * - Only processes subscriptions that are within 1 day of expiry
+ * - Only processes subscriptions that are within 1 day of expiry, plus dunning retries that are due
+ *   (see SubscriptionDunningService for the past_due → unpaid → canceled schedule)
+ * - Resumes paused subscriptions whose pause has ended before renewing
  * 
  * Example Vercel Cron configuration (vercel.json):
  * {
@@ -55,6 +57,11 @@ export async function GET(req: NextRequest) {
         totalProcessed: summary.totalProcessed,
         successful: summary.successful,
         failed: summary.failed,
+        retried: summary.retried,
+        recovered: summary.recovered,
+        unpaid: summary.unpaid,
+        canceled: summary.canceled,
+        resumed: summary.resumed,
       },
       timestamp: new Date().toISOString(),
     });
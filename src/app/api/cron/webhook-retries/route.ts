@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createWebhookPipelineService } from '@/modules/payments/webhooks/factories/webhook-pipeline-service-factory';
+
+/**
+ * GET /api/cron/webhook-retries
+ *
+ * Runs again the payment webhook events whose automatic retry is due, and events a worker left
+ * halfway. Events out of retries move to the dead-letter queue (see WebhookPipelineService).
+ *
+ * Security:
+ * - Requires CRON_SECRET environment variable to match the Authorization header
+ *
+ * Example Vercel Cron configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/webhook-retries",
+ *     "schedule": "*\/5 * * * *"
+ *   }]
+ * }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Verify cron secret for security
+    const authHeader = req.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      console.error('[WebhookRetriesCron] Unauthorized access attempt');
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.log('[WebhookRetriesCron] Starting webhook retries cron job...');
+
+    const summary = await createWebhookPipelineService().retryDue();
+
+    console.log('[WebhookRetriesCron] Webhook retries cron job completed:', summary);
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[WebhookRetriesCron] Error in webhook retries cron job:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: message,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cron/webhook-retries
+ *
+ * Alternative endpoint for POST requests (some cron services prefer POST)
+ */
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -45,6 +45,14 @@ export async function GET(request: NextRequest, context: RouteContext) {
           qty,
           price_cents,
           products(name, description)
+        ),
+        tax_lines:order_tax_lines(
+          name,
+          country_code,
+          region_code,
+          rate_bps,
+          taxable_cents,
+          tax_cents
         )
       `)
       .eq('id', orderId)
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth/with-auth';
+import { createClient } from '@/lib/supabase/server';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { validateImageFile } from '@/lib/security/file-validation';
+import { UploadLimitsService } from '@/modules/upload/services/upload-limits-service';
+import { createOrderReturnService } from '@/modules/orders/returns/factories/order-return-service-factory';
+import { OrderReturnError, ORDER_RETURN_ERROR_STATUS } from '@/modules/orders/returns/services/order-return-service';
+import {
+  MAX_ORDER_RETURN_PHOTOS,
+  OrderReturnRequestInputSchema,
+} from '@/modules/orders/returns/domain/models/order-return';
+
+const OrderIdSchema = z.string().uuid();
+
+/**
+ * GET /api/orders/[orderId]/returns
+ * Returns requested by the member for one of their orders
+ */
+export const GET = withAuth<unknown>(async (req, context) => {
+  const { orderId } = await (context?.params as Promise<{ orderId: string }>);
+
+  if (!OrderIdSchema.safeParse(orderId).success) {
+    return NextResponse.json({ error: 'Invalid order id' }, { status: 400 });
+  }
+
+  try {
+    const returns = await createOrderReturnService().listForOrder(req.user.id, orderId);
+    return NextResponse.json({ returns });
+  } catch (error) {
+    console.error('[API /orders/returns] Failed to load returns', error);
+    return NextResponse.json({ error: 'Failed to load returns' }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/orders/[orderId]/returns
+ * Request the return of units of an order line. Multipart form with orderItemId, quantity,
+ * reason, optional details and up to five photos validated like any other image upload.
+ */
+export const POST = withAuth<unknown>(async (req, context) => {
+  // ✅ SECURITY: Validate CSRF token
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) return csrfError;
+
+  const { orderId } = await (context?.params as Promise<{ orderId: string }>);
+
+  if (!OrderIdSchema.safeParse(orderId).success) {
+    return NextResponse.json({ error: 'Invalid order id' }, { status: 400 });
+  }
+
+  const formData = await req.formData().catch(() => null);
+  if (!formData) {
+    return NextResponse.json({ error: 'Invalid request payload' }, { status: 400 });
+  }
+
+  const parsed = OrderReturnRequestInputSchema.safeParse({
+    orderItemId: formData.get('orderItemId'),
+    quantity: formData.get('quantity'),
+    reason: formData.get('reason'),
+    details: formData.get('details') || null,
+  });
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const photos = formData.getAll('photos').filter((entry): entry is File => entry instanceof File && entry.size > 0);
+
+  // ✅ SECURITY: Photos go through the same validation as every image upload
+  const uploadLimitsService = new UploadLimitsService(await createClient());
+  const config = await uploadLimitsService.getConfig();
+  const maxPhotos = Math.min(MAX_ORDER_RETURN_PHOTOS, config?.max_files_per_upload ?? MAX_ORDER_RETURN_PHOTOS);
+
+  if (photos.length > maxPhotos) {
+    return NextResponse.json({ error: `Cannot upload more than ${maxPhotos} photos` }, { status: 400 });
+  }
+
+  for (const photo of photos) {
+    const validation = await validateImageFile(photo);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const limitsValidation = await uploadLimitsService.validateFile({ size: photo.size, type: photo.type }, 'image');
+    if (!limitsValidation.valid) {
+      return NextResponse.json({ error: limitsValidation.error }, { status: 400 });
+    }
+  }
+
+  try {
+    const orderReturn = await createOrderReturnService().requestReturn(
+      req.user.id,
+      orderId,
+      parsed.data,
+      photos,
+      String(formData.get('locale') ?? 'en')
+    );
+
+    return NextResponse.json({ orderReturn }, { status: 201 });
+  } catch (error) {
+    if (error instanceof OrderReturnError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ORDER_RETURN_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('[API /orders/returns] Failed to request return', error);
+    return NextResponse.json({ error: 'Failed to request return' }, { status: 500 });
+  }
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { PaymentMethodService } from '@/modules/payment-methods/services/payment-method-service';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+
+const AgreementTokenSchema = z.object({
+  returnUrl: z.string().url(),
+  cancelUrl: z.string().url(),
+});
+
+/**
+ * POST /api/payment-methods/paypal/agreement-token
+ * Start saving a PayPal account: returns the approval URL of a billing agreement. PayPal sends
+ * the member back to returnUrl with ?ba_token=, which is then posted to /api/payment-methods
+ * Body: { returnUrl: string, cancelUrl: string }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // ✅ SECURITY: Validate CSRF token to prevent CSRF attacks
+    const csrfError = await requireCsrfToken(req);
+    if (csrfError) {
+      return csrfError;
+    }
+
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { returnUrl, cancelUrl } = AgreementTokenSchema.parse(await req.json());
+
+    const service = new PaymentMethodService(supabase);
+    const { tokenId, approvalUrl } = await service.createPayPalAgreementToken({ returnUrl, cancelUrl });
+
+    return NextResponse.json({ tokenId, approvalUrl });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.flatten().fieldErrors },
+        { status: 400 },
+      );
+    }
+
+    console.error('Failed to create PayPal billing agreement token:', error);
+    const message = error instanceof Error ? error.message : 'Failed to start PayPal setup';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,8 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
 import { PaymentMethodService } from '@/modules/payment-methods/services/payment-method-service';
 import { requireCsrfToken } from '@/lib/security/csrf-protection';
 
+const AddPaymentMethodSchema = z.discriminatedUnion('provider', [
+  z.object({
+    provider: z.literal('stripe'),
+    paymentMethodId: z.string().min(1, 'Payment method ID is required'),
+    setAsDefault: z.boolean().default(false),
+  }),
+  z.object({
+    provider: z.literal('paypal'),
+    // Billing agreement token PayPal returns as ?ba_token= after approval
+    tokenId: z.string().min(1, 'Billing agreement token is required'),
+    setAsDefault: z.boolean().default(false),
+  }),
+  z.object({
+    provider: z.literal('authorize_net'),
+    // Accept.js nonce of the card
+    opaqueData: z.object({
+      dataDescriptor: z.string().min(1),
+      dataValue: z.string().min(1),
+    }),
+    setAsDefault: z.boolean().default(false),
+  }),
+]);
+
 /**
  * GET /api/payment-methods
  * Get user's saved payment methods
@@ -32,8 +56,10 @@ export async function GET(_req: NextRequest) {
 
 /**
  * POST /api/payment-methods
- * Add a new payment method
- * Body: { paymentMethodId: string, setAsDefault?: boolean }
+ * Add a new payment method to the vault
+ * Body: { provider?: 'stripe', paymentMethodId: string, setAsDefault?: boolean }
+ *     | { provider: 'paypal', tokenId: string, setAsDefault?: boolean }
+ *     | { provider: 'authorize_net', opaqueData: { dataDescriptor, dataValue }, setAsDefault?: boolean }
  */
 export async function POST(req: NextRequest) {
   try {
@@ -54,17 +80,26 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { paymentMethodId, setAsDefault = false } = body;
-
-    if (!paymentMethodId) {
-      return NextResponse.json({ error: 'Payment method ID is required' }, { status: 400 });
-    }
+    // Stripe is the default provider, for clients that only send the payment method ID
+    const input = AddPaymentMethodSchema.parse({ provider: 'stripe', ...body });
 
     const service = new PaymentMethodService(supabase);
-    const paymentMethod = await service.addPaymentMethod(user.id, paymentMethodId, setAsDefault);
+    const paymentMethod =
+      input.provider === 'paypal'
+        ? await service.addPayPalBillingAgreement(user.id, input.tokenId, input.setAsDefault)
+        : input.provider === 'authorize_net'
+          ? await service.addAuthorizeNetCard(user.id, input.opaqueData, input.setAsDefault)
+          : await service.addPaymentMethod(user.id, input.paymentMethodId, input.setAsDefault);
 
     return NextResponse.json({ paymentMethod });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0]?.message ?? 'Invalid request data', details: error.flatten().fieldErrors },
+        { status: 400 },
+      );
+    }
+
     console.error('Failed to add payment method:', error);
     const message = error instanceof Error ? error.message : 'Failed to add payment method';
     return NextResponse.json({ error: message }, { status: 400 });
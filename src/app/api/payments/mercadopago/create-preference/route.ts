@@ -0,0 +1,226 @@
+import { NextResponse } from 'next/server';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { z } from 'zod';
+import { PaymentError } from '@/modules/payments/utils/payment-errors';
+import { MercadoPagoPlugin, buildMercadoPagoReference } from '@/modules/payments/plugins/mercadopago-plugin';
+import { MercadoPagoCheckoutService } from '@/modules/payments/services/mercadopago-checkout-service';
+import { fetchGatewayCredentials, isErrorResponse } from '@/modules/payments/utils/payment-gateway-helpers';
+import { sanitizePaymentMetadata, validatePayment } from '@/lib/security/payment-validation';
+import { getPlanById } from '@/lib/services/plan-service';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { CheckoutCartError, CHECKOUT_CART_ERROR_STATUS } from '@/modules/orders/services/checkout-cart-service';
+import { ShippingError, SHIPPING_ERROR_STATUS } from '@/modules/orders/shipping/services/shipping-rate-service';
+import { TaxError, TAX_ERROR_STATUS } from '@/modules/orders/tax/services/tax-service';
+import { PromotionError, PROMOTION_ERROR_STATUS, PromotionService } from '@/modules/orders/promotions/services/promotion-service';
+import { ProductPriceError, PRODUCT_PRICE_ERROR_STATUS } from '@/modules/products/services/product-price-service';
+import { StockError, StockService } from '@/modules/products/services/stock-service';
+import type { PaymentCredentials } from '@/modules/payments/core/payment-plugin.interface';
+
+const CartItemSchema = z.object({
+    productId: z.string().uuid(),
+    productName: z.string().max(500).optional(),
+    variantId: z.string().uuid().nullable().optional(),
+    variantLabel: z.string().max(200).nullable().optional(),
+    quantity: z.number().int().positive(),
+    priceCents: z.number().int().nonnegative(),
+});
+
+const CreatePreferenceSchema = z.object({
+    amount: z.number().positive(),
+    // Store checkouts and subscriptions are charged in the currency decided on the server
+    currency: z.string().length(3).optional(),
+    description: z.string(),
+    intent: z.enum(['wallet_recharge', 'subscription', 'checkout']),
+    planId: z.string().optional(),
+    cartItems: z.array(CartItemSchema).optional(),
+    isTest: z.boolean().optional(),
+    successUrl: z.string().url().optional(),
+    cancelUrl: z.string().url().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Creates a Checkout Pro preference for a store checkout, a wallet recharge or a one-off
+ * subscription payment. The result arrives through the Mercado Pago webhook, matched by the
+ * external_reference.
+ */
+export async function POST(request: Request) {
+    try {
+        const csrfError = await requireCsrfToken(request);
+        if (csrfError) {
+            return csrfError;
+        }
+
+        const body = await request.json();
+        const { amount, currency: requestedCurrency, description, intent, planId, cartItems, isTest, successUrl, cancelUrl, metadata } =
+            CreatePreferenceSchema.parse(body);
+
+        const { createClient } = await import('@/lib/supabase/server');
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        let amountCents = Math.round(amount * 100);
+        const settings = await getAppSettings();
+        let currency = requestedCurrency?.toUpperCase() ?? settings.currency.toUpperCase();
+        // Store checkout priced on the server, created with its order once the payment is approved
+        let checkout: { id: string; expiresAt: string; promotionReservationKey: string | null } | null = null;
+
+        if (intent === 'checkout') {
+            if (!cartItems || cartItems.length === 0) {
+                return NextResponse.json({ error: 'The checkout needs at least one product' }, { status: 400 });
+            }
+
+            const opened = await new MercadoPagoCheckoutService(getSupabaseAdminClient()).openCheckout({
+                userId: user.id,
+                amountCents,
+                cartItems,
+                metadata: sanitizePaymentMetadata(metadata),
+                requestedCurrency,
+            });
+
+            amountCents = opened.checkout.totalCents;
+            currency = opened.checkout.currency;
+            checkout = {
+                id: opened.checkout.id,
+                expiresAt: opened.checkout.expiresAt,
+                promotionReservationKey: opened.promotionReservationKey,
+            };
+        } else if (intent === 'subscription') {
+            // The plan price is always taken from the server, in the currency plans are priced in
+            const plan = planId ? await getPlanById(planId) : null;
+
+            if (!plan || !plan.is_active) {
+                return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+            }
+
+            amountCents = Math.round(plan.price * 100);
+            currency = settings.currency.toUpperCase();
+        } else {
+            const paymentValidation = await validatePayment({
+                amountCents,
+                currency,
+                intent,
+                metadata: { ...metadata, userId: user.id },
+            });
+
+            if (!paymentValidation.valid) {
+                console.error('[Mercado Pago Preference] Payment validation failed:', paymentValidation.error);
+                return NextResponse.json(
+                    {
+                        error: 'Payment validation failed',
+                        message: paymentValidation.error,
+                        serverAmountCents: paymentValidation.serverAmountCents,
+                    },
+                    { status: 400 },
+                );
+            }
+
+            amountCents = paymentValidation.serverAmountCents || amountCents;
+        }
+
+        const credentialsResult = await fetchGatewayCredentials<PaymentCredentials>('mercadopago', isTest);
+
+        if (isErrorResponse(credentialsResult)) {
+            if (checkout) {
+                await new StockService(getSupabaseAdminClient()).release(checkout.id);
+                await new PromotionService(getSupabaseAdminClient()).release(checkout.promotionReservationKey);
+            }
+            return credentialsResult;
+        }
+
+        const { credentials, environment } = credentialsResult;
+        const plugin = new MercadoPagoPlugin();
+
+        let paymentResponse;
+        try {
+            paymentResponse = await plugin.createPayment({
+                amount: amountCents / 100,
+                currency,
+                description,
+                isTest: environment === 'test',
+                successUrl,
+                cancelUrl,
+                metadata: {
+                    payerEmail: user.email,
+                    externalReference: buildMercadoPagoReference(intent, user.id, checkout?.id ?? planId),
+                    ...(checkout ? { expiresAt: checkout.expiresAt } : {}),
+                },
+            }, credentials);
+        } catch (preferenceError) {
+            if (checkout) {
+                await new StockService(getSupabaseAdminClient()).release(checkout.id);
+                await new PromotionService(getSupabaseAdminClient()).release(checkout.promotionReservationKey);
+            }
+            throw preferenceError;
+        }
+
+        if (checkout && paymentResponse.paymentId) {
+            await new MercadoPagoCheckoutService(getSupabaseAdminClient()).attachPreference(checkout.id, paymentResponse.paymentId);
+        }
+
+        return NextResponse.json({ ...paymentResponse, currency, amountCents });
+
+    } catch (error) {
+        console.error('Mercado Pago preference error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid request data',
+                    details: error.flatten().fieldErrors,
+                },
+                { status: 400 },
+            );
+        }
+
+        if (error instanceof ProductPriceError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code, productId: error.productId ?? undefined },
+                { status: PRODUCT_PRICE_ERROR_STATUS[error.code] },
+            );
+        }
+
+        if (error instanceof CheckoutCartError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code, details: { expectedTotal: error.expectedTotalCents / 100 } },
+                { status: CHECKOUT_CART_ERROR_STATUS[error.code] },
+            );
+        }
+
+        if (error instanceof StockError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code, productId: error.productId },
+                { status: error.code === 'INSUFFICIENT_STOCK' ? 409 : 400 },
+            );
+        }
+
+        if (error instanceof ShippingError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: SHIPPING_ERROR_STATUS[error.code] });
+        }
+
+        if (error instanceof TaxError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: TAX_ERROR_STATUS[error.code] });
+        }
+
+        if (error instanceof PromotionError) {
+            return NextResponse.json({ error: error.message, code: error.code }, { status: PROMOTION_ERROR_STATUS[error.code] });
+        }
+
+        if (error instanceof PaymentError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: 422 },
+            );
+        }
+
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Preference creation failed' },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { z } from 'zod';
+import { PaymentError } from '@/modules/payments/utils/payment-errors';
+import { MercadoPagoPlugin } from '@/modules/payments/plugins/mercadopago-plugin';
+import { MercadoPagoPreapprovalService } from '@/modules/payments/services/mercadopago-preapproval-service';
+import { fetchGatewayCredentials, isErrorResponse } from '@/modules/payments/utils/payment-gateway-helpers';
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { getPlanById } from '@/lib/services/plan-service';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import type { PaymentCredentials } from '@/modules/payments/core/payment-plugin.interface';
+
+const CreateSubscriptionSchema = z.object({
+    planId: z.string().min(1),
+    isTest: z.boolean().optional(),
+    backUrl: z.string().url().optional(),
+});
+
+/**
+ * Creates a monthly Mercado Pago preapproval for a plan. The member authorizes it at the
+ * returned approvalUrl; Mercado Pago then charges it every month and notifies each charge
+ * through the webhook.
+ */
+export async function POST(request: Request) {
+    try {
+        const csrfError = await requireCsrfToken(request);
+        if (csrfError) {
+            return csrfError;
+        }
+
+        const body = await request.json();
+        const { planId, isTest, backUrl } = CreateSubscriptionSchema.parse(body);
+
+        const { createClient } = await import('@/lib/supabase/server');
+        const supabase = await createClient();
+        const { data: { user } } = await supabase.auth.getUser();
+
+        if (!user?.email) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const plan = await getPlanById(planId);
+
+        if (!plan || !plan.is_active) {
+            return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+        }
+
+        // Plans are priced in the platform currency, whatever the client asks for
+        const currency = (await getAppSettings()).currency.toUpperCase();
+
+        const credentialsResult = await fetchGatewayCredentials<PaymentCredentials>('mercadopago', isTest);
+
+        if (isErrorResponse(credentialsResult)) {
+            return credentialsResult;
+        }
+
+        const { credentials, environment } = credentialsResult;
+        const plugin = new MercadoPagoPlugin();
+
+        const subscription = await plugin.createSubscription({
+            userId: user.id,
+            planId: plan.id,
+            reason: plan.name || plan.name_es || plan.name_en || plan.slug,
+            amount: plan.price,
+            currency,
+            payerEmail: user.email,
+            backUrl,
+            isTest: environment === 'test',
+        }, credentials);
+
+        await new MercadoPagoPreapprovalService(getSupabaseAdminClient()).savePreapproval({
+            userId: user.id,
+            planId: plan.id,
+            preapprovalId: subscription.preapprovalId,
+            status: subscription.status,
+            amountCents: Math.round(plan.price * 100),
+            currency,
+        });
+
+        return NextResponse.json({
+            preapprovalId: subscription.preapprovalId,
+            approvalUrl: subscription.approvalUrl,
+        });
+
+    } catch (error) {
+        console.error('Mercado Pago subscription error:', error);
+
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid request data',
+                    details: error.flatten().fieldErrors,
+                },
+                { status: 400 },
+            );
+        }
+
+        if (error instanceof PaymentError) {
+            return NextResponse.json(
+                { error: error.message, code: error.code },
+                { status: 422 },
+            );
+        }
+
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Subscription creation failed' },
+            { status: 500 },
+        );
+    }
+}
@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { sanitizePaymentMetadata } from '@/lib/security/payment-validation';
+import { PaymentRiskService } from '@/lib/services/payment-risk-service';
+import { getClientIP } from '@/lib/security/ip-utils';
+import { getCountryFromIP } from '@/lib/security/geo-utils';
+import { rateLimit } from '@/lib/utils/rate-limit';
+import { PAYMENT_CONSTANTS } from '@/modules/payments/constants/payment-constants';
+import {
+  OneClickCheckoutError,
+  OneClickCheckoutService,
+  ONE_CLICK_CHECKOUT_ERROR_STATUS,
+} from '@/modules/payment-methods/services/one-click-checkout-service';
+import { StockError } from '@/modules/products/services/stock-service';
+import { ShippingError, SHIPPING_ERROR_STATUS } from '@/modules/orders/shipping/services/shipping-rate-service';
+import { TaxError, TAX_ERROR_STATUS } from '@/modules/orders/tax/services/tax-service';
+import { PromotionError, PROMOTION_ERROR_STATUS } from '@/modules/orders/promotions/services/promotion-service';
+import { CheckoutCartError, CHECKOUT_CART_ERROR_STATUS } from '@/modules/orders/services/checkout-cart-service';
+import { ProductPriceError, PRODUCT_PRICE_ERROR_STATUS } from '@/modules/products/services/product-price-service';
+
+const CartItemSchema = z.object({
+  productId: z.string().uuid(),
+  productName: z.string().max(500).optional(),
+  variantId: z.string().uuid().nullable().optional(),
+  variantLabel: z.string().max(200).nullable().optional(),
+  quantity: z.number().int().positive(),
+  priceCents: z.number().int().nonnegative(),
+});
+
+const OneClickCheckoutSchema = z.object({
+  // Saved payment method to charge; the member's default one when omitted
+  paymentMethodId: z.string().uuid().optional(),
+  amount: z.number().positive(),
+  // Decided on the server from the buyer's country and the stored prices; a different one is rejected
+  currency: z.string().length(3).optional(),
+  description: z.string().max(255).default('Order'),
+  cartItems: z.array(CartItemSchema).min(1),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * POST /api/payments/one-click
+ * Buys the cart with a saved payment method (Stripe card, PayPal billing agreement or
+ * Authorize.net CIM profile) and creates the order right away, without redirecting to the gateway.
+ */
+export async function POST(request: Request) {
+  try {
+    const csrfError = await requireCsrfToken(request);
+    if (csrfError) {
+      return csrfError;
+    }
+
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // ✅ SECURITY: Saved methods are charged without the member re-entering them (5 charges / 60 seconds)
+    const rateLimitResult = await rateLimit(user.id, {
+      limit: 5,
+      window: 60,
+      prefix: 'payments:one-click',
+    });
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        { error: 'Too many requests', retryAfter: rateLimitResult.reset },
+        { status: 429 },
+      );
+    }
+
+    const body = await request.json();
+    const { paymentMethodId, amount, currency: requestedCurrency, description, cartItems, metadata } = OneClickCheckoutSchema.parse(body);
+    const amountCents = Math.round(amount * PAYMENT_CONSTANTS.AMOUNTS.MULTIPLIER_CENTS);
+
+    // ✅ 3D SECURE: Off-session charges cannot ask for strong authentication, so risky ones go
+    // through the regular checkout instead
+    const ipAddress = getClientIP(request);
+    const geoData = await getCountryFromIP(ipAddress);
+    const riskAssessment = await PaymentRiskService.assessRisk({
+      userId: user.id,
+      amountCents,
+      currency: requestedCurrency ?? PAYMENT_CONSTANTS.CURRENCIES.DEFAULT,
+      ipAddress,
+      countryCode: geoData.countryCode,
+      paymentMethod: 'card',
+    });
+
+    if (riskAssessment.requiresStrongAuth) {
+      return NextResponse.json({
+        status: 'verification_required',
+        message: 'This payment needs additional verification. Please pay through the regular checkout.',
+        riskLevel: riskAssessment.riskLevel,
+      }, { status: 202 });
+    }
+
+    const service = new OneClickCheckoutService(createAdminClient());
+    const result = await service.checkout({
+      userId: user.id,
+      paymentMethodId,
+      amountCents,
+      currency: requestedCurrency,
+      description,
+      cartItems,
+      metadata: { ...sanitizePaymentMetadata(metadata), userId: user.id },
+    });
+
+    return NextResponse.json({
+      status: 'completed',
+      orderId: result.orderId,
+      paymentMethodId: result.paymentMethodId,
+      gateway: result.gateway,
+      transactionId: result.transactionId,
+      currency: result.currency,
+      totalCents: result.totalCents,
+    });
+  } catch (error) {
+    if (error instanceof OneClickCheckoutError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ONE_CLICK_CHECKOUT_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof ProductPriceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId ?? undefined },
+        { status: PRODUCT_PRICE_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof CheckoutCartError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: { expectedTotal: error.expectedTotalCents / 100 } },
+        { status: CHECKOUT_CART_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof StockError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: error.code === 'INSUFFICIENT_STOCK' ? 409 : 400 },
+      );
+    }
+
+    if (error instanceof ShippingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SHIPPING_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof TaxError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: TAX_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof PromotionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: PROMOTION_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.flatten().fieldErrors },
+        { status: 400 },
+      );
+    }
+
+    console.error('One-click checkout error:', error);
+    return NextResponse.json({ error: 'Unable to process the payment' }, { status: 500 });
+  }
+}
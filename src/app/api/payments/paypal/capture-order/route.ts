@@ -10,6 +10,7 @@ import { OrderCreationService } from '@/modules/orders/services/order-creation-s
 import { OrderNotificationService } from '@/modules/orders/services/order-notification-service';
 import { decodeCustomIdWithFallback, deleteCustomId } from '@/lib/security/custom-id-encoder';
 import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { createStockService } from '@/modules/products/factories/stock-service-factory';
 
 const CaptureOrderSchema = z.object({
   orderId: z.string(),
@@ -63,6 +64,9 @@ async function decodeCustomId(customId: string | null | undefined): Promise<{
 }
 
 export async function POST(request: Request) {
+  // Checkout stock is reserved under the PayPal order id
+  let stockReservationKey: string | null = null;
+
   try {
     // ✅ SECURITY: Validate CSRF token to prevent CSRF attacks
     const csrfError = await requireCsrfToken(request);
@@ -72,6 +76,7 @@ export async function POST(request: Request) {
 
     const body = await request.json();
     const { orderId, isTest, metadata: requestMetadata } = CaptureOrderSchema.parse(body);
+    stockReservationKey = orderId;
 
     // Get user ID from auth
     const supabase = await createClient();
@@ -181,6 +186,8 @@ export async function POST(request: Request) {
         console.error('[PayPal Capture] Error refunding unauthorized payment:', refundError);
       }
 
+      await createStockService().release(orderId);
+
       return NextResponse.json(
         {
           error: 'Unauthorized: Order does not belong to this user',
@@ -219,6 +226,8 @@ export async function POST(request: Request) {
         console.error('[PayPal Capture] Failed to refund unidentified payment:', refundError);
       }
 
+      await createStockService().release(orderId);
+
       return NextResponse.json(
         {
           error: 'Cannot identify user for this payment',
@@ -296,7 +305,7 @@ export async function POST(request: Request) {
             currency: capture.amount.currency_code || 'USD',
             gateway: 'paypal',
             gatewayTransactionId: gatewayRef,
-            metadata: requestMetadata,
+            metadata: { ...requestMetadata, stockReservationKey: orderId },
             cartItems: requestMetadata.cartItems as any[],
             discountCents: discountCents || 0,
           });
@@ -344,6 +353,13 @@ export async function POST(request: Request) {
       }
     }
 
+    // Discount the stock held by the checkout (no-op when the order above already consumed it)
+    try {
+      await createStockService().recordCheckoutSale(orderId, null);
+    } catch (stockError) {
+      console.error('[PayPal Capture] Failed to record stock sale:', stockError);
+    }
+
     // Process subscription/payment
     const lifecycleService = createSubscriptionLifecycleService();
     const periodEndDate = new Date();
@@ -375,6 +391,10 @@ export async function POST(request: Request) {
   } catch (error) {
     console.error('[PayPal Capture] Error:', error);
 
+    if (stockReservationKey) {
+      await createStockService().release(stockReservationKey);
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
@@ -9,6 +9,14 @@ import { validatePayment } from '@/lib/security/payment-validation';
 import { PaymentRiskService } from '@/lib/services/payment-risk-service';
 import { getClientIP } from '@/lib/security/ip-utils';
 import { getCountryFromIP } from '@/lib/security/geo-utils';
+import { createStockService } from '@/modules/products/factories/stock-service-factory';
+import { StockError, toStockReservationItems } from '@/modules/products/services/stock-service';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+import { ShippingError, SHIPPING_ERROR_STATUS } from '@/modules/orders/shipping/services/shipping-rate-service';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+import { TaxError, TAX_ERROR_STATUS } from '@/modules/orders/tax/services/tax-service';
+import { createPromotionService } from '@/modules/orders/promotions/factories/promotion-service-factory';
+import { PromotionError, PROMOTION_ERROR_STATUS } from '@/modules/orders/promotions/services/promotion-service';
 
 const CreateOrderSchema = z.object({
   amount: z.number()
@@ -73,6 +81,9 @@ const encodeCustomId = async (metadata?: Record<string, unknown> | null, userId?
 };
 
 export async function POST(request: Request) {
+  // Promotion uses held for the order until it is captured
+  let promotionReservationKey: string | null = null;
+
   try {
     const csrfError = await requireCsrfToken(request);
     if (csrfError) {
@@ -110,6 +121,19 @@ export async function POST(request: Request) {
       );
     }
 
+    // ✅ SHIPPING, TAX & PROMOTIONS: The rate chosen at checkout, the tax and the discount must match the server quotes
+    if (intent === 'checkout') {
+      const shipping = await createShippingRateService().resolveCheckoutShipping({ metadata, cartItems: metadata?.cartItems });
+      await createTaxService().resolveCheckoutTax({ metadata, cartItems: metadata?.cartItems });
+      const promotion = await createPromotionService().resolveCheckoutPromotion({
+        metadata,
+        cartItems: metadata?.cartItems,
+        userId: userId ?? null,
+        shippingCents: shipping?.amountCents ?? 0,
+      });
+      promotionReservationKey = promotion?.reservationKey ?? null;
+    }
+
     // Use sanitized metadata and server-validated amount
     const sanitizedMetadata = paymentValidation.sanitizedMetadata;
     const validatedAmountCents = paymentValidation.serverAmountCents || amountCents;
@@ -242,6 +266,13 @@ export async function POST(request: Request) {
     }
 
     const orderData = await orderResponse.json();
+
+    // ✅ STOCK: Hold the cart items until the order is captured, keyed by the PayPal order id.
+    // An order that cannot be reserved is never approved and simply lapses at PayPal.
+    const stockItems = intent === 'checkout' ? toStockReservationItems(metadata?.cartItems) : [];
+    if (stockItems.length > 0) {
+      await createStockService().reserveForCheckout(orderData.id, userId ?? null, stockItems);
+    }
     const approvalUrl = orderData.links?.find((link: { rel: string; href: string }) => link.rel === 'approve')?.href;
 
     return NextResponse.json({
@@ -251,6 +282,7 @@ export async function POST(request: Request) {
     });
   } catch (error) {
     console.error('PayPal create order error:', error);
+    await createPromotionService().release(promotionReservationKey);
 
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -269,6 +301,34 @@ export async function POST(request: Request) {
       );
     }
 
+    if (error instanceof ShippingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SHIPPING_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof TaxError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: TAX_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof PromotionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: PROMOTION_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof StockError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: error.code === 'INSUFFICIENT_STOCK' ? 409 : 400 },
+      );
+    }
+
     // Handle specific PayPal errors
     if (error instanceof Error && error.message.includes('PayPal')) {
       return NextResponse.json(
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
 import { requireCsrfToken } from '@/lib/security/csrf-protection';
 import { z } from 'zod';
 import { PaymentError } from '@/modules/payments/utils/payment-errors';
@@ -9,6 +10,14 @@ import { PaymentRiskService } from '@/lib/services/payment-risk-service';
 import { createClient } from '@/lib/supabase/server';
 import { getClientIP } from '@/lib/security/ip-utils';
 import { getCountryFromIP } from '@/lib/security/geo-utils';
+import { createStockService } from '@/modules/products/factories/stock-service-factory';
+import { StockError, toStockReservationItems } from '@/modules/products/services/stock-service';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+import { ShippingError, SHIPPING_ERROR_STATUS, withCheckoutShipping } from '@/modules/orders/shipping/services/shipping-rate-service';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+import { TaxError, TAX_ERROR_STATUS, withCheckoutTax } from '@/modules/orders/tax/services/tax-service';
+import { createPromotionService } from '@/modules/orders/promotions/factories/promotion-service-factory';
+import { PromotionError, PROMOTION_ERROR_STATUS, withCheckoutPromotion } from '@/modules/orders/promotions/services/promotion-service';
 
 const CreateCheckoutSchema = z.object({
   amount: z.number()
@@ -26,6 +35,9 @@ const CreateCheckoutSchema = z.object({
 });
 
 export async function POST(request: Request) {
+  let stockReservationKey: string | null = null;
+  let promotionReservationKey: string | null = null;
+
   try {
     const csrfError = await requireCsrfToken(request);
     if (csrfError) {
@@ -64,8 +76,32 @@ export async function POST(request: Request) {
       );
     }
 
+    // ✅ SHIPPING: Charge the rate chosen at checkout only as quoted by the server
+    const shipping = intent === 'checkout'
+      ? await createShippingRateService().resolveCheckoutShipping({ metadata, cartItems: metadata?.cartItems })
+      : null;
+
+    // ✅ TAX: Only the tax quoted by the server for the destination travels to the order
+    const tax = intent === 'checkout'
+      ? await createTaxService().resolveCheckoutTax({ metadata, cartItems: metadata?.cartItems })
+      : null;
+
+    // ✅ PROMOTIONS: The coupon and cart rules are evaluated again; a different discount is rejected
+    const promotion = intent === 'checkout'
+      ? await createPromotionService().resolveCheckoutPromotion({
+          metadata,
+          cartItems: metadata?.cartItems,
+          userId: userId ?? null,
+          shippingCents: shipping?.amountCents ?? 0,
+        })
+      : null;
+    promotionReservationKey = promotion?.reservationKey ?? null;
+
     // Use sanitized metadata and server-validated amount
-    const sanitizedMetadata = paymentValidation.sanitizedMetadata;
+    const sanitizedMetadata = withCheckoutPromotion(
+      withCheckoutTax(withCheckoutShipping(paymentValidation.sanitizedMetadata, shipping), tax),
+      promotion,
+    );
     const validatedAmount = paymentValidation.serverAmountCents || amount;
 
     // ✅ 3D SECURE: Assess payment risk to determine if 3DS is required
@@ -97,6 +133,15 @@ export async function POST(request: Request) {
     const { credentials } = credentialsResult;
     const secretKey = credentials.secret_key;
 
+    // ✅ STOCK: Hold the cart items while the customer pays; the session expires with the reservation
+    const stockItems = intent === 'checkout' ? toStockReservationItems(metadata?.cartItems) : [];
+    let stockReservationExpiresAt: string | null = null;
+    if (stockItems.length > 0) {
+      const reservation = await createStockService().reserveForCheckout(`stripe_${randomUUID()}`, userId ?? null, stockItems);
+      stockReservationKey = reservation.reservationKey;
+      stockReservationExpiresAt = reservation.expiresAt;
+    }
+
     // Create Stripe checkout session
     const checkoutResponse = await fetch('https://api.stripe.com/v1/checkout/sessions', {
       method: 'POST',
@@ -144,6 +189,11 @@ export async function POST(request: Request) {
           'payment_method_options[card][request_three_d_secure]': threeDSecureMode,
         });
 
+        if (stockReservationKey && stockReservationExpiresAt) {
+          params.append('metadata[stockReservationKey]', stockReservationKey);
+          params.set('expires_at', Math.floor(new Date(stockReservationExpiresAt).getTime() / 1000).toString());
+        }
+
         console.log('[Stripe Checkout] 3D Secure configuration:', {
           mode: threeDSecureMode,
           riskLevel: riskAssessment.riskLevel,
@@ -188,6 +238,39 @@ export async function POST(request: Request) {
   } catch (error) {
     console.error('Stripe create checkout error:', error);
 
+    if (stockReservationKey) {
+      await createStockService().release(stockReservationKey);
+    }
+    await createPromotionService().release(promotionReservationKey);
+
+    if (error instanceof StockError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, productId: error.productId },
+        { status: error.code === 'INSUFFICIENT_STOCK' ? 409 : 400 },
+      );
+    }
+
+    if (error instanceof ShippingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: SHIPPING_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof TaxError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: TAX_ERROR_STATUS[error.code] },
+      );
+    }
+
+    if (error instanceof PromotionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: PROMOTION_ERROR_STATUS[error.code] },
+      );
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Invalid request data', details: error.flatten() },
@@ -4,7 +4,12 @@ import { randomUUID } from 'crypto';
 import { createHash } from 'crypto';
 import { createClient, createAdminClient } from '@/lib/supabase/server';
 import { WalletService } from '@/modules/multilevel/services/wallet-service';
-import { CommissionCalculatorService } from '@/modules/multilevel/services/commission-calculator-service';
+import {
+  CommissionCalculatorService,
+  resolveCommissionBaseCents,
+} from '@/modules/multilevel/services/commission-calculator-service';
+import { FxRateService } from '@/modules/multilevel/services/fx-rate-service';
+import { VolumeService } from '@/modules/multilevel/services/volume-service';
 import { PAYMENT_CONSTANTS } from '@/modules/payments/constants/payment-constants';
 import { logger } from '@/lib/utils/logger';
 import { IPGeolocationService } from '@/lib/services/ip-geolocation-service';
@@ -13,16 +18,26 @@ import { encryptIP } from '@/lib/security/ip-encryption';
 import { PaymentRiskService } from '@/lib/services/payment-risk-service';
 import { requireCsrfToken } from '@/lib/security/csrf-protection';
 import { rateLimit } from '@/lib/utils/rate-limit';
+import { StockError, StockService } from '@/modules/products/services/stock-service';
+import { ShippingError, SHIPPING_ERROR_STATUS } from '@/modules/orders/shipping/services/shipping-rate-service';
+import { TaxError, TAX_ERROR_STATUS, TaxService } from '@/modules/orders/tax/services/tax-service';
+import { PromotionError, PROMOTION_ERROR_STATUS, PromotionService } from '@/modules/orders/promotions/services/promotion-service';
+import { createPromotionService } from '@/modules/orders/promotions/factories/promotion-service-factory';
+import { CheckoutCartError, CheckoutCartService } from '@/modules/orders/services/checkout-cart-service';
+import { ProductPriceError, PRODUCT_PRICE_ERROR_STATUS } from '@/modules/products/services/product-price-service';
 
 const CartItemSchema = z.object({
   productId: z.string().uuid(),
+  variantId: z.string().uuid().nullable().optional(),
+  variantLabel: z.string().max(200).nullable().optional(),
   quantity: z.number().int().positive(),
   priceCents: z.number().int().nonnegative(),
 });
 
 const ChargeRequestSchema = z.object({
   amount: z.number().positive(),
-  currency: z.string().default(PAYMENT_CONSTANTS.CURRENCIES.DEFAULT),
+  // Decided on the server from the buyer's country and the stored prices; a different one is rejected
+  currency: z.string().length(3).optional(),
   description: z.string().optional(),
   cartItems: z.array(CartItemSchema).optional(),
   metadata: z.record(z.string(), z.unknown()).optional(),
@@ -32,6 +47,11 @@ const ChargeRequestSchema = z.object({
 export async function POST(request: NextRequest) {
   logger.debug('Wallet charge request received');
 
+  // Released when the charge does not go through; consumed once the wallet is debited
+  let stockReservation: { service: StockService; key: string } | null = null;
+  // Promotion uses held by the checkout, released when the charge does not go through
+  let promotionReservationKey: string | null = null;
+
   try {
     // ✅ SECURITY FIX #1: Validate CSRF token to prevent CSRF attacks
     const csrfError = await requireCsrfToken(request);
@@ -86,9 +106,9 @@ export async function POST(request: NextRequest) {
     }
 
     const payload = await request.json();
-    const { amount, currency, description, cartItems, metadata, deviceFingerprint } = ChargeRequestSchema.parse(payload);
+    const { amount, currency: requestedCurrency, description, cartItems, metadata, deviceFingerprint } = ChargeRequestSchema.parse(payload);
 
-    logger.debug('Processing wallet charge', { amount, currency, itemCount: cartItems?.length });
+    logger.debug('Processing wallet charge', { amount, requestedCurrency, itemCount: cartItems?.length });
 
     const adminClient = createAdminClient();
     const walletService = new WalletService(adminClient);
@@ -99,6 +119,63 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid amount' }, { status: 400 });
     }
 
+    // ✅ SECURITY: Price the cart on the server - NEVER trust client prices. The order is charged
+    // in the currency of the prices its cart is checked against, with the shipping, tax and
+    // promotions quoted by the server.
+    const cartService = new CheckoutCartService(adminClient);
+    let checkout;
+    try {
+      checkout = await cartService.priceCheckout({
+        userId: user.id,
+        cartItems: cartItems ?? [],
+        metadata,
+        requestedCurrency,
+      });
+      promotionReservationKey = checkout.promotion?.reservationKey ?? null;
+
+      // ✅ CRITICAL: Validate total amount matches calculated total
+      if (cartItems && cartItems.length > 0) {
+        cartService.assertTotal(checkout, amountCents);
+      }
+    } catch (pricingError) {
+      await new PromotionService(adminClient).release(promotionReservationKey);
+      promotionReservationKey = null;
+
+      if (pricingError instanceof ProductPriceError && pricingError.code === 'PRICE_MISMATCH') {
+        logger.security('Price manipulation attempt detected', {
+          userId: user.id,
+          productId: pricingError.productId,
+        });
+      }
+
+      if (pricingError instanceof CheckoutCartError) {
+        logger.warn('Total amount mismatch', {
+          clientTotal: amountCents,
+          serverTotal: pricingError.expectedTotalCents,
+          difference: Math.abs(pricingError.expectedTotalCents - amountCents),
+          userId: user.id
+        });
+
+        logger.security('Total manipulation attempt detected', {
+          userId: user.id,
+          attemptedTotal: amountCents,
+          calculatedTotal: pricingError.expectedTotalCents,
+        });
+
+        return NextResponse.json({
+          error: pricingError.message,
+          details: {
+            expectedTotal: pricingError.expectedTotalCents / 100,
+            receivedTotal: amountCents / 100
+          }
+        }, { status: 400 });
+      }
+
+      throw pricingError;
+    }
+    const { currency, shipping, shippingCents, tax, promotion, discountCents } = checkout;
+    const orderMetadata = checkout.metadata;
+
     // ============================================================================
     // FRAUD DETECTION - Get IP and Geolocation
     // ============================================================================
@@ -254,6 +331,32 @@ export async function POST(request: NextRequest) {
     const orderId = randomUUID();
     logger.debug('Creating order', { orderId, userId: user.id });
 
+    // ✅ STOCK: Reserve the cart items before charging so the last units cannot be sold twice
+    if (cartItems && cartItems.length > 0) {
+      const stockService = new StockService(adminClient);
+      await stockService.reserveForCheckout(orderId, user.id, checkout.items);
+      stockReservation = { service: stockService, key: orderId };
+    }
+
+    // Reporting amount in the platform base currency; left empty when no FX rate is stored
+    let baseAmount: { base_currency: string; base_total_cents: number; fx_rate: number } | null = null;
+    try {
+      const conversion = await new FxRateService(adminClient).convertToBase(amountCents, currency);
+      baseAmount = {
+        base_currency: conversion.currency,
+        base_total_cents: conversion.amountCents,
+        fx_rate: conversion.rate,
+      };
+    } catch (fxError) {
+      logger.warn('Could not convert order total to base currency', { orderId, currency, error: String(fxError) });
+    }
+
+    const commissionBaseCents = resolveCommissionBaseCents({
+      totalCents: amountCents,
+      shippingCents,
+      taxCents: tax?.amountCents,
+    });
+
     const { data: order, error: orderError } = await adminClient
       .from('orders')
       .insert({
@@ -261,9 +364,17 @@ export async function POST(request: NextRequest) {
         user_id: user.id,
         status: 'paid',
         total_cents: amountCents,
+        shipping_cents: shippingCents,
+        shipping_rate_id: shipping?.rateId ?? null,
+        shipping_carrier_id: shipping?.carrierId ?? null,
+        tax_cents: tax?.amountCents ?? 0,
+        prices_include_tax: tax?.pricesIncludeTax ?? false,
+        discount_cents: discountCents,
+        commission_base_cents: commissionBaseCents,
         currency,
+        ...(baseAmount ?? {}),
         gateway: 'wallet',
-        metadata: metadata || {},
+        metadata: orderMetadata,
       })
       .select()
       .single();
@@ -279,122 +390,14 @@ export async function POST(request: NextRequest) {
     if (cartItems && cartItems.length > 0) {
       logger.debug('Creating order items', { orderId, itemCount: cartItems.length });
 
-      // ✅ SECURITY: Validate prices on server - NEVER trust client prices
-      const productIds = cartItems.map(item => item.productId);
-      const { data: products, error: productsError } = await adminClient
-        .from('products')
-        .select('id, price')
-        .in('id', productIds);
-
-      if (productsError || !products) {
-        logger.error('Failed to fetch product prices', productsError as Error, { 
-          orderId, 
-          productIds,
-          errorCode: productsError?.code,
-          errorMessage: productsError?.message,
-          errorDetails: productsError?.details,
-        });
-        return NextResponse.json({
-          error: 'Failed to validate product prices',
-          details: productsError?.message || 'Products not found in database',
-        }, { status: 500 });
-      }
-
-      // Log found products for debugging
-      logger.debug('Products found for validation', { 
-        orderId, 
-        requestedIds: productIds, 
-        foundIds: products.map(p => p.id),
-        foundCount: products.length,
-      });
-
-      // Create price map for validation (convert price from dollars to cents)
-      const priceMap = new Map(products.map(p => [p.id, { 
-        priceCents: Math.round(Number(p.price) * 100), // Convert dollars to cents
-      }]));
-
-      // Validate all prices and calculate server-side total
-      let calculatedTotalCents = 0;
-      const validatedItems = [];
-
-      for (const item of cartItems) {
-        const serverProduct = priceMap.get(item.productId);
-
-        if (!serverProduct) {
-          logger.warn('Product not found in price validation', { productId: item.productId, orderId });
-          return NextResponse.json({
-            error: 'Product not found',
-            productId: item.productId
-          }, { status: 404 });
-        }
-
-        // ✅ CRITICAL: Validate client price matches server price
-        if (item.priceCents !== serverProduct.priceCents) {
-          logger.warn('Price mismatch detected', {
-            productId: item.productId,
-            clientPrice: item.priceCents,
-            serverPrice: serverProduct.priceCents,
-            orderId,
-            userId: user.id
-          });
-
-          // Log potential fraud attempt
-          logger.security('Price manipulation attempt detected', {
-            userId: user.id,
-            productId: item.productId,
-            attemptedPrice: item.priceCents,
-            actualPrice: serverProduct.priceCents,
-            orderId
-          });
-
-          return NextResponse.json({
-            error: 'Price mismatch detected. Please refresh your cart.',
-            details: {
-              productId: item.productId,
-              expectedPrice: serverProduct.priceCents / 100,
-              receivedPrice: item.priceCents / 100
-            }
-          }, { status: 400 });
-        }
-
-        // Calculate total with server prices
-        calculatedTotalCents += serverProduct.priceCents * item.quantity;
-
-        // Use validated server price
-        validatedItems.push({
-          order_id: orderId,
-          product_id: item.productId,
-          qty: item.quantity,
-          price_cents: serverProduct.priceCents, // ✅ Server price, not client
-        });
-      }
-
-      // ✅ CRITICAL: Validate total amount matches calculated total
-      const tolerance = 1; // Allow 1 cent tolerance for rounding
-      if (Math.abs(calculatedTotalCents - amountCents) > tolerance) {
-        logger.warn('Total amount mismatch', {
-          clientTotal: amountCents,
-          serverTotal: calculatedTotalCents,
-          difference: Math.abs(calculatedTotalCents - amountCents),
-          orderId,
-          userId: user.id
-        });
-
-        logger.security('Total manipulation attempt detected', {
-          userId: user.id,
-          attemptedTotal: amountCents,
-          calculatedTotal: calculatedTotalCents,
-          orderId
-        });
-
-        return NextResponse.json({
-          error: 'Total amount mismatch. Please refresh your cart.',
-          details: {
-            expectedTotal: calculatedTotalCents / 100,
-            receivedTotal: amountCents / 100
-          }
-        }, { status: 400 });
-      }
+      const validatedItems = checkout.items.map((item) => ({
+        order_id: orderId,
+        product_id: item.productId,
+        variant_id: item.variantId ?? null,
+        variant_label: item.variantLabel ?? null,
+        qty: item.quantity,
+        price_cents: item.priceCents, // ✅ Server price, not client
+      }));
 
       // Insert validated items with server prices
       const { error: itemsError } = await adminClient
@@ -407,6 +410,22 @@ export async function POST(request: NextRequest) {
       } else {
         logger.debug('Order items created with validated prices', { orderId, itemCount: cartItems.length });
       }
+
+      if (tax) {
+        try {
+          await new TaxService(adminClient).recordOrderTax(orderId, orderMetadata, checkout.items);
+        } catch (taxLinesError) {
+          logger.error('Order tax lines creation failed', taxLinesError as Error, { orderId });
+        }
+      }
+
+      if (promotion) {
+        try {
+          await new PromotionService(adminClient).recordOrderPromotions(orderId, user.id, orderMetadata, checkout.items);
+        } catch (redemptionError) {
+          logger.error('Order promotion redemptions creation failed', redemptionError as Error, { orderId });
+        }
+      }
     }
 
     // Process wallet payment with atomic debit (prevents race conditions)
@@ -438,23 +457,41 @@ export async function POST(request: NextRequest) {
       // Don't fail transaction if metadata update fails
     }
 
+    if (stockReservation) {
+      try {
+        await stockReservation.service.recordCheckoutSale(stockReservation.key, orderId);
+      } catch (stockError) {
+        logger.error('Failed to record stock sale', stockError as Error, { userId: user.id, orderId });
+      }
+      stockReservation = null;
+    }
+
     logger.payment('completed', 'wallet', {
       userId: user.id,
       orderId,
       amountCents,
       newBalanceCents: spendResult.newBalanceCents,
+      debitedCents: spendResult.debitedCents,
+      walletCurrency: spendResult.currency,
     });
 
     try {
       const commissionService = new CommissionCalculatorService(adminClient);
-      await commissionService.calculateAndCreateCommissions(user.id, amountCents, {
+      await commissionService.calculateAndCreateCommissions(user.id, commissionBaseCents, {
         orderId,
-        orderMetadata: metadata ?? null,
+        orderMetadata,
+        currency,
       });
     } catch (commissionError) {
       logger.error('Failed to create network commissions', commissionError as Error, { userId: user.id, orderId });
     }
 
+    try {
+      await new VolumeService(adminClient).recordOrder(orderId);
+    } catch (volumeError) {
+      logger.error('Failed to record order volume', volumeError as Error, { userId: user.id, orderId });
+    }
+
     return NextResponse.json({
       status: 'completed',
       orderId: order.id,
@@ -462,6 +499,53 @@ export async function POST(request: NextRequest) {
       transactionId: spendResult.transactionId,
     });
   } catch (error) {
+    if (stockReservation) {
+      await stockReservation.service.release(stockReservation.key);
+    }
+    await createPromotionService().release(promotionReservationKey);
+
+    if (error instanceof ProductPriceError) {
+      logger.warn('Wallet charge rejected by pricing', { code: error.code, productId: error.productId });
+      return NextResponse.json({
+        error: error.message,
+        code: error.code,
+        productId: error.productId ?? undefined,
+      }, { status: PRODUCT_PRICE_ERROR_STATUS[error.code] });
+    }
+
+    if (error instanceof StockError) {
+      logger.warn('Wallet charge rejected by stock', { code: error.code, productId: error.productId });
+      return NextResponse.json({
+        error: error.message,
+        code: error.code,
+        productId: error.productId,
+      }, { status: error.code === 'INSUFFICIENT_STOCK' ? 409 : 400 });
+    }
+
+    if (error instanceof ShippingError) {
+      logger.warn('Wallet charge rejected by shipping', { code: error.code });
+      return NextResponse.json({
+        error: error.message,
+        code: error.code,
+      }, { status: SHIPPING_ERROR_STATUS[error.code] });
+    }
+
+    if (error instanceof TaxError) {
+      logger.warn('Wallet charge rejected by tax', { code: error.code });
+      return NextResponse.json({
+        error: error.message,
+        code: error.code,
+      }, { status: TAX_ERROR_STATUS[error.code] });
+    }
+
+    if (error instanceof PromotionError) {
+      logger.warn('Wallet charge rejected by promotions', { code: error.code });
+      return NextResponse.json({
+        error: error.message,
+        code: error.code,
+      }, { status: PROMOTION_ERROR_STATUS[error.code] });
+    }
+
     if (error instanceof z.ZodError) {
       logger.warn('Wallet charge validation error', { errors: error.flatten().fieldErrors });
       return NextResponse.json({
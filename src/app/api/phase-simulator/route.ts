@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth/with-auth';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createPhaseSimulatorService } from '@/modules/multilevel/factories/phase-simulator-service-factory';
+
+const SimulationQuerySchema = z.object({
+  averageSalesCents: z.coerce.number().int().min(0).max(100_000_000).default(0),
+  personalSalesCents: z.coerce.number().int().min(0).max(100_000_000).default(0),
+});
+
+/**
+ * GET /api/phase-simulator
+ * What the authenticated member needs for the next phase: inactive members, missing activations
+ * and projected earnings with their own phase level rates.
+ * Query params: averageSalesCents, personalSalesCents
+ */
+export const GET = withAuth<unknown>(async (req) => {
+  const { searchParams } = new URL(req.url);
+  const parsed = SimulationQuerySchema.safeParse({
+    averageSalesCents: searchParams.get('averageSalesCents') ?? undefined,
+    personalSalesCents: searchParams.get('personalSalesCents') ?? undefined,
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid query parameters', details: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const simulation = await createPhaseSimulatorService().simulate(req.user.id, parsed.data);
+    return NextResponse.json({ simulation });
+  } catch (error) {
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for phase simulator endpoint', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('[API /phase-simulator] Failed to simulate next phase', error);
+    return NextResponse.json({ error: 'Failed to simulate next phase' }, { status: 500 });
+  }
+});
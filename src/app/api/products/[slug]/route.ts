@@ -8,7 +8,7 @@ export async function GET(request: Request, context: { params: Promise<{ slug: s
     const supabaseAdmin = getAdminClient();
     const { data, error } = await supabaseAdmin
       .from('products')
-      .select('*')
+      .select('*, variants:product_variants(*)')
       .eq('slug', slug)
       .single();
 
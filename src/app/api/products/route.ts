@@ -34,7 +34,7 @@ export async function GET(request: Request) {
     const supabase = createServiceRoleClient();
     const { data, error } = await supabase
       .from('products')
-      .select('*')
+      .select('*, variants:product_variants(*)')
       .order('created_at', { ascending: false });
 
     if (error) {
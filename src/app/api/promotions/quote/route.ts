@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createSecurityModule } from '@/modules/security/factories/security-module';
+import { createPromotionService } from '@/modules/orders/promotions/factories/promotion-service-factory';
+import { PromotionQuoteInputSchema } from '@/modules/orders/promotions/domain/models/promotion';
+
+const { rateLimitService } = createSecurityModule();
+
+/**
+ * POST /api/promotions/quote
+ * Promotions of a cart and the coupon entered at checkout. Usage limits per buyer are counted for
+ * the signed-in user
+ */
+export async function POST(req: NextRequest) {
+  const guard = await rateLimitService.guard(req, 'api:promotions:quote:post');
+
+  if (!guard.result.allowed) {
+    const response = NextResponse.json(rateLimitService.buildErrorPayload(guard.locale), { status: 429 });
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+
+  const parsed = PromotionQuoteInputSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    const response = NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 },
+    );
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    const quote = await createPromotionService().quote(parsed.data, user?.id ?? null);
+    return rateLimitService.applyHeaders(NextResponse.json({ quote }), guard.result);
+  } catch (error) {
+    console.error('[api.promotions.quote] Failed to quote promotions', error);
+    const response = NextResponse.json({ error: 'Failed to quote promotions' }, { status: 500 });
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+}
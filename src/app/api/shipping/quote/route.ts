@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSecurityModule } from '@/modules/security/factories/security-module';
+import { createShippingRateService } from '@/modules/orders/shipping/factories/shipping-rate-service-factory';
+import { ShippingQuoteInputSchema } from '@/modules/orders/shipping/domain/models/shipping';
+
+const { rateLimitService } = createSecurityModule();
+
+/**
+ * POST /api/shipping/quote
+ * Shipping options of a cart for a destination, quoted at checkout
+ */
+export async function POST(req: NextRequest) {
+  const guard = await rateLimitService.guard(req, 'api:shipping:quote:post');
+
+  if (!guard.result.allowed) {
+    const response = NextResponse.json(rateLimitService.buildErrorPayload(guard.locale), { status: 429 });
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+
+  const parsed = ShippingQuoteInputSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    const response = NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 },
+    );
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+
+  try {
+    const quote = await createShippingRateService().quote(parsed.data);
+    return rateLimitService.applyHeaders(NextResponse.json({ quote }), guard.result);
+  } catch (error) {
+    console.error('[api.shipping.quote] Failed to quote shipping', error);
+    const response = NextResponse.json({ error: 'Failed to quote shipping' }, { status: 500 });
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createSubscriptionPlanChangeService } from '@/modules/multilevel/factories/subscription-service-factory';
+import {
+  SubscriptionPlanChangeError,
+  type PlanChangeErrorCode,
+} from '@/modules/multilevel/services/subscription-plan-change-service';
+
+const ERROR_STATUS: Record<PlanChangeErrorCode, number> = {
+  SUBSCRIPTION_NOT_FOUND: 404,
+  PLAN_NOT_FOUND: 404,
+  SUBSCRIPTION_NOT_ACTIVE: 409,
+  SAME_PLAN: 409,
+  GATEWAY_UNSUPPORTED: 422,
+  PAYMENT_FAILED: 422,
+  PLAN_CHANGE_IN_PROGRESS: 409,
+};
+
+/**
+ * GET /api/subscription/change-plan/preview?planId=...
+ *
+ * Prorated credit, charge and amount due for moving to `planId`, without charging anything.
+ */
+export async function GET(req: NextRequest) {
+  const planId = req.nextUrl.searchParams.get('planId');
+
+  if (!planId) {
+    return NextResponse.json({ error: 'planId is required' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const planChangeService = createSubscriptionPlanChangeService();
+    const preview = await planChangeService.preview(user.id, planId);
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof SubscriptionPlanChangeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+    }
+    console.error('Failed to preview subscription plan change', error);
+    return NextResponse.json({ error: 'Unable to preview plan change' }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createSubscriptionPlanChangeService } from '@/modules/multilevel/factories/subscription-service-factory';
+import {
+  SubscriptionPlanChangeError,
+  type PlanChangeErrorCode,
+} from '@/modules/multilevel/services/subscription-plan-change-service';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+
+const ChangePlanSchema = z.object({
+  planId: z.string().min(1),
+  paymentSource: z.enum(['gateway', 'wallet']).default('gateway'),
+});
+
+const ERROR_STATUS: Record<PlanChangeErrorCode, number> = {
+  SUBSCRIPTION_NOT_FOUND: 404,
+  PLAN_NOT_FOUND: 404,
+  SUBSCRIPTION_NOT_ACTIVE: 409,
+  SAME_PLAN: 409,
+  GATEWAY_UNSUPPORTED: 422,
+  PAYMENT_FAILED: 422,
+  PLAN_CHANGE_IN_PROGRESS: 409,
+};
+
+/**
+ * POST /api/subscription/change-plan
+ *
+ * Moves the member to another plan mid-cycle. The prorated difference against
+ * `current_period_end` is charged through the subscription gateway (or the wallet when
+ * `paymentSource` is 'wallet'); a downgrade credits the difference to the wallet.
+ * Use GET /api/subscription/change-plan/preview to show the amount due first.
+ */
+export async function POST(req: NextRequest) {
+  // ✅ SECURITY: Validate CSRF token to prevent CSRF attacks
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) {
+    return csrfError;
+  }
+
+  let body: z.infer<typeof ChangePlanSchema>;
+  try {
+    body = ChangePlanSchema.parse(await req.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request payload', details: error.flatten() }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const planChangeService = createSubscriptionPlanChangeService();
+    const result = await planChangeService.changePlan(user.id, body.planId, body.paymentSource);
+
+    return NextResponse.json({
+      preview: result.preview,
+      subscription: result.subscription,
+      gateway: result.gateway,
+      walletCreditCents: result.walletCreditCents,
+      walletCreditCurrency: result.walletCreditCurrency,
+    });
+  } catch (error) {
+    if (error instanceof SubscriptionPlanChangeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+    }
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for subscription plan change', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('Failed to change subscription plan', error);
+    return NextResponse.json({ error: 'Unable to change subscription plan' }, { status: 500 });
+  }
+}
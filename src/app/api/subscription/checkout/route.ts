@@ -403,16 +403,18 @@ export async function POST(req: NextRequest) {
     // If updatePaymentMethod flag is set or user has active subscription, treat as payment method update
     const isPaymentMethodUpdate = Boolean(payload.updatePaymentMethod || hasActiveSubscription);
 
-    // Validate sponsor network capacity before allowing NEW subscriptions (skip for payment method updates)
+    // Check that the sponsor's network has a seat for NEW subscriptions, spilling over into the
+    // downline when the sponsor is full (skip for payment method updates). The placement itself
+    // is saved when the subscription activates.
     if (!isPaymentMethodUpdate) {
       const capacityService = new NetworkCapacityService(adminClient);
 
       try {
-        await capacityService.validateSponsorCapacity(userId);
+        await capacityService.checkPlacement(userId);
       } catch (error) {
         if (error instanceof NetworkCapacityError) {
           console.warn(
-            `[SubscriptionCheckout] Sponsor capacity limit reached for user ${userId}: ` +
+            `[SubscriptionCheckout] No network placement available for user ${userId}: ` +
             `sponsor=${error.sponsorId}, current=${error.currentCount}, max=${error.maxAllowed}`
           );
           return NextResponse.json(
@@ -427,7 +429,7 @@ export async function POST(req: NextRequest) {
           );
         }
         // If it's another type of error, log it and continue (don't block subscription)
-        console.error('[SubscriptionCheckout] Error checking sponsor capacity:', error);
+        console.error('[SubscriptionCheckout] Error checking the network placement:', error);
       }
     }
 
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createSubscriptionPauseService } from '@/modules/multilevel/factories/subscription-service-factory';
+import {
+  SubscriptionPauseError,
+  type SubscriptionPauseErrorCode,
+} from '@/modules/multilevel/services/subscription-pause-service';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+
+const PauseSchema = z.object({
+  days: z.number().int().min(1),
+});
+
+const ERROR_STATUS: Record<SubscriptionPauseErrorCode, number> = {
+  SUBSCRIPTION_NOT_FOUND: 404,
+  SUBSCRIPTION_NOT_ACTIVE: 409,
+  SUBSCRIPTION_NOT_PAUSED: 409,
+  PAUSE_DISABLED: 403,
+  PAUSE_NOT_SUPPORTED: 409,
+  PAUSE_TOO_LONG: 422,
+  PAUSE_LIMIT_REACHED: 422,
+};
+
+/**
+ * POST /api/subscription/pause
+ *
+ * Pauses the member's subscription for `days` days instead of canceling it. Renewals are
+ * skipped and `current_period_end` moves back by the same number of days. The maximum length
+ * and the pauses allowed per year are set in app settings.
+ */
+export async function POST(req: NextRequest) {
+  // ✅ SECURITY: Validate CSRF token to prevent CSRF attacks
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) {
+    return csrfError;
+  }
+
+  let body: z.infer<typeof PauseSchema>;
+  try {
+    body = PauseSchema.parse(await req.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request payload', details: error.flatten() }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const pauseService = createSubscriptionPauseService();
+    const result = await pauseService.pause(user.id, body.days);
+
+    return NextResponse.json({
+      subscription: result.subscription,
+      pauseEndsAt: result.pauseEndsAt,
+      currentPeriodEnd: result.currentPeriodEnd,
+    });
+  } catch (error) {
+    if (error instanceof SubscriptionPauseError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+    }
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for subscription pause', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('Failed to pause subscription', error);
+    return NextResponse.json({ error: 'Unable to pause subscription' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createSubscriptionPauseService } from '@/modules/multilevel/factories/subscription-service-factory';
+import {
+  SubscriptionPauseError,
+  type SubscriptionPauseErrorCode,
+} from '@/modules/multilevel/services/subscription-pause-service';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+
+const ERROR_STATUS: Record<SubscriptionPauseErrorCode, number> = {
+  SUBSCRIPTION_NOT_FOUND: 404,
+  SUBSCRIPTION_NOT_ACTIVE: 409,
+  SUBSCRIPTION_NOT_PAUSED: 409,
+  PAUSE_DISABLED: 403,
+  PAUSE_NOT_SUPPORTED: 409,
+  PAUSE_TOO_LONG: 422,
+  PAUSE_LIMIT_REACHED: 422,
+};
+
+/**
+ * POST /api/subscription/resume
+ *
+ * Ends the member's pause early. The unused pause days are taken back off
+ * `current_period_end` and the subscription is active again right away.
+ */
+export async function POST(req: NextRequest) {
+  // ✅ SECURITY: Validate CSRF token to prevent CSRF attacks
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) {
+    return csrfError;
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const pauseService = createSubscriptionPauseService();
+    const result = await pauseService.resume(user.id);
+
+    return NextResponse.json({
+      subscription: result.subscription,
+      pausedDays: result.pausedDays,
+      early: result.early,
+    });
+  } catch (error) {
+    if (error instanceof SubscriptionPauseError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: ERROR_STATUS[error.code] });
+    }
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for subscription resume', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('Failed to resume subscription', error);
+    return NextResponse.json({ error: 'Unable to resume subscription' }, { status: 500 });
+  }
+}
@@ -70,7 +70,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Validate subscription status
-    const validStatuses = ['active', 'past_due', 'canceled', 'unpaid'];
+    const validStatuses = ['active', 'past_due', 'canceled', 'unpaid', 'paused'];
     if (!subscription.status || !validStatuses.includes(subscription.status)) {
       console.error('[UpdatePaymentMethod] Invalid subscription status:', subscription.status);
       return NextResponse.json({ 
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSecurityModule } from '@/modules/security/factories/security-module';
+import { createTaxService } from '@/modules/orders/tax/factories/tax-service-factory';
+import { TaxQuoteInputSchema } from '@/modules/orders/tax/domain/models/tax';
+
+const { rateLimitService } = createSecurityModule();
+
+/**
+ * POST /api/tax/quote
+ * Tax of a cart for a destination, quoted at checkout
+ */
+export async function POST(req: NextRequest) {
+  const guard = await rateLimitService.guard(req, 'api:tax:quote:post');
+
+  if (!guard.result.allowed) {
+    const response = NextResponse.json(rateLimitService.buildErrorPayload(guard.locale), { status: 429 });
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+
+  const parsed = TaxQuoteInputSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    const response = NextResponse.json(
+      { error: 'Invalid request payload', details: parsed.error.issues },
+      { status: 400 },
+    );
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+
+  try {
+    const quote = await createTaxService().quote(parsed.data);
+    return rateLimitService.applyHeaders(NextResponse.json({ quote }), guard.result);
+  } catch (error) {
+    console.error('[api.tax.quote] Failed to quote tax', error);
+    const response = NextResponse.json({ error: 'Failed to quote tax' }, { status: 500 });
+    return rateLimitService.applyHeaders(response, guard.result);
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth/with-auth';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createTreeExplorerService } from '@/modules/multilevel/factories/tree-explorer-service-factory';
+import { TreeExplorerError } from '@/modules/multilevel/services/tree-explorer-service';
+
+const ChildrenQuerySchema = z.object({
+  parentId: z.string().uuid().optional(),
+  status: z.enum(['active', 'past_due', 'canceled', 'unpaid', 'paused', 'none']).optional(),
+  phase: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * GET /api/tree/explorer/children
+ * One page of the direct members of a node of the member's network (the member by default),
+ * each with its number of direct members and downline rollups. Optional ?status= and ?phase=
+ * filters hide the members that do not match.
+ */
+export const GET = withAuth<unknown>(async (req) => {
+  const { searchParams } = new URL(req.url);
+  const query = ChildrenQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!query.success) {
+    return NextResponse.json({ error: 'Invalid query parameters', details: query.error.issues }, { status: 400 });
+  }
+
+  const { parentId, status, phase, limit, offset } = query.data;
+
+  try {
+    const page = await createTreeExplorerService().fetchChildren(req.user.id, parentId, { status, phase }, { limit, offset });
+    return NextResponse.json(page);
+  } catch (error) {
+    if (error instanceof TreeExplorerError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 404 });
+    }
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for tree explorer endpoint', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('[API /tree/explorer/children] Failed to load tree children', error);
+    return NextResponse.json({ error: 'Failed to load tree data' }, { status: 500 });
+  }
+});
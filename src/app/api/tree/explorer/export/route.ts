@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth/with-auth';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createTreeExplorerService } from '@/modules/multilevel/factories/tree-explorer-service-factory';
+import {
+  TREE_EXPLORER_MAX_DEPTH,
+  TreeExplorerError,
+  toTreeCsv,
+} from '@/modules/multilevel/services/tree-explorer-service';
+
+const ExportQuerySchema = z.object({
+  nodeId: z.string().uuid().optional(),
+  format: z.enum(['csv', 'json']).default('csv'),
+  depth: z.coerce.number().int().min(1).max(TREE_EXPLORER_MAX_DEPTH).optional(),
+  status: z.enum(['active', 'past_due', 'canceled', 'unpaid', 'paused', 'none']).optional(),
+  phase: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * GET /api/tree/explorer/export
+ * Download the subtree below a node of the member's network (the member by default) as CSV or
+ * JSON, `depth` levels deep and with the same ?status= and ?phase= filters as the explorer
+ */
+export const GET = withAuth<unknown>(async (req) => {
+  const { searchParams } = new URL(req.url);
+  const query = ExportQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!query.success) {
+    return NextResponse.json({ error: 'Invalid query parameters', details: query.error.issues }, { status: 400 });
+  }
+
+  const { nodeId, format, depth, status, phase } = query.data;
+
+  try {
+    const rows = await createTreeExplorerService().exportSubtree(req.user.id, nodeId, { status, phase }, depth);
+    const filename = `network-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'json') {
+      return NextResponse.json(
+        { nodeId: nodeId ?? req.user.id, members: rows },
+        { headers: { 'Content-Disposition': `attachment; filename="${filename}"` } },
+      );
+    }
+
+    return new NextResponse(toTreeCsv(rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TreeExplorerError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 404 });
+    }
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for tree explorer endpoint', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('[API /tree/explorer/export] Failed to export the tree', error);
+    return NextResponse.json({ error: 'Failed to export tree' }, { status: 500 });
+  }
+});
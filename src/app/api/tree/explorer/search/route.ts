@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth/with-auth';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createTreeExplorerService } from '@/modules/multilevel/factories/tree-explorer-service-factory';
+
+const SearchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(100),
+  status: z.enum(['active', 'past_due', 'canceled', 'unpaid', 'paused', 'none']).optional(),
+  phase: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * GET /api/tree/explorer/search?q=
+ * Members of the member's network whose name or email contains `q`, with the path of ancestors
+ * to expand the tree down to each match
+ */
+export const GET = withAuth<unknown>(async (req) => {
+  const { searchParams } = new URL(req.url);
+  const query = SearchQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!query.success) {
+    return NextResponse.json({ error: 'Invalid query parameters', details: query.error.issues }, { status: 400 });
+  }
+
+  const { q, status, phase, limit, offset } = query.data;
+
+  try {
+    const result = await createTreeExplorerService().search(req.user.id, q, { status, phase }, { limit, offset });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for tree explorer endpoint', error);
+      return NextResponse.json(
+        {
+          error: 'environment-configuration-missing',
+          message: error.message,
+          missing: error.missingKeys,
+        },
+        { status: 503 },
+      );
+    }
+    console.error('[API /tree/explorer/search] Failed to search the tree', error);
+    return NextResponse.json({ error: 'Failed to search tree' }, { status: 500 });
+  }
+});
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/auth/with-auth';
+import { requireCsrfToken } from '@/lib/security/csrf-protection';
+import { EnvironmentConfigurationError } from '@/lib/env';
+import { createNetworkCapacityService } from '@/modules/multilevel/factories/network-capacity-service-factory';
+import { NetworkCapacityError } from '@/modules/multilevel/services/network-capacity-service';
+
+const SpilloverLegSchema = z.object({
+  legId: z.string().uuid().nullable(),
+});
+
+const environmentError = (error: EnvironmentConfigurationError) =>
+  NextResponse.json(
+    {
+      error: 'environment-configuration-missing',
+      message: error.message,
+      missing: error.missingKeys,
+    },
+    { status: 503 },
+  );
+
+/**
+ * GET /api/tree/spillover
+ * Spillover strategy configured by admins, the member's direct members and the leg chosen to
+ * receive their spillover.
+ */
+export const GET = withAuth<unknown>(async (req) => {
+  try {
+    const preference = await createNetworkCapacityService().getSpilloverPreference(req.user.id);
+    return NextResponse.json({ preference });
+  } catch (error) {
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for spillover endpoint', error);
+      return environmentError(error);
+    }
+    console.error('[API /tree/spillover] Failed to load spillover preference', error);
+    return NextResponse.json({ error: 'Failed to load spillover preference' }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/tree/spillover
+ * Chooses the direct member whose leg receives new members once level 1 is full. Only used
+ * with the `sponsor_choice` strategy; `legId: null` clears the choice.
+ */
+export const PUT = withAuth<unknown>(async (req) => {
+  // ✅ SECURITY: Validate CSRF token to prevent CSRF attacks
+  const csrfError = await requireCsrfToken(req);
+  if (csrfError) {
+    return csrfError;
+  }
+
+  const parsed = SpilloverLegSchema.safeParse(await req.json().catch(() => null));
+
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid request payload', details: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const service = createNetworkCapacityService();
+    await service.setSpilloverLeg(req.user.id, parsed.data.legId);
+    const preference = await service.getSpilloverPreference(req.user.id);
+    return NextResponse.json({ preference });
+  } catch (error) {
+    if (error instanceof NetworkCapacityError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 422 });
+    }
+    if (error instanceof EnvironmentConfigurationError) {
+      console.error('Missing environment configuration for spillover endpoint', error);
+      return environmentError(error);
+    }
+    console.error('[API /tree/spillover] Failed to save spillover leg', error);
+    return NextResponse.json({ error: 'Failed to save spillover leg' }, { status: 500 });
+  }
+});
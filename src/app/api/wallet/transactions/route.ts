@@ -9,14 +9,16 @@ export const GET = withAuth<unknown>(async (req) => {
   const profileService = createProfileSummaryService();
 
   try {
-    const [balance, transactions, summary] = await Promise.all([
+    const [balance, balances, transactions, summary] = await Promise.all([
       walletService.getBalance(userId),
+      walletService.getBalances(userId),
       walletService.listTransactions(userId, 100),
       profileService.getSummary(userId),
     ]);
 
     return NextResponse.json({ 
       balance, 
+      balances,
       transactions,
       networkEarnings: summary.networkEarnings,
       payoutAccount: summary.payoutAccount,
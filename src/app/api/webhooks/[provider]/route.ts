@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paymentPluginRegistry } from '@/modules/payments/plugins';
+import { rateLimit, RateLimitPresets, getRateLimitHeaders } from '@/lib/utils/rate-limit';
+import { createWebhookPipelineService } from '@/modules/payments/webhooks/factories/webhook-pipeline-service-factory';
+import { getPluginWebhookCredentials } from '@/modules/payments/webhooks/handlers/plugin-webhook-handler';
+
+interface RouteContext {
+  params: Promise<{ provider: string }>;
+}
+
+/**
+ * POST /api/webhooks/[provider]
+ *
+ * Webhooks of the payment plugins (Authorize.net, Payoneer, Mercado Pago...). The plugin verifies the signature
+ * sent in its webhookSignatureHeader and parses the event; the pipeline stores it and dispatches it
+ * to the plugin's handleWebhook. Plugins that sign more than the body, like Mercado Pago, also get the
+ * request headers and query. Stripe and PayPal have their own routes.
+ */
+export async function POST(req: NextRequest, context: RouteContext) {
+  const { provider } = await context.params;
+
+  // ✅ SECURITY: Rate limiting for webhooks (200 req/min)
+  const forwarded = req.headers.get('x-forwarded-for');
+  const ip = forwarded ? forwarded.split(',')[0].trim() : `${provider}-webhook`;
+
+  const rateLimitResult = await rateLimit(ip, RateLimitPresets.webhook);
+
+  if (!rateLimitResult.success) {
+    console.warn(`[Plugin Webhook] Rate limit exceeded for IP: ${ip}`);
+    return NextResponse.json(
+      { error: 'Too many requests' },
+      {
+        status: 429,
+        headers: getRateLimitHeaders(rateLimitResult),
+      }
+    );
+  }
+
+  if (!paymentPluginRegistry.has(provider)) {
+    return NextResponse.json({ error: 'Unknown payment provider' }, { status: 404 });
+  }
+
+  const plugin = paymentPluginRegistry.get(provider);
+  const signatureHeader = plugin.config.webhookSignatureHeader;
+  const signature = signatureHeader ? req.headers.get(signatureHeader) : null;
+
+  if (!plugin.verifyWebhookSignature || !signature) {
+    return NextResponse.json({ error: 'Missing webhook signature' }, { status: 400 });
+  }
+
+  const body = await req.text();
+
+  try {
+    const credentials = await getPluginWebhookCredentials(plugin);
+
+    const requestContext = {
+      headers: Object.fromEntries(req.headers.entries()),
+      query: Object.fromEntries(req.nextUrl.searchParams.entries()),
+    };
+
+    if (!plugin.verifyWebhookSignature(body, signature, credentials, requestContext)) {
+      console.error(`[Plugin Webhook] ${provider} webhook signature verification FAILED`);
+      return NextResponse.json({ error: 'Invalid webhook signature' }, { status: 401 });
+    }
+  } catch (error) {
+    console.error(`[Plugin Webhook] ${provider} webhook verification error:`, error);
+    return NextResponse.json({ error: 'Webhook verification failed' }, { status: 500 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(body);
+  } catch (_error) {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const event = plugin.parseWebhookEvent?.(payload);
+  if (!event?.id) {
+    return NextResponse.json({ error: 'Missing event id' }, { status: 400 });
+  }
+
+  try {
+    const result = await createWebhookPipelineService().ingest({
+      provider,
+      eventId: event.id,
+      eventType: event.type,
+      payload,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      status: result.status,
+      alreadyProcessed: result.duplicate && result.status === 'processed',
+    });
+  } catch (error) {
+    console.error(`[Plugin Webhook] Failed to store ${provider} event ${event.id}`, error);
+    return NextResponse.json({ error: 'Processing failed' }, { status: 500 });
+  }
+}
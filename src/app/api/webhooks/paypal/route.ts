@@ -1,12 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSubscriptionLifecycleService } from '@/modules/multilevel/factories/subscription-service-factory';
-import { createAdminClient } from '@/lib/supabase/server';
-import { WalletService } from '@/modules/multilevel/services/wallet-service';
 import { GatewayCredentialsService } from '@/modules/payments/services/gateway-credentials-service';
 import { PaymentError, PaymentErrorCode } from '@/modules/payments/utils/payment-errors';
 import { rateLimit, RateLimitPresets, getRateLimitHeaders } from '@/lib/utils/rate-limit';
-
-const SUPPORTED_EVENTS = new Set(['PAYMENT.SALE.COMPLETED', 'CHECKOUT.ORDER.APPROVED']);
+import { createWebhookPipelineService } from '@/modules/payments/webhooks/factories/webhook-pipeline-service-factory';
 
 /**
  * Verify PayPal webhook signature
@@ -174,112 +170,27 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  // Protection against replay attacks - verify event timestamp
-  const EVENT_MAX_AGE_SECONDS = 300; // 5 minutes
-  const eventTime = payload.create_time ? new Date(payload.create_time).getTime() / 1000 : null;
-
-  if (eventTime) {
-    const eventAge = Date.now() / 1000 - eventTime;
-    if (eventAge > EVENT_MAX_AGE_SECONDS) {
-      console.error(`[PayPal Webhook] Event ${payload.id} is too old (${Math.floor(eventAge)}s > ${EVENT_MAX_AGE_SECONDS}s) - possible replay attack`);
-      return NextResponse.json({ error: 'Event too old' }, { status: 400 });
-    }
-  }
-
-  if (!SUPPORTED_EVENTS.has(payload?.event_type)) {
-    return NextResponse.json({ ok: true, ignored: 'event-type' });
-  }
-
-  const resource = payload.resource ?? {};
-  const customId = typeof resource.custom_id === 'string' ? resource.custom_id : null;
-  const walletMatch = customId?.startsWith('wallet_recharge:') ? customId.split(':') : null;
-  const walletUserId = walletMatch && walletMatch.length >= 2 ? walletMatch[1] : null;
-  const subscriptionMatch = customId?.startsWith('subscription:') ? customId.split(':') : null;
-  const subscriptionUserId = subscriptionMatch && subscriptionMatch.length >= 2 ? subscriptionMatch[1] : null;
-  const subscriptionPlanId = subscriptionMatch && subscriptionMatch.length >= 3 ? subscriptionMatch[2] : null;
-  const checkoutMatch = customId?.startsWith('checkout:') ? customId.split(':') : null;
-  const checkoutUserId = checkoutMatch && checkoutMatch.length >= 4 ? checkoutMatch[1] : null;
-  const rewardType = checkoutMatch && checkoutMatch.length >= 4 ? checkoutMatch[2] : null;
-  const discountCents = checkoutMatch && checkoutMatch.length >= 4 ? parseInt(checkoutMatch[3], 10) : null;
-  
-  const userId =
-    walletUserId ||
-    subscriptionUserId ||
-    checkoutUserId ||
-    customId ||
-    resource.supplementary_data?.related_ids?.customer_user_id;
-  if (!userId) {
-    return NextResponse.json({ ok: true, ignored: 'missing-user' });
-  }
-
-  const amountValue = parseFloat(resource.amount?.value ?? '0');
-  const amountCents = Number.isFinite(amountValue) ? Math.round(amountValue * 100) : 0;
-  const gatewayRef = resource.id ?? payload.id;
-  const periodEnd = resource.billing_info?.next_billing_time ?? null;
-
-  if (!gatewayRef) {
-    return NextResponse.json({ error: 'Missing gateway reference' }, { status: 400 });
+  if (typeof payload?.id !== 'string' || !payload.id) {
+    return NextResponse.json({ error: 'Missing event id' }, { status: 400 });
   }
 
-  if (walletUserId) {
-    try {
-      const adminClient = await createAdminClient();
-      const walletService = new WalletService(adminClient);
-      const result = await walletService.recordRecharge({
-        userId: walletUserId,
-        amountCents,
-        gateway: 'paypal',
-        gatewayRef,
-        currency:
-          typeof resource.amount?.currency_code === 'string' ? resource.amount.currency_code : 'USD',
-        metadata: {
-          paypal_resource: resource,
-        },
-      });
-
-      return NextResponse.json({ ok: true, recharge: true, alreadyProcessed: (result as any)?.alreadyProcessed ?? false });
-    } catch (walletError) {
-      console.error('Failed to record wallet recharge from PayPal webhook', walletError);
-      return NextResponse.json({ error: 'Wallet recharge failed' }, { status: 500 });
-    }
-  }
-
-  // Apply phase reward discount if present in custom_id
-  if (checkoutUserId && rewardType && discountCents && discountCents > 0) {
-    if (rewardType === 'free_product' || rewardType === 'store_credit') {
-      try {
-        // Import PhaseRewardsService directly to avoid HTTP call
-        const { PhaseRewardsService } = await import('@/lib/services/phase-rewards-service');
-        const result = await PhaseRewardsService.applyReward(checkoutUserId, discountCents, rewardType as 'free_product' | 'store_credit');
-
-        if (!result.success) {
-          console.error('[PayPal Webhook] Failed to apply phase reward:', result.error);
-        }
-      } catch (rewardError) {
-        console.error('[PayPal Webhook] Error applying phase reward:', rewardError);
-      }
-    }
-  }
-
-  // Note: PayPal webhooks don't include full metadata like Stripe does
-  // Order creation for PayPal will be handled in the capture-order endpoint
-  // where we have access to the full metadata from the session
-
-  const lifecycleService = createSubscriptionLifecycleService();
-
+  // The pipeline stores the event before processing it and drops redeliveries by event ID, which
+  // also turns a replayed notification into a no-op; failing handlers are retried from the stored event
   try {
-    const result = await lifecycleService.handleConfirmedPayment({
-      userId,
-      planId: subscriptionPlanId,
-      amountCents,
-      gatewayRef,
-      periodEnd,
-      gateway: 'paypal',
+    const result = await createWebhookPipelineService().ingest({
+      provider: 'paypal',
+      eventId: payload.id,
+      eventType: typeof payload.event_type === 'string' ? payload.event_type : null,
+      payload,
     });
 
-    return NextResponse.json({ ok: true, alreadyProcessed: result.alreadyProcessed });
+    return NextResponse.json({
+      ok: true,
+      status: result.status,
+      alreadyProcessed: result.duplicate && result.status === 'processed',
+    });
   } catch (error) {
-    console.error('PayPal webhook processing failed', error);
+    console.error(`[PayPal Webhook] Failed to store event ${payload.id}`, error);
     return NextResponse.json({ error: 'Processing failed' }, { status: 500 });
   }
 }
@@ -5,9 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calculator, DollarSign, Users, TrendingUp, Loader2, UserPlus, Gift } from "lucide-react";
+import { Calculator, DollarSign, Users, TrendingUp, Loader2, UserPlus, Gift, Target } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import PhaseSimulator from "@/app/components/phase-simulator";
 
 interface MLMLevel {
   level: number;
@@ -287,7 +288,7 @@ export default function IncomeCalculator({ dict, lang }: IncomeCalculatorProps)
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="multilevel" className="flex items-center gap-2">
                 <Users className="h-4 w-4" />
                 {dict.incomeCalculator.tabs.multilevel}
@@ -296,6 +297,10 @@ export default function IncomeCalculator({ dict, lang }: IncomeCalculatorProps)
                 <UserPlus className="h-4 w-4" />
                 {dict.incomeCalculator.tabs.affiliate}
               </TabsTrigger>
+              <TabsTrigger value="simulator" className="flex items-center gap-2">
+                <Target className="h-4 w-4" />
+                {dict.incomeCalculator.tabs.simulator}
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="multilevel" className="space-y-6 mt-6">
@@ -776,6 +781,10 @@ export default function IncomeCalculator({ dict, lang }: IncomeCalculatorProps)
                 )}
               </div>
             </TabsContent>
+
+            <TabsContent value="simulator" className="space-y-6 mt-6">
+              <PhaseSimulator dict={dict} lang={lang} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
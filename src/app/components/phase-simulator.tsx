@@ -0,0 +1,280 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle2, Loader2, Target, UserX } from "lucide-react";
+import type { PhaseEarningsProjection, PhaseSimulation } from "@/modules/multilevel/domain/types";
+
+interface PhaseSimulatorProps {
+  dict: any;
+  lang: 'en' | 'es';
+}
+
+const interpolate = (template: string, values: Record<string, string | number>) =>
+  Object.entries(values).reduce(
+    (result, [key, value]) => result.replace(new RegExp(`{{${key}}}`, 'g'), String(value)),
+    template,
+  );
+
+const toCents = (value: string) => Math.max(0, Math.round((parseFloat(value) || 0) * 100));
+
+export default function PhaseSimulator({ dict, lang }: PhaseSimulatorProps) {
+  const copy = dict.incomeCalculator.simulator;
+  const [simulation, setSimulation] = useState<PhaseSimulation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [unauthenticated, setUnauthenticated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [averageSales, setAverageSales] = useState<string>("");
+  const [personalSales, setPersonalSales] = useState<string>("");
+
+  const loadSimulation = useCallback(async (averageSalesCents: number, personalSalesCents: number) => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        averageSalesCents: averageSalesCents.toString(),
+        personalSalesCents: personalSalesCents.toString(),
+      });
+      const response = await fetch(`/api/phase-simulator?${params.toString()}`);
+
+      if (response.status === 401) {
+        setUnauthenticated(true);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to load simulation');
+      }
+
+      const data: { simulation: PhaseSimulation } = await response.json();
+      setSimulation(data.simulation);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading phase simulation:', err);
+      setError(copy.loadError);
+    } finally {
+      setLoading(false);
+    }
+  }, [copy.loadError]);
+
+  useEffect(() => {
+    loadSimulation(0, 0);
+  }, [loadSimulation]);
+
+  const formatCurrency = (cents: number) =>
+    new Intl.NumberFormat(lang === 'es' ? 'es-ES' : 'en-US', {
+      style: 'currency',
+      currency: simulation?.currency || 'USD',
+    }).format(cents / 100);
+
+  const memberLabel = (member: { name: string | null; email: string }) => member.name?.trim() || member.email;
+
+  if (unauthenticated) {
+    return (
+      <Alert>
+        <AlertDescription className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <span>{copy.signInPrompt}</span>
+          <Button asChild size="sm">
+            <Link href={`/${lang}/auth/login`}>{copy.signInButton}</Link>
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (loading && !simulation) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-emerald-600" />
+      </div>
+    );
+  }
+
+  if (error || !simulation) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error || copy.loadError}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const renderProjection = (title: string, projection: PhaseEarningsProjection) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl text-emerald-700">{formatCurrency(projection.totalCents)}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1 text-sm text-muted-foreground">
+        <p>{interpolate(copy.projectionRate, { rate: (projection.commissionRate * 100).toFixed(0), members: projection.activeNetworkMembers })}</p>
+        <p>{interpolate(copy.projectionPersonal, { amount: formatCurrency(projection.personalCommissionCents) })}</p>
+        <p>{interpolate(copy.projectionNetwork, { amount: formatCurrency(projection.networkCommissionCents) })}</p>
+        <p>{interpolate(copy.projectionRewards, { amount: formatCurrency(projection.rewardCreditCents + projection.freeProductValueCents) })}</p>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h3 className="text-xl font-semibold text-emerald-700">{copy.title}</h3>
+        <p className="text-sm text-muted-foreground mt-1">{copy.subtitle}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{copy.currentPhase}</CardDescription>
+            <CardTitle className="text-2xl">{interpolate(copy.phaseLabel, { phase: simulation.currentPhase })}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{copy.targetPhase}</CardDescription>
+            <CardTitle className="text-2xl">
+              {simulation.targetPhase === null
+                ? copy.topPhase
+                : interpolate(copy.phaseLabel, { phase: simulation.targetPhase })}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{copy.missingActivations}</CardDescription>
+            <CardTitle className="text-2xl">{simulation.missingActivations}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      {!simulation.selfActive && (
+        <Alert variant="destructive">
+          <AlertDescription>{copy.selfInactive}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Target className="h-5 w-5 text-emerald-600" />
+          <h4 className="text-lg font-semibold">{copy.requirementsTitle}</h4>
+        </div>
+        {simulation.requirements.map((requirement) => (
+          <div key={`${requirement.phase}-${requirement.type}`} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {interpolate(copy.phaseLabel, { phase: requirement.phase })} · {copy.requirementTypes[requirement.type]}
+              </span>
+              {requirement.met ? (
+                <Badge variant="secondary" className="gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  {copy.met}
+                </Badge>
+              ) : (
+                <Badge variant="destructive">
+                  {interpolate(copy.missing, { count: requirement.missingActivations })}
+                </Badge>
+              )}
+            </div>
+            <Progress value={requirement.required > 0 ? Math.min(100, (requirement.current / requirement.required) * 100) : 100} />
+            <p className="text-xs text-muted-foreground">
+              {interpolate(copy.progress, { current: requirement.current, required: requirement.required })}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {simulation.directGaps.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-lg font-semibold">{copy.directsTitle}</h4>
+          {simulation.directGaps.map((gap) => (
+            <div key={gap.member.id} className="rounded-lg border p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{memberLabel(gap.member)}</span>
+                <Badge variant={gap.active ? 'secondary' : 'destructive'}>
+                  {gap.active ? copy.active : copy.inactive}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {interpolate(copy.directRecruits, { active: gap.activeRecruits, missing: gap.missingRecruits })}
+              </p>
+              {gap.inactiveRecruits.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {interpolate(copy.inactiveRecruits, { names: gap.inactiveRecruits.map(memberLabel).join(', ') })}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(simulation.inactiveDirects.length > 0 || simulation.inactiveSecondLevel.length > 0) && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <UserX className="h-5 w-5 text-destructive" />
+            <h4 className="text-lg font-semibold">{copy.inactiveTitle}</h4>
+          </div>
+          <p className="text-sm text-muted-foreground">{copy.inactiveHelp}</p>
+          <ul className="text-sm list-disc pl-5 space-y-1">
+            {simulation.inactiveDirects.map((member) => (
+              <li key={member.id}>{interpolate(copy.inactiveMember, { name: memberLabel(member), level: 1 })}</li>
+            ))}
+            {simulation.inactiveSecondLevel.map((member) => (
+              <li key={member.id}>{interpolate(copy.inactiveMember, { name: memberLabel(member), level: 2 })}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <h4 className="text-lg font-semibold">{copy.projectionTitle}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="simulator-personal-sales">{copy.personalSalesLabel}</Label>
+            <Input
+              id="simulator-personal-sales"
+              type="number"
+              min="0"
+              step="0.01"
+              value={personalSales}
+              onChange={(e) => setPersonalSales(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="simulator-average-sales">{copy.averageSalesLabel}</Label>
+            <Input
+              id="simulator-average-sales"
+              type="number"
+              min="0"
+              step="0.01"
+              value={averageSales}
+              onChange={(e) => setAverageSales(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button
+          onClick={() => loadSimulation(toCents(averageSales), toCents(personalSales))}
+          disabled={loading}
+          className="w-full"
+        >
+          {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {copy.projectButton}
+        </Button>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {renderProjection(
+            interpolate(copy.projectionCurrent, { phase: simulation.projections.current.phase }),
+            simulation.projections.current,
+          )}
+          {simulation.projections.target &&
+            renderProjection(
+              interpolate(copy.projectionTarget, { phase: simulation.projections.target.phase }),
+              simulation.projections.target,
+            )}
+        </div>
+      </div>
+    </div>
+  );
+}
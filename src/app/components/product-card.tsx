@@ -16,6 +16,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useSupabaseUser } from '@/modules/auth/hooks/use-supabase-user';
 import { useCurrentUserCountry } from '@/modules/profile/hooks/use-current-user-country';
 import { getDiscountedUnitPrice } from '@/modules/products/utils/product-pricing';
+import { hasVariants } from '@/modules/products/utils/product-variants';
 
 type ProductCardProps = {
   product: Product;
@@ -137,6 +138,12 @@ export default function ProductCard({ product, lang, onQuickView, insights, vari
       return;
     }
 
+    // Products with variants are added from their detail page, where the variant is chosen
+    if (hasVariants(product)) {
+      router.push(viewDetailsHref);
+      return;
+    }
+
     setIsAdding(true);
     addItem(product);
 
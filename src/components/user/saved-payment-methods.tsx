@@ -26,11 +26,22 @@ import {
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { CreditCard, Plus, Trash2, Check } from 'lucide-react';
-import type { PaymentMethod } from '@/modules/payment-methods/domain/types';
+import { CreditCard, Plus, Trash2, Check, Wallet } from 'lucide-react';
+import type { PaymentMethod, PaymentMethodProvider } from '@/modules/payment-methods/domain/types';
+import { getPaymentMethodLabel } from '@/modules/payment-methods/utils/payment-method-label';
+import { fetchWithCsrf } from '@/lib/utils/admin-csrf-helpers';
 import { usePaymentProviders } from '@/modules/payments/hooks/use-payment-gateways';
 import { useMediaQuery } from '@/hooks/use-media-query';
 
+const PROVIDER_LABELS: Record<PaymentMethodProvider, string> = {
+  stripe: 'Stripe',
+  paypal: 'PayPal',
+  authorize_net: 'Authorize.net',
+};
+
+// PayPal returns the member here with the approved billing agreement token
+const PAYPAL_AGREEMENT_TOKEN_PARAM = 'ba_token';
+
 const stripePromiseCache: Record<string, Promise<Stripe | null>> = {};
 
 const getStripePromise = (publishableKey: string): Promise<Stripe | null> | null => {
@@ -64,7 +75,7 @@ function AddCardForm({ onSuccess }: { onSuccess: () => void }) {
     setLoading(true);
 
     try {
-      const setupResponse = await fetch('/api/payment-methods/setup-intent', {
+      const setupResponse = await fetchWithCsrf('/api/payment-methods/setup-intent', {
         method: 'POST',
       });
 
@@ -89,12 +100,13 @@ function AddCardForm({ onSuccess }: { onSuccess: () => void }) {
         throw new Error(error.message);
       }
 
-      const saveResponse = await fetch('/api/payment-methods', {
+      const saveResponse = await fetchWithCsrf('/api/payment-methods', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          provider: 'stripe',
           paymentMethodId: setupIntent.payment_method,
           setAsDefault,
         }),
@@ -157,7 +169,7 @@ function AddCardForm({ onSuccess }: { onSuccess: () => void }) {
               Set as default payment method
             </Label>
             <p className="text-xs text-muted-foreground">
-              Use this card automatically for future subscription payments.
+              Use this card automatically for subscription renewals and one-click checkout.
             </p>
           </div>
           <Switch
@@ -193,6 +205,8 @@ export function SavedPaymentMethods() {
   }, [stripeProvider]);
   const _stripeMode = stripeProvider?.mode ?? null;
   const stripeConfigured = Boolean(stripePromise);
+  const paypalConfigured = useMemo(() => providers.some((provider) => provider.provider === 'paypal'), [providers]);
+  const [linkingPayPal, setLinkingPayPal] = useState(false);
 
   const loadPaymentMethods = useCallback(async (options: { showLoader?: boolean } = {}) => {
     if (options.showLoader) {
@@ -228,9 +242,86 @@ export function SavedPaymentMethods() {
     loadPaymentMethods({ showLoader: true });
   }, [loadPaymentMethods]);
 
+  // Back from PayPal: save the approved billing agreement
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const tokenId = url.searchParams.get(PAYPAL_AGREEMENT_TOKEN_PARAM);
+
+    if (!tokenId) {
+      return;
+    }
+
+    url.searchParams.delete(PAYPAL_AGREEMENT_TOKEN_PARAM);
+    url.searchParams.delete('token');
+    window.history.replaceState(null, '', url.toString());
+
+    const saveAgreement = async () => {
+      try {
+        const response = await fetchWithCsrf('/api/payment-methods', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ provider: 'paypal', tokenId }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to save PayPal account');
+        }
+
+        toast({
+          title: 'Success',
+          description: 'PayPal account linked successfully',
+        });
+
+        loadPaymentMethods();
+      } catch (error) {
+        console.error('Failed to save PayPal billing agreement:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'Failed to save PayPal account',
+          variant: 'destructive',
+        });
+      }
+    };
+
+    void saveAgreement();
+  }, [loadPaymentMethods, toast]);
+
+  const handleLinkPayPal = async () => {
+    setLinkingPayPal(true);
+
+    try {
+      const url = new URL(window.location.href);
+      const response = await fetchWithCsrf('/api/payment-methods/paypal/agreement-token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ returnUrl: url.toString(), cancelUrl: url.toString() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start PayPal setup');
+      }
+
+      window.location.href = data.approvalUrl;
+    } catch (error) {
+      console.error('Failed to link PayPal:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start PayPal setup',
+        variant: 'destructive',
+      });
+      setLinkingPayPal(false);
+    }
+  };
+
   const handleSetDefault = async (id: string) => {
     try {
-      const response = await fetch(`/api/payment-methods/${id}`, {
+      const response = await fetchWithCsrf(`/api/payment-methods/${id}`, {
         method: 'PATCH',
       });
 
@@ -279,12 +370,12 @@ export function SavedPaymentMethods() {
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || 'Failed to remove card');
+        throw new Error(data.error || 'Failed to remove payment method');
       }
 
       toast({
         title: 'Success',
-        description: 'Card removed successfully',
+        description: 'Payment method removed successfully',
       });
 
       loadPaymentMethods();
@@ -292,14 +383,14 @@ export function SavedPaymentMethods() {
       console.error('Failed to delete:', error);
       toast({
         title: 'Error',
-        description: error instanceof Error ? error.message : 'Failed to remove card',
+        description: error instanceof Error ? error.message : 'Failed to remove payment method',
         variant: 'destructive',
       });
     }
   };
 
-  const getCardIcon = (_brand: string) => {
-    return <CreditCard className="h-5 w-5" />;
+  const getMethodIcon = (method: PaymentMethod) => {
+    return method.type === 'paypal' ? <Wallet className="h-5 w-5" /> : <CreditCard className="h-5 w-5" />;
   };
 
   const hasProvidersError = Boolean(providersError);
@@ -309,7 +400,7 @@ export function SavedPaymentMethods() {
     return (
       <Card>
         <CardHeader>
-          <CardTitle>Saved Cards</CardTitle>
+          <CardTitle>Saved Payment Methods</CardTitle>
         </CardHeader>
         <CardContent>
           <p className="text-sm text-muted-foreground">Loading...</p>
@@ -323,8 +414,8 @@ export function SavedPaymentMethods() {
       <CardHeader>
         <div className="flex items-start justify-between gap-4">
           <div className="flex flex-col gap-1">
-            <CardTitle>Saved Cards</CardTitle>
-            <CardDescription>Manage your payment methods</CardDescription>
+            <CardTitle>Saved Payment Methods</CardTitle>
+            <CardDescription>Manage the cards and accounts used for renewals and one-click checkout</CardDescription>
             {showStripeWarning && (
               <p className="text-xs text-muted-foreground">
                 Stripe configuration is incomplete. Contact your administrator to enable card payments.
@@ -335,6 +426,12 @@ export function SavedPaymentMethods() {
             )}
           </div>
           <div className="flex flex-col items-end gap-2">
+            {!providersLoading && paypalConfigured && (
+              <Button size="sm" variant="outline" onClick={handleLinkPayPal} disabled={linkingPayPal}>
+                <Wallet className="mr-2 h-4 w-4" />
+                {linkingPayPal ? 'Redirecting…' : 'Link PayPal'}
+              </Button>
+            )}
             {providersLoading ? (
               <Button size="sm" disabled>Loading...</Button>
             ) : stripeConfigured && stripePromise ? (
@@ -401,14 +498,13 @@ export function SavedPaymentMethods() {
         {paymentMethods.length === 0 ? (
           <div className="py-8 text-center text-muted-foreground">
             <CreditCard className="mx-auto mb-4 h-12 w-12 opacity-50" />
-            <p>No saved cards</p>
-            <p className="mt-1 text-sm">Add a card to make payments easier</p>
+            <p>No saved payment methods</p>
+            <p className="mt-1 text-sm">Add a card or link PayPal to pay in one click</p>
           </div>
         ) : (
           <div className="space-y-3">
             {paymentMethods.map((method) => {
-              const brandLabel = (method.card_brand ?? 'card').replace(/_/g, ' ');
-              const lastFour = method.card_last4 ? `**** ${method.card_last4}` : '****';
+              const { title, detail } = getPaymentMethodLabel(method);
 
               return (
                 <div
@@ -416,12 +512,10 @@ export function SavedPaymentMethods() {
                   className="flex items-center justify-between rounded-lg border p-4 transition-colors hover:bg-muted/50"
                 >
                   <div className="flex items-center gap-3">
-                    {getCardIcon(method.card_brand || 'card')}
+                    {getMethodIcon(method)}
                     <div>
                       <div className="flex items-center gap-2">
-                        <p className="font-medium capitalize">
-                          {brandLabel} {lastFour}
-                        </p>
+                        <p className="font-medium capitalize">{title}</p>
                         {method.is_default && (
                           <Badge variant="secondary" className="text-xs">
                             Default
@@ -429,7 +523,8 @@ export function SavedPaymentMethods() {
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground">
-                        Expires {method.card_exp_month}/{method.card_exp_year}
+                        {method.type === 'paypal' ? detail : detail && `Expires ${detail}`}
+                        {method.provider !== 'stripe' && method.type !== 'paypal' && ` · ${PROVIDER_LABELS[method.provider]}`}
                       </p>
                     </div>
                   </div>
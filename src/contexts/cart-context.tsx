@@ -1,14 +1,27 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import type { Product } from '@/lib/models/definitions';
+import type { Product, ProductVariant } from '@/lib/models/definitions';
 import { getDiscountedUnitPrice } from '@/modules/products/utils/product-pricing';
+import { applyProductVariant, getVariantLabel } from '@/modules/products/utils/product-variants';
 
 export interface CartItem {
+  /** Product as sold: with the price, stock and images of the selected variant */
   product: Product;
   quantity: number;
+  variant?: ProductVariant | null;
+  variantLabel?: string | null;
 }
 
+/**
+ * Identifies a cart line: the same product in two variants is two lines
+ */
+export const getCartItemKey = (item: Pick<CartItem, 'product' | 'variant'>) =>
+  item.variant ? `${item.product.id}:${item.variant.id}` : item.product.id;
+
+const matchesCartItem = (item: CartItem, productId: string, variantId?: string | null) =>
+  item.product.id === productId && (item.variant?.id ?? null) === (variantId ?? null);
+
 export interface PhaseRewardDiscount {
   type: 'free_product' | 'store_credit';
   amountCents: number;
@@ -23,9 +36,9 @@ export interface PhaseGroupGain {
 
 interface CartContextType {
   items: CartItem[];
-  addItem: (product: Product) => void;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addItem: (product: Product, variant?: ProductVariant | null) => void;
+  removeItem: (productId: string, variantId?: string | null) => void;
+  updateQuantity: (productId: string, quantity: number, variantId?: string | null) => void;
   clearCart: () => void;
   getSubtotal: () => number;
   getProductDiscount: () => number;
@@ -80,33 +93,42 @@ export function CartProvider({ children }: { children: ReactNode }) {
     sessionStorage.setItem('cart', JSON.stringify(items));
   }, [items]);
 
-  const addItem = (product: Product) => {
+  const addItem = (product: Product, variant?: ProductVariant | null) => {
+    const variantId = variant?.id ?? null;
     setItems(currentItems => {
-      const existingItem = currentItems.find(item => item.product.id === product.id);
+      const existingItem = currentItems.find(item => matchesCartItem(item, product.id, variantId));
       if (existingItem) {
         return currentItems.map(item =>
-          item.product.id === product.id
+          matchesCartItem(item, product.id, variantId)
             ? { ...item, quantity: item.quantity + 1 }
             : item
         );
       } else {
-        return [...currentItems, { product, quantity: 1 }];
+        return [
+          ...currentItems,
+          {
+            product: applyProductVariant(product, variant),
+            quantity: 1,
+            variant: variant ?? null,
+            variantLabel: variant ? getVariantLabel(product, variant) : null,
+          },
+        ];
       }
     });
   };
 
-  const removeItem = (productId: string) => {
-    setItems(currentItems => currentItems.filter(item => item.product.id !== productId));
+  const removeItem = (productId: string, variantId?: string | null) => {
+    setItems(currentItems => currentItems.filter(item => !matchesCartItem(item, productId, variantId)));
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (productId: string, quantity: number, variantId?: string | null) => {
     if (quantity <= 0) {
-      removeItem(productId);
+      removeItem(productId, variantId);
       return;
     }
     setItems(currentItems =>
       currentItems.map(item =>
-        item.product.id === productId
+        matchesCartItem(item, productId, variantId)
           ? { ...item, quantity }
           : item
       )
@@ -28,20 +28,21 @@ import {
  * // Track product view
  * trackProductView(product);
  * 
- * // Track add to cart
- * trackCartAdd(product);
+ * // Track add to cart (with the label of the selected variant, if any)
+ * trackCartAdd(product, 'USD', 'Vanilla / 1 kg');
  */
 export function useMarketingEvents() {
   /**
    * Track product view
    */
-  const trackProductView = useCallback((product: Product, currency: string = 'USD') => {
+  const trackProductView = useCallback((product: Product, currency: string = 'USD', variantLabel?: string | null) => {
     trackViewContent(
       {
         id: product.id,
         name: product.name,
         price: product.price,
         category: (product as any).category || product.name,
+        variant: variantLabel ?? undefined,
       },
       currency
     );
@@ -50,13 +51,14 @@ export function useMarketingEvents() {
   /**
    * Track add to cart
    */
-  const trackCartAdd = useCallback((product: Product, currency: string = 'USD') => {
+  const trackCartAdd = useCallback((product: Product, currency: string = 'USD', variantLabel?: string | null) => {
     trackAddToCart(
       {
         id: product.id,
         name: product.name,
         price: product.price,
         category: (product as any).category || product.name,
+        variant: variantLabel ?? undefined,
       },
       currency
     );
@@ -20,6 +20,10 @@ export const adminDictionary = {
     inventoryOverview: "Inventory Overview",
     inventorySummary: "Track the stock available for each product and restock proactively.",
     stockQuantity: "Stock",
+    pointValue: "Point Value (PV)",
+    lowStockThreshold: "Low stock alert at",
+    weightGrams: "Shipping weight (g)",
+    taxCategory: "Tax category",
     editPlan: "Edit Plan",
     editPlanDesc: "Edit plan",
     planTitle: "Plan Title",
@@ -44,11 +48,19 @@ export const adminDictionary = {
     errorTitle: "Payment settings error",
     genericErrorMessage: "We could not load the payment configuration.",
     retry: "Retry",
+    validateCredentials: "Validate credentials",
+    credentialsValid: "Credentials are valid",
+    credentialsInvalid: "Credentials are not valid",
     paypal: {
       title: "PayPal",
       description: "Configure PayPal for payments and charges",
       successDescription: "PayPal configuration updated",
     },
+    mercadopago: {
+      title: "Mercado Pago",
+      description: "Accept Mercado Pago payments and subscriptions in Latin America",
+      successDescription: "Mercado Pago configuration updated",
+    },
   },
   pays: {
     paymentGateways: {
@@ -368,6 +380,8 @@ export const adminDictionary = {
         note: "Internal note",
         estimatedDelivery: "Estimated delivery",
         responsibleCompany: "Responsible company",
+        carrier: "Carrier",
+        carrierNone: "No carrier",
         eventTime: "Event time",
       },
       orderLookup: {
@@ -394,6 +408,7 @@ export const adminDictionary = {
       updatedAt: "Updated {{value}}",
       responsibleCompany: "Responsible company",
       trackingCode: "Tracking code",
+      trackShipment: "Track shipment",
       estimatedDelivery: "Estimated delivery",
       location: "Location",
       note: "Note",
@@ -409,6 +424,439 @@ export const adminDictionary = {
     loadMore: "Load more",
     loading: "Loading more updates...",
   },
+  warehouseStock: {
+    title: "Stock levels",
+    description: "Units on hand, held by open checkouts and available to sell. Every change is recorded in the stock ledger.",
+    refresh: "Refresh",
+    lowStockAlert: {
+      title: "Low stock",
+      description: "{{count}} products are at or below their low stock threshold.",
+    },
+    summary: {
+      onHand: "On hand",
+      reserved: "Reserved in checkouts",
+      lowStock: "Low stock products",
+    },
+    table: {
+      product: "Product",
+      onHand: "On hand",
+      reserved: "Reserved",
+      available: "Available",
+      threshold: "Alert at",
+      actions: "Actions",
+      lowStockBadge: "Low stock",
+      record: "Record movement",
+      history: "History",
+    },
+    empty: "No products to show yet.",
+    error: {
+      title: "Unable to load stock",
+      retry: "Retry",
+    },
+    movementForm: {
+      title: "Record stock movement",
+      description: "Receipts, returns and damage take the units moved. Adjustments take the correction, negative to subtract.",
+      kind: "Movement",
+      quantity: "Units",
+      note: "Note",
+      notePlaceholder: "Supplier invoice, reason for the adjustment...",
+      submit: "Save movement",
+      submitting: "Saving...",
+      cancel: "Cancel",
+      success: "Stock updated to {{value}} units.",
+      insufficientStock: "There are not enough units on hand for this movement.",
+    },
+    movements: {
+      title: "Stock history",
+      empty: "No movements recorded yet.",
+      stockAfter: "Stock after: {{value}}",
+      order: "Order {{value}}",
+    },
+    kinds: {
+      receipt: "Receipt",
+      sale: "Sale",
+      return: "Return",
+      adjustment: "Adjustment",
+      damage: "Damage",
+    },
+  },
+  orderReturns: {
+    title: "Returns",
+    description: "Review the return requests of members, issue RMA numbers and refund the goods received back.",
+    warehouseTitle: "Returns to receive",
+    warehouseDescription: "Approved returns on their way back. Receiving them puts the units back into stock.",
+    refresh: "Refresh",
+    empty: "No returns to show.",
+    filters: {
+      status: "Status",
+      all: "All",
+    },
+    table: {
+      rma: "RMA",
+      product: "Product",
+      customer: "Member",
+      reason: "Reason",
+      status: "Status",
+      refund: "Amount",
+      actions: "Actions",
+    },
+    statuses: {
+      requested: "Requested",
+      approved: "Approved",
+      rejected: "Rejected",
+      received: "Received",
+      refunded: "Refunded",
+    },
+    reasons: {
+      damaged: "Damaged",
+      wrong_item: "Wrong item",
+      not_as_described: "Not as described",
+      no_longer_needed: "No longer needed",
+      other: "Other",
+    },
+    refundMethods: {
+      original: "Original payment",
+      wallet: "Wallet credit",
+    },
+    actions: {
+      approve: "Approve",
+      reject: "Reject",
+      receive: "Receive goods",
+      refund: "Refund",
+      photos: "Photos",
+      cancel: "Cancel",
+      submitting: "Saving...",
+    },
+    review: {
+      approveTitle: "Approve return",
+      rejectTitle: "Reject return",
+      note: "Note for the member",
+      notePlaceholder: "Shipping instructions, reason for the rejection...",
+    },
+    refundForm: {
+      title: "Refund return",
+      description: "Refund the original payment through its gateway or credit the member's wallet. Commissions of the refunded amount are reversed.",
+      method: "Refund to",
+      amount: "Amount",
+      note: "Note",
+    },
+    success: {
+      approved: "Return approved. The member received the RMA number.",
+      rejected: "Return rejected.",
+      received: "Goods received back into stock.",
+      refunded: "Return refunded.",
+    },
+    error: {
+      title: "Unable to update returns",
+      retry: "Retry",
+    },
+  },
+  shipping: {
+    menuLabel: "Shipping",
+    title: "Shipping",
+    description: "Zones, rate tables and carriers used to quote shipping at checkout. Checkout charges no shipping until a zone is active.",
+    refresh: "Refresh",
+    add: "Add",
+    edit: "Edit",
+    delete: "Delete",
+    save: "Save",
+    saving: "Saving...",
+    cancel: "Cancel",
+    active: "Active",
+    inactive: "Inactive",
+    confirmDelete: "Delete this entry? This cannot be undone.",
+    zones: {
+      title: "Shipping zones",
+      description: "Destinations sharing a rate table. A zone listing the state of the buyer wins over one covering the whole country.",
+      empty: "No shipping zones yet.",
+      name: "Name",
+      countries: "Countries",
+      countriesHelper: "ISO country codes separated by commas, e.g. US, CA.",
+      states: "States",
+      statesHelper: "Optional state or province codes, e.g. CA, NY. Leave empty for the whole countries.",
+      allStates: "All",
+      freeShippingMain: "Free shipping from (main store)",
+      freeShippingAffiliate: "Free shipping from (affiliate stores)",
+      freeShippingHelper: "Order subtotal from which every rate of the zone is free. Leave empty to always charge shipping.",
+      noFreeShipping: "Never",
+      priority: "Priority",
+      rates: "Rates",
+    },
+    rates: {
+      title: "Rates",
+      description: "Prices of each zone by parcel weight or by order subtotal.",
+      empty: "No rates yet. Add a zone first.",
+      zone: "Zone",
+      carrier: "Carrier",
+      noCarrier: "No carrier",
+      name: "Name",
+      basis: "Based on",
+      bases: {
+        weight: "Weight",
+        price: "Order subtotal",
+      },
+      minValue: "From",
+      maxValue: "Up to (excluded)",
+      bracketHelper: {
+        weight: "Parcel weight in grams, from the shipping weight of each product.",
+        price: "Order subtotal, in the store currency.",
+      },
+      noLimit: "No limit",
+      price: "Price",
+      deliveryDays: "Delivery",
+      minDays: "Min. days",
+      maxDays: "Max. days",
+      days: "{{value}} days",
+    },
+    carriers: {
+      title: "Carriers",
+      description: "Companies that deliver the orders. Their tracking link is shown to buyers in the warehouse updates.",
+      empty: "No carriers yet.",
+      name: "Name",
+      trackingUrlTemplate: "Tracking URL",
+      trackingUrlHelper: "Tracking page of a shipment, with {{tracking}} where the tracking code goes.",
+    },
+    success: {
+      saved: "Shipping settings saved.",
+      deleted: "Deleted.",
+    },
+    error: {
+      title: "Unable to load shipping settings",
+      load: "We could not load the shipping settings.",
+      save: "We could not save the changes.",
+      delete: "We could not delete the entry.",
+    },
+  },
+  taxes: {
+    menuLabel: "Taxes",
+    title: "Taxes",
+    description: "Tax rates by country and region, charged at checkout and listed on invoices. Checkout charges no tax until a rate is active.",
+    refresh: "Refresh",
+    add: "Add",
+    edit: "Edit",
+    delete: "Delete",
+    save: "Save",
+    saving: "Saving...",
+    cancel: "Cancel",
+    active: "Active",
+    inactive: "Inactive",
+    confirmDelete: "Delete this entry? This cannot be undone.",
+    countries: {
+      title: "Pricing by country",
+      description: "Whether the store prices already include tax in a country. Countries not listed use prices excluding tax.",
+      empty: "Every country uses prices excluding tax.",
+      country: "Country",
+      mode: "Prices",
+      inclusive: "Include tax",
+      exclusive: "Exclude tax",
+      modeHelper: "Prices including tax keep the checkout total and show the tax they contain; prices excluding tax add it at checkout.",
+    },
+    rates: {
+      title: "Tax rates",
+      description: "Rates of each country and region by product category. Region rates stack on top of the rates of the whole country.",
+      empty: "No tax rates yet.",
+      country: "Country",
+      region: "Region",
+      regionHelper: "Optional state or province code, e.g. ON. Leave empty for the whole country.",
+      allRegions: "Whole country",
+      category: "Product category",
+      categories: {
+        supplements: "Supplements",
+        merchandise: "Merchandise",
+      },
+      name: "Name",
+      rate: "Rate (%)",
+    },
+    success: {
+      saved: "Tax settings saved.",
+      deleted: "Deleted.",
+    },
+    error: {
+      title: "Unable to load tax settings",
+      load: "We could not load the tax settings.",
+      save: "We could not save the changes.",
+      delete: "We could not delete the entry.",
+    },
+  },
+  promotions: {
+    menuLabel: "Promotions",
+    title: "Promotions",
+    description: "Coupon codes and cart rules applied at checkout, by store. Orders keep the promotions they used, and commissions are paid on the amount after them.",
+    refresh: "Refresh",
+    add: "Add promotion",
+    edit: "Edit",
+    delete: "Delete",
+    save: "Save",
+    saving: "Saving...",
+    cancel: "Cancel",
+    active: "Active",
+    inactive: "Inactive",
+    confirmDelete: "Delete this promotion? Orders that used it keep their discount.",
+    empty: "No promotions yet.",
+    automatic: "Automatic",
+    unlimited: "Unlimited",
+    fields: {
+      name: "Name",
+      code: "Coupon code",
+      codeHelper: "Leave empty to apply the promotion automatically to every cart that qualifies.",
+      type: "Type",
+      stores: "Stores",
+      minSubtotal: "Minimum subtotal",
+      startsAt: "Starts",
+      endsAt: "Expires",
+      usageLimit: "Total uses",
+      usageLimitHelper: "Orders the promotion can be used on, in total and by each buyer. A total of 1 makes a single-use coupon.",
+      perUserLimit: "Uses per buyer",
+      stackable: "Stackable",
+      stackableHelper: "Stackable promotions add up with each other. A promotion that is not stackable applies alone.",
+      combinesWithPhaseRewards: "Combines with phase rewards",
+      percentOff: "Discount (%)",
+      amount: "Amount off",
+      productIds: "Products",
+      productIdsHelper: "Product IDs, one per line. Leave empty for every product.",
+      buyQuantity: "Buy",
+      getQuantity: "Get",
+      getPercentOff: "Discount on the units got (%)",
+      tiers: "Spend tiers",
+      tiersHelper: "The highest tier the cart subtotal reaches applies.",
+      addTier: "Add tier",
+      tierFrom: "From subtotal",
+      tierDiscount: "Amount off",
+    },
+    columns: {
+      promotion: "Promotion",
+      type: "Type",
+      stores: "Stores",
+      validity: "Validity",
+      usage: "Uses",
+      status: "Status",
+    },
+    types: {
+      percentage: "Percentage off",
+      fixed_amount: "Fixed amount off",
+      buy_x_get_y: "Buy X get Y",
+      tiered_spend: "Spend tiers",
+      free_shipping: "Free shipping",
+    },
+    storeLabels: {
+      main_store: "Main store",
+      affiliate_store: "Affiliate stores",
+      mlm_store: "Member store",
+    },
+    success: {
+      saved: "Promotion saved.",
+      deleted: "Promotion deleted.",
+    },
+    error: {
+      title: "Unable to load promotions",
+      load: "We could not load the promotions.",
+      save: "We could not save the promotion.",
+      delete: "We could not delete the promotion.",
+    },
+  },
+  webhooks: {
+    menuLabel: "Payment webhooks",
+    title: "Payment webhooks",
+    description: "Every event sent by the payment gateways is stored before it is processed. Failed events are retried automatically and, once the retries run out, wait in the dead-letter queue until you replay them.",
+    refresh: "Refresh",
+    replay: "Replay",
+    replaying: "Replaying...",
+    confirmReplay: "Process this event again? Orders, wallet credits and subscription payments already recorded are not duplicated.",
+    view: "View",
+    close: "Close",
+    empty: "No webhook events match the filters.",
+    never: "Never",
+    filters: {
+      status: "Status",
+      provider: "Gateway",
+      all: "All",
+    },
+    columns: {
+      event: "Event",
+      provider: "Gateway",
+      status: "Status",
+      attempts: "Attempts",
+      nextAttempt: "Next retry",
+      received: "Received",
+    },
+    statuses: {
+      received: "Received",
+      processing: "Processing",
+      processed: "Processed",
+      retry_scheduled: "Retry scheduled",
+      dead_letter: "Dead letter",
+    },
+    detail: {
+      title: "Webhook event",
+      eventId: "Gateway event ID",
+      lastError: "Last error",
+      processedAt: "Processed",
+      deadLetteredAt: "Moved to dead letter",
+      replayedAt: "Replayed",
+      payload: "Payload",
+    },
+    success: {
+      replayed: "Event replayed.",
+    },
+    error: {
+      title: "Unable to load webhook events",
+      load: "We could not load the webhook events.",
+      replay: "We could not replay the event.",
+    },
+  },
+  paymentRefunds: {
+    title: "Refunds",
+    description: "Refund store orders and subscription payments through their original gateway. The payment moves to partially refunded or refunded and the customer gets an email.",
+    ordersTitle: "Order refunds",
+    ordersDescription: "Refund a whole order, an amount of it or specific order lines through the gateway the customer paid with.",
+    refresh: "Refresh",
+    empty: "No payments match the filters.",
+    filters: {
+      state: "Refund state",
+      all: "All",
+    },
+    kinds: {
+      order: "Order",
+      subscription: "Subscription",
+    },
+    states: {
+      paid: "Paid",
+      partially_refunded: "Partially refunded",
+      refunded: "Refunded",
+    },
+    table: {
+      payment: "Payment",
+      customer: "Customer",
+      gateway: "Gateway",
+      amount: "Amount",
+      refunded: "Refunded",
+      state: "State",
+      actions: "Actions",
+    },
+    actions: {
+      refund: "Refund",
+      cancel: "Cancel",
+      submitting: "Refunding...",
+    },
+    form: {
+      title: "Refund payment",
+      description: "The money goes back through the original gateway. This cannot be undone.",
+      amount: "Amount",
+      remaining: "Still refundable",
+      lines: "Order lines",
+      linesHint: "Enter an amount on the lines to refund; leave them empty to refund an amount of the whole order.",
+      reason: "Reason",
+      reasonPlaceholder: "Shared with the customer in the refund email",
+      invalidAmount: "Enter an amount greater than zero.",
+    },
+    success: {
+      refunded: "Refund issued.",
+    },
+    error: {
+      title: "Unable to load payments",
+      retry: "Try again",
+    },
+  },
   videos: "Videos",
   subscriptions: "Subscriptions",
   paymentHistory: {
@@ -630,6 +1078,31 @@ export const adminDictionary = {
       affiliateStore: "Affiliate Store",
     },
     noResults: "No sales found",
+    taxReport: {
+      title: "Tax collected by jurisdiction",
+      description: "Tax of the orders paid in a period, per country, region and rate, to file tax returns.",
+      from: "From",
+      to: "To",
+      apply: "Apply",
+      export: "Export CSV",
+      empty: "No tax was collected in this period.",
+      error: "We could not load the tax report.",
+      total: "Total collected",
+      columns: {
+        jurisdiction: "Jurisdiction",
+        tax: "Tax",
+        category: "Category",
+        rate: "Rate",
+        orders: "Orders",
+        taxable: "Taxable amount",
+        collected: "Tax collected",
+        currency: "Currency",
+      },
+      categories: {
+        supplements: "Supplements",
+        merchandise: "Merchandise",
+      },
+    },
   },
   seo: "SEO",
   saving: "Saving...",
@@ -652,7 +1125,14 @@ export const adminDictionary = {
       missingCapacityLevel: "Each capacity must correspond to a configured level.",
       invalidCommissionRate: "Team earnings percentage must be a valid value between 0 and 100.",
       invalidDiscountRate: "Subscription discount must be a valid value between 0 and 100.",
+      invalidVolume: "Volume thresholds of {{phase}} must be numbers of 0 or more.",
       invalidTeamLevelsVisible: "Team levels visible must be between 1 and 10.",
+      invalidNetworkCommissionDepth: "Network commission depth must be between 0 and 10.",
+      invalidDunningRetryDays: "Retry days must be a comma-separated list of 1 to 10 days between 1 and 60.",
+      invalidDunningGraceDays: "Grace period must be between 0 and 60 days.",
+      invalidPauseMaxDays: "Maximum pause length must be between 1 and 90 days.",
+      invalidPausesPerYear: "Pauses per year must be between 0 and 12.",
+      invalidPayoutHoldDays: "Payout hold must be between 0 and 90 days.",
       invalidCurrencyCode: "Each currency must be a 3-letter ISO code.",
       missingCurrencyCode: "Provide a currency code for the selected countries.",
       invalidCountryCode: "Country codes must use the 2-letter ISO standard.",
@@ -681,6 +1161,8 @@ export const adminDictionary = {
       groupGainHint: "Percentage earned by the sponsor from each product sold by this level. Example: enter 10 for 10%.",
       creditLabel: "Reward Credit",
       freeProductLabel: "Free Product Value",
+      minPersonalVolumeLabel: "Minimum Personal Volume (PV)",
+      minGroupVolumeLabel: "Minimum Group Volume (GV)",
     },
     teamVisibility: {
       title: "Team Page Configuration",
@@ -688,6 +1170,47 @@ export const adminDictionary = {
       levelsLabel: "Visible levels",
       levelsHint: "Members with active subscription will see up to this number of phases.",
     },
+    networkCommissions: {
+      title: "Network commissions",
+      description: "Pay unilevel commissions to the buyer's upline on every purchase. Each level uses the Ecommerce Earnings (%) of the phase with the same number.",
+      depthLabel: "Paid levels",
+      depthHint: "Number of upline levels that earn from each purchase. Use 0 to disable network commissions.",
+    },
+    dunning: {
+      title: "Failed renewals",
+      description: "When a renewal charge fails the subscription becomes past due and is retried on this schedule, falling back to the wallet balance. After the last retry it becomes unpaid and is canceled when the grace period ends.",
+      retryDaysLabel: "Retry days",
+      retryDaysHint: "Days after the first failed charge, separated by commas. Example: 1, 3, 5, 7.",
+      graceDaysLabel: "Grace period (days)",
+      graceDaysHint: "Days an unpaid subscription is kept after the last retry before it is canceled.",
+    },
+    subscriptionPause: {
+      title: "Subscription pauses",
+      description: "Members can pause instead of canceling. The billing period is extended by the paused days and renewals are skipped until the pause ends.",
+      maxDaysLabel: "Maximum pause (days)",
+      perYearLabel: "Pauses per year",
+      perYearHint: "Pauses allowed in any 12-month window. Use 0 to disable pausing.",
+      countCapacityLabel: "Paused members keep their network seat",
+      countCapacityDescription: "Count paused members toward their sponsor's level 1 capacity.",
+      countPhaseLabel: "Paused members count for phases",
+      countPhaseDescription: "Treat paused members as active in their own and their upline phase requirements.",
+    },
+    payoutBatches: {
+      title: "Payout batches",
+      description: "Eligible balances are grouped into batches by payout cadence, provider and currency. A batch is paid only after a second administrator approves it.",
+      holdDaysLabel: "Commission hold (days)",
+      holdDaysHint: "Commissions younger than this are left out of new batches to cover refunds and chargebacks.",
+    },
+    spillover: {
+      title: "Spillover placement",
+      description: "When a sponsor has no level 1 seat left, new members are placed deeper in their downline. The sponsor stays their enrolling sponsor.",
+      strategyLabel: "Placement strategy",
+      strategyHint: "With the sponsor's chosen leg, members without a choice fall back to the first open seat.",
+      disabled: "Disabled: reject new members",
+      breadthFirst: "First open seat in the downline",
+      weakestLeg: "Weakest leg",
+      sponsorChoice: "Sponsor's chosen leg",
+    },
     compensation: {
       currencyLabel: "Default currency",
       currencyHint: "Main currency for payments when no country matches a regional preference.",
@@ -1817,6 +2340,65 @@ export const adminDictionary = {
     productCountryBadgeA11y: "Remove country",
     productCountryClear: "Clear selection",
     productCountryClose: "Done",
+    productVariantsSectionTitle: "Variants",
+    productVariantsSectionDescription: "Define options such as flavor or size. Each combination gets its own SKU, price, stock and images.",
+    productVariantsAxisName: "Option",
+    productVariantsAxisNamePlaceholder: "Flavor",
+    productVariantsAxisValues: "Values (comma separated)",
+    productVariantsAxisValuesPlaceholder: "Vanilla, Chocolate",
+    productVariantsAddAxis: "Add option",
+    productVariantsRemoveAxis: "Remove option",
+    productVariantsGenerate: "Generate variants",
+    productVariantsSku: "SKU",
+    productVariantsPrice: "Price",
+    productVariantsStock: "Stock",
+    productVariantsActive: "Active",
+    productVariantsImages: "Images",
+    productVariantsImagesHelper: "Pick the product images that show this variant. Without a selection the product images are used.",
+    productVariantsEmpty: "This product has no variants. Add options and generate them to sell it in several versions.",
+    productVariantsStockHelper: "The stock is the sum of the variants stock.",
+    productVariantsValidation: "Every variant needs a SKU and a price greater than zero.",
+    price: "Price",
+    productFeatured: "Featured Product",
+    productFeaturedDescription: "Show this product prominently",
+    saveProduct: "Save Product",
+    languageEnglish: "English",
+    languageSpanish: "Spanish",
+    productExperienceTitle: "Product Experience",
+    productExperienceDescription: "Configure the product experience details",
+    productExperienceLocaleHeading: "Localized Content",
+    productExperienceLocaleDescription: "Configure content for each language",
+    productExperienceTagline: "Tagline",
+    productExperienceTaglinePlaceholder: "Enter tagline",
+    productExperienceHeroSupporting: "Hero Supporting Text",
+    productExperienceHeroSupportingPlaceholder: "Enter hero supporting text",
+    productExperienceHighlights: "Quick Highlights",
+    productExperienceHighlightsPlaceholder: "Enter highlights",
+    productExperienceUsage: "Usage",
+    productExperienceUsagePlaceholder: "Enter usage instructions",
+    productExperienceInsights: "Insights",
+    productExperienceInsightsPlaceholder: "Enter insights",
+    productExperienceListHelper: "One item per line",
+    productExperienceRatingAverage: "Average Rating",
+    productExperienceRatingHelper: "Rating from 0 to 5",
+    productExperienceRatingCount: "Rating Count",
+    productExperienceReviewsTitle: "Reviews",
+    productExperienceReviewsDescription: "Manage product reviews",
+    productExperienceReviewEmpty: "No reviews yet",
+    productExperienceReviewAdd: "Add Review",
+    productExperienceReviewAuthor: "Author",
+    productExperienceReviewAvatar: "Avatar URL",
+    productExperienceReviewAvatarHint: "URL to author avatar image",
+    productExperienceReviewLocale: "Locale",
+    productExperienceReviewRating: "Rating",
+    productExperienceReviewTimeAgo: "Time Ago",
+    productExperienceReviewTimeAgoPlaceholder: "e.g., 2 weeks ago",
+    productExperienceReviewTimeAgoHint: "How long ago the review was posted",
+    productExperienceReviewSource: "Source",
+    productExperienceReviewSourceAdmin: "Admin",
+    productExperienceReviewSourceMember: "Member",
+    productExperienceReviewRemove: "Remove Review",
+    productExperienceReviewComment: "Comment",
 
   subscriptionTestInfo: {
     heading: "Test Card Information",
@@ -1436,6 +1436,10 @@ export const createDefaultDictionary = (appName: string) => ({
 
     stockLowLabel: "Only {{count}} bottles remaining",
 
+    variantOutOfStockLabel: "Out of stock",
+
+    selectVariantLabel: "Choose an option to add it to your cart",
+
     shareLabel: "Share product",
 
     addToRoutineLabel: "Add to routine",
@@ -2152,6 +2156,10 @@ export const createDefaultDictionary = (appName: string) => ({
         currentBalance: "Current Balance",
         phaseCommission: "Phase Commission",
         phase: "Phase",
+        volume: "Volume this month",
+        personalVolume: "PV",
+        groupVolume: "GV",
+        previousVolume: "Last month: {{personal}} PV · {{group}} GV",
         subscriptionStatus: "Subscription Status",
         mlmSubscription: "MLM Subscription",
         affiliateSubscription: "Affiliate Subscription",
@@ -2626,6 +2634,28 @@ export const createDefaultDictionary = (appName: string) => ({
 
     },
 
+    spillover: {
+
+      title: "Spillover",
+
+      description: "Once your level 1 is full, new members you enroll are placed in the leg you choose. They still count as enrolled by you.",
+
+      legLabel: "Leg that receives your spillover",
+
+      automatic: "Automatic (first open seat)",
+
+      save: "Save",
+
+      saving: "Saving…",
+
+      saved: "Spillover leg saved.",
+
+      error: "We could not save your spillover leg. Please try again.",
+
+      noLegs: "You need level 1 members before you can pick a leg.",
+
+    },
+
     plan: {
 
       title: "Multilevel benefits",
@@ -3149,6 +3179,14 @@ export const createDefaultDictionary = (appName: string) => ({
 
       purchase: "Product purchase",
 
+      commission_clawback: "Commission reversal",
+
+      subscription_credit: "Plan change credit",
+
+      order_refund: "Order refund",
+
+      earnings_transfer: "Transfer from earnings",
+
     },
 
   },
@@ -3337,6 +3375,32 @@ export const createDefaultDictionary = (appName: string) => ({
 
     storeCreditDiscount: "Store Credit",
     productDiscount: "Product discounts",
+    shippingMethod: "Shipping Method",
+    shippingFree: "Free",
+    shippingUnavailable: "We don't ship to this address yet. Check the country and state of your shipping information.",
+    shippingQuoteError: "We couldn't calculate shipping. Refresh the page and try again.",
+    shippingDeliveryDays: "{{days}} business days",
+    shippingFreeRemaining: "Add {{amount}} more to ship for free.",
+    taxesIncluded: "Taxes included",
+    taxQuoteError: "We couldn't calculate the taxes. Refresh the page and try again.",
+    promotion: "Coupon",
+    couponLabel: "Coupon code",
+    couponPlaceholder: "Enter your code",
+    couponApply: "Apply",
+    couponRemove: "Remove",
+    couponStatus: {
+      applied: "Coupon applied.",
+      invalid: "This coupon code is not valid.",
+      expired: "This coupon has expired.",
+      not_applicable: "This coupon does not apply to your order.",
+      limit_reached: "This coupon has already been used.",
+      not_combinable: "This coupon cannot be combined with your phase reward.",
+    },
+    promotionQuoteError: "We couldn't check the promotions. Refresh the page and try again.",
+    savedPaymentMethods: "Saved payment methods",
+    savedPaymentMethodDefault: "Default",
+    savedPaymentMethodOneClick: "Pay in one click",
+    oneClickPaymentError: "We couldn't charge your saved payment method. Choose another method and try again.",
 
     totalSavings: "🎉 You're saving {{amount}}!",
 
@@ -3804,6 +3868,40 @@ export const createDefaultDictionary = (appName: string) => ({
       invoiceErrorDescription: "Unable to load invoice",
       statuses: {}
     },
+    orderReturns: {
+      title: "Returns",
+      description: "Request the return of a product of this order. We will review it and email you every step.",
+      requestReturn: "Request return",
+      dialogTitle: "Request a return",
+      dialogDescription: "Tell us what happened with {{product}}.",
+      quantity: "Units to return",
+      reason: "Reason",
+      reasons: {
+        damaged: "Damaged",
+        wrong_item: "Wrong item",
+        not_as_described: "Not as described",
+        no_longer_needed: "No longer needed",
+        other: "Other"
+      },
+      details: "Details",
+      detailsPlaceholder: "Describe the problem with the product...",
+      photos: "Photos",
+      photosHelper: "Up to {{count}} images (JPG, PNG, WebP or GIF).",
+      submit: "Send request",
+      submitting: "Sending...",
+      cancel: "Cancel",
+      success: "Return requested. We emailed you the confirmation.",
+      error: "We could not send the return request.",
+      rma: "RMA {{value}}",
+      refunded: "Refunded {{value}}",
+      statuses: {
+        requested: "In review",
+        approved: "Approved",
+        rejected: "Rejected",
+        received: "Received",
+        refunded: "Refunded"
+      }
+    },
     paymentMethods: {
       title: "Payment Methods",
       creditDebitCards: "Credit/Debit Cards",
@@ -4307,7 +4405,8 @@ export const createDefaultDictionary = (appName: string) => ({
     subtitle: "Calculate your potential earnings from both the multi-level network and affiliate system",
     tabs: {
       multilevel: "Multi-level Network",
-      affiliate: "Affiliate System"
+      affiliate: "Affiliate System",
+      simulator: "My Next Phase"
     },
     multilevel: {
       title: "Multi-level Network Calculator",
@@ -4380,6 +4479,47 @@ export const createDefaultDictionary = (appName: string) => ({
       totalSales: "Total Sales: {{amount}}",
       affiliateRate: "Affiliate Commission: {{rate}}%",
       referrerRate: "Referrer Commission: {{rate}}%"
+    },
+    simulator: {
+      title: "What do I need for the next phase?",
+      subtitle: "Based on your real network: who is inactive, how many activations you are missing and what the next phase would pay",
+      loadError: "We could not load your network. Please try again.",
+      signInPrompt: "Sign in to simulate your next phase with your own network.",
+      signInButton: "Sign In",
+      currentPhase: "Current phase",
+      targetPhase: "Next phase",
+      topPhase: "Top phase reached",
+      phaseLabel: "Phase {{phase}}",
+      missingActivations: "Missing activations",
+      selfInactive: "Your subscription is not active. Reactivate it to keep qualifying for any phase.",
+      requirementsTitle: "Requirements",
+      requirementTypes: {
+        subscriptionActive: "Your active subscription",
+        directActiveRecruits: "Active direct recruits",
+        secondLevelActiveRecruits: "Active second-level members",
+        networkRetention: "Whole network active"
+      },
+      met: "Met",
+      missing: "{{count}} missing",
+      progress: "{{current}} of {{required}}",
+      directsTitle: "Your direct recruits",
+      active: "Active",
+      inactive: "Inactive",
+      directRecruits: "{{active}} active recruit(s) · {{missing}} more needed",
+      inactiveRecruits: "Inactive recruits: {{names}}",
+      inactiveTitle: "Inactive members to reactivate",
+      inactiveHelp: "Reactivating these members is the fastest way to close the gap.",
+      inactiveMember: "{{name}} (Level {{level}})",
+      projectionTitle: "Projected monthly earnings",
+      personalSalesLabel: "Your monthly personal sales",
+      averageSalesLabel: "Average monthly sales per active member",
+      projectButton: "Update projection",
+      projectionCurrent: "Phase {{phase}} (today)",
+      projectionTarget: "Phase {{phase}} (after the missing activations)",
+      projectionRate: "{{rate}}% commission on {{members}} active member(s)",
+      projectionPersonal: "• Personal sales commission: {{amount}}",
+      projectionNetwork: "• Network sales commission: {{amount}}",
+      projectionRewards: "• Reward credit and free product: {{amount}}"
     }
   },
 
@@ -1353,6 +1353,28 @@ export const createEsDictionary = (
 
       },
 
+      spillover: {
+
+        title: "Derrame",
+
+        description: "Cuando tu nivel 1 esté completo, los nuevos miembros que inscribas se colocarán en la pierna que elijas. Siguen contando como inscritos por ti.",
+
+        legLabel: "Pierna que recibe tu derrame",
+
+        automatic: "Automático (primer lugar libre)",
+
+        save: "Guardar",
+
+        saving: "Guardando…",
+
+        saved: "Pierna de derrame guardada.",
+
+        error: "No pudimos guardar tu pierna de derrame. Inténtalo de nuevo.",
+
+        noLegs: "Necesitas miembros en tu nivel 1 para elegir una pierna.",
+
+      },
+
       plan: {
 
         title: "Beneficios del multinivel",
@@ -1876,6 +1898,14 @@ export const createEsDictionary = (
 
         purchase: "Compra de productos",
 
+        commission_clawback: "Reverso de comisión",
+
+        subscription_credit: "Crédito por cambio de plan",
+
+        order_refund: "Reembolso de pedido",
+
+        earnings_transfer: "Transferencia desde ganancias",
+
       },
 
     },
@@ -2012,6 +2042,10 @@ export const createEsDictionary = (
 
       stockLowLabel: "Solo quedan {{count}} botellas",
 
+      variantOutOfStockLabel: "Agotado",
+
+      selectVariantLabel: "Elige una opción para agregarlo a tu carrito",
+
       shareLabel: "Compartir producto",
 
       addToRoutineLabel: "Agregar a mi ritual",
@@ -2646,6 +2680,10 @@ export const createEsDictionary = (
           currentBalance: "Saldo Actual",
           phaseCommission: "Comisión por Fase",
           phase: "Fase",
+          volume: "Volumen del mes",
+          personalVolume: "PV",
+          groupVolume: "GV",
+          previousVolume: "Mes anterior: {{personal}} PV · {{group}} GV",
           subscriptionStatus: "Estado de Suscripción",
           mlmSubscription: "Suscripción MLM",
           affiliateSubscription: "Suscripción Afiliado",
@@ -3223,6 +3261,32 @@ export const createEsDictionary = (
 
       storeCreditDiscount: "Crédito de Tienda",
       productDiscount: "Descuentos del producto",
+      shippingMethod: "Método de Envío",
+      shippingFree: "Gratis",
+      shippingUnavailable: "Aún no enviamos a esta dirección. Revisa el país y el estado de tu información de envío.",
+      shippingQuoteError: "No pudimos calcular el envío. Recarga la página e inténtalo de nuevo.",
+      shippingDeliveryDays: "{{days}} días hábiles",
+      shippingFreeRemaining: "Agrega {{amount}} más para obtener envío gratis.",
+      taxesIncluded: "Impuestos incluidos",
+      taxQuoteError: "No pudimos calcular los impuestos. Recarga la página e inténtalo de nuevo.",
+      promotion: "Cupón",
+      couponLabel: "Código de cupón",
+      couponPlaceholder: "Ingresa tu código",
+      couponApply: "Aplicar",
+      couponRemove: "Quitar",
+      couponStatus: {
+        applied: "Cupón aplicado.",
+        invalid: "Este código de cupón no es válido.",
+        expired: "Este cupón ha vencido.",
+        not_applicable: "Este cupón no aplica a tu pedido.",
+        limit_reached: "Este cupón ya fue utilizado.",
+        not_combinable: "Este cupón no se puede combinar con tu recompensa de fase.",
+      },
+      promotionQuoteError: "No pudimos verificar las promociones. Recarga la página e inténtalo de nuevo.",
+      savedPaymentMethods: "Métodos de pago guardados",
+      savedPaymentMethodDefault: "Predeterminado",
+      savedPaymentMethodOneClick: "Paga en un clic",
+      oneClickPaymentError: "No pudimos cobrar tu método de pago guardado. Elige otro método e inténtalo de nuevo.",
 
       totalSavings: "🎉 ¡Estás ahorrando {{amount}}!",
 
@@ -3902,6 +3966,8 @@ export const createEsDictionary = (
             note: "Nota interna",
             estimatedDelivery: "Entrega estimada",
             responsibleCompany: "Empresa responsable",
+            carrier: "Transportista",
+            carrierNone: "Sin transportista",
             eventTime: "Fecha del evento",
           },
           orderLookup: {
@@ -3928,6 +3994,7 @@ export const createEsDictionary = (
           updatedAt: "Actualizado {{value}}",
           responsibleCompany: "Empresa responsable",
           trackingCode: "Código de seguimiento",
+          trackShipment: "Rastrear envío",
           estimatedDelivery: "Entrega estimada",
           location: "Ubicación",
           note: "Nota",
@@ -3944,6 +4011,447 @@ export const createEsDictionary = (
         loading: "Cargando actualizaciones...",
       },
 
+      warehouseStock: {
+        title: "Inventario",
+        description:
+          "Unidades en bodega, apartadas por compras en curso y disponibles para vender. Cada cambio queda registrado en el historial de inventario.",
+        refresh: "Actualizar",
+        lowStockAlert: {
+          title: "Stock bajo",
+          description: "{{count}} productos están en o por debajo de su umbral de stock bajo.",
+        },
+        summary: {
+          onHand: "En bodega",
+          reserved: "Apartado en compras",
+          lowStock: "Productos con stock bajo",
+        },
+        table: {
+          product: "Producto",
+          onHand: "En bodega",
+          reserved: "Apartado",
+          available: "Disponible",
+          threshold: "Alerta en",
+          actions: "Acciones",
+          lowStockBadge: "Stock bajo",
+          record: "Registrar movimiento",
+          history: "Historial",
+        },
+        empty: "Aún no hay productos para mostrar.",
+        error: {
+          title: "No fue posible cargar el inventario",
+          retry: "Reintentar",
+        },
+        movementForm: {
+          title: "Registrar movimiento de inventario",
+          description:
+            "Entradas, devoluciones y mermas usan las unidades movidas. Los ajustes usan la corrección, en negativo para restar.",
+          kind: "Movimiento",
+          quantity: "Unidades",
+          note: "Nota",
+          notePlaceholder: "Factura del proveedor, motivo del ajuste...",
+          submit: "Guardar movimiento",
+          submitting: "Guardando...",
+          cancel: "Cancelar",
+          success: "Stock actualizado a {{value}} unidades.",
+          insufficientStock: "No hay suficientes unidades en bodega para este movimiento.",
+        },
+        movements: {
+          title: "Historial de inventario",
+          empty: "Aún no hay movimientos registrados.",
+          stockAfter: "Stock resultante: {{value}}",
+          order: "Pedido {{value}}",
+        },
+        kinds: {
+          receipt: "Entrada",
+          sale: "Venta",
+          return: "Devolución",
+          adjustment: "Ajuste",
+          damage: "Merma",
+        },
+      },
+
+      orderReturns: {
+        title: "Devoluciones",
+        description:
+          "Revisa las solicitudes de devolución de los miembros, emite números RMA y reembolsa la mercancía recibida.",
+        warehouseTitle: "Devoluciones por recibir",
+        warehouseDescription: "Devoluciones aprobadas en camino. Al recibirlas, las unidades vuelven al inventario.",
+        refresh: "Actualizar",
+        empty: "No hay devoluciones para mostrar.",
+        filters: {
+          status: "Estado",
+          all: "Todas",
+        },
+        table: {
+          rma: "RMA",
+          product: "Producto",
+          customer: "Miembro",
+          reason: "Motivo",
+          status: "Estado",
+          refund: "Monto",
+          actions: "Acciones",
+        },
+        statuses: {
+          requested: "Solicitada",
+          approved: "Aprobada",
+          rejected: "Rechazada",
+          received: "Recibida",
+          refunded: "Reembolsada",
+        },
+        reasons: {
+          damaged: "Dañado",
+          wrong_item: "Producto equivocado",
+          not_as_described: "No coincide con la descripción",
+          no_longer_needed: "Ya no lo necesito",
+          other: "Otro",
+        },
+        refundMethods: {
+          original: "Pago original",
+          wallet: "Crédito en billetera",
+        },
+        actions: {
+          approve: "Aprobar",
+          reject: "Rechazar",
+          receive: "Recibir mercancía",
+          refund: "Reembolsar",
+          photos: "Fotos",
+          cancel: "Cancelar",
+          submitting: "Guardando...",
+        },
+        review: {
+          approveTitle: "Aprobar devolución",
+          rejectTitle: "Rechazar devolución",
+          note: "Nota para el miembro",
+          notePlaceholder: "Instrucciones de envío, motivo del rechazo...",
+        },
+        refundForm: {
+          title: "Reembolsar devolución",
+          description:
+            "Reembolsa el pago original a través de su pasarela o abona la billetera del miembro. Las comisiones del monto reembolsado se revierten.",
+          method: "Reembolsar a",
+          amount: "Monto",
+          note: "Nota",
+        },
+        success: {
+          approved: "Devolución aprobada. El miembro recibió el número RMA.",
+          rejected: "Devolución rechazada.",
+          received: "Mercancía recibida de vuelta al inventario.",
+          refunded: "Devolución reembolsada.",
+        },
+        error: {
+          title: "No fue posible actualizar las devoluciones",
+          retry: "Reintentar",
+        },
+      },
+
+      shipping: {
+        menuLabel: "Envíos",
+        title: "Envíos",
+        description: "Zonas, tablas de tarifas y transportistas con los que se cotiza el envío en el checkout. El checkout no cobra envío hasta que haya una zona activa.",
+        refresh: "Actualizar",
+        add: "Agregar",
+        edit: "Editar",
+        delete: "Eliminar",
+        save: "Guardar",
+        saving: "Guardando...",
+        cancel: "Cancelar",
+        active: "Activo",
+        inactive: "Inactivo",
+        confirmDelete: "¿Eliminar este registro? Esta acción no se puede deshacer.",
+        zones: {
+          title: "Zonas de envío",
+          description: "Destinos que comparten una tabla de tarifas. Una zona que incluye el estado del comprador tiene prioridad sobre una que cubre todo el país.",
+          empty: "Aún no hay zonas de envío.",
+          name: "Nombre",
+          countries: "Países",
+          countriesHelper: "Códigos ISO de país separados por comas, p. ej. US, CA.",
+          states: "Estados",
+          statesHelper: "Códigos de estado o provincia opcionales, p. ej. CA, NY. Déjalo vacío para todo el país.",
+          allStates: "Todos",
+          freeShippingMain: "Envío gratis desde (tienda principal)",
+          freeShippingAffiliate: "Envío gratis desde (tiendas de afiliados)",
+          freeShippingHelper: "Subtotal del pedido a partir del cual todas las tarifas de la zona son gratis. Déjalo vacío para cobrar siempre el envío.",
+          noFreeShipping: "Nunca",
+          priority: "Prioridad",
+          rates: "Tarifas",
+        },
+        rates: {
+          title: "Tarifas",
+          description: "Precios de cada zona según el peso del paquete o el subtotal del pedido.",
+          empty: "Aún no hay tarifas. Agrega primero una zona.",
+          zone: "Zona",
+          carrier: "Transportista",
+          noCarrier: "Sin transportista",
+          name: "Nombre",
+          basis: "Según",
+          bases: {
+            weight: "Peso",
+            price: "Subtotal del pedido",
+          },
+          minValue: "Desde",
+          maxValue: "Hasta (excluido)",
+          bracketHelper: {
+            weight: "Peso del paquete en gramos, según el peso de envío de cada producto.",
+            price: "Subtotal del pedido, en la moneda de la tienda.",
+          },
+          noLimit: "Sin límite",
+          price: "Precio",
+          deliveryDays: "Entrega",
+          minDays: "Días mín.",
+          maxDays: "Días máx.",
+          days: "{{value}} días",
+        },
+        carriers: {
+          title: "Transportistas",
+          description: "Empresas que entregan los pedidos. Su enlace de rastreo se muestra a los compradores en las actualizaciones de bodega.",
+          empty: "Aún no hay transportistas.",
+          name: "Nombre",
+          trackingUrlTemplate: "URL de rastreo",
+          trackingUrlHelper: "Página de rastreo de un envío, con {{tracking}} donde va el código de rastreo.",
+        },
+        success: {
+          saved: "Configuración de envíos guardada.",
+          deleted: "Eliminado.",
+        },
+        error: {
+          title: "No se pudo cargar la configuración de envíos",
+          load: "No pudimos cargar la configuración de envíos.",
+          save: "No pudimos guardar los cambios.",
+          delete: "No pudimos eliminar el registro.",
+        },
+      },
+
+      taxes: {
+        menuLabel: "Impuestos",
+        title: "Impuestos",
+        description: "Tasas de impuesto por país y región que se cobran en el checkout y se detallan en las facturas. El checkout no cobra impuestos hasta que haya una tasa activa.",
+        refresh: "Actualizar",
+        add: "Agregar",
+        edit: "Editar",
+        delete: "Eliminar",
+        save: "Guardar",
+        saving: "Guardando...",
+        cancel: "Cancelar",
+        active: "Activo",
+        inactive: "Inactivo",
+        confirmDelete: "¿Eliminar este registro? Esta acción no se puede deshacer.",
+        countries: {
+          title: "Precios por país",
+          description: "Indica si los precios de la tienda ya incluyen impuestos en un país. Los países no listados usan precios sin impuestos.",
+          empty: "Todos los países usan precios sin impuestos.",
+          country: "País",
+          mode: "Precios",
+          inclusive: "Incluyen impuestos",
+          exclusive: "Sin impuestos",
+          modeHelper: "Con impuestos incluidos el total del checkout no cambia y se muestra el impuesto que contiene; sin impuestos, se suma en el checkout.",
+        },
+        rates: {
+          title: "Tasas de impuesto",
+          description: "Tasas de cada país y región por categoría de producto. Las tasas de una región se suman a las de todo el país.",
+          empty: "Aún no hay tasas de impuesto.",
+          country: "País",
+          region: "Región",
+          regionHelper: "Código de estado o provincia opcional, p. ej. ON. Déjalo vacío para todo el país.",
+          allRegions: "Todo el país",
+          category: "Categoría de producto",
+          categories: {
+            supplements: "Suplementos",
+            merchandise: "Mercancía",
+          },
+          name: "Nombre",
+          rate: "Tasa (%)",
+        },
+        success: {
+          saved: "Configuración de impuestos guardada.",
+          deleted: "Eliminado.",
+        },
+        error: {
+          title: "No se pudo cargar la configuración de impuestos",
+          load: "No pudimos cargar la configuración de impuestos.",
+          save: "No pudimos guardar los cambios.",
+          delete: "No pudimos eliminar el registro.",
+        },
+      },
+
+      promotions: {
+        menuLabel: "Promociones",
+        title: "Promociones",
+        description: "Cupones y reglas de carrito aplicados en el checkout, por tienda. Los pedidos guardan las promociones que usaron y las comisiones se pagan sobre el monto después de ellas.",
+        refresh: "Actualizar",
+        add: "Agregar promoción",
+        edit: "Editar",
+        delete: "Eliminar",
+        save: "Guardar",
+        saving: "Guardando...",
+        cancel: "Cancelar",
+        active: "Activa",
+        inactive: "Inactiva",
+        confirmDelete: "¿Eliminar esta promoción? Los pedidos que la usaron conservan su descuento.",
+        empty: "Aún no hay promociones.",
+        automatic: "Automática",
+        unlimited: "Ilimitado",
+        fields: {
+          name: "Nombre",
+          code: "Código de cupón",
+          codeHelper: "Déjalo vacío para aplicar la promoción automáticamente a todo carrito que califique.",
+          type: "Tipo",
+          stores: "Tiendas",
+          minSubtotal: "Subtotal mínimo",
+          startsAt: "Inicia",
+          endsAt: "Vence",
+          usageLimit: "Usos totales",
+          usageLimitHelper: "Pedidos en los que se puede usar la promoción, en total y por comprador. Un total de 1 crea un cupón de un solo uso.",
+          perUserLimit: "Usos por comprador",
+          stackable: "Acumulable",
+          stackableHelper: "Las promociones acumulables se suman entre sí. Una promoción no acumulable se aplica sola.",
+          combinesWithPhaseRewards: "Se combina con recompensas de fase",
+          percentOff: "Descuento (%)",
+          amount: "Monto de descuento",
+          productIds: "Productos",
+          productIdsHelper: "IDs de producto, uno por línea. Déjalo vacío para todos los productos.",
+          buyQuantity: "Compra",
+          getQuantity: "Lleva",
+          getPercentOff: "Descuento en las unidades que lleva (%)",
+          tiers: "Niveles de gasto",
+          tiersHelper: "Se aplica el nivel más alto que alcance el subtotal del carrito.",
+          addTier: "Agregar nivel",
+          tierFrom: "Desde subtotal",
+          tierDiscount: "Monto de descuento",
+        },
+        columns: {
+          promotion: "Promoción",
+          type: "Tipo",
+          stores: "Tiendas",
+          validity: "Vigencia",
+          usage: "Usos",
+          status: "Estado",
+        },
+        types: {
+          percentage: "Porcentaje de descuento",
+          fixed_amount: "Monto fijo de descuento",
+          buy_x_get_y: "Compra X lleva Y",
+          tiered_spend: "Niveles de gasto",
+          free_shipping: "Envío gratis",
+        },
+        storeLabels: {
+          main_store: "Tienda principal",
+          affiliate_store: "Tiendas de afiliados",
+          mlm_store: "Tienda de miembros",
+        },
+        success: {
+          saved: "Promoción guardada.",
+          deleted: "Promoción eliminada.",
+        },
+        error: {
+          title: "No se pudieron cargar las promociones",
+          load: "No pudimos cargar las promociones.",
+          save: "No pudimos guardar la promoción.",
+          delete: "No pudimos eliminar la promoción.",
+        },
+      },
+      webhooks: {
+        menuLabel: "Webhooks de pago",
+        title: "Webhooks de pago",
+        description: "Cada evento enviado por las pasarelas de pago se guarda antes de procesarlo. Los eventos fallidos se reintentan automáticamente y, al agotar los reintentos, esperan en la cola de eventos fallidos hasta que los reproduzcas.",
+        refresh: "Actualizar",
+        replay: "Reproducir",
+        replaying: "Reproduciendo...",
+        confirmReplay: "¿Procesar este evento de nuevo? Los pedidos, recargas de billetera y pagos de suscripción ya registrados no se duplican.",
+        view: "Ver",
+        close: "Cerrar",
+        empty: "Ningún evento de webhook coincide con los filtros.",
+        never: "Nunca",
+        filters: {
+          status: "Estado",
+          provider: "Pasarela",
+          all: "Todos",
+        },
+        columns: {
+          event: "Evento",
+          provider: "Pasarela",
+          status: "Estado",
+          attempts: "Intentos",
+          nextAttempt: "Próximo reintento",
+          received: "Recibido",
+        },
+        statuses: {
+          received: "Recibido",
+          processing: "Procesando",
+          processed: "Procesado",
+          retry_scheduled: "Reintento programado",
+          dead_letter: "Fallido",
+        },
+        detail: {
+          title: "Evento de webhook",
+          eventId: "ID del evento en la pasarela",
+          lastError: "Último error",
+          processedAt: "Procesado",
+          deadLetteredAt: "Movido a fallidos",
+          replayedAt: "Reproducido",
+          payload: "Contenido",
+        },
+        success: {
+          replayed: "Evento reproducido.",
+        },
+        error: {
+          title: "No se pudieron cargar los webhooks",
+          load: "No pudimos cargar los eventos de webhook.",
+          replay: "No pudimos reproducir el evento.",
+        },
+      },
+      paymentRefunds: {
+        title: "Reembolsos",
+        description: "Reembolsa pedidos de la tienda y pagos de suscripción por su pasarela original. El pago pasa a reembolsado parcialmente o reembolsado y el cliente recibe un correo.",
+        ordersTitle: "Reembolsos de pedidos",
+        ordersDescription: "Reembolsa un pedido completo, un monto o líneas concretas del pedido por la pasarela con la que pagó el cliente.",
+        refresh: "Actualizar",
+        empty: "Ningún pago coincide con los filtros.",
+        filters: {
+          state: "Estado del reembolso",
+          all: "Todos",
+        },
+        kinds: {
+          order: "Pedido",
+          subscription: "Suscripción",
+        },
+        states: {
+          paid: "Pagado",
+          partially_refunded: "Reembolsado parcialmente",
+          refunded: "Reembolsado",
+        },
+        table: {
+          payment: "Pago",
+          customer: "Cliente",
+          gateway: "Pasarela",
+          amount: "Monto",
+          refunded: "Reembolsado",
+          state: "Estado",
+          actions: "Acciones",
+        },
+        actions: {
+          refund: "Reembolsar",
+          cancel: "Cancelar",
+          submitting: "Reembolsando...",
+        },
+        form: {
+          title: "Reembolsar pago",
+          description: "El dinero vuelve por la pasarela original. No se puede deshacer.",
+          amount: "Monto",
+          remaining: "Aún reembolsable",
+          lines: "Líneas del pedido",
+          linesHint: "Indica un monto en las líneas a reembolsar; déjalas vacías para reembolsar un monto del pedido completo.",
+          reason: "Motivo",
+          reasonPlaceholder: "Se comparte con el cliente en el correo del reembolso",
+          invalidAmount: "Indica un monto mayor que cero.",
+        },
+        success: {
+          refunded: "Reembolso emitido.",
+        },
+        error: {
+          title: "No se pudieron cargar los pagos",
+          retry: "Reintentar",
+        },
+      },
       videos: "Videos",
 
       tutorials: {
@@ -4154,6 +4662,31 @@ export const createEsDictionary = (
           affiliateStore: "Tienda de Afiliados",
         },
         noResults: "No se encontraron ventas",
+        taxReport: {
+          title: "Impuestos recaudados por jurisdicción",
+          description: "Impuestos de los pedidos pagados en un periodo, por país, región y tasa, para presentar las declaraciones.",
+          from: "Desde",
+          to: "Hasta",
+          apply: "Aplicar",
+          export: "Exportar CSV",
+          empty: "No se recaudaron impuestos en este periodo.",
+          error: "No pudimos cargar el reporte de impuestos.",
+          total: "Total recaudado",
+          columns: {
+            jurisdiction: "Jurisdicción",
+            tax: "Impuesto",
+            category: "Categoría",
+            rate: "Tasa",
+            orders: "Pedidos",
+            taxable: "Base imponible",
+            collected: "Impuesto recaudado",
+            currency: "Moneda",
+          },
+          categories: {
+            supplements: "Suplementos",
+            merchandise: "Mercancía",
+          },
+        },
       },
 
       broadcasts: {
@@ -4934,7 +5467,14 @@ export const createEsDictionary = (
           missingCapacityLevel: "Cada capacidad debe corresponder a un nivel configurado.",
           invalidCommissionRate: "El porcentaje de ganancia del equipo debe ser un valor válido entre 0 y 100.",
           invalidDiscountRate: "La ganancia del grupo debe ser un valor válido entre 0 y 100.",
+          invalidVolume: "Los volúmenes mínimos de {{phase}} deben ser números mayores o iguales a 0.",
           invalidTeamLevelsVisible: "Los niveles visibles del equipo deben estar entre 1 y 10.",
+          invalidNetworkCommissionDepth: "La profundidad de comisiones de red debe estar entre 0 y 10.",
+          invalidDunningRetryDays: "Los días de reintento deben ser una lista separada por comas de 1 a 10 días entre 1 y 60.",
+          invalidDunningGraceDays: "El periodo de gracia debe estar entre 0 y 60 días.",
+          invalidPauseMaxDays: "La pausa máxima debe estar entre 1 y 90 días.",
+          invalidPausesPerYear: "Las pausas por año deben estar entre 0 y 12.",
+          invalidPayoutHoldDays: "La retención de pagos debe estar entre 0 y 90 días.",
           invalidCurrencyCode: "Cada moneda debe tener un código ISO de 3 letras válido.",
           missingCurrencyCode: "Indica una moneda antes de asignar países.",
           invalidCountryCode: "Los códigos de país deben usar el formato ISO de 2 letras.",
@@ -4965,6 +5505,8 @@ export const createEsDictionary = (
           groupGainHint: "Porcentaje que gana el patrocinador cuando su afiliado directo (personas que reclutó) realiza una venta en su tienda personalizada. Ejemplo: ingresa 10 para 10%.",
           creditLabel: "Crédito de Recompensa",
           freeProductLabel: "Valor de Producto Gratis",
+          minPersonalVolumeLabel: "Volumen Personal Mínimo (PV)",
+          minGroupVolumeLabel: "Volumen Grupal Mínimo (GV)",
           add: "Agregar fase",
           remove: "Eliminar fase",
         },
@@ -4974,6 +5516,52 @@ export const createEsDictionary = (
           levelsLabel: "Niveles visibles",
           levelsHint: "Los miembros con suscripción activa verán hasta este número de fases.",
         },
+        networkCommissions: {
+          title: "Comisiones de red",
+          description:
+            "Paga comisiones uninivel a la línea ascendente del comprador en cada compra. Cada nivel usa la Ganancia de Ecommerce (%) de la fase con el mismo número.",
+          depthLabel: "Niveles pagados",
+          depthHint: "Cantidad de niveles ascendentes que ganan en cada compra. Usa 0 para desactivar las comisiones de red.",
+        },
+        dunning: {
+          title: "Renovaciones fallidas",
+          description:
+            "Cuando falla el cobro de una renovación, la suscripción pasa a vencida y se reintenta según este calendario, usando el saldo del wallet como respaldo. Tras el último reintento queda impaga y se cancela al terminar el periodo de gracia.",
+          retryDaysLabel: "Días de reintento",
+          retryDaysHint: "Días después del primer cobro fallido, separados por comas. Ejemplo: 1, 3, 5, 7.",
+          graceDaysLabel: "Periodo de gracia (días)",
+          graceDaysHint: "Días que se conserva una suscripción impaga después del último reintento antes de cancelarla.",
+        },
+        subscriptionPause: {
+          title: "Pausas de suscripción",
+          description:
+            "Los miembros pueden pausar en lugar de cancelar. El periodo de facturación se extiende por los días en pausa y no se renueva hasta que la pausa termina.",
+          maxDaysLabel: "Pausa máxima (días)",
+          perYearLabel: "Pausas por año",
+          perYearHint: "Pausas permitidas en cualquier periodo de 12 meses. Usa 0 para desactivar las pausas.",
+          countCapacityLabel: "Los miembros en pausa conservan su lugar en la red",
+          countCapacityDescription: "Contar a los miembros en pausa en la capacidad de nivel 1 de su patrocinador.",
+          countPhaseLabel: "Los miembros en pausa cuentan para las fases",
+          countPhaseDescription: "Tratar a los miembros en pausa como activos en los requisitos de fase propios y de su línea ascendente.",
+        },
+        payoutBatches: {
+          title: "Lotes de pago",
+          description:
+            "Los saldos elegibles se agrupan en lotes por frecuencia de pago, proveedor y moneda. Un lote solo se paga después de que un segundo administrador lo aprueba.",
+          holdDaysLabel: "Retención de comisiones (días)",
+          holdDaysHint: "Las comisiones más recientes que este plazo quedan fuera de los lotes nuevos para cubrir reembolsos y contracargos.",
+        },
+        spillover: {
+          title: "Derrame (spillover)",
+          description:
+            "Cuando un patrocinador no tiene lugares libres en su nivel 1, los nuevos miembros se colocan más abajo en su red. El patrocinador sigue siendo quien los inscribió.",
+          strategyLabel: "Estrategia de colocación",
+          strategyHint: "Con la pierna elegida por el patrocinador, quienes no hayan elegido usan el primer lugar libre.",
+          disabled: "Desactivado: rechazar nuevos miembros",
+          breadthFirst: "Primer lugar libre de la red",
+          weakestLeg: "Pierna más débil",
+          sponsorChoice: "Pierna elegida por el patrocinador",
+        },
         compensation: {
           currencyLabel: "Moneda predeterminada",
           currencyHint: "Moneda principal para pagos cuando ningún país coincide con una preferencia regional.",
@@ -6297,6 +6885,22 @@ export const createEsDictionary = (
 
 
 
+      pointValue: "Puntos de Volumen (PV)",
+
+
+
+      lowStockThreshold: "Alerta de stock bajo en",
+
+
+
+      weightGrams: "Peso de envío (g)",
+
+
+
+      taxCategory: "Categoría de impuesto",
+
+
+
       productCountrySectionTitle: "Disponibilidad por país",
 
 
@@ -6361,6 +6965,78 @@ export const createEsDictionary = (
 
 
 
+      productVariantsSectionTitle: "Variantes",
+
+
+
+      productVariantsSectionDescription: "Define opciones como sabor o tamaño. Cada combinación tiene su propio SKU, precio, stock e imágenes.",
+
+
+
+      productVariantsAxisName: "Opción",
+
+
+
+      productVariantsAxisNamePlaceholder: "Sabor",
+
+
+
+      productVariantsAxisValues: "Valores (separados por comas)",
+
+
+
+      productVariantsAxisValuesPlaceholder: "Vainilla, Chocolate",
+
+
+
+      productVariantsAddAxis: "Agregar opción",
+
+
+
+      productVariantsRemoveAxis: "Quitar opción",
+
+
+
+      productVariantsGenerate: "Generar variantes",
+
+
+
+      productVariantsSku: "SKU",
+
+
+
+      productVariantsPrice: "Precio",
+
+
+
+      productVariantsStock: "Stock",
+
+
+
+      productVariantsActive: "Activa",
+
+
+
+      productVariantsImages: "Imágenes",
+
+
+
+      productVariantsImagesHelper: "Elige las imágenes del producto que muestran esta variante. Sin selección se usan las imágenes del producto.",
+
+
+
+      productVariantsEmpty: "Este producto no tiene variantes. Agrega opciones y genéralas para venderlo en varias versiones.",
+
+
+
+      productVariantsStockHelper: "El stock es la suma del stock de las variantes.",
+
+
+
+      productVariantsValidation: "Cada variante necesita un SKU y un precio mayor a cero.",
+
+
+
       productFeatured: "Producto destacado",
 
 
@@ -7041,6 +7717,16 @@ export const createEsDictionary = (
           successDescription: "Credenciales de Payoneer guardadas correctamente.",
         },
 
+        mercadopago: {
+          title: "Mercado Pago",
+          description: "Acepta pagos y suscripciones con Mercado Pago en Latinoamérica.",
+          successDescription: "Configuración de Mercado Pago actualizada.",
+        },
+
+        validateCredentials: "Validar credenciales",
+        credentialsValid: "Las credenciales son válidas",
+        credentialsInvalid: "Las credenciales no son válidas",
+
 
 
       },
@@ -7930,6 +8616,142 @@ export const createEsDictionary = (
 
 
 
+      orderReturns: {
+
+
+
+        title: "Devoluciones",
+
+
+
+        description: "Solicita la devolución de un producto de este pedido. La revisaremos y te avisaremos por correo en cada paso.",
+
+
+
+        requestReturn: "Solicitar devolución",
+
+
+
+        dialogTitle: "Solicitar una devolución",
+
+
+
+        dialogDescription: "Cuéntanos qué pasó con {{product}}.",
+
+
+
+        quantity: "Unidades a devolver",
+
+
+
+        reason: "Motivo",
+
+
+
+        reasons: {
+
+
+
+          damaged: "Dañado",
+
+
+
+          wrong_item: "Producto equivocado",
+
+
+
+          not_as_described: "No coincide con la descripción",
+
+
+
+          no_longer_needed: "Ya no lo necesito",
+
+
+
+          other: "Otro",
+
+
+
+        },
+
+
+
+        details: "Detalles",
+
+
+
+        detailsPlaceholder: "Describe el problema con el producto...",
+
+
+
+        photos: "Fotos",
+
+
+
+        photosHelper: "Hasta {{count}} imágenes (JPG, PNG, WebP o GIF).",
+
+
+
+        submit: "Enviar solicitud",
+
+
+
+        submitting: "Enviando...",
+
+
+
+        cancel: "Cancelar",
+
+
+
+        success: "Devolución solicitada. Te enviamos la confirmación por correo.",
+
+
+
+        error: "No pudimos enviar la solicitud de devolución.",
+
+
+
+        rma: "RMA {{value}}",
+
+
+
+        refunded: "Reembolsado {{value}}",
+
+
+
+        statuses: {
+
+
+
+          requested: "En revisión",
+
+
+
+          approved: "Aprobada",
+
+
+
+          rejected: "Rechazada",
+
+
+
+          received: "Recibida",
+
+
+
+          refunded: "Reembolsada",
+
+
+
+        },
+
+
+
+      },
+
+
+
       paymentMethods: {
 
 
@@ -8314,7 +9136,8 @@ export const createEsDictionary = (
       subtitle: "Calcula tus ingresos potenciales tanto de la red multinivel como del sistema de afiliados",
       tabs: {
         multilevel: "Red Multinivel",
-        affiliate: "Sistema de Afiliados"
+        affiliate: "Sistema de Afiliados",
+        simulator: "Mi Siguiente Fase"
       },
       multilevel: {
         title: "Calculadora de Red Multinivel",
@@ -8388,6 +9211,47 @@ export const createEsDictionary = (
         affiliateRate: "Comisión afiliado: {{rate}}%",
         referrerRate: "Comisión referidor: {{rate}}%",
       },
+      simulator: {
+        title: "¿Qué necesito para la siguiente fase?",
+        subtitle: "Basado en tu red real: quién está inactivo, cuántas activaciones te faltan y cuánto pagaría la siguiente fase",
+        loadError: "No pudimos cargar tu red. Por favor, intenta de nuevo.",
+        signInPrompt: "Inicia sesión para simular tu siguiente fase con tu propia red.",
+        signInButton: "Iniciar sesión",
+        currentPhase: "Fase actual",
+        targetPhase: "Siguiente fase",
+        topPhase: "Fase máxima alcanzada",
+        phaseLabel: "Fase {{phase}}",
+        missingActivations: "Activaciones faltantes",
+        selfInactive: "Tu suscripción no está activa. Reactívala para seguir calificando en cualquier fase.",
+        requirementsTitle: "Requisitos",
+        requirementTypes: {
+          subscriptionActive: "Tu suscripción activa",
+          directActiveRecruits: "Referidos directos activos",
+          secondLevelActiveRecruits: "Miembros activos en segundo nivel",
+          networkRetention: "Toda la red activa"
+        },
+        met: "Cumplido",
+        missing: "Faltan {{count}}",
+        progress: "{{current}} de {{required}}",
+        directsTitle: "Tus referidos directos",
+        active: "Activo",
+        inactive: "Inactivo",
+        directRecruits: "{{active}} referido(s) activo(s) · faltan {{missing}}",
+        inactiveRecruits: "Referidos inactivos: {{names}}",
+        inactiveTitle: "Miembros inactivos por reactivar",
+        inactiveHelp: "Reactivar a estos miembros es la forma más rápida de cerrar la brecha.",
+        inactiveMember: "{{name}} (Nivel {{level}})",
+        projectionTitle: "Ingresos mensuales proyectados",
+        personalSalesLabel: "Tus ventas personales mensuales",
+        averageSalesLabel: "Ventas mensuales promedio por miembro activo",
+        projectButton: "Actualizar proyección",
+        projectionCurrent: "Fase {{phase}} (hoy)",
+        projectionTarget: "Fase {{phase}} (con las activaciones faltantes)",
+        projectionRate: "{{rate}}% de comisión sobre {{members}} miembro(s) activo(s)",
+        projectionPersonal: "• Comisión por ventas personales: {{amount}}",
+        projectionNetwork: "• Comisión por ventas de la red: {{amount}}",
+        projectionRewards: "• Crédito de recompensa y producto gratis: {{amount}}"
+      },
     },
   };
 
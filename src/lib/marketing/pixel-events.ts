@@ -25,6 +25,8 @@ export interface ProductItem {
   price: number;
   quantity?: number;
   category?: string;
+  /** Label of the selected variant, sent to GA4 as item_variant */
+  variant?: string;
 }
 
 /**
@@ -118,6 +120,7 @@ export const trackPurchase = (
     items: items.map(item => ({
       item_id: item.id,
       item_name: item.name,
+      item_variant: item.variant,
       price: item.price,
       quantity: item.quantity || 1,
     })),
@@ -152,6 +155,7 @@ export const trackAddToCart = (
     items: [{
       item_id: product.id,
       item_name: product.name,
+      item_variant: product.variant,
       price: product.price,
       quantity: 1,
     }],
@@ -186,6 +190,7 @@ export const trackViewContent = (
     items: [{
       item_id: product.id,
       item_name: product.name,
+      item_variant: product.variant,
       price: product.price,
     }],
   });
@@ -226,6 +231,7 @@ export const trackInitiateCheckout = (
     items: items.map(item => ({
       item_id: item.id,
       item_name: item.name,
+      item_variant: item.variant,
       price: item.price,
       quantity: item.quantity || 1,
     })),
@@ -404,6 +404,42 @@ const ProductExperienceSchema = z
 
 export type ProductExperience = z.infer<typeof ProductExperienceSchema>;
 
+/** One option axis of a product with variants, e.g. Flavor: Vanilla, Cocoa */
+export const ProductOptionAxisSchema = z.object({
+  name: z.string().trim().min(1),
+  values: z.array(z.string().trim().min(1)).min(1),
+});
+
+export type ProductOptionAxis = z.infer<typeof ProductOptionAxisSchema>;
+
+/**
+ * A sellable combination of option values. Price, stock and images are the variant's own; the
+ * description and experience content come from the product.
+ */
+export const ProductVariantSchema = z.object({
+  id: z.string(),
+  product_id: z.string().optional(),
+  sku: z.string().trim().min(1),
+  options: z.record(z.string(), z.string()).default({}),
+  price: z.coerce.number().positive(),
+  stock_quantity: z
+    .preprocess((value) => {
+      if (value === null || value === undefined || value === '') {
+        return 0;
+      }
+      const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+      return Number.isFinite(parsed) ? Math.trunc(parsed) : 0;
+    }, z.number().int())
+    .default(0),
+  images: z.preprocess((value) => (Array.isArray(value) ? value : []), z.array(ProductImageSchema)),
+  position: z.coerce.number().int().default(0),
+  is_active: z.boolean().default(true),
+  created_at: normalizeNullableDateTime.optional(),
+  updated_at: normalizeNullableDateTime.optional(),
+});
+
+export type ProductVariant = z.infer<typeof ProductVariantSchema>;
+
 export const ProductSchema = z.object({
   id: z.string(),
   slug: z.string(),
@@ -484,6 +520,40 @@ export const ProductSchema = z.object({
       }
       return 0;
     }, z.coerce.number().int().min(0)).default(0),
+  /** Volume points (PV) each unit adds to the buyer's personal volume, independent of the price */
+  point_value: z
+    .preprocess((value) => {
+      if (value === null || value === undefined || value === '') {
+        return 0;
+      }
+      const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+      return Number.isFinite(parsed) ? Math.max(0, parsed) : 0;
+    }, z.number().nonnegative())
+    .optional(),
+  /** Available units at or below which the warehouse shows a low stock alert */
+  low_stock_threshold: z
+    .preprocess((value) => {
+      if (value === null || value === undefined || value === '') {
+        return 5;
+      }
+      const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+      return Number.isFinite(parsed) ? Math.max(0, Math.trunc(parsed)) : 5;
+    }, z.number().int().nonnegative())
+    .optional(),
+  /** Shipping weight of one unit in grams; parcel weights of weight-based shipping rates add them up */
+  weight_grams: z
+    .preprocess((value) => {
+      if (value === null || value === undefined || value === '') {
+        return 0;
+      }
+      const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+      return Number.isFinite(parsed) ? Math.max(0, Math.trunc(parsed)) : 0;
+    }, z.number().int().nonnegative())
+    .optional(),
+  /** Tax category of the product; tax rates are set up per category */
+  tax_category: z
+    .preprocess((value) => (value === null || value === undefined || value === '' ? 'supplements' : value), z.enum(['supplements', 'merchandise']))
+    .optional(),
   images: z.preprocess((value) => (Array.isArray(value) ? value : []), z.array(ProductImageSchema)),
   is_featured: z.preprocess((value) => {
     if (value === null || value === undefined) {
@@ -518,6 +588,18 @@ export const ProductSchema = z.object({
       return value;
     }, ProductExperienceSchema)
     .optional(),
+  option_axes: z
+    .preprocess((value) => (Array.isArray(value) ? value : []), z.array(ProductOptionAxisSchema))
+    .optional(),
+  /** Variants ordered by position; loaded with the product, saved to product_variants */
+  variants: z
+    .preprocess(
+      (value) => (Array.isArray(value) ? value : undefined),
+      z
+        .array(ProductVariantSchema)
+        .transform((variants) => [...variants].sort((a, b) => a.position - b.position)),
+    )
+    .optional(),
 });
 
 export type Product = z.infer<typeof ProductSchema>;
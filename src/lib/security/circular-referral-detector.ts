@@ -83,31 +83,31 @@ export class CircularReferralDetector {
     this.visited.add(currentNode);
     this.recursionStack.add(currentNode);
 
-    // Get the upline of the current node (who referred them)
+    // Get the upline of the current node (their network parent)
     const { data: profile, error } = await this.client
       .from('profiles')
-      .select('sponsor_id')
+      .select('network_parent_id')
       .eq('id', currentNode)
       .single();
 
-    if (error || !profile || !profile.sponsor_id) {
+    if (error || !profile || !profile.network_parent_id) {
       // No upline, so no cycle possible from here
       this.recursionStack.delete(currentNode);
       return false;
     }
 
     // If the sponsor is in our recursion stack, we found a cycle
-    if (this.recursionStack.has(profile.sponsor_id)) {
+    if (this.recursionStack.has(profile.network_parent_id)) {
       console.warn('[CircularReferralDetector] Cycle found in recursion stack', {
         currentNode,
-        sponsor: profile.sponsor_id,
+        sponsor: profile.network_parent_id,
       });
       return true;
     }
 
     // If we haven't visited the sponsor yet, traverse to it
-    if (!this.visited.has(profile.sponsor_id)) {
-      const cycleFound = await this.detectCycleFromNode(profile.sponsor_id, targetNode);
+    if (!this.visited.has(profile.network_parent_id)) {
+      const cycleFound = await this.detectCycleFromNode(profile.network_parent_id, targetNode);
       if (cycleFound) {
         return true;
       }
@@ -150,7 +150,7 @@ export class CircularReferralDetector {
         // Get sponsor
         const { data: profile } = await this.client
           .from('profiles')
-          .select('sponsor_id')
+          .select('network_parent_id')
           .eq('id', currentUserId)
           .single();
 
@@ -158,7 +158,7 @@ export class CircularReferralDetector {
           break;
         }
 
-        currentUserId = profile.sponsor_id;
+        currentUserId = profile.network_parent_id;
         depth++;
       }
 
@@ -196,8 +196,8 @@ export class CircularReferralDetector {
       // Get all users with sponsors
       const { data: profiles } = await this.client
         .from('profiles')
-        .select('id, sponsor_id')
-        .not('sponsor_id', 'is', null);
+        .select('id, network_parent_id')
+        .not('network_parent_id', 'is', null);
 
       if (!profiles) {
         return cycles;
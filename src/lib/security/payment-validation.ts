@@ -88,6 +88,24 @@ export const ALLOWED_METADATA_KEYS = new Set([
   // Cart items
   'cartItems',
 
+  // Shipping (verified against a server quote before payment)
+  'shippingRateId',
+  'shippingCarrierId',
+  'shippingCents',
+  'shippingCountry',
+  'shippingState',
+
+  // Tax (verified against a server quote before payment)
+  'taxCents',
+  'taxCountry',
+  'taxRegion',
+  'pricesIncludeTax',
+
+  // Promotions (verified against a server evaluation of the cart before payment)
+  'couponCode',
+  'promotionDiscountCents',
+  'promotionIds',
+
   // Misc
   'description',
   'notes',
@@ -268,7 +286,7 @@ export const PriceValidationSchema = z.object({
     .length(3, 'Currency must be 3-letter ISO code')
     .toUpperCase()
     .refine(
-      (val) => ['USD', 'EUR', 'GBP', 'CAD', 'AUD'].includes(val),
+      (val) => ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'ARS', 'BRL', 'CLP', 'COP', 'MXN', 'PEN', 'UYU'].includes(val),
       { message: 'Unsupported currency' }
     ),
 
@@ -34,12 +34,16 @@ const MENU_PERMISSIONS: Partial<Record<MenuId, Permission[]>> = {
   products: ['manage_products'],
   orders: ['manage_orders'],
   warehouse: ['manage_orders'],
+  shipping: ['manage_settings'],
+  taxes: ['manage_settings'],
+  promotions: ['manage_products'],
   videos: ['manage_content'],
   users: ['manage_users'],
   roles: ['manage_roles'],
   pays: ['manage_payments'],
   plans: ['manage_plans'],
   paymentHistory: ['manage_payments', 'view_reports'],
+  webhooks: ['manage_payments'],
   salesHistory: ['view_reports'],
   broadcasts: ['manage_content'],
   seo: ['manage_content'],
@@ -89,12 +93,16 @@ const getMenuItems = (
     { id: 'products', baseHref: '/admin/products' },
     { id: 'orders', baseHref: '/admin/orders' },
     { id: 'warehouse', baseHref: '/admin/bodega' },
+    { id: 'shipping', baseHref: '/admin/shipping' },
+    { id: 'taxes', baseHref: '/admin/taxes' },
+    { id: 'promotions', baseHref: '/admin/promotions' },
     { id: 'videos', baseHref: '/admin/videos' },
     { id: 'users', baseHref: '/admin/users' },
     { id: 'roles', baseHref: '/admin/roles' },
     { id: 'pays', baseHref: '/admin/pays' },
     { id: 'plans', baseHref: '/admin/plans' },
     { id: 'paymentHistory', baseHref: '/admin/payments/history' },
+    { id: 'webhooks', baseHref: '/admin/payments/webhooks' },
     { id: 'salesHistory', baseHref: '/admin/sales-history' },
     { id: 'broadcasts', baseHref: '/admin/messages' },
     { id: 'seo', baseHref: '/admin/seo' },
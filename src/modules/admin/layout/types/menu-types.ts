@@ -3,12 +3,16 @@ export type MenuId =
   | 'products'
   | 'orders'
   | 'warehouse'
+  | 'shipping'
+  | 'taxes'
+  | 'promotions'
   | 'videos'
   | 'users'
   | 'roles'
   | 'pays'
   | 'plans'
   | 'paymentHistory'
+  | 'webhooks'
   | 'salesHistory'
   | 'broadcasts'
   | 'seo'
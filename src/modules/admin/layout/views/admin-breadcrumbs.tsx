@@ -23,9 +23,13 @@ const pathToLabel: Record<string, { es: string; en: string }> = {
   '/admin/products': { es: 'Productos', en: 'Products' },
   '/admin/orders': { es: 'Pedidos', en: 'Orders' },
   '/admin/bodega': { es: 'Bodega', en: 'Warehouse' },
+  '/admin/shipping': { es: 'Envíos', en: 'Shipping' },
+  '/admin/taxes': { es: 'Impuestos', en: 'Taxes' },
+  '/admin/promotions': { es: 'Promociones', en: 'Promotions' },
   '/admin/videos': { es: 'Videos', en: 'Videos' },
   '/admin/pays': { es: 'Pagos', en: 'Payments' },
   '/admin/payments/history': { es: 'Historial de Pagos', en: 'Payment History' },
+  '/admin/payments/webhooks': { es: 'Webhooks de pago', en: 'Payment Webhooks' },
   '/admin/sales-history': { es: 'Historial de Ventas', en: 'Sales History' },
   '/admin/messages': { es: 'Mensajes', en: 'Messages' },
   '/admin/seo': { es: 'SEO', en: 'SEO' },
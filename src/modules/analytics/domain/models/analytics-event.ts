@@ -44,6 +44,26 @@ export const AnalyticsProductItem = z.object({
 
 export type AnalyticsProductItem = z.infer<typeof AnalyticsProductItem>;
 
+/**
+ * Analytics item of a cart line. item_variant carries the label of the selected variant
+ * (e.g. "Vanilla / 1 kg") so variants of one product are reported under the same item_id.
+ */
+export const toAnalyticsProductItem = (
+  line: {
+    product: { id: string; name: string; price: number };
+    quantity: number;
+    variantLabel?: string | null;
+  },
+  currency = 'USD'
+): AnalyticsProductItem => ({
+  item_id: line.product.id,
+  item_name: line.product.name,
+  price: line.product.price,
+  quantity: line.quantity,
+  currency,
+  ...(line.variantLabel ? { item_variant: line.variantLabel } : {}),
+});
+
 /**
  * Event Parameters Schema
  * Rich parameters for analytics events
@@ -5,6 +5,7 @@ import {
   DEFAULT_APP_SETTINGS,
   type AppSettings,
   type AppSettingsUpdateInput,
+  type SpilloverStrategy,
 } from '../../domain/models/app-settings';
 import type { AppSettingsRepository } from '../../domain/contracts/app-settings-repository';
 
@@ -25,6 +26,15 @@ type DbAppSettingsRow = {
   store_owner_discount_value: number | null;
   direct_sponsor_commission_rate: number | null;
   network_commission_rate: number | null;
+  network_commission_depth: number | null;
+  dunning_retry_days: number[] | null;
+  dunning_grace_days: number | null;
+  subscription_pause_max_days: number | null;
+  subscription_pauses_per_year: number | null;
+  paused_members_count_toward_capacity: boolean | null;
+  paused_members_count_toward_phase: boolean | null;
+  payout_hold_days: number | null;
+  spillover_strategy: string | null;
   reward_credit_label_en: string | null;
   reward_credit_label_es: string | null;
   free_product_label_en: string | null;
@@ -125,6 +135,20 @@ const mapRowToSettings = (row: DbAppSettingsRow | null): AppSettings => {
     storeOwnerDiscountValue: Number(row.store_owner_discount_value ?? DEFAULT_APP_SETTINGS.storeOwnerDiscountValue),
     directSponsorCommissionRate: Number(row.direct_sponsor_commission_rate ?? DEFAULT_APP_SETTINGS.directSponsorCommissionRate),
     networkCommissionRate: Number(row.network_commission_rate ?? DEFAULT_APP_SETTINGS.networkCommissionRate),
+    networkCommissionDepth: Number(row.network_commission_depth ?? DEFAULT_APP_SETTINGS.networkCommissionDepth),
+    dunningRetryDays:
+      Array.isArray(row.dunning_retry_days) && row.dunning_retry_days.length > 0
+        ? row.dunning_retry_days.map(Number).sort((a, b) => a - b)
+        : DEFAULT_APP_SETTINGS.dunningRetryDays,
+    dunningGraceDays: Number(row.dunning_grace_days ?? DEFAULT_APP_SETTINGS.dunningGraceDays),
+    subscriptionPauseMaxDays: Number(row.subscription_pause_max_days ?? DEFAULT_APP_SETTINGS.subscriptionPauseMaxDays),
+    subscriptionPausesPerYear: Number(row.subscription_pauses_per_year ?? DEFAULT_APP_SETTINGS.subscriptionPausesPerYear),
+    pausedMembersCountTowardCapacity:
+      row.paused_members_count_toward_capacity ?? DEFAULT_APP_SETTINGS.pausedMembersCountTowardCapacity,
+    pausedMembersCountTowardPhase:
+      row.paused_members_count_toward_phase ?? DEFAULT_APP_SETTINGS.pausedMembersCountTowardPhase,
+    payoutHoldDays: Number(row.payout_hold_days ?? DEFAULT_APP_SETTINGS.payoutHoldDays),
+    spilloverStrategy: (row.spillover_strategy as SpilloverStrategy) ?? DEFAULT_APP_SETTINGS.spilloverStrategy,
     rewardCreditLabelEn: row.reward_credit_label_en ?? DEFAULT_APP_SETTINGS.rewardCreditLabelEn,
     rewardCreditLabelEs: row.reward_credit_label_es ?? DEFAULT_APP_SETTINGS.rewardCreditLabelEs,
     freeProductLabelEn: row.free_product_label_en ?? DEFAULT_APP_SETTINGS.freeProductLabelEn,
@@ -158,6 +182,15 @@ const mapInputToPayload = (input: AppSettingsUpdateInput) => {
     store_owner_discount_value: payload.storeOwnerDiscountValue,
     direct_sponsor_commission_rate: payload.directSponsorCommissionRate,
     network_commission_rate: payload.networkCommissionRate,
+    network_commission_depth: payload.networkCommissionDepth,
+    dunning_retry_days: [...payload.dunningRetryDays].sort((a, b) => a - b),
+    dunning_grace_days: payload.dunningGraceDays,
+    subscription_pause_max_days: payload.subscriptionPauseMaxDays,
+    subscription_pauses_per_year: payload.subscriptionPausesPerYear,
+    paused_members_count_toward_capacity: payload.pausedMembersCountTowardCapacity,
+    paused_members_count_toward_phase: payload.pausedMembersCountTowardPhase,
+    payout_hold_days: payload.payoutHoldDays,
+    spillover_strategy: payload.spilloverStrategy,
     reward_credit_label_en: payload.rewardCreditLabelEn,
     reward_credit_label_es: payload.rewardCreditLabelEs,
     free_product_label_en: payload.freeProductLabelEn,
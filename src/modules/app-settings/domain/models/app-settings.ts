@@ -5,6 +5,13 @@ export const LevelCapacitySchema = z.object({
   maxMembers: z.number().int().min(0),
 });
 
+/**
+ * Where a new member is placed when the enrolling sponsor has no level 1 seat left
+ */
+export const SpilloverStrategySchema = z.enum(['disabled', 'breadth_first', 'weakest_leg', 'sponsor_choice']);
+
+export type SpilloverStrategy = z.infer<typeof SpilloverStrategySchema>;
+
 export const AppSettingsSchema = z.object({
   id: z.string(),
   maxMembersPerLevel: z.array(LevelCapacitySchema),
@@ -35,6 +42,15 @@ export const AppSettingsSchema = z.object({
   storeOwnerDiscountValue: z.number().min(0).default(0),
   directSponsorCommissionRate: z.number().min(0).max(1).default(0),
   networkCommissionRate: z.number().min(0).max(1).default(0),
+  networkCommissionDepth: z.number().int().min(0).max(10).default(0),
+  dunningRetryDays: z.array(z.number().int().min(1).max(60)).min(1).max(10).default([1, 3, 5, 7]),
+  dunningGraceDays: z.number().int().min(0).max(60).default(7),
+  subscriptionPauseMaxDays: z.number().int().min(1).max(90).default(30),
+  subscriptionPausesPerYear: z.number().int().min(0).max(12).default(1),
+  pausedMembersCountTowardCapacity: z.boolean().default(true),
+  pausedMembersCountTowardPhase: z.boolean().default(true),
+  payoutHoldDays: z.number().int().min(0).max(90).default(14),
+  spilloverStrategy: SpilloverStrategySchema.default('breadth_first'),
   rewardCreditLabelEn: z.string().default('Reward Credits'),
   rewardCreditLabelEs: z.string().default('Créditos de Recompensa'),
   freeProductLabelEn: z.string().default('Free Product Value'),
@@ -60,6 +76,15 @@ export const AppSettingsUpdateSchema = AppSettingsSchema.pick({
   storeOwnerDiscountValue: true,
   directSponsorCommissionRate: true,
   networkCommissionRate: true,
+  networkCommissionDepth: true,
+  dunningRetryDays: true,
+  dunningGraceDays: true,
+  subscriptionPauseMaxDays: true,
+  subscriptionPausesPerYear: true,
+  pausedMembersCountTowardCapacity: true,
+  pausedMembersCountTowardPhase: true,
+  payoutHoldDays: true,
+  spilloverStrategy: true,
   rewardCreditLabelEn: true,
   rewardCreditLabelEs: true,
   freeProductLabelEn: true,
@@ -165,6 +190,15 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
   storeOwnerDiscountValue: 0,
   directSponsorCommissionRate: 0,
   networkCommissionRate: 0,
+  networkCommissionDepth: 0,
+  dunningRetryDays: [1, 3, 5, 7],
+  dunningGraceDays: 7,
+  subscriptionPauseMaxDays: 30,
+  subscriptionPausesPerYear: 1,
+  pausedMembersCountTowardCapacity: true,
+  pausedMembersCountTowardPhase: true,
+  payoutHoldDays: 14,
+  spilloverStrategy: 'breadth_first',
   rewardCreditLabelEn: 'Reward Credits',
   rewardCreditLabelEs: 'Créditos de Recompensa',
   freeProductLabelEn: 'Free Product Value',
@@ -48,6 +48,11 @@ export const EMAIL_TEMPLATE_IDS = {
   ORDER_SHIPPED: 'order_shipped',
   ORDER_DELIVERED: 'order_delivered',
   ORDER_CANCELLED: 'order_cancelled',
+  ORDER_RETURN_REQUESTED: 'order_return_requested',
+  ORDER_RETURN_APPROVED: 'order_return_approved',
+  ORDER_RETURN_REJECTED: 'order_return_rejected',
+  ORDER_RETURN_RECEIVED: 'order_return_received',
+  ORDER_RETURN_REFUNDED: 'order_return_refunded',
   SUBSCRIPTION_CREATED: 'subscription_created',
   SUBSCRIPTION_RENEWED: 'subscription_renewed',
   SUBSCRIPTION_CANCELLED: 'subscription_cancelled',
@@ -55,6 +60,7 @@ export const EMAIL_TEMPLATE_IDS = {
   PAYMENT_RECEIVED: 'payment_received',
   PAYMENT_FAILED: 'payment_failed',
   PAYMENT_REFUNDED: 'payment_refunded',
+  COMMISSION_CLAWBACK: 'commission_clawback',
 } as const;
 
 export type EmailTemplateId = typeof EMAIL_TEMPLATE_IDS[keyof typeof EMAIL_TEMPLATE_IDS];
@@ -0,0 +1,162 @@
+import type { SiteBranding } from '@/modules/site-content/domain/models/site-branding';
+import type {
+  CommissionStatementCategory,
+  CommissionStatementDetail,
+  CommissionStatementRecord,
+} from '@/modules/multilevel/domain/types';
+import { INVOICE_STYLES, escapeHtml } from './invoice-template';
+
+export interface CommissionStatementTemplateParams {
+  statement: CommissionStatementDetail;
+  branding: SiteBranding;
+}
+
+const CATEGORY_LABELS: Record<CommissionStatementCategory, string> = {
+  retail: 'Network commission',
+  seller: 'Seller commission',
+  subscription: 'Subscription commission',
+  phase_bonus: 'Phase bonus',
+  adjustment: 'Refund / chargeback adjustment',
+};
+
+const TOTAL_ROWS: Array<[label: string, value: (statement: CommissionStatementRecord) => number]> = [
+  ['Network commissions', (statement) => statement.retail_cents],
+  ['Seller commissions', (statement) => statement.seller_cents],
+  ['Subscription commissions', (statement) => statement.subscription_cents],
+  ['Phase bonuses', (statement) => statement.phase_bonus_cents],
+  ['Adjustments', (statement) => statement.adjustment_cents],
+];
+
+export function generateCommissionStatementHTML({ statement, branding }: CommissionStatementTemplateParams) {
+  const formatCurrency = (cents: number, currency: string) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format((Number(cents) || 0) / 100);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC',
+    }).format(new Date(dateString));
+  };
+
+  const { period, member, statements, lines } = statement;
+  const periodLabel = new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'long', timeZone: 'UTC' }).format(
+    new Date(period.starts_at),
+  );
+  // ends_at is exclusive
+  const lastDay = new Date(new Date(period.ends_at).getTime() - 1).toISOString();
+
+  const appName = escapeHtml(branding.showAppName === false ? '' : branding.appName);
+  const appDescription = branding.description ? escapeHtml(branding.description) : '';
+  const logoUrl = branding.showLogo === false || !branding.logoUrl ? '' : escapeHtml(branding.logoUrl);
+  const memberName = escapeHtml(member.name) || 'Member';
+  const memberEmail = escapeHtml(member.email);
+  const statementNumber = escapeHtml(`${period.period}-${member.id.substring(0, 8).toUpperCase()}`);
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Commission statement ${statementNumber}</title>
+  <style>
+${INVOICE_STYLES}
+    .totals-group + .totals-group { margin-top: 18px; }
+    .amount-negative { color: #b91c1c; }
+  </style>
+</head>
+<body>
+  <div class="invoice-container">
+    <div class="header">
+      <div class="company-info">
+        ${logoUrl ? `<div class="logo-container"><img src="${logoUrl}" alt="${appName || 'Company'} logo" /></div>` : ''}
+        <div class="company-details">
+          ${appName ? `<h1>${appName}</h1>` : ''}
+          ${appDescription ? `<p>${appDescription}</p>` : ''}
+        </div>
+      </div>
+      <div class="invoice-info">
+        <h2>STATEMENT</h2>
+        <p><strong>Statement #:</strong> ${statementNumber}</p>
+        <p><strong>Period:</strong> ${escapeHtml(periodLabel)}</p>
+        ${period.closed_at ? `<p><strong>Closed:</strong> ${formatDate(period.closed_at)}</p>` : ''}
+      </div>
+    </div>
+
+    <div class="addresses">
+      <div class="address-block">
+        <h3>Member</h3>
+        <p><strong>${memberName}</strong></p>
+        ${memberEmail ? `<p>${memberEmail}</p>` : ''}
+      </div>
+      <div class="address-block">
+        <h3>Period</h3>
+        <p>${formatDate(period.starts_at)} – ${formatDate(lastDay)}</p>
+        <p>${lines.length} ${lines.length === 1 ? 'entry' : 'entries'}</p>
+      </div>
+    </div>
+
+    <table>
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Description</th>
+          <th>Reference</th>
+          <th class="text-right">Amount</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${lines
+          .map(
+            (line) => `
+        <tr>
+          <td>${formatDate(line.occurred_at)}</td>
+          <td>${CATEGORY_LABELS[line.category] ?? escapeHtml(line.category)}</td>
+          <td>${line.reference ? escapeHtml(line.reference.substring(0, 8).toUpperCase()) : ''}</td>
+          <td class="text-right${line.amount_cents < 0 ? ' amount-negative' : ''}">${formatCurrency(line.amount_cents, line.currency)}</td>
+        </tr>
+        `,
+          )
+          .join('')}
+      </tbody>
+    </table>
+
+    <div class="totals">
+      ${statements
+        .map(
+          (entry) => `
+      <div class="totals-group">
+        ${TOTAL_ROWS.filter(([, value]) => value(entry) !== 0)
+          .map(
+            ([label, value]) => `
+        <div class="totals-row">
+          <span>${label}</span>
+          <span>${formatCurrency(value(entry), entry.currency)}</span>
+        </div>
+        `,
+          )
+          .join('')}
+        <div class="totals-row total">
+          <span>Total ${escapeHtml(entry.currency)}</span>
+          <span>${formatCurrency(entry.total_cents, entry.currency)}</span>
+        </div>
+      </div>
+      `,
+        )
+        .join('')}
+    </div>
+
+    <div class="footer">
+      <strong>COMMISSION STATEMENT</strong>
+      <p>Commissions earned in ${escapeHtml(periodLabel)}. Refunds and chargebacks recorded during the month are included as adjustments.</p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
@@ -1,4 +1,5 @@
 import type { SiteBranding } from '@/modules/site-content/domain/models/site-branding';
+import { formatTaxRate } from '@/modules/orders/tax/domain/tax-calculation';
 
 export interface InvoiceTemplateParams {
   order: any;
@@ -9,6 +10,50 @@ export interface InvoiceTemplateParams {
   emptyItemsDescription?: string;
 }
 
+/**
+ * Invoice styling, shared with the other printable documents (e.g. commission statements)
+ */
+export const INVOICE_STYLES = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Helvetica Neue', Arial, sans-serif; padding: 40px; color: #1f2933; background-color: #f8fafc; }
+    .invoice-container { max-width: 880px; margin: 0 auto; background: #ffffff; border-radius: 24px; box-shadow: 0 20px 45px rgba(15, 23, 42, 0.08); overflow: hidden; border: 1px solid rgba(148, 163, 184, 0.2); }
+    .header { display: flex; flex-wrap: wrap; justify-content: space-between; gap: 24px; padding: 36px; border-bottom: 1px solid rgba(148, 163, 184, 0.25); background: linear-gradient(135deg, rgba(59, 130, 246, 0.07), rgba(14, 116, 144, 0.05)); }
+    .company-info { display: flex; gap: 18px; align-items: center; flex: 1 1 280px; }
+    .logo-container { width: 72px; height: 72px; border-radius: 18px; background: rgba(255, 255, 255, 0.85); display: grid; place-items: center; padding: 10px; border: 1px solid rgba(148, 163, 184, 0.3); }
+    .logo-container img { max-width: 100%; max-height: 100%; object-fit: contain; }
+    .company-details h1 { font-size: 28px; font-weight: 700; color: #0f172a; letter-spacing: -0.02em; }
+    .company-details p { margin-top: 6px; font-size: 14px; color: #475569; max-width: 360px; line-height: 1.5; }
+    .invoice-info { text-align: right; min-width: 220px; }
+    .invoice-info h2 { font-size: 26px; font-weight: 700; color: #0f172a; letter-spacing: 0.12em; margin-bottom: 12px; text-transform: uppercase; }
+    .invoice-info p { margin: 6px 0; font-size: 14px; color: #334155; }
+    .addresses { display: flex; flex-wrap: wrap; justify-content: space-between; gap: 24px; padding: 32px 36px; background: #f8fafc; }
+    .address-block { flex: 1 1 260px; border-radius: 16px; padding: 20px; background: #ffffff; border: 1px solid rgba(148, 163, 184, 0.25); }
+    .address-block h3 { font-size: 12px; font-weight: 700; letter-spacing: 0.14em; color: #64748b; margin-bottom: 12px; text-transform: uppercase; }
+    .address-block p { margin: 6px 0; font-size: 14px; color: #1f2937; line-height: 1.5; }
+    table { width: 100%; border-collapse: collapse; margin: 0 36px; border-radius: 18px; overflow: hidden; }
+    thead { background: linear-gradient(135deg, rgba(59, 130, 246, 0.15), rgba(79, 70, 229, 0.12)); color: #0f172a; }
+    th { text-align: left; padding: 16px 18px; font-size: 12px; letter-spacing: 0.1em; text-transform: uppercase; font-weight: 600; }
+    tbody tr { background: #ffffff; transition: background 0.2s ease; }
+    tbody tr:nth-child(even) { background: rgba(15, 23, 42, 0.02); }
+    tbody tr:hover { background: rgba(59, 130, 246, 0.07); }
+    td { padding: 18px; font-size: 14px; color: #1f2933; border-bottom: 1px solid rgba(148, 163, 184, 0.2); vertical-align: top; }
+    .text-right { text-align: right; }
+    .totals { margin: 30px 36px 0 auto; width: min(320px, 100%); border-radius: 18px; background: #0f172a; color: #ffffff; padding: 24px; box-shadow: 0 20px 35px rgba(15, 23, 42, 0.2); }
+    .totals-row { display: flex; justify-content: space-between; padding: 8px 0; font-size: 15px; }
+    .totals-row span:first-child { color: rgba(226, 232, 240, 0.85); }
+    .totals-row.total { font-size: 20px; font-weight: 700; padding-top: 16px; margin-top: 10px; border-top: 1px solid rgba(226, 232, 240, 0.35); }
+    .footer { margin: 40px 36px 32px; padding: 28px; border-radius: 18px; background: linear-gradient(135deg, rgba(59, 130, 246, 0.12), rgba(14, 165, 233, 0.12)); text-align: center; font-size: 13px; color: #0f172a; line-height: 1.6; }
+    .footer strong { display: block; font-size: 14px; margin-bottom: 6px; letter-spacing: 0.08em; text-transform: uppercase; }
+    .status-badge { display: inline-flex; align-items: center; justify-content: center; min-width: 110px; padding: 6px 14px; border-radius: 999px; font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.08em; }
+    .status-paid { background-color: rgba(34, 197, 94, 0.15); color: #15803d; }
+    .status-pending { background-color: rgba(250, 204, 21, 0.15); color: #a16207; }
+    .status-canceled { background-color: rgba(239, 68, 68, 0.15); color: #b91c1c; }
+    @media print {
+      body { background: #ffffff; padding: 0; }
+      .invoice-container { box-shadow: none; border: none; border-radius: 0; }
+    }
+`;
+
 export const escapeHtml = (value: any): string => {
   if (value === null || value === undefined) {
     return '';
@@ -80,6 +125,9 @@ export function generateInvoiceHTML({
   }, 0);
 
   const tax = Number(order.tax_cents) || 0;
+  const taxLines: any[] = Array.isArray(order.tax_lines) ? order.tax_lines : [];
+  // Tax of prices including tax is already part of the subtotal: shown, not added
+  const taxLabelSuffix = order.prices_include_tax ? ' (included)' : '';
   const shipping = Number(order.shipping_cents) || 0;
   const discount = Number(order.discount_cents) || 0;
 
@@ -118,44 +166,7 @@ export function generateInvoiceHTML({
   <meta charset="UTF-8">
   <title>Invoice ${invoiceNumber}</title>
   <style>
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body { font-family: 'Helvetica Neue', Arial, sans-serif; padding: 40px; color: #1f2933; background-color: #f8fafc; }
-    .invoice-container { max-width: 880px; margin: 0 auto; background: #ffffff; border-radius: 24px; box-shadow: 0 20px 45px rgba(15, 23, 42, 0.08); overflow: hidden; border: 1px solid rgba(148, 163, 184, 0.2); }
-    .header { display: flex; flex-wrap: wrap; justify-content: space-between; gap: 24px; padding: 36px; border-bottom: 1px solid rgba(148, 163, 184, 0.25); background: linear-gradient(135deg, rgba(59, 130, 246, 0.07), rgba(14, 116, 144, 0.05)); }
-    .company-info { display: flex; gap: 18px; align-items: center; flex: 1 1 280px; }
-    .logo-container { width: 72px; height: 72px; border-radius: 18px; background: rgba(255, 255, 255, 0.85); display: grid; place-items: center; padding: 10px; border: 1px solid rgba(148, 163, 184, 0.3); }
-    .logo-container img { max-width: 100%; max-height: 100%; object-fit: contain; }
-    .company-details h1 { font-size: 28px; font-weight: 700; color: #0f172a; letter-spacing: -0.02em; }
-    .company-details p { margin-top: 6px; font-size: 14px; color: #475569; max-width: 360px; line-height: 1.5; }
-    .invoice-info { text-align: right; min-width: 220px; }
-    .invoice-info h2 { font-size: 26px; font-weight: 700; color: #0f172a; letter-spacing: 0.12em; margin-bottom: 12px; text-transform: uppercase; }
-    .invoice-info p { margin: 6px 0; font-size: 14px; color: #334155; }
-    .addresses { display: flex; flex-wrap: wrap; justify-content: space-between; gap: 24px; padding: 32px 36px; background: #f8fafc; }
-    .address-block { flex: 1 1 260px; border-radius: 16px; padding: 20px; background: #ffffff; border: 1px solid rgba(148, 163, 184, 0.25); }
-    .address-block h3 { font-size: 12px; font-weight: 700; letter-spacing: 0.14em; color: #64748b; margin-bottom: 12px; text-transform: uppercase; }
-    .address-block p { margin: 6px 0; font-size: 14px; color: #1f2937; line-height: 1.5; }
-    table { width: 100%; border-collapse: collapse; margin: 0 36px; border-radius: 18px; overflow: hidden; }
-    thead { background: linear-gradient(135deg, rgba(59, 130, 246, 0.15), rgba(79, 70, 229, 0.12)); color: #0f172a; }
-    th { text-align: left; padding: 16px 18px; font-size: 12px; letter-spacing: 0.1em; text-transform: uppercase; font-weight: 600; }
-    tbody tr { background: #ffffff; transition: background 0.2s ease; }
-    tbody tr:nth-child(even) { background: rgba(15, 23, 42, 0.02); }
-    tbody tr:hover { background: rgba(59, 130, 246, 0.07); }
-    td { padding: 18px; font-size: 14px; color: #1f2933; border-bottom: 1px solid rgba(148, 163, 184, 0.2); vertical-align: top; }
-    .text-right { text-align: right; }
-    .totals { margin: 30px 36px 0 auto; width: min(320px, 100%); border-radius: 18px; background: #0f172a; color: #ffffff; padding: 24px; box-shadow: 0 20px 35px rgba(15, 23, 42, 0.2); }
-    .totals-row { display: flex; justify-content: space-between; padding: 8px 0; font-size: 15px; }
-    .totals-row span:first-child { color: rgba(226, 232, 240, 0.85); }
-    .totals-row.total { font-size: 20px; font-weight: 700; padding-top: 16px; margin-top: 10px; border-top: 1px solid rgba(226, 232, 240, 0.35); }
-    .footer { margin: 40px 36px 32px; padding: 28px; border-radius: 18px; background: linear-gradient(135deg, rgba(59, 130, 246, 0.12), rgba(14, 165, 233, 0.12)); text-align: center; font-size: 13px; color: #0f172a; line-height: 1.6; }
-    .footer strong { display: block; font-size: 14px; margin-bottom: 6px; letter-spacing: 0.08em; text-transform: uppercase; }
-    .status-badge { display: inline-flex; align-items: center; justify-content: center; min-width: 110px; padding: 6px 14px; border-radius: 999px; font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.08em; }
-    .status-paid { background-color: rgba(34, 197, 94, 0.15); color: #15803d; }
-    .status-pending { background-color: rgba(250, 204, 21, 0.15); color: #a16207; }
-    .status-canceled { background-color: rgba(239, 68, 68, 0.15); color: #b91c1c; }
-    @media print {
-      body { background: #ffffff; padding: 0; }
-      .invoice-container { box-shadow: none; border: none; border-radius: 0; }
-    }
+${INVOICE_STYLES}
   </style>
 </head>
 <body>
@@ -252,14 +263,25 @@ export function generateInvoiceHTML({
           : ''
       }
       ${
-        tax > 0
-          ? `
+        taxLines.length > 0
+          ? taxLines
+              .map(
+                (line: any) => `
       <div class="totals-row">
-        <span>Tax</span>
+        <span>${escapeHtml(line.name)} ${formatTaxRate(Number(line.rate_bps) || 0)}${taxLabelSuffix}</span>
+        <span>${formatCurrency(Number(line.tax_cents) || 0)}</span>
+      </div>
+      `,
+              )
+              .join('')
+          : tax > 0
+            ? `
+      <div class="totals-row">
+        <span>Tax${taxLabelSuffix}</span>
         <span>${formatCurrency(tax)}</span>
       </div>
       `
-          : ''
+            : ''
       }
       ${
         shipping > 0
@@ -1,8 +1,22 @@
-export type SubscriptionStatus = 'active' | 'past_due' | 'canceled' | 'unpaid';
-export type PaymentStatus = 'paid' | 'failed' | 'refunded';
+import type { PayoutProvider } from '../repositories/payout-account-repository';
+
+export type SubscriptionStatus = 'active' | 'past_due' | 'canceled' | 'unpaid' | 'paused';
+export type PaymentStatus = 'paid' | 'failed' | 'partially_refunded' | 'refunded';
 export type PaymentKind = 'subscription' | 'order';
-export type PaymentGateway = 'stripe' | 'paypal' | 'wallet';
-export type WalletReason = 'phase_bonus' | 'withdrawal' | 'sale_commission' | 'purchase' | 'recharge';
+export type PaymentGateway = 'stripe' | 'paypal' | 'wallet' | 'mercadopago';
+export type WalletReason =
+  | 'phase_bonus'
+  | 'withdrawal'
+  | 'sale_commission'
+  | 'purchase'
+  | 'recharge'
+  | 'admin_adjustment'
+  | 'commission_clawback'
+  | 'subscription_credit'
+  | 'order_refund'
+  | 'earnings_transfer';
+export type ClawbackReason = 'refund' | 'chargeback';
+export type ClawbackSourceType = 'network_commission' | 'wallet_txn';
 
 export type SubscriptionType = 'mlm' | 'affiliate';
 
@@ -12,10 +26,63 @@ export interface SubscriptionRecord {
   plan_id: string | null;
   subscription_type: SubscriptionType;
   status: SubscriptionStatus;
+  current_period_start?: string | null;
   current_period_end: string | null;
+  /** Paid for the current period, plan changes included */
+  current_period_paid_cents?: number;
   gateway: PaymentGateway;
   cancel_at_period_end: boolean;
   default_payment_method_id: string | null;
+  dunning_started_at?: string | null;
+  dunning_attempts?: number;
+  dunning_next_attempt_at?: string | null;
+  paused_at?: string | null;
+  pause_ends_at?: string | null;
+  created_at: string;
+}
+
+export interface SubscriptionDunningAttemptRecord {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  attempt: number;
+  gateway: PaymentGateway;
+  amount_cents: number;
+  success: boolean;
+  error: string | null;
+  resulting_status: SubscriptionStatus;
+  created_at: string;
+}
+
+export interface SubscriptionPauseRecord {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  started_at: string;
+  scheduled_end_at: string;
+  resumed_at: string | null;
+  extended_days: number;
+  created_at: string;
+}
+
+export type SubscriptionPlanChangeStatus = 'pending' | 'completed' | 'failed';
+
+export interface SubscriptionPlanChangeRecord {
+  id: string;
+  subscription_id: string;
+  user_id: string;
+  from_plan_id: string | null;
+  to_plan_id: string;
+  from_subscription_type: SubscriptionType;
+  to_subscription_type: SubscriptionType;
+  credit_cents: number;
+  charge_cents: number;
+  amount_due_cents: number;
+  currency: string;
+  gateway: PaymentGateway | null;
+  gateway_ref: string | null;
+  period_end: string | null;
+  status: SubscriptionPlanChangeStatus;
   created_at: string;
 }
 
@@ -47,6 +114,110 @@ export interface PhaseRecord {
 export interface WalletRecord {
   user_id: string;
   balance_cents: number;
+  /** Currency of `balance_cents`, which is also the member's payout currency */
+  currency?: string;
+}
+
+export interface WalletBalanceRecord {
+  currency: string;
+  balance_cents: number;
+  /** True for the wallet currency stored on `wallets` */
+  primary: boolean;
+}
+
+export interface FxRateRecord {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_at: string;
+  source: string;
+  created_at: string;
+}
+
+export interface FxConversion {
+  amountCents: number;
+  currency: string;
+  originalAmountCents: number;
+  originalCurrency: string;
+  /** Units of `currency` per unit of `originalCurrency` */
+  rate: number;
+}
+
+export interface CommissionClawbackRecord {
+  id: string;
+  order_id: string;
+  user_id: string;
+  source_type: ClawbackSourceType;
+  source_id: string;
+  reason: ClawbackReason;
+  voided_cents: number;
+  debited_cents: number;
+  external_reference: string | null;
+  created_at: string;
+}
+
+export type LedgerAccountCode =
+  | 'user_wallet'
+  | 'platform_float'
+  | 'commissions_payable'
+  | 'payouts_in_transit'
+  | 'platform_revenue';
+
+export interface LedgerJournalLine {
+  accountCode: LedgerAccountCode;
+  /** Only set for `user_wallet` accounts */
+  userId?: string | null;
+  currency: string;
+  /** Rate used when the amount was converted from another currency */
+  fxRate?: number;
+  debitCents: number;
+  creditCents: number;
+}
+
+export interface LedgerJournalEntry {
+  referenceType: string;
+  referenceId: string;
+  memo?: string | null;
+  lines: LedgerJournalLine[];
+}
+
+export interface LedgerAccountBalanceRecord {
+  account_id: string;
+  code: LedgerAccountCode;
+  user_id: string | null;
+  currency: string;
+  normal_balance: 'debit' | 'credit';
+  debit_cents: number;
+  credit_cents: number;
+}
+
+export interface LedgerWalletMismatch {
+  userId: string;
+  currency: string;
+  walletBalanceCents: number;
+  ledgerBalanceCents: number;
+}
+
+export interface LedgerCurrencyReconciliation {
+  currency: string;
+  accountTotals: Record<LedgerAccountCode, number>;
+  totalDebitsCents: number;
+  totalCreditsCents: number;
+  /** user_wallet + commissions_payable + payouts_in_transit according to the ledger */
+  platformLiabilityCents: number;
+  /** Sum of wallet balances held in this currency; must equal the user_wallet total */
+  walletBalancesCents: number;
+  /** Sum of `network_commissions.available_cents`; must equal the commissions_payable total */
+  unpaidCommissionsCents: number;
+  balanced: boolean;
+}
+
+export interface LedgerReconciliationReport {
+  generatedAt: string;
+  currencies: LedgerCurrencyReconciliation[];
+  walletMismatches: LedgerWalletMismatch[];
+  balanced: boolean;
 }
 
 export interface TreeMember {
@@ -57,8 +228,14 @@ export interface TreeMember {
   level: number; // Changed from 1 | 2 to support dynamic levels
   phase: number | null;
   allowTeamMessages?: boolean; // Privacy setting: allow team members to send messages
+  sponsorId?: string | null; // Network parent (profiles.network_parent_id: placement parent or referred_by)
 }
 
+/**
+ * How a member was placed below a full enrolling sponsor (profiles.placement_strategy)
+ */
+export type PlacementStrategy = 'breadth_first' | 'weakest_leg' | 'sponsor_choice';
+
 export type NetworkMemberStatus = 'active' | 'inactive';
 
 export interface NetworkMember extends TreeMember {
@@ -84,6 +261,49 @@ export interface TwoLevelTreeResponse {
   level2: TreeMember[];
 }
 
+/**
+ * Subscription status filter of the tree explorer; 'none' matches members without a subscription
+ */
+export type TreeStatusFilter = SubscriptionStatus | 'none';
+
+export interface TreeExplorerFilters {
+  status?: TreeStatusFilter;
+  phase?: number;
+}
+
+export interface TreeNodeRollup {
+  downlineSize: number;
+  activeCount: number;
+  volumeCents: number; // Paid order volume of the member and their downline
+}
+
+export interface TreeExplorerNode extends TreeMember {
+  childCount: number;
+  rollup: TreeNodeRollup;
+}
+
+export interface TreeExplorerPage {
+  parentId: string;
+  nodes: TreeExplorerNode[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export interface TreeSearchMatch extends TreeMember {
+  path: string[]; // Ancestors from level 1 down to the network parent, to expand the tree
+}
+
+export interface TreeSearchResult {
+  query: string;
+  matches: TreeSearchMatch[];
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
 export interface NetworkOverview {
   totalMembers: number;
   activeMembers: number;
@@ -99,4 +319,288 @@ export interface SubscriptionSummary {
   level1Count: number;
   level2Count: number;
   network: NetworkOverview;
+  volume: MemberVolumeSummary;
+}
+
+export type PhaseSimulationRequirementType =
+  | 'subscriptionActive'
+  | 'directActiveRecruits'
+  | 'secondLevelActiveRecruits'
+  | 'networkRetention';
+
+export interface PhaseSimulationRequirement {
+  phase: number;
+  type: PhaseSimulationRequirementType;
+  met: boolean;
+  current: number;
+  required: number;
+  /** Activations (reactivations or new members) still needed to meet the requirement */
+  missingActivations: number;
+}
+
+export interface PhaseSimulationDirectGap {
+  member: TreeMember;
+  active: boolean;
+  activeRecruits: number;
+  /** Active recruits still needed under this direct recruit to meet the per-direct minimum */
+  missingRecruits: number;
+  inactiveRecruits: TreeMember[];
+}
+
+export interface PhaseEarningsProjection {
+  phase: number;
+  commissionRate: number;
+  /** Active members within the levels the phase earns from */
+  activeNetworkMembers: number;
+  personalCommissionCents: number;
+  networkCommissionCents: number;
+  rewardCreditCents: number;
+  freeProductValueCents: number;
+  totalCents: number;
+}
+
+export interface PhaseSimulation {
+  currentPhase: number;
+  /** Phase the network qualifies for today */
+  qualifiedPhase: number;
+  /** Next phase to work towards, or null at the top phase */
+  targetPhase: number | null;
+  selfActive: boolean;
+  requirements: PhaseSimulationRequirement[];
+  missingActivations: number;
+  inactiveDirects: TreeMember[];
+  inactiveSecondLevel: TreeMember[];
+  directGaps: PhaseSimulationDirectGap[];
+  currency: string;
+  averageSalesCents: number;
+  personalSalesCents: number;
+  projections: {
+    current: PhaseEarningsProjection;
+    target: PhaseEarningsProjection | null;
+  };
+}
+
+export type PayoutCadence = 'weekly' | 'biweekly' | 'monthly';
+
+export type PayoutBatchStatus =
+  | 'pending_approval'
+  | 'processing'
+  | 'completed'
+  | 'partially_failed'
+  | 'failed'
+  | 'rejected';
+
+export type PayoutBatchItemStatus = 'pending' | 'submitted' | 'retry_scheduled' | 'failed' | 'canceled';
+
+export interface PayoutBatchRecord {
+  id: string;
+  cadence: PayoutCadence;
+  period: string;
+  provider: PayoutProvider;
+  currency: string;
+  status: PayoutBatchStatus;
+  total_cents: number;
+  item_count: number;
+  created_by: string;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejected_by: string | null;
+  rejected_at: string | null;
+  rejection_reason: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayoutBatchItemRecord {
+  id: string;
+  batch_id: string;
+  user_id: string;
+  account_id: string;
+  amount_cents: number;
+  currency: string;
+  status: PayoutBatchItemStatus;
+  attempts: number;
+  next_retry_at: string | null;
+  last_error: string | null;
+  external_id: string | null;
+  submitted_at: string | null;
+  /** Commissions the amount was taken from while the item is being paid out */
+  reserved_commissions?: Array<{ id: string; cents: number }> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayoutHoldRecord {
+  id: string;
+  user_id: string;
+  reason: string;
+  created_by: string | null;
+  released_by: string | null;
+  released_at: string | null;
+  created_at: string;
+}
+
+export interface PayoutBatchWithItems extends PayoutBatchRecord {
+  items: PayoutBatchItemRecord[];
+}
+
+/**
+ * 'sponsor' changes the enrolling sponsor (referred_by) and clears any placement,
+ * 'placement' keeps the enrolling sponsor and only moves the member in the network tree
+ */
+export type NetworkMoveType = 'sponsor' | 'placement';
+
+/**
+ * 'subtree' moves the member with their whole downline, 'member' moves the member alone and
+ * hands their direct members over to the member's previous network parent
+ */
+export type NetworkMoveScope = 'subtree' | 'member';
+
+export type NetworkMoveStatus = 'applied' | 'rolled_back';
+
+export interface NetworkPhaseImpact {
+  memberId: string;
+  /** Phase currently stored for the member */
+  currentPhase: number;
+  /** Phase the evaluation engine gives the member with the current network */
+  phaseBefore: number;
+  /** Phase the evaluation engine would give the member after the move */
+  phaseAfter: number;
+  change: 'promoted' | 'demoted' | 'unchanged';
+}
+
+export interface NetworkMoveRecord {
+  id: string;
+  user_id: string;
+  move_type: NetworkMoveType;
+  scope: NetworkMoveScope;
+  target_parent_id: string | null;
+  reason: string;
+  status: NetworkMoveStatus;
+  phase_impact: NetworkPhaseImpact[];
+  performed_by: string | null;
+  applied_at: string;
+  rolled_back_by: string | null;
+  rolled_back_at: string | null;
+  rollback_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NetworkMoveChangeRecord {
+  id: string;
+  move_id: string;
+  profile_id: string;
+  previous_referred_by: string | null;
+  previous_placement_parent_id: string | null;
+  previous_placement_strategy: PlacementStrategy | null;
+  previous_placed_at: string | null;
+  previous_network_parent_id: string | null;
+  new_referred_by: string | null;
+  new_placement_parent_id: string | null;
+  new_network_parent_id: string | null;
+  created_at: string;
+}
+
+export interface NetworkMoveWithChanges extends NetworkMoveRecord {
+  changes: NetworkMoveChangeRecord[];
+}
+
+export interface MemberVolumeRecord {
+  user_id: string;
+  /** Calendar month (UTC) as YYYY-MM */
+  period: string;
+  personal_volume: number;
+  group_volume: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface VolumePeriodTotals {
+  period: string;
+  personalVolume: number;
+  groupVolume: number;
+}
+
+export interface MemberVolumeSummary {
+  current: VolumePeriodTotals;
+  previous: VolumePeriodTotals;
+}
+
+export type CommissionPeriodStatus = 'open' | 'closed';
+
+/**
+ * 'retail' and 'subscription' are network commissions, 'seller' the direct sale commissions,
+ * 'phase_bonus' the phase rewards paid to the wallet and 'adjustment' refund and chargeback
+ * reversals
+ */
+export type CommissionStatementCategory = 'retail' | 'seller' | 'subscription' | 'phase_bonus' | 'adjustment';
+
+export interface CommissionPeriodRecord {
+  id: string;
+  /** Calendar month (UTC) as YYYY-MM */
+  period: string;
+  starts_at: string;
+  ends_at: string;
+  status: CommissionPeriodStatus;
+  statement_count: number;
+  member_count: number;
+  /** Net total by currency, in cents */
+  totals: Record<string, number>;
+  closed_by: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommissionStatementRecord {
+  id: string;
+  period_id: string;
+  user_id: string;
+  currency: string;
+  retail_cents: number;
+  seller_cents: number;
+  subscription_cents: number;
+  phase_bonus_cents: number;
+  adjustment_cents: number;
+  total_cents: number;
+  line_count: number;
+  created_at: string;
+}
+
+export interface CommissionStatementLineRecord {
+  id: string;
+  period_id: string;
+  user_id: string;
+  currency: string;
+  category: CommissionStatementCategory;
+  source_type: 'network_commission' | 'wallet_txn' | 'commission_clawback';
+  source_id: string;
+  amount_cents: number;
+  occurred_at: string;
+  /** Order, or phase for phase bonuses, the line comes from */
+  reference: string | null;
+  created_at: string;
+}
+
+export interface CommissionStatementMember {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface CommissionStatementWithMember extends CommissionStatementRecord {
+  member: CommissionStatementMember;
+}
+
+export interface CommissionPeriodWithStatements extends CommissionPeriodRecord {
+  statements: CommissionStatementWithMember[];
+}
+
+export interface CommissionStatementDetail {
+  period: CommissionPeriodRecord;
+  member: CommissionStatementMember;
+  statements: CommissionStatementRecord[];
+  lines: CommissionStatementLineRecord[];
 }
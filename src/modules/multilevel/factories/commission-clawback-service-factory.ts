@@ -0,0 +1,4 @@
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { CommissionClawbackService } from '../services/commission-clawback-service';
+
+export const createCommissionClawbackService = () => new CommissionClawbackService(getSupabaseAdminClient());
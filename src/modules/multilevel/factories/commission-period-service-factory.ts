@@ -0,0 +1,4 @@
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { CommissionPeriodService } from '../services/commission-period-service';
+
+export const createCommissionPeriodService = () => new CommissionPeriodService(getSupabaseAdminClient());
@@ -0,0 +1,4 @@
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { FxRateService } from '../services/fx-rate-service';
+
+export const createFxRateService = () => new FxRateService(getSupabaseAdminClient());
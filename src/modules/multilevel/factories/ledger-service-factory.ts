@@ -0,0 +1,4 @@
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { LedgerService } from '../services/ledger-service';
+
+export const createLedgerService = () => new LedgerService(getSupabaseAdminClient());
@@ -0,0 +1,6 @@
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { NetworkCapacityService } from '../services/network-capacity-service';
+
+export const createNetworkCapacityService = () => {
+  return new NetworkCapacityService(getSupabaseAdminClient());
+};
@@ -0,0 +1,8 @@
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { EvaluationPhasePreviewer } from '../services/network-move-phase-previewer';
+import { NetworkMoveService } from '../services/network-move-service';
+
+export const createNetworkMoveService = () => {
+  const client = getSupabaseAdminClient();
+  return new NetworkMoveService(client, new EvaluationPhasePreviewer(client));
+};
@@ -0,0 +1,9 @@
+import { ProfileEarningsService } from '@/modules/profile/services/profile-earnings-service';
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { PayoutBatchService } from '../services/payout-batch-service';
+import { ProviderPayoutSubmitter } from '../services/payout-submitter';
+
+export const createPayoutBatchService = () => {
+  const client = getSupabaseAdminClient();
+  return new PayoutBatchService(client, new ProviderPayoutSubmitter(new ProfileEarningsService(client)));
+};
@@ -0,0 +1,6 @@
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { PhaseSimulatorService } from '../services/phase-simulator-service';
+
+export const createPhaseSimulatorService = () => {
+  return new PhaseSimulatorService(getSupabaseAdminClient());
+};
@@ -1,11 +1,14 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
 import { createSubscriptionEventBus } from '../observers/subscription-event-bus';
 import { SubscriptionLifecycleService } from '../services/subscription-lifecycle-service';
+import { SubscriptionPlanChangeService } from '../services/subscription-plan-change-service';
+import { SubscriptionPauseService } from '../services/subscription-pause-service';
+import { SubscriptionDunningService } from '../services/subscription-dunning-service';
 import { SubscriptionNotificationService } from '../services/subscription-notification-service';
 import { SubscriptionCommissionService } from '../services/subscription-commission-service';
 
-export const createSubscriptionLifecycleService = () => {
-  const client = getSupabaseAdminClient();
+const createObservedSubscriptionEventBus = (client: SupabaseClient) => {
   const bus = createSubscriptionEventBus();
   const notificationService = new SubscriptionNotificationService(client);
   const commissionService = new SubscriptionCommissionService(client);
@@ -52,5 +55,29 @@ export const createSubscriptionLifecycleService = () => {
     }
   });
 
-  return new SubscriptionLifecycleService(client, bus);
+  return bus;
+};
+
+export const createSubscriptionLifecycleService = () => {
+  const client = getSupabaseAdminClient();
+  return new SubscriptionLifecycleService(client, createObservedSubscriptionEventBus(client));
+};
+
+export const createSubscriptionPlanChangeService = () => {
+  const client = getSupabaseAdminClient();
+  return new SubscriptionPlanChangeService(client, createObservedSubscriptionEventBus(client));
+};
+
+export const createSubscriptionPauseService = () => {
+  const client = getSupabaseAdminClient();
+  return new SubscriptionPauseService(client, createObservedSubscriptionEventBus(client));
+};
+
+/**
+ * Dunning sends its own failure and cancellation emails, so it runs on a bus without the
+ * notification and commission observers (as the renewal cron does)
+ */
+export const createSubscriptionDunningService = () => {
+  const client = getSupabaseAdminClient();
+  return new SubscriptionDunningService(client, createSubscriptionEventBus());
 };
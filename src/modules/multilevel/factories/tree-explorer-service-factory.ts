@@ -0,0 +1,6 @@
+import { getSupabaseAdminClient } from '../infrastructure/supabase-admin-client';
+import { TreeExplorerService } from '../services/tree-explorer-service';
+
+export const createTreeExplorerService = () => {
+  return new TreeExplorerService(getSupabaseAdminClient());
+};
@@ -1,4 +1,4 @@
-import type { SubscriptionRecord, SubscriptionStatus } from '../domain/types';
+import type { SubscriptionRecord, SubscriptionStatus, SubscriptionType } from '../domain/types';
 
 export type SubscriptionCancellationReason = 'user' | 'payment_failure';
 
@@ -8,7 +8,7 @@ export interface SubscriptionPaymentRecordedPayload {
   amountCents: number;
   gatewayRef: string;
   periodEnd: string | null;
-  gateway: 'stripe' | 'paypal' | 'wallet';
+  gateway: 'stripe' | 'paypal' | 'wallet' | 'mercadopago';
 }
 
 export interface SubscriptionCanceledPayload {
@@ -23,10 +23,60 @@ export interface SubscriptionUpdatedPayload {
   subscription: SubscriptionRecord | null;
 }
 
+export interface SubscriptionDunningFailedPayload {
+  userId: string;
+  subscription: SubscriptionRecord | null;
+  attempt: number;
+  gateway: 'stripe' | 'paypal' | 'wallet' | 'mercadopago';
+  amountCents: number;
+  reason: string;
+  previousStatus: SubscriptionStatus;
+  status: SubscriptionStatus;
+  nextAttemptAt: string | null;
+}
+
+export interface SubscriptionDunningRecoveredPayload {
+  userId: string;
+  subscription: SubscriptionRecord | null;
+  attempt: number;
+  gateway: 'stripe' | 'paypal' | 'wallet' | 'mercadopago';
+  amountCents: number;
+}
+
+export interface SubscriptionPlanChangedPayload {
+  userId: string;
+  subscription: SubscriptionRecord | null;
+  previousPlanId: string | null;
+  planId: string;
+  previousSubscriptionType: SubscriptionType;
+  subscriptionType: SubscriptionType;
+  amountDueCents: number;
+}
+
+export interface SubscriptionPausedPayload {
+  userId: string;
+  subscription: SubscriptionRecord | null;
+  days: number;
+  pauseEndsAt: string;
+}
+
+export interface SubscriptionResumedPayload {
+  userId: string;
+  subscription: SubscriptionRecord | null;
+  /** Days actually paused; lower than the requested days on early resume */
+  pausedDays: number;
+  early: boolean;
+}
+
 export interface SubscriptionEventPayloads {
   'subscription.updated': SubscriptionUpdatedPayload;
   'payment.recorded': SubscriptionPaymentRecordedPayload;
   'subscription.canceled': SubscriptionCanceledPayload;
+  'dunning.payment_failed': SubscriptionDunningFailedPayload;
+  'dunning.recovered': SubscriptionDunningRecoveredPayload;
+  'subscription.plan_changed': SubscriptionPlanChangedPayload;
+  'subscription.paused': SubscriptionPausedPayload;
+  'subscription.resumed': SubscriptionResumedPayload;
 }
 
 export type SubscriptionEventType = keyof SubscriptionEventPayloads;
@@ -0,0 +1,99 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ClawbackReason, ClawbackSourceType } from '../domain/types';
+
+export interface ClawbackOrderRow {
+  id: string;
+  user_id: string;
+  status: string;
+  total_cents: number;
+  currency: string;
+}
+
+/**
+ * Reversal claimed for one commission or wallet credit of the order
+ */
+export interface ClaimedClawbackRow {
+  clawback_id: string;
+  user_id: string;
+  source_type: ClawbackSourceType;
+  source_id: string;
+  source_reason: string | null;
+  voided_cents: number;
+  debited_cents: number;
+}
+
+export class CommissionClawbackRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findOrderById(orderId: string): Promise<ClawbackOrderRow | null> {
+    const { data, error } = await this.client
+      .from('orders')
+      .select('id, user_id, status, total_cents, currency')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as ClawbackOrderRow | null) ?? null;
+  }
+
+  async findOrderByGatewayReference(gatewayRef: string): Promise<ClawbackOrderRow | null> {
+    if (!gatewayRef) {
+      return null;
+    }
+
+    const { data, error } = await this.client
+      .from('orders')
+      .select('id, user_id, status, total_cents, currency')
+      .eq('gateway_transaction_id', gatewayRef)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as ClawbackOrderRow | null) ?? null;
+  }
+
+  /**
+   * Record the reversals the order still owes, voiding unpaid commission balance, under a lock on
+   * the order. Amounts already reversed by earlier clawbacks are never claimed again.
+   */
+  async claimClawbacks(input: {
+    orderId: string;
+    reason: ClawbackReason;
+    ratio: number;
+    externalReference: string | null;
+  }): Promise<ClaimedClawbackRow[]> {
+    const { data, error } = await this.client.rpc('claim_order_clawbacks', {
+      p_order_id: input.orderId,
+      p_reason: input.reason,
+      p_ratio: input.ratio,
+      p_external_reference: input.externalReference,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as ClaimedClawbackRow[]).map((row) => ({
+      ...row,
+      voided_cents: Number(row.voided_cents),
+      debited_cents: Number(row.debited_cents),
+    }));
+  }
+
+  async markOrderRefunded(orderId: string): Promise<void> {
+    const { error } = await this.client
+      .from('orders')
+      .update({ status: 'refunded', updated_at: new Date().toISOString() })
+      .eq('id', orderId);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CommissionPeriodRecord,
+  CommissionStatementLineRecord,
+  CommissionStatementMember,
+  CommissionStatementRecord,
+} from '../domain/types';
+
+const toCents = (value: unknown): number => {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// bigint columns may come back as strings
+const normalizePeriod = (row: CommissionPeriodRecord): CommissionPeriodRecord => ({
+  ...row,
+  totals: Object.fromEntries(Object.entries(row.totals ?? {}).map(([currency, cents]) => [currency, toCents(cents)])),
+});
+
+const normalizeStatement = (row: CommissionStatementRecord): CommissionStatementRecord => ({
+  ...row,
+  retail_cents: toCents(row.retail_cents),
+  seller_cents: toCents(row.seller_cents),
+  subscription_cents: toCents(row.subscription_cents),
+  phase_bonus_cents: toCents(row.phase_bonus_cents),
+  adjustment_cents: toCents(row.adjustment_cents),
+  total_cents: toCents(row.total_cents),
+});
+
+export class CommissionPeriodRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Runs close_commission_period, which returns the period unchanged when it was closed already
+   */
+  async closePeriod(period: string, closedBy: string | null): Promise<CommissionPeriodRecord> {
+    const { data, error } = await this.client.rpc('close_commission_period', {
+      p_period: period,
+      p_closed_by: closedBy,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return normalizePeriod((Array.isArray(data) ? data[0] : data) as CommissionPeriodRecord);
+  }
+
+  async findPeriod(period: string): Promise<CommissionPeriodRecord | null> {
+    const { data, error } = await this.client.from('commission_periods').select('*').eq('period', period).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? normalizePeriod(data as CommissionPeriodRecord) : null;
+  }
+
+  async findPeriodsByIds(ids: string[]): Promise<CommissionPeriodRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client.from('commission_periods').select('*').in('id', ids);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as CommissionPeriodRecord[]).map(normalizePeriod);
+  }
+
+  async listPeriods(limit = 24): Promise<CommissionPeriodRecord[]> {
+    const { data, error } = await this.client
+      .from('commission_periods')
+      .select('*')
+      .order('period', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as CommissionPeriodRecord[]).map(normalizePeriod);
+  }
+
+  async listStatements(filters: { periodId?: string; userId?: string }): Promise<CommissionStatementRecord[]> {
+    let query = this.client.from('commission_statements').select('*');
+
+    if (filters.periodId) {
+      query = query.eq('period_id', filters.periodId);
+    }
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as CommissionStatementRecord[]).map(normalizeStatement);
+  }
+
+  async listLines(periodId: string, userId: string): Promise<CommissionStatementLineRecord[]> {
+    const { data, error } = await this.client
+      .from('commission_statement_lines')
+      .select('*')
+      .eq('period_id', periodId)
+      .eq('user_id', userId)
+      .order('occurred_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as CommissionStatementLineRecord[]).map((row) => ({
+      ...row,
+      amount_cents: toCents(row.amount_cents),
+    }));
+  }
+
+  async listMembers(userIds: string[]): Promise<CommissionStatementMember[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client.from('profiles').select('id, name, email').in('id', userIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as CommissionStatementMember[];
+  }
+}
@@ -0,0 +1,69 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FxRateRecord } from '../domain/types';
+
+export class FxRateRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Latest rate for the pair that is already in effect at the given moment
+   */
+  async findLatestRate(baseCurrency: string, quoteCurrency: string, at: string): Promise<FxRateRecord | null> {
+    const { data, error } = await this.client
+      .from('fx_rates')
+      .select('*')
+      .eq('base_currency', baseCurrency)
+      .eq('quote_currency', quoteCurrency)
+      .lte('effective_at', at)
+      .order('effective_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? { ...(data as FxRateRecord), rate: Number((data as FxRateRecord).rate) } : null;
+  }
+
+  async listRates(limit = 200): Promise<FxRateRecord[]> {
+    const { data, error } = await this.client
+      .from('fx_rates')
+      .select('*')
+      .order('effective_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as FxRateRecord[]).map((row) => ({ ...row, rate: Number(row.rate) }));
+  }
+
+  async insertRate(entry: {
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: number;
+    effectiveAt?: string;
+    source?: string;
+    createdBy?: string | null;
+  }): Promise<FxRateRecord> {
+    const { data, error } = await this.client
+      .from('fx_rates')
+      .insert({
+        base_currency: entry.baseCurrency,
+        quote_currency: entry.quoteCurrency,
+        rate: entry.rate,
+        effective_at: entry.effectiveAt ?? new Date().toISOString(),
+        source: entry.source ?? 'manual',
+        created_by: entry.createdBy ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return { ...(data as FxRateRecord), rate: Number((data as FxRateRecord).rate) };
+  }
+}
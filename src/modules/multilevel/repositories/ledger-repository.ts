@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LedgerAccountBalanceRecord, LedgerJournalEntry, WalletRecord } from '../domain/types';
+
+export class LedgerRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Post a journal entry atomically using database function.
+   * Posting the same reference twice returns the original entry id.
+   */
+  async postJournal(entry: LedgerJournalEntry): Promise<string> {
+    const { data, error } = await this.client.rpc('post_ledger_journal', {
+      p_reference_type: entry.referenceType,
+      p_reference_id: entry.referenceId,
+      p_memo: entry.memo ?? null,
+      p_lines: entry.lines.map((line) => ({
+        account_code: line.accountCode,
+        user_id: line.userId ?? null,
+        currency: line.currency,
+        fx_rate: line.fxRate ?? null,
+        debit_cents: line.debitCents,
+        credit_cents: line.creditCents,
+      })),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as string;
+  }
+
+  async listAccountBalances(): Promise<LedgerAccountBalanceRecord[]> {
+    const { data, error } = await this.client
+      .from('ledger_account_balances')
+      .select('*');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as LedgerAccountBalanceRecord[];
+  }
+
+  /**
+   * Stored wallet balances in every currency: the primary balance on `wallets`
+   * plus the secondary balances in `wallet_balances`.
+   */
+  async listWalletBalances(): Promise<Required<WalletRecord>[]> {
+    const [primary, secondary] = await Promise.all([
+      this.client.from('wallets').select('user_id, balance_cents, currency'),
+      this.client.from('wallet_balances').select('user_id, balance_cents, currency'),
+    ]);
+
+    if (primary.error) {
+      throw primary.error;
+    }
+    if (secondary.error) {
+      throw secondary.error;
+    }
+
+    return [...(primary.data ?? []), ...(secondary.data ?? [])] as Required<WalletRecord>[];
+  }
+
+  /**
+   * Unpaid commission balance grouped by commission currency
+   */
+  async sumUnpaidCommissions(): Promise<Record<string, number>> {
+    const { data, error } = await this.client
+      .from('network_commissions')
+      .select('available_cents, currency')
+      .gt('available_cents', 0);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).reduce<Record<string, number>>((totals, row) => {
+      const currency = row.currency ?? 'USD';
+      totals[currency] = (totals[currency] ?? 0) + Number(row.available_cents ?? 0);
+      return totals;
+    }, {});
+  }
+}
@@ -0,0 +1,55 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MemberVolumeRecord } from '../domain/types';
+
+const toPoints = (value: unknown): number => {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export class MemberVolumeRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Records the volume of a paid order once. Returns the points recorded by this call.
+   */
+  async recordOrderVolume(orderId: string): Promise<number> {
+    const { data, error } = await this.client.rpc('record_order_volume', { p_order_id: orderId });
+
+    if (error) {
+      throw error;
+    }
+
+    return toPoints(data);
+  }
+
+  /**
+   * Reverses the cumulative `ratio` of an order's volume. Returns the points reversed by this call.
+   */
+  async reverseOrderVolume(orderId: string, ratio: number): Promise<number> {
+    const { data, error } = await this.client.rpc('reverse_order_volume', { p_order_id: orderId, p_ratio: ratio });
+
+    if (error) {
+      throw error;
+    }
+
+    return toPoints(data);
+  }
+
+  async listVolumes(userId: string, periods: string[]): Promise<MemberVolumeRecord[]> {
+    const { data, error } = await this.client
+      .from('member_volumes')
+      .select('*')
+      .eq('user_id', userId)
+      .in('period', periods);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as MemberVolumeRecord[]).map((row) => ({
+      ...row,
+      personal_volume: toPoints(row.personal_volume),
+      group_volume: toPoints(row.group_volume),
+    }));
+  }
+}
@@ -0,0 +1,265 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  NetworkMoveChangeRecord,
+  NetworkMoveRecord,
+  NetworkMoveScope,
+  NetworkMoveType,
+  NetworkMoveWithChanges,
+  NetworkPhaseImpact,
+  PlacementStrategy,
+} from '../domain/types';
+
+export interface NetworkEdgeRow {
+  id: string;
+  referred_by: string | null;
+  placement_parent_id: string | null;
+  placement_strategy: PlacementStrategy | null;
+  placed_at: string | null;
+  network_parent_id: string | null;
+}
+
+export type NewNetworkMoveChange = Omit<NetworkMoveChangeRecord, 'id' | 'move_id' | 'created_at'>;
+
+export interface NewNetworkMove {
+  userId: string;
+  moveType: NetworkMoveType;
+  scope: NetworkMoveScope;
+  targetParentId: string | null;
+  reason: string;
+  phaseImpact: NetworkPhaseImpact[];
+  performedBy: string;
+  appliedAt: Date;
+  changes: NewNetworkMoveChange[];
+}
+
+/**
+ * A parent change of one profile, with the interval it was in effect
+ */
+export interface NetworkParentHistoryEntry {
+  previousParentId: string | null;
+  newParentId: string | null;
+  appliedAt: string;
+  rolledBackAt: string | null;
+}
+
+/**
+ * Network parent a profile had at `at` according to its move history: the parent before the
+ * first move (or rollback) that happened after `at`. Undefined when nothing changed since then,
+ * i.e. the current parent applies.
+ */
+export function resolveNetworkParentAt(history: NetworkParentHistoryEntry[], at: Date): string | null | undefined {
+  const events = history.flatMap((entry) => [
+    { at: new Date(entry.appliedAt), parentBefore: entry.previousParentId },
+    ...(entry.rolledBackAt ? [{ at: new Date(entry.rolledBackAt), parentBefore: entry.newParentId }] : []),
+  ]);
+
+  const next = events
+    .filter((event) => event.at.getTime() > at.getTime())
+    .sort((left, right) => left.at.getTime() - right.at.getTime())[0];
+
+  return next ? next.parentBefore : undefined;
+}
+
+const EDGE_COLUMNS = 'id, referred_by, placement_parent_id, placement_strategy, placed_at, network_parent_id';
+
+export class NetworkMoveRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findEdge(profileId: string): Promise<NetworkEdgeRow | null> {
+    const { data, error } = await this.client.from('profiles').select(EDGE_COLUMNS).eq('id', profileId).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as NetworkEdgeRow | null;
+  }
+
+  async listChildEdges(parentId: string): Promise<NetworkEdgeRow[]> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select(EDGE_COLUMNS)
+      .eq('network_parent_id', parentId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as NetworkEdgeRow[];
+  }
+
+  async insertMove(move: NewNetworkMove): Promise<NetworkMoveWithChanges> {
+    const { data, error } = await this.client
+      .from('network_moves')
+      .insert({
+        user_id: move.userId,
+        move_type: move.moveType,
+        scope: move.scope,
+        target_parent_id: move.targetParentId,
+        reason: move.reason,
+        status: 'applied',
+        phase_impact: move.phaseImpact,
+        performed_by: move.performedBy,
+        applied_at: move.appliedAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const record = data as NetworkMoveRecord;
+
+    const { data: changes, error: changesError } = await this.client
+      .from('network_move_changes')
+      .insert(move.changes.map((change) => ({ ...change, move_id: record.id })))
+      .select();
+
+    if (changesError) {
+      await this.deleteMove(record.id);
+      throw changesError;
+    }
+
+    return { ...record, changes: (changes ?? []) as NetworkMoveChangeRecord[] };
+  }
+
+  async deleteMove(moveId: string): Promise<void> {
+    const { error } = await this.client.from('network_moves').delete().eq('id', moveId);
+
+    if (error) {
+      console.error('[NetworkMoveRepository] Failed to delete network move:', error);
+    }
+  }
+
+  /**
+   * Updates the profiles of a move, or restores them when rolling back, in one transaction
+   */
+  async applyChanges(moveId: string, rollback: boolean): Promise<void> {
+    const { error } = await this.client.rpc('apply_network_move', { p_move_id: moveId, p_rollback: rollback });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async findMove(moveId: string): Promise<NetworkMoveWithChanges | null> {
+    const { data, error } = await this.client.from('network_moves').select('*').eq('id', moveId).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const { data: changes, error: changesError } = await this.client
+      .from('network_move_changes')
+      .select('*')
+      .eq('move_id', moveId)
+      .order('created_at', { ascending: true });
+
+    if (changesError) {
+      throw changesError;
+    }
+
+    return { ...(data as NetworkMoveRecord), changes: (changes ?? []) as NetworkMoveChangeRecord[] };
+  }
+
+  async listMoves(options: { userId?: string; limit?: number } = {}): Promise<NetworkMoveRecord[]> {
+    let query = this.client
+      .from('network_moves')
+      .select('*')
+      .order('applied_at', { ascending: false })
+      .limit(options.limit ?? 50);
+
+    if (options.userId) {
+      query = query.eq('user_id', options.userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as NetworkMoveRecord[];
+  }
+
+  /**
+   * Moves an applied move to rolled_back. Returns null when it was rolled back already.
+   */
+  async markRolledBack(
+    moveId: string,
+    update: { rolledBackBy: string; rolledBackAt: Date; reason: string },
+  ): Promise<NetworkMoveRecord | null> {
+    const { data, error } = await this.client
+      .from('network_moves')
+      .update({
+        status: 'rolled_back',
+        rolled_back_by: update.rolledBackBy,
+        rolled_back_at: update.rolledBackAt.toISOString(),
+        rollback_reason: update.reason,
+      })
+      .eq('id', moveId)
+      .eq('status', 'applied')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as NetworkMoveRecord | null;
+  }
+
+  async restoreApplied(moveId: string): Promise<void> {
+    const { error } = await this.client
+      .from('network_moves')
+      .update({ status: 'applied', rolled_back_by: null, rolled_back_at: null, rollback_reason: null })
+      .eq('id', moveId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Network parent of a profile at a past date, undefined when it did not change since then
+   */
+  async findNetworkParentAt(profileId: string, at: Date): Promise<string | null | undefined> {
+    return resolveNetworkParentAt(await this.listParentHistory(profileId), at);
+  }
+
+  async listParentHistory(profileId: string): Promise<NetworkParentHistoryEntry[]> {
+    const { data, error } = await this.client
+      .from('network_move_changes')
+      .select('previous_network_parent_id, new_network_parent_id, network_moves!inner(applied_at, rolled_back_at)')
+      .eq('profile_id', profileId);
+
+    if (error) {
+      throw error;
+    }
+
+    type HistoryRow = {
+      previous_network_parent_id: string | null;
+      new_network_parent_id: string | null;
+      network_moves: { applied_at: string; rolled_back_at: string | null } | null;
+    };
+
+    return ((data ?? []) as unknown as HistoryRow[]).flatMap((row) =>
+      row.network_moves
+        ? [
+            {
+              previousParentId: row.previous_network_parent_id,
+              newParentId: row.new_network_parent_id,
+              appliedAt: row.network_moves.applied_at,
+              rolledBackAt: row.network_moves.rolled_back_at,
+            },
+          ]
+        : [],
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PlacementStrategy } from '../domain/types';
+
+export interface PlacementMemberRow {
+  id: string;
+  referred_by: string | null;
+  placement_parent_id: string | null;
+  placement_strategy: PlacementStrategy | null;
+}
+
+export interface NetworkChildRow {
+  id: string;
+  network_parent_id: string;
+}
+
+export class NetworkPlacementRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findMember(userId: string): Promise<PlacementMemberRow | null> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('id, referred_by, placement_parent_id, placement_strategy')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as PlacementMemberRow | null;
+  }
+
+  /**
+   * Network children of the given members, oldest first. The excluded member and their own
+   * downline are never returned, so a member can't be placed below themselves.
+   */
+  async listChildren(parentIds: string[], excludeUserId: string): Promise<NetworkChildRow[]> {
+    if (parentIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('id, network_parent_id')
+      .in('network_parent_id', parentIds)
+      .neq('id', excludeUserId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as NetworkChildRow[];
+  }
+
+  async listPausedUserIds(userIds: string[]): Promise<Set<string>> {
+    if (userIds.length === 0) {
+      return new Set();
+    }
+
+    const { data, error } = await this.client
+      .from('subscriptions')
+      .select('user_id')
+      .eq('status', 'paused')
+      .in('user_id', userIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Set(((data ?? []) as Array<{ user_id: string }>).map((row) => row.user_id));
+  }
+
+  async listDirectMembers(sponsorId: string): Promise<Array<{ id: string; name: string | null }>> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('id, name')
+      .eq('network_parent_id', sponsorId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as Array<{ id: string; name: string | null }>;
+  }
+
+  async findSpilloverLeg(sponsorId: string): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('spillover_leg_id')
+      .eq('id', sponsorId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data?.spillover_leg_id as string | null | undefined) ?? null;
+  }
+
+  async updateSpilloverLeg(sponsorId: string, legId: string | null): Promise<void> {
+    const { error } = await this.client.from('profiles').update({ spillover_leg_id: legId }).eq('id', sponsorId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Places the member under `parentId` while the parent row is locked and still has a level 1
+   * seat. Returns false when another member took the seat first.
+   */
+  async placeUnder(
+    userId: string,
+    parentId: string,
+    strategy: PlacementStrategy,
+    seats: { maxSeats: number; countsPaused: boolean },
+    placedAt: Date,
+  ): Promise<boolean> {
+    const { data, error } = await this.client.rpc('place_network_member', {
+      p_user_id: userId,
+      p_parent_id: parentId,
+      p_strategy: strategy,
+      p_max_seats: seats.maxSeats,
+      p_counts_paused: seats.countsPaused,
+      p_placed_at: placedAt.toISOString(),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data === true;
+  }
+}
@@ -30,7 +30,7 @@ export class PaymentRepository {
     amountCents: number;
     status: 'paid';
     kind: 'subscription';
-    gateway: 'stripe' | 'paypal' | 'wallet';
+    gateway: 'stripe' | 'paypal' | 'wallet' | 'mercadopago';
     gatewayRef: string;
     periodEnd: string | null;
   }) {
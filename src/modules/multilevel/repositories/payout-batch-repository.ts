@@ -0,0 +1,401 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  PayoutBatchItemRecord,
+  PayoutBatchItemStatus,
+  PayoutBatchRecord,
+  PayoutBatchStatus,
+  PayoutBatchWithItems,
+  PayoutCadence,
+  PayoutHoldRecord,
+} from '../domain/types';
+import type { PayoutAccountRecord, PayoutProvider } from './payout-account-repository';
+
+const FALLBACK_MIN_PAYOUT_CENTS = 900;
+
+export interface PayoutScheduleSnapshot {
+  cadence: PayoutCadence;
+  minimumCents: number;
+}
+
+export interface EligibleBalance {
+  userId: string;
+  currency: string;
+  availableCents: number;
+}
+
+export interface NewPayoutBatch {
+  cadence: PayoutCadence;
+  period: string;
+  provider: PayoutProvider;
+  currency: string;
+  createdBy: string;
+  items: Array<{ userId: string; accountId: string; amountCents: number }>;
+}
+
+export type PayoutBatchItemUpdate = Partial<
+  Pick<PayoutBatchItemRecord, 'status' | 'attempts' | 'next_retry_at' | 'last_error' | 'external_id' | 'submitted_at'>
+>;
+
+export type PayoutBatchUpdate = Partial<
+  Pick<
+    PayoutBatchRecord,
+    'status' | 'approved_by' | 'approved_at' | 'rejected_by' | 'rejected_at' | 'rejection_reason' | 'completed_at'
+  >
+>;
+
+const OPEN_ITEM_STATUSES: PayoutBatchItemStatus[] = ['pending', 'retry_scheduled'];
+
+export class PayoutBatchRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Payout cadence and minimum amount from payment_schedule_settings, with the same floor
+   * used by automatic payouts
+   */
+  async getSchedule(): Promise<PayoutScheduleSnapshot> {
+    const { data, error } = await this.client
+      .from('payment_schedule_settings')
+      .select('frequency, default_amount_cents')
+      .eq('id', true)
+      .maybeSingle();
+
+    if (error || !data) {
+      return { cadence: 'monthly', minimumCents: FALLBACK_MIN_PAYOUT_CENTS };
+    }
+
+    return {
+      cadence: (data.frequency ?? 'monthly') as PayoutCadence,
+      minimumCents: Math.max(Number(data.default_amount_cents ?? 0), FALLBACK_MIN_PAYOUT_CENTS),
+    };
+  }
+
+  /**
+   * Available commission balances per member and currency, counting only commissions created
+   * on or before the hold cutoff
+   */
+  async listEligibleBalances(cutoff: Date): Promise<EligibleBalance[]> {
+    const { data, error } = await this.client
+      .from('network_commissions')
+      .select('user_id, available_cents, currency')
+      .gt('available_cents', 0)
+      .lte('created_at', cutoff.toISOString());
+
+    if (error) {
+      throw error;
+    }
+
+    const balances = new Map<string, EligibleBalance>();
+
+    for (const row of (data ?? []) as Array<{ user_id: string; available_cents: number; currency: string | null }>) {
+      const currency = (row.currency ?? '').toUpperCase();
+      const key = `${row.user_id}:${currency}`;
+      const balance = balances.get(key) ?? { userId: row.user_id, currency, availableCents: 0 };
+      balance.availableCents += Number(row.available_cents ?? 0);
+      balances.set(key, balance);
+    }
+
+    return Array.from(balances.values());
+  }
+
+  async listPayoutAccounts(userIds: string[]): Promise<PayoutAccountRecord[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client.from('payout_accounts').select('*').in('user_id', userIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as PayoutAccountRecord[];
+  }
+
+  async listThresholds(userIds: string[]): Promise<Map<string, number>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.client
+      .from('payout_preferences')
+      .select('user_id, auto_payout_threshold_cents')
+      .in('user_id', userIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Map(
+      ((data ?? []) as Array<{ user_id: string; auto_payout_threshold_cents: number }>).map((row) => [
+        row.user_id,
+        Number(row.auto_payout_threshold_cents ?? 0),
+      ]),
+    );
+  }
+
+  /**
+   * Members with a payout item that still has to be sent
+   */
+  async listReservedUserIds(): Promise<Set<string>> {
+    const { data, error } = await this.client
+      .from('payout_batch_items')
+      .select('user_id')
+      .in('status', OPEN_ITEM_STATUSES);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Set(((data ?? []) as Array<{ user_id: string }>).map((row) => row.user_id));
+  }
+
+  async listActiveHolds(userIds?: string[]): Promise<PayoutHoldRecord[]> {
+    let query = this.client
+      .from('payout_holds')
+      .select('*')
+      .is('released_at', null)
+      .order('created_at', { ascending: false });
+
+    if (userIds) {
+      query = query.in('user_id', userIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as PayoutHoldRecord[];
+  }
+
+  async insertHold(payload: { userId: string; reason: string; createdBy: string }): Promise<PayoutHoldRecord> {
+    const { data, error } = await this.client
+      .from('payout_holds')
+      .insert({
+        user_id: payload.userId,
+        reason: payload.reason,
+        created_by: payload.createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as PayoutHoldRecord;
+  }
+
+  async releaseHold(holdId: string, releasedBy: string, releasedAt: Date): Promise<PayoutHoldRecord | null> {
+    const { data, error } = await this.client
+      .from('payout_holds')
+      .update({ released_by: releasedBy, released_at: releasedAt.toISOString() })
+      .eq('id', holdId)
+      .is('released_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as PayoutHoldRecord | null;
+  }
+
+  async insertBatch(batch: NewPayoutBatch): Promise<PayoutBatchWithItems> {
+    const totalCents = batch.items.reduce((total, item) => total + item.amountCents, 0);
+
+    const { data, error } = await this.client
+      .from('payout_batches')
+      .insert({
+        cadence: batch.cadence,
+        period: batch.period,
+        provider: batch.provider,
+        currency: batch.currency,
+        status: 'pending_approval',
+        total_cents: totalCents,
+        item_count: batch.items.length,
+        created_by: batch.createdBy,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const record = data as PayoutBatchRecord;
+
+    const { data: items, error: itemsError } = await this.client
+      .from('payout_batch_items')
+      .insert(
+        batch.items.map((item) => ({
+          batch_id: record.id,
+          user_id: item.userId,
+          account_id: item.accountId,
+          amount_cents: item.amountCents,
+          currency: batch.currency,
+        })),
+      )
+      .select();
+
+    if (itemsError) {
+      await this.client.from('payout_batches').delete().eq('id', record.id);
+      throw itemsError;
+    }
+
+    return { ...record, items: (items ?? []) as PayoutBatchItemRecord[] };
+  }
+
+  async listBatches(options: { status?: PayoutBatchStatus; limit?: number } = {}): Promise<PayoutBatchRecord[]> {
+    let query = this.client
+      .from('payout_batches')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 50);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as PayoutBatchRecord[];
+  }
+
+  async findBatch(batchId: string): Promise<PayoutBatchWithItems | null> {
+    const { data, error } = await this.client.from('payout_batches').select('*').eq('id', batchId).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const { data: items, error: itemsError } = await this.client
+      .from('payout_batch_items')
+      .select('*')
+      .eq('batch_id', batchId)
+      .order('created_at', { ascending: true });
+
+    if (itemsError) {
+      throw itemsError;
+    }
+
+    return { ...(data as PayoutBatchRecord), items: (items ?? []) as PayoutBatchItemRecord[] };
+  }
+
+  /**
+   * Moves a batch out of `expectedStatus`. Returns null when another request changed it first.
+   */
+  async transitionBatch(
+    batchId: string,
+    expectedStatus: PayoutBatchStatus,
+    update: PayoutBatchUpdate,
+  ): Promise<PayoutBatchRecord | null> {
+    const { data, error } = await this.client
+      .from('payout_batches')
+      .update(update)
+      .eq('id', batchId)
+      .eq('status', expectedStatus)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as PayoutBatchRecord | null;
+  }
+
+  async updateBatch(batchId: string, update: PayoutBatchUpdate): Promise<void> {
+    const { error } = await this.client.from('payout_batches').update(update).eq('id', batchId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async updateItem(itemId: string, update: PayoutBatchItemUpdate): Promise<void> {
+    const { error } = await this.client.from('payout_batch_items').update(update).eq('id', itemId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Take the item amount from the member's available commissions in the item currency, under a
+   * lock. Returns false when that balance no longer covers the item.
+   */
+  async reserveItem(itemId: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('reserve_payout_item', { p_item_id: itemId });
+
+    if (error) {
+      throw error;
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Give a reserved item amount back to the commissions it was taken from
+   */
+  async releaseItem(itemId: string): Promise<void> {
+    const { error } = await this.client.rpc('release_payout_item', { p_item_id: itemId });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Batches with at least one item whose automatic retry is due
+   */
+  async listBatchIdsWithDueRetries(now: Date): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('payout_batch_items')
+      .select('batch_id')
+      .eq('status', 'retry_scheduled')
+      .lte('next_retry_at', now.toISOString());
+
+    if (error) {
+      throw error;
+    }
+
+    return Array.from(new Set(((data ?? []) as Array<{ batch_id: string }>).map((row) => row.batch_id)));
+  }
+
+  async recordPayoutTransaction(payload: {
+    userId: string;
+    amountCents: number;
+    currency: string;
+    provider: PayoutProvider;
+    externalId: string;
+    estimatedArrival: string | null;
+    batchId: string;
+    itemId: string;
+  }): Promise<void> {
+    const { error } = await this.client.from('payout_transactions').insert({
+      user_id: payload.userId,
+      amount_cents: payload.amountCents,
+      currency: payload.currency,
+      provider: payload.provider,
+      external_id: payload.externalId,
+      status: 'pending',
+      estimated_arrival: payload.estimatedArrival,
+      metadata: { batch_id: payload.batchId, batch_item_id: payload.itemId },
+    });
+
+    if (error) {
+      console.warn('[PayoutBatchRepository] Failed to record payout transaction:', error);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  PaymentGateway,
+  SubscriptionDunningAttemptRecord,
+  SubscriptionRecord,
+  SubscriptionStatus,
+} from '../domain/types';
+
+export class SubscriptionDunningRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Subscriptions in dunning whose next retry (or final attempt) is due
+   */
+  async findDueRetries(now: Date = new Date()): Promise<SubscriptionRecord[]> {
+    const { data, error } = await this.client
+      .from('subscriptions')
+      .select('*')
+      .in('status', ['past_due', 'unpaid'])
+      .eq('cancel_at_period_end', false)
+      .not('dunning_next_attempt_at', 'is', null)
+      .lte('dunning_next_attempt_at', now.toISOString())
+      .order('dunning_next_attempt_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as SubscriptionRecord[];
+  }
+
+  async updateState(
+    subscriptionId: string,
+    state: {
+      status: SubscriptionStatus;
+      startedAt: string | null;
+      attempts: number;
+      nextAttemptAt: string | null;
+    },
+  ): Promise<SubscriptionRecord | null> {
+    const { data, error } = await this.client
+      .from('subscriptions')
+      .update({
+        status: state.status,
+        dunning_started_at: state.startedAt,
+        dunning_attempts: state.attempts,
+        dunning_next_attempt_at: state.nextAttemptAt,
+      })
+      .eq('id', subscriptionId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as SubscriptionRecord | null;
+  }
+
+  async insertAttempt(payload: {
+    subscriptionId: string;
+    userId: string;
+    attempt: number;
+    gateway: PaymentGateway;
+    amountCents: number;
+    success: boolean;
+    error?: string | null;
+    resultingStatus: SubscriptionStatus;
+  }): Promise<SubscriptionDunningAttemptRecord | null> {
+    const { data, error } = await this.client
+      .from('subscription_dunning_attempts')
+      .insert({
+        subscription_id: payload.subscriptionId,
+        user_id: payload.userId,
+        attempt: payload.attempt,
+        gateway: payload.gateway,
+        amount_cents: payload.amountCents,
+        success: payload.success,
+        error: payload.error ?? null,
+        resulting_status: payload.resultingStatus,
+      })
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as SubscriptionDunningAttemptRecord | null;
+  }
+}
@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SubscriptionPauseRecord, SubscriptionRecord, SubscriptionStatus } from '../domain/types';
+
+export class SubscriptionPauseRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async countSince(userId: string, since: Date): Promise<number> {
+    const { count, error } = await this.client
+      .from('subscription_pauses')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('started_at', since.toISOString());
+
+    if (error) {
+      throw error;
+    }
+
+    return count ?? 0;
+  }
+
+  async findOpenBySubscription(subscriptionId: string): Promise<SubscriptionPauseRecord | null> {
+    const { data, error } = await this.client
+      .from('subscription_pauses')
+      .select('*')
+      .eq('subscription_id', subscriptionId)
+      .is('resumed_at', null)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as SubscriptionPauseRecord | null;
+  }
+
+  /**
+   * Paused subscriptions whose scheduled resume date has passed
+   */
+  async findDueResumes(now: Date = new Date()): Promise<SubscriptionRecord[]> {
+    const { data, error } = await this.client
+      .from('subscriptions')
+      .select('*')
+      .eq('status', 'paused')
+      .not('pause_ends_at', 'is', null)
+      .lte('pause_ends_at', now.toISOString())
+      .order('pause_ends_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as SubscriptionRecord[];
+  }
+
+  async insert(payload: {
+    subscriptionId: string;
+    userId: string;
+    startedAt: string;
+    scheduledEndAt: string;
+    extendedDays: number;
+  }): Promise<SubscriptionPauseRecord | null> {
+    const { data, error } = await this.client
+      .from('subscription_pauses')
+      .insert({
+        subscription_id: payload.subscriptionId,
+        user_id: payload.userId,
+        started_at: payload.startedAt,
+        scheduled_end_at: payload.scheduledEndAt,
+        extended_days: payload.extendedDays,
+      })
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as SubscriptionPauseRecord | null;
+  }
+
+  async close(pauseId: string, resumedAt: string, extendedDays: number): Promise<void> {
+    const { error } = await this.client
+      .from('subscription_pauses')
+      .update({ resumed_at: resumedAt, extended_days: extendedDays })
+      .eq('id', pauseId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async updateState(
+    subscriptionId: string,
+    state: {
+      status: SubscriptionStatus;
+      pausedAt: string | null;
+      pauseEndsAt: string | null;
+      currentPeriodEnd: string | null;
+    },
+  ): Promise<SubscriptionRecord | null> {
+    const { data, error } = await this.client
+      .from('subscriptions')
+      .update({
+        status: state.status,
+        paused_at: state.pausedAt,
+        pause_ends_at: state.pauseEndsAt,
+        current_period_end: state.currentPeriodEnd,
+      })
+      .eq('id', subscriptionId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data as SubscriptionRecord | null;
+  }
+}
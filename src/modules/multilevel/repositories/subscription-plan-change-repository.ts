@@ -0,0 +1,75 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PaymentGateway, SubscriptionRecord, SubscriptionType } from '../domain/types';
+
+export class SubscriptionPlanChangeRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Claim a plan change under a lock on the subscription. Returns null when the subscription is no
+   * longer on the plan the change was priced from, or another change is still pending.
+   */
+  async claim(payload: {
+    subscriptionId: string;
+    fromPlanId: string | null;
+    toPlanId: string;
+    fromSubscriptionType: SubscriptionType;
+    toSubscriptionType: SubscriptionType;
+    creditCents: number;
+    chargeCents: number;
+    amountDueCents: number;
+    currency: string;
+    periodEnd: string | null;
+  }): Promise<string | null> {
+    const { data, error } = await this.client.rpc('claim_subscription_plan_change', {
+      p_subscription_id: payload.subscriptionId,
+      p_from_plan_id: payload.fromPlanId,
+      p_to_plan_id: payload.toPlanId,
+      p_from_subscription_type: payload.fromSubscriptionType,
+      p_to_subscription_type: payload.toSubscriptionType,
+      p_credit_cents: payload.creditCents,
+      p_charge_cents: payload.chargeCents,
+      p_amount_due_cents: payload.amountDueCents,
+      p_currency: payload.currency,
+      p_period_end: payload.periodEnd,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as string | null) ?? null;
+  }
+
+  /**
+   * Move the subscription to the new plan, record the payment for the difference and complete the
+   * change, all in one transaction
+   */
+  async complete(
+    id: string,
+    payload: { gateway: PaymentGateway | null; gatewayRef: string | null },
+  ): Promise<SubscriptionRecord | null> {
+    const { data, error } = await this.client.rpc('complete_subscription_plan_change', {
+      p_change_id: id,
+      p_gateway: payload.gateway,
+      p_gateway_ref: payload.gatewayRef,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as SubscriptionRecord | null) ?? null;
+  }
+
+  async markFailed(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('subscription_plan_changes')
+      .update({ status: 'failed' })
+      .eq('id', id)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw error;
+    }
+  }
+}
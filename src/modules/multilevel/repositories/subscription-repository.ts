@@ -81,7 +81,10 @@ export class SubscriptionRepository {
     planId?: string | null;
     status: SubscriptionStatus;
     periodEnd: string | null;
-    gateway: 'stripe' | 'paypal' | 'wallet';
+    /** Start of the period a payment opens, with the amount paid for it */
+    periodStart?: string | null;
+    periodPaidCents?: number;
+    gateway: 'stripe' | 'paypal' | 'wallet' | 'mercadopago';
     defaultPaymentMethodId?: string | null;
     cancelAtPeriodEnd?: boolean;
   }) {
@@ -99,6 +102,18 @@ export class SubscriptionRepository {
       ...(payload.defaultPaymentMethodId !== undefined && {
         default_payment_method_id: payload.defaultPaymentMethodId,
       }),
+      ...(payload.periodStart !== undefined && {
+        current_period_start: payload.periodStart,
+      }),
+      ...(payload.periodPaidCents !== undefined && {
+        current_period_paid_cents: payload.periodPaidCents,
+      }),
+      // A confirmed payment ends any dunning cycle
+      ...(payload.status === 'active' && {
+        dunning_started_at: null,
+        dunning_attempts: 0,
+        dunning_next_attempt_at: null,
+      }),
     };
 
     // ✅ IMPORTANT: MLM and Affiliate subscriptions are mutually exclusive
@@ -206,6 +221,7 @@ export class SubscriptionRepository {
       currentPeriodEnd?: string | null;
       cancelAtPeriodEnd?: boolean;
       defaultPaymentMethodId?: string | null;
+      subscriptionType?: SubscriptionType;
     } = {},
   ) {
     const updates: Record<string, unknown> = {
@@ -228,6 +244,10 @@ export class SubscriptionRepository {
       updates.default_payment_method_id = options.defaultPaymentMethodId ?? null;
     }
 
+    if (options.subscriptionType) {
+      updates.subscription_type = options.subscriptionType;
+    }
+
     // Find latest subscription row id, then update by id to avoid multi-row update errors
     const { data: existing, error: existingError } = await this.client
       .from('subscriptions')
@@ -1,5 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { WalletRecord, WalletReason } from '../domain/types';
+import type { WalletBalanceRecord, WalletRecord, WalletReason } from '../domain/types';
 import { randomUUID as _randomUUID } from 'crypto';
 
 export class WalletRepository {
@@ -19,6 +19,37 @@ export class WalletRepository {
     return data as WalletRecord | null;
   }
 
+  /**
+   * Primary wallet balance followed by the balances held in other currencies
+   */
+  async findBalances(userId: string, fallbackCurrency: string): Promise<WalletBalanceRecord[]> {
+    const [wallet, secondary] = await Promise.all([
+      this.findByUserId(userId),
+      this.client
+        .from('wallet_balances')
+        .select('currency, balance_cents')
+        .eq('user_id', userId)
+        .order('currency', { ascending: true }),
+    ]);
+
+    if (secondary.error) {
+      throw secondary.error;
+    }
+
+    const primary: WalletBalanceRecord = {
+      currency: wallet?.currency ?? fallbackCurrency,
+      balance_cents: wallet?.balance_cents ?? 0,
+      primary: true,
+    };
+
+    return [
+      primary,
+      ...(secondary.data ?? [])
+        .filter((row) => row.currency !== primary.currency)
+        .map((row) => ({ currency: row.currency, balance_cents: Number(row.balance_cents ?? 0), primary: false })),
+    ];
+  }
+
   async listTransactions(userId: string, limit = 50) {
     const { data, error } = await this.client
       .from('wallet_txns')
@@ -54,7 +85,7 @@ export class WalletRepository {
   async addTransaction(
     userId: string,
     deltaCents: number,
-    reason: WalletReason | 'admin_adjustment',
+    reason: WalletReason,
     meta?: Record<string, unknown>
   ): Promise<{ transactionId: string; newBalanceCents: number }> {
     console.log(`[WalletRepository] Adding transaction for user ${userId}, delta: ${deltaCents}, reason: ${reason}`);
@@ -86,6 +117,41 @@ export class WalletRepository {
     }
   }
 
+  /**
+   * Move a balance held in a currency other than the wallet currency.
+   * The database function locks the balance row and rejects overdrafts.
+   */
+  async addCurrencyTransaction(
+    userId: string,
+    currency: string,
+    deltaCents: number,
+    reason: WalletReason,
+    meta?: Record<string, unknown>
+  ): Promise<{ transactionId: string; newBalanceCents: number }> {
+    console.log(`[WalletRepository] Adding ${currency} transaction for user ${userId}, delta: ${deltaCents}, reason: ${reason}`);
+
+    const { data, error } = await this.client.rpc('add_wallet_currency_transaction', {
+      p_user_id: userId,
+      p_currency: currency,
+      p_delta_cents: Math.floor(deltaCents),
+      p_reason: reason,
+      p_meta: (meta ?? {}) as unknown,
+    });
+
+    if (error) {
+      if (error.message?.includes('Insufficient balance')) {
+        throw new Error('INSUFFICIENT_BALANCE');
+      }
+      console.error(`[WalletRepository] ${currency} transaction failed:`, error);
+      throw error;
+    }
+
+    return {
+      transactionId: data.transaction_id,
+      newBalanceCents: data.new_balance_cents,
+    };
+  }
+
   /**
    * Debit wallet with atomic balance check
    * This prevents double-spending by locking the wallet row during the operation
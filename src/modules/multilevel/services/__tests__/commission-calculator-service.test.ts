@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CommissionCalculatorService } from '../commission-calculator-service';
+
+const mockSettings = {
+  currency: 'USD',
+  networkCommissionDepth: 3,
+};
+
+vi.mock('@/modules/app-settings/services/app-settings-service', () => ({
+  getAppSettings: vi.fn(() => Promise.resolve(mockSettings)),
+}));
+
+vi.mock('@/lib/helpers/settings-helper', () => ({
+  getCachedPhaseLevels: vi.fn(() =>
+    Promise.resolve([
+      { level: 0, commissionRate: 0.08, subscriptionDiscountRate: 0 },
+      { level: 1, commissionRate: 0.10, subscriptionDiscountRate: 0 },
+      { level: 2, commissionRate: 0.05, subscriptionDiscountRate: 0 },
+      { level: 3, commissionRate: 0.02, subscriptionDiscountRate: 0 },
+    ]),
+  ),
+}));
+
+vi.mock('../seller-commission-service', () => ({
+  SellerCommissionService: vi.fn().mockImplementation(() => ({
+    calculateAndApplySellerCommission: vi.fn().mockResolvedValue(0),
+  })),
+}));
+
+const sponsors: Record<string, string | null> = {
+  buyer: 'sponsor-1',
+  'sponsor-1': 'sponsor-2',
+  'sponsor-2': 'sponsor-3',
+  'sponsor-3': 'sponsor-4',
+  'sponsor-4': null,
+};
+
+const fxRates: Record<string, number> = {};
+
+vi.mock('../fx-rate-service', () => ({
+  FxRateService: vi.fn().mockImplementation(function () {
+    return {
+      convert: vi.fn((amountCents: number, from: string, to: string) => {
+        const rate = from === to ? 1 : fxRates[`${from}/${to}`];
+        if (!rate) {
+          return Promise.reject(new Error(`No FX rate for ${from}/${to}`));
+        }
+        return Promise.resolve({
+          amountCents: Math.round(amountCents * rate),
+          currency: to,
+          originalAmountCents: amountCents,
+          originalCurrency: from,
+          rate,
+        });
+      }),
+    };
+  }),
+}));
+
+describe('CommissionCalculatorService', () => {
+  let insertedRows: Record<string, unknown>[];
+  let subscriptionStatuses: Record<string, string>;
+  let walletCurrencies: Record<string, string>;
+  let orderRow: Record<string, unknown> | null;
+  let client: SupabaseClient;
+
+  beforeEach(() => {
+    insertedRows = [];
+    subscriptionStatuses = {
+      'sponsor-1': 'active',
+      'sponsor-2': 'active',
+      'sponsor-3': 'active',
+      'sponsor-4': 'active',
+    };
+    walletCurrencies = {};
+    orderRow = null;
+    Object.keys(fxRates).forEach((key) => delete fxRates[key]);
+    mockSettings.networkCommissionDepth = 3;
+
+    client = {
+      from: vi.fn((table: string) => {
+        let filterId: string | null = null;
+        const builder = {
+          select: vi.fn(() => builder),
+          eq: vi.fn((_column: string, value: string) => {
+            filterId = value;
+            return builder;
+          }),
+          delete: vi.fn(() => builder),
+          single: vi.fn(() => {
+            if (table === 'orders') {
+              return Promise.resolve({ data: orderRow, error: null });
+            }
+            return Promise.resolve({
+              data: table === 'profiles' ? { referred_by: sponsors[filterId ?? ''] ?? null } : null,
+              error: null,
+            });
+          }),
+          maybeSingle: vi.fn(() => {
+            if (table === 'wallets') {
+              const currency = walletCurrencies[filterId ?? ''];
+              return Promise.resolve({ data: currency ? { currency } : null, error: null });
+            }
+            return Promise.resolve({
+              data: table === 'subscriptions' && filterId && subscriptionStatuses[filterId]
+                ? { status: subscriptionStatuses[filterId] }
+                : null,
+              error: null,
+            });
+          }),
+          insert: vi.fn((rows: Record<string, unknown>[]) => {
+            insertedRows.push(...rows);
+            return Promise.resolve({ error: null });
+          }),
+        };
+        return builder;
+      }),
+    } as unknown as SupabaseClient;
+  });
+
+  it('creates one network commission per upline level using phase level rates', async () => {
+    const service = new CommissionCalculatorService(client);
+
+    const commissions = await service.calculateAndCreateCommissions('buyer', 10000, {
+      orderId: 'order-1',
+      orderMetadata: {},
+    });
+
+    expect(commissions).toEqual([
+      { userId: 'sponsor-1', memberId: 'buyer', level: 1, amountCents: 1000 },
+      { userId: 'sponsor-2', memberId: 'buyer', level: 2, amountCents: 500 },
+      { userId: 'sponsor-3', memberId: 'buyer', level: 3, amountCents: 200 },
+    ]);
+    expect(insertedRows).toHaveLength(3);
+    expect(insertedRows[0]).toMatchObject({
+      user_id: 'sponsor-1',
+      member_id: 'buyer',
+      currency: 'USD',
+      level: 1,
+      metadata: expect.objectContaining({
+        commission_type: 'network_commission',
+        order_id: 'order-1',
+      }),
+    });
+  });
+
+  it('recalculates an order on its stored commission base', async () => {
+    orderRow = {
+      user_id: 'buyer',
+      total_cents: 10500,
+      commission_base_cents: 10000,
+      currency: 'USD',
+      status: 'paid',
+      created_at: null,
+    };
+    const service = new CommissionCalculatorService(client);
+
+    await service.recalculateOrderCommissions('order-1');
+
+    expect(insertedRows.map((row) => row.amount_cents)).toEqual([1000, 500, 200]);
+  });
+
+  it('skips upline members without an active subscription', async () => {
+    subscriptionStatuses['sponsor-2'] = 'past_due';
+    const service = new CommissionCalculatorService(client);
+
+    const commissions = await service.calculateAndCreateCommissions('buyer', 10000, { orderMetadata: {} });
+
+    expect(commissions.map((entry) => entry.userId)).toEqual(['sponsor-1', 'sponsor-3']);
+  });
+
+  it('does not create network commissions when the depth is zero', async () => {
+    mockSettings.networkCommissionDepth = 0;
+    const service = new CommissionCalculatorService(client);
+
+    const commissions = await service.calculateAndCreateCommissions('buyer', 10000, { orderMetadata: {} });
+
+    expect(commissions).toEqual([]);
+    expect(insertedRows).toEqual([]);
+  });
+
+  it('converts commissions from the sale currency into each sponsor payout currency', async () => {
+    walletCurrencies['sponsor-1'] = 'USD';
+    walletCurrencies['sponsor-2'] = 'COP';
+    fxRates['MXN/USD'] = 0.05;
+    fxRates['MXN/COP'] = 200;
+    const service = new CommissionCalculatorService(client);
+
+    const commissions = await service.calculateAndCreateCommissions('buyer', 200000, {
+      orderMetadata: {},
+      currency: 'MXN',
+    });
+
+    expect(commissions.map((entry) => entry.amountCents)).toEqual([1000, 2000000, 200]);
+    expect(insertedRows[0]).toMatchObject({
+      user_id: 'sponsor-1',
+      amount_cents: 1000,
+      currency: 'USD',
+      sale_currency: 'MXN',
+      sale_amount_cents: 20000,
+      fx_rate: 0.05,
+    });
+    expect(insertedRows[1]).toMatchObject({ user_id: 'sponsor-2', currency: 'COP', fx_rate: 200 });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CommissionClawbackService } from '../commission-clawback-service';
+
+const repository = {
+  findOrderById: vi.fn(),
+  findOrderByGatewayReference: vi.fn(),
+  claimClawbacks: vi.fn(),
+  markOrderRefunded: vi.fn(),
+};
+
+const wallet = {
+  addFunds: vi.fn(),
+};
+
+const notifications = {
+  sendClawbackEmail: vi.fn(),
+};
+
+const volumes = {
+  reverseOrder: vi.fn(),
+};
+
+vi.mock('../../repositories/commission-clawback-repository', () => ({
+  CommissionClawbackRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+vi.mock('../wallet-service', () => ({
+  WalletService: vi.fn().mockImplementation(function () {
+    return wallet;
+  }),
+}));
+
+vi.mock('../commission-notification-service', () => ({
+  CommissionNotificationService: vi.fn().mockImplementation(function () {
+    return notifications;
+  }),
+}));
+
+vi.mock('../volume-service', () => ({
+  VolumeService: vi.fn().mockImplementation(function () {
+    return volumes;
+  }),
+}));
+
+const order = {
+  id: 'order-1',
+  user_id: 'buyer',
+  status: 'paid',
+  total_cents: 10000,
+  currency: 'USD',
+};
+
+const claims = [
+  {
+    clawback_id: 'cb-1',
+    user_id: 'sponsor-1',
+    source_type: 'network_commission',
+    source_id: 'nc-1',
+    source_reason: null,
+    voided_cents: 400,
+    debited_cents: 600,
+  },
+  {
+    clawback_id: 'cb-2',
+    user_id: 'seller',
+    source_type: 'wallet_txn',
+    source_id: 'txn-1',
+    source_reason: 'sale_commission',
+    voided_cents: 0,
+    debited_cents: 600,
+  },
+];
+
+describe('CommissionClawbackService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    repository.findOrderById.mockResolvedValue(order);
+    repository.findOrderByGatewayReference.mockResolvedValue(order);
+    repository.claimClawbacks.mockResolvedValue(claims);
+    wallet.addFunds.mockResolvedValue(undefined);
+  });
+
+  it('claims the reversals for the order and debits the paid-out part from the wallet', async () => {
+    const service = new CommissionClawbackService({} as SupabaseClient);
+
+    const result = await service.clawbackOrder({ gatewayRef: 'cs_123', reason: 'refund' });
+
+    expect(repository.claimClawbacks).toHaveBeenCalledWith({
+      orderId: 'order-1',
+      reason: 'refund',
+      ratio: 1,
+      externalReference: null,
+    });
+    expect(wallet.addFunds).toHaveBeenCalledWith(
+      'sponsor-1',
+      -600,
+      'commission_clawback',
+      undefined,
+      undefined,
+      expect.objectContaining({ order_id: 'order-1', clawback_id: 'cb-1', reverses_commission_id: 'nc-1' }),
+    );
+    expect(wallet.addFunds).toHaveBeenCalledWith(
+      'seller',
+      -600,
+      'commission_clawback',
+      undefined,
+      undefined,
+      expect.objectContaining({ order_id: 'order-1', reverses_transaction_id: 'txn-1', reverses_reason: 'sale_commission' }),
+    );
+    expect(result.totalReversedCents).toBe(1600);
+    expect(result.fullyRefunded).toBe(true);
+    expect(repository.markOrderRefunded).toHaveBeenCalledWith('order-1');
+    expect(notifications.sendClawbackEmail).toHaveBeenCalledTimes(2);
+  });
+
+  it('claims proportionally to the cumulative refunded amount', async () => {
+    repository.claimClawbacks.mockResolvedValue([{ ...claims[0], voided_cents: 250, debited_cents: 0 }]);
+    const service = new CommissionClawbackService({} as SupabaseClient);
+
+    const result = await service.clawbackOrder({ orderId: 'order-1', reason: 'refund', refundedCents: 2500 });
+
+    expect(repository.claimClawbacks).toHaveBeenCalledWith(expect.objectContaining({ ratio: 0.25 }));
+    expect(result.adjustments).toEqual([
+      { userId: 'sponsor-1', sourceType: 'network_commission', sourceId: 'nc-1', voidedCents: 250, debitedCents: 0 },
+    ]);
+    expect(wallet.addFunds).not.toHaveBeenCalled();
+    expect(result.fullyRefunded).toBe(false);
+    expect(volumes.reverseOrder).toHaveBeenCalledWith('order-1', 0.25);
+    expect(repository.markOrderRefunded).not.toHaveBeenCalled();
+  });
+
+  it('does not reverse twice when the same event is processed again', async () => {
+    repository.claimClawbacks.mockResolvedValue([]);
+    const service = new CommissionClawbackService({} as SupabaseClient);
+
+    const result = await service.clawbackOrder({ orderId: 'order-1', reason: 'chargeback' });
+
+    expect(result.adjustments).toEqual([]);
+    expect(wallet.addFunds).not.toHaveBeenCalled();
+    expect(notifications.sendClawbackEmail).not.toHaveBeenCalled();
+  });
+
+  it('keeps debiting the other claims when one wallet debit fails', async () => {
+    wallet.addFunds.mockRejectedValueOnce(new Error('wallet unavailable'));
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const service = new CommissionClawbackService({} as SupabaseClient);
+
+    const result = await service.clawbackOrder({ orderId: 'order-1', reason: 'refund' });
+
+    expect(wallet.addFunds).toHaveBeenCalledTimes(2);
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('cb-1'), expect.any(Error));
+    expect(result.totalReversedCents).toBe(1600);
+    errors.mockRestore();
+  });
+});
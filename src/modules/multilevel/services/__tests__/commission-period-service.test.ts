@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CommissionPeriodError,
+  CommissionPeriodService,
+  resolvePeriodEnd,
+  toCommissionPeriodCsv,
+} from '../commission-period-service';
+import type { CommissionPeriodRecord, CommissionStatementRecord } from '../../domain/types';
+
+const periods = {
+  closePeriod: vi.fn(),
+  findPeriod: vi.fn(),
+  findPeriodsByIds: vi.fn(),
+  listPeriods: vi.fn(),
+  listStatements: vi.fn(),
+  listLines: vi.fn(),
+  listMembers: vi.fn(),
+};
+
+vi.mock('../../repositories/commission-period-repository', () => ({
+  CommissionPeriodRepository: vi.fn().mockImplementation(function () {
+    return periods;
+  }),
+}));
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const periodRecord = (overrides: Partial<CommissionPeriodRecord> = {}): CommissionPeriodRecord => ({
+  id: 'period-1',
+  period: '2026-02',
+  starts_at: '2026-02-01T00:00:00.000Z',
+  ends_at: '2026-03-01T00:00:00.000Z',
+  status: 'closed',
+  statement_count: 1,
+  member_count: 1,
+  totals: { USD: 4500 },
+  closed_by: 'admin',
+  closed_at: now.toISOString(),
+  created_at: now.toISOString(),
+  updated_at: now.toISOString(),
+  ...overrides,
+});
+
+const statementRecord = (overrides: Partial<CommissionStatementRecord> = {}): CommissionStatementRecord => ({
+  id: 'statement-1',
+  period_id: 'period-1',
+  user_id: 'ana',
+  currency: 'USD',
+  retail_cents: 3000,
+  seller_cents: 1000,
+  subscription_cents: 500,
+  phase_bonus_cents: 1000,
+  adjustment_cents: -1000,
+  total_cents: 4500,
+  line_count: 5,
+  created_at: now.toISOString(),
+  ...overrides,
+});
+
+describe('CommissionPeriodService', () => {
+  let service: CommissionPeriodService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CommissionPeriodService({} as SupabaseClient);
+    periods.closePeriod.mockResolvedValue(periodRecord());
+    periods.listMembers.mockResolvedValue([{ id: 'ana', name: 'Ana', email: 'ana@example.com' }]);
+  });
+
+  it('closes finished months only', async () => {
+    await expect(service.closePeriod('2026-02', 'admin', now)).resolves.toMatchObject({ status: 'closed' });
+    expect(periods.closePeriod).toHaveBeenCalledWith('2026-02', 'admin');
+
+    await expect(service.closePeriod('2026-03', 'admin', now)).rejects.toMatchObject({ code: 'PERIOD_NOT_ENDED' });
+    await expect(service.closePeriod('2026-13', 'admin', now)).rejects.toMatchObject({ code: 'INVALID_PERIOD' });
+    expect(periods.closePeriod).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes the previous month from the cron and maps database errors', async () => {
+    await service.closePreviousPeriod(new Date('2026-01-01T02:00:00.000Z'));
+    expect(periods.closePeriod).toHaveBeenCalledWith('2025-12', null);
+
+    periods.closePeriod.mockRejectedValueOnce({ message: 'commission_period_not_ended: 2026-02 has not ended' });
+    await expect(service.closePeriod('2026-02', 'admin', now)).rejects.toBeInstanceOf(CommissionPeriodError);
+  });
+
+  it('returns statements of closed periods only', async () => {
+    periods.findPeriod.mockResolvedValueOnce(periodRecord({ status: 'open' }));
+    await expect(service.getStatement('2026-02', 'ana')).rejects.toMatchObject({ code: 'PERIOD_NOT_CLOSED' });
+
+    periods.findPeriod.mockResolvedValueOnce(periodRecord());
+    periods.listStatements.mockResolvedValueOnce([]);
+    await expect(service.getStatement('2026-02', 'ben')).rejects.toMatchObject({ code: 'STATEMENT_NOT_FOUND' });
+
+    periods.findPeriod.mockResolvedValueOnce(periodRecord());
+    periods.listStatements.mockResolvedValueOnce([statementRecord()]);
+    periods.listLines.mockResolvedValueOnce([{ id: 'line-1', category: 'retail', amount_cents: 3000 }]);
+
+    const statement = await service.getStatement('2026-02', 'ana');
+
+    expect(periods.listStatements).toHaveBeenLastCalledWith({ periodId: 'period-1', userId: 'ana' });
+    expect(statement).toMatchObject({
+      period: { period: '2026-02' },
+      member: { name: 'Ana' },
+      statements: [expect.objectContaining({ total_cents: 4500 })],
+      lines: [expect.objectContaining({ category: 'retail' })],
+    });
+  });
+
+  it('labels member statements with their period, newest first', async () => {
+    periods.listStatements.mockResolvedValueOnce([
+      statementRecord({ id: 'jan', period_id: 'period-0' }),
+      statementRecord({ id: 'feb', period_id: 'period-1' }),
+    ]);
+    periods.findPeriodsByIds.mockResolvedValueOnce([periodRecord(), periodRecord({ id: 'period-0', period: '2026-01' })]);
+
+    const statements = await service.listMemberStatements('ana');
+
+    expect(statements.map((statement) => [statement.id, statement.period])).toEqual([
+      ['feb', '2026-02'],
+      ['jan', '2026-01'],
+    ]);
+  });
+});
+
+describe('commission period helpers', () => {
+  it('resolves the exclusive end of a month', () => {
+    expect(resolvePeriodEnd('2026-02').toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(resolvePeriodEnd('2026-12').toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('exports statement totals in currency units', () => {
+    const csv = toCommissionPeriodCsv([
+      { ...statementRecord(), member: { id: 'ana', name: '=Ana', email: 'ana@example.com' } },
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      'user_id,name,email,currency,retail,seller,subscription,phase_bonus,adjustments,total,lines',
+      `ana,'=Ana,ana@example.com,USD,30,10,5,10,-10,45,5`,
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FxRateService, FxRateNotFoundError } from '../fx-rate-service';
+
+const storedRates: Record<string, number> = {};
+
+const repository = {
+  findLatestRate: vi.fn((base: string, quote: string) => {
+    const rate = storedRates[`${base}/${quote}`];
+    return Promise.resolve(rate ? { base_currency: base, quote_currency: quote, rate } : null);
+  }),
+  listRates: vi.fn(),
+  insertRate: vi.fn(),
+};
+
+vi.mock('../../repositories/fx-rate-repository', () => ({
+  FxRateRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+vi.mock('@/modules/app-settings/services/app-settings-service', () => ({
+  getAppSettings: vi.fn(() => Promise.resolve({ currency: 'USD' })),
+}));
+
+describe('FxRateService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.keys(storedRates).forEach((key) => delete storedRates[key]);
+  });
+
+  it('does not look up a rate for the same currency', async () => {
+    const conversion = await new FxRateService({} as SupabaseClient).convert(1234, 'usd', 'USD');
+
+    expect(conversion).toEqual({
+      amountCents: 1234,
+      currency: 'USD',
+      originalAmountCents: 1234,
+      originalCurrency: 'USD',
+      rate: 1,
+    });
+    expect(repository.findLatestRate).not.toHaveBeenCalled();
+  });
+
+  it('uses the direct rate and falls back to the inverse of the opposite pair', async () => {
+    storedRates['USD/MXN'] = 17.5;
+    const service = new FxRateService({} as SupabaseClient);
+
+    const direct = await service.convert(1000, 'USD', 'MXN');
+    const inverse = await service.convert(17500, 'MXN', 'USD');
+
+    expect(direct.amountCents).toBe(17500);
+    expect(inverse.amountCents).toBe(1000);
+    expect(inverse.rate).toBeCloseTo(1 / 17.5);
+  });
+
+  it('crosses through the base currency when no pair rate exists', async () => {
+    storedRates['USD/MXN'] = 20;
+    storedRates['USD/COP'] = 4000;
+
+    const conversion = await new FxRateService({} as SupabaseClient).convert(1000, 'MXN', 'COP');
+
+    expect(conversion.rate).toBeCloseTo(200);
+    expect(conversion.amountCents).toBe(200000);
+  });
+
+  it('throws when no rate is configured', async () => {
+    await expect(new FxRateService({} as SupabaseClient).getRate('MXN', 'PEN')).rejects.toBeInstanceOf(
+      FxRateNotFoundError,
+    );
+  });
+});
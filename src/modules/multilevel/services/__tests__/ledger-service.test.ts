@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LedgerService, LedgerImbalanceError } from '../ledger-service';
+
+const repository = {
+  postJournal: vi.fn(),
+  listAccountBalances: vi.fn(),
+  listWalletBalances: vi.fn(),
+  sumUnpaidCommissions: vi.fn(),
+};
+
+vi.mock('../../repositories/ledger-repository', () => ({
+  LedgerRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+describe('LedgerService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository.postJournal.mockResolvedValue('entry-1');
+  });
+
+  it('credits the user wallet against the platform float for recharges', async () => {
+    const service = new LedgerService({} as SupabaseClient);
+
+    await service.recordWalletTransaction({
+      transactionId: 'txn-1',
+      userId: 'user-1',
+      deltaCents: 2500,
+      reason: 'recharge',
+      currency: 'USD',
+    });
+
+    expect(repository.postJournal).toHaveBeenCalledWith({
+      referenceType: 'wallet_txn',
+      referenceId: 'txn-1',
+      memo: 'recharge',
+      lines: [
+        { accountCode: 'platform_float', currency: 'USD', fxRate: undefined, debitCents: 2500, creditCents: 0 },
+        {
+          accountCode: 'user_wallet',
+          userId: 'user-1',
+          currency: 'USD',
+          fxRate: undefined,
+          debitCents: 0,
+          creditCents: 2500,
+        },
+      ],
+    });
+  });
+
+  it('debits the user wallet for withdrawals and moves funds into payouts in transit', async () => {
+    const service = new LedgerService({} as SupabaseClient);
+
+    await service.recordWalletTransaction({
+      transactionId: 'txn-2',
+      userId: 'user-1',
+      deltaCents: -1000,
+      reason: 'withdrawal',
+      currency: 'MXN',
+      fxRate: 17.5,
+    });
+
+    expect(repository.postJournal.mock.calls[0][0].lines).toEqual([
+      { accountCode: 'payouts_in_transit', currency: 'MXN', fxRate: 17.5, debitCents: 0, creditCents: 1000 },
+      { accountCode: 'user_wallet', userId: 'user-1', currency: 'MXN', fxRate: 17.5, debitCents: 1000, creditCents: 0 },
+    ]);
+  });
+
+  it('rejects unbalanced journal entries before reaching the database', async () => {
+    const service = new LedgerService({} as SupabaseClient);
+
+    await expect(
+      service.postJournal({
+        referenceType: 'manual',
+        referenceId: 'adj-1',
+        lines: [
+          { accountCode: 'platform_float', currency: 'USD', debitCents: 500, creditCents: 0 },
+          { accountCode: 'platform_revenue', currency: 'USD', debitCents: 0, creditCents: 400 },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(LedgerImbalanceError);
+    expect(repository.postJournal).not.toHaveBeenCalled();
+  });
+
+  it('requires each currency to balance on its own', async () => {
+    const service = new LedgerService({} as SupabaseClient);
+
+    await expect(
+      service.postJournal({
+        referenceType: 'manual',
+        referenceId: 'adj-2',
+        lines: [
+          { accountCode: 'platform_float', currency: 'USD', debitCents: 500, creditCents: 0 },
+          { accountCode: 'platform_revenue', currency: 'MXN', debitCents: 0, creditCents: 500 },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(LedgerImbalanceError);
+  });
+
+  it('reports a balanced ledger when wallets and unpaid commissions match', async () => {
+    repository.listAccountBalances.mockResolvedValue([
+      { account_id: 'a1', code: 'platform_float', user_id: null, currency: 'USD', normal_balance: 'debit', debit_cents: 5000, credit_cents: 0 },
+      { account_id: 'a2', code: 'user_wallet', user_id: 'user-1', currency: 'USD', normal_balance: 'credit', debit_cents: 1000, credit_cents: 5000 },
+      { account_id: 'a3', code: 'platform_revenue', user_id: null, currency: 'USD', normal_balance: 'credit', debit_cents: 300, credit_cents: 1000 },
+      { account_id: 'a4', code: 'commissions_payable', user_id: null, currency: 'USD', normal_balance: 'credit', debit_cents: 0, credit_cents: 300 },
+      { account_id: 'a5', code: 'platform_float', user_id: null, currency: 'MXN', normal_balance: 'debit', debit_cents: 9000, credit_cents: 0 },
+      { account_id: 'a6', code: 'user_wallet', user_id: 'user-1', currency: 'MXN', normal_balance: 'credit', debit_cents: 0, credit_cents: 9000 },
+    ]);
+    repository.listWalletBalances.mockResolvedValue([
+      { user_id: 'user-1', balance_cents: 4000, currency: 'USD' },
+      { user_id: 'user-1', balance_cents: 9000, currency: 'MXN' },
+    ]);
+    repository.sumUnpaidCommissions.mockResolvedValue({ USD: 300 });
+
+    const report = await new LedgerService({} as SupabaseClient).getReconciliationReport();
+    const [mxn, usd] = report.currencies;
+
+    expect(usd.currency).toBe('USD');
+    expect(usd.totalDebitsCents).toBe(6300);
+    expect(usd.totalCreditsCents).toBe(6300);
+    expect(usd.accountTotals.user_wallet).toBe(4000);
+    expect(usd.platformLiabilityCents).toBe(4300);
+    expect(mxn.walletBalancesCents).toBe(9000);
+    expect(mxn.balanced).toBe(true);
+    expect(report.walletMismatches).toEqual([]);
+    expect(report.balanced).toBe(true);
+  });
+
+  it('flags wallets whose stored balance differs from the ledger', async () => {
+    repository.listAccountBalances.mockResolvedValue([
+      { account_id: 'a1', code: 'platform_float', user_id: null, currency: 'USD', normal_balance: 'debit', debit_cents: 1000, credit_cents: 0 },
+      { account_id: 'a2', code: 'user_wallet', user_id: 'user-1', currency: 'USD', normal_balance: 'credit', debit_cents: 0, credit_cents: 1000 },
+    ]);
+    repository.listWalletBalances.mockResolvedValue([
+      { user_id: 'user-1', balance_cents: 1200, currency: 'USD' },
+      { user_id: 'user-2', balance_cents: 50, currency: 'USD' },
+    ]);
+    repository.sumUnpaidCommissions.mockResolvedValue({});
+
+    const report = await new LedgerService({} as SupabaseClient).getReconciliationReport();
+
+    expect(report.walletMismatches).toEqual([
+      { userId: 'user-1', currency: 'USD', walletBalanceCents: 1200, ledgerBalanceCents: 1000 },
+      { userId: 'user-2', currency: 'USD', walletBalanceCents: 50, ledgerBalanceCents: 0 },
+    ]);
+    expect(report.balanced).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { NetworkCapacityError, NetworkCapacityService, findSpilloverSlot } from '../network-capacity-service';
+
+// Network edges in creation order: [member, network parent]
+let edges: Array<[string, string]> = [];
+let paused = new Set<string>();
+
+const placements = {
+  findMember: vi.fn(),
+  listChildren: vi.fn((parentIds: string[], excludeUserId: string) =>
+    Promise.resolve(
+      edges
+        .filter(([id, parent]) => parentIds.includes(parent) && id !== excludeUserId)
+        .map(([id, parent]) => ({ id, network_parent_id: parent })),
+    ),
+  ),
+  listPausedUserIds: vi.fn((userIds: string[]) => Promise.resolve(new Set(userIds.filter((id) => paused.has(id))))),
+  listDirectMembers: vi.fn(),
+  findSpilloverLeg: vi.fn(),
+  updateSpilloverLeg: vi.fn(),
+  placeUnder: vi.fn(),
+};
+
+vi.mock('../../repositories/network-placement-repository', () => ({
+  NetworkPlacementRepository: vi.fn().mockImplementation(function () {
+    return placements;
+  }),
+}));
+
+vi.mock('@/modules/app-settings/services/app-settings-service', () => ({
+  getAppSettings: vi.fn(),
+}));
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const useSettings = (overrides: Record<string, unknown> = {}) => {
+  vi.mocked(getAppSettings).mockResolvedValue({
+    maxMembersPerLevel: [{ level: 1, maxMembers: 2 }],
+    pausedMembersCountTowardCapacity: true,
+    spilloverStrategy: 'breadth_first',
+    ...overrides,
+  } as never);
+};
+
+describe('NetworkCapacityService.placeMember', () => {
+  let service: NetworkCapacityService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new NetworkCapacityService({} as SupabaseClient);
+    useSettings();
+    paused = new Set();
+    // sponsor is full: ana has one seat left, ben is full with dan and eve
+    edges = [
+      ['ana', 'sponsor'],
+      ['ben', 'sponsor'],
+      ['cy', 'ana'],
+      ['dan', 'ben'],
+      ['eve', 'ben'],
+      ['new', 'sponsor'],
+    ];
+    placements.findMember.mockResolvedValue({
+      id: 'new',
+      referred_by: 'sponsor',
+      placement_parent_id: null,
+      placement_strategy: null,
+    });
+    placements.findSpilloverLeg.mockResolvedValue(null);
+    placements.placeUnder.mockResolvedValue(true);
+  });
+
+  it('keeps members under their enrolling sponsor while level 1 has seats', async () => {
+    edges = [['ana', 'sponsor'], ['new', 'sponsor']];
+
+    const placement = await service.placeMember('new', now);
+
+    expect(placement).toEqual({ parentId: 'sponsor', strategy: null, spilled: false });
+    expect(placements.placeUnder).not.toHaveBeenCalled();
+  });
+
+  it('spills over to the first open seat closest to the sponsor', async () => {
+    const placement = await service.placeMember('new', now);
+
+    expect(placement).toEqual({ parentId: 'ana', strategy: 'breadth_first', spilled: true });
+    expect(placements.placeUnder).toHaveBeenCalledWith(
+      'new',
+      'ana',
+      'breadth_first',
+      { maxSeats: 2, countsPaused: true },
+      now,
+    );
+  });
+
+  it('moves on to the next open seat when another member took the last one first', async () => {
+    placements.placeUnder.mockImplementationOnce(() => {
+      edges = [...edges, ['other', 'ana']];
+      return Promise.resolve(false);
+    });
+
+    const placement = await service.placeMember('new', now);
+
+    expect(placement).toEqual({ parentId: 'cy', strategy: 'breadth_first', spilled: true });
+    expect(placements.placeUnder).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when the seat keeps being taken', async () => {
+    placements.placeUnder.mockResolvedValue(false);
+
+    await expect(service.placeMember('new', now)).rejects.toMatchObject({ code: 'spillover_slot_unavailable' });
+    expect(placements.placeUnder).toHaveBeenCalledTimes(3);
+  });
+
+  it('checks the spillover seat without saving the placement', async () => {
+    const placement = await service.checkPlacement('new');
+
+    expect(placement).toEqual({ parentId: 'ana', strategy: 'breadth_first', spilled: true });
+    expect(placements.placeUnder).not.toHaveBeenCalled();
+  });
+
+  it('balances into the leg with the fewest members', async () => {
+    useSettings({ spilloverStrategy: 'weakest_leg' });
+    edges = [...edges, ['fay', 'ana'], ['gus', 'cy']];
+
+    // ana's leg has ana, cy, fay and gus; ben's leg has ben, dan and eve and ben's own seats are taken
+    const placement = await service.placeMember('new', now);
+
+    expect(placement).toEqual({ parentId: 'dan', strategy: 'weakest_leg', spilled: true });
+  });
+
+  it("places into the sponsor's chosen leg and falls back to breadth first without a choice", async () => {
+    useSettings({ spilloverStrategy: 'sponsor_choice' });
+    placements.findSpilloverLeg.mockResolvedValue('ben');
+
+    await expect(service.placeMember('new', now)).resolves.toEqual({
+      parentId: 'dan',
+      strategy: 'sponsor_choice',
+      spilled: true,
+    });
+
+    placements.findSpilloverLeg.mockResolvedValue(null);
+
+    await expect(service.placeMember('new', now)).resolves.toEqual({
+      parentId: 'ana',
+      strategy: 'breadth_first',
+      spilled: true,
+    });
+  });
+
+  it('rejects members when spillover is disabled unless paused members free a seat', async () => {
+    useSettings({ spilloverStrategy: 'disabled' });
+
+    await expect(service.placeMember('new', now)).rejects.toMatchObject({
+      code: 'sponsor_capacity_reached',
+      sponsorId: 'sponsor',
+      currentCount: 2,
+      maxAllowed: 2,
+    });
+
+    useSettings({ spilloverStrategy: 'disabled', pausedMembersCountTowardCapacity: false });
+    paused = new Set(['ben']);
+
+    await expect(service.placeMember('new', now)).resolves.toEqual({
+      parentId: 'sponsor',
+      strategy: null,
+      spilled: false,
+    });
+  });
+
+  it('never places a member below their own recruits and keeps existing placements', async () => {
+    useSettings({ maxMembersPerLevel: [{ level: 1, maxMembers: 1 }] });
+    edges = [
+      ['ana', 'sponsor'],
+      ['cy', 'ana'],
+      ['new', 'sponsor'],
+      ['own', 'new'],
+    ];
+
+    await expect(service.placeMember('new', now)).resolves.toMatchObject({ parentId: 'cy' });
+
+    placements.findMember.mockResolvedValue({
+      id: 'new',
+      referred_by: 'sponsor',
+      placement_parent_id: 'cy',
+      placement_strategy: 'breadth_first',
+    });
+    placements.placeUnder.mockClear();
+
+    await expect(service.placeMember('new', now)).resolves.toEqual({
+      parentId: 'cy',
+      strategy: 'breadth_first',
+      spilled: true,
+    });
+    expect(placements.placeUnder).not.toHaveBeenCalled();
+  });
+
+  it('only accepts direct members as the spillover leg', async () => {
+    placements.listDirectMembers.mockResolvedValue([{ id: 'ana', name: 'Ana' }]);
+
+    await expect(service.setSpilloverLeg('sponsor', 'dan')).rejects.toBeInstanceOf(NetworkCapacityError);
+    await service.setSpilloverLeg('sponsor', 'ana');
+
+    expect(placements.updateSpilloverLeg).toHaveBeenCalledWith('sponsor', 'ana');
+  });
+});
+
+describe('findSpilloverSlot', () => {
+  it('returns null when every seat is taken', () => {
+    const nodes = [
+      { id: 'ana', depth: 1, legId: 'ana', seatsTaken: 2 },
+      { id: 'ben', depth: 1, legId: 'ben', seatsTaken: 2 },
+    ];
+
+    expect(findSpilloverSlot(nodes, 'breadth_first', 2)).toBeNull();
+    expect(findSpilloverSlot(nodes, 'weakest_leg', 2)).toBeNull();
+    expect(findSpilloverSlot(nodes, 'sponsor_choice', 2, 'ben')).toBeNull();
+  });
+});
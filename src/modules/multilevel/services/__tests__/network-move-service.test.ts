@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NetworkMoveService, countSeatChanges, planNetworkMove } from '../network-move-service';
+import { NetworkCapacityError } from '../network-capacity-service';
+import { resolveNetworkParentAt, type NetworkEdgeRow } from '../../repositories/network-move-repository';
+import type { NetworkMovePhasePreviewer } from '../network-move-phase-previewer';
+import type { NetworkMoveWithChanges } from '../../domain/types';
+
+const moves = {
+  findEdge: vi.fn(),
+  listChildEdges: vi.fn(),
+  insertMove: vi.fn(),
+  deleteMove: vi.fn(),
+  applyChanges: vi.fn(),
+  findMove: vi.fn(),
+  listMoves: vi.fn(),
+  markRolledBack: vi.fn(),
+  restoreApplied: vi.fn(),
+};
+
+const capacity = {
+  assertSeatsAvailable: vi.fn(),
+};
+
+const cycles = {
+  wouldCreateCycle: vi.fn(),
+};
+
+vi.mock('../../repositories/network-move-repository', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../repositories/network-move-repository')>()),
+  NetworkMoveRepository: vi.fn().mockImplementation(function () {
+    return moves;
+  }),
+}));
+
+vi.mock('../network-capacity-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../network-capacity-service')>()),
+  NetworkCapacityService: vi.fn().mockImplementation(function () {
+    return capacity;
+  }),
+}));
+
+vi.mock('@/lib/security/circular-referral-detector', () => ({
+  CircularReferralDetector: vi.fn().mockImplementation(function () {
+    return cycles;
+  }),
+}));
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const edge = (id: string, overrides: Partial<NetworkEdgeRow> = {}): NetworkEdgeRow => ({
+  id,
+  referred_by: null,
+  placement_parent_id: null,
+  placement_strategy: null,
+  placed_at: null,
+  network_parent_id: null,
+  ...overrides,
+});
+
+// ana -> ben -> (cy, dan); eve is independent
+const network: Record<string, NetworkEdgeRow> = {
+  ana: edge('ana'),
+  ben: edge('ben', { referred_by: 'ana', network_parent_id: 'ana' }),
+  cy: edge('cy', { referred_by: 'ben', network_parent_id: 'ben' }),
+  dan: edge('dan', {
+    referred_by: 'ana',
+    placement_parent_id: 'ben',
+    placement_strategy: 'breadth_first',
+    placed_at: now.toISOString(),
+    network_parent_id: 'ben',
+  }),
+  eve: edge('eve'),
+};
+
+const moveRecord = (overrides: Partial<NetworkMoveWithChanges> = {}): NetworkMoveWithChanges => ({
+  id: 'move-1',
+  user_id: 'ben',
+  move_type: 'sponsor',
+  scope: 'subtree',
+  target_parent_id: 'eve',
+  reason: 'Wrong sponsor at signup',
+  status: 'applied',
+  phase_impact: [],
+  performed_by: 'admin',
+  applied_at: now.toISOString(),
+  rolled_back_by: null,
+  rolled_back_at: null,
+  rollback_reason: null,
+  created_at: now.toISOString(),
+  updated_at: now.toISOString(),
+  changes: [
+    {
+      id: 'change-1',
+      move_id: 'move-1',
+      profile_id: 'ben',
+      previous_referred_by: 'ana',
+      previous_placement_parent_id: null,
+      previous_placement_strategy: null,
+      previous_placed_at: null,
+      previous_network_parent_id: 'ana',
+      new_referred_by: 'eve',
+      new_placement_parent_id: null,
+      new_network_parent_id: 'eve',
+      created_at: now.toISOString(),
+    },
+  ],
+  ...overrides,
+});
+
+describe('NetworkMoveService', () => {
+  let previewer: { preview: ReturnType<typeof vi.fn> };
+  let service: NetworkMoveService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    previewer = {
+      preview: vi.fn().mockResolvedValue([
+        { memberId: 'ana', currentPhase: 2, phaseBefore: 2, phaseAfter: 1, change: 'down' },
+      ]),
+    };
+    service = new NetworkMoveService({} as SupabaseClient, previewer as NetworkMovePhasePreviewer);
+
+    moves.findEdge.mockImplementation((id: string) => Promise.resolve(network[id] ?? null));
+    moves.listChildEdges.mockImplementation((id: string) =>
+      Promise.resolve(Object.values(network).filter((entry) => entry.network_parent_id === id)),
+    );
+    moves.insertMove.mockImplementation((input) => Promise.resolve(moveRecord({ phase_impact: input.phaseImpact })));
+    cycles.wouldCreateCycle.mockResolvedValue(false);
+  });
+
+  it('moves a subtree to a new sponsor with the phase impact on both uplines', async () => {
+    const move = await service.moveMember(
+      { userId: 'ben', targetParentId: 'eve', moveType: 'sponsor', scope: 'subtree', reason: 'Wrong sponsor at signup' },
+      'admin',
+      now,
+    );
+
+    expect(cycles.wouldCreateCycle).toHaveBeenCalledWith('ben', 'eve');
+    expect(capacity.assertSeatsAvailable).toHaveBeenCalledWith('eve', 1);
+    expect(capacity.assertSeatsAvailable).toHaveBeenCalledWith('ana', -1);
+    expect(previewer.preview).toHaveBeenCalledWith(['ana', 'eve'], new Map([['ben', 'eve']]));
+    expect(moves.insertMove).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'ben', performedBy: 'admin', appliedAt: now, changes: [expect.anything()] }),
+    );
+    expect(moves.applyChanges).toHaveBeenCalledWith('move-1', false);
+    expect(move.phase_impact).toEqual([expect.objectContaining({ memberId: 'ana', change: 'down' })]);
+  });
+
+  it('rejects moves under the own downline and over capacity without recording them', async () => {
+    cycles.wouldCreateCycle.mockResolvedValueOnce(true);
+    await expect(
+      service.moveMember({ userId: 'ben', targetParentId: 'cy', moveType: 'sponsor', scope: 'subtree', reason: 'x' }, 'admin'),
+    ).rejects.toMatchObject({ code: 'CIRCULAR_MOVE' });
+
+    capacity.assertSeatsAvailable.mockRejectedValueOnce(new NetworkCapacityError('Full', 'sponsor_capacity_reached', 'eve'));
+    await expect(
+      service.moveMember({ userId: 'ben', targetParentId: 'eve', moveType: 'sponsor', scope: 'subtree', reason: 'x' }, 'admin'),
+    ).rejects.toBeInstanceOf(NetworkCapacityError);
+
+    await expect(
+      service.moveMember({ userId: 'ben', targetParentId: 'ana', moveType: 'sponsor', scope: 'subtree', reason: 'x' }, 'admin'),
+    ).rejects.toMatchObject({ code: 'SAME_PARENT' });
+
+    expect(moves.insertMove).not.toHaveBeenCalled();
+  });
+
+  it('discards the move when the network changed before it was applied', async () => {
+    moves.applyChanges.mockRejectedValueOnce({ message: 'network_move_conflict: profile ben changed' });
+
+    await expect(
+      service.moveMember({ userId: 'ben', targetParentId: 'eve', moveType: 'sponsor', scope: 'subtree', reason: 'x' }, 'admin'),
+    ).rejects.toMatchObject({ code: 'MOVE_CONFLICT' });
+    expect(moves.deleteMove).toHaveBeenCalledWith('move-1');
+  });
+
+  it('rolls back an applied move once', async () => {
+    moves.findMove.mockResolvedValueOnce(moveRecord());
+    moves.markRolledBack.mockResolvedValueOnce(
+      moveRecord({ status: 'rolled_back', rolled_back_by: 'admin', rolled_back_at: now.toISOString() }),
+    );
+
+    const rolledBack = await service.rollbackMove('move-1', 'admin', 'Requested by the sponsor', now);
+
+    expect(cycles.wouldCreateCycle).toHaveBeenCalledWith('ben', 'ana');
+    expect(capacity.assertSeatsAvailable).toHaveBeenCalledWith('ana', 1);
+    expect(moves.applyChanges).toHaveBeenCalledWith('move-1', true);
+    expect(rolledBack).toMatchObject({ status: 'rolled_back', changes: [expect.objectContaining({ profile_id: 'ben' })] });
+
+    moves.findMove.mockResolvedValueOnce(moveRecord({ status: 'rolled_back' }));
+    await expect(service.rollbackMove('move-1', 'admin', 'Again')).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+  });
+});
+
+describe('network move helpers', () => {
+  it('plans sponsor and placement moves', () => {
+    const [sponsorMove] = planNetworkMove(network.dan, [], { targetParentId: 'eve', moveType: 'sponsor', scope: 'subtree' });
+    expect(sponsorMove).toMatchObject({
+      profile_id: 'dan',
+      previous_placement_parent_id: 'ben',
+      new_referred_by: 'eve',
+      new_placement_parent_id: null,
+      new_network_parent_id: 'eve',
+    });
+
+    // Placing a member back under their enrolling sponsor clears the placement
+    const [placementMove] = planNetworkMove(network.dan, [], { targetParentId: 'ana', moveType: 'placement', scope: 'subtree' });
+    expect(placementMove).toMatchObject({ new_referred_by: 'ana', new_placement_parent_id: null, new_network_parent_id: 'ana' });
+  });
+
+  it('hands the direct members over to the previous parent on member-scope moves', () => {
+    const changes = planNetworkMove(network.ben, [network.cy, network.dan], {
+      targetParentId: 'eve',
+      moveType: 'sponsor',
+      scope: 'member',
+    });
+
+    expect(changes.map((change) => [change.profile_id, change.new_referred_by, change.new_network_parent_id])).toEqual([
+      ['ben', 'eve', 'eve'],
+      ['cy', 'ben', 'ana'],
+      ['dan', 'ana', 'ana'],
+    ]);
+    expect(countSeatChanges(changes)).toEqual(new Map([['ana', 1], ['eve', 1], ['ben', -2]]));
+  });
+
+  it('resolves the network parent in effect at a date from the move history', () => {
+    const history = [
+      { previousParentId: 'ana', newParentId: 'eve', appliedAt: '2026-02-01T00:00:00.000Z', rolledBackAt: '2026-03-01T00:00:00.000Z' },
+    ];
+
+    expect(resolveNetworkParentAt(history, new Date('2026-01-15T00:00:00.000Z'))).toBe('ana');
+    expect(resolveNetworkParentAt(history, new Date('2026-02-15T00:00:00.000Z'))).toBe('eve');
+    expect(resolveNetworkParentAt(history, new Date('2026-03-15T00:00:00.000Z'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  PayoutBatchError,
+  PayoutBatchService,
+  resolveBatchStatus,
+  resolvePayoutPeriod,
+} from '../payout-batch-service';
+import type { PayoutSubmitter } from '../payout-submitter';
+import type { PayoutBatchItemRecord, PayoutBatchWithItems } from '../../domain/types';
+
+const batches = {
+  getSchedule: vi.fn(),
+  listEligibleBalances: vi.fn(),
+  listPayoutAccounts: vi.fn(),
+  listThresholds: vi.fn(),
+  listActiveHolds: vi.fn(),
+  listReservedUserIds: vi.fn(),
+  insertBatch: vi.fn(),
+  findBatch: vi.fn(),
+  transitionBatch: vi.fn(),
+  updateBatch: vi.fn(),
+  updateItem: vi.fn(),
+  listBatchIdsWithDueRetries: vi.fn(),
+  reserveItem: vi.fn(),
+  releaseItem: vi.fn(),
+  recordPayoutTransaction: vi.fn(),
+};
+
+const ledger = {
+  recordPayoutSent: vi.fn(),
+};
+
+vi.mock('../../repositories/payout-batch-repository', () => ({
+  PayoutBatchRepository: vi.fn().mockImplementation(function () {
+    return batches;
+  }),
+}));
+
+vi.mock('../ledger-service', () => ({
+  LedgerService: vi.fn().mockImplementation(function () {
+    return ledger;
+  }),
+}));
+
+vi.mock('@/modules/app-settings/services/app-settings-service', () => ({
+  getAppSettings: vi.fn().mockResolvedValue({ payoutHoldDays: 14, currency: 'USD' }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const account = (userId: string, provider: string, status = 'active') => ({
+  user_id: userId,
+  provider,
+  account_id: `${provider}-${userId}`,
+  status,
+});
+
+const item = (overrides: Partial<PayoutBatchItemRecord> = {}): PayoutBatchItemRecord => ({
+  id: 'item-1',
+  batch_id: 'batch-1',
+  user_id: 'member-1',
+  account_id: 'payee-1',
+  amount_cents: 5000,
+  currency: 'USD',
+  status: 'pending',
+  attempts: 0,
+  next_retry_at: null,
+  last_error: null,
+  external_id: null,
+  submitted_at: null,
+  created_at: now.toISOString(),
+  updated_at: now.toISOString(),
+  ...overrides,
+});
+
+const batch = (overrides: Partial<PayoutBatchWithItems> = {}): PayoutBatchWithItems => ({
+  id: 'batch-1',
+  cadence: 'monthly',
+  period: '2026-03',
+  provider: 'payoneer',
+  currency: 'USD',
+  status: 'pending_approval',
+  total_cents: 5000,
+  item_count: 1,
+  created_by: 'maker',
+  approved_by: null,
+  approved_at: null,
+  rejected_by: null,
+  rejected_at: null,
+  rejection_reason: null,
+  completed_at: null,
+  created_at: now.toISOString(),
+  updated_at: now.toISOString(),
+  items: [item()],
+  ...overrides,
+});
+
+describe('PayoutBatchService', () => {
+  let submitter: { submit: ReturnType<typeof vi.fn> };
+  let service: PayoutBatchService;
+  let stored: PayoutBatchWithItems;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    submitter = { submit: vi.fn().mockResolvedValue({ externalId: 'ext-1', estimatedArrival: null }) };
+    service = new PayoutBatchService({} as SupabaseClient, submitter as PayoutSubmitter);
+
+    batches.getSchedule.mockResolvedValue({ cadence: 'monthly', minimumCents: 900 });
+    batches.listThresholds.mockResolvedValue(new Map());
+    batches.listActiveHolds.mockResolvedValue([]);
+    batches.listReservedUserIds.mockResolvedValue(new Set());
+    batches.insertBatch.mockImplementation((input) => Promise.resolve({ id: `batch-${input.provider}`, ...input }));
+    batches.reserveItem.mockResolvedValue(true);
+    batches.releaseItem.mockResolvedValue(undefined);
+
+    // In-memory batch so item updates are visible to the status resolution
+    stored = batch();
+    batches.findBatch.mockImplementation(() => Promise.resolve(structuredClone(stored)));
+    batches.transitionBatch.mockImplementation((_id, expected, update) => {
+      if (stored.status !== expected) {
+        return Promise.resolve(null);
+      }
+      stored = { ...stored, ...update };
+      return Promise.resolve(stored);
+    });
+    batches.updateBatch.mockImplementation((_id, update) => {
+      stored = { ...stored, ...update };
+      return Promise.resolve();
+    });
+    batches.updateItem.mockImplementation((id, update) => {
+      stored = { ...stored, items: stored.items.map((entry) => (entry.id === id ? { ...entry, ...update } : entry)) };
+      return Promise.resolve();
+    });
+  });
+
+  it('groups eligible balances by provider and currency and applies holds and thresholds', async () => {
+    batches.listEligibleBalances.mockResolvedValue([
+      { userId: 'ana', currency: 'USD', availableCents: 5000 },
+      { userId: 'ben', currency: 'USD', availableCents: 7000 },
+      { userId: 'cy', currency: 'USD', availableCents: 4000 },
+      { userId: 'dan', currency: 'USD', availableCents: 800 },
+      { userId: 'eve', currency: 'USD', availableCents: 9000 },
+      { userId: 'fay', currency: 'USD', availableCents: 2000 },
+      { userId: 'gus', currency: 'USD', availableCents: 9000 },
+    ]);
+    batches.listPayoutAccounts.mockResolvedValue([
+      account('ana', 'payoneer'),
+      account('ben', 'payoneer'),
+      account('cy', 'paypal'),
+      account('dan', 'paypal'),
+      account('eve', 'stripe', 'restricted'),
+      account('fay', 'paypal'),
+      account('gus', 'paypal'),
+    ]);
+    batches.listThresholds.mockResolvedValue(new Map([['fay', 2500]]));
+    batches.listActiveHolds.mockResolvedValue([{ id: 'hold-1', user_id: 'gus' }]);
+
+    const result = await service.createBatches('maker', now);
+
+    expect(batches.listEligibleBalances).toHaveBeenCalledWith(new Date(now.getTime() - 14 * DAY_MS));
+    expect(result.period).toBe('2026-03');
+    expect(result.skipped).toEqual({ noActiveAccount: 1, onHold: 1, alreadyBatched: 0, belowThreshold: 2 });
+    expect(batches.insertBatch).toHaveBeenCalledTimes(2);
+    expect(batches.insertBatch).toHaveBeenCalledWith({
+      cadence: 'monthly',
+      period: '2026-03',
+      provider: 'payoneer',
+      currency: 'USD',
+      createdBy: 'maker',
+      items: [
+        { userId: 'ana', accountId: 'payoneer-ana', amountCents: 5000 },
+        { userId: 'ben', accountId: 'payoneer-ben', amountCents: 7000 },
+      ],
+    });
+  });
+
+  it('requires a different admin to approve a batch', async () => {
+    await expect(service.approveBatch('batch-1', 'maker', now)).rejects.toMatchObject({ code: 'SELF_APPROVAL' });
+    expect(batches.transitionBatch).not.toHaveBeenCalled();
+    expect(submitter.submit).not.toHaveBeenCalled();
+  });
+
+  it('submits every item on approval and books the payout', async () => {
+    const approved = await service.approveBatch('batch-1', 'checker', now);
+
+    expect(submitter.submit).toHaveBeenCalledWith({
+      provider: 'payoneer',
+      accountId: 'payee-1',
+      userId: 'member-1',
+      amountCents: 5000,
+      currency: 'USD',
+      reference: 'item-1',
+    });
+    expect(batches.reserveItem).toHaveBeenCalledWith('item-1');
+    expect(batches.reserveItem.mock.invocationCallOrder[0]).toBeLessThan(submitter.submit.mock.invocationCallOrder[0]);
+    expect(batches.releaseItem).not.toHaveBeenCalled();
+    expect(ledger.recordPayoutSent).toHaveBeenCalledWith(
+      expect.objectContaining({ referenceId: 'payoneer:ext-1', amountCents: 5000, currency: 'USD' }),
+    );
+    expect(approved).toMatchObject({ status: 'completed', approved_by: 'checker' });
+    expect(approved.items[0]).toMatchObject({ status: 'submitted', attempts: 1, external_id: 'ext-1' });
+
+    await expect(service.approveBatch('batch-1', 'checker', now)).rejects.toBeInstanceOf(PayoutBatchError);
+  });
+
+  it('schedules retries for failed items and ends partially failed once retries run out', async () => {
+    stored = batch({ items: [item(), item({ id: 'item-2', user_id: 'member-2', account_id: 'payee-2' })] });
+    submitter.submit.mockImplementation((request) =>
+      request.userId === 'member-2'
+        ? Promise.reject(new Error('Payee not found'))
+        : Promise.resolve({ externalId: 'ext-1', estimatedArrival: null }),
+    );
+
+    const approved = await service.approveBatch('batch-1', 'checker', now);
+
+    expect(approved.status).toBe('processing');
+    expect(approved.items[1]).toMatchObject({
+      status: 'retry_scheduled',
+      attempts: 1,
+      last_error: 'Payee not found',
+      next_retry_at: new Date(now.getTime() + HOUR_MS).toISOString(),
+    });
+
+    // Not due yet
+    await service.processBatch('batch-1', new Date(now.getTime() + 30 * 60 * 1000));
+    expect(submitter.submit).toHaveBeenCalledTimes(2);
+
+    let retryAt = now;
+    for (const hours of [1, 6, 24]) {
+      retryAt = new Date(retryAt.getTime() + hours * HOUR_MS);
+      batches.listBatchIdsWithDueRetries.mockResolvedValueOnce(['batch-1']);
+      await service.retryDueItems(retryAt);
+    }
+
+    expect(submitter.submit).toHaveBeenCalledTimes(5);
+    expect(stored.items[1]).toMatchObject({ status: 'failed', attempts: 4, next_retry_at: null });
+    expect(stored.items[0].status).toBe('submitted');
+    expect(stored.status).toBe('partially_failed');
+    expect(batches.reserveItem).toHaveBeenCalledTimes(5);
+    expect(batches.releaseItem).toHaveBeenCalledTimes(4);
+    expect(batches.releaseItem).toHaveBeenCalledWith('item-2');
+  });
+
+  it('cancels an item the balance in its currency no longer covers, without submitting it', async () => {
+    batches.reserveItem.mockResolvedValue(false);
+
+    const approved = await service.approveBatch('batch-1', 'checker', now);
+
+    expect(submitter.submit).not.toHaveBeenCalled();
+    expect(approved.items[0]).toMatchObject({
+      status: 'canceled',
+      last_error: 'Available USD balance is lower than the batched amount',
+    });
+    expect(ledger.recordPayoutSent).not.toHaveBeenCalled();
+  });
+
+  it('cancels items of members placed on hold after batching and rejects pending batches', async () => {
+    stored = batch({ status: 'processing' });
+    batches.listActiveHolds.mockResolvedValue([{ id: 'hold-1', user_id: 'member-1' }]);
+
+    const processed = await service.processBatch('batch-1', now);
+
+    expect(submitter.submit).not.toHaveBeenCalled();
+    expect(processed.items[0]).toMatchObject({ status: 'canceled' });
+    expect(processed.status).toBe('completed');
+
+    stored = batch();
+    const rejected = await service.rejectBatch('batch-1', 'checker', 'Duplicate run', now);
+    expect(rejected).toMatchObject({ status: 'rejected', rejection_reason: 'Duplicate run' });
+    expect(rejected.items[0].status).toBe('canceled');
+  });
+});
+
+describe('payout batch helpers', () => {
+  it('labels cadence periods', () => {
+    expect(resolvePayoutPeriod('monthly', now)).toBe('2026-03');
+    expect(resolvePayoutPeriod('weekly', now)).toBe('2026-W11');
+    expect(resolvePayoutPeriod('biweekly', now)).toBe('2026-W11');
+    expect(resolvePayoutPeriod('biweekly', new Date('2026-03-17T00:00:00.000Z'))).toBe('2026-W11');
+  });
+
+  it('derives the batch status from its items', () => {
+    expect(resolveBatchStatus([{ status: 'submitted' }, { status: 'retry_scheduled' }])).toBe('processing');
+    expect(resolveBatchStatus([{ status: 'submitted' }, { status: 'canceled' }])).toBe('completed');
+    expect(resolveBatchStatus([{ status: 'submitted' }, { status: 'failed' }])).toBe('partially_failed');
+    expect(resolveBatchStatus([{ status: 'failed' }, { status: 'canceled' }])).toBe('failed');
+  });
+});
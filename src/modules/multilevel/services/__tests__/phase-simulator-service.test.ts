@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { DefaultOpportunityPlan } from '@/modules/opportunity/config/mlm-plan';
+import type { PhaseLevel } from '@/modules/phase-levels/domain/models/phase-level';
+import { buildPhaseSimulation, type PhaseSimulationInput } from '../phase-simulator-service';
+import type { PhaseRecord, SubscriptionStatus, TreeMember } from '../../domain/types';
+
+const member = (id: string, level: number, sponsorId: string, status: SubscriptionStatus | null = 'active'): TreeMember => ({
+  id,
+  email: `${id}@example.com`,
+  name: id,
+  status,
+  level,
+  phase: 0,
+  sponsorId,
+});
+
+const phaseLevel = (level: number, commissionRate: number, creditCents = 0, freeProductValueCents = 0) =>
+  ({ level, commissionRate, creditCents, freeProductValueCents }) as PhaseLevel;
+
+const phaseRecord = (phase: number): PhaseRecord => ({
+  user_id: 'owner',
+  phase,
+  ecommerce_commission: 0.08,
+  phase1_granted: false,
+  phase2_granted: false,
+  phase3_granted: false,
+  phase2_achieved_at: null,
+  updated_at: '2024-10-01T00:00:00.000Z',
+});
+
+const buildInput = (levels: Record<number, TreeMember[]>, overrides: Partial<PhaseSimulationInput> = {}): PhaseSimulationInput => ({
+  tree: { levels, maxLevel: Math.max(0, ...Object.keys(levels).map(Number)) },
+  phase: phaseRecord(1),
+  subscriptionStatus: 'active',
+  requirements: DefaultOpportunityPlan.phases.map((phase) => phase.requirement),
+  phaseLevels: [phaseLevel(0, 0.08), phaseLevel(1, 0.15, 0, 6500), phaseLevel(2, 0.3, 12500), phaseLevel(3, 0.4, 24000)],
+  visibleLevels: 2,
+  currency: 'USD',
+  countsAsActive: (status) => status === 'active',
+  ...overrides,
+});
+
+describe('buildPhaseSimulation', () => {
+  it('lists inactive members and the activations missing for the next phase', () => {
+    const simulation = buildPhaseSimulation(
+      buildInput({
+        1: [member('ana', 1, 'owner'), member('ben', 1, 'owner'), member('cy', 1, 'owner', 'canceled')],
+        2: [
+          member('dan', 2, 'ana'),
+          member('eve', 2, 'ana'),
+          member('fay', 2, 'ben'),
+          member('gus', 2, 'ben', 'past_due'),
+        ],
+      }),
+    );
+
+    expect(simulation.currentPhase).toBe(1);
+    expect(simulation.qualifiedPhase).toBe(1);
+    expect(simulation.targetPhase).toBe(2);
+    expect(simulation.inactiveDirects.map((gap) => gap.id)).toEqual(['cy']);
+    expect(simulation.inactiveSecondLevel.map((gap) => gap.id)).toEqual(['gus']);
+
+    const secondLevel = simulation.requirements.find((requirement) => requirement.phase === 2);
+    // ben needs one more active recruit and cy needs two
+    expect(secondLevel).toMatchObject({ met: false, current: 3, required: 4, missingActivations: 3 });
+    expect(simulation.missingActivations).toBe(3);
+
+    const ben = simulation.directGaps.find((gap) => gap.member.id === 'ben');
+    expect(ben).toMatchObject({ active: true, activeRecruits: 1, missingRecruits: 1 });
+    expect(ben?.inactiveRecruits.map((recruit) => recruit.id)).toEqual(['gus']);
+  });
+
+  it('adds the remaining second-level activations once every direct recruit meets the minimum', () => {
+    const simulation = buildPhaseSimulation(
+      buildInput({
+        1: [member('ana', 1, 'owner'), member('ben', 1, 'owner')],
+        2: [member('dan', 2, 'ana'), member('eve', 2, 'ana')],
+      }),
+    );
+
+    expect(simulation.requirements[2]).toMatchObject({ current: 2, missingActivations: 2 });
+  });
+
+  it('projects earnings with the phase level rates of the current and next phase', () => {
+    const simulation = buildPhaseSimulation(
+      buildInput(
+        {
+          1: [member('ana', 1, 'owner'), member('ben', 1, 'owner')],
+          2: [member('dan', 2, 'ana'), member('eve', 2, 'ana'), member('fay', 2, 'ben')],
+        },
+        { averageSalesCents: 10000, personalSalesCents: 20000 },
+      ),
+    );
+
+    // Phase 1 earns on level 1 only: 2 active members
+    expect(simulation.projections.current).toMatchObject({
+      phase: 1,
+      activeNetworkMembers: 2,
+      personalCommissionCents: 3000,
+      networkCommissionCents: 3000,
+      freeProductValueCents: 6500,
+      totalCents: 12500,
+    });
+
+    // Phase 2 earns on two levels: 5 active members plus the 1 missing activation
+    expect(simulation.projections.target).toMatchObject({
+      phase: 2,
+      activeNetworkMembers: 6,
+      personalCommissionCents: 6000,
+      networkCommissionCents: 18000,
+      rewardCreditCents: 12500,
+      totalCents: 36500,
+    });
+  });
+
+  it('requires the member to reactivate their own subscription', () => {
+    const simulation = buildPhaseSimulation(
+      buildInput({ 1: [member('ana', 1, 'owner')] }, { phase: null, subscriptionStatus: 'canceled' }),
+    );
+
+    expect(simulation.selfActive).toBe(false);
+    expect(simulation.targetPhase).toBe(1);
+    expect(simulation.requirements.map((requirement) => requirement.missingActivations)).toEqual([1, 1]);
+    expect(simulation.missingActivations).toBe(2);
+  });
+
+  it('counts paused members as active when configured', () => {
+    const simulation = buildPhaseSimulation(
+      buildInput(
+        { 1: [member('ana', 1, 'owner'), member('ben', 1, 'owner', 'paused')] },
+        { phase: phaseRecord(0), countsAsActive: (status) => status === 'active' || status === 'paused' },
+      ),
+    );
+
+    expect(simulation.qualifiedPhase).toBe(1);
+    expect(simulation.inactiveDirects).toHaveLength(0);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SubscriptionDunningService } from '../subscription-dunning-service';
+import { SubscriptionEventBus } from '../../observers/subscription-event-bus';
+import type { SubscriptionRecord } from '../../domain/types';
+
+const repository = {
+  findDueRetries: vi.fn(),
+  updateState: vi.fn(),
+  insertAttempt: vi.fn(),
+};
+
+const subscriptions = {
+  findByUserId: vi.fn(),
+};
+
+const notifications = {
+  sendRenewalFailureEmail: vi.fn(),
+  sendCancellationEmail: vi.fn(),
+};
+
+vi.mock('../../repositories/subscription-dunning-repository', () => ({
+  SubscriptionDunningRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+vi.mock('../../repositories/subscription-repository', () => ({
+  SubscriptionRepository: vi.fn().mockImplementation(function () {
+    return subscriptions;
+  }),
+}));
+
+vi.mock('../subscription-notification-service', () => ({
+  SubscriptionNotificationService: vi.fn().mockImplementation(function () {
+    return notifications;
+  }),
+}));
+
+vi.mock('@/modules/app-settings/services/app-settings-service', () => ({
+  getAppSettings: vi.fn().mockResolvedValue({ currency: 'eur', dunningRetryDays: [1, 3, 5, 7], dunningGraceDays: 7 }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const startedAt = '2026-01-01T00:00:00.000Z';
+
+const buildSubscription = (overrides: Partial<SubscriptionRecord> = {}): SubscriptionRecord => ({
+  id: 'sub-1',
+  user_id: 'member-1',
+  plan_id: null,
+  subscription_type: 'mlm',
+  status: 'active',
+  current_period_end: startedAt,
+  gateway: 'stripe',
+  cancel_at_period_end: false,
+  default_payment_method_id: 'pm-1',
+  dunning_started_at: null,
+  dunning_attempts: 0,
+  dunning_next_attempt_at: null,
+  created_at: startedAt,
+  ...overrides,
+});
+
+const daysAfterStart = (days: number) => new Date(new Date(startedAt).getTime() + days * DAY_MS).toISOString();
+
+describe('SubscriptionDunningService', () => {
+  let bus: SubscriptionEventBus;
+  let service: SubscriptionDunningService;
+  const schedule = { retryDays: [1, 3, 5, 7], graceDays: 7 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    bus = new SubscriptionEventBus();
+    service = new SubscriptionDunningService({} as SupabaseClient, bus);
+    repository.updateState.mockImplementation((id, state) =>
+      Promise.resolve(buildSubscription({
+        id,
+        status: state.status,
+        dunning_started_at: state.startedAt,
+        dunning_attempts: state.attempts,
+        dunning_next_attempt_at: state.nextAttemptAt,
+      })),
+    );
+    repository.insertAttempt.mockResolvedValue(null);
+  });
+
+  it('walks the retry schedule from past_due to unpaid to canceled', () => {
+    const firstFailure = service.resolveNextState(buildSubscription(), schedule, new Date(startedAt));
+    expect(firstFailure).toEqual({
+      status: 'past_due',
+      startedAt,
+      attempts: 0,
+      nextAttemptAt: daysAfterStart(1),
+    });
+
+    const thirdRetry = service.resolveNextState(
+      buildSubscription({ status: 'past_due', dunning_started_at: startedAt, dunning_attempts: 2 }),
+      schedule,
+    );
+    expect(thirdRetry).toMatchObject({ status: 'past_due', attempts: 3, nextAttemptAt: daysAfterStart(7) });
+
+    const lastRetry = service.resolveNextState(
+      buildSubscription({ status: 'past_due', dunning_started_at: startedAt, dunning_attempts: 3 }),
+      schedule,
+    );
+    expect(lastRetry).toMatchObject({ status: 'unpaid', attempts: 4, nextAttemptAt: daysAfterStart(14) });
+
+    const finalAttempt = service.resolveNextState(
+      buildSubscription({ status: 'unpaid', dunning_started_at: startedAt, dunning_attempts: 4 }),
+      schedule,
+    );
+    expect(finalAttempt).toMatchObject({ status: 'canceled', attempts: 5, nextAttemptAt: null });
+  });
+
+  it('persists the failure, emails the member and publishes the attempt', async () => {
+    const failed = vi.fn();
+    const updated = vi.fn();
+    bus.subscribe('dunning.payment_failed', failed);
+    bus.subscribe('subscription.updated', updated);
+
+    const state = await service.recordFailure({
+      subscription: buildSubscription({ status: 'past_due', dunning_started_at: startedAt, dunning_attempts: 3 }),
+      gateway: 'wallet',
+      amountCents: 3499,
+      currency: 'USD',
+      reason: 'Insufficient wallet balance',
+    });
+
+    expect(state.status).toBe('unpaid');
+    expect(repository.updateState).toHaveBeenCalledWith('sub-1', state);
+    expect(repository.insertAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 4, success: false, resultingStatus: 'unpaid' }),
+    );
+    expect(notifications.sendRenewalFailureEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'unpaid', attempt: 4, nextAttemptDate: daysAfterStart(14) }),
+    );
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payload: expect.objectContaining({ attempt: 4, previousStatus: 'past_due', status: 'unpaid' }),
+      }),
+    );
+    expect(updated).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels an unpaid subscription when the final attempt fails', async () => {
+    const canceled = vi.fn();
+    bus.subscribe('subscription.canceled', canceled);
+
+    const state = await service.recordFailure({
+      subscription: buildSubscription({ status: 'unpaid', dunning_started_at: startedAt, dunning_attempts: 4 }),
+      gateway: 'stripe',
+      amountCents: 3499,
+      currency: 'USD',
+      reason: 'Card declined',
+    });
+
+    expect(state.status).toBe('canceled');
+    expect(canceled).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: expect.objectContaining({ reason: 'payment_failure', previousStatus: 'unpaid' }) }),
+    );
+    expect(notifications.sendCancellationEmail).toHaveBeenCalledWith({ userId: 'member-1', reason: 'payment_failure' });
+    expect(notifications.sendRenewalFailureEmail).not.toHaveBeenCalled();
+  });
+
+  it('starts dunning when the gateway reports a declined renewal instead of canceling', async () => {
+    subscriptions.findByUserId.mockResolvedValue(buildSubscription());
+
+    const state = await service.recordGatewayFailure({
+      userId: 'member-1',
+      gateway: 'stripe',
+      amountCents: 3499,
+      currency: null,
+      reason: 'Stripe invoice in_1 payment failed',
+    });
+
+    expect(state).toMatchObject({ status: 'past_due', attempts: 0 });
+    expect(repository.updateState).toHaveBeenCalledWith('sub-1', expect.objectContaining({ status: 'past_due' }));
+    expect(notifications.sendRenewalFailureEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ currency: 'EUR', gateway: 'stripe', status: 'past_due' }),
+    );
+    expect(notifications.sendCancellationEmail).not.toHaveBeenCalled();
+  });
+
+  it('leaves a subscription already in dunning on its retry schedule', async () => {
+    subscriptions.findByUserId.mockResolvedValue(
+      buildSubscription({ status: 'past_due', dunning_started_at: startedAt, dunning_attempts: 1 }),
+    );
+
+    const state = await service.recordGatewayFailure({
+      userId: 'member-1',
+      gateway: 'stripe',
+      amountCents: 3499,
+      reason: 'Stripe invoice in_1 payment failed',
+    });
+
+    expect(state).toBeNull();
+    expect(repository.updateState).not.toHaveBeenCalled();
+  });
+
+  it('logs a recovered retry and publishes it', async () => {
+    const recovered = vi.fn();
+    bus.subscribe('dunning.recovered', recovered);
+
+    await service.recordRecovery({
+      subscription: buildSubscription({ status: 'past_due', dunning_started_at: startedAt, dunning_attempts: 1 }),
+      gateway: 'wallet',
+      amountCents: 3499,
+    });
+
+    expect(repository.insertAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 2, success: true, resultingStatus: 'active' }),
+    );
+    expect(recovered).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: expect.objectContaining({ attempt: 2, gateway: 'wallet' }) }),
+    );
+  });
+});
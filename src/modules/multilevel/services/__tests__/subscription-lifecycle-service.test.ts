@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SubscriptionLifecycleService } from '../subscription-lifecycle-service';
+import { SubscriptionEventBus } from '../../observers/subscription-event-bus';
+import { NetworkCapacityError } from '../network-capacity-service';
+
+const payments = { findByGatewayRef: vi.fn(), insert: vi.fn() };
+const subscriptions = { findByUserId: vi.fn(), upsertSubscription: vi.fn() };
+const phases = { ensureBasePhase: vi.fn() };
+const pauses = { updateState: vi.fn() };
+const capacity = { placeMember: vi.fn() };
+
+vi.mock('../../repositories/payment-repository', () => ({
+  PaymentRepository: vi.fn().mockImplementation(function () {
+    return payments;
+  }),
+}));
+
+vi.mock('../../repositories/subscription-repository', () => ({
+  SubscriptionRepository: vi.fn().mockImplementation(function () {
+    return subscriptions;
+  }),
+}));
+
+vi.mock('../../repositories/phase-repository', () => ({
+  PhaseRepository: vi.fn().mockImplementation(function () {
+    return phases;
+  }),
+}));
+
+vi.mock('../../repositories/subscription-pause-repository', () => ({
+  SubscriptionPauseRepository: vi.fn().mockImplementation(function () {
+    return pauses;
+  }),
+}));
+
+vi.mock('../network-capacity-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../network-capacity-service')>()),
+  NetworkCapacityService: vi.fn().mockImplementation(function () {
+    return capacity;
+  }),
+}));
+
+vi.mock('@/lib/services/audit-log-service', () => ({
+  logUserAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+const payload = {
+  userId: 'member-1',
+  planId: 'plan-pro',
+  amountCents: 5990,
+  gatewayRef: 'stripe:invoice:in_1',
+  periodEnd: '2026-11-19T00:00:00.000Z',
+  gateway: 'stripe' as const,
+};
+
+describe('SubscriptionLifecycleService.handleConfirmedPayment', () => {
+  let service: SubscriptionLifecycleService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    payments.findByGatewayRef.mockResolvedValue(null);
+    subscriptions.findByUserId.mockResolvedValue(null);
+    subscriptions.upsertSubscription.mockResolvedValue({ id: 'sub-1', user_id: 'member-1', status: 'active' });
+    capacity.placeMember.mockResolvedValue({ parentId: 'sponsor', strategy: null, spilled: false });
+    const client = { rpc: vi.fn().mockResolvedValue({ data: null, error: null }) } as unknown as SupabaseClient;
+    service = new SubscriptionLifecycleService(client, new SubscriptionEventBus());
+  });
+
+  it('places the member in the network before the subscription activates', async () => {
+    await service.handleConfirmedPayment(payload);
+
+    expect(capacity.placeMember).toHaveBeenCalledWith('member-1');
+    expect(capacity.placeMember.mock.invocationCallOrder[0]).toBeLessThan(
+      subscriptions.upsertSubscription.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('does not place the member again on a renewal', async () => {
+    subscriptions.findByUserId.mockResolvedValue({ id: 'sub-1', user_id: 'member-1', status: 'active' });
+
+    await service.handleConfirmedPayment(payload);
+
+    expect(capacity.placeMember).not.toHaveBeenCalled();
+  });
+
+  it('activates the paid subscription when the seat was taken since the checkout', async () => {
+    capacity.placeMember.mockRejectedValue(
+      new NetworkCapacityError('full', 'spillover_slot_unavailable', 'sponsor', 2, 2),
+    );
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(service.handleConfirmedPayment(payload)).resolves.toEqual({ alreadyProcessed: false });
+
+    expect(subscriptions.upsertSubscription).toHaveBeenCalled();
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('member-1'), expect.any(NetworkCapacityError));
+    errors.mockRestore();
+  });
+
+  it('keeps a paused subscription paused when a gateway payment arrives during the pause', async () => {
+    subscriptions.findByUserId.mockResolvedValue({
+      id: 'sub-1',
+      user_id: 'member-1',
+      status: 'paused',
+      paused_at: '2026-10-10T00:00:00.000Z',
+      pause_ends_at: '2026-10-24T00:00:00.000Z',
+      current_period_end: '2026-11-30T00:00:00.000Z',
+    });
+    pauses.updateState.mockResolvedValue({ id: 'sub-1', status: 'paused' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await service.handleConfirmedPayment(payload);
+
+    expect(result).toEqual({ alreadyProcessed: false });
+    expect(payments.insert).toHaveBeenCalledWith(expect.objectContaining({ gatewayRef: 'stripe:invoice:in_1' }));
+    expect(pauses.updateState).toHaveBeenCalledWith('sub-1', {
+      status: 'paused',
+      pausedAt: '2026-10-10T00:00:00.000Z',
+      pauseEndsAt: '2026-10-24T00:00:00.000Z',
+      currentPeriodEnd: '2026-11-30T00:00:00.000Z',
+    });
+    expect(subscriptions.upsertSubscription).not.toHaveBeenCalled();
+    expect(capacity.placeMember).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SubscriptionPauseService } from '../subscription-pause-service';
+import { SubscriptionEventBus } from '../../observers/subscription-event-bus';
+import type { SubscriptionRecord } from '../../domain/types';
+
+const subscriptions = {
+  findByUserId: vi.fn(),
+};
+
+const pauses = {
+  countSince: vi.fn(),
+  findOpenBySubscription: vi.fn(),
+  findDueResumes: vi.fn(),
+  insert: vi.fn(),
+  close: vi.fn(),
+  updateState: vi.fn(),
+};
+
+vi.mock('../../repositories/subscription-repository', () => ({
+  SubscriptionRepository: vi.fn().mockImplementation(function () {
+    return subscriptions;
+  }),
+}));
+
+vi.mock('../../repositories/subscription-pause-repository', () => ({
+  SubscriptionPauseRepository: vi.fn().mockImplementation(function () {
+    return pauses;
+  }),
+}));
+
+vi.mock('@/modules/app-settings/services/app-settings-service', () => ({
+  getAppSettings: vi.fn().mockResolvedValue({ subscriptionPauseMaxDays: 30, subscriptionPausesPerYear: 1 }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-01T00:00:00.000Z');
+const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY_MS).toISOString();
+
+const buildSubscription = (overrides: Partial<SubscriptionRecord> = {}): SubscriptionRecord => ({
+  id: 'sub-1',
+  user_id: 'member-1',
+  plan_id: 'plan-basic',
+  subscription_type: 'mlm',
+  status: 'active',
+  current_period_end: daysFromNow(10),
+  gateway: 'wallet',
+  cancel_at_period_end: false,
+  default_payment_method_id: null,
+  dunning_started_at: null,
+  created_at: now.toISOString(),
+  ...overrides,
+});
+
+describe('SubscriptionPauseService', () => {
+  let rpc: ReturnType<typeof vi.fn>;
+  let bus: SubscriptionEventBus;
+  let service: SubscriptionPauseService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+    bus = new SubscriptionEventBus();
+    service = new SubscriptionPauseService({ rpc } as unknown as SupabaseClient, bus);
+    subscriptions.findByUserId.mockResolvedValue(buildSubscription());
+    pauses.countSince.mockResolvedValue(0);
+    pauses.updateState.mockImplementation((_id, state) =>
+      Promise.resolve(buildSubscription({ status: state.status, current_period_end: state.currentPeriodEnd })),
+    );
+  });
+
+  it('pauses an active subscription and pushes the period end back', async () => {
+    const paused = vi.fn();
+    bus.subscribe('subscription.paused', paused);
+
+    const result = await service.pause('member-1', 14, now);
+
+    expect(pauses.updateState).toHaveBeenCalledWith('sub-1', {
+      status: 'paused',
+      pausedAt: now.toISOString(),
+      pauseEndsAt: daysFromNow(14),
+      currentPeriodEnd: daysFromNow(24),
+    });
+    expect(pauses.insert).toHaveBeenCalledWith(expect.objectContaining({ extendedDays: 14 }));
+    expect(rpc).toHaveBeenCalledWith('recalculate_sponsor_phases_cascade', { p_user: 'member-1' });
+    expect(result.pauseEndsAt).toBe(daysFromNow(14));
+    expect(paused).toHaveBeenCalledTimes(1);
+  });
+
+  it('enforces the maximum length and the yearly limit', async () => {
+    await expect(service.pause('member-1', 45, now)).rejects.toMatchObject({ code: 'PAUSE_TOO_LONG' });
+
+    pauses.countSince.mockResolvedValue(1);
+    await expect(service.pause('member-1', 7, now)).rejects.toMatchObject({ code: 'PAUSE_LIMIT_REACHED' });
+    expect(pauses.updateState).not.toHaveBeenCalled();
+  });
+
+  it('does not pause subscriptions the gateway bills on its own', async () => {
+    for (const gateway of ['stripe', 'paypal', 'mercadopago'] as const) {
+      subscriptions.findByUserId.mockResolvedValue(buildSubscription({ gateway }));
+
+      await expect(service.pause('member-1', 7, now)).rejects.toMatchObject({ code: 'PAUSE_NOT_SUPPORTED' });
+    }
+    expect(pauses.updateState).not.toHaveBeenCalled();
+  });
+
+  it('does not pause subscriptions in dunning', async () => {
+    subscriptions.findByUserId.mockResolvedValue(buildSubscription({ status: 'past_due', dunning_started_at: now.toISOString() }));
+
+    await expect(service.pause('member-1', 7, now)).rejects.toMatchObject({ code: 'SUBSCRIPTION_NOT_ACTIVE' });
+  });
+
+  it('gives back the unused days when resuming early', async () => {
+    const pausedAt = daysFromNow(-5);
+    subscriptions.findByUserId.mockResolvedValue(
+      buildSubscription({ status: 'paused', paused_at: pausedAt, pause_ends_at: daysFromNow(9), current_period_end: daysFromNow(20) }),
+    );
+    pauses.findOpenBySubscription.mockResolvedValue({ id: 'pause-1', started_at: pausedAt, scheduled_end_at: daysFromNow(9), extended_days: 14 });
+
+    const result = await service.resume('member-1', now);
+
+    expect(result).toMatchObject({ pausedDays: 5, early: true });
+    expect(pauses.updateState).toHaveBeenCalledWith('sub-1', {
+      status: 'active',
+      pausedAt: null,
+      pauseEndsAt: null,
+      currentPeriodEnd: daysFromNow(11),
+    });
+    expect(pauses.close).toHaveBeenCalledWith('pause-1', now.toISOString(), 5);
+  });
+
+  it('resumes pauses that have ended without touching the period end', async () => {
+    const subscription = buildSubscription({
+      status: 'paused',
+      paused_at: daysFromNow(-14),
+      pause_ends_at: daysFromNow(0),
+      current_period_end: daysFromNow(10),
+    });
+    pauses.findDueResumes.mockResolvedValue([subscription]);
+    pauses.findOpenBySubscription.mockResolvedValue({ id: 'pause-1', started_at: daysFromNow(-14), scheduled_end_at: daysFromNow(0), extended_days: 14 });
+
+    const resumed = await service.resumeDuePauses(now);
+
+    expect(resumed).toBe(1);
+    expect(pauses.updateState).toHaveBeenCalledWith('sub-1', expect.objectContaining({ currentPeriodEnd: daysFromNow(10) }));
+    expect(pauses.close).toHaveBeenCalledWith('pause-1', now.toISOString(), 14);
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SubscriptionPlanChangeService, SubscriptionPlanChangeError } from '../subscription-plan-change-service';
+import { SubscriptionEventBus } from '../../observers/subscription-event-bus';
+import type { SubscriptionRecord } from '../../domain/types';
+
+const subscriptions = {
+  findByUserId: vi.fn(),
+};
+
+const planChanges = {
+  claim: vi.fn(),
+  complete: vi.fn(),
+  markFailed: vi.fn(),
+};
+
+const charges = {
+  chargeStripe: vi.fn(),
+  chargeWallet: vi.fn(),
+  reverse: vi.fn(),
+};
+
+const wallet = {
+  addFunds: vi.fn(),
+  getWalletCurrency: vi.fn(),
+};
+
+const fx = {
+  convert: vi.fn(),
+};
+
+vi.mock('../../repositories/subscription-repository', () => ({
+  SubscriptionRepository: vi.fn().mockImplementation(function () {
+    return subscriptions;
+  }),
+}));
+
+vi.mock('../../repositories/subscription-plan-change-repository', () => ({
+  SubscriptionPlanChangeRepository: vi.fn().mockImplementation(function () {
+    return planChanges;
+  }),
+}));
+
+vi.mock('../subscription-charge-service', () => ({
+  SubscriptionChargeService: vi.fn().mockImplementation(function () {
+    return charges;
+  }),
+}));
+
+vi.mock('../wallet-service', () => ({
+  WalletService: vi.fn().mockImplementation(function () {
+    return wallet;
+  }),
+}));
+
+vi.mock('../fx-rate-service', () => ({
+  FxRateService: vi.fn().mockImplementation(function () {
+    return fx;
+  }),
+}));
+
+vi.mock('@/modules/app-settings/services/app-settings-service', () => ({
+  getAppSettings: vi.fn().mockResolvedValue({ currency: 'eur' }),
+}));
+
+const basic = { id: 'plan-basic', slug: 'basic', name_en: 'Basic', price: 30, is_active: true, is_mlm_plan: true, is_affiliate_plan: false };
+const pro = { id: 'plan-pro', slug: 'pro', name_en: 'Pro', price: 90, is_active: true, is_mlm_plan: true, is_affiliate_plan: false };
+const affiliate = { id: 'plan-affiliate', slug: 'affiliate', name_en: 'Affiliate', price: 15, is_active: true, is_mlm_plan: false, is_affiliate_plan: true };
+
+vi.mock('@/lib/services/plan-service', () => ({
+  getPlans: vi.fn(() => Promise.resolve([basic, pro, affiliate])),
+  getPlanById: vi.fn(() => Promise.resolve(null)),
+}));
+
+const now = new Date('2026-03-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const tenDaysLeft = new Date(now.getTime() + 10 * DAY_MS).toISOString();
+const twentyDaysAgo = new Date(now.getTime() - 20 * DAY_MS).toISOString();
+
+const buildSubscription = (overrides: Partial<SubscriptionRecord> = {}): SubscriptionRecord => ({
+  id: 'sub-1',
+  user_id: 'member-1',
+  plan_id: 'plan-basic',
+  subscription_type: 'mlm',
+  status: 'active',
+  current_period_start: twentyDaysAgo,
+  current_period_end: tenDaysLeft,
+  current_period_paid_cents: 3000,
+  gateway: 'stripe',
+  cancel_at_period_end: false,
+  default_payment_method_id: 'pm-1',
+  created_at: now.toISOString(),
+  ...overrides,
+});
+
+describe('SubscriptionPlanChangeService', () => {
+  let rpc: ReturnType<typeof vi.fn>;
+  let service: SubscriptionPlanChangeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+    rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+    service = new SubscriptionPlanChangeService({ rpc } as unknown as SupabaseClient, new SubscriptionEventBus());
+    subscriptions.findByUserId.mockResolvedValue(buildSubscription());
+    planChanges.claim.mockResolvedValue('change-1');
+    planChanges.complete.mockImplementation(() => Promise.resolve(buildSubscription({ plan_id: 'plan-pro' })));
+    charges.chargeStripe.mockResolvedValue({
+      success: true,
+      gateway: 'stripe',
+      gatewayRef: 'stripe:plan-change:pi_1',
+      transactionId: 'pi_1',
+    });
+    charges.chargeWallet.mockResolvedValue({ success: true, gateway: 'wallet', gatewayRef: 'wallet:plan-change:txn-1' });
+    wallet.getWalletCurrency.mockResolvedValue('EUR');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('prorates an upgrade over the remaining days of the period', async () => {
+    const preview = await service.preview('member-1', 'plan-pro', now);
+
+    expect(preview).toMatchObject({
+      direction: 'upgrade',
+      remainingDays: 10,
+      creditCents: 1000,
+      chargeCents: 3000,
+      amountDueCents: 2000,
+      subscriptionType: 'mlm',
+      currency: 'EUR',
+    });
+    expect(charges.chargeStripe).not.toHaveBeenCalled();
+  });
+
+  it('prorates over the real length of the current period', async () => {
+    subscriptions.findByUserId.mockResolvedValue(
+      buildSubscription({ current_period_start: new Date(now.getTime() - 10 * DAY_MS).toISOString() }),
+    );
+
+    const preview = await service.preview('member-1', 'plan-pro', now);
+
+    expect(preview).toMatchObject({ remainingDays: 10, creditCents: 1500, chargeCents: 4500, amountDueCents: 3000 });
+  });
+
+  it('credits only what was paid for the current period', async () => {
+    subscriptions.findByUserId.mockResolvedValue(buildSubscription({ current_period_paid_cents: 1500 }));
+    const discounted = await service.preview('member-1', 'plan-affiliate', now);
+
+    subscriptions.findByUserId.mockResolvedValue(buildSubscription({ current_period_paid_cents: 0 }));
+    const unpaid = await service.preview('member-1', 'plan-affiliate', now);
+
+    expect(discounted).toMatchObject({ creditCents: 500, chargeCents: 500, amountDueCents: 0 });
+    expect(unpaid).toMatchObject({ creditCents: 0, chargeCents: 500, amountDueCents: 500 });
+  });
+
+  it('charges the upgrade on the saved card without moving the period end', async () => {
+    const result = await service.changePlan('member-1', 'plan-pro');
+
+    expect(planChanges.claim).toHaveBeenCalledWith(expect.objectContaining({
+      subscriptionId: 'sub-1',
+      fromPlanId: 'plan-basic',
+      toPlanId: 'plan-pro',
+      amountDueCents: 2000,
+      periodEnd: tenDaysLeft,
+    }));
+    expect(charges.chargeStripe).toHaveBeenCalledWith(expect.objectContaining({
+      amountCents: 2000,
+      currency: 'EUR',
+      paymentMethodId: 'pm-1',
+      intent: 'subscription_plan_change',
+      reference: 'plan-change-change-1',
+    }));
+    expect(planChanges.complete).toHaveBeenCalledWith('change-1', { gateway: 'stripe', gatewayRef: 'stripe:plan-change:pi_1' });
+    expect(result.gateway).toBe('stripe');
+  });
+
+  it('credits a downgrade to the wallet and switches to the affiliate subscription', async () => {
+    const result = await service.changePlan('member-1', 'plan-affiliate');
+
+    expect(result.preview.amountDueCents).toBe(-500);
+    expect(wallet.addFunds).toHaveBeenCalledWith(
+      'member-1',
+      500,
+      'subscription_credit',
+      undefined,
+      expect.any(String),
+      expect.objectContaining({ plan_id: 'plan-affiliate', currency: 'EUR' }),
+    );
+    expect(result).toMatchObject({ walletCreditCents: 500, walletCreditCurrency: 'EUR' });
+    expect(fx.convert).not.toHaveBeenCalled();
+    expect(charges.chargeStripe).not.toHaveBeenCalled();
+    expect(planChanges.claim).toHaveBeenCalledWith(expect.objectContaining({ toSubscriptionType: 'affiliate', amountDueCents: -500 }));
+    expect(planChanges.complete).toHaveBeenCalledWith('change-1', { gateway: null, gatewayRef: null });
+    expect(rpc).toHaveBeenCalledWith('recalculate_phase', { p_user: 'member-1' });
+  });
+
+  it('converts a downgrade credit into a wallet held in another currency', async () => {
+    wallet.getWalletCurrency.mockResolvedValue('MXN');
+    fx.convert.mockResolvedValue({ amountCents: 10000, currency: 'MXN', originalAmountCents: 500, originalCurrency: 'EUR', rate: 20 });
+
+    const result = await service.changePlan('member-1', 'plan-affiliate');
+
+    expect(fx.convert).toHaveBeenCalledWith(500, 'EUR', 'MXN');
+    expect(wallet.addFunds).toHaveBeenCalledWith(
+      'member-1',
+      10000,
+      'subscription_credit',
+      undefined,
+      expect.any(String),
+      expect.objectContaining({ currency: 'MXN', fx_rate: 20, original_amount_cents: 500, original_currency: 'EUR' }),
+    );
+    expect(result).toMatchObject({ walletCreditCents: 10000, walletCreditCurrency: 'MXN' });
+  });
+
+  it('does not switch plans when the charge fails', async () => {
+    charges.chargeStripe.mockResolvedValue({ success: false, gateway: 'stripe', error: 'Card declined' });
+
+    await expect(service.changePlan('member-1', 'plan-pro')).rejects.toMatchObject({ code: 'PAYMENT_FAILED' });
+    expect(planChanges.markFailed).toHaveBeenCalledWith('change-1');
+    expect(planChanges.complete).not.toHaveBeenCalled();
+  });
+
+  it('does not charge a double submit of a change already pending or applied', async () => {
+    planChanges.claim.mockResolvedValue(null);
+
+    await expect(service.changePlan('member-1', 'plan-pro')).rejects.toMatchObject({ code: 'PLAN_CHANGE_IN_PROGRESS' });
+    expect(charges.chargeStripe).not.toHaveBeenCalled();
+    expect(planChanges.complete).not.toHaveBeenCalled();
+  });
+
+  it('gives the charge back when the plan change cannot be applied', async () => {
+    const failure = new Error('connection reset');
+    planChanges.complete.mockRejectedValue(failure);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(service.changePlan('member-1', 'plan-pro')).rejects.toBe(failure);
+
+    expect(charges.reverse).toHaveBeenCalledWith(
+      expect.objectContaining({ gateway: 'stripe', transactionId: 'pi_1' }),
+      { userId: 'member-1', amountCents: 2000, reference: 'plan-change-change-1' },
+    );
+    expect(planChanges.markFailed).toHaveBeenCalledWith('change-1');
+  });
+
+  it('requires the wallet for PayPal subscriptions', async () => {
+    subscriptions.findByUserId.mockResolvedValue(buildSubscription({ gateway: 'paypal' }));
+
+    await expect(service.changePlan('member-1', 'plan-pro')).rejects.toBeInstanceOf(SubscriptionPlanChangeError);
+
+    await service.changePlan('member-1', 'plan-pro', 'wallet');
+    expect(charges.chargeWallet).toHaveBeenCalledWith(expect.objectContaining({ amountCents: 2000 }));
+  });
+});
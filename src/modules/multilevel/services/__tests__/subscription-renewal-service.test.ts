@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getPlanById, getPlans } from '@/lib/services/plan-service';
+import { SubscriptionRenewalService } from '../subscription-renewal-service';
+import { SubscriptionEventBus } from '../../observers/subscription-event-bus';
+import type { SubscriptionRecord } from '../../domain/types';
+
+const lifecycle = { handleConfirmedPayment: vi.fn() };
+const dunning = { findDueRetries: vi.fn(), getAttemptNumber: vi.fn(), recordFailure: vi.fn(), recordRecovery: vi.fn() };
+const pauses = { resumeDuePauses: vi.fn() };
+const charges = { chargeStripe: vi.fn(), chargeWallet: vi.fn() };
+
+vi.mock('../subscription-lifecycle-service', () => ({
+  SubscriptionLifecycleService: vi.fn().mockImplementation(function () {
+    return lifecycle;
+  }),
+}));
+
+vi.mock('../subscription-dunning-service', () => ({
+  SubscriptionDunningService: vi.fn().mockImplementation(function () {
+    return dunning;
+  }),
+}));
+
+vi.mock('../subscription-pause-service', () => ({
+  SubscriptionPauseService: vi.fn().mockImplementation(function () {
+    return pauses;
+  }),
+}));
+
+vi.mock('../subscription-charge-service', () => ({
+  SubscriptionChargeService: vi.fn().mockImplementation(function () {
+    return charges;
+  }),
+}));
+
+vi.mock('../subscription-notification-service', () => ({
+  SubscriptionNotificationService: vi.fn().mockImplementation(function () {
+    return { sendRenewalSuccessEmail: vi.fn().mockResolvedValue(undefined) };
+  }),
+}));
+
+vi.mock('@/modules/app-settings/services/app-settings-service', () => ({
+  getAppSettings: vi.fn().mockResolvedValue({ currency: 'eur' }),
+}));
+
+const pro = { id: 'plan-pro', slug: 'pro', price: 59.9, is_default: false };
+const basic = { id: 'plan-basic', slug: 'basic', price: 19, is_default: true };
+
+vi.mock('@/lib/services/plan-service', () => ({
+  getPlanById: vi.fn(),
+  getPlans: vi.fn(),
+}));
+
+const buildSubscription = (overrides: Partial<SubscriptionRecord> = {}): SubscriptionRecord => ({
+  id: 'sub-1',
+  user_id: 'member-1',
+  plan_id: 'plan-pro',
+  subscription_type: 'mlm',
+  status: 'active',
+  current_period_end: '2026-10-20T00:00:00.000Z',
+  gateway: 'stripe',
+  cancel_at_period_end: false,
+  default_payment_method_id: 'pm-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const buildClient = (rows: SubscriptionRecord[]) => {
+  const query = {
+    select: vi.fn(() => query),
+    in: vi.fn(() => query),
+    eq: vi.fn(() => query),
+    is: vi.fn(() => query),
+    not: vi.fn(() => query),
+    lte: vi.fn(() => Promise.resolve({ data: rows, error: null })),
+  };
+  return { from: vi.fn(() => query) } as unknown as SupabaseClient;
+};
+
+describe('SubscriptionRenewalService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPlanById).mockResolvedValue(pro as never);
+    vi.mocked(getPlans).mockResolvedValue([pro, basic] as never);
+    pauses.resumeDuePauses.mockResolvedValue(0);
+    dunning.findDueRetries.mockResolvedValue([]);
+    dunning.getAttemptNumber.mockReturnValue(0);
+    dunning.recordFailure.mockResolvedValue({ status: 'past_due' });
+    charges.chargeStripe.mockResolvedValue({ success: true, gateway: 'stripe', gatewayRef: 'stripe:renewal:pi_1' });
+    charges.chargeWallet.mockResolvedValue({ success: false, gateway: 'wallet', error: 'Insufficient wallet balance' });
+    lifecycle.handleConfirmedPayment.mockResolvedValue({});
+  });
+
+  it('charges the current price of the subscription plan in the platform currency', async () => {
+    const service = new SubscriptionRenewalService(buildClient([buildSubscription()]), new SubscriptionEventBus());
+
+    const summary = await service.processRenewals();
+
+    expect(getPlanById).toHaveBeenCalledWith('plan-pro');
+    expect(charges.chargeStripe).toHaveBeenCalledWith(
+      expect.objectContaining({ amountCents: 5990, currency: 'EUR', intent: 'subscription_renewal' }),
+    );
+    expect(lifecycle.handleConfirmedPayment).toHaveBeenCalledWith(expect.objectContaining({ amountCents: 5990 }));
+    expect(summary.results[0]).toMatchObject({ success: true, amountCents: 5990, currency: 'EUR' });
+  });
+
+  it('renews a subscription without a plan at the default plan price', async () => {
+    const service = new SubscriptionRenewalService(
+      buildClient([buildSubscription({ plan_id: null, gateway: 'wallet' })]),
+      new SubscriptionEventBus(),
+    );
+    charges.chargeWallet.mockResolvedValue({ success: true, gateway: 'wallet', gatewayRef: 'wallet:renewal:txn-1' });
+
+    await service.processRenewals();
+
+    expect(getPlanById).not.toHaveBeenCalled();
+    expect(charges.chargeWallet).toHaveBeenCalledWith(expect.objectContaining({ amountCents: 1900, currency: 'EUR' }));
+  });
+
+  it('hands a failed renewal to dunning with the plan price', async () => {
+    charges.chargeStripe.mockResolvedValue({ success: false, gateway: 'stripe', error: 'Card declined' });
+    const service = new SubscriptionRenewalService(buildClient([buildSubscription()]), new SubscriptionEventBus());
+
+    const summary = await service.processRenewals();
+
+    expect(dunning.recordFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ amountCents: 5990, currency: 'EUR', gateway: 'stripe' }),
+    );
+    expect(summary).toMatchObject({ failed: 1, successful: 0 });
+  });
+
+  it('does not charge when the plan no longer exists', async () => {
+    vi.mocked(getPlanById).mockResolvedValue(null);
+    const service = new SubscriptionRenewalService(buildClient([buildSubscription()]), new SubscriptionEventBus());
+
+    const summary = await service.processRenewals();
+
+    expect(charges.chargeStripe).not.toHaveBeenCalled();
+    expect(summary.results[0]).toMatchObject({ success: false, error: expect.stringContaining('plan-pro') });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TreeExplorerError, TreeExplorerService, toTreeCsv } from '../tree-explorer-service';
+
+const rpcResults: Record<string, unknown> = {};
+const rpc = vi.fn((name: string) => Promise.resolve({ data: rpcResults[name] ?? null, error: null }));
+const client = { rpc } as unknown as SupabaseClient;
+
+const treeRow = (descendant: string, level: number, sponsorId: string, status: string | null = 'active') => ({
+  descendant,
+  email: `${descendant}@example.com`,
+  name: descendant,
+  status,
+  level,
+  phase: 1,
+  allow_team_messages: true,
+  sponsor_id: sponsorId,
+});
+
+describe('TreeExplorerService', () => {
+  let service: TreeExplorerService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(rpcResults)) {
+      delete rpcResults[key];
+    }
+    service = new TreeExplorerService(client);
+  });
+
+  it('pages the direct members of a node with their rollups', async () => {
+    rpcResults.fetch_tree_children = [
+      {
+        member_id: 'ben',
+        email: 'ben@example.com',
+        name: 'Ben',
+        status: 'active',
+        level: 2,
+        phase: 1,
+        allow_team_messages: false,
+        sponsor_id: 'ana',
+        child_count: 3,
+        downline_size: 12,
+        active_count: 7,
+        volume_cents: 45000,
+        total_count: 5,
+      },
+    ];
+
+    const page = await service.fetchChildren('root', 'ana', { status: 'active' }, { limit: 1, offset: 2 });
+
+    expect(rpc).toHaveBeenCalledWith('fetch_tree_children', {
+      p_root: 'root',
+      p_parent: 'ana',
+      p_status: 'active',
+      p_phase: null,
+      p_limit: 1,
+      p_offset: 2,
+    });
+    expect(page).toMatchObject({ parentId: 'ana', total: 5, hasMore: true });
+    expect(page.nodes[0]).toMatchObject({
+      id: 'ben',
+      level: 2,
+      sponsorId: 'ana',
+      allowTeamMessages: false,
+      childCount: 3,
+      rollup: { downlineSize: 12, activeCount: 7, volumeCents: 45000 },
+    });
+  });
+
+  it('tells leaves apart from nodes outside the network', async () => {
+    rpcResults.fetch_tree_children = [];
+    rpcResults.network_depth = 4;
+    await expect(service.fetchChildren('root', 'leaf')).resolves.toMatchObject({ nodes: [], total: 0, hasMore: false });
+
+    rpcResults.network_depth = null;
+    await expect(service.fetchChildren('root', 'stranger')).rejects.toBeInstanceOf(TreeExplorerError);
+  });
+
+  it('returns search matches with the path to expand', async () => {
+    rpcResults.search_tree_members = [
+      { member_id: 'cy', email: 'cy@example.com', name: 'Cy', status: null, level: 3, phase: null, path: ['ana', 'ben'], total_count: 1 },
+    ];
+
+    const result = await service.search('root', '  cy ');
+
+    expect(rpc).toHaveBeenCalledWith('search_tree_members', expect.objectContaining({ p_query: 'cy', p_limit: 20 }));
+    expect(result.matches).toEqual([expect.objectContaining({ id: 'cy', level: 3, path: ['ana', 'ben'] })]);
+    await expect(service.search('root', '   ')).resolves.toMatchObject({ matches: [], total: 0 });
+  });
+
+  it('exports a subtree with levels relative to the root and rollups before filtering', async () => {
+    rpcResults.network_depth = 2;
+    rpcResults.fetch_multilevel_tree = [
+      treeRow('ben', 1, 'ana'),
+      treeRow('cy', 1, 'ana', 'canceled'),
+      treeRow('dan', 2, 'ben'),
+      treeRow('eve', 3, 'dan', 'past_due'),
+    ];
+
+    const rows = await service.exportSubtree('root', 'ana', { status: 'active' }, 10);
+
+    expect(rpc).toHaveBeenCalledWith('fetch_multilevel_tree', { p_user: 'ana', p_max_levels: 8 });
+    expect(rows.map((row) => [row.id, row.level, row.directCount, row.downlineSize, row.activeCount])).toEqual([
+      ['ben', 3, 1, 2, 1],
+      ['dan', 4, 1, 1, 0],
+    ]);
+  });
+});
+
+describe('toTreeCsv', () => {
+  it('escapes separators, quotes and formulas', () => {
+    const csv = toTreeCsv([
+      {
+        id: 'ben',
+        email: 'ben@example.com',
+        name: '=HYPERLINK("x"), Ben',
+        status: 'active',
+        level: 1,
+        phase: null,
+        sponsorId: 'ana',
+        directCount: 0,
+        downlineSize: 0,
+        activeCount: 0,
+      },
+    ]);
+
+    expect(csv.split('\n')).toEqual([
+      'id,name,email,level,sponsor_id,status,phase,direct_count,downline_size,active_count',
+      `ben,"'=HYPERLINK(""x""), Ben",ben@example.com,1,ana,active,,0,0,0`,
+    ]);
+  });
+});
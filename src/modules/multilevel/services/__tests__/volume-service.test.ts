@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { VolumeService, resolveVolumePeriod } from '../volume-service';
+
+const volumes = {
+  recordOrderVolume: vi.fn(),
+  reverseOrderVolume: vi.fn(),
+  listVolumes: vi.fn(),
+};
+
+vi.mock('../../repositories/member-volume-repository', () => ({
+  MemberVolumeRepository: vi.fn().mockImplementation(function () {
+    return volumes;
+  }),
+}));
+
+const now = new Date('2026-01-15T12:00:00.000Z');
+
+describe('VolumeService', () => {
+  let service: VolumeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new VolumeService({} as SupabaseClient);
+  });
+
+  it('records and reverses order volume with the ratio clamped', async () => {
+    volumes.recordOrderVolume.mockResolvedValue(120);
+    volumes.reverseOrderVolume.mockResolvedValue(30);
+
+    await expect(service.recordOrder('order-1')).resolves.toBe(120);
+    await expect(service.reverseOrder('order-1', 0.25)).resolves.toBe(30);
+    await service.reverseOrder('order-1', 1.4);
+
+    expect(volumes.reverseOrderVolume).toHaveBeenNthCalledWith(1, 'order-1', 0.25);
+    expect(volumes.reverseOrderVolume).toHaveBeenNthCalledWith(2, 'order-1', 1);
+  });
+
+  it('summarizes the current and previous month, with zero for months without volume', async () => {
+    volumes.listVolumes.mockResolvedValue([
+      { user_id: 'ana', period: '2025-12', personal_volume: 80, group_volume: 950 },
+    ]);
+
+    const summary = await service.getSummary('ana', now);
+
+    expect(volumes.listVolumes).toHaveBeenCalledWith('ana', ['2026-01', '2025-12']);
+    expect(summary).toEqual({
+      current: { period: '2026-01', personalVolume: 0, groupVolume: 0 },
+      previous: { period: '2025-12', personalVolume: 80, groupVolume: 950 },
+    });
+  });
+});
+
+describe('resolveVolumePeriod', () => {
+  it('labels calendar months in UTC', () => {
+    expect(resolveVolumePeriod(now)).toBe('2026-01');
+    expect(resolveVolumePeriod(now, -1)).toBe('2025-12');
+    expect(resolveVolumePeriod(new Date('2026-03-31T23:30:00.000Z'))).toBe('2026-03');
+  });
+});
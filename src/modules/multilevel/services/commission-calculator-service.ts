@@ -3,6 +3,9 @@ import { getAppSettings } from '@/modules/app-settings/services/app-settings-ser
 import { getCachedPhaseLevels } from '@/lib/helpers/settings-helper';
 import type { SentryLogger as _SentryLogger } from '../../observability/services/sentry-logger';
 import { SellerCommissionService } from './seller-commission-service';
+import { FxRateService } from './fx-rate-service';
+import { NetworkMoveRepository } from '../repositories/network-move-repository';
+import type { FxConversion } from '../domain/types';
 
 interface CommissionEntry {
   userId: string;
@@ -11,13 +14,25 @@ interface CommissionEntry {
   amountCents: number;
 }
 
+/**
+ * Amount of an order that earns commission: the merchandise after discounts, without the
+ * shipping charge or the sales tax collected for the tax authority (whether it was added to the
+ * prices or included in them)
+ */
+export const resolveCommissionBaseCents = (order: {
+  totalCents: number;
+  shippingCents?: number | null;
+  taxCents?: number | null;
+}): number =>
+  Math.max(0, order.totalCents - Math.max(0, order.shippingCents ?? 0) - Math.max(0, order.taxCents ?? 0));
+
 export class CommissionCalculatorService {
   constructor(private readonly client: SupabaseClient) { }
 
   /**
    * Calculate and create network commissions for a purchase
    * @param buyerId - The user who made the purchase
-   * @param totalCents - Total purchase amount in cents
+   * @param totalCents - Commission base of the purchase in cents (see `resolveCommissionBaseCents`)
    * @returns Array of created commission entries
    *
    * IMPORTANT: Only sponsors with ACTIVE subscriptions receive commissions.
@@ -25,6 +40,15 @@ export class CommissionCalculatorService {
    *
    * This method also applies the seller's personal commission (Ecommerce Earnings %)
    * when the sale is made through an affiliate store.
+   *
+   * When `networkCommissionDepth` is configured, the buyer's upline receives unilevel
+   * network commissions down to that depth.
+   *
+   * Commissions are computed in the sale currency (`options.currency`, defaulting to the
+   * platform currency) and stored in each sponsor's payout currency using the FX rate table.
+   *
+   * `options.attributedAt` resolves the upline as it was at that date (e.g. the order date when
+   * recalculating), so network moves made after the sale don't change who earns from it.
    */
   async calculateAndCreateCommissions(
     buyerId: string,
@@ -32,15 +56,21 @@ export class CommissionCalculatorService {
     options: {
       orderId?: string;
       orderMetadata?: Record<string, unknown> | null;
+      currency?: string;
+      attributedAt?: Date;
     } = {},
   ): Promise<CommissionEntry[]> {
     // Get app settings to know commission amounts per level
     const settings = await getAppSettings();
+    const saleCurrency = (options.currency ?? settings.currency).toUpperCase();
+    const fx = new FxRateService(this.client);
     const phaseLevels = await getCachedPhaseLevels();
     const groupGainByLevel = new Map<number, number>();
+    const networkRateByLevel = new Map<number, number>();
 
     phaseLevels.forEach((levelConfig) => {
       groupGainByLevel.set(levelConfig.level, levelConfig.subscriptionDiscountRate ?? 0);
+      networkRateByLevel.set(levelConfig.level, levelConfig.commissionRate ?? 0);
     });
 
     const normalizedOrderMetadata = await this.resolveOrderMetadata(options.orderId, options.orderMetadata);
@@ -59,7 +89,8 @@ export class CommissionCalculatorService {
         await sellerCommissionService.calculateAndApplySellerCommission(
           affiliateId,
           totalCents,
-          options.orderId
+          options.orderId,
+          saleCurrency,
         );
       } catch (sellerError) {
         console.error('[CommissionCalculator] Failed to apply seller commission:', sellerError);
@@ -67,11 +98,27 @@ export class CommissionCalculatorService {
       }
     }
 
-    // Network commissions based on level earnings have been removed
-    // Only retail commissions (Group Gain) are now calculated below
     const commissions: CommissionEntry[] = [];
     const now = new Date().toISOString();
 
+    // Unilevel network commissions: one row per eligible upline member of the buyer,
+    // using phase_levels.commission_rate of the matching depth (level 1 = direct sponsor)
+    if (settings.networkCommissionDepth > 0) {
+      const networkCommissions = await this.createNetworkCommissions(buyerId, totalCents, {
+        depth: settings.networkCommissionDepth,
+        rateByLevel: networkRateByLevel,
+        saleCurrency,
+        fallbackCurrency: settings.currency,
+        fx,
+        orderId: options.orderId,
+        createdAt: now,
+        attributedAt: options.attributedAt,
+      });
+      commissions.push(...networkCommissions);
+    }
+
+    // Retail commissions (Group Gain) for affiliate store sales are calculated below
+
     // NEW: Calculate retail commissions for affiliate's sponsors (when sale is from affiliate store)
     if (isAffiliateSale && affiliateId) {
       console.log(`[CommissionCalculator] Processing retail commissions for affiliate ${affiliateId}`);
@@ -87,7 +134,7 @@ export class CommissionCalculatorService {
 
       // Get affiliate's upline (their sponsors)
       // Using a fixed depth of 10 levels for upline chain
-      const affiliateUpline = await this.getUplineChain(affiliateId, 10);
+      const affiliateUpline = await this.getUplineChain(affiliateId, 10, options.attributedAt);
 
       if (affiliateUpline.length === 0) {
         console.log(`[CommissionCalculator] No upline found for affiliate ${affiliateId}`);
@@ -104,49 +151,64 @@ export class CommissionCalculatorService {
 
           if (retailCommissionRate > 0) {
             const normalizedTotalCents = Number.isFinite(totalCents) && totalCents > 0 ? totalCents : 0;
-            const retailCommissionCents = Math.round(normalizedTotalCents * retailCommissionRate);
-
-            // Insert retail commission
-            const { error: retailError } = await this.client
-              .from('network_commissions')
-              .insert({
-                user_id: directSponsorId,
-                member_id: affiliateId,
-                amount_cents: retailCommissionCents,
-                available_cents: retailCommissionCents,
-                currency: settings.currency,
-                level: 1,
-                metadata: {
-                  commission_type: 'retail_commission',
-                  retail_commission_cents: retailCommissionCents,
-                  retail_commission_rate: retailCommissionRate,
-                  sale_total_cents: normalizedTotalCents,
-                  affiliate_id: affiliateId,
-                  affiliate_phase: affiliatePhase,
-                  order_id: options.orderId,
-                },
-                created_at: now,
-                updated_at: now,
-              })
-              .select('id')
-              .single();
-
-            if (retailError) {
-              console.error('[CommissionCalculator] Failed to create retail commission:', retailError);
+            const saleCommissionCents = Math.round(normalizedTotalCents * retailCommissionRate);
+            const payout = await this.toPayoutCurrency(
+              directSponsorId,
+              saleCommissionCents,
+              saleCurrency,
+              settings.currency,
+              fx,
+            );
+            if (!payout) {
+              console.log(`[CommissionCalculator] Skipping retail commission for ${directSponsorId} until an FX rate is configured`);
             } else {
-              commissions.push({
-                userId: directSponsorId,
-                memberId: affiliateId,
-                level: 1,
-                amountCents: retailCommissionCents,
-              });
-
-              console.log(
-                `[CommissionCalculator] Created retail commission: Sponsor ${directSponsorId}, ` +
-                `Affiliate ${affiliateId} (Phase ${affiliatePhase}), ` +
-                `Rate ${(retailCommissionRate * 100).toFixed(1)}%, ` +
-                `Amount ${retailCommissionCents} cents from sale of ${normalizedTotalCents} cents`
-              );
+              const retailCommissionCents = payout.amountCents;
+
+              // Insert retail commission
+              const { error: retailError } = await this.client
+                .from('network_commissions')
+                .insert({
+                  user_id: directSponsorId,
+                  member_id: affiliateId,
+                  amount_cents: retailCommissionCents,
+                  available_cents: retailCommissionCents,
+                  currency: payout.currency,
+                  sale_currency: saleCurrency,
+                  sale_amount_cents: saleCommissionCents,
+                  fx_rate: payout.rate,
+                  level: 1,
+                  metadata: {
+                    commission_type: 'retail_commission',
+                    retail_commission_cents: retailCommissionCents,
+                    retail_commission_rate: retailCommissionRate,
+                    sale_total_cents: normalizedTotalCents,
+                    affiliate_id: affiliateId,
+                    affiliate_phase: affiliatePhase,
+                    order_id: options.orderId,
+                  },
+                  created_at: now,
+                  updated_at: now,
+                })
+                .select('id')
+                .single();
+
+              if (retailError) {
+                console.error('[CommissionCalculator] Failed to create retail commission:', retailError);
+              } else {
+                commissions.push({
+                  userId: directSponsorId,
+                  memberId: affiliateId,
+                  level: 1,
+                  amountCents: retailCommissionCents,
+                });
+
+                console.log(
+                  `[CommissionCalculator] Created retail commission: Sponsor ${directSponsorId}, ` +
+                  `Affiliate ${affiliateId} (Phase ${affiliatePhase}), ` +
+                  `Rate ${(retailCommissionRate * 100).toFixed(1)}%, ` +
+                  `Amount ${retailCommissionCents} cents from sale of ${normalizedTotalCents} cents`
+                );
+              }
             }
           } else {
             console.log(`[CommissionCalculator] No retail commission rate configured for phase ${affiliatePhase}`);
@@ -160,6 +222,143 @@ export class CommissionCalculatorService {
     return commissions;
   }
 
+  /**
+   * Create unilevel network commissions for the buyer's upline
+   * @param buyerId - The user who made the purchase
+   * @param totalCents - Commission base of the purchase in cents (see `resolveCommissionBaseCents`)
+   * @returns Array of created commission entries
+   *
+   * Upline members without an active subscription are skipped (no compression),
+   * as are levels without a configured commission rate.
+   */
+  private async createNetworkCommissions(
+    buyerId: string,
+    totalCents: number,
+    params: {
+      depth: number;
+      rateByLevel: Map<number, number>;
+      saleCurrency: string;
+      fallbackCurrency: string;
+      fx: FxRateService;
+      orderId?: string;
+      createdAt: string;
+      attributedAt?: Date;
+    },
+  ): Promise<CommissionEntry[]> {
+    const normalizedTotalCents = Number.isFinite(totalCents) && totalCents > 0 ? totalCents : 0;
+    if (normalizedTotalCents === 0) {
+      return [];
+    }
+
+    const upline = await this.getUplineChain(buyerId, params.depth, params.attributedAt);
+    const entries: CommissionEntry[] = [];
+    const rows: Record<string, unknown>[] = [];
+
+    for (const [index, uplineId] of upline.entries()) {
+      const level = index + 1;
+      const rate = params.rateByLevel.get(level) ?? 0;
+
+      if (rate <= 0) {
+        continue;
+      }
+
+      const saleAmountCents = Math.round(normalizedTotalCents * rate);
+      if (saleAmountCents <= 0) {
+        continue;
+      }
+
+      const isEligible = await this.checkActiveSubscription(uplineId);
+      if (!isEligible) {
+        console.log(`[CommissionCalculator] Upline ${uplineId} (level ${level}) does not have active subscription, skipping network commission`);
+        continue;
+      }
+
+      const payout = await this.toPayoutCurrency(
+        uplineId,
+        saleAmountCents,
+        params.saleCurrency,
+        params.fallbackCurrency,
+        params.fx,
+      );
+      if (!payout || payout.amountCents <= 0) {
+        continue;
+      }
+
+      const amountCents = payout.amountCents;
+
+      rows.push({
+        user_id: uplineId,
+        member_id: buyerId,
+        amount_cents: amountCents,
+        available_cents: amountCents,
+        currency: payout.currency,
+        sale_currency: params.saleCurrency,
+        sale_amount_cents: saleAmountCents,
+        fx_rate: payout.rate,
+        level,
+        metadata: {
+          commission_type: 'network_commission',
+          network_commission_rate: rate,
+          sale_total_cents: normalizedTotalCents,
+          buyer_id: buyerId,
+          order_id: params.orderId,
+        },
+        created_at: params.createdAt,
+        updated_at: params.createdAt,
+      });
+      entries.push({ userId: uplineId, memberId: buyerId, level, amountCents });
+    }
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { error } = await this.client.from('network_commissions').insert(rows);
+
+    if (error) {
+      console.error('[CommissionCalculator] Failed to create network commissions:', error);
+      return [];
+    }
+
+    console.log(
+      `[CommissionCalculator] Created ${entries.length} network commissions for buyer ${buyerId} ` +
+      `from sale of ${normalizedTotalCents} cents`
+    );
+
+    return entries;
+  }
+
+  /**
+   * Convert a commission from the sale currency into the sponsor's payout (wallet) currency.
+   * Returns null when no FX rate is stored for the pair; the commission is then skipped and
+   * can be created later with `recalculateOrderCommissions` once the rate is configured.
+   */
+  private async toPayoutCurrency(
+    userId: string,
+    amountCents: number,
+    saleCurrency: string,
+    fallbackCurrency: string,
+    fx: FxRateService,
+  ): Promise<FxConversion | null> {
+    const { data: wallet } = await this.client
+      .from('wallets')
+      .select('currency')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const payoutCurrency = ((wallet as { currency?: string | null } | null)?.currency ?? fallbackCurrency).toUpperCase();
+
+    try {
+      return await fx.convert(amountCents, saleCurrency, payoutCurrency);
+    } catch (error) {
+      console.error(
+        `[CommissionCalculator] Cannot convert commission for ${userId} from ${saleCurrency} to ${payoutCurrency}:`,
+        error,
+      );
+      return null;
+    }
+  }
+
   private async resolveOrderMetadata(
     orderId?: string,
     providedMetadata?: Record<string, unknown> | null,
@@ -229,17 +428,19 @@ export class CommissionCalculatorService {
    * Get the upline chain for a user (sponsor, sponsor's sponsor, etc.)
    * @param userId - Starting user
    * @param maxLevels - Maximum levels to traverse
+   * @param attributedAt - Resolve the upline as it was at this date instead of the current network
    * @returns Array of user IDs in upline order
    */
-  private async getUplineChain(userId: string, maxLevels: number): Promise<string[]> {
+  private async getUplineChain(userId: string, maxLevels: number, attributedAt?: Date): Promise<string[]> {
     const upline: string[] = [];
+    const moves = attributedAt ? new NetworkMoveRepository(this.client) : null;
     let currentUserId: string | null = userId;
 
     for (let level = 0; level < maxLevels; level++) {
       // Get the sponsor of the current user
       const { data: profileData, error } = await this.client
         .from('profiles')
-        .select('referred_by, sponsor_id')
+        .select('network_parent_id, referred_by, sponsor_id')
         .eq('id', currentUserId)
         .single();
 
@@ -248,9 +449,21 @@ export class CommissionCalculatorService {
         break;
       }
 
-      // Try referred_by first, then sponsor_id (for schema compatibility)
-      const profile = profileData as { referred_by?: string | null; sponsor_id?: string | null };
-      const sponsorId: string | null | undefined = profile.referred_by || profile.sponsor_id;
+      // Follow the network parent (spillover placement) first, then referred_by and sponsor_id
+      const profile = profileData as {
+        network_parent_id?: string | null;
+        referred_by?: string | null;
+        sponsor_id?: string | null;
+      };
+      let sponsorId: string | null | undefined =
+        profile.network_parent_id || profile.referred_by || profile.sponsor_id;
+
+      if (moves && attributedAt) {
+        const historicalSponsorId = await moves.findNetworkParentAt(currentUserId, attributedAt);
+        if (historicalSponsorId !== undefined) {
+          sponsorId = historicalSponsorId;
+        }
+      }
 
       if (!sponsorId) {
         console.log(`[CommissionCalculator] No sponsor found for user ${currentUserId}`);
@@ -272,7 +485,7 @@ export class CommissionCalculatorService {
     // Get order details
     const { data: order, error: orderError } = await this.client
       .from('orders')
-      .select('user_id, total_cents, status')
+      .select('user_id, total_cents, commission_base_cents, currency, status, created_at')
       .eq('id', orderId)
       .single();
 
@@ -294,8 +507,11 @@ export class CommissionCalculatorService {
       .eq('metadata->>order_id', orderId);
 
     // Recalculate
-    await this.calculateAndCreateCommissions(order.user_id, order.total_cents, {
+    // Orders created before the commission base was stored earn on their total
+    await this.calculateAndCreateCommissions(order.user_id, order.commission_base_cents ?? order.total_cents, {
       orderId,
+      currency: order.currency ?? undefined,
+      attributedAt: order.created_at ? new Date(order.created_at) : undefined,
     });
   }
 }
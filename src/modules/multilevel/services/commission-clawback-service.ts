@@ -0,0 +1,203 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CommissionClawbackRepository,
+  type ClaimedClawbackRow,
+  type ClawbackOrderRow,
+} from '../repositories/commission-clawback-repository';
+import { CommissionNotificationService } from './commission-notification-service';
+import { VolumeService } from './volume-service';
+import { WalletService } from './wallet-service';
+import type { ClawbackReason, ClawbackSourceType } from '../domain/types';
+
+export interface ClawbackRequest {
+  orderId?: string;
+  gatewayRef?: string;
+  reason: ClawbackReason;
+  /**
+   * Cumulative amount refunded or disputed for the order. Defaults to the order total.
+   */
+  refundedCents?: number;
+  externalReference?: string | null;
+  locale?: string | null;
+}
+
+export interface ClawbackAdjustment {
+  userId: string;
+  sourceType: ClawbackSourceType;
+  sourceId: string;
+  voidedCents: number;
+  debitedCents: number;
+}
+
+export interface ClawbackResult {
+  orderId: string | null;
+  adjustments: ClawbackAdjustment[];
+  totalReversedCents: number;
+  fullyRefunded: boolean;
+}
+
+/**
+ * Reverses the earnings generated by an order when it is refunded or charged back.
+ *
+ * Unpaid network commissions are voided by reducing `available_cents`; whatever was already
+ * transferred to the wallet (and wallet credits such as seller commissions) is recovered with a
+ * negative `commission_clawback` wallet transaction. The adjustments are claimed in
+ * `commission_clawbacks` by one RPC that locks the order and computes the target reversal from
+ * the cumulative refunded amount, so a repeated or concurrent provider event never reverses
+ * more than once. Wallet debits are applied after the claim.
+ */
+export class CommissionClawbackService {
+  private readonly clawbacks: CommissionClawbackRepository;
+  private readonly wallets: WalletService;
+  private readonly notifications: CommissionNotificationService;
+  private readonly volumes: VolumeService;
+
+  constructor(private readonly client: SupabaseClient) {
+    this.clawbacks = new CommissionClawbackRepository(client);
+    this.wallets = new WalletService(client);
+    this.notifications = new CommissionNotificationService(client);
+    this.volumes = new VolumeService(client);
+  }
+
+  async clawbackOrder(request: ClawbackRequest): Promise<ClawbackResult> {
+    const order = await this.resolveOrder(request);
+
+    if (!order) {
+      console.log('[CommissionClawback] No order found for clawback request', {
+        orderId: request.orderId,
+        gatewayRef: request.gatewayRef,
+      });
+      return { orderId: null, adjustments: [], totalReversedCents: 0, fullyRefunded: false };
+    }
+
+    const ratio = this.resolveRatio(order, request.refundedCents);
+    const externalReference = request.externalReference ?? null;
+
+    const claims = await this.clawbacks.claimClawbacks({
+      orderId: order.id,
+      reason: request.reason,
+      ratio,
+      externalReference,
+    });
+
+    const adjustments: ClawbackAdjustment[] = [];
+
+    for (const claim of claims) {
+      if (claim.debited_cents > 0) {
+        await this.debitClaim(order.id, claim, request.reason, externalReference);
+      }
+
+      adjustments.push({
+        userId: claim.user_id,
+        sourceType: claim.source_type,
+        sourceId: claim.source_id,
+        voidedCents: claim.voided_cents,
+        debitedCents: claim.debited_cents,
+      });
+    }
+
+    // Volume is reversed in the month it was recorded; a failure must not block the clawback
+    try {
+      await this.volumes.reverseOrder(order.id, ratio);
+    } catch (error) {
+      console.error(`[CommissionClawback] Failed to reverse the volume of order ${order.id}`, error);
+    }
+
+    const fullyRefunded = ratio >= 1;
+    if (fullyRefunded && request.reason === 'refund' && order.status !== 'refunded') {
+      await this.clawbacks.markOrderRefunded(order.id);
+    }
+
+    const totalReversedCents = adjustments.reduce(
+      (sum, entry) => sum + entry.voidedCents + entry.debitedCents,
+      0,
+    );
+
+    await this.notifyAffectedUsers(order, adjustments, request);
+
+    console.log(
+      `[CommissionClawback] Reversed ${totalReversedCents} cents across ${adjustments.length} entries for order ${order.id} (${request.reason})`,
+    );
+
+    return {
+      orderId: order.id,
+      adjustments,
+      totalReversedCents,
+      fullyRefunded,
+    };
+  }
+
+  private async resolveOrder(request: ClawbackRequest): Promise<ClawbackOrderRow | null> {
+    if (request.orderId) {
+      return this.clawbacks.findOrderById(request.orderId);
+    }
+
+    if (request.gatewayRef) {
+      return this.clawbacks.findOrderByGatewayReference(request.gatewayRef);
+    }
+
+    return null;
+  }
+
+  private resolveRatio(order: ClawbackOrderRow, refundedCents?: number): number {
+    const totalCents = Number(order.total_cents ?? 0);
+
+    if (refundedCents === undefined || totalCents <= 0) {
+      return 1;
+    }
+
+    return Math.min(1, Math.max(0, refundedCents / totalCents));
+  }
+
+  /**
+   * Recover the paid-out part of a claimed reversal from the wallet. The claim is already
+   * recorded, so a failed debit is logged with the clawback id for reconciliation instead of
+   * being retried by the next event.
+   */
+  private async debitClaim(
+    orderId: string,
+    claim: ClaimedClawbackRow,
+    reason: ClawbackReason,
+    externalReference: string | null,
+  ): Promise<void> {
+    const reverses = claim.source_type === 'network_commission'
+      ? { reverses_commission_id: claim.source_id }
+      : { reverses_transaction_id: claim.source_id, reverses_reason: claim.source_reason };
+
+    try {
+      await this.wallets.addFunds(claim.user_id, -claim.debited_cents, 'commission_clawback', undefined, undefined, {
+        order_id: orderId,
+        clawback_id: claim.clawback_id,
+        clawback_reason: reason,
+        ...reverses,
+        external_reference: externalReference,
+      });
+    } catch (error) {
+      console.error(`[CommissionClawback] Failed to debit clawback ${claim.clawback_id} of order ${orderId}`, error);
+    }
+  }
+
+  private async notifyAffectedUsers(
+    order: ClawbackOrderRow,
+    adjustments: ClawbackAdjustment[],
+    request: ClawbackRequest,
+  ): Promise<void> {
+    const totalsByUser = new Map<string, number>();
+    adjustments.forEach((entry) => {
+      totalsByUser.set(entry.userId, (totalsByUser.get(entry.userId) ?? 0) + entry.voidedCents + entry.debitedCents);
+    });
+
+    await Promise.all(
+      Array.from(totalsByUser.entries()).map(([userId, amountCents]) =>
+        this.notifications.sendClawbackEmail({
+          userId,
+          amountCents,
+          currency: order.currency ?? 'USD',
+          orderId: order.id,
+          reason: request.reason,
+          locale: request.locale,
+        }),
+      ),
+    );
+  }
+}
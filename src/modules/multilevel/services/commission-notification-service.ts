@@ -0,0 +1,123 @@
+import { getDefaultAppName } from '@/lib/config/app-config';
+import { sendEmail } from '@/lib/services/email-service';
+import { sanitizeAppNameForEmailDomain } from '@/i18n/dictionaries/default';
+import { createEmailTemplateService, EMAIL_TEMPLATE_IDS, type TemplateLocale } from '@/modules/email-templates';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ClawbackReason } from '../domain/types';
+
+interface ProfileRow {
+  name?: string | null;
+  email?: string | null;
+}
+
+interface ClawbackNotificationParams {
+  userId: string;
+  amountCents: number;
+  currency: string;
+  orderId: string;
+  reason: ClawbackReason;
+  locale?: string | null;
+}
+
+const resolveFromAddress = (appName: string) => {
+  const fromName = process.env.CONTACT_FROM_NAME?.trim() || appName;
+  const fromEmailEnv = process.env.CONTACT_FROM_EMAIL?.trim();
+  if (fromEmailEnv) {
+    return `${fromName} <${fromEmailEnv}>`;
+  }
+
+  const domain = `${sanitizeAppNameForEmailDomain(appName)}.app`;
+  return `${fromName} <no-reply@${domain}>`;
+};
+
+/**
+ * Notifies sponsors about adjustments made to the commissions they earned.
+ */
+export class CommissionNotificationService {
+  private readonly templateService = createEmailTemplateService();
+
+  constructor(private readonly client: SupabaseClient) {}
+
+  private formatAmount(amountCents: number, currency: string): string {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency.toUpperCase(),
+    }).format(amountCents / 100);
+  }
+
+  private async getProfile(userId: string): Promise<ProfileRow | null> {
+    try {
+      const { data } = await this.client
+        .from('profiles')
+        .select('name,email')
+        .eq('id', userId)
+        .maybeSingle();
+      return (data as ProfileRow | null) ?? null;
+    } catch (error) {
+      console.error('[CommissionNotification] Failed to fetch profile', error);
+      return null;
+    }
+  }
+
+  /**
+   * Send email notification when commissions are reversed after a refund or chargeback
+   */
+  async sendClawbackEmail(params: ClawbackNotificationParams): Promise<void> {
+    const profile = await this.getProfile(params.userId);
+
+    if (!profile?.email) {
+      console.warn('[CommissionNotification] Skipping clawback email: missing recipient email for user', params.userId);
+      return;
+    }
+
+    const appName = getDefaultAppName();
+    const locale: TemplateLocale = params.locale === 'es' ? 'es' : 'en';
+    const userName = profile.name?.trim().length ? profile.name.trim() : 'there';
+    const amount = this.formatAmount(params.amountCents, params.currency);
+    const orderCode = params.orderId.slice(0, 8);
+    const reasonLabel =
+      params.reason === 'chargeback'
+        ? (locale === 'es' ? 'contracargo' : 'chargeback')
+        : (locale === 'es' ? 'reembolso' : 'refund');
+
+    try {
+      const template = await this.templateService.getProcessedTemplate(
+        EMAIL_TEMPLATE_IDS.COMMISSION_CLAWBACK,
+        {
+          userName,
+          amount,
+          orderCode,
+          reason: reasonLabel,
+          appName,
+        },
+        locale,
+      );
+
+      if (template) {
+        await sendEmail({
+          from: resolveFromAddress(appName),
+          to: profile.email,
+          subject: template.subject,
+          html: template.html,
+        });
+        return;
+      }
+
+      const subject = locale === 'es'
+        ? `Ajuste de comisión - ${appName}`
+        : `Commission adjustment - ${appName}`;
+      const text = locale === 'es'
+        ? `Hola ${userName},\n\nEl pedido ${orderCode} recibió un ${reasonLabel}, por lo que revertimos ${amount} de las comisiones que generó.\n\nGracias por ser parte de ${appName}.`
+        : `Hi ${userName},\n\nOrder ${orderCode} received a ${reasonLabel}, so we reversed ${amount} of the commissions it generated.\n\nThank you for being part of ${appName}.`;
+
+      await sendEmail({
+        from: resolveFromAddress(appName),
+        to: profile.email,
+        subject,
+        text,
+      });
+    } catch (error) {
+      console.error('[CommissionNotification] Failed to send clawback email', error);
+    }
+  }
+}
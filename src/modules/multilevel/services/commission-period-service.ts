@@ -0,0 +1,197 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CommissionPeriodRecord,
+  CommissionPeriodWithStatements,
+  CommissionStatementDetail,
+  CommissionStatementRecord,
+  CommissionStatementWithMember,
+} from '../domain/types';
+import { CommissionPeriodRepository } from '../repositories/commission-period-repository';
+import { escapeCsvValue } from './tree-explorer-service';
+import { resolveVolumePeriod } from './volume-service';
+
+export type CommissionPeriodErrorCode = 'INVALID_PERIOD' | 'PERIOD_NOT_ENDED' | 'PERIOD_NOT_CLOSED' | 'STATEMENT_NOT_FOUND';
+
+export class CommissionPeriodError extends Error {
+  constructor(
+    message: string,
+    public readonly code: CommissionPeriodErrorCode,
+  ) {
+    super(message);
+    this.name = 'CommissionPeriodError';
+  }
+}
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * First instant of the month after `period` (UTC)
+ */
+export function resolvePeriodEnd(period: string): Date {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 1));
+}
+
+const CSV_COLUMNS: Array<[header: string, value: (row: CommissionStatementWithMember) => unknown]> = [
+  ['user_id', (row) => row.user_id],
+  ['name', (row) => row.member.name],
+  ['email', (row) => row.member.email],
+  ['currency', (row) => row.currency],
+  ['retail', (row) => row.retail_cents / 100],
+  ['seller', (row) => row.seller_cents / 100],
+  ['subscription', (row) => row.subscription_cents / 100],
+  ['phase_bonus', (row) => row.phase_bonus_cents / 100],
+  ['adjustments', (row) => row.adjustment_cents / 100],
+  ['total', (row) => row.total_cents / 100],
+  ['lines', (row) => row.line_count],
+];
+
+export function toCommissionPeriodCsv(statements: CommissionStatementWithMember[]): string {
+  return [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...statements.map((row) =>
+      CSV_COLUMNS.map(([, value]) => {
+        const cell = value(row);
+        // Amounts are never formulas; escaping would break negative adjustments
+        return typeof cell === 'number' ? String(cell) : escapeCsvValue(cell);
+      }).join(','),
+    ),
+  ].join('\n');
+}
+
+/**
+ * Monthly close of commissions. Closing a finished calendar month freezes every commission,
+ * seller commission and phase bonus of the month into statement lines, settles the refunds and
+ * chargebacks recorded in the month as adjustments, and stores one statement per member and
+ * currency with the totals by type. The close is idempotent and the database rejects any later
+ * change to the commissions of a closed month.
+ */
+export class CommissionPeriodService {
+  private readonly periods: CommissionPeriodRepository;
+
+  constructor(client: SupabaseClient) {
+    this.periods = new CommissionPeriodRepository(client);
+  }
+
+  async closePeriod(period: string, closedBy: string | null, now: Date = new Date()): Promise<CommissionPeriodRecord> {
+    if (!PERIOD_PATTERN.test(period)) {
+      throw new CommissionPeriodError('Period must be a month as YYYY-MM', 'INVALID_PERIOD');
+    }
+
+    if (resolvePeriodEnd(period) > now) {
+      throw new CommissionPeriodError(`Period ${period} has not ended yet`, 'PERIOD_NOT_ENDED');
+    }
+
+    let closed: CommissionPeriodRecord;
+    try {
+      closed = await this.periods.closePeriod(period, closedBy);
+    } catch (error) {
+      throw this.toPeriodError(error);
+    }
+
+    console.log(
+      `[CommissionPeriodService] Period ${period} closed with ${closed.statement_count} statements for ${closed.member_count} members`,
+    );
+
+    return closed;
+  }
+
+  /**
+   * Closes the month before `now`, for the monthly cron
+   */
+  async closePreviousPeriod(now: Date = new Date()): Promise<CommissionPeriodRecord> {
+    return this.closePeriod(resolveVolumePeriod(now, -1), null, now);
+  }
+
+  async listPeriods(limit?: number): Promise<CommissionPeriodRecord[]> {
+    return this.periods.listPeriods(limit);
+  }
+
+  /**
+   * A closed period with the statements of every member
+   */
+  async getPeriod(period: string): Promise<CommissionPeriodWithStatements> {
+    const record = await this.requireClosedPeriod(period);
+    const statements = await this.periods.listStatements({ periodId: record.id });
+
+    return { ...record, statements: await this.withMembers(statements) };
+  }
+
+  /**
+   * Statements of a member, newest period first
+   */
+  async listMemberStatements(
+    userId: string,
+  ): Promise<Array<CommissionStatementRecord & { period: CommissionPeriodRecord['period'] }>> {
+    const statements = await this.periods.listStatements({ userId });
+    const periods = await this.periods.findPeriodsByIds([...new Set(statements.map((statement) => statement.period_id))]);
+    const labels = new Map(periods.map((record) => [record.id, record.period]));
+
+    return statements
+      .map((statement) => ({ ...statement, period: labels.get(statement.period_id) ?? '' }))
+      .sort((a, b) => b.period.localeCompare(a.period) || a.currency.localeCompare(b.currency));
+  }
+
+  /**
+   * Statement of a member for a closed period, with every line, one statement per currency
+   */
+  async getStatement(period: string, userId: string): Promise<CommissionStatementDetail> {
+    const record = await this.requireClosedPeriod(period);
+    const statements = await this.periods.listStatements({ periodId: record.id, userId });
+
+    if (statements.length === 0) {
+      throw new CommissionPeriodError(`No commission statement for ${period}`, 'STATEMENT_NOT_FOUND');
+    }
+
+    const [lines, [member]] = await Promise.all([
+      this.periods.listLines(record.id, userId),
+      this.periods.listMembers([userId]),
+    ]);
+
+    return {
+      period: record,
+      member: member ?? { id: userId, name: null, email: null },
+      statements,
+      lines,
+    };
+  }
+
+  private async requireClosedPeriod(period: string): Promise<CommissionPeriodRecord> {
+    if (!PERIOD_PATTERN.test(period)) {
+      throw new CommissionPeriodError('Period must be a month as YYYY-MM', 'INVALID_PERIOD');
+    }
+
+    const record = await this.periods.findPeriod(period);
+
+    if (!record || record.status !== 'closed') {
+      throw new CommissionPeriodError(`Period ${period} is not closed`, 'PERIOD_NOT_CLOSED');
+    }
+
+    return record;
+  }
+
+  private async withMembers(statements: CommissionStatementRecord[]): Promise<CommissionStatementWithMember[]> {
+    const members = await this.periods.listMembers([...new Set(statements.map((statement) => statement.user_id))]);
+    const byId = new Map(members.map((member) => [member.id, member]));
+
+    return statements
+      .map((statement) => ({
+        ...statement,
+        member: byId.get(statement.user_id) ?? { id: statement.user_id, name: null, email: null },
+      }))
+      .sort((a, b) => (a.member.name ?? '').localeCompare(b.member.name ?? '') || a.currency.localeCompare(b.currency));
+  }
+
+  private toPeriodError(error: unknown): unknown {
+    const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? '');
+
+    if (message.includes('commission_period_not_ended')) {
+      return new CommissionPeriodError('The period has not ended yet', 'PERIOD_NOT_ENDED');
+    }
+    if (message.includes('invalid_commission_period')) {
+      return new CommissionPeriodError('Period must be a month as YYYY-MM', 'INVALID_PERIOD');
+    }
+
+    return error;
+  }
+}
@@ -4,18 +4,21 @@ import { PhaseRepository } from '../repositories/phase-repository';
 import { SubscriptionRepository } from '../repositories/subscription-repository';
 import { WalletRepository } from '../repositories/wallet-repository';
 import { NetworkOverviewService } from './network-overview-service';
+import { VolumeService, resolveVolumePeriod } from './volume-service';
 
 export class DashboardSummaryService {
   private readonly phases: PhaseRepository;
   private readonly subscriptions: SubscriptionRepository;
   private readonly wallets: WalletRepository;
   private readonly networkOverview: NetworkOverviewService;
+  private readonly volumes: VolumeService;
 
   constructor(private readonly client: SupabaseClient) {
     this.phases = new PhaseRepository(client);
     this.subscriptions = new SubscriptionRepository(client);
     this.wallets = new WalletRepository(client);
     this.networkOverview = new NetworkOverviewService(client);
+    this.volumes = new VolumeService(client);
   }
 
   async getSummary(userId: string): Promise<SubscriptionSummary> {
@@ -53,11 +56,12 @@ export class DashboardSummaryService {
       });
 
     // Execute ALL queries in parallel, including the optimized phase query
-    const [phaseRes, subscriptionRes, walletRes, networkRes] = await Promise.allSettled([
+    const [phaseRes, subscriptionRes, walletRes, networkRes, volumeRes] = await Promise.allSettled([
       phaseWithCommissionPromise,
       this.subscriptions.findByUserId(userId),
       this.wallets.findByUserId(userId),
       this.networkOverview.getOverview(userId),
+      this.volumes.getSummary(userId),
     ]);
 
     if (phaseRes.status === 'rejected') {
@@ -72,6 +76,9 @@ export class DashboardSummaryService {
     if (networkRes.status === 'rejected') {
       console.error('[DashboardSummaryService] networkOverview.getOverview failed:', networkRes.reason);
     }
+    if (volumeRes.status === 'rejected') {
+      console.error('[DashboardSummaryService] volumes.getSummary failed:', volumeRes.reason);
+    }
 
     const phase = phaseRes.status === 'fulfilled' ? phaseRes.value : null;
     const subscription = subscriptionRes.status === 'fulfilled' ? subscriptionRes.value : null;
@@ -79,6 +86,12 @@ export class DashboardSummaryService {
     const network = networkRes.status === 'fulfilled'
       ? networkRes.value
       : { totalMembers: 0, activeMembers: 0, inactiveMembers: 0, levels: [], members: [] };
+    const volume = volumeRes.status === 'fulfilled'
+      ? volumeRes.value
+      : {
+          current: { period: resolveVolumePeriod(), personalVolume: 0, groupVolume: 0 },
+          previous: { period: resolveVolumePeriod(new Date(), -1), personalVolume: 0, groupVolume: 0 },
+        };
 
     const level1Snapshot = network.levels.find((snapshot) => snapshot.level === 1);
     const level2Snapshot = network.levels.find((snapshot) => snapshot.level === 2);
@@ -92,6 +105,7 @@ export class DashboardSummaryService {
       level1Count,
       level2Count,
       network,
+      volume,
     };
   }
 }
@@ -0,0 +1,130 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { FxRateRepository } from '../repositories/fx-rate-repository';
+import type { FxConversion, FxRateRecord } from '../domain/types';
+
+export class FxRateNotFoundError extends Error {
+  constructor(
+    public readonly fromCurrency: string,
+    public readonly toCurrency: string,
+  ) {
+    super(`No FX rate configured to convert ${fromCurrency} into ${toCurrency}`);
+    this.name = 'FxRateNotFoundError';
+  }
+}
+
+const normalizeCurrency = (currency: string) => currency.trim().toUpperCase();
+
+/**
+ * Converts amounts between currencies using the stored `fx_rates` table.
+ *
+ * A pair is resolved from a direct rate, the inverse of the opposite rate, or by crossing
+ * through the platform base currency (`settings.currency`). Lookups are cached per instance,
+ * so one service should be reused while processing a single order.
+ */
+export class FxRateService {
+  private readonly rates: FxRateRepository;
+  private readonly cache = new Map<string, number | null>();
+
+  constructor(private readonly client: SupabaseClient) {
+    this.rates = new FxRateRepository(client);
+  }
+
+  async getRate(fromCurrency: string, toCurrency: string, at: Date = new Date()): Promise<number> {
+    const from = normalizeCurrency(fromCurrency);
+    const to = normalizeCurrency(toCurrency);
+
+    if (from === to) {
+      return 1;
+    }
+
+    const pairRate = await this.findPairRate(from, to, at);
+    if (pairRate !== null) {
+      return pairRate;
+    }
+
+    const settings = await getAppSettings();
+    const baseCurrency = normalizeCurrency(settings.currency);
+
+    if (baseCurrency !== from && baseCurrency !== to) {
+      const toBase = await this.findPairRate(from, baseCurrency, at);
+      const fromBase = toBase !== null ? await this.findPairRate(baseCurrency, to, at) : null;
+
+      if (toBase !== null && fromBase !== null) {
+        return toBase * fromBase;
+      }
+    }
+
+    throw new FxRateNotFoundError(from, to);
+  }
+
+  async convert(
+    amountCents: number,
+    fromCurrency: string,
+    toCurrency: string,
+    at: Date = new Date(),
+  ): Promise<FxConversion> {
+    const rate = await this.getRate(fromCurrency, toCurrency, at);
+
+    return {
+      amountCents: Math.round(amountCents * rate),
+      currency: normalizeCurrency(toCurrency),
+      originalAmountCents: amountCents,
+      originalCurrency: normalizeCurrency(fromCurrency),
+      rate,
+    };
+  }
+
+  /**
+   * Convert into the platform base currency (`settings.currency`), used for reporting totals
+   */
+  async convertToBase(amountCents: number, fromCurrency: string, at: Date = new Date()): Promise<FxConversion> {
+    const settings = await getAppSettings();
+    return this.convert(amountCents, fromCurrency, settings.currency, at);
+  }
+
+  async listRates(): Promise<FxRateRecord[]> {
+    return this.rates.listRates();
+  }
+
+  async setRate(params: {
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: number;
+    effectiveAt?: string;
+    source?: string;
+    createdBy?: string | null;
+  }): Promise<FxRateRecord> {
+    if (!Number.isFinite(params.rate) || params.rate <= 0) {
+      throw new Error('FX rate must be a positive number');
+    }
+
+    const record = await this.rates.insertRate({
+      ...params,
+      baseCurrency: normalizeCurrency(params.baseCurrency),
+      quoteCurrency: normalizeCurrency(params.quoteCurrency),
+    });
+    this.cache.clear();
+
+    return record;
+  }
+
+  private async findPairRate(from: string, to: string, at: Date): Promise<number | null> {
+    const cacheKey = `${from}:${to}:${at.toISOString()}`;
+    if (this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey) ?? null;
+    }
+
+    const timestamp = at.toISOString();
+    const direct = await this.rates.findLatestRate(from, to, timestamp);
+    let rate: number | null = direct ? direct.rate : null;
+
+    if (rate === null) {
+      const inverse = await this.rates.findLatestRate(to, from, timestamp);
+      rate = inverse && inverse.rate > 0 ? 1 / inverse.rate : null;
+    }
+
+    this.cache.set(cacheKey, rate);
+    return rate;
+  }
+}
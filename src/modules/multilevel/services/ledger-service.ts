@@ -0,0 +1,268 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LedgerRepository } from '../repositories/ledger-repository';
+import type {
+  LedgerAccountCode,
+  LedgerCurrencyReconciliation,
+  LedgerJournalEntry,
+  LedgerJournalLine,
+  LedgerReconciliationReport,
+  LedgerWalletMismatch,
+  WalletReason,
+} from '../domain/types';
+
+export class LedgerImbalanceError extends Error {
+  constructor(
+    message: string,
+    public readonly debitCents: number,
+    public readonly creditCents: number,
+  ) {
+    super(message);
+    this.name = 'LedgerImbalanceError';
+  }
+}
+
+const LEDGER_ACCOUNT_CODES: LedgerAccountCode[] = [
+  'user_wallet',
+  'platform_float',
+  'commissions_payable',
+  'payouts_in_transit',
+  'platform_revenue',
+];
+
+/**
+ * Account on the other side of a wallet movement. Commission credits clear through
+ * platform_revenue because the database trigger on network_commissions already moves
+ * the released amount out of commissions_payable into it.
+ */
+const WALLET_COUNTERPART_ACCOUNTS: Record<WalletReason, LedgerAccountCode> = {
+  recharge: 'platform_float',
+  purchase: 'platform_revenue',
+  withdrawal: 'payouts_in_transit',
+  sale_commission: 'platform_revenue',
+  phase_bonus: 'platform_revenue',
+  commission_clawback: 'platform_revenue',
+  subscription_credit: 'platform_revenue',
+  order_refund: 'platform_revenue',
+  earnings_transfer: 'platform_revenue',
+  admin_adjustment: 'platform_revenue',
+};
+
+/**
+ * Double-entry ledger behind the wallet balances.
+ *
+ * Wallet balances are liabilities of the platform: credits to a user wallet are matched by a
+ * debit to the counterpart account of the transaction reason, and vice versa.
+ */
+export class LedgerService {
+  private readonly ledger: LedgerRepository;
+
+  constructor(private readonly client: SupabaseClient) {
+    this.ledger = new LedgerRepository(client);
+  }
+
+  async postJournal(entry: LedgerJournalEntry): Promise<string> {
+    this.assertBalanced(entry.lines);
+    return this.ledger.postJournal(entry);
+  }
+
+  /**
+   * Post the journal for a wallet transaction already stored in `wallet_txns`
+   */
+  async recordWalletTransaction(params: {
+    transactionId: string;
+    userId: string;
+    deltaCents: number;
+    reason: WalletReason;
+    currency: string;
+    fxRate?: number | null;
+    memo?: string | null;
+  }): Promise<string> {
+    const { transactionId, userId, deltaCents, reason, currency, fxRate, memo } = params;
+    const amount = Math.abs(Math.floor(deltaCents));
+    const counterpart = WALLET_COUNTERPART_ACCOUNTS[reason];
+    const rate = fxRate ?? undefined;
+
+    const walletLine: LedgerJournalLine = {
+      accountCode: 'user_wallet',
+      userId,
+      currency,
+      fxRate: rate,
+      debitCents: deltaCents < 0 ? amount : 0,
+      creditCents: deltaCents > 0 ? amount : 0,
+    };
+    const counterpartLine: LedgerJournalLine = {
+      accountCode: counterpart,
+      currency,
+      fxRate: rate,
+      debitCents: walletLine.creditCents,
+      creditCents: walletLine.debitCents,
+    };
+
+    return this.postJournal({
+      referenceType: 'wallet_txn',
+      referenceId: transactionId,
+      memo: memo ?? reason,
+      lines: [counterpartLine, walletLine],
+    });
+  }
+
+  /**
+   * Network earnings sent straight to an external payout account
+   */
+  async recordPayoutSent(params: {
+    referenceId: string;
+    amountCents: number;
+    currency: string;
+    memo?: string | null;
+  }): Promise<string> {
+    return this.postJournal({
+      referenceType: 'payout',
+      referenceId: params.referenceId,
+      memo: params.memo ?? 'Payout sent',
+      lines: [
+        { accountCode: 'platform_revenue', currency: params.currency, debitCents: params.amountCents, creditCents: 0 },
+        { accountCode: 'payouts_in_transit', currency: params.currency, debitCents: 0, creditCents: params.amountCents },
+      ],
+    });
+  }
+
+  /**
+   * Proves, currency by currency, that wallet balances and unpaid commissions match the
+   * ledger and that the ledger itself balances. Amounts are never summed across currencies.
+   */
+  async getReconciliationReport(): Promise<LedgerReconciliationReport> {
+    const [accounts, wallets, unpaidCommissions] = await Promise.all([
+      this.ledger.listAccountBalances(),
+      this.ledger.listWalletBalances(),
+      this.ledger.sumUnpaidCommissions(),
+    ]);
+
+    const summaries = new Map<string, LedgerCurrencyReconciliation>();
+    const summaryFor = (currency: string) => {
+      let summary = summaries.get(currency);
+      if (!summary) {
+        summary = {
+          currency,
+          accountTotals: Object.fromEntries(LEDGER_ACCOUNT_CODES.map((code) => [code, 0])) as Record<
+            LedgerAccountCode,
+            number
+          >,
+          totalDebitsCents: 0,
+          totalCreditsCents: 0,
+          platformLiabilityCents: 0,
+          walletBalancesCents: 0,
+          unpaidCommissionsCents: unpaidCommissions[currency] ?? 0,
+          balanced: false,
+        };
+        summaries.set(currency, summary);
+      }
+      return summary;
+    };
+
+    const walletKey = (userId: string, currency: string) => `${userId}:${currency}`;
+    const ledgerWalletBalances = new Map<string, { userId: string; currency: string; balance: number }>();
+
+    for (const account of accounts) {
+      const debit = Number(account.debit_cents ?? 0);
+      const credit = Number(account.credit_cents ?? 0);
+      const balance = account.normal_balance === 'debit' ? debit - credit : credit - debit;
+      const summary = summaryFor(account.currency);
+
+      summary.totalDebitsCents += debit;
+      summary.totalCreditsCents += credit;
+      summary.accountTotals[account.code] += balance;
+
+      if (account.code === 'user_wallet' && account.user_id) {
+        ledgerWalletBalances.set(walletKey(account.user_id, account.currency), {
+          userId: account.user_id,
+          currency: account.currency,
+          balance,
+        });
+      }
+    }
+
+    const walletMismatches: LedgerWalletMismatch[] = [];
+
+    for (const wallet of wallets) {
+      const currency = wallet.currency;
+      const key = walletKey(wallet.user_id, currency);
+      const walletBalanceCents = Number(wallet.balance_cents ?? 0);
+      const ledgerBalanceCents = ledgerWalletBalances.get(key)?.balance ?? 0;
+      summaryFor(currency).walletBalancesCents += walletBalanceCents;
+      ledgerWalletBalances.delete(key);
+
+      if (walletBalanceCents !== ledgerBalanceCents) {
+        walletMismatches.push({ userId: wallet.user_id, currency, walletBalanceCents, ledgerBalanceCents });
+      }
+    }
+
+    ledgerWalletBalances.forEach(({ userId, currency, balance }) => {
+      if (balance !== 0) {
+        walletMismatches.push({ userId, currency, walletBalanceCents: 0, ledgerBalanceCents: balance });
+      }
+    });
+
+    Object.keys(unpaidCommissions).forEach((currency) => summaryFor(currency));
+
+    const currencies = Array.from(summaries.values())
+      .map((summary) => {
+        const { accountTotals } = summary;
+        summary.platformLiabilityCents =
+          accountTotals.user_wallet + accountTotals.commissions_payable + accountTotals.payouts_in_transit;
+        summary.balanced =
+          summary.totalDebitsCents === summary.totalCreditsCents &&
+          accountTotals.user_wallet === summary.walletBalancesCents &&
+          accountTotals.commissions_payable === summary.unpaidCommissionsCents;
+        return summary;
+      })
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+
+    return {
+      generatedAt: new Date().toISOString(),
+      currencies,
+      walletMismatches,
+      balanced: walletMismatches.length === 0 && currencies.every((summary) => summary.balanced),
+    };
+  }
+
+  private assertBalanced(lines: LedgerJournalLine[]): void {
+    if (lines.length < 2) {
+      throw new LedgerImbalanceError('A journal entry needs at least two lines', 0, 0);
+    }
+
+    const totals = new Map<string, { debitCents: number; creditCents: number }>();
+
+    for (const line of lines) {
+      const valid =
+        Number.isInteger(line.debitCents) &&
+        Number.isInteger(line.creditCents) &&
+        line.debitCents >= 0 &&
+        line.creditCents >= 0 &&
+        (line.debitCents > 0) !== (line.creditCents > 0) &&
+        Boolean(line.currency);
+
+      if (!valid) {
+        throw new LedgerImbalanceError('Each journal line must be either a debit or a credit in a currency', 0, 0);
+      }
+
+      if (line.accountCode === 'user_wallet' && !line.userId) {
+        throw new LedgerImbalanceError('User wallet lines require a userId', 0, 0);
+      }
+
+      const total = totals.get(line.currency) ?? { debitCents: 0, creditCents: 0 };
+      total.debitCents += line.debitCents;
+      total.creditCents += line.creditCents;
+      totals.set(line.currency, total);
+    }
+
+    totals.forEach(({ debitCents, creditCents }, currency) => {
+      if (debitCents !== creditCents) {
+        throw new LedgerImbalanceError(
+          `Unbalanced journal entry in ${currency}: debits ${debitCents} != credits ${creditCents}`,
+          debitCents,
+          creditCents,
+        );
+      }
+    });
+  }
+}
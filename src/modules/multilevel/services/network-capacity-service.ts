@@ -1,5 +1,90 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import type { SpilloverStrategy } from '@/modules/app-settings/domain/models/app-settings';
+import { NetworkPlacementRepository } from '../repositories/network-placement-repository';
+import type { PlacementStrategy } from '../domain/types';
+
+/**
+ * Deepest level below the enrolling sponsor where a spilled-over member can land
+ */
+export const MAX_SPILLOVER_DEPTH = 10;
+
+/**
+ * Times a member looks for a new slot when the one picked was taken before their placement saved
+ */
+const MAX_PLACEMENT_ATTEMPTS = 3;
+
+/**
+ * Member of the enrolling sponsor's downline considered as a placement parent
+ */
+export interface DownlineNode {
+  id: string;
+  /** Level below the enrolling sponsor (1 = direct member) */
+  depth: number;
+  /** Direct member of the sponsor that heads the leg this node belongs to */
+  legId: string;
+  /** Level 1 seats taken under this node */
+  seatsTaken: number;
+}
+
+export interface SpilloverSlot {
+  parentId: string;
+  strategy: PlacementStrategy;
+}
+
+export interface PlacementResult {
+  /** Network parent of the member, null for members without a sponsor */
+  parentId: string | null;
+  /** Strategy used when the member spilled over, null when placed under the enrolling sponsor */
+  strategy: PlacementStrategy | null;
+  spilled: boolean;
+}
+
+const firstOpenNode = (nodes: DownlineNode[], maxSeats: number, legId?: string) =>
+  nodes.find((node) => node.seatsTaken < maxSeats && (!legId || node.legId === legId)) ?? null;
+
+/**
+ * Picks the placement parent for a member whose enrolling sponsor is full. `nodes` must be in
+ * breadth-first order (by depth, oldest member first).
+ * - breadth_first: first node with an open seat, closest to the sponsor
+ * - weakest_leg: first open node inside the leg with the fewest members
+ * - sponsor_choice: first open node inside the leg picked by the sponsor, falling back to
+ *   breadth_first when there is no choice or the leg is full
+ */
+export function findSpilloverSlot(
+  nodes: DownlineNode[],
+  strategy: PlacementStrategy,
+  maxSeats: number,
+  preferredLegId?: string | null,
+): SpilloverSlot | null {
+  if (strategy === 'weakest_leg') {
+    const legSizes = new Map<string, number>();
+    for (const node of nodes) {
+      legSizes.set(node.legId, (legSizes.get(node.legId) ?? 0) + 1);
+    }
+
+    // Stable sort keeps the oldest leg first on ties
+    const legs = Array.from(legSizes.entries()).sort((left, right) => left[1] - right[1]);
+    for (const [legId] of legs) {
+      const node = firstOpenNode(nodes, maxSeats, legId);
+      if (node) {
+        return { parentId: node.id, strategy };
+      }
+    }
+
+    return null;
+  }
+
+  if (strategy === 'sponsor_choice' && preferredLegId) {
+    const node = firstOpenNode(nodes, maxSeats, preferredLegId);
+    if (node) {
+      return { parentId: node.id, strategy };
+    }
+  }
+
+  const node = firstOpenNode(nodes, maxSeats);
+  return node ? { parentId: node.id, strategy: 'breadth_first' } : null;
+}
 
 export class NetworkCapacityError extends Error {
   constructor(
@@ -15,7 +100,11 @@ export class NetworkCapacityError extends Error {
 }
 
 export class NetworkCapacityService {
-  constructor(private readonly client: SupabaseClient) {}
+  private readonly placements: NetworkPlacementRepository;
+
+  constructor(private readonly client: SupabaseClient) {
+    this.placements = new NetworkPlacementRepository(client);
+  }
 
   /**
    * Validates if a sponsor can accept a new direct member (level 1)
@@ -23,10 +112,10 @@ export class NetworkCapacityService {
    * @throws NetworkCapacityError if the sponsor has reached their level 1 capacity limit
    */
   async validateSponsorCapacity(userId: string): Promise<void> {
-    // Get the user's sponsor (referred_by)
+    // Get the user's network parent (placement parent, or referred_by when placed directly)
     const { data: profile, error: profileError } = await this.client
       .from('profiles')
-      .select('referred_by')
+      .select('network_parent_id')
       .eq('id', userId)
       .maybeSingle();
 
@@ -35,11 +124,11 @@ export class NetworkCapacityService {
     }
 
     // If no sponsor, user can subscribe as independent (no limit check needed)
-    if (!profile || !profile.referred_by) {
+    if (!profile || !profile.network_parent_id) {
       return;
     }
 
-    const sponsorId = profile.referred_by;
+    const sponsorId = profile.network_parent_id as string;
 
     // Get the max members allowed for level 1 from app settings
     const settings = await getAppSettings();
@@ -56,26 +145,260 @@ export class NetworkCapacityService {
     const { count, error: countError } = await this.client
       .from('profiles')
       .select('id', { count: 'exact', head: true })
-      .eq('referred_by', sponsorId)
+      .eq('network_parent_id', sponsorId)
       .neq('id', userId); // Exclude the current user in case they're re-subscribing
 
     if (countError) {
       throw countError;
     }
 
-    const currentCount = count ?? 0;
+    // Paused members free their seat unless admins keep counting them
+    const pausedCount = settings.pausedMembersCountTowardCapacity
+      ? 0
+      : await this.countPausedDirectMembers(sponsorId, userId);
+    const currentCount = Math.max(0, (count ?? 0) - pausedCount);
 
     // Check if sponsor has reached their limit
     if (currentCount >= maxMembersLevel1) {
+      throw this.capacityReached(sponsorId, currentCount, maxMembersLevel1);
+    }
+  }
+
+  /**
+   * Places a member in the network when their subscription activates. Members go under their
+   * enrolling sponsor while it has level 1 seats; otherwise they spill over into the sponsor's
+   * downline following the `spilloverStrategy` app setting. Members placed before keep their
+   * placement. A seat taken by another member in the meantime sends the member to the next open
+   * slot.
+   * @throws NetworkCapacityError when spillover is disabled or the downline has no open seat
+   */
+  async placeMember(userId: string, now: Date = new Date()): Promise<PlacementResult> {
+    for (let attempt = 1; ; attempt += 1) {
+      const { placement, sponsorId, seats } = await this.resolvePlacement(userId);
+
+      if (!seats || !placement.parentId || !placement.strategy) {
+        return placement;
+      }
+
+      if (await this.placements.placeUnder(userId, placement.parentId, placement.strategy, seats, now)) {
+        return placement;
+      }
+
+      if (attempt >= MAX_PLACEMENT_ATTEMPTS) {
+        throw new NetworkCapacityError(
+          'Los lugares disponibles en la red del afiliador se ocuparon mientras se procesaba tu ingreso.',
+          'spillover_slot_unavailable',
+          sponsorId ?? undefined,
+        );
+      }
+    }
+  }
+
+  /**
+   * Finds where a member would be placed without saving it, so a checkout can turn the member
+   * away before they pay
+   * @throws NetworkCapacityError when spillover is disabled or the downline has no open seat
+   */
+  async checkPlacement(userId: string): Promise<PlacementResult> {
+    const { placement } = await this.resolvePlacement(userId);
+    return placement;
+  }
+
+  /**
+   * Direct members the sponsor can pick as the leg that receives their spillover, and the
+   * current choice
+   */
+  async getSpilloverPreference(sponsorId: string): Promise<{
+    strategy: SpilloverStrategy;
+    legId: string | null;
+    legs: Array<{ id: string; name: string | null }>;
+  }> {
+    const [settings, legId, legs] = await Promise.all([
+      getAppSettings(),
+      this.placements.findSpilloverLeg(sponsorId),
+      this.placements.listDirectMembers(sponsorId),
+    ]);
+
+    return { strategy: settings.spilloverStrategy, legId, legs };
+  }
+
+  /**
+   * Stores the leg that receives the sponsor's spillover, null to clear it
+   * @throws NetworkCapacityError when the leg is not a direct member of the sponsor
+   */
+  async setSpilloverLeg(sponsorId: string, legId: string | null): Promise<void> {
+    if (legId) {
+      const legs = await this.placements.listDirectMembers(sponsorId);
+      if (!legs.some((leg) => leg.id === legId)) {
+        throw new NetworkCapacityError('El miembro elegido no está en tu primer nivel.', 'invalid_spillover_leg', sponsorId);
+      }
+    }
+
+    await this.placements.updateSpilloverLeg(sponsorId, legId);
+  }
+
+  /**
+   * Checks that a member can take `seats` more level 1 members, e.g. before an admin moves members
+   * under them
+   * @throws NetworkCapacityError if the extra members would exceed the level 1 limit
+   */
+  async assertSeatsAvailable(sponsorId: string, seats: number): Promise<void> {
+    const settings = await getAppSettings();
+    const maxSeats = settings.maxMembersPerLevel.find((config) => config.level === 1)?.maxMembers;
+
+    if (maxSeats === undefined || seats <= 0) {
+      return;
+    }
+
+    const { count, error } = await this.client
+      .from('profiles')
+      .select('id', { count: 'exact', head: true })
+      .eq('network_parent_id', sponsorId);
+
+    if (error) {
+      throw error;
+    }
+
+    const pausedCount = settings.pausedMembersCountTowardCapacity ? 0 : await this.countPausedDirectMembers(sponsorId);
+    const currentCount = Math.max(0, (count ?? 0) - pausedCount);
+
+    if (currentCount + seats > maxSeats) {
+      throw this.capacityReached(sponsorId, currentCount, maxSeats);
+    }
+  }
+
+  private async resolvePlacement(userId: string): Promise<{
+    placement: PlacementResult;
+    sponsorId: string | null;
+    /** Level 1 limit a new spillover slot was picked with, null when there is nothing to save */
+    seats: { maxSeats: number; countsPaused: boolean } | null;
+  }> {
+    const member = await this.placements.findMember(userId);
+
+    if (!member || !member.referred_by) {
+      return { placement: { parentId: null, strategy: null, spilled: false }, sponsorId: null, seats: null };
+    }
+
+    const sponsorId = member.referred_by;
+
+    if (member.placement_parent_id) {
+      return {
+        placement: { parentId: member.placement_parent_id, strategy: member.placement_strategy, spilled: true },
+        sponsorId,
+        seats: null,
+      };
+    }
+
+    const settings = await getAppSettings();
+    const maxSeats = settings.maxMembersPerLevel.find((config) => config.level === 1)?.maxMembers;
+
+    if (maxSeats === undefined) {
+      return { placement: { parentId: sponsorId, strategy: null, spilled: false }, sponsorId, seats: null };
+    }
+
+    const countsPaused = settings.pausedMembersCountTowardCapacity;
+    const directs = await this.placements.listChildren([sponsorId], userId);
+    const sponsorSeats = await this.countSeats(directs, countsPaused);
+
+    if (sponsorSeats < maxSeats) {
+      return { placement: { parentId: sponsorId, strategy: null, spilled: false }, sponsorId, seats: null };
+    }
+
+    const strategy = settings.spilloverStrategy;
+    if (strategy === 'disabled') {
+      throw this.capacityReached(sponsorId, sponsorSeats, maxSeats);
+    }
+
+    const preferredLegId =
+      strategy === 'sponsor_choice' ? await this.placements.findSpilloverLeg(sponsorId) : null;
+    const slot = await this.findSlot(directs, strategy, maxSeats, countsPaused, userId, preferredLegId);
+
+    if (!slot) {
       throw new NetworkCapacityError(
-        `El afiliador ha alcanzado su límite de ${maxMembersLevel1} miembros en su red. ` +
-          `Por favor, regístrate como usuario principal sin código de afiliado.`,
-        'sponsor_capacity_reached',
+        `La red del afiliador no tiene lugares disponibles en sus primeros ${MAX_SPILLOVER_DEPTH} niveles.`,
+        'spillover_slot_unavailable',
         sponsorId,
-        currentCount,
-        maxMembersLevel1,
+        sponsorSeats,
+        maxSeats,
+      );
+    }
+
+    return {
+      placement: { parentId: slot.parentId, strategy: slot.strategy, spilled: true },
+      sponsorId,
+      seats: { maxSeats, countsPaused },
+    };
+  }
+
+  /**
+   * Walks the sponsor's downline level by level until a slot is found. Weakest leg compares
+   * whole legs, so it always walks the full spillover depth.
+   */
+  private async findSlot(
+    directs: Array<{ id: string }>,
+    strategy: PlacementStrategy,
+    maxSeats: number,
+    countsPaused: boolean,
+    userId: string,
+    preferredLegId: string | null,
+  ): Promise<SpilloverSlot | null> {
+    const nodes: DownlineNode[] = [];
+    let frontier: DownlineNode[] = directs.map((direct) => ({ id: direct.id, depth: 1, legId: direct.id, seatsTaken: 0 }));
+
+    // A node's seats are known once its children are loaded, so the last level cannot receive members
+    while (frontier.length > 0 && frontier[0].depth < MAX_SPILLOVER_DEPTH) {
+      const children = await this.placements.listChildren(
+        frontier.map((node) => node.id),
+        userId,
       );
+      const paused = countsPaused ? new Set<string>() : await this.placements.listPausedUserIds(children.map((child) => child.id));
+      const byId = new Map(frontier.map((node) => [node.id, node]));
+      const next: DownlineNode[] = [];
+
+      for (const child of children) {
+        const parent = byId.get(child.network_parent_id);
+        if (!parent) {
+          continue;
+        }
+        if (!paused.has(child.id)) {
+          parent.seatsTaken += 1;
+        }
+        next.push({ id: child.id, depth: parent.depth + 1, legId: parent.legId, seatsTaken: 0 });
+      }
+
+      nodes.push(...frontier);
+      frontier = next;
+
+      if (strategy !== 'weakest_leg') {
+        const slot = findSpilloverSlot(nodes, strategy, maxSeats, preferredLegId);
+        // A sponsor_choice fallback waits until the chosen leg is exhausted
+        if (slot && (slot.strategy === strategy || !preferredLegId)) {
+          return slot;
+        }
+      }
     }
+
+    return findSpilloverSlot(nodes, strategy, maxSeats, preferredLegId);
+  }
+
+  private async countSeats(members: Array<{ id: string }>, countsPaused: boolean): Promise<number> {
+    if (countsPaused) {
+      return members.length;
+    }
+
+    const paused = await this.placements.listPausedUserIds(members.map((member) => member.id));
+    return members.length - paused.size;
+  }
+
+  private capacityReached(sponsorId: string, currentCount: number, maxAllowed: number): NetworkCapacityError {
+    return new NetworkCapacityError(
+      `El afiliador ha alcanzado su límite de ${maxAllowed} miembros en su red. ` +
+        `Por favor, regístrate como usuario principal sin código de afiliado.`,
+      'sponsor_capacity_reached',
+      sponsorId,
+      currentCount,
+      maxAllowed,
+    );
   }
 
   /**
@@ -94,13 +417,16 @@ export class NetworkCapacityService {
     const { count, error } = await this.client
       .from('profiles')
       .select('id', { count: 'exact', head: true })
-      .eq('referred_by', sponsorId);
+      .eq('network_parent_id', sponsorId);
 
     if (error) {
       throw error;
     }
 
-    const currentCount = count ?? 0;
+    const pausedCount = settings.pausedMembersCountTowardCapacity
+      ? 0
+      : await this.countPausedDirectMembers(sponsorId);
+    const currentCount = Math.max(0, (count ?? 0) - pausedCount);
     const available = Math.max(0, maxAllowed - currentCount);
     const percentage = maxAllowed > 0 ? Math.round((currentCount / maxAllowed) * 100) : 0;
 
@@ -111,4 +437,27 @@ export class NetworkCapacityService {
       percentage,
     };
   }
+
+  /**
+   * Count direct members (level 1) of a sponsor whose subscription is paused
+   */
+  private async countPausedDirectMembers(sponsorId: string, excludeUserId?: string): Promise<number> {
+    let query = this.client
+      .from('subscriptions')
+      .select('user_id, profiles!inner(network_parent_id)', { count: 'exact', head: true })
+      .eq('status', 'paused')
+      .eq('profiles.network_parent_id', sponsorId);
+
+    if (excludeUserId) {
+      query = query.neq('user_id', excludeUserId);
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return count ?? 0;
+  }
 }
@@ -0,0 +1,61 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DefaultOpportunityPlan } from '@/modules/opportunity/config/mlm-plan';
+import { SupabaseMemberNetworkRepository } from '@/modules/opportunity/repositories/supabase-member-network-repository';
+import { SupabaseMemberVolumeRepository } from '@/modules/opportunity/repositories/member-volume-repository';
+import { SupabasePhaseEvaluationRepository } from '@/modules/opportunity/repositories/phase-evaluation-repository';
+import { PhaseEvaluationService } from '@/modules/opportunity/services/phase-evaluation-service';
+import { PhaseRewardGrantService } from '@/modules/opportunity/services/phase-reward-grant-service';
+import type { NetworkPhaseImpact } from '../domain/types';
+
+export interface NetworkMovePhasePreviewer {
+  /**
+   * Phases of `memberIds` with the current network and with the network parents in
+   * `parentOverrides` (member id → new network parent)
+   */
+  preview(memberIds: string[], parentOverrides: ReadonlyMap<string, string | null>): Promise<NetworkPhaseImpact[]>;
+}
+
+/**
+ * Previews phases with the billing-cycle evaluation engine in dry-run mode, so nothing is saved
+ * and no reward is granted
+ */
+export class EvaluationPhasePreviewer implements NetworkMovePhasePreviewer {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async preview(memberIds: string[], parentOverrides: ReadonlyMap<string, string | null>): Promise<NetworkPhaseImpact[]> {
+    const current = this.createEvaluationService(new Map());
+    const moved = this.createEvaluationService(parentOverrides);
+    const impacts: NetworkPhaseImpact[] = [];
+
+    for (const memberId of memberIds) {
+      const [before, after] = await Promise.all([
+        current.evaluateMember(memberId, { dryRun: true }),
+        moved.evaluateMember(memberId, { dryRun: true }),
+      ]);
+
+      impacts.push({
+        memberId,
+        currentPhase: before.previousPhase,
+        phaseBefore: before.evaluatedPhase,
+        phaseAfter: after.evaluatedPhase,
+        change:
+          after.evaluatedPhase > before.evaluatedPhase
+            ? 'promoted'
+            : after.evaluatedPhase < before.evaluatedPhase
+              ? 'demoted'
+              : 'unchanged',
+      });
+    }
+
+    return impacts;
+  }
+
+  private createEvaluationService(parentOverrides: ReadonlyMap<string, string | null>): PhaseEvaluationService {
+    return new PhaseEvaluationService(DefaultOpportunityPlan, {
+      memberNetworkRepository: new SupabaseMemberNetworkRepository(this.client, parentOverrides),
+      phaseEvaluationRepository: new SupabasePhaseEvaluationRepository(this.client),
+      rewardGranter: new PhaseRewardGrantService(this.client),
+      memberVolumeRepository: new SupabaseMemberVolumeRepository(this.client),
+    });
+  }
+}
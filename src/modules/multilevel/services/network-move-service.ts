@@ -0,0 +1,333 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CircularReferralDetector } from '@/lib/security/circular-referral-detector';
+import type {
+  NetworkMoveRecord,
+  NetworkMoveScope,
+  NetworkMoveType,
+  NetworkMoveWithChanges,
+  NetworkPhaseImpact,
+} from '../domain/types';
+import {
+  NetworkMoveRepository,
+  type NetworkEdgeRow,
+  type NewNetworkMoveChange,
+} from '../repositories/network-move-repository';
+import { NetworkCapacityService } from './network-capacity-service';
+import type { NetworkMovePhasePreviewer } from './network-move-phase-previewer';
+
+export type NetworkMoveErrorCode =
+  | 'MEMBER_NOT_FOUND'
+  | 'PARENT_NOT_FOUND'
+  | 'SAME_PARENT'
+  | 'CIRCULAR_MOVE'
+  | 'INVALID_SCOPE'
+  | 'MOVE_NOT_FOUND'
+  | 'INVALID_STATUS'
+  | 'MOVE_CONFLICT';
+
+export class NetworkMoveError extends Error {
+  constructor(
+    message: string,
+    public readonly code: NetworkMoveErrorCode,
+  ) {
+    super(message);
+    this.name = 'NetworkMoveError';
+  }
+}
+
+export interface NetworkMoveRequest {
+  userId: string;
+  /** New sponsor or placement parent. Null makes the member independent (sponsor) or returns them under their enrolling sponsor (placement). */
+  targetParentId: string | null;
+  moveType: NetworkMoveType;
+  scope: NetworkMoveScope;
+  reason: string;
+}
+
+export interface NetworkMovePreview {
+  request: NetworkMoveRequest;
+  changes: NewNetworkMoveChange[];
+  phaseImpact: NetworkPhaseImpact[];
+}
+
+const toChange = (
+  edge: NetworkEdgeRow,
+  next: { referredBy: string | null; placementParentId: string | null },
+): NewNetworkMoveChange => ({
+  profile_id: edge.id,
+  previous_referred_by: edge.referred_by,
+  previous_placement_parent_id: edge.placement_parent_id,
+  previous_placement_strategy: edge.placement_strategy,
+  previous_placed_at: edge.placed_at,
+  previous_network_parent_id: edge.network_parent_id,
+  new_referred_by: next.referredBy,
+  // A placement under the enrolling sponsor is not a placement at all
+  new_placement_parent_id: next.placementParentId === next.referredBy ? null : next.placementParentId,
+  new_network_parent_id: next.placementParentId ?? next.referredBy,
+});
+
+/**
+ * Profile edges a move changes. Sponsor moves replace referred_by and clear any spillover
+ * placement; placement moves keep referred_by. Member-scope moves hand the member's direct
+ * members over to the member's previous network parent, keeping their enrolling sponsor.
+ */
+export function planNetworkMove(
+  member: NetworkEdgeRow,
+  children: NetworkEdgeRow[],
+  request: Pick<NetworkMoveRequest, 'targetParentId' | 'moveType' | 'scope'>,
+): NewNetworkMoveChange[] {
+  const memberChange =
+    request.moveType === 'sponsor'
+      ? toChange(member, { referredBy: request.targetParentId, placementParentId: null })
+      : toChange(member, { referredBy: member.referred_by, placementParentId: request.targetParentId });
+
+  if (request.scope === 'subtree') {
+    return [memberChange];
+  }
+
+  return [
+    memberChange,
+    ...children.map((child) =>
+      toChange(child, { referredBy: child.referred_by, placementParentId: member.network_parent_id }),
+    ),
+  ];
+}
+
+/**
+ * Level 1 seats each network parent gains (positive) or frees (negative) with the given changes
+ */
+export function countSeatChanges(
+  changes: Array<Pick<NewNetworkMoveChange, 'previous_network_parent_id' | 'new_network_parent_id'>>,
+): Map<string, number> {
+  const seats = new Map<string, number>();
+
+  for (const change of changes) {
+    if (change.previous_network_parent_id === change.new_network_parent_id) {
+      continue;
+    }
+    if (change.previous_network_parent_id) {
+      seats.set(change.previous_network_parent_id, (seats.get(change.previous_network_parent_id) ?? 0) - 1);
+    }
+    if (change.new_network_parent_id) {
+      seats.set(change.new_network_parent_id, (seats.get(change.new_network_parent_id) ?? 0) + 1);
+    }
+  }
+
+  return seats;
+}
+
+/**
+ * Admin tooling to move a member, or a whole subtree, to another sponsor or placement parent.
+ * Moves are checked for cycles and level 1 capacity, preview the phase of both uplines, are
+ * applied in one database transaction and keep every previous edge so they can be rolled back.
+ * Commissions stay attributed to the upline in place when each sale happened: recalculations
+ * resolve the upline at the sale date from the move history.
+ */
+export class NetworkMoveService {
+  private readonly moves: NetworkMoveRepository;
+  private readonly capacity: NetworkCapacityService;
+  private readonly cycles: CircularReferralDetector;
+
+  constructor(
+    client: SupabaseClient,
+    private readonly phasePreviewer: NetworkMovePhasePreviewer,
+  ) {
+    this.moves = new NetworkMoveRepository(client);
+    this.capacity = new NetworkCapacityService(client);
+    this.cycles = new CircularReferralDetector(client);
+  }
+
+  async preview(request: NetworkMoveRequest): Promise<NetworkMovePreview> {
+    const member = await this.moves.findEdge(request.userId);
+
+    if (!member) {
+      throw new NetworkMoveError('Member not found', 'MEMBER_NOT_FOUND');
+    }
+
+    if (request.targetParentId) {
+      if (request.targetParentId === request.userId) {
+        throw new NetworkMoveError('A member cannot be moved under themselves', 'CIRCULAR_MOVE');
+      }
+      if (!(await this.moves.findEdge(request.targetParentId))) {
+        throw new NetworkMoveError('Target sponsor not found', 'PARENT_NOT_FOUND');
+      }
+    }
+
+    if (request.scope === 'member' && !member.network_parent_id) {
+      throw new NetworkMoveError(
+        'Members without a network parent can only be moved with their subtree',
+        'INVALID_SCOPE',
+      );
+    }
+
+    const children = request.scope === 'member' ? await this.moves.listChildEdges(member.id) : [];
+    const changes = planNetworkMove(member, children, request);
+    const memberChange = changes[0];
+
+    if (
+      memberChange.new_network_parent_id === memberChange.previous_network_parent_id &&
+      memberChange.new_referred_by === memberChange.previous_referred_by
+    ) {
+      throw new NetworkMoveError('The member already has this sponsor and placement', 'SAME_PARENT');
+    }
+
+    // The new parent must not be in the member's downline, even for member-scope moves
+    if (
+      memberChange.new_network_parent_id &&
+      (await this.cycles.wouldCreateCycle(member.id, memberChange.new_network_parent_id))
+    ) {
+      throw new NetworkMoveError('The target sponsor is in the downline of the member', 'CIRCULAR_MOVE');
+    }
+
+    await this.assertCapacity(changes);
+
+    const phaseImpact = await this.phasePreviewer.preview(
+      await this.resolveAffectedUplines(changes),
+      new Map(changes.map((change) => [change.profile_id, change.new_network_parent_id])),
+    );
+
+    return { request, changes, phaseImpact };
+  }
+
+  async moveMember(request: NetworkMoveRequest, adminId: string, now: Date = new Date()): Promise<NetworkMoveWithChanges> {
+    const preview = await this.preview(request);
+
+    const move = await this.moves.insertMove({
+      userId: request.userId,
+      moveType: request.moveType,
+      scope: request.scope,
+      targetParentId: request.targetParentId,
+      reason: request.reason,
+      phaseImpact: preview.phaseImpact,
+      performedBy: adminId,
+      appliedAt: now,
+      changes: preview.changes,
+    });
+
+    try {
+      await this.moves.applyChanges(move.id, false);
+    } catch (error) {
+      await this.moves.deleteMove(move.id);
+      throw this.toConflictError(error);
+    }
+
+    console.log(
+      `[NetworkMoveService] Moved ${request.userId} (${request.moveType}, ${request.scope}) to ${request.targetParentId ?? 'no parent'}`,
+    );
+
+    return move;
+  }
+
+  /**
+   * Restores every profile edge of an applied move. The restored parents are checked for cycles
+   * and capacity again, as the network may have changed since the move.
+   */
+  async rollbackMove(
+    moveId: string,
+    adminId: string,
+    reason: string,
+    now: Date = new Date(),
+  ): Promise<NetworkMoveWithChanges> {
+    const move = await this.moves.findMove(moveId);
+
+    if (!move) {
+      throw new NetworkMoveError('Network move not found', 'MOVE_NOT_FOUND');
+    }
+
+    if (move.status !== 'applied') {
+      throw new NetworkMoveError(`Network move is ${move.status}`, 'INVALID_STATUS');
+    }
+
+    for (const change of move.changes) {
+      if (
+        change.previous_network_parent_id &&
+        (await this.cycles.wouldCreateCycle(change.profile_id, change.previous_network_parent_id))
+      ) {
+        throw new NetworkMoveError('Restoring the previous sponsor would create a cycle', 'CIRCULAR_MOVE');
+      }
+    }
+
+    await this.assertCapacity(
+      move.changes.map((change) => ({
+        previous_network_parent_id: change.new_network_parent_id,
+        new_network_parent_id: change.previous_network_parent_id,
+      })),
+    );
+
+    const rolledBack = await this.moves.markRolledBack(moveId, { rolledBackBy: adminId, rolledBackAt: now, reason });
+
+    if (!rolledBack) {
+      throw new NetworkMoveError('Network move was rolled back already', 'INVALID_STATUS');
+    }
+
+    try {
+      await this.moves.applyChanges(moveId, true);
+    } catch (error) {
+      await this.moves.restoreApplied(moveId);
+      throw this.toConflictError(error);
+    }
+
+    return { ...move, ...rolledBack, changes: move.changes };
+  }
+
+  async listMoves(options: { userId?: string; limit?: number } = {}): Promise<NetworkMoveRecord[]> {
+    return this.moves.listMoves(options);
+  }
+
+  async getMove(moveId: string): Promise<NetworkMoveWithChanges> {
+    const move = await this.moves.findMove(moveId);
+
+    if (!move) {
+      throw new NetworkMoveError('Network move not found', 'MOVE_NOT_FOUND');
+    }
+
+    return move;
+  }
+
+  private async assertCapacity(
+    changes: Array<Pick<NewNetworkMoveChange, 'previous_network_parent_id' | 'new_network_parent_id'>>,
+  ): Promise<void> {
+    for (const [parentId, seats] of countSeatChanges(changes)) {
+      await this.capacity.assertSeatsAvailable(parentId, seats);
+    }
+  }
+
+  /**
+   * Previous and new network parents and their own parents: the members whose first two levels
+   * change with the move
+   */
+  private async resolveAffectedUplines(changes: NewNetworkMoveChange[]): Promise<string[]> {
+    const movedIds = new Set(changes.map((change) => change.profile_id));
+    const parents = new Set<string>();
+
+    for (const change of changes) {
+      for (const parentId of [change.previous_network_parent_id, change.new_network_parent_id]) {
+        if (parentId && !movedIds.has(parentId)) {
+          parents.add(parentId);
+        }
+      }
+    }
+
+    const affected = new Set(parents);
+    // Member-scope moves change the moved member's own first level
+    if (changes.length > 1) {
+      affected.add(changes[0].profile_id);
+    }
+
+    for (const parentId of parents) {
+      const parent = await this.moves.findEdge(parentId);
+      if (parent?.network_parent_id) {
+        affected.add(parent.network_parent_id);
+      }
+    }
+
+    return Array.from(affected);
+  }
+
+  private toConflictError(error: unknown): unknown {
+    const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? '');
+    return message.includes('network_move_conflict')
+      ? new NetworkMoveError('The network changed since the move was prepared, preview it again', 'MOVE_CONFLICT')
+      : error;
+  }
+}
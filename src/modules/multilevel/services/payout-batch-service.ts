@@ -0,0 +1,438 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { PayoutBatchRepository } from '../repositories/payout-batch-repository';
+import type { PayoutProvider } from '../repositories/payout-account-repository';
+import { LedgerService } from './ledger-service';
+import type { PayoutSubmitter } from './payout-submitter';
+import type {
+  PayoutBatchItemRecord,
+  PayoutBatchRecord,
+  PayoutBatchStatus,
+  PayoutBatchWithItems,
+  PayoutCadence,
+  PayoutHoldRecord,
+} from '../domain/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Hours to wait before each automatic retry of a failed payout item. An item fails for good
+ * once every retry is used.
+ */
+export const PAYOUT_RETRY_BACKOFF_HOURS = [1, 6, 24] as const;
+
+export type PayoutBatchErrorCode = 'BATCH_NOT_FOUND' | 'INVALID_STATUS' | 'SELF_APPROVAL' | 'HOLD_NOT_FOUND';
+
+export class PayoutBatchError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PayoutBatchErrorCode,
+  ) {
+    super(message);
+    this.name = 'PayoutBatchError';
+  }
+}
+
+export interface PayoutBatchSkips {
+  noActiveAccount: number;
+  onHold: number;
+  alreadyBatched: number;
+  belowThreshold: number;
+}
+
+export interface PayoutBatchCreationResult {
+  cadence: PayoutCadence;
+  period: string;
+  holdDays: number;
+  batches: PayoutBatchWithItems[];
+  skipped: PayoutBatchSkips;
+}
+
+export interface PayoutRetrySummary {
+  batches: number;
+  submitted: number;
+  rescheduled: number;
+  failed: number;
+}
+
+const isoWeek = (date: Date) => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = target.getUTCDay() || 7;
+  target.setUTCDate(target.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(target.getUTCFullYear(), 0, 1);
+  return { year: target.getUTCFullYear(), week: Math.ceil(((target.getTime() - yearStart) / DAY_MS + 1) / 7) };
+};
+
+/**
+ * Period label of a payout cadence: `2024-10` for monthly, the ISO week `2024-W43` for weekly and
+ * the first ISO week of the fortnight for biweekly.
+ */
+export const resolvePayoutPeriod = (cadence: PayoutCadence, date: Date): string => {
+  if (cadence === 'monthly') {
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+
+  const { year, week } = isoWeek(date);
+  const periodWeek = cadence === 'biweekly' ? week - ((week - 1) % 2) : week;
+  return `${year}-W${String(periodWeek).padStart(2, '0')}`;
+};
+
+/**
+ * Status of a batch from its items: still processing while something is pending or waiting for a
+ * retry, otherwise completed, failed or partially failed. Canceled items do not count as failures.
+ */
+export const resolveBatchStatus = (items: Pick<PayoutBatchItemRecord, 'status'>[]): PayoutBatchStatus => {
+  if (items.some((item) => item.status === 'pending' || item.status === 'retry_scheduled')) {
+    return 'processing';
+  }
+
+  const submitted = items.filter((item) => item.status === 'submitted').length;
+  const failed = items.filter((item) => item.status === 'failed').length;
+
+  if (failed === 0) {
+    return 'completed';
+  }
+
+  return submitted === 0 ? 'failed' : 'partially_failed';
+};
+
+/**
+ * Payout batches with maker-checker approval. One admin groups the eligible balances into batches
+ * by payout cadence, provider and currency; a different admin approves a batch, which submits each
+ * item through the payout submitter. The amount of an item is reserved from the member's balance
+ * in the item currency before it is submitted and given back when the submission fails. Failed
+ * items are retried automatically on
+ * PAYOUT_RETRY_BACKOFF_HOURS and the batch ends as completed, partially_failed or failed.
+ *
+ * Eligible balance: available network commissions older than the `payoutHoldDays` app setting,
+ * from members with an active payout account, no active payout hold and no unsent payout item,
+ * at or above both the schedule minimum and the member's own payout threshold.
+ */
+export class PayoutBatchService {
+  private readonly batches: PayoutBatchRepository;
+  private readonly ledger: LedgerService;
+
+  constructor(
+    client: SupabaseClient,
+    private readonly submitter: PayoutSubmitter,
+  ) {
+    this.batches = new PayoutBatchRepository(client);
+    this.ledger = new LedgerService(client);
+  }
+
+  /**
+   * Maker step: group every eligible balance into new batches awaiting approval
+   */
+  async createBatches(makerId: string, now: Date = new Date()): Promise<PayoutBatchCreationResult> {
+    const [settings, schedule] = await Promise.all([getAppSettings(), this.batches.getSchedule()]);
+    const holdDays = settings.payoutHoldDays;
+    const period = resolvePayoutPeriod(schedule.cadence, now);
+
+    const balances = await this.batches.listEligibleBalances(new Date(now.getTime() - holdDays * DAY_MS));
+    const userIds = Array.from(new Set(balances.map((balance) => balance.userId)));
+
+    const [accounts, thresholds, holds, reserved] = await Promise.all([
+      this.batches.listPayoutAccounts(userIds),
+      this.batches.listThresholds(userIds),
+      this.batches.listActiveHolds(userIds),
+      this.batches.listReservedUserIds(),
+    ]);
+
+    const accountByUser = new Map(accounts.map((account) => [account.user_id, account]));
+    const heldUsers = new Set(holds.map((hold) => hold.user_id));
+    const skipped: PayoutBatchSkips = { noActiveAccount: 0, onHold: 0, alreadyBatched: 0, belowThreshold: 0 };
+    const groups = new Map<
+      string,
+      { provider: PayoutProvider; currency: string; items: Array<{ userId: string; accountId: string; amountCents: number }> }
+    >();
+
+    for (const balance of balances) {
+      const account = accountByUser.get(balance.userId);
+
+      if (!account || account.status !== 'active' || !account.account_id) {
+        skipped.noActiveAccount += 1;
+        continue;
+      }
+
+      if (heldUsers.has(balance.userId)) {
+        skipped.onHold += 1;
+        continue;
+      }
+
+      if (reserved.has(balance.userId)) {
+        skipped.alreadyBatched += 1;
+        continue;
+      }
+
+      const thresholdCents = Math.max(schedule.minimumCents, thresholds.get(balance.userId) ?? 0);
+      if (balance.availableCents < thresholdCents) {
+        skipped.belowThreshold += 1;
+        continue;
+      }
+
+      const currency = balance.currency || settings.currency;
+      const key = `${account.provider}:${currency}`;
+      const group = groups.get(key) ?? { provider: account.provider, currency, items: [] };
+      group.items.push({ userId: balance.userId, accountId: account.account_id, amountCents: balance.availableCents });
+      groups.set(key, group);
+    }
+
+    const batches: PayoutBatchWithItems[] = [];
+    for (const group of groups.values()) {
+      batches.push(
+        await this.batches.insertBatch({
+          cadence: schedule.cadence,
+          period,
+          provider: group.provider,
+          currency: group.currency,
+          createdBy: makerId,
+          items: group.items,
+        }),
+      );
+    }
+
+    console.log(
+      `[PayoutBatchService] Created ${batches.length} batch(es) for ${schedule.cadence} period ${period}`,
+      skipped,
+    );
+
+    return { cadence: schedule.cadence, period, holdDays, batches, skipped };
+  }
+
+  async listBatches(status?: PayoutBatchStatus): Promise<PayoutBatchRecord[]> {
+    return this.batches.listBatches({ status });
+  }
+
+  async getBatch(batchId: string): Promise<PayoutBatchWithItems> {
+    const batch = await this.batches.findBatch(batchId);
+
+    if (!batch) {
+      throw new PayoutBatchError('Payout batch not found', 'BATCH_NOT_FOUND');
+    }
+
+    return batch;
+  }
+
+  /**
+   * Checker step: a different admin approves the batch and its items are submitted right away
+   */
+  async approveBatch(batchId: string, checkerId: string, now: Date = new Date()): Promise<PayoutBatchWithItems> {
+    const batch = await this.getBatch(batchId);
+
+    if (batch.created_by === checkerId) {
+      throw new PayoutBatchError('A payout batch must be approved by a different administrator', 'SELF_APPROVAL');
+    }
+
+    const approved = await this.batches.transitionBatch(batchId, 'pending_approval', {
+      status: 'processing',
+      approved_by: checkerId,
+      approved_at: now.toISOString(),
+    });
+
+    if (!approved) {
+      throw new PayoutBatchError(`Payout batch is ${batch.status}, only pending batches can be approved`, 'INVALID_STATUS');
+    }
+
+    return this.processBatch(batchId, now);
+  }
+
+  async rejectBatch(batchId: string, checkerId: string, reason: string, now: Date = new Date()): Promise<PayoutBatchWithItems> {
+    const batch = await this.getBatch(batchId);
+
+    const rejected = await this.batches.transitionBatch(batchId, 'pending_approval', {
+      status: 'rejected',
+      rejected_by: checkerId,
+      rejected_at: now.toISOString(),
+      rejection_reason: reason,
+    });
+
+    if (!rejected) {
+      throw new PayoutBatchError(`Payout batch is ${batch.status}, only pending batches can be rejected`, 'INVALID_STATUS');
+    }
+
+    for (const item of batch.items) {
+      await this.batches.updateItem(item.id, { status: 'canceled', last_error: 'Batch rejected' });
+    }
+
+    return this.getBatch(batchId);
+  }
+
+  /**
+   * Submit the items of an approved batch that are pending or due for a retry
+   */
+  async processBatch(batchId: string, now: Date = new Date()): Promise<PayoutBatchWithItems> {
+    const batch = await this.getBatch(batchId);
+
+    if (batch.status !== 'processing') {
+      throw new PayoutBatchError(`Payout batch is ${batch.status}, only approved batches can be processed`, 'INVALID_STATUS');
+    }
+
+    const dueItems = batch.items.filter(
+      (item) =>
+        item.status === 'pending' ||
+        (item.status === 'retry_scheduled' && item.next_retry_at !== null && new Date(item.next_retry_at) <= now),
+    );
+    const holds = dueItems.length > 0 ? await this.batches.listActiveHolds(dueItems.map((item) => item.user_id)) : [];
+    const heldUsers = new Set(holds.map((hold) => hold.user_id));
+
+    for (const item of dueItems) {
+      if (heldUsers.has(item.user_id)) {
+        await this.batches.updateItem(item.id, { status: 'canceled', last_error: 'Payout hold placed after batching' });
+        continue;
+      }
+
+      await this.submitItem(batch, item, now);
+    }
+
+    const updated = await this.getBatch(batchId);
+    const status = resolveBatchStatus(updated.items);
+
+    if (status !== updated.status) {
+      await this.batches.updateBatch(batchId, {
+        status,
+        completed_at: status === 'processing' ? null : now.toISOString(),
+      });
+      return { ...updated, status, completed_at: status === 'processing' ? null : now.toISOString() };
+    }
+
+    return updated;
+  }
+
+  /**
+   * Cron entry point: submit again every item whose retry time has come
+   */
+  async retryDueItems(now: Date = new Date()): Promise<PayoutRetrySummary> {
+    const batchIds = await this.batches.listBatchIdsWithDueRetries(now);
+    const summary: PayoutRetrySummary = { batches: 0, submitted: 0, rescheduled: 0, failed: 0 };
+
+    for (const batchId of batchIds) {
+      try {
+        const before = await this.getBatch(batchId);
+        if (before.status !== 'processing') {
+          continue;
+        }
+
+        const dueIds = new Set(
+          before.items
+            .filter((item) => item.status === 'retry_scheduled' && item.next_retry_at !== null && new Date(item.next_retry_at) <= now)
+            .map((item) => item.id),
+        );
+        const after = await this.processBatch(batchId, now);
+
+        summary.batches += 1;
+        const retried = after.items.filter((item) => dueIds.has(item.id));
+        summary.submitted += retried.filter((item) => item.status === 'submitted').length;
+        summary.rescheduled += retried.filter((item) => item.status === 'retry_scheduled').length;
+        summary.failed += retried.filter((item) => item.status === 'failed').length;
+      } catch (error) {
+        console.error(`[PayoutBatchService] Failed to retry payout batch ${batchId}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  async listHolds(): Promise<PayoutHoldRecord[]> {
+    return this.batches.listActiveHolds();
+  }
+
+  async placeHold(userId: string, reason: string, adminId: string): Promise<PayoutHoldRecord> {
+    return this.batches.insertHold({ userId, reason, createdBy: adminId });
+  }
+
+  async releaseHold(holdId: string, adminId: string, now: Date = new Date()): Promise<PayoutHoldRecord> {
+    const hold = await this.batches.releaseHold(holdId, adminId, now);
+
+    if (!hold) {
+      throw new PayoutBatchError('Active payout hold not found', 'HOLD_NOT_FOUND');
+    }
+
+    return hold;
+  }
+
+  private async submitItem(batch: PayoutBatchRecord, item: PayoutBatchItemRecord, now: Date): Promise<void> {
+    // The amount leaves the balance in the item currency before the provider is called, so two
+    // submissions can never pay out the same commissions
+    const reserved = await this.batches.reserveItem(item.id);
+
+    if (!reserved) {
+      await this.batches.updateItem(item.id, {
+        status: 'canceled',
+        last_error: `Available ${item.currency} balance is lower than the batched amount`,
+      });
+      return;
+    }
+
+    const attempts = item.attempts + 1;
+    let externalId: string;
+    let estimatedArrival: string | null;
+
+    try {
+      ({ externalId, estimatedArrival } = await this.submitter.submit({
+        provider: batch.provider,
+        accountId: item.account_id,
+        userId: item.user_id,
+        amountCents: item.amount_cents,
+        currency: item.currency,
+        reference: item.id,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Payout submission failed';
+      const backoffHours = PAYOUT_RETRY_BACKOFF_HOURS[attempts - 1];
+
+      console.error(`[PayoutBatchService] Payout item ${item.id} failed (attempt ${attempts}):`, message);
+
+      try {
+        await this.batches.releaseItem(item.id);
+      } catch (releaseError) {
+        // The reservation stays with the item and is reused by its next retry
+        console.error(`[PayoutBatchService] Failed to release the balance of payout item ${item.id}:`, releaseError);
+      }
+
+      await this.batches.updateItem(
+        item.id,
+        backoffHours === undefined
+          ? { status: 'failed', attempts, next_retry_at: null, last_error: message }
+          : {
+              status: 'retry_scheduled',
+              attempts,
+              next_retry_at: new Date(now.getTime() + backoffHours * HOUR_MS).toISOString(),
+              last_error: message,
+            },
+      );
+      return;
+    }
+
+    // The provider already accepted the payout: bookkeeping errors must not trigger a retry
+    await this.batches.updateItem(item.id, {
+      status: 'submitted',
+      attempts,
+      next_retry_at: null,
+      last_error: null,
+      external_id: externalId,
+      submitted_at: now.toISOString(),
+    });
+
+    try {
+      await this.batches.recordPayoutTransaction({
+        userId: item.user_id,
+        amountCents: item.amount_cents,
+        currency: item.currency,
+        provider: batch.provider,
+        externalId,
+        estimatedArrival,
+        batchId: batch.id,
+        itemId: item.id,
+      });
+      await this.ledger.recordPayoutSent({
+        referenceId: `${batch.provider}:${externalId}`,
+        amountCents: item.amount_cents,
+        currency: item.currency,
+        memo: `Payout batch ${batch.id} to ${item.user_id}`,
+      });
+    } catch (error) {
+      console.error(`[PayoutBatchService] Failed to book submitted payout item ${item.id}:`, error);
+    }
+  }
+}
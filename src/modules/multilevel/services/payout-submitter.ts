@@ -0,0 +1,96 @@
+import { paymentPluginRegistry } from '@/modules/payments/plugins';
+import type { PaymentCredentials } from '@/modules/payments/core/payment-plugin.interface';
+import { GatewayCredentialsService } from '@/modules/payments/services/gateway-credentials-service';
+import type { PayoutProvider } from '../repositories/payout-account-repository';
+
+export interface PayoutSubmissionRequest {
+  provider: PayoutProvider;
+  /** Provider account of the member (Stripe account, PayPal email, Payoneer payee id...) */
+  accountId: string;
+  userId: string;
+  amountCents: number;
+  currency: string;
+  /** Idempotency reference sent to the provider, the payout batch item id */
+  reference: string;
+}
+
+export interface PayoutSubmissionResult {
+  externalId: string;
+  estimatedArrival: string | null;
+}
+
+export interface PayoutSubmitter {
+  submit(request: PayoutSubmissionRequest): Promise<PayoutSubmissionResult>;
+}
+
+/**
+ * Direct provider payouts for providers without a payout plugin
+ */
+export interface ProviderPayoutSender {
+  sendProviderPayout(
+    provider: PayoutProvider,
+    accountId: string,
+    amountCents: number,
+    userId: string,
+    currency: string,
+    reference?: string,
+  ): Promise<{ id: string; arrival_date: string }>;
+}
+
+/**
+ * Registered payment plugins whose `createPayment` sends money out instead of charging
+ */
+const PAYOUT_PLUGIN_PROVIDERS: ReadonlySet<PayoutProvider> = new Set(['payoneer']);
+
+/**
+ * Sends payouts through the PaymentPlugin registry when the provider has a payout plugin and
+ * falls back to the provider payouts of the earnings service otherwise.
+ */
+export class ProviderPayoutSubmitter implements PayoutSubmitter {
+  constructor(
+    private readonly fallback: ProviderPayoutSender,
+    private readonly registry = paymentPluginRegistry,
+  ) {}
+
+  async submit(request: PayoutSubmissionRequest): Promise<PayoutSubmissionResult> {
+    if (PAYOUT_PLUGIN_PROVIDERS.has(request.provider) && this.registry.has(request.provider)) {
+      const plugin = this.registry.get(request.provider);
+      const { credentials, requestedEnvironment } = await GatewayCredentialsService.getProviderCredentials(
+        request.provider,
+        'auto',
+      );
+
+      const response = await plugin.createPayment(
+        {
+          amount: request.amountCents / 100,
+          currency: request.currency,
+          description: `Payout for user ${request.userId}`,
+          isTest: requestedEnvironment === 'test',
+          metadata: {
+            payeeId: request.accountId,
+            userId: request.userId,
+            orderId: request.reference,
+          },
+        },
+        credentials as PaymentCredentials,
+      );
+
+      if (response.status === 'failed' || !response.paymentId) {
+        throw new Error(`${plugin.config.displayName} did not accept the payout`);
+      }
+
+      return { externalId: response.paymentId, estimatedArrival: null };
+    }
+
+    const result = await this.fallback.sendProviderPayout(
+      request.provider,
+      request.accountId,
+      request.amountCents,
+      request.userId,
+      request.currency,
+      request.reference,
+    );
+
+    return { externalId: result.id, estimatedArrival: result.arrival_date };
+  }
+}
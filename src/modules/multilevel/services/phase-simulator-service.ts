@@ -0,0 +1,257 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getCachedAppSettings, getCachedPhaseLevels } from '@/lib/helpers/settings-helper';
+import { DefaultOpportunityPlan } from '@/modules/opportunity/config/mlm-plan';
+import type { OpportunityPlan, PhaseRequirement } from '@/modules/opportunity/domain/models/opportunity-plan';
+import type { PhaseLevel } from '@/modules/phase-levels/domain/models/phase-level';
+import type {
+  MultilevelTreeResponse,
+  PhaseEarningsProjection,
+  PhaseRecord,
+  PhaseSimulation,
+  PhaseSimulationDirectGap,
+  PhaseSimulationRequirement,
+  SubscriptionStatus,
+  TreeMember,
+} from '../domain/types';
+import { PhaseRepository } from '../repositories/phase-repository';
+import { SubscriptionRepository } from '../repositories/subscription-repository';
+import { TreeService } from './tree-service';
+
+export interface PhaseSimulationAssumptions {
+  /** Expected monthly sales of each active member in the network */
+  averageSalesCents?: number;
+  /** Expected monthly personal sales of the member */
+  personalSalesCents?: number;
+}
+
+export interface PhaseSimulationInput extends PhaseSimulationAssumptions {
+  tree: MultilevelTreeResponse;
+  phase: PhaseRecord | null;
+  subscriptionStatus: SubscriptionStatus | null;
+  /** Requirement of each phase, indexed by phase number */
+  requirements: PhaseRequirement[];
+  phaseLevels: PhaseLevel[];
+  visibleLevels: number;
+  currency: string;
+  countsAsActive: (status: SubscriptionStatus | null) => boolean;
+}
+
+/**
+ * Builds the "what do I need for the next phase" view of a member's network. Requirements are
+ * cumulative, like the billing-cycle evaluation: the member qualifies for phase N only when the
+ * requirements of every phase up to N are met. Activity is taken from the subscription status in
+ * the tree; payment recency is checked by the evaluation engine at the cycle close.
+ *
+ * Earnings are projected the same way as the income calculator: a phase earns its commission rate
+ * on the sales of active members down to `min(phase, visibleLevels)` levels, plus its monthly
+ * reward credit and free product value.
+ */
+export const buildPhaseSimulation = (input: PhaseSimulationInput): PhaseSimulation => {
+  const directs = input.tree.levels[1] ?? [];
+  const secondLevel = input.tree.levels[2] ?? [];
+  const isActive = (member: TreeMember) => input.countsAsActive(member.status);
+  const selfActive = input.countsAsActive(input.subscriptionStatus);
+
+  const secondLevelRequirement = input.requirements.find(
+    (requirement): requirement is Extract<PhaseRequirement, { type: 'secondLevelActiveRecruits' }> =>
+      requirement.type === 'secondLevelActiveRecruits',
+  );
+  const minimumPerDirect = secondLevelRequirement?.minimumPerDirect ?? 0;
+
+  const directGaps: PhaseSimulationDirectGap[] = directs.map((direct) => {
+    const recruits = secondLevel.filter((member) => member.sponsorId === direct.id);
+    const activeRecruits = recruits.filter(isActive).length;
+
+    return {
+      member: direct,
+      active: isActive(direct),
+      activeRecruits,
+      missingRecruits: Math.max(0, minimumPerDirect - activeRecruits),
+      inactiveRecruits: recruits.filter((member) => !isActive(member)),
+    };
+  });
+
+  const evaluate = (requirement: PhaseRequirement, phase: number): PhaseSimulationRequirement => {
+    switch (requirement.type) {
+      case 'subscriptionActive':
+        return toRequirement(phase, requirement.type, selfActive ? 1 : 0, 1, selfActive ? 0 : 1);
+      case 'directActiveRecruits': {
+        const activeDirects = directs.filter(isActive).length;
+        return toRequirement(
+          phase,
+          requirement.type,
+          activeDirects,
+          requirement.requiredActive,
+          Math.max(0, requirement.requiredActive - activeDirects),
+        );
+      }
+      case 'secondLevelActiveRecruits': {
+        const activeSecondLevel = directGaps.reduce((total, gap) => total + gap.activeRecruits, 0);
+        const missingPerDirect = directGaps.reduce(
+          (total, gap) => total + Math.max(0, requirement.minimumPerDirect - gap.activeRecruits),
+          0,
+        );
+        const missingTotal = Math.max(0, requirement.requiredActive - (activeSecondLevel + missingPerDirect));
+        return toRequirement(
+          phase,
+          requirement.type,
+          activeSecondLevel,
+          requirement.requiredActive,
+          missingPerDirect + missingTotal,
+        );
+      }
+      case 'networkRetention': {
+        const members = Array.from({ length: requirement.requiredLevels }, (_, index) => input.tree.levels[index + 1] ?? [])
+          .flat();
+        const activeMembers = members.filter(isActive).length + (selfActive ? 1 : 0);
+        const totalMembers = members.length + 1;
+        return toRequirement(phase, requirement.type, activeMembers, totalMembers, totalMembers - activeMembers);
+      }
+      default: {
+        const exhaustiveCheck: never = requirement;
+        throw new Error(`Unhandled requirement type ${(exhaustiveCheck as PhaseRequirement).type}`);
+      }
+    }
+  };
+
+  const allRequirements = input.requirements.map(evaluate);
+  const firstUnmet = allRequirements.findIndex((requirement) => !requirement.met);
+  const qualifiedPhase = Math.max(0, firstUnmet === -1 ? allRequirements.length - 1 : firstUnmet - 1);
+
+  const currentPhase = input.phase?.phase ?? 0;
+  const targetPhase = currentPhase + 1 < allRequirements.length ? currentPhase + 1 : null;
+  const requirements = allRequirements.slice(0, (targetPhase ?? allRequirements.length - 1) + 1);
+  const missingActivations = requirements.reduce((total, requirement) => total + requirement.missingActivations, 0);
+
+  const activeByLevel = (level: number) => (input.tree.levels[level] ?? []).filter(isActive).length;
+  const activeWithin = (depth: number) =>
+    Array.from({ length: depth }, (_, index) => activeByLevel(index + 1)).reduce((total, count) => total + count, 0);
+  const depthOf = (phase: number) => Math.max(0, Math.min(phase, input.visibleLevels));
+
+  const project = (phase: number, activeNetworkMembers: number): PhaseEarningsProjection => {
+    const phaseLevel = input.phaseLevels.find((level) => level.level === phase);
+    const commissionRate =
+      phaseLevel?.commissionRate ?? (phase === currentPhase ? input.phase?.ecommerce_commission ?? 0 : 0);
+    const personalCommissionCents = Math.round((input.personalSalesCents ?? 0) * commissionRate);
+    const networkCommissionCents = Math.round(activeNetworkMembers * (input.averageSalesCents ?? 0) * commissionRate);
+    const rewardCreditCents = phaseLevel?.creditCents ?? 0;
+    const freeProductValueCents = phaseLevel?.freeProductValueCents ?? 0;
+
+    return {
+      phase,
+      commissionRate,
+      activeNetworkMembers,
+      personalCommissionCents,
+      networkCommissionCents,
+      rewardCreditCents,
+      freeProductValueCents,
+      totalCents: personalCommissionCents + networkCommissionCents + rewardCreditCents + freeProductValueCents,
+    };
+  };
+
+  // Activations needed for the target land on level 1 (direct recruits) or level 2 (second level);
+  // retention activations are existing inactive members, counted within the target's depth.
+  const projectedActivations = (depth: number) =>
+    requirements.reduce((total, requirement) => {
+      if (requirement.met) {
+        return total;
+      }
+      if (requirement.type === 'directActiveRecruits' && depth >= 1) {
+        return total + requirement.missingActivations;
+      }
+      if (requirement.type === 'secondLevelActiveRecruits' && depth >= 2) {
+        return total + requirement.missingActivations;
+      }
+      if (requirement.type === 'networkRetention') {
+        const retentionRequirement = input.requirements[requirement.phase];
+        const levels = retentionRequirement?.type === 'networkRetention' ? retentionRequirement.requiredLevels : 0;
+        return (
+          total +
+          Array.from({ length: Math.min(depth, levels) }, (_, index) => input.tree.levels[index + 1] ?? [])
+            .flat()
+            .filter((member) => !isActive(member)).length
+        );
+      }
+      return total;
+    }, 0);
+
+  return {
+    currentPhase,
+    qualifiedPhase,
+    targetPhase,
+    selfActive,
+    requirements,
+    missingActivations,
+    inactiveDirects: directs.filter((member) => !isActive(member)),
+    inactiveSecondLevel: secondLevel.filter((member) => !isActive(member)),
+    directGaps,
+    currency: input.currency,
+    averageSalesCents: input.averageSalesCents ?? 0,
+    personalSalesCents: input.personalSalesCents ?? 0,
+    projections: {
+      current: project(currentPhase, activeWithin(depthOf(currentPhase))),
+      target:
+        targetPhase === null
+          ? null
+          : project(targetPhase, activeWithin(depthOf(targetPhase)) + projectedActivations(depthOf(targetPhase))),
+    },
+  };
+};
+
+const toRequirement = (
+  phase: number,
+  type: PhaseSimulationRequirement['type'],
+  current: number,
+  required: number,
+  missingActivations: number,
+): PhaseSimulationRequirement => ({
+  phase,
+  type,
+  met: missingActivations === 0,
+  current,
+  required,
+  missingActivations,
+});
+
+export class PhaseSimulatorService {
+  private readonly tree: TreeService;
+  private readonly phases: PhaseRepository;
+  private readonly subscriptions: SubscriptionRepository;
+
+  constructor(
+    client: SupabaseClient,
+    private readonly plan: OpportunityPlan = DefaultOpportunityPlan,
+  ) {
+    this.tree = new TreeService(client);
+    this.phases = new PhaseRepository(client);
+    this.subscriptions = new SubscriptionRepository(client);
+  }
+
+  /**
+   * Simulate the member's next phase from their real network, phase and phase level rates
+   */
+  async simulate(userId: string, assumptions: PhaseSimulationAssumptions = {}): Promise<PhaseSimulation> {
+    const settings = await getCachedAppSettings();
+    const visibleLevels = settings.teamLevelsVisible || 2;
+
+    const [tree, phase, subscription, phaseLevels] = await Promise.all([
+      this.tree.fetchMultilevelTree(userId, Math.min(10, Math.max(2, visibleLevels))),
+      this.phases.findByUserId(userId),
+      this.subscriptions.findByUserId(userId),
+      getCachedPhaseLevels(),
+    ]);
+
+    return buildPhaseSimulation({
+      tree,
+      phase,
+      subscriptionStatus: subscription?.status ?? null,
+      requirements: this.plan.phases.map((planPhase) => planPhase.requirement),
+      phaseLevels,
+      visibleLevels,
+      currency: settings.currency,
+      countsAsActive: (status) =>
+        status === 'active' || (status === 'paused' && settings.pausedMembersCountTowardPhase),
+      ...assumptions,
+    });
+  }
+}
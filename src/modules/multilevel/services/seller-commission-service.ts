@@ -1,6 +1,7 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { getPhaseCommissionRate } from '@/lib/helpers/settings-helper';
 import { WalletService } from './wallet-service';
+import { FxRateService } from './fx-rate-service';
 
 /**
  * Service for calculating and applying seller's personal ecommerce commission
@@ -18,12 +19,15 @@ export class SellerCommissionService {
    * @param affiliateId - The ID of the affiliate store owner (seller)
    * @param totalCents - Total sale amount in cents
    * @param orderId - Optional order ID for tracking
-   * @returns Commission amount in cents that was applied
+   * @param saleCurrency - Currency of `totalCents`; the commission is converted into the
+   *   seller's wallet currency when they differ
+   * @returns Commission amount in cents (wallet currency) that was applied
    */
   async calculateAndApplySellerCommission(
     affiliateId: string,
     totalCents: number,
-    orderId?: string
+    orderId?: string,
+    saleCurrency?: string
   ): Promise<number> {
     if (!affiliateId || totalCents <= 0) {
       console.log('[SellerCommission] Invalid parameters, skipping commission');
@@ -69,11 +73,26 @@ export class SellerCommissionService {
         return 0;
       }
 
-      // Add commission to seller's wallet
+      // Add commission to seller's wallet, converted into the wallet currency
       const walletService = new WalletService(this.client);
+      let creditedCents = commissionCents;
+      let fxMeta: Record<string, unknown> = {};
+
+      if (saleCurrency) {
+        const walletCurrency = await walletService.getWalletCurrency(affiliateId);
+        const conversion = await new FxRateService(this.client).convert(commissionCents, saleCurrency, walletCurrency);
+        creditedCents = conversion.amountCents;
+        fxMeta = {
+          currency: conversion.currency,
+          fx_rate: conversion.rate,
+          original_amount_cents: conversion.originalAmountCents,
+          original_currency: conversion.originalCurrency,
+        };
+      }
+
       await walletService.addFunds(
         affiliateId,
-        commissionCents,
+        creditedCents,
         'sale_commission',
         undefined,
         `Ecommerce commission from affiliate store sale`,
@@ -82,15 +101,16 @@ export class SellerCommissionService {
           commission_rate: commissionRate,
           sale_total_cents: totalCents,
           seller_phase: sellerPhase,
+          ...fxMeta,
           ...(orderId ? { order_id: orderId } : {}),
         }
       );
 
       console.log(
-        `[SellerCommission] Applied ${commissionCents} cents commission to seller ${affiliateId} (${(commissionRate * 100).toFixed(1)}% of ${totalCents} cents)`
+        `[SellerCommission] Applied ${creditedCents} cents commission to seller ${affiliateId} (${(commissionRate * 100).toFixed(1)}% of ${totalCents} cents)`
       );
 
-      return commissionCents;
+      return creditedCents;
     } catch (error) {
       console.error('[SellerCommission] Error applying seller commission:', error);
       return 0;
@@ -0,0 +1,208 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import Stripe from 'stripe';
+import type { Stripe as StripeTypes } from 'stripe';
+import { WalletService } from './wallet-service';
+import type { PaymentGateway } from '../domain/types';
+
+type StripeClient = InstanceType<typeof Stripe>;
+type StripePaymentIntentsResource = StripeTypes['paymentIntents'];
+type StripeRefundsResource = StripeTypes['refunds'];
+type StripeApiClient = StripeClient & {
+  paymentIntents: StripePaymentIntentsResource;
+  refunds: StripeRefundsResource;
+};
+
+export type SubscriptionChargeIntent = 'subscription_renewal' | 'subscription_plan_change';
+
+const GATEWAY_REF_LABELS: Record<SubscriptionChargeIntent, string> = {
+  subscription_renewal: 'renewal',
+  subscription_plan_change: 'plan-change',
+};
+
+export interface SubscriptionChargeOutcome {
+  success: boolean;
+  gateway: PaymentGateway;
+  gatewayRef?: string;
+  /** Payment intent or wallet transaction of a successful charge, the one a reversal takes */
+  transactionId?: string;
+  /** Wallet charges: what left the balance, in the currency it was held in */
+  debitedCents?: number;
+  debitedCurrency?: string;
+  /** The gateway bills the renewal itself (PayPal billing agreements, Mercado Pago preapprovals) and confirms it by webhook */
+  collectedByGateway?: boolean;
+  error?: string;
+}
+
+export interface SubscriptionChargeInput {
+  userId: string;
+  amountCents: number;
+  currency: string;
+  intent: SubscriptionChargeIntent;
+  metadata?: Record<string, string>;
+  /** Unique per charge; sent to the gateway as idempotency key so a retry does not charge twice */
+  reference?: string;
+}
+
+/**
+ * One-off subscription charges made without the member present: off-session Stripe payments
+ * on the saved card and ledger-backed wallet debits. Failures are returned, not thrown.
+ */
+export class SubscriptionChargeService {
+  private readonly wallets: WalletService;
+
+  constructor(private readonly client: SupabaseClient) {
+    this.wallets = new WalletService(client);
+  }
+
+  async chargeStripe(
+    input: SubscriptionChargeInput & { paymentMethodId: string | null },
+  ): Promise<SubscriptionChargeOutcome> {
+    const { userId, paymentMethodId, amountCents } = input;
+
+    if (!paymentMethodId) {
+      return {
+        success: false,
+        gateway: 'stripe',
+        error: 'No payment method saved for Stripe charge',
+      };
+    }
+
+    try {
+      // Get Stripe credentials
+      const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+      if (!stripeSecretKey) {
+        throw new Error('Stripe secret key not configured');
+      }
+
+      const stripe = this.createStripe(stripeSecretKey);
+
+      // Get payment method details
+      const { data: paymentMethod } = await this.client
+        .from('payment_methods')
+        .select('provider, provider_token, provider_customer_id, user_id')
+        .eq('id', paymentMethodId)
+        .eq('user_id', userId)
+        .single();
+
+      if (!paymentMethod) {
+        throw new Error('Payment method not found');
+      }
+
+      // The vault also keeps PayPal and Authorize.net methods; only Stripe ones are charged here
+      if (paymentMethod.provider !== 'stripe') {
+        throw new Error(`Payment method belongs to ${paymentMethod.provider}, not Stripe`);
+      }
+
+      // Create payment intent
+      const paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: amountCents,
+          currency: input.currency.toLowerCase(),
+          payment_method: paymentMethod.provider_token,
+          customer: paymentMethod.provider_customer_id ?? undefined,
+          confirm: true,
+          off_session: true, // Important for automatic renewals
+          metadata: {
+            ...input.metadata,
+            userId,
+            intent: input.intent,
+          },
+        },
+        input.reference ? { idempotencyKey: input.reference } : undefined,
+      );
+
+      if (paymentIntent.status !== 'succeeded') {
+        throw new Error(`Payment failed with status: ${paymentIntent.status}`);
+      }
+
+      return {
+        success: true,
+        gateway: 'stripe',
+        gatewayRef: `stripe:${GATEWAY_REF_LABELS[input.intent]}:${paymentIntent.id}`,
+        transactionId: paymentIntent.id,
+      };
+    } catch (error) {
+      console.error(`[SubscriptionCharge] Stripe ${input.intent} charge failed for user ${userId}:`, error);
+      return {
+        success: false,
+        gateway: 'stripe',
+        error: error instanceof Error ? error.message : 'Stripe payment failed',
+      };
+    }
+  }
+
+  /**
+   * Debit the charge from the wallet balance through the ledger-backed wallet service
+   */
+  async chargeWallet(input: SubscriptionChargeInput): Promise<SubscriptionChargeOutcome> {
+    try {
+      const result = await this.wallets.spendFunds(input.userId, input.amountCents, {
+        ...input.metadata,
+        intent: input.intent,
+        currency: input.currency,
+        provider: 'wallet',
+        ...(input.reference && { reference: input.reference }),
+      });
+
+      return {
+        success: true,
+        gateway: 'wallet',
+        gatewayRef: `wallet:${GATEWAY_REF_LABELS[input.intent]}:${result.transactionId}`,
+        transactionId: result.transactionId,
+        debitedCents: result.debitedCents,
+        debitedCurrency: result.currency,
+      };
+    } catch (error) {
+      console.error(`[SubscriptionCharge] Wallet ${input.intent} charge failed for user ${input.userId}:`, error);
+      return {
+        success: false,
+        gateway: 'wallet',
+        error: error instanceof Error ? error.message : 'Wallet payment failed',
+      };
+    }
+  }
+
+  /**
+   * Give a successful charge back in full when what it paid for could not be applied: a Stripe
+   * refund of the payment intent or a credit of the wallet debit. Failures are thrown.
+   */
+  async reverse(
+    outcome: SubscriptionChargeOutcome,
+    input: { userId: string; amountCents: number; reference: string },
+  ): Promise<void> {
+    const idempotencyKey = `${input.reference}-reversal`;
+
+    if (outcome.gateway === 'stripe' && outcome.transactionId) {
+      const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+      if (!stripeSecretKey) {
+        throw new Error('Stripe secret key not configured');
+      }
+
+      await this.createStripe(stripeSecretKey).refunds.create(
+        { payment_intent: outcome.transactionId, amount: input.amountCents, metadata: { reference: input.reference } },
+        { idempotencyKey },
+      );
+      return;
+    }
+
+    if (outcome.gateway === 'wallet' && outcome.transactionId) {
+      await this.wallets.addFunds(
+        input.userId,
+        outcome.debitedCents ?? input.amountCents,
+        'subscription_credit',
+        undefined,
+        `Reversal of ${outcome.gatewayRef ?? outcome.transactionId}`,
+        { currency: outcome.debitedCurrency, reference: idempotencyKey },
+      );
+      return;
+    }
+
+    throw new Error(`Cannot reverse a ${outcome.gateway} subscription charge`);
+  }
+
+  private createStripe(secretKey: string): StripeApiClient {
+    return new Stripe(secretKey, {
+      apiVersion: '2025-03-31',
+    }) as StripeApiClient;
+  }
+}
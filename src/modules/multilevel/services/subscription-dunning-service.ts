@@ -0,0 +1,265 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { SubscriptionDunningRepository } from '../repositories/subscription-dunning-repository';
+import { SubscriptionRepository } from '../repositories/subscription-repository';
+import { SubscriptionNotificationService } from './subscription-notification-service';
+import type { SubscriptionEventBus } from '../observers/subscription-event-bus';
+import type { PaymentGateway, SubscriptionRecord, SubscriptionStatus } from '../domain/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DunningSchedule {
+  retryDays: number[];
+  graceDays: number;
+}
+
+export interface DunningState {
+  status: SubscriptionStatus;
+  startedAt: string;
+  attempts: number;
+  nextAttemptAt: string | null;
+}
+
+export interface DunningFailureInput {
+  subscription: SubscriptionRecord;
+  gateway: PaymentGateway;
+  amountCents: number;
+  currency: string;
+  reason: string;
+}
+
+export interface DunningGatewayFailureInput {
+  userId: string;
+  gateway: PaymentGateway;
+  amountCents: number;
+  /** Defaults to the platform currency */
+  currency?: string | null;
+  reason: string;
+}
+
+export interface DunningRecoveryInput {
+  subscription: SubscriptionRecord;
+  gateway: PaymentGateway;
+  amountCents: number;
+}
+
+/**
+ * Drives a subscription through past_due → unpaid → canceled after a failed renewal.
+ *
+ * Attempt 0 is the scheduled renewal. Retries run `dunningRetryDays` days after it; once they
+ * are exhausted the subscription becomes unpaid and gets one final attempt after
+ * `dunningGraceDays` more days before it is canceled.
+ */
+export class SubscriptionDunningService {
+  private readonly dunning: SubscriptionDunningRepository;
+  private readonly subscriptions: SubscriptionRepository;
+  private readonly notifications: SubscriptionNotificationService;
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly bus: SubscriptionEventBus,
+  ) {
+    this.dunning = new SubscriptionDunningRepository(client);
+    this.subscriptions = new SubscriptionRepository(client);
+    this.notifications = new SubscriptionNotificationService(client);
+  }
+
+  async getSchedule(): Promise<DunningSchedule> {
+    const settings = await getAppSettings();
+    return {
+      retryDays: [...settings.dunningRetryDays].sort((a, b) => a - b),
+      graceDays: settings.dunningGraceDays,
+    };
+  }
+
+  async findDueRetries(now: Date = new Date()): Promise<SubscriptionRecord[]> {
+    return this.dunning.findDueRetries(now);
+  }
+
+  /**
+   * Number of the attempt about to be made: 0 for a renewal, 1..n for retries
+   */
+  getAttemptNumber(subscription: SubscriptionRecord): number {
+    return subscription.dunning_started_at ? (subscription.dunning_attempts ?? 0) + 1 : 0;
+  }
+
+  resolveNextState(subscription: SubscriptionRecord, schedule: DunningSchedule, now: Date = new Date()): DunningState {
+    const attempt = this.getAttemptNumber(subscription);
+    const startedAt = subscription.dunning_started_at ?? now.toISOString();
+    const start = new Date(startedAt).getTime();
+    const retries = schedule.retryDays.length;
+    const lastRetryDay = schedule.retryDays[retries - 1] ?? 0;
+
+    if (attempt < retries) {
+      return {
+        status: 'past_due',
+        startedAt,
+        attempts: attempt,
+        nextAttemptAt: new Date(start + schedule.retryDays[attempt] * DAY_MS).toISOString(),
+      };
+    }
+
+    if (subscription.status !== 'unpaid') {
+      return {
+        status: 'unpaid',
+        startedAt,
+        attempts: attempt,
+        nextAttemptAt: new Date(start + (lastRetryDay + schedule.graceDays) * DAY_MS).toISOString(),
+      };
+    }
+
+    return { status: 'canceled', startedAt, attempts: attempt, nextAttemptAt: null };
+  }
+
+  async recordFailure(input: DunningFailureInput): Promise<DunningState> {
+    const { subscription } = input;
+    const attempt = this.getAttemptNumber(subscription);
+    const schedule = await this.getSchedule();
+    const state = this.resolveNextState(subscription, schedule);
+
+    const updated = await this.dunning.updateState(subscription.id, state);
+    await this.logAttempt(subscription, attempt, input.gateway, input.amountCents, false, input.reason, state.status);
+
+    console.log(
+      `[SubscriptionDunning] Attempt ${attempt} failed for user ${subscription.user_id}: ${subscription.status} → ${state.status}`,
+    );
+
+    this.bus.notify({
+      type: 'dunning.payment_failed',
+      payload: {
+        userId: subscription.user_id,
+        subscription: updated,
+        attempt,
+        gateway: input.gateway,
+        amountCents: input.amountCents,
+        reason: input.reason,
+        previousStatus: subscription.status,
+        status: state.status,
+        nextAttemptAt: state.nextAttemptAt,
+      },
+    });
+
+    if (state.status !== subscription.status) {
+      this.bus.notify({ type: 'subscription.updated', payload: { subscription: updated } });
+    }
+
+    if (state.status === 'canceled') {
+      this.bus.notify({
+        type: 'subscription.canceled',
+        payload: {
+          userId: subscription.user_id,
+          subscription: updated,
+          previousStatus: subscription.status,
+          reason: 'payment_failure',
+        },
+      });
+    }
+
+    await this.sendFailureNotification(input, attempt, state);
+
+    return state;
+  }
+
+  /**
+   * A renewal billed by the gateway itself was declined (e.g. a Stripe invoice). The subscription
+   * becomes past_due and the renewal cron retries it on the dunning schedule. A subscription that
+   * is already in dunning keeps its schedule, so a redelivered event does not skip a retry.
+   */
+  async recordGatewayFailure(input: DunningGatewayFailureInput): Promise<DunningState | null> {
+    const subscription = await this.subscriptions.findByUserId(input.userId);
+
+    if (!subscription || !['active', 'past_due', 'unpaid'].includes(subscription.status)) {
+      console.warn(`[SubscriptionDunning] No renewable subscription for user ${input.userId}; ${input.gateway} failure ignored`);
+      return null;
+    }
+
+    if (subscription.dunning_started_at) {
+      console.log(`[SubscriptionDunning] User ${input.userId} is already in dunning; ${input.gateway} failure left to the retry schedule`);
+      return null;
+    }
+
+    const currency = input.currency ?? (await getAppSettings()).currency;
+
+    return this.recordFailure({
+      subscription,
+      gateway: input.gateway,
+      amountCents: input.amountCents,
+      currency: currency.toUpperCase(),
+      reason: input.reason,
+    });
+  }
+
+  /**
+   * Log the successful retry; the confirmed payment has already reactivated the subscription
+   * and cleared its dunning state.
+   */
+  async recordRecovery(input: DunningRecoveryInput): Promise<void> {
+    const { subscription } = input;
+    const attempt = this.getAttemptNumber(subscription);
+
+    await this.logAttempt(subscription, attempt, input.gateway, input.amountCents, true, null, 'active');
+
+    console.log(`[SubscriptionDunning] Recovered subscription for user ${subscription.user_id} on attempt ${attempt}`);
+
+    this.bus.notify({
+      type: 'dunning.recovered',
+      payload: {
+        userId: subscription.user_id,
+        subscription,
+        attempt,
+        gateway: input.gateway,
+        amountCents: input.amountCents,
+      },
+    });
+  }
+
+  private async logAttempt(
+    subscription: SubscriptionRecord,
+    attempt: number,
+    gateway: PaymentGateway,
+    amountCents: number,
+    success: boolean,
+    error: string | null,
+    resultingStatus: SubscriptionStatus,
+  ) {
+    try {
+      await this.dunning.insertAttempt({
+        subscriptionId: subscription.id,
+        userId: subscription.user_id,
+        attempt,
+        gateway,
+        amountCents,
+        success,
+        error,
+        resultingStatus,
+      });
+    } catch (error) {
+      console.error('[SubscriptionDunning] Failed to log dunning attempt:', error);
+    }
+  }
+
+  private async sendFailureNotification(input: DunningFailureInput, attempt: number, state: DunningState) {
+    try {
+      if (state.status === 'canceled') {
+        await this.notifications.sendCancellationEmail({
+          userId: input.subscription.user_id,
+          reason: 'payment_failure',
+        });
+        return;
+      }
+
+      await this.notifications.sendRenewalFailureEmail({
+        userId: input.subscription.user_id,
+        amountCents: input.amountCents,
+        currency: input.currency,
+        reason: input.reason,
+        gateway: input.gateway,
+        status: state.status === 'unpaid' ? 'unpaid' : 'past_due',
+        attempt,
+        nextAttemptDate: state.nextAttemptAt,
+      });
+    } catch (error) {
+      console.error('[SubscriptionDunning] Failed to send dunning notification:', error);
+    }
+  }
+}
@@ -8,6 +8,8 @@ import type { SubscriptionRecord } from '../domain/types';
 import { PaymentRepository } from '../repositories/payment-repository';
 import { PhaseRepository } from '../repositories/phase-repository';
 import { SubscriptionRepository } from '../repositories/subscription-repository';
+import { SubscriptionPauseRepository } from '../repositories/subscription-pause-repository';
+import { NetworkCapacityService } from './network-capacity-service';
 import { SentryLogger as _SentryLogger } from '../../observability/services/sentry-logger';
 import { logUserAction } from '@/lib/services/audit-log-service';
 
@@ -31,6 +33,8 @@ export class SubscriptionLifecycleService {
   private readonly payments: PaymentRepository;
   private readonly subscriptions: SubscriptionRepository;
   private readonly phases: PhaseRepository;
+  private readonly pauses: SubscriptionPauseRepository;
+  private readonly capacity: NetworkCapacityService;
 
   constructor(
     private readonly client: SupabaseClient,
@@ -39,6 +43,8 @@ export class SubscriptionLifecycleService {
     this.payments = new PaymentRepository(client);
     this.subscriptions = new SubscriptionRepository(client);
     this.phases = new PhaseRepository(client);
+    this.pauses = new SubscriptionPauseRepository(client);
+    this.capacity = new NetworkCapacityService(client);
   }
 
   async handleConfirmedPayment(payload: SubscriptionPaymentRecordedPayload): Promise<PaymentResult> {
@@ -59,11 +65,23 @@ export class SubscriptionLifecycleService {
 
     this.bus.notify({ type: 'payment.recorded', payload });
 
+    const current = await this.subscriptions.findByUserId(payload.userId);
+
+    if (current?.status === 'paused') {
+      await this.keepPaused(current, payload);
+      return { alreadyProcessed: false };
+    }
+
+    await this.placeActivatingMember(payload.userId, current);
+
     const subscription = await this.subscriptions.upsertSubscription({
       userId: payload.userId,
       planId: payload.planId,
       status: 'active',
       periodEnd: payload.periodEnd,
+      // Each confirmed payment opens the period it pays for
+      periodStart: new Date().toISOString(),
+      periodPaidCents: payload.amountCents,
       gateway: payload.gateway,
     });
 
@@ -155,4 +173,46 @@ export class SubscriptionLifecycleService {
 
     return { canceled: true, alreadyCanceled: false, subscription: updated ?? existing };
   }
+
+  /**
+   * A payment that arrives while the subscription is paused (a gateway charge already in flight
+   * when the member paused) is recorded without ending the pause: the subscription stays paused
+   * with its pause dates and open pause record, and keeps the later of the two period ends.
+   */
+  private async keepPaused(current: SubscriptionRecord, payload: SubscriptionPaymentRecordedPayload): Promise<void> {
+    const paidPeriodIsLater =
+      payload.periodEnd &&
+      (!current.current_period_end || new Date(payload.periodEnd).getTime() > new Date(current.current_period_end).getTime());
+    const periodEnd = paidPeriodIsLater ? payload.periodEnd : current.current_period_end;
+
+    const subscription = await this.pauses.updateState(current.id, {
+      status: 'paused',
+      pausedAt: current.paused_at ?? null,
+      pauseEndsAt: current.pause_ends_at ?? null,
+      currentPeriodEnd: periodEnd,
+    });
+
+    console.warn(
+      `[SubscriptionLifecycle] Payment ${payload.gatewayRef} received while the subscription of ${payload.userId} is paused; kept paused`,
+    );
+
+    this.bus.notify({ type: 'subscription.updated', payload: { subscription } });
+  }
+
+  /**
+   * Place a member whose subscription is activating (not a renewal) in the network, before the
+   * activation recalculates the upline. The checkout only checked for a seat, so a seat taken
+   * since then is logged instead of failing a payment that was already collected.
+   */
+  private async placeActivatingMember(userId: string, current: SubscriptionRecord | null): Promise<void> {
+    if (current && (current.status === 'active' || current.status === 'past_due')) {
+      return;
+    }
+
+    try {
+      await this.capacity.placeMember(userId);
+    } catch (error) {
+      console.error(`[SubscriptionLifecycle] Failed to place member ${userId} in the network:`, error);
+    }
+  }
 }
@@ -60,6 +60,9 @@ interface RenewalFailureParams {
   currency: string;
   reason: string;
   gateway: string;
+  status?: 'past_due' | 'unpaid';
+  attempt?: number;
+  nextAttemptDate?: string | null;
   locale?: string | null;
 }
 
@@ -394,7 +397,7 @@ Thank you for being part of ${appName}.`;
     }
 
     const appName = getDefaultAppName();
-    const _locale = resolveLocale(params.locale);
+    const locale = resolveLocale(params.locale);
     const fromAddress = resolveFromAddress(appName);
 
     let profile: ProfileRow | null = null;
@@ -436,7 +439,27 @@ Thank you for being part of ${appName}.`;
                         params.gateway === 'paypal' ? 'PayPal' :
                         'Wallet';
 
-    const subject = `Action Required: Subscription Renewal Failed - ${appName}`;
+    const nextAttemptDate = params.nextAttemptDate ? this.formatDate(params.nextAttemptDate, locale) : null;
+    const attemptLine = params.attempt ? `\n- Retry Attempt: ${params.attempt}` : '';
+    const nextSteps = params.status === 'unpaid'
+      ? [
+          '- Your subscription is now "Unpaid" after all automatic retries failed',
+          nextAttemptDate
+            ? `- We will make a final attempt on ${nextAttemptDate}; if it fails your subscription will be canceled`
+            : '- Your subscription will be canceled unless the payment is completed',
+          '- Your team keeps its phase credit until then',
+        ]
+      : [
+          '- Your subscription is now in a "Past Due" status',
+          '- You still have access to your account for now',
+          nextAttemptDate
+            ? `- We will retry the charge automatically on ${nextAttemptDate}, using your wallet balance if your card fails again`
+            : '- Please update your payment method to avoid service interruption',
+        ];
+
+    const subject = params.status === 'unpaid'
+      ? `Final Notice: Subscription Payment Overdue - ${appName}`
+      : `Action Required: Subscription Renewal Failed - ${appName}`;
     const textBody = `Hi ${friendlyName},
 
 We were unable to process your automatic subscription renewal for ${appName}.
@@ -444,12 +467,10 @@ We were unable to process your automatic subscription renewal for ${appName}.
 Renewal Attempt Details:
 - Amount: ${amount}
 - Payment Method: ${gatewayName}
-- Reason: ${params.reason}
+- Reason: ${params.reason}${attemptLine}
 
 What happens next?
-- Your subscription is now in a "Past Due" status
-- You still have access to your account for now
-- Please update your payment method to avoid service interruption
+${nextSteps.join('\n')}
 
 To update your payment method, visit: ${process.env.NEXT_PUBLIC_APP_URL}/subscription
 
@@ -0,0 +1,233 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { SubscriptionRepository } from '../repositories/subscription-repository';
+import { SubscriptionPauseRepository } from '../repositories/subscription-pause-repository';
+import type { SubscriptionEventBus } from '../observers/subscription-event-bus';
+import type { PaymentGateway, SubscriptionRecord } from '../domain/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAUSE_WINDOW_MS = 365 * DAY_MS;
+
+/**
+ * Gateways whose renewals the platform charges itself. Stripe invoices, PayPal agreements and
+ * Mercado Pago preapprovals are charged by the gateway on its own schedule, which a pause here
+ * cannot stop.
+ */
+const PAUSABLE_GATEWAYS: PaymentGateway[] = ['wallet'];
+
+export type SubscriptionPauseErrorCode =
+  | 'SUBSCRIPTION_NOT_FOUND'
+  | 'SUBSCRIPTION_NOT_ACTIVE'
+  | 'SUBSCRIPTION_NOT_PAUSED'
+  | 'PAUSE_DISABLED'
+  | 'PAUSE_NOT_SUPPORTED'
+  | 'PAUSE_TOO_LONG'
+  | 'PAUSE_LIMIT_REACHED';
+
+export class SubscriptionPauseError extends Error {
+  constructor(
+    message: string,
+    public readonly code: SubscriptionPauseErrorCode,
+  ) {
+    super(message);
+    this.name = 'SubscriptionPauseError';
+  }
+}
+
+export interface SubscriptionPauseResult {
+  subscription: SubscriptionRecord | null;
+  pauseEndsAt: string;
+  currentPeriodEnd: string | null;
+}
+
+export interface SubscriptionResumeResult {
+  subscription: SubscriptionRecord | null;
+  pausedDays: number;
+  early: boolean;
+}
+
+const shiftDate = (value: string | null, days: number) =>
+  value ? new Date(new Date(value).getTime() + days * DAY_MS).toISOString() : null;
+
+/**
+ * Vacation holds: a paused subscription is not renewed and its `current_period_end` is pushed
+ * back by the pause length. Resuming early gives the unused days back. Pause length and the
+ * number of pauses per rolling year come from app settings. Only subscriptions renewed by the
+ * platform can be paused; the gateways that bill on their own would keep charging.
+ */
+export class SubscriptionPauseService {
+  private readonly subscriptions: SubscriptionRepository;
+  private readonly pauses: SubscriptionPauseRepository;
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly bus: SubscriptionEventBus,
+  ) {
+    this.subscriptions = new SubscriptionRepository(client);
+    this.pauses = new SubscriptionPauseRepository(client);
+  }
+
+  async pause(userId: string, days: number, now: Date = new Date()): Promise<SubscriptionPauseResult> {
+    const subscription = await this.subscriptions.findByUserId(userId);
+
+    if (!subscription) {
+      throw new SubscriptionPauseError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND');
+    }
+
+    if (subscription.status !== 'active' || subscription.dunning_started_at) {
+      throw new SubscriptionPauseError(
+        'Only active subscriptions without pending payments can be paused',
+        'SUBSCRIPTION_NOT_ACTIVE',
+      );
+    }
+
+    if (!PAUSABLE_GATEWAYS.includes(subscription.gateway)) {
+      throw new SubscriptionPauseError(
+        'Subscriptions billed automatically by the payment provider cannot be paused',
+        'PAUSE_NOT_SUPPORTED',
+      );
+    }
+
+    const settings = await getAppSettings();
+
+    if (settings.subscriptionPausesPerYear <= 0) {
+      throw new SubscriptionPauseError('Pausing subscriptions is not available', 'PAUSE_DISABLED');
+    }
+
+    if (!Number.isInteger(days) || days < 1 || days > settings.subscriptionPauseMaxDays) {
+      throw new SubscriptionPauseError(
+        `Pauses must be between 1 and ${settings.subscriptionPauseMaxDays} days`,
+        'PAUSE_TOO_LONG',
+      );
+    }
+
+    const pausesThisYear = await this.pauses.countSince(userId, new Date(now.getTime() - PAUSE_WINDOW_MS));
+
+    if (pausesThisYear >= settings.subscriptionPausesPerYear) {
+      throw new SubscriptionPauseError(
+        `Only ${settings.subscriptionPausesPerYear} pause(s) are allowed every 12 months`,
+        'PAUSE_LIMIT_REACHED',
+      );
+    }
+
+    const pausedAt = now.toISOString();
+    const pauseEndsAt = shiftDate(pausedAt, days)!;
+    const currentPeriodEnd = shiftDate(subscription.current_period_end, days);
+
+    const updated = await this.pauses.updateState(subscription.id, {
+      status: 'paused',
+      pausedAt,
+      pauseEndsAt,
+      currentPeriodEnd,
+    });
+
+    await this.pauses.insert({
+      subscriptionId: subscription.id,
+      userId,
+      startedAt: pausedAt,
+      scheduledEndAt: pauseEndsAt,
+      extendedDays: days,
+    });
+
+    // The activation trigger only refreshes team counts when a subscription leaves 'active';
+    // phases depend on whether paused members still count, so recalculate them here
+    await this.recalculatePhases(userId);
+
+    console.log(`[SubscriptionPause] User ${userId} paused for ${days} days until ${pauseEndsAt}`);
+
+    this.bus.notify({ type: 'subscription.updated', payload: { subscription: updated } });
+    this.bus.notify({
+      type: 'subscription.paused',
+      payload: { userId, subscription: updated, days, pauseEndsAt },
+    });
+
+    return { subscription: updated, pauseEndsAt, currentPeriodEnd };
+  }
+
+  async resume(userId: string, now: Date = new Date()): Promise<SubscriptionResumeResult> {
+    const subscription = await this.subscriptions.findByUserId(userId);
+
+    if (!subscription) {
+      throw new SubscriptionPauseError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND');
+    }
+
+    if (subscription.status !== 'paused') {
+      throw new SubscriptionPauseError('Subscription is not paused', 'SUBSCRIPTION_NOT_PAUSED');
+    }
+
+    return this.resumeSubscription(subscription, now);
+  }
+
+  /**
+   * Reactivate every pause whose scheduled end has passed. Failures are logged per subscription.
+   */
+  async resumeDuePauses(now: Date = new Date()): Promise<number> {
+    const due = await this.pauses.findDueResumes(now);
+    let resumed = 0;
+
+    for (const subscription of due) {
+      try {
+        await this.resumeSubscription(subscription, now);
+        resumed++;
+      } catch (error) {
+        console.error(`[SubscriptionPause] Failed to resume subscription ${subscription.id}:`, error);
+      }
+    }
+
+    return resumed;
+  }
+
+  private async resumeSubscription(
+    subscription: SubscriptionRecord,
+    now: Date,
+  ): Promise<SubscriptionResumeResult> {
+    const pause = await this.pauses.findOpenBySubscription(subscription.id);
+    const pausedAt = subscription.paused_at ?? pause?.started_at ?? now.toISOString();
+    const scheduledEnd = subscription.pause_ends_at ?? pause?.scheduled_end_at ?? now.toISOString();
+    const early = now.getTime() < new Date(scheduledEnd).getTime();
+
+    const extendedDays = pause?.extended_days ?? 0;
+    const pausedDays = early
+      ? Math.min(extendedDays, Math.ceil((now.getTime() - new Date(pausedAt).getTime()) / DAY_MS))
+      : extendedDays;
+
+    // Give back the days that were added to the period but not used
+    const currentPeriodEnd = shiftDate(subscription.current_period_end, pausedDays - extendedDays);
+
+    // Back to 'active': the activation trigger recalculates phases and team counts
+    const updated = await this.pauses.updateState(subscription.id, {
+      status: 'active',
+      pausedAt: null,
+      pauseEndsAt: null,
+      currentPeriodEnd,
+    });
+
+    if (pause) {
+      await this.pauses.close(pause.id, now.toISOString(), pausedDays);
+    }
+
+    console.log(
+      `[SubscriptionPause] User ${subscription.user_id} resumed after ${pausedDays} days${early ? ' (early)' : ''}`,
+    );
+
+    this.bus.notify({ type: 'subscription.updated', payload: { subscription: updated } });
+    this.bus.notify({
+      type: 'subscription.resumed',
+      payload: { userId: subscription.user_id, subscription: updated, pausedDays, early },
+    });
+
+    return { subscription: updated, pausedDays, early };
+  }
+
+  private async recalculatePhases(userId: string) {
+    const { error: phaseError } = await this.client.rpc('recalculate_phase', { p_user: userId });
+    if (phaseError) {
+      console.error('[SubscriptionPause] Failed to recalculate phase:', phaseError);
+    }
+
+    const { error: cascadeError } = await this.client.rpc('recalculate_sponsor_phases_cascade', { p_user: userId });
+    if (cascadeError) {
+      console.error('[SubscriptionPause] Failed to recalculate sponsor phases:', cascadeError);
+    }
+  }
+}
@@ -0,0 +1,369 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { getPlanById, getPlans } from '@/lib/services/plan-service';
+import type { Plan } from '@/lib/models/definitions';
+import { SubscriptionRepository } from '../repositories/subscription-repository';
+import { SubscriptionPlanChangeRepository } from '../repositories/subscription-plan-change-repository';
+import { SubscriptionChargeService, type SubscriptionChargeOutcome } from './subscription-charge-service';
+import { WalletService } from './wallet-service';
+import { FxRateService } from './fx-rate-service';
+import type { SubscriptionEventBus } from '../observers/subscription-event-bus';
+import type { SubscriptionRecord, SubscriptionType } from '../domain/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PlanChangeErrorCode =
+  | 'SUBSCRIPTION_NOT_FOUND'
+  | 'SUBSCRIPTION_NOT_ACTIVE'
+  | 'PLAN_NOT_FOUND'
+  | 'SAME_PLAN'
+  | 'GATEWAY_UNSUPPORTED'
+  | 'PAYMENT_FAILED'
+  | 'PLAN_CHANGE_IN_PROGRESS';
+
+export class SubscriptionPlanChangeError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PlanChangeErrorCode,
+  ) {
+    super(message);
+    this.name = 'SubscriptionPlanChangeError';
+  }
+}
+
+export type PlanChangePaymentSource = 'gateway' | 'wallet';
+
+export interface PlanChangePlanSummary {
+  id: string;
+  name: string;
+  priceCents: number;
+  subscriptionType: SubscriptionType;
+}
+
+export interface PlanChangePreview {
+  direction: 'upgrade' | 'downgrade' | 'lateral';
+  currentPlan: PlanChangePlanSummary | null;
+  targetPlan: PlanChangePlanSummary;
+  subscriptionType: SubscriptionType;
+  gateway: SubscriptionRecord['gateway'];
+  /** Currency plans are priced in; wallet payments in another currency are converted */
+  currency: string;
+  periodEnd: string | null;
+  remainingDays: number;
+  /** Unused share of what was paid for the current period, returned to the member */
+  creditCents: number;
+  /** Share of the new plan for the rest of the period */
+  chargeCents: number;
+  /** chargeCents - creditCents: charged when positive, credited to the wallet when negative */
+  amountDueCents: number;
+}
+
+export interface PlanChangeResult {
+  preview: PlanChangePreview;
+  subscription: SubscriptionRecord | null;
+  gateway: SubscriptionRecord['gateway'] | null;
+  gatewayRef: string | null;
+  /** Credit for a downgrade, in the wallet currency */
+  walletCreditCents: number;
+  walletCreditCurrency: string | null;
+}
+
+const toPriceCents = (plan: Plan) => Math.round(plan.price * 100);
+
+const resolveSubscriptionType = (plan: Plan, current: SubscriptionType): SubscriptionType => {
+  if (plan.is_mlm_plan && plan.is_affiliate_plan) {
+    return current;
+  }
+  return plan.is_affiliate_plan ? 'affiliate' : 'mlm';
+};
+
+const summarizePlan = (plan: Plan, current: SubscriptionType): PlanChangePlanSummary => ({
+  id: plan.id,
+  name: plan.name_en || plan.name || plan.slug,
+  priceCents: toPriceCents(plan),
+  subscriptionType: resolveSubscriptionType(plan, current),
+});
+
+/**
+ * Mid-cycle plan upgrades and downgrades.
+ *
+ * The unused share of what was paid for the current period is credited and the new plan is
+ * charged for the rest of it, both prorated over the real period from `current_period_start` to
+ * `current_period_end`; `current_period_end` does not move. A positive balance is charged through
+ * the subscription gateway or the wallet, a negative one is credited to the wallet in the wallet
+ * currency.
+ *
+ * The change is claimed under a lock on the subscription before anything is charged, the charge
+ * carries the change id as idempotency key, and the subscription update, the payment and the
+ * change record are written together. A charge whose change cannot be applied is given back.
+ */
+export class SubscriptionPlanChangeService {
+  private readonly subscriptions: SubscriptionRepository;
+  private readonly planChanges: SubscriptionPlanChangeRepository;
+  private readonly charges: SubscriptionChargeService;
+  private readonly wallets: WalletService;
+  private readonly fx: FxRateService;
+
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly bus: SubscriptionEventBus,
+  ) {
+    this.subscriptions = new SubscriptionRepository(client);
+    this.planChanges = new SubscriptionPlanChangeRepository(client);
+    this.charges = new SubscriptionChargeService(client);
+    this.wallets = new WalletService(client);
+    this.fx = new FxRateService(client);
+  }
+
+  async preview(userId: string, planId: string, now: Date = new Date()): Promise<PlanChangePreview> {
+    const { preview } = await this.prepare(userId, planId, now);
+    return preview;
+  }
+
+  async changePlan(
+    userId: string,
+    planId: string,
+    paymentSource: PlanChangePaymentSource = 'gateway',
+  ): Promise<PlanChangeResult> {
+    const { subscription, preview } = await this.prepare(userId, planId, new Date());
+
+    // The claim locks the subscription: a double submit finds the change pending or already applied
+    const changeId = await this.planChanges.claim({
+      subscriptionId: subscription.id,
+      fromPlanId: subscription.plan_id,
+      toPlanId: planId,
+      fromSubscriptionType: subscription.subscription_type,
+      toSubscriptionType: preview.subscriptionType,
+      creditCents: preview.creditCents,
+      chargeCents: preview.chargeCents,
+      amountDueCents: preview.amountDueCents,
+      currency: preview.currency,
+      periodEnd: preview.periodEnd,
+    });
+
+    if (!changeId) {
+      throw new SubscriptionPlanChangeError(
+        'A plan change for this subscription is already in progress or was just applied',
+        'PLAN_CHANGE_IN_PROGRESS',
+      );
+    }
+
+    const reference = `plan-change-${changeId}`;
+    let outcome: SubscriptionChargeOutcome | null = null;
+
+    if (preview.amountDueCents > 0) {
+      try {
+        outcome = await this.charge(subscription, preview, paymentSource, reference);
+      } catch (error) {
+        await this.planChanges.markFailed(changeId);
+        throw error;
+      }
+
+      if (!outcome.success) {
+        await this.planChanges.markFailed(changeId);
+        throw new SubscriptionPlanChangeError(outcome.error ?? 'Payment failed', 'PAYMENT_FAILED');
+      }
+    }
+
+    // One subscription row per member: switching between mlm and affiliate updates it in place
+    let updated: SubscriptionRecord | null;
+    try {
+      updated = await this.planChanges.complete(changeId, {
+        gateway: outcome?.gateway ?? null,
+        gatewayRef: outcome?.gatewayRef ?? null,
+      });
+    } catch (error) {
+      console.error(`[SubscriptionPlanChange] Failed to apply plan change ${changeId}, reversing the charge:`, error);
+      if (outcome) {
+        await this.charges.reverse(outcome, { userId, amountCents: preview.amountDueCents, reference });
+      }
+      await this.planChanges.markFailed(changeId);
+      throw error;
+    }
+
+    let walletCreditCents = 0;
+    let walletCreditCurrency: string | null = null;
+
+    if (preview.amountDueCents < 0) {
+      const credit = await this.creditWallet(subscription, preview, -preview.amountDueCents);
+      walletCreditCents = credit.amountCents;
+      walletCreditCurrency = credit.currency;
+    }
+
+    if (preview.subscriptionType !== subscription.subscription_type) {
+      // Switching between mlm and affiliate changes who counts in the sponsor's network
+      await this.client.rpc('recalculate_phase', { p_user: userId });
+    }
+
+    console.log(
+      `[SubscriptionPlanChange] User ${userId} moved from ${subscription.plan_id ?? 'no plan'} to ${planId} ` +
+      `(${preview.direction}, amount due ${preview.amountDueCents} cents)`,
+    );
+
+    this.bus.notify({ type: 'subscription.updated', payload: { subscription: updated } });
+    this.bus.notify({
+      type: 'subscription.plan_changed',
+      payload: {
+        userId,
+        subscription: updated,
+        previousPlanId: subscription.plan_id,
+        planId,
+        previousSubscriptionType: subscription.subscription_type,
+        subscriptionType: preview.subscriptionType,
+        amountDueCents: preview.amountDueCents,
+      },
+    });
+
+    return {
+      preview,
+      subscription: updated,
+      gateway: outcome?.gateway ?? null,
+      gatewayRef: outcome?.gatewayRef ?? null,
+      walletCreditCents,
+      walletCreditCurrency,
+    };
+  }
+
+  /**
+   * Credit the unused share of the previous plan to the wallet balance, converted into the
+   * wallet currency when plans are priced in another one
+   */
+  private async creditWallet(subscription: SubscriptionRecord, preview: PlanChangePreview, amountCents: number) {
+    const walletCurrency = await this.wallets.getWalletCurrency(subscription.user_id);
+    const meta: Record<string, unknown> = {
+      currency: walletCurrency,
+      plan_id: preview.targetPlan.id,
+      previous_plan_id: subscription.plan_id,
+    };
+    let creditCents = amountCents;
+
+    if (walletCurrency !== preview.currency) {
+      const conversion = await this.fx.convert(amountCents, preview.currency, walletCurrency);
+      creditCents = conversion.amountCents;
+      meta.fx_rate = conversion.rate;
+      meta.original_amount_cents = conversion.originalAmountCents;
+      meta.original_currency = conversion.originalCurrency;
+    }
+
+    await this.wallets.addFunds(
+      subscription.user_id,
+      creditCents,
+      'subscription_credit',
+      undefined,
+      `Plan change credit: ${preview.currentPlan?.name ?? 'previous plan'} → ${preview.targetPlan.name}`,
+      meta,
+    );
+
+    return { amountCents: creditCents, currency: walletCurrency };
+  }
+
+  private async prepare(userId: string, planId: string, now: Date) {
+    const subscription = await this.subscriptions.findByUserId(userId);
+
+    if (!subscription) {
+      throw new SubscriptionPlanChangeError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND');
+    }
+
+    if (subscription.status !== 'active') {
+      throw new SubscriptionPlanChangeError(
+        'Only active subscriptions can change plans. Settle any pending payment first.',
+        'SUBSCRIPTION_NOT_ACTIVE',
+      );
+    }
+
+    if (subscription.plan_id === planId) {
+      throw new SubscriptionPlanChangeError('Subscription is already on this plan', 'SAME_PLAN');
+    }
+
+    const plans = await getPlans();
+    const targetPlan = plans.find((plan) => plan.id === planId);
+
+    if (!targetPlan) {
+      throw new SubscriptionPlanChangeError('Plan not found or not available', 'PLAN_NOT_FOUND');
+    }
+
+    const currentPlan = subscription.plan_id
+      ? plans.find((plan) => plan.id === subscription.plan_id) ?? (await getPlanById(subscription.plan_id))
+      : null;
+
+    const settings = await getAppSettings();
+
+    return {
+      subscription,
+      preview: this.buildPreview(subscription, currentPlan, targetPlan, settings.currency.toUpperCase(), now),
+    };
+  }
+
+  private buildPreview(
+    subscription: SubscriptionRecord,
+    currentPlan: Plan | null,
+    targetPlan: Plan,
+    currency: string,
+    now: Date,
+  ): PlanChangePreview {
+    const periodEnd = subscription.current_period_end;
+    const periodStart = subscription.current_period_start ?? null;
+    const remainingMs = periodEnd ? Math.max(0, new Date(periodEnd).getTime() - now.getTime()) : 0;
+    // A period with no recorded start is treated as starting now: the new plan is charged in full
+    const periodMs = periodEnd && periodStart ? new Date(periodEnd).getTime() - new Date(periodStart).getTime() : remainingMs;
+    const ratio = periodMs > 0 ? Math.min(1, remainingMs / periodMs) : 0;
+
+    const current = currentPlan ? summarizePlan(currentPlan, subscription.subscription_type) : null;
+    const target = summarizePlan(targetPlan, subscription.subscription_type);
+
+    // The credit returns the unused share of what was actually paid for the period, not of the
+    // catalog price, so a discounted or unpaid period is never credited more than it brought in
+    const creditCents = current ? Math.round((subscription.current_period_paid_cents ?? 0) * ratio) : 0;
+    const chargeCents = Math.round(target.priceCents * ratio);
+    const currentPriceCents = current?.priceCents ?? 0;
+
+    return {
+      direction:
+        target.priceCents > currentPriceCents
+          ? 'upgrade'
+          : target.priceCents < currentPriceCents
+            ? 'downgrade'
+            : 'lateral',
+      currentPlan: current,
+      targetPlan: target,
+      subscriptionType: target.subscriptionType,
+      gateway: subscription.gateway,
+      currency,
+      periodEnd,
+      remainingDays: Math.ceil(remainingMs / DAY_MS),
+      creditCents,
+      chargeCents,
+      amountDueCents: chargeCents - creditCents,
+    };
+  }
+
+  private async charge(
+    subscription: SubscriptionRecord,
+    preview: PlanChangePreview,
+    paymentSource: PlanChangePaymentSource,
+    reference: string,
+  ): Promise<SubscriptionChargeOutcome> {
+    const input = {
+      userId: subscription.user_id,
+      amountCents: preview.amountDueCents,
+      currency: preview.currency,
+      intent: 'subscription_plan_change' as const,
+      metadata: { planId: preview.targetPlan.id },
+      reference,
+    };
+
+    if (paymentSource === 'wallet' || subscription.gateway === 'wallet') {
+      return this.charges.chargeWallet(input);
+    }
+
+    if (subscription.gateway === 'stripe') {
+      return this.charges.chargeStripe({ ...input, paymentMethodId: subscription.default_payment_method_id });
+    }
+
+    // PayPal billing agreements only collect the recurring amount
+    throw new SubscriptionPlanChangeError(
+      'PayPal subscriptions cannot be charged a prorated amount. Pay the difference with your wallet.',
+      'GATEWAY_UNSUPPORTED',
+    );
+  }
+}
@@ -1,30 +1,43 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import Stripe from 'stripe';
-import type { Stripe as StripeTypes } from 'stripe';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { getPlanById, getPlans } from '@/lib/services/plan-service';
 import { SubscriptionRepository } from '../repositories/subscription-repository';
 import { PaymentRepository } from '../repositories/payment-repository';
 import { SubscriptionLifecycleService } from './subscription-lifecycle-service';
+import { SubscriptionDunningService } from './subscription-dunning-service';
+import { SubscriptionPauseService } from './subscription-pause-service';
+import { SubscriptionChargeService, type SubscriptionChargeOutcome } from './subscription-charge-service';
 import { SubscriptionEventBus } from '../observers/subscription-event-bus';
+import type { SubscriptionRecord, SubscriptionStatus } from '../domain/types';
 import { randomUUID } from 'crypto';
 
-type StripeClient = InstanceType<typeof Stripe>;
-type StripePaymentIntentsResource = StripeTypes['paymentIntents'];
-type StripeApiClient = StripeClient & {
-  paymentIntents: StripePaymentIntentsResource;
-};
+const RENEWAL_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
 
 interface RenewalResult {
   userId: string;
   success: boolean;
   error?: string;
   amountCents?: number;
+  currency?: string;
   gateway?: string;
+  attempt?: number;
+  status?: SubscriptionStatus;
+}
+
+interface RenewalPrice {
+  amountCents: number;
+  currency: string;
 }
 
 interface RenewalSummary {
   totalProcessed: number;
   successful: number;
   failed: number;
+  retried: number;
+  recovered: number;
+  unpaid: number;
+  canceled: number;
+  resumed: number;
   results: RenewalResult[];
 }
 
@@ -34,14 +47,21 @@ interface RenewalSummary {
  * This service:
  * 1. Finds subscriptions that are about to expire (within 1 day)
  * 2. Checks if automatic renewal is enabled (cancel_at_period_end = false)
- * 3. Processes payment using the saved default payment method
+ * 3. Charges the current price of the subscription plan, in the currency plans are priced in,
+ *    using the saved default payment method, falling back to the wallet
  * 4. Updates subscription period_end to +30 days
- * 5. Handles payment failures gracefully
+ * 5. Hands failed payments to the dunning engine and runs its due retries
+ *
+ * Paused subscriptions are skipped; pauses that have ended are resumed first so their
+ * (already extended) period is renewed on schedule.
  */
 export class SubscriptionRenewalService {
   private readonly subscriptions: SubscriptionRepository;
   private readonly payments: PaymentRepository;
   private readonly lifecycle: SubscriptionLifecycleService;
+  private readonly dunning: SubscriptionDunningService;
+  private readonly charges: SubscriptionChargeService;
+  private readonly pauses: SubscriptionPauseService;
 
   constructor(
     private readonly client: SupabaseClient,
@@ -50,10 +70,13 @@ export class SubscriptionRenewalService {
     this.subscriptions = new SubscriptionRepository(client);
     this.payments = new PaymentRepository(client);
     this.lifecycle = new SubscriptionLifecycleService(client, bus);
+    this.dunning = new SubscriptionDunningService(client, bus);
+    this.charges = new SubscriptionChargeService(client);
+    this.pauses = new SubscriptionPauseService(client, bus);
   }
 
   /**
-   * Process all subscriptions that need renewal
+   * Process all subscriptions that need renewal, then every dunning retry that is due
    * 
    * @param daysBeforeExpiry - Number of days before expiry to process renewals (default: 1)
    * @returns Summary of renewal processing
@@ -65,25 +88,47 @@ export class SubscriptionRenewalService {
       totalProcessed: 0,
       successful: 0,
       failed: 0,
+      retried: 0,
+      recovered: 0,
+      unpaid: 0,
+      canceled: 0,
+      resumed: 0,
       results: [],
     };
 
     try {
-      // Find subscriptions that need renewal
+      summary.resumed = await this.pauses.resumeDuePauses();
+
+      // Find subscriptions that need renewal and dunning retries that are due
       const subscriptionsToRenew = await this.findSubscriptionsNeedingRenewal(daysBeforeExpiry);
+      const dueRetries = await this.dunning.findDueRetries();
       
-      console.log(`[SubscriptionRenewal] Found ${subscriptionsToRenew.length} subscriptions to renew`);
-      summary.totalProcessed = subscriptionsToRenew.length;
+      console.log(
+        `[SubscriptionRenewal] Found ${subscriptionsToRenew.length} subscriptions to renew and ${dueRetries.length} dunning retries`
+      );
+      summary.totalProcessed = subscriptionsToRenew.length + dueRetries.length;
 
       // Process each subscription
-      for (const subscription of subscriptionsToRenew) {
-        const result = await this.renewSubscription(subscription.user_id);
+      for (const subscription of [...subscriptionsToRenew, ...dueRetries]) {
+        const result = await this.renewSubscription(subscription);
         summary.results.push(result);
 
+        if (result.attempt) {
+          summary.retried++;
+        }
+
         if (result.success) {
           summary.successful++;
+          if (result.attempt) {
+            summary.recovered++;
+          }
         } else {
           summary.failed++;
+          if (result.status === 'unpaid') {
+            summary.unpaid++;
+          } else if (result.status === 'canceled') {
+            summary.canceled++;
+          }
         }
       }
 
@@ -91,6 +136,11 @@ export class SubscriptionRenewalService {
         total: summary.totalProcessed,
         successful: summary.successful,
         failed: summary.failed,
+        retried: summary.retried,
+        recovered: summary.recovered,
+        unpaid: summary.unpaid,
+        canceled: summary.canceled,
+        resumed: summary.resumed,
       });
 
       return summary;
@@ -104,12 +154,12 @@ export class SubscriptionRenewalService {
    * Find subscriptions that need renewal
    * 
    * Criteria:
-   * - Status is 'active' or 'past_due'
+   * - Status is 'active' or 'past_due' (paused subscriptions are never renewed)
    * - cancel_at_period_end is false
    * - current_period_end is within the specified days
-   * - Has a default_payment_method_id (for Stripe) or gateway is 'wallet'/'paypal'
+   * - Not already in dunning (those are picked up by their retry schedule)
    */
-  private async findSubscriptionsNeedingRenewal(daysBeforeExpiry: number) {
+  private async findSubscriptionsNeedingRenewal(daysBeforeExpiry: number): Promise<SubscriptionRecord[]> {
     const now = new Date();
     const expiryThreshold = new Date(now.getTime() + daysBeforeExpiry * 24 * 60 * 60 * 1000);
 
@@ -118,6 +168,7 @@ export class SubscriptionRenewalService {
       .select('*')
       .in('status', ['active', 'past_due'])
       .eq('cancel_at_period_end', false)
+      .is('dunning_started_at', null)
       .not('current_period_end', 'is', null)
       .lte('current_period_end', expiryThreshold.toISOString());
 
@@ -125,294 +176,215 @@ export class SubscriptionRenewalService {
       throw error;
     }
 
-    // Filter subscriptions that have a payment method or use wallet/paypal
-    return (data || []).filter(sub => {
-      // Wallet and PayPal don't need saved payment methods
-      if (sub.gateway === 'wallet' || sub.gateway === 'paypal') {
-        return true;
-      }
-      // Stripe requires a saved payment method
-      if (sub.gateway === 'stripe' && sub.default_payment_method_id) {
-        return true;
-      }
-      return false;
-    });
+    // Stripe subscriptions without a saved card are still attempted so the wallet fallback
+    // and dunning can run instead of letting the membership lapse silently
+    return ((data || []) as SubscriptionRecord[]).filter(
+      (sub) =>
+        sub.gateway === 'stripe' || sub.gateway === 'wallet' || sub.gateway === 'paypal' || sub.gateway === 'mercadopago'
+    );
   }
 
   /**
-   * Renew a single subscription
+   * Renew a single subscription, or run its next dunning attempt
    */
-  private async renewSubscription(userId: string): Promise<RenewalResult> {
-    console.log(`[SubscriptionRenewal] Processing renewal for user ${userId}`);
+  private async renewSubscription(subscription: SubscriptionRecord): Promise<RenewalResult> {
+    const userId = subscription.user_id;
+    const attempt = this.dunning.getAttemptNumber(subscription);
 
-    try {
-      const subscription = await this.subscriptions.findByUserId(userId);
+    console.log(`[SubscriptionRenewal] Processing renewal for user ${userId} (attempt ${attempt})`);
 
-      if (!subscription) {
+    try {
+      // Check if renewal is needed
+      if (subscription.cancel_at_period_end) {
         return {
           userId,
           success: false,
-          error: 'Subscription not found',
+          error: 'Subscription is set to cancel at period end',
+          attempt,
         };
       }
 
-      // Check if renewal is needed
-      if (subscription.cancel_at_period_end) {
+      const { amountCents, currency } = await this.resolveRenewalPrice(subscription);
+      const outcome = await this.charge(subscription, amountCents, currency);
+
+      if (outcome.success) {
+        if (!outcome.collectedByGateway) {
+          await this.completeRenewal(userId, amountCents, currency, outcome);
+
+          if (attempt > 0) {
+            await this.dunning.recordRecovery({ subscription, gateway: outcome.gateway, amountCents });
+          }
+        }
+
         return {
           userId,
-          success: false,
-          error: 'Subscription is set to cancel at period end',
+          success: true,
+          amountCents,
+          currency,
+          gateway: outcome.gateway,
+          attempt,
+          status: 'active',
         };
       }
 
-      // Get subscription plan price (you may need to adjust this based on your plan structure)
-      const planPriceCents = 3499; // Default price, should be fetched from plans table
-
-      let result: RenewalResult;
-
-      switch (subscription.gateway) {
-        case 'stripe':
-          result = await this.renewWithStripe(userId, subscription.default_payment_method_id, planPriceCents);
-          break;
-        case 'wallet':
-          result = await this.renewWithWallet(userId, planPriceCents);
-          break;
-        case 'paypal':
-          result = await this.renewWithPayPal(userId, planPriceCents);
-          break;
-        default:
-          result = {
-            userId,
-            success: false,
-            error: `Unsupported gateway: ${subscription.gateway}`,
-          };
-      }
+      const error = outcome.error ?? 'Payment processing failed';
+      const state = await this.dunning.recordFailure({
+        subscription,
+        gateway: outcome.gateway,
+        amountCents,
+        currency,
+        reason: error,
+      });
 
-      return result;
+      return {
+        userId,
+        success: false,
+        error,
+        amountCents,
+        currency,
+        gateway: outcome.gateway,
+        attempt,
+        status: state.status,
+      };
     } catch (error) {
       console.error(`[SubscriptionRenewal] Error renewing subscription for user ${userId}:`, error);
       return {
         userId,
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
+        attempt,
       };
     }
   }
 
   /**
-   * Renew subscription using Stripe
+   * Current price of the subscription plan, or of the default plan for subscriptions created
+   * without one. Plans are priced in the platform currency.
    */
-  private async renewWithStripe(
-    userId: string,
-    paymentMethodId: string | null,
-    amountCents: number
-  ): Promise<RenewalResult> {
-    if (!paymentMethodId) {
-      return {
-        userId,
-        success: false,
-        error: 'No payment method saved for Stripe renewal',
-      };
-    }
-
-    try {
-      // Get Stripe credentials
-      const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-      if (!stripeSecretKey) {
-        throw new Error('Stripe secret key not configured');
-      }
+  private async resolveRenewalPrice(subscription: SubscriptionRecord): Promise<RenewalPrice> {
+    const plan = subscription.plan_id
+      ? await getPlanById(subscription.plan_id)
+      : (await getPlans()).find((candidate) => candidate.is_default) ?? null;
 
-      const stripe = new Stripe(stripeSecretKey, {
-        apiVersion: '2025-03-31',
-      }) as StripeApiClient;
-
-      // Get payment method details
-      const { data: paymentMethod } = await this.client
-        .from('payment_methods')
-        .select('stripe_payment_method_id, user_id')
-        .eq('id', paymentMethodId)
-        .eq('user_id', userId)
-        .single();
+    if (!plan) {
+      throw new Error(`Plan ${subscription.plan_id ?? '(default)'} not found for subscription renewal`);
+    }
 
-      if (!paymentMethod) {
-        throw new Error('Payment method not found');
-      }
+    const settings = await getAppSettings();
 
-      // Create payment intent
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: amountCents,
-        currency: 'usd',
-        payment_method: paymentMethod.stripe_payment_method_id,
-        customer: undefined, // You may need to get customer ID from profile
-        confirm: true,
-        off_session: true, // Important for automatic renewals
-        metadata: {
-          userId,
-          intent: 'subscription_renewal',
-        },
-      });
-
-      if (paymentIntent.status === 'succeeded') {
-        // Record payment and update subscription
-        const periodEnd = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
-        const gatewayRef = `stripe:renewal:${paymentIntent.id}`;
+    return {
+      amountCents: Math.round(plan.price * 100),
+      currency: settings.currency.toUpperCase(),
+    };
+  }
 
-        await this.lifecycle.handleConfirmedPayment({
+  /**
+   * Charge the subscription's gateway, falling back to the wallet balance when the card, the
+   * PayPal agreement or the Mercado Pago preapproval fails
+   */
+  private async charge(
+    subscription: SubscriptionRecord,
+    amountCents: number,
+    currency: string,
+  ): Promise<SubscriptionChargeOutcome> {
+    const userId = subscription.user_id;
+    let outcome: SubscriptionChargeOutcome;
+
+    switch (subscription.gateway) {
+      case 'stripe':
+        outcome = await this.charges.chargeStripe({
           userId,
+          paymentMethodId: subscription.default_payment_method_id,
           amountCents,
-          gatewayRef,
-          periodEnd,
-          gateway: 'stripe',
+          currency,
+          intent: 'subscription_renewal',
         });
-
-        // Send success notification
-        try {
-          const { SubscriptionNotificationService } = await import('./subscription-notification-service');
-          const notificationService = new SubscriptionNotificationService(this.client);
-          await notificationService.sendRenewalSuccessEmail({
-            userId,
-            amountCents,
-            currency: 'USD',
-            nextBillingDate: periodEnd,
-            gateway: 'stripe',
-          });
-        } catch (emailError) {
-          console.error('[SubscriptionRenewal] Failed to send success email:', emailError);
-        }
-
+        break;
+      case 'paypal':
+        outcome = await this.chargeWithPayPal(userId);
+        break;
+      case 'mercadopago':
+        outcome = await this.chargeWithMercadoPago(userId);
+        break;
+      case 'wallet':
+        return this.chargeWithWallet(userId, amountCents, currency);
+      default:
         return {
-          userId,
-          success: true,
-          amountCents,
-          gateway: 'stripe',
+          success: false,
+          gateway: subscription.gateway,
+          error: `Unsupported gateway: ${subscription.gateway}`,
         };
-      } else {
-        throw new Error(`Payment failed with status: ${paymentIntent.status}`);
-      }
-    } catch (error) {
-      console.error(`[SubscriptionRenewal] Stripe renewal failed for user ${userId}:`, error);
+    }
 
-      // Mark subscription as past_due
-      await this.subscriptions.updateStatusByUserId(userId, 'past_due');
+    if (outcome.success) {
+      return outcome;
+    }
 
-      // Send failure notification
-      try {
-        const { SubscriptionNotificationService } = await import('./subscription-notification-service');
-        const notificationService = new SubscriptionNotificationService(this.client);
-        await notificationService.sendRenewalFailureEmail({
-          userId,
-          amountCents,
-          currency: 'USD',
-          reason: error instanceof Error ? error.message : 'Payment processing failed',
-          gateway: 'stripe',
-        });
-      } catch (emailError) {
-        console.error('[SubscriptionRenewal] Failed to send failure email:', emailError);
-      }
+    console.log(`[SubscriptionRenewal] ${outcome.gateway} renewal failed for user ${userId}, trying wallet balance`);
+    const fallback = await this.chargeWithWallet(userId, amountCents, currency);
 
-      return {
-        userId,
-        success: false,
-        error: error instanceof Error ? error.message : 'Stripe payment failed',
-        gateway: 'stripe',
-      };
+    if (fallback.success) {
+      return fallback;
     }
+
+    return {
+      ...outcome,
+      error: `${outcome.error ?? 'Payment failed'}; wallet fallback: ${fallback.error ?? 'failed'}`,
+    };
   }
 
   /**
-   * Renew subscription using Wallet
+   * Record the payment, extend the period and send the success email
    */
-  private async renewWithWallet(userId: string, amountCents: number): Promise<RenewalResult> {
-    try {
-      // Check wallet balance
-      const { data: wallet } = await this.client
-        .from('wallets')
-        .select('balance_cents')
-        .eq('user_id', userId)
-        .single();
-
-      if (!wallet || wallet.balance_cents < amountCents) {
-        // Mark subscription as past_due
-        await this.subscriptions.updateStatusByUserId(userId, 'past_due');
-
-        // Send failure notification
-        try {
-          const { SubscriptionNotificationService } = await import('./subscription-notification-service');
-          const notificationService = new SubscriptionNotificationService(this.client);
-          await notificationService.sendRenewalFailureEmail({
-            userId,
-            amountCents,
-            currency: 'USD',
-            reason: 'Insufficient wallet balance',
-            gateway: 'wallet',
-          });
-        } catch (emailError) {
-          console.error('[SubscriptionRenewal] Failed to send failure email:', emailError);
-        }
-
-        return {
-          userId,
-          success: false,
-          error: 'Insufficient wallet balance',
-          gateway: 'wallet',
-        };
-      }
-
-      // Deduct from wallet
-      await this.client
-        .from('wallets')
-        .update({ balance_cents: wallet.balance_cents - amountCents })
-        .eq('user_id', userId);
-
-      // Record payment and update subscription
-      const periodEnd = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
-      const gatewayRef = `wallet:renewal:${userId}:${randomUUID()}`;
+  private async completeRenewal(
+    userId: string,
+    amountCents: number,
+    currency: string,
+    outcome: SubscriptionChargeOutcome,
+  ) {
+    const periodEnd = new Date(Date.now() + RENEWAL_PERIOD_MS).toISOString();
+
+    await this.lifecycle.handleConfirmedPayment({
+      userId,
+      amountCents,
+      gatewayRef: outcome.gatewayRef ?? `${outcome.gateway}:renewal:${userId}:${randomUUID()}`,
+      periodEnd,
+      gateway: outcome.gateway,
+    });
 
-      await this.lifecycle.handleConfirmedPayment({
+    // Send success notification
+    try {
+      const { SubscriptionNotificationService } = await import('./subscription-notification-service');
+      const notificationService = new SubscriptionNotificationService(this.client);
+      await notificationService.sendRenewalSuccessEmail({
         userId,
         amountCents,
-        gatewayRef,
-        periodEnd,
-        gateway: 'wallet',
+        currency,
+        nextBillingDate: periodEnd,
+        gateway: outcome.gateway,
       });
-
-      // Send success notification
-      try {
-        const { SubscriptionNotificationService } = await import('./subscription-notification-service');
-        const notificationService = new SubscriptionNotificationService(this.client);
-        await notificationService.sendRenewalSuccessEmail({
-          userId,
-          amountCents,
-          currency: 'USD',
-          nextBillingDate: periodEnd,
-          gateway: 'wallet',
-        });
-      } catch (emailError) {
-        console.error('[SubscriptionRenewal] Failed to send success email:', emailError);
-      }
-
-      return {
-        userId,
-        success: true,
-        amountCents,
-        gateway: 'wallet',
-      };
-    } catch (error) {
-      console.error(`[SubscriptionRenewal] Wallet renewal failed for user ${userId}:`, error);
-      return {
-        userId,
-        success: false,
-        error: error instanceof Error ? error.message : 'Wallet payment failed',
-        gateway: 'wallet',
-      };
+    } catch (emailError) {
+      console.error('[SubscriptionRenewal] Failed to send success email:', emailError);
     }
   }
 
   /**
-   * Renew subscription using PayPal Billing Agreement
+   * Debit the wallet; a balance held in another currency is converted by the wallet service
+   */
+  private async chargeWithWallet(userId: string, amountCents: number, currency: string): Promise<SubscriptionChargeOutcome> {
+    return this.charges.chargeWallet({
+      userId,
+      amountCents,
+      currency,
+      intent: 'subscription_renewal',
+    });
+  }
+
+  /**
+   * Check the PayPal Billing Agreement
    * PayPal handles recurring billing automatically through subscriptions
    */
-  private async renewWithPayPal(userId: string, amountCents: number): Promise<RenewalResult> {
+  private async chargeWithPayPal(userId: string): Promise<SubscriptionChargeOutcome> {
     try {
       const { PayPalBillingService } = await import('@/modules/payments/services/paypal-billing-service');
       const billingService = new PayPalBillingService(this.client);
@@ -421,14 +393,10 @@ export class SubscriptionRenewalService {
       const agreement = await billingService.getActiveBillingAgreement(userId);
 
       if (!agreement) {
-        // No billing agreement - mark as past_due for manual renewal
-        await this.subscriptions.updateStatusByUserId(userId, 'past_due');
-
         return {
-          userId,
           success: false,
-          error: 'No active PayPal billing agreement. User needs to set up PayPal subscription.',
           gateway: 'paypal',
+          error: 'No active PayPal billing agreement. User needs to set up PayPal subscription.',
         };
       }
 
@@ -438,24 +406,51 @@ export class SubscriptionRenewalService {
       console.log(`[SubscriptionRenewal] PayPal subscription active for user ${userId}, agreement: ${agreement.paypalBillingAgreementId}`);
 
       return {
-        userId,
         success: true,
-        amountCents,
         gateway: 'paypal',
+        collectedByGateway: true,
       };
     } catch (error) {
       console.error(`[SubscriptionRenewal] PayPal renewal check failed for user ${userId}:`, error);
+      return {
+        success: false,
+        gateway: 'paypal',
+        error: error instanceof Error ? error.message : 'PayPal renewal check failed',
+      };
+    }
+  }
 
-      // Mark subscription as past_due
-      await this.subscriptions.updateStatusByUserId(userId, 'past_due');
+  /**
+   * Check the Mercado Pago preapproval
+   * Mercado Pago charges authorized preapprovals every month and notifies each charge by webhook
+   */
+  private async chargeWithMercadoPago(userId: string): Promise<SubscriptionChargeOutcome> {
+    try {
+      const { MercadoPagoPreapprovalService } = await import('@/modules/payments/services/mercadopago-preapproval-service');
+      const preapproval = await new MercadoPagoPreapprovalService(this.client).getActivePreapproval(userId);
+
+      if (!preapproval) {
+        return {
+          success: false,
+          gateway: 'mercadopago',
+          error: 'No authorized Mercado Pago preapproval. User needs to set up the Mercado Pago subscription.',
+        };
+      }
+
+      console.log(`[SubscriptionRenewal] Mercado Pago preapproval authorized for user ${userId}: ${preapproval.preapprovalId}`);
 
       return {
-        userId,
+        success: true,
+        gateway: 'mercadopago',
+        collectedByGateway: true,
+      };
+    } catch (error) {
+      console.error(`[SubscriptionRenewal] Mercado Pago renewal check failed for user ${userId}:`, error);
+      return {
         success: false,
-        error: error instanceof Error ? error.message : 'PayPal renewal check failed',
-        gateway: 'paypal',
+        gateway: 'mercadopago',
+        error: error instanceof Error ? error.message : 'Mercado Pago renewal check failed',
       };
     }
   }
 }
-
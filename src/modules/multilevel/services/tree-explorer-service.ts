@@ -0,0 +1,309 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  TreeExplorerFilters,
+  TreeExplorerNode,
+  TreeExplorerPage,
+  TreeMember,
+  TreeSearchMatch,
+  TreeSearchResult,
+} from '../domain/types';
+import { TreeService } from './tree-service';
+
+/**
+ * Same depth as the flat tree of /api/tree
+ */
+export const TREE_EXPLORER_MAX_DEPTH = 10;
+export const DEFAULT_CHILDREN_PAGE_SIZE = 50;
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+
+export type TreeExplorerErrorCode = 'NODE_NOT_FOUND';
+
+export class TreeExplorerError extends Error {
+  constructor(
+    message: string,
+    public readonly code: TreeExplorerErrorCode,
+  ) {
+    super(message);
+    this.name = 'TreeExplorerError';
+  }
+}
+
+export interface TreePageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export interface TreeExportRow extends TreeMember {
+  directCount: number;
+  downlineSize: number;
+  activeCount: number;
+}
+
+/**
+ * Raw rows of fetch_tree_children and search_tree_members
+ * Uses unknown types because Supabase RPC returns untyped data
+ */
+type ExplorerRow = {
+  member_id?: unknown;
+  email?: unknown;
+  name?: unknown;
+  status?: unknown;
+  level?: unknown;
+  phase?: unknown;
+  allow_team_messages?: unknown;
+  sponsor_id?: unknown;
+  child_count?: unknown;
+  downline_size?: unknown;
+  active_count?: unknown;
+  volume_cents?: unknown;
+  path?: unknown;
+  total_count?: unknown;
+};
+
+const toCount = (value: unknown): number => {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+function parseMember(row: ExplorerRow): TreeMember | null {
+  if (typeof row.member_id !== 'string' || typeof row.email !== 'string') {
+    return null;
+  }
+
+  return {
+    id: row.member_id,
+    email: row.email,
+    name: typeof row.name === 'string' ? row.name : null,
+    status: typeof row.status === 'string' ? (row.status as TreeMember['status']) : null,
+    level: toCount(row.level),
+    phase: typeof row.phase === 'number' ? row.phase : null,
+    allowTeamMessages: typeof row.allow_team_messages === 'boolean' ? row.allow_team_messages : true,
+    sponsorId: typeof row.sponsor_id === 'string' ? row.sponsor_id : null,
+  };
+}
+
+const clampPage = (options: TreePageOptions, fallbackLimit: number, maxLimit: number) => ({
+  limit: Math.min(Math.max(Math.trunc(options.limit ?? fallbackLimit), 1), maxLimit),
+  offset: Math.max(Math.trunc(options.offset ?? 0), 0),
+});
+
+const CSV_COLUMNS: Array<[header: string, value: (row: TreeExportRow) => unknown]> = [
+  ['id', (row) => row.id],
+  ['name', (row) => row.name],
+  ['email', (row) => row.email],
+  ['level', (row) => row.level],
+  ['sponsor_id', (row) => row.sponsorId],
+  ['status', (row) => row.status],
+  ['phase', (row) => row.phase],
+  ['direct_count', (row) => row.directCount],
+  ['downline_size', (row) => row.downlineSize],
+  ['active_count', (row) => row.activeCount],
+];
+
+export const escapeCsvValue = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Keep spreadsheets from evaluating names or emails as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toTreeCsv(rows: TreeExportRow[]): string {
+  return [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...rows.map((row) => CSV_COLUMNS.map(([, value]) => escapeCsvValue(value(row))).join(',')),
+  ].join('\n');
+}
+
+/**
+ * Direct members, downline size and active members of every member of a subtree, counting only
+ * the members in `members`
+ */
+export function computeSubtreeRollups(
+  members: TreeMember[],
+): Map<string, Pick<TreeExportRow, 'directCount' | 'downlineSize' | 'activeCount'>> {
+  const rollups = new Map(members.map((member) => [member.id, { directCount: 0, downlineSize: 0, activeCount: 0 }]));
+  const parents = new Map(members.map((member) => [member.id, member.sponsorId ?? null]));
+
+  for (const member of members) {
+    const parent = member.sponsorId ? rollups.get(member.sponsorId) : undefined;
+    if (parent) {
+      parent.directCount += 1;
+    }
+
+    // Credit every ancestor inside the subtree
+    let ancestorId = member.sponsorId ?? null;
+    while (ancestorId && rollups.has(ancestorId)) {
+      const ancestor = rollups.get(ancestorId);
+      if (ancestor) {
+        ancestor.downlineSize += 1;
+        ancestor.activeCount += member.status === 'active' ? 1 : 0;
+      }
+      ancestorId = parents.get(ancestorId) ?? null;
+    }
+  }
+
+  return rollups;
+}
+
+const matchesFilters = (member: TreeMember, filters: TreeExplorerFilters): boolean =>
+  (!filters.status || (member.status ?? 'none') === filters.status) &&
+  (filters.phase === undefined || (member.phase ?? 0) === filters.phase);
+
+/**
+ * Paginated, lazily expanded view of a member's network: direct members per node with rollups,
+ * search across the whole network and export of a subtree. Every node must be the member or
+ * within their first TREE_EXPLORER_MAX_DEPTH levels.
+ */
+export class TreeExplorerService {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * One page of the direct members of `parentId` (the root itself by default)
+   * @throws TreeExplorerError when the node is not in the root's network
+   */
+  async fetchChildren(
+    rootId: string,
+    parentId: string = rootId,
+    filters: TreeExplorerFilters = {},
+    options: TreePageOptions = {},
+  ): Promise<TreeExplorerPage> {
+    const { limit, offset } = clampPage(options, DEFAULT_CHILDREN_PAGE_SIZE, 200);
+
+    const { data, error } = await this.client.rpc('fetch_tree_children', {
+      p_root: rootId,
+      p_parent: parentId,
+      p_status: filters.status ?? null,
+      p_phase: filters.phase ?? null,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch tree children of ${parentId}: ${error.message}`, { cause: error });
+    }
+
+    const rows = (Array.isArray(data) ? data : []) as ExplorerRow[];
+
+    // An empty page is either a leaf or a node outside the network
+    if (rows.length === 0) {
+      await this.resolveDepth(rootId, parentId);
+    }
+
+    const nodes = rows.flatMap((row): TreeExplorerNode[] => {
+      const member = parseMember(row);
+      return member
+        ? [
+            {
+              ...member,
+              childCount: toCount(row.child_count),
+              rollup: {
+                downlineSize: toCount(row.downline_size),
+                activeCount: toCount(row.active_count),
+                volumeCents: toCount(row.volume_cents),
+              },
+            },
+          ]
+        : [];
+    });
+    const total = rows.length > 0 ? toCount(rows[0].total_count) : 0;
+
+    return { parentId, nodes, total, limit, offset, hasMore: offset + nodes.length < total };
+  }
+
+  /**
+   * Members of the network whose name or email contains `query`
+   */
+  async search(
+    rootId: string,
+    query: string,
+    filters: TreeExplorerFilters = {},
+    options: TreePageOptions = {},
+  ): Promise<TreeSearchResult> {
+    const { limit, offset } = clampPage(options, DEFAULT_SEARCH_PAGE_SIZE, 100);
+    const trimmed = query.trim();
+
+    if (!trimmed) {
+      return { query: trimmed, matches: [], total: 0, limit, offset, hasMore: false };
+    }
+
+    const { data, error } = await this.client.rpc('search_tree_members', {
+      p_root: rootId,
+      p_query: trimmed,
+      p_status: filters.status ?? null,
+      p_phase: filters.phase ?? null,
+      p_limit: limit,
+      p_offset: offset,
+    });
+
+    if (error) {
+      throw new Error(`Failed to search the tree of ${rootId}: ${error.message}`, { cause: error });
+    }
+
+    const rows = (Array.isArray(data) ? data : []) as ExplorerRow[];
+    const matches = rows.flatMap((row): TreeSearchMatch[] => {
+      const member = parseMember(row);
+      return member
+        ? [{ ...member, path: Array.isArray(row.path) ? row.path.filter((id): id is string => typeof id === 'string') : [] }]
+        : [];
+    });
+    const total = rows.length > 0 ? toCount(rows[0].total_count) : 0;
+
+    return { query: trimmed, matches, total, limit, offset, hasMore: offset + matches.length < total };
+  }
+
+  /**
+   * Members below `nodeId`, `depth` levels deep, with levels relative to the root. Filters only
+   * drop rows: rollups count the whole exported subtree.
+   * @throws TreeExplorerError when the node is not in the root's network
+   */
+  async exportSubtree(
+    rootId: string,
+    nodeId: string = rootId,
+    filters: TreeExplorerFilters = {},
+    depth: number = TREE_EXPLORER_MAX_DEPTH,
+  ): Promise<TreeExportRow[]> {
+    const nodeLevel = await this.resolveDepth(rootId, nodeId);
+    const levels = Math.min(Math.max(Math.trunc(depth), 1), TREE_EXPLORER_MAX_DEPTH - nodeLevel);
+
+    if (levels < 1) {
+      return [];
+    }
+
+    const tree = await new TreeService(this.client).fetchMultilevelTree(nodeId, levels);
+    const members = Object.values(tree.levels)
+      .flat()
+      .map((member) => ({ ...member, level: member.level + nodeLevel }));
+    const rollups = computeSubtreeRollups(members);
+
+    return members
+      .filter((member) => matchesFilters(member, filters))
+      .map((member) => ({
+        ...member,
+        ...(rollups.get(member.id) ?? { directCount: 0, downlineSize: 0, activeCount: 0 }),
+      }));
+  }
+
+  private async resolveDepth(rootId: string, nodeId: string): Promise<number> {
+    if (rootId === nodeId) {
+      return 0;
+    }
+
+    const { data, error } = await this.client.rpc('network_depth', {
+      p_ancestor: rootId,
+      p_member: nodeId,
+      p_max_levels: TREE_EXPLORER_MAX_DEPTH,
+    });
+
+    if (error) {
+      throw new Error(`Failed to resolve the level of ${nodeId}: ${error.message}`, { cause: error });
+    }
+
+    if (typeof data !== 'number') {
+      throw new TreeExplorerError('Member not found in your network', 'NODE_NOT_FOUND');
+    }
+
+    return data;
+  }
+}
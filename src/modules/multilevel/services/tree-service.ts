@@ -14,6 +14,7 @@ type TreeRow = {
   level?: unknown;
   phase?: unknown;
   allow_team_messages?: unknown;
+  sponsor_id?: unknown;
 };
 
 /**
@@ -49,6 +50,7 @@ export class TreeService {
         : Number.parseInt(record.level as string, 10);
     const name = typeof record.name === 'string' ? (record.name as string) : null;
     const allowTeamMessages = typeof record.allow_team_messages === 'boolean' ? record.allow_team_messages : true;
+    const sponsorId = typeof record.sponsor_id === 'string' ? record.sponsor_id : null;
 
     return {
       id: record.descendant as string,
@@ -58,6 +60,7 @@ export class TreeService {
       level,
       phase: record.phase as number,
       allowTeamMessages,
+      sponsorId,
     };
   }
 
@@ -0,0 +1,64 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MemberVolumeSummary, VolumePeriodTotals } from '../domain/types';
+import { MemberVolumeRepository } from '../repositories/member-volume-repository';
+
+/**
+ * Calendar month (UTC) volumes are accumulated in, as YYYY-MM. `offset` moves it by whole months.
+ */
+export function resolveVolumePeriod(at: Date = new Date(), offset = 0): string {
+  const month = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + offset, 1));
+  return `${month.getUTCFullYear()}-${String(month.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Personal volume (PV) and group volume (GV) of the members. Paid orders add the point value of
+ * their products to the buyer's PV and to the GV of the buyer and their upline, 10 levels deep,
+ * in the month of the order; refunds and chargebacks reverse the refunded share in that same
+ * month. Recording is idempotent per order, so payment retries never count an order twice.
+ */
+export class VolumeService {
+  private readonly volumes: MemberVolumeRepository;
+
+  constructor(client: SupabaseClient) {
+    this.volumes = new MemberVolumeRepository(client);
+  }
+
+  async recordOrder(orderId: string): Promise<number> {
+    const points = await this.volumes.recordOrderVolume(orderId);
+
+    if (points > 0) {
+      console.log(`[VolumeService] Recorded ${points} points for order ${orderId}`);
+    }
+
+    return points;
+  }
+
+  /**
+   * @param ratio Cumulative refunded share of the order, between 0 and 1
+   */
+  async reverseOrder(orderId: string, ratio = 1): Promise<number> {
+    const points = await this.volumes.reverseOrderVolume(orderId, Math.min(1, Math.max(0, ratio)));
+
+    if (points > 0) {
+      console.log(`[VolumeService] Reversed ${points} points for order ${orderId}`);
+    }
+
+    return points;
+  }
+
+  /**
+   * Volumes of the current and the previous month
+   */
+  async getSummary(userId: string, now: Date = new Date()): Promise<MemberVolumeSummary> {
+    const current = resolveVolumePeriod(now);
+    const previous = resolveVolumePeriod(now, -1);
+    const rows = await this.volumes.listVolumes(userId, [current, previous]);
+
+    const totals = (period: string): VolumePeriodTotals => {
+      const row = rows.find((entry) => entry.period === period);
+      return { period, personalVolume: row?.personal_volume ?? 0, groupVolume: row?.group_volume ?? 0 };
+    };
+
+    return { current: totals(current), previous: totals(previous) };
+  }
+}
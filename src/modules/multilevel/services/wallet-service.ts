@@ -1,12 +1,27 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
 import { WalletRepository } from '../repositories/wallet-repository';
-import type { WalletReason } from '../domain/types';
+import { LedgerService } from './ledger-service';
+import { FxRateService } from './fx-rate-service';
+import type { WalletBalanceRecord, WalletReason } from '../domain/types';
+
+const readCurrency = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim().toUpperCase() : null;
+
+const readRate = (value: unknown): number | null => {
+  const rate = typeof value === 'string' ? Number(value) : value;
+  return typeof rate === 'number' && Number.isFinite(rate) && rate > 0 ? rate : null;
+};
 
 export class WalletService {
   private readonly wallets: WalletRepository;
+  private readonly ledger: LedgerService;
+  private readonly fx: FxRateService;
 
   constructor(private readonly client: SupabaseClient) {
     this.wallets = new WalletRepository(client);
+    this.ledger = new LedgerService(client);
+    this.fx = new FxRateService(client);
   }
 
   async listTransactions(userId: string, limit = 50) {
@@ -17,6 +32,27 @@ export class WalletService {
     return this.wallets.findByUserId(userId);
   }
 
+  /**
+   * Balances in every currency the user holds, starting with the wallet (payout) currency
+   */
+  async getBalances(userId: string): Promise<WalletBalanceRecord[]> {
+    const settings = await getAppSettings();
+    return this.wallets.findBalances(userId, settings.currency.toUpperCase());
+  }
+
+  /**
+   * Currency of the primary wallet balance, which is also the member's payout currency
+   */
+  async getWalletCurrency(userId: string): Promise<string> {
+    const wallet = await this.wallets.findByUserId(userId);
+    if (wallet?.currency) {
+      return wallet.currency.toUpperCase();
+    }
+
+    const settings = await getAppSettings();
+    return settings.currency.toUpperCase();
+  }
+
   /**
    * Add funds to a user's wallet (admin only)
    * @param userId - Target user ID
@@ -24,15 +60,17 @@ export class WalletService {
    * @param reason - Reason for the transaction
    * @param adminId - ID of the admin performing the action
    * @param note - Optional note for the transaction
+   * @param metadata - Extra metadata; `metadata.currency` selects the balance to move
+   *   (defaults to the wallet currency)
    */
   async addFunds(
     userId: string,
     amountCents: number,
-    reason: WalletReason | 'admin_adjustment',
+    reason: WalletReason,
     adminId?: string,
     note?: string,
     metadata: Record<string, unknown> = {},
-  ): Promise<void> {
+  ): Promise<{ transactionId: string; newBalanceCents: number }> {
     const meta: Record<string, unknown> = {
       ...metadata,
       timestamp: new Date().toISOString(),
@@ -46,13 +84,16 @@ export class WalletService {
       meta.note = note;
     }
 
-    await this.wallets.addTransaction(userId, amountCents, reason, meta);
+    const result = await this.applyTransaction(userId, amountCents, reason, meta);
+    await this.postToLedger(result.transactionId, userId, amountCents, reason, result.currency, readRate(meta.fx_rate), note);
+
+    return { transactionId: result.transactionId, newBalanceCents: result.newBalanceCents };
   }
 
   async recordRecharge(params: {
     userId: string;
     amountCents: number;
-    gateway: 'stripe' | 'paypal';
+    gateway: 'stripe' | 'paypal' | 'mercadopago';
     gatewayRef: string;
     currency?: string;
     metadata?: Record<string, unknown>;
@@ -76,25 +117,41 @@ export class WalletService {
       intent: 'wallet_recharge',
       gateway,
       external_reference: gatewayRef,
-      currency: currency ?? 'USD',
       ...metadata,
       timestamp: new Date().toISOString(),
     };
 
-    await this.wallets.addTransaction(userId, amountCents, 'recharge', meta);
+    if (currency) {
+      meta.currency = currency;
+    }
+
+    const result = await this.applyTransaction(userId, amountCents, 'recharge', meta);
+    await this.postToLedger(
+      result.transactionId,
+      userId,
+      amountCents,
+      'recharge',
+      result.currency,
+      null,
+      `${gateway} recharge ${gatewayRef}`,
+    );
 
     return { alreadyProcessed: false };
   }
 
   /**
    * Spend funds from wallet with atomic balance check
-   * Uses database-level locking to prevent race conditions and double-spending
+   * Uses database-level locking to prevent race conditions and double-spending.
+   *
+   * `meta.currency` is the currency of `amountCents`. A purchase in a currency other than
+   * the wallet currency is paid from the balance held in that currency when it covers the
+   * amount; otherwise it is converted into the wallet currency with the stored FX rate.
    */
   async spendFunds(
     userId: string,
     amountCents: number,
     meta: Record<string, unknown> = {},
-  ): Promise<{ transactionId: string; newBalanceCents: number }> {
+  ): Promise<{ transactionId: string; newBalanceCents: number; currency: string; debitedCents: number }> {
     console.log(`[WalletService] spendFunds called for user ${userId}, amount: ${amountCents} cents`);
 
     if (amountCents <= 0) {
@@ -110,13 +167,55 @@ export class WalletService {
     console.log(`[WalletService] Processing atomic debit for user ${userId}, amount: ${amountCents} cents`);
 
     try {
+      const walletCurrency = await this.getWalletCurrency(userId);
+      const currency = readCurrency(meta.currency) ?? walletCurrency;
+
+      if (currency !== walletCurrency) {
+        const balances = await this.getBalances(userId);
+        const local = balances.find((balance) => balance.currency === currency);
+
+        if (local && local.balance_cents >= amountCents) {
+          const result = await this.wallets.addCurrencyTransaction(userId, currency, -amountCents, 'purchase', {
+            ...enrichedMeta,
+            currency,
+          });
+          await this.postToLedger(result.transactionId, userId, -amountCents, 'purchase', currency, null);
+
+          return { ...result, currency, debitedCents: amountCents };
+        }
+
+        const conversion = await this.fx.convert(amountCents, currency, walletCurrency);
+        const result = await this.wallets.debitWithCheck(userId, conversion.amountCents, 'purchase', {
+          ...enrichedMeta,
+          currency: walletCurrency,
+          fx_rate: conversion.rate,
+          original_amount_cents: conversion.originalAmountCents,
+          original_currency: conversion.originalCurrency,
+        });
+        console.log(`[WalletService] Converted ${amountCents} ${currency} into ${conversion.amountCents} ${walletCurrency}`);
+        await this.postToLedger(result.transactionId, userId, -conversion.amountCents, 'purchase', walletCurrency, conversion.rate);
+
+        return {
+          transactionId: result.transactionId,
+          newBalanceCents: result.newBalanceCents,
+          currency: walletCurrency,
+          debitedCents: conversion.amountCents,
+        };
+      }
+
       // Use atomic debit function to prevent race conditions
-      const result = await this.wallets.debitWithCheck(userId, amountCents, 'purchase', enrichedMeta);
+      const result = await this.wallets.debitWithCheck(userId, amountCents, 'purchase', {
+        ...enrichedMeta,
+        currency: walletCurrency,
+      });
       console.log(`[WalletService] Transaction completed successfully for user ${userId}`);
+      await this.postToLedger(result.transactionId, userId, -amountCents, 'purchase', walletCurrency, null);
 
       return {
         transactionId: result.transactionId,
         newBalanceCents: result.newBalanceCents,
+        currency: walletCurrency,
+        debitedCents: amountCents,
       };
     } catch (error) {
       if (error instanceof Error) {
@@ -147,4 +246,54 @@ export class WalletService {
   async checkFraudIndicators(userId: string) {
     return this.wallets.checkFraudIndicators(userId);
   }
+
+  /**
+   * Store a credit or debit on the balance in `meta.currency`: the primary wallet row for the
+   * wallet currency, `wallet_balances` for any other currency.
+   */
+  private async applyTransaction(
+    userId: string,
+    deltaCents: number,
+    reason: WalletReason,
+    meta: Record<string, unknown>,
+  ): Promise<{ transactionId: string; newBalanceCents: number; currency: string }> {
+    const walletCurrency = await this.getWalletCurrency(userId);
+    const currency = readCurrency(meta.currency) ?? walletCurrency;
+
+    if (currency !== walletCurrency) {
+      const result = await this.wallets.addCurrencyTransaction(userId, currency, deltaCents, reason, {
+        ...meta,
+        currency,
+      });
+      return { ...result, currency };
+    }
+
+    const result = await this.wallets.addTransaction(userId, deltaCents, reason, { ...meta, currency });
+    return { ...result, currency };
+  }
+
+  /**
+   * Post the balanced journal for a stored wallet transaction.
+   * The wallet row is already committed at this point, so a failure is logged instead of
+   * rethrown; it surfaces as a mismatch in the ledger reconciliation report.
+   */
+  private async postToLedger(
+    transactionId: string | undefined,
+    userId: string,
+    deltaCents: number,
+    reason: WalletReason,
+    currency: string,
+    fxRate: number | null,
+    memo?: string,
+  ): Promise<void> {
+    if (!transactionId || deltaCents === 0) {
+      return;
+    }
+
+    try {
+      await this.ledger.recordWalletTransaction({ transactionId, userId, deltaCents, reason, currency, fxRate, memo });
+    } catch (error) {
+      console.error(`[WalletService] Failed to post ledger journal for transaction ${transactionId}:`, error);
+    }
+  }
 }
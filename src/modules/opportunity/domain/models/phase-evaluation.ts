@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { PhaseRequirementTypeSchema } from './opportunity-plan';
+
+const ObservedValueSchema = z.union([z.number(), z.string(), z.boolean(), z.null()]);
+
+export const RequirementEvaluationSchema = z.object({
+  phaseId: z.string(),
+  level: z.number().int().min(0),
+  requirementType: PhaseRequirementTypeSchema,
+  passed: z.boolean(),
+  /** Human readable explanation of the outcome, stored in the audit trail */
+  reason: z.string(),
+  observed: z.record(z.string(), ObservedValueSchema),
+  required: z.record(z.string(), ObservedValueSchema),
+});
+
+export type RequirementEvaluation = z.infer<typeof RequirementEvaluationSchema>;
+
+export const PhaseEvaluationActionSchema = z.enum(['promoted', 'demoted', 'unchanged', 'skipped_manual_override']);
+
+export type PhaseEvaluationAction = z.infer<typeof PhaseEvaluationActionSchema>;
+
+export const MemberPhaseEvaluationSchema = z.object({
+  memberId: z.string().uuid(),
+  cycle: z.string().regex(/^\d{4}-\d{2}$/),
+  previousPhase: z.number().int().min(0),
+  /** Highest level whose requirement passed together with every lower level */
+  evaluatedPhase: z.number().int().min(0),
+  /** Phase stored after the evaluation; differs from evaluatedPhase only on manual overrides */
+  appliedPhase: z.number().int().min(0),
+  action: PhaseEvaluationActionSchema,
+  requirements: z.array(RequirementEvaluationSchema),
+  rewardsGranted: z.array(z.number().int().min(1)),
+  evaluatedAt: z.string().datetime(),
+});
+
+export type MemberPhaseEvaluation = z.infer<typeof MemberPhaseEvaluationSchema>;
+
+export const PhaseCycleSummarySchema = z.object({
+  cycle: z.string(),
+  evaluated: z.number().int().min(0),
+  promoted: z.number().int().min(0),
+  demoted: z.number().int().min(0),
+  unchanged: z.number().int().min(0),
+  skipped: z.number().int().min(0),
+  alreadyEvaluated: z.number().int().min(0),
+  rewardsGranted: z.number().int().min(0),
+  failed: z.number().int().min(0),
+});
+
+export type PhaseCycleSummary = z.infer<typeof PhaseCycleSummarySchema>;
@@ -0,0 +1,17 @@
+import { getAdminClient } from '@/lib/supabase/admin';
+import { DefaultOpportunityPlan } from '../config/mlm-plan';
+import { SupabaseMemberNetworkRepository } from '../repositories/supabase-member-network-repository';
+import { SupabaseMemberVolumeRepository } from '../repositories/member-volume-repository';
+import { SupabasePhaseEvaluationRepository } from '../repositories/phase-evaluation-repository';
+import { PhaseRewardGrantService } from '../services/phase-reward-grant-service';
+import { PhaseEvaluationService } from '../services/phase-evaluation-service';
+
+export const createPhaseEvaluationService = () => {
+  const client = getAdminClient();
+  return new PhaseEvaluationService(DefaultOpportunityPlan, {
+    memberNetworkRepository: new SupabaseMemberNetworkRepository(client),
+    phaseEvaluationRepository: new SupabasePhaseEvaluationRepository(client),
+    rewardGranter: new PhaseRewardGrantService(client),
+    memberVolumeRepository: new SupabaseMemberVolumeRepository(client),
+  });
+};
@@ -26,3 +26,21 @@ export type { MemberNetworkRepository } from './repositories/member-network-repo
 export { InMemoryMemberNetworkRepository } from './repositories/member-network-repository';
 export { OpportunityProgressNotifier } from './domain/events/opportunity-progress-observer';
 export type { OpportunityProgressObserver } from './domain/events/opportunity-progress-observer';
+export { PhaseRequirementEvaluator } from './services/phase-requirement-evaluator';
+export { PhaseEvaluationService, resolveClosingCycle } from './services/phase-evaluation-service';
+export type {
+  PhaseEvaluationServiceDependencies,
+  PhaseEvaluationOptions,
+} from './services/phase-evaluation-service';
+export type {
+  RequirementEvaluation,
+  MemberPhaseEvaluation,
+  PhaseEvaluationAction,
+  PhaseCycleSummary,
+} from './domain/models/phase-evaluation';
+export type { PhaseEvaluationRepository, MemberPhaseState } from './repositories/phase-evaluation-repository';
+export type {
+  MemberVolumeRepository,
+  MemberCycleVolume,
+  PhaseVolumeThreshold,
+} from './repositories/member-volume-repository';
@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface PhaseVolumeThreshold {
+  minPersonalVolume: number;
+  minGroupVolume: number;
+}
+
+export interface MemberCycleVolume {
+  personalVolume: number;
+  groupVolume: number;
+}
+
+export interface MemberVolumeRepository {
+  /** Volume thresholds of the configured phase levels, by level */
+  listThresholds(): Promise<Map<number, PhaseVolumeThreshold>>;
+  getCycleVolume(memberId: string, cycle: string): Promise<MemberCycleVolume>;
+}
+
+interface PhaseLevelVolumeRow {
+  level: number;
+  min_personal_volume: number | string | null;
+  min_group_volume: number | string | null;
+}
+
+interface MemberVolumeRow {
+  personal_volume: number | string | null;
+  group_volume: number | string | null;
+}
+
+const toPoints = (value: unknown): number => {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export class SupabaseMemberVolumeRepository implements MemberVolumeRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async listThresholds(): Promise<Map<number, PhaseVolumeThreshold>> {
+    const { data, error } = await this.client
+      .from('phase_levels')
+      .select('level, min_personal_volume, min_group_volume')
+      .eq('is_active', true);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Map(
+      ((data ?? []) as PhaseLevelVolumeRow[]).map((row) => [
+        row.level,
+        { minPersonalVolume: toPoints(row.min_personal_volume), minGroupVolume: toPoints(row.min_group_volume) },
+      ]),
+    );
+  }
+
+  async getCycleVolume(memberId: string, cycle: string): Promise<MemberCycleVolume> {
+    const { data, error } = await this.client
+      .from('member_volumes')
+      .select('personal_volume, group_volume')
+      .eq('user_id', memberId)
+      .eq('period', cycle)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    const row = data as MemberVolumeRow | null;
+    return { personalVolume: toPoints(row?.personal_volume), groupVolume: toPoints(row?.group_volume) };
+  }
+}
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MemberPhaseEvaluation } from '../domain/models/phase-evaluation';
+
+export interface MemberPhaseState {
+  phase: number;
+  highestPhaseAchieved: number;
+  manualOverride: boolean;
+  /** Levels whose rewards were already granted (phase1_granted, phase2_granted, ...) */
+  grantedLevels: number[];
+}
+
+export interface PhaseEvaluationRepository {
+  listMemberIds(): Promise<string[]>;
+  findPhaseState(memberId: string): Promise<MemberPhaseState | null>;
+  savePhase(memberId: string, state: { phase: number; highestPhaseAchieved: number }): Promise<void>;
+  /** Flag the level's rewards as granted; false when another run already flagged them */
+  claimRewardGrant(memberId: string, level: number): Promise<boolean>;
+  hasEvaluation(memberId: string, cycle: string): Promise<boolean>;
+  saveEvaluation(evaluation: MemberPhaseEvaluation): Promise<void>;
+  listEvaluations(memberId: string, limit?: number): Promise<MemberPhaseEvaluation[]>;
+}
+
+interface PhaseRow {
+  phase: number;
+  highest_phase_achieved: number | null;
+  manual_phase_override: boolean | null;
+  phase1_granted: boolean | null;
+  phase2_granted: boolean | null;
+  phase3_granted: boolean | null;
+}
+
+interface PhaseEvaluationRow {
+  user_id: string;
+  cycle: string;
+  previous_phase: number;
+  evaluated_phase: number;
+  applied_phase: number;
+  action: MemberPhaseEvaluation['action'];
+  requirements: MemberPhaseEvaluation['requirements'];
+  rewards_granted: number[] | null;
+  evaluated_at: string;
+}
+
+const GRANTED_COLUMNS: Record<number, 'phase1_granted' | 'phase2_granted' | 'phase3_granted'> = {
+  1: 'phase1_granted',
+  2: 'phase2_granted',
+  3: 'phase3_granted',
+};
+
+const mapEvaluationRow = (row: PhaseEvaluationRow): MemberPhaseEvaluation => ({
+  memberId: row.user_id,
+  cycle: row.cycle,
+  previousPhase: row.previous_phase,
+  evaluatedPhase: row.evaluated_phase,
+  appliedPhase: row.applied_phase,
+  action: row.action,
+  requirements: row.requirements ?? [],
+  rewardsGranted: row.rewards_granted ?? [],
+  evaluatedAt: new Date(row.evaluated_at).toISOString(),
+});
+
+export class SupabasePhaseEvaluationRepository implements PhaseEvaluationRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Every member with a phase record or a subscription
+   */
+  async listMemberIds(): Promise<string[]> {
+    const [phases, subscriptions] = await Promise.all([
+      this.client.from('phases').select('user_id'),
+      this.client.from('subscriptions').select('user_id'),
+    ]);
+
+    if (phases.error) {
+      throw phases.error;
+    }
+
+    if (subscriptions.error) {
+      throw subscriptions.error;
+    }
+
+    const ids = new Set<string>();
+    for (const row of [...(phases.data ?? []), ...(subscriptions.data ?? [])] as { user_id: string }[]) {
+      ids.add(row.user_id);
+    }
+
+    return [...ids];
+  }
+
+  async findPhaseState(memberId: string): Promise<MemberPhaseState | null> {
+    const { data, error } = await this.client
+      .from('phases')
+      .select('phase, highest_phase_achieved, manual_phase_override, phase1_granted, phase2_granted, phase3_granted')
+      .eq('user_id', memberId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const row = data as PhaseRow;
+    return {
+      phase: row.phase ?? 0,
+      highestPhaseAchieved: row.highest_phase_achieved ?? row.phase ?? 0,
+      manualOverride: Boolean(row.manual_phase_override),
+      grantedLevels: Object.entries(GRANTED_COLUMNS)
+        .filter(([, column]) => Boolean(row[column]))
+        .map(([level]) => Number(level)),
+    };
+  }
+
+  async savePhase(memberId: string, state: { phase: number; highestPhaseAchieved: number }): Promise<void> {
+    const { error } = await this.client
+      .from('phases')
+      .upsert(
+        {
+          user_id: memberId,
+          phase: state.phase,
+          highest_phase_achieved: state.highestPhaseAchieved,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' },
+      );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async claimRewardGrant(memberId: string, level: number): Promise<boolean> {
+    const column = GRANTED_COLUMNS[level];
+    if (!column) {
+      return false;
+    }
+
+    // Conditional update, so only one of two concurrent runs flips the flag
+    const { data, error } = await this.client
+      .from('phases')
+      .update({ [column]: true })
+      .eq('user_id', memberId)
+      .eq(column, false)
+      .select('user_id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  async hasEvaluation(memberId: string, cycle: string): Promise<boolean> {
+    const { count, error } = await this.client
+      .from('phase_evaluations')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', memberId)
+      .eq('cycle', cycle);
+
+    if (error) {
+      throw error;
+    }
+
+    return (count ?? 0) > 0;
+  }
+
+  async saveEvaluation(evaluation: MemberPhaseEvaluation): Promise<void> {
+    const { error } = await this.client.from('phase_evaluations').upsert(
+      {
+        user_id: evaluation.memberId,
+        cycle: evaluation.cycle,
+        previous_phase: evaluation.previousPhase,
+        evaluated_phase: evaluation.evaluatedPhase,
+        applied_phase: evaluation.appliedPhase,
+        action: evaluation.action,
+        requirements: evaluation.requirements,
+        rewards_granted: evaluation.rewardsGranted,
+        evaluated_at: evaluation.evaluatedAt,
+      },
+      { onConflict: 'user_id,cycle' },
+    );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async listEvaluations(memberId: string, limit = 12): Promise<MemberPhaseEvaluation[]> {
+    const { data, error } = await this.client
+      .from('phase_evaluations')
+      .select('user_id, cycle, previous_phase, evaluated_phase, applied_phase, action, requirements, rewards_granted, evaluated_at')
+      .eq('user_id', memberId)
+      .order('cycle', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as PhaseEvaluationRow[]).map(mapEvaluationRow);
+  }
+}
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import type { MemberNetworkSnapshot, MemberNode } from '../domain/models/member-network';
+import type { MemberNetworkRepository } from './member-network-repository';
+
+interface ProfileRow {
+  id: string;
+  name: string | null;
+  network_parent_id: string | null;
+}
+
+interface SubscriptionRow {
+  user_id: string;
+  status: string;
+  gateway: 'stripe' | 'paypal' | 'wallet';
+  created_at: string;
+}
+
+interface PaymentRow {
+  user_id: string;
+  created_at: string;
+}
+
+// Snapshot timestamps must be ISO strings in UTC ("Z"), not Postgres "+00:00" offsets
+const toIsoString = (value: string | null | undefined) => (value ? new Date(value).toISOString() : null);
+
+/**
+ * Builds two-level network snapshots from profiles, subscriptions and paid subscription payments.
+ * Paused subscriptions count as active when `pausedMembersCountTowardPhase` is enabled, matching
+ * `subscription_counts_for_phase` in the database.
+ *
+ * `parentOverrides` (member id → network parent) builds the snapshots as if those members had
+ * another parent, which lets admins preview a network move before applying it.
+ */
+export class SupabaseMemberNetworkRepository implements MemberNetworkRepository {
+  constructor(
+    private readonly client: SupabaseClient,
+    private readonly parentOverrides: ReadonlyMap<string, string | null> = new Map(),
+  ) {}
+
+  async getNetworkSnapshot(memberId: string): Promise<MemberNetworkSnapshot | null> {
+    const { data: owner, error: ownerError } = await this.client
+      .from('profiles')
+      .select('id, name, network_parent_id')
+      .eq('id', memberId)
+      .maybeSingle();
+
+    if (ownerError) {
+      throw ownerError;
+    }
+
+    if (!owner) {
+      return null;
+    }
+
+    const directs = await this.findRecruits([memberId]);
+    const secondLevel = await this.findRecruits(directs.map((profile) => profile.id));
+    const profiles = [owner as ProfileRow, ...directs, ...secondLevel];
+    const ids = profiles.map((profile) => profile.id);
+
+    const [subscriptions, lastPayments, settings] = await Promise.all([
+      this.findSubscriptions(ids),
+      this.findLastPayments(ids),
+      getAppSettings(),
+    ]);
+
+    const countsAsActive = (status: string | undefined) =>
+      status === 'active' || (status === 'paused' && settings.pausedMembersCountTowardPhase);
+
+    const toNode = (profile: ProfileRow, recruits: MemberNode[] = []): MemberNode => {
+      const subscription = subscriptions.get(profile.id);
+      return {
+        memberId: profile.id,
+        name: profile.name?.trim() || profile.id,
+        subscription: {
+          isActive: countsAsActive(subscription?.status),
+          provider: subscription?.gateway ?? null,
+          lastPaymentAt: toIsoString(lastPayments.get(profile.id)),
+          activeSince: toIsoString(subscription?.created_at),
+        },
+        recruits,
+      };
+    };
+
+    const directRecruits = directs.map((direct) =>
+      toNode(
+        direct,
+        secondLevel.filter((profile) => profile.network_parent_id === direct.id).map((profile) => toNode(profile)),
+      ),
+    );
+
+    return {
+      owner: toNode(owner as ProfileRow),
+      directRecruits,
+    };
+  }
+
+  private async findRecruits(sponsorIds: string[]): Promise<ProfileRow[]> {
+    if (sponsorIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('id, name, network_parent_id')
+      .in('network_parent_id', sponsorIds);
+
+    if (error) {
+      throw error;
+    }
+
+    if (this.parentOverrides.size === 0) {
+      return (data ?? []) as ProfileRow[];
+    }
+
+    const movedInIds = Array.from(this.parentOverrides.entries())
+      .filter(([, parentId]) => parentId !== null && sponsorIds.includes(parentId))
+      .map(([memberId]) => memberId);
+
+    let movedIn: ProfileRow[] = [];
+    if (movedInIds.length > 0) {
+      const { data: movedData, error: movedError } = await this.client
+        .from('profiles')
+        .select('id, name, network_parent_id')
+        .in('id', movedInIds);
+
+      if (movedError) {
+        throw movedError;
+      }
+
+      movedIn = (movedData ?? []) as ProfileRow[];
+    }
+
+    return [
+      ...((data ?? []) as ProfileRow[]).filter((profile) => !this.parentOverrides.has(profile.id)),
+      ...movedIn.map((profile) => ({ ...profile, network_parent_id: this.parentOverrides.get(profile.id) ?? null })),
+    ];
+  }
+
+  private async findSubscriptions(userIds: string[]): Promise<Map<string, SubscriptionRow>> {
+    const { data, error } = await this.client
+      .from('subscriptions')
+      .select('user_id, status, gateway, created_at')
+      .in('user_id', userIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Map(((data ?? []) as SubscriptionRow[]).map((row) => [row.user_id, row]));
+  }
+
+  private async findLastPayments(userIds: string[]): Promise<Map<string, string>> {
+    const { data, error } = await this.client
+      .from('payments')
+      .select('user_id, created_at')
+      .in('user_id', userIds)
+      .eq('kind', 'subscription')
+      .eq('status', 'paid')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    const lastPayments = new Map<string, string>();
+    for (const row of (data ?? []) as PaymentRow[]) {
+      if (!lastPayments.has(row.user_id)) {
+        lastPayments.set(row.user_id, row.created_at);
+      }
+    }
+
+    return lastPayments;
+  }
+}
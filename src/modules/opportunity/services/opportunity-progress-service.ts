@@ -8,9 +8,9 @@ import {
   OpportunityProgressSchema,
   type OpportunityProgress,
   type OpportunityPhase,
-  type PhaseRequirement,
 } from '../domain/models/opportunity-plan';
 import { OpportunityProgressNotifier } from '../domain/events/opportunity-progress-observer';
+import { PhaseRequirementEvaluator } from './phase-requirement-evaluator';
 import type { MemberNetworkRepository } from '../repositories/member-network-repository';
 
 export type OpportunityProgressServiceDependencies = {
@@ -22,6 +22,7 @@ export type OpportunityProgressServiceDependencies = {
 export class OpportunityProgressService {
   private readonly notifier: OpportunityProgressNotifier;
   private readonly nowProvider: () => Date;
+  private readonly evaluator: PhaseRequirementEvaluator;
 
   constructor(
     private readonly plan: OpportunityPlan,
@@ -29,6 +30,7 @@ export class OpportunityProgressService {
   ) {
     this.notifier = dependencies.notifier ?? new OpportunityProgressNotifier();
     this.nowProvider = dependencies.nowProvider ?? (() => new Date());
+    this.evaluator = new PhaseRequirementEvaluator(this.nowProvider);
   }
 
   async evaluate(memberId: string): Promise<OpportunityProgress> {
@@ -81,116 +83,6 @@ export class OpportunityProgressService {
   }
 
   private isRequirementMet(phase: OpportunityPhase, snapshot: MemberNetworkSnapshot): boolean {
-    const requirement = phase.requirement;
-
-    switch (requirement.type) {
-      case 'subscriptionActive':
-        return this.validateSubscriptionRequirement(snapshot, requirement as Extract<PhaseRequirement, { type: 'subscriptionActive' }>);
-      case 'directActiveRecruits':
-        return this.validateDirectRequirement(snapshot, requirement as Extract<PhaseRequirement, { type: 'directActiveRecruits' }>);
-      case 'secondLevelActiveRecruits':
-        return this.validateSecondLevelRequirement(snapshot, requirement as Extract<PhaseRequirement, { type: 'secondLevelActiveRecruits' }>);
-      case 'networkRetention':
-        return this.validateNetworkRetention(snapshot, requirement as Extract<PhaseRequirement, { type: 'networkRetention' }>);
-      default: {
-        const exhaustiveCheck: never = requirement;
-        throw new Error(`Unhandled requirement type ${(exhaustiveCheck as PhaseRequirement).type}`);
-      }
-    }
-  }
-
-  private validateSubscriptionRequirement(
-    snapshot: MemberNetworkSnapshot,
-    requirement: Extract<PhaseRequirement, { type: 'subscriptionActive' }>,
-  ): boolean {
-    const { owner } = snapshot;
-    if (!owner.subscription.isActive) {
-      return false;
-    }
-
-    if (!owner.subscription.activeSince) {
-      return false;
-    }
-
-    const activeSince = new Date(owner.subscription.activeSince);
-    const minimumStart = new Date(this.nowProvider());
-    minimumStart.setMonth(minimumStart.getMonth() - (requirement as any).minimumConsecutiveMonths);
-
-    return activeSince <= minimumStart;
-  }
-
-  private validateDirectRequirement(
-    snapshot: MemberNetworkSnapshot,
-    requirement: Extract<PhaseRequirement, { type: 'directActiveRecruits' }>,
-  ): boolean {
-    const activeDirects = snapshot.directRecruits.filter((direct) => {
-      if (!direct.subscription.isActive) {
-        return false;
-      }
-
-      if (!(requirement as any).requirePaidInvoiceThisCycle) {
-        return true;
-      }
-
-      return this.isWithinCurrentBillingCycle(direct.subscription.lastPaymentAt);
-    });
-
-    return activeDirects.length >= (requirement as any).requiredActive;
-  }
-
-  private validateSecondLevelRequirement(
-    snapshot: MemberNetworkSnapshot,
-    requirement: Extract<PhaseRequirement, { type: 'secondLevelActiveRecruits' }>,
-  ): boolean {
-    const secondLevelActive = snapshot.directRecruits
-      .flatMap((direct) => direct.recruits)
-      .filter((node) => node.subscription.isActive);
-
-    if (secondLevelActive.length < (requirement as any).requiredActive) {
-      return false;
-    }
-
-    return snapshot.directRecruits.every((direct) => {
-      const activeRecruits = direct.recruits.filter((recruit) => recruit.subscription.isActive);
-      return activeRecruits.length >= (requirement as any).minimumPerDirect;
-    });
-  }
-
-  private validateNetworkRetention(
-    snapshot: MemberNetworkSnapshot,
-    requirement: Extract<PhaseRequirement, { type: 'networkRetention' }>,
-  ): boolean {
-    const levels: MemberNetworkSnapshot['owner'][] = [];
-    levels.push(snapshot.owner);
-
-    if ((requirement as any).requiredLevels >= 1) {
-      for (const direct of snapshot.directRecruits) {
-        levels.push(direct);
-      }
-    }
-
-    if ((requirement as any).requiredLevels >= 2) {
-      for (const direct of snapshot.directRecruits) {
-        for (const recruit of direct.recruits) {
-          levels.push(recruit);
-        }
-      }
-    }
-
-    return levels.every((node) => node.subscription.isActive && this.isWithinCurrentBillingCycle(node.subscription.lastPaymentAt));
-  }
-
-  private isWithinCurrentBillingCycle(lastPaymentAt: string | null): boolean {
-    if (!lastPaymentAt) {
-      return false;
-    }
-
-    const lastPaymentDate = new Date(lastPaymentAt);
-    const now = this.nowProvider();
-
-    const billingWindow = new Date(now);
-    billingWindow.setDate(now.getDate() - 31);
-
-    return lastPaymentDate >= billingWindow;
+    return this.evaluator.evaluate(phase, this.plan.phases.indexOf(phase), snapshot).passed;
   }
 }
@@ -0,0 +1,267 @@
+import {
+  MemberNetworkSnapshotSchema,
+  type MemberNetworkSnapshot,
+} from '../domain/models/member-network';
+import type { OpportunityPlan } from '../domain/models/opportunity-plan';
+import type {
+  MemberPhaseEvaluation,
+  PhaseCycleSummary,
+  PhaseEvaluationAction,
+  RequirementEvaluation,
+} from '../domain/models/phase-evaluation';
+import { OpportunityProgressNotifier } from '../domain/events/opportunity-progress-observer';
+import type { MemberNetworkRepository } from '../repositories/member-network-repository';
+import type { MemberVolumeRepository } from '../repositories/member-volume-repository';
+import type { PhaseEvaluationRepository } from '../repositories/phase-evaluation-repository';
+import type { PhaseRewardGranter } from './phase-reward-grant-service';
+import { PhaseRequirementEvaluator } from './phase-requirement-evaluator';
+
+export type PhaseEvaluationServiceDependencies = {
+  memberNetworkRepository: MemberNetworkRepository;
+  phaseEvaluationRepository: PhaseEvaluationRepository;
+  rewardGranter: PhaseRewardGranter;
+  /** Personal and group volume thresholds of the phase levels; without it volume is not checked */
+  memberVolumeRepository?: MemberVolumeRepository;
+  notifier?: OpportunityProgressNotifier;
+  nowProvider?: () => Date;
+};
+
+export interface PhaseEvaluationOptions {
+  /** Billing cycle (YYYY-MM) recorded in the audit trail. Defaults to the cycle that just closed. */
+  cycle?: string;
+  /** Evaluate and explain without changing phases, granting rewards or writing the audit trail */
+  dryRun?: boolean;
+}
+
+/**
+ * The billing cycle that closes at `now`: the month of the previous day, so a run on the
+ * 1st at midnight evaluates the month that just ended.
+ */
+export const resolveClosingCycle = (now: Date): string => {
+  const previousDay = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  return previousDay.toISOString().slice(0, 7);
+};
+
+/**
+ * Rule engine for the billing-cycle close. Each member's network is evaluated against the
+ * OpportunityPlan requirements; phases are cumulative, so a member reaches level N only when the
+ * requirements of every level up to N pass. The stored phase is promoted or demoted accordingly
+ * (admins' manual overrides are left untouched), each level's rewards are granted the first time
+ * it is reached, and every requirement outcome is written to the audit trail.
+ */
+export class PhaseEvaluationService {
+  private readonly notifier: OpportunityProgressNotifier;
+  private readonly nowProvider: () => Date;
+  private readonly evaluator: PhaseRequirementEvaluator;
+
+  constructor(
+    private readonly plan: OpportunityPlan,
+    private readonly dependencies: PhaseEvaluationServiceDependencies,
+  ) {
+    this.notifier = dependencies.notifier ?? new OpportunityProgressNotifier();
+    this.nowProvider = dependencies.nowProvider ?? (() => new Date());
+    this.evaluator = new PhaseRequirementEvaluator(this.nowProvider);
+  }
+
+  async evaluateMember(memberId: string, options: PhaseEvaluationOptions = {}): Promise<MemberPhaseEvaluation> {
+    const now = this.nowProvider();
+    const cycle = options.cycle ?? resolveClosingCycle(now);
+    const { phaseEvaluationRepository } = this.dependencies;
+
+    const snapshot = await this.loadSnapshot(memberId);
+    const requirements = await this.evaluateRequirements(memberId, cycle, snapshot);
+    const evaluatedPhase = this.resolvePhase(requirements);
+
+    const state = await phaseEvaluationRepository.findPhaseState(memberId);
+    const previousPhase = state?.phase ?? 0;
+
+    let action: PhaseEvaluationAction;
+    let appliedPhase = evaluatedPhase;
+
+    if (state?.manualOverride) {
+      action = 'skipped_manual_override';
+      appliedPhase = previousPhase;
+    } else if (evaluatedPhase > previousPhase) {
+      action = 'promoted';
+    } else if (evaluatedPhase < previousPhase) {
+      action = 'demoted';
+    } else {
+      action = 'unchanged';
+    }
+
+    const rewardsGranted: number[] = [];
+
+    if (!options.dryRun) {
+      if (action !== 'skipped_manual_override') {
+        await phaseEvaluationRepository.savePhase(memberId, {
+          phase: appliedPhase,
+          highestPhaseAchieved: Math.max(appliedPhase, state?.highestPhaseAchieved ?? 0),
+        });
+      }
+
+      rewardsGranted.push(...(await this.grantPendingRewards(memberId, appliedPhase, state?.grantedLevels ?? [])));
+    }
+
+    const evaluation: MemberPhaseEvaluation = {
+      memberId,
+      cycle,
+      previousPhase,
+      evaluatedPhase,
+      appliedPhase,
+      action,
+      requirements,
+      rewardsGranted,
+      evaluatedAt: now.toISOString(),
+    };
+
+    if (!options.dryRun) {
+      await phaseEvaluationRepository.saveEvaluation(evaluation);
+
+      if (action === 'promoted') {
+        this.notifier.notifyPhaseUnlocked(memberId, this.plan.phases[appliedPhase]?.id ?? `phase${appliedPhase}`);
+      }
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Evaluate every member once for the cycle. Members already evaluated in the cycle are skipped
+   * so the close can be re-run after a partial failure.
+   */
+  async closeCycle(options: Pick<PhaseEvaluationOptions, 'cycle'> = {}): Promise<PhaseCycleSummary> {
+    const cycle = options.cycle ?? resolveClosingCycle(this.nowProvider());
+    const { phaseEvaluationRepository } = this.dependencies;
+    const memberIds = await phaseEvaluationRepository.listMemberIds();
+
+    const summary: PhaseCycleSummary = {
+      cycle,
+      evaluated: 0,
+      promoted: 0,
+      demoted: 0,
+      unchanged: 0,
+      skipped: 0,
+      alreadyEvaluated: 0,
+      rewardsGranted: 0,
+      failed: 0,
+    };
+
+    for (const memberId of memberIds) {
+      try {
+        if (await phaseEvaluationRepository.hasEvaluation(memberId, cycle)) {
+          summary.alreadyEvaluated++;
+          continue;
+        }
+
+        const evaluation = await this.evaluateMember(memberId, { cycle });
+        summary.evaluated++;
+        summary.rewardsGranted += evaluation.rewardsGranted.length;
+
+        if (evaluation.action === 'skipped_manual_override') {
+          summary.skipped++;
+        } else {
+          summary[evaluation.action]++;
+        }
+      } catch (error) {
+        summary.failed++;
+        console.error(`[PhaseEvaluationService] Failed to evaluate member ${memberId} for ${cycle}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  async getHistory(memberId: string, limit?: number): Promise<MemberPhaseEvaluation[]> {
+    return this.dependencies.phaseEvaluationRepository.listEvaluations(memberId, limit);
+  }
+
+  private async loadSnapshot(memberId: string): Promise<MemberNetworkSnapshot> {
+    const snapshot = await this.dependencies.memberNetworkRepository.getNetworkSnapshot(memberId);
+
+    if (!snapshot) {
+      // Members without a profile row are evaluated as an inactive member with no network
+      return {
+        owner: {
+          memberId,
+          name: memberId,
+          subscription: { isActive: false, provider: null, lastPaymentAt: null, activeSince: null },
+          recruits: [],
+        },
+        directRecruits: [],
+      };
+    }
+
+    return MemberNetworkSnapshotSchema.parse(snapshot);
+  }
+
+  /**
+   * Plan requirement of every level, gated by the volume thresholds of the level with the
+   * member's volume in the evaluated cycle
+   */
+  private async evaluateRequirements(
+    memberId: string,
+    cycle: string,
+    snapshot: MemberNetworkSnapshot,
+  ): Promise<RequirementEvaluation[]> {
+    const requirements = this.plan.phases.map((phase, level) => this.evaluator.evaluate(phase, level, snapshot));
+    const { memberVolumeRepository } = this.dependencies;
+
+    if (!memberVolumeRepository) {
+      return requirements;
+    }
+
+    const thresholds = await memberVolumeRepository.listThresholds();
+    const hasThresholds = Array.from(thresholds.values()).some(
+      (threshold) => threshold.minPersonalVolume > 0 || threshold.minGroupVolume > 0,
+    );
+
+    if (!hasThresholds) {
+      return requirements;
+    }
+
+    const volume = await memberVolumeRepository.getCycleVolume(memberId, cycle);
+    return requirements.map((requirement) =>
+      this.evaluator.applyVolumeThreshold(requirement, thresholds.get(requirement.level), volume),
+    );
+  }
+
+  private resolvePhase(requirements: RequirementEvaluation[]): number {
+    const firstFailure = requirements.findIndex((requirement) => !requirement.passed);
+    const reached = firstFailure === -1 ? requirements.length - 1 : firstFailure - 1;
+    return Math.max(0, reached);
+  }
+
+  /**
+   * Grant the rewards of every level up to `phase` that were never granted before. The level is
+   * claimed before its rewards are paid, so concurrent or repeated runs grant it at most once; a
+   * grant that fails after the claim is logged and left for an admin instead of paid again.
+   */
+  private async grantPendingRewards(memberId: string, phase: number, grantedLevels: number[]): Promise<number[]> {
+    const granted: number[] = [];
+
+    for (let level = 1; level <= phase; level++) {
+      const planPhase = this.plan.phases[level];
+      if (!planPhase || grantedLevels.includes(level)) {
+        continue;
+      }
+
+      if (!(await this.dependencies.phaseEvaluationRepository.claimRewardGrant(memberId, level))) {
+        continue;
+      }
+
+      try {
+        await this.dependencies.rewardGranter.grant(memberId, planPhase, level);
+      } catch (error) {
+        console.error(
+          `[PhaseEvaluationService] Level ${level} rewards of member ${memberId} were claimed but not granted:`,
+          error,
+        );
+        throw error;
+      }
+
+      granted.push(level);
+    }
+
+    return granted;
+  }
+}
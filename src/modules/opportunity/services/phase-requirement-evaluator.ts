@@ -0,0 +1,230 @@
+import type { MemberNetworkSnapshot, MemberNode } from '../domain/models/member-network';
+import type { OpportunityPhase, PhaseRequirement } from '../domain/models/opportunity-plan';
+import type { RequirementEvaluation } from '../domain/models/phase-evaluation';
+import type { MemberCycleVolume, PhaseVolumeThreshold } from '../repositories/member-volume-repository';
+
+type RequirementOf<T extends PhaseRequirement['type']> = Extract<PhaseRequirement, { type: T }>;
+
+type RequirementOutcome = Pick<RequirementEvaluation, 'passed' | 'reason' | 'observed' | 'required'>;
+
+/**
+ * Evaluates OpportunityPlan requirements against a member network snapshot and explains
+ * why each requirement passed or failed.
+ */
+export class PhaseRequirementEvaluator {
+  constructor(private readonly nowProvider: () => Date = () => new Date()) {}
+
+  evaluate(phase: OpportunityPhase, level: number, snapshot: MemberNetworkSnapshot): RequirementEvaluation {
+    const requirement = phase.requirement;
+    let outcome: RequirementOutcome;
+
+    switch (requirement.type) {
+      case 'subscriptionActive':
+        outcome = this.evaluateSubscription(snapshot, requirement);
+        break;
+      case 'directActiveRecruits':
+        outcome = this.evaluateDirectRecruits(snapshot, requirement);
+        break;
+      case 'secondLevelActiveRecruits':
+        outcome = this.evaluateSecondLevel(snapshot, requirement);
+        break;
+      case 'networkRetention':
+        outcome = this.evaluateNetworkRetention(snapshot, requirement);
+        break;
+      default: {
+        const exhaustiveCheck: never = requirement;
+        throw new Error(`Unhandled requirement type ${(exhaustiveCheck as PhaseRequirement).type}`);
+      }
+    }
+
+    return {
+      phaseId: phase.id,
+      level,
+      requirementType: requirement.type,
+      ...outcome,
+    };
+  }
+
+  /**
+   * Adds the personal and group volume thresholds of a level to its requirement outcome. The
+   * level passes only when the plan requirement and both thresholds pass; a threshold of 0 is
+   * not checked.
+   */
+  applyVolumeThreshold(
+    evaluation: RequirementEvaluation,
+    threshold: PhaseVolumeThreshold | undefined,
+    volume: MemberCycleVolume,
+  ): RequirementEvaluation {
+    if (!threshold || (threshold.minPersonalVolume <= 0 && threshold.minGroupVolume <= 0)) {
+      return evaluation;
+    }
+
+    const shortfalls: string[] = [];
+    if (volume.personalVolume < threshold.minPersonalVolume) {
+      shortfalls.push(`personal volume ${volume.personalVolume} of ${threshold.minPersonalVolume} required`);
+    }
+    if (volume.groupVolume < threshold.minGroupVolume) {
+      shortfalls.push(`group volume ${volume.groupVolume} of ${threshold.minGroupVolume} required`);
+    }
+
+    const volumeReason =
+      shortfalls.length > 0
+        ? `Only ${shortfalls.join(' and ')}`
+        : `personal volume ${volume.personalVolume}, group volume ${volume.groupVolume}`;
+
+    return {
+      ...evaluation,
+      passed: evaluation.passed && shortfalls.length === 0,
+      reason: evaluation.passed && shortfalls.length > 0 ? volumeReason : `${evaluation.reason}; ${volumeReason}`,
+      observed: { ...evaluation.observed, personalVolume: volume.personalVolume, groupVolume: volume.groupVolume },
+      required: {
+        ...evaluation.required,
+        minPersonalVolume: threshold.minPersonalVolume,
+        minGroupVolume: threshold.minGroupVolume,
+      },
+    };
+  }
+
+  isWithinCurrentBillingCycle(lastPaymentAt: string | null): boolean {
+    if (!lastPaymentAt) {
+      return false;
+    }
+
+    const lastPaymentDate = new Date(lastPaymentAt);
+    const now = this.nowProvider();
+
+    const billingWindow = new Date(now);
+    billingWindow.setDate(now.getDate() - 31);
+
+    return lastPaymentDate >= billingWindow;
+  }
+
+  private evaluateSubscription(
+    snapshot: MemberNetworkSnapshot,
+    requirement: RequirementOf<'subscriptionActive'>,
+  ): RequirementOutcome {
+    const { subscription } = snapshot.owner;
+    const required = { minimumConsecutiveMonths: requirement.minimumConsecutiveMonths };
+    const observed = { isActive: subscription.isActive, activeSince: subscription.activeSince };
+
+    if (!subscription.isActive) {
+      return { passed: false, reason: 'Subscription is not active', observed, required };
+    }
+
+    if (!subscription.activeSince) {
+      return { passed: false, reason: 'Subscription has no activation date', observed, required };
+    }
+
+    const minimumStart = new Date(this.nowProvider());
+    minimumStart.setMonth(minimumStart.getMonth() - requirement.minimumConsecutiveMonths);
+    const passed = new Date(subscription.activeSince) <= minimumStart;
+
+    return {
+      passed,
+      reason: passed
+        ? `Subscription active for at least ${requirement.minimumConsecutiveMonths} month(s)`
+        : `Subscription active since ${subscription.activeSince}, fewer than ${requirement.minimumConsecutiveMonths} month(s)`,
+      observed,
+      required,
+    };
+  }
+
+  private evaluateDirectRecruits(
+    snapshot: MemberNetworkSnapshot,
+    requirement: RequirementOf<'directActiveRecruits'>,
+  ): RequirementOutcome {
+    const activeDirects = snapshot.directRecruits.filter((direct) => direct.subscription.isActive);
+    const qualifyingDirects = requirement.requirePaidInvoiceThisCycle
+      ? activeDirects.filter((direct) => this.isWithinCurrentBillingCycle(direct.subscription.lastPaymentAt))
+      : activeDirects;
+    const passed = qualifyingDirects.length >= requirement.requiredActive;
+
+    return {
+      passed,
+      reason: passed
+        ? `${qualifyingDirects.length} qualifying direct recruit(s), ${requirement.requiredActive} required`
+        : `Only ${qualifyingDirects.length} qualifying direct recruit(s) of ${requirement.requiredActive} required` +
+          (requirement.requirePaidInvoiceThisCycle && qualifyingDirects.length < activeDirects.length
+            ? ` (${activeDirects.length - qualifyingDirects.length} active without a payment this cycle)`
+            : ''),
+      observed: {
+        directRecruits: snapshot.directRecruits.length,
+        activeDirects: activeDirects.length,
+        qualifyingDirects: qualifyingDirects.length,
+      },
+      required: {
+        requiredActive: requirement.requiredActive,
+        requirePaidInvoiceThisCycle: requirement.requirePaidInvoiceThisCycle,
+      },
+    };
+  }
+
+  private evaluateSecondLevel(
+    snapshot: MemberNetworkSnapshot,
+    requirement: RequirementOf<'secondLevelActiveRecruits'>,
+  ): RequirementOutcome {
+    const activePerDirect = snapshot.directRecruits.map(
+      (direct) => direct.recruits.filter((recruit) => recruit.subscription.isActive).length,
+    );
+    const secondLevelActive = activePerDirect.reduce((total, count) => total + count, 0);
+    const minimumActivePerDirect = activePerDirect.length > 0 ? Math.min(...activePerDirect) : 0;
+    const directsBelowMinimum = activePerDirect.filter((count) => count < requirement.minimumPerDirect).length;
+
+    const observed = { secondLevelActive, minimumActivePerDirect, directsBelowMinimum };
+    const required = { requiredActive: requirement.requiredActive, minimumPerDirect: requirement.minimumPerDirect };
+
+    if (secondLevelActive < requirement.requiredActive) {
+      return {
+        passed: false,
+        reason: `Only ${secondLevelActive} active second-level member(s) of ${requirement.requiredActive} required`,
+        observed,
+        required,
+      };
+    }
+
+    if (directsBelowMinimum > 0) {
+      return {
+        passed: false,
+        reason: `${directsBelowMinimum} direct recruit(s) have fewer than ${requirement.minimumPerDirect} active recruits`,
+        observed,
+        required,
+      };
+    }
+
+    return {
+      passed: true,
+      reason: `${secondLevelActive} active second-level member(s), at least ${requirement.minimumPerDirect} under each direct recruit`,
+      observed,
+      required,
+    };
+  }
+
+  private evaluateNetworkRetention(
+    snapshot: MemberNetworkSnapshot,
+    requirement: RequirementOf<'networkRetention'>,
+  ): RequirementOutcome {
+    const members: MemberNode[] = [snapshot.owner];
+
+    if (requirement.requiredLevels >= 1) {
+      members.push(...snapshot.directRecruits);
+    }
+
+    if (requirement.requiredLevels >= 2) {
+      members.push(...snapshot.directRecruits.flatMap((direct) => direct.recruits));
+    }
+
+    const retained = members.filter(
+      (node) => node.subscription.isActive && this.isWithinCurrentBillingCycle(node.subscription.lastPaymentAt),
+    ).length;
+    const passed = retained === members.length;
+
+    return {
+      passed,
+      reason: passed
+        ? `All ${members.length} member(s) across ${requirement.requiredLevels} level(s) paid this cycle`
+        : `${members.length - retained} of ${members.length} member(s) across ${requirement.requiredLevels} level(s) did not pay this cycle`,
+      observed: { membersChecked: members.length, membersRetained: retained },
+      required: { requiredLevels: requirement.requiredLevels, requireAllActive: requirement.requireAllActive },
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { WalletService } from '@/modules/multilevel/services/wallet-service';
+import type { OpportunityPhase } from '../domain/models/opportunity-plan';
+
+export interface PhaseRewardGranter {
+  grant(memberId: string, phase: OpportunityPhase, level: number): Promise<void>;
+}
+
+/**
+ * Grants the one-time rewards of a phase: `walletBalance` rewards are credited to the wallet as a
+ * phase bonus and `productCredit` rewards open the month's phase reward (free product or store
+ * credit, valued from `phase_levels`). Enablement rewards need no action.
+ */
+export class PhaseRewardGrantService implements PhaseRewardGranter {
+  private readonly wallets: WalletService;
+
+  constructor(private readonly client: SupabaseClient) {
+    this.wallets = new WalletService(client);
+  }
+
+  async grant(memberId: string, phase: OpportunityPhase, level: number): Promise<void> {
+    for (const reward of phase.rewards) {
+      if (reward.type === 'walletBalance' && reward.amount) {
+        await this.wallets.addFunds(
+          memberId,
+          Math.round(reward.amount * 100),
+          'phase_bonus',
+          undefined,
+          `${phase.name}: ${reward.label}`,
+          { currency: reward.currency ?? 'USD', phase_id: phase.id, phase_level: level },
+        );
+      }
+
+      if (reward.type === 'productCredit') {
+        const { error } = await this.client.rpc('grant_phase_reward', { p_user_id: memberId, p_phase: level });
+        if (error) {
+          throw error;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import { describe, expect, it, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { DefaultOpportunityPlan } from '../config/mlm-plan';
+import { PhaseEvaluationService, resolveClosingCycle } from '../services/phase-evaluation-service';
+import { InMemoryMemberNetworkRepository } from '../repositories/member-network-repository';
+import type { MemberPhaseState, PhaseEvaluationRepository } from '../repositories/phase-evaluation-repository';
+import type { MemberVolumeRepository } from '../repositories/member-volume-repository';
+import type { MemberNetworkSnapshot, MemberNode, MemberSubscriptionStatus } from '../domain/models/member-network';
+import type { MemberPhaseEvaluation } from '../domain/models/phase-evaluation';
+
+const now = new Date('2024-11-01T00:00:00.000Z');
+
+const activeSubscription = (override: Partial<MemberSubscriptionStatus> = {}): MemberSubscriptionStatus => ({
+  isActive: true,
+  provider: 'stripe',
+  lastPaymentAt: new Date('2024-10-20T00:00:00.000Z').toISOString(),
+  activeSince: new Date('2024-06-01T00:00:00.000Z').toISOString(),
+  ...override,
+});
+
+const member = (name: string, recruits: MemberNode[] = [], subscription = activeSubscription()): MemberNode => ({
+  memberId: randomUUID(),
+  name,
+  subscription,
+  recruits,
+});
+
+class InMemoryPhaseEvaluationRepository implements PhaseEvaluationRepository {
+  readonly evaluations: MemberPhaseEvaluation[] = [];
+
+  constructor(readonly states: Map<string, MemberPhaseState>) {}
+
+  async listMemberIds() {
+    return [...this.states.keys()];
+  }
+
+  async findPhaseState(memberId: string) {
+    return this.states.get(memberId) ?? null;
+  }
+
+  async savePhase(memberId: string, state: { phase: number; highestPhaseAchieved: number }) {
+    const current = this.states.get(memberId);
+    this.states.set(memberId, {
+      manualOverride: false,
+      grantedLevels: [],
+      ...current,
+      ...state,
+    });
+  }
+
+  async claimRewardGrant(memberId: string, level: number) {
+    const state = this.states.get(memberId);
+    if (!state || state.grantedLevels.includes(level)) {
+      return false;
+    }
+
+    state.grantedLevels = [...state.grantedLevels, level];
+    return true;
+  }
+
+  async hasEvaluation(memberId: string, cycle: string) {
+    return this.evaluations.some((evaluation) => evaluation.memberId === memberId && evaluation.cycle === cycle);
+  }
+
+  async saveEvaluation(evaluation: MemberPhaseEvaluation) {
+    this.evaluations.push(evaluation);
+  }
+
+  async listEvaluations(memberId: string) {
+    return this.evaluations.filter((evaluation) => evaluation.memberId === memberId);
+  }
+}
+
+const buildService = (
+  snapshots: MemberNetworkSnapshot[],
+  states: Map<string, MemberPhaseState>,
+  memberVolumeRepository?: MemberVolumeRepository,
+) => {
+  const repository = new InMemoryPhaseEvaluationRepository(states);
+  const rewardGranter = { grant: vi.fn().mockResolvedValue(undefined) };
+  const service = new PhaseEvaluationService(DefaultOpportunityPlan, {
+    memberNetworkRepository: new InMemoryMemberNetworkRepository(
+      new Map(snapshots.map((snapshot) => [snapshot.owner.memberId, snapshot])),
+    ),
+    phaseEvaluationRepository: repository,
+    rewardGranter,
+    memberVolumeRepository,
+    nowProvider: () => now,
+  });
+
+  return { service, repository, rewardGranter };
+};
+
+const baseState = (override: Partial<MemberPhaseState> = {}): MemberPhaseState => ({
+  phase: 0,
+  highestPhaseAchieved: 0,
+  manualOverride: false,
+  grantedLevels: [],
+  ...override,
+});
+
+describe('PhaseEvaluationService', () => {
+  it('promotes a member and grants each newly reached level once', async () => {
+    const owner = member('Alice');
+    const snapshot: MemberNetworkSnapshot = {
+      owner,
+      directRecruits: [member('Bob', [member('Charlie'), member('Diana')]), member('Eva', [member('Frank')])],
+    };
+    const { service, repository, rewardGranter } = buildService([snapshot], new Map([[owner.memberId, baseState()]]));
+
+    const evaluation = await service.evaluateMember(owner.memberId);
+
+    expect(evaluation).toMatchObject({ cycle: '2024-10', previousPhase: 0, evaluatedPhase: 1, action: 'promoted' });
+    expect(evaluation.rewardsGranted).toEqual([1]);
+    expect(rewardGranter.grant).toHaveBeenCalledWith(owner.memberId, DefaultOpportunityPlan.phases[1], 1);
+
+    const secondLevel = evaluation.requirements.find((requirement) => requirement.phaseId === 'phase2');
+    expect(secondLevel).toMatchObject({ passed: false, observed: { secondLevelActive: 3, minimumActivePerDirect: 1 } });
+    expect(repository.states.get(owner.memberId)).toMatchObject({ phase: 1, highestPhaseAchieved: 1, grantedLevels: [1] });
+
+    rewardGranter.grant.mockClear();
+    await service.evaluateMember(owner.memberId, { cycle: '2024-11' });
+    expect(rewardGranter.grant).not.toHaveBeenCalled();
+  });
+
+  it('grants a level once when two evaluations of the member run at the same time', async () => {
+    const owner = member('Gina');
+    const snapshot: MemberNetworkSnapshot = {
+      owner,
+      directRecruits: [member('Hans', [member('Iris'), member('Jon')]), member('Kim', [member('Lou')])],
+    };
+    const { service, rewardGranter } = buildService([snapshot], new Map([[owner.memberId, baseState()]]));
+
+    const [first, second] = await Promise.all([
+      service.evaluateMember(owner.memberId),
+      service.evaluateMember(owner.memberId),
+    ]);
+
+    expect(rewardGranter.grant).toHaveBeenCalledTimes(1);
+    expect([...first.rewardsGranted, ...second.rewardsGranted]).toEqual([1]);
+  });
+
+  it('does not grant a claimed level again after its grant failed', async () => {
+    const owner = member('Lena');
+    const snapshot: MemberNetworkSnapshot = { owner, directRecruits: [member('Max'), member('Ned')] };
+    const { service, rewardGranter } = buildService([snapshot], new Map([[owner.memberId, baseState()]]));
+    rewardGranter.grant.mockRejectedValueOnce(new Error('wallet unavailable'));
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(service.evaluateMember(owner.memberId)).rejects.toThrow('wallet unavailable');
+    const retry = await service.evaluateMember(owner.memberId);
+
+    expect(rewardGranter.grant).toHaveBeenCalledTimes(1);
+    expect(retry.rewardsGranted).toEqual([]);
+    errors.mockRestore();
+  });
+
+  it('demotes members whose network no longer qualifies without granting rewards again', async () => {
+    const owner = member('Hugo');
+    const snapshot: MemberNetworkSnapshot = {
+      owner,
+      directRecruits: [member('Ivy', [], activeSubscription({ isActive: false }))],
+    };
+    const { service, rewardGranter } = buildService(
+      [snapshot],
+      new Map([[owner.memberId, baseState({ phase: 2, highestPhaseAchieved: 2, grantedLevels: [1, 2] })]]),
+    );
+
+    const evaluation = await service.evaluateMember(owner.memberId);
+
+    expect(evaluation).toMatchObject({ previousPhase: 2, evaluatedPhase: 0, appliedPhase: 0, action: 'demoted' });
+    expect(evaluation.requirements[1]).toMatchObject({
+      passed: false,
+      reason: 'Only 0 qualifying direct recruit(s) of 2 required',
+    });
+    expect(rewardGranter.grant).not.toHaveBeenCalled();
+  });
+
+  it('leaves manual overrides untouched but still records the evaluation', async () => {
+    const owner = member('Julia', [], activeSubscription({ isActive: false }));
+    const { service, repository } = buildService(
+      [{ owner, directRecruits: [] }],
+      new Map([[owner.memberId, baseState({ phase: 3, manualOverride: true, grantedLevels: [1, 2, 3] })]]),
+    );
+
+    const evaluation = await service.evaluateMember(owner.memberId);
+
+    expect(evaluation).toMatchObject({ evaluatedPhase: 0, appliedPhase: 3, action: 'skipped_manual_override' });
+    expect(repository.states.get(owner.memberId)?.phase).toBe(3);
+    expect(repository.evaluations).toHaveLength(1);
+  });
+
+  it('does not write anything on a dry run', async () => {
+    const owner = member('Kai', [], activeSubscription());
+    const { service, repository, rewardGranter } = buildService(
+      [{ owner, directRecruits: [member('Leo'), member('Mia')] }],
+      new Map([[owner.memberId, baseState()]]),
+    );
+
+    const evaluation = await service.evaluateMember(owner.memberId, { dryRun: true });
+
+    expect(evaluation.evaluatedPhase).toBe(1);
+    expect(repository.states.get(owner.memberId)?.phase).toBe(0);
+    expect(repository.evaluations).toHaveLength(0);
+    expect(rewardGranter.grant).not.toHaveBeenCalled();
+  });
+
+  it('holds members back at the first level whose volume threshold is not met', async () => {
+    const owner = member('Nora');
+    const snapshot: MemberNetworkSnapshot = {
+      owner,
+      directRecruits: [member('Otto', [member('Pia'), member('Quin')]), member('Rita', [member('Sam'), member('Tom')])],
+    };
+    const volumes = {
+      listThresholds: vi.fn().mockResolvedValue(
+        new Map([
+          [1, { minPersonalVolume: 50, minGroupVolume: 0 }],
+          [2, { minPersonalVolume: 50, minGroupVolume: 500 }],
+        ]),
+      ),
+      getCycleVolume: vi.fn().mockResolvedValue({ personalVolume: 80, groupVolume: 320 }),
+    };
+    const { service } = buildService([snapshot], new Map([[owner.memberId, baseState()]]), volumes);
+
+    const evaluation = await service.evaluateMember(owner.memberId);
+
+    expect(volumes.getCycleVolume).toHaveBeenCalledWith(owner.memberId, '2024-10');
+    expect(evaluation.evaluatedPhase).toBe(1);
+    expect(evaluation.requirements[1]).toMatchObject({
+      passed: true,
+      observed: { personalVolume: 80, groupVolume: 320 },
+      required: { minPersonalVolume: 50, minGroupVolume: 0 },
+    });
+    expect(evaluation.requirements[2]).toMatchObject({
+      passed: false,
+      reason: 'Only group volume 320 of 500 required',
+    });
+  });
+
+  it('closes a cycle once per member', async () => {
+    const alice = member('Alice');
+    const bob = member('Bob', [], activeSubscription({ isActive: false }));
+    const { service } = buildService(
+      [
+        { owner: alice, directRecruits: [member('Carl'), member('Dora')] },
+        { owner: bob, directRecruits: [] },
+      ],
+      new Map([
+        [alice.memberId, baseState()],
+        [bob.memberId, baseState({ phase: 1, grantedLevels: [1] })],
+      ]),
+    );
+
+    const summary = await service.closeCycle();
+
+    expect(summary).toMatchObject({ cycle: resolveClosingCycle(now), evaluated: 2, promoted: 1, demoted: 1, rewardsGranted: 1 });
+    expect(await service.closeCycle()).toMatchObject({ evaluated: 0, alreadyEvaluated: 2 });
+  });
+});
@@ -6,6 +6,10 @@ export const OrderFulfillmentItemSchema = z.object({
   itemId: z.string(),
   productId: z.string().nullable(),
   productName: z.string().nullable(),
+  /** Selected variant of a product with variants */
+  variantId: z.string().nullable().default(null),
+  variantLabel: z.string().nullable().default(null),
+  sku: z.string().nullable().default(null),
   quantity: z.number().nonnegative(),
   unitPriceCents: z.number().nonnegative(),
   lineTotalCents: z.number().nonnegative(),
@@ -144,7 +144,7 @@ export const useOrderFulfillmentExport = ({
             sanitize(order.customer.email ?? ''),
             sanitize(order.customer.phone ?? ''),
             sanitize(address),
-            sanitize(item.productName ?? ''),
+            sanitize(item.variantLabel ? `${item.productName ?? ''} (${item.variantLabel})` : item.productName ?? ''),
             sanitize(item.quantity),
             sanitize(centsToAmount(item.unitPriceCents)),
             sanitize(centsToAmount(item.lineTotalCents)),
@@ -233,6 +233,11 @@ export const OrderFulfillmentList = ({ orders, copy, timezone }: OrderFulfillmen
                       <TableRow key={item.itemId} className="hover:bg-background/50">
                         <TableCell className="text-sm font-medium text-foreground">
                           {item.productName ?? copy.productLabel}
+                          {item.variantLabel ? (
+                            <span className="block text-xs font-normal text-muted-foreground">
+                              {item.sku ? `${item.variantLabel} · ${item.sku}` : item.variantLabel}
+                            </span>
+                          ) : null}
                         </TableCell>
                         <TableCell className="text-right text-sm text-foreground">
                           {item.quantity.toLocaleString()}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Promotion, PromotionInput, PromotionsDictionary } from '../domain/models/promotion';
+import { PromotionRepositoryFactory } from '../repositories/promotion-repository';
+import { PromotionsView } from '../views/promotions-view';
+
+interface PromotionsControllerProps {
+  dictionary: PromotionsDictionary;
+}
+
+export const PromotionsController = ({ dictionary }: PromotionsControllerProps) => {
+  const repository = useMemo(() => PromotionRepositoryFactory.createForAdmin(), []);
+
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadPromotions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setPromotions(await repository.list());
+    } catch (loadError) {
+      console.error('[promotions] load failed', loadError);
+      setError(loadError instanceof Error ? loadError.message : dictionary.error.load);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, dictionary.error.load]);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const run = useCallback(
+    async (action: () => Promise<unknown>) => {
+      setSubmitting(true);
+      try {
+        await action();
+        await loadPromotions();
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [loadPromotions],
+  );
+
+  const handleSave = useCallback(
+    (input: PromotionInput, id: string | null) => run(() => repository.save(input, id)),
+    [repository, run],
+  );
+
+  const handleDelete = useCallback((id: string) => run(() => repository.remove(id)), [repository, run]);
+
+  return (
+    <PromotionsView
+      dictionary={dictionary}
+      promotions={promotions}
+      loading={loading}
+      error={error}
+      submitting={submitting}
+      onRefresh={loadPromotions}
+      onSave={handleSave}
+      onDelete={handleDelete}
+    />
+  );
+};
@@ -0,0 +1,235 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PromotionRulesSchema, type AppliedPromotion, type Promotion, type PromotionInput, type PromotionStore } from '../../domain/models/promotion';
+import type { PromotionUsage } from '../../domain/promotion-engine';
+
+interface PromotionRow {
+  id: string;
+  name: string;
+  code: string | null;
+  type: string;
+  rules: Record<string, unknown> | null;
+  stores: string[] | null;
+  min_subtotal_cents: number | string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  stackable: boolean;
+  combines_with_phase_rewards: boolean;
+  is_active: boolean;
+  redemptions?: { count: number }[] | null;
+}
+
+interface RedemptionCountRow {
+  promotion_id: string;
+  total_count: number | string;
+  user_count: number | string;
+}
+
+const PROMOTION_SELECT = '*, redemptions:promotion_redemptions(count)';
+
+const toPromotion = (row: PromotionRow): Promotion => ({
+  id: row.id,
+  name: row.name,
+  code: row.code,
+  rules: PromotionRulesSchema.parse({ ...(row.rules ?? {}), type: row.type }),
+  stores: (row.stores ?? []) as PromotionStore[],
+  minSubtotalCents: row.min_subtotal_cents === null ? null : Number(row.min_subtotal_cents),
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  usageLimit: row.usage_limit,
+  perUserLimit: row.per_user_limit,
+  stackable: row.stackable,
+  combinesWithPhaseRewards: row.combines_with_phase_rewards,
+  isActive: row.is_active,
+  redemptionCount: Number(row.redemptions?.[0]?.count ?? 0),
+});
+
+const toPromotionRow = (input: PromotionInput) => {
+  const { type, ...rules } = input.rules;
+  return {
+    name: input.name,
+    code: input.code ?? null,
+    type,
+    rules,
+    stores: input.stores,
+    min_subtotal_cents: input.minSubtotalCents ?? null,
+    starts_at: input.startsAt ?? null,
+    ends_at: input.endsAt ?? null,
+    usage_limit: input.usageLimit ?? null,
+    per_user_limit: input.perUserLimit ?? null,
+    stackable: input.stackable,
+    combines_with_phase_rewards: input.combinesWithPhaseRewards,
+    is_active: input.isActive,
+  };
+};
+
+export class PromotionRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async list(): Promise<Promotion[]> {
+    const { data, error } = await this.client.from('promotions').select(PROMOTION_SELECT).order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as PromotionRow[]).map(toPromotion);
+  }
+
+  /**
+   * Active promotions; dates and limits are checked by the promotion engine
+   */
+  async listActive(): Promise<Promotion[]> {
+    const { data, error } = await this.client.from('promotions').select(PROMOTION_SELECT).eq('is_active', true);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as PromotionRow[]).map(toPromotion);
+  }
+
+  async create(input: PromotionInput): Promise<Promotion> {
+    const { data, error } = await this.client.from('promotions').insert(toPromotionRow(input)).select(PROMOTION_SELECT).single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toPromotion(data as PromotionRow);
+  }
+
+  async update(id: string, input: PromotionInput): Promise<Promotion | null> {
+    const { data, error } = await this.client
+      .from('promotions')
+      .update(toPromotionRow(input))
+      .eq('id', id)
+      .select(PROMOTION_SELECT)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toPromotion(data as PromotionRow) : null;
+  }
+
+  /**
+   * Deletes a promotion. Returns false when it did not exist
+   */
+  async remove(id: string): Promise<boolean> {
+    const { data, error } = await this.client.from('promotions').delete().eq('id', id).select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Orders each promotion was used on, in total and by a buyer
+   */
+  async getUsage(promotionIds: string[], userId: string | null): Promise<Map<string, PromotionUsage>> {
+    if (promotionIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.client.rpc('promotion_redemption_counts', {
+      p_promotion_ids: promotionIds,
+      p_user_id: userId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return new Map(
+      ((data ?? []) as RedemptionCountRow[]).map((row) => [
+        row.promotion_id,
+        { total: Number(row.total_count), byUser: Number(row.user_count) },
+      ]),
+    );
+  }
+
+  /**
+   * True when the buyer is a network member, who shops in the member store
+   */
+  async isNetworkMember(userId: string): Promise<boolean> {
+    const { data, error } = await this.client.from('subscriptions').select('status').eq('user_id', userId).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.status === 'active';
+  }
+
+  async insertRedemptions(orderId: string, userId: string, promotions: AppliedPromotion[]): Promise<void> {
+    if (promotions.length === 0) {
+      return;
+    }
+
+    const { error } = await this.client.from('promotion_redemptions').upsert(
+      promotions.map((promotion) => ({
+        promotion_id: promotion.promotionId,
+        order_id: orderId,
+        user_id: userId,
+        code: promotion.code,
+        discount_cents: promotion.discountCents,
+      })),
+      { onConflict: 'promotion_id,order_id', ignoreDuplicates: true },
+    );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Runs reserve_promotions, which replaces any earlier reservation of the same key and only
+   * reserves the promotions that have usage limits. Returns when the reservation expires.
+   */
+  async reserve(reservationKey: string, userId: string | null, promotionIds: string[], ttlSeconds: number): Promise<string> {
+    const { data, error } = await this.client.rpc('reserve_promotions', {
+      p_reservation_key: reservationKey,
+      p_user_id: userId,
+      p_promotion_ids: promotionIds,
+      p_ttl_seconds: ttlSeconds,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as string;
+  }
+
+  async release(reservationKey: string): Promise<number> {
+    const { data, error } = await this.client.rpc('release_promotion_reservation', {
+      p_reservation_key: reservationKey,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return Number(data ?? 0);
+  }
+
+  async consumeReservations(orderId: string, userId: string, promotionIds: string[], reservationKey: string | null): Promise<number> {
+    const { data, error } = await this.client.rpc('consume_promotion_reservations', {
+      p_order_id: orderId,
+      p_user_id: userId,
+      p_promotion_ids: promotionIds,
+      p_reservation_key: reservationKey,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return Number(data ?? 0);
+  }
+}
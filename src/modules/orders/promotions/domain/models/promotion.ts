@@ -0,0 +1,268 @@
+import { z } from 'zod';
+
+export const PROMOTION_TYPES = ['percentage', 'fixed_amount', 'buy_x_get_y', 'tiered_spend', 'free_shipping'] as const;
+
+export type PromotionType = (typeof PROMOTION_TYPES)[number];
+
+/**
+ * Stores a promotion can run in: the main store, the affiliate stores and the store of network
+ * members (buyers with an active subscription)
+ */
+export const PROMOTION_STORES = ['main_store', 'affiliate_store', 'mlm_store'] as const;
+
+export type PromotionStore = (typeof PROMOTION_STORES)[number];
+
+const ProductIdsSchema = z.array(z.string().uuid()).max(200).default([]);
+
+const PercentageRulesSchema = z.object({
+  type: z.literal('percentage'),
+  percentOff: z.number().int().min(1).max(100),
+  /**
+   * Products the percentage applies to; empty for the whole cart
+   */
+  productIds: ProductIdsSchema,
+});
+
+const FixedAmountRulesSchema = z.object({
+  type: z.literal('fixed_amount'),
+  amountCents: z.number().int().positive(),
+});
+
+const BuyXGetYRulesSchema = z.object({
+  type: z.literal('buy_x_get_y'),
+  buyQuantity: z.number().int().min(1).max(100),
+  getQuantity: z.number().int().min(1).max(100),
+  /**
+   * Discount on the units got: 100 makes them free
+   */
+  percentOff: z.number().int().min(1).max(100).default(100),
+  /**
+   * Products that count for the offer; empty for every product
+   */
+  productIds: ProductIdsSchema,
+});
+
+const TieredSpendRulesSchema = z.object({
+  type: z.literal('tiered_spend'),
+  /**
+   * Amount off the cart from each subtotal; the highest tier reached applies
+   */
+  tiers: z
+    .array(
+      z.object({
+        minSubtotalCents: z.number().int().nonnegative(),
+        discountCents: z.number().int().positive(),
+      }),
+    )
+    .min(1)
+    .max(20),
+});
+
+const FreeShippingRulesSchema = z.object({
+  type: z.literal('free_shipping'),
+});
+
+export const PromotionRulesSchema = z.discriminatedUnion('type', [
+  PercentageRulesSchema,
+  FixedAmountRulesSchema,
+  BuyXGetYRulesSchema,
+  TieredSpendRulesSchema,
+  FreeShippingRulesSchema,
+]);
+
+export type PromotionRules = z.infer<typeof PromotionRulesSchema>;
+
+export const PromotionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /**
+   * Coupon code buyers enter at checkout; null for cart rules applied on their own
+   */
+  code: z.string().nullable(),
+  rules: PromotionRulesSchema,
+  stores: z.array(z.enum(PROMOTION_STORES)),
+  /**
+   * Cart subtotal, after product discounts, from which the promotion applies
+   */
+  minSubtotalCents: z.number().int().nullable(),
+  startsAt: z.string().nullable(),
+  /**
+   * Expiry: the promotion no longer applies from this moment
+   */
+  endsAt: z.string().nullable(),
+  /**
+   * Orders the promotion can be used on across all buyers: 1 makes a single-use coupon
+   */
+  usageLimit: z.number().int().nullable(),
+  perUserLimit: z.number().int().nullable(),
+  /**
+   * Whether the promotion combines with other stackable promotions of the cart
+   */
+  stackable: z.boolean(),
+  /**
+   * Whether the promotion applies to carts that also redeem a phase reward
+   */
+  combinesWithPhaseRewards: z.boolean(),
+  isActive: z.boolean(),
+  redemptionCount: z.number().int(),
+});
+
+export type Promotion = z.infer<typeof PromotionSchema>;
+
+export const normalizeCouponCode = (code: string | null | undefined) => (code ?? '').trim().toUpperCase();
+
+const NullableCentsSchema = z.number().int().nonnegative().nullable().optional();
+const NullableLimitSchema = z.number().int().positive().nullable().optional();
+const NullableDateSchema = z.string().datetime({ offset: true }).nullable().optional();
+
+export const PromotionInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    code: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9_-]{3,40}$/, 'Use 3 to 40 letters, digits, dashes or underscores')
+      .nullable()
+      .optional(),
+    rules: PromotionRulesSchema,
+    stores: z.array(z.enum(PROMOTION_STORES)).min(1),
+    minSubtotalCents: NullableCentsSchema,
+    startsAt: NullableDateSchema,
+    endsAt: NullableDateSchema,
+    usageLimit: NullableLimitSchema,
+    perUserLimit: NullableLimitSchema,
+    stackable: z.boolean().default(false),
+    combinesWithPhaseRewards: z.boolean().default(true),
+    isActive: z.boolean().default(true),
+  })
+  .refine((input) => !input.startsAt || !input.endsAt || new Date(input.endsAt) > new Date(input.startsAt), {
+    message: 'The promotion must end after it starts',
+    path: ['endsAt'],
+  });
+
+export type PromotionInput = z.infer<typeof PromotionInputSchema>;
+
+export const PromotionQuoteItemSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().int().positive(),
+  /**
+   * Unit price paid, after product discounts
+   */
+  priceCents: z.number().int().nonnegative(),
+});
+
+export type PromotionQuoteItem = z.infer<typeof PromotionQuoteItemSchema>;
+
+export const PromotionQuoteInputSchema = z.object({
+  couponCode: z.string().trim().max(40).nullable().optional(),
+  /**
+   * Store of the checkout. Network members buying in the main store get the promotions of the
+   * member store instead
+   */
+  store: z.enum(['main_store', 'affiliate_store']),
+  items: PromotionQuoteItemSchema.array().min(1).max(100),
+  shippingCents: z.number().int().nonnegative().default(0),
+  /**
+   * Phase reward redeemed on the cart
+   */
+  phaseRewardCents: z.number().int().nonnegative().default(0),
+});
+
+export type PromotionQuoteInput = z.infer<typeof PromotionQuoteInputSchema>;
+
+export const COUPON_STATUSES = ['applied', 'invalid', 'expired', 'not_applicable', 'limit_reached', 'not_combinable'] as const;
+
+export type CouponStatus = (typeof COUPON_STATUSES)[number];
+
+export const AppliedPromotionSchema = z.object({
+  promotionId: z.string(),
+  name: z.string(),
+  code: z.string().nullable(),
+  type: z.enum(PROMOTION_TYPES),
+  discountCents: z.number().int(),
+});
+
+export type AppliedPromotion = z.infer<typeof AppliedPromotionSchema>;
+
+export const PromotionQuoteSchema = z.object({
+  store: z.enum(PROMOTION_STORES),
+  /**
+   * Total taken off the checkout: cart discounts plus the shipping waived
+   */
+  discountCents: z.number().int(),
+  itemDiscountCents: z.number().int(),
+  shippingDiscountCents: z.number().int(),
+  applied: AppliedPromotionSchema.array(),
+  coupon: z.object({ code: z.string(), status: z.enum(COUPON_STATUSES) }).nullable(),
+});
+
+export type PromotionQuote = z.infer<typeof PromotionQuoteSchema>;
+
+export const PromotionsDictionarySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  refresh: z.string(),
+  add: z.string(),
+  edit: z.string(),
+  delete: z.string(),
+  save: z.string(),
+  saving: z.string(),
+  cancel: z.string(),
+  active: z.string(),
+  inactive: z.string(),
+  confirmDelete: z.string(),
+  empty: z.string(),
+  automatic: z.string(),
+  unlimited: z.string(),
+  fields: z.object({
+    name: z.string(),
+    code: z.string(),
+    codeHelper: z.string(),
+    type: z.string(),
+    stores: z.string(),
+    minSubtotal: z.string(),
+    startsAt: z.string(),
+    endsAt: z.string(),
+    usageLimit: z.string(),
+    usageLimitHelper: z.string(),
+    perUserLimit: z.string(),
+    stackable: z.string(),
+    stackableHelper: z.string(),
+    combinesWithPhaseRewards: z.string(),
+    percentOff: z.string(),
+    amount: z.string(),
+    productIds: z.string(),
+    productIdsHelper: z.string(),
+    buyQuantity: z.string(),
+    getQuantity: z.string(),
+    getPercentOff: z.string(),
+    tiers: z.string(),
+    tiersHelper: z.string(),
+    addTier: z.string(),
+    tierFrom: z.string(),
+    tierDiscount: z.string(),
+  }),
+  columns: z.object({
+    promotion: z.string(),
+    type: z.string(),
+    stores: z.string(),
+    validity: z.string(),
+    usage: z.string(),
+    status: z.string(),
+  }),
+  types: z.record(z.string(), z.string()),
+  storeLabels: z.record(z.string(), z.string()),
+  success: z.object({
+    saved: z.string(),
+    deleted: z.string(),
+  }),
+  error: z.object({
+    title: z.string(),
+    load: z.string(),
+    save: z.string(),
+    delete: z.string(),
+  }),
+});
+
+export type PromotionsDictionary = z.infer<typeof PromotionsDictionarySchema>;
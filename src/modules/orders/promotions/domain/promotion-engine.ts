@@ -0,0 +1,212 @@
+import {
+  normalizeCouponCode,
+  type AppliedPromotion,
+  type CouponStatus,
+  type Promotion,
+  type PromotionQuote,
+  type PromotionQuoteItem,
+  type PromotionStore,
+} from './models/promotion';
+
+/**
+ * Orders a promotion was used on, in total and by the buyer of the checkout
+ */
+export interface PromotionUsage {
+  total: number;
+  byUser: number;
+}
+
+export interface PromotionContext {
+  store: PromotionStore;
+  userId: string | null;
+  items: PromotionQuoteItem[];
+  shippingCents: number;
+  phaseRewardCents: number;
+  couponCode: string | null;
+  usage: Map<string, PromotionUsage>;
+  now: Date;
+  /**
+   * False when recording the promotions of a paid order: its limits were checked before payment
+   */
+  enforceLimits?: boolean;
+}
+
+interface PromotionDiscount {
+  itemCents: number;
+  shippingCents: number;
+}
+
+const lineCents = (item: PromotionQuoteItem) => item.priceCents * item.quantity;
+
+const cartSubtotal = (items: PromotionQuoteItem[]) => items.reduce((total, item) => total + lineCents(item), 0);
+
+const eligibleItems = (items: PromotionQuoteItem[], productIds: string[]) =>
+  productIds.length === 0 ? items : items.filter((item) => productIds.includes(item.productId));
+
+export const isPromotionLive = (promotion: Promotion, now: Date) =>
+  promotion.isActive &&
+  (!promotion.startsAt || new Date(promotion.startsAt) <= now) &&
+  (!promotion.endsAt || now < new Date(promotion.endsAt));
+
+/**
+ * Units of the offer sorted by price, most expensive first; in every group of buy + get units the
+ * cheapest ones are the units got, as stores usually do
+ */
+const buyXGetYDiscount = (items: PromotionQuoteItem[], buyQuantity: number, getQuantity: number, percentOff: number) => {
+  const unitPrices = items
+    .flatMap((item) => Array.from({ length: item.quantity }, () => item.priceCents))
+    .sort((left, right) => right - left);
+  const groupSize = buyQuantity + getQuantity;
+
+  let discount = 0;
+  for (let start = 0; start + groupSize <= unitPrices.length; start += groupSize) {
+    for (const price of unitPrices.slice(start + buyQuantity, start + groupSize)) {
+      discount += Math.round((price * percentOff) / 100);
+    }
+  }
+  return discount;
+};
+
+/**
+ * Discount of one promotion on the cart, before stacking and caps
+ */
+export const promotionDiscount = (promotion: Promotion, items: PromotionQuoteItem[], shippingCents: number): PromotionDiscount => {
+  const rules = promotion.rules;
+  const subtotal = cartSubtotal(items);
+
+  switch (rules.type) {
+    case 'percentage':
+      return {
+        itemCents: Math.round((cartSubtotal(eligibleItems(items, rules.productIds)) * rules.percentOff) / 100),
+        shippingCents: 0,
+      };
+    case 'fixed_amount':
+      return { itemCents: Math.min(rules.amountCents, subtotal), shippingCents: 0 };
+    case 'buy_x_get_y':
+      return {
+        itemCents: buyXGetYDiscount(eligibleItems(items, rules.productIds), rules.buyQuantity, rules.getQuantity, rules.percentOff),
+        shippingCents: 0,
+      };
+    case 'tiered_spend': {
+      const tier = rules.tiers
+        .filter((entry) => entry.minSubtotalCents <= subtotal)
+        .sort((left, right) => right.minSubtotalCents - left.minSubtotalCents)[0];
+      return { itemCents: tier ? Math.min(tier.discountCents, subtotal) : 0, shippingCents: 0 };
+    }
+    case 'free_shipping':
+      return { itemCents: 0, shippingCents };
+  }
+};
+
+/**
+ * Why a promotion does not apply to the checkout, or 'applied' when it does
+ */
+export const checkPromotion = (promotion: Promotion, context: PromotionContext): CouponStatus => {
+  if (!isPromotionLive(promotion, context.now)) {
+    return promotion.endsAt && new Date(promotion.endsAt) <= context.now ? 'expired' : 'invalid';
+  }
+
+  if (!promotion.stores.includes(context.store)) {
+    return 'not_applicable';
+  }
+
+  if (promotion.minSubtotalCents !== null && cartSubtotal(context.items) < promotion.minSubtotalCents) {
+    return 'not_applicable';
+  }
+
+  if (context.phaseRewardCents > 0 && !promotion.combinesWithPhaseRewards) {
+    return 'not_combinable';
+  }
+
+  if (context.enforceLimits !== false) {
+    const usage = context.usage.get(promotion.id) ?? { total: 0, byUser: 0 };
+    if (promotion.usageLimit !== null && usage.total >= promotion.usageLimit) {
+      return 'limit_reached';
+    }
+    if (promotion.perUserLimit !== null) {
+      // Per-buyer limits cannot be counted without a buyer
+      if (!context.userId) {
+        return 'not_applicable';
+      }
+      if (usage.byUser >= promotion.perUserLimit) {
+        return 'limit_reached';
+      }
+    }
+  }
+
+  const discount = promotionDiscount(promotion, context.items, context.shippingCents);
+  return discount.itemCents + discount.shippingCents > 0 ? 'applied' : 'not_applicable';
+};
+
+const totalOf = (entries: { discount: PromotionDiscount }[]) =>
+  entries.reduce((total, entry) => total + entry.discount.itemCents + entry.discount.shippingCents, 0);
+
+/**
+ * Promotions of a checkout and what they take off. A valid coupon always applies: alone when it
+ * is not stackable, with the stackable cart rules otherwise. Without a coupon, the stackable cart
+ * rules add up unless a single non-stackable rule saves more. Cart discounts never take the cart
+ * below zero after the phase reward, and shipping is waived once.
+ */
+export const evaluatePromotions = (promotions: Promotion[], context: PromotionContext): PromotionQuote => {
+  const couponCode = normalizeCouponCode(context.couponCode);
+  const candidates = promotions
+    .filter((promotion) => promotion.code === null && checkPromotion(promotion, context) === 'applied')
+    .map((promotion) => ({ promotion, discount: promotionDiscount(promotion, context.items, context.shippingCents) }));
+
+  let coupon: PromotionQuote['coupon'] = null;
+  let chosen = candidates;
+
+  if (couponCode) {
+    const couponPromotion = promotions.find((promotion) => promotion.code !== null && normalizeCouponCode(promotion.code) === couponCode);
+    const status = couponPromotion ? checkPromotion(couponPromotion, context) : 'invalid';
+    coupon = { code: couponCode, status };
+
+    if (couponPromotion && status === 'applied') {
+      const couponEntry = { promotion: couponPromotion, discount: promotionDiscount(couponPromotion, context.items, context.shippingCents) };
+      chosen = couponPromotion.stackable
+        ? [couponEntry, ...candidates.filter((entry) => entry.promotion.stackable)]
+        : [couponEntry];
+    }
+  }
+
+  if (!coupon || coupon.status !== 'applied') {
+    const stackable = candidates.filter((entry) => entry.promotion.stackable);
+    const bestSingle = candidates
+      .filter((entry) => !entry.promotion.stackable)
+      .sort((left, right) => totalOf([right]) - totalOf([left]))[0];
+    chosen = bestSingle && totalOf([bestSingle]) > totalOf(stackable) ? [bestSingle] : stackable;
+  }
+
+  let remainingItemCents = Math.max(0, cartSubtotal(context.items) - context.phaseRewardCents);
+  let remainingShippingCents = context.shippingCents;
+  const applied: AppliedPromotion[] = [];
+
+  for (const { promotion, discount } of chosen) {
+    const itemCents = Math.min(discount.itemCents, remainingItemCents);
+    const shippingCents = Math.min(discount.shippingCents, remainingShippingCents);
+    remainingItemCents -= itemCents;
+    remainingShippingCents -= shippingCents;
+
+    if (itemCents + shippingCents > 0) {
+      applied.push({
+        promotionId: promotion.id,
+        name: promotion.name,
+        code: promotion.code,
+        type: promotion.rules.type,
+        discountCents: itemCents + shippingCents,
+      });
+    }
+  }
+
+  const itemDiscountCents = Math.max(0, cartSubtotal(context.items) - context.phaseRewardCents) - remainingItemCents;
+  const shippingDiscountCents = context.shippingCents - remainingShippingCents;
+
+  return {
+    store: context.store,
+    discountCents: itemDiscountCents + shippingDiscountCents,
+    itemDiscountCents,
+    shippingDiscountCents,
+    applied,
+    coupon,
+  };
+};
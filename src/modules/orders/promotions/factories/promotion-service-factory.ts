@@ -0,0 +1,4 @@
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { PromotionService } from '../services/promotion-service';
+
+export const createPromotionService = () => new PromotionService(getSupabaseAdminClient());
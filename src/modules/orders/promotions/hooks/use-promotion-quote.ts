@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { PromotionQuote, PromotionQuoteItem } from '../domain/models/promotion';
+import { PromotionRepositoryFactory } from '../repositories/promotion-repository';
+
+const QUOTE_DEBOUNCE_MS = 400;
+
+interface UsePromotionQuoteOptions {
+  couponCode: string | null;
+  store: 'main_store' | 'affiliate_store';
+  items: PromotionQuoteItem[];
+  shippingCents: number;
+  phaseRewardCents: number;
+}
+
+interface UsePromotionQuoteResult {
+  quote: PromotionQuote | null;
+  /**
+   * Total taken off the checkout, shipping waived included
+   */
+  discountCents: number;
+  /**
+   * Coupon to send with the payment: only one the server accepted
+   */
+  appliedCouponCode: string | null;
+  isLoading: boolean;
+  error: string | null;
+  /**
+   * True while checkout must not be submitted: the quote is loading or failed
+   */
+  blocksCheckout: boolean;
+}
+
+/**
+ * Quotes the promotions of the cart and the coupon entered at checkout
+ */
+export function usePromotionQuote({
+  couponCode,
+  store,
+  items,
+  shippingCents,
+  phaseRewardCents,
+}: UsePromotionQuoteOptions): UsePromotionQuoteResult {
+  const repository = useMemo(() => PromotionRepositoryFactory.createForCheckout(), []);
+  const [quote, setQuote] = useState<PromotionQuote | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const code = couponCode?.trim().toUpperCase() || null;
+  // Serialized so a new array with the same contents does not quote again
+  const itemsKey = JSON.stringify(items);
+
+  useEffect(() => {
+    const quoteItems = JSON.parse(itemsKey) as PromotionQuoteItem[];
+
+    if (quoteItems.length === 0) {
+      setQuote(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let ignore = false;
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const nextQuote = await repository.quote({
+          couponCode: code,
+          store,
+          items: quoteItems,
+          shippingCents,
+          phaseRewardCents,
+        });
+        if (ignore) return;
+        setQuote(nextQuote);
+        setError(null);
+      } catch (quoteError) {
+        if (ignore) return;
+        console.error('[usePromotionQuote] quote failed', quoteError);
+        setQuote(null);
+        setError(quoteError instanceof Error ? quoteError.message : 'Failed to quote promotions.');
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      ignore = true;
+      clearTimeout(timer);
+    };
+  }, [repository, code, store, itemsKey, shippingCents, phaseRewardCents]);
+
+  return {
+    quote,
+    discountCents: quote?.discountCents ?? 0,
+    appliedCouponCode: quote?.coupon?.status === 'applied' ? quote.coupon.code : null,
+    isLoading,
+    error,
+    blocksCheckout: isLoading || error !== null,
+  };
+}
@@ -0,0 +1,132 @@
+import {
+  PromotionQuoteSchema,
+  PromotionSchema,
+  type Promotion,
+  type PromotionInput,
+  type PromotionQuote,
+  type PromotionQuoteInput,
+} from '../domain/models/promotion';
+import { adminApi } from '@/lib/utils/admin-csrf-helpers';
+
+export interface PromotionAdminRepository {
+  list(): Promise<Promotion[]>;
+  save(input: PromotionInput, id?: string | null): Promise<Promotion>;
+  remove(id: string): Promise<void>;
+}
+
+export interface PromotionQuoteRepository {
+  quote(input: PromotionQuoteInput): Promise<PromotionQuote>;
+}
+
+export class PromotionRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+  ) {
+    super(message);
+    this.name = 'PromotionRequestError';
+  }
+}
+
+const API_BASE = '/api/admin/promotions';
+
+const parseJson = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    console.error('[PromotionRepository] Failed to parse JSON', error, text);
+    throw new Error('Invalid server response.');
+  }
+};
+
+const toRequestError = async (response: Response, fallback: string) => {
+  const payload = await parseJson(response);
+  const message = typeof payload.error === 'string' ? payload.error : response.statusText;
+  return new PromotionRequestError(message || fallback, typeof payload.code === 'string' ? payload.code : null);
+};
+
+class HttpPromotionAdminRepository implements PromotionAdminRepository {
+  async list(): Promise<Promotion[]> {
+    const response = await fetch(API_BASE, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load promotions.');
+    }
+
+    const payload = await parseJson(response);
+    return PromotionSchema.array().parse(payload.promotions ?? []);
+  }
+
+  async save(input: PromotionInput, id?: string | null): Promise<Promotion> {
+    // ✅ SECURITY: Use adminApi to automatically include CSRF token
+    const response = id
+      ? await adminApi.put(`${API_BASE}/${encodeURIComponent(id)}`, input)
+      : await adminApi.post(API_BASE, input);
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to save promotion.');
+    }
+
+    const payload = await parseJson(response);
+    return PromotionSchema.parse(payload.promotion);
+  }
+
+  async remove(id: string): Promise<void> {
+    // ✅ SECURITY: Use adminApi.delete() to automatically include CSRF token
+    const response = await adminApi.delete(`${API_BASE}/${encodeURIComponent(id)}`);
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to delete.');
+    }
+  }
+}
+
+class HttpPromotionQuoteRepository implements PromotionQuoteRepository {
+  async quote(input: PromotionQuoteInput): Promise<PromotionQuote> {
+    const response = await fetch('/api/promotions/quote', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify(input),
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to quote promotions.');
+    }
+
+    const payload = await parseJson(response);
+    return PromotionQuoteSchema.parse(payload.quote);
+  }
+}
+
+class PromotionRepositoryFactoryImpl {
+  private adminInstance: PromotionAdminRepository | null = null;
+  private quoteInstance: PromotionQuoteRepository | null = null;
+
+  createForAdmin(): PromotionAdminRepository {
+    if (!this.adminInstance) {
+      this.adminInstance = new HttpPromotionAdminRepository();
+    }
+
+    return this.adminInstance;
+  }
+
+  createForCheckout(): PromotionQuoteRepository {
+    if (!this.quoteInstance) {
+      this.quoteInstance = new HttpPromotionQuoteRepository();
+    }
+
+    return this.quoteInstance;
+  }
+}
+
+export const PromotionRepositoryFactory = new PromotionRepositoryFactoryImpl();
+
+export { HttpPromotionAdminRepository, HttpPromotionQuoteRepository };
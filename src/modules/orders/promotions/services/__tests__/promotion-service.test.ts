@@ -0,0 +1,323 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PromotionService, PromotionError, readCheckoutPromotion, withCheckoutPromotion } from '../promotion-service';
+import type { Promotion, PromotionQuoteInput } from '../../domain/models/promotion';
+
+const repository = {
+  listActive: vi.fn(),
+  getUsage: vi.fn(),
+  isNetworkMember: vi.fn(),
+  insertRedemptions: vi.fn(),
+  reserve: vi.fn(),
+  release: vi.fn(),
+  consumeReservations: vi.fn(),
+};
+
+vi.mock('../../data/repositories/promotion-repository', () => ({
+  PromotionRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+const SHAKE_ID = '0b7f6a4e-8f8a-4a53-9c55-3f1a2b6c7d01';
+const BAR_ID = '0b7f6a4e-8f8a-4a53-9c55-3f1a2b6c7d02';
+const USER_ID = '5d1c2b3a-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+const buildPromotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 'promo-welcome',
+  name: 'Welcome',
+  code: 'WELCOME10',
+  rules: { type: 'percentage', percentOff: 10, productIds: [] },
+  stores: ['main_store', 'affiliate_store', 'mlm_store'],
+  minSubtotalCents: null,
+  startsAt: null,
+  endsAt: null,
+  usageLimit: null,
+  perUserLimit: null,
+  stackable: false,
+  combinesWithPhaseRewards: true,
+  isActive: true,
+  redemptionCount: 0,
+  ...overrides,
+});
+
+const quoteInput = (overrides: Partial<PromotionQuoteInput> = {}): PromotionQuoteInput => ({
+  couponCode: null,
+  store: 'main_store',
+  items: [
+    { productId: SHAKE_ID, quantity: 2, priceCents: 3000 },
+    { productId: BAR_ID, quantity: 1, priceCents: 1000 },
+  ],
+  shippingCents: 800,
+  phaseRewardCents: 0,
+  ...overrides,
+});
+
+describe('PromotionService', () => {
+  let service: PromotionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository.listActive.mockResolvedValue([]);
+    repository.getUsage.mockResolvedValue(new Map());
+    repository.isNetworkMember.mockResolvedValue(false);
+    service = new PromotionService({} as SupabaseClient);
+  });
+
+  describe('quote', () => {
+    it('applies a percentage coupon to the products it targets', async () => {
+      repository.listActive.mockResolvedValue([
+        buildPromotion({ rules: { type: 'percentage', percentOff: 10, productIds: [SHAKE_ID] } }),
+      ]);
+
+      const quote = await service.quote(quoteInput({ couponCode: ' welcome10 ' }), USER_ID);
+
+      expect(quote.coupon).toEqual({ code: 'WELCOME10', status: 'applied' });
+      expect(quote.discountCents).toBe(600);
+      expect(quote.applied).toEqual([
+        { promotionId: 'promo-welcome', name: 'Welcome', code: 'WELCOME10', type: 'percentage', discountCents: 600 },
+      ]);
+    });
+
+    it('gives the cheapest units of each buy X get Y group', async () => {
+      repository.listActive.mockResolvedValue([
+        buildPromotion({
+          id: 'promo-3x2',
+          code: null,
+          rules: { type: 'buy_x_get_y', buyQuantity: 2, getQuantity: 1, percentOff: 100, productIds: [] },
+        }),
+      ]);
+
+      const quote = await service.quote(quoteInput(), null);
+
+      expect(quote.itemDiscountCents).toBe(1000);
+    });
+
+    it('applies the highest spend tier reached and waives shipping once', async () => {
+      repository.listActive.mockResolvedValue([
+        buildPromotion({
+          id: 'promo-tiers',
+          code: null,
+          stackable: true,
+          rules: {
+            type: 'tiered_spend',
+            tiers: [
+              { minSubtotalCents: 5000, discountCents: 500 },
+              { minSubtotalCents: 7000, discountCents: 1000 },
+              { minSubtotalCents: 10000, discountCents: 2000 },
+            ],
+          },
+        }),
+        buildPromotion({ id: 'promo-ship', code: null, stackable: true, rules: { type: 'free_shipping' } }),
+        buildPromotion({ id: 'promo-ship-2', code: null, stackable: true, rules: { type: 'free_shipping' } }),
+      ]);
+
+      const quote = await service.quote(quoteInput(), null);
+
+      expect(quote).toMatchObject({ itemDiscountCents: 1000, shippingDiscountCents: 800, discountCents: 1800 });
+      expect(quote.applied.map((promotion) => promotion.promotionId)).toEqual(['promo-tiers', 'promo-ship']);
+    });
+
+    it('applies the best rule alone when it saves more than the stackable rules together', async () => {
+      repository.listActive.mockResolvedValue([
+        buildPromotion({ id: 'promo-big', code: null, rules: { type: 'fixed_amount', amountCents: 2000 } }),
+        buildPromotion({ id: 'promo-small', code: null, stackable: true, rules: { type: 'fixed_amount', amountCents: 500 } }),
+        buildPromotion({ id: 'promo-ship', code: null, stackable: true, rules: { type: 'free_shipping' } }),
+      ]);
+
+      const quote = await service.quote(quoteInput(), null);
+
+      expect(quote.applied.map((promotion) => promotion.promotionId)).toEqual(['promo-big']);
+      expect(quote.discountCents).toBe(2000);
+    });
+
+    it('stacks a stackable coupon with the stackable cart rules only', async () => {
+      repository.listActive.mockResolvedValue([
+        buildPromotion({ stackable: true, rules: { type: 'fixed_amount', amountCents: 1000 } }),
+        buildPromotion({ id: 'promo-ship', code: null, stackable: true, rules: { type: 'free_shipping' } }),
+        buildPromotion({ id: 'promo-alone', code: null, rules: { type: 'fixed_amount', amountCents: 5000 } }),
+      ]);
+
+      const quote = await service.quote(quoteInput({ couponCode: 'WELCOME10' }), USER_ID);
+
+      expect(quote.applied.map((promotion) => promotion.promotionId)).toEqual(['promo-welcome', 'promo-ship']);
+      expect(quote.discountCents).toBe(1800);
+    });
+
+    it('never takes the cart below zero after the phase reward', async () => {
+      repository.listActive.mockResolvedValue([buildPromotion({ rules: { type: 'fixed_amount', amountCents: 9000 } })]);
+
+      const quote = await service.quote(quoteInput({ couponCode: 'WELCOME10', phaseRewardCents: 4000 }), USER_ID);
+
+      expect(quote.itemDiscountCents).toBe(3000);
+    });
+
+    it('reports why a coupon does not apply', async () => {
+      const now = Date.now();
+      repository.listActive.mockResolvedValue([
+        buildPromotion({ id: 'expired', code: 'OLD', endsAt: new Date(now - 60_000).toISOString() }),
+        buildPromotion({ id: 'used', code: 'ONCE', usageLimit: 1 }),
+        buildPromotion({ id: 'members', code: 'MEMBERS', stores: ['mlm_store'] }),
+        buildPromotion({ id: 'solo', code: 'SOLO', combinesWithPhaseRewards: false }),
+        buildPromotion({ id: 'per-user', code: 'MINE', perUserLimit: 1 }),
+      ]);
+      repository.getUsage.mockResolvedValue(new Map([['used', { total: 1, byUser: 0 }]]));
+
+      const statusOf = async (couponCode: string, userId: string | null = USER_ID) =>
+        (await service.quote(quoteInput({ couponCode, phaseRewardCents: couponCode === 'SOLO' ? 500 : 0 }), userId)).coupon?.status;
+
+      expect(await statusOf('OLD')).toBe('expired');
+      expect(await statusOf('ONCE')).toBe('limit_reached');
+      expect(await statusOf('MEMBERS')).toBe('not_applicable');
+      expect(await statusOf('SOLO')).toBe('not_combinable');
+      expect(await statusOf('MINE', null)).toBe('not_applicable');
+      expect(await statusOf('NOPE')).toBe('invalid');
+    });
+
+    it('runs member store promotions for network members outside affiliate stores', async () => {
+      repository.isNetworkMember.mockResolvedValue(true);
+      repository.listActive.mockResolvedValue([buildPromotion({ code: 'MEMBERS', stores: ['mlm_store'] })]);
+
+      const memberQuote = await service.quote(quoteInput({ couponCode: 'MEMBERS' }), USER_ID);
+      const affiliateQuote = await service.quote(quoteInput({ couponCode: 'MEMBERS', store: 'affiliate_store' }), USER_ID);
+
+      expect(memberQuote).toMatchObject({ store: 'mlm_store', coupon: { status: 'applied' } });
+      expect(affiliateQuote).toMatchObject({ store: 'affiliate_store', coupon: { status: 'not_applicable' } });
+    });
+  });
+
+  describe('resolveCheckoutPromotion', () => {
+    const cartItems = [{ productId: SHAKE_ID, productName: 'Shake', quantity: 2, priceCents: 3000 }];
+
+    beforeEach(() => {
+      repository.listActive.mockResolvedValue([buildPromotion()]);
+    });
+
+    it('returns the promotions that match a fresh evaluation', async () => {
+      const promotion = await service.resolveCheckoutPromotion({
+        metadata: { couponCode: 'welcome10', promotionDiscountCents: '600', promotionIds: 'promo-welcome' },
+        cartItems,
+        userId: USER_ID,
+        shippingCents: 0,
+      });
+
+      expect(promotion).toEqual({
+        couponCode: 'WELCOME10',
+        discountCents: 600,
+        promotionIds: ['promo-welcome'],
+        reservationKey: expect.stringMatching(/^promo_/),
+      });
+      expect(repository.reserve).toHaveBeenCalledWith(promotion?.reservationKey, USER_ID, ['promo-welcome'], 35 * 60);
+    });
+
+    it('rejects a coupon whose last use another checkout reserved first', async () => {
+      repository.listActive.mockResolvedValue([buildPromotion({ usageLimit: 1 })]);
+      repository.reserve.mockRejectedValue({ message: 'promotion_limit_reached: promo-welcome' });
+
+      await expect(
+        service.resolveCheckoutPromotion({
+          metadata: { couponCode: 'WELCOME10', promotionDiscountCents: 600 },
+          cartItems,
+          userId: USER_ID,
+          shippingCents: 0,
+        }),
+      ).rejects.toMatchObject({ code: 'COUPON_REJECTED', message: 'This coupon has already been used' });
+    });
+
+    it('rejects a discount that does not match the evaluation', async () => {
+      await expect(
+        service.resolveCheckoutPromotion({
+          metadata: { couponCode: 'WELCOME10', promotionDiscountCents: 6000 },
+          cartItems,
+          userId: USER_ID,
+          shippingCents: 0,
+        }),
+      ).rejects.toMatchObject({ code: 'PROMOTION_AMOUNT_MISMATCH' });
+      expect(repository.reserve).not.toHaveBeenCalled();
+    });
+
+    it('rejects a coupon that no longer applies', async () => {
+      repository.getUsage.mockResolvedValue(new Map([['promo-welcome', { total: 0, byUser: 1 }]]));
+      repository.listActive.mockResolvedValue([buildPromotion({ perUserLimit: 1 })]);
+
+      const promise = service.resolveCheckoutPromotion({
+        metadata: { couponCode: 'WELCOME10', promotionDiscountCents: 600 },
+        cartItems,
+        userId: USER_ID,
+        shippingCents: 0,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(PromotionError);
+      await expect(promise).rejects.toMatchObject({ code: 'COUPON_REJECTED' });
+    });
+  });
+
+  describe('recordOrderPromotions', () => {
+    it('records the promotions the payment was verified with, without checking limits again', async () => {
+      repository.listActive.mockResolvedValue([
+        buildPromotion({ usageLimit: 1, stackable: true }),
+        buildPromotion({ id: 'promo-ship', code: null, stackable: true, rules: { type: 'free_shipping' } }),
+      ]);
+
+      const applied = await service.recordOrderPromotions(
+        'order-1',
+        USER_ID,
+        {
+          couponCode: 'WELCOME10',
+          promotionDiscountCents: '1400',
+          promotionIds: 'promo-welcome,promo-ship',
+          promotionReservationKey: 'promo_checkout-1',
+          shippingCents: '800',
+        },
+        [{ productId: SHAKE_ID, quantity: 2, priceCents: 3000 }],
+      );
+
+      expect(repository.getUsage).not.toHaveBeenCalled();
+      expect(applied.map((promotion) => [promotion.promotionId, promotion.discountCents])).toEqual([
+        ['promo-welcome', 600],
+        ['promo-ship', 800],
+      ]);
+      expect(repository.insertRedemptions).toHaveBeenCalledWith('order-1', USER_ID, applied);
+      expect(repository.consumeReservations).toHaveBeenCalledWith('order-1', USER_ID, ['promo-welcome', 'promo-ship'], 'promo_checkout-1');
+    });
+
+    it('records nothing for orders paid without promotions', async () => {
+      const applied = await service.recordOrderPromotions('order-1', USER_ID, {}, [{ productId: SHAKE_ID, quantity: 1, priceCents: 3000 }]);
+
+      expect(applied).toEqual([]);
+      expect(repository.listActive).not.toHaveBeenCalled();
+      expect(repository.consumeReservations).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('never throws, since reservations expire on their own', async () => {
+      repository.release.mockRejectedValue(new Error('connection reset'));
+
+      await expect(service.release('promo_checkout-1')).resolves.toBe(0);
+      await expect(service.release(null)).resolves.toBe(0);
+      expect(repository.release).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('checkout promotion metadata', () => {
+  it('reads the promotions back from gateway strings', () => {
+    expect(readCheckoutPromotion({ couponCode: 'summer', promotionDiscountCents: '250', promotionIds: 'a,b' })).toEqual({
+      couponCode: 'SUMMER',
+      discountCents: 250,
+      promotionIds: ['a', 'b'],
+    });
+  });
+
+  it('replaces the promotion keys sent by the client with the verified promotions', () => {
+    const metadata = { intent: 'checkout', couponCode: 'FAKE', promotionDiscountCents: 9999, promotionIds: 'x', promotionReservationKey: 'promo_other' };
+
+    expect(withCheckoutPromotion(metadata, { couponCode: null, discountCents: 500, promotionIds: ['promo-1'] })).toEqual({
+      intent: 'checkout',
+      promotionDiscountCents: 500,
+      promotionIds: 'promo-1',
+    });
+    expect(withCheckoutPromotion(metadata, null)).toEqual({ intent: 'checkout' });
+  });
+});
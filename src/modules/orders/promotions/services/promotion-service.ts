@@ -0,0 +1,347 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PromotionRepository } from '../data/repositories/promotion-repository';
+import { evaluatePromotions } from '../domain/promotion-engine';
+import {
+  normalizeCouponCode,
+  type AppliedPromotion,
+  type CouponStatus,
+  type Promotion,
+  type PromotionInput,
+  type PromotionQuote,
+  type PromotionQuoteInput,
+  type PromotionQuoteItem,
+  type PromotionStore,
+} from '../domain/models/promotion';
+import { readCheckoutShipping } from '../../shipping/services/shipping-rate-service';
+import { STOCK_RESERVATION_TTL_SECONDS } from '@/modules/products/services/stock-service';
+
+export type PromotionErrorCode = 'PROMOTION_NOT_FOUND' | 'COUPON_CODE_TAKEN' | 'COUPON_REJECTED' | 'PROMOTION_AMOUNT_MISMATCH';
+
+export class PromotionError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PromotionErrorCode,
+  ) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+/**
+ * HTTP status of each error, shared by the admin promotion routes and the checkout routes
+ */
+export const PROMOTION_ERROR_STATUS: Record<PromotionErrorCode, number> = {
+  PROMOTION_NOT_FOUND: 404,
+  COUPON_CODE_TAKEN: 409,
+  COUPON_REJECTED: 409,
+  PROMOTION_AMOUNT_MISMATCH: 409,
+};
+
+const COUPON_REJECTION_MESSAGES: Record<Exclude<CouponStatus, 'applied'>, string> = {
+  invalid: 'This coupon code is not valid',
+  expired: 'This coupon has expired',
+  not_applicable: 'This coupon does not apply to your order',
+  limit_reached: 'This coupon has already been used',
+  not_combinable: 'This coupon cannot be combined with your phase reward',
+};
+
+/**
+ * How long a checkout holds the uses of its limited promotions: as long as it holds its stock, so
+ * an abandoned checkout frees both when it expires
+ */
+export const PROMOTION_RESERVATION_TTL_SECONDS = STOCK_RESERVATION_TTL_SECONDS;
+
+/**
+ * Promotions of a checkout, as stored in the payment metadata
+ */
+export interface CheckoutPromotion {
+  couponCode: string | null;
+  discountCents: number;
+  promotionIds: string[];
+  /** Key of the reservation holding the uses of the promotions until the checkout is paid */
+  reservationKey?: string | null;
+}
+
+const readCents = (value: unknown) => {
+  const cents = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof cents === 'number' && Number.isInteger(cents) && cents >= 0 ? cents : null;
+};
+
+/**
+ * Promotions of a checkout from its payment metadata. Gateways hand the metadata back as strings,
+ * so the applied promotions travel as a comma separated list
+ */
+export function readCheckoutPromotion(metadata: Record<string, unknown> | null | undefined): Partial<CheckoutPromotion> {
+  const couponCode = normalizeCouponCode(typeof metadata?.couponCode === 'string' ? metadata.couponCode : null);
+  const promotionIds = typeof metadata?.promotionIds === 'string' ? metadata.promotionIds.split(',').filter(Boolean) : undefined;
+  const reservationKey = typeof metadata?.promotionReservationKey === 'string' ? metadata.promotionReservationKey : null;
+
+  return {
+    couponCode: couponCode || undefined,
+    discountCents: readCents(metadata?.promotionDiscountCents) ?? undefined,
+    promotionIds,
+    reservationKey: reservationKey || undefined,
+  };
+}
+
+/**
+ * Payment metadata keys of the promotions verified for a checkout
+ */
+export function toCheckoutPromotionMetadata(promotion: CheckoutPromotion): Record<string, string | number> {
+  return {
+    ...(promotion.couponCode ? { couponCode: promotion.couponCode } : {}),
+    promotionDiscountCents: promotion.discountCents,
+    promotionIds: promotion.promotionIds.join(','),
+    ...(promotion.reservationKey ? { promotionReservationKey: promotion.reservationKey } : {}),
+  };
+}
+
+const CHECKOUT_PROMOTION_KEYS = ['couponCode', 'promotionDiscountCents', 'promotionIds', 'promotionReservationKey'];
+
+/**
+ * Payment metadata with the promotion keys sent by the client replaced by the verified
+ * promotions, or removed when none applies
+ */
+export function withCheckoutPromotion(
+  metadata: Record<string, unknown>,
+  promotion: CheckoutPromotion | null,
+): Record<string, unknown> {
+  const rest = Object.fromEntries(Object.entries(metadata).filter(([key]) => !CHECKOUT_PROMOTION_KEYS.includes(key)));
+  return promotion ? { ...rest, ...toCheckoutPromotionMetadata(promotion) } : rest;
+}
+
+const toQuoteItems = (cartItems: unknown): PromotionQuoteItem[] => {
+  if (!Array.isArray(cartItems)) {
+    return [];
+  }
+
+  return cartItems
+    .filter((item): item is Record<string, unknown> => Boolean(item && typeof item === 'object'))
+    .filter((item) => typeof item.productId === 'string')
+    .map((item) => ({
+      productId: item.productId as string,
+      quantity: Number(item.quantity) || 0,
+      priceCents: Number(item.priceCents) || 0,
+    }))
+    .filter((item) => item.quantity > 0);
+};
+
+const toCodeError = (error: unknown) =>
+  (error as { code?: string } | null)?.code === '23505'
+    ? new PromotionError('A promotion with this coupon code already exists', 'COUPON_CODE_TAKEN')
+    : error;
+
+const isAffiliateCheckout = (metadata: Record<string, unknown> | null | undefined) =>
+  Boolean(metadata?.affiliateId) || metadata?.saleChannel === 'affiliate_store';
+
+const isLimitReached = (error: unknown) =>
+  ((error as { message?: string } | null)?.message ?? '').includes('promotion_limit_reached');
+
+/**
+ * Coupon codes and cart rules (percentages, fixed amounts, buy X get Y, spend tiers and free
+ * shipping) scoped to the main, affiliate and member stores. Checkout routes verify the discount
+ * sent by the client against a fresh evaluation and reserve the uses of promotions with limits, so
+ * concurrent checkouts cannot go over them; paid orders keep the promotions they used and consume
+ * the reservation.
+ */
+export class PromotionService {
+  private readonly repository: PromotionRepository;
+
+  constructor(client: SupabaseClient) {
+    this.repository = new PromotionRepository(client);
+  }
+
+  list(): Promise<Promotion[]> {
+    return this.repository.list();
+  }
+
+  async create(input: PromotionInput): Promise<Promotion> {
+    try {
+      return await this.repository.create(input);
+    } catch (error) {
+      throw toCodeError(error);
+    }
+  }
+
+  async update(id: string, input: PromotionInput): Promise<Promotion> {
+    let promotion: Promotion | null;
+    try {
+      promotion = await this.repository.update(id, input);
+    } catch (error) {
+      throw toCodeError(error);
+    }
+
+    if (!promotion) {
+      throw new PromotionError('Promotion not found', 'PROMOTION_NOT_FOUND');
+    }
+    return promotion;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.repository.remove(id))) {
+      throw new PromotionError('Promotion not found', 'PROMOTION_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Store the buyer shops in: network members buying outside an affiliate store get the member
+   * store
+   */
+  async resolveStore(store: 'main_store' | 'affiliate_store', userId: string | null): Promise<PromotionStore> {
+    if (store === 'affiliate_store' || !userId) {
+      return store;
+    }
+
+    return (await this.repository.isNetworkMember(userId)) ? 'mlm_store' : 'main_store';
+  }
+
+  /**
+   * Promotions of a cart and the discount they give. A coupon that does not apply is reported in
+   * the quote rather than thrown, so checkout can tell the buyer why
+   */
+  async quote(
+    input: PromotionQuoteInput,
+    userId: string | null,
+    options: { enforceLimits?: boolean } = {},
+  ): Promise<PromotionQuote> {
+    const [store, promotions] = await Promise.all([this.resolveStore(input.store, userId), this.repository.listActive()]);
+    const usage =
+      options.enforceLimits === false ? new Map() : await this.repository.getUsage(promotions.map((promotion) => promotion.id), userId);
+
+    return evaluatePromotions(promotions, {
+      store,
+      userId,
+      items: input.items,
+      shippingCents: input.shippingCents,
+      phaseRewardCents: input.phaseRewardCents,
+      couponCode: input.couponCode ?? null,
+      usage,
+      now: new Date(),
+      enforceLimits: options.enforceLimits,
+    });
+  }
+
+  /**
+   * Verifies the promotion discount a checkout sends in its payment metadata against a fresh
+   * evaluation of its cart and reserves the promotions until the checkout expires. `shippingCents`
+   * is the shipping verified for the checkout, which free shipping promotions waive. Returns null
+   * when no promotion applies.
+   */
+  async resolveCheckoutPromotion(input: {
+    metadata: Record<string, unknown> | null | undefined;
+    cartItems: unknown;
+    userId: string | null;
+    shippingCents: number;
+  }): Promise<CheckoutPromotion | null> {
+    const requested = readCheckoutPromotion(input.metadata);
+    const items = toQuoteItems(input.cartItems);
+    if (items.length === 0 && !requested.couponCode && !requested.discountCents) {
+      return null;
+    }
+
+    const quote = await this.quote(
+      {
+        couponCode: requested.couponCode ?? null,
+        store: isAffiliateCheckout(input.metadata) ? 'affiliate_store' : 'main_store',
+        items,
+        shippingCents: input.shippingCents,
+        phaseRewardCents: readCents(input.metadata?.phaseRewardDiscountCents) ?? 0,
+      },
+      input.userId,
+    );
+
+    if (quote.coupon && quote.coupon.status !== 'applied') {
+      throw new PromotionError(COUPON_REJECTION_MESSAGES[quote.coupon.status], 'COUPON_REJECTED');
+    }
+
+    if ((requested.discountCents ?? 0) !== quote.discountCents) {
+      throw new PromotionError('The promotions changed, please review your order', 'PROMOTION_AMOUNT_MISMATCH');
+    }
+
+    if (quote.discountCents === 0) {
+      return null;
+    }
+
+    // The quote counted the uses without a lock; the reservation counts them again under one
+    const promotionIds = quote.applied.map((promotion) => promotion.promotionId);
+    const reservationKey = `promo_${randomUUID()}`;
+    try {
+      await this.repository.reserve(reservationKey, input.userId, promotionIds, PROMOTION_RESERVATION_TTL_SECONDS);
+    } catch (error) {
+      if (isLimitReached(error)) {
+        throw new PromotionError(COUPON_REJECTION_MESSAGES.limit_reached, 'COUPON_REJECTED');
+      }
+      throw error;
+    }
+
+    return {
+      couponCode: quote.coupon?.code ?? null,
+      discountCents: quote.discountCents,
+      promotionIds,
+      reservationKey,
+    };
+  }
+
+  /**
+   * Frees the promotions held by a failed or abandoned checkout. Never throws: reservations
+   * expire on their own, so a failed release only delays the promotion becoming available again.
+   */
+  async release(reservationKey: string | null | undefined): Promise<number> {
+    if (!reservationKey) {
+      return 0;
+    }
+
+    try {
+      return await this.repository.release(reservationKey);
+    } catch (error) {
+      console.error(`[PromotionService] Failed to release checkout ${reservationKey}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Keeps the promotions a paid order used, which count towards their usage limits, and consumes
+   * the reservation of its checkout. Limits are not checked again: the payment went through with
+   * them. Returns the promotions recorded.
+   */
+  async recordOrderPromotions(
+    orderId: string,
+    userId: string,
+    metadata: Record<string, unknown>,
+    cartItems: unknown,
+  ): Promise<AppliedPromotion[]> {
+    const checkout = readCheckoutPromotion(metadata);
+    const items = toQuoteItems(cartItems);
+    if (!checkout.discountCents || items.length === 0) {
+      return [];
+    }
+
+    const quote = await this.quote(
+      {
+        couponCode: checkout.couponCode ?? null,
+        store: isAffiliateCheckout(metadata) ? 'affiliate_store' : 'main_store',
+        items,
+        shippingCents: readCheckoutShipping(metadata).amountCents ?? 0,
+        phaseRewardCents: readCents(metadata.phaseRewardDiscountCents) ?? 0,
+      },
+      userId,
+      { enforceLimits: false },
+    );
+
+    // Only the promotions the payment was verified with
+    const applied = checkout.promotionIds
+      ? quote.applied.filter((promotion) => checkout.promotionIds?.includes(promotion.promotionId))
+      : quote.applied;
+    await this.repository.insertRedemptions(orderId, userId, applied);
+    if (applied.length > 0) {
+      await this.repository.consumeReservations(
+        orderId,
+        userId,
+        applied.map((promotion) => promotion.promotionId),
+        checkout.reservationKey ?? null,
+      );
+    }
+    return applied;
+  }
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, type KeyboardEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { CouponStatus, PromotionQuote } from '../domain/models/promotion';
+
+export interface CheckoutCouponFieldCopy {
+  couponLabel: string;
+  couponPlaceholder: string;
+  couponApply: string;
+  couponRemove: string;
+  couponStatus: Record<CouponStatus, string>;
+  promotionQuoteError: string;
+}
+
+interface CheckoutCouponFieldProps {
+  copy: CheckoutCouponFieldCopy;
+  quote: PromotionQuote | null;
+  /**
+   * Coupon entered by the buyer, accepted or not
+   */
+  couponCode: string | null;
+  isLoading: boolean;
+  error: string | null;
+  disabled?: boolean;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+}
+
+/**
+ * Coupon code input of the checkout summary, with the outcome of the last code entered
+ */
+export function CheckoutCouponField({ copy, quote, couponCode, isLoading, error, disabled, onApply, onRemove }: CheckoutCouponFieldProps) {
+  const [value, setValue] = useState(couponCode ?? '');
+  const status = couponCode && !isLoading && quote?.coupon?.code === couponCode.trim().toUpperCase() ? quote.coupon.status : null;
+
+  const apply = () => {
+    const code = value.trim();
+    if (code) {
+      onApply(code);
+    }
+  };
+
+  // The field sits inside the checkout form: Enter applies the coupon instead of paying
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      apply();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="checkout-coupon" className="text-sm font-medium">
+        {copy.couponLabel}
+      </label>
+      <div className="flex gap-2">
+        <Input
+          id="checkout-coupon"
+          value={value}
+          placeholder={copy.couponPlaceholder}
+          autoComplete="off"
+          className="uppercase"
+          onChange={(event) => setValue(event.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+        />
+        {couponCode ? (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => {
+              setValue('');
+              onRemove();
+            }}
+            disabled={disabled}
+          >
+            {copy.couponRemove}
+          </Button>
+        ) : (
+          <Button type="button" variant="outline" onClick={apply} disabled={disabled || !value.trim()}>
+            {copy.couponApply}
+          </Button>
+        )}
+      </div>
+      {error ? (
+        <p className="text-sm text-destructive">{copy.promotionQuoteError}</p>
+      ) : status ? (
+        <p className={`text-sm ${status === 'applied' ? 'text-emerald-600 dark:text-emerald-400' : 'text-destructive'}`}>
+          {copy.couponStatus[status]}
+        </p>
+      ) : null}
+    </div>
+  );
+}
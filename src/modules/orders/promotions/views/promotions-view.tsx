@@ -0,0 +1,625 @@
+'use client';
+
+import { useState, type FormEvent, type ReactNode } from 'react';
+import {
+  PROMOTION_STORES,
+  PROMOTION_TYPES,
+  type Promotion,
+  type PromotionInput,
+  type PromotionRules,
+  type PromotionStore,
+  type PromotionType,
+  type PromotionsDictionary,
+} from '../domain/models/promotion';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface PromotionsViewProps {
+  dictionary: PromotionsDictionary;
+  promotions: Promotion[];
+  loading: boolean;
+  error: string | null;
+  submitting: boolean;
+  onRefresh: () => void;
+  onSave: (input: PromotionInput, id: string | null) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+interface TierForm {
+  from: string;
+  discount: string;
+}
+
+interface PromotionForm {
+  id: string | null;
+  name: string;
+  code: string;
+  type: PromotionType;
+  stores: PromotionStore[];
+  minSubtotal: string;
+  startsAt: string;
+  endsAt: string;
+  usageLimit: string;
+  perUserLimit: string;
+  stackable: boolean;
+  combinesWithPhaseRewards: boolean;
+  isActive: boolean;
+  percentOff: string;
+  amount: string;
+  productIds: string;
+  buyQuantity: string;
+  getQuantity: string;
+  getPercentOff: string;
+  tiers: TierForm[];
+}
+
+const formatAmount = (cents: number) => (cents / 100).toFixed(2);
+
+const toCents = (value: string) => (value.trim() ? Math.round(Number(value) * 100) : null);
+
+const toInteger = (value: string) => (value.trim() ? Math.round(Number(value)) : null);
+
+const toProductIds = (value: string) =>
+  value
+    .split(/[\s,;]+/)
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+/**
+ * Date as the value of a datetime-local input, in the admin's time zone
+ */
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+const toIsoDate = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toPromotionForm = (promotion?: Promotion): PromotionForm => {
+  const rules = promotion?.rules;
+  return {
+    id: promotion?.id ?? null,
+    name: promotion?.name ?? '',
+    code: promotion?.code ?? '',
+    type: rules?.type ?? PROMOTION_TYPES[0],
+    stores: promotion?.stores ?? [...PROMOTION_STORES],
+    minSubtotal: promotion?.minSubtotalCents != null ? formatAmount(promotion.minSubtotalCents) : '',
+    startsAt: toLocalInput(promotion?.startsAt ?? null),
+    endsAt: toLocalInput(promotion?.endsAt ?? null),
+    usageLimit: promotion?.usageLimit != null ? String(promotion.usageLimit) : '',
+    perUserLimit: promotion?.perUserLimit != null ? String(promotion.perUserLimit) : '',
+    stackable: promotion?.stackable ?? false,
+    combinesWithPhaseRewards: promotion?.combinesWithPhaseRewards ?? true,
+    isActive: promotion?.isActive ?? true,
+    percentOff: rules?.type === 'percentage' ? String(rules.percentOff) : '',
+    amount: rules?.type === 'fixed_amount' ? formatAmount(rules.amountCents) : '',
+    productIds: rules?.type === 'percentage' || rules?.type === 'buy_x_get_y' ? rules.productIds.join('\n') : '',
+    buyQuantity: rules?.type === 'buy_x_get_y' ? String(rules.buyQuantity) : '2',
+    getQuantity: rules?.type === 'buy_x_get_y' ? String(rules.getQuantity) : '1',
+    getPercentOff: rules?.type === 'buy_x_get_y' ? String(rules.percentOff) : '100',
+    tiers:
+      rules?.type === 'tiered_spend'
+        ? rules.tiers.map((tier) => ({ from: formatAmount(tier.minSubtotalCents), discount: formatAmount(tier.discountCents) }))
+        : [{ from: '', discount: '' }],
+  };
+};
+
+const toRules = (form: PromotionForm): PromotionRules => {
+  switch (form.type) {
+    case 'percentage':
+      return { type: 'percentage', percentOff: toInteger(form.percentOff) ?? 0, productIds: toProductIds(form.productIds) };
+    case 'fixed_amount':
+      return { type: 'fixed_amount', amountCents: toCents(form.amount) ?? 0 };
+    case 'buy_x_get_y':
+      return {
+        type: 'buy_x_get_y',
+        buyQuantity: toInteger(form.buyQuantity) ?? 0,
+        getQuantity: toInteger(form.getQuantity) ?? 0,
+        percentOff: toInteger(form.getPercentOff) ?? 100,
+        productIds: toProductIds(form.productIds),
+      };
+    case 'tiered_spend':
+      return {
+        type: 'tiered_spend',
+        tiers: form.tiers
+          .filter((tier) => tier.from.trim() && tier.discount.trim())
+          .map((tier) => ({ minSubtotalCents: toCents(tier.from) ?? 0, discountCents: toCents(tier.discount) ?? 0 })),
+      };
+    case 'free_shipping':
+      return { type: 'free_shipping' };
+  }
+};
+
+const toPromotionInput = (form: PromotionForm): PromotionInput => ({
+  name: form.name.trim(),
+  code: form.code.trim().toUpperCase() || null,
+  rules: toRules(form),
+  stores: form.stores,
+  minSubtotalCents: toCents(form.minSubtotal),
+  startsAt: toIsoDate(form.startsAt),
+  endsAt: toIsoDate(form.endsAt),
+  usageLimit: toInteger(form.usageLimit),
+  perUserLimit: toInteger(form.perUserLimit),
+  stackable: form.stackable,
+  combinesWithPhaseRewards: form.combinesWithPhaseRewards,
+  isActive: form.isActive,
+});
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+function Field({ id, label, helper, children }: { id?: string; label: string; helper?: string; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor={id}>
+        {label}
+      </label>
+      {children}
+      {helper && <p className="text-xs text-zinc-500 dark:text-zinc-400">{helper}</p>}
+    </div>
+  );
+}
+
+/**
+ * Coupon codes and automatic cart rules, with the stores they run in, their validity, usage limits
+ * and how they stack
+ */
+export function PromotionsView({
+  dictionary,
+  promotions,
+  loading,
+  error,
+  submitting,
+  onRefresh,
+  onSave,
+  onDelete,
+}: PromotionsViewProps) {
+  const { toast } = useToast();
+
+  const [form, setForm] = useState<PromotionForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fields = dictionary.fields;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) return;
+
+    setFormError(null);
+    try {
+      await onSave(toPromotionInput(form), form.id);
+      toast({ title: dictionary.success.saved });
+      setForm(null);
+    } catch (saveError) {
+      setFormError(saveError instanceof Error ? saveError.message : dictionary.error.save);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm(dictionary.confirmDelete)) return;
+
+    try {
+      await onDelete(id);
+      toast({ title: dictionary.success.deleted });
+    } catch (deleteError) {
+      toast({
+        title: dictionary.error.delete,
+        description: deleteError instanceof Error ? deleteError.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const open = (promotion?: Promotion) => {
+    setFormError(null);
+    setForm(toPromotionForm(promotion));
+  };
+
+  const toggleStore = (store: PromotionStore, checked: boolean) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      stores: checked ? [...form.stores, store] : form.stores.filter((entry) => entry !== store),
+    });
+  };
+
+  const updateTier = (index: number, tier: TierForm) => {
+    if (!form) return;
+    setForm({ ...form, tiers: form.tiers.map((entry, position) => (position === index ? tier : entry)) });
+  };
+
+  const validity = (promotion: Promotion) => {
+    if (!promotion.startsAt && !promotion.endsAt) return '—';
+    return `${promotion.startsAt ? formatDate(promotion.startsAt) : '…'} – ${promotion.endsAt ? formatDate(promotion.endsAt) : '…'}`;
+  };
+
+  const productIdsField = (
+    <Field id="promotion-product-ids" label={fields.productIds} helper={fields.productIdsHelper}>
+      <Textarea
+        id="promotion-product-ids"
+        rows={3}
+        className="font-mono text-xs"
+        value={form?.productIds ?? ''}
+        onChange={(event) => form && setForm({ ...form, productIds: event.target.value })}
+      />
+    </Field>
+  );
+
+  const ruleFields = () => {
+    if (!form) return null;
+
+    switch (form.type) {
+      case 'percentage':
+        return (
+          <>
+            <Field id="promotion-percent" label={fields.percentOff}>
+              <Input
+                id="promotion-percent"
+                type="number"
+                min={1}
+                max={100}
+                value={form.percentOff}
+                onChange={(event) => setForm({ ...form, percentOff: event.target.value })}
+                required
+              />
+            </Field>
+            {productIdsField}
+          </>
+        );
+      case 'fixed_amount':
+        return (
+          <Field id="promotion-amount" label={fields.amount}>
+            <Input
+              id="promotion-amount"
+              type="number"
+              step="0.01"
+              min={0.01}
+              value={form.amount}
+              onChange={(event) => setForm({ ...form, amount: event.target.value })}
+              required
+            />
+          </Field>
+        );
+      case 'buy_x_get_y':
+        return (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <Field id="promotion-buy" label={fields.buyQuantity}>
+                <Input
+                  id="promotion-buy"
+                  type="number"
+                  min={1}
+                  value={form.buyQuantity}
+                  onChange={(event) => setForm({ ...form, buyQuantity: event.target.value })}
+                  required
+                />
+              </Field>
+              <Field id="promotion-get" label={fields.getQuantity}>
+                <Input
+                  id="promotion-get"
+                  type="number"
+                  min={1}
+                  value={form.getQuantity}
+                  onChange={(event) => setForm({ ...form, getQuantity: event.target.value })}
+                  required
+                />
+              </Field>
+              <Field id="promotion-get-percent" label={fields.getPercentOff}>
+                <Input
+                  id="promotion-get-percent"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={form.getPercentOff}
+                  onChange={(event) => setForm({ ...form, getPercentOff: event.target.value })}
+                  required
+                />
+              </Field>
+            </div>
+            {productIdsField}
+          </>
+        );
+      case 'tiered_spend':
+        return (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{fields.tiers}</p>
+            {form.tiers.map((tier, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  aria-label={fields.tierFrom}
+                  placeholder={fields.tierFrom}
+                  value={tier.from}
+                  onChange={(event) => updateTier(index, { ...tier, from: event.target.value })}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0.01}
+                  aria-label={fields.tierDiscount}
+                  placeholder={fields.tierDiscount}
+                  value={tier.discount}
+                  onChange={(event) => updateTier(index, { ...tier, discount: event.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  disabled={form.tiers.length === 1}
+                  onClick={() => setForm({ ...form, tiers: form.tiers.filter((_, position) => position !== index) })}
+                >
+                  {dictionary.delete}
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm({ ...form, tiers: [...form.tiers, { from: '', discount: '' }] })}
+            >
+              {fields.addTier}
+            </Button>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">{fields.tiersHelper}</p>
+          </div>
+        );
+      case 'free_shipping':
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">{dictionary.title}</h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-300">{dictionary.description}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onRefresh} disabled={loading}>
+            {dictionary.refresh}
+          </Button>
+          <Button onClick={() => open()}>{dictionary.add}</Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-rose-200 bg-rose-50 dark:border-rose-500/30 dark:bg-rose-500/10">
+          <CardHeader>
+            <CardTitle className="text-rose-900 dark:text-rose-100">{dictionary.error.title}</CardTitle>
+            <CardDescription className="text-rose-700 dark:text-rose-200">{error}</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={onRefresh}>{dictionary.refresh}</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {loading && promotions.length === 0 ? (
+        <div className="h-32 animate-pulse rounded-xl bg-zinc-200/60 dark:bg-zinc-800/60" />
+      ) : (
+        <Card className="border-primary/15 bg-white/60 dark:border-primary/20 dark:bg-zinc-900/40">
+          <CardContent className="p-0">
+            {promotions.length === 0 ? (
+              <p className="p-6 text-sm text-zinc-500 dark:text-zinc-400">{dictionary.empty}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{dictionary.columns.promotion}</TableHead>
+                    <TableHead>{dictionary.columns.type}</TableHead>
+                    <TableHead>{dictionary.columns.stores}</TableHead>
+                    <TableHead>{dictionary.columns.validity}</TableHead>
+                    <TableHead className="text-right">{dictionary.columns.usage}</TableHead>
+                    <TableHead>{dictionary.columns.status}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {promotions.map((promotion) => (
+                    <TableRow key={promotion.id}>
+                      <TableCell>
+                        <p className="font-medium">{promotion.name}</p>
+                        <p className="font-mono text-xs text-zinc-500 dark:text-zinc-400">
+                          {promotion.code ?? dictionary.automatic}
+                        </p>
+                      </TableCell>
+                      <TableCell>{dictionary.types[promotion.rules.type] ?? promotion.rules.type}</TableCell>
+                      <TableCell className="text-xs">
+                        {promotion.stores.map((store) => dictionary.storeLabels[store] ?? store).join(', ')}
+                      </TableCell>
+                      <TableCell className="text-xs">{validity(promotion)}</TableCell>
+                      <TableCell className="text-right">
+                        {promotion.redemptionCount} / {promotion.usageLimit ?? dictionary.unlimited}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={promotion.isActive ? 'secondary' : 'outline'}>
+                          {promotion.isActive ? dictionary.active : dictionary.inactive}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => open(promotion)}>
+                            {dictionary.edit}
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleDelete(promotion.id)} disabled={submitting}>
+                            {dictionary.delete}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={Boolean(form)} onOpenChange={(isOpen) => !isOpen && setForm(null)}>
+        <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? dictionary.edit : dictionary.add}</DialogTitle>
+            <DialogDescription>{dictionary.description}</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <form className="space-y-4" onSubmit={handleSubmit}>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field id="promotion-name" label={fields.name}>
+                  <Input
+                    id="promotion-name"
+                    value={form.name}
+                    maxLength={120}
+                    onChange={(event) => setForm({ ...form, name: event.target.value })}
+                    required
+                  />
+                </Field>
+                <Field id="promotion-code" label={fields.code} helper={fields.codeHelper}>
+                  <Input
+                    id="promotion-code"
+                    value={form.code}
+                    maxLength={40}
+                    className="font-mono uppercase"
+                    onChange={(event) => setForm({ ...form, code: event.target.value })}
+                  />
+                </Field>
+              </div>
+
+              <Field label={fields.type}>
+                <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as PromotionType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROMOTION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {dictionary.types[type] ?? type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </Field>
+
+              {ruleFields()}
+
+              <Field label={fields.stores}>
+                <div className="flex flex-wrap gap-4">
+                  {PROMOTION_STORES.map((store) => (
+                    <label key={store} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.stores.includes(store)}
+                        onCheckedChange={(checked) => toggleStore(store, checked === true)}
+                      />
+                      {dictionary.storeLabels[store] ?? store}
+                    </label>
+                  ))}
+                </div>
+              </Field>
+
+              <div className="grid gap-4 sm:grid-cols-3">
+                <Field id="promotion-min-subtotal" label={fields.minSubtotal}>
+                  <Input
+                    id="promotion-min-subtotal"
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={form.minSubtotal}
+                    onChange={(event) => setForm({ ...form, minSubtotal: event.target.value })}
+                  />
+                </Field>
+                <Field id="promotion-usage-limit" label={fields.usageLimit}>
+                  <Input
+                    id="promotion-usage-limit"
+                    type="number"
+                    min={1}
+                    placeholder={dictionary.unlimited}
+                    value={form.usageLimit}
+                    onChange={(event) => setForm({ ...form, usageLimit: event.target.value })}
+                  />
+                </Field>
+                <Field id="promotion-per-user-limit" label={fields.perUserLimit}>
+                  <Input
+                    id="promotion-per-user-limit"
+                    type="number"
+                    min={1}
+                    placeholder={dictionary.unlimited}
+                    value={form.perUserLimit}
+                    onChange={(event) => setForm({ ...form, perUserLimit: event.target.value })}
+                  />
+                </Field>
+              </div>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">{fields.usageLimitHelper}</p>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field id="promotion-starts-at" label={fields.startsAt}>
+                  <Input
+                    id="promotion-starts-at"
+                    type="datetime-local"
+                    value={form.startsAt}
+                    onChange={(event) => setForm({ ...form, startsAt: event.target.value })}
+                  />
+                </Field>
+                <Field id="promotion-ends-at" label={fields.endsAt}>
+                  <Input
+                    id="promotion-ends-at"
+                    type="datetime-local"
+                    value={form.endsAt}
+                    onChange={(event) => setForm({ ...form, endsAt: event.target.value })}
+                  />
+                </Field>
+              </div>
+
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch checked={form.stackable} onCheckedChange={(checked) => setForm({ ...form, stackable: checked })} />
+                    {fields.stackable}
+                  </label>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">{fields.stackableHelper}</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={form.combinesWithPhaseRewards}
+                    onCheckedChange={(checked) => setForm({ ...form, combinesWithPhaseRewards: checked })}
+                  />
+                  {fields.combinesWithPhaseRewards}
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                  {dictionary.active}
+                </label>
+              </div>
+
+              {formError && <p className="text-sm text-rose-600 dark:text-rose-300">{formError}</p>}
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" onClick={() => setForm(null)}>
+                  {dictionary.cancel}
+                </Button>
+                <Button type="submit" disabled={submitting || form.stores.length === 0}>
+                  {submitting ? dictionary.saving : dictionary.save}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
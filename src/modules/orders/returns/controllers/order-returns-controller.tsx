@@ -0,0 +1,100 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Locale } from '@/i18n/config';
+import type {
+  OrderReturn,
+  OrderReturnRefundInput,
+  OrderReturnStatus,
+  OrderReturnsDictionary,
+} from '../domain/models/order-return';
+import { OrderReturnsRepositoryFactory } from '../repositories/order-returns-repository';
+import { OrderReturnsView, type OrderReturnsScope } from '../views/order-returns-view';
+
+interface OrderReturnsControllerProps {
+  dictionary: OrderReturnsDictionary;
+  lang: Locale;
+  /**
+   * 'review' lists every return to approve, reject and refund; 'warehouse' lists the approved
+   * returns waiting for their goods
+   */
+  scope: OrderReturnsScope;
+}
+
+export const OrderReturnsController = ({ dictionary, lang, scope }: OrderReturnsControllerProps) => {
+  const repository = useMemo(() => OrderReturnsRepositoryFactory.create(), []);
+
+  const [status, setStatus] = useState<OrderReturnStatus | null>(scope === 'warehouse' ? 'approved' : 'requested');
+  const [returns, setReturns] = useState<OrderReturn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadReturns = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setReturns(await repository.list(status));
+    } catch (loadError) {
+      console.error('[order-returns] load failed', loadError);
+      setError(loadError instanceof Error ? loadError.message : dictionary.error.title);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, status, dictionary.error.title]);
+
+  useEffect(() => {
+    loadReturns();
+  }, [loadReturns]);
+
+  const run = useCallback(
+    async (action: () => Promise<OrderReturn>) => {
+      setSubmitting(true);
+      try {
+        const updated = await action();
+        await loadReturns();
+        return updated;
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [loadReturns],
+  );
+
+  const handleApprove = useCallback(
+    (id: string, note: string | null) => run(() => repository.approve(id, note)),
+    [repository, run],
+  );
+
+  const handleReject = useCallback(
+    (id: string, note: string | null) => run(() => repository.reject(id, note)),
+    [repository, run],
+  );
+
+  const handleReceive = useCallback((id: string) => run(() => repository.receive(id)), [repository, run]);
+
+  const handleRefund = useCallback(
+    (id: string, input: OrderReturnRefundInput) => run(() => repository.refund(id, input)),
+    [repository, run],
+  );
+
+  return (
+    <OrderReturnsView
+      dictionary={dictionary}
+      lang={lang}
+      scope={scope}
+      status={status}
+      returns={returns}
+      loading={loading}
+      error={error}
+      submitting={submitting}
+      onStatusChange={setStatus}
+      onRefresh={loadReturns}
+      onApprove={handleApprove}
+      onReject={handleReject}
+      onReceive={handleReceive}
+      onRefund={handleRefund}
+    />
+  );
+};
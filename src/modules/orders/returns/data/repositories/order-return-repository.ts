@@ -0,0 +1,236 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  OrderReturn,
+  OrderReturnReason,
+  OrderReturnRefundMethod,
+  OrderReturnStatus,
+} from '../../domain/models/order-return';
+
+export const ORDER_RETURN_PHOTOS_BUCKET = 'order-returns';
+
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+const RETURN_SELECT = `
+  *,
+  order:orders(id, status, currency, gateway, gateway_transaction_id),
+  item:order_items(id, product_id, variant_id, variant_label, qty, price_cents, product:products(name)),
+  customer:profiles!order_returns_user_id_fkey(name, email)
+`;
+
+type MaybeArray<T> = T | T[] | null;
+
+export interface OrderReturnRow {
+  id: string;
+  order_id: string;
+  order_item_id: string;
+  user_id: string;
+  quantity: number;
+  reason: OrderReturnReason;
+  details: string | null;
+  photos: string[] | null;
+  status: OrderReturnStatus;
+  rma_number: string | null;
+  admin_note: string | null;
+  refund_method: OrderReturnRefundMethod | null;
+  refund_cents: number | null;
+  refund_reference: string | null;
+  reviewed_at: string | null;
+  received_at: string | null;
+  refunded_at: string | null;
+  locale: string | null;
+  created_at: string;
+  order: MaybeArray<{
+    id: string;
+    status: string;
+    currency: string | null;
+    gateway: string | null;
+    gateway_transaction_id: string | null;
+  }>;
+  item: MaybeArray<{
+    id: string;
+    product_id: string | null;
+    variant_id: string | null;
+    variant_label: string | null;
+    qty: number;
+    price_cents: number;
+    product: MaybeArray<{ name: string | null }>;
+  }>;
+  customer: MaybeArray<{ name: string | null; email: string | null }>;
+}
+
+const first = <T>(value: MaybeArray<T> | undefined): T | null =>
+  Array.isArray(value) ? (value[0] ?? null) : (value ?? null);
+
+export const getReturnOrder = (row: OrderReturnRow) => first(row.order);
+export const getReturnItem = (row: OrderReturnRow) => first(row.item);
+export const getReturnCustomer = (row: OrderReturnRow) => first(row.customer);
+
+export const toOrderReturn = (row: OrderReturnRow, photoUrls: string[] = []): OrderReturn => {
+  const order = getReturnOrder(row);
+  const item = getReturnItem(row);
+  const customer = getReturnCustomer(row);
+
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    orderItemId: row.order_item_id,
+    userId: row.user_id,
+    quantity: row.quantity,
+    reason: row.reason,
+    details: row.details,
+    photoUrls,
+    status: row.status,
+    rmaNumber: row.rma_number,
+    adminNote: row.admin_note,
+    refundMethod: row.refund_method,
+    refundCents: row.refund_cents === null ? null : Number(row.refund_cents),
+    refundReference: row.refund_reference,
+    productId: item?.product_id ?? null,
+    variantId: item?.variant_id ?? null,
+    productName: first(item?.product)?.name ?? 'Product',
+    variantLabel: item?.variant_label ?? null,
+    unitPriceCents: Number(item?.price_cents ?? 0),
+    currency: (order?.currency ?? 'USD').toUpperCase(),
+    gateway: order?.gateway ?? null,
+    customerName: customer?.name ?? null,
+    customerEmail: customer?.email ?? null,
+    createdAt: row.created_at,
+    reviewedAt: row.reviewed_at,
+    receivedAt: row.received_at,
+    refundedAt: row.refunded_at,
+  };
+};
+
+export class OrderReturnRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Runs request_order_return, which checks ownership, order status and the units still
+   * returnable with the order line locked
+   */
+  async request(input: {
+    userId: string;
+    orderId: string;
+    orderItemId: string;
+    quantity: number;
+    reason: OrderReturnReason;
+    details: string | null;
+    photoPaths: string[];
+    locale: string;
+  }): Promise<string> {
+    const { data, error } = await this.client.rpc('request_order_return', {
+      p_user_id: input.userId,
+      p_order_id: input.orderId,
+      p_order_item_id: input.orderItemId,
+      p_quantity: input.quantity,
+      p_reason: input.reason,
+      p_details: input.details,
+      p_photos: input.photoPaths,
+      p_locale: input.locale,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const row = (Array.isArray(data) ? data[0] : data) as { id: string };
+    return row.id;
+  }
+
+  async findById(id: string): Promise<OrderReturnRow | null> {
+    const { data, error } = await this.client
+      .from('order_returns')
+      .select(RETURN_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as OrderReturnRow | null) ?? null;
+  }
+
+  async list(filters: { orderId?: string; userId?: string; status?: OrderReturnStatus; limit?: number }): Promise<OrderReturnRow[]> {
+    let query = this.client.from('order_returns').select(RETURN_SELECT);
+
+    if (filters.orderId) {
+      query = query.eq('order_id', filters.orderId);
+    }
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(filters.limit ?? 100);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as OrderReturnRow[];
+  }
+
+  /**
+   * Moves a return to its next status only while it is still in the expected one, so two admins
+   * acting on the same return cannot both apply a step. Returns false when the return moved on.
+   */
+  async transition(id: string, from: OrderReturnStatus, changes: Record<string, unknown>): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('order_returns')
+      .update(changes)
+      .eq('id', id)
+      .eq('status', from)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  async uploadPhoto(path: string, file: File): Promise<void> {
+    const { error } = await this.client.storage.from(ORDER_RETURN_PHOTOS_BUCKET).upload(path, file, {
+      contentType: file.type,
+      upsert: false,
+    });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async removePhotos(paths: string[]): Promise<void> {
+    if (paths.length === 0) {
+      return;
+    }
+
+    const { error } = await this.client.storage.from(ORDER_RETURN_PHOTOS_BUCKET).remove(paths);
+
+    if (error) {
+      console.warn('[OrderReturnRepository] Failed to remove return photos:', error);
+    }
+  }
+
+  async signPhotos(paths: string[]): Promise<string[]> {
+    if (paths.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client.storage
+      .from(ORDER_RETURN_PHOTOS_BUCKET)
+      .createSignedUrls(paths, PHOTO_URL_TTL_SECONDS);
+
+    if (error) {
+      console.warn('[OrderReturnRepository] Failed to sign return photos:', error);
+      return [];
+    }
+
+    return (data ?? []).map((entry) => entry.signedUrl).filter((url): url is string => Boolean(url));
+  }
+}
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+
+export const ORDER_RETURN_STATUSES = ['requested', 'approved', 'rejected', 'received', 'refunded'] as const;
+export const ORDER_RETURN_REASONS = ['damaged', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other'] as const;
+export const ORDER_RETURN_REFUND_METHODS = ['original', 'wallet'] as const;
+
+/**
+ * Orders whose lines can be returned
+ */
+export const RETURNABLE_ORDER_STATUSES = ['paid', 'processing', 'completed', 'fulfilled'] as const;
+
+export const MAX_ORDER_RETURN_PHOTOS = 5;
+
+export type OrderReturnStatus = (typeof ORDER_RETURN_STATUSES)[number];
+export type OrderReturnReason = (typeof ORDER_RETURN_REASONS)[number];
+export type OrderReturnRefundMethod = (typeof ORDER_RETURN_REFUND_METHODS)[number];
+
+export const OrderReturnSchema = z.object({
+  id: z.string(),
+  orderId: z.string(),
+  orderItemId: z.string(),
+  userId: z.string(),
+  quantity: z.number().int(),
+  reason: z.enum(ORDER_RETURN_REASONS),
+  details: z.string().nullable(),
+  photoUrls: z.array(z.string()),
+  status: z.enum(ORDER_RETURN_STATUSES),
+  rmaNumber: z.string().nullable(),
+  adminNote: z.string().nullable(),
+  refundMethod: z.enum(ORDER_RETURN_REFUND_METHODS).nullable(),
+  refundCents: z.number().nullable(),
+  refundReference: z.string().nullable(),
+  productId: z.string().nullable(),
+  variantId: z.string().nullable(),
+  productName: z.string(),
+  variantLabel: z.string().nullable(),
+  unitPriceCents: z.number(),
+  currency: z.string(),
+  gateway: z.string().nullable(),
+  customerName: z.string().nullable(),
+  customerEmail: z.string().nullable(),
+  createdAt: z.string(),
+  reviewedAt: z.string().nullable(),
+  receivedAt: z.string().nullable(),
+  refundedAt: z.string().nullable(),
+});
+
+export type OrderReturn = z.infer<typeof OrderReturnSchema>;
+
+export const OrderReturnRequestInputSchema = z.object({
+  orderItemId: z.string().uuid(),
+  quantity: z.coerce.number().int().positive(),
+  reason: z.enum(ORDER_RETURN_REASONS),
+  details: z.string().trim().max(1000).nullable().optional(),
+});
+
+export type OrderReturnRequestInput = z.infer<typeof OrderReturnRequestInputSchema>;
+
+export const OrderReturnReviewInputSchema = z.object({
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+export type OrderReturnReviewInput = z.infer<typeof OrderReturnReviewInputSchema>;
+
+export const OrderReturnRefundInputSchema = z.object({
+  method: z.enum(ORDER_RETURN_REFUND_METHODS),
+  /**
+   * Defaults to the price paid for the returned units
+   */
+  amountCents: z.number().int().positive().optional(),
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+export type OrderReturnRefundInput = z.infer<typeof OrderReturnRefundInputSchema>;
+
+export const OrderReturnsDictionarySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  warehouseTitle: z.string(),
+  warehouseDescription: z.string(),
+  refresh: z.string(),
+  empty: z.string(),
+  filters: z.object({
+    status: z.string(),
+    all: z.string(),
+  }),
+  table: z.object({
+    rma: z.string(),
+    product: z.string(),
+    customer: z.string(),
+    reason: z.string(),
+    status: z.string(),
+    refund: z.string(),
+    actions: z.string(),
+  }),
+  statuses: z.record(z.string(), z.string()),
+  reasons: z.record(z.string(), z.string()),
+  refundMethods: z.record(z.string(), z.string()),
+  actions: z.object({
+    approve: z.string(),
+    reject: z.string(),
+    receive: z.string(),
+    refund: z.string(),
+    photos: z.string(),
+    cancel: z.string(),
+    submitting: z.string(),
+  }),
+  review: z.object({
+    approveTitle: z.string(),
+    rejectTitle: z.string(),
+    note: z.string(),
+    notePlaceholder: z.string(),
+  }),
+  refundForm: z.object({
+    title: z.string(),
+    description: z.string(),
+    method: z.string(),
+    amount: z.string(),
+    note: z.string(),
+  }),
+  success: z.object({
+    approved: z.string(),
+    rejected: z.string(),
+    received: z.string(),
+    refunded: z.string(),
+  }),
+  error: z.object({
+    title: z.string(),
+    retry: z.string(),
+  }),
+});
+
+export type OrderReturnsDictionary = z.infer<typeof OrderReturnsDictionarySchema>;
@@ -0,0 +1,5 @@
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { resolveRefundPlugin } from '@/modules/payments/refunds/factories/payment-refund-service-factory';
+import { OrderReturnService } from '../services/order-return-service';
+
+export const createOrderReturnService = () => new OrderReturnService(getSupabaseAdminClient(), resolveRefundPlugin);
@@ -0,0 +1,155 @@
+import {
+  OrderReturnRefundInputSchema,
+  OrderReturnSchema,
+  type OrderReturn,
+  type OrderReturnRefundInput,
+  type OrderReturnStatus,
+} from '../domain/models/order-return';
+import { adminApi, fetchWithCsrf } from '@/lib/utils/admin-csrf-helpers';
+
+export interface OrderReturnsRepository {
+  list(status?: OrderReturnStatus | null): Promise<OrderReturn[]>;
+  approve(id: string, note?: string | null): Promise<OrderReturn>;
+  reject(id: string, note?: string | null): Promise<OrderReturn>;
+  receive(id: string): Promise<OrderReturn>;
+  refund(id: string, input: OrderReturnRefundInput): Promise<OrderReturn>;
+}
+
+export interface MemberOrderReturnsRepository {
+  listForOrder(orderId: string): Promise<OrderReturn[]>;
+  request(orderId: string, form: FormData): Promise<OrderReturn>;
+}
+
+export class OrderReturnRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+  ) {
+    super(message);
+    this.name = 'OrderReturnRequestError';
+  }
+}
+
+const API_BASE = '/api/admin/orders/returns';
+
+const parseJson = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    console.error('[OrderReturnsRepository] Failed to parse JSON', error, text);
+    throw new Error('Invalid server response.');
+  }
+};
+
+const toRequestError = async (response: Response, fallback: string) => {
+  const payload = await parseJson(response);
+  const message = typeof payload.error === 'string' ? payload.error : response.statusText;
+  return new OrderReturnRequestError(message || fallback, typeof payload.code === 'string' ? payload.code : null);
+};
+
+class HttpOrderReturnsRepository implements OrderReturnsRepository {
+  async list(status?: OrderReturnStatus | null): Promise<OrderReturn[]> {
+    const query = status ? `?${new URLSearchParams({ status }).toString()}` : '';
+
+    const response = await fetch(`${API_BASE}${query}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load returns.');
+    }
+
+    const payload = await parseJson(response);
+    return OrderReturnSchema.array().parse(payload.returns ?? []);
+  }
+
+  approve(id: string, note?: string | null): Promise<OrderReturn> {
+    return this.post(id, 'approve', { note: note ?? null }, 'Failed to approve return.');
+  }
+
+  reject(id: string, note?: string | null): Promise<OrderReturn> {
+    return this.post(id, 'reject', { note: note ?? null }, 'Failed to reject return.');
+  }
+
+  receive(id: string): Promise<OrderReturn> {
+    return this.post(id, 'receive', {}, 'Failed to receive return.');
+  }
+
+  refund(id: string, input: OrderReturnRefundInput): Promise<OrderReturn> {
+    return this.post(id, 'refund', OrderReturnRefundInputSchema.parse(input), 'Failed to refund return.');
+  }
+
+  private async post(id: string, action: string, body: unknown, fallback: string): Promise<OrderReturn> {
+    // ✅ SECURITY: Use adminApi.post() to automatically include CSRF token
+    const response = await adminApi.post(`${API_BASE}/${encodeURIComponent(id)}/${action}`, body);
+
+    if (!response.ok) {
+      throw await toRequestError(response, fallback);
+    }
+
+    const payload = await parseJson(response);
+    return OrderReturnSchema.parse(payload.orderReturn);
+  }
+}
+
+class HttpMemberOrderReturnsRepository implements MemberOrderReturnsRepository {
+  async listForOrder(orderId: string): Promise<OrderReturn[]> {
+    const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}/returns`, {
+      method: 'GET',
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load returns.');
+    }
+
+    const payload = await parseJson(response);
+    return OrderReturnSchema.array().parse(payload.returns ?? []);
+  }
+
+  async request(orderId: string, form: FormData): Promise<OrderReturn> {
+    // ✅ SECURITY: Multipart request with the CSRF token header
+    const response = await fetchWithCsrf(`/api/orders/${encodeURIComponent(orderId)}/returns`, {
+      method: 'POST',
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to request return.');
+    }
+
+    const payload = await parseJson(response);
+    return OrderReturnSchema.parse(payload.orderReturn);
+  }
+}
+
+class OrderReturnsRepositoryFactoryImpl {
+  private instance: OrderReturnsRepository | null = null;
+  private memberInstance: MemberOrderReturnsRepository | null = null;
+
+  create(): OrderReturnsRepository {
+    if (!this.instance) {
+      this.instance = new HttpOrderReturnsRepository();
+    }
+
+    return this.instance;
+  }
+
+  createForMember(): MemberOrderReturnsRepository {
+    if (!this.memberInstance) {
+      this.memberInstance = new HttpMemberOrderReturnsRepository();
+    }
+
+    return this.memberInstance;
+  }
+}
+
+export const OrderReturnsRepositoryFactory = new OrderReturnsRepositoryFactoryImpl();
+
+export { HttpOrderReturnsRepository, HttpMemberOrderReturnsRepository };
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentRefundError } from '@/modules/payments/refunds/services/payment-refund-service';
+import { OrderReturnService, toRmaNumber } from '../order-return-service';
+import type { OrderReturnRow } from '../../data/repositories/order-return-repository';
+
+const repository = {
+  request: vi.fn(),
+  findById: vi.fn(),
+  list: vi.fn(),
+  transition: vi.fn(),
+  uploadPhoto: vi.fn(),
+  removePhotos: vi.fn(),
+  signPhotos: vi.fn(),
+};
+
+const stock = { recordMovement: vi.fn() };
+const refunds = { refund: vi.fn() };
+const notifications = { sendReturnUpdateEmail: vi.fn() };
+const resolveRefundPlugin = vi.fn();
+
+vi.mock('../../data/repositories/order-return-repository', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../data/repositories/order-return-repository')>()),
+  OrderReturnRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+vi.mock('@/modules/products/services/stock-service', () => ({
+  StockService: vi.fn().mockImplementation(function () {
+    return stock;
+  }),
+}));
+
+vi.mock('@/modules/payments/refunds/services/payment-refund-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/modules/payments/refunds/services/payment-refund-service')>()),
+  PaymentRefundService: vi.fn().mockImplementation(function () {
+    return refunds;
+  }),
+}));
+
+vi.mock('../../../services/order-notification-service', () => ({
+  OrderNotificationService: vi.fn().mockImplementation(function () {
+    return notifications;
+  }),
+}));
+
+const buildRow = (overrides: Partial<OrderReturnRow> = {}): OrderReturnRow => ({
+  id: 'ret-1',
+  order_id: 'order-1',
+  order_item_id: 'item-1',
+  user_id: 'member-1',
+  quantity: 2,
+  reason: 'damaged',
+  details: null,
+  photos: [],
+  status: 'received',
+  rma_number: 'RMA-261019-RET1AB',
+  admin_note: null,
+  refund_method: null,
+  refund_cents: null,
+  refund_reference: null,
+  reviewed_at: null,
+  received_at: null,
+  refunded_at: null,
+  locale: 'es',
+  created_at: '2026-10-19T10:00:00.000Z',
+  order: { id: 'order-1', status: 'paid', currency: 'usd', gateway: 'stripe', gateway_transaction_id: 'cs_test_123' },
+  item: {
+    id: 'item-1',
+    product_id: 'prod-1',
+    variant_id: 'var-1',
+    variant_label: 'Vanilla / 1 kg',
+    qty: 3,
+    price_cents: 2500,
+    product: { name: 'Protein Shake' },
+  },
+  customer: { name: 'Alex', email: 'alex@example.com' },
+  ...overrides,
+});
+
+describe('OrderReturnService', () => {
+  let row: OrderReturnRow;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    row = buildRow();
+
+    repository.findById.mockImplementation(() => Promise.resolve(row));
+    repository.transition.mockResolvedValue(true);
+    repository.signPhotos.mockResolvedValue([]);
+    refunds.refund.mockResolvedValue({ id: 'refund-1', status: 'succeeded', gatewayRefundId: 're_123' });
+  });
+
+  it('issues an RMA number when approving a request', async () => {
+    row = buildRow({ status: 'requested', rma_number: null });
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await service.approve('ret-1', 'admin-1', 'Ship it back in the original box');
+
+    expect(repository.transition).toHaveBeenCalledWith(
+      'ret-1',
+      'requested',
+      expect.objectContaining({
+        status: 'approved',
+        rma_number: expect.stringMatching(/^RMA-\d{6}-RET1$/),
+        admin_note: 'Ship it back in the original box',
+        reviewed_by: 'admin-1',
+      }),
+    );
+    expect(notifications.sendReturnUpdateEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ step: 'approved', userEmail: 'alex@example.com', locale: 'es' }),
+    );
+  });
+
+  it('rejects a step the return already moved past', async () => {
+    repository.transition.mockResolvedValue(false);
+    row = buildRow({ status: 'rejected' });
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await expect(service.approve('ret-1', 'admin-1')).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    expect(notifications.sendReturnUpdateEmail).not.toHaveBeenCalled();
+  });
+
+  it('puts received units of the sold variant back into stock', async () => {
+    row = buildRow({ status: 'received' });
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await service.receive('ret-1', 'admin-1');
+
+    expect(stock.recordMovement).toHaveBeenCalledWith({
+      productId: 'prod-1',
+      variantId: 'var-1',
+      kind: 'return',
+      quantity: 2,
+      note: 'RMA-261019-RET1AB',
+      createdBy: 'admin-1',
+      orderId: 'order-1',
+    });
+    expect(notifications.sendReturnUpdateEmail).toHaveBeenCalledWith(expect.objectContaining({ step: 'received' }));
+  });
+
+  it('moves the return back to approved when the stock cannot be updated', async () => {
+    stock.recordMovement.mockRejectedValue(new Error('product_not_found'));
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await expect(service.receive('ret-1', 'admin-1')).rejects.toThrow('product_not_found');
+    expect(repository.transition).toHaveBeenLastCalledWith('ret-1', 'received', {
+      status: 'approved',
+      received_by: null,
+      received_at: null,
+    });
+  });
+
+  it('refunds the returned line through the payment refund ledger of the order', async () => {
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await service.refund('ret-1', 'admin-1', { method: 'original' });
+
+    expect(refunds.refund).toHaveBeenCalledWith(
+      {
+        kind: 'order',
+        id: 'order-1',
+        lines: [{ orderItemId: 'item-1', amountCents: 5000 }],
+        reason: 'RMA-261019-RET1AB',
+      },
+      'admin-1',
+      { orderReturnId: 'ret-1', toWallet: false, metadata: { rma_number: 'RMA-261019-RET1AB' } },
+    );
+    expect(repository.transition).toHaveBeenCalledWith('ret-1', 'refunded', { refund_reference: 're_123' });
+    expect(notifications.sendReturnUpdateEmail).toHaveBeenCalledWith(expect.objectContaining({ step: 'refunded' }));
+  });
+
+  it('refunds as wallet credit when the member chooses it', async () => {
+    refunds.refund.mockResolvedValue({ id: 'refund-1', status: 'succeeded', gatewayRefundId: 'txn-9' });
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await service.refund('ret-1', 'admin-1', { method: 'wallet', amountCents: 3000 });
+
+    expect(refunds.refund).toHaveBeenCalledWith(
+      expect.objectContaining({ lines: [{ orderItemId: 'item-1', amountCents: 3000 }] }),
+      'admin-1',
+      expect.objectContaining({ orderReturnId: 'ret-1', toWallet: true }),
+    );
+    expect(repository.transition).toHaveBeenCalledWith('ret-1', 'refunded', { refund_reference: 'txn-9' });
+  });
+
+  it('never refunds more than the price paid for the returned units', async () => {
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await expect(service.refund('ret-1', 'admin-1', { method: 'wallet', amountCents: 5001 })).rejects.toMatchObject({
+      code: 'REFUND_AMOUNT_EXCEEDED',
+    });
+    expect(repository.transition).not.toHaveBeenCalled();
+    expect(refunds.refund).not.toHaveBeenCalled();
+  });
+
+  it('goes back to received when the line was already refunded by an admin refund', async () => {
+    refunds.refund.mockRejectedValue(
+      new PaymentRefundError('The refund exceeds what is still refundable on an order line', 'REFUND_LINE_EXCEEDED'),
+    );
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await expect(service.refund('ret-1', 'admin-1', { method: 'original' })).rejects.toMatchObject({ code: 'REFUND_AMOUNT_EXCEEDED' });
+    expect(repository.transition).toHaveBeenLastCalledWith('ret-1', 'refunded', expect.objectContaining({ status: 'received' }));
+  });
+
+  it('goes back to received when the gateway refund fails', async () => {
+    refunds.refund.mockRejectedValue(new PaymentRefundError('The refund could not be processed', 'REFUND_FAILED'));
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+
+    await expect(service.refund('ret-1', 'admin-1', { method: 'original' })).rejects.toMatchObject({ code: 'REFUND_FAILED' });
+    expect(repository.transition).toHaveBeenLastCalledWith('ret-1', 'refunded', expect.objectContaining({ status: 'received' }));
+    expect(notifications.sendReturnUpdateEmail).not.toHaveBeenCalled();
+  });
+
+  it('maps request errors and removes the uploaded photos', async () => {
+    repository.request.mockRejectedValue(new Error('return_quantity_exceeded: item-1'));
+    const service = new OrderReturnService({} as SupabaseClient, resolveRefundPlugin);
+    const photo = new File(['photo'], 'box.png', { type: 'image/png' });
+
+    await expect(
+      service.requestReturn('member-1', 'order-1', { orderItemId: 'item-1', quantity: 4, reason: 'damaged' }, [photo]),
+    ).rejects.toMatchObject({ code: 'RETURN_QUANTITY_EXCEEDED' });
+    expect(repository.removePhotos).toHaveBeenCalledWith([expect.stringMatching(/^member-1\/\d+-[a-z0-9]+\.png$/)]);
+  });
+
+  it('builds RMA numbers from the approval date and return id', () => {
+    expect(toRmaNumber('4f2a9c1e-0000-4000-8000-000000000000', new Date('2026-10-19T12:00:00Z'))).toBe('RMA-261019-4F2A9C');
+  });
+});
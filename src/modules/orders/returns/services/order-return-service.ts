@@ -0,0 +1,374 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { StockService } from '@/modules/products/services/stock-service';
+import {
+  PaymentRefundError,
+  PaymentRefundService,
+  type RefundPluginResolver,
+} from '@/modules/payments/refunds/services/payment-refund-service';
+import { OrderNotificationService, type ReturnUpdateStep } from '../../services/order-notification-service';
+import {
+  OrderReturnRepository,
+  getReturnCustomer,
+  getReturnItem,
+  getReturnOrder,
+  toOrderReturn,
+  type OrderReturnRow,
+} from '../data/repositories/order-return-repository';
+import type {
+  OrderReturn,
+  OrderReturnRefundInput,
+  OrderReturnRequestInput,
+  OrderReturnStatus,
+} from '../domain/models/order-return';
+
+export type OrderReturnErrorCode =
+  | 'ORDER_ITEM_NOT_FOUND'
+  | 'ORDER_NOT_RETURNABLE'
+  | 'RETURN_QUANTITY_EXCEEDED'
+  | 'RETURN_NOT_FOUND'
+  | 'INVALID_STATUS'
+  | 'REFUND_UNAVAILABLE'
+  | 'REFUND_AMOUNT_EXCEEDED'
+  | 'REFUND_FAILED';
+
+export class OrderReturnError extends Error {
+  constructor(
+    message: string,
+    public readonly code: OrderReturnErrorCode,
+  ) {
+    super(message);
+    this.name = 'OrderReturnError';
+  }
+}
+
+/**
+ * HTTP status of each error, shared by the member and admin return routes
+ */
+export const ORDER_RETURN_ERROR_STATUS: Record<OrderReturnErrorCode, number> = {
+  ORDER_ITEM_NOT_FOUND: 404,
+  ORDER_NOT_RETURNABLE: 409,
+  RETURN_QUANTITY_EXCEEDED: 409,
+  RETURN_NOT_FOUND: 404,
+  INVALID_STATUS: 409,
+  REFUND_UNAVAILABLE: 409,
+  REFUND_AMOUNT_EXCEEDED: 400,
+  REFUND_FAILED: 502,
+};
+
+/**
+ * RMA number of an approved return, e.g. RMA-261019-4F2A9C
+ */
+export function toRmaNumber(returnId: string, approvedAt: Date): string {
+  const date = approvedAt.toISOString().slice(2, 10).replace(/-/g, '');
+  return `RMA-${date}-${returnId.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+}
+
+const extensionOf = (file: File): string => {
+  const fromName = file.name.split('.').pop()?.toLowerCase();
+  if (fromName && /^[a-z0-9]{2,5}$/.test(fromName)) {
+    return fromName;
+  }
+  return file.type.split('/')[1] ?? 'jpg';
+};
+
+/**
+ * Returns (RMA) of order lines. A member requests the return of units of a paid order; an admin
+ * approves it, issuing the RMA number, or rejects it; the warehouse receives the goods back into
+ * stock; and the refund goes to the original gateway or to wallet credit through the payment
+ * refund ledger, which also reverses the commissions of the refunded amount. Each step moves the
+ * return only from the status it expects, so a step can never be applied twice.
+ */
+export class OrderReturnService {
+  private readonly returns: OrderReturnRepository;
+  private readonly stock: StockService;
+  private readonly refunds: PaymentRefundService;
+  private readonly notifications: OrderNotificationService;
+
+  constructor(client: SupabaseClient, resolveRefundPlugin: RefundPluginResolver) {
+    this.returns = new OrderReturnRepository(client);
+    this.stock = new StockService(client);
+    this.refunds = new PaymentRefundService(client, resolveRefundPlugin);
+    this.notifications = new OrderNotificationService(client);
+  }
+
+  async requestReturn(
+    userId: string,
+    orderId: string,
+    input: OrderReturnRequestInput,
+    photos: File[] = [],
+    locale = 'en',
+  ): Promise<OrderReturn> {
+    const photoPaths: string[] = [];
+    let id: string;
+
+    try {
+      for (const photo of photos) {
+        const path = `${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 10)}.${extensionOf(photo)}`;
+        await this.returns.uploadPhoto(path, photo);
+        photoPaths.push(path);
+      }
+
+      id = await this.returns.request({
+        userId,
+        orderId,
+        orderItemId: input.orderItemId,
+        quantity: input.quantity,
+        reason: input.reason,
+        details: input.details ?? null,
+        photoPaths,
+        locale: locale === 'es' ? 'es' : 'en',
+      });
+    } catch (error) {
+      await this.returns.removePhotos(photoPaths);
+      throw this.toOrderReturnError(error);
+    }
+
+    const row = await this.getRow(id);
+    await this.notify(row, 'requested');
+    return this.toModel(row);
+  }
+
+  async listForOrder(userId: string, orderId: string): Promise<OrderReturn[]> {
+    const rows = await this.returns.list({ orderId, userId });
+    return Promise.all(rows.map((row) => this.toModel(row)));
+  }
+
+  async list(status?: OrderReturnStatus): Promise<OrderReturn[]> {
+    const rows = await this.returns.list({ status });
+    return Promise.all(rows.map((row) => this.toModel(row)));
+  }
+
+  async approve(id: string, adminId: string, note?: string | null): Promise<OrderReturn> {
+    const now = new Date();
+
+    await this.move(id, 'requested', {
+      status: 'approved',
+      rma_number: toRmaNumber(id, now),
+      admin_note: note?.trim() || null,
+      reviewed_by: adminId,
+      reviewed_at: now.toISOString(),
+    });
+
+    const row = await this.getRow(id);
+    await this.notify(row, 'approved');
+    return this.toModel(row);
+  }
+
+  async reject(id: string, adminId: string, note?: string | null): Promise<OrderReturn> {
+    await this.move(id, 'requested', {
+      status: 'rejected',
+      admin_note: note?.trim() || null,
+      reviewed_by: adminId,
+      reviewed_at: new Date().toISOString(),
+    });
+
+    const row = await this.getRow(id);
+    await this.notify(row, 'rejected');
+    return this.toModel(row);
+  }
+
+  /**
+   * Records the goods of an approved return as received, putting the units back into stock with
+   * a 'return' movement. The return goes back to approved when the stock cannot be updated.
+   */
+  async receive(id: string, adminId: string): Promise<OrderReturn> {
+    await this.move(id, 'approved', {
+      status: 'received',
+      received_by: adminId,
+      received_at: new Date().toISOString(),
+    });
+
+    const row = await this.getRow(id);
+    const item = getReturnItem(row);
+
+    if (item?.product_id) {
+      try {
+        await this.stock.recordMovement({
+          productId: item.product_id,
+          variantId: item.variant_id,
+          kind: 'return',
+          quantity: row.quantity,
+          note: row.rma_number,
+          createdBy: adminId,
+          orderId: row.order_id,
+        });
+      } catch (error) {
+        await this.returns.transition(id, 'received', { status: 'approved', received_by: null, received_at: null });
+        throw error;
+      }
+    } else {
+      console.warn(`[OrderReturnService] Product of return ${id} no longer exists, stock not updated`);
+    }
+
+    await this.notify(row, 'received');
+    return this.toModel(row);
+  }
+
+  /**
+   * Refunds a received return. The return is marked refunded before the money moves, so a
+   * second admin cannot refund it again; it goes back to received when the refund fails. The
+   * refund is a payment refund of the order line, so it counts against what admin refunds already
+   * returned on the order and the line. Gateway refunds use the return id as idempotency key, so
+   * retrying a failed refund is safe.
+   */
+  async refund(id: string, adminId: string, input: OrderReturnRefundInput): Promise<OrderReturn> {
+    const row = await this.getRow(id);
+    const order = getReturnOrder(row);
+    const item = getReturnItem(row);
+
+    if (row.status !== 'received') {
+      throw new OrderReturnError('Only received returns can be refunded', 'INVALID_STATUS');
+    }
+
+    if (!order || !item) {
+      throw new OrderReturnError('Order of the return not found', 'RETURN_NOT_FOUND');
+    }
+
+    const maxCents = Number(item.price_cents) * row.quantity;
+    const amountCents = input.amountCents ?? maxCents;
+
+    if (amountCents <= 0 || amountCents > maxCents) {
+      throw new OrderReturnError('The refund cannot exceed the price paid for the returned units', 'REFUND_AMOUNT_EXCEEDED');
+    }
+
+    const toWallet = input.method === 'wallet' || order.gateway?.toLowerCase() === 'wallet';
+
+    await this.move(id, 'received', {
+      status: 'refunded',
+      refund_method: toWallet ? 'wallet' : 'original',
+      refund_cents: amountCents,
+      admin_note: input.note?.trim() || row.admin_note,
+      refunded_by: adminId,
+      refunded_at: new Date().toISOString(),
+    });
+
+    let reference: string;
+
+    try {
+      const refund = await this.refunds.refund(
+        {
+          kind: 'order',
+          id: row.order_id,
+          lines: [{ orderItemId: row.order_item_id, amountCents }],
+          reason: row.rma_number,
+        },
+        adminId,
+        { orderReturnId: row.id, toWallet, metadata: { rma_number: row.rma_number ?? '' } },
+      );
+      reference = refund.gatewayRefundId ?? refund.id;
+    } catch (error) {
+      console.error(`[OrderReturnService] Refund of return ${id} failed:`, error);
+      await this.returns.transition(id, 'refunded', {
+        status: 'received',
+        refund_method: null,
+        refund_cents: null,
+        refunded_by: null,
+        refunded_at: null,
+      });
+      throw this.toRefundError(error);
+    }
+
+    await this.returns.transition(id, 'refunded', { refund_reference: reference });
+
+    const refunded = await this.getRow(id);
+    await this.notify(refunded, 'refunded');
+    return this.toModel(refunded);
+  }
+
+  private async move(id: string, from: OrderReturnStatus, changes: Record<string, unknown>): Promise<void> {
+    const moved = await this.returns.transition(id, from, changes);
+
+    if (!moved) {
+      const current = await this.returns.findById(id);
+      if (!current) {
+        throw new OrderReturnError('Return not found', 'RETURN_NOT_FOUND');
+      }
+      throw new OrderReturnError(`The return is ${current.status}, expected ${from}`, 'INVALID_STATUS');
+    }
+  }
+
+  private async getRow(id: string): Promise<OrderReturnRow> {
+    const row = await this.returns.findById(id);
+
+    if (!row) {
+      throw new OrderReturnError('Return not found', 'RETURN_NOT_FOUND');
+    }
+
+    return row;
+  }
+
+  private async toModel(row: OrderReturnRow): Promise<OrderReturn> {
+    return toOrderReturn(row, await this.returns.signPhotos(row.photos ?? []));
+  }
+
+  /**
+   * Emails never block a step of the return
+   */
+  private async notify(row: OrderReturnRow, step: ReturnUpdateStep): Promise<void> {
+    const customer = getReturnCustomer(row);
+    const model = toOrderReturn(row);
+
+    if (!customer?.email) {
+      return;
+    }
+
+    try {
+      await this.notifications.sendReturnUpdateEmail({
+        step,
+        orderId: row.order_id,
+        userEmail: customer.email,
+        userName: customer.name || 'Customer',
+        productName: model.variantLabel ? `${model.productName} (${model.variantLabel})` : model.productName,
+        quantity: row.quantity,
+        rmaNumber: row.rma_number,
+        note: row.admin_note,
+        amountCents: model.refundCents ?? undefined,
+        currency: model.currency,
+        refundMethod: row.refund_method ?? undefined,
+        locale: row.locale ?? 'en',
+      });
+    } catch (error) {
+      console.error(`[OrderReturnService] Failed to send ${step} email of return ${row.id}:`, error);
+    }
+  }
+
+  private toRefundError(error: unknown): OrderReturnError {
+    if (!(error instanceof PaymentRefundError)) {
+      return new OrderReturnError('The refund could not be processed', 'REFUND_FAILED');
+    }
+
+    switch (error.code) {
+      case 'REFUND_AMOUNT_EXCEEDED':
+      case 'REFUND_LINE_EXCEEDED':
+        return new OrderReturnError('The refund exceeds what is still refundable on this order line', 'REFUND_AMOUNT_EXCEEDED');
+      case 'REFUND_UNAVAILABLE':
+        return new OrderReturnError('The original payment cannot be refunded automatically; refund to wallet credit instead', 'REFUND_UNAVAILABLE');
+      case 'PAYMENT_NOT_REFUNDABLE':
+        return new OrderReturnError('Only paid orders can be refunded', 'ORDER_NOT_RETURNABLE');
+      case 'PAYMENT_NOT_FOUND':
+        return new OrderReturnError('Order of the return not found', 'RETURN_NOT_FOUND');
+      default:
+        return new OrderReturnError('The refund could not be processed', 'REFUND_FAILED');
+    }
+  }
+
+  private toOrderReturnError(error: unknown): unknown {
+    if (error instanceof OrderReturnError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? '');
+
+    if (message.includes('order_item_not_found')) {
+      return new OrderReturnError('Order line not found', 'ORDER_ITEM_NOT_FOUND');
+    }
+    if (message.includes('order_not_returnable')) {
+      return new OrderReturnError('Only paid orders can be returned', 'ORDER_NOT_RETURNABLE');
+    }
+    if (message.includes('return_quantity_exceeded')) {
+      return new OrderReturnError('More units than those still returnable on this line', 'RETURN_QUANTITY_EXCEEDED');
+    }
+
+    return error;
+  }
+}
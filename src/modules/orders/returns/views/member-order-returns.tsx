@@ -0,0 +1,271 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+import type { Locale } from '@/i18n/config';
+import {
+  MAX_ORDER_RETURN_PHOTOS,
+  ORDER_RETURN_REASONS,
+  RETURNABLE_ORDER_STATUSES,
+  type OrderReturn,
+  type OrderReturnReason,
+} from '../domain/models/order-return';
+import { OrderReturnsRepositoryFactory } from '../repositories/order-returns-repository';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+export interface MemberOrderReturnsCopy {
+  title: string;
+  description: string;
+  requestReturn: string;
+  dialogTitle: string;
+  dialogDescription: string;
+  quantity: string;
+  reason: string;
+  reasons: Record<string, string>;
+  details: string;
+  detailsPlaceholder: string;
+  photos: string;
+  photosHelper: string;
+  submit: string;
+  submitting: string;
+  cancel: string;
+  success: string;
+  error: string;
+  rma: string;
+  refunded: string;
+  statuses: Record<string, string>;
+}
+
+interface MemberOrderReturnsProps {
+  order: {
+    id: string;
+    status: string;
+    currency: string;
+    items: { id: string; qty: number; name: string }[];
+  };
+  copy: MemberOrderReturnsCopy;
+  lang: Locale;
+}
+
+const formatMoney = (cents: number, currency: string, locale: Locale) => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(cents / 100);
+  } catch (_error) {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+/**
+ * Returns of an order for its member: the lines that can still be returned, with the request
+ * dialog, and the status of every return already requested
+ */
+export function MemberOrderReturns({ order, copy, lang }: MemberOrderReturnsProps) {
+  const repository = useMemo(() => OrderReturnsRepositoryFactory.createForMember(), []);
+  const { toast } = useToast();
+
+  const [returns, setReturns] = useState<OrderReturn[]>([]);
+  const [requestingItem, setRequestingItem] = useState<MemberOrderReturnsProps['order']['items'][number] | null>(null);
+  const [quantity, setQuantity] = useState('1');
+  const [reason, setReason] = useState<OrderReturnReason>('damaged');
+  const [details, setDetails] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadReturns = useCallback(async () => {
+    try {
+      setReturns(await repository.listForOrder(order.id));
+    } catch (loadError) {
+      console.error('[order-returns] load failed', loadError);
+    }
+  }, [repository, order.id]);
+
+  useEffect(() => {
+    loadReturns();
+  }, [loadReturns]);
+
+  const isReturnable = (RETURNABLE_ORDER_STATUSES as readonly string[]).includes(order.status);
+
+  const remainingUnits = (itemId: string, qty: number) =>
+    qty -
+    returns
+      .filter((entry) => entry.orderItemId === itemId && entry.status !== 'rejected')
+      .reduce((total, entry) => total + entry.quantity, 0);
+
+  const openRequest = (item: MemberOrderReturnsProps['order']['items'][number]) => {
+    setRequestingItem(item);
+    setQuantity('1');
+    setReason('damaged');
+    setDetails('');
+    setPhotos([]);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!requestingItem) return;
+
+    const form = new FormData();
+    form.set('orderItemId', requestingItem.id);
+    form.set('quantity', quantity);
+    form.set('reason', reason);
+    form.set('details', details.trim());
+    form.set('locale', lang);
+    photos.forEach((photo) => form.append('photos', photo));
+
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      await repository.request(order.id, form);
+      toast({ title: copy.success });
+      setRequestingItem(null);
+      await loadReturns();
+    } catch (requestError) {
+      setFormError(requestError instanceof Error ? requestError.message : copy.error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isReturnable && returns.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t pt-6 space-y-4">
+      <div>
+        <h3 className="font-semibold">{copy.title}</h3>
+        <p className="text-sm text-muted-foreground">{copy.description}</p>
+      </div>
+
+      {isReturnable && (
+        <div className="space-y-2">
+          {order.items.map((item) => {
+            const remaining = remainingUnits(item.id, item.qty);
+            return (
+              <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>{item.name}</span>
+                <Button size="sm" variant="outline" disabled={remaining <= 0} onClick={() => openRequest(item)}>
+                  {copy.requestReturn}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {returns.length > 0 && (
+        <ul className="space-y-2">
+          {returns.map((entry) => (
+            <li key={entry.id} className="rounded-md border p-3 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">
+                  {entry.productName} × {entry.quantity}
+                </span>
+                <Badge variant="secondary">{copy.statuses[entry.status] ?? entry.status}</Badge>
+              </div>
+              <p className="text-muted-foreground">
+                {copy.reasons[entry.reason] ?? entry.reason}
+                {entry.rmaNumber ? ` · ${copy.rma.replace('{{value}}', entry.rmaNumber)}` : ''}
+                {entry.refundCents !== null
+                  ? ` · ${copy.refunded.replace('{{value}}', formatMoney(entry.refundCents, entry.currency, lang))}`
+                  : ''}
+              </p>
+              {entry.adminNote && <p>{entry.adminNote}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={Boolean(requestingItem)} onOpenChange={(open) => !open && setRequestingItem(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{copy.dialogTitle}</DialogTitle>
+            <DialogDescription>
+              {copy.dialogDescription.replace('{{product}}', requestingItem?.name ?? '')}
+            </DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label className="text-sm font-medium" htmlFor="order-return-quantity">
+                {copy.quantity}
+              </label>
+              <Input
+                id="order-return-quantity"
+                type="number"
+                step={1}
+                min={1}
+                max={requestingItem ? remainingUnits(requestingItem.id, requestingItem.qty) : undefined}
+                value={quantity}
+                onChange={(event) => setQuantity(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{copy.reason}</label>
+              <Select value={reason} onValueChange={(value) => setReason(value as OrderReturnReason)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDER_RETURN_REASONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {copy.reasons[option] ?? option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium" htmlFor="order-return-details">
+                {copy.details}
+              </label>
+              <Textarea
+                id="order-return-details"
+                value={details}
+                maxLength={1000}
+                placeholder={copy.detailsPlaceholder}
+                onChange={(event) => setDetails(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium" htmlFor="order-return-photos">
+                {copy.photos}
+              </label>
+              <Input
+                id="order-return-photos"
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/gif"
+                multiple
+                onChange={(event) => setPhotos(Array.from(event.target.files ?? []).slice(0, MAX_ORDER_RETURN_PHOTOS))}
+              />
+              <p className="text-xs text-muted-foreground">
+                {copy.photosHelper.replace('{{count}}', String(MAX_ORDER_RETURN_PHOTOS))}
+              </p>
+            </div>
+            {formError && <p className="text-sm text-destructive">{formError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setRequestingItem(null)}>
+                {copy.cancel}
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? copy.submitting : copy.submit}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
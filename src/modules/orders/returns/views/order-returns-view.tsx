@@ -0,0 +1,423 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Image from 'next/image';
+import type { Locale } from '@/i18n/config';
+import {
+  ORDER_RETURN_REFUND_METHODS,
+  ORDER_RETURN_STATUSES,
+  type OrderReturn,
+  type OrderReturnRefundInput,
+  type OrderReturnRefundMethod,
+  type OrderReturnStatus,
+  type OrderReturnsDictionary,
+} from '../domain/models/order-return';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+export type OrderReturnsScope = 'review' | 'warehouse';
+
+interface OrderReturnsViewProps {
+  dictionary: OrderReturnsDictionary;
+  lang: Locale;
+  scope: OrderReturnsScope;
+  status: OrderReturnStatus | null;
+  returns: OrderReturn[];
+  loading: boolean;
+  error: string | null;
+  submitting: boolean;
+  onStatusChange: (status: OrderReturnStatus | null) => void;
+  onRefresh: () => void;
+  onApprove: (id: string, note: string | null) => Promise<OrderReturn>;
+  onReject: (id: string, note: string | null) => Promise<OrderReturn>;
+  onReceive: (id: string) => Promise<OrderReturn>;
+  onRefund: (id: string, input: OrderReturnRefundInput) => Promise<OrderReturn>;
+}
+
+type ReviewAction = 'approve' | 'reject';
+
+const ALL_STATUSES = 'all';
+
+const STATUS_BADGE: Record<OrderReturnStatus, string> = {
+  requested: 'bg-amber-100 text-amber-900 dark:bg-amber-500/20 dark:text-amber-100',
+  approved: 'bg-sky-100 text-sky-900 dark:bg-sky-500/20 dark:text-sky-100',
+  rejected: 'bg-rose-100 text-rose-900 dark:bg-rose-500/20 dark:text-rose-100',
+  received: 'bg-violet-100 text-violet-900 dark:bg-violet-500/20 dark:text-violet-100',
+  refunded: 'bg-emerald-100 text-emerald-900 dark:bg-emerald-500/20 dark:text-emerald-100',
+};
+
+const formatMoney = (cents: number, currency: string, locale: Locale) => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(cents / 100);
+  } catch (_error) {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+const toProductName = (orderReturn: OrderReturn) =>
+  orderReturn.variantLabel ? `${orderReturn.productName} (${orderReturn.variantLabel})` : orderReturn.productName;
+
+export const OrderReturnsView = ({
+  dictionary,
+  lang,
+  scope,
+  status,
+  returns,
+  loading,
+  error,
+  submitting,
+  onStatusChange,
+  onRefresh,
+  onApprove,
+  onReject,
+  onReceive,
+  onRefund,
+}: OrderReturnsViewProps) => {
+  const { toast } = useToast();
+  const [reviewing, setReviewing] = useState<{ orderReturn: OrderReturn; action: ReviewAction } | null>(null);
+  const [note, setNote] = useState('');
+  const [refunding, setRefunding] = useState<OrderReturn | null>(null);
+  const [refundMethod, setRefundMethod] = useState<OrderReturnRefundMethod>('original');
+  const [refundAmount, setRefundAmount] = useState('');
+  const [photosOf, setPhotosOf] = useState<OrderReturn | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const openReview = (orderReturn: OrderReturn, action: ReviewAction) => {
+    setReviewing({ orderReturn, action });
+    setNote('');
+    setFormError(null);
+  };
+
+  const openRefund = (orderReturn: OrderReturn) => {
+    setRefunding(orderReturn);
+    setRefundMethod(orderReturn.gateway === 'wallet' ? 'wallet' : 'original');
+    setRefundAmount(((orderReturn.unitPriceCents * orderReturn.quantity) / 100).toFixed(2));
+    setNote('');
+    setFormError(null);
+  };
+
+  const handleReview = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!reviewing) return;
+
+    setFormError(null);
+    try {
+      const action = reviewing.action === 'approve' ? onApprove : onReject;
+      await action(reviewing.orderReturn.id, note.trim() || null);
+      toast({
+        title: reviewing.action === 'approve' ? dictionary.success.approved : dictionary.success.rejected,
+      });
+      setReviewing(null);
+    } catch (reviewError) {
+      setFormError(reviewError instanceof Error ? reviewError.message : dictionary.error.title);
+    }
+  };
+
+  const handleRefund = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!refunding) return;
+
+    const amountCents = Math.round(Number.parseFloat(refundAmount) * 100);
+    if (!Number.isFinite(amountCents) || amountCents <= 0) {
+      setFormError(dictionary.refundForm.amount);
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await onRefund(refunding.id, { method: refundMethod, amountCents, note: note.trim() || null });
+      toast({ title: dictionary.success.refunded });
+      setRefunding(null);
+    } catch (refundError) {
+      setFormError(refundError instanceof Error ? refundError.message : dictionary.error.title);
+    }
+  };
+
+  const handleReceive = async (orderReturn: OrderReturn) => {
+    try {
+      await onReceive(orderReturn.id);
+      toast({ title: dictionary.success.received });
+    } catch (receiveError) {
+      toast({
+        title: dictionary.error.title,
+        description: receiveError instanceof Error ? receiveError.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+            {scope === 'warehouse' ? dictionary.warehouseTitle : dictionary.title}
+          </h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-300">
+            {scope === 'warehouse' ? dictionary.warehouseDescription : dictionary.description}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {scope === 'review' && (
+            <Select
+              value={status ?? ALL_STATUSES}
+              onValueChange={(value) => onStatusChange(value === ALL_STATUSES ? null : (value as OrderReturnStatus))}
+            >
+              <SelectTrigger className="w-44" aria-label={dictionary.filters.status}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>{dictionary.filters.all}</SelectItem>
+                {ORDER_RETURN_STATUSES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {dictionary.statuses[option] ?? option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" onClick={onRefresh} disabled={loading}>
+            {dictionary.refresh}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-rose-200 bg-rose-50 dark:border-rose-500/30 dark:bg-rose-500/10">
+          <CardHeader>
+            <CardTitle className="text-rose-900 dark:text-rose-100">{dictionary.error.title}</CardTitle>
+            <CardDescription className="text-rose-700 dark:text-rose-200">{error}</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={onRefresh}>{dictionary.error.retry}</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {loading && returns.length === 0 ? (
+        <div className="h-32 animate-pulse rounded-xl bg-zinc-200/60 dark:bg-zinc-800/60" />
+      ) : returns.length === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">{dictionary.empty}</p>
+      ) : (
+        <Card className="border-primary/15 bg-white/60 dark:border-primary/20 dark:bg-zinc-900/40">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{dictionary.table.rma}</TableHead>
+                  <TableHead>{dictionary.table.product}</TableHead>
+                  <TableHead>{dictionary.table.customer}</TableHead>
+                  <TableHead>{dictionary.table.reason}</TableHead>
+                  <TableHead>{dictionary.table.status}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.refund}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.actions}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {returns.map((orderReturn) => (
+                  <TableRow key={orderReturn.id}>
+                    <TableCell className="font-mono text-xs">
+                      {orderReturn.rmaNumber ?? orderReturn.orderId.substring(0, 8).toUpperCase()}
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {toProductName(orderReturn)}
+                      <span className="ml-2 text-zinc-600 dark:text-zinc-300">× {orderReturn.quantity}</span>
+                    </TableCell>
+                    <TableCell>
+                      <p>{orderReturn.customerName ?? '—'}</p>
+                      {orderReturn.customerEmail && (
+                        <p className="text-xs text-zinc-500 dark:text-zinc-400">{orderReturn.customerEmail}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <p>{dictionary.reasons[orderReturn.reason] ?? orderReturn.reason}</p>
+                      {orderReturn.details && (
+                        <p className="max-w-xs text-xs text-zinc-500 dark:text-zinc-400">{orderReturn.details}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGE[orderReturn.status]}>
+                        {dictionary.statuses[orderReturn.status] ?? orderReturn.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {orderReturn.refundCents !== null
+                        ? `${formatMoney(orderReturn.refundCents, orderReturn.currency, lang)} · ${
+                            dictionary.refundMethods[orderReturn.refundMethod ?? ''] ?? orderReturn.refundMethod
+                          }`
+                        : formatMoney(orderReturn.unitPriceCents * orderReturn.quantity, orderReturn.currency, lang)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {orderReturn.photoUrls.length > 0 && (
+                          <Button size="sm" variant="ghost" onClick={() => setPhotosOf(orderReturn)}>
+                            {dictionary.actions.photos}
+                          </Button>
+                        )}
+                        {scope === 'review' && orderReturn.status === 'requested' && (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => openReview(orderReturn, 'reject')}>
+                              {dictionary.actions.reject}
+                            </Button>
+                            <Button size="sm" onClick={() => openReview(orderReturn, 'approve')}>
+                              {dictionary.actions.approve}
+                            </Button>
+                          </>
+                        )}
+                        {scope === 'review' && orderReturn.status === 'received' && (
+                          <Button size="sm" onClick={() => openRefund(orderReturn)}>
+                            {dictionary.actions.refund}
+                          </Button>
+                        )}
+                        {scope === 'warehouse' && orderReturn.status === 'approved' && (
+                          <Button size="sm" onClick={() => handleReceive(orderReturn)} disabled={submitting}>
+                            {submitting ? dictionary.actions.submitting : dictionary.actions.receive}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={Boolean(reviewing)} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.action === 'reject' ? dictionary.review.rejectTitle : dictionary.review.approveTitle}
+            </DialogTitle>
+            {reviewing && <DialogDescription>{toProductName(reviewing.orderReturn)}</DialogDescription>}
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleReview}>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor="order-return-note">
+                {dictionary.review.note}
+              </label>
+              <Textarea
+                id="order-return-note"
+                value={note}
+                maxLength={1000}
+                placeholder={dictionary.review.notePlaceholder}
+                onChange={(event) => setNote(event.target.value)}
+              />
+            </div>
+            {formError && <p className="text-sm text-rose-600 dark:text-rose-300">{formError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setReviewing(null)}>
+                {dictionary.actions.cancel}
+              </Button>
+              <Button
+                type="submit"
+                variant={reviewing?.action === 'reject' ? 'destructive' : 'default'}
+                disabled={submitting}
+              >
+                {submitting
+                  ? dictionary.actions.submitting
+                  : reviewing?.action === 'reject'
+                    ? dictionary.actions.reject
+                    : dictionary.actions.approve}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(refunding)} onOpenChange={(open) => !open && setRefunding(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {dictionary.refundForm.title}
+              {refunding?.rmaNumber ? ` · ${refunding.rmaNumber}` : ''}
+            </DialogTitle>
+            <DialogDescription>{dictionary.refundForm.description}</DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleRefund}>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{dictionary.refundForm.method}</label>
+              <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as OrderReturnRefundMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDER_RETURN_REFUND_METHODS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {dictionary.refundMethods[option] ?? option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor="order-return-amount">
+                {dictionary.refundForm.amount}
+                {refunding ? ` (${refunding.currency})` : ''}
+              </label>
+              <Input
+                id="order-return-amount"
+                type="number"
+                step="0.01"
+                min={0.01}
+                max={refunding ? (refunding.unitPriceCents * refunding.quantity) / 100 : undefined}
+                value={refundAmount}
+                onChange={(event) => setRefundAmount(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor="order-return-refund-note">
+                {dictionary.refundForm.note}
+              </label>
+              <Textarea
+                id="order-return-refund-note"
+                value={note}
+                maxLength={1000}
+                onChange={(event) => setNote(event.target.value)}
+              />
+            </div>
+            {formError && <p className="text-sm text-rose-600 dark:text-rose-300">{formError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setRefunding(null)}>
+                {dictionary.actions.cancel}
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? dictionary.actions.submitting : dictionary.actions.refund}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(photosOf)} onOpenChange={(open) => !open && setPhotosOf(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{photosOf ? toProductName(photosOf) : dictionary.actions.photos}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {photosOf?.photoUrls.map((url) => (
+              <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="relative block h-48">
+                <Image src={url} alt="" fill unoptimized className="rounded-md object-cover" sizes="(min-width: 640px) 50vw, 100vw" />
+              </a>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CheckoutCartError, CheckoutCartService } from '../checkout-cart-service';
+import { ProductPriceError, type CheckoutPricing } from '@/modules/products/services/product-price-service';
+
+const prices = { resolveCheckoutPricing: vi.fn(), priceCartItems: vi.fn() };
+const shipping = { resolveCheckoutShipping: vi.fn() };
+const tax = { resolveCheckoutTax: vi.fn() };
+const promotions = { resolveCheckoutPromotion: vi.fn() };
+
+vi.mock('@/modules/products/services/product-price-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/modules/products/services/product-price-service')>()),
+  ProductPriceService: vi.fn().mockImplementation(function () {
+    return prices;
+  }),
+}));
+
+vi.mock('../../shipping/services/shipping-rate-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../shipping/services/shipping-rate-service')>()),
+  ShippingRateService: vi.fn().mockImplementation(function () {
+    return shipping;
+  }),
+}));
+
+vi.mock('../../tax/services/tax-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../tax/services/tax-service')>()),
+  TaxService: vi.fn().mockImplementation(function () {
+    return tax;
+  }),
+}));
+
+vi.mock('../../promotions/services/promotion-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../promotions/services/promotion-service')>()),
+  PromotionService: vi.fn().mockImplementation(function () {
+    return promotions;
+  }),
+}));
+
+const cartItems = [{ productId: 'product-1', quantity: 2, priceCents: 2500 }];
+
+const basePricing: CheckoutPricing = {
+  currency: 'USD',
+  baseCurrency: 'USD',
+  fxRate: 1,
+  unitPrices: new Map([['product-1', 2500]]),
+  baseUnitPrices: new Map([['product-1', 2500]]),
+};
+
+const checkoutShipping = { rateId: 'rate-1', carrierId: null, amountCents: 500, country: 'MX', state: null };
+
+describe('CheckoutCartService', () => {
+  let service: CheckoutCartService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prices.resolveCheckoutPricing.mockResolvedValue(basePricing);
+    prices.priceCartItems.mockImplementation((items) => items);
+    shipping.resolveCheckoutShipping.mockResolvedValue(checkoutShipping);
+    tax.resolveCheckoutTax.mockResolvedValue(null);
+    promotions.resolveCheckoutPromotion.mockResolvedValue(null);
+    service = new CheckoutCartService({} as SupabaseClient);
+  });
+
+  it('totals the cart with the shipping, tax and promotions quoted by the server', async () => {
+    tax.resolveCheckoutTax.mockResolvedValue({ amountCents: 400, country: 'MX', region: null, pricesIncludeTax: false });
+    promotions.resolveCheckoutPromotion.mockResolvedValue({ promotionIds: ['promo-1'], couponCode: null, discountCents: 1000 });
+
+    const checkout = await service.priceCheckout({
+      userId: 'member-1',
+      cartItems,
+      metadata: { intent: 'checkout', shippingRateId: 'rate-1' },
+      requestedCurrency: 'usd',
+    });
+
+    expect(prices.resolveCheckoutPricing).toHaveBeenCalledWith({ userId: 'member-1', cartItems, requestedCurrency: 'usd' });
+    expect(checkout).toMatchObject({
+      currency: 'USD',
+      shippingCents: 500,
+      discountCents: 1000,
+      totalCents: 5000 + 500 + 400 - 1000,
+    });
+    expect(checkout.metadata).toMatchObject({ intent: 'checkout', shippingRateId: 'rate-1', shippingCents: 500 });
+  });
+
+  it('quotes shipping and promotions on base prices and converts them into a local currency', async () => {
+    prices.resolveCheckoutPricing.mockResolvedValue({
+      currency: 'MXN',
+      baseCurrency: 'USD',
+      fxRate: 17.5,
+      unitPrices: new Map([['product-1', 45000]]),
+      baseUnitPrices: new Map([['product-1', 2500]]),
+    });
+    promotions.resolveCheckoutPromotion.mockResolvedValue({ promotionIds: ['promo-1'], couponCode: null, discountCents: 200 });
+    const localItems = [{ productId: 'product-1', quantity: 2, priceCents: 45000 }];
+
+    const checkout = await service.priceCheckout({ userId: 'member-1', cartItems: localItems, metadata: {}, requestedCurrency: 'MXN' });
+
+    expect(shipping.resolveCheckoutShipping).toHaveBeenCalledWith({ metadata: {}, cartItems: cartItems });
+    expect(promotions.resolveCheckoutPromotion).toHaveBeenCalledWith(expect.objectContaining({ cartItems, shippingCents: 500 }));
+    expect(tax.resolveCheckoutTax).toHaveBeenCalledWith({ metadata: {}, cartItems: localItems });
+    expect(checkout).toMatchObject({
+      currency: 'MXN',
+      shippingCents: 8750,
+      discountCents: 3500,
+      totalCents: 90000 + 8750 - 3500,
+    });
+  });
+
+  it('lets a price mismatch through before quoting anything else', async () => {
+    prices.priceCartItems.mockImplementation(() => {
+      throw new ProductPriceError('Price mismatch detected. Please refresh your cart.', 'PRICE_MISMATCH', 'product-1');
+    });
+
+    await expect(service.priceCheckout({ userId: 'member-1', cartItems, metadata: {} }))
+      .rejects.toMatchObject({ code: 'PRICE_MISMATCH', productId: 'product-1' });
+    expect(shipping.resolveCheckoutShipping).not.toHaveBeenCalled();
+  });
+
+  it('accepts a total off by a rounding cent and rejects any other total', () => {
+    expect(() => service.assertTotal({ totalCents: 5500 }, 5501)).not.toThrow();
+
+    const error = (() => {
+      try {
+        service.assertTotal({ totalCents: 5500 }, 5000);
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(CheckoutCartError);
+    expect(error).toMatchObject({ code: 'TOTAL_MISMATCH', expectedTotalCents: 5500 });
+  });
+});
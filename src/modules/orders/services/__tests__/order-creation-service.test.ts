@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { OrderCreationService } from '../order-creation-service';
+
+const commissions = { calculateAndCreateCommissions: vi.fn() };
+
+vi.mock('@/modules/multilevel/services/commission-calculator-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/modules/multilevel/services/commission-calculator-service')>()),
+  CommissionCalculatorService: vi.fn().mockImplementation(function () {
+    return commissions;
+  }),
+}));
+
+vi.mock('@/modules/multilevel/services/fx-rate-service', () => ({
+  FxRateService: vi.fn().mockImplementation(function () {
+    return { convertToBase: vi.fn().mockRejectedValue(new Error('No FX rate')) };
+  }),
+}));
+
+vi.mock('@/modules/multilevel/services/volume-service', () => ({
+  VolumeService: vi.fn().mockImplementation(function () {
+    return { recordOrder: vi.fn().mockResolvedValue(undefined) };
+  }),
+}));
+
+vi.mock('@/modules/products/services/stock-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/modules/products/services/stock-service')>()),
+  StockService: vi.fn().mockImplementation(function () {
+    return { recordCheckoutSale: vi.fn().mockResolvedValue(undefined) };
+  }),
+}));
+
+vi.mock('@/lib/services/audit-log-service', () => ({
+  logUserAction: vi.fn().mockResolvedValue(undefined),
+}));
+
+describe('OrderCreationService', () => {
+  let insertedOrder: Record<string, unknown> | null;
+  let service: OrderCreationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    insertedOrder = null;
+    commissions.calculateAndCreateCommissions.mockResolvedValue([]);
+
+    const query = {
+      insert: vi.fn((row: Record<string, unknown>) => {
+        insertedOrder = row;
+        return query;
+      }),
+      select: vi.fn(() => query),
+      single: vi.fn(() => Promise.resolve({ data: { id: 'order-1' }, error: null })),
+    };
+    service = new OrderCreationService({ from: vi.fn(() => query) } as unknown as SupabaseClient);
+  });
+
+  it('pays commissions on the merchandise without the shipping charge', async () => {
+    await service.createOrderFromPayment({
+      userId: 'buyer',
+      totalCents: 5500,
+      gateway: 'stripe',
+      metadata: { shippingRateId: 'rate-1', shippingCents: 500 },
+    });
+
+    expect(insertedOrder).toMatchObject({ total_cents: 5500, shipping_cents: 500, commission_base_cents: 5000 });
+    expect(commissions.calculateAndCreateCommissions).toHaveBeenCalledWith(
+      'buyer',
+      5000,
+      expect.objectContaining({ orderId: 'order-1' }),
+    );
+  });
+
+  it('pays commissions on the net amount of an order with sales tax', async () => {
+    await service.createOrderFromPayment({
+      userId: 'buyer',
+      totalCents: 5900,
+      gateway: 'stripe',
+      metadata: { shippingRateId: 'rate-1', shippingCents: 500, taxCents: 400, taxCountry: 'MX' },
+    });
+
+    expect(insertedOrder).toMatchObject({ total_cents: 5900, tax_cents: 400, commission_base_cents: 5000 });
+    expect(commissions.calculateAndCreateCommissions).toHaveBeenCalledWith('buyer', 5000, expect.anything());
+  });
+
+  it('takes tax included in the prices out of the commission base', async () => {
+    await service.createOrderFromPayment({
+      userId: 'buyer',
+      totalCents: 5800,
+      gateway: 'stripe',
+      metadata: { taxCents: 800, taxCountry: 'MX', pricesIncludeTax: true },
+    });
+
+    expect(insertedOrder).toMatchObject({ prices_include_tax: true, commission_base_cents: 5000 });
+    expect(commissions.calculateAndCreateCommissions).toHaveBeenCalledWith('buyer', 5000, expect.anything());
+  });
+});
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  fromBaseCents,
+  ProductPriceService,
+  toBaseCartItems,
+  type CheckoutPricing,
+  type PricedCartItem,
+} from '@/modules/products/services/product-price-service';
+import { ShippingRateService, withCheckoutShipping, type CheckoutShipping } from '../shipping/services/shipping-rate-service';
+import { getChargedTaxCents, TaxService, withCheckoutTax, type CheckoutTax } from '../tax/services/tax-service';
+import { PromotionService, withCheckoutPromotion, type CheckoutPromotion } from '../promotions/services/promotion-service';
+
+export type CheckoutCartErrorCode = 'TOTAL_MISMATCH';
+
+export class CheckoutCartError extends Error {
+  constructor(
+    message: string,
+    public readonly code: CheckoutCartErrorCode,
+    public readonly expectedTotalCents: number,
+  ) {
+    super(message);
+    this.name = 'CheckoutCartError';
+  }
+}
+
+export const CHECKOUT_CART_ERROR_STATUS: Record<CheckoutCartErrorCode, number> = {
+  TOTAL_MISMATCH: 400,
+};
+
+// Allowed rounding difference between the total shown to the buyer and the server total
+const TOTAL_TOLERANCE_CENTS = 1;
+
+export interface CheckoutCartItem extends PricedCartItem {
+  quantity: number;
+}
+
+/**
+ * A cart priced on the server: the lines at catalog prices and the shipping, tax and promotions
+ * quoted for them, all in the currency of the order
+ */
+export interface PricedCheckout<T extends CheckoutCartItem> {
+  pricing: CheckoutPricing;
+  currency: string;
+  items: T[];
+  shipping: CheckoutShipping | null;
+  shippingCents: number;
+  tax: CheckoutTax | null;
+  promotion: CheckoutPromotion | null;
+  discountCents: number;
+  totalCents: number;
+  /** Checkout metadata with the verified shipping, tax and promotion, as stored on the order */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Prices a checkout cart on the server, whatever gateway charges it. Every amount the client sends
+ * (line prices, shipping, tax, discounts and the total) is checked against a fresh quote, so the
+ * order is created with server amounts only.
+ */
+export class CheckoutCartService {
+  private readonly prices: ProductPriceService;
+
+  constructor(private readonly client: SupabaseClient) {
+    this.prices = new ProductPriceService(client);
+  }
+
+  async priceCheckout<T extends CheckoutCartItem>(input: {
+    userId: string;
+    cartItems: T[];
+    metadata: Record<string, unknown> | null | undefined;
+    requestedCurrency?: string | null;
+  }): Promise<PricedCheckout<T>> {
+    const { userId, cartItems } = input;
+    const metadata = input.metadata ?? {};
+
+    const pricing = await this.prices.resolveCheckoutPricing({ userId, cartItems, requestedCurrency: input.requestedCurrency });
+    const items = this.prices.priceCartItems(cartItems, pricing);
+
+    // Shipping rates and promotions are defined in the base currency, so they are quoted on the
+    // base prices of the cart and converted into the order currency
+    const baseItems = toBaseCartItems(items, pricing);
+    const shipping = await new ShippingRateService(this.client).resolveCheckoutShipping({ metadata, cartItems: baseItems });
+    const shippingCents = fromBaseCents(shipping?.amountCents ?? 0, pricing);
+
+    const tax = await new TaxService(this.client).resolveCheckoutTax({ metadata, cartItems: items });
+
+    const promotion = await new PromotionService(this.client).resolveCheckoutPromotion({
+      metadata,
+      cartItems: baseItems,
+      userId,
+      shippingCents: shipping?.amountCents ?? 0,
+    });
+    const discountCents = fromBaseCents(promotion?.discountCents ?? 0, pricing);
+
+    const totalCents = items.reduce((sum, item) => sum + item.priceCents * item.quantity, 0)
+      + shippingCents
+      // Prices including tax already carry it
+      + getChargedTaxCents(tax)
+      - discountCents;
+
+    return {
+      pricing,
+      currency: pricing.currency,
+      items,
+      shipping,
+      shippingCents,
+      tax,
+      promotion,
+      discountCents,
+      totalCents,
+      metadata: withCheckoutPromotion(withCheckoutTax(withCheckoutShipping(metadata, shipping), tax), promotion),
+    };
+  }
+
+  /**
+   * The total the buyer accepted must be the server total, up to rounding
+   */
+  assertTotal(checkout: Pick<PricedCheckout<CheckoutCartItem>, 'totalCents'>, amountCents: number): void {
+    if (Math.abs(checkout.totalCents - amountCents) > TOTAL_TOLERANCE_CENTS) {
+      throw new CheckoutCartError('Total amount mismatch. Please refresh your cart.', 'TOTAL_MISMATCH', checkout.totalCents);
+    }
+  }
+}
@@ -1,19 +1,30 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { CommissionCalculatorService } from '@/modules/multilevel/services/commission-calculator-service';
+import {
+  CommissionCalculatorService,
+  resolveCommissionBaseCents,
+} from '@/modules/multilevel/services/commission-calculator-service';
+import { FxRateService } from '@/modules/multilevel/services/fx-rate-service';
+import { VolumeService } from '@/modules/multilevel/services/volume-service';
+import { StockService } from '@/modules/products/services/stock-service';
 import { logUserAction } from '@/lib/services/audit-log-service';
+import { readCheckoutShipping } from '../shipping/services/shipping-rate-service';
+import { readCheckoutTax, TaxService } from '../tax/services/tax-service';
+import { PromotionService, readCheckoutPromotion } from '../promotions/services/promotion-service';
 
 interface CartItem {
   productId: string;
   productName?: string;
   quantity: number;
   priceCents: number;
+  variantId?: string | null;
+  variantLabel?: string | null;
 }
 
 interface OrderCreationParams {
   userId: string;
   totalCents: number;
   currency?: string;
-  gateway: 'stripe' | 'paypal' | 'wallet';
+  gateway: 'stripe' | 'paypal' | 'wallet' | 'authorize_net' | 'mercadopago';
   gatewayTransactionId?: string;
   metadata?: Record<string, unknown>;
   cartItems?: CartItem[];
@@ -44,11 +55,18 @@ export class OrderCreationService {
       gatewayTransactionId,
       metadata = {},
       cartItems = [],
-      taxCents = 0,
-      shippingCents = 0,
+      taxCents,
+      shippingCents,
       discountCents = 0,
     } = params;
 
+    // Shipping verified at checkout travels in the payment metadata
+    const shipping = readCheckoutShipping(metadata);
+    // So does the tax quoted for the checkout destination
+    const tax = readCheckoutTax(metadata);
+    // And the promotions, whose discount the total paid is already net of
+    const promotion = readCheckoutPromotion(metadata);
+
     console.log('[OrderCreationService] Creating order for user:', userId, {
       totalCents,
       gateway,
@@ -150,6 +168,27 @@ export class OrderCreationService {
       timestamp: new Date().toISOString(),
     };
 
+    // Reporting amount in the platform base currency; left empty when no FX rate is stored
+    let baseAmount: { base_currency: string; base_total_cents: number; fx_rate: number } | null = null;
+    try {
+      const conversion = await new FxRateService(this.client).convertToBase(totalCents, currency);
+      baseAmount = {
+        base_currency: conversion.currency,
+        base_total_cents: conversion.amountCents,
+        fx_rate: conversion.rate,
+      };
+    } catch (fxError) {
+      console.warn('[OrderCreationService] Could not convert order total to base currency:', fxError);
+    }
+
+    const orderShippingCents = shippingCents ?? shipping.amountCents ?? 0;
+    const orderTaxCents = taxCents ?? tax.amountCents ?? 0;
+    const commissionBaseCents = resolveCommissionBaseCents({
+      totalCents,
+      shippingCents: orderShippingCents,
+      taxCents: orderTaxCents,
+    });
+
     // Create the order
     const { data: order, error: orderError } = await this.client
       .from('orders')
@@ -157,10 +196,15 @@ export class OrderCreationService {
         user_id: userId,
         status: 'paid',
         total_cents: totalCents,
-        tax_cents: taxCents,
-        shipping_cents: shippingCents,
-        discount_cents: discountCents,
+        tax_cents: orderTaxCents,
+        prices_include_tax: tax.pricesIncludeTax ?? false,
+        shipping_cents: orderShippingCents,
+        shipping_rate_id: shipping.rateId ?? null,
+        shipping_carrier_id: shipping.carrierId ?? null,
+        discount_cents: discountCents + (promotion.discountCents ?? 0),
+        commission_base_cents: commissionBaseCents,
         currency,
+        ...(baseAmount ?? {}),
         gateway,
         gateway_transaction_id: gatewayTransactionId || null,
         purchase_source: purchaseSource,
@@ -199,6 +243,8 @@ export class OrderCreationService {
       const orderItemsData = cartItems.map(item => ({
         order_id: orderId,
         product_id: item.productId,
+        variant_id: item.variantId ?? null,
+        variant_label: item.variantLabel ?? null,
         qty: item.quantity,
         price_cents: item.priceCents,
       }));
@@ -213,6 +259,32 @@ export class OrderCreationService {
       } else {
         console.log('[OrderCreationService] Order items created successfully');
       }
+
+      // Keep the tax breakdown per jurisdiction for the invoice and the tax report
+      try {
+        await new TaxService(this.client).recordOrderTax(orderId, metadata, cartItems);
+      } catch (taxError) {
+        console.error('[OrderCreationService] Failed to record order tax lines:', taxError);
+      }
+
+      // Count the promotions used towards their usage limits
+      if (promotion.discountCents) {
+        try {
+          await new PromotionService(this.client).recordOrderPromotions(orderId, userId, metadata, cartItems);
+        } catch (promotionError) {
+          console.error('[OrderCreationService] Failed to record order promotions:', promotionError);
+        }
+      }
+    }
+
+    // Discount the sold units, consuming the stock reserved by the checkout
+    const stockReservationKey = typeof metadata.stockReservationKey === 'string' ? metadata.stockReservationKey : null;
+    if (cartItems.length > 0 || stockReservationKey) {
+      try {
+        await new StockService(this.client).recordCheckoutSale(stockReservationKey, orderId);
+      } catch (stockError) {
+        console.error('[OrderCreationService] Failed to record stock sale:', stockError);
+      }
     }
 
     // Calculate and create network commissions
@@ -221,10 +293,11 @@ export class OrderCreationService {
       const commissionService = new CommissionCalculatorService(this.client);
       const commissions = await commissionService.calculateAndCreateCommissions(
         userId,
-        totalCents,
+        commissionBaseCents,
         {
           orderId,
           orderMetadata,
+          currency,
         }
       );
       commissionsCreated = commissions.length;
@@ -234,6 +307,15 @@ export class OrderCreationService {
       // Don't fail the order creation if commissions fail
     }
 
+    // Add the point value of the items to the personal and group volumes
+    if (cartItems.length > 0) {
+      try {
+        await new VolumeService(this.client).recordOrder(orderId);
+      } catch (volumeError) {
+        console.error('[OrderCreationService] Failed to record order volume:', volumeError);
+      }
+    }
+
     return {
       orderId,
       commissionsCreated,
@@ -52,6 +52,31 @@ interface CancellationNotificationParams {
   locale?: string;
 }
 
+export type ReturnUpdateStep = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded';
+
+interface ReturnUpdateParams {
+  step: ReturnUpdateStep;
+  orderId: string;
+  userEmail: string;
+  userName: string;
+  productName: string;
+  quantity: number;
+  rmaNumber?: string | null;
+  note?: string | null;
+  amountCents?: number;
+  currency?: string;
+  refundMethod?: string;
+  locale?: string;
+}
+
+const RETURN_TEMPLATE_IDS = {
+  requested: EMAIL_TEMPLATE_IDS.ORDER_RETURN_REQUESTED,
+  approved: EMAIL_TEMPLATE_IDS.ORDER_RETURN_APPROVED,
+  rejected: EMAIL_TEMPLATE_IDS.ORDER_RETURN_REJECTED,
+  received: EMAIL_TEMPLATE_IDS.ORDER_RETURN_RECEIVED,
+  refunded: EMAIL_TEMPLATE_IDS.ORDER_RETURN_REFUNDED,
+} as const;
+
 export class OrderNotificationService {
   private readonly templateService = createEmailTemplateService();
 
@@ -582,6 +607,94 @@ export class OrderNotificationService {
     }
   }
 
+  /**
+   * Send the email of a step of a return (RMA): request received, approved, rejected, goods
+   * received at the warehouse and refunded
+   */
+  async sendReturnUpdateEmail(params: ReturnUpdateParams): Promise<void> {
+    try {
+      const userId = await this.getUserIdFromEmail(params.userEmail);
+      if (!userId) {
+        console.log('[OrderNotificationService] User not found, skipping return email');
+        return;
+      }
+
+      const notificationsEnabled = await this.checkOrderNotificationsEnabled(userId);
+      if (!notificationsEnabled) {
+        console.log('[OrderNotificationService] Order notifications disabled for user, skipping return email');
+        return;
+      }
+
+      const locale = (params.locale === 'es' ? 'es' : 'en') as TemplateLocale;
+      const displayCode = params.orderId.slice(0, 8);
+      const amount =
+        typeof params.amountCents === 'number'
+          ? this.formatCurrency(params.amountCents, params.currency ?? 'USD')
+          : '';
+
+      const template = await this.templateService.getProcessedTemplate(
+        RETURN_TEMPLATE_IDS[params.step],
+        {
+          userName: params.userName,
+          orderCode: displayCode,
+          productName: params.productName,
+          quantity: params.quantity,
+          rmaNumber: params.rmaNumber ?? '',
+          note: params.note ?? '',
+          amount,
+          refundMethod: params.refundMethod ?? '',
+        },
+        locale
+      );
+
+      const fromName = process.env.CONTACT_FROM_NAME || 'PūrVita';
+      const fromEmail = process.env.CONTACT_FROM_EMAIL || 'noreply@purvita.com';
+      const fromAddress = `${fromName} <${fromEmail}>`;
+
+      if (template) {
+        await sendEmail({
+          from: fromAddress,
+          to: params.userEmail,
+          subject: template.subject,
+          html: template.html,
+        });
+        return;
+      }
+
+      const isSpanish = locale === 'es';
+      const item = `${params.quantity} × ${params.productName}`;
+      const rma = params.rmaNumber ? ` (RMA ${params.rmaNumber})` : '';
+      const lines: Record<ReturnUpdateStep, string> = isSpanish
+        ? {
+            requested: `Recibimos tu solicitud para devolver ${item} del pedido ${displayCode}. Te escribiremos con los siguientes pasos.`,
+            approved: `Aprobamos la devolución de ${item}${rma}. Escribe el número RMA en el paquete y envíalo a nuestra bodega.`,
+            rejected: `No pudimos aprobar la devolución de ${item} del pedido ${displayCode}.`,
+            received: `Nuestra bodega recibió ${item}${rma}. Procesaremos tu reembolso en breve.`,
+            refunded: `Reembolsamos ${amount} por la devolución de ${item}${rma} a ${params.refundMethod ?? ''}.`,
+          }
+        : {
+            requested: `We received your request to return ${item} from order ${displayCode}. We will email you the next steps.`,
+            approved: `We approved the return of ${item}${rma}. Write the RMA number on the package and send it back to our warehouse.`,
+            rejected: `We could not approve the return of ${item} from order ${displayCode}.`,
+            received: `Our warehouse received ${item}${rma}. We will process your refund shortly.`,
+            refunded: `We refunded ${amount} for the return of ${item}${rma} to ${params.refundMethod ?? ''}.`,
+          };
+
+      await sendEmail({
+        from: fromAddress,
+        to: params.userEmail,
+        subject: isSpanish ? `Devolución del pedido ${displayCode}` : `Return of order ${displayCode}`,
+        text: [
+          isSpanish ? `Hola ${params.userName},` : `Hi ${params.userName},`,
+          lines[params.step],
+          params.note ?? '',
+        ].filter(Boolean).join('\n\n'),
+      });
+    } catch (error) {
+      console.error('Error sending return update email:', error);
+    }
+  }
+
   /**
    * Helper: Get user ID from email
    */
@@ -0,0 +1,93 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type {
+  ShippingCarrierInput,
+  ShippingConfig,
+  ShippingRateInput,
+  ShippingSettingsDictionary,
+  ShippingZoneInput,
+} from '../domain/models/shipping';
+import { ShippingRepositoryFactory, type ShippingResource } from '../repositories/shipping-repository';
+import { ShippingSettingsView } from '../views/shipping-settings-view';
+
+interface ShippingSettingsControllerProps {
+  dictionary: ShippingSettingsDictionary;
+}
+
+const EMPTY_CONFIG: ShippingConfig = { zones: [], rates: [], carriers: [] };
+
+export const ShippingSettingsController = ({ dictionary }: ShippingSettingsControllerProps) => {
+  const repository = useMemo(() => ShippingRepositoryFactory.createForSettings(), []);
+
+  const [config, setConfig] = useState<ShippingConfig>(EMPTY_CONFIG);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadConfig = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setConfig(await repository.getConfig());
+    } catch (loadError) {
+      console.error('[shipping-settings] load failed', loadError);
+      setError(loadError instanceof Error ? loadError.message : dictionary.error.load);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, dictionary.error.load]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const run = useCallback(
+    async (action: () => Promise<unknown>) => {
+      setSubmitting(true);
+      try {
+        await action();
+        await loadConfig();
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [loadConfig],
+  );
+
+  const handleSaveZone = useCallback(
+    (input: ShippingZoneInput, id: string | null) => run(() => repository.saveZone(input, id)),
+    [repository, run],
+  );
+
+  const handleSaveRate = useCallback(
+    (input: ShippingRateInput, id: string | null) => run(() => repository.saveRate(input, id)),
+    [repository, run],
+  );
+
+  const handleSaveCarrier = useCallback(
+    (input: ShippingCarrierInput, id: string | null) => run(() => repository.saveCarrier(input, id)),
+    [repository, run],
+  );
+
+  const handleDelete = useCallback(
+    (resource: ShippingResource, id: string) => run(() => repository.remove(resource, id)),
+    [repository, run],
+  );
+
+  return (
+    <ShippingSettingsView
+      dictionary={dictionary}
+      config={config}
+      loading={loading}
+      error={error}
+      submitting={submitting}
+      onRefresh={loadConfig}
+      onSaveZone={handleSaveZone}
+      onSaveRate={handleSaveRate}
+      onSaveCarrier={handleSaveCarrier}
+      onDelete={handleDelete}
+    />
+  );
+};
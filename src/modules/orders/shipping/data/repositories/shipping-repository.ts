@@ -0,0 +1,246 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ShippingCarrier,
+  ShippingCarrierInput,
+  ShippingConfig,
+  ShippingRate,
+  ShippingRateBasis,
+  ShippingRateInput,
+  ShippingZone,
+  ShippingZoneInput,
+} from '../../domain/models/shipping';
+
+interface ShippingCarrierRow {
+  id: string;
+  name: string;
+  tracking_url_template: string | null;
+  is_active: boolean;
+}
+
+interface ShippingZoneRow {
+  id: string;
+  name: string;
+  country_codes: string[] | null;
+  state_codes: string[] | null;
+  free_shipping_main_cents: number | string | null;
+  free_shipping_affiliate_cents: number | string | null;
+  priority: number;
+  is_active: boolean;
+}
+
+interface ShippingRateRow {
+  id: string;
+  zone_id: string;
+  carrier_id: string | null;
+  name: string;
+  basis: ShippingRateBasis;
+  min_value: number | string;
+  max_value: number | string | null;
+  price_cents: number | string;
+  min_days: number | null;
+  max_days: number | null;
+  is_active: boolean;
+}
+
+const toNullableNumber = (value: number | string | null) => (value === null ? null : Number(value));
+
+const toCarrier = (row: ShippingCarrierRow): ShippingCarrier => ({
+  id: row.id,
+  name: row.name,
+  trackingUrlTemplate: row.tracking_url_template,
+  isActive: row.is_active,
+});
+
+const toZone = (row: ShippingZoneRow): ShippingZone => ({
+  id: row.id,
+  name: row.name,
+  countryCodes: row.country_codes ?? [],
+  stateCodes: row.state_codes ?? [],
+  freeShippingMainCents: toNullableNumber(row.free_shipping_main_cents),
+  freeShippingAffiliateCents: toNullableNumber(row.free_shipping_affiliate_cents),
+  priority: row.priority,
+  isActive: row.is_active,
+});
+
+const toRate = (row: ShippingRateRow): ShippingRate => ({
+  id: row.id,
+  zoneId: row.zone_id,
+  carrierId: row.carrier_id,
+  name: row.name,
+  basis: row.basis,
+  minValue: Number(row.min_value),
+  maxValue: toNullableNumber(row.max_value),
+  priceCents: Number(row.price_cents),
+  minDays: row.min_days,
+  maxDays: row.max_days,
+  isActive: row.is_active,
+});
+
+const toCarrierRow = (input: ShippingCarrierInput) => ({
+  name: input.name,
+  tracking_url_template: input.trackingUrlTemplate ?? null,
+  is_active: input.isActive,
+});
+
+const toZoneRow = (input: ShippingZoneInput) => ({
+  name: input.name,
+  country_codes: Array.from(new Set(input.countryCodes)),
+  state_codes: Array.from(new Set(input.stateCodes)),
+  free_shipping_main_cents: input.freeShippingMainCents ?? null,
+  free_shipping_affiliate_cents: input.freeShippingAffiliateCents ?? null,
+  priority: input.priority,
+  is_active: input.isActive,
+});
+
+const toRateRow = (input: ShippingRateInput) => ({
+  zone_id: input.zoneId,
+  carrier_id: input.carrierId ?? null,
+  name: input.name,
+  basis: input.basis,
+  min_value: input.minValue,
+  max_value: input.maxValue ?? null,
+  price_cents: input.priceCents,
+  min_days: input.minDays ?? null,
+  max_days: input.maxDays ?? null,
+  is_active: input.isActive,
+});
+
+export class ShippingRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async getConfig(): Promise<ShippingConfig> {
+    const [zones, rates, carriers] = await Promise.all([
+      this.client.from('shipping_zones').select('*').order('priority', { ascending: false }).order('name'),
+      this.client.from('shipping_rates').select('*').order('min_value'),
+      this.client.from('shipping_carriers').select('*').order('name'),
+    ]);
+
+    const error = zones.error ?? rates.error ?? carriers.error;
+    if (error) {
+      throw error;
+    }
+
+    return {
+      zones: ((zones.data ?? []) as ShippingZoneRow[]).map(toZone),
+      rates: ((rates.data ?? []) as ShippingRateRow[]).map(toRate),
+      carriers: ((carriers.data ?? []) as ShippingCarrierRow[]).map(toCarrier),
+    };
+  }
+
+  async findCarrier(id: string): Promise<ShippingCarrier | null> {
+    const { data, error } = await this.client.from('shipping_carriers').select('*').eq('id', id).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toCarrier(data as ShippingCarrierRow) : null;
+  }
+
+  async createCarrier(input: ShippingCarrierInput): Promise<ShippingCarrier> {
+    const { data, error } = await this.client.from('shipping_carriers').insert(toCarrierRow(input)).select('*').single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toCarrier(data as ShippingCarrierRow);
+  }
+
+  async updateCarrier(id: string, input: ShippingCarrierInput): Promise<ShippingCarrier | null> {
+    const { data, error } = await this.client
+      .from('shipping_carriers')
+      .update(toCarrierRow(input))
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toCarrier(data as ShippingCarrierRow) : null;
+  }
+
+  async createZone(input: ShippingZoneInput): Promise<ShippingZone> {
+    const { data, error } = await this.client.from('shipping_zones').insert(toZoneRow(input)).select('*').single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toZone(data as ShippingZoneRow);
+  }
+
+  async updateZone(id: string, input: ShippingZoneInput): Promise<ShippingZone | null> {
+    const { data, error } = await this.client
+      .from('shipping_zones')
+      .update(toZoneRow(input))
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toZone(data as ShippingZoneRow) : null;
+  }
+
+  async createRate(input: ShippingRateInput): Promise<ShippingRate> {
+    const { data, error } = await this.client.from('shipping_rates').insert(toRateRow(input)).select('*').single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toRate(data as ShippingRateRow);
+  }
+
+  async updateRate(id: string, input: ShippingRateInput): Promise<ShippingRate | null> {
+    const { data, error } = await this.client
+      .from('shipping_rates')
+      .update(toRateRow(input))
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toRate(data as ShippingRateRow) : null;
+  }
+
+  /**
+   * Deletes a zone (with its rates), rate or carrier. Returns false when it did not exist
+   */
+  async remove(table: 'shipping_zones' | 'shipping_rates' | 'shipping_carriers', id: string): Promise<boolean> {
+    const { data, error } = await this.client.from(table).delete().eq('id', id).select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Shipping weight of one unit of each product, in grams
+   */
+  async getProductWeights(productIds: string[]): Promise<Map<string, number>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.client.from('products').select('id, weight_grams').in('id', productIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Map(
+      ((data ?? []) as { id: string; weight_grams: number | null }[]).map((row) => [row.id, Number(row.weight_grams ?? 0)]),
+    );
+  }
+}
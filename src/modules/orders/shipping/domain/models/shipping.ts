@@ -0,0 +1,257 @@
+import { z } from 'zod';
+import { ISO_COUNTRY_CODES } from '@/modules/app-settings/domain/constants/iso-country-codes';
+
+export const SHIPPING_RATE_BASES = ['weight', 'price'] as const;
+export const SHIPPING_STORES = ['main_store', 'affiliate_store'] as const;
+
+/**
+ * Placeholder of the tracking code in the tracking URL template of a carrier
+ */
+export const TRACKING_CODE_PLACEHOLDER = '{{tracking}}';
+
+export type ShippingRateBasis = (typeof SHIPPING_RATE_BASES)[number];
+export type ShippingStore = (typeof SHIPPING_STORES)[number];
+
+export const ShippingCarrierSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  trackingUrlTemplate: z.string().nullable(),
+  isActive: z.boolean(),
+});
+
+export type ShippingCarrier = z.infer<typeof ShippingCarrierSchema>;
+
+export const ShippingZoneSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  countryCodes: z.array(z.string()),
+  stateCodes: z.array(z.string()),
+  freeShippingMainCents: z.number().nullable(),
+  freeShippingAffiliateCents: z.number().nullable(),
+  priority: z.number().int(),
+  isActive: z.boolean(),
+});
+
+export type ShippingZone = z.infer<typeof ShippingZoneSchema>;
+
+export const ShippingRateSchema = z.object({
+  id: z.string(),
+  zoneId: z.string(),
+  carrierId: z.string().nullable(),
+  name: z.string(),
+  basis: z.enum(SHIPPING_RATE_BASES),
+  /**
+   * Bracket of the rate: grams for weight rates, subtotal cents for price rates. The minimum is
+   * included and the maximum (null for none) excluded
+   */
+  minValue: z.number().int(),
+  maxValue: z.number().int().nullable(),
+  priceCents: z.number().int(),
+  minDays: z.number().int().nullable(),
+  maxDays: z.number().int().nullable(),
+  isActive: z.boolean(),
+});
+
+export type ShippingRate = z.infer<typeof ShippingRateSchema>;
+
+export const ShippingConfigSchema = z.object({
+  zones: ShippingZoneSchema.array(),
+  rates: ShippingRateSchema.array(),
+  carriers: ShippingCarrierSchema.array(),
+});
+
+export type ShippingConfig = z.infer<typeof ShippingConfigSchema>;
+
+const COUNTRY_CODES = new Set<string>(ISO_COUNTRY_CODES);
+
+const CountryCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine((value) => COUNTRY_CODES.has(value), 'Unknown country code');
+
+const optionalCents = z.number().int().nonnegative().nullable().optional();
+const optionalDays = z.number().int().nonnegative().max(365).nullable().optional();
+
+export const ShippingCarrierInputSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  trackingUrlTemplate: z
+    .string()
+    .trim()
+    .url()
+    .max(500)
+    .refine((value) => value.includes(TRACKING_CODE_PLACEHOLDER), `Include ${TRACKING_CODE_PLACEHOLDER} in the URL`)
+    .nullable()
+    .optional(),
+  isActive: z.boolean().default(true),
+});
+
+export type ShippingCarrierInput = z.infer<typeof ShippingCarrierInputSchema>;
+
+export const ShippingZoneInputSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  countryCodes: z.array(CountryCodeSchema).min(1).max(250),
+  stateCodes: z.array(z.string().trim().toUpperCase().min(1).max(60)).max(200).default([]),
+  freeShippingMainCents: optionalCents,
+  freeShippingAffiliateCents: optionalCents,
+  priority: z.number().int().min(-1000).max(1000).default(0),
+  isActive: z.boolean().default(true),
+});
+
+export type ShippingZoneInput = z.infer<typeof ShippingZoneInputSchema>;
+
+export const ShippingRateInputSchema = z
+  .object({
+    zoneId: z.string().uuid(),
+    carrierId: z.string().uuid().nullable().optional(),
+    name: z.string().trim().min(1).max(120),
+    basis: z.enum(SHIPPING_RATE_BASES),
+    minValue: z.number().int().nonnegative().default(0),
+    maxValue: z.number().int().positive().nullable().optional(),
+    priceCents: z.number().int().nonnegative(),
+    minDays: optionalDays,
+    maxDays: optionalDays,
+    isActive: z.boolean().default(true),
+  })
+  .refine((rate) => rate.maxValue == null || rate.maxValue > rate.minValue, {
+    message: 'The maximum must be greater than the minimum',
+    path: ['maxValue'],
+  })
+  .refine((rate) => rate.maxDays == null || rate.maxDays >= (rate.minDays ?? 0), {
+    message: 'The maximum days cannot be lower than the minimum days',
+    path: ['maxDays'],
+  });
+
+export type ShippingRateInput = z.infer<typeof ShippingRateInputSchema>;
+
+export const ShippingQuoteItemSchema = z.object({
+  productId: z.string().uuid(),
+  variantId: z.string().uuid().nullable().optional(),
+  quantity: z.number().int().positive(),
+  /**
+   * Unit price paid, after product discounts
+   */
+  priceCents: z.number().int().nonnegative(),
+});
+
+export type ShippingQuoteItem = z.infer<typeof ShippingQuoteItemSchema>;
+
+export const ShippingQuoteInputSchema = z.object({
+  country: CountryCodeSchema,
+  state: z.string().trim().max(60).nullable().optional(),
+  store: z.enum(SHIPPING_STORES).default('main_store'),
+  items: ShippingQuoteItemSchema.array().min(1).max(100),
+});
+
+export type ShippingQuoteInput = z.infer<typeof ShippingQuoteInputSchema>;
+
+export const ShippingQuoteOptionSchema = z.object({
+  rateId: z.string(),
+  carrierId: z.string().nullable(),
+  carrierName: z.string().nullable(),
+  name: z.string(),
+  amountCents: z.number().int(),
+  /**
+   * Price of the rate before the free-shipping threshold of the zone
+   */
+  rateCents: z.number().int(),
+  isFree: z.boolean(),
+  minDays: z.number().int().nullable(),
+  maxDays: z.number().int().nullable(),
+});
+
+export type ShippingQuoteOption = z.infer<typeof ShippingQuoteOptionSchema>;
+
+export const ShippingQuoteSchema = z.object({
+  /**
+   * False while no shipping zone is set up: checkout then charges no shipping
+   */
+  configured: z.boolean(),
+  zoneId: z.string().nullable(),
+  zoneName: z.string().nullable(),
+  /**
+   * Cheapest first; empty when no rate reaches the destination
+   */
+  options: ShippingQuoteOptionSchema.array(),
+  freeShippingThresholdCents: z.number().int().nullable(),
+  /**
+   * Subtotal still missing to ship free, when the zone has a threshold not yet reached
+   */
+  remainingForFreeShippingCents: z.number().int().nullable(),
+  subtotalCents: z.number().int(),
+  weightGrams: z.number().int(),
+});
+
+export type ShippingQuote = z.infer<typeof ShippingQuoteSchema>;
+
+export const ShippingSettingsDictionarySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  refresh: z.string(),
+  add: z.string(),
+  edit: z.string(),
+  delete: z.string(),
+  save: z.string(),
+  saving: z.string(),
+  cancel: z.string(),
+  active: z.string(),
+  inactive: z.string(),
+  confirmDelete: z.string(),
+  zones: z.object({
+    title: z.string(),
+    description: z.string(),
+    empty: z.string(),
+    name: z.string(),
+    countries: z.string(),
+    countriesHelper: z.string(),
+    states: z.string(),
+    statesHelper: z.string(),
+    allStates: z.string(),
+    freeShippingMain: z.string(),
+    freeShippingAffiliate: z.string(),
+    freeShippingHelper: z.string(),
+    noFreeShipping: z.string(),
+    priority: z.string(),
+    rates: z.string(),
+  }),
+  rates: z.object({
+    title: z.string(),
+    description: z.string(),
+    empty: z.string(),
+    zone: z.string(),
+    carrier: z.string(),
+    noCarrier: z.string(),
+    name: z.string(),
+    basis: z.string(),
+    bases: z.record(z.string(), z.string()),
+    minValue: z.string(),
+    maxValue: z.string(),
+    bracketHelper: z.record(z.string(), z.string()),
+    noLimit: z.string(),
+    price: z.string(),
+    deliveryDays: z.string(),
+    minDays: z.string(),
+    maxDays: z.string(),
+    days: z.string(),
+  }),
+  carriers: z.object({
+    title: z.string(),
+    description: z.string(),
+    empty: z.string(),
+    name: z.string(),
+    trackingUrlTemplate: z.string(),
+    trackingUrlHelper: z.string(),
+  }),
+  success: z.object({
+    saved: z.string(),
+    deleted: z.string(),
+  }),
+  error: z.object({
+    title: z.string(),
+    load: z.string(),
+    save: z.string(),
+    delete: z.string(),
+  }),
+});
+
+export type ShippingSettingsDictionary = z.infer<typeof ShippingSettingsDictionarySchema>;
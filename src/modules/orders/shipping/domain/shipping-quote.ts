@@ -0,0 +1,117 @@
+import {
+  TRACKING_CODE_PLACEHOLDER,
+  type ShippingConfig,
+  type ShippingQuote,
+  type ShippingQuoteOption,
+  type ShippingRate,
+  type ShippingStore,
+  type ShippingZone,
+} from './models/shipping';
+
+export interface ShippingParcel {
+  country: string;
+  state?: string | null;
+  store: ShippingStore;
+  subtotalCents: number;
+  weightGrams: number;
+}
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toUpperCase();
+
+/**
+ * Zone that ships to the destination. A zone listing the state of the destination wins over one
+ * covering the whole country; a zone listing other states only does not match. Ties go to the
+ * highest priority
+ */
+export const matchShippingZone = (zones: ShippingZone[], country: string, state?: string | null) => {
+  const countryCode = normalize(country);
+  const stateCode = normalize(state);
+
+  const candidates = zones
+    .filter((zone) => zone.isActive && zone.countryCodes.some((code) => normalize(code) === countryCode))
+    .map((zone) => {
+      const states = zone.stateCodes.map(normalize).filter(Boolean);
+      if (states.length === 0) {
+        return { zone, specificity: 0 };
+      }
+      return stateCode && states.includes(stateCode) ? { zone, specificity: 1 } : null;
+    })
+    .filter((candidate): candidate is { zone: ShippingZone; specificity: number } => candidate !== null)
+    .sort((a, b) => b.specificity - a.specificity || b.zone.priority - a.zone.priority);
+
+  return candidates[0]?.zone ?? null;
+};
+
+export const getFreeShippingThreshold = (zone: ShippingZone, store: ShippingStore) =>
+  store === 'affiliate_store' ? zone.freeShippingAffiliateCents : zone.freeShippingMainCents;
+
+const rateApplies = (rate: ShippingRate, parcel: ShippingParcel) => {
+  const value = rate.basis === 'weight' ? parcel.weightGrams : parcel.subtotalCents;
+  return value >= rate.minValue && (rate.maxValue === null || value < rate.maxValue);
+};
+
+/**
+ * Prices every active rate of the zone of the destination that covers the weight or subtotal of
+ * the parcel, cheapest first. Rates go free once the subtotal reaches the threshold of the store
+ */
+export const quoteShipping = (config: ShippingConfig, parcel: ShippingParcel): ShippingQuote => {
+  const base = {
+    subtotalCents: parcel.subtotalCents,
+    weightGrams: parcel.weightGrams,
+  };
+  const configured = config.zones.some((zone) => zone.isActive);
+  const zone = configured ? matchShippingZone(config.zones, parcel.country, parcel.state) : null;
+
+  if (!zone) {
+    return {
+      ...base,
+      configured,
+      zoneId: null,
+      zoneName: null,
+      options: [],
+      freeShippingThresholdCents: null,
+      remainingForFreeShippingCents: null,
+    };
+  }
+
+  const threshold = getFreeShippingThreshold(zone, parcel.store);
+  const isFree = threshold !== null && parcel.subtotalCents >= threshold;
+  const carriers = new Map(config.carriers.map((carrier) => [carrier.id, carrier]));
+
+  const options = config.rates
+    .filter((rate) => rate.zoneId === zone.id && rate.isActive && rateApplies(rate, parcel))
+    .filter((rate) => !rate.carrierId || carriers.get(rate.carrierId)?.isActive !== false)
+    .map<ShippingQuoteOption>((rate) => ({
+      rateId: rate.id,
+      carrierId: rate.carrierId,
+      carrierName: rate.carrierId ? carriers.get(rate.carrierId)?.name ?? null : null,
+      name: rate.name,
+      amountCents: isFree ? 0 : rate.priceCents,
+      rateCents: rate.priceCents,
+      isFree: isFree || rate.priceCents === 0,
+      minDays: rate.minDays,
+      maxDays: rate.maxDays,
+    }))
+    .sort((a, b) => a.amountCents - b.amountCents || (a.maxDays ?? Infinity) - (b.maxDays ?? Infinity));
+
+  return {
+    ...base,
+    configured,
+    zoneId: zone.id,
+    zoneName: zone.name,
+    options,
+    freeShippingThresholdCents: threshold,
+    remainingForFreeShippingCents: threshold !== null && !isFree ? threshold - parcel.subtotalCents : null,
+  };
+};
+
+/**
+ * Tracking page of a shipment, or null when the carrier has no template or the code is missing
+ */
+export const buildTrackingUrl = (template: string | null | undefined, trackingCode: string | null | undefined) => {
+  const code = trackingCode?.trim();
+  if (!template || !code) {
+    return null;
+  }
+  return template.split(TRACKING_CODE_PLACEHOLDER).join(encodeURIComponent(code));
+};
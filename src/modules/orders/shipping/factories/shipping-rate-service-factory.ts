@@ -0,0 +1,4 @@
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { ShippingRateService } from '../services/shipping-rate-service';
+
+export const createShippingRateService = () => new ShippingRateService(getSupabaseAdminClient());
@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { ShippingQuote, ShippingQuoteItem, ShippingQuoteOption, ShippingStore } from '../domain/models/shipping';
+import { ShippingRepositoryFactory } from '../repositories/shipping-repository';
+
+const QUOTE_DEBOUNCE_MS = 400;
+
+interface UseShippingQuoteOptions {
+  country: string | null | undefined;
+  state?: string | null;
+  store: ShippingStore;
+  items: ShippingQuoteItem[];
+}
+
+interface UseShippingQuoteResult {
+  quote: ShippingQuote | null;
+  selectedOption: ShippingQuoteOption | null;
+  selectOption: (rateId: string) => void;
+  shippingCents: number;
+  isLoading: boolean;
+  error: string | null;
+  /**
+   * True while checkout must not be submitted: the quote is loading, or shipping
+   * is configured but no option reaches the destination
+   */
+  blocksCheckout: boolean;
+}
+
+/**
+ * Quotes the shipping options of the cart for the checkout destination.
+ * The cheapest option is preselected each time the quote changes.
+ */
+export function useShippingQuote({ country, state, store, items }: UseShippingQuoteOptions): UseShippingQuoteResult {
+  const repository = useMemo(() => ShippingRepositoryFactory.createForCheckout(), []);
+  const [quote, setQuote] = useState<ShippingQuote | null>(null);
+  const [selectedRateId, setSelectedRateId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const countryCode = country?.trim().toUpperCase() ?? '';
+  const stateName = state?.trim() || null;
+  // Serialized so a new array with the same contents does not quote again
+  const itemsKey = JSON.stringify(items);
+
+  useEffect(() => {
+    const quoteItems = JSON.parse(itemsKey) as ShippingQuoteItem[];
+
+    if (countryCode.length !== 2 || quoteItems.length === 0) {
+      setQuote(null);
+      setSelectedRateId(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let ignore = false;
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const nextQuote = await repository.quote({ country: countryCode, state: stateName, store, items: quoteItems });
+        if (ignore) return;
+        setQuote(nextQuote);
+        setSelectedRateId(nextQuote.options[0]?.rateId ?? null);
+        setError(null);
+      } catch (quoteError) {
+        if (ignore) return;
+        console.error('[useShippingQuote] quote failed', quoteError);
+        setQuote(null);
+        setSelectedRateId(null);
+        setError(quoteError instanceof Error ? quoteError.message : 'Failed to quote shipping.');
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      ignore = true;
+      clearTimeout(timer);
+    };
+  }, [repository, countryCode, stateName, store, itemsKey]);
+
+  const selectedOption = useMemo(
+    () => quote?.options.find((option) => option.rateId === selectedRateId) ?? null,
+    [quote, selectedRateId],
+  );
+
+  const blocksCheckout = isLoading || error !== null || (quote?.configured === true && !selectedOption);
+
+  return {
+    quote,
+    selectedOption,
+    selectOption: setSelectedRateId,
+    shippingCents: selectedOption?.amountCents ?? 0,
+    isLoading,
+    error,
+    blocksCheckout,
+  };
+}
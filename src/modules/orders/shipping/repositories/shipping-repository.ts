@@ -0,0 +1,157 @@
+import {
+  ShippingCarrierSchema,
+  ShippingConfigSchema,
+  ShippingQuoteSchema,
+  ShippingRateSchema,
+  ShippingZoneSchema,
+  type ShippingCarrier,
+  type ShippingCarrierInput,
+  type ShippingConfig,
+  type ShippingQuote,
+  type ShippingQuoteInput,
+  type ShippingRate,
+  type ShippingRateInput,
+  type ShippingZone,
+  type ShippingZoneInput,
+} from '../domain/models/shipping';
+import { adminApi } from '@/lib/utils/admin-csrf-helpers';
+
+export type ShippingResource = 'zones' | 'rates' | 'carriers';
+
+export interface ShippingSettingsRepository {
+  getConfig(): Promise<ShippingConfig>;
+  saveZone(input: ShippingZoneInput, id?: string | null): Promise<ShippingZone>;
+  saveRate(input: ShippingRateInput, id?: string | null): Promise<ShippingRate>;
+  saveCarrier(input: ShippingCarrierInput, id?: string | null): Promise<ShippingCarrier>;
+  remove(resource: ShippingResource, id: string): Promise<void>;
+}
+
+export interface ShippingQuoteRepository {
+  quote(input: ShippingQuoteInput): Promise<ShippingQuote>;
+}
+
+export class ShippingRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+  ) {
+    super(message);
+    this.name = 'ShippingRequestError';
+  }
+}
+
+const API_BASE = '/api/admin/shipping';
+
+const parseJson = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    console.error('[ShippingRepository] Failed to parse JSON', error, text);
+    throw new Error('Invalid server response.');
+  }
+};
+
+const toRequestError = async (response: Response, fallback: string) => {
+  const payload = await parseJson(response);
+  const message = typeof payload.error === 'string' ? payload.error : response.statusText;
+  return new ShippingRequestError(message || fallback, typeof payload.code === 'string' ? payload.code : null);
+};
+
+class HttpShippingSettingsRepository implements ShippingSettingsRepository {
+  async getConfig(): Promise<ShippingConfig> {
+    const response = await fetch(API_BASE, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load shipping configuration.');
+    }
+
+    return ShippingConfigSchema.parse(await parseJson(response));
+  }
+
+  async saveZone(input: ShippingZoneInput, id?: string | null): Promise<ShippingZone> {
+    const payload = await this.save('zones', input, id, 'Failed to save shipping zone.');
+    return ShippingZoneSchema.parse(payload.zone);
+  }
+
+  async saveRate(input: ShippingRateInput, id?: string | null): Promise<ShippingRate> {
+    const payload = await this.save('rates', input, id, 'Failed to save shipping rate.');
+    return ShippingRateSchema.parse(payload.rate);
+  }
+
+  async saveCarrier(input: ShippingCarrierInput, id?: string | null): Promise<ShippingCarrier> {
+    const payload = await this.save('carriers', input, id, 'Failed to save carrier.');
+    return ShippingCarrierSchema.parse(payload.carrier);
+  }
+
+  async remove(resource: ShippingResource, id: string): Promise<void> {
+    // ✅ SECURITY: Use adminApi.delete() to automatically include CSRF token
+    const response = await adminApi.delete(`${API_BASE}/${resource}/${encodeURIComponent(id)}`);
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to delete.');
+    }
+  }
+
+  private async save(resource: ShippingResource, body: unknown, id: string | null | undefined, fallback: string) {
+    // ✅ SECURITY: Use adminApi to automatically include CSRF token
+    const response = id
+      ? await adminApi.put(`${API_BASE}/${resource}/${encodeURIComponent(id)}`, body)
+      : await adminApi.post(`${API_BASE}/${resource}`, body);
+
+    if (!response.ok) {
+      throw await toRequestError(response, fallback);
+    }
+
+    return parseJson(response);
+  }
+}
+
+class HttpShippingQuoteRepository implements ShippingQuoteRepository {
+  async quote(input: ShippingQuoteInput): Promise<ShippingQuote> {
+    const response = await fetch('/api/shipping/quote', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify(input),
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to quote shipping.');
+    }
+
+    const payload = await parseJson(response);
+    return ShippingQuoteSchema.parse(payload.quote);
+  }
+}
+
+class ShippingRepositoryFactoryImpl {
+  private settingsInstance: ShippingSettingsRepository | null = null;
+  private quoteInstance: ShippingQuoteRepository | null = null;
+
+  createForSettings(): ShippingSettingsRepository {
+    if (!this.settingsInstance) {
+      this.settingsInstance = new HttpShippingSettingsRepository();
+    }
+
+    return this.settingsInstance;
+  }
+
+  createForCheckout(): ShippingQuoteRepository {
+    if (!this.quoteInstance) {
+      this.quoteInstance = new HttpShippingQuoteRepository();
+    }
+
+    return this.quoteInstance;
+  }
+}
+
+export const ShippingRepositoryFactory = new ShippingRepositoryFactoryImpl();
+
+export { HttpShippingSettingsRepository, HttpShippingQuoteRepository };
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ShippingRateService, ShippingError, readCheckoutShipping, withCheckoutShipping } from '../shipping-rate-service';
+import { buildTrackingUrl } from '../../domain/shipping-quote';
+import type { ShippingConfig, ShippingRate, ShippingZone } from '../../domain/models/shipping';
+
+const repository = {
+  getConfig: vi.fn(),
+  getProductWeights: vi.fn(),
+};
+
+vi.mock('../../data/repositories/shipping-repository', () => ({
+  ShippingRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+const PRODUCT_ID = '0b7f6a4e-8f8a-4a53-9c55-3f1a2b6c7d01';
+
+const buildZone = (overrides: Partial<ShippingZone> = {}): ShippingZone => ({
+  id: 'zone-cr',
+  name: 'Costa Rica',
+  countryCodes: ['CR'],
+  stateCodes: [],
+  freeShippingMainCents: 10000,
+  freeShippingAffiliateCents: null,
+  priority: 0,
+  isActive: true,
+  ...overrides,
+});
+
+const buildRate = (overrides: Partial<ShippingRate> = {}): ShippingRate => ({
+  id: 'rate-standard',
+  zoneId: 'zone-cr',
+  carrierId: 'carrier-1',
+  name: 'Standard',
+  basis: 'weight',
+  minValue: 0,
+  maxValue: 2000,
+  priceCents: 500,
+  minDays: 3,
+  maxDays: 5,
+  isActive: true,
+  ...overrides,
+});
+
+const buildConfig = (overrides: Partial<ShippingConfig> = {}): ShippingConfig => ({
+  zones: [buildZone()],
+  rates: [
+    buildRate(),
+    buildRate({ id: 'rate-heavy', name: 'Heavy', minValue: 2000, maxValue: null, priceCents: 1500 }),
+    buildRate({ id: 'rate-express', name: 'Express', priceCents: 1200, minDays: 1, maxDays: 1 }),
+  ],
+  carriers: [{ id: 'carrier-1', name: 'Correos', trackingUrlTemplate: null, isActive: true }],
+  ...overrides,
+});
+
+const cartItems = (quantity: number, priceCents = 2000) => [{ productId: PRODUCT_ID, quantity, priceCents }];
+
+describe('ShippingRateService', () => {
+  let service: ShippingRateService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository.getConfig.mockResolvedValue(buildConfig());
+    repository.getProductWeights.mockResolvedValue(new Map([[PRODUCT_ID, 500]]));
+    service = new ShippingRateService({} as SupabaseClient);
+  });
+
+  describe('quote', () => {
+    it('prices the rates whose weight bracket covers the parcel, cheapest first', async () => {
+      const quote = await service.quote({ country: 'CR', store: 'main_store', items: cartItems(2) });
+
+      expect(quote.weightGrams).toBe(1000);
+      expect(quote.subtotalCents).toBe(4000);
+      expect(quote.options.map((option) => option.rateId)).toEqual(['rate-standard', 'rate-express']);
+      expect(quote.options[0]).toMatchObject({ amountCents: 500, carrierName: 'Correos', isFree: false });
+      expect(quote.remainingForFreeShippingCents).toBe(6000);
+    });
+
+    it('moves to the next bracket once the parcel reaches its maximum', async () => {
+      const quote = await service.quote({ country: 'CR', store: 'main_store', items: cartItems(4) });
+
+      expect(quote.options.map((option) => option.rateId)).toEqual(['rate-heavy']);
+    });
+
+    it('ships free from the threshold of the store', async () => {
+      const main = await service.quote({ country: 'CR', store: 'main_store', items: cartItems(1, 10000) });
+      const affiliate = await service.quote({ country: 'CR', store: 'affiliate_store', items: cartItems(1, 10000) });
+
+      expect(main.options.every((option) => option.amountCents === 0 && option.isFree)).toBe(true);
+      // Free options tie on price, so the fastest comes first
+      expect(main.options.map((option) => option.rateCents)).toEqual([1200, 500]);
+      expect(affiliate.options[0].amountCents).toBe(500);
+    });
+
+    it('prefers a zone naming the state of the destination over a whole-country zone', async () => {
+      repository.getConfig.mockResolvedValue(
+        buildConfig({
+          zones: [
+            buildZone({ priority: 10 }),
+            buildZone({ id: 'zone-gam', name: 'GAM', stateCodes: ['San José'] }),
+          ],
+          rates: [buildRate(), buildRate({ id: 'rate-gam', zoneId: 'zone-gam', priceCents: 300 })],
+        }),
+      );
+
+      const local = await service.quote({ country: 'cr', state: 'san josé', store: 'main_store', items: cartItems(1) });
+      const elsewhere = await service.quote({ country: 'CR', state: 'Limón', store: 'main_store', items: cartItems(1) });
+
+      expect(local.zoneId).toBe('zone-gam');
+      expect(elsewhere.zoneId).toBe('zone-cr');
+    });
+
+    it('hides the rates of inactive carriers', async () => {
+      repository.getConfig.mockResolvedValue(
+        buildConfig({ carriers: [{ id: 'carrier-1', name: 'Correos', trackingUrlTemplate: null, isActive: false }] }),
+      );
+
+      const quote = await service.quote({ country: 'CR', store: 'main_store', items: cartItems(1) });
+
+      expect(quote.configured).toBe(true);
+      expect(quote.options).toEqual([]);
+    });
+  });
+
+  describe('resolveCheckoutShipping', () => {
+    it('charges nothing while no shipping zone is active', async () => {
+      repository.getConfig.mockResolvedValue(buildConfig({ zones: [buildZone({ isActive: false })] }));
+
+      await expect(service.resolveCheckoutShipping({ metadata: {}, cartItems: cartItems(1) })).resolves.toBeNull();
+    });
+
+    it('requires a shipping option once zones are configured', async () => {
+      await expect(service.resolveCheckoutShipping({ metadata: {}, cartItems: cartItems(1) })).rejects.toMatchObject({
+        code: 'SHIPPING_REQUIRED',
+      });
+    });
+
+    it('returns the verified shipping of the chosen rate', async () => {
+      const shipping = await service.resolveCheckoutShipping({
+        metadata: { shippingRateId: 'rate-express', shippingCents: '1200', shippingCountry: 'cr' },
+        cartItems: cartItems(1),
+      });
+
+      expect(shipping).toEqual({
+        rateId: 'rate-express',
+        carrierId: 'carrier-1',
+        amountCents: 1200,
+        country: 'CR',
+        state: null,
+      });
+    });
+
+    it('rejects a rate that does not reach the destination', async () => {
+      const error = await service
+        .resolveCheckoutShipping({
+          metadata: { shippingRateId: 'rate-heavy', shippingCents: 1500, shippingCountry: 'CR' },
+          cartItems: cartItems(1),
+        })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ShippingError);
+      expect(error).toMatchObject({ code: 'SHIPPING_RATE_UNAVAILABLE' });
+    });
+
+    it('rejects an amount that differs from the quote', async () => {
+      await expect(
+        service.resolveCheckoutShipping({
+          metadata: { shippingRateId: 'rate-standard', shippingCents: 100, shippingCountry: 'CR' },
+          cartItems: cartItems(1),
+        }),
+      ).rejects.toMatchObject({ code: 'SHIPPING_AMOUNT_MISMATCH' });
+    });
+  });
+});
+
+describe('checkout shipping metadata', () => {
+  it('reads amounts sent back by gateways as strings', () => {
+    expect(readCheckoutShipping({ shippingRateId: 'rate-1', shippingCents: '450', shippingCountry: 'CR' })).toEqual({
+      rateId: 'rate-1',
+      carrierId: null,
+      amountCents: 450,
+      country: 'CR',
+      state: null,
+    });
+    expect(readCheckoutShipping({ shippingCents: '4.5' }).amountCents).toBeUndefined();
+  });
+
+  it('replaces the shipping keys sent by the client with the verified ones', () => {
+    const metadata = { intent: 'checkout', shippingCents: 1, shippingRateId: 'forged' };
+
+    expect(withCheckoutShipping(metadata, null)).toEqual({ intent: 'checkout' });
+    expect(
+      withCheckoutShipping(metadata, { rateId: 'rate-1', carrierId: null, amountCents: 500, country: 'CR', state: null }),
+    ).toEqual({ intent: 'checkout', shippingRateId: 'rate-1', shippingCents: 500, shippingCountry: 'CR' });
+  });
+
+  it('links tracking codes through the carrier template', () => {
+    expect(buildTrackingUrl('https://track.example/?code={{tracking}}', 'CR 123')).toBe(
+      'https://track.example/?code=CR%20123',
+    );
+    expect(buildTrackingUrl(null, 'CR123')).toBeNull();
+  });
+});
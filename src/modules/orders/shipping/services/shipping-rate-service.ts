@@ -0,0 +1,290 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ShippingRepository } from '../data/repositories/shipping-repository';
+import { quoteShipping } from '../domain/shipping-quote';
+import type {
+  ShippingCarrier,
+  ShippingCarrierInput,
+  ShippingConfig,
+  ShippingQuote,
+  ShippingQuoteInput,
+  ShippingQuoteItem,
+  ShippingRate,
+  ShippingRateInput,
+  ShippingStore,
+  ShippingZone,
+  ShippingZoneInput,
+} from '../domain/models/shipping';
+
+export type ShippingErrorCode =
+  | 'ZONE_NOT_FOUND'
+  | 'RATE_NOT_FOUND'
+  | 'CARRIER_NOT_FOUND'
+  | 'CARRIER_NAME_TAKEN'
+  | 'SHIPPING_REQUIRED'
+  | 'SHIPPING_RATE_UNAVAILABLE'
+  | 'SHIPPING_AMOUNT_MISMATCH';
+
+export class ShippingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ShippingErrorCode,
+  ) {
+    super(message);
+    this.name = 'ShippingError';
+  }
+}
+
+/**
+ * HTTP status of each error, shared by the admin shipping routes and the checkout routes
+ */
+export const SHIPPING_ERROR_STATUS: Record<ShippingErrorCode, number> = {
+  ZONE_NOT_FOUND: 404,
+  RATE_NOT_FOUND: 404,
+  CARRIER_NOT_FOUND: 404,
+  CARRIER_NAME_TAKEN: 409,
+  SHIPPING_REQUIRED: 400,
+  SHIPPING_RATE_UNAVAILABLE: 409,
+  SHIPPING_AMOUNT_MISMATCH: 409,
+};
+
+/**
+ * Shipping chosen at checkout, as stored in the payment metadata and on the order
+ */
+export interface CheckoutShipping {
+  rateId: string;
+  carrierId: string | null;
+  amountCents: number;
+  country: string;
+  state: string | null;
+}
+
+const readString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const readCents = (value: unknown) => {
+  const cents = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof cents === 'number' && Number.isInteger(cents) && cents >= 0 ? cents : null;
+};
+
+/**
+ * Store an order is sold from: affiliate stores may have their own free-shipping threshold
+ */
+export function toShippingStore(metadata: Record<string, unknown> | null | undefined): ShippingStore {
+  return metadata?.affiliateId || metadata?.saleChannel === 'affiliate_store' ? 'affiliate_store' : 'main_store';
+}
+
+/**
+ * Shipping of a checkout from its payment metadata. Gateways hand the metadata back as strings,
+ * so amounts are parsed from either form
+ */
+export function readCheckoutShipping(metadata: Record<string, unknown> | null | undefined): Partial<CheckoutShipping> {
+  return {
+    rateId: readString(metadata?.shippingRateId) ?? undefined,
+    carrierId: readString(metadata?.shippingCarrierId),
+    amountCents: readCents(metadata?.shippingCents) ?? undefined,
+    country: readString(metadata?.shippingCountry) ?? undefined,
+    state: readString(metadata?.shippingState),
+  };
+}
+
+/**
+ * Payment metadata keys of the shipping verified for a checkout
+ */
+export function toCheckoutShippingMetadata(shipping: CheckoutShipping): Record<string, string | number> {
+  return {
+    shippingRateId: shipping.rateId,
+    ...(shipping.carrierId ? { shippingCarrierId: shipping.carrierId } : {}),
+    shippingCents: shipping.amountCents,
+    shippingCountry: shipping.country,
+    ...(shipping.state ? { shippingState: shipping.state } : {}),
+  };
+}
+
+const CHECKOUT_SHIPPING_KEYS = ['shippingRateId', 'shippingCarrierId', 'shippingCents', 'shippingCountry', 'shippingState'];
+
+/**
+ * Payment metadata with the shipping keys sent by the client replaced by the verified shipping,
+ * or removed when the checkout ships nothing
+ */
+export function withCheckoutShipping(
+  metadata: Record<string, unknown>,
+  shipping: CheckoutShipping | null,
+): Record<string, unknown> {
+  const rest = Object.fromEntries(Object.entries(metadata).filter(([key]) => !CHECKOUT_SHIPPING_KEYS.includes(key)));
+  return shipping ? { ...rest, ...toCheckoutShippingMetadata(shipping) } : rest;
+}
+
+const toCarrierError = (error: unknown) =>
+  (error as { code?: string } | null)?.code === '23505'
+    ? new ShippingError('A carrier with this name already exists', 'CARRIER_NAME_TAKEN')
+    : error;
+
+const toQuoteItems = (cartItems: unknown): ShippingQuoteItem[] => {
+  if (!Array.isArray(cartItems)) {
+    return [];
+  }
+
+  return cartItems
+    .filter((item): item is Record<string, unknown> => Boolean(item && typeof item === 'object'))
+    .filter((item) => typeof item.productId === 'string')
+    .map((item) => ({
+      productId: item.productId as string,
+      variantId: typeof item.variantId === 'string' ? item.variantId : null,
+      quantity: Number(item.quantity) || 0,
+      priceCents: Number(item.priceCents) || 0,
+    }))
+    .filter((item) => item.quantity > 0);
+};
+
+/**
+ * Shipping configuration (zones by country and state, their weight- or price-based rate tables
+ * and the carriers) and the quotes checkout charges from it. Checkout routes verify the rate the
+ * customer chose against a fresh quote, so the amount paid for shipping is never taken from the
+ * client.
+ */
+export class ShippingRateService {
+  private readonly repository: ShippingRepository;
+
+  constructor(client: SupabaseClient) {
+    this.repository = new ShippingRepository(client);
+  }
+
+  getConfig(): Promise<ShippingConfig> {
+    return this.repository.getConfig();
+  }
+
+  createZone(input: ShippingZoneInput): Promise<ShippingZone> {
+    return this.repository.createZone(input);
+  }
+
+  async updateZone(id: string, input: ShippingZoneInput): Promise<ShippingZone> {
+    const zone = await this.repository.updateZone(id, input);
+    if (!zone) {
+      throw new ShippingError('Shipping zone not found', 'ZONE_NOT_FOUND');
+    }
+    return zone;
+  }
+
+  async deleteZone(id: string): Promise<void> {
+    if (!(await this.repository.remove('shipping_zones', id))) {
+      throw new ShippingError('Shipping zone not found', 'ZONE_NOT_FOUND');
+    }
+  }
+
+  createRate(input: ShippingRateInput): Promise<ShippingRate> {
+    return this.repository.createRate(input);
+  }
+
+  async updateRate(id: string, input: ShippingRateInput): Promise<ShippingRate> {
+    const rate = await this.repository.updateRate(id, input);
+    if (!rate) {
+      throw new ShippingError('Shipping rate not found', 'RATE_NOT_FOUND');
+    }
+    return rate;
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    if (!(await this.repository.remove('shipping_rates', id))) {
+      throw new ShippingError('Shipping rate not found', 'RATE_NOT_FOUND');
+    }
+  }
+
+  async createCarrier(input: ShippingCarrierInput): Promise<ShippingCarrier> {
+    try {
+      return await this.repository.createCarrier(input);
+    } catch (error) {
+      throw toCarrierError(error);
+    }
+  }
+
+  async updateCarrier(id: string, input: ShippingCarrierInput): Promise<ShippingCarrier> {
+    let carrier: ShippingCarrier | null;
+    try {
+      carrier = await this.repository.updateCarrier(id, input);
+    } catch (error) {
+      throw toCarrierError(error);
+    }
+    if (!carrier) {
+      throw new ShippingError('Shipping carrier not found', 'CARRIER_NOT_FOUND');
+    }
+    return carrier;
+  }
+
+  async deleteCarrier(id: string): Promise<void> {
+    if (!(await this.repository.remove('shipping_carriers', id))) {
+      throw new ShippingError('Shipping carrier not found', 'CARRIER_NOT_FOUND');
+    }
+  }
+
+  findCarrier(id: string): Promise<ShippingCarrier | null> {
+    return this.repository.findCarrier(id);
+  }
+
+  /**
+   * Shipping options for a cart sent to a destination. The parcel weighs the product weights
+   * times the quantities; the subtotal is the price of the items
+   */
+  async quote(input: ShippingQuoteInput, config?: ShippingConfig): Promise<ShippingQuote> {
+    const shippingConfig = config ?? (await this.repository.getConfig());
+    const weights = await this.repository.getProductWeights(Array.from(new Set(input.items.map((item) => item.productId))));
+
+    return quoteShipping(shippingConfig, {
+      country: input.country,
+      state: input.state,
+      store: input.store,
+      subtotalCents: input.items.reduce((total, item) => total + item.priceCents * item.quantity, 0),
+      weightGrams: input.items.reduce((total, item) => total + (weights.get(item.productId) ?? 0) * item.quantity, 0),
+    });
+  }
+
+  /**
+   * Verifies the shipping a checkout sends in its payment metadata against a fresh quote of its
+   * cart. Returns null when there is nothing to ship or no shipping zone is set up yet, which
+   * keeps checkout free of shipping charges until an admin configures it.
+   */
+  async resolveCheckoutShipping(input: {
+    metadata: Record<string, unknown> | null | undefined;
+    cartItems: unknown;
+  }): Promise<CheckoutShipping | null> {
+    const items = toQuoteItems(input.cartItems);
+    if (items.length === 0) {
+      return null;
+    }
+
+    const config = await this.repository.getConfig();
+    if (!config.zones.some((zone) => zone.isActive)) {
+      return null;
+    }
+
+    const requested = readCheckoutShipping(input.metadata);
+    if (!requested.rateId || !requested.country) {
+      throw new ShippingError('Choose a shipping option for your destination', 'SHIPPING_REQUIRED');
+    }
+
+    const quote = await this.quote(
+      {
+        country: requested.country.toUpperCase(),
+        state: requested.state,
+        store: toShippingStore(input.metadata),
+        items,
+      },
+      config,
+    );
+
+    const option = quote.options.find((candidate) => candidate.rateId === requested.rateId);
+    if (!option) {
+      throw new ShippingError('The shipping option is no longer available for this order', 'SHIPPING_RATE_UNAVAILABLE');
+    }
+
+    if (requested.amountCents !== undefined && requested.amountCents !== option.amountCents) {
+      throw new ShippingError('The shipping price changed, please review your order', 'SHIPPING_AMOUNT_MISMATCH');
+    }
+
+    return {
+      rateId: option.rateId,
+      carrierId: option.carrierId,
+      amountCents: option.amountCents,
+      country: requested.country.toUpperCase(),
+      state: requested.state ?? null,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Skeleton } from '@/components/ui/skeleton';
+import type { ShippingQuote, ShippingQuoteOption } from '../domain/models/shipping';
+
+export interface CheckoutShippingOptionsCopy {
+  shippingMethod: string;
+  shippingFree: string;
+  shippingUnavailable: string;
+  shippingQuoteError: string;
+  shippingDeliveryDays: string;
+  shippingFreeRemaining: string;
+}
+
+interface CheckoutShippingOptionsProps {
+  copy: CheckoutShippingOptionsCopy;
+  quote: ShippingQuote | null;
+  selectedRateId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  disabled?: boolean;
+  formatCents: (cents: number) => string;
+  onSelect: (rateId: string) => void;
+}
+
+const formatDeliveryDays = (template: string, option: ShippingQuoteOption) => {
+  if (option.minDays === null && option.maxDays === null) {
+    return null;
+  }
+
+  const min = option.minDays ?? option.maxDays;
+  const max = option.maxDays ?? option.minDays;
+  const range = min === max ? `${min}` : `${min}–${max}`;
+  return template.replace('{{days}}', range);
+};
+
+/**
+ * Shipping options of the checkout. Renders nothing until a destination is quoted
+ * or while the store ships without configured zones.
+ */
+export function CheckoutShippingOptions({
+  copy,
+  quote,
+  selectedRateId,
+  isLoading,
+  error,
+  disabled,
+  formatCents,
+  onSelect,
+}: CheckoutShippingOptionsProps) {
+  if (!isLoading && !error && (!quote || !quote.configured)) {
+    return null;
+  }
+
+  return (
+    <section>
+      <h2 className="text-xl font-bold mb-4">{copy.shippingMethod}</h2>
+      {isLoading ? (
+        <div className="space-y-3">
+          {[0, 1].map((item) => (
+            <Skeleton key={item} className="h-14 w-full rounded-lg" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{copy.shippingQuoteError}</p>
+      ) : quote && quote.options.length > 0 ? (
+        <RadioGroup value={selectedRateId ?? ''} onValueChange={onSelect} className="space-y-4">
+          {quote.options.map((option) => {
+            const deliveryDays = formatDeliveryDays(copy.shippingDeliveryDays, option);
+
+            return (
+              <div
+                key={option.rateId}
+                className="flex items-center gap-4 p-4 rounded-lg border border-border-light dark:border-border-dark cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/10"
+              >
+                <RadioGroupItem value={option.rateId} id={`checkout-shipping-${option.rateId}`} disabled={disabled} />
+                <Label
+                  htmlFor={`checkout-shipping-${option.rateId}`}
+                  className="flex flex-1 items-center justify-between gap-4 cursor-pointer"
+                >
+                  <span className="flex flex-col gap-1">
+                    <span className="text-md font-medium">
+                      {option.carrierName ? `${option.carrierName} · ${option.name}` : option.name}
+                    </span>
+                    {deliveryDays && <span className="text-xs text-muted-foreground">{deliveryDays}</span>}
+                  </span>
+                  <span className="text-sm font-semibold">
+                    {option.isFree ? (
+                      <span className="text-emerald-600 dark:text-emerald-400">{copy.shippingFree}</span>
+                    ) : (
+                      formatCents(option.amountCents)
+                    )}
+                  </span>
+                </Label>
+              </div>
+            );
+          })}
+        </RadioGroup>
+      ) : (
+        <div className="rounded-md border border-dashed border-border-light dark:border-border-dark p-4 text-sm text-muted-foreground">
+          {copy.shippingUnavailable}
+        </div>
+      )}
+      {!isLoading && quote?.remainingForFreeShippingCents ? (
+        <p className="mt-3 text-sm text-muted-foreground">
+          {copy.shippingFreeRemaining.replace('{{amount}}', formatCents(quote.remainingForFreeShippingCents))}
+        </p>
+      ) : null}
+    </section>
+  );
+}
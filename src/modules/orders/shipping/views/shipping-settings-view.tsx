@@ -0,0 +1,754 @@
+'use client';
+
+import { useState, type FormEvent, type ReactNode } from 'react';
+import {
+  SHIPPING_RATE_BASES,
+  type ShippingCarrier,
+  type ShippingCarrierInput,
+  type ShippingConfig,
+  type ShippingRate,
+  type ShippingRateBasis,
+  type ShippingRateInput,
+  type ShippingSettingsDictionary,
+  type ShippingZone,
+  type ShippingZoneInput,
+} from '../domain/models/shipping';
+import type { ShippingResource } from '../repositories/shipping-repository';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface ShippingSettingsViewProps {
+  dictionary: ShippingSettingsDictionary;
+  config: ShippingConfig;
+  loading: boolean;
+  error: string | null;
+  submitting: boolean;
+  onRefresh: () => void;
+  onSaveZone: (input: ShippingZoneInput, id: string | null) => Promise<void>;
+  onSaveRate: (input: ShippingRateInput, id: string | null) => Promise<void>;
+  onSaveCarrier: (input: ShippingCarrierInput, id: string | null) => Promise<void>;
+  onDelete: (resource: ShippingResource, id: string) => Promise<void>;
+}
+
+interface ZoneForm {
+  id: string | null;
+  name: string;
+  countries: string;
+  states: string;
+  freeShippingMain: string;
+  freeShippingAffiliate: string;
+  priority: string;
+  isActive: boolean;
+}
+
+interface RateForm {
+  id: string | null;
+  zoneId: string;
+  carrierId: string;
+  name: string;
+  basis: ShippingRateBasis;
+  minValue: string;
+  maxValue: string;
+  price: string;
+  minDays: string;
+  maxDays: string;
+  isActive: boolean;
+}
+
+interface CarrierForm {
+  id: string | null;
+  name: string;
+  trackingUrlTemplate: string;
+  isActive: boolean;
+}
+
+const NO_CARRIER = 'none';
+
+const formatAmount = (cents: number) => (cents / 100).toFixed(2);
+
+const toCents = (value: string) => (value.trim() ? Math.round(Number(value) * 100) : null);
+
+const toInteger = (value: string) => (value.trim() ? Math.round(Number(value)) : null);
+
+const toCodes = (value: string) =>
+  value
+    .split(/[\s,;]+/)
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+
+/**
+ * Bracket value as typed in the form: grams for weight rates, amount for price rates
+ */
+const toBracketInput = (basis: ShippingRateBasis, value: number | null) =>
+  value === null ? '' : basis === 'price' ? formatAmount(value) : String(value);
+
+const toBracketValue = (basis: ShippingRateBasis, value: string) =>
+  basis === 'price' ? toCents(value) : toInteger(value);
+
+const toZoneForm = (zone?: ShippingZone): ZoneForm => ({
+  id: zone?.id ?? null,
+  name: zone?.name ?? '',
+  countries: zone?.countryCodes.join(', ') ?? '',
+  states: zone?.stateCodes.join(', ') ?? '',
+  freeShippingMain: zone?.freeShippingMainCents != null ? formatAmount(zone.freeShippingMainCents) : '',
+  freeShippingAffiliate: zone?.freeShippingAffiliateCents != null ? formatAmount(zone.freeShippingAffiliateCents) : '',
+  priority: String(zone?.priority ?? 0),
+  isActive: zone?.isActive ?? true,
+});
+
+const toRateForm = (rate: ShippingRate | undefined, zoneId: string): RateForm => ({
+  id: rate?.id ?? null,
+  zoneId: rate?.zoneId ?? zoneId,
+  carrierId: rate?.carrierId ?? NO_CARRIER,
+  name: rate?.name ?? '',
+  basis: rate?.basis ?? 'weight',
+  minValue: rate ? toBracketInput(rate.basis, rate.minValue) : '0',
+  maxValue: rate ? toBracketInput(rate.basis, rate.maxValue) : '',
+  price: rate ? formatAmount(rate.priceCents) : '',
+  minDays: rate?.minDays != null ? String(rate.minDays) : '',
+  maxDays: rate?.maxDays != null ? String(rate.maxDays) : '',
+  isActive: rate?.isActive ?? true,
+});
+
+const toCarrierForm = (carrier?: ShippingCarrier): CarrierForm => ({
+  id: carrier?.id ?? null,
+  name: carrier?.name ?? '',
+  trackingUrlTemplate: carrier?.trackingUrlTemplate ?? '',
+  isActive: carrier?.isActive ?? true,
+});
+
+function Field({ id, label, helper, children }: { id?: string; label: string; helper?: string; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor={id}>
+        {label}
+      </label>
+      {children}
+      {helper && <p className="text-xs text-zinc-500 dark:text-zinc-400">{helper}</p>}
+    </div>
+  );
+}
+
+/**
+ * Shipping configuration of the store: zones by country and state with their free-shipping
+ * thresholds, the weight- or price-based rate table of each zone and the carriers
+ */
+export function ShippingSettingsView({
+  dictionary,
+  config,
+  loading,
+  error,
+  submitting,
+  onRefresh,
+  onSaveZone,
+  onSaveRate,
+  onSaveCarrier,
+  onDelete,
+}: ShippingSettingsViewProps) {
+  const { toast } = useToast();
+
+  const [zoneForm, setZoneForm] = useState<ZoneForm | null>(null);
+  const [rateForm, setRateForm] = useState<RateForm | null>(null);
+  const [carrierForm, setCarrierForm] = useState<CarrierForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const zoneNames = new Map(config.zones.map((zone) => [zone.id, zone.name]));
+  const carrierNames = new Map(config.carriers.map((carrier) => [carrier.id, carrier.name]));
+
+  const formatBracket = (rate: ShippingRate) => {
+    const format = (value: number) => (rate.basis === 'price' ? formatAmount(value) : `${value} g`);
+    return `${format(rate.minValue)} – ${rate.maxValue === null ? dictionary.rates.noLimit : format(rate.maxValue)}`;
+  };
+
+  const formatDays = (rate: ShippingRate) => {
+    if (rate.minDays === null && rate.maxDays === null) return '—';
+    const range = [rate.minDays, rate.maxDays].filter((value) => value !== null).join('–');
+    return dictionary.rates.days.replace('{{value}}', range);
+  };
+
+  const save = async (action: () => Promise<void>, close: () => void) => {
+    setFormError(null);
+    try {
+      await action();
+      toast({ title: dictionary.success.saved });
+      close();
+    } catch (saveError) {
+      setFormError(saveError instanceof Error ? saveError.message : dictionary.error.save);
+    }
+  };
+
+  const handleDelete = async (resource: ShippingResource, id: string) => {
+    if (!confirm(dictionary.confirmDelete)) return;
+
+    try {
+      await onDelete(resource, id);
+      toast({ title: dictionary.success.deleted });
+    } catch (deleteError) {
+      toast({
+        title: dictionary.error.delete,
+        description: deleteError instanceof Error ? deleteError.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleZoneSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!zoneForm) return;
+
+    save(
+      () =>
+        onSaveZone(
+          {
+            name: zoneForm.name.trim(),
+            countryCodes: toCodes(zoneForm.countries),
+            stateCodes: toCodes(zoneForm.states),
+            freeShippingMainCents: toCents(zoneForm.freeShippingMain),
+            freeShippingAffiliateCents: toCents(zoneForm.freeShippingAffiliate),
+            priority: toInteger(zoneForm.priority) ?? 0,
+            isActive: zoneForm.isActive,
+          },
+          zoneForm.id,
+        ),
+      () => setZoneForm(null),
+    );
+  };
+
+  const handleRateSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!rateForm) return;
+
+    save(
+      () =>
+        onSaveRate(
+          {
+            zoneId: rateForm.zoneId,
+            carrierId: rateForm.carrierId === NO_CARRIER ? null : rateForm.carrierId,
+            name: rateForm.name.trim(),
+            basis: rateForm.basis,
+            minValue: toBracketValue(rateForm.basis, rateForm.minValue) ?? 0,
+            maxValue: toBracketValue(rateForm.basis, rateForm.maxValue),
+            priceCents: toCents(rateForm.price) ?? 0,
+            minDays: toInteger(rateForm.minDays),
+            maxDays: toInteger(rateForm.maxDays),
+            isActive: rateForm.isActive,
+          },
+          rateForm.id,
+        ),
+      () => setRateForm(null),
+    );
+  };
+
+  const handleCarrierSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!carrierForm) return;
+
+    save(
+      () =>
+        onSaveCarrier(
+          {
+            name: carrierForm.name.trim(),
+            trackingUrlTemplate: carrierForm.trackingUrlTemplate.trim() || null,
+            isActive: carrierForm.isActive,
+          },
+          carrierForm.id,
+        ),
+      () => setCarrierForm(null),
+    );
+  };
+
+  const openZone = (zone?: ShippingZone) => {
+    setFormError(null);
+    setZoneForm(toZoneForm(zone));
+  };
+
+  const openRate = (rate?: ShippingRate) => {
+    setFormError(null);
+    setRateForm(toRateForm(rate, config.zones[0]?.id ?? ''));
+  };
+
+  const openCarrier = (carrier?: ShippingCarrier) => {
+    setFormError(null);
+    setCarrierForm(toCarrierForm(carrier));
+  };
+
+  const statusBadge = (isActive: boolean) => (
+    <Badge variant={isActive ? 'secondary' : 'outline'}>{isActive ? dictionary.active : dictionary.inactive}</Badge>
+  );
+
+  const rowActions = (onEdit: () => void, onRemove: () => void) => (
+    <div className="flex justify-end gap-2">
+      <Button size="sm" variant="outline" onClick={onEdit}>
+        {dictionary.edit}
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onRemove} disabled={submitting}>
+        {dictionary.delete}
+      </Button>
+    </div>
+  );
+
+  const formButtons = (onCancel: () => void) => (
+    <>
+      {formError && <p className="text-sm text-rose-600 dark:text-rose-300">{formError}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          {dictionary.cancel}
+        </Button>
+        <Button type="submit" disabled={submitting}>
+          {submitting ? dictionary.saving : dictionary.save}
+        </Button>
+      </div>
+    </>
+  );
+
+  const section = (title: string, description: string, onAdd: (() => void) | null, content: ReactNode) => (
+    <Card className="border-primary/15 bg-white/60 dark:border-primary/20 dark:bg-zinc-900/40">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        {onAdd && (
+          <Button size="sm" onClick={onAdd}>
+            {dictionary.add}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">{content}</CardContent>
+    </Card>
+  );
+
+  const empty = (text: string) => <p className="px-6 pb-6 text-sm text-zinc-500 dark:text-zinc-400">{text}</p>;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">{dictionary.title}</h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-300">{dictionary.description}</p>
+        </div>
+        <Button variant="outline" onClick={onRefresh} disabled={loading}>
+          {dictionary.refresh}
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-rose-200 bg-rose-50 dark:border-rose-500/30 dark:bg-rose-500/10">
+          <CardHeader>
+            <CardTitle className="text-rose-900 dark:text-rose-100">{dictionary.error.title}</CardTitle>
+            <CardDescription className="text-rose-700 dark:text-rose-200">{error}</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={onRefresh}>{dictionary.refresh}</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {loading && config.zones.length === 0 && config.carriers.length === 0 ? (
+        <div className="h-32 animate-pulse rounded-xl bg-zinc-200/60 dark:bg-zinc-800/60" />
+      ) : (
+        <>
+          {section(
+            dictionary.zones.title,
+            dictionary.zones.description,
+            () => openZone(),
+            config.zones.length === 0 ? (
+              empty(dictionary.zones.empty)
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{dictionary.zones.name}</TableHead>
+                    <TableHead>{dictionary.zones.countries}</TableHead>
+                    <TableHead>{dictionary.zones.states}</TableHead>
+                    <TableHead className="text-right">{dictionary.zones.freeShippingMain}</TableHead>
+                    <TableHead className="text-right">{dictionary.zones.freeShippingAffiliate}</TableHead>
+                    <TableHead className="text-right">{dictionary.zones.rates}</TableHead>
+                    <TableHead />
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {config.zones.map((zone) => (
+                    <TableRow key={zone.id}>
+                      <TableCell className="font-medium">{zone.name}</TableCell>
+                      <TableCell className="font-mono text-xs">{zone.countryCodes.join(', ')}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {zone.stateCodes.length > 0 ? zone.stateCodes.join(', ') : dictionary.zones.allStates}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {zone.freeShippingMainCents !== null ? formatAmount(zone.freeShippingMainCents) : dictionary.zones.noFreeShipping}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {zone.freeShippingAffiliateCents !== null
+                          ? formatAmount(zone.freeShippingAffiliateCents)
+                          : dictionary.zones.noFreeShipping}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {config.rates.filter((rate) => rate.zoneId === zone.id).length}
+                      </TableCell>
+                      <TableCell>{statusBadge(zone.isActive)}</TableCell>
+                      <TableCell>
+                        {rowActions(
+                          () => openZone(zone),
+                          () => handleDelete('zones', zone.id),
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ),
+          )}
+
+          {section(
+            dictionary.rates.title,
+            dictionary.rates.description,
+            config.zones.length > 0 ? () => openRate() : null,
+            config.rates.length === 0 ? (
+              empty(dictionary.rates.empty)
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{dictionary.rates.zone}</TableHead>
+                    <TableHead>{dictionary.rates.name}</TableHead>
+                    <TableHead>{dictionary.rates.carrier}</TableHead>
+                    <TableHead>{dictionary.rates.basis}</TableHead>
+                    <TableHead className="text-right">{dictionary.rates.price}</TableHead>
+                    <TableHead>{dictionary.rates.deliveryDays}</TableHead>
+                    <TableHead />
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {config.rates.map((rate) => (
+                    <TableRow key={rate.id}>
+                      <TableCell>{zoneNames.get(rate.zoneId) ?? '—'}</TableCell>
+                      <TableCell className="font-medium">{rate.name}</TableCell>
+                      <TableCell>{rate.carrierId ? carrierNames.get(rate.carrierId) ?? '—' : dictionary.rates.noCarrier}</TableCell>
+                      <TableCell>
+                        <span className="block">{dictionary.rates.bases[rate.basis] ?? rate.basis}</span>
+                        <span className="text-xs text-zinc-500 dark:text-zinc-400">{formatBracket(rate)}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(rate.priceCents)}</TableCell>
+                      <TableCell>{formatDays(rate)}</TableCell>
+                      <TableCell>{statusBadge(rate.isActive)}</TableCell>
+                      <TableCell>
+                        {rowActions(
+                          () => openRate(rate),
+                          () => handleDelete('rates', rate.id),
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ),
+          )}
+
+          {section(
+            dictionary.carriers.title,
+            dictionary.carriers.description,
+            () => openCarrier(),
+            config.carriers.length === 0 ? (
+              empty(dictionary.carriers.empty)
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{dictionary.carriers.name}</TableHead>
+                    <TableHead>{dictionary.carriers.trackingUrlTemplate}</TableHead>
+                    <TableHead />
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {config.carriers.map((carrier) => (
+                    <TableRow key={carrier.id}>
+                      <TableCell className="font-medium">{carrier.name}</TableCell>
+                      <TableCell className="max-w-xs truncate font-mono text-xs">{carrier.trackingUrlTemplate ?? '—'}</TableCell>
+                      <TableCell>{statusBadge(carrier.isActive)}</TableCell>
+                      <TableCell>
+                        {rowActions(
+                          () => openCarrier(carrier),
+                          () => handleDelete('carriers', carrier.id),
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ),
+          )}
+        </>
+      )}
+
+      <Dialog open={Boolean(zoneForm)} onOpenChange={(open) => !open && setZoneForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{dictionary.zones.title}</DialogTitle>
+            <DialogDescription>{dictionary.zones.description}</DialogDescription>
+          </DialogHeader>
+          {zoneForm && (
+            <form className="space-y-4" onSubmit={handleZoneSubmit}>
+              <Field id="shipping-zone-name" label={dictionary.zones.name}>
+                <Input
+                  id="shipping-zone-name"
+                  value={zoneForm.name}
+                  maxLength={120}
+                  onChange={(event) => setZoneForm({ ...zoneForm, name: event.target.value })}
+                  required
+                />
+              </Field>
+              <Field id="shipping-zone-countries" label={dictionary.zones.countries} helper={dictionary.zones.countriesHelper}>
+                <Input
+                  id="shipping-zone-countries"
+                  value={zoneForm.countries}
+                  placeholder="US, CA"
+                  onChange={(event) => setZoneForm({ ...zoneForm, countries: event.target.value })}
+                  required
+                />
+              </Field>
+              <Field id="shipping-zone-states" label={dictionary.zones.states} helper={dictionary.zones.statesHelper}>
+                <Input
+                  id="shipping-zone-states"
+                  value={zoneForm.states}
+                  onChange={(event) => setZoneForm({ ...zoneForm, states: event.target.value })}
+                />
+              </Field>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field id="shipping-zone-free-main" label={dictionary.zones.freeShippingMain}>
+                  <Input
+                    id="shipping-zone-free-main"
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={zoneForm.freeShippingMain}
+                    onChange={(event) => setZoneForm({ ...zoneForm, freeShippingMain: event.target.value })}
+                  />
+                </Field>
+                <Field id="shipping-zone-free-affiliate" label={dictionary.zones.freeShippingAffiliate}>
+                  <Input
+                    id="shipping-zone-free-affiliate"
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={zoneForm.freeShippingAffiliate}
+                    onChange={(event) => setZoneForm({ ...zoneForm, freeShippingAffiliate: event.target.value })}
+                  />
+                </Field>
+              </div>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.zones.freeShippingHelper}</p>
+              <div className="flex items-end justify-between gap-4">
+                <Field id="shipping-zone-priority" label={dictionary.zones.priority}>
+                  <Input
+                    id="shipping-zone-priority"
+                    type="number"
+                    step={1}
+                    className="w-28"
+                    value={zoneForm.priority}
+                    onChange={(event) => setZoneForm({ ...zoneForm, priority: event.target.value })}
+                  />
+                </Field>
+                <label className="flex items-center gap-2 pb-2 text-sm">
+                  <Switch checked={zoneForm.isActive} onCheckedChange={(checked) => setZoneForm({ ...zoneForm, isActive: checked })} />
+                  {dictionary.active}
+                </label>
+              </div>
+              {formButtons(() => setZoneForm(null))}
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(rateForm)} onOpenChange={(open) => !open && setRateForm(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{dictionary.rates.title}</DialogTitle>
+            <DialogDescription>{dictionary.rates.description}</DialogDescription>
+          </DialogHeader>
+          {rateForm && (
+            <form className="space-y-4" onSubmit={handleRateSubmit}>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field label={dictionary.rates.zone}>
+                  <Select value={rateForm.zoneId} onValueChange={(value) => setRateForm({ ...rateForm, zoneId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {config.zones.map((zone) => (
+                        <SelectItem key={zone.id} value={zone.id}>
+                          {zone.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+                <Field label={dictionary.rates.carrier}>
+                  <Select value={rateForm.carrierId} onValueChange={(value) => setRateForm({ ...rateForm, carrierId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CARRIER}>{dictionary.rates.noCarrier}</SelectItem>
+                      {config.carriers.map((carrier) => (
+                        <SelectItem key={carrier.id} value={carrier.id}>
+                          {carrier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+              </div>
+              <Field id="shipping-rate-name" label={dictionary.rates.name}>
+                <Input
+                  id="shipping-rate-name"
+                  value={rateForm.name}
+                  maxLength={120}
+                  onChange={(event) => setRateForm({ ...rateForm, name: event.target.value })}
+                  required
+                />
+              </Field>
+              <Field label={dictionary.rates.basis} helper={dictionary.rates.bracketHelper[rateForm.basis]}>
+                <Select
+                  value={rateForm.basis}
+                  onValueChange={(value) => setRateForm({ ...rateForm, basis: value as ShippingRateBasis })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHIPPING_RATE_BASES.map((basis) => (
+                      <SelectItem key={basis} value={basis}>
+                        {dictionary.rates.bases[basis] ?? basis}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </Field>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field id="shipping-rate-min" label={dictionary.rates.minValue}>
+                  <Input
+                    id="shipping-rate-min"
+                    type="number"
+                    step={rateForm.basis === 'price' ? '0.01' : 1}
+                    min={0}
+                    value={rateForm.minValue}
+                    onChange={(event) => setRateForm({ ...rateForm, minValue: event.target.value })}
+                    required
+                  />
+                </Field>
+                <Field id="shipping-rate-max" label={dictionary.rates.maxValue}>
+                  <Input
+                    id="shipping-rate-max"
+                    type="number"
+                    step={rateForm.basis === 'price' ? '0.01' : 1}
+                    min={0}
+                    value={rateForm.maxValue}
+                    placeholder={dictionary.rates.noLimit}
+                    onChange={(event) => setRateForm({ ...rateForm, maxValue: event.target.value })}
+                  />
+                </Field>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <Field id="shipping-rate-price" label={dictionary.rates.price}>
+                  <Input
+                    id="shipping-rate-price"
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={rateForm.price}
+                    onChange={(event) => setRateForm({ ...rateForm, price: event.target.value })}
+                    required
+                  />
+                </Field>
+                <Field id="shipping-rate-min-days" label={dictionary.rates.minDays}>
+                  <Input
+                    id="shipping-rate-min-days"
+                    type="number"
+                    step={1}
+                    min={0}
+                    value={rateForm.minDays}
+                    onChange={(event) => setRateForm({ ...rateForm, minDays: event.target.value })}
+                  />
+                </Field>
+                <Field id="shipping-rate-max-days" label={dictionary.rates.maxDays}>
+                  <Input
+                    id="shipping-rate-max-days"
+                    type="number"
+                    step={1}
+                    min={0}
+                    value={rateForm.maxDays}
+                    onChange={(event) => setRateForm({ ...rateForm, maxDays: event.target.value })}
+                  />
+                </Field>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={rateForm.isActive} onCheckedChange={(checked) => setRateForm({ ...rateForm, isActive: checked })} />
+                {dictionary.active}
+              </label>
+              {formButtons(() => setRateForm(null))}
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(carrierForm)} onOpenChange={(open) => !open && setCarrierForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{dictionary.carriers.title}</DialogTitle>
+            <DialogDescription>{dictionary.carriers.description}</DialogDescription>
+          </DialogHeader>
+          {carrierForm && (
+            <form className="space-y-4" onSubmit={handleCarrierSubmit}>
+              <Field id="shipping-carrier-name" label={dictionary.carriers.name}>
+                <Input
+                  id="shipping-carrier-name"
+                  value={carrierForm.name}
+                  maxLength={120}
+                  onChange={(event) => setCarrierForm({ ...carrierForm, name: event.target.value })}
+                  required
+                />
+              </Field>
+              <Field
+                id="shipping-carrier-tracking-url"
+                label={dictionary.carriers.trackingUrlTemplate}
+                helper={dictionary.carriers.trackingUrlHelper}
+              >
+                <Input
+                  id="shipping-carrier-tracking-url"
+                  type="url"
+                  value={carrierForm.trackingUrlTemplate}
+                  placeholder="https://carrier.example/track?number={{tracking}}"
+                  onChange={(event) => setCarrierForm({ ...carrierForm, trackingUrlTemplate: event.target.value })}
+                />
+              </Field>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={carrierForm.isActive}
+                  onCheckedChange={(checked) => setCarrierForm({ ...carrierForm, isActive: checked })}
+                />
+                {dictionary.active}
+              </label>
+              {formButtons(() => setCarrierForm(null))}
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { TaxReport, TaxReportDictionary } from '../domain/models/tax';
+import { TaxRepositoryFactory } from '../repositories/tax-repository';
+import { TaxReportView } from '../views/tax-report-view';
+
+interface TaxReportControllerProps {
+  dictionary: TaxReportDictionary;
+  locale: string;
+}
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Current month up to today, the period of a monthly return
+ */
+const defaultPeriod = () => {
+  const today = new Date();
+  return {
+    from: toIsoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1))),
+    to: toIsoDate(today),
+  };
+};
+
+export const TaxReportController = ({ dictionary, locale }: TaxReportControllerProps) => {
+  const repository = useMemo(() => TaxRepositoryFactory.createForReports(), []);
+
+  const [period, setPeriod] = useState(defaultPeriod);
+  const [report, setReport] = useState<TaxReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(
+    async (from: string, to: string) => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        setReport(await repository.getReport(from, to));
+      } catch (loadError) {
+        console.error('[tax-report] load failed', loadError);
+        setError(loadError instanceof Error ? loadError.message : dictionary.error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [repository, dictionary.error],
+  );
+
+  useEffect(() => {
+    const initial = defaultPeriod();
+    loadReport(initial.from, initial.to);
+  }, [loadReport]);
+
+  return (
+    <TaxReportView
+      dictionary={dictionary}
+      locale={locale}
+      from={period.from}
+      to={period.to}
+      report={report}
+      loading={loading}
+      error={error}
+      onPeriodChange={setPeriod}
+      onApply={() => loadReport(period.from, period.to)}
+    />
+  );
+};
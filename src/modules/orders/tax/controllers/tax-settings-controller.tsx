@@ -0,0 +1,84 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { TaxConfig, TaxCountryInput, TaxRateInput, TaxSettingsDictionary } from '../domain/models/tax';
+import { TaxRepositoryFactory } from '../repositories/tax-repository';
+import { TaxSettingsView } from '../views/tax-settings-view';
+
+interface TaxSettingsControllerProps {
+  dictionary: TaxSettingsDictionary;
+}
+
+const EMPTY_CONFIG: TaxConfig = { countries: [], rates: [] };
+
+export const TaxSettingsController = ({ dictionary }: TaxSettingsControllerProps) => {
+  const repository = useMemo(() => TaxRepositoryFactory.createForSettings(), []);
+
+  const [config, setConfig] = useState<TaxConfig>(EMPTY_CONFIG);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadConfig = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setConfig(await repository.getConfig());
+    } catch (loadError) {
+      console.error('[tax-settings] load failed', loadError);
+      setError(loadError instanceof Error ? loadError.message : dictionary.error.load);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, dictionary.error.load]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const run = useCallback(
+    async (action: () => Promise<unknown>) => {
+      setSubmitting(true);
+      try {
+        await action();
+        await loadConfig();
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [loadConfig],
+  );
+
+  const handleSaveCountry = useCallback(
+    (input: TaxCountryInput) => run(() => repository.saveCountry(input)),
+    [repository, run],
+  );
+
+  const handleDeleteCountry = useCallback(
+    (countryCode: string) => run(() => repository.removeCountry(countryCode)),
+    [repository, run],
+  );
+
+  const handleSaveRate = useCallback(
+    (input: TaxRateInput, id: string | null) => run(() => repository.saveRate(input, id)),
+    [repository, run],
+  );
+
+  const handleDeleteRate = useCallback((id: string) => run(() => repository.removeRate(id)), [repository, run]);
+
+  return (
+    <TaxSettingsView
+      dictionary={dictionary}
+      config={config}
+      loading={loading}
+      error={error}
+      submitting={submitting}
+      onRefresh={loadConfig}
+      onSaveCountry={handleSaveCountry}
+      onDeleteCountry={handleDeleteCountry}
+      onSaveRate={handleSaveRate}
+      onDeleteRate={handleDeleteRate}
+    />
+  );
+};
@@ -0,0 +1,213 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toTaxCategory } from '../../domain/tax-calculation';
+import type {
+  TaxCategory,
+  TaxConfig,
+  TaxCountry,
+  TaxCountryInput,
+  TaxLine,
+  TaxRate,
+  TaxRateInput,
+  TaxReportRow,
+} from '../../domain/models/tax';
+
+interface TaxCountryRow {
+  country_code: string;
+  prices_include_tax: boolean;
+}
+
+interface TaxRateRow {
+  id: string;
+  country_code: string;
+  region_code: string | null;
+  category: string;
+  name: string;
+  rate_bps: number | string;
+  is_active: boolean;
+}
+
+interface TaxReportRpcRow {
+  country_code: string;
+  region_code: string | null;
+  name: string;
+  category: string;
+  rate_bps: number | string;
+  currency: string;
+  order_count: number | string;
+  taxable_cents: number | string;
+  tax_cents: number | string;
+}
+
+const toCountry = (row: TaxCountryRow): TaxCountry => ({
+  countryCode: row.country_code,
+  pricesIncludeTax: row.prices_include_tax,
+});
+
+const toRate = (row: TaxRateRow): TaxRate => ({
+  id: row.id,
+  countryCode: row.country_code,
+  regionCode: row.region_code,
+  category: toTaxCategory(row.category),
+  name: row.name,
+  rateBps: Number(row.rate_bps),
+  isActive: row.is_active,
+});
+
+const toRateRow = (input: TaxRateInput) => ({
+  country_code: input.countryCode,
+  region_code: input.regionCode ?? null,
+  category: input.category,
+  name: input.name,
+  rate_bps: input.rateBps,
+  is_active: input.isActive,
+});
+
+const toReportRow = (row: TaxReportRpcRow): TaxReportRow => ({
+  countryCode: row.country_code,
+  regionCode: row.region_code,
+  name: row.name,
+  category: toTaxCategory(row.category),
+  rateBps: Number(row.rate_bps),
+  currency: row.currency,
+  orderCount: Number(row.order_count),
+  taxableCents: Number(row.taxable_cents),
+  taxCents: Number(row.tax_cents),
+});
+
+export class TaxRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async getConfig(): Promise<TaxConfig> {
+    const [countries, rates] = await Promise.all([
+      this.client.from('tax_countries').select('*').order('country_code'),
+      this.client.from('tax_rates').select('*').order('country_code').order('region_code', { nullsFirst: true }).order('name'),
+    ]);
+
+    const error = countries.error ?? rates.error;
+    if (error) {
+      throw error;
+    }
+
+    return {
+      countries: ((countries.data ?? []) as TaxCountryRow[]).map(toCountry),
+      rates: ((rates.data ?? []) as TaxRateRow[]).map(toRate),
+    };
+  }
+
+  async upsertCountry(input: TaxCountryInput): Promise<TaxCountry> {
+    const { data, error } = await this.client
+      .from('tax_countries')
+      .upsert({ country_code: input.countryCode, prices_include_tax: input.pricesIncludeTax }, { onConflict: 'country_code' })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toCountry(data as TaxCountryRow);
+  }
+
+  /**
+   * Deletes the pricing mode of a country, which falls back to prices excluding tax. Returns
+   * false when it did not exist
+   */
+  async removeCountry(countryCode: string): Promise<boolean> {
+    const { data, error } = await this.client.from('tax_countries').delete().eq('country_code', countryCode).select('country_code');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  async createRate(input: TaxRateInput): Promise<TaxRate> {
+    const { data, error } = await this.client.from('tax_rates').insert(toRateRow(input)).select('*').single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toRate(data as TaxRateRow);
+  }
+
+  async updateRate(id: string, input: TaxRateInput): Promise<TaxRate | null> {
+    const { data, error } = await this.client.from('tax_rates').update(toRateRow(input)).eq('id', id).select('*').maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toRate(data as TaxRateRow) : null;
+  }
+
+  /**
+   * Deletes a rate. Returns false when it did not exist
+   */
+  async removeRate(id: string): Promise<boolean> {
+    const { data, error } = await this.client.from('tax_rates').delete().eq('id', id).select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * Tax category of each product
+   */
+  async getProductCategories(productIds: string[]): Promise<Map<string, TaxCategory>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.client.from('products').select('id, tax_category').in('id', productIds);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Map(
+      ((data ?? []) as { id: string; tax_category: string | null }[]).map((row) => [row.id, toTaxCategory(row.tax_category)]),
+    );
+  }
+
+  async insertOrderLines(orderId: string, lines: TaxLine[]): Promise<void> {
+    if (lines.length === 0) {
+      return;
+    }
+
+    const { error } = await this.client.from('order_tax_lines').insert(
+      lines.map((line) => ({
+        order_id: orderId,
+        country_code: line.countryCode,
+        region_code: line.regionCode,
+        category: line.category,
+        name: line.name,
+        rate_bps: line.rateBps,
+        taxable_cents: line.taxableCents,
+        tax_cents: line.taxCents,
+      })),
+    );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * Tax collected per jurisdiction, tax, rate and currency on the orders paid between two dates,
+   * both included
+   */
+  async getReport(from: string, to: string): Promise<TaxReportRow[]> {
+    const { data, error } = await this.client.rpc('tax_report_by_jurisdiction', { p_from: from, p_to: to });
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as TaxReportRpcRow[]).map(toReportRow);
+  }
+}
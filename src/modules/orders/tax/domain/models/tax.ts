@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import { ISO_COUNTRY_CODES } from '@/modules/app-settings/domain/constants/iso-country-codes';
+
+export const TAX_CATEGORIES = ['supplements', 'merchandise'] as const;
+
+/**
+ * Category of products without one, and of items whose product is unknown
+ */
+export const DEFAULT_TAX_CATEGORY = 'supplements';
+
+export type TaxCategory = (typeof TAX_CATEGORIES)[number];
+
+export const TaxCountrySchema = z.object({
+  countryCode: z.string(),
+  /**
+   * True when catalog prices already include the tax of the country; checkout then charges the
+   * price as is and the tax is the part of it kept for the jurisdiction
+   */
+  pricesIncludeTax: z.boolean(),
+});
+
+export type TaxCountry = z.infer<typeof TaxCountrySchema>;
+
+export const TaxRateSchema = z.object({
+  id: z.string(),
+  countryCode: z.string(),
+  /**
+   * State or province of the rate; null for the rate of the whole country
+   */
+  regionCode: z.string().nullable(),
+  category: z.enum(TAX_CATEGORIES),
+  name: z.string(),
+  /**
+   * Rate in basis points: 1300 is 13%
+   */
+  rateBps: z.number().int(),
+  isActive: z.boolean(),
+});
+
+export type TaxRate = z.infer<typeof TaxRateSchema>;
+
+export const TaxConfigSchema = z.object({
+  countries: TaxCountrySchema.array(),
+  rates: TaxRateSchema.array(),
+});
+
+export type TaxConfig = z.infer<typeof TaxConfigSchema>;
+
+const COUNTRY_CODES = new Set<string>(ISO_COUNTRY_CODES);
+
+const CountryCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine((value) => COUNTRY_CODES.has(value), 'Unknown country code');
+
+export const TaxCountryInputSchema = z.object({
+  countryCode: CountryCodeSchema,
+  pricesIncludeTax: z.boolean(),
+});
+
+export type TaxCountryInput = z.infer<typeof TaxCountryInputSchema>;
+
+export const TaxRateInputSchema = z.object({
+  countryCode: CountryCodeSchema,
+  regionCode: z.string().trim().toUpperCase().min(1).max(60).nullable().optional(),
+  category: z.enum(TAX_CATEGORIES),
+  name: z.string().trim().min(1).max(120),
+  rateBps: z.number().int().min(0).max(10000),
+  isActive: z.boolean().default(true),
+});
+
+export type TaxRateInput = z.infer<typeof TaxRateInputSchema>;
+
+export const TaxQuoteItemSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().int().positive(),
+  /**
+   * Unit price paid, after product discounts
+   */
+  priceCents: z.number().int().nonnegative(),
+});
+
+export type TaxQuoteItem = z.infer<typeof TaxQuoteItemSchema>;
+
+export const TaxQuoteInputSchema = z.object({
+  country: CountryCodeSchema,
+  region: z.string().trim().max(60).nullable().optional(),
+  items: TaxQuoteItemSchema.array().min(1).max(100),
+});
+
+export type TaxQuoteInput = z.infer<typeof TaxQuoteInputSchema>;
+
+export const TaxLineSchema = z.object({
+  countryCode: z.string(),
+  regionCode: z.string().nullable(),
+  category: z.enum(TAX_CATEGORIES),
+  name: z.string(),
+  rateBps: z.number().int(),
+  /**
+   * Amount the rate applies to, without the tax in both pricing modes
+   */
+  taxableCents: z.number().int(),
+  taxCents: z.number().int(),
+});
+
+export type TaxLine = z.infer<typeof TaxLineSchema>;
+
+export const TaxQuoteSchema = z.object({
+  /**
+   * False while no tax rate is set up: checkout then charges no tax
+   */
+  configured: z.boolean(),
+  pricesIncludeTax: z.boolean(),
+  /**
+   * Total tax of the cart. Added to the total only when prices exclude tax
+   */
+  taxCents: z.number().int(),
+  lines: TaxLineSchema.array(),
+  subtotalCents: z.number().int(),
+});
+
+export type TaxQuote = z.infer<typeof TaxQuoteSchema>;
+
+export const TaxReportRowSchema = z.object({
+  countryCode: z.string(),
+  regionCode: z.string().nullable(),
+  name: z.string(),
+  category: z.enum(TAX_CATEGORIES),
+  rateBps: z.number().int(),
+  currency: z.string(),
+  orderCount: z.number().int(),
+  taxableCents: z.number().int(),
+  taxCents: z.number().int(),
+});
+
+export type TaxReportRow = z.infer<typeof TaxReportRowSchema>;
+
+export const TaxReportSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  rows: TaxReportRowSchema.array(),
+  /**
+   * Tax collected per currency over all the rows. Taxable amounts are not added up: stacked rates
+   * share them
+   */
+  totals: z.array(z.object({ currency: z.string(), taxCents: z.number().int() })),
+});
+
+export type TaxReport = z.infer<typeof TaxReportSchema>;
+
+export const TaxSettingsDictionarySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  refresh: z.string(),
+  add: z.string(),
+  edit: z.string(),
+  delete: z.string(),
+  save: z.string(),
+  saving: z.string(),
+  cancel: z.string(),
+  active: z.string(),
+  inactive: z.string(),
+  confirmDelete: z.string(),
+  countries: z.object({
+    title: z.string(),
+    description: z.string(),
+    empty: z.string(),
+    country: z.string(),
+    mode: z.string(),
+    inclusive: z.string(),
+    exclusive: z.string(),
+    modeHelper: z.string(),
+  }),
+  rates: z.object({
+    title: z.string(),
+    description: z.string(),
+    empty: z.string(),
+    country: z.string(),
+    region: z.string(),
+    regionHelper: z.string(),
+    allRegions: z.string(),
+    category: z.string(),
+    categories: z.record(z.string(), z.string()),
+    name: z.string(),
+    rate: z.string(),
+  }),
+  success: z.object({
+    saved: z.string(),
+    deleted: z.string(),
+  }),
+  error: z.object({
+    title: z.string(),
+    load: z.string(),
+    save: z.string(),
+    delete: z.string(),
+  }),
+});
+
+export type TaxSettingsDictionary = z.infer<typeof TaxSettingsDictionarySchema>;
+
+export const TaxReportDictionarySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  from: z.string(),
+  to: z.string(),
+  apply: z.string(),
+  export: z.string(),
+  empty: z.string(),
+  error: z.string(),
+  total: z.string(),
+  columns: z.object({
+    jurisdiction: z.string(),
+    tax: z.string(),
+    category: z.string(),
+    rate: z.string(),
+    orders: z.string(),
+    taxable: z.string(),
+    collected: z.string(),
+    currency: z.string(),
+  }),
+  categories: z.record(z.string(), z.string()),
+});
+
+export type TaxReportDictionary = z.infer<typeof TaxReportDictionarySchema>;
@@ -0,0 +1,111 @@
+import {
+  DEFAULT_TAX_CATEGORY,
+  TAX_CATEGORIES,
+  type TaxCategory,
+  type TaxConfig,
+  type TaxLine,
+  type TaxQuote,
+  type TaxRate,
+} from './models/tax';
+
+export interface TaxableItem {
+  category: TaxCategory;
+  quantity: number;
+  priceCents: number;
+}
+
+export interface TaxDestination {
+  country: string;
+  region?: string | null;
+}
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toUpperCase();
+
+export const toTaxCategory = (value: unknown): TaxCategory =>
+  TAX_CATEGORIES.includes(value as TaxCategory) ? (value as TaxCategory) : DEFAULT_TAX_CATEGORY;
+
+/**
+ * Active rates of the destination for a product category. Rates of the whole country apply in
+ * every region and the rates of the region of the destination stack on top of them, so a federal
+ * tax and a provincial tax are set up as two rates
+ */
+export const matchTaxRates = (rates: TaxRate[], destination: TaxDestination, category: TaxCategory) => {
+  const countryCode = normalize(destination.country);
+  const regionCode = normalize(destination.region);
+
+  return rates.filter(
+    (rate) =>
+      rate.isActive &&
+      rate.category === category &&
+      normalize(rate.countryCode) === countryCode &&
+      (rate.regionCode === null || (regionCode !== '' && normalize(rate.regionCode) === regionCode)),
+  );
+};
+
+/**
+ * Rate as a percentage without trailing zeros: 1300 basis points is 13%
+ */
+export const formatTaxRate = (rateBps: number) => `${(rateBps / 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+
+export const pricesIncludeTax = (config: TaxConfig, country: string) =>
+  config.countries.find((entry) => normalize(entry.countryCode) === normalize(country))?.pricesIncludeTax ?? false;
+
+/**
+ * Tax lines of the amount of one category under its rates. Prices excluding tax add each rate to
+ * the amount; prices including tax are split into the net amount and the tax, the last rate taking
+ * the rounding remainder so the lines add up to the price paid
+ */
+const taxAmount = (amountCents: number, rates: TaxRate[], inclusive: boolean) => {
+  if (!inclusive) {
+    return rates.map((rate) => ({ rate, taxableCents: amountCents, taxCents: Math.round((amountCents * rate.rateBps) / 10000) }));
+  }
+
+  const totalBps = rates.reduce((total, rate) => total + rate.rateBps, 0);
+  const netCents = Math.round((amountCents * 10000) / (10000 + totalBps));
+  const lines = rates.map((rate) => ({ rate, taxableCents: netCents, taxCents: Math.round((netCents * rate.rateBps) / 10000) }));
+  const remainder = amountCents - netCents - lines.reduce((total, line) => total + line.taxCents, 0);
+  if (lines.length > 0) {
+    lines[lines.length - 1].taxCents += remainder;
+  }
+  return lines;
+};
+
+/**
+ * Tax of a cart sent to a destination, one line per applicable rate. Items are grouped by tax
+ * category before rounding, so the tax does not drift with the number of items. Shipping is not
+ * taxed.
+ */
+export const calculateTax = (config: TaxConfig, destination: TaxDestination, items: TaxableItem[]): TaxQuote => {
+  const configured = config.rates.some((rate) => rate.isActive);
+  const inclusive = pricesIncludeTax(config, destination.country);
+  const subtotalCents = items.reduce((total, item) => total + item.priceCents * item.quantity, 0);
+
+  const amountByCategory = new Map<TaxCategory, number>();
+  for (const item of items) {
+    amountByCategory.set(item.category, (amountByCategory.get(item.category) ?? 0) + item.priceCents * item.quantity);
+  }
+
+  const lines: TaxLine[] = configured
+    ? Array.from(amountByCategory.entries()).flatMap(([category, amountCents]) =>
+        taxAmount(amountCents, matchTaxRates(config.rates, destination, category), inclusive).map(
+          ({ rate, taxableCents, taxCents }) => ({
+            countryCode: rate.countryCode,
+            regionCode: rate.regionCode,
+            category,
+            name: rate.name,
+            rateBps: rate.rateBps,
+            taxableCents,
+            taxCents,
+          }),
+        ),
+      )
+    : [];
+
+  return {
+    configured,
+    pricesIncludeTax: inclusive,
+    taxCents: lines.reduce((total, line) => total + line.taxCents, 0),
+    lines,
+    subtotalCents,
+  };
+};
@@ -0,0 +1,4 @@
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { TaxService } from '../services/tax-service';
+
+export const createTaxService = () => new TaxService(getSupabaseAdminClient());
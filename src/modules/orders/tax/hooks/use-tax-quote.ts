@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { TaxQuote, TaxQuoteItem } from '../domain/models/tax';
+import { TaxRepositoryFactory } from '../repositories/tax-repository';
+
+const QUOTE_DEBOUNCE_MS = 400;
+
+interface UseTaxQuoteOptions {
+  country: string | null | undefined;
+  region?: string | null;
+  items: TaxQuoteItem[];
+}
+
+interface UseTaxQuoteResult {
+  quote: TaxQuote | null;
+  /**
+   * Tax of the cart, included in the prices or not
+   */
+  taxCents: number;
+  /**
+   * Part of the tax added to the cart total: nothing when prices include tax
+   */
+  chargedTaxCents: number;
+  isLoading: boolean;
+  error: string | null;
+  /**
+   * True while checkout must not be submitted: the quote is loading or failed while taxes are set up
+   */
+  blocksCheckout: boolean;
+}
+
+/**
+ * Quotes the tax of the cart for the checkout destination
+ */
+export function useTaxQuote({ country, region, items }: UseTaxQuoteOptions): UseTaxQuoteResult {
+  const repository = useMemo(() => TaxRepositoryFactory.createForCheckout(), []);
+  const [quote, setQuote] = useState<TaxQuote | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const countryCode = country?.trim().toUpperCase() ?? '';
+  const regionName = region?.trim() || null;
+  // Serialized so a new array with the same contents does not quote again
+  const itemsKey = JSON.stringify(items);
+
+  useEffect(() => {
+    const quoteItems = JSON.parse(itemsKey) as TaxQuoteItem[];
+
+    if (countryCode.length !== 2 || quoteItems.length === 0) {
+      setQuote(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let ignore = false;
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const nextQuote = await repository.quote({ country: countryCode, region: regionName, items: quoteItems });
+        if (ignore) return;
+        setQuote(nextQuote);
+        setError(null);
+      } catch (quoteError) {
+        if (ignore) return;
+        console.error('[useTaxQuote] quote failed', quoteError);
+        setQuote(null);
+        setError(quoteError instanceof Error ? quoteError.message : 'Failed to quote tax.');
+      } finally {
+        if (!ignore) {
+          setIsLoading(false);
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      ignore = true;
+      clearTimeout(timer);
+    };
+  }, [repository, countryCode, regionName, itemsKey]);
+
+  const taxCents = quote?.taxCents ?? 0;
+
+  return {
+    quote,
+    taxCents,
+    chargedTaxCents: quote && !quote.pricesIncludeTax ? taxCents : 0,
+    isLoading,
+    error,
+    blocksCheckout: isLoading || error !== null,
+  };
+}
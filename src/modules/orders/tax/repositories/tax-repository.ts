@@ -0,0 +1,193 @@
+import {
+  TaxConfigSchema,
+  TaxCountrySchema,
+  TaxQuoteSchema,
+  TaxRateSchema,
+  TaxReportSchema,
+  type TaxConfig,
+  type TaxCountry,
+  type TaxCountryInput,
+  type TaxQuote,
+  type TaxQuoteInput,
+  type TaxRate,
+  type TaxRateInput,
+  type TaxReport,
+} from '../domain/models/tax';
+import { adminApi } from '@/lib/utils/admin-csrf-helpers';
+
+export interface TaxSettingsRepository {
+  getConfig(): Promise<TaxConfig>;
+  saveCountry(input: TaxCountryInput): Promise<TaxCountry>;
+  removeCountry(countryCode: string): Promise<void>;
+  saveRate(input: TaxRateInput, id?: string | null): Promise<TaxRate>;
+  removeRate(id: string): Promise<void>;
+}
+
+export interface TaxQuoteRepository {
+  quote(input: TaxQuoteInput): Promise<TaxQuote>;
+}
+
+export interface TaxReportRepository {
+  getReport(from: string, to: string): Promise<TaxReport>;
+}
+
+export class TaxRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+  ) {
+    super(message);
+    this.name = 'TaxRequestError';
+  }
+}
+
+const API_BASE = '/api/admin/tax';
+
+const parseJson = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    console.error('[TaxRepository] Failed to parse JSON', error, text);
+    throw new Error('Invalid server response.');
+  }
+};
+
+const toRequestError = async (response: Response, fallback: string) => {
+  const payload = await parseJson(response);
+  const message = typeof payload.error === 'string' ? payload.error : response.statusText;
+  return new TaxRequestError(message || fallback, typeof payload.code === 'string' ? payload.code : null);
+};
+
+class HttpTaxSettingsRepository implements TaxSettingsRepository {
+  async getConfig(): Promise<TaxConfig> {
+    const response = await fetch(API_BASE, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load tax configuration.');
+    }
+
+    return TaxConfigSchema.parse(await parseJson(response));
+  }
+
+  async saveCountry(input: TaxCountryInput): Promise<TaxCountry> {
+    // ✅ SECURITY: Use adminApi to automatically include CSRF token
+    const response = await adminApi.post(`${API_BASE}/countries`, input);
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to save tax country.');
+    }
+
+    const payload = await parseJson(response);
+    return TaxCountrySchema.parse(payload.country);
+  }
+
+  async removeCountry(countryCode: string): Promise<void> {
+    // ✅ SECURITY: Use adminApi.delete() to automatically include CSRF token
+    const response = await adminApi.delete(`${API_BASE}/countries/${encodeURIComponent(countryCode)}`);
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to delete.');
+    }
+  }
+
+  async saveRate(input: TaxRateInput, id?: string | null): Promise<TaxRate> {
+    // ✅ SECURITY: Use adminApi to automatically include CSRF token
+    const response = id
+      ? await adminApi.put(`${API_BASE}/rates/${encodeURIComponent(id)}`, input)
+      : await adminApi.post(`${API_BASE}/rates`, input);
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to save tax rate.');
+    }
+
+    const payload = await parseJson(response);
+    return TaxRateSchema.parse(payload.rate);
+  }
+
+  async removeRate(id: string): Promise<void> {
+    // ✅ SECURITY: Use adminApi.delete() to automatically include CSRF token
+    const response = await adminApi.delete(`${API_BASE}/rates/${encodeURIComponent(id)}`);
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to delete.');
+    }
+  }
+}
+
+class HttpTaxQuoteRepository implements TaxQuoteRepository {
+  async quote(input: TaxQuoteInput): Promise<TaxQuote> {
+    const response = await fetch('/api/tax/quote', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify(input),
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to quote tax.');
+    }
+
+    const payload = await parseJson(response);
+    return TaxQuoteSchema.parse(payload.quote);
+  }
+}
+
+class HttpTaxReportRepository implements TaxReportRepository {
+  async getReport(from: string, to: string): Promise<TaxReport> {
+    const params = new URLSearchParams({ from, to });
+    const response = await fetch(`/api/admin/sales-history/tax-report?${params.toString()}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load tax report.');
+    }
+
+    const payload = await parseJson(response);
+    return TaxReportSchema.parse(payload.report);
+  }
+}
+
+class TaxRepositoryFactoryImpl {
+  private settingsInstance: TaxSettingsRepository | null = null;
+  private quoteInstance: TaxQuoteRepository | null = null;
+  private reportInstance: TaxReportRepository | null = null;
+
+  createForSettings(): TaxSettingsRepository {
+    if (!this.settingsInstance) {
+      this.settingsInstance = new HttpTaxSettingsRepository();
+    }
+
+    return this.settingsInstance;
+  }
+
+  createForCheckout(): TaxQuoteRepository {
+    if (!this.quoteInstance) {
+      this.quoteInstance = new HttpTaxQuoteRepository();
+    }
+
+    return this.quoteInstance;
+  }
+
+  createForReports(): TaxReportRepository {
+    if (!this.reportInstance) {
+      this.reportInstance = new HttpTaxReportRepository();
+    }
+
+    return this.reportInstance;
+  }
+}
+
+export const TaxRepositoryFactory = new TaxRepositoryFactoryImpl();
+
+export { HttpTaxSettingsRepository, HttpTaxQuoteRepository, HttpTaxReportRepository };
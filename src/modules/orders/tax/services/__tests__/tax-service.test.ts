@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TaxService, TaxError, getChargedTaxCents, readCheckoutTax, withCheckoutTax } from '../tax-service';
+import { formatTaxRate } from '../../domain/tax-calculation';
+import type { TaxConfig, TaxRate } from '../../domain/models/tax';
+
+const repository = {
+  getConfig: vi.fn(),
+  getProductCategories: vi.fn(),
+  insertOrderLines: vi.fn(),
+};
+
+vi.mock('../../data/repositories/tax-repository', () => ({
+  TaxRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+const SUPPLEMENT_ID = '0b7f6a4e-8f8a-4a53-9c55-3f1a2b6c7d01';
+const SHIRT_ID = '0b7f6a4e-8f8a-4a53-9c55-3f1a2b6c7d02';
+
+const buildRate = (overrides: Partial<TaxRate> = {}): TaxRate => ({
+  id: 'rate-gst',
+  countryCode: 'CA',
+  regionCode: null,
+  category: 'supplements',
+  name: 'GST',
+  rateBps: 500,
+  isActive: true,
+  ...overrides,
+});
+
+const buildConfig = (overrides: Partial<TaxConfig> = {}): TaxConfig => ({
+  countries: [{ countryCode: 'ES', pricesIncludeTax: true }],
+  rates: [
+    buildRate(),
+    buildRate({ id: 'rate-pst', regionCode: 'BC', name: 'PST', rateBps: 700 }),
+    buildRate({ id: 'rate-gst-merch', category: 'merchandise' }),
+    buildRate({ id: 'rate-iva', countryCode: 'ES', name: 'IVA', rateBps: 2100 }),
+    buildRate({ id: 'rate-iva-merch', countryCode: 'ES', category: 'merchandise', name: 'IVA', rateBps: 2100 }),
+  ],
+  ...overrides,
+});
+
+const cartItems = (quantity: number, priceCents = 1000) => [{ productId: SUPPLEMENT_ID, quantity, priceCents }];
+
+describe('TaxService', () => {
+  let service: TaxService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository.getConfig.mockResolvedValue(buildConfig());
+    repository.getProductCategories.mockResolvedValue(
+      new Map([
+        [SUPPLEMENT_ID, 'supplements'],
+        [SHIRT_ID, 'merchandise'],
+      ]),
+    );
+    service = new TaxService({} as SupabaseClient);
+  });
+
+  describe('quote', () => {
+    it('adds the country rates to prices excluding tax', async () => {
+      const quote = await service.quote({ country: 'CA', items: cartItems(3) });
+
+      expect(quote).toMatchObject({ configured: true, pricesIncludeTax: false, taxCents: 150, subtotalCents: 3000 });
+      expect(quote.lines).toEqual([
+        { countryCode: 'CA', regionCode: null, category: 'supplements', name: 'GST', rateBps: 500, taxableCents: 3000, taxCents: 150 },
+      ]);
+    });
+
+    it('stacks the rates of the region on top of the country rates', async () => {
+      const quote = await service.quote({ country: 'ca', region: 'bc', items: cartItems(1) });
+
+      expect(quote.lines.map((line) => [line.name, line.taxCents])).toEqual([
+        ['GST', 50],
+        ['PST', 70],
+      ]);
+      expect(quote.taxCents).toBe(120);
+    });
+
+    it('applies the rates of the category of each product', async () => {
+      repository.getConfig.mockResolvedValue(buildConfig({ rates: [buildRate(), buildRate({ id: 'rate-merch', category: 'merchandise', rateBps: 1300 })] }));
+
+      const quote = await service.quote({
+        country: 'CA',
+        items: [...cartItems(1), { productId: SHIRT_ID, quantity: 2, priceCents: 1500 }],
+      });
+
+      expect(quote.lines.map((line) => [line.category, line.taxableCents, line.taxCents])).toEqual([
+        ['supplements', 1000, 50],
+        ['merchandise', 3000, 390],
+      ]);
+    });
+
+    it('splits the tax out of prices including tax so the lines add up to the price', async () => {
+      const quote = await service.quote({ country: 'ES', items: cartItems(1, 1210) });
+
+      expect(quote.pricesIncludeTax).toBe(true);
+      expect(quote.lines).toEqual([
+        expect.objectContaining({ name: 'IVA', taxableCents: 1000, taxCents: 210 }),
+      ]);
+      expect(getChargedTaxCents({ amountCents: quote.taxCents, pricesIncludeTax: quote.pricesIncludeTax })).toBe(0);
+    });
+
+    it('charges no tax where no rate applies', async () => {
+      const quote = await service.quote({ country: 'US', items: cartItems(2) });
+
+      expect(quote).toMatchObject({ configured: true, taxCents: 0, lines: [] });
+    });
+  });
+
+  describe('resolveCheckoutTax', () => {
+    it('returns the tax that matches a fresh quote', async () => {
+      const tax = await service.resolveCheckoutTax({
+        metadata: { taxCents: '120', shippingCountry: 'ca', shippingState: 'BC', pricesIncludeTax: 'false' },
+        cartItems: cartItems(1),
+      });
+
+      expect(tax).toEqual({ amountCents: 120, country: 'CA', region: 'BC', pricesIncludeTax: false });
+    });
+
+    it('skips checkout tax until a rate is active', async () => {
+      repository.getConfig.mockResolvedValue(buildConfig({ rates: [buildRate({ isActive: false })] }));
+
+      await expect(service.resolveCheckoutTax({ metadata: {}, cartItems: cartItems(1) })).resolves.toBeNull();
+      expect(repository.getProductCategories).not.toHaveBeenCalled();
+    });
+
+    it('requires the destination country', async () => {
+      await expect(service.resolveCheckoutTax({ metadata: { taxCents: 0 }, cartItems: cartItems(1) })).rejects.toMatchObject({
+        code: 'TAX_REQUIRED',
+      });
+    });
+
+    it('rejects a tax that does not match the quote', async () => {
+      const error = await service
+        .resolveCheckoutTax({ metadata: { taxCents: 10, taxCountry: 'CA' }, cartItems: cartItems(1) })
+        .catch((caught) => caught);
+
+      expect(error).toBeInstanceOf(TaxError);
+      expect(error.code).toBe('TAX_AMOUNT_MISMATCH');
+    });
+  });
+
+  describe('recordOrderTax', () => {
+    it('stores one line per rate of the checkout destination', async () => {
+      const lines = await service.recordOrderTax(
+        'order-1',
+        { taxCents: 120, taxCountry: 'CA', taxRegion: 'BC' },
+        cartItems(1),
+      );
+
+      expect(lines).toHaveLength(2);
+      expect(repository.insertOrderLines).toHaveBeenCalledWith('order-1', lines);
+    });
+
+    it('records nothing for orders paid without tax', async () => {
+      await expect(service.recordOrderTax('order-1', { shippingCountry: 'CA' }, cartItems(1))).resolves.toEqual([]);
+      expect(repository.insertOrderLines).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('checkout tax metadata', () => {
+  it('falls back to the shipping destination', () => {
+    expect(readCheckoutTax({ taxCents: 'abc', shippingCountry: 'cr', shippingState: 'San José' })).toEqual({
+      amountCents: undefined,
+      country: 'CR',
+      region: 'San José',
+      pricesIncludeTax: undefined,
+    });
+  });
+
+  it('replaces the tax keys sent by the client with the verified tax', () => {
+    const metadata = { cartItems: [], taxCents: 999, taxRegion: 'XX' };
+
+    expect(withCheckoutTax(metadata, { amountCents: 120, country: 'CA', region: null, pricesIncludeTax: false })).toEqual({
+      cartItems: [],
+      taxCents: 120,
+      taxCountry: 'CA',
+      pricesIncludeTax: false,
+    });
+    expect(withCheckoutTax(metadata, null)).toEqual({ cartItems: [] });
+  });
+
+  it('formats basis points as a percentage', () => {
+    expect(formatTaxRate(1300)).toBe('13%');
+    expect(formatTaxRate(725)).toBe('7.25%');
+  });
+});
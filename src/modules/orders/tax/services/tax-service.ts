@@ -0,0 +1,254 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TaxRepository } from '../data/repositories/tax-repository';
+import { calculateTax } from '../domain/tax-calculation';
+import { DEFAULT_TAX_CATEGORY } from '../domain/models/tax';
+import type {
+  TaxConfig,
+  TaxCountry,
+  TaxCountryInput,
+  TaxQuote,
+  TaxQuoteInput,
+  TaxQuoteItem,
+  TaxRate,
+  TaxRateInput,
+  TaxReport,
+} from '../domain/models/tax';
+
+export type TaxErrorCode = 'COUNTRY_NOT_FOUND' | 'RATE_NOT_FOUND' | 'TAX_REQUIRED' | 'TAX_AMOUNT_MISMATCH';
+
+export class TaxError extends Error {
+  constructor(
+    message: string,
+    public readonly code: TaxErrorCode,
+  ) {
+    super(message);
+    this.name = 'TaxError';
+  }
+}
+
+/**
+ * HTTP status of each error, shared by the admin tax routes and the checkout routes
+ */
+export const TAX_ERROR_STATUS: Record<TaxErrorCode, number> = {
+  COUNTRY_NOT_FOUND: 404,
+  RATE_NOT_FOUND: 404,
+  TAX_REQUIRED: 400,
+  TAX_AMOUNT_MISMATCH: 409,
+};
+
+/**
+ * Tax of a checkout, as stored in the payment metadata and on the order
+ */
+export interface CheckoutTax {
+  amountCents: number;
+  country: string;
+  region: string | null;
+  pricesIncludeTax: boolean;
+}
+
+const readString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const readCents = (value: unknown) => {
+  const cents = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof cents === 'number' && Number.isInteger(cents) && cents >= 0 ? cents : null;
+};
+
+const readBoolean = (value: unknown) => (value === true || value === 'true' ? true : value === false || value === 'false' ? false : null);
+
+/**
+ * Tax of a checkout from its payment metadata. The destination defaults to the shipping
+ * destination; gateways hand the metadata back as strings, so values are parsed from either form
+ */
+export function readCheckoutTax(metadata: Record<string, unknown> | null | undefined): Partial<CheckoutTax> {
+  return {
+    amountCents: readCents(metadata?.taxCents) ?? undefined,
+    country: (readString(metadata?.taxCountry) ?? readString(metadata?.shippingCountry))?.toUpperCase(),
+    region: readString(metadata?.taxRegion) ?? readString(metadata?.shippingState),
+    pricesIncludeTax: readBoolean(metadata?.pricesIncludeTax) ?? undefined,
+  };
+}
+
+/**
+ * Payment metadata keys of the tax verified for a checkout
+ */
+export function toCheckoutTaxMetadata(tax: CheckoutTax): Record<string, string | number | boolean> {
+  return {
+    taxCents: tax.amountCents,
+    taxCountry: tax.country,
+    ...(tax.region ? { taxRegion: tax.region } : {}),
+    pricesIncludeTax: tax.pricesIncludeTax,
+  };
+}
+
+const CHECKOUT_TAX_KEYS = ['taxCents', 'taxCountry', 'taxRegion', 'pricesIncludeTax'];
+
+/**
+ * Payment metadata with the tax keys sent by the client replaced by the verified tax, or removed
+ * when the checkout is not taxed
+ */
+export function withCheckoutTax(metadata: Record<string, unknown>, tax: CheckoutTax | null): Record<string, unknown> {
+  const rest = Object.fromEntries(Object.entries(metadata).filter(([key]) => !CHECKOUT_TAX_KEYS.includes(key)));
+  return tax ? { ...rest, ...toCheckoutTaxMetadata(tax) } : rest;
+}
+
+/**
+ * Amount checkout adds to the cart for the tax: nothing when prices already include it
+ */
+export const getChargedTaxCents = (tax: Pick<CheckoutTax, 'amountCents' | 'pricesIncludeTax'> | null) =>
+  tax && !tax.pricesIncludeTax ? tax.amountCents : 0;
+
+const toQuoteItems = (cartItems: unknown): TaxQuoteItem[] => {
+  if (!Array.isArray(cartItems)) {
+    return [];
+  }
+
+  return cartItems
+    .filter((item): item is Record<string, unknown> => Boolean(item && typeof item === 'object'))
+    .filter((item) => typeof item.productId === 'string')
+    .map((item) => ({
+      productId: item.productId as string,
+      quantity: Number(item.quantity) || 0,
+      priceCents: Number(item.priceCents) || 0,
+    }))
+    .filter((item) => item.quantity > 0);
+};
+
+/**
+ * Tax configuration (pricing mode per country and rates per country, region and product category)
+ * and the quotes checkout charges from it. Checkout routes verify the tax sent by the client
+ * against a fresh quote, and paid orders keep one tax line per rate for invoices and the tax
+ * report.
+ */
+export class TaxService {
+  private readonly repository: TaxRepository;
+
+  constructor(client: SupabaseClient) {
+    this.repository = new TaxRepository(client);
+  }
+
+  getConfig(): Promise<TaxConfig> {
+    return this.repository.getConfig();
+  }
+
+  saveCountry(input: TaxCountryInput): Promise<TaxCountry> {
+    return this.repository.upsertCountry(input);
+  }
+
+  async deleteCountry(countryCode: string): Promise<void> {
+    if (!(await this.repository.removeCountry(countryCode.toUpperCase()))) {
+      throw new TaxError('Tax country not found', 'COUNTRY_NOT_FOUND');
+    }
+  }
+
+  createRate(input: TaxRateInput): Promise<TaxRate> {
+    return this.repository.createRate(input);
+  }
+
+  async updateRate(id: string, input: TaxRateInput): Promise<TaxRate> {
+    const rate = await this.repository.updateRate(id, input);
+    if (!rate) {
+      throw new TaxError('Tax rate not found', 'RATE_NOT_FOUND');
+    }
+    return rate;
+  }
+
+  async deleteRate(id: string): Promise<void> {
+    if (!(await this.repository.removeRate(id))) {
+      throw new TaxError('Tax rate not found', 'RATE_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Tax of a cart sent to a destination, from the tax category of each product
+   */
+  async quote(input: TaxQuoteInput, config?: TaxConfig): Promise<TaxQuote> {
+    const taxConfig = config ?? (await this.repository.getConfig());
+    const categories = await this.repository.getProductCategories(Array.from(new Set(input.items.map((item) => item.productId))));
+
+    return calculateTax(
+      taxConfig,
+      { country: input.country, region: input.region },
+      input.items.map((item) => ({
+        category: categories.get(item.productId) ?? DEFAULT_TAX_CATEGORY,
+        quantity: item.quantity,
+        priceCents: item.priceCents,
+      })),
+    );
+  }
+
+  /**
+   * Verifies the tax a checkout sends in its payment metadata against a fresh quote of its cart.
+   * Returns null when there is nothing to tax or no tax rate is set up yet, which keeps checkout
+   * free of tax until an admin configures it.
+   */
+  async resolveCheckoutTax(input: {
+    metadata: Record<string, unknown> | null | undefined;
+    cartItems: unknown;
+  }): Promise<CheckoutTax | null> {
+    const items = toQuoteItems(input.cartItems);
+    if (items.length === 0) {
+      return null;
+    }
+
+    const config = await this.repository.getConfig();
+    if (!config.rates.some((rate) => rate.isActive)) {
+      return null;
+    }
+
+    const requested = readCheckoutTax(input.metadata);
+    if (!requested.country) {
+      throw new TaxError('Enter your country to calculate the taxes', 'TAX_REQUIRED');
+    }
+
+    const quote = await this.quote({ country: requested.country, region: requested.region, items }, config);
+
+    if (
+      (requested.amountCents ?? 0) !== quote.taxCents ||
+      (requested.pricesIncludeTax !== undefined && requested.pricesIncludeTax !== quote.pricesIncludeTax)
+    ) {
+      throw new TaxError('The taxes changed, please review your order', 'TAX_AMOUNT_MISMATCH');
+    }
+
+    return {
+      amountCents: quote.taxCents,
+      country: requested.country,
+      region: requested.region ?? null,
+      pricesIncludeTax: quote.pricesIncludeTax,
+    };
+  }
+
+  /**
+   * Keeps the tax breakdown of a paid order, one line per rate of its checkout destination.
+   * Returns the lines recorded; none for orders paid without tax.
+   */
+  async recordOrderTax(orderId: string, metadata: Record<string, unknown>, cartItems: unknown) {
+    const tax = readCheckoutTax(metadata);
+    const items = toQuoteItems(cartItems);
+    if (!tax.country || tax.amountCents === undefined || items.length === 0) {
+      return [];
+    }
+
+    const quote = await this.quote({ country: tax.country, region: tax.region, items });
+    await this.repository.insertOrderLines(orderId, quote.lines);
+    return quote.lines;
+  }
+
+  /**
+   * Tax collected per jurisdiction on the orders paid between two dates (YYYY-MM-DD), both
+   * included
+   */
+  async getReport(from: string, to: string): Promise<TaxReport> {
+    const rows = await this.repository.getReport(from, to);
+    const totals = new Map<string, number>();
+    for (const row of rows) {
+      totals.set(row.currency, (totals.get(row.currency) ?? 0) + row.taxCents);
+    }
+
+    return {
+      from,
+      to,
+      rows,
+      totals: Array.from(totals, ([currency, taxCents]) => ({ currency, taxCents })),
+    };
+  }
+}
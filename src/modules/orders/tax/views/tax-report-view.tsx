@@ -0,0 +1,202 @@
+'use client';
+
+import type { TaxReport, TaxReportDictionary, TaxReportRow } from '../domain/models/tax';
+import { formatTaxRate } from '../domain/tax-calculation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download } from 'lucide-react';
+
+interface TaxReportViewProps {
+  dictionary: TaxReportDictionary;
+  locale: string;
+  from: string;
+  to: string;
+  report: TaxReport | null;
+  loading: boolean;
+  error: string | null;
+  onPeriodChange: (period: { from: string; to: string }) => void;
+  onApply: () => void;
+}
+
+const formatJurisdiction = (row: TaxReportRow) => (row.regionCode ? `${row.countryCode} · ${row.regionCode}` : row.countryCode);
+
+const centsToAmount = (cents: number) => (cents / 100).toFixed(2);
+
+const sanitize = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+/**
+ * Downloads the report as a CSV file, one line per jurisdiction, tax and currency
+ */
+const exportCsv = (report: TaxReport, dictionary: TaxReportDictionary) => {
+  const delimiter = ';';
+  const headers = [
+    dictionary.columns.jurisdiction,
+    dictionary.columns.tax,
+    dictionary.columns.category,
+    dictionary.columns.rate,
+    dictionary.columns.orders,
+    dictionary.columns.taxable,
+    dictionary.columns.collected,
+    dictionary.columns.currency,
+  ];
+  const rows = report.rows.map((row) =>
+    [
+      formatJurisdiction(row),
+      row.name,
+      dictionary.categories[row.category] ?? row.category,
+      formatTaxRate(row.rateBps),
+      row.orderCount,
+      centsToAmount(row.taxableCents),
+      centsToAmount(row.taxCents),
+      row.currency,
+    ]
+      .map(sanitize)
+      .join(delimiter),
+  );
+
+  const csvContent = [headers.map(sanitize).join(delimiter), ...rows].join('\r\n');
+  const blob = new Blob(['\uFEFF', csvContent], { type: 'text/csv;charset=utf-8' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `tax-report_${report.from}_${report.to}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  }, 100);
+};
+
+/**
+ * Tax collected per jurisdiction and rate over a period, for filing returns
+ */
+export function TaxReportView({
+  dictionary,
+  locale,
+  from,
+  to,
+  report,
+  loading,
+  error,
+  onPeriodChange,
+  onApply,
+}: TaxReportViewProps) {
+  const formatCurrency = (cents: number, currency: string) =>
+    new Intl.NumberFormat(locale === 'es' ? 'es-ES' : 'en-US', {
+      style: 'currency',
+      currency: currency || 'USD',
+    }).format(cents / 100);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 space-y-0 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>{dictionary.title}</CardTitle>
+          <CardDescription>{dictionary.description}</CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => report && exportCsv(report, dictionary)}
+          disabled={!report || report.rows.length === 0}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          {dictionary.export}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-col gap-4 md:flex-row md:items-end"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onApply();
+          }}
+        >
+          <div className="flex-1">
+            <label htmlFor="tax-report-from" className="mb-2 block text-sm font-medium text-foreground">
+              {dictionary.from}
+            </label>
+            <Input
+              id="tax-report-from"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(event) => onPeriodChange({ from: event.target.value, to })}
+              required
+            />
+          </div>
+          <div className="flex-1">
+            <label htmlFor="tax-report-to" className="mb-2 block text-sm font-medium text-foreground">
+              {dictionary.to}
+            </label>
+            <Input
+              id="tax-report-to"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(event) => onPeriodChange({ from, to: event.target.value })}
+              required
+            />
+          </div>
+          <Button type="submit" disabled={loading}>
+            {dictionary.apply}
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {loading ? (
+          <div className="space-y-2">
+            {[0, 1, 2].map((item) => (
+              <Skeleton key={item} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : !report || report.rows.length === 0 ? (
+          <div className="rounded-lg border border-dashed px-4 py-8 text-center text-sm text-muted-foreground">
+            {dictionary.empty}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{dictionary.columns.jurisdiction}</TableHead>
+                  <TableHead>{dictionary.columns.tax}</TableHead>
+                  <TableHead>{dictionary.columns.category}</TableHead>
+                  <TableHead className="text-right">{dictionary.columns.rate}</TableHead>
+                  <TableHead className="text-right">{dictionary.columns.orders}</TableHead>
+                  <TableHead className="text-right">{dictionary.columns.taxable}</TableHead>
+                  <TableHead className="text-right">{dictionary.columns.collected}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={`${row.countryCode}-${row.regionCode}-${row.name}-${row.category}-${row.rateBps}-${row.currency}`}>
+                    <TableCell className="font-mono">{formatJurisdiction(row)}</TableCell>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell>{dictionary.categories[row.category] ?? row.category}</TableCell>
+                    <TableCell className="text-right">{formatTaxRate(row.rateBps)}</TableCell>
+                    <TableCell className="text-right">{row.orderCount}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.taxableCents, row.currency)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatCurrency(row.taxCents, row.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                {report.totals.map((total) => (
+                  <TableRow key={total.currency}>
+                    <TableCell colSpan={6}>{`${dictionary.total} (${total.currency})`}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatCurrency(total.taxCents, total.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,451 @@
+'use client';
+
+import { useState, type FormEvent, type ReactNode } from 'react';
+import {
+  TAX_CATEGORIES,
+  type TaxCategory,
+  type TaxConfig,
+  type TaxCountry,
+  type TaxCountryInput,
+  type TaxRate,
+  type TaxRateInput,
+  type TaxSettingsDictionary,
+} from '../domain/models/tax';
+import { formatTaxRate } from '../domain/tax-calculation';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface TaxSettingsViewProps {
+  dictionary: TaxSettingsDictionary;
+  config: TaxConfig;
+  loading: boolean;
+  error: string | null;
+  submitting: boolean;
+  onRefresh: () => void;
+  onSaveCountry: (input: TaxCountryInput) => Promise<void>;
+  onDeleteCountry: (countryCode: string) => Promise<void>;
+  onSaveRate: (input: TaxRateInput, id: string | null) => Promise<void>;
+  onDeleteRate: (id: string) => Promise<void>;
+}
+
+interface CountryForm {
+  isNew: boolean;
+  countryCode: string;
+  pricesIncludeTax: boolean;
+}
+
+interface RateForm {
+  id: string | null;
+  countryCode: string;
+  regionCode: string;
+  category: TaxCategory;
+  name: string;
+  percent: string;
+  isActive: boolean;
+}
+
+const toCountryForm = (country?: TaxCountry): CountryForm => ({
+  isNew: !country,
+  countryCode: country?.countryCode ?? '',
+  pricesIncludeTax: country?.pricesIncludeTax ?? false,
+});
+
+const toRateForm = (rate?: TaxRate): RateForm => ({
+  id: rate?.id ?? null,
+  countryCode: rate?.countryCode ?? '',
+  regionCode: rate?.regionCode ?? '',
+  category: rate?.category ?? TAX_CATEGORIES[0],
+  name: rate?.name ?? '',
+  percent: rate ? String(rate.rateBps / 100) : '',
+  isActive: rate?.isActive ?? true,
+});
+
+function Field({ id, label, helper, children }: { id?: string; label: string; helper?: string; children: ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor={id}>
+        {label}
+      </label>
+      {children}
+      {helper && <p className="text-xs text-zinc-500 dark:text-zinc-400">{helper}</p>}
+    </div>
+  );
+}
+
+/**
+ * Tax configuration of the store: whether the prices of each country include tax, and the rates
+ * per country, region and product tax category
+ */
+export function TaxSettingsView({
+  dictionary,
+  config,
+  loading,
+  error,
+  submitting,
+  onRefresh,
+  onSaveCountry,
+  onDeleteCountry,
+  onSaveRate,
+  onDeleteRate,
+}: TaxSettingsViewProps) {
+  const { toast } = useToast();
+
+  const [countryForm, setCountryForm] = useState<CountryForm | null>(null);
+  const [rateForm, setRateForm] = useState<RateForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const save = async (action: () => Promise<void>, close: () => void) => {
+    setFormError(null);
+    try {
+      await action();
+      toast({ title: dictionary.success.saved });
+      close();
+    } catch (saveError) {
+      setFormError(saveError instanceof Error ? saveError.message : dictionary.error.save);
+    }
+  };
+
+  const handleDelete = async (action: () => Promise<void>) => {
+    if (!confirm(dictionary.confirmDelete)) return;
+
+    try {
+      await action();
+      toast({ title: dictionary.success.deleted });
+    } catch (deleteError) {
+      toast({
+        title: dictionary.error.delete,
+        description: deleteError instanceof Error ? deleteError.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCountrySubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!countryForm) return;
+
+    save(
+      () =>
+        onSaveCountry({
+          countryCode: countryForm.countryCode.trim().toUpperCase(),
+          pricesIncludeTax: countryForm.pricesIncludeTax,
+        }),
+      () => setCountryForm(null),
+    );
+  };
+
+  const handleRateSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!rateForm) return;
+
+    save(
+      () =>
+        onSaveRate(
+          {
+            countryCode: rateForm.countryCode.trim().toUpperCase(),
+            regionCode: rateForm.regionCode.trim().toUpperCase() || null,
+            category: rateForm.category,
+            name: rateForm.name.trim(),
+            rateBps: Math.round(Number(rateForm.percent) * 100),
+            isActive: rateForm.isActive,
+          },
+          rateForm.id,
+        ),
+      () => setRateForm(null),
+    );
+  };
+
+  const openCountry = (country?: TaxCountry) => {
+    setFormError(null);
+    setCountryForm(toCountryForm(country));
+  };
+
+  const openRate = (rate?: TaxRate) => {
+    setFormError(null);
+    setRateForm(toRateForm(rate));
+  };
+
+  const rowActions = (onEdit: () => void, onRemove: () => void) => (
+    <div className="flex justify-end gap-2">
+      <Button size="sm" variant="outline" onClick={onEdit}>
+        {dictionary.edit}
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onRemove} disabled={submitting}>
+        {dictionary.delete}
+      </Button>
+    </div>
+  );
+
+  const formButtons = (onCancel: () => void) => (
+    <>
+      {formError && <p className="text-sm text-rose-600 dark:text-rose-300">{formError}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          {dictionary.cancel}
+        </Button>
+        <Button type="submit" disabled={submitting}>
+          {submitting ? dictionary.saving : dictionary.save}
+        </Button>
+      </div>
+    </>
+  );
+
+  const section = (title: string, description: string, onAdd: () => void, content: ReactNode) => (
+    <Card className="border-primary/15 bg-white/60 dark:border-primary/20 dark:bg-zinc-900/40">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <Button size="sm" onClick={onAdd}>
+          {dictionary.add}
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">{content}</CardContent>
+    </Card>
+  );
+
+  const empty = (text: string) => <p className="px-6 pb-6 text-sm text-zinc-500 dark:text-zinc-400">{text}</p>;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">{dictionary.title}</h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-300">{dictionary.description}</p>
+        </div>
+        <Button variant="outline" onClick={onRefresh} disabled={loading}>
+          {dictionary.refresh}
+        </Button>
+      </div>
+
+      {error && (
+        <Card className="border-rose-200 bg-rose-50 dark:border-rose-500/30 dark:bg-rose-500/10">
+          <CardHeader>
+            <CardTitle className="text-rose-900 dark:text-rose-100">{dictionary.error.title}</CardTitle>
+            <CardDescription className="text-rose-700 dark:text-rose-200">{error}</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={onRefresh}>{dictionary.refresh}</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {loading && config.countries.length === 0 && config.rates.length === 0 ? (
+        <div className="h-32 animate-pulse rounded-xl bg-zinc-200/60 dark:bg-zinc-800/60" />
+      ) : (
+        <>
+          {section(
+            dictionary.countries.title,
+            dictionary.countries.description,
+            () => openCountry(),
+            config.countries.length === 0 ? (
+              empty(dictionary.countries.empty)
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{dictionary.countries.country}</TableHead>
+                    <TableHead>{dictionary.countries.mode}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {config.countries.map((country) => (
+                    <TableRow key={country.countryCode}>
+                      <TableCell className="font-mono">{country.countryCode}</TableCell>
+                      <TableCell>
+                        <Badge variant={country.pricesIncludeTax ? 'secondary' : 'outline'}>
+                          {country.pricesIncludeTax ? dictionary.countries.inclusive : dictionary.countries.exclusive}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {rowActions(
+                          () => openCountry(country),
+                          () => handleDelete(() => onDeleteCountry(country.countryCode)),
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ),
+          )}
+
+          {section(
+            dictionary.rates.title,
+            dictionary.rates.description,
+            () => openRate(),
+            config.rates.length === 0 ? (
+              empty(dictionary.rates.empty)
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{dictionary.rates.country}</TableHead>
+                    <TableHead>{dictionary.rates.region}</TableHead>
+                    <TableHead>{dictionary.rates.name}</TableHead>
+                    <TableHead>{dictionary.rates.category}</TableHead>
+                    <TableHead className="text-right">{dictionary.rates.rate}</TableHead>
+                    <TableHead />
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {config.rates.map((rate) => (
+                    <TableRow key={rate.id}>
+                      <TableCell className="font-mono">{rate.countryCode}</TableCell>
+                      <TableCell className="font-mono text-xs">{rate.regionCode ?? dictionary.rates.allRegions}</TableCell>
+                      <TableCell className="font-medium">{rate.name}</TableCell>
+                      <TableCell>{dictionary.rates.categories[rate.category] ?? rate.category}</TableCell>
+                      <TableCell className="text-right">{formatTaxRate(rate.rateBps)}</TableCell>
+                      <TableCell>
+                        <Badge variant={rate.isActive ? 'secondary' : 'outline'}>
+                          {rate.isActive ? dictionary.active : dictionary.inactive}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {rowActions(
+                          () => openRate(rate),
+                          () => handleDelete(() => onDeleteRate(rate.id)),
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ),
+          )}
+        </>
+      )}
+
+      <Dialog open={Boolean(countryForm)} onOpenChange={(open) => !open && setCountryForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{dictionary.countries.title}</DialogTitle>
+            <DialogDescription>{dictionary.countries.description}</DialogDescription>
+          </DialogHeader>
+          {countryForm && (
+            <form className="space-y-4" onSubmit={handleCountrySubmit}>
+              <Field id="tax-country-code" label={dictionary.countries.country}>
+                <Input
+                  id="tax-country-code"
+                  value={countryForm.countryCode}
+                  placeholder="CR"
+                  maxLength={2}
+                  disabled={!countryForm.isNew}
+                  onChange={(event) => setCountryForm({ ...countryForm, countryCode: event.target.value })}
+                  required
+                />
+              </Field>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={countryForm.pricesIncludeTax}
+                    onCheckedChange={(checked) => setCountryForm({ ...countryForm, pricesIncludeTax: checked })}
+                  />
+                  {dictionary.countries.inclusive}
+                </label>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.countries.modeHelper}</p>
+              </div>
+              {formButtons(() => setCountryForm(null))}
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(rateForm)} onOpenChange={(open) => !open && setRateForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{dictionary.rates.title}</DialogTitle>
+            <DialogDescription>{dictionary.rates.description}</DialogDescription>
+          </DialogHeader>
+          {rateForm && (
+            <form className="space-y-4" onSubmit={handleRateSubmit}>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field id="tax-rate-country" label={dictionary.rates.country}>
+                  <Input
+                    id="tax-rate-country"
+                    value={rateForm.countryCode}
+                    placeholder="CR"
+                    maxLength={2}
+                    onChange={(event) => setRateForm({ ...rateForm, countryCode: event.target.value })}
+                    required
+                  />
+                </Field>
+                <Field id="tax-rate-region" label={dictionary.rates.region}>
+                  <Input
+                    id="tax-rate-region"
+                    value={rateForm.regionCode}
+                    placeholder={dictionary.rates.allRegions}
+                    maxLength={60}
+                    onChange={(event) => setRateForm({ ...rateForm, regionCode: event.target.value })}
+                  />
+                </Field>
+              </div>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.rates.regionHelper}</p>
+              <Field id="tax-rate-name" label={dictionary.rates.name}>
+                <Input
+                  id="tax-rate-name"
+                  value={rateForm.name}
+                  maxLength={120}
+                  onChange={(event) => setRateForm({ ...rateForm, name: event.target.value })}
+                  required
+                />
+              </Field>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field label={dictionary.rates.category}>
+                  <Select
+                    value={rateForm.category}
+                    onValueChange={(value) => setRateForm({ ...rateForm, category: value as TaxCategory })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TAX_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {dictionary.rates.categories[category] ?? category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+                <Field id="tax-rate-percent" label={dictionary.rates.rate}>
+                  <Input
+                    id="tax-rate-percent"
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    max={100}
+                    value={rateForm.percent}
+                    onChange={(event) => setRateForm({ ...rateForm, percent: event.target.value })}
+                    required
+                  />
+                </Field>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={rateForm.isActive} onCheckedChange={(checked) => setRateForm({ ...rateForm, isActive: checked })} />
+                {dictionary.active}
+              </label>
+              {formButtons(() => setRateForm(null))}
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Locale } from '@/i18n/config';
+import type {
+  WarehouseStockDictionary,
+  WarehouseStockLevel,
+  WarehouseStockLevelsResponse,
+  WarehouseStockMovement,
+  WarehouseStockMovementInput,
+} from '../domain/models/warehouse-stock';
+import { WarehouseStockRepositoryFactory } from '../repositories/warehouse-stock-repository';
+import { useWarehouseTrackingHaptics } from '../hooks/use-warehouse-tracking-haptics';
+import { WarehouseStockView } from '../views/warehouse-stock-view';
+
+interface WarehouseStockControllerProps {
+  dictionary: WarehouseStockDictionary;
+  lang: Locale;
+}
+
+export const WarehouseStockController = ({ dictionary, lang }: WarehouseStockControllerProps) => {
+  const repository = useMemo(() => WarehouseStockRepositoryFactory.create(), []);
+  const haptics = useWarehouseTrackingHaptics();
+
+  const [levels, setLevels] = useState<WarehouseStockLevelsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [historyLevel, setHistoryLevel] = useState<WarehouseStockLevel | null>(null);
+  const [movements, setMovements] = useState<WarehouseStockMovement[]>([]);
+  const [movementsLoading, setMovementsLoading] = useState(false);
+
+  const loadLevels = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setLevels(await repository.listLevels());
+      haptics('load');
+    } catch (loadError) {
+      console.error('[warehouse-stock] load failed', loadError);
+      setError(loadError instanceof Error ? loadError.message : dictionary.error.title);
+      haptics('error');
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, dictionary.error.title, haptics]);
+
+  useEffect(() => {
+    loadLevels();
+  }, [loadLevels]);
+
+  const handleOpenHistory = useCallback(
+    async (level: WarehouseStockLevel | null) => {
+      setHistoryLevel(level);
+      setMovements([]);
+
+      if (!level) {
+        return;
+      }
+
+      setMovementsLoading(true);
+      try {
+        setMovements(await repository.listMovements(level.id, level.variantId));
+      } catch (historyError) {
+        console.error('[warehouse-stock] history failed', historyError);
+        haptics('error');
+      } finally {
+        setMovementsLoading(false);
+      }
+    },
+    [repository, haptics],
+  );
+
+  const handleRecordMovement = useCallback(
+    async (input: WarehouseStockMovementInput) => {
+      setRecording(true);
+      try {
+        const movement = await repository.recordMovement(input);
+        haptics('create');
+        await loadLevels();
+        return movement;
+      } catch (recordError) {
+        console.error('[warehouse-stock] record failed', recordError);
+        haptics('error');
+        throw recordError;
+      } finally {
+        setRecording(false);
+      }
+    },
+    [repository, haptics, loadLevels],
+  );
+
+  return (
+    <WarehouseStockView
+      dictionary={dictionary}
+      lang={lang}
+      levels={levels}
+      loading={loading}
+      error={error}
+      recording={recording}
+      historyLevel={historyLevel}
+      movements={movements}
+      movementsLoading={movementsLoading}
+      onRefresh={loadLevels}
+      onRecordMovement={handleRecordMovement}
+      onOpenHistory={handleOpenHistory}
+    />
+  );
+};
@@ -11,6 +11,8 @@ import {
 import { WarehouseTrackingAdminRepositoryFactory } from '../repositories/warehouse-tracking-repository';
 import { useWarehouseTrackingHaptics } from '../hooks/use-warehouse-tracking-haptics';
 import { WarehouseTrackingView } from '../views/warehouse-tracking-view';
+import type { ShippingCarrier } from '../../shipping/domain/models/shipping';
+import { ShippingRepositoryFactory } from '../../shipping/repositories/shipping-repository';
 
 interface WarehouseTrackingControllerProps {
   dictionary: WarehouseTrackingDictionary;
@@ -33,6 +35,25 @@ export const WarehouseTrackingController = ({ dictionary, lang }: WarehouseTrack
   const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [carriers, setCarriers] = useState<ShippingCarrier[]>([]);
+
+  useEffect(() => {
+    let ignore = false;
+
+    // Carriers are optional: without them the form keeps the free-text company only
+    ShippingRepositoryFactory.createForSettings()
+      .getConfig()
+      .then((config) => {
+        if (!ignore) setCarriers(config.carriers);
+      })
+      .catch((carrierError) => {
+        console.error('[warehouse-tracking] carriers load failed', carrierError);
+      });
+
+    return () => {
+      ignore = true;
+    };
+  }, []);
 
   useEffect(() => {
     const timeoutId = window.setTimeout(() => {
@@ -167,6 +188,7 @@ export const WarehouseTrackingController = ({ dictionary, lang }: WarehouseTrack
       dictionary={dictionary}
       lang={lang}
       entries={entries}
+      carriers={carriers}
       loading={loading}
       loadingMore={loadingMore}
       creating={creating}
@@ -0,0 +1,107 @@
+import { z } from 'zod';
+
+export const WAREHOUSE_STOCK_MOVEMENT_KINDS = ['receipt', 'return', 'adjustment', 'damage'] as const;
+
+export const WarehouseStockLevelSchema = z.object({
+  id: z.string(),
+  variantId: z.string().nullable().default(null),
+  name: z.string(),
+  slug: z.string().nullable(),
+  sku: z.string().nullable().default(null),
+  variantLabel: z.string().nullable().default(null),
+  stockQuantity: z.number(),
+  reservedQuantity: z.number(),
+  availableQuantity: z.number(),
+  lowStockThreshold: z.number(),
+  isLowStock: z.boolean(),
+});
+
+export type WarehouseStockLevel = z.infer<typeof WarehouseStockLevelSchema>;
+
+export const WarehouseStockLevelsResponseSchema = z.object({
+  totalStock: z.number(),
+  totalReserved: z.number(),
+  lowStockCount: z.number(),
+  products: WarehouseStockLevelSchema.array(),
+});
+
+export type WarehouseStockLevelsResponse = z.infer<typeof WarehouseStockLevelsResponseSchema>;
+
+export const WarehouseStockMovementSchema = z.object({
+  id: z.string(),
+  productId: z.string(),
+  variantId: z.string().nullable().default(null),
+  kind: z.enum(['receipt', 'sale', 'return', 'adjustment', 'damage']),
+  quantity: z.number(),
+  stockAfter: z.number(),
+  orderId: z.string().nullable(),
+  reservationId: z.string().nullable(),
+  note: z.string().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type WarehouseStockMovement = z.infer<typeof WarehouseStockMovementSchema>;
+
+export const WarehouseStockMovementInputSchema = z.object({
+  productId: z.string().uuid(),
+  variantId: z.string().uuid().nullable().optional(),
+  kind: z.enum(WAREHOUSE_STOCK_MOVEMENT_KINDS),
+  quantity: z.number().int().refine((value) => value !== 0, 'Quantity cannot be zero'),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export type WarehouseStockMovementInput = z.infer<typeof WarehouseStockMovementInputSchema>;
+
+export const WarehouseStockDictionarySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  refresh: z.string(),
+  lowStockAlert: z.object({
+    title: z.string(),
+    description: z.string(),
+  }),
+  summary: z.object({
+    onHand: z.string(),
+    reserved: z.string(),
+    lowStock: z.string(),
+  }),
+  table: z.object({
+    product: z.string(),
+    onHand: z.string(),
+    reserved: z.string(),
+    available: z.string(),
+    threshold: z.string(),
+    actions: z.string(),
+    lowStockBadge: z.string(),
+    record: z.string(),
+    history: z.string(),
+  }),
+  empty: z.string(),
+  error: z.object({
+    title: z.string(),
+    retry: z.string(),
+  }),
+  movementForm: z.object({
+    title: z.string(),
+    description: z.string(),
+    kind: z.string(),
+    quantity: z.string(),
+    note: z.string(),
+    notePlaceholder: z.string(),
+    submit: z.string(),
+    submitting: z.string(),
+    cancel: z.string(),
+    success: z.string(),
+    insufficientStock: z.string(),
+  }),
+  movements: z.object({
+    title: z.string(),
+    empty: z.string(),
+    stockAfter: z.string(),
+    order: z.string(),
+  }),
+  kinds: z.record(z.string(), z.string()),
+});
+
+export type WarehouseStockDictionary = z.infer<typeof WarehouseStockDictionarySchema>;
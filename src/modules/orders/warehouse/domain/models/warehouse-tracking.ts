@@ -17,7 +17,12 @@ export const WarehouseTrackingEventSchema = z.object({
   orderCode: z.string().nullable(),
   status: WarehouseTrackingStatusSchema,
   responsibleCompany: z.string().nullable(),
+  carrierId: z.string().uuid().nullable(),
   trackingCode: z.string().nullable(),
+  /**
+   * Carrier tracking page for the tracking code, when the carrier has a URL template
+   */
+  trackingUrl: z.string().nullable(),
   location: z.string().nullable(),
   note: z.string().nullable(),
   estimatedDelivery: z.string().nullable(),
@@ -48,6 +53,7 @@ export const WarehouseTrackingCreateInputSchema = z.object({
   orderId: z.string().uuid(),
   status: WarehouseTrackingStatusSchema,
   responsibleCompany: z.string().trim().min(1).max(120).nullable().optional(),
+  carrierId: z.string().uuid().nullable().optional(),
   trackingCode: z.string().trim().min(1).max(120).nullable().optional(),
   location: z.string().trim().min(1).max(180).nullable().optional(),
   note: z.string().trim().min(1).max(500).nullable().optional(),
@@ -60,6 +66,7 @@ export type WarehouseTrackingCreateInput = z.infer<typeof WarehouseTrackingCreat
 export const WarehouseTrackingUpdateInputSchema = z.object({
   status: WarehouseTrackingStatusSchema.optional(),
   responsibleCompany: z.string().trim().min(1).max(120).nullable().optional(),
+  carrierId: z.string().uuid().nullable().optional(),
   trackingCode: z.string().trim().min(1).max(120).nullable().optional(),
   location: z.string().trim().min(1).max(180).nullable().optional(),
   note: z.string().trim().min(1).max(500).nullable().optional(),
@@ -98,6 +105,8 @@ export const WarehouseTrackingDictionarySchema = z.object({
       note: z.string(),
       estimatedDelivery: z.string(),
       responsibleCompany: z.string(),
+      carrier: z.string(),
+      carrierNone: z.string(),
       eventTime: z.string(),
     }),
     orderLookup: z.object({
@@ -124,6 +133,7 @@ export const WarehouseTrackingDictionarySchema = z.object({
     updatedAt: z.string(),
     responsibleCompany: z.string(),
     trackingCode: z.string(),
+    trackShipment: z.string(),
     estimatedDelivery: z.string(),
     location: z.string(),
     note: z.string(),
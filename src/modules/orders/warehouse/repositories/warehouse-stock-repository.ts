@@ -0,0 +1,112 @@
+import {
+  WarehouseStockLevelsResponseSchema,
+  WarehouseStockMovementInputSchema,
+  WarehouseStockMovementSchema,
+  type WarehouseStockLevelsResponse,
+  type WarehouseStockMovement,
+  type WarehouseStockMovementInput,
+} from '../domain/models/warehouse-stock';
+import { adminApi } from '@/lib/utils/admin-csrf-helpers';
+
+export interface WarehouseStockRepository {
+  listLevels(): Promise<WarehouseStockLevelsResponse>;
+  listMovements(productId: string, variantId?: string | null): Promise<WarehouseStockMovement[]>;
+  recordMovement(input: WarehouseStockMovementInput): Promise<WarehouseStockMovement>;
+}
+
+export class WarehouseStockRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+  ) {
+    super(message);
+    this.name = 'WarehouseStockRequestError';
+  }
+}
+
+const API_BASE = '/api/admin/warehouse/stock';
+
+const parseJson = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    console.error('[WarehouseStockRepository] Failed to parse JSON', error, text);
+    throw new Error('Invalid server response.');
+  }
+};
+
+const toRequestError = async (response: Response, fallback: string) => {
+  const payload = await parseJson(response);
+  const message = typeof payload.error === 'string' ? payload.error : response.statusText;
+  return new WarehouseStockRequestError(message || fallback, typeof payload.code === 'string' ? payload.code : null);
+};
+
+class HttpWarehouseStockRepository implements WarehouseStockRepository {
+  async listLevels(): Promise<WarehouseStockLevelsResponse> {
+    const response = await fetch(API_BASE, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load stock levels.');
+    }
+
+    return WarehouseStockLevelsResponseSchema.parse(await parseJson(response));
+  }
+
+  async listMovements(productId: string, variantId?: string | null): Promise<WarehouseStockMovement[]> {
+    const params = new URLSearchParams({ productId });
+    if (variantId) {
+      params.set('variantId', variantId);
+    }
+
+    const response = await fetch(`${API_BASE}/movements?${params.toString()}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load stock movements.');
+    }
+
+    const payload = await parseJson(response);
+    return WarehouseStockMovementSchema.array().parse(payload.movements ?? []);
+  }
+
+  async recordMovement(input: WarehouseStockMovementInput): Promise<WarehouseStockMovement> {
+    const body = WarehouseStockMovementInputSchema.parse(input);
+
+    // ✅ SECURITY: Use adminApi.post() to automatically include CSRF token
+    const response = await adminApi.post(`${API_BASE}/movements`, body);
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to record stock movement.');
+    }
+
+    const payload = await parseJson(response);
+    return WarehouseStockMovementSchema.parse(payload.movement);
+  }
+}
+
+class WarehouseStockRepositoryFactoryImpl {
+  private instance: WarehouseStockRepository | null = null;
+
+  create(): WarehouseStockRepository {
+    if (!this.instance) {
+      this.instance = new HttpWarehouseStockRepository();
+    }
+
+    return this.instance;
+  }
+}
+
+export const WarehouseStockRepositoryFactory = new WarehouseStockRepositoryFactoryImpl();
+
+export { HttpWarehouseStockRepository };
@@ -10,6 +10,7 @@ import {
   type WarehouseTrackingResponse,
   type WarehouseTrackingUpdateInput,
 } from '../domain/models/warehouse-tracking';
+import { buildTrackingUrl } from '../../shipping/domain/shipping-quote';
 import { adminApi } from '@/lib/utils/admin-csrf-helpers';
 
 export interface WarehouseTrackingAdminRepository {
@@ -143,6 +144,8 @@ export class WarehouseTrackingSupabaseRepository {
          order_id,
          status,
          responsible_company,
+         carrier_id,
+         carrier:shipping_carriers(tracking_url_template),
          tracking_code,
          location,
          note,
@@ -170,13 +173,20 @@ export class WarehouseTrackingSupabaseRepository {
         );
       }
 
+      const carrier = (Array.isArray(row.carrier) ? row.carrier[0] : row.carrier) as
+        | { tracking_url_template: string | null }
+        | null
+        | undefined;
+
       return {
         id: String(row.id),
         orderId: String(row.order_id),
         orderCode: null,
         status: (parsedStatus.success ? parsedStatus.data : 'pending') as WarehouseTrackingEvent['status'],
         responsibleCompany: (row.responsible_company as string | null) ?? null,
+        carrierId: (row.carrier_id as string | null) ?? null,
         trackingCode: (row.tracking_code as string | null) ?? null,
+        trackingUrl: buildTrackingUrl(carrier?.tracking_url_template, row.tracking_code as string | null),
         location: (row.location as string | null) ?? null,
         note: (row.note as string | null) ?? null,
         estimatedDelivery: row.estimated_delivery ? new Date(row.estimated_delivery as string).toISOString() : null,
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import type { Locale } from '@/i18n/config';
+import {
+  WAREHOUSE_STOCK_MOVEMENT_KINDS,
+  type WarehouseStockDictionary,
+  type WarehouseStockLevel,
+  type WarehouseStockLevelsResponse,
+  type WarehouseStockMovement,
+  type WarehouseStockMovementInput,
+} from '../domain/models/warehouse-stock';
+import { WarehouseStockRequestError } from '../repositories/warehouse-stock-repository';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface WarehouseStockViewProps {
+  dictionary: WarehouseStockDictionary;
+  lang: Locale;
+  levels: WarehouseStockLevelsResponse | null;
+  loading: boolean;
+  error: string | null;
+  recording: boolean;
+  historyLevel: WarehouseStockLevel | null;
+  movements: WarehouseStockMovement[];
+  movementsLoading: boolean;
+  onRefresh: () => void;
+  onRecordMovement: (input: WarehouseStockMovementInput) => Promise<WarehouseStockMovement>;
+  onOpenHistory: (level: WarehouseStockLevel | null) => void;
+}
+
+type MovementKind = WarehouseStockMovementInput['kind'];
+
+const toLevelKey = (level: WarehouseStockLevel) => `${level.id}:${level.variantId ?? ''}`;
+
+const toLevelName = (level: WarehouseStockLevel) =>
+  level.variantLabel ? `${level.name} (${level.variantLabel})` : level.name;
+
+const formatDateTime = (value: string, locale: Locale) => {
+  try {
+    return new Intl.DateTimeFormat(locale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).format(new Date(value));
+  } catch (_error) {
+    return value;
+  }
+};
+
+export const WarehouseStockView = ({
+  dictionary,
+  lang,
+  levels,
+  loading,
+  error,
+  recording,
+  historyLevel,
+  movements,
+  movementsLoading,
+  onRefresh,
+  onRecordMovement,
+  onOpenHistory,
+}: WarehouseStockViewProps) => {
+  const { toast } = useToast();
+  const [recordingProduct, setRecordingProduct] = useState<WarehouseStockLevel | null>(null);
+  const [kind, setKind] = useState<MovementKind>('receipt');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const products = levels?.products ?? [];
+
+  const openRecordDialog = (product: WarehouseStockLevel) => {
+    setRecordingProduct(product);
+    setKind('receipt');
+    setQuantity('');
+    setNote('');
+    setFormError(null);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!recordingProduct) return;
+
+    const units = Number.parseInt(quantity, 10);
+    if (!Number.isFinite(units) || units === 0) {
+      setFormError(dictionary.movementForm.quantity);
+      return;
+    }
+
+    setFormError(null);
+    try {
+      const movement = await onRecordMovement({
+        productId: recordingProduct.id,
+        variantId: recordingProduct.variantId,
+        kind,
+        quantity: units,
+        note: note.trim() || null,
+      });
+      toast({
+        title: dictionary.movementForm.title,
+        description: dictionary.movementForm.success.replace('{{value}}', String(movement.stockAfter)),
+      });
+      setRecordingProduct(null);
+    } catch (recordError) {
+      setFormError(
+        recordError instanceof WarehouseStockRequestError && recordError.code === 'INSUFFICIENT_STOCK'
+          ? dictionary.movementForm.insufficientStock
+          : recordError instanceof Error
+            ? recordError.message
+            : dictionary.error.title,
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">{dictionary.title}</h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-300">{dictionary.description}</p>
+        </div>
+        <Button variant="outline" onClick={onRefresh} disabled={loading}>
+          {dictionary.refresh}
+        </Button>
+      </div>
+
+      {levels && levels.lowStockCount > 0 && (
+        <Card className="border-amber-200 bg-amber-50 dark:border-amber-500/30 dark:bg-amber-500/10">
+          <CardHeader>
+            <CardTitle className="text-amber-900 dark:text-amber-100">{dictionary.lowStockAlert.title}</CardTitle>
+            <CardDescription className="text-amber-800 dark:text-amber-200">
+              {dictionary.lowStockAlert.description.replace('{{count}}', String(levels.lowStockCount))}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {error && (
+        <Card className="border-rose-200 bg-rose-50 dark:border-rose-500/30 dark:bg-rose-500/10">
+          <CardHeader>
+            <CardTitle className="text-rose-900 dark:text-rose-100">{dictionary.error.title}</CardTitle>
+            <CardDescription className="text-rose-700 dark:text-rose-200">{error}</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={onRefresh}>{dictionary.error.retry}</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {levels && (
+        <div className="grid gap-4 sm:grid-cols-3">
+          {[
+            [dictionary.summary.onHand, levels.totalStock],
+            [dictionary.summary.reserved, levels.totalReserved],
+            [dictionary.summary.lowStock, levels.lowStockCount],
+          ].map(([label, value]) => (
+            <Card key={String(label)} className="border-primary/15 bg-white/60 dark:border-primary/20 dark:bg-zinc-900/40">
+              <CardHeader className="pb-2">
+                <CardDescription>{label}</CardDescription>
+                <CardTitle className="text-2xl">{value}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {loading && !levels ? (
+        <div className="h-48 animate-pulse rounded-xl bg-zinc-200/60 dark:bg-zinc-800/60" />
+      ) : products.length === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">{dictionary.empty}</p>
+      ) : (
+        <Card className="border-primary/15 bg-white/60 dark:border-primary/20 dark:bg-zinc-900/40">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{dictionary.table.product}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.onHand}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.reserved}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.available}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.threshold}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.actions}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map((product) => (
+                  <TableRow key={toLevelKey(product)}>
+                    <TableCell className="font-medium">
+                      <div className="flex flex-wrap items-center gap-2">
+                        {product.name}
+                        {product.variantLabel && (
+                          <span className="text-zinc-600 dark:text-zinc-300">{product.variantLabel}</span>
+                        )}
+                        {product.isLowStock && (
+                          <Badge className="bg-amber-100 text-amber-900 dark:bg-amber-500/20 dark:text-amber-100">
+                            {dictionary.table.lowStockBadge}
+                          </Badge>
+                        )}
+                      </div>
+                      {product.sku && (
+                        <p className="text-xs font-normal text-zinc-500 dark:text-zinc-400">{product.sku}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{product.stockQuantity}</TableCell>
+                    <TableCell className="text-right">{product.reservedQuantity}</TableCell>
+                    <TableCell className="text-right font-semibold">{product.availableQuantity}</TableCell>
+                    <TableCell className="text-right">{product.lowStockThreshold}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => onOpenHistory(product)}>
+                          {dictionary.table.history}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openRecordDialog(product)}>
+                          {dictionary.table.record}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={Boolean(recordingProduct)} onOpenChange={(open) => !open && setRecordingProduct(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {dictionary.movementForm.title}
+              {recordingProduct ? ` · ${toLevelName(recordingProduct)}` : ''}
+            </DialogTitle>
+            <DialogDescription>{dictionary.movementForm.description}</DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{dictionary.movementForm.kind}</label>
+              <Select value={kind} onValueChange={(value) => setKind(value as MovementKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WAREHOUSE_STOCK_MOVEMENT_KINDS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {dictionary.kinds[option] ?? option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor="stock-movement-quantity">
+                {dictionary.movementForm.quantity}
+              </label>
+              <Input
+                id="stock-movement-quantity"
+                type="number"
+                step={1}
+                min={kind === 'adjustment' ? undefined : 1}
+                value={quantity}
+                onChange={(event) => setQuantity(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor="stock-movement-note">
+                {dictionary.movementForm.note}
+              </label>
+              <Textarea
+                id="stock-movement-note"
+                value={note}
+                maxLength={500}
+                placeholder={dictionary.movementForm.notePlaceholder}
+                onChange={(event) => setNote(event.target.value)}
+              />
+            </div>
+            {formError && <p className="text-sm text-rose-600 dark:text-rose-300">{formError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => setRecordingProduct(null)}>
+                {dictionary.movementForm.cancel}
+              </Button>
+              <Button type="submit" disabled={recording}>
+                {recording ? dictionary.movementForm.submitting : dictionary.movementForm.submit}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(historyLevel)} onOpenChange={(open) => !open && onOpenHistory(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {dictionary.movements.title}
+              {historyLevel ? ` · ${toLevelName(historyLevel)}` : ''}
+            </DialogTitle>
+          </DialogHeader>
+          {movementsLoading ? (
+            <div className="h-24 animate-pulse rounded-xl bg-zinc-200/60 dark:bg-zinc-800/60" />
+          ) : movements.length === 0 ? (
+            <p className="text-sm text-zinc-500 dark:text-zinc-400">{dictionary.movements.empty}</p>
+          ) : (
+            <ul className="space-y-3">
+              {movements.map((movement) => (
+                <li key={movement.id} className="rounded-md border border-zinc-200 p-3 text-sm dark:border-zinc-700/60">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-zinc-900 dark:text-zinc-100">
+                      {dictionary.kinds[movement.kind] ?? movement.kind}
+                    </span>
+                    <span className={movement.quantity < 0 ? 'text-rose-600 dark:text-rose-300' : 'text-emerald-600 dark:text-emerald-300'}>
+                      {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </span>
+                  </div>
+                  <p className="text-zinc-600 dark:text-zinc-300">
+                    {formatDateTime(movement.createdAt, lang)} ·{' '}
+                    {dictionary.movements.stockAfter.replace('{{value}}', String(movement.stockAfter))}
+                  </p>
+                  {movement.orderId && (
+                    <p className="text-zinc-600 dark:text-zinc-300">
+                      {dictionary.movements.order.replace('{{value}}', movement.orderId.substring(0, 8).toUpperCase())}
+                    </p>
+                  )}
+                  {movement.note && <p className="text-zinc-700 dark:text-zinc-200">{movement.note}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
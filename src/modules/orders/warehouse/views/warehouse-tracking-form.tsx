@@ -12,6 +12,7 @@ import {
   WAREHOUSE_TRACKING_STATUSES,
   generateWarehouseTrackingCode,
 } from '../domain/models/warehouse-tracking';
+import type { ShippingCarrier } from '../../shipping/domain/models/shipping';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -37,6 +38,7 @@ type WarehouseTrackingFormProps =
       onSubmit: (input: WarehouseTrackingCreateInput) => Promise<unknown>;
       onCancel: () => void;
       defaultValues?: WarehouseTrackingFormDefaults;
+      carriers?: ShippingCarrier[];
       submitting: boolean;
     }
   | {
@@ -45,6 +47,7 @@ type WarehouseTrackingFormProps =
       onSubmit: (input: WarehouseTrackingUpdateInput) => Promise<unknown>;
       onCancel: () => void;
       defaultValues?: WarehouseTrackingFormDefaults;
+      carriers?: ShippingCarrier[];
       submitting: boolean;
     };
 
@@ -54,6 +57,7 @@ interface FormValues {
   orderId: string;
   status: StatusValue;
   responsibleCompany?: string | null;
+  carrierId?: string | null;
   trackingCode?: string | null;
   location?: string | null;
   note?: string | null;
@@ -68,6 +72,8 @@ const updateSchema = WarehouseTrackingUpdateInputSchema.extend({
   status: WarehouseTrackingCreateInputSchema.shape.status,
 });
 
+const NO_CARRIER = 'none';
+
 const toDateInputValue = (value?: string | null, slice = 10) => {
   if (!value) return null;
   const timestamp = new Date(value);
@@ -84,6 +90,7 @@ const mapToFormValues = (defaults: WarehouseTrackingFormDefaults): FormValues =>
     orderId: defaults?.orderId ?? '',
     status,
     responsibleCompany: (defaults?.responsibleCompany as string | null | undefined) ?? null,
+    carrierId: defaults?.carrierId ?? null,
     trackingCode: (defaults?.trackingCode as string | null | undefined) ?? null,
     location: (defaults?.location as string | null | undefined) ?? null,
     note: (defaults?.note as string | null | undefined) ?? null,
@@ -111,6 +118,8 @@ const normalizeCreatePayload = (values: FormValues): WarehouseTrackingCreateInpu
   orderId: values.orderId.trim(),
   status: values.status,
   responsibleCompany: normalizeNullableText(values.responsibleCompany) ?? undefined,
+  // Left out so the server falls back to the carrier chosen at checkout
+  carrierId: values.carrierId ?? undefined,
   trackingCode: normalizeNullableText(values.trackingCode) ?? undefined,
   location: normalizeNullableText(values.location) ?? undefined,
   note: normalizeNullableText(values.note) ?? undefined,
@@ -121,6 +130,7 @@ const normalizeCreatePayload = (values: FormValues): WarehouseTrackingCreateInpu
 const normalizeUpdatePayload = (values: FormValues): WarehouseTrackingUpdateInput => ({
   status: values.status,
   responsibleCompany: normalizeNullableText(values.responsibleCompany) ?? null,
+  carrierId: values.carrierId ?? null,
   trackingCode: normalizeNullableText(values.trackingCode) ?? null,
   location: normalizeNullableText(values.location) ?? null,
   note: normalizeNullableText(values.note) ?? null,
@@ -129,7 +139,7 @@ const normalizeUpdatePayload = (values: FormValues): WarehouseTrackingUpdateInpu
 });
 
 export const WarehouseTrackingForm = (props: WarehouseTrackingFormProps) => {
-  const { mode, dictionary, onSubmit, onCancel, defaultValues, submitting } = props;
+  const { mode, dictionary, onSubmit, onCancel, defaultValues, carriers = [], submitting } = props;
   const formDefaults = useMemo(() => mapToFormValues(defaultValues), [defaultValues]);
 
   const form = useForm<FormValues>({
@@ -165,6 +175,16 @@ export const WarehouseTrackingForm = (props: WarehouseTrackingFormProps) => {
   });
 
   const disableSubmit = mode === 'create' && !form.watch('orderId');
+  const selectedCarrierId = form.watch('carrierId');
+  const selectableCarriers = carriers.filter((carrier) => carrier.isActive || carrier.id === selectedCarrierId);
+
+  const handleCarrierChange = (value: string) => {
+    const carrier = carriers.find((item) => item.id === value) ?? null;
+    form.setValue('carrierId', carrier?.id ?? null, { shouldDirty: true });
+    if (carrier) {
+      form.setValue('responsibleCompany', carrier.name, { shouldDirty: true });
+    }
+  };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
@@ -215,6 +235,27 @@ export const WarehouseTrackingForm = (props: WarehouseTrackingFormProps) => {
         </Select>
       </div>
 
+      {selectableCarriers.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-700 dark:text-zinc-200" htmlFor="carrierId">
+            {dictionary.form.fields.carrier}
+          </label>
+          <Select value={selectedCarrierId ?? NO_CARRIER} onValueChange={handleCarrierChange}>
+            <SelectTrigger id="carrierId">
+              <SelectValue placeholder={dictionary.form.fields.carrier} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_CARRIER}>{dictionary.form.fields.carrierNone}</SelectItem>
+              {selectableCarriers.map((carrier) => (
+                <SelectItem key={carrier.id} value={carrier.id}>
+                  {carrier.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <div className="space-y-2">
         <label className="text-sm font-medium text-zinc-700 dark:text-zinc-200" htmlFor="responsibleCompany">
           {dictionary.form.fields.responsibleCompany}
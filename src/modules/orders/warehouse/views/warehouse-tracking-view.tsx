@@ -10,6 +10,7 @@ import {
   WAREHOUSE_TRACKING_STATUSES,
 } from '../domain/models/warehouse-tracking';
 import { WarehouseTrackingForm } from './warehouse-tracking-form';
+import type { ShippingCarrier } from '../../shipping/domain/models/shipping';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -29,6 +30,7 @@ interface WarehouseTrackingViewProps {
   dictionary: WarehouseTrackingDictionary;
   lang: Locale;
   entries: WarehouseTrackingEvent[];
+  carriers: ShippingCarrier[];
   loading: boolean;
   loadingMore: boolean;
   creating: boolean;
@@ -78,6 +80,7 @@ export const WarehouseTrackingView = ({
   dictionary,
   lang,
   entries,
+  carriers,
   loading,
   loadingMore,
   creating,
@@ -170,6 +173,19 @@ export const WarehouseTrackingView = ({
           <p>
             <span className="font-medium text-zinc-900 dark:text-zinc-100">{dictionary.timeline.trackingCode}:</span>{' '}
             {entry.trackingCode ?? '—'}
+            {entry.trackingUrl && (
+              <>
+                {' · '}
+                <a
+                  href={entry.trackingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-primary hover:underline"
+                >
+                  {dictionary.timeline.trackShipment}
+                </a>
+              </>
+            )}
           </p>
           <p>
             <span className="font-medium text-zinc-900 dark:text-zinc-100">{dictionary.timeline.location}:</span>{' '}
@@ -273,6 +289,7 @@ export const WarehouseTrackingView = ({
             dictionary={dictionary}
             onSubmit={handleCreate}
             onCancel={() => setCreateOpen(false)}
+            carriers={carriers}
             submitting={creating}
           />
         </DialogContent>
@@ -294,12 +311,14 @@ export const WarehouseTrackingView = ({
                 orderId: editingEntry.orderId,
                 status: editingEntry.status,
                 responsibleCompany: editingEntry.responsibleCompany ?? undefined,
+                carrierId: editingEntry.carrierId,
                 trackingCode: editingEntry.trackingCode ?? undefined,
                 location: editingEntry.location ?? undefined,
                 note: editingEntry.note ?? undefined,
                 estimatedDelivery: editingEntry.estimatedDelivery ?? undefined,
                 eventTime: editingEntry.eventTime,
               }}
+              carriers={carriers}
               submitting={updatingId === editingEntry.id}
             />
           )}
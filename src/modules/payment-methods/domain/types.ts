@@ -1,11 +1,17 @@
-export type PaymentMethodType = 'card' | 'bank_account';
+export type PaymentMethodType = 'card' | 'bank_account' | 'paypal';
+export type PaymentMethodProvider = 'stripe' | 'paypal' | 'authorize_net';
 export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'diners' | 'jcb' | 'unionpay' | 'unknown';
 export type CardFunding = 'credit' | 'debit' | 'prepaid' | 'unknown';
 
 export interface PaymentMethod {
   id: string;
   user_id: string;
-  stripe_payment_method_id: string;
+  provider: PaymentMethodProvider;
+  // Gateway reference that is charged: Stripe payment method, PayPal billing agreement or CIM payment profile
+  provider_token: string;
+  // Gateway customer owning the token: Stripe customer, PayPal payer or CIM customer profile
+  provider_customer_id: string | null;
+  stripe_payment_method_id: string | null;
   type: PaymentMethodType;
   
   // Card details
@@ -31,7 +37,10 @@ export interface PaymentMethod {
 }
 
 export interface CreatePaymentMethodInput {
-  stripe_payment_method_id: string;
+  provider: PaymentMethodProvider;
+  provider_token: string;
+  provider_customer_id?: string | null;
+  stripe_payment_method_id?: string;
   type: PaymentMethodType;
   card_brand?: CardBrand;
   card_last4?: string;
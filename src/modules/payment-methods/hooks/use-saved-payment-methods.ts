@@ -0,0 +1,59 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PaymentMethod } from '../domain/types';
+
+interface UseSavedPaymentMethodsResult {
+  paymentMethods: PaymentMethod[];
+  /**
+   * The member's default method, charged by one-click checkout when none is chosen
+   */
+  defaultPaymentMethod: PaymentMethod | null;
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Saved payment methods of the signed-in member, default first
+ */
+export function useSavedPaymentMethods({ enabled = true }: { enabled?: boolean } = {}): UseSavedPaymentMethodsResult {
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/payment-methods');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load payment methods');
+      }
+
+      setPaymentMethods(data.paymentMethods ?? []);
+      setError(null);
+    } catch (loadError) {
+      setPaymentMethods([]);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load payment methods');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      void refresh();
+    }
+  }, [enabled, refresh]);
+
+  return {
+    paymentMethods,
+    defaultPaymentMethod: paymentMethods.find((method) => method.is_default) ?? null,
+    isLoading,
+    error,
+    refresh,
+  };
+}
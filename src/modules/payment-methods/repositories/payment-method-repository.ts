@@ -1,5 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
-import type { PaymentMethod, CreatePaymentMethodInput } from '../domain/types';
+import type { PaymentMethod, CreatePaymentMethodInput, PaymentMethodProvider } from '../domain/types';
 
 export class PaymentMethodRepository {
   constructor(private readonly client: SupabaseClient) {}
@@ -49,10 +49,15 @@ export class PaymentMethodRepository {
   }
 
   async findByStripeId(stripePaymentMethodId: string): Promise<PaymentMethod | null> {
+    return this.findByProviderToken('stripe', stripePaymentMethodId);
+  }
+
+  async findByProviderToken(provider: PaymentMethodProvider, providerToken: string): Promise<PaymentMethod | null> {
     const { data, error } = await this.client
       .from('payment_methods')
       .select('*')
-      .eq('stripe_payment_method_id', stripePaymentMethodId)
+      .eq('provider', provider)
+      .eq('provider_token', providerToken)
       .maybeSingle();
 
     if (error) {
@@ -62,7 +67,31 @@ export class PaymentMethodRepository {
     return data;
   }
 
+  /**
+   * Gateway customer already holding the member's methods of a provider, reused for new ones
+   */
+  async findProviderCustomerId(userId: string, provider: PaymentMethodProvider): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('payment_methods')
+      .select('provider_customer_id')
+      .eq('user_id', userId)
+      .eq('provider', provider)
+      .not('provider_customer_id', 'is', null)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.provider_customer_id ?? null;
+  }
+
   async create(userId: string, input: CreatePaymentMethodInput): Promise<PaymentMethod> {
+    if (input.is_default) {
+      await this.clearDefault(userId);
+    }
+
     const { data, error } = await this.client
       .from('payment_methods')
       .insert({
@@ -80,6 +109,9 @@ export class PaymentMethodRepository {
   }
 
   async setDefault(id: string, userId: string): Promise<PaymentMethod> {
+    // Only one default per member (idx_payment_methods_user_default)
+    await this.clearDefault(userId, id);
+
     const { data, error } = await this.client
       .from('payment_methods')
       .update({ is_default: true, updated_at: new Date().toISOString() })
@@ -106,4 +138,22 @@ export class PaymentMethodRepository {
       throw error;
     }
   }
+
+  private async clearDefault(userId: string, exceptId?: string): Promise<void> {
+    let query = this.client
+      .from('payment_methods')
+      .update({ is_default: false, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('is_default', true);
+
+    if (exceptId) {
+      query = query.neq('id', exceptId);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      throw error;
+    }
+  }
 }
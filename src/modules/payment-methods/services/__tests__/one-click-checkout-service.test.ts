@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CheckoutCartError } from '@/modules/orders/services/checkout-cart-service';
+import { OneClickCheckoutService } from '../one-click-checkout-service';
+import type { PaymentMethod } from '../../domain/types';
+
+const paymentMethods = { findById: vi.fn(), findDefaultByUserId: vi.fn() };
+const charges = { charge: vi.fn(), reverse: vi.fn() };
+const orders = { createOrderFromPayment: vi.fn() };
+const stock = { reserveForCheckout: vi.fn(), release: vi.fn() };
+const carts = { priceCheckout: vi.fn(), assertTotal: vi.fn() };
+const promotions = { release: vi.fn() };
+
+vi.mock('../../repositories/payment-method-repository', () => ({
+  PaymentMethodRepository: vi.fn().mockImplementation(function () {
+    return paymentMethods;
+  }),
+}));
+
+vi.mock('../payment-method-charge-service', () => ({
+  PaymentMethodChargeService: vi.fn().mockImplementation(function () {
+    return charges;
+  }),
+}));
+
+vi.mock('@/modules/orders/services/order-creation-service', () => ({
+  OrderCreationService: vi.fn().mockImplementation(function () {
+    return orders;
+  }),
+}));
+
+vi.mock('@/modules/products/services/stock-service', () => ({
+  StockService: vi.fn().mockImplementation(function () {
+    return stock;
+  }),
+}));
+
+vi.mock('@/modules/orders/promotions/services/promotion-service', () => ({
+  PromotionService: vi.fn().mockImplementation(function () {
+    return promotions;
+  }),
+}));
+
+vi.mock('@/modules/orders/services/checkout-cart-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/modules/orders/services/checkout-cart-service')>()),
+  CheckoutCartService: vi.fn().mockImplementation(function () {
+    return carts;
+  }),
+}));
+
+const savedMethod = (overrides: Partial<PaymentMethod> = {}): PaymentMethod => ({
+  id: 'method-1',
+  user_id: 'member-1',
+  provider: 'paypal',
+  provider_token: 'B-123',
+  provider_customer_id: 'PAYER-1',
+  stripe_payment_method_id: null,
+  type: 'paypal',
+  card_brand: null,
+  card_last4: null,
+  card_exp_month: null,
+  card_exp_year: null,
+  card_funding: null,
+  bank_name: null,
+  bank_last4: null,
+  is_default: true,
+  billing_name: 'Ana',
+  billing_email: 'ana@example.com',
+  billing_address: {},
+  created_at: '2026-10-19T10:00:00.000Z',
+  updated_at: '2026-10-19T10:00:00.000Z',
+  ...overrides,
+});
+
+const checkoutInput = {
+  userId: 'member-1',
+  amountCents: 5500,
+  description: 'Order',
+  cartItems: [{ productId: 'product-1', quantity: 2, priceCents: 2500 }],
+  metadata: { intent: 'checkout', userId: 'member-1' },
+};
+
+describe('OneClickCheckoutService', () => {
+  let service: OneClickCheckoutService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    paymentMethods.findDefaultByUserId.mockResolvedValue(savedMethod());
+    paymentMethods.findById.mockResolvedValue(null);
+    carts.priceCheckout.mockResolvedValue({
+      currency: 'USD',
+      items: checkoutInput.cartItems,
+      shippingCents: 500,
+      totalCents: 5500,
+      metadata: { ...checkoutInput.metadata, shippingRateId: 'rate-1', shippingCents: 500 },
+    });
+    carts.assertTotal.mockReturnValue(undefined);
+    stock.reserveForCheckout.mockResolvedValue(undefined);
+    stock.release.mockResolvedValue(1);
+    charges.charge.mockResolvedValue({ gateway: 'paypal', transactionId: 'CAPTURE-1' });
+    charges.reverse.mockResolvedValue(undefined);
+    orders.createOrderFromPayment.mockResolvedValue({ orderId: 'order-1' });
+    service = new OneClickCheckoutService({} as SupabaseClient);
+  });
+
+  it('charges the default method and creates the order on its gateway', async () => {
+    const result = await service.checkout(checkoutInput);
+
+    expect(result).toEqual({
+      orderId: 'order-1',
+      paymentMethodId: 'method-1',
+      gateway: 'paypal',
+      transactionId: 'CAPTURE-1',
+      currency: 'USD',
+      totalCents: 5500,
+    });
+
+    const reservationKey = stock.reserveForCheckout.mock.calls[0][0];
+    expect(reservationKey).toMatch(/^oneclick_/);
+    expect(charges.charge).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'method-1' }),
+      expect.objectContaining({ amountCents: 5500, currency: 'USD', reference: reservationKey }),
+    );
+    expect(orders.createOrderFromPayment).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'member-1',
+      totalCents: 5500,
+      currency: 'USD',
+      gateway: 'paypal',
+      gatewayTransactionId: 'CAPTURE-1',
+      metadata: expect.objectContaining({
+        shippingCents: 500,
+        stockReservationKey: reservationKey,
+        paymentMethodId: 'method-1',
+        checkoutMode: 'one_click',
+      }),
+    }));
+  });
+
+  it('prices the cart on the server in the requested currency', async () => {
+    await service.checkout({ ...checkoutInput, currency: 'usd' });
+
+    expect(carts.priceCheckout).toHaveBeenCalledWith({
+      userId: 'member-1',
+      cartItems: checkoutInput.cartItems,
+      metadata: checkoutInput.metadata,
+      requestedCurrency: 'usd',
+    });
+    expect(carts.assertTotal).toHaveBeenCalledWith(expect.objectContaining({ totalCents: 5500 }), 5500);
+  });
+
+  it('rejects a method of another member', async () => {
+    paymentMethods.findById.mockResolvedValue(savedMethod({ user_id: 'member-2' }));
+
+    await expect(service.checkout({ ...checkoutInput, paymentMethodId: 'method-1' }))
+      .rejects.toMatchObject({ code: 'PAYMENT_METHOD_NOT_FOUND' });
+    expect(charges.charge).not.toHaveBeenCalled();
+  });
+
+  it('rejects a total that does not match the server total before charging', async () => {
+    carts.assertTotal.mockImplementation(() => {
+      throw new CheckoutCartError('Total amount mismatch. Please refresh your cart.', 'TOTAL_MISMATCH', 5500);
+    });
+
+    await expect(service.checkout({ ...checkoutInput, amountCents: 5000 }))
+      .rejects.toMatchObject({ code: 'TOTAL_MISMATCH', expectedTotalCents: 5500 });
+    expect(stock.reserveForCheckout).not.toHaveBeenCalled();
+    expect(charges.charge).not.toHaveBeenCalled();
+  });
+
+  it('releases the stock when the charge is declined', async () => {
+    charges.charge.mockRejectedValue(new Error('INSTRUMENT_DECLINED'));
+
+    await expect(service.checkout(checkoutInput))
+      .rejects.toMatchObject({ code: 'PAYMENT_DECLINED', message: 'INSTRUMENT_DECLINED' });
+
+    expect(stock.release).toHaveBeenCalledWith(stock.reserveForCheckout.mock.calls[0][0]);
+    expect(orders.createOrderFromPayment).not.toHaveBeenCalled();
+  });
+
+  it('releases the promotions the checkout reserved when it does not go through', async () => {
+    carts.priceCheckout.mockResolvedValue({
+      currency: 'USD',
+      items: checkoutInput.cartItems,
+      shippingCents: 500,
+      totalCents: 5500,
+      promotion: { couponCode: 'WELCOME10', discountCents: 500, promotionIds: ['promo-1'], reservationKey: 'promo_1' },
+      metadata: checkoutInput.metadata,
+    });
+    carts.assertTotal.mockImplementation(() => {
+      throw new CheckoutCartError('Total amount mismatch. Please refresh your cart.', 'TOTAL_MISMATCH', 5500);
+    });
+
+    await expect(service.checkout({ ...checkoutInput, amountCents: 5000 })).rejects.toMatchObject({ code: 'TOTAL_MISMATCH' });
+    expect(promotions.release).toHaveBeenCalledWith('promo_1');
+  });
+
+  it('refunds the charge and releases the stock when the order cannot be created', async () => {
+    orders.createOrderFromPayment.mockRejectedValue(new Error('Failed to create order'));
+
+    await expect(service.checkout(checkoutInput)).rejects.toMatchObject({
+      code: 'ORDER_FAILED',
+      message: 'The order could not be created. The payment has been refunded.',
+    });
+
+    const reservationKey = stock.reserveForCheckout.mock.calls[0][0];
+    expect(stock.release).toHaveBeenCalledWith(reservationKey);
+    expect(charges.reverse).toHaveBeenCalledWith(
+      { gateway: 'paypal', transactionId: 'CAPTURE-1' },
+      { amountCents: 5500, reference: reservationKey },
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { OrderCreationService } from '@/modules/orders/services/order-creation-service';
+import { StockService } from '@/modules/products/services/stock-service';
+import { CheckoutCartService } from '@/modules/orders/services/checkout-cart-service';
+import { PromotionService } from '@/modules/orders/promotions/services/promotion-service';
+import { PaymentMethodRepository } from '../repositories/payment-method-repository';
+import { PaymentMethodChargeService } from './payment-method-charge-service';
+import type { PaymentMethod, PaymentMethodProvider } from '../domain/types';
+
+export type OneClickCheckoutErrorCode =
+  | 'PAYMENT_METHOD_NOT_FOUND'
+  | 'EMPTY_CART'
+  | 'PAYMENT_DECLINED'
+  | 'ORDER_FAILED';
+
+export class OneClickCheckoutError extends Error {
+  constructor(
+    message: string,
+    public readonly code: OneClickCheckoutErrorCode,
+  ) {
+    super(message);
+    this.name = 'OneClickCheckoutError';
+  }
+}
+
+export const ONE_CLICK_CHECKOUT_ERROR_STATUS: Record<OneClickCheckoutErrorCode, number> = {
+  PAYMENT_METHOD_NOT_FOUND: 404,
+  EMPTY_CART: 400,
+  PAYMENT_DECLINED: 402,
+  ORDER_FAILED: 500,
+};
+
+export interface OneClickCartItem {
+  productId: string;
+  productName?: string;
+  variantId?: string | null;
+  variantLabel?: string | null;
+  quantity: number;
+  priceCents: number;
+}
+
+export interface OneClickCheckoutInput {
+  userId: string;
+  /** Saved method to charge; the member's default one when omitted */
+  paymentMethodId?: string | null;
+  amountCents: number;
+  /** Checked against the currency decided on the server; the base currency when omitted */
+  currency?: string | null;
+  description: string;
+  cartItems: OneClickCartItem[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface OneClickCheckoutResult {
+  orderId: string;
+  paymentMethodId: string;
+  gateway: PaymentMethodProvider;
+  transactionId: string;
+  currency: string;
+  totalCents: number;
+}
+
+/**
+ * Product checkout charged to a saved payment method, with no redirect to the gateway. The cart
+ * is priced again on the server (products, shipping, tax and promotions), its stock is reserved,
+ * the saved method is charged and the order is created on the gateway of the method. When the
+ * order cannot be created the charge is given back and the stock and promotions released.
+ */
+export class OneClickCheckoutService {
+  private readonly paymentMethods: PaymentMethodRepository;
+  private readonly charges: PaymentMethodChargeService;
+  private readonly orders: OrderCreationService;
+  private readonly stock: StockService;
+  private readonly carts: CheckoutCartService;
+  private readonly promotions: PromotionService;
+
+  constructor(client: SupabaseClient) {
+    this.paymentMethods = new PaymentMethodRepository(client);
+    this.charges = new PaymentMethodChargeService(client);
+    this.orders = new OrderCreationService(client);
+    this.stock = new StockService(client);
+    this.carts = new CheckoutCartService(client);
+    this.promotions = new PromotionService(client);
+  }
+
+  async checkout(input: OneClickCheckoutInput): Promise<OneClickCheckoutResult> {
+    const { userId, cartItems } = input;
+
+    if (cartItems.length === 0) {
+      throw new OneClickCheckoutError('One-click checkout needs at least one product', 'EMPTY_CART');
+    }
+
+    const method = await this.resolvePaymentMethod(userId, input.paymentMethodId ?? null);
+
+    const checkout = await this.carts.priceCheckout({
+      userId,
+      cartItems,
+      metadata: input.metadata,
+      requestedCurrency: input.currency,
+    });
+    const { currency, items, totalCents } = checkout;
+    const reservationKey = `oneclick_${randomUUID()}`;
+    const promotionReservationKey = checkout.promotion?.reservationKey ?? null;
+
+    try {
+      this.carts.assertTotal(checkout, input.amountCents);
+      await this.stock.reserveForCheckout(reservationKey, userId, items);
+    } catch (error) {
+      await this.promotions.release(promotionReservationKey);
+      throw error;
+    }
+
+    let charge;
+    try {
+      charge = await this.charges.charge(method, {
+        amountCents: totalCents,
+        currency,
+        description: input.description,
+        reference: reservationKey,
+        metadata: { intent: 'checkout' },
+      });
+    } catch (error) {
+      await this.stock.release(reservationKey);
+      await this.promotions.release(promotionReservationKey);
+      throw new OneClickCheckoutError(error instanceof Error ? error.message : 'Payment declined', 'PAYMENT_DECLINED');
+    }
+
+    try {
+      const order = await this.orders.createOrderFromPayment({
+        userId,
+        totalCents,
+        currency,
+        gateway: charge.gateway,
+        gatewayTransactionId: charge.transactionId,
+        metadata: {
+          ...checkout.metadata,
+          stockReservationKey: reservationKey,
+          paymentMethodId: method.id,
+          checkoutMode: 'one_click',
+        },
+        cartItems: items,
+      });
+
+      return {
+        orderId: order.orderId,
+        paymentMethodId: method.id,
+        gateway: charge.gateway,
+        transactionId: charge.transactionId,
+        currency,
+        totalCents,
+      };
+    } catch (error) {
+      console.error('[OneClickCheckout] Order creation failed after a successful charge', {
+        userId,
+        gateway: charge.gateway,
+        transactionId: charge.transactionId,
+        error,
+      });
+
+      await this.stock.release(reservationKey);
+      await this.promotions.release(promotionReservationKey);
+      let reversed = true;
+      try {
+        await this.charges.reverse(charge, { amountCents: totalCents, reference: reservationKey });
+      } catch (reversalError) {
+        reversed = false;
+        // The member was charged and not refunded; the transaction id lets support refund it by hand
+        console.error('[OneClickCheckout] Charge reversal failed', {
+          userId,
+          gateway: charge.gateway,
+          transactionId: charge.transactionId,
+          error: reversalError,
+        });
+      }
+
+      throw new OneClickCheckoutError(
+        reversed
+          ? 'The order could not be created. The payment has been refunded.'
+          : 'The order could not be created. Please contact support to refund the payment.',
+        'ORDER_FAILED',
+      );
+    }
+  }
+
+  private async resolvePaymentMethod(userId: string, paymentMethodId: string | null): Promise<PaymentMethod> {
+    const method = paymentMethodId
+      ? await this.paymentMethods.findById(paymentMethodId)
+      : await this.paymentMethods.findDefaultByUserId(userId);
+
+    if (!method || method.user_id !== userId) {
+      throw new OneClickCheckoutError(
+        paymentMethodId ? 'Payment method not found' : 'No default payment method saved',
+        'PAYMENT_METHOD_NOT_FOUND',
+      );
+    }
+
+    return method;
+  }
+}
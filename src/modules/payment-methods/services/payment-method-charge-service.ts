@@ -0,0 +1,169 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import Stripe from 'stripe';
+import type { Stripe as StripeTypes } from 'stripe';
+import { PayPalBillingService } from '@/modules/payments/services/paypal-billing-service';
+import { AuthorizeNetPlugin } from '@/modules/payments/plugins/authorize-net-plugin';
+import { StripeService } from '@/modules/payments/services/payment-providers/stripe-service';
+import type { PaymentCredentials } from '@/modules/payments/core/payment-plugin.interface';
+import type { PaymentMethod, PaymentMethodProvider } from '../domain/types';
+import { getVaultGatewayCredentials } from './vault-gateway-credentials';
+
+type StripeClient = InstanceType<typeof Stripe>;
+type StripePaymentIntentsResource = StripeTypes['paymentIntents'];
+type StripeApiClient = StripeClient & {
+  paymentIntents: StripePaymentIntentsResource;
+};
+
+export interface PaymentMethodChargeInput {
+  amountCents: number;
+  currency: string;
+  description: string;
+  /** Unique per charge; sent to the gateway as idempotency key so a retry does not charge twice */
+  reference: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentMethodChargeResult {
+  gateway: PaymentMethodProvider;
+  /** Reference of the charge on the gateway, the one refunds take */
+  transactionId: string;
+}
+
+export interface PaymentMethodReversalInput {
+  amountCents: number;
+  /** Reference of the charge; the reversal is sent with an idempotency key derived from it */
+  reference: string;
+}
+
+/**
+ * Charges a saved payment method without the member entering it again: an off-session Stripe
+ * payment intent, a PayPal reference transaction on the billing agreement or an Authorize.net
+ * CIM profile transaction. Declines are thrown.
+ */
+export class PaymentMethodChargeService {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async charge(method: PaymentMethod, input: PaymentMethodChargeInput): Promise<PaymentMethodChargeResult> {
+    switch (method.provider) {
+      case 'stripe':
+        return this.chargeStripe(method, input);
+      case 'paypal':
+        return this.chargePayPal(method, input);
+      case 'authorize_net':
+        return this.chargeAuthorizeNet(method, input);
+      default:
+        throw new Error(`Unsupported payment method provider: ${String(method.provider)}`);
+    }
+  }
+
+  /**
+   * Gives a charge back in full when what it paid for cannot be delivered: a Stripe refund, a
+   * PayPal capture refund or an Authorize.net void, since the transaction is not settled yet.
+   */
+  async reverse(charge: PaymentMethodChargeResult, input: PaymentMethodReversalInput): Promise<void> {
+    const idempotencyKey = `${input.reference}-reversal`;
+
+    switch (charge.gateway) {
+      case 'stripe': {
+        const { credentials } = await getVaultGatewayCredentials('stripe');
+        await StripeService.refundPayment(credentials, {
+          reference: charge.transactionId,
+          amountCents: input.amountCents,
+          idempotencyKey,
+          metadata: { reference: input.reference },
+        });
+        return;
+      }
+      case 'paypal': {
+        const { credentials, isTest } = await getVaultGatewayCredentials('paypal');
+        await new PayPalBillingService(this.client).refundCapture(credentials, isTest ? 'sandbox' : 'live', {
+          captureId: charge.transactionId,
+          reference: idempotencyKey,
+        });
+        return;
+      }
+      case 'authorize_net': {
+        const { credentials, isTest } = await getVaultGatewayCredentials('authorize_net');
+        await new AuthorizeNetPlugin().voidTransaction(
+          { transactionId: charge.transactionId, reference: idempotencyKey, isTest },
+          credentials as PaymentCredentials,
+        );
+        return;
+      }
+      default:
+        throw new Error(`Unsupported payment method provider: ${String(charge.gateway)}`);
+    }
+  }
+
+  private async chargeStripe(method: PaymentMethod, input: PaymentMethodChargeInput): Promise<PaymentMethodChargeResult> {
+    const { credentials } = await getVaultGatewayCredentials('stripe');
+    const stripe = new Stripe(credentials.secret_key, {
+      apiVersion: '2025-03-31',
+    }) as StripeApiClient;
+
+    const paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: input.amountCents,
+        currency: input.currency.toLowerCase(),
+        customer: method.provider_customer_id ?? undefined,
+        payment_method: method.provider_token,
+        description: input.description,
+        confirm: true,
+        off_session: true,
+        metadata: {
+          ...input.metadata,
+          userId: method.user_id,
+          paymentMethodId: method.id,
+        },
+      },
+      { idempotencyKey: input.reference },
+    );
+
+    if (paymentIntent.status !== 'succeeded') {
+      throw new Error(`Payment failed with status: ${paymentIntent.status}`);
+    }
+
+    return { gateway: 'stripe', transactionId: paymentIntent.id };
+  }
+
+  private async chargePayPal(method: PaymentMethod, input: PaymentMethodChargeInput): Promise<PaymentMethodChargeResult> {
+    const { credentials, isTest } = await getVaultGatewayCredentials('paypal');
+
+    const { captureId } = await new PayPalBillingService(this.client).chargeBillingAgreement(
+      credentials,
+      isTest ? 'sandbox' : 'live',
+      {
+        agreementId: method.provider_token,
+        amountCents: input.amountCents,
+        currency: input.currency,
+        description: input.description,
+        reference: input.reference,
+      },
+    );
+
+    return { gateway: 'paypal', transactionId: captureId };
+  }
+
+  private async chargeAuthorizeNet(method: PaymentMethod, input: PaymentMethodChargeInput): Promise<PaymentMethodChargeResult> {
+    if (!method.provider_customer_id) {
+      throw new Error('Authorize.net payment method has no customer profile');
+    }
+
+    const { credentials, isTest } = await getVaultGatewayCredentials('authorize_net');
+
+    const { transactionId } = await new AuthorizeNetPlugin().chargeCustomerProfile(
+      {
+        customerProfileId: method.provider_customer_id,
+        paymentProfileId: method.provider_token,
+        amountCents: input.amountCents,
+        currency: input.currency,
+        description: input.description,
+        reference: input.reference,
+        isTest,
+      },
+      credentials as PaymentCredentials,
+    );
+
+    return { gateway: 'authorize_net', transactionId };
+  }
+}
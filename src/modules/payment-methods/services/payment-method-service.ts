@@ -15,6 +15,20 @@ type StripeApiClient = StripeClient & {
 import { PaymentMethodRepository } from '../repositories/payment-method-repository';
 import type { PaymentMethod, CreatePaymentMethodInput, CardBrand, CardFunding } from '../domain/types';
 import { GatewayCredentialsService } from '@/modules/payments/services/gateway-credentials-service';
+import { PayPalBillingService } from '@/modules/payments/services/paypal-billing-service';
+import { AuthorizeNetPlugin, type AuthorizeNetOpaqueData } from '@/modules/payments/plugins/authorize-net-plugin';
+import type { PaymentCredentials } from '@/modules/payments/core/payment-plugin.interface';
+import { getVaultGatewayCredentials } from './vault-gateway-credentials';
+
+// Card types reported by Authorize.net CIM
+const AUTHORIZE_NET_CARD_BRANDS: Record<string, CardBrand> = {
+  Visa: 'visa',
+  MasterCard: 'mastercard',
+  AmericanExpress: 'amex',
+  Discover: 'discover',
+  DinersClub: 'diners',
+  JCB: 'jcb',
+};
 
 export class PaymentMethodService {
   private readonly repository: PaymentMethodRepository;
@@ -90,6 +104,9 @@ export class PaymentMethodService {
 
     // Extract card details
     const input: CreatePaymentMethodInput = {
+      provider: 'stripe',
+      provider_token: stripePaymentMethodId,
+      provider_customer_id: customerId,
       stripe_payment_method_id: stripePaymentMethodId,
       type: stripePaymentMethod.type as 'card' | 'bank_account',
       is_default: setAsDefault,
@@ -128,6 +145,93 @@ export class PaymentMethodService {
     return this.repository.create(userId, input);
   }
 
+  /**
+   * Start vaulting a PayPal account: the member approves the billing agreement at approvalUrl
+   * and comes back to returnUrl with the token to pass to addPayPalBillingAgreement
+   */
+  async createPayPalAgreementToken(params: {
+    returnUrl: string;
+    cancelUrl: string;
+  }): Promise<{ tokenId: string; approvalUrl: string }> {
+    const { credentials, isTest } = await getVaultGatewayCredentials('paypal');
+
+    return new PayPalBillingService(this.client).createBillingAgreementToken(credentials, isTest ? 'sandbox' : 'live', {
+      description: 'Saved PayPal account for one-click payments',
+      returnUrl: params.returnUrl,
+      cancelUrl: params.cancelUrl,
+    });
+  }
+
+  async addPayPalBillingAgreement(
+    userId: string,
+    tokenId: string,
+    setAsDefault = false
+  ): Promise<PaymentMethod> {
+    const { credentials, isTest } = await getVaultGatewayCredentials('paypal');
+    const agreement = await new PayPalBillingService(this.client).executeBillingAgreement(
+      credentials,
+      isTest ? 'sandbox' : 'live',
+      tokenId,
+    );
+
+    const existing = await this.repository.findByProviderToken('paypal', agreement.agreementId);
+    if (existing) {
+      throw new Error('Payment method already added');
+    }
+
+    return this.repository.create(userId, {
+      provider: 'paypal',
+      provider_token: agreement.agreementId,
+      provider_customer_id: agreement.payerId,
+      type: 'paypal',
+      billing_name: agreement.payerName ?? undefined,
+      billing_email: agreement.payerEmail ?? undefined,
+      is_default: setAsDefault,
+    });
+  }
+
+  /**
+   * Save a card tokenized with Accept.js as an Authorize.net CIM payment profile. All the
+   * member's cards share one CIM customer profile.
+   */
+  async addAuthorizeNetCard(
+    userId: string,
+    opaqueData: AuthorizeNetOpaqueData,
+    setAsDefault = false
+  ): Promise<PaymentMethod> {
+    const { credentials, isTest } = await getVaultGatewayCredentials('authorize_net');
+
+    const { data: profile } = await this.client
+      .from('profiles')
+      .select('email')
+      .eq('id', userId)
+      .maybeSingle();
+
+    const paymentProfile = await new AuthorizeNetPlugin().createCustomerPaymentProfile(
+      {
+        customerProfileId: await this.repository.findProviderCustomerId(userId, 'authorize_net'),
+        merchantCustomerId: userId,
+        email: profile?.email ?? null,
+        opaqueData,
+        isTest,
+      },
+      credentials as PaymentCredentials,
+    );
+
+    return this.repository.create(userId, {
+      provider: 'authorize_net',
+      provider_token: paymentProfile.paymentProfileId,
+      provider_customer_id: paymentProfile.customerProfileId,
+      type: 'card',
+      card_brand: (paymentProfile.cardType && AUTHORIZE_NET_CARD_BRANDS[paymentProfile.cardType]) || 'unknown',
+      card_last4: paymentProfile.cardLast4 ?? undefined,
+      card_exp_month: paymentProfile.expirationMonth ?? undefined,
+      card_exp_year: paymentProfile.expirationYear ?? undefined,
+      billing_email: profile?.email ?? undefined,
+      is_default: setAsDefault,
+    });
+  }
+
   async setDefaultPaymentMethod(paymentMethodId: string, userId: string): Promise<PaymentMethod> {
     // Verify ownership
     const paymentMethod = await this.repository.findById(paymentMethodId);
@@ -145,26 +249,61 @@ export class PaymentMethodService {
       throw new Error('Payment method not found');
     }
 
-    // Detach from Stripe
+    // Revoke the token in the gateway
     try {
-      const stripe = await this.getStripe();
-      await stripe.paymentMethods.detach(paymentMethod.stripe_payment_method_id);
+      await this.revokeProviderToken(paymentMethod);
     } catch (error) {
       SentryLogger.capturePaymentError(error, {
         operation: 'detach_payment_method',
         userId,
         extra: {
           paymentMethodId,
-          stripePaymentMethodId: paymentMethod.stripe_payment_method_id,
+          provider: paymentMethod.provider,
+          providerToken: paymentMethod.provider_token,
           error,
         },
       });
-      // Continue with deletion even if Stripe fails
+      // Continue with deletion even if the gateway fails
     }
 
     await this.repository.delete(paymentMethodId, userId);
   }
 
+  private async revokeProviderToken(paymentMethod: PaymentMethod): Promise<void> {
+    switch (paymentMethod.provider) {
+      case 'stripe': {
+        const stripe = await this.getStripe();
+        await stripe.paymentMethods.detach(paymentMethod.provider_token);
+        return;
+      }
+      case 'paypal': {
+        const { credentials, isTest } = await getVaultGatewayCredentials('paypal');
+        await new PayPalBillingService(this.client).cancelVaultedBillingAgreement(
+          credentials,
+          isTest ? 'sandbox' : 'live',
+          paymentMethod.provider_token,
+        );
+        return;
+      }
+      case 'authorize_net': {
+        if (!paymentMethod.provider_customer_id) {
+          return;
+        }
+
+        const { credentials, isTest } = await getVaultGatewayCredentials('authorize_net');
+        await new AuthorizeNetPlugin().deleteCustomerPaymentProfile(
+          {
+            customerProfileId: paymentMethod.provider_customer_id,
+            paymentProfileId: paymentMethod.provider_token,
+            isTest,
+          },
+          credentials as PaymentCredentials,
+        );
+        return;
+      }
+    }
+  }
+
   async createSetupIntent(userId: string): Promise<{ clientSecret: string }> {
     console.log('Creating setup intent for user:', userId);
     const stripe = await this.getStripe();
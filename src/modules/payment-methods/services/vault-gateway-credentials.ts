@@ -0,0 +1,11 @@
+import { GatewayCredentialsService } from '@/modules/payments/services/gateway-credentials-service';
+import type { PaymentMethodProvider } from '../domain/types';
+
+/**
+ * Credentials of an active gateway in the mode configured for it, as used to vault and charge
+ * saved payment methods
+ */
+export async function getVaultGatewayCredentials<T extends PaymentMethodProvider>(provider: T) {
+  const { credentials, requestedEnvironment } = await GatewayCredentialsService.getActiveProviderCredentials(provider, 'auto');
+  return { credentials, isTest: requestedEnvironment === 'test' };
+}
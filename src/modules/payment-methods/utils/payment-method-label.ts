@@ -0,0 +1,27 @@
+/**
+ * Payment Method Labels
+ * Display title and detail of a saved payment method, whatever its gateway
+ */
+
+import type { PaymentMethod } from '../domain/types';
+
+export interface PaymentMethodLabel {
+  title: string;
+  detail: string | null;
+}
+
+export function getPaymentMethodLabel(
+  method: Pick<PaymentMethod, 'type' | 'card_brand' | 'card_last4' | 'card_exp_month' | 'card_exp_year' | 'billing_email'>,
+): PaymentMethodLabel {
+  if (method.type === 'paypal') {
+    return { title: 'PayPal', detail: method.billing_email };
+  }
+
+  const brand = method.card_brand && method.card_brand !== 'unknown' ? method.card_brand : 'card';
+  const title = method.card_last4 ? `${brand} •••• ${method.card_last4}` : brand;
+  const detail = method.card_exp_month && method.card_exp_year
+    ? `${String(method.card_exp_month).padStart(2, '0')}/${method.card_exp_year}`
+    : null;
+
+  return { title, detail };
+}
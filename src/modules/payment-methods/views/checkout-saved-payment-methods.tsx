@@ -0,0 +1,68 @@
+'use client';
+
+import { RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import type { PaymentMethod } from '../domain/types';
+import { getPaymentMethodLabel } from '../utils/payment-method-label';
+
+/**
+ * Radio value of a saved method, kept apart from the gateway values of the same radio group
+ */
+export const SAVED_PAYMENT_METHOD_PREFIX = 'saved:';
+
+export interface CheckoutSavedPaymentMethodsCopy {
+  savedPaymentMethods: string;
+  savedPaymentMethodDefault: string;
+  savedPaymentMethodOneClick: string;
+}
+
+interface CheckoutSavedPaymentMethodsProps {
+  copy: CheckoutSavedPaymentMethodsCopy;
+  paymentMethods: PaymentMethod[];
+  disabled?: boolean;
+}
+
+/**
+ * Saved payment methods offered at checkout for one-click payment. Rendered inside the payment
+ * method radio group of the checkout, above the gateways.
+ */
+export function CheckoutSavedPaymentMethods({ copy, paymentMethods, disabled }: CheckoutSavedPaymentMethodsProps) {
+  if (paymentMethods.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-muted-foreground">{copy.savedPaymentMethods}</p>
+      {paymentMethods.map((method) => {
+        const value = `${SAVED_PAYMENT_METHOD_PREFIX}${method.id}`;
+        const { title, detail } = getPaymentMethodLabel(method);
+
+        return (
+          <div
+            key={method.id}
+            className="flex items-center gap-4 p-4 rounded-lg border border-border-light dark:border-border-dark cursor-pointer has-[:checked]:border-primary has-[:checked]:bg-primary/10"
+          >
+            <RadioGroupItem value={value} id={`checkout-saved-${method.id}`} disabled={disabled} />
+            <Label htmlFor={`checkout-saved-${method.id}`} className="text-md font-medium cursor-pointer flex flex-col gap-1">
+              <span className="flex items-center gap-2">
+                <span aria-hidden="true">{method.provider === 'paypal' ? '🅿️' : '💳'}</span>
+                <span className="capitalize">{title}</span>
+                {method.is_default && (
+                  <Badge variant="secondary" className="text-xs">
+                    {copy.savedPaymentMethodDefault}
+                  </Badge>
+                )}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {detail ? `${detail} · ` : ''}
+                {copy.savedPaymentMethodOneClick}
+              </span>
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
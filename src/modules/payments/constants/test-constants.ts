@@ -17,6 +17,7 @@ export const PROVIDER_DISPLAY_NAMES: Record<PaymentProvider, string> = {
   manual: 'Manual',
   authorize_net: 'Authorize.Net',
   payoneer: 'Payoneer',
+  mercadopago: 'Mercado Pago',
 } as const;
 
 export const PAYMENT_ENVIRONMENTS = {
@@ -34,6 +34,10 @@ interface AdminPaymentSettingsCopy {
   errorTitle: string;
   genericErrorMessage: string;
   retryLabel: string;
+  // Credential validation labels
+  validateCredentialsLabel?: string;
+  credentialsValidLabel?: string;
+  credentialsInvalidLabel?: string;
   // Availability labels
   availabilityLabel?: string;
   affiliateStoreLabel?: string;
@@ -45,6 +49,7 @@ interface AdminPaymentSettingsCopy {
   manual: PaymentMethodCopy;
   authorize_net: PaymentMethodCopy;
   payoneer: PaymentMethodCopy;
+  mercadopago: PaymentMethodCopy;
 }
 
 interface AdminPaymentSettingsControllerProps {
@@ -70,7 +75,7 @@ export function AdminPaymentSettingsController({
   }, [error, toast, copy.errorTitle, copy.genericErrorMessage]);
 
   const handleSave = async (
-    provider: 'paypal' | 'stripe' | 'wallet' | 'manual' | 'authorize_net' | 'payoneer',
+    provider: 'paypal' | 'stripe' | 'wallet' | 'manual' | 'authorize_net' | 'payoneer' | 'mercadopago',
     data: {
       active: boolean;
       functionality: 'payment' | 'payout' | 'both';
@@ -102,6 +107,7 @@ export function AdminPaymentSettingsController({
   const manualSettings = settings.find((item) => item.provider === 'manual');
   const authorizeNetSettings = settings.find((item) => item.provider === 'authorize_net');
   const payoneerSettings = settings.find((item) => item.provider === 'payoneer');
+  const mercadoPagoSettings = settings.find((item) => item.provider === 'mercadopago');
 
   if (isLoading && settings.length === 0) {
     return (
@@ -117,6 +123,7 @@ export function AdminPaymentSettingsController({
           <Skeleton className="h-[300px]" />
           <Skeleton className="h-[300px]" />
           <Skeleton className="h-[300px]" />
+          <Skeleton className="h-[300px]" />
         </div>
       </div>
     );
@@ -146,6 +153,9 @@ export function AdminPaymentSettingsController({
           loading={isLoading && !paypalSettings}
           isSaving={isSaving}
           onSave={(data) => handleSave('paypal', data, copy.paypal.successDescription)}
+          validateLabel={copy.validateCredentialsLabel}
+          credentialsValidLabel={copy.credentialsValidLabel}
+          credentialsInvalidLabel={copy.credentialsInvalidLabel}
           statusLabel={copy.statusLabel}
           activeLabel={copy.activeLabel}
           inactiveLabel={copy.inactiveLabel}
@@ -177,6 +187,9 @@ export function AdminPaymentSettingsController({
           loading={isLoading && !stripeSettings}
           isSaving={isSaving}
           onSave={(data) => handleSave('stripe', data, copy.stripe.successDescription)}
+          validateLabel={copy.validateCredentialsLabel}
+          credentialsValidLabel={copy.credentialsValidLabel}
+          credentialsInvalidLabel={copy.credentialsInvalidLabel}
           statusLabel={copy.statusLabel}
           activeLabel={copy.activeLabel}
           inactiveLabel={copy.inactiveLabel}
@@ -223,6 +236,40 @@ export function AdminPaymentSettingsController({
           showFunctionalitySelector={true}
         />
 
+        {/* Mercado Pago */}
+        <PaymentMethodToggleCard
+          provider="mercadopago"
+          title={copy.mercadopago.title}
+          description={copy.mercadopago.description}
+          icon={<CreditCard className="h-8 w-8 text-sky-500" />}
+          initialActive={mercadoPagoSettings?.status === 'active'}
+          initialFunctionality={(mercadoPagoSettings?.functionality as 'payment' | 'payout' | 'both') || 'payment'}
+          initialAvailability={{
+            availableOnAffiliateCheckout: mercadoPagoSettings?.availableOnAffiliateCheckout ?? true,
+            availableOnMlmCheckout: mercadoPagoSettings?.availableOnMlmCheckout ?? true,
+            availableOnMainStore: mercadoPagoSettings?.availableOnMainStore ?? true,
+          }}
+          loading={isLoading && !mercadoPagoSettings}
+          isSaving={isSaving}
+          onSave={(data) => handleSave('mercadopago', data, copy.mercadopago.successDescription)}
+          validateLabel={copy.validateCredentialsLabel}
+          credentialsValidLabel={copy.credentialsValidLabel}
+          credentialsInvalidLabel={copy.credentialsInvalidLabel}
+          statusLabel={copy.statusLabel}
+          activeLabel={copy.activeLabel}
+          inactiveLabel={copy.inactiveLabel}
+          functionalityLabel={copy.functionalityLabel}
+          saveLabel={copy.saveLabel}
+          paymentLabel={copy.paymentLabel}
+          payoutLabel={copy.payoutLabel}
+          bothLabel={copy.bothLabel}
+          availabilityLabel={copy.availabilityLabel}
+          affiliateStoreLabel={copy.affiliateStoreLabel}
+          mlmStoreLabel={copy.mlmStoreLabel}
+          mainStoreLabel={copy.mainStoreLabel}
+          showFunctionalitySelector={false}
+        />
+
         {/* Payoneer */}
         <PaymentMethodToggleCard
           provider="payoneer"
@@ -33,13 +33,40 @@ export interface PaymentResponse {
   [key: string]: unknown;
 }
 
+export interface RefundOptions {
+  currency: string;
+  /** Clave que hace seguro reintentar el mismo reembolso */
+  idempotencyKey: string;
+  isTest?: boolean;
+  /** Cliente del pago, necesario para reembolsar a la billetera */
+  userId?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface RefundResponse {
+  refundId: string;
+  status: 'pending' | 'completed' | 'failed';
+  [key: string]: unknown;
+}
+
 export interface WebhookEvent {
+  /** ID del evento en el proveedor, usado para descartar reintentos duplicados */
+  id?: string;
   type: string;
   data: Record<string, unknown>;
   signature?: string;
   timestamp?: string;
 }
 
+/**
+ * Datos de la petición HTTP del webhook que algunos proveedores incluyen en la firma
+ */
+export interface WebhookRequestContext {
+  /** Headers con el nombre en minúsculas */
+  headers: Record<string, string>;
+  query: Record<string, string>;
+}
+
 export interface PaymentPluginConfig {
   /** Nombre único del proveedor (ej: 'paypal', 'stripe', 'mercadopago') */
   name: string;
@@ -61,6 +88,9 @@ export interface PaymentPluginConfig {
     production: string[];
     test: string[];
   };
+
+  /** Header HTTP con la firma de los webhooks (ej: 'x-anet-signature') */
+  webhookSignatureHeader?: string;
 }
 
 /**
@@ -94,17 +124,35 @@ export interface PaymentPlugin {
     credentials: PaymentCredentials
   ): Promise<void>;
 
+  /**
+   * Reembolsa total o parcialmente un pago (opcional). El monto va en la misma unidad que
+   * PaymentRequest.amount
+   */
+  refundPayment?(
+    paymentId: string,
+    amount: number,
+    reason: string | undefined,
+    credentials: PaymentCredentials,
+    options: RefundOptions
+  ): Promise<RefundResponse>;
+
   /**
    * Verifica la firma de un webhook
    */
   verifyWebhookSignature?(
     payload: string,
     signature: string,
-    credentials: PaymentCredentials
+    credentials: PaymentCredentials,
+    context?: WebhookRequestContext
   ): boolean;
 
   /**
-   * Procesa un evento de webhook
+   * Convierte el cuerpo de un webhook en un evento (opcional)
+   */
+  parseWebhookEvent?(payload: Record<string, unknown>): WebhookEvent;
+
+  /**
+   * Procesa un evento de webhook. Si lanza un error el evento se reintenta
    */
   handleWebhook?(
     event: WebhookEvent,
@@ -160,13 +208,37 @@ export abstract class BasePaymentPlugin implements PaymentPlugin {
     throw new Error(`${this.config.name} does not support cancellation`);
   }
 
+  async refundPayment?(
+    _paymentId: string,
+    _amount: number,
+    _reason: string | undefined,
+    _credentials: PaymentCredentials,
+    _options: RefundOptions
+  ): Promise<RefundResponse> {
+    throw new Error(`${this.config.name} does not support refunds`);
+  }
+
+  // Sin verificación implementada los webhooks se rechazan
   verifyWebhookSignature?(
     _payload: string,
     _signature: string,
-    _credentials: PaymentCredentials
+    _credentials: PaymentCredentials,
+    _context?: WebhookRequestContext
   ): boolean {
-    console.warn(`${this.config.name} webhook signature verification not implemented`);
-    return true;
+    console.warn(`${this.config.name} webhook signature verification not implemented, rejecting webhook`);
+    return false;
+  }
+
+  parseWebhookEvent?(payload: Record<string, unknown>): WebhookEvent {
+    const readString = (...values: unknown[]) => values.find((value): value is string => typeof value === 'string' && value.length > 0);
+    const data = [payload.payload, payload.data].find((value) => value && typeof value === 'object');
+
+    return {
+      id: readString(payload.id, payload.notificationId, payload.eventId),
+      type: readString(payload.type, payload.eventType, payload.event_type) ?? 'unknown',
+      data: (data ?? payload) as Record<string, unknown>,
+      timestamp: readString(payload.eventDate, payload.created_at, payload.timestamp),
+    };
   }
 
   async handleWebhook?(
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-export const PaymentProviderSchema = z.enum(['paypal', 'stripe', 'wallet', 'manual', 'authorize_net', 'payoneer']);
+export const PaymentProviderSchema = z.enum(['paypal', 'stripe', 'wallet', 'manual', 'authorize_net', 'payoneer', 'mercadopago']);
 export type PaymentProvider = z.infer<typeof PaymentProviderSchema>;
 
 export const PaymentFunctionalitySchema = z.enum(['payment', 'payout', 'both']);
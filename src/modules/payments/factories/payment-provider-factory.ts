@@ -98,6 +98,29 @@ export class PaymentProviderFactory {
         'Payouts are processed asynchronously',
       ],
     },
+    mercadopago: {
+      endpoint: '/api/payments/mercadopago/create-preference',
+      buildPayload: (request) => ({
+        amount: request.amount,
+        currency: request.currency,
+        description: request.description,
+        intent: request.metadata?.intent ?? 'checkout',
+        planId: request.metadata?.planId,
+        // Store checkouts are priced again on the server from the cart
+        cartItems: request.cartItems ?? request.metadata?.cartItems,
+        isTest: request.isTest,
+        successUrl: request.successUrl,
+        cancelUrl: request.cancelUrl,
+        originUrl: request.originUrl,
+        metadata: request.metadata,
+      }),
+      extractUrl: (response) => response.approvalUrl || null,
+      getTestInfo: () => [
+        'Use the TEST- credentials of a Mercado Pago test user',
+        'Pay with a second test user on the sandbox checkout',
+        'Cardholder name APRO approves the payment, OTHE rejects it',
+      ],
+    },
     manual: { endpoint: '', buildPayload: () => ({} as any), extractUrl: () => '', getTestInfo: () => [] },
   };
 
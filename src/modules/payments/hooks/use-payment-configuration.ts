@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import { adminApi } from '@/lib/utils/admin-csrf-helpers';
 import type { PaymentProvider } from '../domain/models/payment-gateway';
 
 interface PaymentConfigurationState {
@@ -22,10 +23,7 @@ export const usePaymentConfiguration = (provider: PaymentProvider) => {
     setState(prev => ({ ...prev, isChecking: true, errors: [] }));
 
     try {
-      const response = await fetch(`/api/admin/payments/validate/${provider}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
+      const response = await adminApi.post(`/api/admin/payments/validate/${provider}`);
 
       const result = await response.json();
       
@@ -52,13 +50,7 @@ export const usePaymentConfiguration = (provider: PaymentProvider) => {
     setState(prev => ({ ...prev, isChecking: true, errors: [] }));
 
     try {
-      const response = await fetch(`/api/admin/payments/validate/${provider}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ credentials }),
-      });
+      const response = await adminApi.post(`/api/admin/payments/validate/${provider}`, { credentials });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
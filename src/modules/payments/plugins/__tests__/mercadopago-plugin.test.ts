@@ -0,0 +1,436 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createHmac } from 'crypto';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MercadoPagoPlugin, buildMercadoPagoReference } from '../mercadopago-plugin';
+
+const wallet = { recordRecharge: vi.fn() };
+const lifecycle = { handleConfirmedPayment: vi.fn() };
+const clawbacks = { clawbackOrder: vi.fn() };
+const preapprovals = { savePreapproval: vi.fn() };
+const checkouts = { getCheckout: vi.fn(), markPaid: vi.fn() };
+const orders = { orderExistsForTransaction: vi.fn(), createOrderFromPayment: vi.fn() };
+
+vi.mock('@/modules/multilevel/services/wallet-service', () => ({
+  WalletService: vi.fn().mockImplementation(function () {
+    return wallet;
+  }),
+}));
+
+vi.mock('@/modules/multilevel/factories/subscription-service-factory', () => ({
+  createSubscriptionLifecycleService: () => lifecycle,
+}));
+
+vi.mock('@/modules/multilevel/factories/commission-clawback-service-factory', () => ({
+  createCommissionClawbackService: () => clawbacks,
+}));
+
+vi.mock('../../services/mercadopago-preapproval-service', () => ({
+  MercadoPagoPreapprovalService: vi.fn().mockImplementation(function () {
+    return preapprovals;
+  }),
+}));
+
+vi.mock('../../services/mercadopago-checkout-service', () => ({
+  MercadoPagoCheckoutService: vi.fn().mockImplementation(function () {
+    return checkouts;
+  }),
+}));
+
+vi.mock('@/modules/orders/services/order-creation-service', () => ({
+  OrderCreationService: vi.fn().mockImplementation(function () {
+    return orders;
+  }),
+}));
+
+vi.mock('@/modules/multilevel/infrastructure/supabase-admin-client', () => ({
+  getSupabaseAdminClient: () => ({}),
+}));
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown> | null;
+}
+
+/**
+ * Local server standing in for the Mercado Pago API
+ */
+const resources = new Map<string, unknown>();
+const requests: RecordedRequest[] = [];
+let server: Server;
+
+const credentials = {
+  test_access_token: 'TEST-token',
+  test_public_key: 'TEST-public',
+  test_webhook_secret: 'whsec_test',
+};
+
+const sign = (manifest: string, secret = credentials.test_webhook_secret) =>
+  createHmac('sha256', secret).update(manifest).digest('hex');
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const path = req.url ?? '/';
+      const method = req.method ?? 'GET';
+      requests.push({ method, path, headers: req.headers, body: raw ? JSON.parse(raw) : null });
+
+      if (req.headers.authorization !== `Bearer ${credentials.test_access_token}`) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'invalid access token' }));
+        return;
+      }
+
+      const resource = resources.get(`${method} ${path}`);
+      res.writeHead(resource ? 200 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(resource ?? { message: 'not found' }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  process.env.MERCADOPAGO_API_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  delete process.env.MERCADOPAGO_API_BASE_URL;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('MercadoPagoPlugin', () => {
+  const plugin = new MercadoPagoPlugin();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resources.clear();
+    requests.length = 0;
+  });
+
+  it('creates a Checkout Pro preference and returns the sandbox checkout in test mode', async () => {
+    resources.set('POST /checkout/preferences', {
+      id: 'pref-1',
+      init_point: 'https://www.mercadopago.com/checkout/pref-1',
+      sandbox_init_point: 'https://sandbox.mercadopago.com/checkout/pref-1',
+    });
+
+    const response = await plugin.createPayment(
+      {
+        amount: 1500,
+        currency: 'ars',
+        description: 'Wallet recharge',
+        isTest: true,
+        metadata: { payerEmail: 'ana@example.com', externalReference: buildMercadoPagoReference('wallet_recharge', 'member-1') },
+      },
+      credentials,
+    );
+
+    expect(response).toEqual({
+      paymentId: 'pref-1',
+      status: 'pending',
+      approvalUrl: 'https://sandbox.mercadopago.com/checkout/pref-1',
+    });
+    expect(requests[0].body).toMatchObject({
+      items: [{ title: 'Wallet recharge', quantity: 1, unit_price: 1500, currency_id: 'ARS' }],
+      payer: { email: 'ana@example.com' },
+      external_reference: 'wallet_recharge:member-1',
+      auto_return: 'approved',
+    });
+    expect(String(requests[0].body?.notification_url)).toMatch(/\/api\/webhooks\/mercadopago$/);
+  });
+
+  it('verifies the x-signature manifest of a webhook', () => {
+    const payload = JSON.stringify({ id: 123, type: 'payment', data: { id: 'ABC99' } });
+    const context = { headers: { 'x-request-id': 'req-1' }, query: { 'data.id': 'ABC99' } };
+    const signature = `ts=1700000000,v1=${sign('id:abc99;request-id:req-1;ts:1700000000;')}`;
+
+    expect(plugin.verifyWebhookSignature(payload, signature, credentials, context)).toBe(true);
+    expect(plugin.verifyWebhookSignature(payload, signature.replace('ts=1700000000', 'ts=1700000001'), credentials, context)).toBe(false);
+    expect(plugin.verifyWebhookSignature(payload, signature, { ...credentials, test_webhook_secret: 'other' }, context)).toBe(false);
+    expect(plugin.verifyWebhookSignature(payload, signature, { test_access_token: 'TEST-token' }, context)).toBe(false);
+  });
+
+  it('uses the numeric notification id as event id', () => {
+    const event = plugin.parseWebhookEvent({
+      id: 12345678,
+      type: 'payment',
+      action: 'payment.updated',
+      date_created: '2026-10-19T10:00:00Z',
+      data: { id: '987' },
+    });
+
+    expect(event).toEqual({ id: '12345678', type: 'payment', data: { id: '987' }, timestamp: '2026-10-19T10:00:00Z' });
+  });
+
+  it('records a wallet recharge for an approved payment', async () => {
+    resources.set('GET /v1/payments/987', {
+      id: 987,
+      status: 'approved',
+      status_detail: 'accredited',
+      transaction_amount: 1500,
+      currency_id: 'ARS',
+      external_reference: 'wallet_recharge:member-1',
+    });
+
+    await plugin.handleWebhook({ type: 'payment', data: { id: '987' } }, credentials);
+
+    expect(wallet.recordRecharge).toHaveBeenCalledWith({
+      userId: 'member-1',
+      amountCents: 150000,
+      gateway: 'mercadopago',
+      gatewayRef: '987',
+      currency: 'ARS',
+      metadata: { mercadopago_status_detail: 'accredited' },
+    });
+  });
+
+  it('activates the subscription of an approved plan payment', async () => {
+    resources.set('GET /v1/payments/988', {
+      id: 988,
+      status: 'approved',
+      transaction_amount: 29.9,
+      currency_id: 'BRL',
+      external_reference: 'subscription:member-1:plan-1',
+    });
+
+    await plugin.handleWebhook({ type: 'payment', data: { id: '988' } }, credentials);
+
+    expect(lifecycle.handleConfirmedPayment).toHaveBeenCalledWith({
+      userId: 'member-1',
+      planId: 'plan-1',
+      amountCents: 2990,
+      gatewayRef: '988',
+      periodEnd: null,
+      gateway: 'mercadopago',
+    });
+    expect(wallet.recordRecharge).not.toHaveBeenCalled();
+  });
+
+  it('sends store checkouts as one line that expires with the stock reservation', () => {
+    const payload = plugin.buildPayload({
+      amount: 910,
+      currency: 'mxn',
+      description: 'Order',
+      metadata: {
+        externalReference: buildMercadoPagoReference('checkout', 'member-1', 'checkout-1'),
+        expiresAt: '2026-10-19T10:35:00.000Z',
+      },
+    });
+
+    expect(payload).toMatchObject({
+      items: [{ title: 'Order', quantity: 1, unit_price: 910, currency_id: 'MXN' }],
+      external_reference: 'checkout:member-1:checkout-1',
+      expires: true,
+      expiration_date_to: '2026-10-19T10:35:00.000Z',
+    });
+  });
+
+  it('creates the order of an approved store checkout from the cart priced on the server', async () => {
+    const cartItems = [{ productId: 'product-1', quantity: 2, priceCents: 45000 }];
+    checkouts.getCheckout.mockResolvedValue({
+      id: 'checkout-1',
+      userId: 'member-1',
+      status: 'pending',
+      currency: 'MXN',
+      totalCents: 91000,
+      cartItems,
+      metadata: { shippingRateId: 'rate-1', shippingCents: 1000 },
+      orderId: null,
+      expiresAt: '2026-10-19T10:35:00.000Z',
+    });
+    orders.orderExistsForTransaction.mockResolvedValue(false);
+    orders.createOrderFromPayment.mockResolvedValue({ orderId: 'order-1', commissionsCreated: 0 });
+    resources.set('GET /v1/payments/991', {
+      id: 991,
+      status: 'approved',
+      transaction_amount: 910,
+      currency_id: 'MXN',
+      external_reference: 'checkout:member-1:checkout-1',
+    });
+
+    await plugin.handleWebhook({ type: 'payment', data: { id: '991' } }, credentials);
+
+    expect(checkouts.getCheckout).toHaveBeenCalledWith('checkout-1');
+    expect(orders.createOrderFromPayment).toHaveBeenCalledWith({
+      userId: 'member-1',
+      totalCents: 91000,
+      currency: 'MXN',
+      gateway: 'mercadopago',
+      gatewayTransactionId: '991',
+      metadata: { shippingRateId: 'rate-1', shippingCents: 1000, stockReservationKey: 'checkout-1' },
+      cartItems,
+    });
+    expect(checkouts.markPaid).toHaveBeenCalledWith('checkout-1', { orderId: 'order-1', paymentId: '991' });
+    expect(lifecycle.handleConfirmedPayment).not.toHaveBeenCalled();
+  });
+
+  it('creates no order for a payment that does not cover the store checkout', async () => {
+    checkouts.getCheckout.mockResolvedValue({
+      id: 'checkout-2',
+      userId: 'member-1',
+      status: 'pending',
+      currency: 'MXN',
+      totalCents: 91000,
+      cartItems: [],
+      metadata: {},
+      orderId: null,
+      expiresAt: '2026-10-19T10:35:00.000Z',
+    });
+    resources.set('GET /v1/payments/992', {
+      id: 992,
+      status: 'approved',
+      transaction_amount: 1,
+      currency_id: 'MXN',
+      external_reference: 'checkout:member-1:checkout-2',
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await plugin.handleWebhook({ type: 'payment', data: { id: '992' } }, credentials);
+
+    expect(orders.createOrderFromPayment).not.toHaveBeenCalled();
+    expect(checkouts.markPaid).not.toHaveBeenCalled();
+  });
+
+  it('reverses commissions of refunded payments and skips recurring charges', async () => {
+    resources.set('GET /v1/payments/989', { id: 989, status: 'refunded', transaction_amount_refunded: 10 });
+    resources.set('GET /v1/payments/990', {
+      id: 990,
+      status: 'approved',
+      operation_type: 'recurring_payment',
+      external_reference: 'subscription:member-1:plan-1',
+    });
+
+    await plugin.handleWebhook({ type: 'payment', data: { id: '989' } }, credentials);
+    await plugin.handleWebhook({ type: 'payment', data: { id: '990' } }, credentials);
+
+    expect(clawbacks.clawbackOrder).toHaveBeenCalledWith({
+      gatewayRef: '989',
+      reason: 'refund',
+      refundedCents: 1000,
+      externalReference: '989',
+    });
+    expect(lifecycle.handleConfirmedPayment).not.toHaveBeenCalled();
+  });
+
+  it('reverses the refunded part of a partially refunded payment that stays approved', async () => {
+    resources.set('GET /v1/payments/993', {
+      id: 993,
+      status: 'approved',
+      transaction_amount: 40,
+      transaction_amount_refunded: 15.5,
+      currency_id: 'USD',
+      operation_type: 'regular_payment',
+      external_reference: 'checkout:member-1:checkout-1',
+    });
+    checkouts.getCheckout.mockResolvedValue({ id: 'checkout-1', userId: 'member-1', status: 'paid', orderId: 'order-1' });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await plugin.handleWebhook({ type: 'payment', data: { id: '993' } }, credentials);
+
+    expect(clawbacks.clawbackOrder).toHaveBeenCalledWith({
+      gatewayRef: '993',
+      reason: 'refund',
+      refundedCents: 1550,
+      externalReference: '993',
+    });
+    expect(orders.createOrderFromPayment).not.toHaveBeenCalled();
+  });
+
+  it('records monthly preapproval charges until the next payment date', async () => {
+    resources.set('GET /authorized_payments/555', {
+      id: 555,
+      preapproval_id: 'pre-1',
+      status: 'processed',
+      transaction_amount: 29.9,
+      payment: { id: 7001, status: 'approved' },
+    });
+    resources.set('GET /preapproval/pre-1', {
+      id: 'pre-1',
+      status: 'authorized',
+      external_reference: 'subscription:member-1:plan-1',
+      next_payment_date: '2026-11-19T10:00:00.000-04:00',
+    });
+
+    await plugin.handleWebhook({ type: 'subscription_authorized_payment', data: { id: '555' } }, credentials);
+
+    expect(lifecycle.handleConfirmedPayment).toHaveBeenCalledWith({
+      userId: 'member-1',
+      planId: 'plan-1',
+      amountCents: 2990,
+      gatewayRef: '7001',
+      periodEnd: '2026-11-19T10:00:00.000-04:00',
+      gateway: 'mercadopago',
+    });
+  });
+
+  it('syncs the preapproval state for renewals', async () => {
+    resources.set('GET /preapproval/pre-2', {
+      id: 'pre-2',
+      status: 'paused',
+      external_reference: 'subscription:member-2:plan-1',
+      next_payment_date: null,
+      auto_recurring: { transaction_amount: 499, currency_id: 'MXN' },
+    });
+
+    await plugin.handleWebhook({ type: 'subscription_preapproval', data: { id: 'pre-2' } }, credentials);
+
+    expect(preapprovals.savePreapproval).toHaveBeenCalledWith({
+      userId: 'member-2',
+      planId: 'plan-1',
+      preapprovalId: 'pre-2',
+      status: 'paused',
+      amountCents: 49900,
+      currency: 'MXN',
+      nextPaymentDate: null,
+    });
+  });
+
+  it('creates a monthly preapproval for a plan', async () => {
+    resources.set('POST /preapproval', {
+      id: 'pre-3',
+      status: 'pending',
+      init_point: 'https://www.mercadopago.com/subscriptions/pre-3',
+    });
+
+    const subscription = await plugin.createSubscription(
+      { userId: 'member-1', planId: 'plan-1', reason: 'Pro', amount: 29.9, currency: 'brl', payerEmail: 'ana@example.com', isTest: true },
+      credentials,
+    );
+
+    expect(subscription).toEqual({
+      preapprovalId: 'pre-3',
+      approvalUrl: 'https://www.mercadopago.com/subscriptions/pre-3',
+      status: 'pending',
+    });
+    expect(requests[0].body).toMatchObject({
+      external_reference: 'subscription:member-1:plan-1',
+      auto_recurring: { frequency: 1, frequency_type: 'months', transaction_amount: 29.9, currency_id: 'BRL' },
+    });
+  });
+
+  it('sends the idempotency key with refunds', async () => {
+    resources.set('POST /v1/payments/987/refunds', { id: 3001, status: 'approved' });
+
+    const refund = await plugin.refundPayment('987', 12.5, undefined, credentials, {
+      currency: 'ARS',
+      idempotencyKey: 'payment-refund-refund-1',
+      isTest: true,
+    });
+
+    expect(refund).toEqual({ refundId: '3001', status: 'completed' });
+    expect(requests[0].headers['x-idempotency-key']).toBe('payment-refund-refund-1');
+    expect(requests[0].body).toEqual({ amount: 12.5 });
+  });
+
+  it('validates credentials against the account of the access token', async () => {
+    resources.set('GET /users/me', { id: 42 });
+
+    await expect(plugin.validateCredentials(credentials, true)).resolves.toBe(true);
+    await expect(plugin.validateCredentials({ ...credentials, test_access_token: 'TEST-revoked' }, true)).resolves.toBe(false);
+    await expect(plugin.validateCredentials({ test_access_token: 'TEST-token' }, true)).resolves.toBe(false);
+  });
+});
@@ -5,15 +5,38 @@
  * Soporta tanto pagos únicos como suscripciones recurrentes
  */
 
+import { createHmac, timingSafeEqual } from 'crypto';
 import {
     BasePaymentPlugin,
     type PaymentPluginConfig,
     type PaymentRequest,
     type PaymentResponse,
     type PaymentCredentials,
+    type RefundOptions,
+    type RefundResponse,
     type WebhookEvent,
 } from '../core/payment-plugin.interface';
 
+/**
+ * Nonce de Accept.js con la tarjeta que el cliente ingresó en el navegador
+ */
+export interface AuthorizeNetOpaqueData {
+    dataDescriptor: string;
+    dataValue: string;
+}
+
+/**
+ * Perfil de pago de CIM guardado para cobros posteriores
+ */
+export interface AuthorizeNetPaymentProfile {
+    customerProfileId: string;
+    paymentProfileId: string;
+    cardLast4: string | null;
+    cardType: string | null;
+    expirationMonth: number | null;
+    expirationYear: number | null;
+}
+
 /**
  * Plugin de Authorize.net
  */
@@ -35,6 +58,7 @@ export class AuthorizeNetPlugin extends BasePaymentPlugin {
             production: ['api_login_id', 'transaction_key'],
             test: ['test_api_login_id', 'test_transaction_key'],
         },
+        webhookSignatureHeader: 'x-anet-signature',
     };
 
     /**
@@ -158,6 +182,294 @@ export class AuthorizeNetPlugin extends BasePaymentPlugin {
         return null; // Authorize.net no requiere redirección
     }
 
+    /**
+     * Reembolsa una transacción liquidada. Authorize.net pide los últimos dígitos de la tarjeta
+     * original, que se leen de los detalles de la transacción
+     */
+    async refundPayment(
+        paymentId: string,
+        amount: number,
+        reason: string | undefined,
+        credentials: PaymentCredentials,
+        options: RefundOptions
+    ): Promise<RefundResponse> {
+        const apiLoginId = options.isTest
+            ? credentials.test_api_login_id
+            : credentials.api_login_id;
+
+        const transactionKey = options.isTest
+            ? credentials.test_transaction_key
+            : credentials.transaction_key;
+
+        if (!apiLoginId || !transactionKey) {
+            throw new Error('Authorize.net credentials not configured');
+        }
+
+        const endpoint = this.getEndpoint(Boolean(options.isTest));
+        const merchantAuthentication = { name: apiLoginId, transactionKey };
+
+        try {
+            const detailsResponse = await this.makeRequest(endpoint, {
+                method: 'POST',
+                body: JSON.stringify({
+                    getTransactionDetailsRequest: { merchantAuthentication, transId: paymentId },
+                }),
+            });
+            const details = await detailsResponse.json();
+            const creditCard = details.transaction?.payment?.creditCard;
+
+            if (!creditCard?.cardNumber) {
+                throw new Error(`Authorize.net: transaction ${paymentId} has no card to refund`);
+            }
+
+            const response = await this.makeRequest(endpoint, {
+                method: 'POST',
+                body: JSON.stringify({
+                    createTransactionRequest: {
+                        merchantAuthentication,
+                        // refId admite hasta 20 caracteres
+                        refId: options.idempotencyKey.replace(/-/g, '').slice(-20),
+                        transactionRequest: {
+                            transactionType: 'refundTransaction',
+                            amount: amount.toFixed(2),
+                            currencyCode: options.currency,
+                            payment: {
+                                creditCard: {
+                                    cardNumber: String(creditCard.cardNumber).slice(-4),
+                                    expirationDate: creditCard.expirationDate ?? 'XXXX',
+                                },
+                            },
+                            refTransId: paymentId,
+                            order: reason ? { description: reason.slice(0, 255) } : undefined,
+                        },
+                    },
+                }),
+            });
+            const data = await response.json();
+
+            if (data.transactionResponse?.responseCode === '1') {
+                return { refundId: data.transactionResponse.transId, status: 'completed' };
+            }
+
+            const errorMessage = data.transactionResponse?.errors?.[0]?.errorText || 'Refund failed';
+            throw new Error(`Authorize.net: ${errorMessage}`);
+        } catch (error) {
+            console.error('[Authorize.net] Refund failed:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Guarda la tarjeta en Customer Information Manager (CIM). Crea el perfil de cliente la
+     * primera vez y le agrega perfiles de pago en las siguientes
+     */
+    async createCustomerPaymentProfile(
+        params: {
+            customerProfileId: string | null;
+            merchantCustomerId: string;
+            email?: string | null;
+            opaqueData: AuthorizeNetOpaqueData;
+            isTest: boolean;
+        },
+        credentials: PaymentCredentials
+    ): Promise<AuthorizeNetPaymentProfile> {
+        const merchantAuthentication = this.getMerchantAuthentication(credentials, params.isTest);
+        const endpoint = this.getEndpoint(params.isTest);
+        const validationMode = params.isTest ? 'testMode' : 'liveMode';
+        const paymentProfile = {
+            customerType: 'individual',
+            payment: { opaqueData: params.opaqueData },
+        };
+
+        let customerProfileId = params.customerProfileId;
+        let paymentProfileId: string;
+
+        if (!customerProfileId) {
+            // El orden de las propiedades importa: la API valida contra el esquema XML
+            const data = await this.sendCimRequest(endpoint, {
+                createCustomerProfileRequest: {
+                    merchantAuthentication,
+                    profile: {
+                        // merchantCustomerId admite hasta 20 caracteres
+                        merchantCustomerId: params.merchantCustomerId.replace(/-/g, '').slice(0, 20),
+                        email: params.email || undefined,
+                        paymentProfiles: [paymentProfile],
+                    },
+                    validationMode,
+                },
+            });
+
+            customerProfileId = String(data.customerProfileId);
+            paymentProfileId = String(data.customerPaymentProfileIdList?.[0] ?? '');
+        } else {
+            const data = await this.sendCimRequest(endpoint, {
+                createCustomerPaymentProfileRequest: {
+                    merchantAuthentication,
+                    customerProfileId,
+                    paymentProfile,
+                    validationMode,
+                },
+            });
+
+            paymentProfileId = String(data.customerPaymentProfileId ?? '');
+        }
+
+        if (!paymentProfileId) {
+            throw new Error('Authorize.net: payment profile was not created');
+        }
+
+        const details = await this.sendCimRequest(endpoint, {
+            getCustomerPaymentProfileRequest: {
+                merchantAuthentication,
+                customerProfileId,
+                customerPaymentProfileId: paymentProfileId,
+                unmaskExpirationDate: true,
+            },
+        });
+        const creditCard = details.paymentProfile?.payment?.creditCard ?? {};
+        // expirationDate llega como YYYY-MM al pedirla sin enmascarar
+        const [year, month] = String(creditCard.expirationDate ?? '').split('-').map(Number);
+
+        return {
+            customerProfileId,
+            paymentProfileId,
+            cardLast4: creditCard.cardNumber ? String(creditCard.cardNumber).slice(-4) : null,
+            cardType: creditCard.cardType ?? null,
+            expirationMonth: Number.isInteger(month) && month > 0 ? month : null,
+            expirationYear: Number.isInteger(year) && year > 0 ? year : null,
+        };
+    }
+
+    /**
+     * Cobra un perfil de pago de CIM sin que el cliente vuelva a ingresar la tarjeta
+     */
+    async chargeCustomerProfile(
+        params: {
+            customerProfileId: string;
+            paymentProfileId: string;
+            amountCents: number;
+            currency: string;
+            description: string;
+            reference: string;
+            isTest: boolean;
+        },
+        credentials: PaymentCredentials
+    ): Promise<{ transactionId: string }> {
+        const merchantAuthentication = this.getMerchantAuthentication(credentials, params.isTest);
+
+        const response = await this.makeRequest(this.getEndpoint(params.isTest), {
+            method: 'POST',
+            body: JSON.stringify({
+                createTransactionRequest: {
+                    merchantAuthentication,
+                    // refId admite hasta 20 caracteres
+                    refId: params.reference.replace(/-/g, '').slice(-20),
+                    transactionRequest: {
+                        transactionType: 'authCaptureTransaction',
+                        amount: (params.amountCents / 100).toFixed(2),
+                        currencyCode: params.currency.toUpperCase(),
+                        profile: {
+                            customerProfileId: params.customerProfileId,
+                            paymentProfile: { paymentProfileId: params.paymentProfileId },
+                        },
+                        order: { description: params.description.slice(0, 255) },
+                    },
+                },
+            }),
+        });
+        const data = await response.json();
+
+        if (data.transactionResponse?.responseCode === '1') {
+            return { transactionId: data.transactionResponse.transId };
+        }
+
+        const errorMessage = data.transactionResponse?.errors?.[0]?.errorText
+            || data.messages?.message?.[0]?.text
+            || 'Transaction failed';
+        throw new Error(`Authorize.net: ${errorMessage}`);
+    }
+
+    /**
+     * Anula una transacción que aún no se ha liquidado; los reembolsos solo aceptan transacciones
+     * liquidadas
+     */
+    async voidTransaction(
+        params: { transactionId: string; reference: string; isTest: boolean },
+        credentials: PaymentCredentials
+    ): Promise<{ transactionId: string }> {
+        const response = await this.makeRequest(this.getEndpoint(params.isTest), {
+            method: 'POST',
+            body: JSON.stringify({
+                createTransactionRequest: {
+                    merchantAuthentication: this.getMerchantAuthentication(credentials, params.isTest),
+                    refId: params.reference.replace(/-/g, '').slice(-20),
+                    transactionRequest: {
+                        transactionType: 'voidTransaction',
+                        refTransId: params.transactionId,
+                    },
+                },
+            }),
+        });
+        const data = await response.json();
+
+        if (data.transactionResponse?.responseCode === '1') {
+            return { transactionId: data.transactionResponse.transId };
+        }
+
+        const errorMessage = data.transactionResponse?.errors?.[0]?.errorText
+            || data.messages?.message?.[0]?.text
+            || 'Void failed';
+        throw new Error(`Authorize.net: ${errorMessage}`);
+    }
+
+    /**
+     * Elimina un perfil de pago de CIM
+     */
+    async deleteCustomerPaymentProfile(
+        params: { customerProfileId: string; paymentProfileId: string; isTest: boolean },
+        credentials: PaymentCredentials
+    ): Promise<void> {
+        await this.sendCimRequest(this.getEndpoint(params.isTest), {
+            deleteCustomerPaymentProfileRequest: {
+                merchantAuthentication: this.getMerchantAuthentication(credentials, params.isTest),
+                customerProfileId: params.customerProfileId,
+                customerPaymentProfileId: params.paymentProfileId,
+            },
+        });
+    }
+
+    /**
+     * Las peticiones de CIM responden 200 aunque fallen; el resultado viene en messages
+     */
+    private async sendCimRequest(endpoint: string, payload: Record<string, unknown>): Promise<any> {
+        const response = await this.makeRequest(endpoint, {
+            method: 'POST',
+            body: JSON.stringify(payload),
+        });
+        const data = await response.json();
+
+        if (data.messages?.resultCode !== 'Ok') {
+            const errorMessage = data.messages?.message?.[0]?.text || 'CIM request failed';
+            throw new Error(`Authorize.net: ${errorMessage}`);
+        }
+
+        return data;
+    }
+
+    private getMerchantAuthentication(
+        credentials: PaymentCredentials,
+        isTest: boolean
+    ): { name: string; transactionKey: string } {
+        const apiLoginId = isTest ? credentials.test_api_login_id : credentials.api_login_id;
+        const transactionKey = isTest ? credentials.test_transaction_key : credentials.transaction_key;
+
+        if (!apiLoginId || !transactionKey) {
+            throw new Error('Authorize.net credentials not configured');
+        }
+
+        return { name: apiLoginId, transactionKey };
+    }
+
     /**
      * Verifica la firma del webhook de Authorize.net
      */
@@ -166,18 +478,24 @@ export class AuthorizeNetPlugin extends BasePaymentPlugin {
         signature: string,
         credentials: PaymentCredentials
     ): boolean {
-        // Authorize.net usa un método de verificación basado en hash SHA-512
-        // TODO: Implementar verificación según la documentación oficial
+        // Authorize.net firma el cuerpo con HMAC-SHA512 usando la Signature Key:
+        // X-ANET-Signature: sha512=<HEX>
         // https://developer.authorize.net/api/reference/features/webhooks.html
+        const received = signature.trim().replace(/^sha512=/i, '').toLowerCase();
+        const keys = [credentials.signature_key, credentials.test_signature_key].filter(
+            (key): key is string => typeof key === 'string' && key.length > 0
+        );
 
-        console.log('[Authorize.net] Verifying webhook signature...');
-        console.log('Payload length:', payload.length);
-        console.log('Signature:', signature);
-        console.log('Credentials available:', !!credentials);
+        if (keys.length === 0) {
+            console.warn('[Authorize.net] Signature key not configured, rejecting webhook');
+            return false;
+        }
 
-        // Por ahora, aceptar todos los webhooks
-        // En producción, debes implementar la verificación real
-        return true;
+        return keys.some((key) => {
+            const expected = createHmac('sha512', key).update(payload).digest('hex');
+            return expected.length === received.length
+                && timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+        });
     }
 
     /**
@@ -3,6 +3,7 @@
  * 
  * Este es un ejemplo de cómo crear un nuevo plugin de pago.
  * Copia este archivo y modifícalo según el proveedor que quieras agregar.
+ * El plugin de Mercado Pago que se usa está en mercadopago-plugin.ts.
  * 
  * Pasos:
  * 1. Copia este archivo y renómbralo (ej: square-plugin.ts)
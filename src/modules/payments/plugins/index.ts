@@ -3,7 +3,7 @@
  * 
  * PARA AGREGAR UN NUEVO PROVEEDOR:
  * 
- * 1. Crea tu plugin en un archivo separado (ej: mercadopago-plugin.ts)
+ * 1. Crea tu plugin en un archivo separado (ej: square-plugin.ts)
  * 2. Importa tu plugin aquí
  * 3. Agrégalo al array de plugins
  * 4. ¡Listo! El sistema lo detectará automáticamente
@@ -14,15 +14,15 @@
 import { registerPaymentPlugins } from '../core/payment-plugin-registry';
 import type { PaymentPlugin } from '../core/payment-plugin.interface';
 
-// Importar plugins existentes (cuando los migres)
-// import { PayPalPlugin } from './paypal-plugin';
-// import { StripePlugin } from './stripe-plugin';
-// import { WalletPlugin } from './wallet-plugin';
+// Plugins de los proveedores existentes (por ahora cubren los reembolsos)
+import { PayPalPlugin } from './paypal-plugin';
+import { StripePlugin } from './stripe-plugin';
+import { WalletPlugin } from './wallet-plugin';
 
 // Importar nuevos plugins
 import { AuthorizeNetPlugin } from './authorize-net-plugin';
 import { PayoneerPlugin } from './payoneer-plugin';
-// import { MercadoPagoPlugin } from './mercadopago-plugin';
+import { MercadoPagoPlugin } from './mercadopago-plugin';
 // import { SquarePlugin } from './square-plugin';
 
 /**
@@ -34,22 +34,21 @@ import { PayoneerPlugin } from './payoneer-plugin';
  *   new PayPalPlugin(),
  *   new StripePlugin(),
  *   new WalletPlugin(),
- *   new MercadoPagoPlugin(),  // ← Nuevo proveedor
- *   new SquarePlugin(),       // ← Otro nuevo proveedor
+ *   new SquarePlugin(),       // ← Nuevo proveedor
  * ];
  */
 const plugins: PaymentPlugin[] = [
-  // Descomentar cuando migres los plugins existentes:
-  // new PayPalPlugin(),
-  // new StripePlugin(),
-  // new WalletPlugin(),
+  // Proveedores existentes:
+  new PayPalPlugin(),
+  new StripePlugin(),
+  new WalletPlugin(),
 
   // Nuevos plugins agregados:
   new AuthorizeNetPlugin(),
   new PayoneerPlugin(),
+  new MercadoPagoPlugin(),
 
   // Agregar más plugins aquí:
-  // new MercadoPagoPlugin(),
   // new SquarePlugin(),
 ];
 
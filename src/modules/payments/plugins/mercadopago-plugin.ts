@@ -0,0 +1,663 @@
+/**
+ * Mercado Pago Payment Plugin
+ *
+ * Plugin para cobrar con Mercado Pago (Checkout Pro) en Latinoamérica: preferencias de pago,
+ * webhooks firmados, suscripciones con preapproval y reembolsos.
+ *
+ * La URL de la API se puede cambiar con MERCADOPAGO_API_BASE_URL para probar contra un
+ * servidor local.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+    BasePaymentPlugin,
+    type PaymentPluginConfig,
+    type PaymentRequest,
+    type PaymentResponse,
+    type PaymentCredentials,
+    type RefundOptions,
+    type RefundResponse,
+    type WebhookEvent,
+    type WebhookRequestContext,
+} from '../core/payment-plugin.interface';
+import {
+    MercadoPagoPreapprovalService,
+    type MercadoPagoPreapprovalStatus,
+} from '../services/mercadopago-preapproval-service';
+import { MercadoPagoCheckoutService } from '../services/mercadopago-checkout-service';
+import { WalletService } from '@/modules/multilevel/services/wallet-service';
+import { OrderCreationService } from '@/modules/orders/services/order-creation-service';
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { createSubscriptionLifecycleService } from '@/modules/multilevel/factories/subscription-service-factory';
+import { createCommissionClawbackService } from '@/modules/multilevel/factories/commission-clawback-service-factory';
+
+const DEFAULT_API_BASE_URL = 'https://api.mercadopago.com';
+
+export interface MercadoPagoSubscriptionRequest {
+    userId: string;
+    planId: string | null;
+    /** Nombre de la suscripción que ve el cliente */
+    reason: string;
+    amount: number;
+    currency: string;
+    payerEmail: string;
+    backUrl?: string;
+    isTest?: boolean;
+}
+
+export interface MercadoPagoSubscriptionResponse {
+    preapprovalId: string;
+    approvalUrl: string | null;
+    status: MercadoPagoPreapprovalStatus;
+}
+
+interface MercadoPagoPayment {
+    id: number | string;
+    status: string;
+    status_detail?: string;
+    operation_type?: string;
+    transaction_amount?: number;
+    transaction_amount_refunded?: number;
+    currency_id?: string;
+    external_reference?: string | null;
+}
+
+interface MercadoPagoPreapproval {
+    id: string;
+    status: MercadoPagoPreapprovalStatus;
+    external_reference?: string | null;
+    next_payment_date?: string | null;
+    auto_recurring?: { transaction_amount?: number; currency_id?: string };
+}
+
+interface MercadoPagoAuthorizedPayment {
+    id: number | string;
+    preapproval_id: string;
+    status: string;
+    transaction_amount?: number;
+    currency_id?: string;
+    payment?: { id?: number | string; status?: string } | null;
+}
+
+const toCents = (amount: number | undefined): number => Math.round(Number(amount ?? 0) * 100);
+
+type MercadoPagoIntent = 'wallet_recharge' | 'subscription' | 'checkout';
+
+/**
+ * external_reference de los pagos: 'wallet_recharge:<userId>', 'subscription:<userId>:<planId>'
+ * o 'checkout:<userId>:<checkoutId>'
+ */
+export const buildMercadoPagoReference = (
+    intent: MercadoPagoIntent,
+    userId: string,
+    resourceId?: string | null
+): string => (intent === 'wallet_recharge' ? `wallet_recharge:${userId}` : `${intent}:${userId}:${resourceId ?? ''}`);
+
+const parseReference = (reference: string | null | undefined) => {
+    const [intent, userId, resourceId] = (reference ?? '').split(':');
+
+    if ((intent !== 'wallet_recharge' && intent !== 'subscription' && intent !== 'checkout') || !userId) {
+        return null;
+    }
+
+    return {
+        intent,
+        userId,
+        planId: intent === 'subscription' ? resourceId || null : null,
+        checkoutId: intent === 'checkout' ? resourceId || null : null,
+    };
+};
+
+/**
+ * Plugin de Mercado Pago
+ */
+export class MercadoPagoPlugin extends BasePaymentPlugin {
+    readonly config: PaymentPluginConfig = {
+        name: 'mercadopago',
+        displayName: 'Mercado Pago',
+        apiEndpoint: '/api/payments/mercadopago/create-preference',
+        requiresRedirect: true,
+        testInfo: [
+            'Use the TEST- access token and public key of a Mercado Pago test user',
+            'Pay with a second test user (buyer) on the sandbox checkout',
+            'Test card (Mastercard): 5031 7557 3453 0604, CVV 123, expiration 11/30',
+            'Cardholder name APRO approves the payment, OTHE rejects it',
+            'Set MERCADOPAGO_API_BASE_URL to point the plugin at a local mock server',
+        ],
+        credentialFields: {
+            production: ['access_token', 'public_key'],
+            test: ['test_access_token', 'test_public_key'],
+        },
+        webhookSignatureHeader: 'x-signature',
+    };
+
+    /**
+     * URL base de la API, leída en cada llamada para poder apuntarla a un servidor de pruebas
+     */
+    private getApiBaseUrl(): string {
+        return (process.env.MERCADOPAGO_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+    }
+
+    /**
+     * Access token del modo pedido. Los webhooks no saben el modo y usan el que esté configurado
+     */
+    private getAccessToken(credentials: PaymentCredentials, isTest?: boolean): string {
+        const token = isTest === undefined
+            ? credentials.access_token || credentials.test_access_token
+            : isTest ? credentials.test_access_token : credentials.access_token;
+
+        if (!token) {
+            throw new Error('Mercado Pago credentials not configured');
+        }
+
+        return token;
+    }
+
+    private async request<T>(
+        path: string,
+        accessToken: string,
+        init: RequestInit = {}
+    ): Promise<T> {
+        const response = await this.makeRequest(`${this.getApiBaseUrl()}${path}`, {
+            ...init,
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                ...init.headers,
+            },
+        });
+
+        return response.json() as Promise<T>;
+    }
+
+    /**
+     * Crea una preferencia de Checkout Pro. El cliente paga en init_point (sandbox_init_point
+     * en modo test) y el resultado llega por webhook
+     */
+    async createPayment(
+        request: PaymentRequest,
+        credentials: PaymentCredentials
+    ): Promise<PaymentResponse> {
+        const accessToken = this.getAccessToken(credentials, Boolean(request.isTest));
+        const preference = await this.request<{ id: string; init_point?: string; sandbox_init_point?: string }>(
+            '/checkout/preferences',
+            accessToken,
+            { method: 'POST', body: JSON.stringify(this.buildPayload(request)) }
+        );
+
+        return {
+            paymentId: preference.id,
+            status: 'pending',
+            approvalUrl: (request.isTest ? preference.sandbox_init_point : preference.init_point) ?? preference.init_point,
+        };
+    }
+
+    /**
+     * Construye el payload de la preferencia
+     */
+    buildPayload(request: PaymentRequest): Record<string, unknown> {
+        const { successUrl, cancelUrl } = this.buildReturnUrls(request);
+        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+        const metadata = request.metadata ?? {};
+        const currency = request.currency.toUpperCase();
+        const items = request.cartItems?.length
+            ? request.cartItems.map((item) => ({
+                id: item.id,
+                title: item.name,
+                quantity: item.quantity,
+                unit_price: item.price,
+                currency_id: currency,
+            }))
+            : [{ title: request.description, quantity: 1, unit_price: request.amount, currency_id: currency }];
+
+        return {
+            items,
+            payer: typeof metadata.payerEmail === 'string' ? { email: metadata.payerEmail } : undefined,
+            back_urls: {
+                success: successUrl,
+                failure: cancelUrl,
+                pending: successUrl,
+            },
+            auto_return: 'approved',
+            external_reference: typeof metadata.externalReference === 'string' ? metadata.externalReference : undefined,
+            notification_url: `${baseUrl}/api/webhooks/mercadopago`,
+            statement_descriptor: typeof metadata.statementDescriptor === 'string' ? metadata.statementDescriptor : undefined,
+            // Las compras de la tienda caducan junto con la reserva de stock
+            ...(typeof metadata.expiresAt === 'string'
+                ? { expires: true, expiration_date_to: metadata.expiresAt }
+                : {}),
+        };
+    }
+
+    /**
+     * Extrae la URL de aprobación
+     */
+    extractApprovalUrl(response: PaymentResponse): string | null {
+        return response.approvalUrl || null;
+    }
+
+    /**
+     * Cancela un pago pendiente (por ejemplo un ticket de OXXO o Boleto sin pagar)
+     */
+    async cancelPayment(
+        paymentId: string,
+        credentials: PaymentCredentials
+    ): Promise<void> {
+        await this.request(`/v1/payments/${encodeURIComponent(paymentId)}`, this.getAccessToken(credentials), {
+            method: 'PUT',
+            body: JSON.stringify({ status: 'cancelled' }),
+        });
+    }
+
+    /**
+     * Reembolsa total o parcialmente un pago aprobado
+     */
+    async refundPayment(
+        paymentId: string,
+        amount: number,
+        _reason: string | undefined,
+        credentials: PaymentCredentials,
+        options: RefundOptions
+    ): Promise<RefundResponse> {
+        try {
+            const refund = await this.request<{ id: number | string; status?: string }>(
+                `/v1/payments/${encodeURIComponent(paymentId)}/refunds`,
+                this.getAccessToken(credentials, Boolean(options.isTest)),
+                {
+                    method: 'POST',
+                    headers: { 'X-Idempotency-Key': options.idempotencyKey },
+                    body: JSON.stringify({ amount: Number(amount.toFixed(2)) }),
+                }
+            );
+
+            return {
+                refundId: String(refund.id),
+                status: refund.status === 'approved' ? 'completed' : refund.status === 'rejected' ? 'failed' : 'pending',
+            };
+        } catch (error) {
+            console.error('[Mercado Pago] Refund failed:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Crea una suscripción (preapproval) mensual. El cliente la autoriza en init_point y
+     * Mercado Pago cobra cada mes sin pasar por la renovación
+     */
+    async createSubscription(
+        request: MercadoPagoSubscriptionRequest,
+        credentials: PaymentCredentials
+    ): Promise<MercadoPagoSubscriptionResponse> {
+        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+        const preapproval = await this.request<MercadoPagoPreapproval & { init_point?: string; sandbox_init_point?: string }>(
+            '/preapproval',
+            this.getAccessToken(credentials, Boolean(request.isTest)),
+            {
+                method: 'POST',
+                body: JSON.stringify({
+                    reason: request.reason,
+                    external_reference: buildMercadoPagoReference('subscription', request.userId, request.planId),
+                    payer_email: request.payerEmail,
+                    back_url: request.backUrl || `${baseUrl}/payment/result?provider=${this.config.name}&status=success`,
+                    auto_recurring: {
+                        frequency: 1,
+                        frequency_type: 'months',
+                        transaction_amount: Number(request.amount.toFixed(2)),
+                        currency_id: request.currency.toUpperCase(),
+                    },
+                    status: 'pending',
+                }),
+            }
+        );
+
+        return {
+            preapprovalId: preapproval.id,
+            approvalUrl: (request.isTest ? preapproval.sandbox_init_point : preapproval.init_point) ?? preapproval.init_point ?? null,
+            status: preapproval.status,
+        };
+    }
+
+    /**
+     * Cancela una suscripción; Mercado Pago deja de cobrarla
+     */
+    async cancelSubscription(
+        preapprovalId: string,
+        credentials: PaymentCredentials
+    ): Promise<void> {
+        await this.request(`/preapproval/${encodeURIComponent(preapprovalId)}`, this.getAccessToken(credentials), {
+            method: 'PUT',
+            body: JSON.stringify({ status: 'cancelled' }),
+        });
+    }
+
+    /**
+     * Verifica la firma del webhook
+     */
+    verifyWebhookSignature(
+        payload: string,
+        signature: string,
+        credentials: PaymentCredentials,
+        context?: WebhookRequestContext
+    ): boolean {
+        // x-signature: ts=<TS>,v1=<HEX>, un HMAC-SHA256 con la clave secreta de webhooks sobre
+        // id:<data.id>;request-id:<x-request-id>;ts:<TS>; (las partes que falten se omiten)
+        // https://www.mercadopago.com/developers/en/docs/your-integrations/notifications/webhooks
+        const parts = Object.fromEntries(
+            signature.split(',').map((part) => {
+                const [key, ...value] = part.split('=');
+                return [key.trim(), value.join('=').trim()];
+            })
+        );
+        const ts = parts.ts;
+        const received = (parts.v1 ?? '').toLowerCase();
+        const secrets = [credentials.webhook_secret, credentials.test_webhook_secret].filter(
+            (secret): secret is string => typeof secret === 'string' && secret.length > 0
+        );
+
+        if (secrets.length === 0) {
+            console.warn('[Mercado Pago] Webhook secret not configured, rejecting webhook');
+            return false;
+        }
+
+        if (!ts || !received) {
+            return false;
+        }
+
+        let dataId = context?.query['data.id'];
+        if (!dataId) {
+            try {
+                const body = JSON.parse(payload) as { data?: { id?: unknown } };
+                dataId = body.data?.id !== undefined ? String(body.data.id) : undefined;
+            } catch {
+                dataId = undefined;
+            }
+        }
+
+        const requestId = context?.headers['x-request-id'];
+        const manifest = [
+            dataId ? `id:${/^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId};` : '',
+            requestId ? `request-id:${requestId};` : '',
+            `ts:${ts};`,
+        ].join('');
+
+        return secrets.some((secret) => {
+            const expected = createHmac('sha256', secret).update(manifest).digest('hex');
+            return expected.length === received.length
+                && timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+        });
+    }
+
+    /**
+     * Los ids de notificación de Mercado Pago son numéricos
+     */
+    parseWebhookEvent(payload: Record<string, unknown>): WebhookEvent {
+        const data = (payload.data && typeof payload.data === 'object' ? payload.data : {}) as Record<string, unknown>;
+        const type = String(payload.type ?? payload.topic ?? 'unknown');
+
+        return {
+            id: payload.id !== undefined && payload.id !== null
+                ? String(payload.id)
+                : data.id !== undefined ? `${type}:${String(data.id)}:${String(payload.action ?? '')}` : undefined,
+            type,
+            data,
+            timestamp: typeof payload.date_created === 'string' ? payload.date_created : undefined,
+        };
+    }
+
+    /**
+     * Maneja eventos de webhook. El evento solo trae el id del recurso: su estado se lee de
+     * la API, así que un evento repetido o desordenado aplica el estado actual
+     */
+    async handleWebhook(
+        event: WebhookEvent,
+        credentials: PaymentCredentials
+    ): Promise<void> {
+        const resourceId = event.data.id !== undefined ? String(event.data.id) : null;
+
+        if (!resourceId) {
+            console.warn(`[Mercado Pago] Webhook event ${event.id} ignored: missing resource id`);
+            return;
+        }
+
+        switch (event.type) {
+            case 'payment':
+                await this.handlePaymentEvent(resourceId, credentials);
+                break;
+
+            case 'subscription_preapproval':
+                await this.handlePreapprovalEvent(resourceId, credentials);
+                break;
+
+            case 'subscription_authorized_payment':
+                await this.handleAuthorizedPaymentEvent(resourceId, credentials);
+                break;
+
+            default:
+                console.log(`[Mercado Pago] Unhandled event type: ${event.type}`);
+        }
+    }
+
+    /**
+     * Pagos aprobados recargan la billetera, crean el pedido de la tienda o activan la
+     * suscripción; los reembolsos y contracargos revierten las comisiones
+     */
+    private async handlePaymentEvent(
+        paymentId: string,
+        credentials: PaymentCredentials
+    ): Promise<void> {
+        const payment = await this.request<MercadoPagoPayment>(
+            `/v1/payments/${encodeURIComponent(paymentId)}`,
+            this.getAccessToken(credentials)
+        );
+        const gatewayRef = String(payment.id);
+        const refundedCents = toCents(payment.transaction_amount_refunded);
+
+        // Un reembolso parcial deja el pago en approved con transaction_amount_refunded > 0: se
+        // revierte la parte reembolsada y el pago sigue su curso como aprobado
+        if (payment.status === 'refunded' || payment.status === 'charged_back' || refundedCents > 0) {
+            await createCommissionClawbackService().clawbackOrder({
+                gatewayRef,
+                reason: payment.status === 'charged_back' ? 'chargeback' : 'refund',
+                refundedCents: payment.status === 'charged_back' ? undefined : refundedCents,
+                externalReference: gatewayRef,
+            });
+
+            if (payment.status !== 'approved') {
+                return;
+            }
+        }
+
+        if (payment.status !== 'approved') {
+            console.log(`[Mercado Pago] Payment ${gatewayRef} is ${payment.status}, nothing to do`);
+            return;
+        }
+
+        // Los cobros mensuales de un preapproval se registran con subscription_authorized_payment,
+        // que trae la fecha del próximo cobro
+        if (payment.operation_type === 'recurring_payment') {
+            return;
+        }
+
+        const reference = parseReference(payment.external_reference);
+        if (!reference) {
+            console.warn(`[Mercado Pago] Payment ${gatewayRef} ignored: unknown external_reference`);
+            return;
+        }
+
+        const amountCents = toCents(payment.transaction_amount);
+
+        if (reference.intent === 'checkout') {
+            await this.completeCheckout(reference.userId, reference.checkoutId, payment);
+            return;
+        }
+
+        if (reference.intent === 'wallet_recharge') {
+            await new WalletService(getSupabaseAdminClient()).recordRecharge({
+                userId: reference.userId,
+                amountCents,
+                gateway: 'mercadopago',
+                gatewayRef,
+                currency: payment.currency_id ?? 'USD',
+                metadata: { mercadopago_status_detail: payment.status_detail ?? null },
+            });
+            return;
+        }
+
+        await createSubscriptionLifecycleService().handleConfirmedPayment({
+            userId: reference.userId,
+            planId: reference.planId,
+            amountCents,
+            gatewayRef,
+            periodEnd: null,
+            gateway: 'mercadopago',
+        });
+    }
+
+    /**
+     * Crea el pedido de una compra de la tienda con el carrito cotizado al crear la preferencia.
+     * El pago tiene que cubrir ese total en su moneda; un pago repetido no crea otro pedido
+     */
+    private async completeCheckout(
+        userId: string,
+        checkoutId: string | null,
+        payment: MercadoPagoPayment
+    ): Promise<void> {
+        const gatewayRef = String(payment.id);
+        const client = getSupabaseAdminClient();
+        const checkouts = new MercadoPagoCheckoutService(client);
+        const checkout = checkoutId ? await checkouts.getCheckout(checkoutId) : null;
+
+        if (!checkout || checkout.userId !== userId) {
+            console.warn(`[Mercado Pago] Payment ${gatewayRef} ignored: unknown checkout`);
+            return;
+        }
+
+        if (checkout.status === 'paid') {
+            console.log(`[Mercado Pago] Checkout ${checkout.id} already has order ${checkout.orderId}`);
+            return;
+        }
+
+        const amountCents = toCents(payment.transaction_amount);
+        const currency = (payment.currency_id ?? '').toUpperCase();
+
+        if (amountCents !== checkout.totalCents || currency !== checkout.currency) {
+            // Nunca se crea un pedido por otro importe: soporte revisa y reembolsa el pago
+            console.error(`[Mercado Pago] Payment ${gatewayRef} does not match checkout ${checkout.id}`, {
+                paid: { amountCents, currency },
+                expected: { amountCents: checkout.totalCents, currency: checkout.currency },
+            });
+            return;
+        }
+
+        const orders = new OrderCreationService(client);
+        if (await orders.orderExistsForTransaction(gatewayRef)) {
+            console.log(`[Mercado Pago] Order already exists for payment ${gatewayRef}`);
+            return;
+        }
+
+        const order = await orders.createOrderFromPayment({
+            userId,
+            totalCents: checkout.totalCents,
+            currency: checkout.currency,
+            gateway: 'mercadopago',
+            gatewayTransactionId: gatewayRef,
+            metadata: { ...checkout.metadata, stockReservationKey: checkout.id },
+            cartItems: checkout.cartItems,
+        });
+
+        await checkouts.markPaid(checkout.id, { orderId: order.orderId, paymentId: gatewayRef });
+    }
+
+    /**
+     * Guarda el estado de la suscripción, que la renovación consulta
+     */
+    private async handlePreapprovalEvent(
+        preapprovalId: string,
+        credentials: PaymentCredentials
+    ): Promise<void> {
+        const preapproval = await this.getPreapproval(preapprovalId, credentials);
+        const reference = parseReference(preapproval.external_reference);
+
+        if (reference?.intent !== 'subscription') {
+            console.warn(`[Mercado Pago] Preapproval ${preapprovalId} ignored: unknown external_reference`);
+            return;
+        }
+
+        await new MercadoPagoPreapprovalService(getSupabaseAdminClient()).savePreapproval({
+            userId: reference.userId,
+            planId: reference.planId,
+            preapprovalId: preapproval.id,
+            status: preapproval.status,
+            amountCents: toCents(preapproval.auto_recurring?.transaction_amount),
+            currency: preapproval.auto_recurring?.currency_id ?? 'USD',
+            nextPaymentDate: preapproval.next_payment_date ?? null,
+        });
+    }
+
+    /**
+     * Registra el cobro mensual de una suscripción y extiende el periodo hasta el próximo cobro
+     */
+    private async handleAuthorizedPaymentEvent(
+        authorizedPaymentId: string,
+        credentials: PaymentCredentials
+    ): Promise<void> {
+        const authorizedPayment = await this.request<MercadoPagoAuthorizedPayment>(
+            `/authorized_payments/${encodeURIComponent(authorizedPaymentId)}`,
+            this.getAccessToken(credentials)
+        );
+
+        if (authorizedPayment.payment?.status !== 'approved' || authorizedPayment.payment.id === undefined) {
+            console.log(`[Mercado Pago] Authorized payment ${authorizedPaymentId} is ${authorizedPayment.status}, nothing to do`);
+            return;
+        }
+
+        const preapproval = await this.getPreapproval(authorizedPayment.preapproval_id, credentials);
+        const reference = parseReference(preapproval.external_reference);
+
+        if (reference?.intent !== 'subscription') {
+            console.warn(`[Mercado Pago] Authorized payment ${authorizedPaymentId} ignored: unknown external_reference`);
+            return;
+        }
+
+        await createSubscriptionLifecycleService().handleConfirmedPayment({
+            userId: reference.userId,
+            planId: reference.planId,
+            amountCents: toCents(authorizedPayment.transaction_amount),
+            gatewayRef: String(authorizedPayment.payment.id),
+            periodEnd: preapproval.next_payment_date ?? null,
+            gateway: 'mercadopago',
+        });
+    }
+
+    private async getPreapproval(
+        preapprovalId: string,
+        credentials: PaymentCredentials
+    ): Promise<MercadoPagoPreapproval> {
+        return this.request<MercadoPagoPreapproval>(
+            `/preapproval/${encodeURIComponent(preapprovalId)}`,
+            this.getAccessToken(credentials)
+        );
+    }
+
+    /**
+     * Valida las credenciales consultando la cuenta del access token
+     */
+    async validateCredentials(
+        credentials: PaymentCredentials,
+        isTest: boolean
+    ): Promise<boolean> {
+        const accessToken = isTest ? credentials.test_access_token : credentials.access_token;
+        const publicKey = isTest ? credentials.test_public_key : credentials.public_key;
+
+        if (!accessToken || !publicKey) {
+            return false;
+        }
+
+        try {
+            const account = await this.request<{ id?: number | string }>('/users/me', accessToken);
+            return account.id !== undefined;
+        } catch (error) {
+            console.error('[Mercado Pago] Credential validation failed:', error);
+            return false;
+        }
+    }
+}
@@ -166,22 +166,17 @@ export class PayoneerPlugin extends BasePaymentPlugin {
      * Verifica la firma del webhook de Payoneer
      */
     verifyWebhookSignature(
-        payload: string,
-        signature: string,
-        credentials: PaymentCredentials
+        _payload: string,
+        _signature: string,
+        _credentials: PaymentCredentials
     ): boolean {
         // Payoneer usa un método de verificación basado en HMAC
         // TODO: Implementar verificación según la documentación oficial
         // https://developers.payoneer.com/docs/webhooks
 
-        console.log('[Payoneer] Verifying webhook signature...');
-        console.log('Payload length:', payload.length);
-        console.log('Signature:', signature);
-        console.log('Credentials available:', !!credentials);
-
-        // Por ahora, aceptar todos los webhooks
-        // En producción, debes implementar la verificación real
-        return true;
+        // Mientras no esté implementada se rechazan los webhooks
+        console.warn('[Payoneer] Webhook signature verification not implemented, rejecting webhook');
+        return false;
     }
 
     /**
@@ -0,0 +1,87 @@
+/**
+ * PayPal Payment Plugin
+ *
+ * Expone PayPal a través del contrato de plugins. Las órdenes todavía se crean en
+ * /api/payments/paypal/create-order y los webhooks llegan a /api/webhooks/paypal;
+ * el plugin cubre los reembolsos.
+ */
+
+import {
+    BasePaymentPlugin,
+    type PaymentPluginConfig,
+    type PaymentRequest,
+    type PaymentResponse,
+    type PaymentCredentials,
+    type RefundOptions,
+    type RefundResponse,
+} from '../core/payment-plugin.interface';
+import { PayPalService } from '../services/payment-providers/paypal-service';
+import type { PayPalCredentials } from '../types/payment-types';
+
+/**
+ * Plugin de PayPal
+ */
+export class PayPalPlugin extends BasePaymentPlugin {
+    readonly config: PaymentPluginConfig = {
+        name: 'paypal',
+        displayName: 'PayPal',
+        apiEndpoint: '/api/payments/paypal/create-order',
+        requiresRedirect: true,
+        testInfo: [
+            'Use PayPal sandbox credentials for testing',
+            'Log in with a sandbox personal account to approve payments',
+            'Refunds appear in the sandbox account under the original capture',
+        ],
+        credentialFields: {
+            production: ['client_id', 'client_secret'],
+            test: ['client_id', 'client_secret'],
+        },
+    };
+
+    /**
+     * Las órdenes de PayPal se crean en su endpoint, no desde el plugin
+     */
+    async createPayment(
+        _request: PaymentRequest,
+        _credentials: PaymentCredentials
+    ): Promise<PaymentResponse> {
+        throw new Error(`PayPal orders are created by ${this.config.apiEndpoint}`);
+    }
+
+    buildPayload(request: PaymentRequest): Record<string, unknown> {
+        return {
+            amount: request.amount,
+            currency: request.currency,
+            description: request.description,
+            metadata: request.metadata,
+        };
+    }
+
+    extractApprovalUrl(response: PaymentResponse): string | null {
+        return response.approvalUrl ?? null;
+    }
+
+    /**
+     * Reembolsa una captura; el id de la captura es la referencia guardada en la orden
+     */
+    async refundPayment(
+        paymentId: string,
+        amount: number,
+        reason: string | undefined,
+        credentials: PaymentCredentials,
+        options: RefundOptions
+    ): Promise<RefundResponse> {
+        const refund = await PayPalService.refundCapture(credentials as PayPalCredentials, {
+            captureId: paymentId,
+            amountCents: Math.round(amount * 100),
+            currency: options.currency,
+            requestId: options.idempotencyKey,
+            note: reason,
+        });
+
+        return {
+            refundId: refund.refundId,
+            status: refund.status === 'COMPLETED' ? 'completed' : refund.status === 'FAILED' ? 'failed' : 'pending',
+        };
+    }
+}
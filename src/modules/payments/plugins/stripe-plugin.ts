@@ -0,0 +1,89 @@
+/**
+ * Stripe Payment Plugin
+ *
+ * Expone Stripe a través del contrato de plugins. El checkout todavía se crea en
+ * /api/payments/stripe/create-checkout y los webhooks llegan a /api/webhooks/stripe;
+ * el plugin cubre los reembolsos.
+ */
+
+import {
+    BasePaymentPlugin,
+    type PaymentPluginConfig,
+    type PaymentRequest,
+    type PaymentResponse,
+    type PaymentCredentials,
+    type RefundOptions,
+    type RefundResponse,
+} from '../core/payment-plugin.interface';
+import { StripeService } from '../services/payment-providers/stripe-service';
+import type { StripeCredentials } from '../types/payment-types';
+
+/**
+ * Plugin de Stripe
+ */
+export class StripePlugin extends BasePaymentPlugin {
+    readonly config: PaymentPluginConfig = {
+        name: 'stripe',
+        displayName: 'Stripe',
+        apiEndpoint: '/api/payments/stripe/create-checkout',
+        requiresRedirect: true,
+        testInfo: [
+            'Use Stripe test keys (sk_test_...) for testing',
+            'Test card: 4242 4242 4242 4242',
+            'Refunds appear in the Stripe dashboard under the original payment',
+        ],
+        credentialFields: {
+            production: ['secret_key', 'publishable_key'],
+            test: ['secret_key', 'publishable_key'],
+        },
+    };
+
+    /**
+     * El checkout de Stripe se crea en su endpoint, no desde el plugin
+     */
+    async createPayment(
+        _request: PaymentRequest,
+        _credentials: PaymentCredentials
+    ): Promise<PaymentResponse> {
+        throw new Error(`Stripe checkout is created by ${this.config.apiEndpoint}`);
+    }
+
+    buildPayload(request: PaymentRequest): Record<string, unknown> {
+        return {
+            amount: request.amount,
+            currency: request.currency,
+            description: request.description,
+            metadata: request.metadata,
+        };
+    }
+
+    extractApprovalUrl(response: PaymentResponse): string | null {
+        return response.approvalUrl ?? null;
+    }
+
+    /**
+     * Reembolsa una sesión de checkout, un payment intent o un cargo
+     */
+    async refundPayment(
+        paymentId: string,
+        amount: number,
+        reason: string | undefined,
+        credentials: PaymentCredentials,
+        options: RefundOptions
+    ): Promise<RefundResponse> {
+        const refund = await StripeService.refundPayment(credentials as StripeCredentials, {
+            reference: paymentId,
+            amountCents: Math.round(amount * 100),
+            idempotencyKey: options.idempotencyKey,
+            metadata: {
+                ...options.metadata,
+                ...(reason ? { reason: reason.slice(0, 500) } : {}),
+            },
+        });
+
+        return {
+            refundId: refund.refundId,
+            status: refund.status === 'succeeded' ? 'completed' : refund.status === 'failed' ? 'failed' : 'pending',
+        };
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Wallet Payment Plugin
+ *
+ * Pagos con el saldo de la billetera del miembro. Los cobros todavía se hacen en
+ * /api/payments/wallet/charge; el plugin devuelve los reembolsos a la billetera.
+ */
+
+import {
+    BasePaymentPlugin,
+    type PaymentPluginConfig,
+    type PaymentRequest,
+    type PaymentResponse,
+    type PaymentCredentials,
+    type RefundOptions,
+    type RefundResponse,
+} from '../core/payment-plugin.interface';
+import { WalletService } from '@/modules/multilevel/services/wallet-service';
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+
+/**
+ * Plugin de la billetera
+ */
+export class WalletPlugin extends BasePaymentPlugin {
+    readonly config: PaymentPluginConfig = {
+        name: 'wallet',
+        displayName: 'Wallet',
+        apiEndpoint: '/api/payments/wallet/charge',
+        requiresRedirect: false,
+        testInfo: [
+            'Wallet payments use the balance of the member, no credentials needed',
+            'Refunds credit the wallet back with an order_refund transaction',
+        ],
+        credentialFields: {
+            production: [],
+            test: [],
+        },
+    };
+
+    /**
+     * Los cobros a la billetera se hacen en su endpoint, no desde el plugin
+     */
+    async createPayment(
+        _request: PaymentRequest,
+        _credentials: PaymentCredentials
+    ): Promise<PaymentResponse> {
+        throw new Error(`Wallet charges are made by ${this.config.apiEndpoint}`);
+    }
+
+    buildPayload(request: PaymentRequest): Record<string, unknown> {
+        return {
+            amount: request.amount,
+            currency: request.currency,
+            description: request.description,
+            metadata: request.metadata,
+        };
+    }
+
+    extractApprovalUrl(_response: PaymentResponse): string | null {
+        return null; // La billetera no requiere redirección
+    }
+
+    /**
+     * Acredita el monto reembolsado en la billetera del cliente del pago
+     */
+    async refundPayment(
+        paymentId: string,
+        amount: number,
+        reason: string | undefined,
+        _credentials: PaymentCredentials,
+        options: RefundOptions
+    ): Promise<RefundResponse> {
+        if (!options.userId) {
+            throw new Error('Wallet refunds need the user of the payment');
+        }
+
+        const { transactionId } = await new WalletService(getSupabaseAdminClient()).addFunds(
+            options.userId,
+            Math.round(amount * 100),
+            'order_refund',
+            undefined,
+            reason,
+            {
+                ...options.metadata,
+                refunded_payment: paymentId,
+                idempotency_key: options.idempotencyKey,
+            },
+        );
+
+        return { refundId: transactionId, status: 'completed' };
+    }
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Locale } from '@/i18n/config';
+import type {
+  PaymentRefund,
+  PaymentRefundInput,
+  PaymentRefundState,
+  PaymentRefundsDictionary,
+  RefundablePayment,
+  RefundablePaymentKind,
+} from '../domain/models/payment-refund';
+import { PaymentRefundsRepositoryFactory } from '../repositories/payment-refunds-repository';
+import { PaymentRefundsView } from '../views/payment-refunds-view';
+
+interface PaymentRefundsControllerProps {
+  dictionary: PaymentRefundsDictionary;
+  lang: Locale;
+  /**
+   * Limits the list to orders or to ledger payments; both by default
+   */
+  kind?: RefundablePaymentKind;
+}
+
+export const PaymentRefundsController = ({ dictionary, lang, kind }: PaymentRefundsControllerProps) => {
+  const repository = useMemo(() => PaymentRefundsRepositoryFactory.create(), []);
+
+  const [state, setState] = useState<PaymentRefundState | null>(null);
+  const [payments, setPayments] = useState<RefundablePayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadPayments = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setPayments(await repository.list({ kind, state }));
+    } catch (loadError) {
+      console.error('[payment-refunds] load failed', loadError);
+      setError(loadError instanceof Error ? loadError.message : dictionary.error.title);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, kind, state, dictionary.error.title]);
+
+  useEffect(() => {
+    loadPayments();
+  }, [loadPayments]);
+
+  const handleRefund = useCallback(
+    async (input: PaymentRefundInput): Promise<PaymentRefund> => {
+      setSubmitting(true);
+      try {
+        const refund = await repository.refund(input);
+        await loadPayments();
+        return refund;
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [repository, loadPayments],
+  );
+
+  return (
+    <PaymentRefundsView
+      dictionary={dictionary}
+      lang={lang}
+      kind={kind}
+      state={state}
+      payments={payments}
+      loading={loading}
+      error={error}
+      submitting={submitting}
+      onStateChange={setState}
+      onRefresh={loadPayments}
+      onRefund={handleRefund}
+    />
+  );
+};
@@ -0,0 +1,306 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  PaymentRefund,
+  PaymentRefundState,
+  PaymentRefundStatus,
+  RefundablePayment,
+  RefundablePaymentKind,
+} from '../../domain/models/payment-refund';
+
+type MaybeArray<T> = T | T[] | null;
+
+interface RefundSummaryRow {
+  status: PaymentRefundStatus;
+  amount_cents: number;
+  lines: { order_item_id: string; amount_cents: number }[] | null;
+}
+
+export interface OrderPaymentRow {
+  id: string;
+  user_id: string;
+  status: string;
+  total_cents: number;
+  currency: string | null;
+  gateway: string | null;
+  gateway_transaction_id: string | null;
+  locale: string | null;
+  created_at: string;
+  customer: MaybeArray<{ name: string | null; email: string | null }>;
+  items: {
+    id: string;
+    qty: number;
+    price_cents: number;
+    variant_label: string | null;
+    product: MaybeArray<{ name: string | null }>;
+  }[] | null;
+  refunds: RefundSummaryRow[] | null;
+}
+
+export interface LedgerPaymentRow {
+  id: string;
+  user_id: string;
+  status: string;
+  amount_cents: number;
+  currency: string | null;
+  gateway: string;
+  gateway_ref: string;
+  created_at: string;
+  customer: MaybeArray<{ name: string | null; email: string | null }>;
+  refunds: RefundSummaryRow[] | null;
+}
+
+export interface PaymentRefundRow {
+  id: string;
+  order_id: string | null;
+  payment_id: string | null;
+  user_id: string;
+  gateway: string;
+  amount_cents: number;
+  currency: string;
+  reason: string | null;
+  status: PaymentRefundStatus;
+  gateway_refund_id: string | null;
+  error: string | null;
+  order_return_id?: string | null;
+  created_at: string;
+  lines?: { order_item_id: string; amount_cents: number }[] | null;
+}
+
+/**
+ * Orders refundable from the admin: paid, or already refunded in part
+ */
+const REFUNDABLE_ORDER_STATUSES = ['paid', 'processing', 'completed', 'fulfilled', 'refunded'];
+const REFUNDABLE_LEDGER_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+const REFUNDS_SELECT = 'refunds:payment_refunds(status, amount_cents, lines:payment_refund_lines(order_item_id, amount_cents))';
+
+const ORDER_SELECT = `
+  id, user_id, status, total_cents, currency, gateway, gateway_transaction_id, created_at,
+  locale:metadata->>locale,
+  customer:profiles!user_id(name, email),
+  items:order_items(id, qty, price_cents, variant_label, product:products(name)),
+  ${REFUNDS_SELECT}
+`;
+
+const LEDGER_SELECT = `
+  id, user_id, status, amount_cents, currency, gateway, gateway_ref, created_at,
+  customer:profiles!user_id(name, email),
+  ${REFUNDS_SELECT}
+`;
+
+const first = <T>(value: MaybeArray<T> | undefined): T | null =>
+  Array.isArray(value) ? (value[0] ?? null) : (value ?? null);
+
+/**
+ * Refunds still counting against the payment: failed ones moved no money
+ */
+const activeRefunds = (refunds: RefundSummaryRow[] | null) =>
+  (refunds ?? []).filter((refund) => refund.status !== 'failed');
+
+const toState = (amountCents: number, refundedCents: number): PaymentRefundState => {
+  if (refundedCents <= 0) {
+    return 'paid';
+  }
+  return refundedCents >= amountCents ? 'refunded' : 'partially_refunded';
+};
+
+export const getPaymentCustomer = (row: OrderPaymentRow | LedgerPaymentRow) => first(row.customer);
+
+export const toOrderPayment = (row: OrderPaymentRow): RefundablePayment => {
+  const customer = getPaymentCustomer(row);
+  const refunds = activeRefunds(row.refunds);
+  const amountCents = Number(row.total_cents);
+  // Refunds of returns are in the same ledger
+  const refundedCents = refunds.reduce((total, refund) => total + Number(refund.amount_cents), 0);
+
+  const lineRefunds = new Map<string, number>();
+  refunds.forEach((refund) =>
+    (refund.lines ?? []).forEach((line) =>
+      lineRefunds.set(line.order_item_id, (lineRefunds.get(line.order_item_id) ?? 0) + Number(line.amount_cents)),
+    ),
+  );
+
+  return {
+    id: row.id,
+    kind: 'order',
+    userId: row.user_id,
+    customerName: customer?.name ?? null,
+    customerEmail: customer?.email ?? null,
+    gateway: row.gateway?.toLowerCase() ?? null,
+    gatewayRef: row.gateway_transaction_id,
+    amountCents,
+    refundedCents,
+    currency: (row.currency ?? 'USD').toUpperCase(),
+    state: toState(amountCents, refundedCents),
+    createdAt: row.created_at,
+    lines: (row.items ?? []).map((item) => ({
+      orderItemId: item.id,
+      productName: first(item.product)?.name ?? 'Product',
+      variantLabel: item.variant_label,
+      quantity: item.qty,
+      amountCents: Number(item.price_cents) * item.qty,
+      refundedCents: lineRefunds.get(item.id) ?? 0,
+    })),
+  };
+};
+
+export const toLedgerPayment = (row: LedgerPaymentRow): RefundablePayment => {
+  const customer = getPaymentCustomer(row);
+  const amountCents = Number(row.amount_cents);
+  const refundedCents = activeRefunds(row.refunds).reduce((total, refund) => total + Number(refund.amount_cents), 0);
+
+  return {
+    id: row.id,
+    kind: 'subscription',
+    userId: row.user_id,
+    customerName: customer?.name ?? null,
+    customerEmail: customer?.email ?? null,
+    gateway: row.gateway,
+    gatewayRef: row.gateway_ref,
+    amountCents,
+    refundedCents,
+    currency: (row.currency ?? 'USD').toUpperCase(),
+    // Ledger payments refunded from the gateway dashboard before this feature have no refund rows
+    state: row.status === 'refunded' ? 'refunded' : toState(amountCents, refundedCents),
+    createdAt: row.created_at,
+    lines: [],
+  };
+};
+
+export const toPaymentRefund = (row: PaymentRefundRow): PaymentRefund => ({
+  id: row.id,
+  kind: row.order_id ? 'order' : 'subscription',
+  paymentId: (row.order_id ?? row.payment_id) as string,
+  userId: row.user_id,
+  gateway: row.gateway,
+  amountCents: Number(row.amount_cents),
+  currency: row.currency.toUpperCase(),
+  reason: row.reason,
+  status: row.status,
+  gatewayRefundId: row.gateway_refund_id,
+  error: row.error,
+  lines: (row.lines ?? []).map((line) => ({ orderItemId: line.order_item_id, amountCents: Number(line.amount_cents) })),
+  createdAt: row.created_at,
+});
+
+export class PaymentRefundRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async listOrders(limit: number): Promise<OrderPaymentRow[]> {
+    const { data, error } = await this.client
+      .from('orders')
+      .select(ORDER_SELECT)
+      .in('status', REFUNDABLE_ORDER_STATUSES)
+      .not('gateway', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as unknown as OrderPaymentRow[];
+  }
+
+  async findOrder(id: string): Promise<OrderPaymentRow | null> {
+    const { data, error } = await this.client.from('orders').select(ORDER_SELECT).eq('id', id).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as unknown as OrderPaymentRow | null) ?? null;
+  }
+
+  async listLedgerPayments(limit: number): Promise<LedgerPaymentRow[]> {
+    const { data, error } = await this.client
+      .from('payments')
+      .select(LEDGER_SELECT)
+      .eq('kind', 'subscription')
+      .in('status', REFUNDABLE_LEDGER_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []) as unknown as LedgerPaymentRow[];
+  }
+
+  async findLedgerPayment(id: string): Promise<LedgerPaymentRow | null> {
+    const { data, error } = await this.client.from('payments').select(LEDGER_SELECT).eq('id', id).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as unknown as LedgerPaymentRow | null) ?? null;
+  }
+
+  /**
+   * Runs begin_payment_refund, which checks the refundable amount of the payment and of each
+   * order line with the payment locked, and records the refund as pending
+   */
+  async begin(input: {
+    kind: RefundablePaymentKind;
+    paymentId: string;
+    amountCents: number;
+    lines: { orderItemId: string; amountCents: number }[];
+    reason: string | null;
+    createdBy: string;
+    /** Return refunded by this refund */
+    orderReturnId?: string | null;
+    /** Gateway that pays the refund when it is not the one of the payment (wallet credit) */
+    gateway?: string | null;
+  }): Promise<PaymentRefundRow> {
+    const { data, error } = await this.client.rpc('begin_payment_refund', {
+      p_order_id: input.kind === 'order' ? input.paymentId : null,
+      p_payment_id: input.kind === 'subscription' ? input.paymentId : null,
+      p_amount_cents: input.amountCents,
+      p_lines: input.lines.map((line) => ({ order_item_id: line.orderItemId, amount_cents: line.amountCents })),
+      p_reason: input.reason,
+      p_created_by: input.createdBy,
+      p_order_return_id: input.orderReturnId ?? null,
+      p_gateway: input.gateway ?? null,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    const row = (Array.isArray(data) ? data[0] : data) as PaymentRefundRow;
+    return { ...row, lines: input.lines.map((line) => ({ order_item_id: line.orderItemId, amount_cents: line.amountCents })) };
+  }
+
+  /**
+   * Runs complete_payment_refund, which adds the refund to the refunded amount of the payment
+   */
+  async complete(id: string, gatewayRefundId: string): Promise<PaymentRefundRow> {
+    const { data, error } = await this.client.rpc('complete_payment_refund', {
+      p_refund_id: id,
+      p_gateway_refund_id: gatewayRefundId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (Array.isArray(data) ? data[0] : data) as PaymentRefundRow;
+  }
+
+  /**
+   * Releases the amount of a refund the gateway rejected
+   */
+  async fail(id: string, message: string): Promise<void> {
+    const { error } = await this.client
+      .from('payment_refunds')
+      .update({ status: 'failed', error: message.slice(0, 1000) })
+      .eq('id', id)
+      .eq('status', 'pending');
+
+    if (error) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+
+/**
+ * order: a store order, refundable per line; subscription: a payment of the payments ledger
+ */
+export const REFUNDABLE_PAYMENT_KINDS = ['order', 'subscription'] as const;
+
+/**
+ * Refund state of a payment, from the total refunded against the amount paid
+ */
+export const PAYMENT_REFUND_STATES = ['paid', 'partially_refunded', 'refunded'] as const;
+
+/**
+ * pending: recorded before the gateway was called, still counted against the refundable amount;
+ * succeeded: the gateway accepted it; failed: the gateway rejected it, nothing was refunded
+ */
+export const PAYMENT_REFUND_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type RefundablePaymentKind = (typeof REFUNDABLE_PAYMENT_KINDS)[number];
+export type PaymentRefundState = (typeof PAYMENT_REFUND_STATES)[number];
+export type PaymentRefundStatus = (typeof PAYMENT_REFUND_STATUSES)[number];
+
+export const RefundablePaymentLineSchema = z.object({
+  orderItemId: z.string(),
+  productName: z.string(),
+  variantLabel: z.string().nullable(),
+  quantity: z.number().int(),
+  amountCents: z.number(),
+  /**
+   * Refunded on this line, by admin refunds and by returns
+   */
+  refundedCents: z.number(),
+});
+
+export type RefundablePaymentLine = z.infer<typeof RefundablePaymentLineSchema>;
+
+export const RefundablePaymentSchema = z.object({
+  /**
+   * Order id or payments ledger id, depending on the kind
+   */
+  id: z.string(),
+  kind: z.enum(REFUNDABLE_PAYMENT_KINDS),
+  userId: z.string(),
+  customerName: z.string().nullable(),
+  customerEmail: z.string().nullable(),
+  gateway: z.string().nullable(),
+  gatewayRef: z.string().nullable(),
+  amountCents: z.number(),
+  /**
+   * Refunded so far, including refunds still pending at the gateway and, for orders, returns
+   */
+  refundedCents: z.number(),
+  currency: z.string(),
+  state: z.enum(PAYMENT_REFUND_STATES),
+  createdAt: z.string(),
+  lines: z.array(RefundablePaymentLineSchema),
+});
+
+export type RefundablePayment = z.infer<typeof RefundablePaymentSchema>;
+
+export const PaymentRefundLineSchema = z.object({
+  orderItemId: z.string(),
+  amountCents: z.number(),
+});
+
+export type PaymentRefundLine = z.infer<typeof PaymentRefundLineSchema>;
+
+export const PaymentRefundSchema = z.object({
+  id: z.string(),
+  kind: z.enum(REFUNDABLE_PAYMENT_KINDS),
+  paymentId: z.string(),
+  userId: z.string(),
+  gateway: z.string(),
+  amountCents: z.number(),
+  currency: z.string(),
+  reason: z.string().nullable(),
+  status: z.enum(PAYMENT_REFUND_STATUSES),
+  gatewayRefundId: z.string().nullable(),
+  error: z.string().nullable(),
+  lines: z.array(PaymentRefundLineSchema),
+  createdAt: z.string(),
+});
+
+export type PaymentRefund = z.infer<typeof PaymentRefundSchema>;
+
+export const PaymentRefundInputSchema = z
+  .object({
+    kind: z.enum(REFUNDABLE_PAYMENT_KINDS),
+    id: z.string().uuid(),
+    /**
+     * Defaults to everything still refundable; ignored when lines are given
+     */
+    amountCents: z.number().int().positive().optional(),
+    /**
+     * Partial refund of order lines; the refund amount is their sum
+     */
+    lines: z
+      .array(z.object({ orderItemId: z.string().uuid(), amountCents: z.number().int().positive() }))
+      .min(1)
+      .max(100)
+      .optional(),
+    reason: z.string().trim().max(500).nullable().optional(),
+  })
+  .refine((input) => !input.lines || input.kind === 'order', {
+    message: 'Only orders can be refunded per line',
+    path: ['lines'],
+  })
+  .refine((input) => !input.lines || new Set(input.lines.map((line) => line.orderItemId)).size === input.lines.length, {
+    message: 'Each order line can appear once',
+    path: ['lines'],
+  });
+
+export type PaymentRefundInput = z.infer<typeof PaymentRefundInputSchema>;
+
+export const RefundablePaymentFiltersSchema = z.object({
+  kind: z.enum(REFUNDABLE_PAYMENT_KINDS).optional(),
+  state: z.enum(PAYMENT_REFUND_STATES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type RefundablePaymentFilters = z.infer<typeof RefundablePaymentFiltersSchema>;
+
+export const PaymentRefundsDictionarySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  ordersTitle: z.string(),
+  ordersDescription: z.string(),
+  refresh: z.string(),
+  empty: z.string(),
+  filters: z.object({
+    state: z.string(),
+    all: z.string(),
+  }),
+  kinds: z.record(z.string(), z.string()),
+  states: z.record(z.string(), z.string()),
+  table: z.object({
+    payment: z.string(),
+    customer: z.string(),
+    gateway: z.string(),
+    amount: z.string(),
+    refunded: z.string(),
+    state: z.string(),
+    actions: z.string(),
+  }),
+  actions: z.object({
+    refund: z.string(),
+    cancel: z.string(),
+    submitting: z.string(),
+  }),
+  form: z.object({
+    title: z.string(),
+    description: z.string(),
+    amount: z.string(),
+    remaining: z.string(),
+    lines: z.string(),
+    linesHint: z.string(),
+    reason: z.string(),
+    reasonPlaceholder: z.string(),
+    invalidAmount: z.string(),
+  }),
+  success: z.object({
+    refunded: z.string(),
+  }),
+  error: z.object({
+    title: z.string(),
+    retry: z.string(),
+  }),
+});
+
+export type PaymentRefundsDictionary = z.infer<typeof PaymentRefundsDictionarySchema>;
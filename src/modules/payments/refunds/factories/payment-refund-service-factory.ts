@@ -0,0 +1,8 @@
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { paymentPluginRegistry } from '@/modules/payments/plugins';
+import { PaymentRefundService } from '../services/payment-refund-service';
+
+export const resolveRefundPlugin = (gateway: string) =>
+  paymentPluginRegistry.has(gateway) ? paymentPluginRegistry.get(gateway) : null;
+
+export const createPaymentRefundService = () => new PaymentRefundService(getSupabaseAdminClient(), resolveRefundPlugin);
@@ -0,0 +1,101 @@
+import {
+  PaymentRefundInputSchema,
+  PaymentRefundSchema,
+  RefundablePaymentSchema,
+  type PaymentRefund,
+  type PaymentRefundInput,
+  type PaymentRefundState,
+  type RefundablePayment,
+  type RefundablePaymentKind,
+} from '../domain/models/payment-refund';
+import { adminApi } from '@/lib/utils/admin-csrf-helpers';
+
+export interface PaymentRefundListFilters {
+  kind?: RefundablePaymentKind | null;
+  state?: PaymentRefundState | null;
+}
+
+export interface PaymentRefundsRepository {
+  list(filters?: PaymentRefundListFilters): Promise<RefundablePayment[]>;
+  refund(input: PaymentRefundInput): Promise<PaymentRefund>;
+}
+
+export class PaymentRefundRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+  ) {
+    super(message);
+    this.name = 'PaymentRefundRequestError';
+  }
+}
+
+const API_BASE = '/api/admin/payments/refunds';
+
+const parseJson = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    console.error('[PaymentRefundsRepository] Failed to parse JSON', error, text);
+    throw new Error('Invalid server response.');
+  }
+};
+
+const toRequestError = async (response: Response, fallback: string) => {
+  const payload = await parseJson(response);
+  const message = typeof payload.error === 'string' ? payload.error : response.statusText;
+  return new PaymentRefundRequestError(message || fallback, typeof payload.code === 'string' ? payload.code : null);
+};
+
+class HttpPaymentRefundsRepository implements PaymentRefundsRepository {
+  async list(filters: PaymentRefundListFilters = {}): Promise<RefundablePayment[]> {
+    const params = new URLSearchParams();
+    if (filters.kind) params.set('kind', filters.kind);
+    if (filters.state) params.set('state', filters.state);
+    const query = params.size > 0 ? `?${params.toString()}` : '';
+
+    const response = await fetch(`${API_BASE}${query}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load payments.');
+    }
+
+    const payload = await parseJson(response);
+    return RefundablePaymentSchema.array().parse(payload.payments ?? []);
+  }
+
+  async refund(input: PaymentRefundInput): Promise<PaymentRefund> {
+    // ✅ SECURITY: Use adminApi.post() to automatically include CSRF token
+    const response = await adminApi.post(API_BASE, PaymentRefundInputSchema.parse(input));
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to refund payment.');
+    }
+
+    const payload = await parseJson(response);
+    return PaymentRefundSchema.parse(payload.refund);
+  }
+}
+
+class PaymentRefundsRepositoryFactoryImpl {
+  private instance: PaymentRefundsRepository | null = null;
+
+  create(): PaymentRefundsRepository {
+    if (!this.instance) {
+      this.instance = new HttpPaymentRefundsRepository();
+    }
+
+    return this.instance;
+  }
+}
+
+export const PaymentRefundsRepositoryFactory = new PaymentRefundsRepositoryFactoryImpl();
+
+export { HttpPaymentRefundsRepository };
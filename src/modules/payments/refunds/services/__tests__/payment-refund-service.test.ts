@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PaymentPlugin } from '@/modules/payments/core/payment-plugin.interface';
+import { PaymentRefundError, PaymentRefundService } from '../payment-refund-service';
+import type {
+  LedgerPaymentRow,
+  OrderPaymentRow,
+  PaymentRefundRow,
+} from '../../data/repositories/payment-refund-repository';
+
+const repository = {
+  listOrders: vi.fn(),
+  findOrder: vi.fn(),
+  listLedgerPayments: vi.fn(),
+  findLedgerPayment: vi.fn(),
+  begin: vi.fn(),
+  complete: vi.fn(),
+  fail: vi.fn(),
+};
+
+const clawbacks = { clawbackOrder: vi.fn() };
+const notifications = { sendPaymentRefunded: vi.fn() };
+const getProviderCredentials = vi.fn();
+
+vi.mock('../../data/repositories/payment-refund-repository', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../data/repositories/payment-refund-repository')>()),
+  PaymentRefundRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+vi.mock('@/modules/multilevel/services/commission-clawback-service', () => ({
+  CommissionClawbackService: vi.fn().mockImplementation(function () {
+    return clawbacks;
+  }),
+}));
+
+vi.mock('@/modules/payments/services/payment-notification-service', () => ({
+  PaymentNotificationService: vi.fn().mockImplementation(function () {
+    return notifications;
+  }),
+}));
+
+vi.mock('@/modules/payments/services/gateway-credentials-service', () => ({
+  GatewayCredentialsService: {
+    getProviderCredentials: (...args: unknown[]) => getProviderCredentials(...args),
+  },
+}));
+
+const orderRow = (overrides: Partial<OrderPaymentRow> = {}): OrderPaymentRow => ({
+  id: 'order-1',
+  user_id: 'member-1',
+  status: 'paid',
+  total_cents: 5000,
+  currency: 'usd',
+  gateway: 'stripe',
+  gateway_transaction_id: 'cs_test_123',
+  locale: 'es',
+  created_at: '2026-10-19T10:00:00.000Z',
+  customer: { name: 'Ana', email: 'ana@example.com' },
+  items: [
+    { id: 'item-1', qty: 2, price_cents: 1500, variant_label: null, product: { name: 'Tea' } },
+    { id: 'item-2', qty: 1, price_cents: 2000, variant_label: 'Large', product: { name: 'Mug' } },
+  ],
+  refunds: [],
+  ...overrides,
+});
+
+const ledgerRow = (overrides: Partial<LedgerPaymentRow> = {}): LedgerPaymentRow => ({
+  id: 'payment-1',
+  user_id: 'member-1',
+  status: 'paid',
+  amount_cents: 3000,
+  currency: 'usd',
+  gateway: 'paypal',
+  gateway_ref: 'CAPTURE-1',
+  created_at: '2026-10-18T10:00:00.000Z',
+  customer: { name: 'Ana', email: 'ana@example.com' },
+  refunds: [],
+  ...overrides,
+});
+
+const refundRow = (overrides: Partial<PaymentRefundRow> = {}): PaymentRefundRow => ({
+  id: 'refund-1',
+  order_id: 'order-1',
+  payment_id: null,
+  user_id: 'member-1',
+  gateway: 'stripe',
+  amount_cents: 5000,
+  currency: 'USD',
+  reason: null,
+  status: 'pending',
+  gateway_refund_id: null,
+  error: null,
+  created_at: '2026-10-19T12:00:00.000Z',
+  ...overrides,
+});
+
+const buildPlugin = (name: string, credentialFields = { production: ['secret_key'], test: ['secret_key'] }) =>
+  ({
+    config: { name, displayName: name, apiEndpoint: '', requiresRedirect: true, credentialFields },
+    refundPayment: vi.fn().mockResolvedValue({ refundId: `re_${name}`, status: 'completed' }),
+  }) as unknown as PaymentPlugin & { refundPayment: ReturnType<typeof vi.fn> };
+
+describe('PaymentRefundService', () => {
+  let plugins: Record<string, PaymentPlugin & { refundPayment: ReturnType<typeof vi.fn> }>;
+  let service: PaymentRefundService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    plugins = {
+      stripe: buildPlugin('stripe'),
+      paypal: buildPlugin('paypal'),
+      wallet: buildPlugin('wallet', { production: [], test: [] }),
+    };
+    service = new PaymentRefundService({} as SupabaseClient, (gateway) => plugins[gateway] ?? null);
+
+    getProviderCredentials.mockResolvedValue({ credentials: { secret_key: 'sk_test' }, requestedEnvironment: 'test' });
+    repository.begin.mockImplementation(async (input: { amountCents: number; reason: string | null; lines: { orderItemId: string; amountCents: number }[] }) => ({
+      ...refundRow({ amount_cents: input.amountCents, reason: input.reason }),
+      lines: input.lines.map((line) => ({ order_item_id: line.orderItemId, amount_cents: line.amountCents })),
+    }));
+    repository.complete.mockImplementation(async (id: string, gatewayRefundId: string) => ({
+      ...refundRow({ id, status: 'succeeded', gateway_refund_id: gatewayRefundId }),
+    }));
+  });
+
+  it('refunds the remaining amount of an order through its gateway plugin', async () => {
+    repository.findOrder.mockResolvedValue(
+      orderRow({ refunds: [{ status: 'succeeded', amount_cents: 1500, lines: [{ order_item_id: 'item-1', amount_cents: 1500 }] }] }),
+    );
+
+    const refund = await service.refund({ kind: 'order', id: 'order-1', reason: 'Damaged in transit' }, 'admin-1');
+
+    expect(repository.begin).toHaveBeenCalledWith(expect.objectContaining({ kind: 'order', paymentId: 'order-1', amountCents: 3500, createdBy: 'admin-1' }));
+    expect(plugins.stripe.refundPayment).toHaveBeenCalledWith(
+      'cs_test_123',
+      35,
+      'Damaged in transit',
+      { secret_key: 'sk_test' },
+      expect.objectContaining({ currency: 'USD', idempotencyKey: 'payment-refund-refund-1', isTest: true, userId: 'member-1' }),
+    );
+    expect(repository.complete).toHaveBeenCalledWith('refund-1', 're_stripe');
+    expect(clawbacks.clawbackOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: 'order-1', reason: 'refund', refundedCents: 5000, externalReference: 're_stripe' }),
+    );
+    expect(notifications.sendPaymentRefunded).toHaveBeenCalledWith(
+      expect.objectContaining({ userEmail: 'ana@example.com', amountCents: 3500, fullyRefunded: true, locale: 'es' }),
+    );
+    expect(refund).toMatchObject({ status: 'succeeded', gatewayRefundId: 're_stripe', kind: 'order' });
+  });
+
+  it('refunds order lines for the sum of their amounts', async () => {
+    repository.findOrder.mockResolvedValue(orderRow());
+
+    const refund = await service.refund(
+      {
+        kind: 'order',
+        id: 'order-1',
+        lines: [
+          { orderItemId: 'item-1', amountCents: 1500 },
+          { orderItemId: 'item-2', amountCents: 500 },
+        ],
+      },
+      'admin-1',
+    );
+
+    expect(repository.begin).toHaveBeenCalledWith(expect.objectContaining({ amountCents: 2000 }));
+    expect(plugins.stripe.refundPayment).toHaveBeenCalledWith('cs_test_123', 20, undefined, expect.anything(), expect.anything());
+    expect(notifications.sendPaymentRefunded).toHaveBeenCalledWith(expect.objectContaining({ fullyRefunded: false }));
+    expect(refund.lines).toEqual([
+      { orderItemId: 'item-1', amountCents: 1500 },
+      { orderItemId: 'item-2', amountCents: 500 },
+    ]);
+  });
+
+  it('refunds a return as wallet credit in the ledger of the order', async () => {
+    repository.findOrder.mockResolvedValue(orderRow());
+
+    await service.refund(
+      { kind: 'order', id: 'order-1', lines: [{ orderItemId: 'item-1', amountCents: 1500 }], reason: 'RMA-1' },
+      'admin-1',
+      { orderReturnId: 'ret-1', toWallet: true, metadata: { rma_number: 'RMA-1' } },
+    );
+
+    expect(repository.begin).toHaveBeenCalledWith(
+      expect.objectContaining({ amountCents: 1500, orderReturnId: 'ret-1', gateway: 'wallet' }),
+    );
+    expect(plugins.stripe.refundPayment).not.toHaveBeenCalled();
+    expect(plugins.wallet.refundPayment).toHaveBeenCalledWith(
+      'cs_test_123',
+      15,
+      'RMA-1',
+      {},
+      expect.objectContaining({
+        idempotencyKey: 'order-return-ret-1',
+        metadata: expect.objectContaining({ rma_number: 'RMA-1', order_return_id: 'ret-1', order_id: 'order-1' }),
+      }),
+    );
+    expect(clawbacks.clawbackOrder).toHaveBeenCalledWith(expect.objectContaining({ orderId: 'order-1', refundedCents: 1500 }));
+    expect(notifications.sendPaymentRefunded).not.toHaveBeenCalled();
+  });
+
+  it('refunds a ledger payment without touching commissions', async () => {
+    repository.findLedgerPayment.mockResolvedValue(ledgerRow());
+
+    await service.refund({ kind: 'subscription', id: 'payment-1', amountCents: 1000 }, 'admin-1');
+
+    expect(plugins.paypal.refundPayment).toHaveBeenCalledWith('CAPTURE-1', 10, undefined, expect.anything(), expect.anything());
+    expect(clawbacks.clawbackOrder).not.toHaveBeenCalled();
+    expect(notifications.sendPaymentRefunded).toHaveBeenCalledWith(expect.objectContaining({ locale: null }));
+  });
+
+  it('refunds wallet orders without gateway credentials', async () => {
+    repository.findOrder.mockResolvedValue(orderRow({ gateway: 'wallet', gateway_transaction_id: null }));
+
+    await service.refund({ kind: 'order', id: 'order-1', amountCents: 1000 }, 'admin-1');
+
+    expect(getProviderCredentials).not.toHaveBeenCalled();
+    expect(plugins.wallet.refundPayment).toHaveBeenCalledWith('order-1', 10, undefined, {}, expect.objectContaining({ userId: 'member-1' }));
+  });
+
+  it('releases the refund when the gateway rejects it', async () => {
+    repository.findOrder.mockResolvedValue(orderRow());
+    plugins.stripe.refundPayment.mockRejectedValue(new Error('charge_already_refunded'));
+
+    await expect(service.refund({ kind: 'order', id: 'order-1' }, 'admin-1')).rejects.toMatchObject({ code: 'REFUND_FAILED' });
+    expect(repository.fail).toHaveBeenCalledWith('refund-1', 'charge_already_refunded');
+    expect(repository.complete).not.toHaveBeenCalled();
+    expect(notifications.sendPaymentRefunded).not.toHaveBeenCalled();
+  });
+
+  it('maps refundable amount errors of the database', async () => {
+    repository.findOrder.mockResolvedValue(orderRow());
+    repository.begin.mockRejectedValue({ message: 'refund_line_exceeded: item-1' });
+
+    await expect(
+      service.refund({ kind: 'order', id: 'order-1', lines: [{ orderItemId: 'item-1', amountCents: 9000 }] }, 'admin-1'),
+    ).rejects.toMatchObject({ code: 'REFUND_LINE_EXCEEDED' });
+    expect(plugins.stripe.refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('refuses gateways without a refund plugin', async () => {
+    repository.findOrder.mockResolvedValue(orderRow({ gateway: 'manual' }));
+
+    await expect(service.refund({ kind: 'order', id: 'order-1' }, 'admin-1')).rejects.toMatchObject({ code: 'REFUND_UNAVAILABLE' });
+    expect(repository.begin).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown payments', async () => {
+    repository.findLedgerPayment.mockResolvedValue(null);
+
+    await expect(service.refund({ kind: 'subscription', id: 'missing' }, 'admin-1')).rejects.toBeInstanceOf(PaymentRefundError);
+  });
+
+  it('lists orders and ledger payments by refund state', async () => {
+    repository.listOrders.mockResolvedValue([
+      orderRow(),
+      orderRow({ id: 'order-2', refunds: [{ status: 'succeeded', amount_cents: 1000, lines: [] }] }),
+    ]);
+    repository.listLedgerPayments.mockResolvedValue([ledgerRow({ refunds: [{ status: 'failed', amount_cents: 3000, lines: [] }] })]);
+
+    const partial = await service.list({ state: 'partially_refunded', limit: 50 });
+    const paid = await service.list({ state: 'paid', limit: 50 });
+
+    expect(partial.map((payment) => payment.id)).toEqual(['order-2']);
+    expect(paid.map((payment) => payment.id)).toEqual(['order-1', 'payment-1']);
+  });
+});
@@ -0,0 +1,290 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PaymentPlugin } from '@/modules/payments/core/payment-plugin.interface';
+import { GatewayCredentialsService } from '@/modules/payments/services/gateway-credentials-service';
+import { PaymentNotificationService } from '@/modules/payments/services/payment-notification-service';
+import type { PaymentProvider } from '@/modules/payments/domain/models/payment-gateway';
+import { CommissionClawbackService } from '@/modules/multilevel/services/commission-clawback-service';
+import {
+  PaymentRefundRepository,
+  getPaymentCustomer,
+  toLedgerPayment,
+  toOrderPayment,
+  toPaymentRefund,
+  type LedgerPaymentRow,
+  type OrderPaymentRow,
+} from '../data/repositories/payment-refund-repository';
+import type {
+  PaymentRefund,
+  PaymentRefundInput,
+  RefundablePayment,
+  RefundablePaymentFilters,
+} from '../domain/models/payment-refund';
+
+export type PaymentRefundErrorCode =
+  | 'PAYMENT_NOT_FOUND'
+  | 'PAYMENT_NOT_REFUNDABLE'
+  | 'REFUND_UNAVAILABLE'
+  | 'REFUND_AMOUNT_EXCEEDED'
+  | 'REFUND_LINE_EXCEEDED'
+  | 'REFUND_FAILED';
+
+export class PaymentRefundError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PaymentRefundErrorCode,
+  ) {
+    super(message);
+    this.name = 'PaymentRefundError';
+  }
+}
+
+export const PAYMENT_REFUND_ERROR_STATUS: Record<PaymentRefundErrorCode, number> = {
+  PAYMENT_NOT_FOUND: 404,
+  PAYMENT_NOT_REFUNDABLE: 409,
+  REFUND_UNAVAILABLE: 409,
+  REFUND_AMOUNT_EXCEEDED: 400,
+  REFUND_LINE_EXCEEDED: 400,
+  REFUND_FAILED: 502,
+};
+
+/**
+ * Payment plugin of a gateway, or null when no plugin is registered for it
+ */
+export type RefundPluginResolver = (gateway: string) => PaymentPlugin | null;
+
+/**
+ * Refund of an order return (RMA) through the same ledger as admin refunds
+ */
+export interface OrderReturnRefundOptions {
+  orderReturnId: string;
+  /** Refund as wallet credit instead of through the gateway of the order */
+  toWallet: boolean;
+  /** Added to the gateway metadata */
+  metadata?: Record<string, string>;
+}
+
+type PaymentRow = { kind: 'order'; row: OrderPaymentRow } | { kind: 'subscription'; row: LedgerPaymentRow };
+
+/**
+ * Admin refunds of store orders and of ledger payments. The refund goes through the refundPayment
+ * operation of the plugin of the original gateway: it is recorded as pending first, with the
+ * payment locked, so concurrent refunds cannot exceed the amount paid, and released when the
+ * gateway rejects it. Gateways receive the refund id as idempotency key. Order refunds reverse the
+ * commissions of the refunded amount, and the customer gets the PAYMENT_REFUNDED email.
+ *
+ * Refunds of returns go through here too, so an order has one refund ledger and one refunded
+ * total whether the money was returned by an admin refund or by a return.
+ */
+export class PaymentRefundService {
+  private readonly refunds: PaymentRefundRepository;
+  private readonly clawbacks: CommissionClawbackService;
+  private readonly notifications: PaymentNotificationService;
+
+  constructor(
+    client: SupabaseClient,
+    private readonly resolvePlugin: RefundPluginResolver,
+  ) {
+    this.refunds = new PaymentRefundRepository(client);
+    this.clawbacks = new CommissionClawbackService(client);
+    this.notifications = new PaymentNotificationService(client);
+  }
+
+  async list(filters: RefundablePaymentFilters): Promise<RefundablePayment[]> {
+    const [orders, ledger] = await Promise.all([
+      filters.kind === 'subscription' ? [] : this.refunds.listOrders(filters.limit),
+      filters.kind === 'order' ? [] : this.refunds.listLedgerPayments(filters.limit),
+    ]);
+
+    return [...orders.map(toOrderPayment), ...ledger.map(toLedgerPayment)]
+      .filter((payment) => !filters.state || payment.state === filters.state)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filters.limit);
+  }
+
+  /**
+   * @param orderReturn - Set when the refund pays a return; the return sends its own email, so the
+   *   PAYMENT_REFUNDED email is skipped
+   */
+  async refund(input: PaymentRefundInput, adminId: string, orderReturn?: OrderReturnRefundOptions): Promise<PaymentRefund> {
+    const payment = await this.getPayment(input);
+    const model = payment.kind === 'order' ? toOrderPayment(payment.row) : toLedgerPayment(payment.row);
+    const gateway = orderReturn?.toWallet ? 'wallet' : model.gateway;
+    const plugin = gateway ? this.resolvePlugin(gateway) : null;
+
+    if (!plugin?.refundPayment || (gateway !== 'wallet' && !model.gatewayRef)) {
+      throw new PaymentRefundError(`Payments made with ${gateway ?? 'this gateway'} cannot be refunded from the admin`, 'REFUND_UNAVAILABLE');
+    }
+
+    const lines = input.lines ?? [];
+    const amountCents = lines.length > 0
+      ? lines.reduce((total, line) => total + line.amountCents, 0)
+      : input.amountCents ?? model.amountCents - model.refundedCents;
+
+    if (amountCents <= 0) {
+      throw new PaymentRefundError('The payment is already fully refunded', 'REFUND_AMOUNT_EXCEEDED');
+    }
+
+    let refund;
+
+    try {
+      refund = await this.refunds.begin({
+        kind: model.kind,
+        paymentId: model.id,
+        amountCents,
+        lines,
+        reason: input.reason?.trim() || null,
+        createdBy: adminId,
+        orderReturnId: orderReturn?.orderReturnId ?? null,
+        gateway: gateway === model.gateway ? null : gateway,
+      });
+    } catch (error) {
+      throw this.toPaymentRefundError(error);
+    }
+
+    let gatewayRefundId: string;
+
+    try {
+      const { credentials, isTest } = await this.getCredentials(plugin);
+      const response = await plugin.refundPayment(model.gatewayRef ?? model.id, amountCents / 100, refund.reason ?? undefined, credentials, {
+        currency: model.currency,
+        // A return keeps its key across attempts, so retrying a refund the gateway did take is safe
+        idempotencyKey: orderReturn ? `order-return-${orderReturn.orderReturnId}` : `payment-refund-${refund.id}`,
+        isTest,
+        userId: model.userId,
+        metadata: {
+          ...orderReturn?.metadata,
+          payment_refund_id: refund.id,
+          [model.kind === 'order' ? 'order_id' : 'payment_id']: model.id,
+          ...(orderReturn ? { order_return_id: orderReturn.orderReturnId } : {}),
+        },
+      });
+
+      if (response.status === 'failed') {
+        throw new Error(`${plugin.config.displayName} rejected the refund`);
+      }
+
+      gatewayRefundId = response.refundId;
+    } catch (error) {
+      console.error(`[PaymentRefundService] Refund ${refund.id} of ${model.kind} ${model.id} failed:`, error);
+      await this.refunds.fail(refund.id, error instanceof Error ? error.message : String(error));
+      throw new PaymentRefundError('The refund could not be processed', 'REFUND_FAILED');
+    }
+
+    const completed = { ...(await this.refunds.complete(refund.id, gatewayRefundId)), lines: refund.lines };
+    const refundedCents = model.refundedCents + amountCents;
+
+    if (payment.kind === 'order') {
+      await this.adjustCommissions(payment.row, refundedCents, gatewayRefundId);
+    }
+
+    if (!orderReturn) {
+      await this.notify(payment, completed.created_at, amountCents, model.currency, gatewayRefundId, completed.reason, refundedCents >= model.amountCents);
+    }
+
+    return toPaymentRefund(completed);
+  }
+
+  private async getPayment(input: PaymentRefundInput): Promise<PaymentRow> {
+    if (input.kind === 'order') {
+      const row = await this.refunds.findOrder(input.id);
+      if (row) {
+        return { kind: 'order', row };
+      }
+    } else {
+      const row = await this.refunds.findLedgerPayment(input.id);
+      if (row) {
+        return { kind: 'subscription', row };
+      }
+    }
+
+    throw new PaymentRefundError('Payment not found', 'PAYMENT_NOT_FOUND');
+  }
+
+  /**
+   * Credentials in the mode configured for the gateway. Plugins without credential fields, like
+   * the wallet, need none
+   */
+  private async getCredentials(plugin: PaymentPlugin): Promise<{ credentials: Record<string, string | undefined>; isTest: boolean }> {
+    const { production, test } = plugin.config.credentialFields;
+
+    if (production.length === 0 && test.length === 0) {
+      return { credentials: {}, isTest: false };
+    }
+
+    const { credentials, requestedEnvironment } = await GatewayCredentialsService.getProviderCredentials(
+      plugin.config.name as PaymentProvider,
+      'auto',
+    );
+
+    return { credentials: credentials as Record<string, string | undefined>, isTest: requestedEnvironment === 'test' };
+  }
+
+  /**
+   * Reverses the commissions of everything refunded on the order, returns included. The clawback
+   * works from the cumulative amount of the refund ledger, so it agrees with the gateway refund
+   * webhooks.
+   */
+  private async adjustCommissions(row: OrderPaymentRow, refundedCents: number, reference: string): Promise<void> {
+    try {
+      await this.clawbacks.clawbackOrder({
+        orderId: row.id,
+        reason: 'refund',
+        refundedCents,
+        externalReference: reference,
+        locale: row.locale,
+      });
+    } catch (error) {
+      console.error(`[PaymentRefundService] Failed to adjust commissions of order ${row.id}:`, error);
+    }
+  }
+
+  /**
+   * The email never blocks the refund
+   */
+  private async notify(
+    payment: PaymentRow,
+    refundedAt: string,
+    amountCents: number,
+    currency: string,
+    transactionId: string,
+    reason: string | null,
+    fullyRefunded: boolean,
+  ): Promise<void> {
+    const customer = getPaymentCustomer(payment.row);
+
+    if (!customer?.email) {
+      return;
+    }
+
+    await this.notifications.sendPaymentRefunded({
+      userEmail: customer.email,
+      userName: customer.name || 'Customer',
+      amountCents,
+      currency,
+      refundedAt,
+      transactionId,
+      reason,
+      fullyRefunded,
+      locale: payment.kind === 'order' ? payment.row.locale : null,
+    });
+  }
+
+  private toPaymentRefundError(error: unknown): unknown {
+    const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? '');
+
+    if (message.includes('payment_not_found')) {
+      return new PaymentRefundError('Payment not found', 'PAYMENT_NOT_FOUND');
+    }
+    if (message.includes('payment_not_refundable')) {
+      return new PaymentRefundError('Only paid payments can be refunded', 'PAYMENT_NOT_REFUNDABLE');
+    }
+    if (message.includes('refund_amount_exceeded')) {
+      return new PaymentRefundError('The refund exceeds what is still refundable on this payment', 'REFUND_AMOUNT_EXCEEDED');
+    }
+    if (message.includes('refund_line_exceeded') || message.includes('order_item_not_found')) {
+      return new PaymentRefundError('The refund exceeds what is still refundable on an order line', 'REFUND_LINE_EXCEEDED');
+    }
+
+    return error;
+  }
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import type { Locale } from '@/i18n/config';
+import {
+  PAYMENT_REFUND_STATES,
+  type PaymentRefund,
+  type PaymentRefundInput,
+  type PaymentRefundState,
+  type PaymentRefundsDictionary,
+  type RefundablePayment,
+  type RefundablePaymentKind,
+} from '../domain/models/payment-refund';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface PaymentRefundsViewProps {
+  dictionary: PaymentRefundsDictionary;
+  lang: Locale;
+  kind?: RefundablePaymentKind;
+  state: PaymentRefundState | null;
+  payments: RefundablePayment[];
+  loading: boolean;
+  error: string | null;
+  submitting: boolean;
+  onStateChange: (state: PaymentRefundState | null) => void;
+  onRefresh: () => void;
+  onRefund: (input: PaymentRefundInput) => Promise<PaymentRefund>;
+}
+
+const ALL_STATES = 'all';
+
+const STATE_BADGE: Record<PaymentRefundState, string> = {
+  paid: 'bg-sky-100 text-sky-900 dark:bg-sky-500/20 dark:text-sky-100',
+  partially_refunded: 'bg-amber-100 text-amber-900 dark:bg-amber-500/20 dark:text-amber-100',
+  refunded: 'bg-emerald-100 text-emerald-900 dark:bg-emerald-500/20 dark:text-emerald-100',
+};
+
+const formatMoney = (cents: number, currency: string, locale: Locale) => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(cents / 100);
+  } catch (_error) {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+const toCents = (value: string) => Math.round(Number.parseFloat(value) * 100);
+
+/**
+ * Paid orders and ledger payments with their refund state. A refund covers an amount of the
+ * payment or, for orders, an amount per order line, and goes back through the original gateway
+ */
+export const PaymentRefundsView = ({
+  dictionary,
+  lang,
+  kind,
+  state,
+  payments,
+  loading,
+  error,
+  submitting,
+  onStateChange,
+  onRefresh,
+  onRefund,
+}: PaymentRefundsViewProps) => {
+  const { toast } = useToast();
+  const [refunding, setRefunding] = useState<RefundablePayment | null>(null);
+  const [amount, setAmount] = useState('');
+  const [lineAmounts, setLineAmounts] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const openRefund = (payment: RefundablePayment) => {
+    setRefunding(payment);
+    setAmount(((payment.amountCents - payment.refundedCents) / 100).toFixed(2));
+    setLineAmounts({});
+    setReason('');
+    setFormError(null);
+  };
+
+  const filledLines = Object.entries(lineAmounts).filter(([, value]) => value.trim() !== '');
+
+  const handleRefund = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!refunding) return;
+
+    const lines = filledLines.map(([orderItemId, value]) => ({ orderItemId, amountCents: toCents(value) }));
+    const amountCents = toCents(amount);
+
+    if (
+      lines.some((line) => !Number.isFinite(line.amountCents) || line.amountCents <= 0) ||
+      (lines.length === 0 && (!Number.isFinite(amountCents) || amountCents <= 0))
+    ) {
+      setFormError(dictionary.form.invalidAmount);
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await onRefund({
+        kind: refunding.kind,
+        id: refunding.id,
+        ...(lines.length > 0 ? { lines } : { amountCents }),
+        reason: reason.trim() || null,
+      });
+      toast({ title: dictionary.success.refunded });
+      setRefunding(null);
+    } catch (refundError) {
+      setFormError(refundError instanceof Error ? refundError.message : dictionary.error.title);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">
+            {kind === 'order' ? dictionary.ordersTitle : dictionary.title}
+          </h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-300">
+            {kind === 'order' ? dictionary.ordersDescription : dictionary.description}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={state ?? ALL_STATES}
+            onValueChange={(value) => onStateChange(value === ALL_STATES ? null : (value as PaymentRefundState))}
+          >
+            <SelectTrigger className="w-48" aria-label={dictionary.filters.state}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATES}>{dictionary.filters.all}</SelectItem>
+              {PAYMENT_REFUND_STATES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {dictionary.states[option] ?? option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={onRefresh} disabled={loading}>
+            {dictionary.refresh}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-rose-200 bg-rose-50 dark:border-rose-500/30 dark:bg-rose-500/10">
+          <CardHeader>
+            <CardTitle className="text-rose-900 dark:text-rose-100">{dictionary.error.title}</CardTitle>
+            <CardDescription className="text-rose-700 dark:text-rose-200">{error}</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={onRefresh}>{dictionary.error.retry}</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {loading && payments.length === 0 ? (
+        <div className="h-32 animate-pulse rounded-xl bg-zinc-200/60 dark:bg-zinc-800/60" />
+      ) : payments.length === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">{dictionary.empty}</p>
+      ) : (
+        <Card className="border-primary/15 bg-white/60 dark:border-primary/20 dark:bg-zinc-900/40">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{dictionary.table.payment}</TableHead>
+                  <TableHead>{dictionary.table.customer}</TableHead>
+                  <TableHead>{dictionary.table.gateway}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.amount}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.refunded}</TableHead>
+                  <TableHead>{dictionary.table.state}</TableHead>
+                  <TableHead className="text-right">{dictionary.table.actions}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map((payment) => (
+                  <TableRow key={`${payment.kind}-${payment.id}`}>
+                    <TableCell>
+                      <p className="font-mono text-xs">{payment.id.substring(0, 8).toUpperCase()}</p>
+                      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                        {dictionary.kinds[payment.kind] ?? payment.kind} · {new Date(payment.createdAt).toLocaleDateString(lang)}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <p>{payment.customerName ?? '—'}</p>
+                      {payment.customerEmail && (
+                        <p className="text-xs text-zinc-500 dark:text-zinc-400">{payment.customerEmail}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{payment.gateway ?? '—'}</TableCell>
+                    <TableCell className="text-right">{formatMoney(payment.amountCents, payment.currency, lang)}</TableCell>
+                    <TableCell className="text-right">
+                      {payment.refundedCents > 0 ? formatMoney(payment.refundedCents, payment.currency, lang) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATE_BADGE[payment.state]}>{dictionary.states[payment.state] ?? payment.state}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        onClick={() => openRefund(payment)}
+                        disabled={payment.state === 'refunded' || payment.refundedCents >= payment.amountCents}
+                      >
+                        {dictionary.actions.refund}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={Boolean(refunding)} onOpenChange={(open) => !open && setRefunding(null)}>
+        <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {dictionary.form.title}
+              {refunding ? ` · ${refunding.id.substring(0, 8).toUpperCase()}` : ''}
+            </DialogTitle>
+            <DialogDescription>{dictionary.form.description}</DialogDescription>
+          </DialogHeader>
+          {refunding && (
+            <form className="space-y-4" onSubmit={handleRefund}>
+              <p className="text-sm text-zinc-600 dark:text-zinc-300">
+                {dictionary.form.remaining}:{' '}
+                {formatMoney(refunding.amountCents - refunding.refundedCents, refunding.currency, lang)}
+              </p>
+              {refunding.lines.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{dictionary.form.lines}</p>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.form.linesHint}</p>
+                  {refunding.lines.map((line) => {
+                    const remainingCents = line.amountCents - line.refundedCents;
+                    return (
+                      <div key={line.orderItemId} className="flex items-center justify-between gap-3">
+                        <label className="text-sm" htmlFor={`payment-refund-line-${line.orderItemId}`}>
+                          {line.variantLabel ? `${line.productName} (${line.variantLabel})` : line.productName} × {line.quantity}
+                          <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+                            {formatMoney(remainingCents, refunding.currency, lang)}
+                          </span>
+                        </label>
+                        <Input
+                          id={`payment-refund-line-${line.orderItemId}`}
+                          className="w-32"
+                          type="number"
+                          step="0.01"
+                          min={0.01}
+                          max={remainingCents / 100}
+                          disabled={remainingCents <= 0}
+                          value={lineAmounts[line.orderItemId] ?? ''}
+                          onChange={(event) =>
+                            setLineAmounts((current) => ({ ...current, [line.orderItemId]: event.target.value }))
+                          }
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {filledLines.length === 0 && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor="payment-refund-amount">
+                    {dictionary.form.amount} ({refunding.currency})
+                  </label>
+                  <Input
+                    id="payment-refund-amount"
+                    type="number"
+                    step="0.01"
+                    min={0.01}
+                    max={(refunding.amountCents - refunding.refundedCents) / 100}
+                    value={amount}
+                    onChange={(event) => setAmount(event.target.value)}
+                    required
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-zinc-900 dark:text-zinc-100" htmlFor="payment-refund-reason">
+                  {dictionary.form.reason}
+                </label>
+                <Textarea
+                  id="payment-refund-reason"
+                  value={reason}
+                  maxLength={500}
+                  placeholder={dictionary.form.reasonPlaceholder}
+                  onChange={(event) => setReason(event.target.value)}
+                />
+              </div>
+              {formError && <p className="text-sm text-rose-600 dark:text-rose-300">{formError}</p>}
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" onClick={() => setRefunding(null)}>
+                  {dictionary.actions.cancel}
+                </Button>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? dictionary.actions.submitting : dictionary.actions.refund}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { CheckoutCartError } from '@/modules/orders/services/checkout-cart-service';
+import { StockError } from '@/modules/products/services/stock-service';
+import { MercadoPagoCheckoutService } from '../mercadopago-checkout-service';
+
+const carts = { priceCheckout: vi.fn(), assertTotal: vi.fn() };
+const stock = { reserveForCheckout: vi.fn(), release: vi.fn() };
+const promotions = { release: vi.fn() };
+
+vi.mock('@/modules/orders/services/checkout-cart-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/modules/orders/services/checkout-cart-service')>()),
+  CheckoutCartService: vi.fn().mockImplementation(function () {
+    return carts;
+  }),
+}));
+
+vi.mock('@/modules/products/services/stock-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/modules/products/services/stock-service')>()),
+  StockService: vi.fn().mockImplementation(function () {
+    return stock;
+  }),
+}));
+
+vi.mock('@/modules/orders/promotions/services/promotion-service', () => ({
+  PromotionService: vi.fn().mockImplementation(function () {
+    return promotions;
+  }),
+}));
+
+const cartItems = [{ productId: 'product-1', quantity: 2, priceCents: 2500 }];
+
+const checkoutInput = {
+  userId: 'member-1',
+  amountCents: 4500,
+  cartItems,
+  metadata: { promotionCode: 'WELCOME' },
+};
+
+const createClient = () => {
+  const single = vi.fn().mockResolvedValue({
+    data: {
+      id: 'checkout-1',
+      user_id: 'member-1',
+      status: 'pending',
+      currency: 'USD',
+      total_cents: 4500,
+      cart_items: cartItems,
+      metadata: { userId: 'member-1' },
+      order_id: null,
+      expires_at: '2026-10-19T10:30:00.000Z',
+    },
+    error: null,
+  });
+  const insert = vi.fn().mockReturnValue({ select: vi.fn().mockReturnValue({ single }) });
+  const client = { from: vi.fn().mockReturnValue({ insert }) } as unknown as SupabaseClient;
+
+  return { client, insert };
+};
+
+describe('MercadoPagoCheckoutService.openCheckout', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    carts.priceCheckout.mockResolvedValue({
+      currency: 'USD',
+      items: cartItems,
+      promotion: { reservationKey: 'promo-reservation-1' },
+      totalCents: 4500,
+      metadata: { promotionCode: 'WELCOME', discountCents: 500 },
+    });
+    carts.assertTotal.mockReturnValue(undefined);
+    stock.reserveForCheckout.mockResolvedValue({ expiresAt: '2026-10-19T10:30:00.000Z' });
+    stock.release.mockResolvedValue(1);
+    promotions.release.mockResolvedValue(undefined);
+  });
+
+  it('stores the checkout priced on the server with its stock reserved', async () => {
+    const { client, insert } = createClient();
+
+    const result = await new MercadoPagoCheckoutService(client).openCheckout(checkoutInput);
+
+    const checkoutId = stock.reserveForCheckout.mock.calls[0][0];
+    expect(stock.reserveForCheckout).toHaveBeenCalledWith(checkoutId, 'member-1', cartItems);
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      id: checkoutId,
+      user_id: 'member-1',
+      total_cents: 4500,
+      metadata: { promotionCode: 'WELCOME', discountCents: 500, userId: 'member-1' },
+      expires_at: '2026-10-19T10:30:00.000Z',
+    }));
+    expect(result.promotionReservationKey).toBe('promo-reservation-1');
+    expect(promotions.release).not.toHaveBeenCalled();
+  });
+
+  it('releases the promotion when the total does not match the server total', async () => {
+    const { client, insert } = createClient();
+    carts.assertTotal.mockImplementation(() => {
+      throw new CheckoutCartError('Total amount mismatch. Please refresh your cart.', 'TOTAL_MISMATCH', 4500);
+    });
+
+    await expect(
+      new MercadoPagoCheckoutService(client).openCheckout({ ...checkoutInput, amountCents: 100 }),
+    ).rejects.toBeInstanceOf(CheckoutCartError);
+
+    expect(promotions.release).toHaveBeenCalledWith('promo-reservation-1');
+    expect(stock.reserveForCheckout).not.toHaveBeenCalled();
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('releases the promotion when the stock cannot be reserved', async () => {
+    const { client, insert } = createClient();
+    stock.reserveForCheckout.mockRejectedValue(new StockError('Not enough stock', 'INSUFFICIENT_STOCK', 'product-1'));
+
+    await expect(new MercadoPagoCheckoutService(client).openCheckout(checkoutInput)).rejects.toBeInstanceOf(StockError);
+
+    expect(promotions.release).toHaveBeenCalledWith('promo-reservation-1');
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
@@ -20,6 +20,7 @@ type ProviderCredentialMap = {
   manual: never;
   authorize_net: Record<string, unknown>;
   payoneer: Record<string, unknown>;
+  mercadopago: Record<string, string>;
 };
 
 const toGatewayCredentials = (input: Partial<Record<string, unknown>>): PaymentGatewayCredentials => {
@@ -90,6 +91,33 @@ const mapStripeCredentials = (
   };
 };
 
+/**
+ * Credentials typed in the admin panel: the access token goes in the secret field and the public key
+ * in the publishable key field
+ */
+const mapMercadoPagoCredentials = (
+  credentials: PaymentGatewayCredentials,
+  environment: GatewayCredentialEnvironment,
+): Record<string, string> => {
+  const accessToken = environment === 'test' ? credentials.testSecret : credentials.secret;
+  const publicKey = environment === 'test' ? credentials.testPublishableKey : credentials.publishableKey;
+  const webhookSecret = environment === 'test' ? credentials.testWebhookSecret : credentials.webhookSecret;
+  const prefix = environment === 'test' ? 'test_' : '';
+
+  if (!accessToken) {
+    throw missingCredentialError('mercadopago', environment, 'secret');
+  }
+  if (!publicKey) {
+    throw missingCredentialError('mercadopago', environment, 'publishableKey');
+  }
+
+  return {
+    [`${prefix}access_token`]: accessToken,
+    [`${prefix}public_key`]: publicKey,
+    [`${prefix}webhook_secret`]: webhookSecret ?? '',
+  };
+};
+
 const mapProviderCredentials = <T extends PaymentProvider>(
   provider: T,
   credentials: PaymentGatewayCredentials,
@@ -100,6 +128,8 @@ const mapProviderCredentials = <T extends PaymentProvider>(
       return mapPayPalCredentials(credentials, environment) as ProviderCredentialMap[T];
     case 'stripe':
       return mapStripeCredentials(credentials, environment) as ProviderCredentialMap[T];
+    case 'mercadopago':
+      return mapMercadoPagoCredentials(credentials, environment) as ProviderCredentialMap[T];
     case 'wallet':
       throw new PaymentError(`Unsupported payment provider: ${provider}`, provider);
     default:
@@ -231,11 +261,13 @@ export class GatewayCredentialsService {
       return {
         test_api_login_id: process.env.AUTHORIZE_NET_TEST_API_LOGIN_ID || '',
         test_transaction_key: process.env.AUTHORIZE_NET_TEST_TRANSACTION_KEY || '',
+        test_signature_key: process.env.AUTHORIZE_NET_TEST_SIGNATURE_KEY || '',
       };
     }
     return {
       api_login_id: process.env.AUTHORIZE_NET_API_LOGIN_ID || '',
       transaction_key: process.env.AUTHORIZE_NET_TRANSACTION_KEY || '',
+      signature_key: process.env.AUTHORIZE_NET_SIGNATURE_KEY || '',
     };
   }
 
@@ -257,6 +289,24 @@ export class GatewayCredentialsService {
     };
   }
 
+  /**
+   * Read Mercado Pago credentials from environment variables based on mode
+   */
+  private static getMercadoPagoCredentialsFromEnv(mode: 'production' | 'test'): Record<string, string> {
+    if (mode === 'test') {
+      return {
+        test_access_token: process.env.MERCADOPAGO_TEST_ACCESS_TOKEN || '',
+        test_public_key: process.env.MERCADOPAGO_TEST_PUBLIC_KEY || '',
+        test_webhook_secret: process.env.MERCADOPAGO_TEST_WEBHOOK_SECRET || '',
+      };
+    }
+    return {
+      access_token: process.env.MERCADOPAGO_ACCESS_TOKEN || '',
+      public_key: process.env.MERCADOPAGO_PUBLIC_KEY || '',
+      webhook_secret: process.env.MERCADOPAGO_WEBHOOK_SECRET || '',
+    };
+  }
+
   static async getProviderCredentials<T extends PaymentProvider>(
     provider: T,
     environment: GatewayCredentialRequestEnvironment,
@@ -302,6 +352,13 @@ export class GatewayCredentialsService {
           console.log('[GatewayCredentialsService] Auto-switching Payoneer to TEST mode');
           mode = 'test';
         }
+      } else if (provider === 'mercadopago') {
+        const hasProd = !!process.env.MERCADOPAGO_ACCESS_TOKEN && !!process.env.MERCADOPAGO_PUBLIC_KEY;
+        const hasTest = !!process.env.MERCADOPAGO_TEST_ACCESS_TOKEN && !!process.env.MERCADOPAGO_TEST_PUBLIC_KEY;
+        if (!hasProd && hasTest) {
+          console.log('[GatewayCredentialsService] Auto-switching Mercado Pago to TEST mode');
+          mode = 'test';
+        }
       }
     }
 
@@ -324,6 +381,8 @@ export class GatewayCredentialsService {
       credentials = this.getAuthorizeNetCredentialsFromEnv(mode);
     } else if (provider === 'payoneer') {
       credentials = this.getPayoneerCredentialsFromEnv(mode);
+    } else if (provider === 'mercadopago') {
+      credentials = this.getMercadoPagoCredentialsFromEnv(mode);
     } else if (provider === 'wallet' || provider === 'manual') {
       // Wallet and manual don't need external credentials
       credentials = {} as ProviderCredentialMap[T];
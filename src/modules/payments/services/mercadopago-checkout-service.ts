@@ -0,0 +1,199 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { randomUUID } from 'crypto';
+import { CheckoutCartService } from '@/modules/orders/services/checkout-cart-service';
+import { PromotionService } from '@/modules/orders/promotions/services/promotion-service';
+import { StockService } from '@/modules/products/services/stock-service';
+
+export type MercadoPagoCheckoutStatus = 'pending' | 'paid';
+
+export interface MercadoPagoCheckoutItem {
+  productId: string;
+  productName?: string;
+  variantId?: string | null;
+  variantLabel?: string | null;
+  quantity: number;
+  priceCents: number;
+}
+
+export interface MercadoPagoCheckout {
+  id: string;
+  userId: string;
+  status: MercadoPagoCheckoutStatus;
+  currency: string;
+  totalCents: number;
+  cartItems: MercadoPagoCheckoutItem[];
+  metadata: Record<string, unknown>;
+  orderId: string | null;
+  expiresAt: string;
+}
+
+/**
+ * A checkout opened for a new preference, with the promotion it reserved so a failure before the
+ * buyer pays can give it back
+ */
+export interface OpenedMercadoPagoCheckout {
+  checkout: MercadoPagoCheckout;
+  promotionReservationKey: string | null;
+}
+
+interface CheckoutRow {
+  id: string;
+  user_id: string;
+  status: MercadoPagoCheckoutStatus;
+  currency: string;
+  total_cents: number;
+  cart_items: MercadoPagoCheckoutItem[];
+  metadata: Record<string, unknown> | null;
+  order_id: string | null;
+  expires_at: string;
+}
+
+const toCheckout = (row: CheckoutRow): MercadoPagoCheckout => ({
+  id: row.id,
+  userId: row.user_id,
+  status: row.status,
+  currency: row.currency,
+  totalCents: Number(row.total_cents),
+  cartItems: row.cart_items ?? [],
+  metadata: row.metadata ?? {},
+  orderId: row.order_id,
+  expiresAt: row.expires_at,
+});
+
+/**
+ * Service for store checkouts paid on Mercado Pago Checkout Pro
+ *
+ * The cart is priced on the server when the preference is created and stored under the id sent
+ * as external_reference, so the payment webhook creates the order from the server amounts and
+ * never from anything the buyer sent.
+ */
+export class MercadoPagoCheckoutService {
+  private readonly carts: CheckoutCartService;
+  private readonly stock: StockService;
+  private readonly promotions: PromotionService;
+
+  constructor(private readonly client: SupabaseClient) {
+    this.carts = new CheckoutCartService(client);
+    this.stock = new StockService(client);
+    this.promotions = new PromotionService(client);
+  }
+
+  /**
+   * Price the cart on the server, check it against the total the buyer accepted, reserve its stock
+   * and store the checkout. Any failure after pricing releases the promotion the pricing reserved,
+   * and the stock once it is reserved.
+   */
+  async openCheckout(input: {
+    userId: string;
+    amountCents: number;
+    cartItems: MercadoPagoCheckoutItem[];
+    metadata: Record<string, unknown>;
+    requestedCurrency?: string | null;
+  }): Promise<OpenedMercadoPagoCheckout> {
+    const { userId } = input;
+    const priced = await this.carts.priceCheckout({
+      userId,
+      cartItems: input.cartItems,
+      metadata: input.metadata,
+      requestedCurrency: input.requestedCurrency,
+    });
+    const promotionReservationKey = priced.promotion?.reservationKey ?? null;
+    const id = randomUUID();
+
+    let reservation;
+    try {
+      this.carts.assertTotal(priced, input.amountCents);
+      reservation = await this.stock.reserveForCheckout(id, userId, priced.items);
+    } catch (error) {
+      await this.promotions.release(promotionReservationKey);
+      throw error;
+    }
+
+    try {
+      const checkout = await this.createCheckout({
+        id,
+        userId,
+        currency: priced.currency,
+        totalCents: priced.totalCents,
+        cartItems: priced.items,
+        metadata: { ...priced.metadata, userId },
+        expiresAt: reservation.expiresAt,
+      });
+
+      return { checkout, promotionReservationKey };
+    } catch (error) {
+      await this.stock.release(id);
+      await this.promotions.release(promotionReservationKey);
+      throw error;
+    }
+  }
+
+  async createCheckout(input: {
+    id: string;
+    userId: string;
+    currency: string;
+    totalCents: number;
+    cartItems: MercadoPagoCheckoutItem[];
+    metadata: Record<string, unknown>;
+    expiresAt: string;
+  }): Promise<MercadoPagoCheckout> {
+    const { data, error } = await this.client
+      .from('mercadopago_checkouts')
+      .insert({
+        id: input.id,
+        user_id: input.userId,
+        currency: input.currency.toUpperCase(),
+        total_cents: input.totalCents,
+        cart_items: input.cartItems,
+        metadata: input.metadata,
+        expires_at: input.expiresAt,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toCheckout(data as CheckoutRow);
+  }
+
+  async attachPreference(id: string, preferenceId: string): Promise<void> {
+    const { error } = await this.client
+      .from('mercadopago_checkouts')
+      .update({ preference_id: preferenceId })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async getCheckout(id: string): Promise<MercadoPagoCheckout | null> {
+    const { data, error } = await this.client
+      .from('mercadopago_checkouts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toCheckout(data as CheckoutRow) : null;
+  }
+
+  /**
+   * Close a checkout with the order created for its payment
+   */
+  async markPaid(id: string, input: { orderId: string; paymentId: string }): Promise<void> {
+    const { error } = await this.client
+      .from('mercadopago_checkouts')
+      .update({ status: 'paid', order_id: input.orderId, payment_id: input.paymentId })
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type MercadoPagoPreapprovalStatus = 'pending' | 'authorized' | 'paused' | 'cancelled';
+
+export interface MercadoPagoPreapproval {
+  id: string;
+  userId: string;
+  planId: string | null;
+  preapprovalId: string;
+  status: MercadoPagoPreapprovalStatus;
+  amountCents: number;
+  currency: string;
+  nextPaymentDate: string | null;
+  updatedAt: string;
+}
+
+interface PreapprovalRow {
+  id: string;
+  user_id: string;
+  plan_id: string | null;
+  preapproval_id: string;
+  status: MercadoPagoPreapprovalStatus;
+  amount_cents: number;
+  currency: string;
+  next_payment_date: string | null;
+  updated_at: string;
+}
+
+const toPreapproval = (row: PreapprovalRow): MercadoPagoPreapproval => ({
+  id: row.id,
+  userId: row.user_id,
+  planId: row.plan_id,
+  preapprovalId: row.preapproval_id,
+  status: row.status,
+  amountCents: Number(row.amount_cents),
+  currency: row.currency,
+  nextPaymentDate: row.next_payment_date,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Service for Mercado Pago preapprovals (recurring subscriptions)
+ *
+ * Mercado Pago charges an authorized preapproval every month by itself and notifies each charge
+ * through the subscription_authorized_payment webhook, so renewals only need to know whether the
+ * member still has an authorized preapproval.
+ *
+ * Documentation: https://www.mercadopago.com/developers/en/reference/subscriptions/_preapproval/post
+ */
+export class MercadoPagoPreapprovalService {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Store a preapproval, or update it with the state reported by Mercado Pago
+   */
+  async savePreapproval(input: {
+    userId: string;
+    planId: string | null;
+    preapprovalId: string;
+    status: MercadoPagoPreapprovalStatus;
+    amountCents: number;
+    currency: string;
+    nextPaymentDate?: string | null;
+  }): Promise<MercadoPagoPreapproval> {
+    const { data, error } = await this.client
+      .from('mercadopago_preapprovals')
+      .upsert(
+        {
+          user_id: input.userId,
+          plan_id: input.planId,
+          preapproval_id: input.preapprovalId,
+          status: input.status,
+          amount_cents: input.amountCents,
+          currency: input.currency.toUpperCase(),
+          next_payment_date: input.nextPaymentDate ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'preapproval_id' },
+      )
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toPreapproval(data as PreapprovalRow);
+  }
+
+  /**
+   * Latest authorized preapproval of a user
+   */
+  async getActivePreapproval(userId: string): Promise<MercadoPagoPreapproval | null> {
+    const { data, error } = await this.client
+      .from('mercadopago_preapprovals')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'authorized')
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toPreapproval(data as PreapprovalRow) : null;
+  }
+}
@@ -1,4 +1,5 @@
 import { sendEmail } from '@/lib/services/email-service';
+import { createEmailTemplateService, EMAIL_TEMPLATE_IDS, type TemplateLocale } from '@/modules/email-templates';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 interface PaymentReminderParams {
@@ -22,11 +23,28 @@ interface PaymentConfirmationParams {
   locale?: string;
 }
 
+interface PaymentRefundedParams {
+  userEmail: string;
+  userName: string;
+  amountCents: number;
+  currency: string;
+  refundedAt: string;
+  transactionId: string;
+  reason?: string | null;
+  /**
+   * True when the payment is now fully refunded
+   */
+  fullyRefunded: boolean;
+  locale?: string | null;
+}
+
 /**
  * Service to send payment-related email notifications
- * Handles payment reminders and payment confirmations
+ * Handles payment reminders, payment confirmations and refunds
  */
 export class PaymentNotificationService {
+  private readonly templateService = createEmailTemplateService();
+
   constructor(private readonly client: SupabaseClient) {}
 
   /**
@@ -301,5 +319,74 @@ export class PaymentNotificationService {
       // Don't throw - we don't want to fail the main operation if email fails
     }
   }
+
+  /**
+   * Send the PAYMENT_REFUNDED email, falling back to plain text when the template is not configured
+   */
+  async sendPaymentRefunded(params: PaymentRefundedParams): Promise<void> {
+    try {
+      const notificationsEnabled = await this.hasOrderNotificationsEnabled(params.userEmail);
+
+      if (!notificationsEnabled) {
+        console.log(`Refund email skipped for ${params.userEmail} - notifications disabled`);
+        return;
+      }
+
+      const locale: TemplateLocale = params.locale?.startsWith('es') ? 'es' : 'en';
+      const amount = new Intl.NumberFormat(locale === 'es' ? 'es-ES' : 'en-US', {
+        style: 'currency',
+        currency: params.currency.toUpperCase(),
+      }).format(params.amountCents / 100);
+      const refundDate = new Date(params.refundedAt).toLocaleDateString(locale === 'es' ? 'es-ES' : 'en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      });
+      const reason = params.reason?.trim() || '';
+
+      const fromName = process.env.CONTACT_FROM_NAME || 'PūrVita';
+      const fromEmail = process.env.CONTACT_FROM_EMAIL || 'noreply@purvita.com';
+      const fromAddress = `${fromName} <${fromEmail}>`;
+
+      const template = await this.templateService.getProcessedTemplate(
+        EMAIL_TEMPLATE_IDS.PAYMENT_REFUNDED,
+        {
+          userName: params.userName,
+          amount,
+          transactionId: params.transactionId,
+          refundDate,
+          reason,
+        },
+        locale,
+      );
+
+      if (template) {
+        await sendEmail({
+          from: fromAddress,
+          to: params.userEmail,
+          subject: template.subject,
+          html: template.html,
+        });
+        return;
+      }
+
+      const subject = locale === 'es'
+        ? `Reembolso ${params.fullyRefunded ? 'completo' : 'parcial'} - ${amount}`
+        : `${params.fullyRefunded ? 'Full' : 'Partial'} refund - ${amount}`;
+      const text = locale === 'es'
+        ? `Hola ${params.userName},\n\nEmitimos un reembolso de ${amount} el ${refundDate} (referencia ${params.transactionId}).${reason ? `\nMotivo: ${reason}` : ''}\n\nSegún tu banco o método de pago, puede tardar unos días en reflejarse.`
+        : `Hi ${params.userName},\n\nWe issued a refund of ${amount} on ${refundDate} (reference ${params.transactionId}).${reason ? `\nReason: ${reason}` : ''}\n\nDepending on your bank or payment method, it may take a few days to show up.`;
+
+      await sendEmail({
+        from: fromAddress,
+        to: params.userEmail,
+        subject,
+        text,
+      });
+    } catch (error) {
+      console.error('Error sending refund email:', error);
+      // Don't throw - the refund already went through
+    }
+  }
 }
 
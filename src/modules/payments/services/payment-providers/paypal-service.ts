@@ -187,4 +187,60 @@ export class PayPalService {
       clearTimeout(timeoutId);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Refunds part or all of a capture. The request id makes retries safe.
+   */
+  static async refundCapture(
+    credentials: PayPalCredentials,
+    request: { captureId: string; amountCents: number; currency: string; requestId: string; note?: string },
+  ): Promise<{ refundId: string; status: string }> {
+    const accessToken = await this.getAccessToken(credentials);
+    const baseUrl = this.getBaseUrl(credentials.client_id);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PAYMENT_CONSTANTS.TIMEOUTS.API_REQUEST);
+
+    try {
+      const refund = await this.getCircuitBreaker().execute(async () =>
+        retry(
+          async () => {
+            const response = await fetch(`${baseUrl}/v2/payments/captures/${encodeURIComponent(request.captureId)}/refund`, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${accessToken}`,
+                'PayPal-Request-Id': request.requestId,
+              },
+              body: JSON.stringify({
+                amount: {
+                  value: (request.amountCents / 100).toFixed(2),
+                  currency_code: request.currency.toUpperCase(),
+                },
+                ...(request.note ? { note_to_payer: request.note.slice(0, 255) } : {}),
+              }),
+              signal: controller.signal,
+            });
+
+            if (!response.ok) {
+              const error = new Error(`PayPal API error: ${response.status} ${response.statusText}`);
+              (error as any).status = (response as any).status;
+              (error as any).response = response;
+              throw error;
+            }
+
+            return await response.json();
+          },
+          { maxRetries: 3, initialDelay: 1000, maxDelay: 5000 },
+        ),
+      );
+
+      return { refundId: refund.id, status: refund.status };
+    } catch (error) {
+      console.error('[PayPal] Refund failed:', error);
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
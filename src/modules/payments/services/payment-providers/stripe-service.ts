@@ -116,4 +116,87 @@ export class StripeService {
       clearTimeout(timeoutId);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Refunds part or all of a payment. The reference is the one stored on the order: a checkout
+   * session, a payment intent or a charge. The idempotency key makes retries safe.
+   */
+  static async refundPayment(
+    credentials: StripeCredentials,
+    request: { reference: string; amountCents: number; idempotencyKey: string; metadata?: Record<string, string> },
+  ): Promise<{ refundId: string; status: string }> {
+    const { secret_key } = credentials;
+    const headers = {
+      'Authorization': `Bearer ${secret_key}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PAYMENT_CONSTANTS.TIMEOUTS.API_REQUEST);
+
+    try {
+      let target: Record<string, string>;
+
+      if (request.reference.startsWith('cs_')) {
+        const sessionResponse = await fetch(
+          `${PAYMENT_CONSTANTS.URLS.STRIPE.API}/v1/checkout/sessions/${encodeURIComponent(request.reference)}`,
+          { method: 'GET', headers, signal: controller.signal },
+        );
+
+        if (!sessionResponse.ok) {
+          throw new Error(`Stripe API error: ${sessionResponse.status} ${sessionResponse.statusText}`);
+        }
+
+        const session = await sessionResponse.json();
+        const paymentIntent = typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+        if (!paymentIntent) {
+          throw new Error('Stripe checkout session has no payment to refund');
+        }
+        target = { payment_intent: paymentIntent };
+      } else if (request.reference.startsWith('pi_')) {
+        target = { payment_intent: request.reference };
+      } else if (request.reference.startsWith('ch_')) {
+        target = { charge: request.reference };
+      } else {
+        throw new Error(`Unsupported Stripe payment reference: ${request.reference}`);
+      }
+
+      const body = new URLSearchParams({
+        ...target,
+        amount: String(request.amountCents),
+        reason: 'requested_by_customer',
+      });
+      Object.entries(request.metadata ?? {}).forEach(([key, value]) => body.set(`metadata[${key}]`, value));
+
+      const refund = await this.getCircuitBreaker().execute(async () =>
+        retry(
+          async () => {
+            const response = await fetch(`${PAYMENT_CONSTANTS.URLS.STRIPE.API}/v1/refunds`, {
+              method: 'POST',
+              headers: { ...headers, 'Idempotency-Key': request.idempotencyKey },
+              body,
+              signal: controller.signal,
+            });
+
+            if (!response.ok) {
+              const error = new Error(`Stripe API error: ${response.status} ${response.statusText}`) as Error & { status?: number; response?: Response };
+              error.status = response.status;
+              error.response = response;
+              throw error;
+            }
+
+            return await response.json();
+          },
+          { maxRetries: 3, initialDelay: 1000, maxDelay: 5000 },
+        ),
+      );
+
+      return { refundId: refund.id, status: refund.status };
+    } catch (error) {
+      console.error('[Stripe] Refund failed:', error);
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
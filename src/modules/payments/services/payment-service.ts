@@ -7,6 +7,9 @@ export interface CartItem {
   productId: string;
   quantity: number;
   priceCents: number;
+  /** Selected variant of a product with variants */
+  variantId?: string;
+  variantLabel?: string | null;
 }
 
 export interface PaymentRequest {
@@ -76,6 +76,8 @@ export class PaymentTestingService {
           return await PaymentValidators.validatePayPal(resolvedCredentials as PayPalCredentials);
         case 'stripe':
           return await PaymentValidators.validateStripe(resolvedCredentials as StripeCredentials);
+        case 'mercadopago':
+          return await PaymentValidators.validateMercadoPago(resolvedCredentials as Record<string, string>);
         default:
           throw new Error(`Unsupported provider: ${provider}`);
       }
@@ -1,5 +1,6 @@
 import { PAYMENT_CONSTANTS } from '../constants/payment-constants';
 import type { PayPalCredentials, StripeCredentials, ValidationResult } from '../types/payment-types';
+import { MercadoPagoPlugin } from '../plugins/mercadopago-plugin';
 
 export class PaymentValidators {
   static async validatePayPal(credentials: PayPalCredentials): Promise<ValidationResult> {
@@ -71,4 +72,18 @@ export class PaymentValidators {
       clearTimeout(timeoutId);
     }
   }
-}
\ No newline at end of file
+
+  static async validateMercadoPago(credentials: Record<string, string>): Promise<ValidationResult> {
+    // The keys of test credentials carry the test_ prefix
+    const isTest = Boolean(credentials.test_access_token);
+
+    if (!(await new MercadoPagoPlugin().validateCredentials(credentials, isTest))) {
+      throw new Error('Mercado Pago credentials invalid');
+    }
+
+    return {
+      isValid: true,
+      environment: isTest ? 'TEST' : 'LIVE'
+    };
+  }
+}
@@ -13,6 +13,16 @@ interface BillingAgreement {
   createdAt: string;
 }
 
+/**
+ * Vaulted billing agreement (reference transactions) returned after the payer approves it
+ */
+export interface VaultedBillingAgreement {
+  agreementId: string;
+  payerId: string | null;
+  payerEmail: string | null;
+  payerName: string | null;
+}
+
 /**
  * Service for managing PayPal Billing Agreements
  * 
@@ -297,5 +307,240 @@ export class PayPalBillingService {
       message: 'PayPal will process renewal automatically',
     };
   }
-}
 
+  /**
+   * Create a billing agreement token to vault the payer's PayPal account.
+   * Returns the approval URL; PayPal sends the payer back to returnUrl with ?ba_token=
+   *
+   * Documentation: https://developer.paypal.com/docs/api/payments/v1/#billing-agreements
+   */
+  async createBillingAgreementToken(
+    credentials: PayPalCredentials,
+    environment: 'sandbox' | 'live',
+    params: {
+      description: string;
+      returnUrl: string;
+      cancelUrl: string;
+    }
+  ): Promise<{ tokenId: string; approvalUrl: string }> {
+    const accessToken = await this.getAccessToken(credentials, environment);
+    const baseUrl = this.getBaseUrl(environment);
+
+    const response = await fetch(`${baseUrl}/v1/billing-agreements/agreement-tokens`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({
+        description: params.description,
+        payer: { payment_method: 'PAYPAL' },
+        plan: {
+          type: 'MERCHANT_INITIATED_BILLING',
+          merchant_preferences: {
+            return_url: params.returnUrl,
+            cancel_url: params.cancelUrl,
+            accepted_pymt_type: 'INSTANT',
+            skip_shipping_address: true,
+          },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to create PayPal billing agreement token: ${error}`);
+    }
+
+    const token = await response.json();
+    const approvalUrl = token.links?.find((link: any) => link.rel === 'approval_url')?.href;
+
+    if (!approvalUrl) {
+      throw new Error('PayPal approval URL not found');
+    }
+
+    return {
+      tokenId: token.token_id,
+      approvalUrl,
+    };
+  }
+
+  /**
+   * Turn an approved billing agreement token into a billing agreement that can be charged later
+   */
+  async executeBillingAgreement(
+    credentials: PayPalCredentials,
+    environment: 'sandbox' | 'live',
+    tokenId: string
+  ): Promise<VaultedBillingAgreement> {
+    const accessToken = await this.getAccessToken(credentials, environment);
+    const baseUrl = this.getBaseUrl(environment);
+
+    const response = await fetch(`${baseUrl}/v1/billing-agreements/agreements`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ token_id: tokenId }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to execute PayPal billing agreement: ${error}`);
+    }
+
+    const agreement = await response.json();
+    const payerInfo = agreement.payer?.payer_info ?? {};
+    const payerName = [payerInfo.first_name, payerInfo.last_name].filter(Boolean).join(' ');
+
+    return {
+      agreementId: agreement.id,
+      payerId: payerInfo.payer_id ?? null,
+      payerEmail: payerInfo.email ?? null,
+      payerName: payerName || null,
+    };
+  }
+
+  /**
+   * Charge a vaulted billing agreement without the payer present (reference transaction).
+   * Returns the capture id, which is what refunds take
+   */
+  async chargeBillingAgreement(
+    credentials: PayPalCredentials,
+    environment: 'sandbox' | 'live',
+    params: {
+      agreementId: string;
+      amountCents: number;
+      currency: string;
+      description: string;
+      reference: string;
+    }
+  ): Promise<{ orderId: string; captureId: string }> {
+    const accessToken = await this.getAccessToken(credentials, environment);
+    const baseUrl = this.getBaseUrl(environment);
+    const headers = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`,
+      // Retrying the same checkout does not charge twice
+      'PayPal-Request-Id': params.reference,
+    };
+
+    const orderResponse = await fetch(`${baseUrl}/v2/checkout/orders`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        intent: 'CAPTURE',
+        purchase_units: [
+          {
+            custom_id: params.reference,
+            description: params.description.slice(0, 127),
+            amount: {
+              currency_code: params.currency.toUpperCase(),
+              value: (params.amountCents / 100).toFixed(2),
+            },
+          },
+        ],
+        payment_source: {
+          token: {
+            id: params.agreementId,
+            type: 'BILLING_AGREEMENT',
+          },
+        },
+      }),
+    });
+
+    if (!orderResponse.ok) {
+      const error = await orderResponse.text();
+      throw new Error(`Failed to create PayPal reference transaction: ${error}`);
+    }
+
+    const order = await orderResponse.json();
+
+    const captureResponse = await fetch(`${baseUrl}/v2/checkout/orders/${order.id}/capture`, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'PayPal-Request-Id': `${params.reference}-capture`,
+      },
+    });
+
+    if (!captureResponse.ok) {
+      const error = await captureResponse.text();
+      throw new Error(`Failed to capture PayPal reference transaction: ${error}`);
+    }
+
+    const captured = await captureResponse.json();
+    const capture = captured.purchase_units?.[0]?.payments?.captures?.[0];
+
+    if (captured.status !== 'COMPLETED' || !capture?.id) {
+      throw new Error(`PayPal reference transaction not completed: ${capture?.status ?? captured.status}`);
+    }
+
+    return {
+      orderId: order.id,
+      captureId: capture.id,
+    };
+  }
+
+  /**
+   * Refund a whole reference transaction capture. The reference makes a retried refund safe.
+   */
+  async refundCapture(
+    credentials: PayPalCredentials,
+    environment: 'sandbox' | 'live',
+    params: { captureId: string; reference: string }
+  ): Promise<{ refundId: string }> {
+    const accessToken = await this.getAccessToken(credentials, environment);
+    const baseUrl = this.getBaseUrl(environment);
+
+    const response = await fetch(`${baseUrl}/v2/payments/captures/${params.captureId}/refund`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+        'PayPal-Request-Id': params.reference,
+      },
+      body: JSON.stringify({}),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to refund PayPal capture: ${error}`);
+    }
+
+    const refund = await response.json();
+    return { refundId: refund.id };
+  }
+
+  /**
+   * Cancel a vaulted billing agreement so it can no longer be charged
+   */
+  async cancelVaultedBillingAgreement(
+    credentials: PayPalCredentials,
+    environment: 'sandbox' | 'live',
+    agreementId: string
+  ): Promise<void> {
+    const accessToken = await this.getAccessToken(credentials, environment);
+    const baseUrl = this.getBaseUrl(environment);
+
+    const response = await fetch(`${baseUrl}/v1/billing-agreements/agreements/${agreementId}/cancel`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+
+    if (!response.ok && response.status !== 204) {
+      const error = await response.text();
+      throw new Error(`Failed to cancel PayPal billing agreement: ${error}`);
+    }
+  }
+
+  private getBaseUrl(environment: 'sandbox' | 'live'): string {
+    return environment === 'sandbox'
+      ? 'https://api-m.sandbox.paypal.com'
+      : 'https://api-m.paypal.com';
+  }
+}
@@ -14,6 +14,7 @@ export class PaymentConfigValidator {
     manual: [],
     authorize_net: ['clientId', 'secret'],
     payoneer: ['clientId', 'secret'],
+    mercadopago: ['publishableKey', 'secret'],
   };
 
   private static readonly FIELD_DISPLAY_NAMES: Record<keyof PaymentGatewayCredentials, string> = {
@@ -38,6 +38,10 @@ const REQUIRED_FIELDS: Record<
     live: ['clientId', 'secret'],
     test: ['testClientId', 'testSecret'],
   },
+  mercadopago: {
+    live: ['publishableKey', 'secret'],
+    test: ['testPublishableKey', 'testSecret'],
+  },
 };
 
 export const validatePaymentConfig = async (
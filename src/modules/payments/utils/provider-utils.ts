@@ -8,6 +8,7 @@ export const getProviderDisplayName = (provider: PaymentProvider): string => {
     manual: 'Manual',
     authorize_net: 'Authorize.Net',
     payoneer: 'Payoneer',
+    mercadopago: 'Mercado Pago',
   };
 
   return providerNames[provider];
@@ -39,6 +40,10 @@ export const getProviderTestConfig = (provider: PaymentProvider) => {
       popupDimensions: 'width=600,height=700,scrollbars=yes,resizable=yes',
       testEnvironmentUrl: 'https://api.sandbox.payoneer.com',
     },
+    mercadopago: {
+      popupDimensions: 'width=600,height=700,scrollbars=yes,resizable=yes',
+      testEnvironmentUrl: 'https://api.mercadopago.com',
+    },
   };
 
   return configs[provider];
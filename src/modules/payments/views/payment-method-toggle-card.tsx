@@ -8,7 +8,8 @@ import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Loader2 } from 'lucide-react';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { usePaymentConfiguration } from '../hooks/use-payment-configuration';
 
 export interface AvailabilitySettings {
   availableOnAffiliateCheckout: boolean;
@@ -17,7 +18,7 @@ export interface AvailabilitySettings {
 }
 
 export interface PaymentMethodToggleCardProps {
-  provider: 'paypal' | 'stripe' | 'wallet' | 'manual' | 'authorize_net' | 'payoneer';
+  provider: 'paypal' | 'stripe' | 'wallet' | 'manual' | 'authorize_net' | 'payoneer' | 'mercadopago';
   title: string;
   description: string;
   icon?: React.ReactNode;
@@ -52,6 +53,10 @@ export interface PaymentMethodToggleCardProps {
   // Optional config link
   configureLabel?: string;
   configureHref?: string;
+  // Optional credential validation against the gateway
+  validateLabel?: string;
+  credentialsValidLabel?: string;
+  credentialsInvalidLabel?: string;
   // Show/hide selectors
   showFunctionalitySelector?: boolean;
 }
@@ -81,8 +86,12 @@ export function PaymentMethodToggleCard({
   mainStoreLabel = 'Tienda Principal',
   configureLabel,
   configureHref,
+  validateLabel,
+  credentialsValidLabel = 'Credenciales válidas',
+  credentialsInvalidLabel = 'Credenciales no válidas',
   showFunctionalitySelector = true,
 }: PaymentMethodToggleCardProps) {
+  const configuration = usePaymentConfiguration(provider);
   const [active, setActive] = useState(initialActive);
   const [functionality, setFunctionality] = useState<'payment' | 'payout' | 'both'>(initialFunctionality);
   const [availableOnAffiliate, setAvailableOnAffiliate] = useState(initialAvailability?.availableOnAffiliateCheckout ?? true);
@@ -268,7 +277,30 @@ export function PaymentMethodToggleCard({
               {configureLabel}
             </Button>
           )}
+          {validateLabel && (
+            <Button
+              variant="outline"
+              onClick={() => void configuration.checkConfiguration()}
+              disabled={isSaving || configuration.isChecking}
+            >
+              {configuration.isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {validateLabel}
+            </Button>
+          )}
         </div>
+
+        {/* Credential validation result */}
+        {validateLabel && configuration.lastChecked && !configuration.isChecking && (
+          <div className="space-y-1 text-sm">
+            <div className={`flex items-center gap-2 ${configuration.isValid ? 'text-green-600' : 'text-destructive'}`}>
+              {configuration.isValid ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+              {configuration.isValid ? credentialsValidLabel : credentialsInvalidLabel}
+            </div>
+            {configuration.errors.map((message) => (
+              <p key={message} className="text-muted-foreground">{message}</p>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,76 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { WebhookEventDetail, WebhookEventRecord, WebhooksDictionary } from '../domain/models/webhook-event';
+import { WebhookEventRepositoryFactory, type WebhookEventListFilters } from '../repositories/webhook-event-repository';
+import { WebhooksView } from '../views/webhooks-view';
+
+interface WebhooksControllerProps {
+  dictionary: WebhooksDictionary;
+}
+
+export const WebhooksController = ({ dictionary }: WebhooksControllerProps) => {
+  const repository = useMemo(() => WebhookEventRepositoryFactory.createForAdmin(), []);
+
+  const [events, setEvents] = useState<WebhookEventRecord[]>([]);
+  const [filters, setFilters] = useState<WebhookEventListFilters>({ status: null, provider: null });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [detail, setDetail] = useState<WebhookEventDetail | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setEvents(await repository.list(filters));
+    } catch (loadError) {
+      console.error('[webhooks] load failed', loadError);
+      setError(loadError instanceof Error ? loadError.message : dictionary.error.load);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository, filters, dictionary.error.load]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const handleOpen = useCallback(async (id: string) => {
+    setDetail(await repository.get(id));
+  }, [repository]);
+
+  const handleReplay = useCallback(
+    async (id: string) => {
+      setSubmitting(true);
+      try {
+        await repository.replay(id);
+        await loadEvents();
+        if (detail?.id === id) {
+          setDetail(await repository.get(id));
+        }
+      } finally {
+        setSubmitting(false);
+      }
+    },
+    [repository, loadEvents, detail?.id],
+  );
+
+  return (
+    <WebhooksView
+      dictionary={dictionary}
+      events={events}
+      filters={filters}
+      loading={loading}
+      error={error}
+      detail={detail}
+      submitting={submitting}
+      onFiltersChange={setFilters}
+      onRefresh={loadEvents}
+      onOpen={handleOpen}
+      onClose={() => setDetail(null)}
+      onReplay={handleReplay}
+    />
+  );
+};
@@ -0,0 +1,268 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  IncomingWebhookEvent,
+  WebhookDeadLetter,
+  WebhookEventFilters,
+  WebhookEventRecord,
+  WebhookEventStatus,
+} from '../../domain/models/webhook-event';
+
+interface WebhookEventRow {
+  id: string;
+  provider: string;
+  event_id: string;
+  event_type: string | null;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  processed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  payload: Record<string, unknown> | null;
+}
+
+interface WebhookDeadLetterRow {
+  id: string;
+  webhook_event_id: string;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  replayed_at: string | null;
+}
+
+export type WebhookEventPatch = Partial<
+  Pick<WebhookEventRow, 'status' | 'attempts' | 'last_error' | 'next_attempt_at' | 'processed_at'>
+>;
+
+/**
+ * Statuses a worker can claim once next_attempt_at is reached. A processing event past its
+ * lease belongs to a worker that died halfway through
+ */
+const CLAIMABLE_STATUSES: WebhookEventStatus[] = ['received', 'retry_scheduled', 'processing'];
+
+const EVENT_COLUMNS =
+  'id, provider, event_id, event_type, status, attempts, last_error, next_attempt_at, processed_at, created_at, updated_at';
+
+const toWebhookEvent = (row: WebhookEventRow): WebhookEventRecord => ({
+  id: row.id,
+  provider: row.provider,
+  eventId: row.event_id,
+  eventType: row.event_type,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  nextAttemptAt: row.next_attempt_at,
+  processedAt: row.processed_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  payload: row.payload ?? null,
+});
+
+const toDeadLetter = (row: WebhookDeadLetterRow): WebhookDeadLetter => ({
+  id: row.id,
+  webhookEventId: row.webhook_event_id,
+  error: row.error,
+  attempts: row.attempts,
+  createdAt: row.created_at,
+  replayedAt: row.replayed_at,
+});
+
+export class WebhookEventRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Stores a raw event. A redelivery of an event already stored returns the stored one
+   */
+  async insert(event: IncomingWebhookEvent, now: Date): Promise<{ event: WebhookEventRecord; duplicate: boolean }> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .insert({
+        provider: event.provider,
+        event_id: event.eventId,
+        event_type: event.eventType,
+        payload: event.payload,
+        status: 'received',
+        attempts: 0,
+        next_attempt_at: now.toISOString(),
+        processed_at: null,
+      })
+      .select(`${EVENT_COLUMNS}, payload`)
+      .single();
+
+    if (!error) {
+      return { event: toWebhookEvent(data as WebhookEventRow), duplicate: false };
+    }
+
+    if (error.code !== '23505') {
+      throw error;
+    }
+
+    const existing = await this.findByProviderEvent(event.provider, event.eventId);
+    if (!existing) {
+      throw error;
+    }
+
+    return { event: existing, duplicate: true };
+  }
+
+  async findById(id: string): Promise<WebhookEventRecord | null> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .select(`${EVENT_COLUMNS}, payload`)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toWebhookEvent(data as WebhookEventRow) : null;
+  }
+
+  async findByProviderEvent(provider: string, eventId: string): Promise<WebhookEventRecord | null> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .select(`${EVENT_COLUMNS}, payload`)
+      .eq('provider', provider)
+      .eq('event_id', eventId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toWebhookEvent(data as WebhookEventRow) : null;
+  }
+
+  /**
+   * Takes the event for one attempt until leaseUntil. Guarded on the attempts read so two workers
+   * never run the same attempt; returns null when another worker got there first
+   */
+  async claim(event: WebhookEventRecord, now: Date, leaseUntil: Date): Promise<WebhookEventRecord | null> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .update({
+        status: 'processing',
+        attempts: event.attempts + 1,
+        next_attempt_at: leaseUntil.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq('id', event.id)
+      .eq('attempts', event.attempts)
+      .in('status', CLAIMABLE_STATUSES)
+      .lte('next_attempt_at', now.toISOString())
+      .select(`${EVENT_COLUMNS}, payload`)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toWebhookEvent(data as WebhookEventRow) : null;
+  }
+
+  async update(id: string, patch: WebhookEventPatch, now: Date): Promise<WebhookEventRecord> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .update({ ...patch, updated_at: now.toISOString() })
+      .eq('id', id)
+      .select(EVENT_COLUMNS)
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return toWebhookEvent(data as WebhookEventRow);
+  }
+
+  /**
+   * Events whose attempt is due, oldest first, without their payload
+   */
+  async listDue(now: Date, limit: number): Promise<WebhookEventRecord[]> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .select(EVENT_COLUMNS)
+      .in('status', CLAIMABLE_STATUSES)
+      .lte('next_attempt_at', now.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as WebhookEventRow[]).map(toWebhookEvent);
+  }
+
+  async list(filters: WebhookEventFilters): Promise<WebhookEventRecord[]> {
+    let query = this.client.from('webhook_events').select(EVENT_COLUMNS);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.provider) {
+      query = query.eq('provider', filters.provider);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(filters.limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as WebhookEventRow[]).map(toWebhookEvent);
+  }
+
+  /**
+   * Parks an event in the dead-letter queue. An event dead-lettered again after a replay gets a
+   * fresh entry
+   */
+  async upsertDeadLetter(event: WebhookEventRecord, errorMessage: string, now: Date): Promise<void> {
+    const { error } = await this.client.from('webhook_dead_letters').upsert(
+      {
+        webhook_event_id: event.id,
+        provider: event.provider,
+        event_id: event.eventId,
+        event_type: event.eventType,
+        payload: event.payload,
+        error: errorMessage,
+        attempts: event.attempts,
+        created_at: now.toISOString(),
+        replayed_at: null,
+      },
+      { onConflict: 'webhook_event_id' },
+    );
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async findDeadLetter(webhookEventId: string): Promise<WebhookDeadLetter | null> {
+    const { data, error } = await this.client
+      .from('webhook_dead_letters')
+      .select('id, webhook_event_id, error, attempts, created_at, replayed_at')
+      .eq('webhook_event_id', webhookEventId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data ? toDeadLetter(data as WebhookDeadLetterRow) : null;
+  }
+
+  async markDeadLetterReplayed(webhookEventId: string, now: Date): Promise<void> {
+    const { error } = await this.client
+      .from('webhook_dead_letters')
+      .update({ replayed_at: now.toISOString() })
+      .eq('webhook_event_id', webhookEventId);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
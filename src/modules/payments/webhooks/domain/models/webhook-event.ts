@@ -0,0 +1,120 @@
+import { z } from 'zod';
+
+/**
+ * received: stored, waiting to be dispatched; processing: claimed by a worker; retry_scheduled:
+ * a handler failed and the event runs again at nextAttemptAt; dead_letter: retries exhausted,
+ * only an admin replay runs it again
+ */
+export const WEBHOOK_EVENT_STATUSES = ['received', 'processing', 'processed', 'retry_scheduled', 'dead_letter'] as const;
+
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number];
+
+export const WebhookEventRecordSchema = z.object({
+  id: z.string(),
+  /**
+   * Gateway that sent the event: stripe, paypal or the name of a payment plugin
+   */
+  provider: z.string(),
+  /**
+   * Event ID assigned by the gateway; redeliveries of the same event share it
+   */
+  eventId: z.string(),
+  eventType: z.string().nullable(),
+  status: z.enum(WEBHOOK_EVENT_STATUSES),
+  attempts: z.number().int(),
+  lastError: z.string().nullable(),
+  nextAttemptAt: z.string().nullable(),
+  processedAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  /**
+   * Raw event as received, after its signature was verified
+   */
+  payload: z.record(z.string(), z.unknown()).nullable(),
+});
+
+export type WebhookEventRecord = z.infer<typeof WebhookEventRecordSchema>;
+
+export const WebhookDeadLetterSchema = z.object({
+  id: z.string(),
+  webhookEventId: z.string(),
+  error: z.string().nullable(),
+  attempts: z.number().int(),
+  createdAt: z.string(),
+  /**
+   * Last time an admin replayed the event; null while it waits in the queue
+   */
+  replayedAt: z.string().nullable(),
+});
+
+export type WebhookDeadLetter = z.infer<typeof WebhookDeadLetterSchema>;
+
+export const WebhookEventDetailSchema = WebhookEventRecordSchema.extend({
+  deadLetter: WebhookDeadLetterSchema.nullable(),
+});
+
+export type WebhookEventDetail = z.infer<typeof WebhookEventDetailSchema>;
+
+export const WebhookEventFiltersSchema = z.object({
+  status: z.enum(WEBHOOK_EVENT_STATUSES).optional(),
+  provider: z.string().trim().min(1).max(40).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type WebhookEventFilters = z.infer<typeof WebhookEventFiltersSchema>;
+
+/**
+ * Event handed to the pipeline by a webhook route once its signature was verified
+ */
+export interface IncomingWebhookEvent {
+  provider: string;
+  eventId: string;
+  eventType: string | null;
+  payload: Record<string, unknown>;
+}
+
+export const WebhooksDictionarySchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  refresh: z.string(),
+  replay: z.string(),
+  replaying: z.string(),
+  confirmReplay: z.string(),
+  view: z.string(),
+  close: z.string(),
+  empty: z.string(),
+  never: z.string(),
+  filters: z.object({
+    status: z.string(),
+    provider: z.string(),
+    all: z.string(),
+  }),
+  columns: z.object({
+    event: z.string(),
+    provider: z.string(),
+    status: z.string(),
+    attempts: z.string(),
+    nextAttempt: z.string(),
+    received: z.string(),
+  }),
+  statuses: z.record(z.string(), z.string()),
+  detail: z.object({
+    title: z.string(),
+    eventId: z.string(),
+    lastError: z.string(),
+    processedAt: z.string(),
+    deadLetteredAt: z.string(),
+    replayedAt: z.string(),
+    payload: z.string(),
+  }),
+  success: z.object({
+    replayed: z.string(),
+  }),
+  error: z.object({
+    title: z.string(),
+    load: z.string(),
+    replay: z.string(),
+  }),
+});
+
+export type WebhooksDictionary = z.infer<typeof WebhooksDictionarySchema>;
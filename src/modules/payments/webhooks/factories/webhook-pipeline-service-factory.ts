@@ -0,0 +1,20 @@
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { paymentPluginRegistry } from '@/modules/payments/plugins';
+import { createPluginWebhookHandler } from '../handlers/plugin-webhook-handler';
+import { handlePayPalWebhookEvent } from '../handlers/paypal-webhook-handler';
+import { handleStripeWebhookEvent } from '../handlers/stripe-webhook-handler';
+import { WebhookPipelineService, type WebhookEventHandler } from '../services/webhook-pipeline-service';
+
+const resolveWebhookHandler = (provider: string): WebhookEventHandler | null => {
+  if (provider === 'stripe') {
+    return handleStripeWebhookEvent;
+  }
+
+  if (provider === 'paypal') {
+    return handlePayPalWebhookEvent;
+  }
+
+  return paymentPluginRegistry.has(provider) ? createPluginWebhookHandler(paymentPluginRegistry.get(provider)) : null;
+};
+
+export const createWebhookPipelineService = () => new WebhookPipelineService(getSupabaseAdminClient(), resolveWebhookHandler);
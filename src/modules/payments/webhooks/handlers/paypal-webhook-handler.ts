@@ -0,0 +1,150 @@
+import { createSubscriptionLifecycleService } from '@/modules/multilevel/factories/subscription-service-factory';
+import { createAdminClient } from '@/lib/supabase/server';
+import { WalletService } from '@/modules/multilevel/services/wallet-service';
+import { createCommissionClawbackService } from '@/modules/multilevel/factories/commission-clawback-service-factory';
+import type { WebhookEventRecord } from '../domain/models/webhook-event';
+
+const SUPPORTED_EVENTS = new Set(['PAYMENT.SALE.COMPLETED', 'CHECKOUT.ORDER.APPROVED']);
+const REFUND_EVENTS = new Set(['PAYMENT.CAPTURE.REFUNDED', 'PAYMENT.SALE.REFUNDED', 'PAYMENT.CAPTURE.REVERSED']);
+const DISPUTE_EVENTS = new Set(['CUSTOMER.DISPUTE.CREATED']);
+
+const toCents = (value: unknown): number | undefined => {
+  const parsed = parseFloat(typeof value === 'string' ? value : '');
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) : undefined;
+};
+
+/**
+ * Refund resources link back to the original capture through their `up` link,
+ * which is the id stored on the order as its gateway reference.
+ */
+const resolveRefundedCaptureId = (resource: any): string | null => {
+  const links: Array<{ rel?: string; href?: string }> = Array.isArray(resource?.links) ? resource.links : [];
+  const upLink = links.find((link) => link.rel === 'up' && typeof link.href === 'string');
+  if (upLink?.href) {
+    return upLink.href.split('/').filter(Boolean).pop() ?? null;
+  }
+
+  return typeof resource?.sale_id === 'string' ? resource.sale_id : null;
+};
+
+const handleReversal = async (payload: any) => {
+  const resource = payload.resource ?? {};
+  const isDispute = DISPUTE_EVENTS.has(payload.event_type);
+  // PAYMENT.CAPTURE.REVERSED carries the reversed capture itself
+  const gatewayRef = isDispute
+    ? resource.disputed_transactions?.[0]?.seller_transaction_id ?? null
+    : payload.event_type === 'PAYMENT.CAPTURE.REVERSED'
+      ? resource.id ?? null
+      : resolveRefundedCaptureId(resource);
+
+  if (!gatewayRef) {
+    console.warn(`[PayPal Webhook] Event ${payload.id} ignored: missing order reference`);
+    return;
+  }
+
+  await createCommissionClawbackService().clawbackOrder({
+    gatewayRef,
+    reason: isDispute ? 'chargeback' : 'refund',
+    refundedCents: isDispute || payload.event_type === 'PAYMENT.CAPTURE.REVERSED'
+      ? undefined
+      : toCents(resource.seller_payable_breakdown?.total_refunded_amount?.value) ?? toCents(resource.amount?.value),
+    externalReference: resource.id ?? resource.dispute_id ?? payload.id ?? null,
+  });
+};
+
+const handlePaymentCompleted = async (payload: any) => {
+  const resource = payload.resource ?? {};
+  const customId = typeof resource.custom_id === 'string' ? resource.custom_id : null;
+  const walletMatch = customId?.startsWith('wallet_recharge:') ? customId.split(':') : null;
+  const walletUserId = walletMatch && walletMatch.length >= 2 ? walletMatch[1] : null;
+  const subscriptionMatch = customId?.startsWith('subscription:') ? customId.split(':') : null;
+  const subscriptionUserId = subscriptionMatch && subscriptionMatch.length >= 2 ? subscriptionMatch[1] : null;
+  const subscriptionPlanId = subscriptionMatch && subscriptionMatch.length >= 3 ? subscriptionMatch[2] : null;
+  const checkoutMatch = customId?.startsWith('checkout:') ? customId.split(':') : null;
+  const checkoutUserId = checkoutMatch && checkoutMatch.length >= 4 ? checkoutMatch[1] : null;
+  const rewardType = checkoutMatch && checkoutMatch.length >= 4 ? checkoutMatch[2] : null;
+  const discountCents = checkoutMatch && checkoutMatch.length >= 4 ? parseInt(checkoutMatch[3], 10) : null;
+
+  const userId =
+    walletUserId ||
+    subscriptionUserId ||
+    checkoutUserId ||
+    customId ||
+    resource.supplementary_data?.related_ids?.customer_user_id;
+  if (!userId) {
+    console.warn(`[PayPal Webhook] Event ${payload.id} ignored: missing user`);
+    return;
+  }
+
+  const amountValue = parseFloat(resource.amount?.value ?? '0');
+  const amountCents = Number.isFinite(amountValue) ? Math.round(amountValue * 100) : 0;
+  const gatewayRef = resource.id ?? payload.id;
+  const periodEnd = resource.billing_info?.next_billing_time ?? null;
+
+  if (!gatewayRef) {
+    throw new Error('Missing gateway reference');
+  }
+
+  if (walletUserId) {
+    const adminClient = await createAdminClient();
+    await new WalletService(adminClient).recordRecharge({
+      userId: walletUserId,
+      amountCents,
+      gateway: 'paypal',
+      gatewayRef,
+      currency:
+        typeof resource.amount?.currency_code === 'string' ? resource.amount.currency_code : 'USD',
+      metadata: {
+        paypal_resource: resource,
+      },
+    });
+    return;
+  }
+
+  // Note: PayPal webhooks don't include full metadata like Stripe does
+  // Order creation for PayPal will be handled in the capture-order endpoint
+  // where we have access to the full metadata from the session
+
+  const result = await createSubscriptionLifecycleService().handleConfirmedPayment({
+    userId,
+    planId: subscriptionPlanId,
+    amountCents,
+    gatewayRef,
+    periodEnd,
+    gateway: 'paypal',
+  });
+
+  // Apply phase reward discount if present in custom_id, once per payment: a retried event finds
+  // the payment already recorded
+  if (!result.alreadyProcessed && checkoutUserId && rewardType && discountCents && discountCents > 0) {
+    if (rewardType === 'free_product' || rewardType === 'store_credit') {
+      try {
+        // Import PhaseRewardsService directly to avoid HTTP call
+        const { PhaseRewardsService } = await import('@/lib/services/phase-rewards-service');
+        const rewardResult = await PhaseRewardsService.applyReward(checkoutUserId, discountCents, rewardType as 'free_product' | 'store_credit');
+
+        if (!rewardResult.success) {
+          console.error('[PayPal Webhook] Failed to apply phase reward:', rewardResult.error);
+        }
+      } catch (rewardError) {
+        console.error('[PayPal Webhook] Error applying phase reward:', rewardError);
+      }
+    }
+  }
+};
+
+/**
+ * Business effects of a verified PayPal event. Wallet, subscription and clawback failures throw
+ * so the pipeline retries the event; each of them is keyed by the gateway reference.
+ */
+export const handlePayPalWebhookEvent = async (record: WebhookEventRecord): Promise<void> => {
+  const payload = (record.payload ?? {}) as any;
+
+  if (REFUND_EVENTS.has(payload.event_type) || DISPUTE_EVENTS.has(payload.event_type)) {
+    return handleReversal(payload);
+  }
+
+  if (SUPPORTED_EVENTS.has(payload.event_type)) {
+    return handlePaymentCompleted(payload);
+  }
+};
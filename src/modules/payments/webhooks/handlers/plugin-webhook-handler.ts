@@ -0,0 +1,36 @@
+import type { PaymentPlugin } from '@/modules/payments/core/payment-plugin.interface';
+import { GatewayCredentialsService } from '@/modules/payments/services/gateway-credentials-service';
+import type { PaymentProvider } from '@/modules/payments/domain/models/payment-gateway';
+import type { WebhookEventRecord } from '../domain/models/webhook-event';
+import type { WebhookEventHandler } from '../services/webhook-pipeline-service';
+
+/**
+ * Credentials of a plugin for its webhooks, in the mode configured for the gateway
+ */
+export const getPluginWebhookCredentials = async (plugin: PaymentPlugin) => {
+  const { credentials } = await GatewayCredentialsService.getProviderCredentials(
+    plugin.config.name as PaymentProvider,
+    'auto',
+  );
+  return credentials as Record<string, string | undefined>;
+};
+
+/**
+ * Dispatches a stored event to the handleWebhook of its payment plugin
+ */
+export const createPluginWebhookHandler =
+  (plugin: PaymentPlugin): WebhookEventHandler =>
+  async (record: WebhookEventRecord) => {
+    if (!plugin.handleWebhook) {
+      return;
+    }
+
+    const payload = record.payload ?? {};
+    const event = plugin.parseWebhookEvent?.(payload) ?? {
+      id: record.eventId,
+      type: record.eventType ?? 'unknown',
+      data: payload,
+    };
+
+    await plugin.handleWebhook(event, await getPluginWebhookCredentials(plugin));
+  };
@@ -0,0 +1,444 @@
+import Stripe from 'stripe';
+import { GatewayCredentialsService } from '@/modules/payments/services/gateway-credentials-service';
+import { PaymentError, PaymentErrorCode } from '@/modules/payments/utils/payment-errors';
+import {
+  createSubscriptionDunningService,
+  createSubscriptionLifecycleService,
+} from '@/modules/multilevel/factories/subscription-service-factory';
+import { createAdminClient } from '@/lib/supabase/server';
+import { WalletService } from '@/modules/multilevel/services/wallet-service';
+import { OrderCreationService } from '@/modules/orders/services/order-creation-service';
+import { OrderNotificationService } from '@/modules/orders/services/order-notification-service';
+import { StripeFraudService } from '@/lib/services/stripe-fraud-service';
+import { createCommissionClawbackService } from '@/modules/multilevel/factories/commission-clawback-service-factory';
+import { createStockService } from '@/modules/products/factories/stock-service-factory';
+import { createPromotionService } from '@/modules/orders/promotions/factories/promotion-service-factory';
+import type { WebhookEventRecord } from '../domain/models/webhook-event';
+
+type StripeClient = InstanceType<typeof Stripe>;
+export type StripeEvent = ReturnType<StripeClient['webhooks']['constructEvent']>;
+type StripeInvoicePayload = {
+  object: 'invoice';
+  id?: string;
+  amount_paid?: number | null;
+  amount_due?: number | null;
+  currency?: string | null;
+  lines?: {
+    data?: Array<{
+      period?: { end?: number | null } | null;
+    }>;
+  };
+  metadata?: Record<string, unknown> | null;
+};
+type StripeCheckoutSessionPayload = {
+  object: 'checkout.session';
+  id?: string;
+  amount_total?: number | null;
+  client_reference_id?: string | null;
+  period_end?: number | null;
+  metadata?: Record<string, unknown> | null;
+};
+type StripeChargePayload = {
+  object: 'charge';
+  id?: string;
+  amount?: number | null;
+  amount_refunded?: number | null;
+  invoice?: string | { id?: string } | null;
+  payment_intent?: string | { id?: string } | null;
+  metadata?: Record<string, unknown> | null;
+};
+type StripePayload =
+  | StripeInvoicePayload
+  | StripeCheckoutSessionPayload
+  | (Record<string, unknown> & { object?: string })
+  | null;
+
+const isInvoice = (payload: StripePayload): payload is StripeInvoicePayload => {
+  return Boolean(payload && payload.object === 'invoice');
+};
+
+const isCheckoutSession = (payload: StripePayload): payload is StripeCheckoutSessionPayload => {
+  return Boolean(payload && payload.object === 'checkout.session');
+};
+
+const expandableId = (value: string | { id?: string } | null | undefined): string | null => {
+  if (!value) {
+    return null;
+  }
+  return typeof value === 'string' ? value : value.id ?? null;
+};
+
+/**
+ * Orders store the checkout session id (one-off payments) or the invoice id (subscriptions)
+ * as their gateway reference, so a charge has to be traced back to one of those.
+ */
+const resolveChargeOrderReference = async (stripe: StripeClient, charge: StripeChargePayload): Promise<string | null> => {
+  const invoiceId = expandableId(charge.invoice);
+  if (invoiceId) {
+    return invoiceId;
+  }
+
+  const paymentIntentId = expandableId(charge.payment_intent);
+  if (!paymentIntentId) {
+    return null;
+  }
+
+  const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+  return sessions.data[0]?.id ?? null;
+};
+
+let stripeResourcesPromise: Promise<{ stripe: StripeClient; webhookSecret: string }> | null = null;
+
+/**
+ * Stripe client and webhook secret, shared by the webhook route (signature check) and the handler
+ */
+export const getStripeWebhookResources = async () => {
+  if (!stripeResourcesPromise) {
+    stripeResourcesPromise = GatewayCredentialsService.getActiveProviderCredentialsWithFallback('stripe').then(
+      ({ credentials }) => {
+        if (!credentials.webhook_secret) {
+          throw new PaymentError(
+            'Stripe webhook secret is not configured. Set it from the admin payment settings.',
+            'stripe',
+            PaymentErrorCode.CONFIGURATION_MISSING,
+            { provider: 'stripe', timestamp: new Date() },
+          );
+        }
+
+        return {
+          stripe: new Stripe(credentials.secret_key, { apiVersion: '2024-12-18' }),
+          webhookSecret: credentials.webhook_secret,
+        };
+      },
+    );
+    // A failed lookup must not stick: the next event tries the credentials again
+    stripeResourcesPromise.catch(() => {
+      stripeResourcesPromise = null;
+    });
+  }
+
+  return stripeResourcesPromise;
+};
+
+const readCheckoutMetadata = (payload: StripePayload) => {
+  const metadata =
+    (isInvoice(payload) || isCheckoutSession(payload)) && payload.metadata && typeof payload.metadata === 'object'
+      ? payload.metadata
+      : null;
+  const checkoutReference = isCheckoutSession(payload) ? payload.client_reference_id ?? undefined : undefined;
+  const userId =
+    metadata && 'userId' in metadata
+      ? (metadata.userId as string | undefined)
+      : checkoutReference ?? undefined;
+
+  return { metadata, userId };
+};
+
+/**
+ * A declined subscription invoice starts dunning: the subscription goes past_due and the renewal
+ * cron retries the saved card on the dunning schedule instead of canceling right away
+ */
+const handlePaymentFailed = async (event: StripeEvent) => {
+  const payload = (event.data?.object ?? null) as StripePayload;
+  const { userId } = readCheckoutMetadata(payload);
+
+  if (!userId) {
+    console.warn(`[Stripe Webhook] Event ${event.id} ignored: missing user`);
+    return;
+  }
+
+  const invoice = isInvoice(payload) ? payload : null;
+
+  await createSubscriptionDunningService().recordGatewayFailure({
+    userId,
+    gateway: 'stripe',
+    amountCents: invoice?.amount_due ?? 0,
+    currency: invoice?.currency ?? null,
+    reason: `Stripe invoice ${invoice?.id ?? event.id} payment failed`,
+  });
+};
+
+/**
+ * Sends the payment confirmation of a new order; a failed email does not retry the event
+ */
+const sendOrderConfirmation = async (
+  order: { orderId: string },
+  userId: string,
+  amountCents: number,
+  metadata: Record<string, unknown>,
+) => {
+  try {
+    const adminClient = await createAdminClient();
+    const notificationService = new OrderNotificationService(adminClient);
+    const userInfo = await notificationService.getUserInfo(userId);
+
+    if (userInfo) {
+      const items = (metadata.cartItems as any[]).map(item => ({
+        name: item.productName || item.name || 'Product',
+        quantity: item.quantity || 1,
+        priceCents: item.priceCents || 0,
+      }));
+
+      await notificationService.sendPaymentConfirmationEmail({
+        orderId: order.orderId,
+        userEmail: userInfo.email,
+        userName: userInfo.name || 'Customer',
+        totalCents: amountCents,
+        currency: metadata.currency as string | undefined || 'USD',
+        items,
+        gateway: 'stripe',
+        locale: metadata.locale as string | undefined,
+      });
+
+      console.log('[Stripe Webhook] Payment confirmation email sent to:', userInfo.email);
+    }
+  } catch (emailError) {
+    console.error('[Stripe Webhook] Failed to send payment confirmation email:', emailError);
+  }
+};
+
+const applyPhaseReward = async (userId: string, metadata: Record<string, unknown>) => {
+  if (!('phaseRewardType' in metadata) || !('phaseRewardDiscountCents' in metadata)) {
+    return;
+  }
+
+  const rewardType = metadata.phaseRewardType as string;
+  const discountCents = metadata.phaseRewardDiscountCents as number;
+
+  if ((rewardType === 'free_product' || rewardType === 'store_credit') && typeof discountCents === 'number' && discountCents > 0) {
+    try {
+      // Import PhaseRewardsService directly to avoid HTTP call
+      const { PhaseRewardsService } = await import('@/lib/services/phase-rewards-service');
+      const result = await PhaseRewardsService.applyReward(userId, discountCents, rewardType as 'free_product' | 'store_credit');
+
+      if (!result.success) {
+        console.error('[Stripe Webhook] Failed to apply phase reward:', result.error);
+      }
+    } catch (rewardError) {
+      console.error('[Stripe Webhook] Error applying phase reward:', rewardError);
+    }
+  }
+};
+
+const handlePaymentSucceeded = async (event: StripeEvent) => {
+  const payload = (event.data?.object ?? null) as StripePayload;
+  const { metadata, userId } = readCheckoutMetadata(payload);
+
+  if (!userId) {
+    console.warn(`[Stripe Webhook] Event ${event.id} ignored: missing user`);
+    return;
+  }
+
+  const amountCents =
+    isInvoice(payload)
+      ? payload.amount_paid ?? 0
+      : isCheckoutSession(payload)
+        ? payload.amount_total ?? 0
+        : 0;
+  const gatewayRef =
+    payload && typeof payload === 'object' && typeof payload.id === 'string'
+      ? payload.id
+      : typeof event.id === 'string'
+        ? event.id
+        : 'stripe-event';
+  const periodSeconds =
+    isInvoice(payload) && payload.lines?.data?.[0]?.period?.end
+      ? payload.lines.data[0]?.period?.end ?? null
+      : isCheckoutSession(payload)
+        ? payload.period_end ?? null
+        : null;
+  const periodEnd = periodSeconds ? new Date(periodSeconds * 1000).toISOString() : null;
+
+  const intent =
+    metadata && 'intent' in metadata && typeof metadata.intent === 'string' ? metadata.intent : null;
+
+  // Wallet recharges are keyed by gateway reference, so a retried event is not credited twice
+  if (intent === 'wallet_recharge') {
+    const adminClient = await createAdminClient();
+    await new WalletService(adminClient).recordRecharge({
+      userId,
+      amountCents,
+      gateway: 'stripe',
+      gatewayRef,
+      currency:
+        metadata && 'currency' in metadata && typeof metadata.currency === 'string'
+          ? (metadata.currency as string)
+          : 'USD',
+      metadata: {
+        stripe_metadata: metadata,
+      },
+    });
+    return;
+  }
+
+  const hasCartItems = Boolean(metadata && Array.isArray(metadata.cartItems) && metadata.cartItems.length > 0);
+
+  // Create order if cart items are present in metadata. A failure throws so the event is retried
+  // instead of leaving a paid checkout without its order
+  if (metadata && hasCartItems) {
+    const adminClient = await createAdminClient();
+    const orderService = new OrderCreationService(adminClient);
+
+    if (await orderService.orderExistsForTransaction(gatewayRef)) {
+      console.log('[Stripe Webhook] Order already exists for transaction:', gatewayRef);
+    } else {
+      const discountCents = metadata.phaseRewardDiscountCents as number | undefined;
+      const orderResult = await orderService.createOrderFromPayment({
+        userId,
+        totalCents: amountCents,
+        currency: metadata.currency as string | undefined || 'USD',
+        gateway: 'stripe',
+        gatewayTransactionId: gatewayRef,
+        metadata,
+        cartItems: metadata.cartItems as any[],
+        discountCents: discountCents || 0,
+      });
+
+      console.log('[Stripe Webhook] Order created:', orderResult.orderId, {
+        commissionsCreated: orderResult.commissionsCreated,
+        affiliateId: orderResult.affiliateId,
+      });
+
+      // The phase reward is spent with the order it discounted, once
+      await applyPhaseReward(userId, metadata);
+      await sendOrderConfirmation(orderResult, userId, amountCents, metadata);
+    }
+  } else if (metadata) {
+    await applyPhaseReward(userId, metadata);
+  }
+
+  // Discount the stock held by the checkout (no-op when the order above already consumed it)
+  const stockReservationKey =
+    metadata && typeof metadata.stockReservationKey === 'string' ? metadata.stockReservationKey : null;
+  if (stockReservationKey) {
+    try {
+      await createStockService().recordCheckoutSale(stockReservationKey, null);
+    } catch (stockError) {
+      console.error('[Stripe Webhook] Failed to record stock sale:', stockError);
+    }
+  }
+
+  // Extract planId from metadata if available
+  const planId = metadata && 'planId' in metadata ? (metadata.planId as string | undefined) : undefined;
+
+  await createSubscriptionLifecycleService().handleConfirmedPayment({
+    userId,
+    planId,
+    amountCents,
+    gatewayRef,
+    periodEnd,
+    gateway: 'stripe',
+  });
+};
+
+// Checkout abandonado o pago asíncrono fallido: liberar el stock y las promociones reservadas
+const handleCheckoutAbandoned = async (event: StripeEvent) => {
+  const payload = (event.data?.object ?? null) as StripePayload;
+  const stockReservationKey =
+    isCheckoutSession(payload) && typeof payload.metadata?.stockReservationKey === 'string'
+      ? payload.metadata.stockReservationKey
+      : null;
+  const promotionReservationKey =
+    isCheckoutSession(payload) && typeof payload.metadata?.promotionReservationKey === 'string'
+      ? payload.metadata.promotionReservationKey
+      : null;
+
+  if (stockReservationKey) {
+    await createStockService().release(stockReservationKey);
+  }
+  await createPromotionService().release(promotionReservationKey);
+};
+
+// Reembolso total o parcial: revertir comisiones generadas por la orden
+const handleChargeRefunded = async (event: StripeEvent) => {
+  const charge = (event.data?.object ?? null) as StripeChargePayload | null;
+  const { stripe } = await getStripeWebhookResources();
+  const gatewayRef = charge ? await resolveChargeOrderReference(stripe, charge) : null;
+
+  if (!gatewayRef) {
+    console.warn(`[Stripe Webhook] Event ${event.id} ignored: missing order reference`);
+    return;
+  }
+
+  await createCommissionClawbackService().clawbackOrder({
+    gatewayRef,
+    reason: 'refund',
+    refundedCents: charge?.amount_refunded ?? undefined,
+    externalReference: charge?.id ?? null,
+  });
+};
+
+// Disputa creada (chargeback)
+const handleDispute = async (event: StripeEvent) => {
+  if (event.type === 'charge.dispute.created') {
+    const dispute = (event.data?.object ?? null) as { id?: string; charge?: string | { id?: string } | null } | null;
+    const { stripe } = await getStripeWebhookResources();
+    const chargeId = expandableId(dispute?.charge);
+    const charge = chargeId ? ((await stripe.charges.retrieve(chargeId)) as unknown as StripeChargePayload) : null;
+    const gatewayRef = charge ? await resolveChargeOrderReference(stripe, charge) : null;
+
+    if (gatewayRef) {
+      await createCommissionClawbackService().clawbackOrder({
+        gatewayRef,
+        reason: 'chargeback',
+        externalReference: dispute?.id ?? null,
+      });
+    }
+  }
+
+  try {
+    await StripeFraudService.processDispute(event as any);
+  } catch (error) {
+    console.error('[Stripe Webhook] Failed to process dispute', error);
+  }
+};
+
+// ============================================================================
+// STRIPE RADAR - FRAUD DETECTION EVENTS
+// ============================================================================
+
+// Fraud tracking is informative: a failure is logged and does not retry the event
+const FRAUD_HANDLERS: Record<string, (event: any) => Promise<unknown>> = {
+  // Advertencia temprana de fraude (Early Fraud Warning)
+  'radar.early_fraud_warning.created': (event) => StripeFraudService.processEarlyFraudWarning(event),
+  'radar.early_fraud_warning.updated': (event) => StripeFraudService.processEarlyFraudWarning(event),
+  // Revisión de Stripe Radar
+  'review.opened': (event) => StripeFraudService.processReview(event),
+  'review.closed': (event) => StripeFraudService.processReview(event),
+  // Cargo fallido (puede indicar fraude)
+  'charge.failed': (event) => StripeFraudService.processFailedCharge(event),
+};
+
+/**
+ * Business effects of a verified Stripe event. Failures that would lose an order, a wallet credit,
+ * a subscription payment or a clawback throw so the pipeline retries the event; every step is
+ * keyed by the gateway reference and safe to run again.
+ */
+export const handleStripeWebhookEvent = async (record: WebhookEventRecord): Promise<void> => {
+  const event = record.payload as unknown as StripeEvent;
+
+  switch (event.type) {
+    case 'invoice.payment_failed':
+      return handlePaymentFailed(event);
+    case 'invoice.payment_succeeded':
+    case 'checkout.session.completed':
+      return handlePaymentSucceeded(event);
+    case 'checkout.session.expired':
+    case 'checkout.session.async_payment_failed':
+      return handleCheckoutAbandoned(event);
+    case 'charge.refunded':
+      return handleChargeRefunded(event);
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+      return handleDispute(event);
+  }
+
+  const fraudHandler = FRAUD_HANDLERS[event.type];
+  if (fraudHandler) {
+    try {
+      await fraudHandler(event);
+    } catch (error) {
+      console.error(`[Stripe Webhook] Failed to process ${event.type}`, error);
+    }
+  }
+};
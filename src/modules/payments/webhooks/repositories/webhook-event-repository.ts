@@ -0,0 +1,115 @@
+import {
+  WebhookEventDetailSchema,
+  WebhookEventRecordSchema,
+  type WebhookEventDetail,
+  type WebhookEventRecord,
+  type WebhookEventStatus,
+} from '../domain/models/webhook-event';
+import { adminApi } from '@/lib/utils/admin-csrf-helpers';
+
+export interface WebhookEventListFilters {
+  status?: WebhookEventStatus | null;
+  provider?: string | null;
+}
+
+export interface WebhookEventAdminRepository {
+  list(filters: WebhookEventListFilters): Promise<WebhookEventRecord[]>;
+  get(id: string): Promise<WebhookEventDetail>;
+  replay(id: string): Promise<WebhookEventRecord>;
+}
+
+export class WebhookEventRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+  ) {
+    super(message);
+    this.name = 'WebhookEventRequestError';
+  }
+}
+
+const API_BASE = '/api/admin/webhooks';
+
+const parseJson = async (response: Response) => {
+  const text = await response.text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    console.error('[WebhookEventRepository] Failed to parse JSON', error, text);
+    throw new Error('Invalid server response.');
+  }
+};
+
+const toRequestError = async (response: Response, fallback: string) => {
+  const payload = await parseJson(response);
+  const message = typeof payload.error === 'string' ? payload.error : response.statusText;
+  return new WebhookEventRequestError(message || fallback, typeof payload.code === 'string' ? payload.code : null);
+};
+
+class HttpWebhookEventAdminRepository implements WebhookEventAdminRepository {
+  async list(filters: WebhookEventListFilters): Promise<WebhookEventRecord[]> {
+    const params = new URLSearchParams();
+    if (filters.status) params.set('status', filters.status);
+    if (filters.provider) params.set('provider', filters.provider);
+
+    const query = params.toString();
+    const response = await fetch(query ? `${API_BASE}?${query}` : API_BASE, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load webhook events.');
+    }
+
+    const payload = await parseJson(response);
+    return WebhookEventRecordSchema.array().parse(payload.events ?? []);
+  }
+
+  async get(id: string): Promise<WebhookEventDetail> {
+    const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to load webhook event.');
+    }
+
+    const payload = await parseJson(response);
+    return WebhookEventDetailSchema.parse(payload.event);
+  }
+
+  async replay(id: string): Promise<WebhookEventRecord> {
+    // ✅ SECURITY: Use adminApi to automatically include CSRF token
+    const response = await adminApi.post(`${API_BASE}/${encodeURIComponent(id)}/replay`, {});
+
+    if (!response.ok) {
+      throw await toRequestError(response, 'Failed to replay webhook event.');
+    }
+
+    const payload = await parseJson(response);
+    return WebhookEventRecordSchema.parse(payload.event);
+  }
+}
+
+class WebhookEventRepositoryFactoryImpl {
+  private adminInstance: WebhookEventAdminRepository | null = null;
+
+  createForAdmin(): WebhookEventAdminRepository {
+    if (!this.adminInstance) {
+      this.adminInstance = new HttpWebhookEventAdminRepository();
+    }
+
+    return this.adminInstance;
+  }
+}
+
+export const WebhookEventRepositoryFactory = new WebhookEventRepositoryFactoryImpl();
+
+export { HttpWebhookEventAdminRepository };
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  WEBHOOK_RETRY_BACKOFF_MINUTES,
+  WebhookError,
+  WebhookPipelineService,
+  type WebhookEventHandler,
+} from '../webhook-pipeline-service';
+import type { WebhookEventRecord } from '../../domain/models/webhook-event';
+
+const repository = {
+  insert: vi.fn(),
+  findById: vi.fn(),
+  claim: vi.fn(),
+  update: vi.fn(),
+  listDue: vi.fn(),
+  list: vi.fn(),
+  upsertDeadLetter: vi.fn(),
+  findDeadLetter: vi.fn(),
+  markDeadLetterReplayed: vi.fn(),
+};
+
+vi.mock('../../data/repositories/webhook-event-repository', () => ({
+  WebhookEventRepository: vi.fn().mockImplementation(function () {
+    return repository;
+  }),
+}));
+
+const MINUTE_MS = 60 * 1000;
+const now = new Date('2026-03-10T12:00:00.000Z');
+
+const event = (overrides: Partial<WebhookEventRecord> = {}): WebhookEventRecord => ({
+  id: 'event-1',
+  provider: 'stripe',
+  eventId: 'evt_1',
+  eventType: 'checkout.session.completed',
+  status: 'received',
+  attempts: 0,
+  lastError: null,
+  nextAttemptAt: now.toISOString(),
+  processedAt: null,
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+  payload: { id: 'evt_1' },
+  ...overrides,
+});
+
+const incoming = {
+  provider: 'stripe',
+  eventId: 'evt_1',
+  eventType: 'checkout.session.completed',
+  payload: { id: 'evt_1' },
+};
+
+describe('WebhookPipelineService', () => {
+  let handler: ReturnType<typeof vi.fn>;
+  let service: WebhookPipelineService;
+  let stored: WebhookEventRecord;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handler = vi.fn().mockResolvedValue(undefined);
+    service = new WebhookPipelineService({} as SupabaseClient, () => handler as WebhookEventHandler);
+    stored = event();
+
+    repository.insert.mockImplementation(async () => ({ event: stored, duplicate: false }));
+    repository.findById.mockImplementation(async () => stored);
+    repository.claim.mockImplementation(async (current: WebhookEventRecord, _now: Date, leaseUntil: Date) => {
+      stored = { ...current, status: 'processing', attempts: current.attempts + 1, nextAttemptAt: leaseUntil.toISOString() };
+      return stored;
+    });
+    repository.update.mockImplementation(async (_id: string, patch: Record<string, unknown>) => {
+      stored = {
+        ...stored,
+        ...(patch.status !== undefined ? { status: patch.status as WebhookEventRecord['status'] } : {}),
+        ...(patch.attempts !== undefined ? { attempts: patch.attempts as number } : {}),
+        ...('last_error' in patch ? { lastError: patch.last_error as string | null } : {}),
+        ...('next_attempt_at' in patch ? { nextAttemptAt: patch.next_attempt_at as string | null } : {}),
+        ...('processed_at' in patch ? { processedAt: patch.processed_at as string | null } : {}),
+      };
+      return stored;
+    });
+  });
+
+  it('stores the event and dispatches it to the provider handler', async () => {
+    const result = await service.ingest(incoming, now);
+
+    expect(repository.insert).toHaveBeenCalledWith(incoming, now);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 'event-1', status: 'processing', attempts: 1 }));
+    expect(result).toEqual({ id: 'event-1', status: 'processed', duplicate: false });
+    expect(stored).toMatchObject({ status: 'processed', processedAt: now.toISOString(), lastError: null });
+  });
+
+  it('drops a redelivery of an event already processed', async () => {
+    stored = event({ status: 'processed', attempts: 1, nextAttemptAt: null });
+    repository.insert.mockResolvedValue({ event: stored, duplicate: true });
+
+    const result = await service.ingest(incoming, now);
+
+    expect(result).toEqual({ id: 'event-1', status: 'processed', duplicate: true });
+    expect(repository.claim).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('leaves a redelivery alone while another worker holds the event', async () => {
+    stored = event({ status: 'processing', attempts: 1, nextAttemptAt: new Date(now.getTime() + MINUTE_MS).toISOString() });
+    repository.insert.mockResolvedValue({ event: stored, duplicate: true });
+
+    const result = await service.ingest(incoming, now);
+
+    expect(result.status).toBe('processing');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('schedules a retry with backoff when the handler throws', async () => {
+    handler.mockRejectedValue(new Error('order insert failed'));
+
+    const result = await service.ingest(incoming, now);
+
+    expect(result.status).toBe('retry_scheduled');
+    expect(stored).toMatchObject({
+      status: 'retry_scheduled',
+      attempts: 1,
+      lastError: 'order insert failed',
+      nextAttemptAt: new Date(now.getTime() + WEBHOOK_RETRY_BACKOFF_MINUTES[0] * MINUTE_MS).toISOString(),
+    });
+    expect(repository.upsertDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('moves the event to the dead-letter queue once every retry is used', async () => {
+    handler.mockRejectedValue(new Error('still failing'));
+    stored = event({ status: 'retry_scheduled', attempts: WEBHOOK_RETRY_BACKOFF_MINUTES.length });
+    repository.listDue.mockResolvedValue([stored]);
+
+    const summary = await service.retryDue(now);
+
+    expect(summary).toEqual({ processed: 0, rescheduled: 0, deadLettered: 1 });
+    expect(repository.upsertDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'event-1', attempts: WEBHOOK_RETRY_BACKOFF_MINUTES.length + 1 }),
+      'still failing',
+      now,
+    );
+    expect(stored).toMatchObject({ status: 'dead_letter', nextAttemptAt: null });
+  });
+
+  it('fails the attempt when no handler exists for the provider', async () => {
+    service = new WebhookPipelineService({} as SupabaseClient, () => null);
+    stored = event({ provider: 'unknown' });
+
+    const result = await service.ingest({ ...incoming, provider: 'unknown' }, now);
+
+    expect(result.status).toBe('retry_scheduled');
+    expect(stored.lastError).toBe('No webhook handler for provider unknown');
+  });
+
+  it('skips due events another worker claimed first', async () => {
+    repository.listDue.mockResolvedValue([event({ status: 'retry_scheduled', attempts: 1 })]);
+    repository.claim.mockResolvedValue(null);
+
+    const summary = await service.retryDue(now);
+
+    expect(summary).toEqual({ processed: 0, rescheduled: 0, deadLettered: 0 });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('replays a dead-lettered event from a clean retry count', async () => {
+    stored = event({ status: 'dead_letter', attempts: 6, lastError: 'still failing', nextAttemptAt: null });
+
+    const replayed = await service.replay('event-1', now);
+
+    expect(repository.update).toHaveBeenCalledWith(
+      'event-1',
+      { status: 'received', attempts: 0, next_attempt_at: now.toISOString(), processed_at: null },
+      now,
+    );
+    expect(repository.markDeadLetterReplayed).toHaveBeenCalledWith('event-1', now);
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ attempts: 1 }));
+    expect(replayed).toMatchObject({ status: 'processed', lastError: null });
+  });
+
+  it('refuses to replay an event being processed', async () => {
+    stored = event({ status: 'processing', attempts: 1, nextAttemptAt: new Date(now.getTime() + MINUTE_MS).toISOString() });
+
+    await expect(service.replay('event-1', now)).rejects.toMatchObject({ code: 'WEBHOOK_EVENT_IN_PROGRESS' });
+    expect(repository.update).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown events', async () => {
+    repository.findById.mockResolvedValue(null);
+
+    await expect(service.getEvent('missing')).rejects.toBeInstanceOf(WebhookError);
+  });
+});
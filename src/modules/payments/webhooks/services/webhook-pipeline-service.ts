@@ -0,0 +1,219 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { WebhookEventRepository } from '../data/repositories/webhook-event-repository';
+import type {
+  IncomingWebhookEvent,
+  WebhookEventDetail,
+  WebhookEventFilters,
+  WebhookEventRecord,
+  WebhookEventStatus,
+} from '../domain/models/webhook-event';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Minutes to wait before each automatic retry of a failed event. The event moves to the
+ * dead-letter queue once every retry is used.
+ */
+export const WEBHOOK_RETRY_BACKOFF_MINUTES = [1, 5, 30, 120, 720] as const;
+
+/**
+ * Time a worker holds an event; past it the event counts as abandoned and is claimed again
+ */
+export const WEBHOOK_PROCESSING_LEASE_MINUTES = 10;
+
+const RETRY_BATCH_SIZE = 50;
+
+export type WebhookErrorCode = 'WEBHOOK_EVENT_NOT_FOUND' | 'WEBHOOK_EVENT_IN_PROGRESS';
+
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public readonly code: WebhookErrorCode,
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export const WEBHOOK_ERROR_STATUS: Record<WebhookErrorCode, number> = {
+  WEBHOOK_EVENT_NOT_FOUND: 404,
+  WEBHOOK_EVENT_IN_PROGRESS: 409,
+};
+
+/**
+ * Runs the business effects of one event. Throwing schedules a retry, so handlers must be safe to
+ * run again for the same event
+ */
+export type WebhookEventHandler = (event: WebhookEventRecord) => Promise<void>;
+
+export type WebhookHandlerResolver = (provider: string) => WebhookEventHandler | null;
+
+export interface WebhookIngestResult {
+  id: string;
+  status: WebhookEventStatus;
+  duplicate: boolean;
+}
+
+export interface WebhookRetrySummary {
+  processed: number;
+  rescheduled: number;
+  deadLettered: number;
+}
+
+const isLeaseActive = (event: WebhookEventRecord, now: Date) =>
+  event.status === 'processing' && event.nextAttemptAt !== null && new Date(event.nextAttemptAt) > now;
+
+/**
+ * Single entry point of every payment webhook. Routes verify the signature and hand the event
+ * over; the pipeline stores it before anything else, drops redeliveries by provider event ID and
+ * dispatches it to the provider handler. A failing handler is retried with
+ * WEBHOOK_RETRY_BACKOFF_MINUTES and, once the retries are used, parked in the dead-letter queue
+ * until an admin replays it.
+ */
+export class WebhookPipelineService {
+  private readonly repository: WebhookEventRepository;
+
+  constructor(
+    client: SupabaseClient,
+    private readonly resolveHandler: WebhookHandlerResolver,
+  ) {
+    this.repository = new WebhookEventRepository(client);
+  }
+
+  /**
+   * Stores the event and processes it right away. Only a failure to store the event throws: the
+   * provider then delivers it again
+   */
+  async ingest(incoming: IncomingWebhookEvent, now: Date = new Date()): Promise<WebhookIngestResult> {
+    const { event, duplicate } = await this.repository.insert(incoming, now);
+
+    if (duplicate && (event.status === 'processed' || event.status === 'dead_letter' || isLeaseActive(event, now))) {
+      return { id: event.id, status: event.status, duplicate };
+    }
+
+    const result = await this.process(event, now);
+    return { id: event.id, status: (result ?? event).status, duplicate };
+  }
+
+  /**
+   * Cron entry point: run every event whose retry time has come, and events left halfway by a
+   * worker that died
+   */
+  async retryDue(now: Date = new Date()): Promise<WebhookRetrySummary> {
+    const due = await this.repository.listDue(now, RETRY_BATCH_SIZE);
+    const summary: WebhookRetrySummary = { processed: 0, rescheduled: 0, deadLettered: 0 };
+
+    for (const event of due) {
+      try {
+        const result = await this.process(event, now);
+
+        if (result?.status === 'processed') {
+          summary.processed += 1;
+        } else if (result?.status === 'retry_scheduled') {
+          summary.rescheduled += 1;
+        } else if (result?.status === 'dead_letter') {
+          summary.deadLettered += 1;
+        }
+      } catch (error) {
+        console.error(`[WebhookPipelineService] Failed to retry webhook event ${event.id}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Runs an event again from a clean retry count, whatever its status
+   */
+  async replay(id: string, now: Date = new Date()): Promise<WebhookEventRecord> {
+    const event = await this.repository.findById(id);
+
+    if (!event) {
+      throw new WebhookError('Webhook event not found', 'WEBHOOK_EVENT_NOT_FOUND');
+    }
+
+    if (isLeaseActive(event, now)) {
+      throw new WebhookError('The webhook event is being processed', 'WEBHOOK_EVENT_IN_PROGRESS');
+    }
+
+    const reset = await this.repository.update(
+      id,
+      { status: 'received', attempts: 0, next_attempt_at: now.toISOString(), processed_at: null },
+      now,
+    );
+
+    if (event.status === 'dead_letter') {
+      await this.repository.markDeadLetterReplayed(id, now);
+    }
+
+    return (await this.process(reset, now)) ?? reset;
+  }
+
+  list(filters: WebhookEventFilters): Promise<WebhookEventRecord[]> {
+    return this.repository.list(filters);
+  }
+
+  async getEvent(id: string): Promise<WebhookEventDetail> {
+    const event = await this.repository.findById(id);
+
+    if (!event) {
+      throw new WebhookError('Webhook event not found', 'WEBHOOK_EVENT_NOT_FOUND');
+    }
+
+    return { ...event, deadLetter: await this.repository.findDeadLetter(id) };
+  }
+
+  /**
+   * Runs one attempt of the event. Returns null when another worker claimed it first
+   */
+  private async process(event: WebhookEventRecord, now: Date): Promise<WebhookEventRecord | null> {
+    const leaseUntil = new Date(now.getTime() + WEBHOOK_PROCESSING_LEASE_MINUTES * MINUTE_MS);
+    const claimed = await this.repository.claim(event, now, leaseUntil);
+
+    if (!claimed) {
+      return null;
+    }
+
+    try {
+      const handler = this.resolveHandler(claimed.provider);
+      if (!handler) {
+        throw new Error(`No webhook handler for provider ${claimed.provider}`);
+      }
+
+      await handler(claimed);
+    } catch (error) {
+      return this.fail(claimed, error, now);
+    }
+
+    return this.repository.update(
+      claimed.id,
+      { status: 'processed', processed_at: now.toISOString(), next_attempt_at: null, last_error: null },
+      now,
+    );
+  }
+
+  private async fail(event: WebhookEventRecord, error: unknown, now: Date): Promise<WebhookEventRecord> {
+    const message = error instanceof Error ? error.message : 'Webhook handler failed';
+    const backoffMinutes = WEBHOOK_RETRY_BACKOFF_MINUTES[event.attempts - 1];
+
+    console.error(
+      `[WebhookPipelineService] ${event.provider} event ${event.eventId} failed (attempt ${event.attempts}):`,
+      error,
+    );
+
+    if (backoffMinutes === undefined) {
+      await this.repository.upsertDeadLetter(event, message, now);
+      return this.repository.update(event.id, { status: 'dead_letter', next_attempt_at: null, last_error: message }, now);
+    }
+
+    return this.repository.update(
+      event.id,
+      {
+        status: 'retry_scheduled',
+        next_attempt_at: new Date(now.getTime() + backoffMinutes * MINUTE_MS).toISOString(),
+        last_error: message,
+      },
+      now,
+    );
+  }
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import {
+  WEBHOOK_EVENT_STATUSES,
+  type WebhookEventDetail,
+  type WebhookEventRecord,
+  type WebhookEventStatus,
+  type WebhooksDictionary,
+} from '../domain/models/webhook-event';
+import type { WebhookEventListFilters } from '../repositories/webhook-event-repository';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface WebhooksViewProps {
+  dictionary: WebhooksDictionary;
+  events: WebhookEventRecord[];
+  filters: WebhookEventListFilters;
+  loading: boolean;
+  error: string | null;
+  detail: WebhookEventDetail | null;
+  submitting: boolean;
+  onFiltersChange: (filters: WebhookEventListFilters) => void;
+  onRefresh: () => void;
+  onOpen: (id: string) => Promise<void>;
+  onClose: () => void;
+  onReplay: (id: string) => Promise<void>;
+}
+
+const ALL = 'all';
+
+/**
+ * Gateways that deliver webhooks: the Stripe and PayPal routes and the payment plugins
+ */
+const WEBHOOK_PROVIDERS = ['stripe', 'paypal', 'authorize_net', 'payoneer', 'mercadopago'];
+
+const STATUS_BADGE: Record<WebhookEventStatus, string> = {
+  received: 'bg-sky-100 text-sky-900 dark:bg-sky-500/20 dark:text-sky-100',
+  processing: 'bg-violet-100 text-violet-900 dark:bg-violet-500/20 dark:text-violet-100',
+  processed: 'bg-emerald-100 text-emerald-900 dark:bg-emerald-500/20 dark:text-emerald-100',
+  retry_scheduled: 'bg-amber-100 text-amber-900 dark:bg-amber-500/20 dark:text-amber-100',
+  dead_letter: 'bg-rose-100 text-rose-900 dark:bg-rose-500/20 dark:text-rose-100',
+};
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : null);
+
+/**
+ * Payment webhook events with their processing status, retries and dead-letter queue. Any event
+ * can be inspected with its raw payload and replayed
+ */
+export function WebhooksView({
+  dictionary,
+  events,
+  filters,
+  loading,
+  error,
+  detail,
+  submitting,
+  onFiltersChange,
+  onRefresh,
+  onOpen,
+  onClose,
+  onReplay,
+}: WebhooksViewProps) {
+  const { toast } = useToast();
+
+  const handleOpen = async (id: string) => {
+    try {
+      await onOpen(id);
+    } catch (loadError) {
+      toast({
+        title: dictionary.error.load,
+        description: loadError instanceof Error ? loadError.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReplay = async (id: string) => {
+    if (!confirm(dictionary.confirmReplay)) return;
+
+    try {
+      await onReplay(id);
+      toast({ title: dictionary.success.replayed });
+    } catch (replayError) {
+      toast({
+        title: dictionary.error.replay,
+        description: replayError instanceof Error ? replayError.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const statusBadge = (status: WebhookEventStatus) => (
+    <Badge variant="outline" className={STATUS_BADGE[status]}>
+      {dictionary.statuses[status] ?? status}
+    </Badge>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-50">{dictionary.title}</h2>
+          <p className="text-sm text-zinc-600 dark:text-zinc-300">{dictionary.description}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select
+            value={filters.status ?? ALL}
+            onValueChange={(value) =>
+              onFiltersChange({ ...filters, status: value === ALL ? null : (value as WebhookEventStatus) })
+            }
+          >
+            <SelectTrigger className="w-44" aria-label={dictionary.filters.status}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{dictionary.filters.all}</SelectItem>
+              {WEBHOOK_EVENT_STATUSES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {dictionary.statuses[option] ?? option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.provider ?? ALL}
+            onValueChange={(value) => onFiltersChange({ ...filters, provider: value === ALL ? null : value })}
+          >
+            <SelectTrigger className="w-40" aria-label={dictionary.filters.provider}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{dictionary.filters.all}</SelectItem>
+              {WEBHOOK_PROVIDERS.map((provider) => (
+                <SelectItem key={provider} value={provider}>
+                  {provider}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={onRefresh} disabled={loading}>
+            {dictionary.refresh}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-rose-200 bg-rose-50 dark:border-rose-500/30 dark:bg-rose-500/10">
+          <CardHeader>
+            <CardTitle className="text-rose-900 dark:text-rose-100">{dictionary.error.title}</CardTitle>
+            <CardDescription className="text-rose-700 dark:text-rose-200">{error}</CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button onClick={onRefresh}>{dictionary.refresh}</Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      {loading && events.length === 0 ? (
+        <div className="h-32 animate-pulse rounded-xl bg-zinc-200/60 dark:bg-zinc-800/60" />
+      ) : (
+        <Card className="border-primary/15 bg-white/60 dark:border-primary/20 dark:bg-zinc-900/40">
+          <CardContent className="p-0">
+            {events.length === 0 ? (
+              <p className="p-6 text-sm text-zinc-500 dark:text-zinc-400">{dictionary.empty}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{dictionary.columns.event}</TableHead>
+                    <TableHead>{dictionary.columns.provider}</TableHead>
+                    <TableHead>{dictionary.columns.status}</TableHead>
+                    <TableHead className="text-right">{dictionary.columns.attempts}</TableHead>
+                    <TableHead>{dictionary.columns.nextAttempt}</TableHead>
+                    <TableHead>{dictionary.columns.received}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell>
+                        <p className="font-medium">{event.eventType ?? '—'}</p>
+                        <p className="font-mono text-xs text-zinc-500 dark:text-zinc-400">{event.eventId}</p>
+                        {event.lastError && (
+                          <p className="max-w-md truncate text-xs text-rose-600 dark:text-rose-300" title={event.lastError}>
+                            {event.lastError}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs">{event.provider}</TableCell>
+                      <TableCell>{statusBadge(event.status)}</TableCell>
+                      <TableCell className="text-right">{event.attempts}</TableCell>
+                      <TableCell className="text-xs">
+                        {event.status === 'retry_scheduled' ? formatDateTime(event.nextAttemptAt) : '—'}
+                      </TableCell>
+                      <TableCell className="text-xs">{formatDateTime(event.createdAt)}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => handleOpen(event.id)}>
+                            {dictionary.view}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleReplay(event.id)}
+                            disabled={submitting || event.status === 'processing'}
+                          >
+                            {submitting ? dictionary.replaying : dictionary.replay}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={Boolean(detail)} onOpenChange={(isOpen) => !isOpen && onClose()}>
+        <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{dictionary.detail.title}</DialogTitle>
+            <DialogDescription>
+              {detail?.provider} · {detail?.eventType ?? '—'}
+            </DialogDescription>
+          </DialogHeader>
+          {detail && (
+            <div className="space-y-4 text-sm">
+              <dl className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                <div>
+                  <dt className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.detail.eventId}</dt>
+                  <dd className="font-mono text-xs">{detail.eventId}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.columns.status}</dt>
+                  <dd>
+                    {statusBadge(detail.status)} · {dictionary.columns.attempts}: {detail.attempts}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.columns.received}</dt>
+                  <dd>{formatDateTime(detail.createdAt)}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.detail.processedAt}</dt>
+                  <dd>{formatDateTime(detail.processedAt) ?? dictionary.never}</dd>
+                </div>
+                {detail.deadLetter && (
+                  <>
+                    <div>
+                      <dt className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.detail.deadLetteredAt}</dt>
+                      <dd>{formatDateTime(detail.deadLetter.createdAt)}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.detail.replayedAt}</dt>
+                      <dd>{formatDateTime(detail.deadLetter.replayedAt) ?? dictionary.never}</dd>
+                    </div>
+                  </>
+                )}
+              </dl>
+              {detail.lastError && (
+                <div className="space-y-1">
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.detail.lastError}</p>
+                  <p className="rounded-md bg-rose-50 p-2 text-xs text-rose-700 dark:bg-rose-500/10 dark:text-rose-200">
+                    {detail.lastError}
+                  </p>
+                </div>
+              )}
+              <div className="space-y-1">
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">{dictionary.detail.payload}</p>
+                <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(detail.payload, null, 2)}
+                </pre>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={onClose}>
+                  {dictionary.close}
+                </Button>
+                <Button
+                  onClick={() => handleReplay(detail.id)}
+                  disabled={submitting || detail.status === 'processing'}
+                >
+                  {submitting ? dictionary.replaying : dictionary.replay}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
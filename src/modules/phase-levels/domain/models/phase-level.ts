@@ -11,6 +11,10 @@ export const PhaseLevelSchema = z.object({
   affiliateSponsorCommissionRate: z.number().min(0).max(1).default(0),
   creditCents: z.number().int().min(0),
   freeProductValueCents: z.number().int().min(0).default(0),
+  /** Personal volume (PV) required in the evaluated cycle; 0 disables the check */
+  minPersonalVolume: z.number().min(0).default(0),
+  /** Group volume (GV) required in the evaluated cycle; 0 disables the check */
+  minGroupVolume: z.number().min(0).default(0),
   isActive: z.boolean(),
   displayOrder: z.number().int(),
   descriptorEn: z.string().nullable().optional(),
@@ -37,6 +41,8 @@ export const PhaseLevelCreateSchema = PhaseLevelSchema.pick({
   affiliateSponsorCommissionRate: true,
   creditCents: true,
   freeProductValueCents: true,
+  minPersonalVolume: true,
+  minGroupVolume: true,
   isActive: true,
   displayOrder: true,
 });
@@ -52,6 +58,8 @@ export const PhaseLevelUpdateSchema = PhaseLevelSchema.pick({
   affiliateSponsorCommissionRate: true,
   creditCents: true,
   freeProductValueCents: true,
+  minPersonalVolume: true,
+  minGroupVolume: true,
   isActive: true,
   displayOrder: true,
 }).partial();
@@ -69,6 +77,8 @@ export const DEFAULT_PHASE_LEVELS: Omit<PhaseLevel, 'id' | 'createdAt' | 'update
     affiliateSponsorCommissionRate: 0,
     creditCents: 0,
     freeProductValueCents: 6500,
+    minPersonalVolume: 0,
+    minGroupVolume: 0,
     isActive: true,
     displayOrder: 0,
   },
@@ -82,6 +92,8 @@ export const DEFAULT_PHASE_LEVELS: Omit<PhaseLevel, 'id' | 'createdAt' | 'update
     affiliateSponsorCommissionRate: 0,
     creditCents: 0,
     freeProductValueCents: 6500,
+    minPersonalVolume: 0,
+    minGroupVolume: 0,
     isActive: true,
     displayOrder: 1,
   },
@@ -95,6 +107,8 @@ export const DEFAULT_PHASE_LEVELS: Omit<PhaseLevel, 'id' | 'createdAt' | 'update
     affiliateSponsorCommissionRate: 0,
     creditCents: 12500,
     freeProductValueCents: 0,
+    minPersonalVolume: 0,
+    minGroupVolume: 0,
     isActive: true,
     displayOrder: 2,
   },
@@ -108,6 +122,8 @@ export const DEFAULT_PHASE_LEVELS: Omit<PhaseLevel, 'id' | 'createdAt' | 'update
     affiliateSponsorCommissionRate: 0,
     creditCents: 24000,
     freeProductValueCents: 0,
+    minPersonalVolume: 0,
+    minGroupVolume: 0,
     isActive: true,
     displayOrder: 3,
   },
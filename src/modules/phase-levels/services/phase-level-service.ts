@@ -10,7 +10,7 @@ import { PhaseLevelSchema, type PhaseLevel } from '../domain/models/phase-level'
  * Database column names for phase_levels table
  */
 const PHASE_LEVEL_COLUMNS =
-  'id, level, name, name_en, name_es, commission_rate, subscription_discount_rate, affiliate_sponsor_commission_rate, credit_cents, free_product_value_cents, is_active, display_order, descriptor_en, descriptor_es, requirement_en, requirement_es, rewards_en, rewards_es, visibility_tag_en, visibility_tag_es, created_at, updated_at';
+  'id, level, name, name_en, name_es, commission_rate, subscription_discount_rate, affiliate_sponsor_commission_rate, credit_cents, free_product_value_cents, min_personal_volume, min_group_volume, is_active, display_order, descriptor_en, descriptor_es, requirement_en, requirement_es, rewards_en, rewards_es, visibility_tag_en, visibility_tag_es, created_at, updated_at';
 
 /**
  * Maps database row (snake_case) to domain model (camelCase)
@@ -27,6 +27,8 @@ function mapDatabaseRowToPhaseLevel(row: any): PhaseLevel {
     affiliateSponsorCommissionRate: row.affiliate_sponsor_commission_rate ?? 0,
     creditCents: row.credit_cents,
     freeProductValueCents: row.free_product_value_cents ?? (row.level === 1 ? 6500 : 0),
+    minPersonalVolume: Number(row.min_personal_volume ?? 0),
+    minGroupVolume: Number(row.min_group_volume ?? 0),
     isActive: row.is_active,
     displayOrder: row.display_order,
     descriptorEn: row.descriptor_en,
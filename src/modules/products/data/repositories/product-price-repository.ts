@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface CatalogPrice {
+  productId: string;
+  variantId: string | null;
+  priceCents: number;
+}
+
+export class ProductPriceRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Base currency prices of the products and of their active variants
+   */
+  async findBasePrices(productIds: string[], variantIds: string[]): Promise<CatalogPrice[]> {
+    const { data: products, error: productsError } = await this.client
+      .from('products')
+      .select('id, price')
+      .in('id', productIds);
+
+    if (productsError) {
+      throw new Error(`Failed to load product prices: ${productsError.message}`);
+    }
+
+    const prices: CatalogPrice[] = (products ?? []).map((product) => ({
+      productId: product.id,
+      variantId: null,
+      priceCents: Math.round(Number(product.price) * 100),
+    }));
+
+    if (variantIds.length === 0) {
+      return prices;
+    }
+
+    const { data: variants, error: variantsError } = await this.client
+      .from('product_variants')
+      .select('id, product_id, price')
+      .in('id', variantIds)
+      .eq('is_active', true);
+
+    if (variantsError) {
+      throw new Error(`Failed to load variant prices: ${variantsError.message}`);
+    }
+
+    return prices.concat((variants ?? []).map((variant) => ({
+      productId: variant.product_id,
+      variantId: variant.id,
+      priceCents: Math.round(Number(variant.price) * 100),
+    })));
+  }
+
+  async findLocalPrices(productIds: string[], currency: string): Promise<CatalogPrice[]> {
+    const { data, error } = await this.client
+      .from('product_prices')
+      .select('product_id, variant_id, price_cents')
+      .eq('currency', currency)
+      .in('product_id', productIds);
+
+    if (error) {
+      throw new Error(`Failed to load local prices: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => ({
+      productId: row.product_id,
+      variantId: row.variant_id ?? null,
+      priceCents: Number(row.price_cents),
+    }));
+  }
+
+  async findBuyerCountry(userId: string): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('profiles')
+      .select('country')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load buyer country: ${error.message}`);
+    }
+
+    const country = typeof data?.country === 'string' ? data.country.trim().toUpperCase() : '';
+    return /^[A-Z]{2}$/.test(country) ? country : null;
+  }
+}
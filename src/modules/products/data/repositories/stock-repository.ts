@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  ManualStockMovementKind,
+  ProductStockLevel,
+  StockMovement,
+  StockMovementKind,
+  StockReservationItem,
+} from '../../domain/models/product-inventory';
+
+interface StockLevelRow {
+  id: string;
+  variant_id: string | null;
+  sku: string | null;
+  variant_label: string | null;
+  name: string | null;
+  slug: string | null;
+  stock_quantity: number | null;
+  reserved_quantity: number | null;
+  available_quantity: number | null;
+  low_stock_threshold: number | null;
+  is_low_stock: boolean | null;
+}
+
+interface StockMovementRow {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  kind: StockMovementKind;
+  quantity: number;
+  stock_after: number;
+  order_id: string | null;
+  reservation_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const toLevel = (row: StockLevelRow): ProductStockLevel => ({
+  id: row.id,
+  variantId: row.variant_id ?? null,
+  sku: row.sku ?? null,
+  variantLabel: row.variant_label ?? null,
+  name: row.name ?? 'Untitled product',
+  slug: row.slug,
+  stockQuantity: Number(row.stock_quantity ?? 0),
+  reservedQuantity: Number(row.reserved_quantity ?? 0),
+  availableQuantity: Number(row.available_quantity ?? 0),
+  lowStockThreshold: Number(row.low_stock_threshold ?? 0),
+  isLowStock: Boolean(row.is_low_stock),
+});
+
+const toMovement = (row: StockMovementRow): StockMovement => ({
+  id: row.id,
+  productId: row.product_id,
+  variantId: row.variant_id ?? null,
+  kind: row.kind,
+  quantity: row.quantity,
+  stockAfter: row.stock_after,
+  orderId: row.order_id,
+  reservationId: row.reservation_id,
+  note: row.note,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+});
+
+export class StockRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  /**
+   * Runs reserve_stock, which replaces any earlier reservation of the same key
+   */
+  async reserve(reservationKey: string, userId: string | null, items: StockReservationItem[], ttlSeconds: number): Promise<string> {
+    const { data, error } = await this.client.rpc('reserve_stock', {
+      p_reservation_key: reservationKey,
+      p_user_id: userId,
+      p_items: items.map((item) => ({
+        product_id: item.productId,
+        variant_id: item.variantId ?? null,
+        quantity: item.quantity,
+      })),
+      p_ttl_seconds: ttlSeconds,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as string;
+  }
+
+  async release(reservationKey: string): Promise<number> {
+    const { data, error } = await this.client.rpc('release_stock_reservation', {
+      p_reservation_key: reservationKey,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return Number(data ?? 0);
+  }
+
+  async recordCheckoutSale(reservationKey: string | null, orderId: string | null): Promise<number> {
+    const { data, error } = await this.client.rpc('record_checkout_stock_sale', {
+      p_reservation_key: reservationKey,
+      p_order_id: orderId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return Number(data ?? 0);
+  }
+
+  async recordMovement(input: {
+    productId: string;
+    variantId: string | null;
+    kind: ManualStockMovementKind;
+    quantity: number;
+    note: string | null;
+    createdBy: string | null;
+    orderId: string | null;
+  }): Promise<StockMovement> {
+    const { data, error } = await this.client.rpc('record_stock_movement', {
+      p_product_id: input.productId,
+      p_kind: input.kind,
+      p_quantity: input.quantity,
+      p_note: input.note,
+      p_created_by: input.createdBy,
+      p_order_id: input.orderId,
+      p_variant_id: input.variantId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return toMovement((Array.isArray(data) ? data[0] : data) as StockMovementRow);
+  }
+
+  async listLevels(): Promise<ProductStockLevel[]> {
+    const { data, error } = await this.client
+      .from('product_stock_levels')
+      .select('*')
+      .order('available_quantity', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as StockLevelRow[]).map(toLevel);
+  }
+
+  async listMovements(filters: { productId?: string; variantId?: string; limit: number }): Promise<StockMovement[]> {
+    let query = this.client.from('stock_movements').select('*');
+
+    if (filters.productId) {
+      query = query.eq('product_id', filters.productId);
+    }
+
+    if (filters.variantId) {
+      query = query.eq('variant_id', filters.variantId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(filters.limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return ((data ?? []) as StockMovementRow[]).map(toMovement);
+  }
+}
@@ -1,9 +1,11 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import {
   ProductSchema,
+  ProductVariantSchema,
   type Product,
   type ProductCreationInput,
   type ProductImage,
+  type ProductVariant,
 } from '@/lib/models/definitions';
 import type { ProductRepository } from '../../domain/contracts/product-repository';
 import { ProductEventBus, type ProductEvent } from '../../domain/events/product-event-bus';
@@ -52,6 +54,9 @@ const missingCartVisibilityColumnMessage =
   'Supabase reports that the "cart_visibility_countries" column is missing on the products table. ' +
   'Run docs/migrations/20250418_add_product_cart_visibility_countries.sql to enable per-country cart controls.';
 
+/** Products are read together with their variants */
+const PRODUCT_SELECT = '*, variants:product_variants(*)';
+
 export interface SupabaseProductRepositoryDependencies {
   publicClient: SupabaseClient;
   serviceRoleClient: SupabaseClient | null;
@@ -87,7 +92,7 @@ export class SupabaseProductRepository implements ProductRepository {
     const readClient = this.getReadClient();
     const { data, error } = await this.executeWithResilience(() => readClient
       .from('products')
-      .select('*')
+      .select(PRODUCT_SELECT)
       .order('created_at', { ascending: false }));
 
     if (error) {
@@ -110,7 +115,7 @@ export class SupabaseProductRepository implements ProductRepository {
 
     let query = client
       .from('products')
-      .select('*')
+      .select(PRODUCT_SELECT)
       .eq('is_featured', true)
       .order('updated_at', { ascending: false });
 
@@ -164,7 +169,7 @@ export class SupabaseProductRepository implements ProductRepository {
     const client = this.deps.serviceRoleClient ?? this.deps.componentClient;
     const { data, error } = await client
       .from('products')
-      .select('*')
+      .select(PRODUCT_SELECT)
       .eq('slug', slug)
       .single();
 
@@ -209,7 +214,7 @@ export class SupabaseProductRepository implements ProductRepository {
 
     const { data, error } = await readClient
       .from('products')
-      .select('*')
+      .select(PRODUCT_SELECT)
       .in('id', baseProduct.related_product_ids);
 
     if (error) {
@@ -237,7 +242,7 @@ export class SupabaseProductRepository implements ProductRepository {
     const readClient = this.getReadClient();
     const { data, error } = await readClient
       .from('products')
-      .select('*')
+      .select(PRODUCT_SELECT)
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -253,9 +258,12 @@ export class SupabaseProductRepository implements ProductRepository {
   }
 
   async create(product: ProductCreationInput): Promise<Product> {
-    const normalizedProduct: ProductCreationInput = {
-      ...product,
+    const { variants, ...productFields } = product;
+    const normalizedProduct: Omit<ProductCreationInput, 'variants'> = {
+      ...productFields,
       cart_visibility_countries: product.cart_visibility_countries ?? [],
+      // The stock of a product with variants is the sum of the variants, recorded per variant
+      ...(variants && variants.length > 0 ? { stock_quantity: 0 } : {}),
     };
 
     const { data, error } = await this.executeWithResilience(() => this.deps.componentClient
@@ -280,7 +288,11 @@ export class SupabaseProductRepository implements ProductRepository {
       throw new Error(`Error creating product: ${error.message}`);
     }
 
-    const parsed = ProductSchema.parse(data);
+    let parsed = ProductSchema.parse(data);
+
+    if (variants) {
+      parsed = { ...parsed, variants: await this.saveVariants(parsed.id, variants) };
+    }
 
     await this.deps.auditLogger('PRODUCT_CREATED', 'product', parsed.id, {
       name: parsed.name,
@@ -310,10 +322,16 @@ export class SupabaseProductRepository implements ProductRepository {
     // Get current product images for comparison (before update)
     const currentImages = existingProduct?.images || [];
 
+    // Variants live in their own table; their stock sets the product stock
+    const { variants, ...productUpdates } = updates;
+    if (variants && variants.length > 0) {
+      delete productUpdates.stock_quantity;
+    }
+
     // Update the product
     const { data: updateData, error } = await this.deps.componentClient
       .from('products')
-      .update(updates)
+      .update(productUpdates)
       .eq('id', id)
       .select()
       .single();
@@ -350,7 +368,11 @@ export class SupabaseProductRepository implements ProductRepository {
           throw new Error(`Product with ID ${id} not found after update`);
         }
 
-        const parsed = ProductSchema.parse(verifyData);
+        let parsed = ProductSchema.parse(verifyData);
+
+        if (variants) {
+          parsed = { ...parsed, variants: await this.saveVariants(id, variants) };
+        }
 
         // Continue with the rest of the update logic
         await this.processImageChanges(id, currentImages, updates.images);
@@ -374,7 +396,11 @@ export class SupabaseProductRepository implements ProductRepository {
       throw new Error(`No data returned after updating product ${id}. This might be due to the update affecting 0 rows or constraint violations.`);
     }
 
-    const parsed = ProductSchema.parse(updateData);
+    let parsed = ProductSchema.parse(updateData);
+
+    if (variants) {
+      parsed = { ...parsed, variants: await this.saveVariants(id, variants) };
+    }
 
     // Process image changes (delete old images that are no longer needed)
     await this.processImageChanges(id, currentImages, updates.images);
@@ -555,6 +581,57 @@ export class SupabaseProductRepository implements ProductRepository {
     }
   }
 
+  /**
+   * Replaces the variants of a product. Variants keep their id across saves, so their stock
+   * history and the order lines that reference them stay linked.
+   */
+  private async saveVariants(productId: string, variants: ProductVariant[]): Promise<ProductVariant[]> {
+    const client = this.deps.componentClient;
+    const keepIds = variants.map((variant) => variant.id);
+
+    let removal = client.from('product_variants').delete().eq('product_id', productId);
+    if (keepIds.length > 0) {
+      removal = removal.not('id', 'in', `(${keepIds.join(',')})`);
+    }
+
+    const { error: deleteError } = await removal;
+    if (deleteError) {
+      throw new Error(`Error removing product variants: ${deleteError.message}`);
+    }
+
+    if (variants.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await client
+      .from('product_variants')
+      .upsert(
+        variants.map((variant, index) => ({
+          id: variant.id,
+          product_id: productId,
+          sku: variant.sku,
+          options: variant.options,
+          price: variant.price,
+          stock_quantity: variant.stock_quantity,
+          images: variant.images,
+          position: index,
+          is_active: variant.is_active,
+        })),
+      )
+      .select('*');
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('Each variant needs a unique SKU and a unique combination of options.');
+      }
+      throw new Error(`Error saving product variants: ${error.message}`);
+    }
+
+    return ProductVariantSchema.array()
+      .parse(data ?? [])
+      .sort((a, b) => a.position - b.position);
+  }
+
   private parseProducts(data: unknown[] | null | undefined): Product[] {
     return (data ?? []).map((item) => ProductSchema.parse(item));
   }
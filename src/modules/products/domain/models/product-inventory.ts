@@ -8,3 +8,60 @@ export interface ProductInventorySummary {
   totalStock: number;
   products: ProductInventoryRecord[];
 }
+
+export type StockMovementKind = 'receipt' | 'sale' | 'return' | 'adjustment' | 'damage';
+
+/**
+ * Movement kinds an operator may record by hand; sales come only from paid checkouts
+ */
+export type ManualStockMovementKind = Exclude<StockMovementKind, 'sale'>;
+
+export type StockReservationStatus = 'active' | 'consumed' | 'released' | 'expired';
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  kind: StockMovementKind;
+  /** Signed change of the stock on hand */
+  quantity: number;
+  stockAfter: number;
+  orderId: string | null;
+  reservationId: string | null;
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface StockReservationItem {
+  productId: string;
+  /** Required for products with variants */
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface StockReservation {
+  reservationKey: string;
+  expiresAt: string;
+}
+
+/**
+ * Stock of a product, or of one variant of a product with variants
+ */
+export interface ProductStockLevel extends ProductInventoryRecord {
+  variantId: string | null;
+  sku: string | null;
+  variantLabel: string | null;
+  slug: string | null;
+  reservedQuantity: number;
+  availableQuantity: number;
+  lowStockThreshold: number;
+  isLowStock: boolean;
+}
+
+export interface ProductStockLevelsSummary {
+  totalStock: number;
+  totalReserved: number;
+  lowStockCount: number;
+  products: ProductStockLevel[];
+}
@@ -0,0 +1,4 @@
+import { getSupabaseAdminClient } from '@/modules/multilevel/infrastructure/supabase-admin-client';
+import { StockService } from '../services/stock-service';
+
+export const createStockService = () => new StockService(getSupabaseAdminClient());
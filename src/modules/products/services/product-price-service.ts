@@ -0,0 +1,148 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAppSettings } from '@/modules/app-settings/services/app-settings-service';
+import { FxRateNotFoundError, FxRateService } from '@/modules/multilevel/services/fx-rate-service';
+import { ProductPriceRepository, type CatalogPrice } from '../data/repositories/product-price-repository';
+
+export type ProductPriceErrorCode = 'CURRENCY_NOT_AVAILABLE' | 'PRODUCT_NOT_FOUND' | 'PRICE_MISMATCH';
+
+export class ProductPriceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ProductPriceErrorCode,
+    public readonly productId: string | null = null,
+  ) {
+    super(message);
+    this.name = 'ProductPriceError';
+  }
+}
+
+export const PRODUCT_PRICE_ERROR_STATUS: Record<ProductPriceErrorCode, number> = {
+  CURRENCY_NOT_AVAILABLE: 400,
+  PRODUCT_NOT_FOUND: 404,
+  PRICE_MISMATCH: 400,
+};
+
+export interface PricedCartItem {
+  productId: string;
+  variantId?: string | null;
+  priceCents: number;
+}
+
+/**
+ * Currency a checkout is charged in and the price list its cart is checked against
+ */
+export interface CheckoutPricing {
+  currency: string;
+  baseCurrency: string;
+  /** Units of `currency` per unit of the base currency; 1 for base currency orders */
+  fxRate: number;
+  unitPrices: Map<string, number>;
+  baseUnitPrices: Map<string, number>;
+}
+
+export const getPriceKey = (productId: string, variantId?: string | null) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+const toPriceMap = (prices: CatalogPrice[]) =>
+  new Map(prices.map((price) => [getPriceKey(price.productId, price.variantId), price.priceCents]));
+
+/**
+ * Convert a base currency amount (shipping rates, fixed promotions) into the order currency
+ */
+export const fromBaseCents = (amountCents: number, pricing: Pick<CheckoutPricing, 'fxRate'>) =>
+  Math.round(amountCents * pricing.fxRate);
+
+/**
+ * The cart with base currency prices. Shipping and promotions are defined in the base currency,
+ * so they are quoted on these prices and converted afterwards.
+ */
+export function toBaseCartItems<T extends PricedCartItem>(cartItems: T[], pricing: CheckoutPricing): T[] {
+  return cartItems.map((item) => ({
+    ...item,
+    priceCents: pricing.baseUnitPrices.get(getPriceKey(item.productId, item.variantId)) ?? item.priceCents,
+  }));
+}
+
+/**
+ * Decides the currency of a checkout and loads the prices of its cart.
+ *
+ * Catalog prices are held in the base currency (`settings.currency`). A cart is priced in the
+ * currency of the buyer's country only when `product_prices` has a local price for every line;
+ * any other requested currency is rejected, so the amount charged is always in the currency of
+ * the prices the cart was checked against.
+ */
+export class ProductPriceService {
+  private readonly prices: ProductPriceRepository;
+
+  constructor(private readonly client: SupabaseClient) {
+    this.prices = new ProductPriceRepository(client);
+  }
+
+  async resolveCheckoutPricing(input: {
+    userId: string;
+    cartItems: PricedCartItem[];
+    requestedCurrency?: string | null;
+  }): Promise<CheckoutPricing> {
+    const settings = await getAppSettings();
+    const baseCurrency = settings.currency.toUpperCase();
+    const currency = input.requestedCurrency?.trim().toUpperCase() || baseCurrency;
+
+    const productIds = [...new Set(input.cartItems.map((item) => item.productId))];
+    const variantIds = input.cartItems.map((item) => item.variantId).filter((id): id is string => Boolean(id));
+    const baseUnitPrices = productIds.length > 0
+      ? toPriceMap(await this.prices.findBasePrices(productIds, variantIds))
+      : new Map<string, number>();
+
+    if (currency === baseCurrency) {
+      return { currency, baseCurrency, fxRate: 1, unitPrices: baseUnitPrices, baseUnitPrices };
+    }
+
+    const country = await this.prices.findBuyerCountry(input.userId);
+    const localCurrency = country
+      ? settings.currencies.find((entry) => entry.countryCodes.includes(country))?.code.toUpperCase()
+      : undefined;
+
+    if (currency !== localCurrency) {
+      throw new ProductPriceError(`Orders in ${currency} are not available for your country`, 'CURRENCY_NOT_AVAILABLE');
+    }
+
+    const unitPrices = productIds.length > 0
+      ? toPriceMap(await this.prices.findLocalPrices(productIds, currency))
+      : new Map<string, number>();
+
+    const unpriced = input.cartItems.find((item) => !unitPrices.has(getPriceKey(item.productId, item.variantId)));
+    if (unpriced) {
+      throw new ProductPriceError(`This product has no price in ${currency}`, 'CURRENCY_NOT_AVAILABLE', unpriced.productId);
+    }
+
+    try {
+      const fxRate = await new FxRateService(this.client).getRate(baseCurrency, currency);
+      return { currency, baseCurrency, fxRate, unitPrices, baseUnitPrices };
+    } catch (error) {
+      if (error instanceof FxRateNotFoundError) {
+        throw new ProductPriceError(`Orders in ${currency} are not available yet`, 'CURRENCY_NOT_AVAILABLE');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The cart lines with the prices of the checkout price list. The client prices must match
+   * them: a different price means a stale cart or a tampered request.
+   */
+  priceCartItems<T extends PricedCartItem>(cartItems: T[], pricing: CheckoutPricing): T[] {
+    return cartItems.map((item) => {
+      const priceCents = pricing.unitPrices.get(getPriceKey(item.productId, item.variantId));
+
+      if (priceCents === undefined) {
+        throw new ProductPriceError('Product not found', 'PRODUCT_NOT_FOUND', item.productId);
+      }
+
+      if (item.priceCents !== priceCents) {
+        throw new ProductPriceError('Price mismatch detected. Please refresh your cart.', 'PRICE_MISMATCH', item.productId);
+      }
+
+      return { ...item, priceCents };
+    });
+  }
+}
@@ -0,0 +1,228 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { StockRepository } from '../data/repositories/stock-repository';
+import type {
+  ManualStockMovementKind,
+  ProductStockLevelsSummary,
+  StockMovement,
+  StockReservation,
+  StockReservationItem,
+} from '../domain/models/product-inventory';
+
+export type StockErrorCode =
+  | 'INSUFFICIENT_STOCK'
+  | 'INVALID_RESERVATION'
+  | 'INVALID_MOVEMENT'
+  | 'PRODUCT_NOT_FOUND'
+  | 'VARIANT_REQUIRED';
+
+export class StockError extends Error {
+  constructor(
+    message: string,
+    public readonly code: StockErrorCode,
+    public readonly productId: string | null = null,
+  ) {
+    super(message);
+    this.name = 'StockError';
+  }
+}
+
+/**
+ * How long a checkout holds its stock. Stripe sessions cannot expire sooner than 30 minutes
+ * after they are created; the extra minutes cover the time spent creating the session, which
+ * then expires together with its reservation.
+ */
+export const STOCK_RESERVATION_TTL_SECONDS = 35 * 60;
+
+export const MANUAL_STOCK_MOVEMENT_KINDS: ManualStockMovementKind[] = ['receipt', 'return', 'adjustment', 'damage'];
+
+const MAX_MOVEMENTS = 200;
+
+/**
+ * Signed stock change of a manual movement. Receipts, returns and damage are entered as units;
+ * adjustments carry their own sign.
+ */
+export function toSignedStockQuantity(kind: ManualStockMovementKind, quantity: number): number {
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    throw new StockError('Quantity must be a non-zero whole number', 'INVALID_MOVEMENT');
+  }
+
+  switch (kind) {
+    case 'receipt':
+    case 'return':
+      return Math.abs(quantity);
+    case 'damage':
+      return -Math.abs(quantity);
+    case 'adjustment':
+      return quantity;
+    default:
+      throw new StockError(`Unknown stock movement ${kind as string}`, 'INVALID_MOVEMENT');
+  }
+}
+
+/**
+ * Items to reserve from the cart items a checkout sends ({ productId, variantId, quantity, ... })
+ */
+export function toStockReservationItems(cartItems: unknown): StockReservationItem[] {
+  if (!Array.isArray(cartItems)) {
+    return [];
+  }
+
+  return cartItems
+    .filter((item): item is { productId: string; variantId?: unknown; quantity: unknown } =>
+      Boolean(item && typeof item === 'object' && typeof (item as { productId?: unknown }).productId === 'string'),
+    )
+    .map((item) => ({
+      productId: item.productId,
+      ...(typeof item.variantId === 'string' && item.variantId ? { variantId: item.variantId } : {}),
+      quantity: Number(item.quantity),
+    }));
+}
+
+/**
+ * Stock ledger and checkout reservations. Checkouts reserve their items before the customer is
+ * sent to pay, so two customers can never buy the last unit; the reservation becomes a sale
+ * movement when the order is created and is released when the payment fails or is abandoned.
+ */
+export class StockService {
+  private readonly stock: StockRepository;
+
+  constructor(client: SupabaseClient) {
+    this.stock = new StockRepository(client);
+  }
+
+  async reserveForCheckout(
+    reservationKey: string,
+    userId: string | null,
+    items: StockReservationItem[],
+    ttlSeconds: number = STOCK_RESERVATION_TTL_SECONDS,
+  ): Promise<StockReservation> {
+    const reservable = items.filter((item) => Boolean(item.productId));
+
+    if (!reservationKey || reservable.length === 0) {
+      throw new StockError('A checkout needs at least one product to reserve', 'INVALID_RESERVATION');
+    }
+
+    if (reservable.some((item) => !Number.isInteger(item.quantity) || item.quantity <= 0)) {
+      throw new StockError('Quantities must be positive whole numbers', 'INVALID_RESERVATION');
+    }
+
+    try {
+      const expiresAt = await this.stock.reserve(reservationKey, userId, reservable, ttlSeconds);
+      return { reservationKey, expiresAt };
+    } catch (error) {
+      throw this.toStockError(error);
+    }
+  }
+
+  /**
+   * Frees the stock of a failed or abandoned checkout. Never throws: reservations expire on
+   * their own, so a failed release only delays the stock becoming available again.
+   */
+  async release(reservationKey: string): Promise<number> {
+    try {
+      const released = await this.stock.release(reservationKey);
+
+      if (released > 0) {
+        console.log(`[StockService] Released ${released} reservations of checkout ${reservationKey}`);
+      }
+
+      return released;
+    } catch (error) {
+      console.error(`[StockService] Failed to release checkout ${reservationKey}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Discounts the stock of a paid checkout, consuming its reservation when there is one. Without
+   * an order only the reservation is discounted. Safe to call again for the same checkout.
+   */
+  async recordCheckoutSale(reservationKey: string | null, orderId: string | null): Promise<number> {
+    if (!reservationKey && !orderId) {
+      return 0;
+    }
+
+    const units = await this.stock.recordCheckoutSale(reservationKey || null, orderId);
+
+    if (units > 0) {
+      console.log(`[StockService] Checkout ${orderId ?? reservationKey} discounted ${units} units`);
+    }
+
+    return units;
+  }
+
+  async recordMovement(input: {
+    productId: string;
+    variantId?: string | null;
+    kind: ManualStockMovementKind;
+    quantity: number;
+    note?: string | null;
+    createdBy?: string | null;
+    orderId?: string | null;
+  }): Promise<StockMovement> {
+    if (!MANUAL_STOCK_MOVEMENT_KINDS.includes(input.kind)) {
+      throw new StockError(`Unknown stock movement ${input.kind}`, 'INVALID_MOVEMENT');
+    }
+
+    const quantity = toSignedStockQuantity(input.kind, input.quantity);
+
+    try {
+      return await this.stock.recordMovement({
+        productId: input.productId,
+        variantId: input.variantId ?? null,
+        kind: input.kind,
+        quantity,
+        note: input.note?.trim() || null,
+        createdBy: input.createdBy ?? null,
+        orderId: input.orderId ?? null,
+      });
+    } catch (error) {
+      throw this.toStockError(error);
+    }
+  }
+
+  async getLevels(): Promise<ProductStockLevelsSummary> {
+    const products = await this.stock.listLevels();
+
+    return {
+      totalStock: products.reduce((total, product) => total + product.stockQuantity, 0),
+      totalReserved: products.reduce((total, product) => total + product.reservedQuantity, 0),
+      lowStockCount: products.filter((product) => product.isLowStock).length,
+      products,
+    };
+  }
+
+  async listMovements(filters: { productId?: string; variantId?: string } = {}, limit = 50): Promise<StockMovement[]> {
+    return this.stock.listMovements({
+      productId: filters.productId,
+      variantId: filters.variantId,
+      limit: Math.min(Math.max(Math.trunc(limit) || 1, 1), MAX_MOVEMENTS),
+    });
+  }
+
+  private toStockError(error: unknown): unknown {
+    const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? '');
+    const productId = message.split(':')[1]?.trim() || null;
+
+    if (message.includes('insufficient_stock')) {
+      return new StockError('Not enough stock available', 'INSUFFICIENT_STOCK', productId);
+    }
+    if (message.includes('product_not_found')) {
+      return new StockError('Product not found', 'PRODUCT_NOT_FOUND', productId);
+    }
+    if (message.includes('variant_not_found')) {
+      return new StockError('Product variant not found', 'PRODUCT_NOT_FOUND', productId);
+    }
+    if (message.includes('variant_required')) {
+      return new StockError('Choose a variant of this product', 'VARIANT_REQUIRED', productId);
+    }
+    if (message.includes('invalid_stock_reservation')) {
+      return new StockError('Quantities must be positive whole numbers', 'INVALID_RESERVATION', productId);
+    }
+    if (message.includes('invalid_stock_movement')) {
+      return new StockError('Unknown stock movement', 'INVALID_MOVEMENT');
+    }
+
+    return error;
+  }
+}
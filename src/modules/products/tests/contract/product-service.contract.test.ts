@@ -73,7 +73,7 @@ describe("Contract: product service queries", () => {
     expect(results).toHaveLength(1)
 
     const { query } = getComponentClient().queries[0]
-    expect(query.select).toHaveBeenCalledWith("*")
+    expect(query.select).toHaveBeenCalledWith("*, variants:product_variants(*)")
     expect(query.eq).toHaveBeenCalledWith("is_featured", true)
     expect(query.order).toHaveBeenCalledWith("updated_at", { ascending: false })
     expect(query.limit).toHaveBeenCalledWith(1)
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import {
+  fromBaseCents,
+  ProductPriceError,
+  ProductPriceService,
+  toBaseCartItems,
+} from "@/modules/products/services/product-price-service"
+
+const repository = {
+  findBasePrices: vi.fn(),
+  findLocalPrices: vi.fn(),
+  findBuyerCountry: vi.fn(),
+}
+const getRate = vi.fn()
+
+vi.mock("@/modules/products/data/repositories/product-price-repository", () => ({
+  ProductPriceRepository: vi.fn().mockImplementation(function () {
+    return repository
+  }),
+}))
+
+vi.mock("@/modules/app-settings/services/app-settings-service", () => ({
+  getAppSettings: vi.fn().mockResolvedValue({
+    currency: "usd",
+    currencies: [
+      { code: "USD", countryCodes: [] },
+      { code: "COP", countryCodes: ["CO"] },
+    ],
+  }),
+}))
+
+vi.mock("@/modules/multilevel/services/fx-rate-service", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/modules/multilevel/services/fx-rate-service")>()),
+  FxRateService: vi.fn().mockImplementation(function () {
+    return { getRate }
+  }),
+}))
+
+const cartItems = [
+  { productId: "product-1", quantity: 2, priceCents: 2500 },
+  { productId: "product-2", variantId: "variant-1", quantity: 1, priceCents: 1000 },
+]
+
+describe("ProductPriceService", () => {
+  let service: ProductPriceService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    repository.findBasePrices.mockResolvedValue([
+      { productId: "product-1", variantId: null, priceCents: 2500 },
+      { productId: "product-2", variantId: "variant-1", priceCents: 1000 },
+    ])
+    repository.findLocalPrices.mockResolvedValue([
+      { productId: "product-1", variantId: null, priceCents: 100_000 },
+      { productId: "product-2", variantId: "variant-1", priceCents: 40_000 },
+    ])
+    repository.findBuyerCountry.mockResolvedValue("CO")
+    getRate.mockResolvedValue(4000)
+    service = new ProductPriceService({} as SupabaseClient)
+  })
+
+  it("prices the cart in the base currency when no currency is requested", async () => {
+    const pricing = await service.resolveCheckoutPricing({ userId: "member-1", cartItems })
+
+    expect(pricing.currency).toBe("USD")
+    expect(pricing.fxRate).toBe(1)
+    expect(service.priceCartItems(cartItems, pricing)).toEqual(cartItems)
+    expect(repository.findLocalPrices).not.toHaveBeenCalled()
+  })
+
+  it("prices the cart in the currency of the buyer country with its local prices", async () => {
+    const localItems = [
+      { productId: "product-1", quantity: 2, priceCents: 100_000 },
+      { productId: "product-2", variantId: "variant-1", quantity: 1, priceCents: 40_000 },
+    ]
+
+    const pricing = await service.resolveCheckoutPricing({ userId: "member-1", cartItems: localItems, requestedCurrency: "cop" })
+
+    expect(pricing).toMatchObject({ currency: "COP", baseCurrency: "USD", fxRate: 4000 })
+    expect(service.priceCartItems(localItems, pricing)).toEqual(localItems)
+    expect(toBaseCartItems(localItems, pricing).map((item) => item.priceCents)).toEqual([2500, 1000])
+    expect(fromBaseCents(500, pricing)).toBe(2_000_000)
+  })
+
+  it("rejects the base prices sent in the local currency", async () => {
+    const pricing = await service.resolveCheckoutPricing({ userId: "member-1", cartItems, requestedCurrency: "COP" })
+
+    expect(() => service.priceCartItems(cartItems, pricing)).toThrow(
+      expect.objectContaining({ code: "PRICE_MISMATCH", productId: "product-1" }),
+    )
+  })
+
+  it("rejects a currency that is not the one of the buyer country", async () => {
+    repository.findBuyerCountry.mockResolvedValue("US")
+
+    const error = await service
+      .resolveCheckoutPricing({ userId: "member-1", cartItems, requestedCurrency: "COP" })
+      .catch((caught) => caught)
+
+    expect(error).toBeInstanceOf(ProductPriceError)
+    expect(error.code).toBe("CURRENCY_NOT_AVAILABLE")
+    expect(repository.findLocalPrices).not.toHaveBeenCalled()
+  })
+
+  it("rejects the local currency when a line has no local price", async () => {
+    repository.findLocalPrices.mockResolvedValue([{ productId: "product-1", variantId: null, priceCents: 100_000 }])
+
+    await expect(service.resolveCheckoutPricing({ userId: "member-1", cartItems, requestedCurrency: "COP" }))
+      .rejects.toMatchObject({ code: "CURRENCY_NOT_AVAILABLE", productId: "product-2" })
+  })
+})
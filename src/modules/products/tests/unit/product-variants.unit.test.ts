@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest"
+
+import { ProductSchema } from "@/lib/models/definitions"
+import {
+  applyProductVariant,
+  buildVariantCombinations,
+  findVariantByOptions,
+  getVariantLabel,
+  hasVariants,
+  toVariantSku,
+} from "@/modules/products/utils/product-variants"
+
+const product = ProductSchema.parse({
+  id: "prod-1",
+  slug: "protein-shake",
+  name: "Protein Shake",
+  description: "Shake with variants.",
+  price: 30,
+  images: [{ id: "img-1", url: "https://example.com/shake.png", hint: "shake" }],
+  option_axes: [
+    { name: "Flavor", values: ["Vanilla", "Chocolate"] },
+    { name: "Size", values: ["1 kg", "2 kg"] },
+  ],
+  variants: [
+    {
+      id: "var-2",
+      sku: "SHAKE-CHOC-1",
+      options: { Size: "1 kg", Flavor: "Chocolate" },
+      price: "32.5",
+      stock_quantity: "4",
+      images: [{ id: "img-2", url: "https://example.com/choc.png", hint: "chocolate" }],
+      position: 1,
+    },
+    {
+      id: "var-1",
+      sku: "SHAKE-VAN-1",
+      options: { Flavor: "Vanilla", Size: "1 kg" },
+      price: 30,
+      stock_quantity: 10,
+      position: 0,
+    },
+    {
+      id: "var-3",
+      sku: "SHAKE-VAN-2",
+      options: { Flavor: "Vanilla", Size: "2 kg" },
+      price: 55,
+      stock_quantity: 0,
+      position: 2,
+      is_active: false,
+    },
+  ],
+})
+
+describe("product variants", () => {
+  it("parses variants in position order", () => {
+    expect(product.variants?.map((variant) => variant.id)).toEqual(["var-1", "var-2", "var-3"])
+    expect(product.variants?.[1]).toMatchObject({ price: 32.5, stock_quantity: 4, is_active: true })
+    expect(hasVariants(product)).toBe(true)
+  })
+
+  it("labels variants in the order of the option axes", () => {
+    expect(getVariantLabel(product, product.variants![1])).toBe("Chocolate / 1 kg")
+  })
+
+  it("only finds active variants by their options", () => {
+    expect(findVariantByOptions(product, { Flavor: "Chocolate", Size: "1 kg" })?.id).toBe("var-2")
+    expect(findVariantByOptions(product, { Flavor: "Vanilla", Size: "2 kg" })).toBeNull()
+  })
+
+  it("sells a variant with its own price, stock and images", () => {
+    const chocolate = applyProductVariant(product, product.variants![1])
+    expect(chocolate).toMatchObject({ id: "prod-1", price: 32.5, stock_quantity: 4 })
+    expect(chocolate.images.map((image) => image.id)).toEqual(["img-2"])
+
+    const vanilla = applyProductVariant(product, product.variants![0])
+    expect(vanilla.images.map((image) => image.id)).toEqual(["img-1"])
+    expect(applyProductVariant(product, null)).toBe(product)
+  })
+
+  it("builds every combination of the option axes", () => {
+    expect(buildVariantCombinations(product.option_axes ?? [])).toEqual([
+      { Flavor: "Vanilla", Size: "1 kg" },
+      { Flavor: "Vanilla", Size: "2 kg" },
+      { Flavor: "Chocolate", Size: "1 kg" },
+      { Flavor: "Chocolate", Size: "2 kg" },
+    ])
+    expect(buildVariantCombinations([])).toEqual([])
+  })
+
+  it("suggests SKUs from the slug and option values", () => {
+    expect(toVariantSku("protein-shake", { Flavor: "Limón", Size: "1 kg" })).toBe("PROTEIN-SHAKE-LIMON-1-KG")
+  })
+})
@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+import {
+  StockError,
+  StockService,
+  toSignedStockQuantity,
+  toStockReservationItems,
+} from "@/modules/products/services/stock-service"
+
+const rpc = vi.fn()
+const client = { rpc } as unknown as SupabaseClient
+
+describe("StockService", () => {
+  let service: StockService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new StockService(client)
+  })
+
+  it("reserves the cart items of a checkout", async () => {
+    rpc.mockResolvedValueOnce({ data: "2026-10-19T10:35:00.000Z", error: null })
+
+    const reservation = await service.reserveForCheckout("stripe_1", "user-1", [
+      { productId: "prod-1", quantity: 2 },
+    ])
+
+    expect(rpc).toHaveBeenCalledWith("reserve_stock", {
+      p_reservation_key: "stripe_1",
+      p_user_id: "user-1",
+      p_items: [{ product_id: "prod-1", variant_id: null, quantity: 2 }],
+      p_ttl_seconds: 35 * 60,
+    })
+    expect(reservation).toEqual({ reservationKey: "stripe_1", expiresAt: "2026-10-19T10:35:00.000Z" })
+  })
+
+  it("reports the product that ran out of stock", async () => {
+    rpc.mockResolvedValueOnce({ data: null, error: { message: "insufficient_stock: prod-2" } })
+
+    const error = await service
+      .reserveForCheckout("stripe_2", null, [{ productId: "prod-2", quantity: 1 }])
+      .catch((reason) => reason)
+
+    expect(error).toBeInstanceOf(StockError)
+    expect(error).toMatchObject({ code: "INSUFFICIENT_STOCK", productId: "prod-2" })
+  })
+
+  it("rejects reservations without valid quantities before reaching the database", async () => {
+    await expect(service.reserveForCheckout("stripe_3", null, [])).rejects.toMatchObject({
+      code: "INVALID_RESERVATION",
+    })
+    await expect(
+      service.reserveForCheckout("stripe_3", null, [{ productId: "prod-1", quantity: 1.5 }]),
+    ).rejects.toMatchObject({ code: "INVALID_RESERVATION" })
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it("never throws when releasing a reservation", async () => {
+    rpc.mockResolvedValueOnce({ data: null, error: { message: "connection reset" } })
+
+    await expect(service.release("stripe_4")).resolves.toBe(0)
+  })
+
+  it("records damage as a negative movement", async () => {
+    rpc.mockResolvedValueOnce({
+      data: {
+        id: "mov-1",
+        product_id: "prod-1",
+        variant_id: null,
+        kind: "damage",
+        quantity: -3,
+        stock_after: 7,
+        order_id: null,
+        reservation_id: null,
+        note: "Broken in transit",
+        created_by: "admin-1",
+        created_at: "2026-10-19T10:00:00.000Z",
+      },
+      error: null,
+    })
+
+    const movement = await service.recordMovement({
+      productId: "prod-1",
+      kind: "damage",
+      quantity: 3,
+      note: " Broken in transit ",
+      createdBy: "admin-1",
+    })
+
+    expect(rpc).toHaveBeenCalledWith("record_stock_movement", {
+      p_product_id: "prod-1",
+      p_kind: "damage",
+      p_quantity: -3,
+      p_note: "Broken in transit",
+      p_created_by: "admin-1",
+      p_order_id: null,
+      p_variant_id: null,
+    })
+    expect(movement).toMatchObject({ kind: "damage", quantity: -3, stockAfter: 7 })
+  })
+})
+
+describe("stock helpers", () => {
+  it("signs manual movements by kind", () => {
+    expect(toSignedStockQuantity("receipt", -4)).toBe(4)
+    expect(toSignedStockQuantity("return", 2)).toBe(2)
+    expect(toSignedStockQuantity("damage", 5)).toBe(-5)
+    expect(toSignedStockQuantity("adjustment", -1)).toBe(-1)
+    expect(() => toSignedStockQuantity("adjustment", 0)).toThrow(StockError)
+  })
+
+  it("reads reservation items from checkout cart items", () => {
+    expect(
+      toStockReservationItems([
+        { productId: "prod-1", productName: "Elixir", quantity: 2, priceCents: 1000 },
+        { name: "Gift card" },
+      ]),
+    ).toEqual([{ productId: "prod-1", quantity: 2 }])
+    expect(
+      toStockReservationItems([{ productId: "prod-1", variantId: "var-1", variantLabel: "Vanilla", quantity: 1 }]),
+    ).toEqual([{ productId: "prod-1", variantId: "var-1", quantity: 1 }])
+    expect(toStockReservationItems(undefined)).toEqual([])
+  })
+})
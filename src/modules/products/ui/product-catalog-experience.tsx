@@ -45,6 +45,7 @@ import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import { useSupabaseUser } from '@/modules/auth/hooks/use-supabase-user';
 import { getDiscountedUnitPrice } from '@/modules/products/utils/product-pricing';
+import { hasVariants } from '@/modules/products/utils/product-variants';
 import { useDetectCountry } from '@/modules/profile/hooks/use-detect-country';
 import { sanitizeUserInput } from '@/lib/security/frontend-sanitization';
 
@@ -605,6 +606,11 @@ export default function ProductCatalogExperience({ products, lang, dictionary }:
       if (!isAuthenticated || isAdding) {
         return;
       }
+      // The variant of a product with variants is chosen on its detail page
+      if (hasVariants(product)) {
+        router.push(`/${lang}/products/${product.slug}`);
+        return;
+      }
       setIsAdding(true);
       addItem(product);
       navigator.vibrate?.(30);
@@ -615,7 +621,7 @@ export default function ProductCatalogExperience({ products, lang, dictionary }:
       });
       setTimeout(() => setIsAdding(false), 400);
     },
-    [addItem, dictionary.addToCart, dictionary.addedToCartDescription, dictionary.addedToCartTitle, isAdding, isAuthenticated, toast],
+    [addItem, dictionary.addToCart, dictionary.addedToCartDescription, dictionary.addedToCartTitle, isAdding, isAuthenticated, lang, router, toast],
   );
 
   return (
@@ -0,0 +1,90 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { Product } from '@/lib/models/definitions';
+import { getActiveVariants, type ProductVariantOptions } from '@/modules/products/utils/product-variants';
+
+interface ProductVariantSelectorProps {
+  product: Product;
+  selected: ProductVariantOptions;
+  onChange: (options: ProductVariantOptions) => void;
+  outOfStockLabel?: string;
+}
+
+/**
+ * One row of choices per option axis. A value is offered only when an active variant combines
+ * it with the values selected on the other axes.
+ */
+export function ProductVariantSelector({ product, selected, onChange, outOfStockLabel }: ProductVariantSelectorProps) {
+  const axes = product.option_axes ?? [];
+  const variants = getActiveVariants(product);
+
+  const findCombination = (axisName: string, value: string) => {
+    const candidate = { ...selected, [axisName]: value };
+    return variants.find((variant) =>
+      axes.every((axis) => !candidate[axis.name] || variant.options[axis.name] === candidate[axis.name]),
+    );
+  };
+
+  const handleSelect = (axisName: string, value: string) => {
+    const next = { ...selected, [axisName]: value };
+    const exact = variants.find((variant) => axes.every((axis) => variant.options[axis.name] === next[axis.name]));
+
+    // Keep the other choices when they still combine; otherwise jump to a variant with this value
+    if (exact) {
+      onChange(next);
+      return;
+    }
+
+    const fallback = variants.find((variant) => variant.options[axisName] === value);
+    onChange(fallback ? { ...fallback.options } : next);
+  };
+
+  if (axes.length === 0 || variants.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {axes.map((axis) => (
+        <div key={axis.name} className="flex flex-col gap-2">
+          <p className="text-sm font-semibold text-emerald-700 dark:text-emerald-200">
+            {axis.name}
+            {selected[axis.name] ? (
+              <span className="ml-2 font-normal text-muted-foreground">{selected[axis.name]}</span>
+            ) : null}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {axis.values.map((value) => {
+              const match = findCombination(axis.name, value);
+              const isSelected = selected[axis.name] === value;
+              const isSoldOut = Boolean(match) && (match?.stock_quantity ?? 0) <= 0;
+
+              return (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={isSelected ? 'default' : 'outline'}
+                  aria-pressed={isSelected}
+                  disabled={!variants.some((variant) => variant.options[axis.name] === value)}
+                  onClick={() => handleSelect(axis.name, value)}
+                  title={isSoldOut ? outOfStockLabel : undefined}
+                  className={cn(
+                    'min-w-[3rem]',
+                    isSelected && 'bg-emerald-600 text-white hover:bg-emerald-700',
+                    (!match || isSoldOut) && !isSelected && 'opacity-60',
+                    isSoldOut && 'line-through',
+                  )}
+                >
+                  {value}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { PlusCircle, Trash2, Wand2 } from 'lucide-react';
+import type { ProductImage, ProductOptionAxis, ProductVariant } from '@/lib/models/definitions';
+import { buildVariantCombinations, toVariantSku } from '@/modules/products/utils/product-variants';
+
+interface AxisDraft {
+  name: string;
+  values: string;
+}
+
+interface ProductVariantsEditorProps {
+  axes: ProductOptionAxis[];
+  variants: ProductVariant[];
+  images: ProductImage[];
+  slug: string;
+  basePrice: number;
+  onChange: (axes: ProductOptionAxis[], variants: ProductVariant[]) => void;
+  createId: () => string;
+  copy: {
+    sectionTitle: string;
+    sectionDescription: string;
+    axisName: string;
+    axisNamePlaceholder: string;
+    axisValues: string;
+    axisValuesPlaceholder: string;
+    addAxis: string;
+    removeAxis: string;
+    generate: string;
+    sku: string;
+    price: string;
+    stock: string;
+    active: string;
+    images: string;
+    imagesHelper: string;
+    empty: string;
+  };
+}
+
+const toAxes = (drafts: AxisDraft[]): ProductOptionAxis[] =>
+  drafts
+    .map((draft) => ({
+      name: draft.name.trim(),
+      values: Array.from(new Set(draft.values.split(',').map((value) => value.trim()).filter(Boolean))),
+    }))
+    .filter((axis) => axis.name.length > 0 && axis.values.length > 0);
+
+const sameOptions = (a: Record<string, string>, b: Record<string, string>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+/**
+ * Option axes and the variants they generate. Variants keep their id, stock and price when the
+ * axes change, as long as their combination of options still exists.
+ */
+export function ProductVariantsEditor({
+  axes,
+  variants,
+  images,
+  slug,
+  basePrice,
+  onChange,
+  createId,
+  copy,
+}: ProductVariantsEditorProps) {
+  const [drafts, setDrafts] = useState<AxisDraft[]>(() =>
+    axes.map((axis) => ({ name: axis.name, values: axis.values.join(', ') })),
+  );
+
+  const updateDrafts = (next: AxisDraft[]) => {
+    setDrafts(next);
+    onChange(toAxes(next), variants);
+  };
+
+  const handleGenerate = () => {
+    const nextAxes = toAxes(drafts);
+    const combinations = buildVariantCombinations(nextAxes);
+
+    const nextVariants = combinations.map((options, index) => {
+      const existing = variants.find((variant) => sameOptions(variant.options, options));
+      if (existing) {
+        return { ...existing, position: index };
+      }
+
+      return {
+        id: createId(),
+        sku: toVariantSku(slug, options),
+        options,
+        price: basePrice > 0 ? basePrice : 0,
+        stock_quantity: 0,
+        images: [],
+        position: index,
+        is_active: true,
+      } satisfies ProductVariant;
+    });
+
+    onChange(nextAxes, nextVariants);
+  };
+
+  const updateVariant = (id: string, changes: Partial<ProductVariant>) => {
+    onChange(
+      toAxes(drafts),
+      variants.map((variant) => (variant.id === id ? { ...variant, ...changes } : variant)),
+    );
+  };
+
+  const toggleVariantImage = (variant: ProductVariant, image: ProductImage) => {
+    const selected = variant.images.some((entry) => entry.id === image.id);
+    updateVariant(variant.id, {
+      images: selected
+        ? variant.images.filter((entry) => entry.id !== image.id)
+        : [...variant.images, image],
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="space-y-1">
+        <h3 className="text-lg font-semibold">{copy.sectionTitle}</h3>
+        <p className="text-sm text-muted-foreground">{copy.sectionDescription}</p>
+      </div>
+
+      <div className="space-y-3">
+        {drafts.map((draft, index) => (
+          <div key={index} className="grid gap-3 sm:grid-cols-[1fr_2fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor={`variant-axis-name-${index}`}>{copy.axisName}</Label>
+              <Input
+                id={`variant-axis-name-${index}`}
+                value={draft.name}
+                placeholder={copy.axisNamePlaceholder}
+                onChange={(event) =>
+                  updateDrafts(drafts.map((entry, i) => (i === index ? { ...entry, name: event.target.value } : entry)))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`variant-axis-values-${index}`}>{copy.axisValues}</Label>
+              <Input
+                id={`variant-axis-values-${index}`}
+                value={draft.values}
+                placeholder={copy.axisValuesPlaceholder}
+                onChange={(event) =>
+                  updateDrafts(drafts.map((entry, i) => (i === index ? { ...entry, values: event.target.value } : entry)))
+                }
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={copy.removeAxis}
+              onClick={() => updateDrafts(drafts.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateDrafts([...drafts, { name: '', values: '' }])}
+          >
+            <PlusCircle className="mr-2 h-4 w-4" />
+            {copy.addAxis}
+          </Button>
+          <Button type="button" size="sm" onClick={handleGenerate} disabled={toAxes(drafts).length === 0 && variants.length === 0}>
+            <Wand2 className="mr-2 h-4 w-4" />
+            {copy.generate}
+          </Button>
+        </div>
+      </div>
+
+      {variants.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{copy.empty}</p>
+      ) : (
+        <div className="space-y-3">
+          {variants.map((variant) => (
+            <div
+              key={variant.id}
+              className={cn('space-y-3 rounded-md border p-3', !variant.is_active && 'opacity-60')}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(variant.options).map(([axis, value]) => (
+                    <Badge key={axis} variant="secondary">
+                      {axis}: {value}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`variant-active-${variant.id}`} className="text-sm">
+                    {copy.active}
+                  </Label>
+                  <Switch
+                    id={`variant-active-${variant.id}`}
+                    checked={variant.is_active}
+                    onCheckedChange={(checked) => updateVariant(variant.id, { is_active: checked })}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`variant-sku-${variant.id}`}>{copy.sku}</Label>
+                  <Input
+                    id={`variant-sku-${variant.id}`}
+                    value={variant.sku}
+                    onChange={(event) => updateVariant(variant.id, { sku: event.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`variant-price-${variant.id}`}>{copy.price}</Label>
+                  <Input
+                    id={`variant-price-${variant.id}`}
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    value={Number.isFinite(variant.price) ? variant.price : ''}
+                    onChange={(event) => updateVariant(variant.id, { price: Number.parseFloat(event.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`variant-stock-${variant.id}`}>{copy.stock}</Label>
+                  <Input
+                    id={`variant-stock-${variant.id}`}
+                    type="number"
+                    inputMode="numeric"
+                    step={1}
+                    min={0}
+                    value={variant.stock_quantity}
+                    onChange={(event) =>
+                      updateVariant(variant.id, {
+                        stock_quantity: Math.max(0, Number.parseInt(event.target.value, 10) || 0),
+                      })
+                    }
+                  />
+                </div>
+              </div>
+              {images.length > 0 ? (
+                <div className="space-y-1">
+                  <Label>{copy.images}</Label>
+                  <p className="text-xs text-muted-foreground">{copy.imagesHelper}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {images.map((image) => {
+                      const selected = variant.images.some((entry) => entry.id === image.id);
+                      return (
+                        <button
+                          key={image.id}
+                          type="button"
+                          aria-pressed={selected}
+                          onClick={() => toggleVariantImage(variant, image)}
+                          className={cn(
+                            'relative h-14 w-14 overflow-hidden rounded-md border-2',
+                            selected ? 'border-primary' : 'border-transparent opacity-60',
+                          )}
+                        >
+                          <Image src={image.url} alt={image.hint ?? ''} fill className="object-cover" sizes="56px" />
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { Product, ProductOptionAxis, ProductVariant } from '@/lib/models/definitions';
+
+export type ProductVariantOptions = Record<string, string>;
+
+export const getActiveVariants = (product: Product): ProductVariant[] =>
+  (product.variants ?? []).filter((variant) => variant.is_active);
+
+export const hasVariants = (product: Product): boolean => getActiveVariants(product).length > 0;
+
+/**
+ * Option values of a variant in the order of the product option axes, e.g. "Vanilla / 1 kg"
+ */
+export const getVariantLabel = (product: Product, variant: ProductVariant): string => {
+  const axes = product.option_axes ?? [];
+  const ordered = axes
+    .map((axis) => variant.options[axis.name])
+    .filter((value): value is string => Boolean(value));
+
+  const values = ordered.length > 0 ? ordered : Object.values(variant.options);
+  return values.join(' / ') || variant.sku;
+};
+
+export const findVariantByOptions = (
+  product: Product,
+  options: ProductVariantOptions,
+): ProductVariant | null => {
+  const axes = product.option_axes ?? [];
+
+  return (
+    getActiveVariants(product).find((variant) =>
+      axes.every((axis) => variant.options[axis.name] === options[axis.name]),
+    ) ?? null
+  );
+};
+
+/**
+ * Product as sold through one of its variants: the variant price, stock and images (or the
+ * product images when the variant has none) with the shared product content. Discounts of the
+ * product apply to every variant.
+ */
+export const applyProductVariant = (product: Product, variant: ProductVariant | null | undefined): Product => {
+  if (!variant) {
+    return product;
+  }
+
+  return {
+    ...product,
+    price: variant.price,
+    stock_quantity: variant.stock_quantity,
+    images: variant.images.length > 0 ? variant.images : product.images,
+  };
+};
+
+/**
+ * Every combination of the option axes values, in axis order
+ */
+export const buildVariantCombinations = (axes: ProductOptionAxis[]): ProductVariantOptions[] =>
+  axes.reduce<ProductVariantOptions[]>(
+    (combinations, axis) =>
+      combinations.flatMap((options) => axis.values.map((value) => ({ ...options, [axis.name]: value }))),
+    axes.length > 0 ? [{}] : [],
+  );
+
+/**
+ * Suggested SKU for a combination: the product slug followed by the option values
+ */
+export const toVariantSku = (slug: string, options: ProductVariantOptions): string =>
+  [slug, ...Object.values(options)]
+    .join('-')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toUpperCase();
@@ -83,6 +83,7 @@ export interface OrderTrackingSummary {
   statusLabel: string | null;
   responsible_company: string | null;
   tracking_code: string | null;
+  tracking_url: string | null;
   location: string | null;
   estimated_delivery: string | null;
   updated_at: string | null;
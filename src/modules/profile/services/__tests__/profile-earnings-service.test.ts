@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ProfileEarningsService } from '../profile-earnings-service';
+
+const networkEarnings = { fetchAvailableSummary: vi.fn(), decrementAvailable: vi.fn() };
+const wallets = { addFunds: vi.fn(), getBalance: vi.fn() };
+
+vi.mock('@/modules/multilevel/repositories/network-earnings-repository', () => ({
+  NetworkEarningsRepository: vi.fn().mockImplementation(function () {
+    return networkEarnings;
+  }),
+}));
+
+vi.mock('@/modules/multilevel/services/wallet-service', () => ({
+  WalletService: vi.fn().mockImplementation(function () {
+    return wallets;
+  }),
+}));
+
+vi.mock('@/modules/multilevel/repositories/payout-account-repository', () => ({
+  PayoutAccountRepository: vi.fn().mockImplementation(function () {
+    return {};
+  }),
+}));
+
+vi.mock('@/modules/multilevel/services/ledger-service', () => ({
+  LedgerService: vi.fn().mockImplementation(function () {
+    return {};
+  }),
+}));
+
+vi.mock('../../repositories/payout-preferences-repository', () => ({
+  PayoutPreferencesRepository: vi.fn().mockImplementation(function () {
+    return {};
+  }),
+}));
+
+// No row in payment_gateways, so credentials come from the environment
+const buildClient = () => {
+  const query = {
+    select: vi.fn(() => query),
+    eq: vi.fn(() => query),
+    single: vi.fn().mockResolvedValue({ data: null, error: { message: 'not found' } }),
+  };
+  return { from: vi.fn(() => query) } as unknown as SupabaseClient;
+};
+
+const jsonResponse = (body: unknown) => ({ ok: true, json: () => Promise.resolve(body) });
+
+describe('ProfileEarningsService', () => {
+  let service: ProfileEarningsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    networkEarnings.fetchAvailableSummary.mockResolvedValue({ totalAvailableCents: 5000, currency: 'USD' });
+    networkEarnings.decrementAvailable.mockResolvedValue([{ id: 'commission-1', amountCents: 3000 }]);
+    wallets.addFunds.mockResolvedValue(undefined);
+    wallets.getBalance.mockResolvedValue({ balance_cents: 3000 });
+    service = new ProfileEarningsService(buildClient());
+  });
+
+  it('credits a transfer from earnings as earnings_transfer so it is not read as a seller commission', async () => {
+    await service.transferToWallet('member-1', 3000);
+
+    expect(wallets.addFunds).toHaveBeenCalledWith('member-1', 3000, 'earnings_transfer', undefined, undefined, {
+      source: 'network_earnings',
+      breakdown: [{ id: 'commission-1', amountCents: 3000 }],
+    });
+  });
+
+  it('rejects a transfer above the available earnings without crediting the wallet', async () => {
+    await expect(service.transferToWallet('member-1', 6000)).rejects.toThrow('Insufficient available earnings');
+
+    expect(networkEarnings.decrementAvailable).not.toHaveBeenCalled();
+    expect(wallets.addFunds).not.toHaveBeenCalled();
+  });
+
+  describe('sendProviderPayout', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', fetchMock);
+      vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test');
+      vi.stubEnv('PAYPAL_CLIENT_ID', 'client');
+      vi.stubEnv('PAYPAL_CLIENT_SECRET', 'secret');
+      fetchMock.mockReset();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.unstubAllEnvs();
+    });
+
+    it('sends the payout item id as the Stripe idempotency key', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ id: 'tr_1' }));
+
+      await service.sendProviderPayout('stripe', 'acct_1', 3000, 'member-1', 'USD', 'item-1');
+      await service.sendProviderPayout('stripe', 'acct_1', 3000, 'member-1', 'USD', 'item-2');
+
+      expect(fetchMock.mock.calls.map(([, init]) => init.headers['Idempotency-Key'])).toEqual(['payout_item-1', 'payout_item-2']);
+    });
+
+    it('sends the payout item id as the PayPal sender batch id on every retry', async () => {
+      fetchMock.mockImplementation(async (url: string) =>
+        url.endsWith('/oauth2/token') ? jsonResponse({ access_token: 'token' }) : jsonResponse({ batch_header: { payout_batch_id: 'BATCH-1' } }),
+      );
+
+      await service.sendProviderPayout('paypal', 'ana@example.com', 3000, 'member-1', 'USD', 'item-1');
+      await service.sendProviderPayout('paypal', 'ana@example.com', 3000, 'member-1', 'USD', 'item-1');
+
+      const payouts = fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/v1/payments/payouts'));
+      expect(payouts).toHaveLength(2);
+      payouts.forEach(([, init]) => {
+        expect(JSON.parse(init.body).sender_batch_header.sender_batch_id).toBe('payout_item-1');
+        expect(init.headers['PayPal-Request-Id']).toBe('payout_item-1');
+      });
+    });
+  });
+});
@@ -7,6 +7,7 @@ import {
   type PayoutProvider,
 } from '@/modules/multilevel/repositories/payout-account-repository';
 import { WalletService } from '@/modules/multilevel/services/wallet-service';
+import { LedgerService } from '@/modules/multilevel/services/ledger-service';
 import { PaymentGatewayRecordSchema } from '@/modules/payments/domain/models/payment-gateway';
 import { getEnvironmentFallbackProviderIds } from '@/modules/payments/utils/environment-fallback-providers';
 import { PayoutPreferencesRepository } from '../repositories/payout-preferences-repository';
@@ -28,12 +29,14 @@ export class ProfileEarningsService {
   private readonly networkEarnings: NetworkEarningsRepository;
   private readonly payoutAccounts: PayoutAccountRepository;
   private readonly wallets: WalletService;
+  private readonly ledger: LedgerService;
   private readonly payoutPreferences: PayoutPreferencesRepository;
 
   constructor(private readonly client: SupabaseClient) {
     this.networkEarnings = new NetworkEarningsRepository(client);
     this.payoutAccounts = new PayoutAccountRepository(client);
     this.wallets = new WalletService(client);
+    this.ledger = new LedgerService(client);
     this.payoutPreferences = new PayoutPreferencesRepository(client);
   }
 
@@ -282,7 +285,7 @@ export class ProfileEarningsService {
 
     const decremented = await this.networkEarnings.decrementAvailable(userId, amountCents);
 
-    await this.wallets.addFunds(userId, amountCents, 'sale_commission', undefined, undefined, {
+    await this.wallets.addFunds(userId, amountCents, 'earnings_transfer', undefined, undefined, {
       source: 'network_earnings',
       breakdown: decremented,
     });
@@ -345,42 +348,36 @@ export class ProfileEarningsService {
       };
     }
 
-    // Procesar el pago con Stripe o PayPal
+    // Las comisiones se guardan en la moneda de la billetera, que es la moneda de pago
+    const currency = await this.wallets.getWalletCurrency(userId);
+
+    // Procesar el pago con el proveedor de la cuenta conectada
     try {
-      let payoutResult: { id: string; arrival_date: string };
-
-      if (payoutAccount.provider === 'stripe') {
-        payoutResult = await this.processStripePayout(
-          payoutAccount.account_id,
-          summary.totalAvailableCents,
-          userId,
-        );
-      } else if (payoutAccount.provider === 'paypal') {
-        payoutResult = await this.processPaypalPayout(
-          payoutAccount.account_id,
-          summary.totalAvailableCents,
-          userId,
-        );
-      } else if (payoutAccount.provider === 'authorize_net') {
-        payoutResult = await this.processAuthorizeNetPayout(
-          payoutAccount.account_id,
-          summary.totalAvailableCents,
-          userId,
-        );
-      } else {
-        // Payoneer
-        payoutResult = await this.processPayoneerPayout(
-          payoutAccount.account_id,
-          summary.totalAvailableCents,
-          userId,
-        );
-      }
+      const payoutResult = await this.sendProviderPayout(
+        payoutAccount.provider,
+        payoutAccount.account_id,
+        summary.totalAvailableCents,
+        userId,
+        currency,
+      );
 
       // Decrementar el saldo disponible
       await this.networkEarnings.decrementAvailable(userId, summary.totalAvailableCents);
 
       // Registrar la transacción
-      await this.recordPayoutTransaction(userId, summary.totalAvailableCents, payoutResult, payoutAccount.provider);
+      await this.recordPayoutTransaction(userId, summary.totalAvailableCents, payoutResult, payoutAccount.provider, currency);
+
+      // Registrar el pago en el ledger (commissions_payable -> payouts_in_transit)
+      try {
+        await this.ledger.recordPayoutSent({
+          referenceId: `${payoutAccount.provider}:${payoutResult.id}`,
+          amountCents: summary.totalAvailableCents,
+          currency,
+          memo: `Auto payout to ${userId}`,
+        });
+      } catch (ledgerError) {
+        console.error('Failed to post payout to ledger:', ledgerError);
+      }
 
       return {
         processed: true,
@@ -396,6 +393,35 @@ export class ProfileEarningsService {
     }
   }
 
+  /**
+   * Envía el pago al proveedor de la cuenta conectada. No descuenta el saldo disponible ni
+   * registra la transacción: eso queda a cargo de quien llama (pago automático o lotes de pago).
+   *
+   * @param reference - Clave de idempotencia para el proveedor (el id del ítem del lote de pago),
+   *   así un reintento del mismo ítem no vuelve a enviar el dinero
+   */
+  async sendProviderPayout(
+    provider: PayoutProvider,
+    accountId: string,
+    amountCents: number,
+    userId: string,
+    currency: string,
+    reference?: string,
+  ): Promise<{ id: string; arrival_date: string }> {
+    switch (provider) {
+      case 'stripe':
+        return this.processStripePayout(accountId, amountCents, userId, currency, reference);
+      case 'paypal':
+        return this.processPaypalPayout(accountId, amountCents, userId, currency, reference);
+      case 'authorize_net':
+        return this.processAuthorizeNetPayout(accountId, amountCents, userId, reference);
+      case 'payoneer':
+        return this.processPayoneerPayout(accountId, amountCents, userId, currency, reference);
+      default:
+        throw new Error(`Unsupported payout provider: ${provider as string}`);
+    }
+  }
+
   /**
    * Procesa un pago a través de Stripe Connect
    * Transfiere fondos desde la cuenta del admin (platform) a la cuenta conectada del usuario
@@ -404,6 +430,8 @@ export class ProfileEarningsService {
     stripeAccountId: string,
     amountCents: number,
     userId: string,
+    currency: string,
+    reference?: string,
   ): Promise<{ id: string; arrival_date: string }> {
     // Obtener las credenciales de Stripe desde payment_gateways
     const { data: gateway, error: gatewayError } = await this.client
@@ -433,7 +461,9 @@ export class ProfileEarningsService {
     // Usamos un Transfer para mover fondos desde la cuenta platform (admin) a la cuenta conectada (usuario)
     try {
       // Generate idempotency key to prevent duplicate transfers
-      const idempotencyKey = `payout_${userId}_${amountCents}_${new Date().toISOString().slice(0, 10)}`;
+      const idempotencyKey = reference
+        ? `payout_${reference}`
+        : `payout_${userId}_${amountCents}_${new Date().toISOString().slice(0, 10)}`;
 
       const response = await fetch('https://api.stripe.com/v1/transfers', {
         method: 'POST',
@@ -444,11 +474,12 @@ export class ProfileEarningsService {
         },
         body: new URLSearchParams({
           amount: amountCents.toString(),
-          currency: 'usd',
+          currency: currency.toLowerCase(),
           destination: stripeAccountId,
           description: `Payout for user ${userId}`,
           'metadata[user_id]': userId,
           'metadata[source]': 'network_earnings',
+          ...(reference ? { 'metadata[payout_reference]': reference } : {}),
         }),
         signal: AbortSignal.timeout(15000), // 15 second timeout
       });
@@ -483,6 +514,8 @@ export class ProfileEarningsService {
     paypalEmail: string,
     amountCents: number,
     userId: string,
+    currency: string,
+    reference?: string,
   ): Promise<{ id: string; arrival_date: string }> {
     // Obtener las credenciales de PayPal desde payment_gateways
     const { data: gateway, error: gatewayError } = await this.client
@@ -544,15 +577,19 @@ export class ProfileEarningsService {
       const tokenData = await tokenResponse.json();
       const accessToken = tokenData.access_token;
 
-      // Crear el payout usando PayPal Payouts API con timeout
+      // Crear el payout usando PayPal Payouts API con timeout. PayPal rechaza un sender_batch_id
+      // repetido, así que con la referencia un reintento no duplica el pago
       const payoutAmount = (amountCents / 100).toFixed(2);
-      const payoutId = `payout_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+      const payoutId = reference
+        ? `payout_${reference}`
+        : `payout_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
 
       const payoutResponse = await fetch(`${apiBaseUrl}/v1/payments/payouts`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
+          'PayPal-Request-Id': payoutId,
         },
         body: JSON.stringify({
           sender_batch_header: {
@@ -565,11 +602,11 @@ export class ProfileEarningsService {
               recipient_type: 'EMAIL',
               amount: {
                 value: payoutAmount,
-                currency: 'USD',
+                currency,
               },
               receiver: paypalEmail,
               note: `Payout for user ${userId}`,
-              sender_item_id: userId,
+              sender_item_id: reference ?? userId,
             },
           ],
         }),
@@ -606,6 +643,7 @@ export class ProfileEarningsService {
     accountId: string,
     amountCents: number,
     userId: string,
+    reference?: string,
   ): Promise<{ id: string; arrival_date: string }> {
     // Obtener las credenciales de Authorize.Net desde payment_gateways
     const { data: gateway, error: gatewayError } = await this.client
@@ -646,6 +684,9 @@ export class ProfileEarningsService {
     try {
       const payoutId = `payout_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
       const amount = (amountCents / 100).toFixed(2);
+      // Authorize.Net no tiene clave de idempotencia: rechaza como duplicada una transacción con el
+      // mismo monto, cuenta y número de factura dentro de duplicateWindow (máximo 8 horas)
+      const invoiceNumber = reference?.replace(/-/g, '').slice(0, 20);
 
       // Crear la solicitud de pago usando la API de Authorize.Net
       const response = await fetch(apiBaseUrl, {
@@ -671,6 +712,12 @@ export class ProfileEarningsService {
                   nameOnAccount: accountId.split(':')[2] || `User ${userId}`,
                 },
               },
+              ...(invoiceNumber
+                ? {
+                  order: { invoiceNumber },
+                  transactionSettings: { setting: [{ settingName: 'duplicateWindow', settingValue: '28800' }] },
+                }
+                : {}),
             },
           },
         }),
@@ -712,6 +759,8 @@ export class ProfileEarningsService {
     payoneerPayeeId: string,
     amountCents: number,
     userId: string,
+    currency: string,
+    reference?: string,
   ): Promise<{ id: string; arrival_date: string }> {
     // Obtener las credenciales de Payoneer desde payment_gateways
     const { data: gateway, error: gatewayError } = await this.client
@@ -755,7 +804,8 @@ export class ProfileEarningsService {
       : 'https://api.sandbox.payoneer.com/v2/programs';
 
     try {
-      const payoutId = `payout_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+      // Payoneer rechaza un client_reference_id repetido
+      const payoutId = reference ?? `payout_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
       const amount = (amountCents / 100).toFixed(2);
 
       // Crear la solicitud de pago usando la API de Payoneer
@@ -768,7 +818,7 @@ export class ProfileEarningsService {
         body: JSON.stringify({
           payee_id: payoneerPayeeId,
           amount: amount,
-          currency: 'USD',
+          currency,
           client_reference_id: payoutId,
           description: `Payout for user ${userId}`,
         }),
@@ -805,13 +855,14 @@ export class ProfileEarningsService {
     amountCents: number,
     payoutResult: { id: string; arrival_date: string },
     provider: 'stripe' | 'paypal' | 'authorize_net' | 'payoneer',
+    currency: string,
   ) {
     // Registrar en una tabla de transacciones de payout
     // Esto requeriría una nueva tabla payout_transactions
     const { error } = await this.client.from('payout_transactions').insert({
       user_id: userId,
       amount_cents: amountCents,
-      currency: 'USD',
+      currency,
       provider,
       external_id: payoutResult.id,
       status: 'pending',
@@ -125,6 +125,7 @@ const toOrderTrackingSummary = (
     statusLabel: latest.status,
     responsible_company: latest.responsibleCompany ?? null,
     tracking_code: latest.trackingCode ?? null,
+    tracking_url: latest.trackingUrl ?? null,
     location: latest.location ?? null,
     estimated_delivery: latest.estimatedDelivery,
     updated_at: latest.eventTime,
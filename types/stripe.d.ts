@@ -21,8 +21,23 @@ declare module 'stripe' {
     [key: string]: unknown;
   }
 
+  interface StripeList<T> {
+    data: T[];
+    has_more: boolean;
+  }
+
   interface StripeCheckoutSessionsApi {
     create(params: Record<string, unknown>): Promise<CheckoutSession>;
+    list(params: Record<string, unknown>): Promise<StripeList<CheckoutSession>>;
+  }
+
+  interface Charge {
+    id: string;
+    [key: string]: unknown;
+  }
+
+  interface StripeChargesApi {
+    retrieve(id: string): Promise<Charge>;
   }
 
   interface StripeCheckoutApi {
@@ -36,6 +51,7 @@ declare module 'stripe' {
   export default class Stripe {
     constructor(apiKey: string, options?: StripeOptions);
     checkout: StripeCheckoutApi;
+    charges: StripeChargesApi;
     webhooks: StripeWebhooksApi;
   }
 